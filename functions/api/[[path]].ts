@@ -9,6 +9,7 @@
  *  - Rate limiting per IP (auth: 10/min, POST: 60/min, global: 300/min)
  *  - Security headers (strips server info, adds nosniff/DENY)
  *  - X-Forwarded-For / X-Real-IP for real client IP on the server
+ *  - Personalized requests (X-User-Token, e.g. B2B price tiers) never touch the cache
  *
  * Route: /api/<anything> → Supabase Edge Function /<anything>
  */
@@ -114,6 +115,21 @@ function cacheKey(path: string, search: string): string {
   return "api:" + path + (search || "");
 }
 
+/**
+ * Requests carrying a user token may get customer-specific data (B2B price
+ * tiers, etc.), so they bypass the shared cache entirely — both read and write.
+ */
+function isPersonalized(request: Request): boolean {
+  return !!request.headers.get("X-User-Token");
+}
+
+/** Responses the origin marked as per-user must never be stored */
+function isStorable(resp: Response): boolean {
+  var cc = (resp.headers.get("Cache-Control") || "").toLowerCase();
+  var vary = (resp.headers.get("Vary") || "").toLowerCase();
+  return cc.indexOf("private") === -1 && vary.indexOf("x-user-token") === -1;
+}
+
 /** Find the cache rule that matches a given path */
 function matchCacheRule(path: string): { ttl: number; tag: string } | null {
   for (var i = 0; i < CACHE_RULES.length; i++) {
@@ -171,7 +187,7 @@ export async function onRequest(context: {
   var kv = env.CACHE || null;
 
   // ── KV Cache: check for GET requests on cacheable routes ──────
-  if (request.method === "GET" && kv) {
+  if (request.method === "GET" && kv && !isPersonalized(request)) {
     var rule = matchCacheRule(path);
     if (rule) {
       var key = cacheKey(path, url.search);
@@ -236,7 +252,7 @@ export async function onRequest(context: {
     outHeaders.set("Referrer-Policy", "strict-origin-when-cross-origin");
 
     // ── KV Cache: store successful GET responses ──────────────
-    if (request.method === "GET" && kv && resp.ok) {
+    if (request.method === "GET" && kv && resp.ok && !isPersonalized(request) && isStorable(resp)) {
       var rule2 = matchCacheRule(path);
       if (rule2) {
         var bodyText = await resp.text();
@@ -30,6 +30,8 @@
  * - O BANCO e o Supabase PostgreSQL com uma unica tabela KV (kv_store_b7b07654).
  *   Toda a persistencia usa chave-valor (key-value), sem schema relacional.
  *   Razao: limitacao do ambiente Figma Make (nao suporta migrations SQL).
+ *   Excecao: supabase/migrations/ adiciona a coluna version (compare-and-swap)
+ *   e a tabela kv_locks_b7b07654 (locks entre isolates) — ver kv_atomic.tsx.
  *
  * - A API SIGE e o sistema ERP externo que fornece:
  *   - Catalogo de produtos (titulos, SKUs, referencias)
@@ -67,9 +69,11 @@
  * │   ├── CouponMegaMenu.tsx     # Mega menu de cupons no header
  * │   ├── ShippingCalculator.tsx # Calculadora de frete (CEP → opcoes)
  * │   ├── ProductReviews.tsx     # Sistema de avaliacoes do produto
+ * │   ├── ProductQuestions.tsx   # Perguntas e respostas do produto (+ JSON-LD QAPage)
  * │   ├── ProductReels.tsx       # Reels na pagina de detalhe do produto
  * │   ├── ShareButtons.tsx       # Botoes de compartilhamento social
  * │   ├── WishlistButton.tsx     # Botao de favoritar (coracao)
+ * │   ├── ProductAlertButton.tsx # Aviso "chegou no estoque" / "baixou o preco" (produto e favoritos)
  * │   ├── AddToCartButton.tsx    # Botao "Adicionar ao Carrinho"
  * │   ├── CheckoutAddressManager.tsx # Gerenciador de enderecos no checkout
  * │   ├── MobileBottomNav.tsx    # Navegacao inferior mobile (tabs fixas)
@@ -91,6 +95,8 @@
  * │   ├── JsonLdBreadcrumb.tsx   # Breadcrumb com structured data
  * │   ├── SwipeHint.tsx          # Dica visual de swipe mobile
  * │   ├── TrackingTimeline.tsx   # Timeline de rastreio de pedidos
+ * │   ├── OrderReturns.tsx       # Trocas/devolucoes do pedido (Minha Conta)
+ * │   ├── MyWarranties.tsx       # Garantias compradas + "Acionar garantia" (Minha Conta)
  * │   ├── AvatarPicker.tsx       # Seletor de avatar do perfil
  * │   ├── HeaderCepInput.tsx     # Input de CEP no header
  * │   ├── ProductCardSkeleton.tsx # Skeleton do card de produto
@@ -112,6 +118,10 @@
  * │   ├── AffiliatePage.tsx      # Pagina de afiliados
  * │   ├── CouponsPage.tsx        # Pagina de cupons disponiveis
  * │   ├── TrackingPage.tsx       # Rastreio de pedido
+ * │   ├── ProductAlertUnsubscribePage.tsx # Cancelamento de aviso pelo link do e-mail/WhatsApp
+ * │   ├── ProductAlertConfirmPage.tsx # Confirmacao do aviso de visitante (link assinado do e-mail)
+ * │   ├── WhatsAppOptOutPage.tsx # Descadastro das ofertas por WhatsApp (link assinado do disparo)
+ * │   ├── EmailPreferencesPage.tsx # Descadastro e assuntos do email marketing (link assinado)
  * │   ├── FaqPage.tsx            # Perguntas frequentes
  * │   ├── PrivacyPolicyPage.tsx  # Politica de privacidade (LGPD)
  * │   ├── TermsPage.tsx          # Termos de uso
@@ -126,15 +136,18 @@
  * │       ├── AdminProducts.tsx   # CRUD de produtos
  * │       ├── AdminCategories.tsx # CRUD de categorias
  * │       ├── AdminOrders.tsx     # Gestao de pedidos
+ * │       ├── AdminReturns.tsx    # Fila de trocas e devolucoes (RMA)
  * │       ├── AdminClients.tsx    # Lista de clientes
  * │       ├── AdminBanners.tsx    # Gestao de banners da homepage
  * │       ├── AdminMidBanners.tsx # Banners intermediarios da homepage
- * │       ├── AdminSuperPromo.tsx # Configuracao da Super Promocao
+ * │       ├── AdminSuperPromo.tsx # Campanhas Super Promo (lista + editor)
+ * │       ├── SuperPromoCalendar.tsx # Calendario mensal das campanhas
  * │       ├── AdminCoupons.tsx    # CRUD de cupons de desconto
  * │       ├── AdminBrands.tsx     # Gestao de marcas
  * │       ├── AdminReels.tsx      # Upload/gestao de reels (videos curtos)
  * │       ├── AdminInfluencers.tsx # Gestao de influenciadores
- * │       ├── AdminReviews.tsx    # Moderacao de avaliacoes
+ * │       ├── AdminReviews.tsx    # Moderacao de avaliacoes + pedidos de avaliacao pos-compra
+ * │       ├── AdminProductQuestions.tsx # Moderacao e resposta das perguntas de produto
  * │       ├── AdminSettings.tsx   # Configuracoes gerais do site
  * │       ├── AdminShipping.tsx   # Configuracao de frete
  * │       ├── AdminShippingTables.tsx # Tabelas de frete customizadas
@@ -142,14 +155,19 @@
  * │       ├── AdminFooterBadges.tsx # Selos do rodape (pagamento, etc.)
  * │       ├── AdminGA4.tsx        # Configuracao Google Analytics 4
  * │       ├── AdminMarketing.tsx  # Pixels de marketing
- * │       ├── AdminEmailMarketing.tsx # Campanhas de email
+ * │       ├── AdminEmailMarketing.tsx # Campanhas de email (fila, agendamento, destinatarios, aberturas/cliques/vendas)
  * │       ├── AdminExitIntent.tsx # Configuracao do popup de saida
- * │       ├── AdminWhatsApp.tsx   # Configuracao do WhatsApp
+ * │       ├── AdminWhatsApp.tsx   # Configuracao do WhatsApp e disparos para segmentos
  * │       ├── AdminApiSige.tsx    # Painel de integracao SIGE (testes, debug)
  * │       ├── AdminPagHiper.tsx   # Config gateway PagHiper (boleto/pix)
  * │       ├── AdminMercadoPago.tsx # Config Mercado Pago
  * │       ├── AdminAffiliates.tsx # Gestao de afiliados
  * │       ├── AdminWarranty.tsx   # Planos de garantia estendida
+ * │       ├── AdminWarrantyClaims.tsx # Acionamentos de garantia + garantias vendidas
+ * │       ├── AdminStockReservations.tsx # Reservas de estoque de pedidos aguardando pagamento
+ * │       ├── AdminProductAlerts.tsx # Avisos de estoque/preco por produto (inscritos, envios)
+ * │       ├── AdminSegments.tsx   # Segmentos de clientes por comportamento (regras + previa ao vivo)
+ * │       ├── AdminSigeSync.tsx   # Sincronizacao agendada com o SIGE (execucoes, diario de mudancas)
  * │       ├── AdminAuditLog.tsx   # Log de auditoria (acoes do admin)
  * │       ├── AdminAdmins.tsx     # Gestao de administradores + permissoes
  * │       ├── AdminAttributes.tsx # Atributos de produtos (Excel upload)
@@ -167,10 +185,11 @@
  * │       └── Sige*.tsx           # ~15 modulos de integracao detalhada com SIGE
  * │
  * ├── contexts/                  # React Contexts (estado global)
- * │   ├── CartContext.tsx         # Carrinho de compras (localStorage + estado)
+ * │   ├── CartContext.tsx         # Carrinho de compras (localStorage + /user/cart)
  * │   ├── WishlistContext.tsx     # Lista de desejos (sincronizada com servidor)
  * │   ├── AffiliateContext.tsx    # Codigo de afiliado (URL ?ref=CODE → cookie)
  * │   ├── CatalogModeContext.tsx  # Modo catalogo (oculta precos se ativo)
+ * │   ├── PriceTierContext.tsx    # Tabela de preco B2B do cliente logado
  * │   └── HomepageInitContext.tsx # Cache da homepage (dados iniciais com TTL)
  * │
  * ├── services/                  # Camada de servicos
@@ -193,13 +212,38 @@
  * │
  * └── data/                      # Dados estaticos/defaults
  *     ├── categoryTree.ts        # Arvore de categorias padrao
+ *     ├── orderStatus.ts         # Rotulos/cores/icones dos status de pedido
+ *     ├── rma.ts                 # Rotulos/cores das trocas e devolucoes
+ *     ├── warrantyClaims.ts      # Rotulos/cores das garantias vendidas e acionamentos
  *     └── products.ts            # Tipos de produto
  *
  * /supabase/functions/server/    # Backend (Supabase Edge Function)
  * ├── index.tsx                  # Servidor Hono principal (~23k linhas, ~400 rotas)
  * ├── kv_store.tsx               # Utilitario KV (get/set/del/mget/mset)
+ * ├── kv_atomic.tsx              # KV compare-and-swap por versao + locks duraveis (kv_locks_b7b07654)
  * ├── seed.tsx                   # Seed inicial de dados
  * ├── validation.ts              # Validacao e sanitizacao de inputs
+ * ├── promo_engine.ts            # Regras de cupom (escopo, leve X pague Y, progressivo, frete gratis)
+ * ├── super_promo.ts             # Campanhas Super Promo: normalizacao + campanha vencedora por SKU
+ * ├── order_status.ts            # Maquina de estados dos pedidos + historico de status
+ * ├── refunds.ts                 # Reembolsos: modos total/valor/itens + provedor simulado
+ * ├── rma.ts                     # Trocas/devolucoes: prazos, itens, valor de reembolso, transicoes
+ * ├── warranty.ts                # Garantias vendidas (derivadas dos pedidos) + acionamentos
+ * ├── pickup.ts                  # Retire na loja: saldo por filial, opcoes de retirada, codigo
+ * ├── packing.ts                 # Peso cubado + divisao do carrinho em volumes por transportadora
+ * ├── shipping_quote.ts          # Cotacao manual/tabela com breakdown por transportadora + diff (simulador)
+ * ├── shipping_tables.ts         # Versoes das tabelas de frete (vigencia, diff de importacao, rollback)
+ * ├── stock_reservations.ts      # Reservas de estoque do checkout (validade por pagamento, saldo publico)
+ * ├── product_alerts.ts          # Avisos de volta ao estoque e baixa de preco (inscricao, disparo, token)
+ * ├── sige_catalog_sync.ts       # Sync agendado com o SIGE: cursores, diario de mudancas, saude
+ * ├── email_campaign_queue.ts    # Fila de envio das campanhas de email: blocos, limites SMTP, retentativas
+ * ├── email_tracking.ts          # Abertura/clique, descadastro, preferencias e bounces do email marketing
+ * ├── customer_segments.ts       # Segmentos de clientes: regras, avaliacao, disparos de WhatsApp
+ * ├── review_requests.ts         # Pedido de avaliacao pos-compra: agenda, link assinado, conversao, cupom
+ * ├── product_questions.ts       # Perguntas e respostas de produto: moderacao, fila, aviso ao cliente
+ * ├── signed_tokens.ts           # Links assinados sem login (HMAC por finalidade): e-mail, avaliacao, avisos
+ * ├── audit.ts                   # Trilha de auditoria: rotas auditadas, snapshot/diff de KV, reversao
+ * ├── admin_roles.ts             # Papeis de admin: recursos, leitura/escrita por rota, acoes sensiveis
  * └── test-shipping-handler.ts   # Handler de teste de frete
  *
  * ═══════════════════════════════════════════════════════════════════════════════
@@ -226,6 +270,10 @@
  * │ /afiliados                          │ Programa de afiliados                        │
  * │ /cupons                             │ Cupons de desconto disponiveis               │
  * │ /rastreio/:orderId                  │ Rastreamento de pedido                       │
+ * │ /avisos/cancelar                    │ Cancelamento de aviso de estoque/preco       │
+ * │ /avisos/confirmar                   │ Confirmacao de aviso pedido por visitante    │
+ * │ /whatsapp/sair                      │ Descadastro das ofertas por WhatsApp         │
+ * │ /email/preferencias                 │ Descadastro/preferencias do email marketing  │
  * │ /faq                                │ Perguntas frequentes                         │
  * │ /politica-de-privacidade            │ Politica de Privacidade (LGPD)               │
  * │ /termos-de-uso                      │ Termos de Uso                                │
@@ -259,8 +307,13 @@
  * POST /auth/claim-admin          → Reivindica role de admin
  * POST /auth/admin-whitelist      → Adiciona/remove email da whitelist admin
  * GET  /auth/admin-whitelist      → Lista emails da whitelist admin
- * GET  /auth/admin-list           → Lista todos admins com detalhes
- * POST /auth/admin-permissions    → Define permissoes por tab para admin
+ * GET  /auth/admin-list           → Lista admins com papeis/acesso + papeis e recursos
+ * POST /auth/admin-permissions    → Define papeis (roles) do admin (ou lista de abas antiga)
+ * GET  /admin/roles               → Papeis e recursos (admin_roles.ts)
+ * PUT  /admin/roles               → Salva a lista de papeis (master)
+ * GET  /admin/approvals           → Solicitacoes de aprovacao (master: todas; outros: as proprias)
+ * POST /admin/approvals/:id/approve → Master aprova: a requisicao guardada e executada
+ * POST /admin/approvals/:id/reject  → Master recusa / solicitante cancela
  * GET  /auth/check-admin          → Verifica se usuario autenticado e admin
  * GET  /auth/me                   → Retorna dados do usuario autenticado
  * POST /auth/forgot-password      → Envia email de recuperacao de senha (admin)
@@ -292,6 +345,12 @@
  * POST   /auth/user/favorites     → Adiciona favorito
  * DELETE /auth/user/favorites/:sku → Remove favorito
  *
+ * ── CARRINHO DO CLIENTE (sincronizado entre dispositivos) ──
+ * GET    /user/cart               → Carrinho salvo, com preco/estoque revalidados (changes)
+ * PUT    /user/cart               → Salva itens, garantias e cupom
+ * POST   /user/cart/merge         → Une o carrinho de visitante ao da conta (login)
+ * DELETE /user/cart               → Esvazia o carrinho salvo
+ *
  * ── CLIENTES (admin) ──
  * GET  /auth/admin/clients        → Lista paginada de clientes (admin)
  *
@@ -305,6 +364,7 @@
  * ── CATALOGO PUBLICO (integrado com SIGE) ──
  * GET  /produtos                  → Lista paginada com filtros (busca, categoria, etc.)
  *                                   Fonte: KV + SIGE via cache
+ *                                   ?vMake=&vModel=&vYear=&vEngine= → so pecas com aplicacao exata
  * GET  /produtos/destaques        → Produtos em destaque para homepage
  * GET  /produtos/autocomplete     → Autocomplete de busca (titulo + SKU)
  * GET  /produtos/imagens/:sku     → Imagens do produto (Supabase Storage)
@@ -346,6 +406,10 @@
  * POST /sige/precos/bulk          → Precos em lote (ate 50 SKUs, cache 5min)
  * GET  /admin/price-config        → Config de tier de preco ativo (V1-V5)
  * PUT  /admin/price-config        → Altera tier de preco
+ * GET  /user/price-tier           → Tabela B2B do cliente logado (individual ou grupo)
+ * GET  /admin/price-tiers         → Grupos de clientes + tier global
+ * PUT  /admin/price-tiers/groups  → Salva grupos de clientes (nome → tabela V1-V3)
+ * PUT  /admin/clients/:id/price-tier → Atribui tabela e/ou grupo ao cliente
  *
  * ── SALDOS/ESTOQUE (integrado SIGE) ──
  * GET  /sige/saldo/:sku           → Saldo de um produto (cache 15min)
@@ -363,12 +427,14 @@
  * ... (+ ~30 outras rotas SIGE para modulos de integracao)
  *
  * ── SUPER PROMOCAO ──
- * GET  /promo/active              → Promocao ativa atual (publico)
- * GET  /promo/debug               → Debug detalhado da promo (diagnostico)
- * GET  /promo/active-test         → Simula homepage-init para promo + limpa cache
- * GET  /admin/promo               → Config completa da promo (admin)
- * POST /admin/promo               → Salva config da promo
- * DELETE /admin/promo              → Desativa promo
+ * GET  /promo/active              → Campanhas ativas resolvidas por SKU + slots da home (publico)
+ * GET  /promo/debug               → Status/prioridade/SKUs vencidos de cada campanha
+ * GET  /promo/active-test         → Resolve campanhas sem cache + limpa cache
+ * GET  /admin/promo               → Campanha do slot "top" (admin)
+ * GET  /admin/promo/campaigns     → Todas as campanhas (passadas/ativas/agendadas)
+ * POST /admin/promo/campaigns     → Cria campanha
+ * PUT  /admin/promo/campaigns/:id → Atualiza campanha
+ * DELETE /admin/promo/campaigns/:id → Remove campanha
  *
  * ── BANNERS ──
  * GET    /admin/banners           → Lista banners
@@ -412,21 +478,28 @@
  * ── FRETE ──
  * GET  /shipping/config           → Config de frete (API key, metodo, etc.)
  * PUT  /shipping/config           → Salva config de frete
- * POST /shipping/calculate        → Calcula frete (CEP origem → destino + peso)
+ * POST /shipping/calculate        → Calcula frete (CEP origem → destino + peso) + "Retire na loja"
  * POST /shipping/test-api         → Testa API de frete
  * GET  /shipping/cep/:cep         → Consulta CEP (via ViaCEP)
  * GET  /shipping/debug-product/:sku → Debug de frete para produto especifico
- * POST /shipping/tables           → Cria/atualiza tabela de frete customizada
- * GET  /shipping/tables           → Lista tabelas de frete
- * GET  /shipping/tables/:id       → Detalhe de tabela
+ * POST /shipping/tables           → Cria tabela de frete customizada (versao 1)
+ * GET  /shipping/tables           → Lista tabelas de frete (versao vigente + historico)
+ * POST /shipping/tables/diff      → Compara linhas do CSV com a versao vigente (nao grava)
+ * GET  /shipping/tables/:id       → Detalhe de tabela (?version= linhas de uma versao)
+ * POST /shipping/tables/:id/versions → Nova versao (validFrom/validTo)
+ * POST /shipping/tables/:id/rollback → Desativa a versao vigente (volta a anterior)
+ * PUT  /shipping/tables/:id/versions/:versionId → Ativa/desativa versao
+ * PUT  /shipping/tables/:id/packing → Fator de cubagem + limites de volume da tabela
+ * POST /admin/shipping/simulate   → Reproduz cotacao gravada / carrinho hipotetico (config salva x rascunho)
  * DELETE /shipping/tables/:id     → Remove tabela
  *
  * ── PEDIDOS ──
  * POST /orders                    → Cria pedido (checkout)
  * GET  /orders                    → Lista pedidos do usuario
  * GET  /orders/:id                → Detalhe do pedido
- * GET  /admin/orders              → Lista pedidos (admin)
- * PUT  /admin/orders/:id          → Atualiza status do pedido
+ * GET  /admin/orders              → Lista pedidos (admin) + statusHistory + nextStatuses
+ * POST /admin/update-order-status → Transicao de status (409 se ilegal; nota opcional no historico)
+ * POST /user/update-order-status  → Cliente: vincula transacao / cancela pedido nao pago
  *
  * ── PAGAMENTOS ──
  * POST /payment/paghiper/pix      → Gera QR code PIX (PagHiper)
@@ -438,7 +511,7 @@
  *
  * ── CUPONS ──
  * GET  /coupons/public            → Lista cupons publicos
- * POST /coupons/validate          → Valida cupom no checkout
+ * POST /coupons/validate          → Valida cupom pelas linhas do carrinho + frete (promo_engine.ts)
  * GET  /admin/coupons             → Lista cupons (admin)
  * POST /admin/coupons             → Cria cupom
  * PUT  /admin/coupons/:id         → Atualiza cupom
@@ -469,6 +542,16 @@
  * PUT    /admin/brands/:id        → Atualiza marca
  * DELETE /admin/brands/:id        → Remove marca
  *
+ * ── VEICULOS & APLICACAO (fitment estruturado) ──
+ * GET  /vehicles/catalog           → Arvore montadora → modelo → versoes (ano/motor)
+ * PUT  /admin/vehicles/catalog     → Salva catalogo de veiculos
+ * POST /admin/fitment/migrate      → Converte compatibilidade texto livre em aplicacoes
+ * GET  /admin/fitment/review       → Fila de linhas que o parser nao entendeu
+ * POST /admin/fitment/review/:id/resolve → Resolve item da fila (aplicacoes/universal/descartar)
+ * GET  /vehicles/category-counts  → Pecas por categoria que servem no veiculo (mega menu)
+ * GET  /auth/user/vehicle          → Veiculo "Minha Garagem" do cliente
+ * PUT  /auth/user/vehicle          → Salva/remove veiculo "Minha Garagem"
+ *
  * ── REELS (videos curtos) ──
  * GET    /reels                   → Lista reels publicos
  * GET    /reels/:sku              → Reels de um produto
@@ -493,7 +576,7 @@
  * GET /homepage-init              → Retorna TODOS os dados da homepage em 1 chamada:
  *                                   banners, logo, footerLogo, ga4Config,
  *                                   categoryTree, categoryCounts, promo,
- *                                   priceConfig, homepageCategories, midBanners,
+ *                                   promoCampaigns, promoSlots, priceConfig, homepageCategories, midBanners,
  *                                   footerBadges, brands, marketingConfig,
  *                                   exitIntentConfig, googleReviewsConfig
  *                                   Cache em memoria: 10s TTL no servidor
@@ -505,7 +588,8 @@
  *                                   Cache per-SKU: 60s TTL no servidor
  *
  * ── AUDIT LOG ──
- * GET  /admin/audit-log           → Lista entradas do audit log
+ * GET  /admin/audit-log           → Lista entradas do audit log (?entity=product:123 filtra por chave/tipo)
+ * POST /admin/audit-log/:id/revert → Restaura os valores "antes" da entrada ({ force } ignora conflitos)
  *
  * ── AUTO-CATEGORIZACAO ──
  * POST /admin/auto-categorize     → Categoriza produtos automaticamente
@@ -558,13 +642,17 @@
  *
  * <ErrorBoundary>              # Captura erros fatais em qualquer nivel
  *   <CatalogModeProvider>      # Modo catalogo global (oculta precos)
- *     <AffiliateProvider>      # Rastreamento de afiliados (?ref=CODE)
- *       <CartProvider>         # Estado do carrinho (localStorage + React state)
- *         <WishlistProvider>   # Favoritos (sincronizado com servidor)
- *           <RouterProvider>   # React Router com todas as rotas
- *         </WishlistProvider>
- *       </CartProvider>
- *     </AffiliateProvider>
+ *     <PriceTierProvider>      # Tabela de preco B2B do cliente logado
+ *       <AffiliateProvider>    # Rastreamento de afiliados (?ref=CODE)
+ *         <CartProvider>       # Estado do carrinho (localStorage + /user/cart se logado)
+ *           <WishlistProvider> # Favoritos (sincronizado com servidor)
+ *             <GarageProvider> # Veiculo "Minha Garagem" (localStorage + user_profile)
+ *               <RouterProvider> # React Router com todas as rotas
+ *             </GarageProvider>
+ *           </WishlistProvider>
+ *         </CartProvider>
+ *       </AffiliateProvider>
+ *     </PriceTierProvider>
  *   </CatalogModeProvider>
  * </ErrorBoundary>
  *
@@ -664,7 +752,7 @@
  * - Admin salva algo → frontend chama invalidateHomepageCache()
  *   → limpa _cachedData + incrementa _cacheVersion → listener re-fetch
  * - Admin limpa cache → clearAllPriceCache() + invalidateHomepageCache()
- * - Servidor: POST /admin/promo → invalida _homepageInitCache no isolate atual
+ * - Servidor: POST/PUT /admin/promo/campaigns → invalida _homepageInitCache no isolate atual
  *   (outros isolates expiram pelo TTL de 10s naturalmente)
  *
  * ═══════════════════════════════════════════════════════════════════════════════
@@ -687,6 +775,16 @@
  * - Extrai precoV1 (ou V2, V3... conforme tier configurado)
  * - Retorna null se nao encontrado
  *
+ * TABELAS B2B (por cliente / grupo de clientes):
+ * - Admin atribui tabela individual ou grupo em AdminClients
+ *   (user_profile.priceTier / priceGroupId; grupos em price_tier_groups)
+ * - Resolucao: tabela do cliente → tabela do grupo → price_config.tier
+ * - Caches sige_price_* guardam sempre o preco do tier global; o tier do
+ *   cliente e aplicado na saida (_applyPriceTier) das rotas de preco,
+ *   produto-detail-init e na validacao de pagamento (_validatePaymentPrices)
+ * - Requisicoes com X-User-Token nunca sao lidas/gravadas no cache KV do
+ *   edge (functions/api), entao precos nao vazam entre tabelas
+ *
  * ═══════════════════════════════════════════════════════════════════════════════
  * 10. SEGURANCA
  * ═══════════════════════════════════════════════════════════════════════════════
@@ -702,9 +800,38 @@
  * AUTORIZACAO ADMIN:
  * - Master admin hardcoded (email fixo)
  * - Whitelist de admins no KV (chave "admin_emails")
- * - Permissoes granulares por tab (chave "admin_perms:<email>")
+ * - Papeis (admin_roles.ts, chave "admin_roles") com leitura/escrita por recurso;
+ *   admin_access:<email> guarda os papeis do admin. Sem papeis vale a lista de
+ *   abas antiga (admin_perms:<email>) como escrita nos recursos dessas abas
+ * - adminGuard confere o recurso da rota (GET = leitura, resto = escrita) e
+ *   responde 403 sem permissao; as abas visiveis saem do mesmo acesso
+ * - Acoes sensiveis (reembolsos, config PagHiper/Mercado Pago, config de precos,
+ *   gestao de admins/papeis, reversao do log) feitas por quem nao e master
+ *   viram admin_approval:<id> (202); o master aprova e a requisicao e repetida
+ *   com a sessao dele (header x-approval-id), ou recusa. Expiram em 7 dias
  * - isAdminUser() verifica token → user_metadata.role === "admin"
  *
+ * TRILHA DE AUDITORIA (audit.ts):
+ * - Middleware em escritas de /admin/*, /produtos/*, /price-config, /sige/* e
+ *   rotas de config: o wrapper de kv captura o valor anterior de cada chave
+ *   (AsyncLocalStorage por requisicao) e grava admin_audit:<id> com ator, IP,
+ *   rota, status e o diff JSON antes/depois de cada chave
+ * - Chamadas ao SIGE sem escrita no KV tambem geram entrada
+ * - Segredos sao mascarados; valores mascarados ou grandes nao sao reversiveis
+ * - Reverter recusa (409) se a chave mudou depois da entrada, salvo com force
+ * - Entradas do servidor nao podem ser excluidas pelo painel
+ *
+ * CONCORRENCIA (kv_atomic.tsx):
+ * - withMutex so serializa dentro de um isolate; varios isolates atendem ao mesmo tempo
+ * - kv.update(key, fn): le valor + versao e grava so se a versao nao mudou
+ *   (trigger incrementa version em todo UPDATE, inclusive os sets comuns);
+ *   em conflito rele e reaplica fn. Usado no consumo de cupom (/coupons/use)
+ * - withKvLock(key, fn): linha em kv_locks_b7b07654 (TTL 30s, espera ate 10s,
+ *   depois 409). Todas as escritas de user_order:* com efeitos externos
+ *   (status, reembolso, RMA, webhooks PagHiper/Mercado Pago, reconciliacao)
+ *   seguram o lock com o nome da chave do pedido
+ * - Sem a migration os dois caem para get/set simples + withMutex (aviso no log)
+ *
  * INPUT VALIDATION:
  * - validation.ts: schema-based validation no servidor
  * - _stripTags(): remove HTML tags (previne stored XSS)
@@ -763,7 +890,8 @@
  * 12. FLUXO DE CHECKOUT
  * ═══════════════════════════════════════════════════════════════════════════════
  *
- * 1. Usuario adiciona produtos ao carrinho (CartContext → localStorage)
+ * 1. Usuario adiciona produtos ao carrinho (CartContext → localStorage;
+ *    logado: tambem /user/cart, com merge do carrinho de visitante no login)
  * 2. CartDrawer mostra resumo; usuario clica "Finalizar"
  * 3. CheckoutPage:
  *    a. Se nao logado → redireciona para /conta
@@ -777,22 +905,167 @@
  *    f. POST /orders → cria pedido no backend
  *    g. Backend sincroniza com SIGE se configurado
  * 4. CartAbandonedTracker: se usuario sai sem finalizar,
- *    salva snapshot para recuperacao via WhatsApp
+ *    registra snapshot wa_cart:* para recuperacao via WhatsApp
+ *    (aponta para user_cart:<userId> — itens nao sao duplicados)
+ * 5. Status do pedido (order_status.ts):
+ *    awaiting_payment → paid → invoiced → picking → shipped → delivered
+ *    + cancelled (antes do envio) e delivered → return_requested → returned.
+ *    Webhooks (PagHiper/Mercado Pago), admin e cliente passam por transitionOrder(),
+ *    que rejeita transicoes ilegais e grava { from, to, at, by, note } em
+ *    user_order.statusHistory. AdminOrders, "Meus Pedidos" e TrackingTimeline
+ *    (OrderStatusTimeline) renderizam a partir desse historico.
+ * 6. Trocas e devolucoes (rma.ts, KV rma:<id>):
+ *    cliente abre em "Meus Pedidos" (POST /user/rma + fotos) ate 7 dias apos a
+ *    entrega (arrependimento) ou 90 dias (defeito/produto errado); o pedido vai
+ *    para return_requested. Admin (AdminReturns) aprova/recusa, emite a etiqueta
+ *    reversa (SisFrete ou codigo manual), registra o recebimento (entrada no SIGE
+ *    se rma_config.sigeReturnTipoMv) e conclui com reembolso (estorno Mercado Pago
+ *    ou manual, gravado em user_order.refunds; comissao de afiliado ajustada) ou troca.
+ * 7. Reembolsos (refunds.ts, POST /admin/orders/refund): AdminOrders reembolsa o
+ *    restante, um valor ou linhas de itens (com preview do valor). Cartao → API de
+ *    refunds do Mercado Pago; PIX/boleto → manual pendente (PagHiper nao estorna
+ *    cobrancas pagas): reserva o saldo e so entra em refundedTotal/comissao
+ *    quando o admin confirma a transferencia (POST /admin/orders/refund/confirm).
+ *    Receita do dashboard = total - refundedTotal;
+ *    comissoes pendentes de afiliado sao recalculadas. PAYMENT_REFUND_MOCK=true
+ *    usa o provedor simulado para testes offline.
+ * 8. Garantia estendida (warranty.ts): o registro e calculado dos pedidos pagos
+ *    (items[].warranty → certificado GE-<pedido>-NNN, vigente do pagamento ate
+ *    pagamento + durationMonths) e caduca sozinho quando o pedido/linha e
+ *    reembolsado, cancelado ou devolvido. Cliente aciona em "Garantias"
+ *    (POST /user/warranty-claims, KV warranty_claim:<id>); admin
+ *    (AdminWarrantyClaims) aprova/recusa, registra a reposicao enviada e conclui.
+ * 9. Retire na loja (pickup.ts): filiais com pickupEnabled + sigeCodFilial
+ *    (AdminBranches) viram opcoes "pickup:<branchId>" em /shipping/calculate quando
+ *    o saldo SIGE da filial (sige_branch_stock_<sku>, 5 min) cobre todos os itens.
+ *    O pedido no SIGE e criado com o codFilial da filial; user_order.pickup guarda
+ *    a filial. picking → ready_for_pickup gera o codigo de retirada (e-mail
+ *    pickup_ready) e so vai para delivered com o codigo conferido no balcao.
+ * 10. Peso cubado (packing.ts): cada transportadora manual e cada tabela CSV tem
+ *    cubicFactor (kg/m³) e packageLimits. /shipping/calculate divide o carrinho em
+ *    volumes por transportadora, cota cada volume pelo maior entre peso real e
+ *    cubado e soma; item que nao cabe nos limites esconde a opcao. O plano de
+ *    volumes volta em _enrichment.packing ("Simular Volumes" no AdminShipping).
+ * 11. Replay de frete (shipping_quote.ts): shipping_quote:<id> guarda, alem das
+ *    opcoes validadas no checkout, o input (CEP, UF/regiao, fallback de CEP, itens
+ *    com peso/dimensoes, valor) e o breakdown por transportadora (regra casada,
+ *    faixa da tabela por volume, resposta da API). O pedido guarda
+ *    shippingOption.shippingQuoteId; a aba "Simulador" do AdminShipping reproduz a
+ *    cotacao ou um carrinho hipotetico contra a config salva ou o rascunho da tela
+ *    e mostra a diferenca por transportadora. Respostas de API sao reaproveitadas.
+ * 12. Versoes de tabela (shipping_tables.ts): shipping_table:<id> guarda versions[]
+ *    (validFrom/validTo) e as linhas ficam em shipping_table_version:<id>:<vid>.
+ *    A cotacao usa a versao vigente no momento (o replay, a da data da cotacao).
+ *    "Nova versao" mostra antes de gravar o diff contra a vigente (linhas novas,
+ *    removidas, preco alterado) e lacunas/sobreposicoes de CEP; "Reverter"
+ *    desativa a vigente e a anterior volta a valer. Tabelas antigas (rows no
+ *    registro) viram a versao 1 na primeira alteracao.
+ * 13. Reservas de estoque (stock_reservations.ts): o save-order grava em
+ *    stock_reservation:<sku> uma reserva por pedido aguardando pagamento, com
+ *    validade pelo meio de pagamento (PIX 30 min, boleto 4 dias, Mercado Pago 2 h)
+ *    e user_order.stockReservation lembra os SKUs. /produtos/saldo(s) devolve
+ *    disponivel = saldo SIGE − reservas ativas (+ reservadoPedidos) e o
+ *    _validateStock da criacao da cobranca desconta as reservas de outros
+ *    pedidos. A reserva sai quando o pedido deixa awaiting_payment (pago,
+ *    cancelado, webhook, reconciliacao) ou vence; reserva acima do saldo fica
+ *    marcada "short". Admin acompanha e libera em "Reservas de Estoque".
+ * 14. Avisos de produto (product_alerts.ts): product_alerts:<sku> guarda os
+ *    inscritos (cliente logado ou visitante por e-mail) de "chegou no estoque"
+ *    e "baixou o preco" (preco-alvo). WhatsApp so do cadastro do cliente logado
+ *    com whatsappOptIn e sem wa_optout; o aviso do visitante fica "pending" ate
+ *    o clique no link assinado (/avisos/confirmar, expira em 7 dias). product_alert_skus
+ *    indexa os SKUs com aviso ativo. Toda atualizacao de cache de saldo/preco
+ *    (saldo, saldos, stock-scan, sige-sync, preco, precos-bulk, preco custom)
+ *    verifica os SKUs indexados e o cron de 30 min varre o resto. O aviso e
+ *    marcado "sent" via kv.update antes do envio (um disparo por inscricao) e
+ *    leva link de cancelamento assinado (/avisos/cancelar). Admin ve inscritos e
+ *    entregas em "Avisos de Produto".
+ * 15. Sincronizacao agendada com o SIGE (sige_catalog_sync.ts): um cron (tick
+ *    de 5 min, intervalo configuravel, lock em kv_locks) pega um lote de SKUs da
+ *    loja a partir do cursor e chama /produtos/saldos e /produtos/precos-bulk
+ *    com force=true, aquecendo sige_balance_/sige_price_ (e os avisos de
+ *    produto); tambem le uma pagina de /product do SIGE para mapear SKUs e achar
+ *    codigos novos. O que mudou (SKU novo, preco de tabela, estoque zerado/de
+ *    volta) vai para sige_sync_journal; execucoes e falhas ficam em
+ *    sige_sync_runs e o dashboard avisa quando a sincronizacao falha ou atrasa.
+ *    Admin configura e consulta em "Sincronizacao SIGE".
+ * 16. Fila de campanhas de email (email_campaign_queue.ts): enviar (agora ou
+ *    agendado) so grava a fila — destinatarios em blocos emkt_queue:<id>:<n> e a
+ *    mensagem congelada em emkt_qmsg:<id>; campanhas agendadas fotografam os
+ *    assinantes na hora de comecar. Um cron de 1 min (lock em kv_locks) manda o
+ *    proximo lote dentro dos limites por minuto/hora do emkt_config, marcando
+ *    cada destinatario "sending" antes do SMTP: claims velhos voltam para a fila
+ *    depois de um crash. Erro temporario tenta de novo com espera crescente;
+ *    5xx falha na hora. Cada destinatario guarda seu resultado (Destinatarios na
+ *    campanha); o emkt_log resume o envio no fim. Pausar/retomar/cancelar pelo
+ *    admin. Para testar (fora de producao), um SMTP local (Mailpit/MailHog em
+ *    localhost/127.0.0.1/::1) dispensa usuario, senha e TLS.
+ * 17. Rastreio do email marketing (email_tracking.ts): cada email da fila leva
+ *    um token assinado "campanha|assinante" no pixel (/e/o), nos links
+ *    reescritos (/e/c/<token>/<n>, redireciona com UTM para o proprio site) e no
+ *    List-Unsubscribe one-click (/e/u). Os eventos vao para
+ *    emkt_track:<campanha>:<assinante>. O rodape leva a /email/preferencias
+ *    (descadastro e assuntos = tags do assinante). Bounce definitivo — recusa
+ *    SMTP no envio ou webhook do provedor — e reclamacao de spam desativam o
+ *    assinante com o motivo. Resultados da campanha cruzam quem clicou com
+ *    user_profile/user_order: pedidos pagos ate 7 dias depois do clique.
+ * 18. Segmentos de clientes (customer_segments.ts): customer_segment:<id> guarda
+ *    regras (comprou na categoria em N dias, carrinho abandonado acima de R$ Y,
+ *    favoritou SKU, veiculo da garagem, CPF/CNPJ, sem compra ha N dias),
+ *    combinadas com "todas" ou "qualquer". O servidor monta um retrato por
+ *    cliente a partir de user_profile/user_order/user_favorites/wa_cart (cache
+ *    de 2 min) e a previa conta os membros ao vivo. Campanha de email com
+ *    segmentId envia so para assinantes ativos que estao no segmento; disparo
+ *    de WhatsApp (wa_broadcast:<id>) congela os telefones do segmento e sai em
+ *    lotes de 20 por minuto — so para cadastrados com aceite de ofertas por
+ *    WhatsApp no perfil (whatsappOptIn), fora os de wa_optout:<telefone>. Toda
+ *    mensagem termina com o link assinado /whatsapp/sair (descadastro sem login).
+ * 19. Pedido de avaliacao pos-compra (review_requests.ts): quando o admin
+ *    marca o pedido como entregue (ou enviado, conforme o gatilho), nasce
+ *    review_request:<userId>:<pedido>, enviado N dias depois pelo cron (15 min)
+ *    por email e/ou WhatsApp. Cada canal leva um link assinado
+ *    "usuario|pedido|canal" para /produto/<sku>?avaliar=<token>: o
+ *    ProductReviews abre o formulario sem login (POST /review-invite/reviews,
+ *    compra verificada) e lista os outros produtos do pedido. Cliques e
+ *    avaliacoes contam para o canal do link (conversao por canal em
+ *    AdminReviews). Com recompensa ligada, a primeira avaliacao aprovada do
+ *    pedido em /admin/reviews/:id/moderate gera um cupom pessoal de uso unico
+ *    (fora da lista publica) e o envia por email.
+ * 20. Perguntas e respostas (product_questions.ts): product_qa:<sku> guarda as
+ *    perguntas com as respostas. Visitante (nome + email) ou cliente logado
+ *    pergunta em ProductQuestions (POST /product-questions); quem comprou o SKU
+ *    responde pelo site e a loja responde em AdminProductQuestions (publicada
+ *    na hora). Pergunta e resposta de cliente entram em product_qa_pending —
+ *    a fila de moderacao e o contador "questions" de /admin/pending-counts.
+ *    Quando uma pergunta publicada ganha resposta publicada, quem perguntou
+ *    recebe um email (notifiedAt marcado antes do envio). As respondidas saem
+ *    como JSON-LD QAPage/Question no <head> da pagina do produto: um QAPage por
+ *    pergunta, com url na ancora #pergunta-<id>.
  *
  * ═══════════════════════════════════════════════════════════════════════════════
  * 13. SISTEMA DE SUPER PROMOCAO
  * ═══════════════════════════════════════════════════════════════════════════════
  *
- * Admin cria promo em AdminSuperPromo.tsx:
+ * Admin cria CAMPANHAS em AdminSuperPromo.tsx (varias podem coexistir):
  * - Define titulo, subtitulo, cor de fundo
  * - Define periodo (startDate/endDate como timestamps)
+ * - Define prioridade (0-100) e slot na home (top / middle / none)
  * - Define tipo de desconto (percentage ou fixed) + valor
  * - Seleciona produtos (com desconto individual opcional)
- * - Salva via POST /admin/promo → armazena no KV "super_promo"
- *
- * Frontend (SuperPromoSection):
- * - Estrategia DUAL-SOURCE:
- *   1. Fast path: usa initData.promo do HomepageInit (imediato)
+ * - Salva via POST/PUT /admin/promo/campaigns → KV "promo_campaign:<id>"
+ *   (o registro antigo "super_promo" vira uma campanha ao abrir a lista)
+ * - Calendario mensal (SuperPromoCalendar) mostra campanhas passadas e futuras
+ *
+ * Servidor (super_promo.ts → resolveSuperPromos):
+ * - Cada SKU fica com a campanha ativa de maior prioridade (empate: inicio mais recente)
+ * - Cada slot da home mostra a campanha de maior prioridade configurada nele
+ * - Coupons com excludeSuperPromo usam os mesmos SKUs resolvidos
+ *
+ * Frontend:
+ * - PriceBadge (seedPromoCampaigns) mostra "De X" + campanha vencedora
+ * - AddToCartButton grava isPromo + promoCampaignId/promoTitle no item
+ * - SuperPromoSection (uma instancia por slot), estrategia DUAL-SOURCE:
+ *   1. Fast path: usa initData.promoCampaigns/promoSlots do HomepageInit (imediato)
  *   2. Autoritativo: SEMPRE chama GET /promo/active em paralelo
  *   3. Retry automatico em caso de falha
  * - Countdown visual ate endDate
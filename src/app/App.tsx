@@ -8,10 +8,12 @@
  * ORDEM DOS PROVIDERS (de fora pra dentro):
  * 1. ErrorBoundary      → Captura erros fatais, mostra fallback amigavel
  * 2. CatalogModeProvider → Busca GET /settings; se catalogMode=true, oculta precos
- * 3. AffiliateProvider   → Captura ?ref=CODE da URL, persiste em cookie 30 dias
- * 4. CartProvider        → Carrinho persistido em localStorage, estado React
- * 5. WishlistProvider    → Favoritos sincronizados com servidor (se logado)
- * 6. RouterProvider      → React Router com Data Mode (routes.ts)
+ * 3. PriceTierProvider   → Tabela de preco B2B do cliente logado (GET /user/price-tier)
+ * 4. AffiliateProvider   → Captura ?ref=CODE da URL, persiste em cookie 30 dias
+ * 5. CartProvider        → Carrinho em localStorage + /user/cart (logado, entre dispositivos)
+ * 6. WishlistProvider    → Favoritos sincronizados com servidor (se logado)
+ * 7. GarageProvider      → Veiculo "Minha Garagem" (localStorage + user_profile)
+ * 8. RouterProvider      → React Router com Data Mode (routes.ts)
  *
  * PREFETCH: Delegado ao useIdlePrefetch() no Layout.tsx, que usa
  * requestIdleCallback para carregar chunks progressivamente durante
@@ -24,8 +26,10 @@ import { router } from "./routes";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { CartProvider } from "./contexts/CartContext";
 import { WishlistProvider } from "./contexts/WishlistContext";
+import { GarageProvider } from "./contexts/GarageContext";
 import { AffiliateProvider } from "./contexts/AffiliateContext";
 import { CatalogModeProvider } from "./contexts/CatalogModeContext";
+import { PriceTierProvider } from "./contexts/PriceTierContext";
 
 // Force clean rebuild
 export default function App() {
@@ -35,15 +39,19 @@ export default function App() {
   return (
     <ErrorBoundary>
       <CatalogModeProvider>
-        <AffiliateProvider>
-          <CartProvider>
-            <WishlistProvider>
-              <Suspense fallback={null}>
-                <RouterProvider router={router} />
-              </Suspense>
-            </WishlistProvider>
-          </CartProvider>
-        </AffiliateProvider>
+        <PriceTierProvider>
+          <AffiliateProvider>
+            <CartProvider>
+              <WishlistProvider>
+                <GarageProvider>
+                  <Suspense fallback={null}>
+                    <RouterProvider router={router} />
+                  </Suspense>
+                </GarageProvider>
+              </WishlistProvider>
+            </CartProvider>
+          </AffiliateProvider>
+        </PriceTierProvider>
       </CatalogModeProvider>
     </ErrorBoundary>
   );
@@ -21,6 +21,8 @@ interface AddToCartButtonProps {
   variant?: "full" | "compact";
   /** When provided, use this price instead of fetching from SIGE (e.g. Super Promo price) */
   overridePrice?: number | null;
+  /** Super Promo campaign that won this SKU (stored on the cart item with isPromo) */
+  promoCampaign?: { id: string; title: string } | null;
   /** Pre-fetched price data — avoids redundant getProductPrice() API call */
   preloadedPrice?: number | null;
   /** When true, the product cannot be added to cart (stock = 0) */
@@ -35,7 +37,7 @@ interface AddToCartButtonProps {
   sellable?: boolean;
 }
 
-export function AddToCartButton({ sku, titulo, variant = "full", overridePrice, preloadedPrice, outOfStock, availableQty, onStockUpdate, warranty, sellable }: AddToCartButtonProps) {
+export function AddToCartButton({ sku, titulo, variant = "full", overridePrice, promoCampaign, preloadedPrice, outOfStock, availableQty, onStockUpdate, warranty, sellable }: AddToCartButtonProps) {
   const { catalogMode } = useCatalogMode();
   const { addItem, items } = useCart();
   const { trackEvent } = useGA4();
@@ -59,6 +61,7 @@ export function AddToCartButton({ sku, titulo, variant = "full", overridePrice,
   }, [availableQty]);
 
   const existingItem = items.find((i) => i.sku === sku);
+  const isPromo = overridePrice !== undefined && overridePrice !== null;
 
   // Fetch price (skip if overridePrice or preloadedPrice is provided)
   useEffect(() => {
@@ -143,7 +146,9 @@ export function AddToCartButton({ sku, titulo, variant = "full", overridePrice,
         quantidade: qtyToAdd,
         precoUnitario: price,
         imageUrl: getResolvedProductImageUrl(sku) || "",
-        isPromo: overridePrice !== undefined && overridePrice !== null,
+        isPromo: isPromo,
+        promoCampaignId: isPromo && promoCampaign ? promoCampaign.id : undefined,
+        promoTitle: isPromo && promoCampaign ? promoCampaign.title : undefined,
         warranty: warranty,
       });
       trackEvent("add_to_cart", {
@@ -171,7 +176,9 @@ export function AddToCartButton({ sku, titulo, variant = "full", overridePrice,
         quantidade: qtyToAdd,
         precoUnitario: price,
         imageUrl: getResolvedProductImageUrl(sku) || "",
-        isPromo: overridePrice !== undefined && overridePrice !== null,
+        isPromo: isPromo,
+        promoCampaignId: isPromo && promoCampaign ? promoCampaign.id : undefined,
+        promoTitle: isPromo && promoCampaign ? promoCampaign.title : undefined,
         warranty: warranty,
       });
       trackEvent("add_to_cart", {
@@ -192,7 +199,7 @@ export function AddToCartButton({ sku, titulo, variant = "full", overridePrice,
     } finally {
       setValidating(false);
     }
-  }, [sku, titulo, price, existingItem, addItem, trackEvent, trackMetaEvent, overridePrice, onStockUpdate, warranty]);
+  }, [sku, titulo, price, existingItem, addItem, trackEvent, trackMetaEvent, isPromo, promoCampaign, onStockUpdate, warranty]);
 
   const handleAdd = useCallback(() => {
     validateAndAdd(quantity);
@@ -5,9 +5,12 @@ import * as api from "../services/api";
 
 // ═══════════════════════════════════════════════════════════════════
 // Cart Abandoned Tracker
-// Watches cart changes and syncs a snapshot to the server for
-// WhatsApp abandoned-cart recovery. Only fires for logged-in users.
+// Watches cart changes and registers the customer for WhatsApp
+// abandoned-cart recovery. Only fires for logged-in users.
 //
+// ● The items themselves are not copied: CartContext already keeps
+//   them in the server cart (/user/cart) and the wa_cart snapshot
+//   only references it (resolved server-side by the user token).
 // ● Debounces by 30s to avoid spamming the API on rapid add/remove.
 // ● Skips admin pages entirely.
 // ● Only sends if cart has items AND user has a phone or email.
@@ -40,6 +43,7 @@ export function CartAbandonedTracker() {
         if (!session?.user) return; // Not logged in — skip
 
         var user = session.user;
+        var accessToken = session.access_token;
         var email = user.email || "";
         var name = user.user_metadata?.name || "";
         var phone = user.user_metadata?.phone || "";
@@ -51,20 +55,20 @@ export function CartAbandonedTracker() {
             var profilePhone = (profile.phone || "").replace(/\D/g, "");
             var profileName = profile.name || name;
             var profileEmail = profile.email || email;
-            _sendSnapshot(profilePhone, profileEmail, profileName);
+            _sendSnapshot(profilePhone, profileEmail, profileName, accessToken);
           }).catch(function () {
             // Even without phone, we can use email as fallback
-            _sendSnapshot("", email, name);
+            _sendSnapshot("", email, name, accessToken);
           });
         } else {
-          _sendSnapshot(phone.replace(/\D/g, ""), email, name);
+          _sendSnapshot(phone.replace(/\D/g, ""), email, name, accessToken);
         }
       }).catch(function () {
         // Not logged in or error — skip silently
       });
     }, DEBOUNCE_MS);
 
-    function _sendSnapshot(phone: string, email: string, name: string) {
+    function _sendSnapshot(phone: string, email: string, name: string, accessToken: string) {
       if (!phone && !email) return; // Need at least one identifier
 
       // Build a simple key to avoid re-sending identical snapshots
@@ -75,16 +79,9 @@ export function CartAbandonedTracker() {
         phone: phone,
         email: email,
         name: name,
-        items: items.map(function (i) {
-          return {
-            sku: i.sku,
-            titulo: i.titulo,
-            quantidade: i.quantidade,
-            precoUnitario: i.precoUnitario,
-          };
-        }),
+        items: [],
         totalPrice: totalPrice,
-      }).then(function () {
+      }, accessToken).then(function () {
         lastSnapshotRef.current = snapshotKey;
       }).catch(function () {
         // Silently ignore — non-critical feature
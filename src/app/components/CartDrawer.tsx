@@ -1,6 +1,6 @@
 import React, { useEffect, useCallback } from "react";
 import { Link } from "react-router";
-import { X, ShoppingCart, Trash2, Plus, Minus, Package, ArrowRight, Flame, Search, Sparkles, ShieldCheck } from "lucide-react";
+import { X, ShoppingCart, Trash2, Plus, Minus, Package, ArrowRight, Flame, Search, Sparkles, ShieldCheck, AlertTriangle } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
 import { useCart } from "../contexts/CartContext";
 import { ProductImage } from "./ProductImage";
@@ -28,6 +28,8 @@ export function CartDrawer() {
     removeItem,
     updateQuantity,
     clearCart,
+    cartChanges,
+    dismissCartChanges,
     isDrawerOpen,
     closeDrawer,
   } = useCart();
@@ -193,6 +195,38 @@ export function CartDrawer() {
                   </div>
                 </div>
               ) : (
+                <>
+                {cartChanges.length > 0 && (
+                  <div className="mx-4 mt-4 p-3 rounded-xl bg-amber-50 border border-amber-200">
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-amber-800" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                          Seu carrinho foi atualizado
+                        </p>
+                        <ul className="mt-1 space-y-0.5 text-amber-700" style={{ fontSize: "0.72rem" }}>
+                          {cartChanges.map((ch) => (
+                            <li key={ch.sku + ch.type} className="truncate">
+                              {ch.titulo || ch.sku}:{" "}
+                              {ch.type === "price"
+                                ? (catalogMode ? "preço atualizado" : "preço atualizado para " + formatPrice(ch.newPrice || 0))
+                                : ch.type === "stock"
+                                ? "quantidade ajustada ao estoque (" + ch.available + ")"
+                                : "sem estoque no momento"}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                      <button
+                        onClick={dismissCartChanges}
+                        className="p-0.5 text-amber-400 hover:text-amber-600 transition-colors"
+                        aria-label="Fechar aviso"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                )}
                 <div className="divide-y divide-gray-100">
                   {items.map((item) => (
                     <CartItemRow
@@ -203,6 +237,7 @@ export function CartDrawer() {
                     />
                   ))}
                 </div>
+                </>
               )}
             </div>
 
@@ -274,6 +309,7 @@ const CartItemRow = React.memo(function CartItemRow({
     precoUnitario: number | null;
     imageUrl: string;
     isPromo?: boolean;
+    promoTitle?: string;
     warranty?: { planId: string; name: string; price: number; durationMonths: number } | null;
   };
   onRemove: () => void;
@@ -315,6 +351,16 @@ const CartItemRow = React.memo(function CartItemRow({
           SKU: {item.sku}
         </p>
 
+        {/* Winning Super Promo campaign */}
+        {item.isPromo && item.promoTitle && (
+          <div className="flex items-center gap-1 mt-1 bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-md w-fit">
+            <Flame className="w-3 h-3" />
+            <span style={{ fontSize: "0.62rem", fontWeight: 600 }}>
+              {item.promoTitle}
+            </span>
+          </div>
+        )}
+
         {/* Warranty badge */}
         {item.warranty && (
           <div className="flex items-center gap-1 mt-1 bg-blue-50 text-blue-700 px-2 py-0.5 rounded-md w-fit">
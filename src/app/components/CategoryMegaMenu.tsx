@@ -11,6 +11,7 @@ import * as api from "../services/api";
 import type { CategoryNode } from "../services/api";
 import { defaultCategoryTree } from "../data/categoryTree";
 import { useHomepageInit } from "../contexts/HomepageInitContext";
+import { useGarage } from "../contexts/GarageContext";
 
 /* ─── Sort helper: locale-aware alphabetical ─── */
 function sortByName(nodes: CategoryNode[]): CategoryNode[] {
@@ -44,6 +45,44 @@ function useDelayedVisibility(isOpen: boolean, closeDelay = 220) {
   return { mounted, visible };
 }
 
+/* ─── Shared hook: category counts restricted to the "Minha Garagem" vehicle ─── */
+var _vehicleCountsCache: Record<string, Record<string, number>> = {};
+
+function useGarageCategoryCounts(baseCounts: Record<string, number>) {
+  const { vehicle } = useGarage();
+  const vehicleKey = vehicle ? [vehicle.make, vehicle.model, vehicle.year || "", vehicle.engine || ""].join("|") : "";
+  const [vehicleCounts, setVehicleCounts] = useState<Record<string, number> | null>(
+    vehicleKey ? _vehicleCountsCache[vehicleKey] || null : null
+  );
+
+  useEffect(() => {
+    if (!vehicle || !vehicleKey) {
+      setVehicleCounts(null);
+      return;
+    }
+    if (_vehicleCountsCache[vehicleKey]) {
+      setVehicleCounts(_vehicleCountsCache[vehicleKey]);
+      return;
+    }
+    let cancelled = false;
+    api.getVehicleCategoryCounts(vehicle)
+      .then((res) => {
+        _vehicleCountsCache[vehicleKey] = res.categoryCounts || {};
+        if (!cancelled) setVehicleCounts(_vehicleCountsCache[vehicleKey]);
+      })
+      .catch((err) => {
+        console.warn("[CategoryMegaMenu] vehicle counts error:", err);
+        if (!cancelled) setVehicleCounts(null);
+      });
+    return () => { cancelled = true; };
+  }, [vehicleKey]);
+
+  return {
+    counts: vehicle && vehicleCounts ? vehicleCounts : baseCounts,
+    vehicleLabel: vehicle && vehicleCounts ? (vehicle.label || vehicle.model) : "",
+  };
+}
+
 /* ═══════════════════════════════════════════════════
    Desktop Mega-Menu
    ═══════════════════════════════════════════════════ */
@@ -65,10 +104,11 @@ export function CategoryMegaMenu({ onNavigate }: CategoryMegaMenuProps) {
   const [availableHeight, setAvailableHeight] = useState(500);
   const [dropdownLeft, setDropdownLeft] = useState(0);
   const [dropdownWidth, setDropdownWidth] = useState(0);
-  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [baseCategoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
 
   const { mounted, visible } = useDelayedVisibility(isOpen, 320);
   const { data: initData, loading: initLoading } = useHomepageInit();
+  const { counts: categoryCounts, vehicleLabel } = useGarageCategoryCounts(baseCategoryCounts);
 
   // Use category tree from combined init data (no separate API call)
   useEffect(() => {
@@ -288,6 +328,11 @@ export function CategoryMegaMenu({ onNavigate }: CategoryMegaMenuProps) {
                         }}
                       >
                         Departamentos ({tree.length})
+                        {vehicleLabel && (
+                          <span className="block text-green-600 normal-case truncate" style={{ letterSpacing: 0, fontWeight: 600 }}>
+                            Pecas para {vehicleLabel}
+                          </span>
+                        )}
                       </p>
                       <div className="flex-1 overflow-y-auto min-h-0 px-1.5">
                         {sortedTree.map((parent, idx) => {
@@ -561,8 +606,9 @@ export function MobileCategoryMenu({ onNavigate }: { onNavigate?: () => void })
   const [tree, setTree] = useState<CategoryNode[]>([]);
   const [loading, setLoading] = useState(true);
   const [openSection, setOpenSection] = useState<string | null>(null);
-  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [baseCategoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
   const { data: initData, loading: initLoading } = useHomepageInit();
+  const { counts: categoryCounts, vehicleLabel } = useGarageCategoryCounts(baseCategoryCounts);
 
   // Use category tree from combined init data
   useEffect(() => {
@@ -584,6 +630,11 @@ export function MobileCategoryMenu({ onNavigate }: { onNavigate?: () => void })
 
   return (
     <div className="pt-1">
+      {vehicleLabel && (
+        <p className="px-1 pb-1.5 text-green-600 truncate" style={{ fontSize: "0.72rem", fontWeight: 600 }}>
+          Pecas para {vehicleLabel}
+        </p>
+      )}
       {/* Categories list — shown directly without extra toggle */}
       <div className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden max-h-[65vh] overflow-y-auto">
         {loading ? (
@@ -72,9 +72,8 @@ function MiniCouponTicket({ coupon }: { coupon: PublicCoupon }) {
     }
   }, [coupon.code]);
 
-  var discountLabel = coupon.discountType === "percentage"
-    ? coupon.discountValue + "% OFF"
-    : "R$ " + coupon.discountValue.toFixed(0) + " OFF";
+  var headline = api.couponHeadline(coupon);
+  var discountLabel = (headline.prefix ? headline.prefix + " " : "") + headline.value + " " + headline.suffix;
 
   var isPerc = coupon.discountType === "percentage";
 
@@ -99,9 +98,9 @@ function MiniCouponTicket({ coupon }: { coupon: PublicCoupon }) {
                 </>
               ) : (
                 <>
-                  <div style={{ fontSize: "0.55rem", fontWeight: 600, opacity: 0.8 }}>R$</div>
-                  <div style={{ fontSize: "1.4rem", fontWeight: 900, lineHeight: 1 }}>{coupon.discountValue.toFixed(0)}</div>
-                  <div style={{ fontSize: "0.6rem", fontWeight: 700, letterSpacing: "0.05em" }}>OFF</div>
+                  {headline.prefix && <div style={{ fontSize: "0.55rem", fontWeight: 600, opacity: 0.8 }}>{headline.prefix}</div>}
+                  <div style={{ fontSize: headline.value.length > 3 ? "0.95rem" : "1.4rem", fontWeight: 900, lineHeight: 1 }}>{headline.value}</div>
+                  <div style={{ fontSize: "0.6rem", fontWeight: 700, letterSpacing: "0.05em" }}>{headline.suffix}</div>
                 </>
               )}
             </div>
@@ -99,6 +99,7 @@ function CouponDropdownCard({ coupon }: { coupon: PublicCoupon }) {
   }, [coupon.code]);
 
   var isPerc = coupon.discountType === "percentage";
+  var headline = api.couponHeadline(coupon);
 
   return (
     <div className="flex bg-white rounded-lg border border-gray-100 hover:border-red-200 hover:shadow-sm transition-all overflow-hidden">
@@ -116,9 +117,9 @@ function CouponDropdownCard({ coupon }: { coupon: PublicCoupon }) {
             </>
           ) : (
             <>
-              <div style={{ fontSize: "0.5rem", fontWeight: 600, opacity: 0.8 }}>R$</div>
-              <div style={{ fontSize: "1.15rem", fontWeight: 900, lineHeight: 1 }}>{coupon.discountValue.toFixed(0)}</div>
-              <div style={{ fontSize: "0.5rem", fontWeight: 700, letterSpacing: "0.05em" }}>OFF</div>
+              {headline.prefix && <div style={{ fontSize: "0.5rem", fontWeight: 600, opacity: 0.8 }}>{headline.prefix}</div>}
+              <div style={{ fontSize: headline.value.length > 3 ? "0.8rem" : "1.15rem", fontWeight: 900, lineHeight: 1 }}>{headline.value}</div>
+              <div style={{ fontSize: "0.5rem", fontWeight: 700, letterSpacing: "0.05em" }}>{headline.suffix}</div>
             </>
           )}
         </div>
@@ -0,0 +1,47 @@
+/**
+ * FITMENT BADGE — Selo "Serve no seu veiculo" / "Nao serve no seu veiculo".
+ * Compara a aplicacao estruturada do produto (meta.fitments / fitmentUniversal)
+ * com o veiculo da "Minha Garagem" (GarageContext).
+ * Sem veiculo escolhido ou produto sem aplicacao cadastrada: nao renderiza nada.
+ */
+import { CheckCircle2, XCircle } from "lucide-react";
+import * as api from "../services/api";
+import { useGarage } from "../contexts/GarageContext";
+
+interface FitmentBadgeProps {
+  fitments?: api.ProductFitment[];
+  fitmentUniversal?: boolean;
+  className?: string;
+}
+
+export function FitmentBadge({ fitments, fitmentUniversal, className }: FitmentBadgeProps) {
+  var { vehicle, catalog } = useGarage();
+  if (!vehicle) return null;
+
+  var fits = api.productFitsVehicle({ fitments: fitments, fitmentUniversal: fitmentUniversal }, vehicle);
+  if (fits === null) return null;
+
+  var label = vehicle.label || api.formatFitmentLabel(vehicle, catalog);
+
+  if (fits) {
+    return (
+      <div className={"flex items-center gap-2 px-3 py-2 rounded-lg bg-green-50 border border-green-200 " + (className || "")}>
+        <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+        <p className="text-green-700 truncate" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+          {fitmentUniversal ? "Aplicação universal — serve no seu veículo" : "Serve no seu veículo"}
+          <span className="text-green-600" style={{ fontWeight: 400 }}> · {label}</span>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={"flex items-center gap-2 px-3 py-2 rounded-lg bg-red-50 border border-red-200 " + (className || "")}>
+      <XCircle className="w-4 h-4 text-red-500 shrink-0" />
+      <p className="text-red-700 truncate" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+        Não serve no seu veículo
+        <span className="text-red-500" style={{ fontWeight: 400 }}> · {label}</span>
+      </p>
+    </div>
+  );
+}
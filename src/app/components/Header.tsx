@@ -13,6 +13,7 @@ import { useCart } from "../contexts/CartContext";
 import { useHomepageInit } from "../contexts/HomepageInitContext";
 import { UserAvatar } from "./AvatarPicker";
 import { HeaderCepInput } from "./HeaderCepInput";
+import { HeaderVehicleSelector } from "./HeaderVehicleSelector";
 import { CategoryMegaMenu, MobileCategoryMenu } from "./CategoryMegaMenu";
 import { CouponMegaMenu } from "./CouponMegaMenu";
 
@@ -388,6 +389,9 @@ export function Header() {
             )}
           </div>
 
+          {/* Vehicle (Minha Garagem) */}
+          <HeaderVehicleSelector />
+
           {/* CEP Input */}
           <HeaderCepInput />
         </div>
@@ -535,6 +539,11 @@ export function Header() {
                 <div className="border-t border-gray-100 px-4 py-3">
                   <HeaderCepInput />
                 </div>
+
+                {/* Mobile vehicle (Minha Garagem) */}
+                <div className="border-t border-gray-100 px-4 py-3">
+                  <HeaderVehicleSelector />
+                </div>
               </div>
             </div>
 
@@ -0,0 +1,199 @@
+/**
+ * HEADER VEHICLE SELECTOR — "Minha Garagem" no header, ao lado do CEP.
+ * Cliente escolhe montadora → modelo → ano (→ motor); catalogo, busca,
+ * mega menu e pagina de produto passam a filtrar/sinalizar pecas para esse veiculo.
+ * Persistencia via GarageContext (localStorage + user_profile se logado).
+ */
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Car, Check, X, Loader2, ChevronRight } from "lucide-react";
+import { useGarage } from "../contexts/GarageContext";
+import * as api from "../services/api";
+
+export function HeaderVehicleSelector() {
+  var { vehicle, catalog, loadCatalog, setVehicle } = useGarage();
+  var [editing, setEditing] = useState(false);
+  var [make, setMake] = useState("");
+  var [model, setModel] = useState("");
+  var [year, setYear] = useState("");
+  var [engine, setEngine] = useState("");
+  var [loadingCatalog, setLoadingCatalog] = useState(false);
+  var [justSaved, setJustSaved] = useState(false);
+  var [isMobile, setIsMobile] = useState(false);
+  var containerRef = useRef<HTMLDivElement>(null);
+
+  // Detect mobile
+  useEffect(function () {
+    function check() { setIsMobile(window.innerWidth < 768); }
+    check();
+    window.addEventListener("resize", check);
+    return function () { window.removeEventListener("resize", check); };
+  }, []);
+
+  // Close on outside click
+  useEffect(function () {
+    if (!editing) return;
+    function handleClick(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setEditing(false);
+    }
+    document.addEventListener("mousedown", handleClick);
+    return function () { document.removeEventListener("mousedown", handleClick); };
+  }, [editing]);
+
+  var makes = catalog ? catalog.makes.filter(function (m) { return m.models.length > 0; }) : [];
+  var selectedMake = makes.find(function (m) { return m.id === make; }) || null;
+  var selectedModel = selectedMake ? selectedMake.models.find(function (m) { return m.id === model; }) || null : null;
+
+  // Years offered: union of the model's version ranges (fallback: last 40 years)
+  var years = useMemo(function () {
+    var now = new Date().getFullYear() + 1;
+    var set = new Set<number>();
+    if (selectedModel) {
+      selectedModel.versions.forEach(function (v) {
+        var from = v.yearFrom || v.yearTo;
+        var to = v.yearTo || now;
+        if (!from) return;
+        for (var y = from; y <= to && y <= now; y++) set.add(y);
+      });
+    }
+    if (set.size === 0) for (var y2 = now; y2 > now - 40; y2--) set.add(y2);
+    return Array.from(set).sort(function (a, b) { return b - a; });
+  }, [selectedModel]);
+
+  var engines = useMemo(function () {
+    if (!selectedModel) return [] as string[];
+    var yNum = parseInt(year, 10);
+    var list: string[] = [];
+    selectedModel.versions.forEach(function (v) {
+      if (!v.engine || list.indexOf(v.engine) !== -1) return;
+      if (!isNaN(yNum) && ((v.yearFrom && yNum < v.yearFrom) || (v.yearTo && yNum > v.yearTo))) return;
+      list.push(v.engine);
+    });
+    return list;
+  }, [selectedModel, year]);
+
+  function openEditor() {
+    setMake(vehicle ? vehicle.make : "");
+    setModel(vehicle ? vehicle.model : "");
+    setYear(vehicle && vehicle.year ? String(vehicle.year) : "");
+    setEngine(vehicle && vehicle.engine ? vehicle.engine : "");
+    setEditing(true);
+    if (!catalog) {
+      setLoadingCatalog(true);
+      loadCatalog().finally(function () { setLoadingCatalog(false); });
+    }
+  }
+
+  function handleSave() {
+    if (!make || !model) return;
+    var y = parseInt(year, 10);
+    setVehicle({ make: make, model: model, year: isNaN(y) ? null : y, engine: engine || null });
+    setEditing(false);
+    setJustSaved(true);
+    setTimeout(function () { setJustSaved(false); }, 2500);
+  }
+
+  function handleClear(e: React.MouseEvent) {
+    e.stopPropagation();
+    setVehicle(null);
+    setEditing(false);
+  }
+
+  var label = vehicle ? (vehicle.label || api.formatFitmentLabel(vehicle, catalog)) : "";
+
+  // ─── Display mode ───
+  var trigger = (
+    <button
+      onClick={editing ? undefined : openEditor}
+      className="group flex items-center gap-1.5 md:gap-2 py-1.5 md:py-2 px-1 cursor-pointer transition-colors"
+      title={vehicle ? "Alterar veiculo" : "Informe seu veiculo para ver pecas compativeis"}
+    >
+      <div className={"flex items-center justify-center w-7 h-7 rounded-full transition-colors " +
+        (justSaved
+          ? "bg-green-100 text-green-600"
+          : vehicle
+            ? "bg-white/20 text-white"
+            : "bg-white/15 text-white/70 group-hover:bg-white/25 group-hover:text-white"
+        )
+      }>
+        {justSaved ? <Check className="w-3.5 h-3.5" /> : <Car className="w-3.5 h-3.5" />}
+      </div>
+      <div className="text-left leading-none max-w-[140px]">
+        <p className="text-white group-hover:text-gray-200 transition-colors truncate" style={{ fontSize: isMobile ? "0.68rem" : "0.74rem", fontWeight: vehicle ? 600 : 500 }}>
+          {vehicle ? label : "Minha Garagem"}
+        </p>
+        <p className="text-white/60 mt-0.5" style={{ fontSize: "0.6rem" }}>
+          {vehicle ? "Alterar" : "Seu veiculo"}
+        </p>
+      </div>
+      <ChevronRight className="w-3 h-3 text-white/50 group-hover:text-white/80 transition-colors hidden md:block" />
+    </button>
+  );
+
+  if (!editing) return trigger;
+
+  var selectCls = "w-full px-2.5 py-2 border border-gray-200 bg-gray-50 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-100 focus:border-red-400 disabled:opacity-50";
+
+  // ─── Edit mode (dropdown card) ───
+  return (
+    <div ref={containerRef} className="relative">
+      {trigger}
+      <div
+        className={"absolute top-full mt-1 bg-white rounded-xl shadow-xl border border-gray-200 p-4 z-50 " +
+          (isMobile ? "left-0 w-[260px]" : "right-0 w-[300px]")
+        }
+      >
+        <p className="text-gray-700 mb-3" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+          Qual o seu veículo?
+        </p>
+        {loadingCatalog ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 text-red-500 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2" style={{ fontSize: "0.82rem" }}>
+            <select value={make} onChange={function (e) { setMake(e.target.value); setModel(""); setYear(""); setEngine(""); }} className={selectCls}>
+              <option value="">Montadora</option>
+              {makes.map(function (m) { return <option key={m.id} value={m.id}>{m.name}</option>; })}
+            </select>
+            <select value={model} onChange={function (e) { setModel(e.target.value); setYear(""); setEngine(""); }} className={selectCls} disabled={!selectedMake}>
+              <option value="">Modelo</option>
+              {(selectedMake ? selectedMake.models : []).map(function (m) { return <option key={m.id} value={m.id}>{m.name}</option>; })}
+            </select>
+            <div className="flex gap-2">
+              <select value={year} onChange={function (e) { setYear(e.target.value); setEngine(""); }} className={selectCls} disabled={!selectedModel}>
+                <option value="">Ano</option>
+                {years.map(function (y) { return <option key={y} value={String(y)}>{y}</option>; })}
+              </select>
+              {engines.length > 0 && (
+                <select value={engine} onChange={function (e) { setEngine(e.target.value); }} className={selectCls}>
+                  <option value="">Motor</option>
+                  {engines.map(function (en) { return <option key={en} value={en}>{en}</option>; })}
+                </select>
+              )}
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={!make || !model}
+              className="w-full py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              style={{ fontSize: "0.8rem", fontWeight: 600 }}
+            >
+              Salvar veículo
+            </button>
+          </div>
+        )}
+        {vehicle && (
+          <div className="mt-3 flex justify-end">
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-1 text-gray-400 hover:text-red-500 transition-colors cursor-pointer"
+              style={{ fontSize: "0.7rem" }}
+            >
+              <X className="w-3 h-3" />
+              Remover veículo
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
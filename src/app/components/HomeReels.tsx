@@ -8,7 +8,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { Link } from "react-router";
 import { Play, X, ChevronLeft, ChevronRight, Volume2, VolumeX, ShoppingCart, Eye, Package, ShoppingBag } from "lucide-react";
 import * as api from "../services/api";
-import type { ReelItem, ReelProduct, SuperPromo, SuperPromoProduct } from "../services/api";
+import type { ReelItem, ReelProduct } from "../services/api";
 import { useCart } from "../contexts/CartContext";
 import { SwipeHint } from "./SwipeHint";
 
@@ -34,6 +34,8 @@ interface ReelPriceData {
   originalPrice: number | null;
   isPromo: boolean;
   discountLabel: string;
+  /** Winning Super Promo campaign (isPromo=true) */
+  promoCampaign?: { id: string; title: string };
 }
 
 /** Horizontal scrollable strip of reel thumbnails */
@@ -91,21 +93,13 @@ export function HomeReels() {
 
     Promise.all([
       api.getProductPricesBulkSafe(skus),
-      api.getActivePromo().catch(function () { return { promo: null }; }),
+      api.getActivePromo().catch(function (): api.ActiveSuperPromos { return { promo: null }; }),
     ]).then(function (results) {
       var priceResult = results[0];
       var promoResult = results[1];
       var prices = priceResult.results || [];
-      var promo: SuperPromo | null = promoResult.promo || null;
-      var now = Date.now();
-
-      var promoActive = promo && promo.enabled && promo.startDate <= now && promo.endDate >= now;
-      var promoProductMap: Record<string, SuperPromoProduct> = {};
-      if (promoActive && promo && promo.products) {
-        for (var pi = 0; pi < promo.products.length; pi++) {
-          promoProductMap[promo.products[pi].sku] = promo.products[pi];
-        }
-      }
+      // Campaigns come resolved per SKU (highest priority wins)
+      var campaigns = promoResult.campaigns || (promoResult.promo ? [promoResult.promo] : []);
 
       var map: Record<string, ReelPriceData> = {};
       for (var k = 0; k < prices.length; k++) {
@@ -116,15 +110,16 @@ export function HomeReels() {
         }
 
         var sigePrice = p.price;
-        var promoProduct = promoProductMap[p.sku];
+        var promoMatch = api.findSuperPromoForSku(campaigns, p.sku);
 
-        if (promoActive && promo && promoProduct) {
-          var computed = api.computePromoPrice(sigePrice, promo, promoProduct);
+        if (promoMatch) {
+          var computed = api.computePromoPrice(sigePrice, promoMatch.promo, promoMatch.product);
           map[p.sku] = {
             price: computed.promoPrice,
             originalPrice: sigePrice,
             isPromo: true,
             discountLabel: computed.discountLabel,
+            promoCampaign: { id: promoMatch.promo.id, title: promoMatch.promo.title },
           };
         } else {
           map[p.sku] = { price: sigePrice, originalPrice: null, isPromo: false, discountLabel: "" };
@@ -489,6 +484,8 @@ function ReelsViewer({ reels, priceMap, initialIndex, onClose, sellableSet }: {
       precoUnitario: price,
       imageUrl: prod.imageUrl || api.getProductMainImageUrl(prod.sku),
       isPromo: priceData?.isPromo || false,
+      promoCampaignId: priceData?.promoCampaign?.id,
+      promoTitle: priceData?.promoCampaign?.title,
     });
   }
 
@@ -506,6 +503,8 @@ function ReelsViewer({ reels, priceMap, initialIndex, onClose, sellableSet }: {
           precoUnitario: price,
           imageUrl: prod.imageUrl || api.getProductMainImageUrl(prod.sku),
           isPromo: pd?.isPromo || false,
+          promoCampaignId: pd?.promoCampaign?.id,
+          promoTitle: pd?.promoCampaign?.title,
         });
         added++;
       }
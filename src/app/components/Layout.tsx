@@ -18,7 +18,7 @@ import { GTMProvider } from "./GTMProvider";
 import "../utils/utmTracker";
 import { Suspense, useEffect, useState, useRef } from "react";
 import type { ReactNode } from "react";
-import { seedPriceConfig } from "./PriceBadge";
+import { seedPriceConfig, seedPromoCampaigns } from "./PriceBadge";
 import { seedCatalogMode } from "../contexts/CatalogModeContext";
 import { Toaster } from "sonner";
 import * as api from "../services/api";
@@ -337,7 +337,7 @@ function DeferredCartDrawerInner() {
   }
 })();
 
-/** Seeds PriceBadge config cache from homepage-init */
+/** Seeds PriceBadge config + Super Promo campaigns from homepage-init */
 function PriceConfigSeeder() {
   var { data: initData, loading: initLoading } = useHomepageInit();
   useEffect(function () {
@@ -345,6 +345,7 @@ function PriceConfigSeeder() {
       if (initData.priceConfig) {
         seedPriceConfig(initData.priceConfig);
       }
+      seedPromoCampaigns(initData.promoCampaigns || (initData.promo ? [initData.promo] : []));
       if (initData.settings) {
         seedCatalogMode(!!initData.settings.catalogMode);
       }
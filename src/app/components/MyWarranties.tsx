@@ -0,0 +1,296 @@
+/**
+ * MY WARRANTIES — Garantias estendidas compradas pelo cliente na Minha Conta:
+ * vigencia de cada certificado, acionamentos ja abertos (status, reposicao enviada)
+ * e o formulario "Acionar garantia" para os certificados vigentes.
+ */
+import React, { useState, useEffect, useCallback } from "react";
+import { ShieldCheck, Loader2, AlertCircle, Truck, Info, X } from "lucide-react";
+import * as api from "../services/api";
+import type { CustomerWarrantyClaim, SoldWarranty } from "../services/api";
+import { WARRANTY_STATUS_STYLES, WARRANTY_CLAIM_STATUS_STYLES, isWarrantyClaimOpenStatus } from "../data/warrantyClaims";
+import { toast } from "sonner";
+
+function formatDate(iso: string) {
+  try {
+    return new Date(iso).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
+  } catch { return iso; }
+}
+
+function ClaimCard({ claim, accessToken, onChanged }: { claim: CustomerWarrantyClaim; accessToken: string; onChanged: (claim: CustomerWarrantyClaim) => void }) {
+  var [cancelling, setCancelling] = useState(false);
+  var st = WARRANTY_CLAIM_STATUS_STYLES[claim.status];
+  var StIcon = st.icon;
+  var lastNote = "";
+  for (var i = claim.history.length - 1; i >= 0 && !lastNote; i--) lastNote = claim.history[i].note || "";
+
+  var handleCancel = async function () {
+    if (!confirm("Cancelar este acionamento de garantia?")) return;
+    setCancelling(true);
+    try {
+      var res = await api.userCancelWarrantyClaim(accessToken, claim.id);
+      onChanged(res.claim);
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao cancelar acionamento.");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className={"rounded-lg border px-3.5 py-3 " + st.border + " " + st.bg}>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <StIcon className={"w-4 h-4 " + st.text} />
+          <span className="text-gray-800 font-mono" style={{ fontSize: "0.8rem", fontWeight: 600 }}>{claim.id}</span>
+          <span className={"px-2 py-0.5 rounded-full border bg-white " + st.border + " " + st.text} style={{ fontSize: "0.68rem", fontWeight: 600 }}>{st.label}</span>
+        </div>
+        <span className="text-gray-500" style={{ fontSize: "0.72rem" }}>{"Aberto em " + formatDate(claim.createdAt)}</span>
+      </div>
+      <p className="text-gray-600 mt-1.5 whitespace-pre-line" style={{ fontSize: "0.76rem" }}>{claim.description}</p>
+      {lastNote && (
+        <p className="text-gray-700 mt-1.5 bg-white/70 rounded px-2 py-1" style={{ fontSize: "0.74rem" }}>{"Loja: " + lastNote}</p>
+      )}
+
+      {claim.status === "approved" && (
+        <p className="flex items-start gap-1.5 text-green-800 mt-2" style={{ fontSize: "0.74rem" }}>
+          <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          Acionamento aprovado. Nossa equipe entrará em contato para a reposição ou o reparo do produto.
+        </p>
+      )}
+
+      {claim.replacement && (
+        <div className="mt-2 bg-white rounded-lg border border-blue-200 px-3 py-2 flex items-start gap-2">
+          <Truck className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" />
+          <div style={{ fontSize: "0.74rem" }}>
+            <p className="text-gray-800" style={{ fontWeight: 600 }}>{"Reposição enviada em " + formatDate(claim.replacement.sentAt)}</p>
+            {claim.replacement.trackingCode && (
+              <p className="text-gray-600">
+                {"Rastreio: "}<span className="font-mono">{claim.replacement.trackingCode}</span>
+                {claim.replacement.carrierName ? " (" + claim.replacement.carrierName + ")" : ""}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {claim.status === "submitted" && (
+        <button
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="mt-2 inline-flex items-center gap-1 text-gray-500 hover:text-red-600 transition-colors cursor-pointer disabled:opacity-50"
+          style={{ fontSize: "0.72rem", fontWeight: 500 }}
+        >
+          {cancelling ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+          Cancelar acionamento
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ClaimForm({ warranty, accessToken, onCreated, onClose }: {
+  warranty: SoldWarranty;
+  accessToken: string;
+  onCreated: (claim: CustomerWarrantyClaim) => void;
+  onClose: () => void;
+}) {
+  var [description, setDescription] = useState("");
+  var [submitting, setSubmitting] = useState(false);
+  var [error, setError] = useState<string | null>(null);
+
+  var handleSubmit = async function () {
+    if (description.trim().length < 10) { setError("Descreva o problema (mínimo 10 caracteres)."); return; }
+    setSubmitting(true);
+    setError(null);
+    try {
+      var res = await api.userCreateWarrantyClaim(accessToken, { certificateId: warranty.certificateId, description: description.trim() });
+      toast.success("Garantia acionada! Acompanhe o andamento por aqui.");
+      onCreated(res.claim);
+    } catch (err: any) {
+      setError(err.message || "Erro ao acionar garantia.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-3.5 space-y-2.5">
+      <label className="block text-gray-700" style={{ fontSize: "0.78rem", fontWeight: 600 }}>O que aconteceu com o produto?</label>
+      <textarea
+        value={description}
+        onChange={function (e) { setDescription(e.target.value); }}
+        rows={4}
+        maxLength={2000}
+        placeholder="Descreva o defeito, quando começou e como o produto é utilizado."
+        className="w-full px-3 py-2 border border-gray-200 rounded-lg bg-white outline-none focus:border-red-400 resize-none"
+        style={{ fontSize: "0.8rem" }}
+      />
+      {error && (
+        <p className="flex items-center gap-1.5 text-red-600" style={{ fontSize: "0.74rem" }}>
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+      <div className="flex items-center gap-2 justify-end">
+        <button onClick={onClose} className="px-3 py-1.5 text-gray-600 hover:bg-gray-100 rounded-lg cursor-pointer" style={{ fontSize: "0.78rem" }}>
+          Voltar
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={submitting}
+          className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors cursor-pointer disabled:opacity-50"
+          style={{ fontSize: "0.78rem", fontWeight: 600 }}
+        >
+          {submitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldCheck className="w-3.5 h-3.5" />}
+          Enviar acionamento
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function WarrantyCard({ warranty, claims, accessToken, onClaimChanged }: {
+  warranty: SoldWarranty;
+  claims: CustomerWarrantyClaim[];
+  accessToken: string;
+  onClaimChanged: (claim: CustomerWarrantyClaim) => void;
+}) {
+  var [formOpen, setFormOpen] = useState(false);
+  var st = WARRANTY_STATUS_STYLES[warranty.status];
+  var StIcon = st.icon;
+  var hasOpenClaim = claims.some(function (cl) { return isWarrantyClaimOpenStatus(cl.status); });
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div className="min-w-0">
+          <p className="text-gray-900 truncate" style={{ fontSize: "0.88rem", fontWeight: 600 }}>{warranty.titulo}</p>
+          <p className="text-gray-500" style={{ fontSize: "0.74rem" }}>
+            {warranty.planName + " · Pedido #" + warranty.orderId + (warranty.coveredUnits > 1 ? " · " + warranty.coveredUnits + " unidades" : "")}
+          </p>
+          <p className="text-gray-400 font-mono mt-0.5" style={{ fontSize: "0.7rem" }}>{warranty.certificateId}</p>
+        </div>
+        <span className={"inline-flex items-center gap-1 px-2 py-0.5 rounded-full border " + st.bg + " " + st.border + " " + st.text} style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+          <StIcon className="w-3.5 h-3.5" />
+          {st.label}
+        </span>
+      </div>
+      <p className="text-gray-600 mt-2" style={{ fontSize: "0.76rem" }}>
+        {"Cobertura de " + formatDate(warranty.startsAt) + " até " + formatDate(warranty.expiresAt)}
+      </p>
+      {warranty.status === "lapsed" && warranty.lapsedReason && (
+        <p className="text-red-600 mt-0.5" style={{ fontSize: "0.74rem" }}>{warranty.lapsedReason + " — a garantia deixou de valer."}</p>
+      )}
+
+      {claims.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {claims.map(function (cl) {
+            return <ClaimCard key={cl.id} claim={cl} accessToken={accessToken} onChanged={onClaimChanged} />;
+          })}
+        </div>
+      )}
+
+      {warranty.status === "active" && !hasOpenClaim && (
+        formOpen ? (
+          <ClaimForm
+            warranty={warranty}
+            accessToken={accessToken}
+            onCreated={function (cl) { setFormOpen(false); onClaimChanged(cl); }}
+            onClose={function () { setFormOpen(false); }}
+          />
+        ) : (
+          <button
+            onClick={function () { setFormOpen(true); }}
+            className="mt-3 inline-flex items-center gap-1.5 px-3 py-1.5 border border-red-200 text-red-600 hover:bg-red-50 rounded-lg transition-colors cursor-pointer"
+            style={{ fontSize: "0.78rem", fontWeight: 600 }}
+          >
+            <ShieldCheck className="w-3.5 h-3.5" />
+            Acionar garantia
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+export function MyWarrantiesPanel({ accessToken }: { accessToken: string }) {
+  var [warranties, setWarranties] = useState<SoldWarranty[]>([]);
+  var [claims, setClaims] = useState<CustomerWarrantyClaim[]>([]);
+  var [loading, setLoading] = useState(true);
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    try {
+      var res = await api.userGetWarranties(accessToken);
+      setWarranties(res.warranties || []);
+      setClaims(res.claims || []);
+    } catch (err) {
+      console.error("[MyWarranties] Load error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(function () {
+    load();
+  }, [load]);
+
+  var handleClaimChanged = function (claim: CustomerWarrantyClaim) {
+    setClaims(function (prev) {
+      var found = false;
+      var next = prev.map(function (cl) {
+        if (cl.id !== claim.id) return cl;
+        found = true;
+        return claim;
+      });
+      return found ? next : [claim].concat(prev);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+        <Loader2 className="w-8 h-8 text-red-600 animate-spin mx-auto mb-3" />
+        <p className="text-gray-500" style={{ fontSize: "0.85rem" }}>Carregando garantias...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+          <ShieldCheck className="w-5 h-5 text-red-600" />
+          <h2 className="text-gray-900" style={{ fontSize: "1.1rem", fontWeight: 600 }}>
+            Minhas Garantias
+          </h2>
+        </div>
+        <p className="px-6 py-3 text-gray-500" style={{ fontSize: "0.8rem" }}>
+          Garantias estendidas compradas com seus pedidos. Se um produto coberto apresentar defeito, acione a garantia e acompanhe o atendimento por aqui.
+        </p>
+      </div>
+
+      {warranties.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-10 text-center">
+          <ShieldCheck className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600" style={{ fontSize: "0.9rem", fontWeight: 500 }}>Nenhuma garantia estendida</p>
+          <p className="text-gray-400 mt-1" style={{ fontSize: "0.8rem" }}>
+            As garantias contratadas na compra aparecem aqui após a confirmação do pagamento.
+          </p>
+        </div>
+      ) : (
+        warranties.map(function (w) {
+          return (
+            <WarrantyCard
+              key={w.certificateId}
+              warranty={w}
+              claims={claims.filter(function (cl) { return cl.certificateId === w.certificateId; })}
+              accessToken={accessToken}
+              onClaimChanged={handleClaimChanged}
+            />
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+/**
+ * ORDER RETURNS — Trocas e devolucoes de um pedido na Minha Conta: lista as
+ * solicitacoes ja abertas (status, etiqueta de postagem, reembolso) e o formulario
+ * para abrir uma nova (itens, motivo, descricao e fotos, como nas avaliacoes).
+ */
+import React, { useState, useRef, useCallback } from "react";
+import { Undo2, Camera, X, Loader2, AlertCircle, Tag, ExternalLink, Info, BadgeDollarSign } from "lucide-react";
+import * as api from "../services/api";
+import type { CustomerRma, RmaReason, RmaResolution, UserOrder } from "../services/api";
+import { RMA_STATUS_STYLES, RMA_REASON_LABELS, RMA_RESOLUTION_LABELS, isRmaOpenStatus } from "../data/rma";
+import { toast } from "sonner";
+
+var MAX_PHOTOS = 5;
+var REASONS = Object.keys(RMA_REASON_LABELS) as RmaReason[];
+
+function formatPrice(val: number) {
+  return val.toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
+}
+
+function formatDate(iso: string) {
+  try {
+    return new Date(iso).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
+  } catch { return iso; }
+}
+
+/** Units of each SKU still free to return (excludes units in non-rejected/non-cancelled requests) */
+function availableUnits(order: UserOrder, rmas: CustomerRma[]): Record<string, number> {
+  var out: Record<string, number> = {};
+  for (var i = 0; i < order.items.length; i++) out[order.items[i].sku] = (out[order.items[i].sku] || 0) + (order.items[i].quantidade || 1);
+  for (var r = 0; r < rmas.length; r++) {
+    if (rmas[r].status === "rejected" || rmas[r].status === "cancelled") continue;
+    for (var k = 0; k < rmas[r].items.length; k++) out[rmas[r].items[k].sku] = (out[rmas[r].items[k].sku] || 0) - rmas[r].items[k].quantidade;
+  }
+  return out;
+}
+
+function RmaCard({ rma, accessToken, onChanged }: { rma: CustomerRma; accessToken: string; onChanged: (rma: CustomerRma) => void }) {
+  var [cancelling, setCancelling] = useState(false);
+  var st = RMA_STATUS_STYLES[rma.status];
+  var StIcon = st.icon;
+  var lastNote = "";
+  for (var i = rma.history.length - 1; i >= 0 && !lastNote; i--) lastNote = rma.history[i].note || "";
+
+  var handleCancel = async function () {
+    if (!confirm("Cancelar esta solicitação de troca/devolução?")) return;
+    setCancelling(true);
+    try {
+      var res = await api.userCancelRma(accessToken, rma.id);
+      onChanged({ ...res.rma, photos: rma.photos });
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao cancelar solicitação.");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className={"rounded-lg border px-3.5 py-3 " + st.border + " " + st.bg}>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <StIcon className={"w-4 h-4 " + st.text} />
+          <span className="text-gray-800 font-mono" style={{ fontSize: "0.8rem", fontWeight: 600 }}>{rma.id}</span>
+          <span className={"px-2 py-0.5 rounded-full border bg-white " + st.border + " " + st.text} style={{ fontSize: "0.68rem", fontWeight: 600 }}>{st.label}</span>
+        </div>
+        <span className="text-gray-500" style={{ fontSize: "0.72rem" }}>{"Aberta em " + formatDate(rma.createdAt)}</span>
+      </div>
+      <p className="text-gray-600 mt-1.5" style={{ fontSize: "0.76rem" }}>
+        {RMA_REASON_LABELS[rma.reason] + " · " + RMA_RESOLUTION_LABELS[rma.resolution]}
+      </p>
+      <p className="text-gray-500 mt-0.5" style={{ fontSize: "0.74rem" }}>
+        {rma.items.map(function (it) { return it.quantidade + "x " + it.titulo; }).join(", ")}
+      </p>
+      {lastNote && (
+        <p className="text-gray-700 mt-1.5 bg-white/70 rounded px-2 py-1" style={{ fontSize: "0.74rem" }}>{"Loja: " + lastNote}</p>
+      )}
+
+      {rma.status === "approved" && !rma.returnLabel && (
+        <p className="flex items-start gap-1.5 text-green-800 mt-2" style={{ fontSize: "0.74rem" }}>
+          <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          Solicitação aprovada. Em breve enviaremos a etiqueta de postagem para você devolver o produto.
+        </p>
+      )}
+      {rma.returnLabel && rma.status === "label_issued" && (
+        <div className="mt-2 bg-white border border-blue-200 rounded-lg px-3 py-2">
+          <p className="flex items-center gap-1.5 text-blue-800" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+            <Tag className="w-3.5 h-3.5" />
+            Etiqueta de devolução
+          </p>
+          {rma.returnLabel.trackingCode && (
+            <p className="text-gray-700 mt-1" style={{ fontSize: "0.76rem" }}>
+              {"Código de postagem: "}
+              <span className="font-mono" style={{ fontWeight: 600 }}>{rma.returnLabel.trackingCode}</span>
+              {rma.returnLabel.carrierName ? " (" + rma.returnLabel.carrierName + ")" : ""}
+            </p>
+          )}
+          {rma.returnLabel.instructions && (
+            <p className="text-gray-600 mt-1" style={{ fontSize: "0.74rem" }}>{rma.returnLabel.instructions}</p>
+          )}
+          {rma.returnLabel.labelUrl && (
+            <a href={rma.returnLabel.labelUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-700 hover:text-blue-800 mt-1" style={{ fontSize: "0.76rem", fontWeight: 600 }}>
+              <ExternalLink className="w-3 h-3" />
+              Imprimir etiqueta
+            </a>
+          )}
+        </div>
+      )}
+      {rma.refund && (
+        <p className="flex items-center gap-1.5 text-emerald-800 mt-2" style={{ fontSize: "0.76rem", fontWeight: 600 }}>
+          <BadgeDollarSign className="w-3.5 h-3.5" />
+          {rma.refund.pending
+            ? "Reembolso de " + formatPrice(rma.refund.amount) + " aprovado — a loja fará a transferência"
+            : "Reembolso de " + formatPrice(rma.refund.amount) + (rma.refund.manual ? " enviado pela loja" : " estornado no cartão") + " em " + formatDate(rma.refund.at)}
+        </p>
+      )}
+      {(rma.status === "requested" || rma.status === "approved") && (
+        <button
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="mt-2 text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50 cursor-pointer"
+          style={{ fontSize: "0.72rem", fontWeight: 500 }}
+        >
+          {cancelling ? "Cancelando..." : "Cancelar solicitação"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function RmaRequestForm({ order, rmas, accessToken, onCreated, onClose }: {
+  order: UserOrder;
+  rmas: CustomerRma[];
+  accessToken: string;
+  onCreated: (rma: CustomerRma) => void;
+  onClose: () => void;
+}) {
+  var available = availableUnits(order, rmas);
+  var withdrawalOpen = !!order.returnWindow && Date.now() <= new Date(order.returnWindow.withdrawalUntil).getTime();
+  var [quantities, setQuantities] = useState<Record<string, number>>({});
+  var [reason, setReason] = useState<RmaReason | "">("");
+  var [resolution, setResolution] = useState<RmaResolution>("refund");
+  var [description, setDescription] = useState("");
+  var [photos, setPhotos] = useState<File[]>([]);
+  var [previews, setPreviews] = useState<string[]>([]);
+  var [submitting, setSubmitting] = useState(false);
+  var [error, setError] = useState<string | null>(null);
+  var fileInputRef = useRef<HTMLInputElement>(null);
+
+  var handleAddPhoto = useCallback(function (e: React.ChangeEvent<HTMLInputElement>) {
+    var files = e.target.files;
+    if (!files) return;
+    var newFiles: File[] = [];
+    var newPreviews: string[] = [];
+    for (var i = 0; i < files.length && photos.length + newFiles.length < MAX_PHOTOS; i++) {
+      if (files[i].size > 5 * 1024 * 1024) {
+        toast.error("Imagem muito grande (máx. 5MB)");
+        continue;
+      }
+      newFiles.push(files[i]);
+      newPreviews.push(URL.createObjectURL(files[i]));
+    }
+    setPhotos(function (prev) { return prev.concat(newFiles); });
+    setPreviews(function (prev) { return prev.concat(newPreviews); });
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  }, [photos.length]);
+
+  var removePhoto = function (idx: number) {
+    URL.revokeObjectURL(previews[idx]);
+    setPhotos(function (prev) { return prev.filter(function (_, i) { return i !== idx; }); });
+    setPreviews(function (prev) { return prev.filter(function (_, i) { return i !== idx; }); });
+  };
+
+  var needsPhotos = reason === "defective" || reason === "damaged" || reason === "wrong_item" || reason === "warranty";
+
+  var handleSubmit = async function (e: React.FormEvent) {
+    e.preventDefault();
+    var items = Object.keys(quantities)
+      .filter(function (sku) { return quantities[sku] > 0; })
+      .map(function (sku) { return { sku: sku, quantidade: quantities[sku] }; });
+    if (items.length === 0) { setError("Selecione os itens que deseja devolver ou trocar."); return; }
+    if (!reason) { setError("Informe o motivo."); return; }
+    if (description.trim().length < 10) { setError("Descreva o problema (mínimo 10 caracteres)."); return; }
+    if (needsPhotos && photos.length === 0) { setError("Envie ao menos uma foto do produto."); return; }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      var res = await api.userCreateRma(accessToken, {
+        orderId: order.localOrderId,
+        reason: reason,
+        resolution: resolution,
+        description: description.trim(),
+        items: items,
+      });
+      for (var i = 0; i < photos.length; i++) {
+        try {
+          await api.uploadRmaPhoto(res.rma.id, photos[i], accessToken);
+        } catch (imgErr: any) {
+          console.error("[RmaRequestForm] Photo upload error:", imgErr);
+          toast.error("Erro ao enviar foto " + (i + 1));
+        }
+      }
+      for (var pi = 0; pi < previews.length; pi++) URL.revokeObjectURL(previews[pi]);
+      toast.success("Solicitação " + res.rma.id + " enviada! Responderemos em até 2 dias úteis.");
+      onCreated({ ...res.rma, photos: [] });
+    } catch (err: any) {
+      setError(err.message || "Erro ao enviar solicitação.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 bg-white">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-gray-800" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Solicitar troca ou devolução</h4>
+        <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 cursor-pointer"><X className="w-4 h-4" /></button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-3 py-1.5 rounded-lg mb-3" style={{ fontSize: "0.78rem" }}>
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <p className="text-gray-600 mb-1" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Itens *</p>
+      <div className="space-y-1.5 mb-3">
+        {order.items.map(function (item) {
+          var max = Math.max(0, available[item.sku] || 0);
+          var qty = quantities[item.sku] || 0;
+          return (
+            <div key={item.sku} className={"flex items-center gap-3 border rounded-lg px-3 py-2 " + (max === 0 ? "border-gray-100 opacity-60" : "border-gray-200")}>
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-800 truncate" style={{ fontSize: "0.8rem", fontWeight: 500 }}>{item.titulo}</p>
+                <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>{max === 0 ? "Já incluído em outra solicitação" : "SKU: " + item.sku}</p>
+              </div>
+              <select
+                value={qty}
+                disabled={max === 0 || submitting}
+                onChange={function (e) {
+                  var v = Number(e.target.value);
+                  setQuantities(function (prev) { return { ...prev, [item.sku]: v }; });
+                }}
+                className="border border-gray-200 rounded-lg px-2 py-1 bg-white text-gray-700"
+                style={{ fontSize: "0.8rem" }}
+              >
+                {Array.from({ length: max + 1 }).map(function (_, n) {
+                  return <option key={n} value={n}>{n === 0 ? "Não devolver" : n + " un."}</option>;
+                })}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <div>
+          <label className="text-gray-600 block mb-0.5" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Motivo *</label>
+          <select
+            value={reason}
+            onChange={function (e) { setReason(e.target.value as RmaReason); }}
+            disabled={submitting}
+            className="w-full border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-800"
+            style={{ fontSize: "0.82rem" }}
+          >
+            <option value="">Selecione...</option>
+            {REASONS.map(function (r) {
+              return <option key={r} value={r} disabled={r === "withdrawal" && !withdrawalOpen}>{RMA_REASON_LABELS[r]}</option>;
+            })}
+          </select>
+          {!withdrawalOpen && (
+            <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.65rem" }}>O prazo de arrependimento (7 dias após a entrega) já terminou.</p>
+          )}
+        </div>
+        <div>
+          <label className="text-gray-600 block mb-0.5" style={{ fontSize: "0.78rem", fontWeight: 500 }}>O que você prefere? *</label>
+          <select
+            value={resolution}
+            onChange={function (e) { setResolution(e.target.value as RmaResolution); }}
+            disabled={submitting}
+            className="w-full border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-800"
+            style={{ fontSize: "0.82rem" }}
+          >
+            <option value="refund">{RMA_RESOLUTION_LABELS.refund}</option>
+            <option value="exchange">{RMA_RESOLUTION_LABELS.exchange}</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <label className="text-gray-600 block mb-0.5" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Descreva o problema *</label>
+        <textarea
+          value={description}
+          onChange={function (e) { setDescription(e.target.value); }}
+          placeholder="Ex.: a peça não serve no meu veículo, chegou com a embalagem violada..."
+          maxLength={2000}
+          rows={3}
+          disabled={submitting}
+          className="w-full border border-gray-200 rounded-lg px-3 py-1.5 text-gray-800 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none transition-colors resize-none"
+          style={{ fontSize: "0.82rem" }}
+        />
+      </div>
+
+      <div className="mb-3">
+        <label className="text-gray-600 block mb-1" style={{ fontSize: "0.78rem", fontWeight: 500 }}>
+          {"Fotos do produto" + (needsPhotos ? " *" : " (opcional)") + ", máx. " + MAX_PHOTOS}
+        </label>
+        <div className="flex gap-1.5 flex-wrap items-center">
+          {previews.map(function (url, idx) {
+            return (
+              <div key={idx} className="relative w-14 h-14 rounded-md overflow-hidden border border-gray-200">
+                <img src={url} alt={"Foto " + (idx + 1)} className="w-full h-full object-cover" />
+                <button type="button" onClick={function () { removePhoto(idx); }} className="absolute top-0.5 right-0.5 bg-black/50 text-white rounded-full p-0.5 hover:bg-black/70">
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </div>
+            );
+          })}
+          {photos.length < MAX_PHOTOS && (
+            <button
+              type="button"
+              onClick={function () { fileInputRef.current?.click(); }}
+              className="w-14 h-14 rounded-md border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 hover:text-red-500 hover:border-red-300 transition-colors"
+            >
+              <Camera className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <input ref={fileInputRef} type="file" accept="image/jpeg,image/png,image/webp" onChange={handleAddPhoto} className="hidden" multiple />
+        <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.65rem" }}>JPG, PNG ou WebP. Máx. 5MB cada. Mostre o defeito, a etiqueta e a embalagem.</p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white rounded-lg px-4 py-2 transition-colors disabled:opacity-50 cursor-pointer"
+        style={{ fontSize: "0.85rem", fontWeight: 600 }}
+      >
+        {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />}
+        {submitting ? "Enviando..." : "Enviar solicitação"}
+      </button>
+    </form>
+  );
+}
+
+export function OrderReturnsPanel({ order, rmas, accessToken, onRmaChanged }: {
+  order: UserOrder;
+  rmas: CustomerRma[];
+  accessToken: string;
+  onRmaChanged: (rma: CustomerRma) => void;
+}) {
+  var [formOpen, setFormOpen] = useState(false);
+  var win = order.returnWindow;
+  var available = availableUnits(order, rmas);
+  var hasUnitsLeft = Object.keys(available).some(function (sku) { return available[sku] > 0; });
+  var canRequest = !!win && Date.now() <= new Date(win.defectUntil).getTime() && hasUnitsLeft
+    && (order.status === "delivered" || order.status === "return_requested");
+
+  if (rmas.length === 0 && !canRequest) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {rmas.map(function (rma) {
+        return <RmaCard key={rma.id} rma={rma} accessToken={accessToken} onChanged={onRmaChanged} />;
+      })}
+      {canRequest && (formOpen ? (
+        <RmaRequestForm
+          order={order}
+          rmas={rmas}
+          accessToken={accessToken}
+          onCreated={function (rma) { setFormOpen(false); onRmaChanged(rma); }}
+          onClose={function () { setFormOpen(false); }}
+        />
+      ) : (
+        <button
+          onClick={function () { setFormOpen(true); }}
+          className="w-full flex items-center justify-center gap-2 bg-white hover:bg-orange-50 border border-orange-200 text-orange-700 rounded-xl px-4 py-2.5 transition-colors cursor-pointer"
+          style={{ fontSize: "0.85rem", fontWeight: 600 }}
+        >
+          <Undo2 className="w-4 h-4" />
+          {rmas.some(function (r) { return isRmaOpenStatus(r.status); }) ? "Solicitar troca ou devolução de outro item" : "Solicitar troca ou devolução"}
+        </button>
+      ))}
+      {canRequest && win && !formOpen && (
+        <p className="text-gray-400 text-center" style={{ fontSize: "0.68rem" }}>
+          {"Arrependimento até " + formatDate(win.withdrawalUntil) + " · defeito ou produto errado até " + formatDate(win.defectUntil)}
+        </p>
+      )}
+    </div>
+  );
+}
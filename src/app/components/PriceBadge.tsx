@@ -14,6 +14,8 @@
  * - seedPriceCache(sku, price): "planta" preco no cache (usado pelo bulk-fetch
  *   do HomePage/SuperPromo para evitar N chamadas individuais)
  * - seedPriceConfig(config): define o tier de preco ativo (V1-V5)
+ * - seedPromoCampaigns(campaigns): campanhas Super Promo ativas (homepage-init),
+ *   ja resolvidas por SKU no servidor — o badge mostra "De X" + campanha vencedora
  *
  * VARIANTES:
  * - "compact": para grids de produto (tamanho menor)
@@ -24,7 +26,7 @@
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 import React, { useState, useEffect, useCallback } from "react";
-import { Loader2, Zap, CreditCard } from "lucide-react";
+import { Loader2, Zap, CreditCard, Flame } from "lucide-react";
 import * as api from "../services/api";
 import type { ProductPrice, PriceConfig } from "../services/api";
 import { useCatalogMode } from "../contexts/CatalogModeContext";
@@ -37,6 +39,8 @@ interface PriceBadgeProps {
   preloaded?: ProductPrice | null;
   /** Force show even if showPrice is off (for admin test) */
   forceShow?: boolean;
+  /** Show the regular price even when the SKU is in a Super Promo campaign */
+  ignorePromo?: boolean;
 }
 
 function formatPrice(value: number): string {
@@ -139,6 +143,33 @@ function fetchPriceThrottled(sku: string): Promise<ProductPrice> {
   return promise;
 }
 
+// ═══════════════════════════════════════════════════════════
+// Module-level Super Promo campaigns
+// ═══════════════════════════════════════════════════════════
+
+let _promoCampaigns: api.SuperPromo[] = [];
+const _promoListeners = new Set<() => void>();
+
+/**
+ * Seed the active Super Promo campaigns from homepage-init.
+ * Each SKU appears in at most one campaign (the server picks the winner by priority).
+ */
+export function seedPromoCampaigns(campaigns: api.SuperPromo[]): void {
+  _promoCampaigns = campaigns || [];
+  _promoListeners.forEach((fn) => fn());
+}
+
+function usePromoForSku(sku: string, disabled?: boolean) {
+  const [, setVersion] = useState(0);
+  useEffect(() => {
+    if (disabled) return;
+    const onSeed = () => setVersion((v) => v + 1);
+    _promoListeners.add(onSeed);
+    return () => { _promoListeners.delete(onSeed); };
+  }, [disabled]);
+  return disabled ? null : api.findSuperPromoForSku(_promoCampaigns, sku);
+}
+
 // ═══════════════════════════════════════════════════════════
 // Module-level config cache
 // ═══════════════════════════════════════════════════════════
@@ -225,8 +256,9 @@ async function getPriceConfigCached(): Promise<PriceConfig> {
   });
 }
 
-function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow }: PriceBadgeProps) {
+function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow, ignorePromo }: PriceBadgeProps) {
   const { catalogMode } = useCatalogMode();
+  const promoMatch = usePromoForSku(sku, ignorePromo);
   const [priceData, setPriceData] = useState<ProductPrice | null>(preloaded ?? null);
   const [loading, setLoading] = useState(preloaded === undefined);
   const [config, setConfig] = useState<PriceConfig | null>(null);
@@ -324,7 +356,9 @@ function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow }: PriceB
     return null;
   }
 
-  const price = priceData.price;
+  const basePrice = priceData.price;
+  const promo = promoMatch && basePrice > 0 ? api.computePromoPrice(basePrice, promoMatch.promo, promoMatch.product) : null;
+  const price = promo ? promo.promoPrice : basePrice;
   const pixEnabled = config?.pixDiscountEnabled === true;
   const pixPercent = config?.pixDiscountPercent ?? 5;
   const pixPrice = pixEnabled ? price * (1 - pixPercent / 100) : null;
@@ -335,10 +369,30 @@ function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow }: PriceB
     : 0;
   const installmentValue = maxInstallments > 0 ? price / maxInstallments : 0;
 
+  // ─── Super Promo: winning campaign + "De X" ───
+  const promoHeader = promo && promoMatch ? (
+    <div className="flex items-center gap-1.5 flex-wrap">
+      <span
+        className="bg-red-600 text-white px-1.5 py-0.5 rounded flex items-center gap-1 max-w-full truncate"
+        style={{ fontSize: variant === "compact" ? "0.58rem" : "0.68rem", fontWeight: 700 }}
+      >
+        <Flame className={variant === "compact" ? "w-2.5 h-2.5 shrink-0" : "w-3 h-3 shrink-0"} />
+        {(promoMatch.promo.title || "Super Promoção").replace("Promocao", "Promoção")}
+      </span>
+      <span className="text-gray-400 line-through" style={{ fontSize: variant === "compact" ? "0.68rem" : "0.85rem" }}>
+        De {formatPrice(basePrice)}
+      </span>
+      <span className="text-emerald-700" style={{ fontSize: variant === "compact" ? "0.6rem" : "0.72rem", fontWeight: 700 }}>
+        {promo.discountLabel}
+      </span>
+    </div>
+  ) : null;
+
   // ─── Compact (for ProductCard) ───
   if (variant === "compact") {
     return (
       <div className="space-y-1">
+        {promoHeader}
         {/* PIX price — prominent */}
         {pixEnabled && pixPrice !== null ? (
           <>
@@ -385,6 +439,7 @@ function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow }: PriceB
   // ─── Full (for ProductDetailPage) ───
   return (
     <div className="space-y-2">
+      {promoHeader}
       {pixEnabled && pixPrice !== null ? (
         <>
           {/* Original price with strikethrough */}
@@ -397,6 +452,11 @@ function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow }: PriceB
                 preço personalizado
               </span>
             )}
+            {priceData.customerTier && (
+              <span className="text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded" style={{ fontSize: "0.6rem", fontWeight: 600 }}>
+                preço B2B
+              </span>
+            )}
           </div>
           {/* PIX discounted price */}
           <div className="flex items-center gap-3 flex-wrap">
@@ -442,6 +502,11 @@ function PriceBadgeInner({ sku, variant = "full", preloaded, forceShow }: PriceB
                 preço personalizado
               </span>
             )}
+            {priceData.customerTier && (
+              <span className="text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded" style={{ fontSize: "0.6rem", fontWeight: 600 }}>
+                preço B2B
+              </span>
+            )}
           </div>
           {maxInstallments > 1 && (
             <p className="text-gray-500 flex items-center gap-1.5" style={{ fontSize: "0.88rem" }}>
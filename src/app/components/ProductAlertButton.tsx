@@ -0,0 +1,336 @@
+/**
+ * PRODUCT ALERT BUTTON — "Avise-me quando chegar" / "Avise-me se o preço baixar".
+ * variant "full": bloco da pagina de produto (visitante informa e-mail e confirma pelo link
+ * que recebe; cliente logado usa o e-mail da conta e o WhatsApp do cadastro, se autorizado).
+ * variant "compact": sino da lista de favoritos (cliente logado; a pagina carrega os avisos
+ * de todos os itens de uma vez e passa os deste SKU em `alerts`).
+ * O aviso dispara uma vez, por e-mail e WhatsApp, quando o estoque volta ou o preço
+ * fica igual ou abaixo do valor informado. Integra: POST /product-alerts.
+ */
+import React, { useState, useEffect, useCallback } from "react";
+import { Bell, BellRing, Check, Loader2, X, TrendingDown, PackageCheck } from "lucide-react";
+import * as api from "../services/api";
+import { getValidAccessToken } from "../services/supabaseClient";
+import { toast } from "sonner";
+
+interface ProductAlertButtonProps {
+  sku: string;
+  titulo: string;
+  variant?: "full" | "compact";
+  /** Stock alert when true, price alert otherwise (full variant) */
+  outOfStock?: boolean;
+  /** Current price in reais — suggests the target and validates it */
+  currentPrice?: number | null;
+  /** Compact variant: this SKU's alerts, loaded by the parent */
+  alerts?: api.ProductAlert[];
+  onChange?: () => void;
+}
+
+function formatBRL(v: number): string {
+  return "R$ " + v.toFixed(2).replace(".", ",");
+}
+
+function parsePrice(raw: string): number | null {
+  var n = Number(String(raw).replace(/[^\d,.]/g, "").replace(/\.(?=\d{3}(\D|$))/g, "").replace(",", "."));
+  return isFinite(n) && n > 0 ? Math.round(n * 100) / 100 : null;
+}
+
+/** The logged-in customer's alerts for a list of SKUs (favorites), grouped by SKU */
+export function useProductAlertsFor(skus: string[]) {
+  var [bySku, setBySku] = useState<Record<string, api.ProductAlert[]>>({});
+  var key = skus.join(",");
+
+  var reload = useCallback(async function () {
+    if (!key) { setBySku({}); return; }
+    var token = await getValidAccessToken();
+    if (!token) return;
+    try {
+      var res = await api.getUserProductAlerts(token, key.split(","));
+      var map: Record<string, api.ProductAlert[]> = {};
+      for (var i = 0; i < (res.alerts || []).length; i++) {
+        var a = res.alerts[i];
+        (map[a.sku] = map[a.sku] || []).push(a);
+      }
+      setBySku(map);
+    } catch {}
+  }, [key]);
+
+  useEffect(function () { reload(); }, [reload]);
+
+  return { alertsBySku: bySku, reload: reload };
+}
+
+function ProductAlertButtonInner({ sku, titulo, variant = "full", outOfStock = false, currentPrice = null, alerts, onChange }: ProductAlertButtonProps) {
+  var [token, setToken] = useState<string | null>(null);
+  var [ownAlerts, setOwnAlerts] = useState<api.ProductAlert[]>([]);
+  var [open, setOpen] = useState(false);
+  var [type, setType] = useState<api.ProductAlertType>(outOfStock ? "stock" : "price");
+  var [email, setEmail] = useState("");
+  var [target, setTarget] = useState("");
+  var [saving, setSaving] = useState(false);
+  var [done, setDone] = useState<api.ProductAlertType | null>(null);
+  /** Guest: e-mail the confirmation link went to */
+  var [pendingEmail, setPendingEmail] = useState("");
+
+  useEffect(function () {
+    setType(outOfStock ? "stock" : "price");
+  }, [outOfStock]);
+
+  useEffect(function () {
+    if (currentPrice && currentPrice > 0 && !target) {
+      setTarget((Math.floor(currentPrice * 0.9 * 100) / 100).toFixed(2).replace(".", ","));
+    }
+  }, [currentPrice]);
+
+  // Full variant: logged-in customers see the alerts they already have for this product
+  useEffect(function () {
+    var cancelled = false;
+    getValidAccessToken().then(function (t) {
+      if (cancelled || !t) return;
+      setToken(t);
+      if (variant !== "full") return;
+      api.getUserProductAlerts(t, [sku]).then(function (res) {
+        if (!cancelled) setOwnAlerts(res.alerts || []);
+      }).catch(function () {});
+    });
+    return function () { cancelled = true; };
+  }, [sku, variant]);
+
+  var list = variant === "compact" ? (alerts || []) : ownAlerts;
+  var active = list.filter(function (a) { return a.status === "active"; });
+  var activeOfType = active.find(function (a) { return a.type === type; });
+
+  async function refreshOwn() {
+    if (variant === "compact") { if (onChange) onChange(); return; }
+    if (!token) return;
+    try {
+      var res = await api.getUserProductAlerts(token, [sku]);
+      setOwnAlerts(res.alerts || []);
+    } catch {}
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+    if (!token && !email.trim()) {
+      toast.error("Informe seu e-mail para receber o aviso.");
+      return;
+    }
+    var targetPrice: number | undefined;
+    if (type === "price") {
+      var parsed = parsePrice(target);
+      if (!parsed) {
+        toast.error("Informe o preço desejado.");
+        return;
+      }
+      if (currentPrice && parsed >= currentPrice) {
+        toast.error("O preço desejado precisa ser menor que o atual (" + formatBRL(currentPrice) + ").");
+        return;
+      }
+      targetPrice = parsed;
+    }
+    setSaving(true);
+    try {
+      var res = await api.subscribeProductAlert({
+        sku: sku,
+        type: type,
+        email: token ? undefined : email.trim(),
+        targetPrice: targetPrice,
+        source: variant === "compact" ? "favorites" : "product",
+      }, token);
+      setDone(type);
+      setOpen(false);
+      if (res.pending) {
+        setPendingEmail(email.trim());
+        toast.success("Confirme o aviso pelo link que enviamos para " + email.trim() + ".", { description: titulo, duration: 5000 });
+      } else if (!token && !res.alert) {
+        toast.success("Este e-mail já tem um aviso ativo para este produto.", { description: titulo, duration: 4000 });
+      } else {
+        toast.success(type === "stock" ? "Pronto! Avisaremos quando chegar." : "Pronto! Avisaremos quando o preço baixar.", { description: titulo, duration: 3000 });
+      }
+      refreshOwn();
+    } catch (err: any) {
+      toast.error(err?.message || "Não foi possível criar o aviso.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCancel(alert: api.ProductAlert) {
+    if (!token) return;
+    try {
+      await api.cancelUserProductAlert(token, sku, alert.id);
+      toast.success("Aviso cancelado.");
+      setDone(null);
+      refreshOwn();
+    } catch (err: any) {
+      toast.error(err?.message || "Não foi possível cancelar o aviso.");
+    }
+  }
+
+  var form = (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {variant === "compact" && (
+        <div className="flex gap-1.5">
+          {(["stock", "price"] as api.ProductAlertType[]).map(function (t) {
+            return (
+              <button
+                key={t}
+                type="button"
+                onClick={function () { setType(t); }}
+                className={"flex-1 px-2 py-1.5 rounded-lg border transition-colors cursor-pointer " + (type === t ? "border-red-300 bg-red-50 text-red-700" : "border-gray-200 text-gray-500 hover:bg-gray-50")}
+                style={{ fontSize: "0.72rem", fontWeight: 600 }}
+              >
+                {t === "stock" ? "Chegou no estoque" : "Baixou o preço"}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {type === "price" && (
+        <label className="block">
+          <span className="text-gray-600" style={{ fontSize: "0.75rem", fontWeight: 500 }}>Me avise quando custar até</span>
+          <div className="mt-1 flex items-center rounded-lg border border-gray-200 bg-white focus-within:border-red-400">
+            <span className="pl-3 text-gray-400" style={{ fontSize: "0.85rem" }}>R$</span>
+            <input
+              value={target}
+              onChange={function (e) { setTarget(e.target.value); }}
+              inputMode="decimal"
+              placeholder="0,00"
+              className="w-full px-2 py-2 bg-transparent outline-none"
+              style={{ fontSize: "0.85rem" }}
+            />
+          </div>
+        </label>
+      )}
+      {!token && (
+        <input
+          type="email"
+          value={email}
+          onChange={function (e) { setEmail(e.target.value); }}
+          placeholder="Seu e-mail"
+          required
+          maxLength={254}
+          className="w-full px-3 py-2 rounded-lg border border-gray-200 outline-none focus:border-red-400"
+          style={{ fontSize: "0.85rem" }}
+        />
+      )}
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-60 transition-colors cursor-pointer"
+        style={{ fontSize: "0.85rem", fontWeight: 700 }}
+      >
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Bell className="w-4 h-4" />}
+        {type === "stock" ? "Avise-me quando chegar" : "Avise-me se baixar"}
+      </button>
+      <p className="text-gray-400" style={{ fontSize: "0.68rem" }}>
+        {token
+          ? "Enviamos um único aviso por e-mail (e WhatsApp, se autorizado no seu cadastro). Você pode cancelar pelo link da mensagem."
+          : "Enviaremos um link para confirmar seu e-mail. Enviamos um único aviso e você pode cancelar pelo link da mensagem."}
+      </p>
+    </form>
+  );
+
+  if (variant === "compact") {
+    return (
+      <div className="relative">
+        <button
+          type="button"
+          onClick={function () { setOpen(!open); }}
+          className={"p-2 rounded-full transition-colors cursor-pointer " + (active.length > 0 ? "text-amber-500 hover:bg-amber-50" : "text-gray-300 hover:text-amber-500 hover:bg-amber-50/60")}
+          title={active.length > 0 ? "Você tem aviso ativo para este produto" : "Criar aviso de estoque ou preço"}
+          aria-label="Avisos do produto"
+        >
+          {active.length > 0 ? <BellRing className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+        </button>
+        {open && (
+          <div className="absolute right-0 top-full mt-2 z-20 w-72 bg-white border border-gray-200 rounded-xl shadow-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-gray-800" style={{ fontSize: "0.8rem", fontWeight: 700 }}>Avisos deste produto</span>
+              <button type="button" onClick={function () { setOpen(false); }} className="text-gray-400 hover:text-gray-600 cursor-pointer" aria-label="Fechar">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {active.map(function (a) {
+              return (
+                <div key={a.id} className="flex items-center justify-between gap-2 mb-2 px-2 py-1.5 rounded-lg bg-amber-50 border border-amber-100">
+                  <span className="text-amber-800" style={{ fontSize: "0.72rem" }}>
+                    {a.type === "stock" ? "Quando chegar no estoque" : "Preço até " + formatBRL((a.targetCents || 0) / 100)}
+                  </span>
+                  <button type="button" onClick={function () { handleCancel(a); }} className="text-amber-700 hover:text-red-600 cursor-pointer" style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+                    Cancelar
+                  </button>
+                </div>
+              );
+            })}
+            {form}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Full variant
+  if (pendingEmail && done === type) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800" style={{ fontSize: "0.82rem" }}>
+        <Bell className="w-4 h-4 shrink-0" />
+        <span>{"Falta confirmar: abra o link que enviamos para " + pendingEmail + "."}</span>
+      </div>
+    );
+  }
+
+  if (activeOfType || done === type) {
+    return (
+      <div className="flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-green-50 border border-green-200">
+        <div className="flex items-center gap-2 text-green-800" style={{ fontSize: "0.82rem" }}>
+          <Check className="w-4 h-4 shrink-0" />
+          <span>
+            {type === "stock"
+              ? "Você será avisado quando este produto chegar."
+              : "Você será avisado se o preço baixar" + (activeOfType && activeOfType.targetCents ? " para até " + formatBRL(activeOfType.targetCents / 100) : "") + "."}
+          </span>
+        </div>
+        {activeOfType && token && (
+          <button type="button" onClick={function () { handleCancel(activeOfType!); }} className="text-green-700 hover:text-red-600 shrink-0 cursor-pointer" style={{ fontSize: "0.75rem", fontWeight: 600 }}>
+            Cancelar
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!outOfStock && !open) {
+    return (
+      <button
+        type="button"
+        onClick={function () { setOpen(true); }}
+        className="flex items-center gap-1.5 text-gray-500 hover:text-red-600 transition-colors cursor-pointer"
+        style={{ fontSize: "0.8rem", fontWeight: 500 }}
+      >
+        <TrendingDown className="w-4 h-4" />
+        Avise-me se o preço baixar
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-gray-50 p-3 sm:p-4">
+      <div className="flex items-center gap-2 mb-2">
+        {outOfStock ? <PackageCheck className="w-4 h-4 text-red-600" /> : <TrendingDown className="w-4 h-4 text-red-600" />}
+        <span className="text-gray-800" style={{ fontSize: "0.85rem", fontWeight: 700 }}>
+          {outOfStock ? "Avise-me quando chegar" : "Avise-me se o preço baixar"}
+        </span>
+        {!outOfStock && (
+          <button type="button" onClick={function () { setOpen(false); }} className="ml-auto text-gray-400 hover:text-gray-600 cursor-pointer" aria-label="Fechar">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {form}
+    </div>
+  );
+}
+
+export const ProductAlertButton = React.memo(ProductAlertButtonInner);
@@ -0,0 +1,426 @@
+/**
+ * PRODUCT QUESTIONS — Perguntas e respostas na página do produto.
+ * Qualquer visitante pergunta (logado ou com nome + e-mail); a loja responde
+ * pelo admin e quem comprou o produto também pode responder. Perguntas e
+ * respostas de clientes passam pela moderação; quem perguntou recebe a
+ * resposta por e-mail. As respondidas viram JSON-LD QAPage/Question no <head>
+ * (um QAPage por pergunta, na âncora #pergunta-<id>).
+ */
+import React, { useState, useEffect, useCallback } from "react";
+import { HelpCircle, Send, Loader2, ChevronDown, ChevronUp, CheckCircle2, BadgeCheck, Store, Reply, Clock } from "lucide-react";
+import * as api from "../services/api";
+import type { ProductQuestion } from "../services/api";
+import { supabase } from "../services/supabaseClient";
+import { toast } from "sonner";
+
+var PAGE_SIZE = 5;
+var QUESTION_MIN = 10;
+var QUESTION_MAX = 1000;
+var ANSWER_MAX = 2000;
+
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleDateString("pt-BR", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+/* ═══════════════════════════════════════
+   JSON-LD QAPage (answered questions only)
+   ═══════════════════════════════════════ */
+function JsonLdProductQuestions({ sku, titulo, questions }: { sku: string; titulo: string; questions: ProductQuestion[] }) {
+  useEffect(function () {
+    var answered = questions.filter(function (q) { return q.answers.length > 0; });
+    if (answered.length === 0) return;
+
+    // A QAPage holds a single Question: each answered one gets its own, keyed to
+    // the question's anchor on the product page
+    var pageUrl = window.location.origin + "/produto/" + encodeURIComponent(sku);
+    var scripts = answered.map(function (q) {
+      var questionUrl = pageUrl + "#pergunta-" + q.id;
+      var toAnswer = function (a: api.ProductQuestionAnswer) {
+        return {
+          "@type": "Answer",
+          "text": a.text,
+          "dateCreated": new Date(a.createdAt).toISOString(),
+          "url": questionUrl,
+          "author": a.authorType === "store"
+            ? { "@type": "Organization", "name": a.authorName }
+            : { "@type": "Person", "name": a.authorName },
+        };
+      };
+      // The store's answer is the accepted one; customers' answers are suggestions
+      var storeAnswer = q.answers.find(function (a) { return a.authorType === "store"; });
+      var others = q.answers.filter(function (a) { return a !== storeAnswer; });
+
+      var jsonLd = {
+        "@context": "https://schema.org",
+        "@type": "QAPage",
+        "name": "Perguntas sobre " + titulo,
+        "url": questionUrl,
+        "mainEntity": {
+          "@type": "Question",
+          "name": q.question.length > 150 ? q.question.substring(0, 147) + "..." : q.question,
+          "text": q.question,
+          "answerCount": q.answers.length,
+          "dateCreated": new Date(q.createdAt).toISOString(),
+          "author": { "@type": "Person", "name": q.askerName },
+          "acceptedAnswer": storeAnswer ? toAnswer(storeAnswer) : undefined,
+          "suggestedAnswer": others.length > 0 ? others.map(toAnswer) : undefined,
+        },
+      };
+
+      var script = document.createElement("script");
+      script.type = "application/ld+json";
+      script.setAttribute("data-qa-jsonld", "true");
+      script.textContent = JSON.stringify(jsonLd);
+      document.head.appendChild(script);
+      return script;
+    });
+
+    return function () {
+      scripts.forEach(function (el) { el.remove(); });
+    };
+  }, [sku, titulo, questions]);
+
+  return null;
+}
+
+/* ═══════════════════════════════════════
+   Ask form (guest: name + e-mail)
+   ═══════════════════════════════════════ */
+function QuestionForm({ sku, accessToken, onSent }: { sku: string; accessToken: string | null; onSent: () => void }) {
+  var [question, setQuestion] = useState("");
+  var [name, setName] = useState("");
+  var [email, setEmail] = useState("");
+  var [sending, setSending] = useState(false);
+
+  var handleSubmit = async function (e: React.FormEvent) {
+    e.preventDefault();
+    var text = question.trim();
+    if (text.length < QUESTION_MIN) {
+      toast.error("Escreva sua pergunta com pelo menos " + QUESTION_MIN + " caracteres.");
+      return;
+    }
+    if (!accessToken && (!name.trim() || !email.trim())) {
+      toast.error("Informe seu nome e e-mail para receber a resposta.");
+      return;
+    }
+    setSending(true);
+    try {
+      await api.askProductQuestion(
+        accessToken ? { sku: sku, question: text } : { sku: sku, question: text, name: name.trim(), email: email.trim() },
+        accessToken
+      );
+      toast.success("Pergunta enviada! Ela aparece aqui depois de aprovada e avisamos você por e-mail quando for respondida.");
+      setQuestion("");
+      onSent();
+    } catch (err: any) {
+      toast.error(err?.message || "Não foi possível enviar sua pergunta.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+      <textarea
+        value={question}
+        onChange={function (e) { setQuestion(e.target.value); }}
+        maxLength={QUESTION_MAX}
+        rows={3}
+        placeholder="Ex.: Serve no Gol 2012 1.6?"
+        className="w-full border border-gray-200 rounded-md px-2.5 py-2 text-gray-700 focus:outline-none focus:border-red-300 resize-none"
+        style={{ fontSize: "0.82rem" }}
+      />
+      {!accessToken && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            value={name}
+            onChange={function (e) { setName(e.target.value); }}
+            maxLength={100}
+            placeholder="Seu nome"
+            className="border border-gray-200 rounded-md px-2.5 py-1.5 text-gray-700 focus:outline-none focus:border-red-300"
+            style={{ fontSize: "0.8rem" }}
+          />
+          <input
+            type="email"
+            value={email}
+            onChange={function (e) { setEmail(e.target.value); }}
+            maxLength={254}
+            placeholder="Seu e-mail (para receber a resposta)"
+            className="border border-gray-200 rounded-md px-2.5 py-1.5 text-gray-700 focus:outline-none focus:border-red-300"
+            style={{ fontSize: "0.8rem" }}
+          />
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-400" style={{ fontSize: "0.68rem" }}>
+          {question.length + "/" + QUESTION_MAX}
+        </span>
+        <button
+          type="submit"
+          disabled={sending}
+          className="flex items-center gap-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-3 py-1.5 rounded-lg transition-colors cursor-pointer"
+          style={{ fontSize: "0.78rem", fontWeight: 600 }}
+        >
+          {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+          Enviar pergunta
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/* ═══════════════════════════════════════
+   Question card (answers + buyer reply)
+   ═══════════════════════════════════════ */
+function QuestionCard({ sku, question, accessToken, canAnswer }: { sku: string; question: ProductQuestion; accessToken: string | null; canAnswer: boolean }) {
+  var [replying, setReplying] = useState(false);
+  var [text, setText] = useState("");
+  var [sending, setSending] = useState(false);
+  var [sent, setSent] = useState(false);
+
+  var handleReply = async function () {
+    if (!accessToken || !text.trim()) return;
+    setSending(true);
+    try {
+      await api.answerProductQuestion(accessToken, sku, question.id, text.trim());
+      toast.success("Resposta enviada! Ela aparece aqui depois de aprovada.");
+      setSent(true);
+      setReplying(false);
+      setText("");
+    } catch (err: any) {
+      toast.error(err?.message || "Não foi possível enviar sua resposta.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div id={"pergunta-" + question.id} className="bg-white border border-gray-200 rounded-lg p-3">
+      <div className="flex items-start gap-2">
+        <HelpCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-gray-800 whitespace-pre-line" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+            {question.question}
+          </p>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.68rem" }}>
+            {question.askerName + " · " + formatDate(question.createdAt)}
+          </p>
+        </div>
+      </div>
+
+      {question.answers.length > 0 ? (
+        <div className="mt-2 ml-6 space-y-2">
+          {question.answers.map(function (a) {
+            var isStore = a.authorType === "store";
+            return (
+              <div key={a.id} className={"border-l-2 pl-2.5 " + (isStore ? "border-red-400" : "border-gray-200")}>
+                <p className="text-gray-700 whitespace-pre-line" style={{ fontSize: "0.8rem" }}>{a.text}</p>
+                <p className="flex items-center gap-1 text-gray-400 mt-0.5" style={{ fontSize: "0.68rem" }}>
+                  {isStore ? <Store className="w-3 h-3 text-red-500" /> : <BadgeCheck className="w-3 h-3 text-green-500" />}
+                  <span className={isStore ? "text-red-600" : "text-gray-500"} style={{ fontWeight: 600 }}>{a.authorName}</span>
+                  {!isStore && <span className="text-green-600">· Comprou este produto</span>}
+                  <span>{"· " + formatDate(a.createdAt)}</span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="flex items-center gap-1 mt-1.5 ml-6 text-gray-400" style={{ fontSize: "0.72rem" }}>
+          <Clock className="w-3 h-3" />
+          Aguardando resposta
+        </p>
+      )}
+
+      {canAnswer && !sent && (
+        replying ? (
+          <div className="mt-2 ml-6 space-y-1.5">
+            <textarea
+              value={text}
+              onChange={function (e) { setText(e.target.value); }}
+              maxLength={ANSWER_MAX}
+              rows={2}
+              placeholder="Conte o que você sabe sobre o produto"
+              className="w-full border border-gray-200 rounded-md px-2.5 py-1.5 text-gray-700 focus:outline-none focus:border-red-300 resize-none"
+              style={{ fontSize: "0.8rem" }}
+            />
+            <div className="flex items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={function () { setReplying(false); }}
+                className="text-gray-500 hover:text-gray-700 px-2 py-1 cursor-pointer"
+                style={{ fontSize: "0.74rem" }}
+              >
+                Cancelar
+              </button>
+              <button
+                type="button"
+                onClick={handleReply}
+                disabled={sending || !text.trim()}
+                className="flex items-center gap-1 bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-2.5 py-1 rounded-md transition-colors cursor-pointer"
+                style={{ fontSize: "0.74rem", fontWeight: 600 }}
+              >
+                {sending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+                Responder
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={function () { setReplying(true); }}
+            className="flex items-center gap-1 mt-2 ml-6 text-gray-500 hover:text-red-600 transition-colors cursor-pointer"
+            style={{ fontSize: "0.74rem", fontWeight: 500 }}
+          >
+            <Reply className="w-3.5 h-3.5" />
+            Você comprou este produto — responder
+          </button>
+        )
+      )}
+      {sent && (
+        <p className="flex items-center gap-1 mt-2 ml-6 text-green-600" style={{ fontSize: "0.72rem" }}>
+          <CheckCircle2 className="w-3 h-3" />
+          Sua resposta está aguardando moderação.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════════════════════════
+   Main Component
+   ═══════════════════════════════════════ */
+export function ProductQuestions({ sku, titulo }: { sku: string; titulo: string }) {
+  var [questions, setQuestions] = useState<ProductQuestion[]>([]);
+  var [loading, setLoading] = useState(true);
+  var [expanded, setExpanded] = useState(true);
+  var [showForm, setShowForm] = useState(false);
+  var [visible, setVisible] = useState(PAGE_SIZE);
+  var [accessToken, setAccessToken] = useState<string | null>(null);
+  var [canAnswer, setCanAnswer] = useState(false);
+
+  var loadQuestions = useCallback(function (token: string | null) {
+    setLoading(true);
+    api.getProductQuestions(sku, token)
+      .then(function (res) {
+        setQuestions(res.questions || []);
+        setCanAnswer(!!res.canAnswer);
+      })
+      .catch(function (err) {
+        console.error("[ProductQuestions] Load error:", err);
+      })
+      .finally(function () { setLoading(false); });
+  }, [sku]);
+
+  useEffect(function () {
+    setVisible(PAGE_SIZE);
+    setShowForm(false);
+    supabase.auth.getSession()
+      .then(function (res) {
+        var session = res.data ? res.data.session : null;
+        var token = session && session.access_token ? session.access_token : null;
+        setAccessToken(token);
+        loadQuestions(token);
+      })
+      .catch(function () { loadQuestions(null); });
+  }, [loadQuestions]);
+
+  var shown = questions.slice(0, visible);
+
+  return (
+    <div className="mt-6">
+      <JsonLdProductQuestions sku={sku} titulo={titulo} questions={questions} />
+
+      {/* Section Header */}
+      <button
+        onClick={function () { setExpanded(!expanded); }}
+        className="w-full flex items-center justify-between mb-3 group cursor-pointer"
+      >
+        <div className="flex items-center gap-2">
+          <h2 className="text-gray-800" style={{ fontSize: "1.05rem", fontWeight: 700 }}>
+            Perguntas e respostas
+          </h2>
+          {questions.length > 0 && (
+            <span className="bg-red-50 text-red-600 px-2 py-0.5 rounded-full" style={{ fontSize: "0.72rem", fontWeight: 600 }}>
+              {questions.length}
+            </span>
+          )}
+        </div>
+        {expanded ? (
+          <ChevronUp className="w-4 h-4 text-gray-400 group-hover:text-red-500 transition-colors" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-gray-400 group-hover:text-red-500 transition-colors" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <p className="text-gray-500" style={{ fontSize: "0.78rem" }}>
+              Dúvida sobre compatibilidade ou medidas? Pergunte aqui.
+            </p>
+            {!showForm && (
+              <button
+                onClick={function () { setShowForm(true); }}
+                className="flex items-center gap-1.5 bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg transition-colors ml-auto cursor-pointer"
+                style={{ fontSize: "0.78rem", fontWeight: 600 }}
+              >
+                <HelpCircle className="w-3.5 h-3.5" />
+                Fazer pergunta
+              </button>
+            )}
+          </div>
+
+          {showForm && (
+            <QuestionForm
+              sku={sku}
+              accessToken={accessToken}
+              onSent={function () { setShowForm(false); }}
+            />
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="w-5 h-5 text-gray-300 animate-spin" />
+            </div>
+          ) : questions.length > 0 ? (
+            <div className="space-y-2">
+              {shown.map(function (q) {
+                return (
+                  <QuestionCard
+                    key={q.id}
+                    sku={sku}
+                    question={q}
+                    accessToken={accessToken}
+                    canAnswer={canAnswer}
+                  />
+                );
+              })}
+              {questions.length > visible && (
+                <button
+                  onClick={function () { setVisible(visible + PAGE_SIZE); }}
+                  className="w-full text-center text-red-600 hover:text-red-700 py-1.5 cursor-pointer"
+                  style={{ fontSize: "0.78rem", fontWeight: 600 }}
+                >
+                  {"Ver mais perguntas (" + (questions.length - visible) + ")"}
+                </button>
+              )}
+            </div>
+          ) : (
+            !showForm && (
+              <div className="text-center py-6">
+                <HelpCircle className="w-8 h-8 text-gray-200 mx-auto mb-2" />
+                <p className="text-gray-500" style={{ fontSize: "0.85rem", fontWeight: 500 }}>
+                  Nenhuma pergunta ainda
+                </p>
+                <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.78rem" }}>
+                  Seja o primeiro a perguntar sobre este produto!
+                </p>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
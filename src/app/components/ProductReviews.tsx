@@ -4,9 +4,11 @@
  * Upload de fotos (Supabase Storage). Moderação pelo admin.
  * Ordenação: mais recentes, mais úteis, melhor/pior avaliação.
  * Paginação com "Carregar mais". Botão "Útil" (thumbs up).
+ * Com inviteToken (link assinado do pedido de avaliação pós-compra) o
+ * formulário abre direto, sem login, e lista os outros produtos do pedido.
  */
 import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { Star, ThumbsUp, Send, Camera, X, Loader2, AlertCircle, CheckCircle2, Clock, ChevronDown, ChevronUp, User, Image as ImageIcon } from "lucide-react";
+import { Star, ThumbsUp, Send, Camera, X, Loader2, AlertCircle, CheckCircle2, Clock, ChevronDown, ChevronUp, User, Gift, Image as ImageIcon } from "lucide-react";
 import * as api from "../services/api";
 import type { Review, ReviewSummary } from "../services/api";
 import { supabase } from "../services/supabaseClient";
@@ -231,9 +233,11 @@ function ReviewCard({ review, onHelpful, isLoggedIn }: { review: Review; onHelpf
    ═══════════════════════════════════════ */
 function ReviewForm({
   sku,
+  inviteToken,
   onSubmitted,
 }: {
   sku: string;
+  inviteToken?: string;
   onSubmitted: () => void;
 }) {
   var [rating, setRating] = useState(0);
@@ -285,22 +289,24 @@ function ReviewForm({
     setError(null);
 
     try {
-      var sessionResult = await supabase.auth.getSession();
-      var session = sessionResult.data ? sessionResult.data.session : null;
-      if (!session || !session.access_token) {
-        setError("Você precisa estar logado para avaliar.");
-        setSubmitting(false);
-        return;
+      var reviewData = { sku: sku, rating: rating, title: title.trim(), comment: comment.trim() };
+      var accessToken = "";
+      var result: { ok: boolean; reviewId: string; status: string };
+      if (inviteToken) {
+        // Signed review-request link: no session needed
+        result = await api.submitInviteReview(inviteToken, reviewData);
+      } else {
+        var sessionResult = await supabase.auth.getSession();
+        var session = sessionResult.data ? sessionResult.data.session : null;
+        if (!session || !session.access_token) {
+          setError("Você precisa estar logado para avaliar.");
+          setSubmitting(false);
+          return;
+        }
+        accessToken = session.access_token;
+        result = await api.submitReview(accessToken, reviewData);
       }
 
-      // Submit the review
-      var result = await api.submitReview(session.access_token, {
-        sku: sku,
-        rating: rating,
-        title: title.trim(),
-        comment: comment.trim(),
-      });
-
       if (!result.ok) {
         setError("Erro ao enviar avaliação.");
         setSubmitting(false);
@@ -311,7 +317,7 @@ function ReviewForm({
       if (images.length > 0 && result.reviewId) {
         for (var i = 0; i < images.length; i++) {
           try {
-            await api.uploadReviewImage(result.reviewId, images[i], session.access_token);
+            await api.uploadReviewImage(result.reviewId, images[i], accessToken, inviteToken);
           } catch (imgErr: any) {
             console.error("[ReviewForm] Image upload error:", imgErr);
             toast.error("Erro ao enviar imagem " + (i + 1));
@@ -482,7 +488,7 @@ function ReviewForm({
 /* ═══════════════════════════════════════
    Main ProductReviews Component
    ═══════════════════════════════════════ */
-export function ProductReviews({ sku }: { sku: string }) {
+export function ProductReviews({ sku, inviteToken }: { sku: string; inviteToken?: string }) {
   var [reviews, setReviews] = useState<Review[]>([]);
   var [summary, setSummary] = useState<ReviewSummary | null>(null);
   var [loading, setLoading] = useState(true);
@@ -494,6 +500,32 @@ export function ProductReviews({ sku }: { sku: string }) {
   var [myReview, setMyReview] = useState<{ id: string; rating: number; status: string; createdAt: number } | null>(null);
   var [myReviewChecked, setMyReviewChecked] = useState(false);
   var [hasPurchased, setHasPurchased] = useState(false);
+  var [invite, setInvite] = useState<api.ReviewInvite | null>(null);
+
+  // Review-request link: open the form for this product when it's still unreviewed
+  useEffect(function () {
+    setInvite(null);
+    if (!inviteToken) return;
+    var cancelled = false;
+    api.getReviewInvite(inviteToken)
+      .then(function (res) {
+        if (cancelled) return;
+        setInvite(res);
+        var item = res.items.find(function (it) { return it.sku === sku; });
+        if (item && !item.reviewed) {
+          setExpanded(true);
+          setShowForm(true);
+        }
+      })
+      .catch(function (err: any) {
+        if (!cancelled) toast.error(err?.message || "Não foi possível abrir o link de avaliação.");
+      });
+    return function () { cancelled = true; };
+  }, [inviteToken, sku]);
+
+  var inviteItem = invite ? invite.items.find(function (it) { return it.sku === sku; }) || null : null;
+  var inviteOpen = !!(inviteToken && inviteItem && !inviteItem.reviewed);
+  var inviteOthers = invite ? invite.items.filter(function (it) { return it.sku !== sku && !it.reviewed; }) : [];
 
   // Check auth
   useEffect(function () {
@@ -715,8 +747,69 @@ export function ProductReviews({ sku }: { sku: string }) {
                 </div>
               )}
 
+              {/* Review request (signed link from the post-purchase message) */}
+              {invite && (inviteOpen || inviteOthers.length > 0) && (
+                <div className="bg-red-50 border border-red-100 rounded-lg px-3 py-2.5">
+                  <p className="text-gray-800" style={{ fontSize: "0.82rem", fontWeight: 600 }}>
+                    {(invite.name ? "Olá, " + invite.name + "! " : "Olá! ") + "Conte o que achou da sua compra (pedido #" + invite.orderId + ")."}
+                  </p>
+                  {invite.reward && (
+                    <p className="flex items-center gap-1.5 text-amber-700 mt-1" style={{ fontSize: "0.74rem" }}>
+                      <Gift className="w-3.5 h-3.5 shrink-0" />
+                      {"Avaliação aprovada vale um cupom de " + invite.reward + " na próxima compra."}
+                    </p>
+                  )}
+                  {inviteOthers.length > 0 && (
+                    <div className="mt-2">
+                      <p className="text-gray-500 mb-1" style={{ fontSize: "0.72rem" }}>
+                        {inviteOpen ? "Depois, avalie também:" : "Avalie os outros produtos do pedido:"}
+                      </p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {inviteOthers.map(function (it) {
+                          return (
+                            <a
+                              key={it.sku}
+                              href={"/produto/" + encodeURIComponent(it.sku) + "?avaliar=" + encodeURIComponent(inviteToken || "") + "#avaliacoes"}
+                              className="bg-white border border-gray-200 hover:border-red-300 text-gray-700 hover:text-red-600 px-2 py-1 rounded-md transition-colors"
+                              style={{ fontSize: "0.72rem", fontWeight: 500 }}
+                            >
+                              {it.titulo}
+                            </a>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {inviteItem && inviteItem.reviewed && !myReview && (
+                <div className="flex items-center gap-2.5 bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+                  <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />
+                  <p className="text-green-800" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                    Obrigado! Sua avaliação deste produto já foi recebida.
+                  </p>
+                </div>
+              )}
+
               {/* Review Form */}
-              {showForm && isLoggedIn && !myReview && (
+              {showForm && inviteOpen && (
+                <ReviewForm
+                  sku={sku}
+                  inviteToken={inviteToken}
+                  onSubmitted={function () {
+                    setShowForm(false);
+                    loadReviews(true);
+                    setInvite(function (prev) {
+                      if (!prev) return prev;
+                      return Object.assign({}, prev, {
+                        items: prev.items.map(function (it) { return it.sku === sku ? Object.assign({}, it, { reviewed: true }) : it; }),
+                      });
+                    });
+                  }}
+                />
+              )}
+              {showForm && !inviteOpen && isLoggedIn && !myReview && (
                 <ReviewForm
                   sku={sku}
                   onSubmitted={function () {
@@ -739,7 +832,7 @@ export function ProductReviews({ sku }: { sku: string }) {
               )}
 
               {/* Not logged in message */}
-              {!isLoggedIn && (
+              {!isLoggedIn && !inviteItem && (
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-center">
                   <p className="text-gray-600 mb-1.5" style={{ fontSize: "0.8rem" }}>
                     Faça login para avaliar este produto.
@@ -72,7 +72,7 @@ export function RecentlyViewedSection({ excludeSku, maxItems = 10, darkMode = fa
         }
         setBalanceMap(map);
         seedStockCache((res.results || []).map(function (b: any) {
-          return { sku: b.sku, qty: b.found ? (b.disponivel ?? b.quantidade ?? 0) : null };
+          return { sku: b.sku, qty: b.found ? (b.disponivel ?? b.quantidade ?? 0) : null, held: b.reservadoPedidos };
         }));
       })
       .catch(function (e) { if (e && e.name !== "AbortError") console.error("[RecentlyViewed] Bulk balance error:", e); });
@@ -15,6 +15,7 @@ import type { AutocompleteResult } from "../services/api";
 import { ProductImage } from "./ProductImage";
 import { useGA4 } from "./GA4Provider";
 import { useHomepageInit } from "../contexts/HomepageInitContext";
+import { useGarage } from "../contexts/GarageContext";
 
 // ── Search History (localStorage) ──
 var SEARCH_HISTORY_KEY = "carretao_search_history";
@@ -85,6 +86,7 @@ export function SearchAutocomplete({
 
   const { trackEvent } = useGA4();
   const { data: initData } = useHomepageInit();
+  const { vehicle: garageVehicle } = useGarage();
   const navigate = useNavigate();
   const inputId = useId();
   const dropdownId = inputId + "-dropdown";
@@ -221,7 +223,7 @@ export function SearchAutocomplete({
     try {
       const data = await api.autocomplete(trimmedQuery, isMobileVariant ? 6 : 8, {
         signal: controller.signal,
-      });
+      }, garageVehicle);
 
       if (abortControllerRef.current !== controller || controller.signal.aborted) {
         return;
@@ -259,7 +261,7 @@ export function SearchAutocomplete({
         setLoading(false);
       }
     }
-  }, [closeDropdown, isMobileVariant, openDiscovery, trackAutocompleteEvent, variant]);
+  }, [closeDropdown, garageVehicle, isMobileVariant, openDiscovery, trackAutocompleteEvent, variant]);
 
   useEffect(() => {
     if (debounceRef.current) clearTimeout(debounceRef.current);
@@ -692,6 +694,11 @@ export function SearchAutocomplete({
                   <span className="text-gray-400 flex items-center gap-1.5" style={{ fontSize: "0.75rem" }}>
                     <Sparkles className="w-3 h-3" />
                     {totalMatches} resultado{totalMatches !== 1 ? "s" : ""} encontrado{totalMatches !== 1 ? "s" : ""}
+                    {garageVehicle && (
+                      <span className="text-green-600 truncate max-w-[160px]" style={{ fontWeight: 600 }}>
+                        · para {garageVehicle.label || garageVehicle.model}
+                      </span>
+                    )}
                   </span>
                   <span className="text-gray-400 hidden sm:flex items-center gap-1" style={{ fontSize: "0.7rem" }}>
                     <CornerDownLeft className="w-3 h-3" />
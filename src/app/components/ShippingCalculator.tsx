@@ -2,6 +2,7 @@
  * SHIPPING CALCULATOR — Calculadora de frete por CEP.
  * Input: CEP de destino. Chama POST /shipping/calculate com SKU + CEP.
  * Exibe: opcoes de transportadora com preco e prazo. Consulta CEP via ViaCEP.
+ * Filiais com todos os itens em estoque aparecem ao final como "Retire na loja".
  * Usado na ProductDetailPage e no CheckoutPage.
  */
 import { useState, useCallback, useEffect, useRef } from "react";
@@ -30,6 +31,7 @@ const CARRIER_ICONS: Record<string, string> = {
   transportadora: "\u{1F69A}",
   motoboy: "\u{1F3CD}",
   custom: "\u{1F4E6}",
+  pickup: "\u{1F3EA}",
 };
 
 interface ShippingCalculatorProps {
@@ -145,7 +147,7 @@ export function ShippingCalculator({
 
     try {
       const res = await api.calculateShipping(digits, items, totalValue);
-      // res._enrichment and res.totalWeight available for debugging if needed
+      // res._enrichment (itens + volumes por transportadora) and res.totalWeight available for debugging if needed
       if (res.error) {
         setError(res.error);
       } else {
@@ -359,6 +361,16 @@ export function ShippingCalculator({
                     >
                       {opt.carrierName}
                     </p>
+                    {opt.pickup && opt.pickup.endereco && (
+                      <p className="text-gray-500 truncate" style={{ fontSize: "0.72rem" }}>
+                        {opt.pickup.endereco}
+                      </p>
+                    )}
+                    {opt.pickup && opt.pickup.horario && (
+                      <p className="text-gray-400 truncate" style={{ fontSize: "0.68rem" }}>
+                        {opt.pickup.horario}
+                      </p>
+                    )}
                     <div className="flex items-center gap-2 mt-0.5">
                       {opt.deliveryDays > 0 && (
                         <span className="flex items-center gap-1 text-gray-400" style={{ fontSize: "0.72rem" }}>
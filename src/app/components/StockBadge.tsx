@@ -2,6 +2,8 @@
  * STOCK BADGE — Badge textual de estoque com cores semanticas.
  * Modos: "full" (quantidade + detalhes), "compact" (dot colorido + label), "inline" (para tabelas).
  * Verde = em estoque, amarelo = estoque baixo (<=5), vermelho = esgotado.
+ * "disponivel" ja vem do servidor sem as unidades reservadas por pedidos aguardando
+ * pagamento (reservadoPedidos); saldo zerado so por reservas aparece como "Reservado".
  * Busca saldo via GET /sige/saldo/:sku com cache.
  *
  * CACHE DE MODULO:
@@ -216,6 +218,7 @@ function StockBadgeInner({ sku, variant = "compact", preloaded }: StockBadgeProp
   const qty = balance.quantidade ?? 0;
   const available = balance.disponivel ?? qty;
   const reserved = balance.reservado ?? 0;
+  const heldByOrders = balance.reservadoPedidos ?? 0;
   const inStock = available > 0;
 
   // ─── Compact variant (for ProductCard) ───
@@ -227,7 +230,7 @@ function StockBadgeInner({ sku, variant = "compact", preloaded }: StockBadgeProp
           : "bg-red-50 text-red-600 border-red-200"
       }`} style={{ fontSize: "0.68rem", fontWeight: 600 }}>
         <div className={`w-1.5 h-1.5 rounded-full ${inStock ? "bg-green-500" : "bg-red-500"}`} />
-        {inStock ? `${available} disp.` : "Sem estoque"}
+        {inStock ? `${available} disp.` : heldByOrders > 0 ? "Reservado" : "Sem estoque"}
       </div>
     );
   }
@@ -245,6 +248,11 @@ function StockBadgeInner({ sku, variant = "compact", preloaded }: StockBadgeProp
             ({reserved} res.)
           </span>
         )}
+        {heldByOrders > 0 && (
+          <span className="text-blue-500" style={{ fontSize: "0.65rem" }} title="Reservado por pedidos aguardando pagamento">
+            ({heldByOrders} ped.)
+          </span>
+        )}
       </div>
     );
   }
@@ -264,7 +272,9 @@ function StockBadgeInner({ sku, variant = "compact", preloaded }: StockBadgeProp
       <p className={inStock ? "text-green-800" : "text-red-700"} style={{ fontSize: "0.9rem", fontWeight: 700 }}>
         {inStock
           ? `${available} disponíve${available !== 1 ? "is" : "l"} em estoque`
-          : "Estoque zerado"}
+          : heldByOrders > 0
+            ? "Reservado em pedidos aguardando pagamento"
+            : "Estoque zerado"}
       </p>
     </div>
   );
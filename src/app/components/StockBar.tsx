@@ -13,27 +13,27 @@ function getStockColor(pct: number): string {
   return "#15803d";
 }
 
-function getStockLabel(qty: number): string {
-  if (qty <= 0) return "Esgotado";
+function getStockLabel(qty: number, held: number): string {
+  if (qty <= 0) return held > 0 ? "Reservado" : "Esgotado";
   if (qty <= 3) return "Últimas unidades!";
   if (qty <= 10) return "Poucas unidades";
   if (qty <= 25) return "Em estoque";
   return "Estoque alto";
 }
 
-/* Cache so we don't re-fetch on every mount */
-const STOCK_CACHE = new Map<string, { qty: number | null; fetchedAt: number }>();
+/* Cache so we don't re-fetch on every mount (held = units reserved by orders awaiting payment) */
+const STOCK_CACHE = new Map<string, { qty: number | null; held?: number; fetchedAt: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 min
 
 /**
  * Seed the stock cache from bulk results (called by HomePage/CatalogPage).
  * Prevents individual API calls when components mount before bulk data arrives.
  */
-export function seedStockCache(entries: Array<{ sku: string; qty: number | null }>): void {
+export function seedStockCache(entries: Array<{ sku: string; qty: number | null; held?: number }>): void {
   const now = Date.now();
   for (const entry of entries) {
     if (entry.sku) {
-      STOCK_CACHE.set(entry.sku, { qty: entry.qty, fetchedAt: now });
+      STOCK_CACHE.set(entry.sku, { qty: entry.qty, held: entry.held, fetchedAt: now });
     }
   }
 }
@@ -56,7 +56,7 @@ function fetchStock(sku: string): Promise<number | null> {
       const qty = data && data.found
         ? (data.disponivel ?? data.quantidade ?? 0)
         : null;
-      STOCK_CACHE.set(sku, { qty, fetchedAt: Date.now() });
+      STOCK_CACHE.set(sku, { qty, held: data && data.found ? data.reservadoPedidos : undefined, fetchedAt: Date.now() });
       return qty;
     })
     .catch(() => {
@@ -87,12 +87,14 @@ export function StockBarInner({ sku, preloaded }: StockBarProps) {
     return null;
   });
   const [loading, setLoading] = useState(() => preloaded === undefined);
+  const [held, setHeld] = useState(() => (preloaded && preloaded.found ? preloaded.reservadoPedidos ?? 0 : 0));
 
   useEffect(() => {
     // If preloaded data was given, use it directly
     if (preloaded !== undefined) {
       if (preloaded !== null && preloaded.found) {
         setQty(preloaded.disponivel ?? preloaded.quantidade ?? 0);
+        setHeld(preloaded.reservadoPedidos ?? 0);
       } else {
         setQty(null);
       }
@@ -111,12 +113,14 @@ export function StockBarInner({ sku, preloaded }: StockBarProps) {
       const cached = STOCK_CACHE.get(sku);
       if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
         setQty(cached.qty);
+        setHeld(cached.held ?? 0);
         setLoading(false);
         return;
       }
       fetchStock(sku).then((q) => {
         if (!cancelled) {
           setQty(q);
+          setHeld(STOCK_CACHE.get(sku)?.held ?? 0);
           setLoading(false);
         }
       });
@@ -139,7 +143,7 @@ export function StockBarInner({ sku, preloaded }: StockBarProps) {
   const pct = Math.min(100, Math.max(0, (qty / STOCK_MAX) * 100));
   const barWidth = Math.max(pct, 4); // min 4% so it's always visible
   const color = getStockColor(pct);
-  const label = getStockLabel(qty);
+  const label = getStockLabel(qty, held);
 
   return (
     <div className="mt-1.5">
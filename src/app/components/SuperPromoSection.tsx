@@ -7,8 +7,14 @@
  * Carousel horizontal de produtos em promocao com countdown regressivo,
  * badges de desconto, precos "De X por Y", barra de estoque e auto-scroll.
  *
+ * CAMPANHAS / SLOTS:
+ * Varias campanhas podem estar ativas ao mesmo tempo. O servidor resolve qual
+ * campanha vence cada SKU (prioridade) e qual ocupa cada slot da homepage
+ * ("top" apos categorias, "middle" apos os produtos). Cada instancia do
+ * componente renderiza a campanha do seu slot, so com os SKUs que ela venceu.
+ *
  * ESTRATEGIA DUAL-SOURCE (resiliencia):
- * 1. FAST-PATH: Usa initData.promo do HomepageInitContext (resposta imediata)
+ * 1. FAST-PATH: Usa initData.promoCampaigns/promoSlots do HomepageInitContext (resposta imediata)
  * 2. AUTORITATIVO: SEMPRE chama GET /promo/active em paralelo
  * 3. Se /promo/active falhar: retry automatico apos 2 segundos
  * Isso garante que a promo aparece mesmo se o cache do homepage-init estiver stale.
@@ -19,8 +25,8 @@
  * - Auto-hide quando endDate chega (setTimeout)
  *
  * CLS PREVENTION:
- * - localStorage "carretao_had_promo": se na ultima visita havia promo,
- *   reserva 320px de altura durante loading para evitar layout shift.
+ * - localStorage "carretao_had_promo" (slot top) / "carretao_had_promo_middle":
+ *   se na ultima visita havia promo, reserva 320px durante loading (evita layout shift).
  *
  * PRECOS:
  * - Bulk-fetch via POST /sige/precos/bulk (staggered 800ms apos mount)
@@ -42,7 +48,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { Link } from "react-router";
 import { Flame, ChevronLeft, ChevronRight, Package, Zap, ArrowRight, Loader2 } from "lucide-react";
 import * as api from "../services/api";
-import type { SuperPromo } from "../services/api";
+import type { SuperPromo, PromoSlots } from "../services/api";
 import type { ProductPrice, ProductBalance } from "../services/api";
 import { computePromoPrice } from "../services/api";
 import { StockBar } from "./StockBar";
@@ -265,8 +271,23 @@ function PromoCard({ product, promo, preloadedPrice, preloadedBalance, onSelect
 const VISIBLE_DESKTOP = 7;
 const GAP_PX = 10;
 
+type HomepagePromoSlot = "top" | "middle";
+
+/** Campaign the server placed in this homepage slot (legacy payloads only fill "top") */
+function pickSlotCampaign(
+  data: { promo?: SuperPromo | null; campaigns?: SuperPromo[]; slots?: PromoSlots } | null | undefined,
+  slot: HomepagePromoSlot
+): SuperPromo | null {
+  if (!data) return null;
+  if (data.campaigns && data.slots) {
+    const id = data.slots[slot];
+    return id ? data.campaigns.find((c) => c.id === id) || null : null;
+  }
+  return slot === "top" ? data.promo || null : null;
+}
+
 /* ═══════ Main Section ═══════ */
-export function SuperPromoSection() {
+export function SuperPromoSection({ slot = "top" }: { slot?: HomepagePromoSlot }) {
   const [promo, setPromo] = useState<SuperPromo | null>(null);
   const [loading, setLoading] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -282,8 +303,9 @@ export function SuperPromoSection() {
   const viewPromoFiredRef = useRef(false);
 
   // Check if last visit had an active promo (to decide whether to reserve space while loading)
+  const hintKey = slot === "top" ? "carretao_had_promo" : "carretao_had_promo_" + slot;
   const [hadPromoLastVisit] = useState<boolean>(() => {
-    try { return localStorage.getItem("carretao_had_promo") === "1"; } catch { return false; }
+    try { return localStorage.getItem(hintKey) === "1"; } catch { return false; }
   });
 
   // Use promo data from HomepageInit context as fast path
@@ -303,15 +325,15 @@ export function SuperPromoSection() {
   const _persistHint = useCallback((p: SuperPromo | null) => {
     try {
       if (p && p.products && p.products.length > 0) {
-        localStorage.setItem("carretao_had_promo", "1");
+        localStorage.setItem(hintKey, "1");
       } else {
-        localStorage.removeItem("carretao_had_promo");
+        localStorage.removeItem(hintKey);
       }
     } catch {}
-  }, []);
+  }, [hintKey]);
 
   // ── DUAL-SOURCE STRATEGY ──
-  // 1. Use initData.promo as instant display (if available)
+  // 1. Use the slot campaign from initData as instant display (if available)
   // 2. ALWAYS call /promo/active as authoritative source (with retry)
   // This ensures the promo shows even if homepage-init cache is stale.
   useEffect(() => {
@@ -319,8 +341,8 @@ export function SuperPromoSection() {
 
     var cancelled = false;
 
-    // Fast path: use initData.promo immediately (if valid)
-    var initPromo = _validatePromo(initData?.promo);
+    // Fast path: use the slot campaign from initData immediately (if valid)
+    var initPromo = _validatePromo(pickSlotCampaign(initData ? { promo: initData.promo, campaigns: initData.promoCampaigns, slots: initData.promoSlots } : null, slot));
     if (initPromo) {
       console.log("[SuperPromo] Fast-path: promo from initData OK! title=" + initPromo.title + " products=" + initPromo.products?.length);
       setPromo(initPromo);
@@ -335,7 +357,7 @@ export function SuperPromoSection() {
     api.getActivePromo()
       .then((res) => {
         if (cancelled) return;
-        var activePromo = _validatePromo(res?.promo);
+        var activePromo = _validatePromo(pickSlotCampaign(res, slot));
         console.log("[SuperPromo] /promo/active response:", activePromo ? "promo found (" + activePromo.products?.length + " products)" : "null");
         if (activePromo) {
           setPromo(activePromo);
@@ -359,7 +381,7 @@ export function SuperPromoSection() {
           api.getActivePromo()
             .then((res2) => {
               if (cancelled) return;
-              var retryPromo = _validatePromo(res2?.promo);
+              var retryPromo = _validatePromo(pickSlotCampaign(res2, slot));
               console.log("[SuperPromo] /promo/active retry:", retryPromo ? "promo found" : "null");
               if (retryPromo) {
                 setPromo(retryPromo);
@@ -405,7 +427,7 @@ export function SuperPromoSection() {
       cancelled = true;
       if (autoHideTimer) clearTimeout(autoHideTimer);
     };
-  }, [initData, initLoading, _validatePromo, _persistHint]);
+  }, [initData, initLoading, slot, _validatePromo, _persistHint]);
 
   // Bulk-fetch prices and balances when promo loads.
   // Stagger by 800ms to let HomePage bulk calls go first (they share the global concurrency limiter).
@@ -442,6 +464,7 @@ export function SuperPromoSection() {
           seedStockCache((res.results || []).map((b: any) => ({
             sku: b.sku,
             qty: b.found ? (b.disponivel ?? b.quantidade ?? 0) : null,
+            held: b.reservadoPedidos,
           })));
         })
         .catch((e) => { if (e && e.name !== "AbortError") console.error("[SuperPromo] Bulk balance error:", e); });
@@ -558,7 +581,7 @@ export function SuperPromoSection() {
   if (!viewPromoFiredRef.current) {
     viewPromoFiredRef.current = true;
     trackEvent("view_promotion", {
-      promotion_id: "super_promo",
+      promotion_id: promo.id || "super_promo",
       promotion_name: promo.title || "Super Promocao",
       items: promo.products.slice(0, 10).map(function (p) {
         return { item_id: p.sku, item_name: p.titulo };
@@ -644,7 +667,7 @@ export function SuperPromoSection() {
                   preloadedBalance={balanceMap[p.sku]}
                   onSelect={() => {
                     trackEvent("select_promotion", {
-                      promotion_id: "super_promo",
+                      promotion_id: promo.id || "super_promo",
                       promotion_name: promo.title || "Super Promocao",
                       items: [{ item_id: p.sku, item_name: p.titulo }],
                     });
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { Package, Truck, MapPin, CheckCircle2, Clock, Loader2, AlertTriangle, ExternalLink, Copy, Check, PackageOpen, ArrowLeft, RefreshCw, Info } from "lucide-react";
 import * as api from "../services/api";
+import { ORDER_STATUS_FLOW, ORDER_STATUS_PICKUP_FLOW, ORDER_ACTOR_LABELS, getOrderStatusStyle } from "../data/orderStatus";
 
 /* ─── helpers ─── */
 
@@ -39,6 +40,104 @@ function formatTrackingDate(dateStr: string): { date: string; time: string } {
   }
 }
 
+/* ─── Order status timeline (state machine history) ─── */
+
+interface OrderStatusTimelineProps {
+  status: string;
+  history?: api.OrderStatusChange[];
+  /** Also list every change below the stepper */
+  showEvents?: boolean;
+  /** "Retire na loja" order: stepper shows "Pronto para Retirada" instead of "Enviado" */
+  pickup?: boolean;
+}
+
+export function OrderStatusTimeline({ status, history, showEvents = true, pickup = false }: OrderStatusTimelineProps) {
+  var entries = history || [];
+  var flow = pickup ? ORDER_STATUS_PICKUP_FLOW : ORDER_STATUS_FLOW;
+  // Latest date each status was reached
+  var reachedAt: Record<string, string> = {};
+  for (var i = 0; i < entries.length; i++) reachedAt[entries[i].to] = entries[i].at;
+
+  // Furthest happy-path step reached (off-path statuses keep the step they left from)
+  var stepIdx = flow.indexOf(status);
+  if (stepIdx === -1) {
+    for (var j = entries.length - 1; j >= 0 && stepIdx === -1; j--) {
+      stepIdx = flow.indexOf(entries[j].to);
+    }
+  }
+  var offPath = flow.indexOf(status) === -1 ? getOrderStatusStyle(status) : null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4">
+      <div className="flex items-start">
+        {flow.map(function (st, idx) {
+          var style = getOrderStatusStyle(st);
+          var Icon = style.icon;
+          var reached = idx <= stepIdx;
+          var isCurrent = idx === stepIdx && !offPath;
+          return (
+            <div key={st} className="flex-1 flex flex-col items-center relative min-w-0">
+              {idx > 0 && (
+                <div className={"absolute top-[14px] right-1/2 w-full h-0.5 " + (reached ? "bg-green-400" : "bg-gray-200")} />
+              )}
+              <div className={
+                "relative z-10 w-[28px] h-[28px] rounded-full flex items-center justify-center border-2 " +
+                (reached ? "bg-green-50 border-green-400" : "bg-white border-gray-200") +
+                (isCurrent ? " ring-2 ring-offset-1 ring-green-200" : "")
+              }>
+                <Icon className={"w-3.5 h-3.5 " + (reached ? "text-green-600" : "text-gray-300")} />
+              </div>
+              <span
+                className={"mt-1.5 text-center leading-tight px-0.5 " + (reached ? "text-gray-800" : "text-gray-400")}
+                style={{ fontSize: "0.65rem", fontWeight: isCurrent ? 700 : 500 }}
+              >
+                {style.label}
+              </span>
+              {reached && reachedAt[st] && (
+                <span className="text-gray-400 text-center" style={{ fontSize: "0.6rem" }}>
+                  {formatTrackingDate(reachedAt[st]).date}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {offPath && (
+        <div className={"mt-3 flex items-center gap-2 rounded-lg border px-3 py-2 " + offPath.bg + " " + offPath.border}>
+          <offPath.icon className={"w-4 h-4 shrink-0 " + offPath.text} />
+          <span className={offPath.text} style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+            {offPath.label}
+            {reachedAt[status] ? " em " + formatTrackingDate(reachedAt[status]).date : ""}
+          </span>
+        </div>
+      )}
+
+      {showEvents && entries.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-100 space-y-2">
+          {entries.slice().reverse().map(function (h, idx) {
+            var style = getOrderStatusStyle(h.to);
+            var dt = formatTrackingDate(h.at);
+            return (
+              <div key={h.at + "-" + idx} className="flex items-start gap-2.5">
+                <span className={"w-2 h-2 rounded-full mt-1.5 shrink-0 " + style.dot} />
+                <div className="flex-1 min-w-0">
+                  <p className={idx === 0 ? "text-gray-900 font-semibold" : "text-gray-700"} style={{ fontSize: "0.8rem" }}>
+                    {style.label}
+                  </p>
+                  <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+                    {dt.date}{dt.time ? " às " + dt.time : ""}{" · " + (ORDER_ACTOR_LABELS[h.by.type] || h.by.type)}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ─── Inline tracking panel (for OrdersTab) ─── */
 
 interface InlineTrackingProps {
@@ -377,6 +476,13 @@ export function TrackingPageContent({ accessToken, localOrderId, onBack }: Track
         )}
       </div>
 
+      {!loading && data && data.status && (
+        <div className="mb-4">
+          <p className="text-gray-800 font-semibold mb-2" style={{ fontSize: "0.9rem" }}>Status do Pedido</p>
+          <OrderStatusTimeline status={data.status} history={data.statusHistory} pickup={!!data.pickup} />
+        </div>
+      )}
+
       {loading ? (
         <div className="bg-white border border-gray-200 rounded-2xl p-12 text-center">
           <Loader2 className="w-8 h-8 text-red-600 animate-spin mx-auto mb-3" />
@@ -6,24 +6,39 @@
  * PERSISTENCIA: O carrinho e salvo em localStorage (chave "carretao_cart").
  * Ao montar o provider, rehidrata do localStorage. A cada mudanca, persiste.
  *
+ * SERVIDOR (logado): o carrinho tambem fica em /user/cart (KV user_cart:<userId>),
+ * com itens, garantias e cupom — o mesmo carrinho em qualquer dispositivo.
+ * - Login com carrinho de visitante: POST /user/cart/merge (une os dois)
+ * - Sessao ja sincronizada (reload / outro dispositivo): GET /user/cart (servidor vence)
+ * - O servidor revalida preco e estoque na leitura; ajustes vem em cartChanges
+ * - A cada mudanca: PUT /user/cart (debounce)
+ * - Logout: limpa o carrinho local (ele continua salvo na conta)
+ * - "carretao_cart_synced" guarda o userId espelhado: sessao expirada sem logout
+ *   ou troca de conta nao mistura o carrinho de uma conta com outra
+ *
  * FUNCIONALIDADES:
  * - addItem: adiciona item ou incrementa quantidade se ja existe
  * - removeItem: remove item por SKU
  * - updateQuantity: altera quantidade (remove se <= 0)
- * - clearCart: limpa todo o carrinho
+ * - clearCart: limpa todo o carrinho (e o cupom)
+ * - setCoupon: guarda o codigo do cupom aplicado no checkout
  * - isDrawerOpen/openDrawer/closeDrawer: controla a gaveta lateral (CartDrawer)
  *
  * INTEGRACAO:
  * - CartDrawer.tsx: exibe os itens e permite alterar quantidades
  * - CheckoutPage.tsx: consome os itens para gerar o pedido
- * - CartAbandonedTracker: salva snapshot para recuperacao via WhatsApp
+ * - CartAbandonedTracker: registra o carrinho do servidor para recuperacao via WhatsApp
  * - GA4Provider: dispara eventos add_to_cart, remove_from_cart
  *
  * PROMO: Itens adicionados com desconto de Super Promo tem isPromo=true
+ *   + promoCampaignId/promoTitle da campanha vencedora para o SKU
  * WARRANTY: Itens podem ter garantia estendida opcional (warranty field)
  * ═══════════════════════════════════════════════════════════════════════════════
  */
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from "react";
+import { supabase } from "../services/supabaseClient";
+import { getValidAccessToken } from "../services/supabaseClient";
+import * as api from "../services/api";
 
 export interface CartItem {
   sku: string;
@@ -33,6 +48,9 @@ export interface CartItem {
   imageUrl: string;
   /** True when item was added with a Super Promo discounted price */
   isPromo?: boolean;
+  /** Winning Super Promo campaign when the item was added (isPromo=true) */
+  promoCampaignId?: string;
+  promoTitle?: string;
   /** Extended warranty info when user opts in */
   warranty?: {
     planId: string;
@@ -50,6 +68,12 @@ interface CartContextType {
   removeItem: (sku: string) => void;
   updateQuantity: (sku: string, quantidade: number) => void;
   clearCart: () => void;
+  /** Coupon code applied at checkout (persisted with the cart) */
+  coupon: string | null;
+  setCoupon: (code: string | null) => void;
+  /** Price/stock adjustments reported by the server when the saved cart was loaded */
+  cartChanges: api.UserCartChange[];
+  dismissCartChanges: () => void;
   isDrawerOpen: boolean;
   openDrawer: () => void;
   closeDrawer: () => void;
@@ -65,6 +89,10 @@ const _fallback: CartContextType = {
   removeItem: _noop,
   updateQuantity: _noop,
   clearCart: _noop,
+  coupon: null,
+  setCoupon: _noop,
+  cartChanges: [],
+  dismissCartChanges: _noop,
   isDrawerOpen: false,
   openDrawer: _noop,
   closeDrawer: _noop,
@@ -73,6 +101,10 @@ const _fallback: CartContextType = {
 const CartContext = createContext<CartContextType>(_fallback);
 
 const CART_STORAGE_KEY = "carretao_cart";
+const CART_COUPON_KEY = "carretao_cart_coupon";
+/** User id of the account whose server cart the local cart mirrors */
+const CART_SYNCED_KEY = "carretao_cart_synced";
+const SERVER_SAVE_DEBOUNCE_MS = 1500;
 
 function loadCart(): CartItem[] {
   try {
@@ -88,14 +120,160 @@ function saveCart(items: CartItem[]) {
   } catch {}
 }
 
+function loadCoupon(): string | null {
+  try {
+    return localStorage.getItem(CART_COUPON_KEY) || null;
+  } catch {}
+  return null;
+}
+
+function saveCoupon(code: string | null) {
+  try {
+    if (code) localStorage.setItem(CART_COUPON_KEY, code);
+    else localStorage.removeItem(CART_COUPON_KEY);
+  } catch {}
+}
+
+function loadSyncedUser(): string | null {
+  try {
+    return localStorage.getItem(CART_SYNCED_KEY) || null;
+  } catch {}
+  return null;
+}
+
+function saveSyncedUser(userId: string | null) {
+  try {
+    if (userId) localStorage.setItem(CART_SYNCED_KEY, userId);
+    else localStorage.removeItem(CART_SYNCED_KEY);
+  } catch {}
+}
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [items, setItems] = useState<CartItem[]>(loadCart);
+  const [coupon, setCouponState] = useState<string | null>(loadCoupon);
+  const [cartChanges, setCartChanges] = useState<api.UserCartChange[]>([]);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  // Server sync: syncUser = account whose server cart was requested this session;
+  // ready = pulled; skipNextSave = state just came from the server (no need to PUT it back)
+  const syncUserRef = useRef<string | null>(null);
+  const serverReadyRef = useRef(false);
+  const skipNextSaveRef = useRef(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     saveCart(items);
   }, [items]);
 
+  useEffect(() => {
+    saveCoupon(coupon);
+  }, [coupon]);
+
+  // ── Auth: track the customer session (admin pages never touch the cart) ──
+  useEffect(() => {
+    let cancelled = false;
+
+    async function init() {
+      const token = await getValidAccessToken();
+      if (cancelled) return;
+      if (!token) {
+        // Session ended without a logout here: the local cart is still that account's copy
+        if (loadSyncedUser()) {
+          saveSyncedUser(null);
+          setItems([]);
+          setCouponState(null);
+        }
+        return;
+      }
+      const { data } = await supabase.auth.getSession();
+      if (cancelled || !data.session) return;
+      setUserId(data.session.user.id);
+      setAccessToken(token);
+    }
+    init();
+
+    const sub = supabase.auth.onAuthStateChange((_event, session) => {
+      if (window.location.pathname.startsWith("/admin")) return;
+      if (_event === "INITIAL_SESSION") return;
+      if (_event === "SIGNED_IN" || _event === "TOKEN_REFRESHED") {
+        if (session?.access_token) {
+          setUserId(session.user.id);
+          setAccessToken(session.access_token);
+        }
+      } else if (_event === "SIGNED_OUT") {
+        // The cart stays saved in the account — don't leave it on a shared device
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        setAccessToken(null);
+        setUserId(null);
+        syncUserRef.current = null;
+        serverReadyRef.current = false;
+        saveSyncedUser(null);
+        setItems([]);
+        setCouponState(null);
+        setCartChanges([]);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      sub.data.subscription.unsubscribe();
+    };
+  }, []);
+
+  // ── Pull the server cart once per account (merge the guest cart on login) ──
+  useEffect(() => {
+    if (!accessToken || !userId || syncUserRef.current === userId) return;
+    syncUserRef.current = userId;
+    serverReadyRef.current = false;
+    let cancelled = false;
+
+    async function sync() {
+      try {
+        // Only a guest cart is merged; a copy of any account's cart (this one or
+        // the previous user's) gives way to this account's server cart
+        const result = loadSyncedUser()
+          ? await api.getUserCart(accessToken!)
+          : await api.mergeUserCart(accessToken!, { items: loadCart(), coupon: loadCoupon() });
+        if (cancelled) return;
+        saveSyncedUser(userId);
+        serverReadyRef.current = true;
+        skipNextSaveRef.current = true;
+        setItems(result.items || []);
+        setCouponState(result.coupon || null);
+        setCartChanges(result.changes || []);
+      } catch (err) {
+        console.warn("CartContext: failed to sync server cart:", err);
+        syncUserRef.current = null;
+      }
+    }
+    sync();
+    return () => {
+      cancelled = true;
+      // Token refreshed mid-request: let the effect retry with the new token
+      if (!serverReadyRef.current) syncUserRef.current = null;
+    };
+  }, [accessToken, userId]);
+
+  // ── Push local changes to the server cart (debounced) ──
+  useEffect(() => {
+    if (!accessToken || !serverReadyRef.current) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      api.saveUserCart(accessToken, { items, coupon }).catch((err) => {
+        console.warn("CartContext: failed to save server cart:", err);
+      });
+    }, SERVER_SAVE_DEBOUNCE_MS);
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, [items, coupon, accessToken]);
+
   // ── Cross-tab sync: listen for cart changes in other tabs ──
   useEffect(() => {
     function onStorage(e: StorageEvent) {
@@ -122,6 +300,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
                   // Always update to latest price and promo flag
                   precoUnitario: newItem.precoUnitario ?? i.precoUnitario,
                   isPromo: newItem.isPromo !== undefined ? newItem.isPromo : i.isPromo,
+                  promoCampaignId: newItem.isPromo !== undefined ? newItem.promoCampaignId : i.promoCampaignId,
+                  promoTitle: newItem.isPromo !== undefined ? newItem.promoTitle : i.promoTitle,
                   warranty: newItem.warranty !== undefined ? newItem.warranty : i.warranty,
                 }
               : i
@@ -136,6 +316,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
             precoUnitario: newItem.precoUnitario,
             imageUrl: newItem.imageUrl,
             isPromo: newItem.isPromo,
+            promoCampaignId: newItem.promoCampaignId,
+            promoTitle: newItem.promoTitle,
             warranty: newItem.warranty || null,
           },
         ];
@@ -161,8 +343,16 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const clearCart = useCallback(() => {
     setItems([]);
+    setCouponState(null);
+    setCartChanges([]);
   }, []);
 
+  const setCoupon = useCallback((code: string | null) => {
+    setCouponState(code ? code.trim().toUpperCase() : null);
+  }, []);
+
+  const dismissCartChanges = useCallback(() => setCartChanges([]), []);
+
   const openDrawer = useCallback(() => {
     setIsDrawerOpen(true);
     // Prefetch checkout chunk when user opens cart — high intent signal
@@ -186,6 +376,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
         removeItem,
         updateQuantity,
         clearCart,
+        coupon,
+        setCoupon,
+        cartChanges,
+        dismissCartChanges,
         isDrawerOpen,
         openDrawer,
         closeDrawer,
@@ -0,0 +1,169 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * GARAGE CONTEXT — "Minha Garagem": veiculo do cliente para filtrar pecas
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * COMO FUNCIONA:
+ * - Visitante: veiculo salvo em localStorage (GARAGE_STORAGE_KEY)
+ * - Logado: carrega de GET /auth/user/vehicle (user_profile.garageVehicle);
+ *   se o servidor nao tem veiculo mas o localStorage tem, envia o local ao servidor
+ * - setVehicle(v): atualiza estado, localStorage e (se logado) PUT /auth/user/vehicle
+ * - Catalogo de veiculos (montadora → modelo → versoes) carregado sob demanda
+ *
+ * INTEGRACAO:
+ * - HeaderVehicleSelector.tsx: seletor no Header ao lado do CEP
+ * - CatalogPage / SearchAutocomplete / CategoryMegaMenu: filtram pelo veiculo
+ * - ProductDetailPage: selo "Serve no seu veiculo" / "Nao serve"
+ * - CheckoutPage: veiculo enviado no pedido (suporte em disputas de aplicacao)
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from "react";
+import { supabase } from "../services/supabaseClient";
+import { getValidAccessToken } from "../services/supabaseClient";
+import * as api from "../services/api";
+
+export var GARAGE_STORAGE_KEY = "carretao_garage_vehicle";
+
+interface GarageContextValue {
+  vehicle: api.GarageVehicle | null;
+  catalog: api.VehicleCatalog | null;
+  loadCatalog: () => Promise<api.VehicleCatalog | null>;
+  setVehicle: (vehicle: api.GarageVehicle | null) => Promise<void>;
+}
+
+var GarageCtx = createContext<GarageContextValue>({
+  vehicle: null,
+  catalog: null,
+  loadCatalog: async () => null,
+  setVehicle: async () => {},
+});
+
+export function useGarage() {
+  return useContext(GarageCtx);
+}
+
+function readLocalVehicle(): api.GarageVehicle | null {
+  try {
+    var raw = localStorage.getItem(GARAGE_STORAGE_KEY);
+    if (!raw) return null;
+    var parsed = JSON.parse(raw);
+    return parsed && parsed.make && parsed.model ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalVehicle(vehicle: api.GarageVehicle | null): void {
+  try {
+    if (vehicle) localStorage.setItem(GARAGE_STORAGE_KEY, JSON.stringify(vehicle));
+    else localStorage.removeItem(GARAGE_STORAGE_KEY);
+  } catch {}
+}
+
+export function GarageProvider({ children }: { children: React.ReactNode }) {
+  var [vehicle, setVehicleState] = useState<api.GarageVehicle | null>(readLocalVehicle);
+  var [catalog, setCatalog] = useState<api.VehicleCatalog | null>(null);
+  var [accessToken, setAccessToken] = useState<string | null>(null);
+  var catalogPromiseRef = useRef<Promise<api.VehicleCatalog | null> | null>(null);
+  var syncedRef = useRef(false);
+
+  // Listen for auth changes
+  useEffect(function () {
+    var cancelled = false;
+
+    async function init() {
+      var token = await getValidAccessToken();
+      if (token && !cancelled) setAccessToken(token);
+    }
+    init();
+
+    var sub = supabase.auth.onAuthStateChange(function (_event, session) {
+      if (window.location.pathname.startsWith("/admin")) return;
+      if (_event === "INITIAL_SESSION") return;
+      if (_event === "SIGNED_IN" || _event === "TOKEN_REFRESHED") {
+        if (session?.access_token) setAccessToken(session.access_token);
+      } else if (_event === "SIGNED_OUT") {
+        // Keep the local vehicle — it is useful for browsing as a guest too
+        setAccessToken(null);
+        syncedRef.current = false;
+      }
+    });
+
+    return function () {
+      cancelled = true;
+      sub.data.subscription.unsubscribe();
+    };
+  }, []);
+
+  // Sync with profile once per login
+  useEffect(function () {
+    if (!accessToken || syncedRef.current) return;
+    syncedRef.current = true;
+    var cancelled = false;
+
+    async function sync() {
+      try {
+        var result = await api.getUserVehicle(accessToken!);
+        if (cancelled) return;
+        if (result.vehicle) {
+          setVehicleState(result.vehicle);
+          writeLocalVehicle(result.vehicle);
+        } else {
+          var local = readLocalVehicle();
+          if (local) {
+            var saved = await api.saveUserVehicle(accessToken!, local);
+            if (!cancelled && saved.vehicle) {
+              setVehicleState(saved.vehicle);
+              writeLocalVehicle(saved.vehicle);
+            }
+          }
+        }
+      } catch (err) {
+        console.warn("GarageContext: failed to sync vehicle:", err);
+      }
+    }
+    sync();
+    return function () { cancelled = true; };
+  }, [accessToken]);
+
+  var loadCatalog = useCallback(function (): Promise<api.VehicleCatalog | null> {
+    if (!catalogPromiseRef.current) {
+      catalogPromiseRef.current = api.getVehicleCatalog()
+        .then(function (cat) {
+          setCatalog(cat);
+          return cat;
+        })
+        .catch(function (err) {
+          console.warn("GarageContext: failed to load vehicle catalog:", err);
+          catalogPromiseRef.current = null;
+          return null;
+        });
+    }
+    return catalogPromiseRef.current;
+  }, []);
+
+  var setVehicle = useCallback(async function (next: api.GarageVehicle | null) {
+    var withLabel = next ? { ...next, label: next.label || api.formatFitmentLabel(next, catalog) } : null;
+    setVehicleState(withLabel);
+    writeLocalVehicle(withLabel);
+    if (!accessToken) return;
+    try {
+      var result = await api.saveUserVehicle(accessToken, withLabel);
+      if (result.vehicle) {
+        setVehicleState(result.vehicle);
+        writeLocalVehicle(result.vehicle);
+      }
+    } catch (err) {
+      console.error("GarageContext: save error:", err);
+    }
+  }, [accessToken, catalog]);
+
+  return React.createElement(GarageCtx.Provider, {
+    value: {
+      vehicle: vehicle,
+      catalog: catalog,
+      loadCatalog: loadCatalog,
+      setVehicle: setVehicle,
+    },
+  }, children);
+}
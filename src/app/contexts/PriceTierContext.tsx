@@ -0,0 +1,93 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * PRICE TIER CONTEXT — Tabela de preco B2B do cliente logado
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * COMO FUNCIONA:
+ * - Visitante / cliente sem tabela propria: tier global (price_config.tier),
+ *   precos vem das respostas publicas (cacheadas no edge)
+ * - Cliente com tabela (individual ou via grupo, definida em AdminClients):
+ *   GET /user/price-tier → api.setPricingSession(token, tier) faz as chamadas de
+ *   preco (preco/:sku, precos-bulk, produto-detail-init) levarem X-User-Token
+ * - Troca de tier (login/logout): limpa caches de preco (api + PriceBadge)
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
+import { supabase } from "../services/supabaseClient";
+import { getValidAccessToken } from "../services/supabaseClient";
+import * as api from "../services/api";
+import { clearAllPriceCache } from "../components/PriceBadge";
+
+interface PriceTierContextValue {
+  tier: api.PriceTierId | null;
+  groupName: string | null;
+}
+
+var PriceTierCtx = createContext<PriceTierContextValue>({ tier: null, groupName: null });
+
+export function usePriceTier() {
+  return useContext(PriceTierCtx);
+}
+
+export function PriceTierProvider({ children }: { children: React.ReactNode }) {
+  var [accessToken, setAccessToken] = useState<string | null>(null);
+  var [info, setInfo] = useState<PriceTierContextValue>({ tier: null, groupName: null });
+  var tierRef = useRef<api.PriceTierId | null>(null);
+
+  // Listen for auth changes
+  useEffect(function () {
+    var cancelled = false;
+
+    async function init() {
+      var token = await getValidAccessToken();
+      if (token && !cancelled) setAccessToken(token);
+    }
+    init();
+
+    var sub = supabase.auth.onAuthStateChange(function (_event, session) {
+      if (window.location.pathname.startsWith("/admin")) return;
+      if (_event === "INITIAL_SESSION") return;
+      if (_event === "SIGNED_IN" || _event === "TOKEN_REFRESHED") {
+        if (session?.access_token) setAccessToken(session.access_token);
+      } else if (_event === "SIGNED_OUT") {
+        setAccessToken(null);
+      }
+    });
+
+    return function () {
+      cancelled = true;
+      sub.data.subscription.unsubscribe();
+    };
+  }, []);
+
+  // Resolve the customer's tier whenever the session changes
+  useEffect(function () {
+    var cancelled = false;
+
+    function apply(next: PriceTierContextValue) {
+      var changed = next.tier !== tierRef.current;
+      tierRef.current = next.tier;
+      api.setPricingSession(accessToken, next.tier);
+      if (changed) clearAllPriceCache();
+      setInfo(next);
+    }
+
+    if (!accessToken) {
+      apply({ tier: null, groupName: null });
+      return;
+    }
+
+    api.getUserPriceTier(accessToken)
+      .then(function (result) {
+        if (cancelled) return;
+        apply(result.personalized ? { tier: result.tier, groupName: result.groupName } : { tier: null, groupName: null });
+      })
+      .catch(function (err) {
+        console.warn("PriceTierContext: failed to load price tier:", err);
+      });
+
+    return function () { cancelled = true; };
+  }, [accessToken]);
+
+  return React.createElement(PriceTierCtx.Provider, { value: info }, children);
+}
@@ -0,0 +1,64 @@
+/**
+ * ORDER STATUS — Rotulos, cores e icones dos status de pedido.
+ * A maquina de estados vive no servidor (supabase/functions/server/order_status.ts):
+ * as transicoes validas de cada pedido chegam prontas em /admin/orders (nextStatuses)
+ * e o historico em statusHistory. Aqui fica apenas a apresentacao.
+ */
+import Clock from "lucide-react/dist/esm/icons/clock";
+import CheckCircle2 from "lucide-react/dist/esm/icons/circle-check";
+import ReceiptText from "lucide-react/dist/esm/icons/receipt-text";
+import PackageSearch from "lucide-react/dist/esm/icons/package-search";
+import Truck from "lucide-react/dist/esm/icons/truck";
+import PackageCheck from "lucide-react/dist/esm/icons/package-check";
+import Store from "lucide-react/dist/esm/icons/store";
+import Ban from "lucide-react/dist/esm/icons/ban";
+import Undo2 from "lucide-react/dist/esm/icons/undo-2";
+import RotateCcw from "lucide-react/dist/esm/icons/rotate-ccw";
+import FileText from "lucide-react/dist/esm/icons/file-text";
+import AlertCircle from "lucide-react/dist/esm/icons/circle-alert";
+import type { OrderStatusChange } from "../services/api";
+
+export interface OrderStatusStyle {
+  label: string;
+  icon: typeof Clock;
+  bg: string;
+  text: string;
+  border: string;
+  dot: string;
+}
+
+/** Happy path, in order — used by the progress steppers */
+export var ORDER_STATUS_FLOW = ["awaiting_payment", "paid", "invoiced", "picking", "shipped", "delivered"];
+
+/** Happy path of "Retire na loja" orders (ready_for_pickup instead of shipped) */
+export var ORDER_STATUS_PICKUP_FLOW = ["awaiting_payment", "paid", "invoiced", "picking", "ready_for_pickup", "delivered"];
+
+export var ORDER_STATUS_STYLES: Record<string, OrderStatusStyle> = {
+  awaiting_payment: { label: "Aguardando Pagamento", icon: Clock, bg: "bg-amber-50", text: "text-amber-700", border: "border-amber-200", dot: "bg-amber-500" },
+  paid: { label: "Pago", icon: CheckCircle2, bg: "bg-green-50", text: "text-green-700", border: "border-green-200", dot: "bg-green-500" },
+  invoiced: { label: "Faturado", icon: ReceiptText, bg: "bg-indigo-50", text: "text-indigo-700", border: "border-indigo-200", dot: "bg-indigo-500" },
+  picking: { label: "Em Separação", icon: PackageSearch, bg: "bg-purple-50", text: "text-purple-700", border: "border-purple-200", dot: "bg-purple-500" },
+  shipped: { label: "Enviado", icon: Truck, bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", dot: "bg-blue-500" },
+  ready_for_pickup: { label: "Pronto para Retirada", icon: Store, bg: "bg-teal-50", text: "text-teal-700", border: "border-teal-200", dot: "bg-teal-500" },
+  delivered: { label: "Entregue", icon: PackageCheck, bg: "bg-emerald-50", text: "text-emerald-700", border: "border-emerald-200", dot: "bg-emerald-500" },
+  cancelled: { label: "Cancelado", icon: Ban, bg: "bg-red-50", text: "text-red-700", border: "border-red-200", dot: "bg-red-500" },
+  return_requested: { label: "Devolução Solicitada", icon: Undo2, bg: "bg-orange-50", text: "text-orange-700", border: "border-orange-200", dot: "bg-orange-500" },
+  returned: { label: "Devolvido", icon: RotateCcw, bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", dot: "bg-gray-400" },
+  // Legacy sige_sale records (before checkout saved user_order)
+  sige_registered: { label: "Registrado", icon: FileText, bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", dot: "bg-blue-400" },
+};
+
+export function getOrderStatusStyle(status: string): OrderStatusStyle {
+  return ORDER_STATUS_STYLES[status] || { label: status, icon: AlertCircle, bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", dot: "bg-gray-400" };
+}
+
+/** Payment confirmed and not cancelled/returned (invoice, warranty certificate, reviews...) */
+export function isPaidOrderStatus(status: string): boolean {
+  return ["paid", "invoiced", "picking", "shipped", "ready_for_pickup", "delivered", "return_requested", "sige_registered"].indexOf(status) !== -1;
+}
+
+export var ORDER_ACTOR_LABELS: Record<OrderStatusChange["by"]["type"], string> = {
+  customer: "Cliente",
+  admin: "Equipe da loja",
+  system: "Automático",
+};
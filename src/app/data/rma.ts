@@ -0,0 +1,45 @@
+/**
+ * RMA — Rotulos e cores das trocas e devolucoes.
+ * Prazos e transicoes sao validados no servidor (supabase/functions/server/rma.ts);
+ * aqui fica apenas a apresentacao usada pela Minha Conta e pelo painel admin.
+ */
+import Clock from "lucide-react/dist/esm/icons/clock";
+import CheckCircle2 from "lucide-react/dist/esm/icons/circle-check";
+import Ban from "lucide-react/dist/esm/icons/ban";
+import Tag from "lucide-react/dist/esm/icons/tag";
+import PackageCheck from "lucide-react/dist/esm/icons/package-check";
+import BadgeDollarSign from "lucide-react/dist/esm/icons/badge-dollar-sign";
+import Repeat from "lucide-react/dist/esm/icons/repeat";
+import XCircle from "lucide-react/dist/esm/icons/circle-x";
+import type { RmaReason, RmaResolution, RmaStatus } from "../services/api";
+import type { OrderStatusStyle } from "./orderStatus";
+
+export var RMA_STATUS_STYLES: Record<RmaStatus, OrderStatusStyle> = {
+  requested: { label: "Em análise", icon: Clock, bg: "bg-amber-50", text: "text-amber-700", border: "border-amber-200", dot: "bg-amber-500" },
+  approved: { label: "Aprovada", icon: CheckCircle2, bg: "bg-green-50", text: "text-green-700", border: "border-green-200", dot: "bg-green-500" },
+  rejected: { label: "Recusada", icon: Ban, bg: "bg-red-50", text: "text-red-700", border: "border-red-200", dot: "bg-red-500" },
+  label_issued: { label: "Aguardando envio", icon: Tag, bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", dot: "bg-blue-500" },
+  received: { label: "Produto recebido", icon: PackageCheck, bg: "bg-indigo-50", text: "text-indigo-700", border: "border-indigo-200", dot: "bg-indigo-500" },
+  refunded: { label: "Reembolsada", icon: BadgeDollarSign, bg: "bg-emerald-50", text: "text-emerald-700", border: "border-emerald-200", dot: "bg-emerald-500" },
+  exchanged: { label: "Trocada", icon: Repeat, bg: "bg-emerald-50", text: "text-emerald-700", border: "border-emerald-200", dot: "bg-emerald-500" },
+  cancelled: { label: "Cancelada", icon: XCircle, bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", dot: "bg-gray-400" },
+};
+
+export var RMA_REASON_LABELS: Record<RmaReason, string> = {
+  withdrawal: "Desisti da compra (arrependimento)",
+  wrong_item: "Recebi o produto errado",
+  defective: "Produto com defeito",
+  damaged: "Produto avariado no transporte",
+  warranty: "Garantia (parou de funcionar)",
+  other: "Outro motivo",
+};
+
+export var RMA_RESOLUTION_LABELS: Record<RmaResolution, string> = {
+  refund: "Devolução com reembolso",
+  exchange: "Troca pelo mesmo produto",
+};
+
+/** Statuses where the request is still being handled */
+export function isRmaOpenStatus(status: RmaStatus): boolean {
+  return ["requested", "approved", "label_issued", "received"].indexOf(status) !== -1;
+}
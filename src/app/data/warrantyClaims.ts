@@ -0,0 +1,36 @@
+/**
+ * Garantia estendida — Rotulos e cores das garantias vendidas e dos acionamentos.
+ * Vigencia, caducidade e transicoes sao calculadas no servidor
+ * (supabase/functions/server/warranty.ts); aqui fica apenas a apresentacao
+ * usada pela Minha Conta e pelo painel admin.
+ */
+import Clock from "lucide-react/dist/esm/icons/clock";
+import CheckCircle2 from "lucide-react/dist/esm/icons/circle-check";
+import Ban from "lucide-react/dist/esm/icons/ban";
+import Truck from "lucide-react/dist/esm/icons/truck";
+import XCircle from "lucide-react/dist/esm/icons/circle-x";
+import ShieldCheck from "lucide-react/dist/esm/icons/shield-check";
+import ShieldOff from "lucide-react/dist/esm/icons/shield-off";
+import CalendarX from "lucide-react/dist/esm/icons/calendar-x";
+import type { SoldWarrantyStatus, WarrantyClaimStatus } from "../services/api";
+import type { OrderStatusStyle } from "./orderStatus";
+
+export var WARRANTY_STATUS_STYLES: Record<SoldWarrantyStatus, OrderStatusStyle> = {
+  active: { label: "Vigente", icon: ShieldCheck, bg: "bg-green-50", text: "text-green-700", border: "border-green-200", dot: "bg-green-500" },
+  expired: { label: "Vencida", icon: CalendarX, bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", dot: "bg-gray-400" },
+  lapsed: { label: "Cancelada", icon: ShieldOff, bg: "bg-red-50", text: "text-red-700", border: "border-red-200", dot: "bg-red-500" },
+};
+
+export var WARRANTY_CLAIM_STATUS_STYLES: Record<WarrantyClaimStatus, OrderStatusStyle> = {
+  submitted: { label: "Em análise", icon: Clock, bg: "bg-amber-50", text: "text-amber-700", border: "border-amber-200", dot: "bg-amber-500" },
+  approved: { label: "Aprovado", icon: CheckCircle2, bg: "bg-green-50", text: "text-green-700", border: "border-green-200", dot: "bg-green-500" },
+  denied: { label: "Recusado", icon: Ban, bg: "bg-red-50", text: "text-red-700", border: "border-red-200", dot: "bg-red-500" },
+  replacement_sent: { label: "Reposição enviada", icon: Truck, bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", dot: "bg-blue-500" },
+  resolved: { label: "Concluído", icon: CheckCircle2, bg: "bg-emerald-50", text: "text-emerald-700", border: "border-emerald-200", dot: "bg-emerald-500" },
+  cancelled: { label: "Cancelado", icon: XCircle, bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", dot: "bg-gray-400" },
+};
+
+/** Statuses where the claim is still being handled (blocks a new claim on the same certificate) */
+export function isWarrantyClaimOpenStatus(status: WarrantyClaimStatus): boolean {
+  return ["submitted", "approved", "replacement_sent"].indexOf(status) !== -1;
+}
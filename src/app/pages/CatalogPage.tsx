@@ -1,6 +1,6 @@
 /**
  * CATALOG PAGE — Pagina do catalogo com busca, filtros e paginacao.
- * Filtros: categoria, marca, busca textual, ordenacao (titulo, preco, relevancia).
+ * Filtros: categoria, marca, veiculo (aplicacao estruturada), busca textual, ordenacao (titulo, preco, relevancia).
  * Dados: GET /produtos com query params. Precos/saldos via bulk-fetch.
  * Performance: VirtualProductGrid para grids grandes; bulk-seed dos caches.
  * URL state: useSearchParams() para manter filtros na URL (compartilhavel).
@@ -8,7 +8,7 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams, Link } from "react-router";
 import type { ProdutoItem } from "../components/ProductCard";
-import { X, Grid3X3, List, Home, Loader2, Package, Hash, ChevronLeft, ChevronRight, AlertTriangle, Database, Layers, Tag, ArrowUpDown, ChevronDown, Filter, Search, Sparkles } from "lucide-react";
+import { X, Grid3X3, List, Home, Loader2, Package, Hash, ChevronLeft, ChevronRight, AlertTriangle, Database, Layers, Tag, ArrowUpDown, ChevronDown, Filter, Search, Sparkles, Car } from "lucide-react";
 import { StockBadge } from "../components/StockBadge";
 import { PriceBadge } from "../components/PriceBadge";
 import { seedPriceCache } from "../components/PriceBadge";
@@ -18,6 +18,7 @@ import * as api from "../services/api";
 import type { ProductBalance, ProductPrice, ProductMeta } from "../services/api";
 import { ProductImage } from "../components/ProductImage";
 import { useGA4 } from "../components/GA4Provider";
+import { useGarage } from "../contexts/GarageContext";
 import { useMarketing } from "../components/MarketingPixels";
 import { useDocumentMeta } from "../hooks/useDocumentMeta";
 import { ProductCardSkeletonGrid } from "../components/ProductCardSkeleton";
@@ -74,6 +75,26 @@ export function CatalogPage() {
 
   const searchQuery = searchParams.get("busca") || "";
   const categoriaSlug = searchParams.get("categoria") || "";
+  // Vehicle filter (?montadora=&modelo=&ano=&motor=) — exact structured fitment match on the server.
+  // Without URL params the "Minha Garagem" vehicle applies, unless ?veiculo=todos.
+  const { vehicle: garageVehicle } = useGarage();
+  const vMake = searchParams.get("montadora") || "";
+  const vModel = searchParams.get("modelo") || "";
+  const vYear = searchParams.get("ano") || "";
+  const vEngine = searchParams.get("motor") || "";
+  const showAllVehicles = searchParams.get("veiculo") === "todos";
+  const vehicleFilter = useMemo<api.VehicleFilter | null>(function () {
+    if (vMake && vModel) {
+      var y = parseInt(vYear, 10);
+      return { make: vMake, model: vModel, year: isNaN(y) ? null : y, engine: vEngine || null };
+    }
+    if (garageVehicle && !showAllVehicles) {
+      return { make: garageVehicle.make, model: garageVehicle.model, year: garageVehicle.year || null, engine: garageVehicle.engine || null };
+    }
+    return null;
+  }, [vMake, vModel, vYear, vEngine, garageVehicle, showAllVehicles]);
+  const vehicleFromGarage = !!vehicleFilter && !(vMake && vModel);
+  const [vehicleCatalog, setVehicleCatalog] = useState<api.VehicleCatalog | null>(null);
   const { trackEvent } = useGA4();
   const { trackMetaEvent } = useMarketing();
 
@@ -108,7 +129,7 @@ export function CatalogPage() {
     setPriceMap({}); // Clear price data for new page/filter
     setMetaMap({}); // Clear meta data for new page/filter
     try {
-      const result = await api.getCatalog(page, ITEMS_PER_PAGE, searchQuery, categoriaSlug, serverSortParam);
+      const result = await api.getCatalog(page, ITEMS_PER_PAGE, searchQuery, categoriaSlug, serverSortParam, vehicleFilter);
       setProdutos(result.data);
       setTotalPages(result.pagination.totalPages);
       setTotal(result.pagination.total);
@@ -140,11 +161,17 @@ export function CatalogPage() {
     } finally {
       setLoading(false);
     }
-  }, [page, searchQuery, categoriaSlug, serverSortParam, trackEvent]);
+  }, [page, searchQuery, categoriaSlug, serverSortParam, vehicleFilter, trackEvent]);
 
   useEffect(() => {
     setPage(1);
-  }, [searchQuery, categoriaSlug]);
+  }, [searchQuery, categoriaSlug, vehicleFilter]);
+
+  // Vehicle names for the filter chip (params carry catalog ids)
+  useEffect(() => {
+    if (!vehicleFilter || vehicleCatalog || vehicleFromGarage) return;
+    api.getVehicleCatalog().then(setVehicleCatalog).catch(() => {});
+  }, [vehicleFilter, vehicleCatalog]);
 
   useEffect(() => {
     fetchProdutos();
@@ -257,6 +284,18 @@ export function CatalogPage() {
     setPage(1);
   };
 
+  const clearVehicle = () => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.delete("montadora");
+    newParams.delete("modelo");
+    newParams.delete("ano");
+    newParams.delete("motor");
+    // Garage vehicle stays saved; this only shows every part for the current listing
+    if (garageVehicle) newParams.set("veiculo", "todos");
+    setSearchParams(newParams);
+    setPage(1);
+  };
+
   const clearAllFilters = () => {
     setSearchParams({});
     setPage(1);
@@ -289,7 +328,8 @@ export function CatalogPage() {
     return pages;
   };
 
-  const hasFilters = !!searchQuery || !!categoriaSlug;
+  const hasFilters = !!searchQuery || !!categoriaSlug || !!vehicleFilter;
+  const activeFilterCount = (searchQuery ? 1 : 0) + (categoriaSlug ? 1 : 0) + (vehicleFilter ? 1 : 0);
 
   // Build page title
   const pageTitle = categoriaSlug && categoryName
@@ -467,6 +507,18 @@ export function CatalogPage() {
               </button>
             )}
 
+            {vehicleFilter && (
+              <button
+                onClick={clearVehicle}
+                className="flex items-center gap-1.5 bg-red-50 text-red-600 border border-red-200 px-2.5 py-1 rounded-full hover:bg-red-100 transition-colors"
+                style={{ fontSize: "0.8rem" }}
+              >
+                <Car className="w-3 h-3" />
+                {vehicleFromGarage ? "Serve no seu veículo: " + (garageVehicle?.label || api.formatFitmentLabel(vehicleFilter, null)) : api.formatFitmentLabel(vehicleFilter, vehicleCatalog)}
+                <X className="w-3 h-3" />
+              </button>
+            )}
+
             {searchQuery && (
               <button
                 onClick={clearSearch}
@@ -478,7 +530,7 @@ export function CatalogPage() {
               </button>
             )}
 
-            {(searchQuery && categoriaSlug) && (
+            {activeFilterCount > 1 && (
               <button
                 onClick={clearAllFilters}
                 className="text-gray-400 hover:text-red-600 transition-colors underline"
@@ -488,9 +540,9 @@ export function CatalogPage() {
               </button>
             )}
 
-            {!(searchQuery && categoriaSlug) && (
+            {activeFilterCount === 1 && (
               <button
-                onClick={searchQuery ? clearSearch : clearCategory}
+                onClick={searchQuery ? clearSearch : categoriaSlug ? clearCategory : clearVehicle}
                 className="text-gray-400 hover:text-red-600 transition-colors underline"
                 style={{ fontSize: "0.8rem" }}
               >
@@ -560,6 +612,8 @@ export function CatalogPage() {
                   ? "Nenhum produto alocado na categoria \"" + (categoryName || categoriaSlug) + "\"."
                   : searchQuery
                   ? "Nenhum resultado para \"" + searchQuery + "\". Tente outro termo."
+                  : vehicleFilter
+                  ? "Nenhuma peça cadastrada para " + (vehicleFromGarage && garageVehicle?.label ? garageVehicle.label : api.formatFitmentLabel(vehicleFilter, vehicleCatalog)) + "."
                   : "Nenhum produto disponível no momento."}
               </p>
               {hasFilters && (
@@ -576,6 +630,15 @@ export function CatalogPage() {
                       Ver todo o catálogo
                     </button>
                   )}
+                  {vehicleFilter && (
+                    <button
+                      onClick={clearVehicle}
+                      className="bg-white border border-gray-300 hover:border-red-300 text-gray-600 hover:text-red-600 px-5 py-2.5 rounded-xl transition-all hover:-translate-y-0.5"
+                      style={{ fontSize: "0.9rem", fontWeight: 500 }}
+                    >
+                      Remover filtro de veículo
+                    </button>
+                  )}
                   {searchQuery && (
                     <button
                       onClick={clearSearch}
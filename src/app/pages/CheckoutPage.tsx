@@ -4,7 +4,7 @@
  * Pagamentos: PIX (PagHiper), Boleto (PagHiper), Mercado Pago, Cartão de Crédito (MP Checkout Transparente).
  * Integra: CartContext, Auth, GA4 (begin_checkout, purchase), Marketing.
  */
-import { useState, useEffect, useRef, useCallback, startTransition } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo, startTransition } from "react";
 import { Link, useSearchParams, useNavigate } from "react-router";
 import { useCatalogMode } from "../contexts/CatalogModeContext";
 import ShoppingCart from "lucide-react/dist/esm/icons/shopping-cart.js";
@@ -45,6 +45,7 @@ import { useDocumentMeta } from "../hooks/useDocumentMeta";
 import { ProductImage } from "../components/ProductImage";
 import { CheckoutAddressManager } from "../components/CheckoutAddressManager";
 import { useAffiliate } from "../contexts/AffiliateContext";
+import { useGarage } from "../contexts/GarageContext";
 
 function formatPrice(value: number): string {
   return value.toLocaleString("pt-BR", {
@@ -90,7 +91,8 @@ interface UserProfile {
 
 export function CheckoutPage() {
   const { catalogMode } = useCatalogMode();
-  const { items, totalItems, totalPrice, removeItem, updateQuantity, clearCart } = useCart();
+  const { items, totalItems, totalPrice, removeItem, updateQuantity, clearCart, coupon: cartCoupon, setCoupon: setCartCoupon } = useCart();
+  const { vehicle: garageVehicle } = useGarage();
   const { trackEvent } = useGA4();
   const { trackMetaEvent, trackGoogleAdsConversion } = useMarketing();
   const { affiliateCode, clearAffiliateCode } = useAffiliate();
@@ -171,16 +173,34 @@ export function CheckoutPage() {
   const [couponValidating, setCouponValidating] = useState(false);
   const [couponApplied, setCouponApplied] = useState<{
     code: string;
-    discountType: "percentage" | "fixed";
+    discountType: api.CouponDiscountType;
     discountValue: number;
     discountAmount: number;
+    itemsDiscount: number;
+    shippingDiscount: number;
+    note?: string | null;
     description?: string;
   } | null>(null);
   const [couponError, setCouponError] = useState<string | null>(null);
 
   const couponDiscount = couponApplied?.discountAmount ?? 0;
+
+  // Coupon saved with the cart (server cart / other device): prefill the code once
+  const couponPrefilledRef = useRef(false);
+  useEffect(() => {
+    if (couponPrefilledRef.current || !cartCoupon) return;
+    couponPrefilledRef.current = true;
+    setCouponCode((prev) => prev || cartCoupon);
+  }, [cartCoupon]);
   const totalWithShipping = Math.max(0, totalPrice + shippingPrice - couponDiscount);
 
+  // Cart lines + chosen shipping sent to the promo engine — the payment routes
+  // re-evaluate the coupon from these same lines
+  const couponLines = useMemo(() => items.map((i) => ({ sku: i.sku, quantity: i.quantidade, unitPrice: i.precoUnitario || 0 })), [items]);
+  const couponShipping = selectedShipping ? { carrierId: selectedShipping.carrierId, price: selectedShipping.price } : null;
+  const couponEvalKey = couponLines.map((l) => l.sku + "x" + l.quantity + "@" + l.unitPrice).join("|") +
+    "#" + (couponShipping ? couponShipping.carrierId + ":" + couponShipping.price : "");
+
   // Mercado Pago
   const [mpEnabled, setMpEnabled] = useState(false);
   const [mpSandbox, setMpSandbox] = useState(false);
@@ -518,29 +538,57 @@ export function CheckoutPage() {
   }, []);
 
   // ─── Validate coupon ───
+  const fetchCouponEvaluation = (code: string) =>
+    api.validateCoupon(code, totalPrice, effectiveCpfCnpj, { items: couponLines, shipping: couponShipping, accessToken });
+
+  const applyCouponEvaluation = (code: string, result: api.CouponValidation) => {
+    if (!result.valid) {
+      setCouponApplied(null);
+      setCouponError(result.error || "Cupom inválido");
+      return false;
+    }
+    setCouponApplied({
+      code: result.code || code,
+      discountType: result.discountType || "percentage",
+      discountValue: result.discountValue || 0,
+      discountAmount: result.discountAmount || 0,
+      itemsDiscount: result.itemsDiscount || 0,
+      shippingDiscount: result.shippingDiscount || 0,
+      note: result.note,
+      description: result.description,
+    });
+    setCartCoupon(result.code || code);
+    setCouponError(null);
+    return true;
+  };
+
+  // Cart or shipping changed → re-evaluate the applied coupon (scope, quantities and
+  // free shipping all depend on the lines and the carrier)
+  const couponEvalKeyRef = useRef(couponEvalKey);
+  useEffect(() => {
+    if (!couponApplied) { couponEvalKeyRef.current = couponEvalKey; return; }
+    if (couponEvalKeyRef.current === couponEvalKey) return;
+    couponEvalKeyRef.current = couponEvalKey;
+    var cancelled = false;
+    var code = couponApplied.code;
+    fetchCouponEvaluation(code)
+      .then((result) => { if (!cancelled) applyCouponEvaluation(code, result); })
+      .catch((e) => { console.warn("[Checkout] Coupon re-validation error:", e); });
+    return () => { cancelled = true; };
+  }, [couponEvalKey, couponApplied?.code]);
+
   const handleValidateCoupon = async () => {
     const code = couponCode.trim().toUpperCase();
     if (!code) return;
     setCouponValidating(true);
     setCouponError(null);
     try {
-      const result = await api.validateCoupon(code, totalPrice, effectiveCpfCnpj);
-      if (result.valid) {
-        setCouponApplied({
-          code: result.code || code,
-          discountType: result.discountType || "percentage",
-          discountValue: result.discountValue || 0,
-          discountAmount: result.discountAmount || 0,
-          description: result.description,
-        });
-        setCouponError(null);
+      const result = await fetchCouponEvaluation(code);
+      if (applyCouponEvaluation(code, result)) {
         trackEvent("select_promotion", {
           promotion_name: code,
           discount: result.discountAmount,
         });
-      } else {
-        setCouponApplied(null);
-        setCouponError(result.error || "Cupom inválido");
       }
     } catch (e: any) {
       console.error("[Checkout] Coupon validation error:", e);
@@ -555,6 +603,7 @@ export function CheckoutPage() {
     setCouponApplied(null);
     setCouponCode("");
     setCouponError(null);
+    setCartCoupon(null);
   };
 
   // ─── Affiliate tracking helper ───
@@ -684,6 +733,17 @@ export function CheckoutPage() {
         console.warn("[Checkout] SIGE customer sync unavailable — proceeding with local-only order.");
       }
 
+      const orderShippingOpt = selectedShipping ? {
+        carrierId: selectedShipping.carrierId,
+        carrierName: selectedShipping.carrierName,
+        carrierType: selectedShipping.carrierType,
+        price: selectedShipping.price,
+        deliveryDays: selectedShipping.deliveryDays,
+        free: selectedShipping.free,
+        sisfreteQuoteId: selectedShipping.sisfreteQuoteId || undefined,
+        shippingQuoteId: selectedShipping.shippingQuoteId || undefined,
+      } : undefined;
+
       // 2. Create SIGE order (only when SIGE customer is linked)
       let saleResult: any = null;
       if (sigeCustomerId) {
@@ -698,6 +758,8 @@ export function CheckoutPage() {
           })),
           tipoPedido: "704",
           observacao: observacao.trim() || "Pedido via site - " + effectiveName,
+          // Validated against the quote; "Retire na loja" sends the order to the branch filial
+          shippingOption: orderShippingOpt,
         };
 
         try {
@@ -782,16 +844,6 @@ export function CheckoutPage() {
         number: selectedAddress ? selectedAddress.number : "",
         complement: selectedAddress ? selectedAddress.complement : "",
       };
-      const orderShippingOpt = selectedShipping ? {
-        carrierId: selectedShipping.carrierId,
-        carrierName: selectedShipping.carrierName,
-        carrierType: selectedShipping.carrierType,
-        price: selectedShipping.price,
-        deliveryDays: selectedShipping.deliveryDays,
-        free: selectedShipping.free,
-        sisfreteQuoteId: selectedShipping.sisfreteQuoteId || undefined,
-        shippingQuoteId: selectedShipping.shippingQuoteId || undefined,
-      } : undefined;
       const orderCouponInfo = couponApplied ? {
         code: couponApplied.code,
         discountType: couponApplied.discountType,
@@ -822,6 +874,8 @@ export function CheckoutPage() {
           days_due_date: "1",
           items: paghiperItems,
           discount_cents: discountCentsForPayment > 0 ? discountCentsForPayment : undefined,
+          couponCode: couponApplied ? couponApplied.code : undefined,
+          shippingCarrierId: selectedShipping ? selectedShipping.carrierId : undefined,
         };
 
         const pixResult = await api.createPixCharge(pixPayload, accessToken);
@@ -845,6 +899,7 @@ export function CheckoutPage() {
             shippingAddress: orderShippingAddr,
             shippingOption: orderShippingOpt,
             coupon: orderCouponInfo,
+            vehicle: garageVehicle,
           } as any);
           trackAffiliateSale(localOrderId, totalWithShipping, profile.email, accessToken);
           _useCouponOnce();
@@ -865,6 +920,8 @@ export function CheckoutPage() {
           days_due_date: "3",
           items: paghiperItems,
           discount_cents: discountCentsForPayment > 0 ? discountCentsForPayment : undefined,
+          couponCode: couponApplied ? couponApplied.code : undefined,
+          shippingCarrierId: selectedShipping ? selectedShipping.carrierId : undefined,
         };
 
         const boletoResult = await api.createBoletoCharge(boletoPayload, accessToken);
@@ -888,6 +945,7 @@ export function CheckoutPage() {
             shippingAddress: orderShippingAddr,
             shippingOption: orderShippingOpt,
             coupon: orderCouponInfo,
+            vehicle: garageVehicle,
           } as any);
           trackAffiliateSale(localOrderId, totalWithShipping, profile.email, accessToken);
           _useCouponOnce();
@@ -897,8 +955,8 @@ export function CheckoutPage() {
       } else if (paymentMethod === "mercadopago") {
         // 3b. Create Mercado Pago preference (Checkout Pro)
         const baseUrl = window.location.origin;
-        // Build MP items — if coupon is applied, distribute discount proportionally
-        let mpItems: Array<{ item_id: string; description: string; quantity: number; unit_price: number }> = [];
+        // Build MP items at full price — the server applies the coupon's line discounts
+        const mpItems: Array<{ item_id: string; description: string; quantity: number; unit_price: number }> = [];
         for (var mi = 0; mi < items.length; mi++) {
           var _mItem = items[mi];
           mpItems.push({
@@ -917,13 +975,6 @@ export function CheckoutPage() {
             });
           }
         }
-        if (couponApplied && couponDiscount > 0 && totalPrice > 0) {
-          const ratio = 1 - couponDiscount / totalPrice;
-          mpItems = mpItems.map((it) => ({
-            ...it,
-            unit_price: Math.round(it.unit_price * ratio * 100) / 100,
-          }));
-        }
         const mpPayload: api.MPCreatePreferencePayload = {
           order_id: localOrderId,
           payer_email: profile.email,
@@ -931,6 +982,8 @@ export function CheckoutPage() {
           items: mpItems,
           shipping_cost: shippingPrice > 0 ? shippingPrice : undefined,
           shippingQuoteId: selectedShipping?.shippingQuoteId || undefined,
+          couponCode: couponApplied ? couponApplied.code : undefined,
+          shippingCarrierId: selectedShipping ? selectedShipping.carrierId : undefined,
           back_urls: {
             success: baseUrl + "/checkout",
             failure: baseUrl + "/checkout",
@@ -956,6 +1009,7 @@ export function CheckoutPage() {
             shippingAddress: orderShippingAddr,
             shippingOption: orderShippingOpt,
             coupon: orderCouponInfo,
+            vehicle: garageVehicle,
           } as any);
           trackAffiliateSale(localOrderId, totalWithShipping, profile.email, accessToken);
           _useCouponOnce();
@@ -1025,6 +1079,8 @@ export function CheckoutPage() {
           items: items.map(function (it) {
             return { sku: it.sku, title: it.titulo || it.sku, quantity: it.quantidade, unit_price: it.precoUnitario || 0 };
           }),
+          couponCode: couponApplied ? couponApplied.code : undefined,
+          shippingOption: orderShippingOpt,
           payer_phone: effectivePhone,
           payer_address: selectedAddress ? {
             cep: selectedAddress.cep,
@@ -1066,6 +1122,7 @@ export function CheckoutPage() {
             shippingAddress: orderShippingAddr,
             shippingOption: orderShippingOpt,
             coupon: orderCouponInfo,
+            vehicle: garageVehicle,
             initialStatus: ccInitialStatus,
             mpPaymentId: ccResult.payment_id,
           } as any);
@@ -2548,9 +2605,16 @@ export function CheckoutPage() {
                         <p className="text-green-600" style={{ fontSize: "0.7rem" }}>
                           {couponApplied.discountType === "percentage"
                             ? couponApplied.discountValue + "% de desconto"
-                            : formatPrice(couponApplied.discountValue) + " de desconto"}
+                            : couponApplied.discountType === "fixed"
+                              ? formatPrice(couponApplied.discountValue) + " de desconto"
+                              : couponApplied.discountType === "free_shipping"
+                                ? "Frete grátis"
+                                : formatPrice(couponApplied.discountAmount) + " de desconto"}
                           {couponApplied.description ? " — " + couponApplied.description : ""}
                         </p>
+                        {couponApplied.note && (
+                          <p className="text-amber-600" style={{ fontSize: "0.68rem" }}>{couponApplied.note}</p>
+                        )}
                       </div>
                     </div>
                     <button
@@ -37,6 +37,21 @@ function useCountdown(expiresAt: string | null) {
   return timeLeft;
 }
 
+// Card title for rule-based coupons (leve X pague Y, progressivo, frete gratis)
+function discountTitle(coupon: PublicCoupon): string {
+  var buy = coupon.buyQty || 0;
+  var get = coupon.getQty || 0;
+  if (coupon.discountType === "buy_x_get_y") {
+    return (coupon.getDiscountPercent ?? 100) >= 100
+      ? "Leve " + (buy + get) + ", pague " + buy
+      : "Leve " + (buy + get) + " com " + coupon.getDiscountPercent + "% off em " + get;
+  }
+  if (coupon.discountType === "progressive") {
+    var tiers = coupon.progressiveTiers || [];
+    return "Até " + (tiers.length ? tiers[tiers.length - 1].percent : 0) + "% de desconto progressivo";
+  }
+  return "Frete grátis";
+}
 function TimeBlock({ value, label, urgent }: { value: number; label: string; urgent: boolean }) {
   return (
     <div
@@ -137,6 +152,7 @@ function CouponCard({ coupon, index }: { coupon: PublicCoupon; index: number })
   }, [coupon.code]);
 
   var isPerc = coupon.discountType === "percentage";
+  var headline = api.couponHeadline(coupon);
   var isUrgent = false;
   if (coupon.expiresAt) {
     var diff = new Date(coupon.expiresAt).getTime() - Date.now();
@@ -145,10 +161,32 @@ function CouponCard({ coupon, index }: { coupon: PublicCoupon; index: number })
 
   // Build dynamic conditions list
   var conditions: string[] = [];
+  var buyQty = coupon.buyQty || 0;
+  var getQty = coupon.getQty || 0;
   if (isPerc) {
     conditions.push("Desconto de " + coupon.discountValue + "% aplicado sobre o valor total dos produtos no carrinho.");
-  } else {
+  } else if (coupon.discountType === "fixed") {
     conditions.push("Desconto fixo de R$ " + coupon.discountValue.toFixed(2).replace(".", ",") + " aplicado sobre o valor total dos produtos.");
+  } else if (coupon.discountType === "buy_x_get_y") {
+    conditions.push("A cada " + (buyQty + getQty) + " unidades participantes, " + (getQty === 1 ? "a mais barata sai" : "as " + getQty + " mais baratas saem") +
+      ((coupon.getDiscountPercent ?? 100) >= 100 ? " de graça." : " com " + coupon.getDiscountPercent + "% de desconto."));
+  } else if (coupon.discountType === "progressive") {
+    conditions.push("Desconto progressivo pela quantidade de itens participantes: " +
+      (coupon.progressiveTiers || []).map(function (t) { return t.minQty + "+ un. = " + t.percent + "%"; }).join(", ") + ".");
+  } else if (coupon.discountType === "free_shipping") {
+    conditions.push("Frete grátis nas transportadoras participantes, exibido ao escolher o frete no checkout.");
+  }
+  if ((coupon.maxDiscount || 0) > 0) {
+    conditions.push("Desconto limitado a R$ " + (coupon.maxDiscount || 0).toFixed(2).replace(".", ",") + ".");
+  }
+  if (coupon.scoped) {
+    conditions.push("Válido apenas para produtos participantes (categorias, marcas ou itens selecionados).");
+  }
+  if (coupon.excludeSuperPromo) {
+    conditions.push("Não vale para itens da Super Promoção.");
+  }
+  if (coupon.firstPurchaseOnly) {
+    conditions.push("Exclusivo para a primeira compra no site (necessário estar logado).");
   }
   if (coupon.minOrderValue > 0) {
     conditions.push("Válido apenas para pedidos com valor mínimo de R$ " + coupon.minOrderValue.toFixed(2).replace(".", ",") + ".");
@@ -165,7 +203,9 @@ function CouponCard({ coupon, index }: { coupon: PublicCoupon; index: number })
   // Standard conditions
   conditions.push("Não cumulativo com outros cupons. Apenas 1 cupom por pedido.");
   conditions.push("Não cumulativo com descontos à vista (Pix, Boleto ou Cartão de Crédito).");
-  conditions.push("O desconto é aplicado somente sobre o valor dos produtos, não sobre o frete.");
+  if (coupon.discountType !== "free_shipping") {
+    conditions.push("O desconto é aplicado somente sobre o valor dos produtos, não sobre o frete.");
+  }
   conditions.push("Válido exclusivamente para compras realizadas no site.");
 
   return (
@@ -220,12 +260,12 @@ function CouponCard({ coupon, index }: { coupon: PublicCoupon; index: number })
                 </>
               ) : (
                 <>
-                  <div style={{ fontSize: "0.65rem", fontWeight: 600, opacity: 0.7 }}>R$</div>
-                  <div style={{ fontSize: "2.2rem", fontWeight: 900, lineHeight: 1, textShadow: "0 2px 8px rgba(0,0,0,0.15)" }}>
-                    {coupon.discountValue.toFixed(0)}
+                  {headline.prefix && <div style={{ fontSize: "0.65rem", fontWeight: 600, opacity: 0.7 }}>{headline.prefix}</div>}
+                  <div style={{ fontSize: headline.value.length > 3 ? "1.5rem" : "2.2rem", fontWeight: 900, lineHeight: 1, textShadow: "0 2px 8px rgba(0,0,0,0.15)" }}>
+                    {headline.value}
                   </div>
                   <div className="mt-1 tracking-widest" style={{ fontSize: "0.7rem", fontWeight: 800 }}>
-                    OFF
+                    {headline.suffix}
                   </div>
                 </>
               )}
@@ -250,7 +290,9 @@ function CouponCard({ coupon, index }: { coupon: PublicCoupon; index: number })
                   <h3 className="text-gray-900" style={{ fontSize: "1rem", fontWeight: 700, lineHeight: 1.3 }}>
                     {isPerc
                       ? coupon.discountValue + "% de desconto"
-                      : "R$ " + coupon.discountValue.toFixed(2).replace(".", ",") + " de desconto"}
+                      : coupon.discountType === "fixed"
+                        ? "R$ " + coupon.discountValue.toFixed(2).replace(".", ",") + " de desconto"
+                        : discountTitle(coupon)}
                   </h3>
                   {coupon.description && (
                     <p className="text-gray-500 mt-1" style={{ fontSize: "0.84rem", lineHeight: 1.5 }}>
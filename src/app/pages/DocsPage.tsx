@@ -185,8 +185,12 @@ var sections: DocSection[] = [
         ["POST", "/auth/bootstrap-admin", "Bootstrap do primeiro admin"],
         ["POST", "/auth/claim-admin", "Reivindica role de admin"],
         ["POST/GET", "/auth/admin-whitelist", "Gerencia whitelist admin"],
-        ["GET", "/auth/admin-list", "Lista todos admins"],
-        ["POST", "/auth/admin-permissions", "Define permissoes por tab"],
+        ["GET", "/auth/admin-list", "Lista todos admins com papeis"],
+        ["POST", "/auth/admin-permissions", "Define papeis do admin"],
+        ["GET/PUT", "/admin/roles", "Papeis de admin (leitura/escrita por recurso)"],
+        ["GET", "/admin/approvals", "Solicitacoes de aprovacao do master"],
+        ["POST", "/admin/approvals/:id/approve", "Aprova e executa a acao sensivel"],
+        ["POST", "/admin/approvals/:id/reject", "Recusa ou cancela a solicitacao"],
         ["GET", "/auth/check-admin", "Verifica se e admin"],
         ["GET", "/auth/me", "Dados do usuario autenticado"],
         ["POST", "/auth/forgot-password", "Email de recuperacao"],
@@ -411,11 +415,12 @@ var sections: DocSection[] = [
         "Define periodo (startDate/endDate como timestamps)",
         "Define tipo de desconto (percentage ou fixed) + valor",
         "Seleciona produtos (com desconto individual opcional)",
-        "Salva via POST /admin/promo → armazena no KV 'super_promo'",
+        "Define prioridade (0-100) e slot na home (top / middle / none)",
+        "Salva via POST/PUT /admin/promo/campaigns → KV 'promo_campaign:<id>' (varias campanhas; cada SKU fica com a de maior prioridade)",
       ]},
       { type: "subtitle", value: "Exibicao (Frontend)" },
       { type: "list", items: [
-        "Estrategia DUAL-SOURCE: Fast path usa initData.promo do HomepageInit (imediato)",
+        "Estrategia DUAL-SOURCE: Fast path usa initData.promoCampaigns/promoSlots do HomepageInit (imediato)",
         "Autoritativo: SEMPRE chama GET /promo/active em paralelo",
         "Retry automatico em caso de falha",
         "Countdown visual ate endDate",
@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router";
+import * as api from "../services/api";
+import { useDocumentMeta } from "../hooks/useDocumentMeta";
+import Loader2 from "lucide-react/dist/esm/icons/loader-circle";
+import MailX from "lucide-react/dist/esm/icons/mail-x";
+import Mail from "lucide-react/dist/esm/icons/mail";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle";
+import CheckCircle2 from "lucide-react/dist/esm/icons/circle-check";
+
+/**
+ * Links "Descadastrar" e "Preferências de e-mail" das campanhas de email
+ * marketing. O token assinado identifica o assinante; nao precisa de login.
+ * Com ?sair=1 a pagina abre direto na confirmacao de descadastro.
+ */
+export function EmailPreferencesPage() {
+  var [searchParams] = useSearchParams();
+  var token = searchParams.get("token") || "";
+  var [confirmLeave, setConfirmLeave] = useState(searchParams.get("sair") === "1");
+  var [state, setState] = useState<"loading" | "ready" | "error">("loading");
+  var [prefs, setPrefs] = useState<api.EmailPreferences | null>(null);
+  var [selected, setSelected] = useState<string[]>([]);
+  var [saving, setSaving] = useState(false);
+  var [saved, setSaved] = useState(false);
+  var [error, setError] = useState("");
+
+  useDocumentMeta({
+    title: "Preferências de e-mail - Carretão Auto Peças",
+    description: "Gerencie os e-mails que você recebe da Carretão Auto Peças.",
+  });
+
+  useEffect(function () {
+    if (!token) {
+      setError("Link incompleto. Use o link do rodapé do e-mail.");
+      setState("error");
+      return;
+    }
+    var cancelled = false;
+    api.getEmailPreferences(token).then(function (res) {
+      if (cancelled) return;
+      applyPrefs(res);
+      setState("ready");
+    }).catch(function (err: any) {
+      if (cancelled) return;
+      setError(err?.message || "Não foi possível carregar suas preferências.");
+      setState("error");
+    });
+    return function () { cancelled = true; };
+  }, [token]);
+
+  function applyPrefs(res: api.EmailPreferences) {
+    setPrefs(res);
+    setSelected(res.topics.filter(function (t) { return t.selected; }).map(function (t) { return t.tag; }));
+  }
+
+  function save(active: boolean, tags?: string[]) {
+    setSaving(true);
+    setSaved(false);
+    setError("");
+    api.saveEmailPreferences(token, { active: active, tags: tags }).then(function (res) {
+      applyPrefs(res);
+      setConfirmLeave(false);
+      setSaved(true);
+    }).catch(function (err: any) {
+      setError(err?.message || "Não foi possível salvar.");
+    }).finally(function () {
+      setSaving(false);
+    });
+  }
+
+  function toggleTopic(tag: string) {
+    setSaved(false);
+    setSelected(function (prev) {
+      return prev.indexOf(tag) >= 0 ? prev.filter(function (t) { return t !== tag; }) : prev.concat([tag]);
+    });
+  }
+
+  if (state === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 text-red-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (state === "error" || !prefs) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-amber-50 flex items-center justify-center mx-auto mb-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Link inválido
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>{error}</p>
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ir para a loja
+        </Link>
+      </div>
+    );
+  }
+
+  // Bounced or reported as spam: only the store can turn it back on
+  if (!prefs.active && prefs.inactiveReason && prefs.inactiveReason !== "unsubscribe") {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-4">
+          <MailX className="w-8 h-8 text-gray-500" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          E-mails desativados
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>
+          {"Os envios para " + prefs.email + " foram suspensos"
+            + (prefs.inactiveReason === "complaint" ? " após uma marcação como spam." : " porque as mensagens não estão sendo entregues.")
+            + " Para voltar a receber, fale com a nossa equipe."}
+        </p>
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ir para a loja
+        </Link>
+      </div>
+    );
+  }
+
+  if (!prefs.active) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-green-50 flex items-center justify-center mx-auto mb-4">
+          <MailX className="w-8 h-8 text-green-600" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Descadastro concluído
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>
+          {prefs.email + " não receberá mais nossas campanhas por e-mail. E-mails de pedidos continuam sendo enviados normalmente."}
+        </p>
+        {error && <p className="text-red-600 mb-4" style={{ fontSize: "0.82rem" }}>{error}</p>}
+        <button
+          onClick={function () { save(true); }}
+          disabled={saving}
+          className="inline-flex items-center gap-2 border border-gray-300 hover:bg-gray-50 text-gray-700 px-6 py-3 rounded-xl transition-colors disabled:opacity-50"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Mudei de ideia, quero receber
+        </button>
+      </div>
+    );
+  }
+
+  if (confirmLeave) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-red-50 flex items-center justify-center mx-auto mb-4">
+          <MailX className="w-8 h-8 text-red-600" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Descadastrar {prefs.email}?
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>
+          Você deixará de receber ofertas e novidades por e-mail.
+          {prefs.topics.length > 0 ? " Se preferir, escolha apenas os assuntos que interessam." : ""}
+        </p>
+        {error && <p className="text-red-600 mb-4" style={{ fontSize: "0.82rem" }}>{error}</p>}
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <button
+            onClick={function () { save(false); }}
+            disabled={saving}
+            className="inline-flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors disabled:opacity-50"
+            style={{ fontSize: "0.9rem", fontWeight: 600 }}
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Descadastrar
+          </button>
+          {prefs.topics.length > 0 && (
+            <button
+              onClick={function () { setConfirmLeave(false); }}
+              className="inline-flex items-center justify-center gap-2 border border-gray-300 hover:bg-gray-50 text-gray-700 px-6 py-3 rounded-xl transition-colors"
+              style={{ fontSize: "0.9rem", fontWeight: 600 }}
+            >
+              Escolher assuntos
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <div className="text-center mb-6">
+        <div className="w-16 h-16 rounded-full bg-red-50 flex items-center justify-center mx-auto mb-4">
+          <Mail className="w-8 h-8 text-red-600" />
+        </div>
+        <h1 className="text-gray-900 mb-1" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Preferências de e-mail
+        </h1>
+        <p className="text-gray-500" style={{ fontSize: "0.88rem" }}>{prefs.email}</p>
+      </div>
+
+      {prefs.topics.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl divide-y divide-gray-100 mb-4">
+          {prefs.topics.map(function (t) {
+            return (
+              <label key={t.tag} className="flex items-center gap-3 px-4 py-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.indexOf(t.tag) >= 0}
+                  onChange={function () { toggleTopic(t.tag); }}
+                  className="w-4 h-4 accent-red-600"
+                />
+                <span className="text-gray-700" style={{ fontSize: "0.88rem" }}>{t.label}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 mb-3 text-center" style={{ fontSize: "0.82rem" }}>{error}</p>}
+      {saved && (
+        <p className="flex items-center justify-center gap-1.5 text-green-600 mb-3" style={{ fontSize: "0.82rem" }}>
+          <CheckCircle2 className="w-4 h-4" /> Preferências salvas.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-3">
+        {prefs.topics.length > 0 && (
+          <button
+            onClick={function () { save(true, selected); }}
+            disabled={saving}
+            className="inline-flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors disabled:opacity-50"
+            style={{ fontSize: "0.9rem", fontWeight: 600 }}
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Salvar preferências
+          </button>
+        )}
+        <button
+          onClick={function () { setConfirmLeave(true); }}
+          className="text-gray-500 hover:text-red-600 transition-colors"
+          style={{ fontSize: "0.82rem" }}
+        >
+          Não quero mais receber e-mails
+        </button>
+      </div>
+    </div>
+  );
+}
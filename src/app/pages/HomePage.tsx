@@ -6,7 +6,7 @@
  * SECOES (ordem de cima pra baixo):
  * 1. HeroBannerCarousel — Banners full-width (ou DefaultHero se vazio)
  * 2. CategoriesStrip — Faixa horizontal de categorias scrollavel
- * 3. SuperPromoSection — Carousel de ofertas com countdown (lazy)
+ * 3. SuperPromoSection — Carousel de ofertas com countdown (slot "top"; slot "middle" apos os produtos)
  * 4. HomeReels — Videos curtos estilo TikTok (lazy)
  * 5. MidBanners (posicao 1) — Banners intermediarios (slots 3 & 4)
  * 6. Produtos em Destaque — Grid 2x5 de ProductCards
@@ -837,6 +837,11 @@ export function HomePage() {
         </div>
       </section>
 
+      {/* Super Promo — "middle" slot (second concurrent campaign), after Products */}
+      <ErrorBoundary>
+        <SuperPromoSection slot="middle" />
+      </ErrorBoundary>
+
       {/* Mid-Page Banners (Position 2) — slots 1 & 2, after Products */}
       {midBannersBottom}
 
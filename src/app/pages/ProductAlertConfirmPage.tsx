@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router";
+import * as api from "../services/api";
+import { useDocumentMeta } from "../hooks/useDocumentMeta";
+import Loader2 from "lucide-react/dist/esm/icons/loader-circle";
+import BellRing from "lucide-react/dist/esm/icons/bell-ring";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle";
+
+function formatCents(cents: number | null): string {
+  return "R$ " + ((cents || 0) / 100).toFixed(2).replace(".", ",");
+}
+
+/**
+ * Link "Confirmar aviso" do e-mail enviado ao visitante que pediu aviso de estoque
+ * ou preço. O aviso so passa a valer depois deste clique; nao precisa de login.
+ */
+export function ProductAlertConfirmPage() {
+  var [searchParams] = useSearchParams();
+  var token = searchParams.get("token") || "";
+  var [state, setState] = useState<"loading" | "done" | "error">("loading");
+  var [result, setResult] = useState<{ sku: string; titulo: string; type: api.ProductAlertType; targetCents: number | null } | null>(null);
+  var [error, setError] = useState("");
+
+  useDocumentMeta({
+    title: "Confirmar aviso - Carretão Auto Peças",
+    description: "Confirmação de aviso de produto.",
+  });
+
+  useEffect(function () {
+    if (!token) {
+      setError("Link de confirmação incompleto.");
+      setState("error");
+      return;
+    }
+    var cancelled = false;
+    api.confirmProductAlertByToken(token).then(function (res) {
+      if (cancelled) return;
+      setResult({ sku: res.sku, titulo: res.titulo, type: res.type, targetCents: res.targetCents });
+      setState("done");
+    }).catch(function (err: any) {
+      if (cancelled) return;
+      setError(err?.message || "Não foi possível confirmar o aviso.");
+      setState("error");
+    });
+    return function () { cancelled = true; };
+  }, [token]);
+
+  if (state === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 text-red-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (state === "error") {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-amber-50 flex items-center justify-center mx-auto mb-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Não foi possível confirmar
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>{error}</p>
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ir para a loja
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16 text-center">
+      <div className="w-16 h-16 rounded-full bg-green-50 flex items-center justify-center mx-auto mb-4">
+        <BellRing className="w-8 h-8 text-green-600" />
+      </div>
+      <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+        Aviso confirmado
+      </h1>
+      <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>
+        {(result && result.type === "price"
+          ? "Avisaremos por e-mail quando o preço baixar para até " + formatCents(result.targetCents)
+          : "Avisaremos por e-mail quando o produto chegar no estoque")
+          + (result && result.titulo ? ": " + result.titulo : "") + "."}
+      </p>
+      {result && (
+        <Link
+          to={"/produto/" + encodeURIComponent(result.sku)}
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ver produto
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router";
+import * as api from "../services/api";
+import { useDocumentMeta } from "../hooks/useDocumentMeta";
+import Loader2 from "lucide-react/dist/esm/icons/loader-circle";
+import BellOff from "lucide-react/dist/esm/icons/bell-off";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle";
+
+/**
+ * Link "Cancelar este aviso" dos e-mails/WhatsApp de aviso de estoque e preço.
+ * O token assinado identifica o aviso; nao precisa de login.
+ */
+export function ProductAlertUnsubscribePage() {
+  var [searchParams] = useSearchParams();
+  var token = searchParams.get("token") || "";
+  var [state, setState] = useState<"loading" | "done" | "error">("loading");
+  var [result, setResult] = useState<{ sku: string; titulo: string; type: api.ProductAlertType } | null>(null);
+  var [error, setError] = useState("");
+
+  useDocumentMeta({
+    title: "Cancelar aviso - Carretão Auto Peças",
+    description: "Cancelamento de aviso de produto.",
+  });
+
+  useEffect(function () {
+    if (!token) {
+      setError("Link de cancelamento incompleto.");
+      setState("error");
+      return;
+    }
+    var cancelled = false;
+    api.unsubscribeProductAlertByToken(token).then(function (res) {
+      if (cancelled) return;
+      setResult({ sku: res.sku, titulo: res.titulo, type: res.type });
+      setState("done");
+    }).catch(function (err: any) {
+      if (cancelled) return;
+      setError(err?.message || "Não foi possível cancelar o aviso.");
+      setState("error");
+    });
+    return function () { cancelled = true; };
+  }, [token]);
+
+  if (state === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 text-red-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (state === "error") {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-amber-50 flex items-center justify-center mx-auto mb-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Não foi possível cancelar
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>{error}</p>
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ir para a loja
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16 text-center">
+      <div className="w-16 h-16 rounded-full bg-green-50 flex items-center justify-center mx-auto mb-4">
+        <BellOff className="w-8 h-8 text-green-600" />
+      </div>
+      <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+        Aviso cancelado
+      </h1>
+      <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>
+        {"Você não receberá mais o aviso de " + (result && result.type === "price" ? "baixa de preço" : "chegada no estoque")
+          + (result && result.titulo ? " de " + result.titulo : "") + "."}
+      </p>
+      {result && (
+        <Link
+          to={"/produto/" + encodeURIComponent(result.sku)}
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ver produto
+        </Link>
+      )}
+    </div>
+  );
+}
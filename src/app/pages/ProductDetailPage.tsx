@@ -2,10 +2,10 @@
  * PRODUCT DETAIL PAGE — Pagina de detalhe do produto (/produto/:id).
  * Consome prefetch data via consumeProductDataCache() ou faz GET /produto-detail-init/:sku.
  * Exibe: galeria de imagens, preco (PriceBadge full), estoque, descricao, atributos,
- * calculadora de frete, avaliacoes, garantia estendida, reels, "Vistos recentemente".
- * SEO: JSON-LD Product, OG tags, canonical. GA4: view_item event.
+ * calculadora de frete, avaliacoes, perguntas e respostas, garantia estendida, reels, "Vistos recentemente".
+ * SEO: JSON-LD Product (+ QAPage em ProductQuestions), OG tags, canonical. GA4: view_item event.
  */
-import { useParams, Link } from "react-router";
+import { useParams, useSearchParams, Link } from "react-router";
 import { Home, ArrowLeft, Package, Hash, Loader2, ChevronLeft, ChevronRight, X, Tag, Info, MessageCircle, Flame, Zap, ShieldCheck, Play } from "lucide-react";
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import * as api from "../services/api";
@@ -14,12 +14,14 @@ import { computePromoPrice, getProductOgUrl } from "../services/api";
 import { ProductCard } from "../components/ProductCard";
 import type { ProdutoItem } from "../components/ProductCard";
 import { StockBadge } from "../components/StockBadge";
+import { FitmentBadge } from "../components/FitmentBadge";
 import { PriceBadge } from "../components/PriceBadge";
 import { seedPriceCache } from "../components/PriceBadge";
 import { seedStockCache } from "../components/StockBar";
 import { AddToCartButton } from "../components/AddToCartButton";
 import { ShippingCalculator } from "../components/ShippingCalculator";
 import { WishlistButton } from "../components/WishlistButton";
+import { ProductAlertButton } from "../components/ProductAlertButton";
 import { useGA4 } from "../components/GA4Provider";
 import { useMarketing } from "../components/MarketingPixels";
 import { useHomepageInit } from "../contexts/HomepageInitContext";
@@ -31,6 +33,7 @@ import { useRecentlyViewed } from "../hooks/useRecentlyViewed";
 import { RecentlyViewedSection } from "../components/RecentlyViewedSection";
 import { consumeProductDataCache } from "../utils/prefetch";
 import { ProductReviews } from "../components/ProductReviews";
+import { ProductQuestions } from "../components/ProductQuestions";
 import { JsonLdBreadcrumb } from "../components/JsonLdBreadcrumb";
 import { ShareButtons } from "../components/ShareButtons";
 import { useProductReels, ProductReelPlayer } from "../components/ProductReels";
@@ -102,6 +105,9 @@ var RELATED_CACHE_MAX = 30; // max cached SKUs
 export function ProductDetailPage() {
   const { id } = useParams();
   const sku = id ? decodeURIComponent(id) : "";
+  // ?avaliar=<token>: signed link from the post-purchase review request
+  const [searchParams] = useSearchParams();
+  const reviewInviteToken = searchParams.get("avaliar") || "";
   const [product, setProduct] = useState<ProdutoItem | null>(null);
   const [related, setRelated] = useState<ProdutoItem[]>([]);
   const [relatedBalanceMap, setRelatedBalanceMap] = useState<Record<string, ProductBalance>>({});
@@ -126,6 +132,9 @@ export function ProductDetailPage() {
   // Attributes state
   const [attributes, setAttributes] = useState<Record<string, string | string[]> | null>(null);
   const [attrsLoading, setAttrsLoading] = useState(true);
+
+  // Structured fitment (Minha Garagem badge)
+  var [fitmentMeta, setFitmentMeta] = useState<{ fitments?: api.ProductFitment[]; fitmentUniversal?: boolean } | null>(null);
   const { trackEvent } = useGA4();
   const { trackMetaEvent } = useMarketing();
 
@@ -235,6 +244,7 @@ export function ProductDetailPage() {
       setAttrsLoading(true);
       setMainPrice(null);
       setMainBalance(null);
+      setFitmentMeta(null);
       try {
         // PERF: Check if data was pre-fetched on hover (from prefetch.ts cache)
         var cachedData = consumeProductDataCache(sku);
@@ -273,6 +283,7 @@ export function ProductDetailPage() {
 
         setAttributes(attrsResult.found ? attrsResult.attributes : null);
         setAttrsLoading(false);
+        setFitmentMeta({ fitments: metaResult.fitments, fitmentUniversal: metaResult.fitmentUniversal });
         setMainPrice(priceResult);
         setMainBalance(balanceResult);
         setReviewSummary(reviewSummaryResult);
@@ -286,6 +297,7 @@ export function ProductDetailPage() {
           seedStockCache([{
             sku: sku,
             qty: balanceResult.found ? (balanceResult.disponivel ?? balanceResult.quantidade ?? 0) : null,
+            held: balanceResult.reservadoPedidos,
           }]);
         }
 
@@ -370,6 +382,7 @@ export function ProductDetailPage() {
             seedStockCache([{
               sku: sku,
               qty: fbBalance.found ? (fbBalance.disponivel ?? fbBalance.quantidade ?? 0) : null,
+              held: fbBalance.reservadoPedidos,
             }]);
           }
 
@@ -422,6 +435,7 @@ export function ProductDetailPage() {
           seedStockCache([{
             sku: sku,
             qty: fresh.found ? (fresh.disponivel ?? fresh.quantidade ?? 0) : null,
+            held: fresh.reservadoPedidos,
           }]);
           // Layer 1 stock validation complete — balance force-refreshed
         })
@@ -448,11 +462,11 @@ export function ProductDetailPage() {
     return function () { cancelled = true; };
   }, [loading, product, sku]);
 
-  // Scroll to #avaliacoes when hash is present and product is loaded
+  // Scroll to #avaliacoes / #perguntas when hash is present and product is loaded
   useEffect(function () {
     if (loading || !product) return;
-    if (window.location.hash === "#avaliacoes") {
-      var el = document.getElementById("avaliacoes");
+    if (window.location.hash === "#avaliacoes" || window.location.hash === "#perguntas") {
+      var el = document.getElementById(window.location.hash.substring(1));
       if (el) {
         setTimeout(function () {
           el!.scrollIntoView({ behavior: "smooth", block: "start" });
@@ -473,27 +487,18 @@ export function ProductDetailPage() {
       return;
     }
 
-    // Get promo from HomepageInitContext (cached) instead of separate API call
-    var promo = initData && initData.promo ? initData.promo : null;
-    if (!promo || !promo.enabled || !promo.products) {
-      setActivePromo(null);
-      setPromoProduct(null);
-      return;
-    }
-
-    // Client-side expiration check — revert to normal when endDate passes
-    if (promo.endDate && Date.now() > promo.endDate) {
-      setActivePromo(null);
-      setPromoProduct(null);
-      return;
-    }
-
-    var found = promo.products.find(function (p) { return p.sku === sku; });
-    if (!found) {
+    // Winning campaign for this SKU, from HomepageInitContext (cached) instead of
+    // a separate API call. The server already resolved overlaps by priority.
+    var match = initData
+      ? api.findSuperPromoForSku(initData.promoCampaigns || (initData.promo ? [initData.promo] : []), sku)
+      : null;
+    if (!match) {
       setActivePromo(null);
       setPromoProduct(null);
       return;
     }
+    var promo = match.promo;
+    var found = match.product;
 
     setActivePromo(promo);
 
@@ -590,6 +595,7 @@ export function ProductDetailPage() {
         seedStockCache((res.results || []).map((b: any) => ({
           sku: b.sku,
           qty: b.found ? (b.disponivel ?? b.quantidade ?? 0) : null,
+          held: b.reservadoPedidos,
         })));
       })
       .catch((e) => { if (e && e.name !== "AbortError") console.error("[ProductDetail] Bulk balance error:", e); });
@@ -1078,7 +1084,7 @@ export function ProductDetailPage() {
                     <p className="text-gray-400 mb-1" style={{ fontSize: "0.7rem", fontWeight: 500 }}>
                       Preço sem promoção:
                     </p>
-                    <PriceBadge sku={product.sku} variant="full" preloaded={mainPrice} />
+                    <PriceBadge sku={product.sku} variant="full" preloaded={mainPrice} ignorePromo />
                   </div>
                 </div>
               ) : (
@@ -1111,6 +1117,11 @@ export function ProductDetailPage() {
                 </span>
               </a>}
 
+              {/* Fitment vs. "Minha Garagem" vehicle */}
+              {fitmentMeta && (
+                <FitmentBadge fitments={fitmentMeta.fitments} fitmentUniversal={fitmentMeta.fitmentUniversal} className="mb-3 sm:mb-4" />
+              )}
+
               {/* Stock Balance from SIGE */}
               <div className="mb-4 sm:mb-5">
                 <StockBadge sku={product.sku} variant="full" preloaded={mainBalance} />
@@ -1192,6 +1203,7 @@ export function ProductDetailPage() {
                   sku={product.sku}
                   titulo={product.titulo}
                   overridePrice={isInPromo && promoProduct ? promoProduct.promoPrice : undefined}
+                  promoCampaign={isInPromo && activePromo ? { id: activePromo.id, title: activePromo.title } : null}
                   preloadedPrice={mainPrice && mainPrice.found ? mainPrice.price : undefined}
                   outOfStock={mainBalance ? (mainBalance.found && (mainBalance.disponivel ?? mainBalance.quantidade ?? 0) <= 0) : false}
                   availableQty={mainBalance && mainBalance.found ? (mainBalance.disponivel ?? mainBalance.quantidade ?? null) : null}
@@ -1217,6 +1229,18 @@ export function ProductDetailPage() {
                 />
               </div>
 
+              {/* Back-in-stock / price-drop alert */}
+              {sellable !== false && (
+                <div className="mb-4 sm:mb-5">
+                  <ProductAlertButton
+                    sku={product.sku}
+                    titulo={product.titulo}
+                    outOfStock={mainBalance ? (mainBalance.found && (mainBalance.disponivel ?? mainBalance.quantidade ?? 0) <= 0) : false}
+                    currentPrice={mainPrice && mainPrice.found ? mainPrice.price : null}
+                  />
+                </div>
+              )}
+
               {/* Shipping Calculator — only when product is sellable for online purchase */}
               {sellable !== false && (
                 <div className="mb-4 sm:mb-5">
@@ -1303,7 +1327,12 @@ export function ProductDetailPage() {
 
         {/* Product Reviews */}
         <div id="avaliacoes" className={isInPromo ? "bg-white rounded-xl p-3 sm:p-6" : ""}>
-          <ProductReviews sku={sku} />
+          <ProductReviews sku={sku} inviteToken={reviewInviteToken || undefined} />
+        </div>
+
+        {/* Product Q&A */}
+        <div id="perguntas" className={isInPromo ? "bg-white rounded-xl p-3 sm:p-6 mt-4" : ""}>
+          <ProductQuestions sku={sku} titulo={product.titulo} />
         </div>
 
         {/* Related Products */}
@@ -27,6 +27,7 @@ import Eye from "lucide-react/dist/esm/icons/eye";
 import ChevronDown from "lucide-react/dist/esm/icons/chevron-down";
 import Hash from "lucide-react/dist/esm/icons/hash";
 import Truck from "lucide-react/dist/esm/icons/truck";
+import Store from "lucide-react/dist/esm/icons/store";
 import Heart from "lucide-react/dist/esm/icons/heart";
 import Plus from "lucide-react/dist/esm/icons/plus";
 import Pencil from "lucide-react/dist/esm/icons/pencil";
@@ -49,11 +50,16 @@ import { ProductImage } from "../components/ProductImage";
 import { useDocumentMeta } from "../hooks/useDocumentMeta";
 import { useWishlist } from "../contexts/WishlistContext";
 import { WishlistButton } from "../components/WishlistButton";
+import { ProductAlertButton, useProductAlertsFor } from "../components/ProductAlertButton";
 import "../utils/emptyStateAnimations";
 import { UserAvatar, AvatarPicker } from "../components/AvatarPicker";
-import { InlineTracking } from "../components/TrackingTimeline";
+import { InlineTracking, OrderStatusTimeline } from "../components/TrackingTimeline";
+import { getOrderStatusStyle, isPaidOrderStatus } from "../data/orderStatus";
+import { OrderReturnsPanel } from "../components/OrderReturns";
+import { isRmaOpenStatus } from "../data/rma";
+import { MyWarrantiesPanel } from "../components/MyWarranties";
 
-type ActiveTab = "perfil" | "senha" | "pedidos" | "enderecos" | "favoritos" | "avaliacoes";
+type ActiveTab = "perfil" | "senha" | "pedidos" | "enderecos" | "favoritos" | "avaliacoes" | "garantias";
 
 interface UserProfile {
   id: string;
@@ -72,6 +78,7 @@ interface UserProfile {
   cep: string;
   avatarId: string | null;
   customAvatarUrl: string | null;
+  whatsappOptIn?: boolean;
   created_at: string;
 }
 
@@ -114,7 +121,7 @@ export function UserAccountPage() {
   var [searchParams] = useSearchParams();
   var [activeTab, setActiveTab] = useState<ActiveTab>(function () {
     var tabParam = searchParams.get("tab");
-    if (tabParam === "perfil" || tabParam === "senha" || tabParam === "pedidos" || tabParam === "enderecos" || tabParam === "favoritos" || tabParam === "avaliacoes") {
+    if (tabParam === "perfil" || tabParam === "senha" || tabParam === "pedidos" || tabParam === "enderecos" || tabParam === "favoritos" || tabParam === "avaliacoes" || tabParam === "garantias") {
       return tabParam;
     }
     return "perfil";
@@ -133,7 +140,7 @@ export function UserAccountPage() {
   // Sync tab from URL search params
   useEffect(function () {
     var tabParam = searchParams.get("tab");
-    if (tabParam === "perfil" || tabParam === "senha" || tabParam === "pedidos" || tabParam === "enderecos" || tabParam === "favoritos" || tabParam === "avaliacoes") {
+    if (tabParam === "perfil" || tabParam === "senha" || tabParam === "pedidos" || tabParam === "enderecos" || tabParam === "favoritos" || tabParam === "avaliacoes" || tabParam === "garantias") {
       setActiveTab(tabParam);
       setError(null);
       setSuccess(null);
@@ -149,6 +156,7 @@ export function UserAccountPage() {
   var [editCnpj, setEditCnpj] = useState("");
   var [editRazaoSocial, setEditRazaoSocial] = useState("");
   var [editInscricaoEstadual, setEditInscricaoEstadual] = useState("");
+  var [whatsappOptIn, setWhatsappOptIn] = useState(false);
   var [avatarUploading, setAvatarUploading] = useState(false);
 
   // CNPJ Receita Federal lookup
@@ -174,6 +182,7 @@ export function UserAccountPage() {
       setEditCnpj(data.cnpj ? formatCnpj(data.cnpj) : "");
       setEditRazaoSocial(data.razaoSocial || "");
       setEditInscricaoEstadual(data.inscricaoEstadual || "");
+      setWhatsappOptIn(data.whatsappOptIn === true);
     } catch (err: any) {
       console.error("Load profile error:", err);
       // Don't signOut on transient errors (network hiccup, cold start timeout).
@@ -199,6 +208,7 @@ export function UserAccountPage() {
               setEditCnpj(data3.cnpj ? formatCnpj(data3.cnpj) : "");
               setEditRazaoSocial(data3.razaoSocial || "");
               setEditInscricaoEstadual(data3.inscricaoEstadual || "");
+              setWhatsappOptIn(data3.whatsappOptIn === true);
               return "ok";
             } catch {
               // API unreachable but session valid — don't destroy session
@@ -221,6 +231,7 @@ export function UserAccountPage() {
         setEditCnpj(data2.cnpj ? formatCnpj(data2.cnpj) : "");
         setEditRazaoSocial(data2.razaoSocial || "");
         setEditInscricaoEstadual(data2.inscricaoEstadual || "");
+        setWhatsappOptIn(data2.whatsappOptIn === true);
       } catch (retryErr: any) {
         console.error("Retry after refresh also failed:", retryErr);
         // Last resort: check if session still exists before signing out
@@ -524,6 +535,7 @@ export function UserAccountPage() {
         cnpj: editCnpj.replace(/\D/g, ""),
         razaoSocial: editRazaoSocial.trim(),
         inscricaoEstadual: editInscricaoEstadual.trim(),
+        whatsappOptIn: whatsappOptIn,
       });
       api.invalidateUserMeCache();
       setSuccess("Perfil atualizado com sucesso!");
@@ -571,6 +583,7 @@ export function UserAccountPage() {
       { key: "pedidos" as ActiveTab, label: "Meus Pedidos", icon: Package, desc: "Histórico de compras" },
       { key: "favoritos" as ActiveTab, label: "Favoritos", icon: Heart, desc: "Produtos salvos" },
       { key: "avaliacoes" as ActiveTab, label: "Avaliações", icon: Star, desc: "Minhas avaliações" },
+      { key: "garantias" as ActiveTab, label: "Garantias", icon: ShieldCheck, desc: "Garantias estendidas" },
       { key: "senha" as ActiveTab, label: "Segurança", icon: Lock, desc: "Alterar senha" },
     ];
   }, []);
@@ -983,6 +996,19 @@ export function UserAccountPage() {
                   </div>
                 </div>
 
+                {/* WhatsApp offers consent (LGPD): broadcasts only reach who checks this */}
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={whatsappOptIn}
+                    onChange={function (e) { setWhatsappOptIn(e.target.checked); }}
+                    className="w-4 h-4 mt-0.5 accent-red-600 cursor-pointer"
+                  />
+                  <span className="text-gray-600" style={{ fontSize: "0.82rem" }}>
+                    Quero receber ofertas e novidades da Carretão pelo WhatsApp. Posso sair a qualquer momento pelo link em cada mensagem ou desmarcando aqui.
+                  </span>
+                </label>
+
                 {/* Info about addresses */}
                 <div className="flex items-start gap-3 bg-blue-50 border border-blue-200 rounded-xl px-4 py-3">
                   <MapPin className="w-4 h-4 text-blue-500 shrink-0 mt-0.5" />
@@ -1053,6 +1079,11 @@ export function UserAccountPage() {
             <MinhasAvaliacoesTab accessToken={accessToken} />
           )}
 
+          {/* ─── GARANTIAS TAB ─── */}
+          {activeTab === "garantias" && accessToken && (
+            <MyWarrantiesPanel accessToken={accessToken} />
+          )}
+
           {/* ─── SENHA TAB ─── */}
           {activeTab === "senha" && (
             <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
@@ -1790,6 +1821,7 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
   var [statusFilter, setStatusFilter] = useState<string>("all");
   var [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
   var [trackingOrderId, setTrackingOrderId] = useState<string | null>(null);
+  var [rmas, setRmas] = useState<api.CustomerRma[]>([]);
 
   useEffect(function () {
     if (!accessToken) return;
@@ -1799,8 +1831,17 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
       setLoadingOrders(true);
       setOrdersError(null);
       try {
-        var result = await api.userMyOrders(accessToken!);
-        if (!cancelled) setOrders(result.orders || []);
+        var results = await Promise.all([
+          api.userMyOrders(accessToken!),
+          api.userGetRmas(accessToken!).catch(function (e) {
+            console.error("Fetch RMAs error:", e);
+            return { rmas: [] as api.CustomerRma[], total: 0 };
+          }),
+        ]);
+        if (!cancelled) {
+          setOrders(results[0].orders || []);
+          setRmas(results[1].rmas || []);
+        }
       } catch (err: any) {
         console.error("Fetch orders error:", err);
         if (!cancelled) setOrdersError(err.message || "Erro ao carregar pedidos.");
@@ -1813,6 +1854,21 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
     return function () { cancelled = true; };
   }, [accessToken]);
 
+  /** Created/cancelled RMA: update the list and move the order in/out of "return_requested" locally */
+  var handleRmaChanged = function (rma: api.CustomerRma) {
+    var next = rmas.filter(function (r) { return r.id !== rma.id; }).concat([rma]);
+    setRmas(next);
+    setOrders(function (prev) {
+      return prev.map(function (o) {
+        if (o.localOrderId !== rma.orderId) return o;
+        var hasOpen = next.some(function (r) { return r.orderId === o.localOrderId && isRmaOpenStatus(r.status); });
+        if (hasOpen && o.status === "delivered") return { ...o, status: "return_requested" };
+        if (!hasOpen && o.status === "return_requested") return { ...o, status: "delivered" };
+        return o;
+      });
+    });
+  };
+
   var formatPrice = function (val: number) {
     return val.toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
   };
@@ -1831,17 +1887,6 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
     } catch { return dateStr; }
   };
 
-  var statusLabels: Record<string, { label: string; color: string; bg: string; icon: typeof CheckCircle2 }> = {
-    paid: { label: "Pago", color: "text-green-700", bg: "bg-green-50 border-green-200", icon: CheckCircle2 },
-    shipped: { label: "Enviado", color: "text-blue-700", bg: "bg-blue-50 border-blue-200", icon: Truck },
-    delivered: { label: "Entregue", color: "text-green-700", bg: "bg-green-50 border-green-200", icon: CheckCircle2 },
-    sige_registered: { label: "Registrado", color: "text-blue-700", bg: "bg-blue-50 border-blue-200", icon: Package },
-    confirmed: { label: "Registrado", color: "text-blue-700", bg: "bg-blue-50 border-blue-200", icon: Package },
-    awaiting_payment: { label: "Aguardando Pagamento", color: "text-amber-700", bg: "bg-amber-50 border-amber-200", icon: Clock },
-    pending: { label: "Pendente", color: "text-amber-700", bg: "bg-amber-50 border-amber-200", icon: Clock },
-    cancelled: { label: "Cancelado", color: "text-red-700", bg: "bg-red-50 border-red-200", icon: X },
-  };
-
   var paymentLabels: Record<string, string> = {
     pix: "PIX",
     boleto: "Boleto",
@@ -1899,7 +1944,7 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
               >
                 <option value="all">Todos os status</option>
                 {uniqueStatuses.map(function (s) {
-                  var info = statusLabels[s] || statusLabels.pending;
+                  var info = getOrderStatusStyle(s);
                   return <option key={s} value={s}>{info.label}</option>;
                 })}
               </select>
@@ -1996,8 +2041,9 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
         <div className="divide-y divide-gray-100">
           {filteredOrders.map(function (order, orderIdx) {
             var isExpanded = expandedOrder === orderIdx;
-            var statusInfo = statusLabels[order.status] || statusLabels.pending;
+            var statusInfo = getOrderStatusStyle(order.status);
             var StatusIcon = statusInfo.icon;
+            var isPaidOrder = isPaidOrderStatus(order.status);
 
             return (
               <div key={"order-" + orderIdx} className="group">
@@ -2007,16 +2053,8 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                   className="w-full px-6 py-4 flex items-center gap-4 hover:bg-gray-50/50 transition-colors cursor-pointer"
                 >
                   {/* Order icon */}
-                  <div className={
-                    "rounded-lg w-10 h-10 flex items-center justify-center shrink-0 " +
-                    (order.status === "paid" ? "bg-green-50" :
-                     order.status === "cancelled" ? "bg-red-50" : "bg-amber-50")
-                  }>
-                    <StatusIcon className={
-                      "w-5 h-5 " +
-                      (order.status === "paid" ? "text-green-600" :
-                       order.status === "cancelled" ? "text-red-400" : "text-amber-500")
-                    } />
+                  <div className={"rounded-lg w-10 h-10 flex items-center justify-center shrink-0 " + statusInfo.bg}>
+                    <StatusIcon className={"w-5 h-5 " + statusInfo.text} />
                   </div>
 
                   {/* Order info */}
@@ -2025,7 +2063,7 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                       <span className="text-gray-900" style={{ fontSize: "0.9rem", fontWeight: 600 }}>
                         {"Pedido #" + (order.localOrderId || order.orderId || "N/A")}
                       </span>
-                      <span className={"px-2 py-0.5 rounded-full border text-xs font-medium " + statusInfo.bg + " " + statusInfo.color}>
+                      <span className={"px-2 py-0.5 rounded-full border text-xs font-medium " + statusInfo.bg + " " + statusInfo.border + " " + statusInfo.text}>
                         {statusInfo.label}
                       </span>
                     </div>
@@ -2087,18 +2125,57 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                           </div>
                         </div>
                       )}
-                      {order.status === "paid" && (
-                        <div className="flex items-center gap-2 bg-green-50 border border-green-200 rounded-lg px-3 py-2 sm:col-span-2">
-                          <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
-                          <p className="text-green-700" style={{ fontSize: "0.82rem", fontWeight: 600 }}>
-                            Pagamento confirmado
+                    </div>
+
+                    {/* Status timeline (order state machine history) */}
+                    {order.statusHistory && order.statusHistory.length > 0 && (
+                      <div className="mb-3">
+                        <OrderStatusTimeline status={order.status} history={order.statusHistory} pickup={!!order.pickup} />
+                      </div>
+                    )}
+
+                    {/* Retire na loja — branch + pickup code once the order is ready */}
+                    {order.pickup && (
+                      <div className="mb-3 bg-teal-50 border border-teal-200 rounded-lg px-4 py-3">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Store className="w-3.5 h-3.5 text-teal-600" />
+                          <p className="text-teal-700" style={{ fontSize: "0.72rem", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.05em" }}>
+                            Retirada na Loja
                           </p>
                         </div>
-                      )}
-                    </div>
+                        <p className="text-gray-800" style={{ fontSize: "0.82rem", fontWeight: 600 }}>{order.pickup.nome}</p>
+                        {order.pickup.endereco && (
+                          <p className="text-gray-600" style={{ fontSize: "0.8rem" }}>{order.pickup.endereco}</p>
+                        )}
+                        {order.pickup.horario && (
+                          <p className="text-gray-500" style={{ fontSize: "0.75rem" }}>{"Horário: " + order.pickup.horario}</p>
+                        )}
+                        {order.pickup.code && !order.pickup.collectedAt ? (
+                          <div className="mt-2 bg-white border border-teal-200 rounded-lg px-3 py-2 text-center">
+                            <p className="text-teal-700" style={{ fontSize: "0.68rem", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.05em" }}>
+                              Código de retirada
+                            </p>
+                            <p className="text-teal-900 font-mono" style={{ fontSize: "1.3rem", fontWeight: 700, letterSpacing: "0.2em" }}>
+                              {order.pickup.code}
+                            </p>
+                            <p className="text-gray-500" style={{ fontSize: "0.7rem" }}>
+                              Apresente este código e um documento com foto no balcão.
+                            </p>
+                          </div>
+                        ) : order.pickup.collectedAt ? (
+                          <p className="mt-1.5 text-teal-700" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+                            {"Retirado em " + new Date(order.pickup.collectedAt).toLocaleDateString("pt-BR")}
+                          </p>
+                        ) : (
+                          <p className="mt-1.5 text-gray-500" style={{ fontSize: "0.75rem" }}>
+                            Você receberá o código de retirada por e-mail quando o pedido estiver separado.
+                          </p>
+                        )}
+                      </div>
+                    )}
 
                     {/* Shipping address */}
-                    {order.shippingAddress && (order.shippingAddress.address || order.shippingAddress.city) && (
+                    {!order.pickup && order.shippingAddress && (order.shippingAddress.address || order.shippingAddress.city) && (
                       <div className="mb-3 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3">
                         <div className="flex items-center gap-2 mb-2">
                           <MapPin className="w-3.5 h-3.5 text-gray-400" />
@@ -2136,7 +2213,7 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                     {/* Shipping option info */}
                     {order.shippingOption && (
                       <div className="mb-3 flex items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg px-4 py-2.5">
-                        <Truck className="w-4 h-4 text-blue-600 shrink-0" />
+                        {order.pickup ? <Store className="w-4 h-4 text-blue-600 shrink-0" /> : <Truck className="w-4 h-4 text-blue-600 shrink-0" />}
                         <div className="flex-1 min-w-0">
                           <span className="text-blue-800" style={{ fontSize: "0.82rem", fontWeight: 600 }}>
                             {order.shippingOption.carrierName}
@@ -2157,7 +2234,7 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                     )}
 
                     {/* Tracking button — show for paid/shipped/registered orders */}
-                    {(order.status === "paid" || order.status === "shipped" || order.status === "sige_registered" || order.status === "confirmed" || order.status === "delivered") && (
+                    {isPaidOrder && !order.pickup && (
                       <div className="mb-3">
                         {trackingOrderId === order.localOrderId ? (
                           <InlineTracking
@@ -2246,11 +2323,19 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                       )}
                     </div>
 
+                    {accessToken && (
+                      <OrderReturnsPanel
+                        order={order}
+                        rmas={rmas.filter(function (r) { return r.orderId === order.localOrderId; })}
+                        accessToken={accessToken}
+                        onRmaChanged={handleRmaChanged}
+                      />
+                    )}
+
                     {/* View product + Avaliar + Rastreio links */}
                     <div className="mt-3 flex items-center justify-between flex-wrap gap-3">
                       <div className="flex items-center gap-3 flex-wrap">
                         {order.items.map(function (item, idx) {
-                          var isPaidOrder = order.status === "paid" || order.status === "shipped" || order.status === "sige_registered" || order.status === "confirmed" || order.status === "delivered";
                           return (
                             <div key={"actions-" + idx} className="flex items-center gap-2">
                               <Link
@@ -2275,7 +2360,7 @@ function OrdersTab({ accessToken }: { accessToken: string | null }) {
                           );
                         })}
                       </div>
-                      {(order.status === "paid" || order.status === "shipped" || order.status === "sige_registered" || order.status === "confirmed" || order.status === "delivered") && (
+                      {isPaidOrder && (
                         <Link
                           to={"/rastreio/" + encodeURIComponent(order.localOrderId)}
                           className="flex items-center gap-1.5 text-green-600 hover:text-green-700 transition-colors"
@@ -2773,6 +2858,7 @@ function FavoritosTab() {
   var { favorites, loading: wlLoading } = useWishlist();
   var [detailsMap, setDetailsMap] = useState<Record<string, any>>({});
   var [loadingDetails, setLoadingDetails] = useState(false);
+  var { alertsBySku, reload: reloadAlerts } = useProductAlertsFor(favorites.map(function (f) { return f.sku; }));
 
   // Load product details for favorites (title, price, stock)
   useEffect(function () {
@@ -2939,6 +3025,14 @@ function FavoritosTab() {
                     <Eye className="w-3.5 h-3.5" />
                     Ver
                   </Link>
+                  <ProductAlertButton
+                    sku={fav.sku}
+                    titulo={fav.titulo}
+                    variant="compact"
+                    currentPrice={priceData && priceData.found ? priceData.price : null}
+                    alerts={alertsBySku[fav.sku]}
+                    onChange={reloadAlerts}
+                  />
                   <WishlistButton sku={fav.sku} titulo={fav.titulo} size="md" />
                 </div>
               </div>
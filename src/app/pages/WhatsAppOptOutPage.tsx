@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router";
+import * as api from "../services/api";
+import { useDocumentMeta } from "../hooks/useDocumentMeta";
+import Loader2 from "lucide-react/dist/esm/icons/loader-circle";
+import MessageCircleOff from "lucide-react/dist/esm/icons/message-circle-off";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle";
+
+/**
+ * Link de descadastro no fim dos disparos de WhatsApp. O token assinado
+ * identifica o telefone; nao precisa de login.
+ */
+export function WhatsAppOptOutPage() {
+  var [searchParams] = useSearchParams();
+  var token = searchParams.get("token") || "";
+  var [state, setState] = useState<"loading" | "done" | "error">("loading");
+  var [error, setError] = useState("");
+
+  useDocumentMeta({
+    title: "Sair das ofertas por WhatsApp - Carretão Auto Peças",
+    description: "Descadastro das ofertas por WhatsApp.",
+  });
+
+  useEffect(function () {
+    if (!token) {
+      setError("Link de descadastro incompleto.");
+      setState("error");
+      return;
+    }
+    var cancelled = false;
+    api.optOutWhatsAppByToken(token).then(function () {
+      if (!cancelled) setState("done");
+    }).catch(function (err: any) {
+      if (cancelled) return;
+      setError(err?.message || "Não foi possível concluir o descadastro.");
+      setState("error");
+    });
+    return function () { cancelled = true; };
+  }, [token]);
+
+  if (state === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 text-red-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (state === "error") {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-amber-50 flex items-center justify-center mx-auto mb-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500" />
+        </div>
+        <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+          Não foi possível descadastrar
+        </h1>
+        <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>{error}</p>
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+          style={{ fontSize: "0.9rem", fontWeight: 600 }}
+        >
+          Ir para a loja
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16 text-center">
+      <div className="w-16 h-16 rounded-full bg-green-50 flex items-center justify-center mx-auto mb-4">
+        <MessageCircleOff className="w-8 h-8 text-green-600" />
+      </div>
+      <h1 className="text-gray-900 mb-2" style={{ fontSize: "1.2rem", fontWeight: 700 }}>
+        Descadastro concluído
+      </h1>
+      <p className="text-gray-500 mb-6" style={{ fontSize: "0.88rem" }}>
+        Você não receberá mais ofertas da Carretão Auto Peças por WhatsApp. Para voltar a receber, marque a opção no seu cadastro em Minha Conta.
+      </p>
+      <Link
+        to="/"
+        className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl transition-colors"
+        style={{ fontSize: "0.9rem", fontWeight: 600 }}
+      >
+        Ir para a loja
+      </Link>
+    </div>
+  );
+}
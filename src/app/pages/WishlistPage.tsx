@@ -5,6 +5,7 @@ import { useWishlist } from "../contexts/WishlistContext";
 import { useCart } from "../contexts/CartContext";
 import { ProductImage } from "../components/ProductImage";
 import { WishlistButton } from "../components/WishlistButton";
+import { ProductAlertButton, useProductAlertsFor } from "../components/ProductAlertButton";
 import * as api from "../services/api";
 
 interface FavoriteWithDetails {
@@ -20,6 +21,7 @@ export function WishlistPage() {
   const { addItem } = useCart();
   const [items, setItems] = useState<FavoriteWithDetails[]>([]);
   const [pricesLoaded, setPricesLoaded] = useState(false);
+  const { alertsBySku, reload: reloadAlerts } = useProductAlertsFor(favorites.map((f) => f.sku));
 
   // Sync items from favorites
   useEffect(() => {
@@ -163,6 +165,14 @@ export function WishlistPage() {
                     <span className="hidden sm:inline">Comprar</span>
                   </button>
                 )}
+                <ProductAlertButton
+                  sku={item.sku}
+                  titulo={item.titulo}
+                  variant="compact"
+                  currentPrice={item.price ?? null}
+                  alerts={alertsBySku[item.sku]}
+                  onChange={reloadAlerts}
+                />
                 <WishlistButton sku={item.sku} titulo={item.titulo} size="md" />
               </div>
             </div>
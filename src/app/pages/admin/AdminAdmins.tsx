@@ -14,37 +14,62 @@ import ChevronUp from "lucide-react/dist/esm/icons/chevron-up.js";
 import Mail from "lucide-react/dist/esm/icons/mail.js";
 import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
 import LogIn from "lucide-react/dist/esm/icons/log-in.js";
+import Clock from "lucide-react/dist/esm/icons/clock.js";
+import Check from "lucide-react/dist/esm/icons/check.js";
+import Ban from "lucide-react/dist/esm/icons/ban.js";
+import KeyRound from "lucide-react/dist/esm/icons/key-round.js";
 import { clearAdminStorage, getValidAdminToken } from "./adminAuth";
 import * as api from "../../services/api";
+import type { AdminAccessLevel, AdminApproval, AdminListEntry, AdminResourceInfo, AdminRole } from "../../services/api";
 
-interface AdminEntry {
-  email: string;
-  isMaster: boolean;
-  permissions: string[];
-}
+const ACCESS_LABELS: Record<AdminAccessLevel, string> = {
+  none: "Sem acesso",
+  read: "Leitura",
+  write: "Leitura e escrita",
+};
 
-const TAB_LABELS: Record<string, string> = {
-  orders: "Pedidos",
-  products: "Produtos",
-  categories: "Categorias",
-  attributes: "Atributos",
-  clients: "Clientes",
-  banners: "Banners",
-  "super-promo": "Super Promo",
-  "api-sige": "API SIGE",
-  paghiper: "PagHiper",
-  mercadopago: "Mercado Pago",
-  shipping: "SisFrete",
-  "sisfrete-wt": "SisFrete WT",
-  ga4: "Analytics",
-  "audit-log": "Log de Alterações",
-  settings: "Configurações",
-  admins: "Administradores",
+const APPROVAL_STATUS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Aguardando", className: "bg-amber-100 text-amber-700" },
+  approving: { label: "Executando", className: "bg-blue-100 text-blue-700" },
+  approved: { label: "Aprovada", className: "bg-green-100 text-green-700" },
+  rejected: { label: "Recusada", className: "bg-red-100 text-red-700" },
+  cancelled: { label: "Cancelada", className: "bg-gray-100 text-gray-600" },
+  failed: { label: "Falhou", className: "bg-red-100 text-red-700" },
+  expired: { label: "Expirada", className: "bg-gray-100 text-gray-500" },
 };
 
+const LEVEL_RANK: Record<AdminAccessLevel, number> = { none: 0, read: 1, write: 2 };
+
+/** Same rule as the server: highest level per resource across the roles */
+function accessFromRoles(roleIds: string[], roles: AdminRole[]): Record<string, AdminAccessLevel> {
+  const acc: Record<string, AdminAccessLevel> = {};
+  roles.forEach((role) => {
+    if (roleIds.indexOf(role.id) === -1) return;
+    Object.keys(role.permissions).forEach((res) => {
+      const lvl = role.permissions[res];
+      if (LEVEL_RANK[lvl] > LEVEL_RANK[acc[res] || "none"]) acc[res] = lvl;
+    });
+  });
+  return acc;
+}
+
+function formatDateTime(ts?: number) {
+  if (!ts) return "-";
+  return new Date(ts).toLocaleString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function newRoleId(name: string, roles: AdminRole[]) {
+  const base = name.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").substring(0, 30) || "papel";
+  let id = base;
+  let n = 2;
+  while (roles.some((r) => r.id === id)) id = base + "-" + n++;
+  return id;
+}
+
 export function AdminAdmins() {
-  const [admins, setAdmins] = useState<AdminEntry[]>([]);
-  const [allTabs, setAllTabs] = useState<string[]>([]);
+  const [admins, setAdmins] = useState<AdminListEntry[]>([]);
+  const [roles, setRoles] = useState<AdminRole[]>([]);
+  const [resources, setResources] = useState<AdminResourceInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -52,14 +77,26 @@ export function AdminAdmins() {
   // Add admin form
   const [showAddForm, setShowAddForm] = useState(false);
   const [newEmail, setNewEmail] = useState("");
-  const [newPerms, setNewPerms] = useState<string[]>([]);
+  const [newRoles, setNewRoles] = useState<string[]>([]);
   const [addLoading, setAddLoading] = useState(false);
 
-  // Expanded admin (for editing permissions)
+  // Expanded admin (for editing roles)
   const [expandedEmail, setExpandedEmail] = useState<string | null>(null);
-  const [editPerms, setEditPerms] = useState<string[]>([]);
+  const [editRoles, setEditRoles] = useState<string[]>([]);
   const [savingPerms, setSavingPerms] = useState(false);
 
+  // Role editor
+  const [showRoles, setShowRoles] = useState(false);
+  const [draftRoles, setDraftRoles] = useState<AdminRole[]>([]);
+  const [editingRoleId, setEditingRoleId] = useState<string | null>(null);
+  const [savingRoles, setSavingRoles] = useState(false);
+
+  // Approval requests (sensitive actions waiting for the master)
+  const [approvals, setApprovals] = useState<AdminApproval[]>([]);
+  const [canApprove, setCanApprove] = useState(false);
+  const [showDecided, setShowDecided] = useState(false);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
   // Removing admin
   const [removingEmail, setRemovingEmail] = useState<string | null>(null);
   const [confirmRemove, setConfirmRemove] = useState<string | null>(null);
@@ -87,11 +124,13 @@ export function AdminAdmins() {
       }
       const data = await api.getAdminList(token);
       setAdmins(data.admins || []);
-      setAllTabs(data.allTabs || []);
+      setRoles(data.roles || []);
+      setResources(data.resources || []);
+      await loadApprovals(token);
     } catch (err: any) {
       var msg = err.message || "Erro ao carregar admins.";
-      if (msg.indexOf("403") >= 0 || msg.indexOf("Forbidden") >= 0) {
-        setError("Acesso negado: apenas o Admin Master pode gerenciar administradores. Voce esta logado como o email master?");
+      if (msg.indexOf("403") >= 0 || msg.indexOf("Forbidden") >= 0 || msg.indexOf("Sem permissao") >= 0) {
+        setError("Acesso negado: seu papel nao permite ver os administradores. Peca ao Admin Master para liberar o recurso \"Administradores e papeis\".");
       } else {
         setError(msg);
       }
@@ -100,10 +139,32 @@ export function AdminAdmins() {
     }
   };
 
+  const loadApprovals = async (token?: string | null) => {
+    try {
+      const t = token || await getToken();
+      if (!t) return;
+      const data = await api.getAdminApprovals(t);
+      setApprovals(data.approvals || []);
+      setCanApprove(!!data.isMaster);
+    } catch (err: any) {
+      console.error("Erro ao carregar aprovacoes:", err);
+    }
+  };
+
   useEffect(() => {
     loadAdmins();
   }, []);
 
+  /** Writes by non-master admins come back as "sent for approval" */
+  const handleActionError = (err: any, fallback: string) => {
+    if (err && err.pendingApproval) {
+      setSuccess(err.message);
+      loadApprovals();
+      return;
+    }
+    setError((err && err.message) || fallback);
+  };
+
   const handleAddAdmin = async () => {
     if (!newEmail.trim()) return;
     setAddLoading(true);
@@ -112,8 +173,7 @@ export function AdminAdmins() {
     try {
       const token = await getToken();
       if (!token) throw new Error("Sessão expirada.");
-      const permsToSend = newPerms.length > 0 ? newPerms : allTabs.filter(function(t) { return t !== "admins"; });
-      const result = await api.manageAdmin(token, "add", newEmail.trim(), permsToSend) as any;
+      const result = await api.manageAdmin(token, "add", newEmail.trim(), undefined, newRoles) as any;
       if (result.userCreated) {
         if (result.emailSent) {
           setSuccess("Admin " + newEmail.trim() + " adicionado! A conta foi criada e o email com link para definir a senha foi enviado com sucesso. Peca para o novo admin verificar a caixa de entrada (e spam).");
@@ -129,11 +189,11 @@ export function AdminAdmins() {
         setSuccess("Admin " + newEmail.trim() + " adicionado com sucesso! O usuario ja tinha conta no sistema e pode fazer login no painel com a mesma senha.");
       }
       setNewEmail("");
-      setNewPerms([]);
+      setNewRoles([]);
       setShowAddForm(false);
       await loadAdmins();
     } catch (err: any) {
-      setError(err.message || "Erro ao adicionar admin.");
+      handleActionError(err, "Erro ao adicionar admin.");
     } finally {
       setAddLoading(false);
     }
@@ -151,7 +211,8 @@ export function AdminAdmins() {
       setConfirmRemove(null);
       await loadAdmins();
     } catch (err: any) {
-      setError(err.message || "Erro ao remover admin.");
+      setConfirmRemove(null);
+      handleActionError(err, "Erro ao remover admin.");
     } finally {
       setRemovingEmail(null);
     }
@@ -164,16 +225,69 @@ export function AdminAdmins() {
     try {
       const token = await getToken();
       if (!token) throw new Error("Sessão expirada.");
-      await api.updateAdminPermissions(token, email, editPerms);
-      setSuccess("Permissões de " + email + " atualizadas!");
+      await api.updateAdminRoles(token, email, editRoles);
+      setSuccess("Papéis de " + email + " atualizados!");
       await loadAdmins();
     } catch (err: any) {
-      setError(err.message || "Erro ao salvar permissões.");
+      handleActionError(err, "Erro ao salvar papéis.");
     } finally {
       setSavingPerms(false);
     }
   };
 
+  const handleSaveRoles = async () => {
+    setSavingRoles(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const token = await getToken();
+      if (!token) throw new Error("Sessão expirada.");
+      const result = await api.saveAdminRoles(token, draftRoles);
+      setRoles(result.roles);
+      setDraftRoles(result.roles);
+      setEditingRoleId(null);
+      setSuccess("Papéis salvos!");
+      await loadAdmins();
+    } catch (err: any) {
+      handleActionError(err, "Erro ao salvar papéis.");
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
+  const handleDecision = async (approval: AdminApproval, approve: boolean) => {
+    var reason = "";
+    if (approve) {
+      if (!confirm("Executar \"" + approval.label + "\" solicitado por " + (approval.requestedBy.email || "?") + "?")) return;
+    } else {
+      var own = !canApprove;
+      var answer = prompt(own ? "Cancelar esta solicitação? Motivo (opcional):" : "Motivo da recusa (opcional):", "");
+      if (answer === null) return;
+      reason = answer;
+    }
+    setDecidingId(approval.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const token = await getToken();
+      if (!token) throw new Error("Sessão expirada.");
+      if (approve) {
+        await api.approveAdminApproval(token, approval.id);
+        setSuccess(approval.label + " aprovado e executado.");
+        await loadAdmins();
+      } else {
+        await api.rejectAdminApproval(token, approval.id, reason);
+        setSuccess(canApprove ? "Solicitação recusada." : "Solicitação cancelada.");
+        await loadApprovals(token);
+      }
+    } catch (err: any) {
+      setError(err.message || "Erro ao processar solicitação.");
+      await loadApprovals();
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
   const handleResendInvite = async (email: string) => {
     setResendingEmail(email);
     setError(null);
@@ -188,51 +302,119 @@ export function AdminAdmins() {
         setError(result.error || "Erro ao reenviar convite.");
       }
     } catch (err: any) {
-      setError(err.message || "Erro ao reenviar email de convite.");
+      handleActionError(err, "Erro ao reenviar email de convite.");
     } finally {
       setResendingEmail(null);
     }
   };
 
-  const toggleExpand = (email: string, currentPerms: string[]) => {
+  const toggleExpand = (email: string, currentRoles: string[]) => {
     if (expandedEmail === email) {
       setExpandedEmail(null);
     } else {
       setExpandedEmail(email);
-      setEditPerms([...currentPerms]);
+      setEditRoles([...currentRoles]);
     }
   };
 
-  const togglePerm = (tab: string, isNew?: boolean) => {
-    if (isNew) {
-      setNewPerms(function(prev) {
-        if (prev.indexOf(tab) >= 0) return prev.filter(function(t) { return t !== tab; });
-        return prev.concat([tab]);
-      });
-    } else {
-      setEditPerms(function(prev) {
-        if (prev.indexOf(tab) >= 0) return prev.filter(function(t) { return t !== tab; });
-        return prev.concat([tab]);
-      });
-    }
+  const toggleRole = (roleId: string, isNew?: boolean) => {
+    var toggle = function(prev: string[]) {
+      if (prev.indexOf(roleId) >= 0) return prev.filter(function(r) { return r !== roleId; });
+      return prev.concat([roleId]);
+    };
+    if (isNew) setNewRoles(toggle);
+    else setEditRoles(toggle);
   };
 
-  const selectAllPerms = (isNew?: boolean) => {
-    if (isNew) {
-      setNewPerms([...allTabs]);
-    } else {
-      setEditPerms([...allTabs]);
-    }
+  const openRoleEditor = () => {
+    setDraftRoles(roles.map((r) => ({ ...r, permissions: { ...r.permissions } })));
+    setEditingRoleId(null);
+    setShowRoles(!showRoles);
   };
 
-  const clearAllPerms = (isNew?: boolean) => {
-    if (isNew) {
-      setNewPerms([]);
-    } else {
-      setEditPerms([]);
+  const updateDraftRole = (id: string, patch: Partial<AdminRole>) => {
+    setDraftRoles((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const setDraftLevel = (id: string, resource: string, level: AdminAccessLevel) => {
+    setDraftRoles((prev) => prev.map((r) => {
+      if (r.id !== id) return r;
+      const permissions = { ...r.permissions };
+      if (level === "none") delete permissions[resource];
+      else permissions[resource] = level;
+      return { ...r, permissions };
+    }));
+  };
+
+  const addDraftRole = () => {
+    const name = prompt("Nome do novo papel:", "");
+    if (!name || !name.trim()) return;
+    const id = newRoleId(name.trim(), draftRoles);
+    setDraftRoles((prev) => prev.concat([{ id, name: name.trim(), description: "", permissions: {} }]));
+    setEditingRoleId(id);
+  };
+
+  const removeDraftRole = (id: string) => {
+    const users = admins.filter((a) => (a.roles || []).indexOf(id) >= 0).map((a) => a.email);
+    if (users.length > 0 && !confirm("Este papel esta atribuido a " + users.join(", ") + ". Remover mesmo assim? Esses admins perdem o acesso dado por ele.")) return;
+    setDraftRoles((prev) => prev.filter((r) => r.id !== id));
+  };
+
+  const roleName = (id: string) => {
+    const role = roles.find((r) => r.id === id);
+    return role ? role.name : id;
+  };
+
+  const renderRolePicker = (selected: string[], isNew?: boolean) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {roles.map(function(role) {
+        var checked = selected.indexOf(role.id) >= 0;
+        return (
+          <label
+            key={role.id}
+            className={"flex items-start gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors " +
+              (checked ? "bg-red-50 border-red-300 text-red-700" : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50")}
+          >
+            <input
+              type="checkbox"
+              checked={checked}
+              onChange={() => toggleRole(role.id, isNew)}
+              className="w-3.5 h-3.5 mt-0.5 rounded text-red-600 focus:ring-red-500"
+            />
+            <span>
+              <span className="block" style={{ fontSize: "0.78rem", fontWeight: 600 }}>{role.name}</span>
+              {role.description && (
+                <span className="block text-gray-500" style={{ fontSize: "0.68rem" }}>{role.description}</span>
+              )}
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+
+  const renderAccessSummary = (access: Record<string, AdminAccessLevel>) => {
+    const granted = resources.filter((r) => access[r.id] && access[r.id] !== "none");
+    if (granted.length === 0) {
+      return <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>Nenhum recurso liberado (so o Dashboard).</p>;
     }
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {granted.map((r) => (
+          <span
+            key={r.id}
+            className={"px-2 py-0.5 rounded-full " + (access[r.id] === "write" ? "bg-green-100 text-green-700" : "bg-blue-100 text-blue-700")}
+            style={{ fontSize: "0.68rem", fontWeight: 500 }}
+          >
+            {r.label}: {access[r.id] === "write" ? "escrita" : "leitura"}
+          </span>
+        ))}
+      </div>
+    );
   };
 
+  const visibleApprovals = approvals.filter((a) => showDecided || a.status === "pending" || a.status === "approving");
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -255,18 +437,28 @@ export function AdminAdmins() {
               Administradores
             </h2>
             <p className="text-gray-500" style={{ fontSize: "0.8rem" }}>
-              Gerencie acessos e permissões do painel
+              Gerencie acessos, papéis e aprovações do painel
             </p>
           </div>
         </div>
+        <div className="flex items-center gap-2">
         <button
-          onClick={() => { setShowAddForm(!showAddForm); setNewEmail(""); setNewPerms([]); }}
+          onClick={openRoleEditor}
+          className="flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-xl transition-colors"
+          style={{ fontSize: "0.85rem", fontWeight: 600 }}
+        >
+          <KeyRound className="w-4 h-4" />
+          Papéis
+        </button>
+        <button
+          onClick={() => { setShowAddForm(!showAddForm); setNewEmail(""); setNewRoles([]); }}
           className="flex items-center gap-2 px-4 py-2.5 bg-red-600 hover:bg-red-700 text-white rounded-xl transition-colors"
           style={{ fontSize: "0.85rem", fontWeight: 600 }}
         >
           <Plus className="w-4 h-4" />
           Novo Admin
         </button>
+        </div>
       </div>
 
       {/* Messages */}
@@ -312,6 +504,189 @@ export function AdminAdmins() {
         </div>
       )}
 
+      {/* Approval requests */}
+      {(approvals.length > 0) && (
+        <div className="mb-6 bg-white border border-amber-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="flex items-center justify-between px-5 py-3 bg-amber-50 border-b border-amber-200">
+            <div className="flex items-center gap-2">
+              <Clock className="w-4 h-4 text-amber-600" />
+              <p className="text-amber-800" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+                {canApprove ? "Aprovações pendentes" : "Minhas solicitações de aprovação"}
+                {" "}({approvals.filter((a) => a.status === "pending").length})
+              </p>
+            </div>
+            <label className="flex items-center gap-1.5 text-amber-700 cursor-pointer" style={{ fontSize: "0.72rem" }}>
+              <input type="checkbox" checked={showDecided} onChange={(e) => setShowDecided(e.target.checked)} className="w-3.5 h-3.5" />
+              Mostrar decididas
+            </label>
+          </div>
+          {visibleApprovals.length === 0 ? (
+            <p className="px-5 py-4 text-gray-400" style={{ fontSize: "0.8rem" }}>Nenhuma solicitação pendente.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {visibleApprovals.map((a) => {
+                const st = APPROVAL_STATUS[a.status] || APPROVAL_STATUS.pending;
+                return (
+                  <div key={a.id} className="px-5 py-3">
+                    <div className="flex items-start gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="text-gray-900" style={{ fontSize: "0.85rem", fontWeight: 600 }}>{a.label}</span>
+                          <span className={"px-2 py-0.5 rounded-full " + st.className} style={{ fontSize: "0.65rem", fontWeight: 600 }}>{st.label}</span>
+                          <code className="text-gray-400" style={{ fontSize: "0.7rem" }}>{a.method} {a.route}{a.query || ""}</code>
+                        </div>
+                        <p className="text-gray-500" style={{ fontSize: "0.72rem" }}>
+                          Solicitado por {a.requestedBy.email || "?"} em {formatDateTime(a.requestedAt)}
+                          {a.decidedBy && <> · decidido por {a.decidedBy} em {formatDateTime(a.decidedAt)}</>}
+                        </p>
+                        {a.reason && <p className="text-gray-600" style={{ fontSize: "0.72rem" }}>Motivo: {a.reason}</p>}
+                        {a.status === "failed" && a.result && (
+                          <p className="text-red-600" style={{ fontSize: "0.72rem" }}>HTTP {a.result.status}: {a.result.body.substring(0, 200)}</p>
+                        )}
+                        {a.bodyPreview && a.bodyPreview !== "null" && (
+                          <details className="mt-1">
+                            <summary className="text-gray-500 cursor-pointer" style={{ fontSize: "0.7rem" }}>Dados enviados</summary>
+                            <pre className="mt-1 bg-gray-50 border border-gray-200 rounded-lg p-2 overflow-auto max-h-48 text-gray-700" style={{ fontSize: "0.68rem" }}>{a.bodyPreview}</pre>
+                          </details>
+                        )}
+                      </div>
+                      {a.status === "pending" && (
+                        <div className="flex items-center gap-1.5 shrink-0">
+                          {canApprove && (
+                            <button
+                              onClick={() => handleDecision(a, true)}
+                              disabled={decidingId === a.id}
+                              className="flex items-center gap-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white rounded-lg"
+                              style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                            >
+                              {decidingId === a.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                              Aprovar
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDecision(a, false)}
+                            disabled={decidingId === a.id}
+                            className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 rounded-lg"
+                            style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                          >
+                            <Ban className="w-3.5 h-3.5" />
+                            {canApprove ? "Recusar" : "Cancelar"}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Role editor */}
+      {showRoles && (
+        <div className="mb-6 bg-white border border-gray-200 rounded-2xl p-6 shadow-sm">
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-gray-900" style={{ fontSize: "1rem", fontWeight: 600 }}>Papéis</h3>
+            <button onClick={addDraftRole} className="flex items-center gap-1 text-blue-600 hover:underline" style={{ fontSize: "0.78rem" }}>
+              <Plus className="w-3.5 h-3.5" />
+              Novo papel
+            </button>
+          </div>
+          <p className="text-gray-500 mb-4" style={{ fontSize: "0.75rem" }}>
+            Cada papel define leitura ou escrita por recurso. O servidor confere a permissão em cada rota; um admin com vários papéis recebe o maior nível de cada recurso.
+            Reembolsos, configuração de pagamentos e de preços e a gestão de admins feitos por quem não é master ficam aguardando aprovação.
+          </p>
+          <div className="space-y-2 mb-4">
+            {draftRoles.map((role) => {
+              const editing = editingRoleId === role.id;
+              return (
+                <div key={role.id} className="border border-gray-200 rounded-xl">
+                  <div className="flex items-center gap-3 px-4 py-2.5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-900" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+                        {role.name} <code className="text-gray-400" style={{ fontSize: "0.68rem", fontWeight: 400 }}>{role.id}</code>
+                      </p>
+                      {!editing && renderAccessSummary(role.permissions)}
+                    </div>
+                    <button
+                      onClick={() => setEditingRoleId(editing ? null : role.id)}
+                      className="flex items-center gap-1 px-2 py-1 text-gray-600 hover:bg-gray-100 rounded-lg"
+                      style={{ fontSize: "0.75rem" }}
+                    >
+                      {editing ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      Editar
+                    </button>
+                    <button onClick={() => removeDraftRole(role.id)} className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg" title="Remover papel">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {editing && (
+                    <div className="border-t border-gray-100 px-4 py-3 bg-gray-50/50 space-y-3">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <input
+                          value={role.name}
+                          onChange={(e) => updateDraftRole(role.id, { name: e.target.value })}
+                          placeholder="Nome"
+                          className="px-3 py-2 border border-gray-300 rounded-lg outline-none focus:border-red-500"
+                          style={{ fontSize: "0.8rem" }}
+                        />
+                        <input
+                          value={role.description || ""}
+                          onChange={(e) => updateDraftRole(role.id, { description: e.target.value })}
+                          placeholder="Descrição"
+                          className="px-3 py-2 border border-gray-300 rounded-lg outline-none focus:border-red-500"
+                          style={{ fontSize: "0.8rem" }}
+                        />
+                      </div>
+                      <table className="w-full">
+                        <tbody className="divide-y divide-gray-100">
+                          {resources.map((res) => (
+                            <tr key={res.id}>
+                              <td className="py-1.5 text-gray-700" style={{ fontSize: "0.78rem" }}>{res.label}</td>
+                              <td className="py-1.5 text-right">
+                                <select
+                                  value={role.permissions[res.id] || "none"}
+                                  onChange={(e) => setDraftLevel(role.id, res.id, e.target.value as AdminAccessLevel)}
+                                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                                  style={{ fontSize: "0.75rem" }}
+                                >
+                                  {(["none", "read", "write"] as AdminAccessLevel[]).map((lvl) => (
+                                    <option key={lvl} value={lvl}>{ACCESS_LABELS[lvl]}</option>
+                                  ))}
+                                </select>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSaveRoles}
+              disabled={savingRoles}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white rounded-xl transition-colors"
+              style={{ fontSize: "0.8rem", fontWeight: 600 }}
+            >
+              {savingRoles ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Salvar Papéis
+            </button>
+            <button
+              onClick={() => setShowRoles(false)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 border border-gray-300 rounded-xl"
+              style={{ fontSize: "0.8rem" }}
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Add Admin Form */}
       {showAddForm && (
         <div className="mb-6 bg-white border border-gray-200 rounded-2xl p-6 shadow-sm">
@@ -340,45 +715,13 @@ export function AdminAdmins() {
           </div>
 
           <div className="mb-5">
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-gray-700" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
-                Permissões de abas
-              </label>
-              <div className="flex gap-2">
-                <button onClick={() => selectAllPerms(true)} className="text-blue-600 hover:underline" style={{ fontSize: "0.7rem" }}>
-                  Marcar todas
-                </button>
-                <span className="text-gray-300">|</span>
-                <button onClick={() => clearAllPerms(true)} className="text-blue-600 hover:underline" style={{ fontSize: "0.7rem" }}>
-                  Desmarcar todas
-                </button>
-              </div>
-            </div>
-            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-              {allTabs.map(function(tab) {
-                var checked = newPerms.indexOf(tab) >= 0;
-                return (
-                  <label
-                    key={tab}
-                    className={"flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors " +
-                      (checked ? "bg-red-50 border-red-300 text-red-700" : "bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100")}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={checked}
-                      onChange={() => togglePerm(tab, true)}
-                      className="w-3.5 h-3.5 rounded text-red-600 focus:ring-red-500"
-                    />
-                    <span style={{ fontSize: "0.75rem", fontWeight: 500 }}>
-                      {TAB_LABELS[tab] || tab}
-                    </span>
-                  </label>
-                );
-              })}
-            </div>
-            {newPerms.length === 0 && (
+            <label className="block text-gray-700 mb-2" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+              Papéis
+            </label>
+            {renderRolePicker(newRoles, true)}
+            {newRoles.length === 0 && (
               <p className="text-amber-600 mt-1.5" style={{ fontSize: "0.7rem" }}>
-                Se nenhuma aba for selecionada, todas (exceto Admins) serão concedidas por padrão
+                Selecione ao menos um papel
               </p>
             )}
           </div>
@@ -386,7 +729,7 @@ export function AdminAdmins() {
           <div className="flex items-center gap-3">
             <button
               onClick={handleAddAdmin}
-              disabled={addLoading || !newEmail.trim()}
+              disabled={addLoading || !newEmail.trim() || newRoles.length === 0}
               className="flex items-center gap-2 px-5 py-2.5 bg-red-600 hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-xl transition-colors"
               style={{ fontSize: "0.85rem", fontWeight: 600 }}
             >
@@ -440,8 +783,10 @@ export function AdminAdmins() {
                   </div>
                   <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>
                     {admin.isMaster
-                      ? "Acesso total a todas as abas"
-                      : admin.permissions.length + " aba(s) liberada(s)"
+                      ? "Acesso total; aprova as ações sensíveis dos outros admins"
+                      : admin.legacy
+                        ? "Sem papel (formato antigo: " + admin.permissions.length + " aba(s) com escrita)"
+                        : (admin.roles || []).map(roleName).join(", ") || "Nenhum papel"
                     }
                   </p>
                 </div>
@@ -461,7 +806,7 @@ export function AdminAdmins() {
                         }
                       </button>
                       <button
-                        onClick={() => toggleExpand(admin.email, admin.permissions)}
+                        onClick={() => toggleExpand(admin.email, admin.roles || [])}
                         className="flex items-center gap-1.5 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
                         style={{ fontSize: "0.8rem" }}
                       >
@@ -502,42 +847,17 @@ export function AdminAdmins() {
               {/* Expanded Permissions */}
               {isExpanded && !admin.isMaster && (
                 <div className="border-t border-gray-100 p-5 bg-gray-50/50">
-                  <div className="flex items-center justify-between mb-3">
-                    <p className="text-gray-700" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
-                      Abas liberadas para {admin.email}
+                  <p className="text-gray-700 mb-3" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                    Papéis de {admin.email}
+                  </p>
+                  {admin.legacy && (
+                    <p className="text-amber-600 mb-3" style={{ fontSize: "0.72rem" }}>
+                      Este admin ainda usa a lista de abas antiga (escrita em tudo que as abas cobrem). Ao salvar papéis, a lista antiga deixa de valer.
                     </p>
-                    <div className="flex gap-2">
-                      <button onClick={() => selectAllPerms()} className="text-blue-600 hover:underline" style={{ fontSize: "0.7rem" }}>
-                        Todas
-                      </button>
-                      <span className="text-gray-300">|</span>
-                      <button onClick={() => clearAllPerms()} className="text-blue-600 hover:underline" style={{ fontSize: "0.7rem" }}>
-                        Nenhuma
-                      </button>
-                    </div>
-                  </div>
-                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
-                    {allTabs.map(function(tab) {
-                      var checked = editPerms.indexOf(tab) >= 0;
-                      return (
-                        <label
-                          key={tab}
-                          className={"flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors " +
-                            (checked ? "bg-red-50 border-red-300 text-red-700" : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50")}
-                        >
-                          <input
-                            type="checkbox"
-                            checked={checked}
-                            onChange={() => togglePerm(tab)}
-                            className="w-3.5 h-3.5 rounded text-red-600 focus:ring-red-500"
-                          />
-                          <span style={{ fontSize: "0.75rem", fontWeight: 500 }}>
-                            {TAB_LABELS[tab] || tab}
-                          </span>
-                        </label>
-                      );
-                    })}
-                  </div>
+                  )}
+                  <div className="mb-3">{renderRolePicker(editRoles)}</div>
+                  <p className="text-gray-500 mb-1.5" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Acesso resultante</p>
+                  <div className="mb-4">{renderAccessSummary(accessFromRoles(editRoles, roles))}</div>
                   <div className="flex items-center gap-3">
                     <button
                       onClick={() => handleSavePermissions(admin.email)}
@@ -546,7 +866,7 @@ export function AdminAdmins() {
                       style={{ fontSize: "0.8rem", fontWeight: 600 }}
                     >
                       {savingPerms ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-                      Salvar Permissões
+                      Salvar Papéis
                     </button>
                     <button
                       onClick={() => setExpandedEmail(null)}
@@ -577,7 +897,8 @@ export function AdminAdmins() {
           <li>O <strong>Admin Master</strong> tem acesso irrevogavel a todas as abas.</li>
           <li>Ao adicionar um email que <strong>ja tem conta</strong>, a pessoa pode fazer login imediatamente com a mesma senha.</li>
           <li>Ao adicionar um email <strong>sem conta</strong>, uma conta e criada automaticamente e um email com link para definir a senha e enviado (requer SMTP configurado).</li>
-          <li>Outros admins podem ter acesso restrito a abas especificas.</li>
+          <li>Outros admins recebem <strong>papeis</strong> (ex.: Atendimento, Catalogo, Financeiro) com leitura ou escrita por recurso, conferidos pelo servidor em cada rota.</li>
+          <li>Reembolsos, configuracao de pagamentos e de precos e a gestao de admins feitos por outros admins so executam depois da aprovacao do Admin Master.</li>
           <li>Remover um admin revoga imediatamente o acesso ao painel.</li>
         </ul>
       </div>
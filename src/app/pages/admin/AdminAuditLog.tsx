@@ -3,7 +3,7 @@ import * as api from "../../services/api";
 import type { AuditLogEntry } from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
-import { ScrollText, LogIn, LogOut, Settings, Shield, Trash2, Search, Filter, Loader2, RefreshCw, AlertTriangle, Clock, User, Monitor, ChevronDown, ChevronUp } from "lucide-react";
+import { ScrollText, LogIn, LogOut, Settings, Shield, Trash2, Search, Filter, Loader2, RefreshCw, AlertTriangle, Clock, User, Monitor, ChevronDown, ChevronUp, Plus, Pencil, RotateCcw, Database, Globe, X } from "lucide-react";
 
 const ACTION_CONFIG: Record<string, { label: string; icon: typeof LogIn; color: string; bg: string }> = {
   login: { label: "Login", icon: LogIn, color: "text-green-600", bg: "bg-green-50" },
@@ -15,10 +15,44 @@ const ACTION_CONFIG: Record<string, { label: string; icon: typeof LogIn; color:
   unknown: { label: "Ação", icon: ScrollText, color: "text-gray-600", bg: "bg-gray-100" },
 };
 
+// Entries recorded by the server middleware, by HTTP method
+const METHOD_CONFIG: Record<string, { label: string; icon: typeof LogIn; color: string; bg: string }> = {
+  POST: { label: "Criação/Ação", icon: Plus, color: "text-emerald-600", bg: "bg-emerald-50" },
+  PUT: { label: "Alteração", icon: Pencil, color: "text-indigo-600", bg: "bg-indigo-50" },
+  PATCH: { label: "Alteração", icon: Pencil, color: "text-indigo-600", bg: "bg-indigo-50" },
+  DELETE: { label: "Exclusão", icon: Trash2, color: "text-red-600", bg: "bg-red-50" },
+};
+
+const CHANGE_OP_LABELS: Record<string, { label: string; className: string }> = {
+  create: { label: "criado", className: "bg-emerald-100 text-emerald-700" },
+  update: { label: "alterado", className: "bg-indigo-100 text-indigo-700" },
+  delete: { label: "removido", className: "bg-red-100 text-red-700" },
+};
+
 function getActionConfig(action: string) {
   return ACTION_CONFIG[action] || ACTION_CONFIG.unknown;
 }
 
+function getEntryConfig(log: AuditLogEntry) {
+  if (log.source === "server") return METHOD_CONFIG[log.method || ""] || ACTION_CONFIG.unknown;
+  return getActionConfig(log.action);
+}
+
+/** Filter bucket: panel events by action, server entries by method */
+function filterKey(log: AuditLogEntry): string {
+  return log.source === "server" ? "server:" + (log.method || "") : log.action;
+}
+
+function formatDiffValue(v: any): string {
+  if (v === undefined) return "";
+  if (typeof v === "string") return v;
+  return JSON.stringify(v);
+}
+
+function canRevert(log: AuditLogEntry): boolean {
+  return log.source === "server" && !log.revertedAt && !!log.changes && log.changes.length > 0 && log.changes.every((ch) => ch.revertible);
+}
+
 function formatTimestamp(ts: number | string) {
   try {
     const d = new Date(typeof ts === "string" ? ts : ts);
@@ -57,6 +91,10 @@ export function AdminAuditLog() {
   const [clearConfirm, setClearConfirm] = useState(false);
   const [clearing, setClearing] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [entityFilter, setEntityFilter] = useState("");
+  const [entityInput, setEntityInput] = useState("");
+  const [reverting, setReverting] = useState<string | null>(null);
+  const [revertError, setRevertError] = useState<{ id: string; message: string; pending?: boolean } | null>(null);
 
   const getToken = async (): Promise<string | null> => {
     try {
@@ -66,7 +104,7 @@ export function AdminAuditLog() {
     }
   };
 
-  const loadLogs = async () => {
+  const loadLogs = async (entity: string = entityFilter) => {
     setLoading(true);
     setError(null);
     try {
@@ -75,7 +113,7 @@ export function AdminAuditLog() {
         setError("Sessão expirada. Faça login novamente.");
         return;
       }
-      const result = await api.getAuditLogs(token);
+      const result = await api.getAuditLogs(token, entity || undefined);
       setLogs(result.logs || []);
     } catch (e: any) {
       console.error("Erro ao carregar logs de auditoria:", e);
@@ -89,6 +127,34 @@ export function AdminAuditLog() {
     loadLogs();
   }, []);
 
+  const applyEntityFilter = (entity: string) => {
+    const value = entity.trim();
+    setEntityInput(value);
+    setEntityFilter(value);
+    setExpandedId(null);
+    loadLogs(value);
+  };
+
+  const handleRevert = async (log: AuditLogEntry, force: boolean) => {
+    const question = force
+      ? "As chaves foram alteradas depois deste registro. Forçar a reversão vai sobrescrever essas alterações. Continuar?"
+      : `Reverter ${log.action}? Os valores anteriores de ${(log.entities || []).join(", ")} serão restaurados.`;
+    if (!confirm(question)) return;
+    setReverting(log.id);
+    setRevertError(null);
+    try {
+      const token = await getToken();
+      if (!token) return;
+      await api.revertAuditLog(token, log.id, force);
+      await loadLogs();
+    } catch (e: any) {
+      // Non-master admins: the revert waits for the master's approval
+      setRevertError({ id: log.id, message: e.message || "Erro ao reverter.", pending: !!e.pendingApproval });
+    } finally {
+      setReverting(null);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     try {
       const token = await getToken();
@@ -108,7 +174,7 @@ export function AdminAuditLog() {
       const token = await getToken();
       if (!token) return;
       await api.clearAuditLogs(token);
-      setLogs([]);
+      setLogs((prev) => prev.filter((l) => l.source === "server"));
       setClearConfirm(false);
     } catch (e: any) {
       console.error("Erro ao limpar logs:", e);
@@ -118,7 +184,7 @@ export function AdminAuditLog() {
   };
 
   // Unique actions for filter
-  const uniqueActions = useMemo(() => Array.from(new Set(logs.map((l) => l.action))), [logs]);
+  const uniqueActions = useMemo(() => Array.from(new Set(logs.map(filterKey))), [logs]);
 
   const filteredLogs = useMemo(() => logs.filter((l) => {
     const matchSearch =
@@ -127,7 +193,7 @@ export function AdminAuditLog() {
       l.userName.toLowerCase().includes(searchQuery.toLowerCase()) ||
       l.action.toLowerCase().includes(searchQuery.toLowerCase()) ||
       (l.details || "").toLowerCase().includes(searchQuery.toLowerCase());
-    const matchAction = filterAction === "all" || l.action === filterAction;
+    const matchAction = filterAction === "all" || filterKey(l) === filterAction;
     return matchSearch && matchAction;
   }), [logs, searchQuery, filterAction]);
 
@@ -168,7 +234,7 @@ export function AdminAuditLog() {
         </div>
         <div className="flex items-center gap-2">
           <button
-            onClick={loadLogs}
+            onClick={() => loadLogs()}
             className="flex items-center gap-1.5 text-gray-500 hover:text-red-600 border border-gray-200 px-3 py-2 rounded-lg transition-colors"
             style={{ fontSize: "0.8rem" }}
           >
@@ -267,6 +333,27 @@ export function AdminAuditLog() {
               style={{ fontSize: "0.85rem" }}
             />
           </div>
+          <div className="relative sm:w-64">
+            <Database className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={entityInput}
+              onChange={(e) => setEntityInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && applyEntityFilter(entityInput)}
+              placeholder="Entidade (ex: product:123)"
+              className="w-full pl-10 pr-8 py-2.5 bg-gray-50 border border-gray-200 rounded-lg outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 transition-all font-mono"
+              style={{ fontSize: "0.8rem" }}
+            />
+            {entityFilter && (
+              <button
+                onClick={() => applyEntityFilter("")}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-red-600"
+                title="Limpar filtro de entidade"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
           <div className="flex items-center gap-2 flex-wrap">
             <Filter className="w-4 h-4 text-gray-400 shrink-0" />
             <button
@@ -281,7 +368,9 @@ export function AdminAuditLog() {
               Todos
             </button>
             {uniqueActions.map((action) => {
-              const cfg = getActionConfig(action);
+              const cfg = action.indexOf("server:") === 0
+                ? METHOD_CONFIG[action.substring(7)] || ACTION_CONFIG.unknown
+                : getActionConfig(action);
               return (
                 <button
                   key={action}
@@ -311,16 +400,16 @@ export function AdminAuditLog() {
                 ? "Nenhum registro de atividade ainda"
                 : "Nenhum resultado encontrado"}
             </p>
-            {logs.length === 0 && (
+            {logs.length === 0 && !entityFilter && (
               <p className="text-gray-400 mt-1" style={{ fontSize: "0.8rem" }}>
-                Os logins e logouts serão registrados automaticamente
+                Logins, logouts e alterações feitas no painel ou pela API são registrados automaticamente
               </p>
             )}
           </div>
         ) : (
           <div className="divide-y divide-gray-100">
             {filteredLogs.map((log) => {
-              const cfg = getActionConfig(log.action);
+              const cfg = getEntryConfig(log);
               const IconComp = cfg.icon;
               const isExpanded = expandedId === log.id;
 
@@ -347,6 +436,21 @@ export function AdminAuditLog() {
                         <span className="text-gray-700 truncate" style={{ fontSize: "0.88rem", fontWeight: 500 }}>
                           {log.email || log.userName || "Admin"}
                         </span>
+                        {log.route && (
+                          <span className="text-gray-400 font-mono truncate" style={{ fontSize: "0.72rem" }}>
+                            {log.method} {log.route}
+                          </span>
+                        )}
+                        {log.revertedAt && (
+                          <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700" style={{ fontSize: "0.68rem", fontWeight: 600 }}>
+                            Revertido
+                          </span>
+                        )}
+                        {log.revertOf && (
+                          <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600" style={{ fontSize: "0.68rem", fontWeight: 600 }}>
+                            Reversão
+                          </span>
+                        )}
                       </div>
                       {log.details && (
                         <p className="text-gray-500 truncate" style={{ fontSize: "0.8rem" }}>
@@ -407,6 +511,110 @@ export function AdminAuditLog() {
                             </p>
                           </div>
                         )}
+                        {log.source === "server" && (
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div className="flex items-center gap-2">
+                              <Globe className="w-3.5 h-3.5 text-gray-400" />
+                              <span className="text-gray-500" style={{ fontSize: "0.78rem" }}>IP:</span>
+                              <span className="text-gray-700 font-mono" style={{ fontSize: "0.78rem" }}>{log.ip || "-"}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <ScrollText className="w-3.5 h-3.5 text-gray-400" />
+                              <span className="text-gray-500" style={{ fontSize: "0.78rem" }}>Rota:</span>
+                              <span className="text-gray-700 font-mono truncate" style={{ fontSize: "0.78rem" }}>
+                                {log.method} {log.route} → {log.status}
+                              </span>
+                            </div>
+                          </div>
+                        )}
+                        {log.changes && log.changes.length > 0 && (
+                          <div className="space-y-2">
+                            {log.changes.map((ch) => {
+                              const op = CHANGE_OP_LABELS[ch.op] || CHANGE_OP_LABELS.update;
+                              return (
+                                <div key={ch.key} className="bg-white border border-gray-200 rounded-lg">
+                                  <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-100 flex-wrap">
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        applyEntityFilter(ch.key);
+                                      }}
+                                      className="text-gray-700 hover:text-red-600 font-mono"
+                                      style={{ fontSize: "0.78rem", fontWeight: 600 }}
+                                      title="Ver historico desta entidade"
+                                    >
+                                      {ch.key}
+                                    </button>
+                                    <span className={`px-2 py-0.5 rounded-full ${op.className}`} style={{ fontSize: "0.65rem", fontWeight: 600 }}>
+                                      {op.label}
+                                    </span>
+                                    {ch.note && (
+                                      <span className="text-amber-600" style={{ fontSize: "0.7rem" }}>{ch.note}</span>
+                                    )}
+                                  </div>
+                                  {ch.diff.length > 0 && (
+                                    <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                                      <table className="w-full text-left" style={{ fontSize: "0.72rem" }}>
+                                        <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                                          <tr>
+                                            <th className="px-3 py-1.5 font-medium">Campo</th>
+                                            <th className="px-3 py-1.5 font-medium">Antes</th>
+                                            <th className="px-3 py-1.5 font-medium">Depois</th>
+                                          </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-100 font-mono">
+                                          {ch.diff.map((d, i) => (
+                                            <tr key={i}>
+                                              <td className="px-3 py-1 text-gray-600 align-top">{d.path}</td>
+                                              <td className="px-3 py-1 text-red-700 bg-red-50/40 align-top break-all">{formatDiffValue(d.before)}</td>
+                                              <td className="px-3 py-1 text-emerald-700 bg-emerald-50/40 align-top break-all">{formatDiffValue(d.after)}</td>
+                                            </tr>
+                                          ))}
+                                        </tbody>
+                                      </table>
+                                      {ch.diffTruncated && (
+                                        <p className="text-gray-400 px-3 py-1" style={{ fontSize: "0.68rem" }}>... diff truncado</p>
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            })}
+                            {!!log.truncatedKeys && (
+                              <p className="text-amber-600" style={{ fontSize: "0.72rem" }}>
+                                + {log.truncatedKeys} chave(s) alterada(s) sem registro de valores (limite por requisição)
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        {log.revertedAt && (
+                          <p className="text-amber-700" style={{ fontSize: "0.75rem" }}>
+                            Revertido em {formatTimestamp(log.revertedAt)}{log.revertedBy ? ` por ${log.revertedBy}` : ""}
+                          </p>
+                        )}
+                        {log.revertOf && (
+                          <p className="text-gray-500" style={{ fontSize: "0.75rem" }}>
+                            Reversão do registro <code className="bg-gray-100 px-1 rounded">{log.revertOf}</code>
+                          </p>
+                        )}
+                        {revertError && revertError.id === log.id && (
+                          <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                            <AlertTriangle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+                            <p className="text-red-700 flex-1" style={{ fontSize: "0.78rem" }}>{revertError.message}</p>
+                            {!revertError.pending && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRevert(log, true);
+                              }}
+                              className="text-red-700 hover:text-red-900 underline shrink-0"
+                              style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                            >
+                              Forçar reversão
+                            </button>
+                            )}
+                          </div>
+                        )}
                         {log.userAgent && (
                           <div className="flex items-start gap-2">
                             <Monitor className="w-3.5 h-3.5 text-gray-400 mt-0.5 shrink-0" />
@@ -415,18 +623,34 @@ export function AdminAuditLog() {
                             </p>
                           </div>
                         )}
-                        <div className="flex justify-end pt-1">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setDeleteConfirmId(log.id);
-                            }}
-                            className="flex items-center gap-1.5 text-gray-400 hover:text-red-600 transition-colors px-2 py-1 rounded"
-                            style={{ fontSize: "0.78rem" }}
-                          >
-                            <Trash2 className="w-3.5 h-3.5" />
-                            Excluir
-                          </button>
+                        <div className="flex justify-end gap-2 pt-1">
+                          {canRevert(log) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRevert(log, false);
+                              }}
+                              disabled={reverting === log.id}
+                              className="flex items-center gap-1.5 text-gray-500 hover:text-amber-700 transition-colors px-2 py-1 rounded disabled:opacity-50"
+                              style={{ fontSize: "0.78rem" }}
+                            >
+                              {reverting === log.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                              Reverter alteração
+                            </button>
+                          )}
+                          {log.source !== "server" && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setDeleteConfirmId(log.id);
+                              }}
+                              className="flex items-center gap-1.5 text-gray-400 hover:text-red-600 transition-colors px-2 py-1 rounded"
+                              style={{ fontSize: "0.78rem" }}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                              Excluir
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -506,7 +730,7 @@ export function AdminAuditLog() {
               className="text-center text-gray-500 mb-5"
               style={{ fontSize: "0.85rem" }}
             >
-              Todos os {logs.length} registros serão removidos permanentemente.
+              Os registros de login/logout serão removidos permanentemente. Alterações registradas pelo servidor são mantidas.
             </p>
             <div className="flex gap-3">
               <button
@@ -17,6 +17,7 @@ import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
 import ChevronUp from "lucide-react/dist/esm/icons/chevron-up.js";
 import X from "lucide-react/dist/esm/icons/x.js";
 import ExternalLink from "lucide-react/dist/esm/icons/external-link.js";
+import Store from "lucide-react/dist/esm/icons/store.js";
 import * as api from "../../services/api";
 import type { Branch } from "../../services/api";
 import { getValidAdminToken } from "./adminAuth";
@@ -46,6 +47,8 @@ interface BranchForm {
   active: boolean;
   order: number;
   mapQuery: string;
+  sigeCodFilial: string;
+  pickupEnabled: boolean;
   imageUrl: string;
   file: File | null;
   preview: string | null;
@@ -67,6 +70,8 @@ function branchToForm(b: Branch, expanded?: boolean): BranchForm {
     active: b.active !== false,
     order: b.order || 0,
     mapQuery: b.mapQuery || "",
+    sigeCodFilial: b.sigeCodFilial || "",
+    pickupEnabled: b.pickupEnabled === true,
     imageUrl: b.imageUrl || "",
     file: null,
     preview: null,
@@ -89,6 +94,8 @@ function newBranchForm(order: number): BranchForm {
     active: true,
     order: order,
     mapQuery: "",
+    sigeCodFilial: "",
+    pickupEnabled: false,
     imageUrl: "",
     file: null,
     preview: null,
@@ -165,6 +172,10 @@ export function AdminBranches() {
       showToast("error", "Nome da filial e obrigatorio");
       return;
     }
+    if (branch.pickupEnabled && !branch.sigeCodFilial.trim()) {
+      showToast("error", "Informe o codigo da filial no SIGE para habilitar a retirada na loja");
+      return;
+    }
 
     updateField(id, "saving", true);
     try {
@@ -180,6 +191,8 @@ export function AdminBranches() {
       fd.append("active", branch.active ? "true" : "false");
       fd.append("order", String(branch.order));
       fd.append("mapQuery", branch.mapQuery.trim());
+      fd.append("sigeCodFilial", branch.sigeCodFilial.trim());
+      fd.append("pickupEnabled", branch.pickupEnabled ? "true" : "false");
       if (branch.file) {
         fd.append("image", branch.file);
       }
@@ -507,7 +520,38 @@ export function AdminBranches() {
                       </div>
                     </div>
 
-                    {/* Row 4: Google Maps Query */}
+                    {/* Row 4: Retire na loja (click & collect) */}
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                      <div>
+                        <label className="block text-gray-600 mb-1" style={{ fontSize: "0.75rem", fontWeight: 600 }}>
+                          Codigo da Filial no SIGE
+                        </label>
+                        <input
+                          type="text"
+                          value={branch.sigeCodFilial}
+                          onChange={function (e) { updateField(branch.id, "sigeCodFilial", e.target.value); }}
+                          placeholder="Ex: 1"
+                          className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-100 focus:border-red-300"
+                          style={{ fontSize: "0.85rem" }}
+                        />
+                      </div>
+                      <div className="sm:col-span-2">
+                        <label className="flex items-center gap-2 cursor-pointer py-2">
+                          <input
+                            type="checkbox"
+                            checked={branch.pickupEnabled}
+                            onChange={function (e) { updateField(branch.id, "pickupEnabled", e.target.checked); }}
+                            className="accent-teal-500"
+                          />
+                          <span className="text-gray-600" style={{ fontSize: "0.8rem", fontWeight: 500 }}>
+                            <Store className="w-3.5 h-3.5 inline text-teal-600 mr-1" />
+                            Oferecer "Retire na loja" (quando todos os itens tiverem saldo nesta filial)
+                          </span>
+                        </label>
+                      </div>
+                    </div>
+
+                    {/* Row 5: Google Maps Query */}
                     <div>
                       <label className="block text-gray-600 mb-1" style={{ fontSize: "0.75rem", fontWeight: 600 }}>
                         <MapPin className="w-3.5 h-3.5 inline mr-1" />
@@ -555,7 +599,7 @@ export function AdminBranches() {
                       )}
                     </div>
 
-                    {/* Row 5: Photo */}
+                    {/* Row 6: Photo */}
                     <div>
                       <label className="block text-gray-600 mb-1" style={{ fontSize: "0.75rem", fontWeight: 600 }}>
                         <ImageIcon className="w-3.5 h-3.5 inline mr-1" />
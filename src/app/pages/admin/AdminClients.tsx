@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from "react";
-import { Users, Search, Loader2, RefreshCw, Mail, Phone, MapPin, CreditCard, CheckCircle2, XCircle, ChevronDown, ChevronUp, Calendar, Clock, Download, X, User, Shield } from "lucide-react";
+import { Users, Search, Loader2, RefreshCw, Mail, Phone, MapPin, CreditCard, CheckCircle2, XCircle, ChevronDown, ChevronUp, Calendar, Clock, Download, X, User, Shield, Tags, Plus, Trash2, Save, Building2 } from "lucide-react";
 import * as api from "../../services/api";
-import type { ClientProfile } from "../../services/api";
+import type { ClientProfile, PriceTierGroup, PriceTierId } from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
 
@@ -12,6 +12,12 @@ function formatCpf(cpf: string): string {
   return `${d.slice(0, 3)}.${d.slice(3, 6)}.${d.slice(6, 9)}-${d.slice(9)}`;
 }
 
+function formatCnpj(cnpj: string): string {
+  const d = cnpj.replace(/\D/g, "");
+  if (d.length !== 14) return cnpj;
+  return `${d.slice(0, 2)}.${d.slice(2, 5)}.${d.slice(5, 8)}/${d.slice(8, 12)}-${d.slice(12)}`;
+}
+
 function formatPhone(phone: string): string {
   const d = phone.replace(/\D/g, "");
   if (d.length === 11) return `(${d.slice(0, 2)}) ${d.slice(2, 7)}-${d.slice(7)}`;
@@ -64,6 +70,25 @@ export function AdminClients() {
   const [sortField, setSortField] = useState<SortField>("created_at");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [tierGroups, setTierGroups] = useState<PriceTierGroup[]>([]);
+  const [globalTier, setGlobalTier] = useState<PriceTierId>("v2");
+
+  const loadTierGroups = async () => {
+    try {
+      const token = await getValidAdminToken();
+      if (!token) return;
+      const result = await api.getAdminPriceTiers(token);
+      setTierGroups(result.groups || []);
+      setGlobalTier(result.globalTier || "v2");
+    } catch (err: any) {
+      console.error("Error loading price tiers:", err);
+    }
+  };
+
+  const handleClientTierSaved = (clientId: string, priceTier: PriceTierId | null, priceGroupId: string | null) => {
+    setClients((prev) => prev.map((c) => (c.id === clientId ? { ...c, priceTier: priceTier, priceGroupId: priceGroupId } : c)));
+    loadTierGroups();
+  };
 
   const loadClients = async () => {
     setLoading(true);
@@ -86,6 +111,7 @@ export function AdminClients() {
 
   useEffect(() => {
     loadClients();
+    loadTierGroups();
   }, []);
 
   // Filtering (memoized)
@@ -98,7 +124,9 @@ export function AdminClients() {
       (c.phone || "").includes(q) ||
       (c.cpf || "").includes(q.replace(/\D/g, "")) ||
       (c.city || "").toLowerCase().includes(q) ||
-      (c.state || "").toLowerCase().includes(q)
+      (c.state || "").toLowerCase().includes(q) ||
+      (c.razaoSocial || "").toLowerCase().includes(q) ||
+      (c.cnpj || "").includes(q.replace(/\D/g, "") || "-")
     );
   }), [clients, search]);
 
@@ -280,6 +308,9 @@ export function AdminClients() {
         </div>
       </div>
 
+      {/* B2B price tier groups */}
+      <PriceTierGroupsPanel groups={tierGroups} globalTier={globalTier} onSaved={setTierGroups} />
+
       {/* Error */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3">
@@ -390,6 +421,7 @@ export function AdminClients() {
                           <span className="text-gray-800 truncate max-w-[180px]" style={{ fontSize: "0.85rem", fontWeight: 500 }}>
                             {client.name || "Sem nome"}
                           </span>
+                          <ClientTierBadge client={client} groups={tierGroups} />
                         </div>
                       </td>
                       <td className="px-4 py-3">
@@ -499,6 +531,7 @@ export function AdminClients() {
                       />
                       <DetailRow icon={Calendar} label="Cadastro" value={formatDate(client.created_at)} />
                       <DetailRow icon={Clock} label="Ultimo acesso" value={client.last_sign_in ? formatDate(client.last_sign_in) : "Nunca"} />
+                      <ClientPriceTierEditor client={client} groups={tierGroups} globalTier={globalTier} onSaved={handleClientTierSaved} />
                     </div>
                   )}
                 </div>
@@ -511,6 +544,9 @@ export function AdminClients() {
             <div className="hidden lg:block">
               <ExpandedClientDetail
                 client={sorted.find((c) => c.id === expandedId)!}
+                tierGroups={tierGroups}
+                globalTier={globalTier}
+                onTierSaved={handleClientTierSaved}
                 onClose={() => setExpandedId(null)}
               />
             </div>
@@ -552,9 +588,15 @@ function DetailRow({
 
 function ExpandedClientDetail({
   client,
+  tierGroups,
+  globalTier,
+  onTierSaved,
   onClose,
 }: {
   client: ClientProfile;
+  tierGroups: PriceTierGroup[];
+  globalTier: PriceTierId;
+  onTierSaved: (clientId: string, priceTier: PriceTierId | null, priceGroupId: string | null) => void;
   onClose: () => void;
 }) {
   return (
@@ -597,6 +639,12 @@ function ExpandedClientDetail({
             Documentos
           </p>
           <DetailRow icon={CreditCard} label="CPF" value={client.cpf ? formatCpf(client.cpf) : "Não informado"} mono />
+          {client.personType === "pj" && (
+            <>
+              <DetailRow icon={Building2} label="CNPJ" value={client.cnpj ? formatCnpj(client.cnpj) : "Não informado"} mono />
+              <DetailRow icon={Building2} label="Razão Social" value={client.razaoSocial || "Não informado"} />
+            </>
+          )}
         </div>
 
         {/* Address */}
@@ -619,6 +667,14 @@ function ExpandedClientDetail({
           )}
         </div>
 
+        {/* B2B price tier */}
+        <div className="space-y-3 sm:col-span-2 lg:col-span-3">
+          <p className="text-gray-600 border-b border-gray-100 pb-1.5" style={{ fontSize: "0.78rem", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.04em" }}>
+            Tabela de Preço
+          </p>
+          <ClientPriceTierEditor client={client} groups={tierGroups} globalTier={globalTier} onSaved={onTierSaved} />
+        </div>
+
         {/* Account */}
         <div className="space-y-3 sm:col-span-2 lg:col-span-3">
           <p className="text-gray-600 border-b border-gray-100 pb-1.5" style={{ fontSize: "0.78rem", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.04em" }}>
@@ -650,4 +706,249 @@ function ExpandedClientDetail({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+// ─── B2B price tiers ───
+
+var PRICE_TIER_OPTIONS: PriceTierId[] = ["v1", "v2", "v3"];
+
+function tierLabel(tier: string): string {
+  return "Tabela " + tier.toUpperCase();
+}
+
+function ClientTierBadge({ client, groups }: { client: ClientProfile; groups: PriceTierGroup[] }) {
+  const group = client.priceGroupId ? groups.find((g) => g.id === client.priceGroupId) : null;
+  if (!client.priceTier && !group && client.personType !== "pj") return null;
+  return (
+    <span className="flex items-center gap-1 shrink-0">
+      {client.personType === "pj" && (
+        <span className="px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded" style={{ fontSize: "0.62rem", fontWeight: 600 }}>
+          PJ
+        </span>
+      )}
+      {(client.priceTier || group) && (
+        <span className="px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded" style={{ fontSize: "0.62rem", fontWeight: 600 }}>
+          {client.priceTier ? client.priceTier.toUpperCase() : group!.name}
+        </span>
+      )}
+    </span>
+  );
+}
+
+function ClientPriceTierEditor({
+  client,
+  groups,
+  globalTier,
+  onSaved,
+}: {
+  client: ClientProfile;
+  groups: PriceTierGroup[];
+  globalTier: PriceTierId;
+  onSaved: (clientId: string, priceTier: PriceTierId | null, priceGroupId: string | null) => void;
+}) {
+  const [tier, setTier] = useState<PriceTierId | "">(client.priceTier || "");
+  const [groupId, setGroupId] = useState(client.priceGroupId || "");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setTier(client.priceTier || "");
+    setGroupId(client.priceGroupId || "");
+    setMessage(null);
+  }, [client.id, client.priceTier, client.priceGroupId]);
+
+  const group = groups.find((g) => g.id === groupId) || null;
+  const effective = tier
+    ? tierLabel(tier) + " (individual)"
+    : group
+      ? tierLabel(group.tier) + " (grupo " + group.name + ")"
+      : tierLabel(globalTier) + " (padrao da loja)";
+  const dirty = tier !== (client.priceTier || "") || groupId !== (client.priceGroupId || "");
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const token = await getValidAdminToken();
+      if (!token) {
+        setMessage({ ok: false, text: "Sessão expirada." });
+        return;
+      }
+      const result = await api.setClientPriceTier(token, client.id, { tier: tier, groupId: groupId });
+      onSaved(client.id, result.priceTier, result.priceGroupId);
+      setMessage({ ok: true, text: "Tabela salva." });
+    } catch (err: any) {
+      setMessage({ ok: false, text: err.message || "Erro ao salvar tabela." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectCls = "px-2.5 py-1.5 border border-gray-200 rounded-lg bg-white text-gray-700 outline-none focus:border-red-400 focus:ring-2 focus:ring-red-100";
+
+  return (
+    <div className="flex flex-wrap items-end gap-3" style={{ fontSize: "0.8rem" }}>
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-400" style={{ fontSize: "0.7rem", fontWeight: 500 }}>Grupo</span>
+        <select value={groupId} onChange={(e) => setGroupId(e.target.value)} className={selectCls}>
+          <option value="">Sem grupo</option>
+          {groups.map((g) => (
+            <option key={g.id} value={g.id}>{g.name} ({g.tier.toUpperCase()})</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-400" style={{ fontSize: "0.7rem", fontWeight: 500 }}>Tabela individual</span>
+        <select value={tier} onChange={(e) => setTier(e.target.value as PriceTierId | "")} className={selectCls}>
+          <option value="">Usar grupo / padrao</option>
+          {PRICE_TIER_OPTIONS.map((t) => (
+            <option key={t} value={t}>{tierLabel(t)}</option>
+          ))}
+        </select>
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={!dirty || saving}
+        className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none cursor-pointer"
+        style={{ fontWeight: 600 }}
+      >
+        {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+        Salvar
+      </button>
+      <p className="text-gray-500 w-full" style={{ fontSize: "0.75rem" }}>
+        Tabela em uso: <span className="text-gray-700" style={{ fontWeight: 600 }}>{effective}</span>
+        {message && (
+          <span className={message.ok ? "text-green-600 ml-2" : "text-red-600 ml-2"}>{message.text}</span>
+        )}
+      </p>
+    </div>
+  );
+}
+
+function PriceTierGroupsPanel({
+  groups,
+  globalTier,
+  onSaved,
+}: {
+  groups: PriceTierGroup[];
+  globalTier: PriceTierId;
+  onSaved: (groups: PriceTierGroup[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<PriceTierGroup[]>(groups);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setDraft(groups);
+  }, [groups]);
+
+  const updateGroup = (idx: number, patch: Partial<PriceTierGroup>) => {
+    setDraft((prev) => prev.map((g, i) => (i === idx ? { ...g, ...patch } : g)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const token = await getValidAdminToken();
+      if (!token) {
+        setMessage({ ok: false, text: "Sessão expirada." });
+        return;
+      }
+      const result = await api.saveAdminPriceTierGroups(token, draft);
+      const counts: Record<string, number> = {};
+      groups.forEach((g) => { counts[g.id] = g.customerCount || 0; });
+      onSaved(result.groups.map((g) => ({ ...g, customerCount: counts[g.id] || 0 })));
+      setMessage({ ok: true, text: "Grupos salvos." });
+    } catch (err: any) {
+      setMessage({ ok: false, text: err.message || "Erro ao salvar grupos." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputCls = "px-2.5 py-1.5 border border-gray-200 rounded-lg bg-white text-gray-700 outline-none focus:border-red-400 focus:ring-2 focus:ring-red-100";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 cursor-pointer hover:bg-gray-50/50"
+      >
+        <span className="flex items-center gap-2 text-gray-800" style={{ fontSize: "0.9rem", fontWeight: 600 }}>
+          <Tags className="w-4 h-4 text-red-600" />
+          Tabelas B2B por grupo de clientes
+          <span className="text-gray-400" style={{ fontSize: "0.75rem", fontWeight: 400 }}>
+            ({groups.length} grupo{groups.length !== 1 ? "s" : ""} · padrao da loja: {globalTier.toUpperCase()})
+          </span>
+        </span>
+        {open ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-100 p-4 space-y-3" style={{ fontSize: "0.8rem" }}>
+          <p className="text-gray-500" style={{ fontSize: "0.78rem" }}>
+            Oficinas, revendas e frotistas veem os precos da tabela do seu grupo quando logados.
+            Uma tabela individual no cliente tem prioridade sobre a do grupo.
+          </p>
+          {draft.length === 0 && (
+            <p className="text-gray-400" style={{ fontSize: "0.78rem" }}>Nenhum grupo criado.</p>
+          )}
+          {draft.map((g, idx) => (
+            <div key={g.id || "new-" + idx} className="flex flex-wrap items-center gap-2">
+              <input
+                value={g.name}
+                onChange={(e) => updateGroup(idx, { name: e.target.value })}
+                placeholder="Nome do grupo (ex: Oficinas)"
+                className={inputCls + " w-52"}
+              />
+              <select value={g.tier} onChange={(e) => updateGroup(idx, { tier: e.target.value as PriceTierId })} className={inputCls}>
+                {PRICE_TIER_OPTIONS.map((t) => (
+                  <option key={t} value={t}>{tierLabel(t)}</option>
+                ))}
+              </select>
+              <input
+                value={g.description || ""}
+                onChange={(e) => updateGroup(idx, { description: e.target.value })}
+                placeholder="Descricao (opcional)"
+                className={inputCls + " flex-1 min-w-[160px]"}
+              />
+              <span className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+                {g.customerCount || 0} cliente{(g.customerCount || 0) !== 1 ? "s" : ""}
+              </span>
+              <button
+                onClick={() => setDraft((prev) => prev.filter((_g, i) => i !== idx))}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg cursor-pointer"
+                title="Remover grupo (clientes voltam para a tabela padrao)"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-1">
+            <button
+              onClick={() => setDraft((prev) => prev.concat([{ id: "", name: "", tier: "v1" }]))}
+              className="flex items-center gap-1.5 px-3 py-1.5 border border-gray-200 rounded-lg text-gray-600 hover:text-red-600 hover:border-red-200 cursor-pointer"
+              style={{ fontWeight: 500 }}
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Novo grupo
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-40 cursor-pointer"
+              style={{ fontWeight: 600 }}
+            >
+              {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+              Salvar grupos
+            </button>
+            {message && (
+              <span className={message.ok ? "text-green-600" : "text-red-600"} style={{ fontSize: "0.78rem" }}>{message.text}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
 import Search from "lucide-react/dist/esm/icons/search.js";
 import UserCheck from "lucide-react/dist/esm/icons/user-check.js";
 import ShieldCheck from "lucide-react/dist/esm/icons/shield-check.js";
+import Truck from "lucide-react/dist/esm/icons/truck.js";
+import Sparkles from "lucide-react/dist/esm/icons/sparkles.js";
+import Filter from "lucide-react/dist/esm/icons/filter.js";
 import * as api from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
@@ -36,11 +39,30 @@ function formatExpiryDate(dateStr: string | null): string {
   }
 }
 
+const DISCOUNT_TYPE_LABELS: Record<api.CouponDiscountType, string> = {
+  percentage: "Percentual (%)",
+  fixed: "Valor fixo (R$)",
+  buy_x_get_y: "Leve X Pague Y",
+  progressive: "Progressivo por quantidade",
+  free_shipping: "Frete gratis",
+};
+
 const EMPTY_FORM = {
   code: "",
   description: "",
-  discountType: "percentage" as "percentage" | "fixed",
+  discountType: "percentage" as api.CouponDiscountType,
   discountValue: 0,
+  maxDiscount: 0,
+  buyQty: 2,
+  getQty: 1,
+  getDiscountPercent: 100,
+  progressiveTiers: [{ minQty: 2, percent: 5 }] as Array<{ minQty: number; percent: number }>,
+  freeShippingCarriers: [] as string[],
+  scopeCategories: "",
+  scopeBrands: "",
+  scopeSkus: "",
+  excludeSuperPromo: false,
+  firstPurchaseOnly: false,
   minOrderValue: 0,
   maxUses: 0,
   active: true,
@@ -48,6 +70,53 @@ const EMPTY_FORM = {
   singleUsePerCpf: true,
 };
 
+function splitList(value: string): string[] {
+  return value.split(/[,;\n]/).map((v) => v.trim()).filter(Boolean);
+}
+
+// Rule fields sent on create and update (server normalizes them — promo_engine.ts)
+function rulesPayload(form: typeof EMPTY_FORM) {
+  return {
+    discountType: form.discountType,
+    discountValue: form.discountValue,
+    maxDiscount: form.maxDiscount,
+    buyQty: form.buyQty,
+    getQty: form.getQty,
+    getDiscountPercent: form.getDiscountPercent,
+    progressiveTiers: form.progressiveTiers,
+    freeShippingCarriers: form.freeShippingCarriers,
+    scope: {
+      categories: splitList(form.scopeCategories),
+      brands: splitList(form.scopeBrands),
+      skus: splitList(form.scopeSkus),
+    },
+    excludeSuperPromo: form.excludeSuperPromo,
+    firstPurchaseOnly: form.firstPurchaseOnly,
+  };
+}
+
+// Card headline: big value + caption
+function discountSummary(coupon: api.Coupon): { value: string; caption: string } {
+  switch (coupon.discountType) {
+    case "fixed":
+      return { value: "R$ " + coupon.discountValue.toFixed(2).replace(".", ","), caption: "de desconto fixo" };
+    case "buy_x_get_y": {
+      var buy = coupon.buyQty || 0;
+      var get = coupon.getQty || 0;
+      var pct = coupon.getDiscountPercent ?? 100;
+      return { value: "Leve " + (buy + get) + " Pague " + buy, caption: pct >= 100 ? "itens mais baratos gratis" : pct + "% off nos " + get + " mais baratos" };
+    }
+    case "progressive": {
+      var tiers = coupon.progressiveTiers || [];
+      return { value: "Ate " + (tiers.length ? tiers[tiers.length - 1].percent : 0) + "%", caption: tiers.map((t) => t.minQty + "+ un: " + t.percent + "%").join(" · ") };
+    }
+    case "free_shipping":
+      return { value: "Frete gratis", caption: (coupon.freeShippingCarriers || []).length > 0 ? "transportadoras selecionadas" : "qualquer transportadora" };
+    default:
+      return { value: coupon.discountValue + "%", caption: "de desconto" };
+  }
+}
+
 export function AdminCoupons() {
   const [coupons, setCoupons] = useState<api.Coupon[]>([]);
   const [loading, setLoading] = useState(true);
@@ -61,6 +130,9 @@ export function AdminCoupons() {
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
 
+  // Carriers for free-shipping coupons
+  const [carriers, setCarriers] = useState<api.ShippingCarrier[]>([]);
+
   // Delete
   const [deleting, setDeleting] = useState<string | null>(null);
   const [copied, setCopied] = useState<string | null>(null);
@@ -88,6 +160,10 @@ export function AdminCoupons() {
 
   useEffect(() => {
     fetchCoupons();
+    getToken()
+      .then((token) => api.getShippingConfig(token))
+      .then((config) => setCarriers(config.carriers || []))
+      .catch((e) => console.warn("[AdminCoupons] Carriers load error:", e));
   }, []);
 
   const openCreate = () => {
@@ -103,6 +179,17 @@ export function AdminCoupons() {
       description: coupon.description || "",
       discountType: coupon.discountType,
       discountValue: coupon.discountValue,
+      maxDiscount: coupon.maxDiscount || 0,
+      buyQty: coupon.buyQty || EMPTY_FORM.buyQty,
+      getQty: coupon.getQty || EMPTY_FORM.getQty,
+      getDiscountPercent: coupon.getDiscountPercent ?? 100,
+      progressiveTiers: coupon.progressiveTiers && coupon.progressiveTiers.length ? coupon.progressiveTiers : EMPTY_FORM.progressiveTiers,
+      freeShippingCarriers: coupon.freeShippingCarriers || [],
+      scopeCategories: coupon.scope ? coupon.scope.categories.join(", ") : "",
+      scopeBrands: coupon.scope ? coupon.scope.brands.join(", ") : "",
+      scopeSkus: coupon.scope ? coupon.scope.skus.join(", ") : "",
+      excludeSuperPromo: !!coupon.excludeSuperPromo,
+      firstPurchaseOnly: !!coupon.firstPurchaseOnly,
       minOrderValue: coupon.minOrderValue,
       maxUses: coupon.maxUses,
       active: coupon.active,
@@ -122,8 +209,7 @@ export function AdminCoupons() {
       if (editingCode) {
         await api.updateCoupon(token, editingCode, {
           description: form.description,
-          discountType: form.discountType,
-          discountValue: form.discountValue,
+          ...rulesPayload(form),
           minOrderValue: form.minOrderValue,
           maxUses: form.maxUses,
           active: form.active,
@@ -136,7 +222,7 @@ export function AdminCoupons() {
           setSaving(false);
           return;
         }
-        if (form.discountValue <= 0) {
+        if ((form.discountType === "percentage" || form.discountType === "fixed") && form.discountValue <= 0) {
           setSaveError("Valor do desconto deve ser maior que zero");
           setSaving(false);
           return;
@@ -144,8 +230,7 @@ export function AdminCoupons() {
         await api.createCoupon(token, {
           code: form.code,
           description: form.description,
-          discountType: form.discountType,
-          discountValue: form.discountValue,
+          ...rulesPayload(form),
           minOrderValue: form.minOrderValue,
           maxUses: form.maxUses,
           active: form.active,
@@ -318,13 +403,16 @@ export function AdminCoupons() {
                 {/* Discount */}
                 <div className="bg-gray-50 rounded-lg p-3 mb-3">
                   <span className="text-gray-900" style={{ fontSize: "1.3rem", fontWeight: 800 }}>
-                    {coupon.discountType === "percentage"
-                      ? coupon.discountValue + "%"
-                      : "R$ " + coupon.discountValue.toFixed(2).replace(".", ",")}
+                    {discountSummary(coupon).value}
                   </span>
                   <span className="text-gray-500 ml-2" style={{ fontSize: "0.75rem" }}>
-                    {coupon.discountType === "percentage" ? "de desconto" : "de desconto fixo"}
+                    {discountSummary(coupon).caption}
                   </span>
+                  {(coupon.maxDiscount || 0) > 0 && (
+                    <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.68rem" }}>
+                      Teto: R$ {(coupon.maxDiscount || 0).toFixed(2).replace(".", ",")}
+                    </p>
+                  )}
                 </div>
 
                 {/* Details */}
@@ -373,6 +461,32 @@ export function AdminCoupons() {
                       1x por CPF
                     </span>
                   )}
+                  {coupon.firstPurchaseOnly && (
+                    <span className="px-2 py-0.5 bg-purple-50 text-purple-600 rounded-full flex items-center gap-1" style={{ fontSize: "0.65rem", fontWeight: 600 }}>
+                      <UserCheck className="w-3 h-3" />
+                      1a compra
+                    </span>
+                  )}
+                  {coupon.excludeSuperPromo && (
+                    <span className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full flex items-center gap-1" style={{ fontSize: "0.65rem", fontWeight: 600 }}>
+                      <Sparkles className="w-3 h-3" />
+                      Exceto Super Promo
+                    </span>
+                  )}
+                  {coupon.scope && (coupon.scope.categories.length + coupon.scope.brands.length + coupon.scope.skus.length) > 0 && (
+                    <span
+                      className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full flex items-center gap-1"
+                      style={{ fontSize: "0.65rem", fontWeight: 600 }}
+                      title={[
+                        coupon.scope.categories.length ? "Categorias: " + coupon.scope.categories.join(", ") : "",
+                        coupon.scope.brands.length ? "Marcas: " + coupon.scope.brands.join(", ") : "",
+                        coupon.scope.skus.length ? "SKUs: " + coupon.scope.skus.join(", ") : "",
+                      ].filter(Boolean).join("\n")}
+                    >
+                      <Filter className="w-3 h-3" />
+                      Itens selecionados
+                    </span>
+                  )}
                 </div>
 
                 {/* Actions */}
@@ -403,7 +517,7 @@ export function AdminCoupons() {
       {/* Create/Edit Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={() => setShowModal(false)}>
-          <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
             <div className="flex items-center justify-between p-5 border-b border-gray-100">
               <h3 className="text-gray-900" style={{ fontSize: "1.1rem", fontWeight: 700 }}>
                 {editingCode ? "Editar Cupom" : "Novo Cupom"}
@@ -412,7 +526,7 @@ export function AdminCoupons() {
                 <X className="w-5 h-5" />
               </button>
             </div>
-            <div className="p-5 space-y-4">
+            <div className="p-5 space-y-4 overflow-y-auto">
               {saveError && (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
                   <AlertTriangle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
@@ -455,29 +569,257 @@ export function AdminCoupons() {
                   <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Tipo</label>
                   <select
                     value={form.discountType}
-                    onChange={(e) => setForm({ ...form, discountType: e.target.value as "percentage" | "fixed" })}
+                    onChange={(e) => setForm({ ...form, discountType: e.target.value as api.CouponDiscountType })}
                     className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
                     style={{ fontSize: "0.85rem" }}
                   >
-                    <option value="percentage">Percentual (%)</option>
-                    <option value="fixed">Valor fixo (R$)</option>
+                    {(Object.keys(DISCOUNT_TYPE_LABELS) as api.CouponDiscountType[]).map((t) => (
+                      <option key={t} value={t}>{DISCOUNT_TYPE_LABELS[t]}</option>
+                    ))}
                   </select>
                 </div>
+                {(form.discountType === "percentage" || form.discountType === "fixed") ? (
+                  <div>
+                    <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                      Valor {form.discountType === "percentage" ? "(%)" : "(R$)"}
+                    </label>
+                    <input
+                      type="number"
+                      value={form.discountValue || ""}
+                      onChange={(e) => setForm({ ...form, discountValue: parseFloat(e.target.value) || 0 })}
+                      min={0}
+                      max={form.discountType === "percentage" ? 100 : 99999}
+                      step={form.discountType === "percentage" ? 1 : 0.01}
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                      style={{ fontSize: "0.85rem" }}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Teto do desconto (R$)</label>
+                    <input
+                      type="number"
+                      value={form.maxDiscount || ""}
+                      onChange={(e) => setForm({ ...form, maxDiscount: parseFloat(e.target.value) || 0 })}
+                      min={0}
+                      step={0.01}
+                      placeholder="0 = sem teto"
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                      style={{ fontSize: "0.85rem" }}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {form.discountType === "percentage" && (
                 <div>
-                  <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
-                    Valor {form.discountType === "percentage" ? "(%)" : "(R$)"}
-                  </label>
+                  <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Teto do desconto (R$)</label>
                   <input
                     type="number"
-                    value={form.discountValue || ""}
-                    onChange={(e) => setForm({ ...form, discountValue: parseFloat(e.target.value) || 0 })}
+                    value={form.maxDiscount || ""}
+                    onChange={(e) => setForm({ ...form, maxDiscount: parseFloat(e.target.value) || 0 })}
                     min={0}
-                    max={form.discountType === "percentage" ? 100 : 99999}
-                    step={form.discountType === "percentage" ? 1 : 0.01}
+                    step={0.01}
+                    placeholder="0 = sem teto"
                     className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
                     style={{ fontSize: "0.85rem" }}
                   />
                 </div>
+              )}
+
+              {/* Leve X Pague Y */}
+              {form.discountType === "buy_x_get_y" && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Pague (X)</label>
+                    <input
+                      type="number"
+                      value={form.buyQty || ""}
+                      onChange={(e) => setForm({ ...form, buyQty: parseInt(e.target.value) || 0 })}
+                      min={1}
+                      step={1}
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                      style={{ fontSize: "0.85rem" }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Ganhe (Y)</label>
+                    <input
+                      type="number"
+                      value={form.getQty || ""}
+                      onChange={(e) => setForm({ ...form, getQty: parseInt(e.target.value) || 0 })}
+                      min={1}
+                      step={1}
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                      style={{ fontSize: "0.85rem" }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Desconto no Y (%)</label>
+                    <input
+                      type="number"
+                      value={form.getDiscountPercent || ""}
+                      onChange={(e) => setForm({ ...form, getDiscountPercent: parseFloat(e.target.value) || 0 })}
+                      min={1}
+                      max={100}
+                      step={1}
+                      className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                      style={{ fontSize: "0.85rem" }}
+                    />
+                  </div>
+                  <p className="col-span-3 text-gray-400 -mt-2" style={{ fontSize: "0.65rem" }}>
+                    A cada {form.buyQty + form.getQty} unidades elegiveis, as {form.getQty} mais baratas recebem {form.getDiscountPercent}% de desconto
+                  </p>
+                </div>
+              )}
+
+              {/* Progressive tiers */}
+              {form.discountType === "progressive" && (
+                <div>
+                  <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Faixas (qtd. elegivel → %)</label>
+                  <div className="space-y-2">
+                    {form.progressiveTiers.map((tier, ti) => (
+                      <div key={ti} className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          value={tier.minQty || ""}
+                          onChange={(e) => {
+                            var next = form.progressiveTiers.slice();
+                            next[ti] = { ...tier, minQty: parseInt(e.target.value) || 0 };
+                            setForm({ ...form, progressiveTiers: next });
+                          }}
+                          min={1}
+                          placeholder="A partir de"
+                          className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                          style={{ fontSize: "0.85rem" }}
+                        />
+                        <span className="text-gray-400" style={{ fontSize: "0.8rem" }}>un →</span>
+                        <input
+                          type="number"
+                          value={tier.percent || ""}
+                          onChange={(e) => {
+                            var next = form.progressiveTiers.slice();
+                            next[ti] = { ...tier, percent: parseFloat(e.target.value) || 0 };
+                            setForm({ ...form, progressiveTiers: next });
+                          }}
+                          min={1}
+                          max={100}
+                          placeholder="%"
+                          className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                          style={{ fontSize: "0.85rem" }}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setForm({ ...form, progressiveTiers: form.progressiveTiers.filter((_t, i) => i !== ti) })}
+                          className="text-gray-400 hover:text-red-500 transition-colors shrink-0"
+                          title="Remover faixa"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  {form.progressiveTiers.length < 10 && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        var last = form.progressiveTiers[form.progressiveTiers.length - 1];
+                        setForm({ ...form, progressiveTiers: form.progressiveTiers.concat([{ minQty: last ? last.minQty + 1 : 2, percent: last ? last.percent + 5 : 5 }]) });
+                      }}
+                      className="mt-2 text-red-600 hover:text-red-700 flex items-center gap-1"
+                      style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                    >
+                      <Plus className="w-3.5 h-3.5" /> Adicionar faixa
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Free shipping carriers */}
+              {form.discountType === "free_shipping" && (
+                <div>
+                  <label className="block text-gray-700 mb-1" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Transportadoras participantes</label>
+                  {carriers.length === 0 ? (
+                    <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>Nenhuma transportadora configurada — vale para qualquer frete.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {carriers.map((carrier) => {
+                        var selected = form.freeShippingCarriers.indexOf(carrier.id) !== -1;
+                        return (
+                          <button
+                            key={carrier.id}
+                            type="button"
+                            onClick={() => setForm({
+                              ...form,
+                              freeShippingCarriers: selected
+                                ? form.freeShippingCarriers.filter((id) => id !== carrier.id)
+                                : form.freeShippingCarriers.concat([carrier.id]),
+                            })}
+                            className={"px-2.5 py-1.5 border rounded-lg flex items-center gap-1.5 transition-colors " +
+                              (selected ? "border-red-300 bg-red-50 text-red-700" : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50")}
+                            style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                          >
+                            <Truck className="w-3.5 h-3.5" />
+                            {carrier.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <p className="text-gray-400 mt-1" style={{ fontSize: "0.65rem" }}>Nenhuma selecionada = qualquer transportadora</p>
+                </div>
+              )}
+
+              {/* Scope */}
+              <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+                <p className="text-gray-700" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Itens elegiveis</p>
+                <p className="text-gray-400 -mt-1" style={{ fontSize: "0.65rem" }}>Separe por virgula. Tudo vazio = todos os produtos.</p>
+                <input
+                  type="text"
+                  value={form.scopeCategories}
+                  onChange={(e) => setForm({ ...form, scopeCategories: e.target.value })}
+                  placeholder="Categorias (slugs, inclui subcategorias)"
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                  style={{ fontSize: "0.8rem" }}
+                />
+                <input
+                  type="text"
+                  value={form.scopeBrands}
+                  onChange={(e) => setForm({ ...form, scopeBrands: e.target.value })}
+                  placeholder="Marcas"
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                  style={{ fontSize: "0.8rem" }}
+                />
+                <input
+                  type="text"
+                  value={form.scopeSkus}
+                  onChange={(e) => setForm({ ...form, scopeSkus: e.target.value })}
+                  placeholder="SKUs"
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-red-500 outline-none font-mono"
+                  style={{ fontSize: "0.8rem" }}
+                />
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, excludeSuperPromo: !form.excludeSuperPromo })}
+                    className={"px-2.5 py-1.5 border rounded-lg flex items-center gap-1.5 transition-colors " +
+                      (form.excludeSuperPromo ? "border-amber-300 bg-amber-50 text-amber-700" : "border-gray-200 bg-white text-gray-500")}
+                    style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                  >
+                    <Sparkles className="w-3.5 h-3.5" />
+                    Nao vale na Super Promo
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, firstPurchaseOnly: !form.firstPurchaseOnly })}
+                    className={"px-2.5 py-1.5 border rounded-lg flex items-center gap-1.5 transition-colors " +
+                      (form.firstPurchaseOnly ? "border-purple-300 bg-purple-50 text-purple-700" : "border-gray-200 bg-white text-gray-500")}
+                    style={{ fontSize: "0.75rem", fontWeight: 600 }}
+                  >
+                    <UserCheck className="w-3.5 h-3.5" />
+                    Somente 1a compra
+                  </button>
+                </div>
               </div>
 
               {/* Min order + max uses */}
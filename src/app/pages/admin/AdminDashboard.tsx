@@ -19,6 +19,7 @@ import ArrowDownRight from "lucide-react/dist/esm/icons/arrow-down-right.js";
 import Clock from "lucide-react/dist/esm/icons/clock.js";
 import * as api from "../../services/api";
 import { getValidAdminToken } from "./adminAuth";
+import { getOrderStatusStyle } from "../../data/orderStatus";
 import {
   BarChart,
   Bar,
@@ -49,22 +50,8 @@ function formatDate(dateStr: string): string {
 }
 
 function statusLabel(status: string): { label: string; color: string } {
-  switch (status) {
-    case "paid":
-    case "approved":
-      return { label: "Pago", color: "bg-green-100 text-green-700" };
-    case "pending":
-      return { label: "Pendente", color: "bg-yellow-100 text-yellow-700" };
-    case "processing":
-      return { label: "Processando", color: "bg-blue-100 text-blue-700" };
-    case "cancelled":
-    case "refunded":
-      return { label: "Cancelado", color: "bg-red-100 text-red-700" };
-    case "completed":
-      return { label: "Concluido", color: "bg-emerald-100 text-emerald-700" };
-    default:
-      return { label: status, color: "bg-gray-100 text-gray-600" };
-  }
+  var style = getOrderStatusStyle(status);
+  return { label: style.label, color: style.bg + " " + style.text };
 }
 
 export function AdminDashboard() {
@@ -151,7 +138,7 @@ export function AdminDashboard() {
 
   if (!stats) return null;
 
-  const statCards = [
+  const statCards: Array<{ label: string; value: string; hint?: string; icon: typeof DollarSign; color: string; bgLight: string }> = [
     {
       label: "Total de Pedidos",
       value: String(stats.totalOrders),
@@ -162,6 +149,7 @@ export function AdminDashboard() {
     {
       label: "Receita Total",
       value: formatPrice(stats.totalRevenue),
+      hint: stats.totalRefunded ? "liquida de " + formatPrice(stats.totalRefunded) + " em reembolsos" : undefined,
       icon: DollarSign,
       color: "bg-green-500",
       bgLight: "bg-green-50",
@@ -218,6 +206,32 @@ export function AdminDashboard() {
         </button>
       </div>
 
+      {/* Scheduled SIGE sync failures */}
+      {(() => {
+        var sync = stats.sigeSync;
+        if (!sync || (sync.status !== "failing" && sync.status !== "stale" && sync.lastRunFailures === 0)) return null;
+        var severe = sync.status === "failing" || sync.status === "stale";
+        return (
+          <div className={"flex items-start gap-3 rounded-xl border px-4 py-3 " + (severe ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200")}>
+            <AlertTriangle className={"w-5 h-5 shrink-0 mt-0.5 " + (severe ? "text-red-500" : "text-amber-500")} />
+            <div className="min-w-0">
+              <p className={severe ? "text-red-700" : "text-amber-700"} style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+                {sync.status === "failing"
+                  ? "Sincronizacao agendada com o SIGE falhando" + (sync.consecutiveFailures > 1 ? " (" + sync.consecutiveFailures + " execucoes seguidas)" : "")
+                  : sync.status === "stale"
+                    ? "Sincronizacao agendada com o SIGE atrasada"
+                    : sync.lastRunFailures + " SKU(s) com falha na ultima sincronizacao com o SIGE"}
+              </p>
+              <p className={"truncate " + (severe ? "text-red-600" : "text-amber-600")} style={{ fontSize: "0.75rem" }}>
+                {(sync.lastError ? sync.lastError + " · " : "") +
+                  "Ultimo sucesso: " + (sync.lastOkAt ? formatDate(new Date(sync.lastOkAt).toISOString()) : "nunca") +
+                  " · Detalhes em Integracoes > Sincronizacao SIGE"}
+              </p>
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Stat Cards */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {statCards.map((card) => (
@@ -236,6 +250,11 @@ export function AdminDashboard() {
             <p className="text-gray-500 mt-0.5" style={{ fontSize: "0.7rem", fontWeight: 500 }}>
               {card.label}
             </p>
+            {card.hint && (
+              <p className="text-gray-400 truncate" style={{ fontSize: "0.62rem" }}>
+                {card.hint}
+              </p>
+            )}
           </div>
         ))}
       </div>
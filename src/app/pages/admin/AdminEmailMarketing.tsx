@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import * as api from "../../services/api";
-import type { EmktSubscriber, EmktTemplate, EmktCampaign, EmktSendLog, EmktConfig } from "../../services/api";
+import type { EmktSubscriber, EmktTemplate, EmktCampaign, EmktSendLog, EmktConfig, EmktRecipient, EmktRecipientStatus, EmktQueueProgress, EmktCampaignStats, EmktInactiveReason, EmktPreferenceTopic, CustomerSegment } from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
 import Mail from "lucide-react/dist/esm/icons/mail.js";
@@ -32,6 +32,11 @@ import Inbox from "lucide-react/dist/esm/icons/inbox.js";
 import Zap from "lucide-react/dist/esm/icons/zap.js";
 import TestTube from "lucide-react/dist/esm/icons/test-tube.js";
 import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import Pause from "lucide-react/dist/esm/icons/pause.js";
+import Play from "lucide-react/dist/esm/icons/play.js";
+import Ban from "lucide-react/dist/esm/icons/ban.js";
+import CalendarClock from "lucide-react/dist/esm/icons/calendar-clock.js";
+import List from "lucide-react/dist/esm/icons/list.js";
 
 type SubTab = "campaigns" | "subscribers" | "templates" | "history" | "config";
 
@@ -67,6 +72,24 @@ function StatusBadge({ status }: { status: string }) {
         <Loader2 className="w-3 h-3 animate-spin" /> Enviando
       </span>
     );
+  if (status === "scheduled")
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 border border-blue-200" style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+        <CalendarClock className="w-3 h-3" /> Agendada
+      </span>
+    );
+  if (status === "paused")
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-orange-50 text-orange-700 border border-orange-200" style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+        <Pause className="w-3 h-3" /> Pausada
+      </span>
+    );
+  if (status === "cancelled")
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 border border-gray-200" style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+        <Ban className="w-3 h-3" /> Cancelada
+      </span>
+    );
   return (
     <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 border border-gray-200" style={{ fontSize: "0.7rem", fontWeight: 600 }}>
       <Edit3 className="w-3 h-3" /> Rascunho
@@ -74,12 +97,315 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+const RECIPIENT_STATUS_LABELS: Record<EmktRecipientStatus, string> = {
+  pending: "Na fila",
+  sending: "Enviando",
+  sent: "Enviado",
+  failed: "Falhou",
+  cancelled: "Cancelado",
+};
+
+const RECIPIENT_STATUS_CLASSES: Record<EmktRecipientStatus, string> = {
+  pending: "bg-gray-100 text-gray-600",
+  sending: "bg-amber-50 text-amber-700",
+  sent: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-700",
+  cancelled: "bg-gray-100 text-gray-400",
+};
+
+/** "yyyy-MM-ddTHH:mm" in local time, for datetime-local inputs */
+function toLocalInput(ts: number) {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return d.getFullYear() + "-" + pad(d.getMonth() + 1) + "-" + pad(d.getDate()) + "T" + pad(d.getHours()) + ":" + pad(d.getMinutes());
+}
+
+function QueueProgressBar({ queue }: { queue: EmktQueueProgress }) {
+  const pct = (n: number) => (queue.total > 0 ? (n / queue.total) * 100 : 0);
+  return (
+    <div className="mt-2">
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+        <div className="h-full bg-green-500" style={{ width: pct(queue.sent) + "%" }} />
+        <div className="h-full bg-red-400" style={{ width: pct(queue.failed) + "%" }} />
+        <div className="h-full bg-gray-300" style={{ width: pct(queue.cancelled) + "%" }} />
+      </div>
+      <div className="flex items-center gap-3 mt-1 text-gray-500 flex-wrap" style={{ fontSize: "0.68rem" }}>
+        <span>{queue.sent} de {queue.total} enviados</span>
+        {queue.failed > 0 && <span className="text-red-600">{queue.failed} falhas</span>}
+        {queue.open > 0 && <span>{queue.open} na fila</span>}
+        {queue.cancelled > 0 && <span>{queue.cancelled} cancelados</span>}
+        {queue.lastBatchAt && <span>Último lote: {fmtDate(queue.lastBatchAt)}</span>}
+      </div>
+      {queue.lastError && queue.open > 0 && (
+        <p className="text-amber-700 mt-1 truncate" style={{ fontSize: "0.68rem" }} title={queue.lastError}>
+          Último erro: {queue.lastError}
+        </p>
+      )}
+    </div>
+  );
+}
+
+const RECIPIENTS_PAGE = 50;
+
+const INACTIVE_REASON_LABELS: Record<EmktInactiveReason, string> = {
+  unsubscribe: "Descadastrado",
+  bounce: "Bounce",
+  complaint: "Spam",
+};
+
+function RecipientsDialog({ campaign, onClose }: { campaign: EmktCampaign; onClose: () => void }) {
+  const [recipients, setRecipients] = useState<EmktRecipient[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<EmktRecipientStatus | "">("");
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getToken();
+      const res = await api.getEmktCampaignRecipients(token, campaign.id, { status, q: query, offset, limit: RECIPIENTS_PAGE });
+      setRecipients(res.recipients || []);
+      setTotal(res.total || 0);
+    } catch (e: any) {
+      setError(e.message || "Erro ao carregar destinatários");
+    } finally {
+      setLoading(false);
+    }
+  }, [campaign.id, status, query, offset]);
+
+  useEffect(() => { load(); }, [load]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-5 py-3 border-b border-gray-200 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h4 className="text-gray-900 truncate" style={{ fontSize: "0.95rem", fontWeight: 600 }}>Destinatários — {campaign.name}</h4>
+            {campaign.queue && (
+              <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>Envio iniciado em {fmtDate(campaign.queue.startedAt)}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="px-5 py-3 border-b border-gray-100 flex items-center gap-2 flex-wrap">
+          <select
+            value={status}
+            onChange={(e) => { setStatus(e.target.value as EmktRecipientStatus | ""); setOffset(0); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white outline-none"
+            style={{ fontSize: "0.8rem" }}
+          >
+            <option value="">Todos</option>
+            {(Object.keys(RECIPIENT_STATUS_LABELS) as EmktRecipientStatus[]).map((st) => (
+              <option key={st} value={st}>{RECIPIENT_STATUS_LABELS[st]}</option>
+            ))}
+          </select>
+          <div className="relative flex-1 min-w-[180px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") { setQuery(search.trim()); setOffset(0); } }}
+              placeholder="Buscar por email ou nome (Enter)"
+              className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg text-gray-900 outline-none focus:ring-2 focus:ring-red-500"
+              style={{ fontSize: "0.8rem" }}
+            />
+          </div>
+          <button onClick={load} disabled={loading} className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors">
+            <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-auto">
+          {error ? (
+            <p className="p-5 text-red-600" style={{ fontSize: "0.8rem" }}>{error}</p>
+          ) : loading && recipients.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+            </div>
+          ) : recipients.length === 0 ? (
+            <p className="p-8 text-center text-gray-400" style={{ fontSize: "0.85rem" }}>Nenhum destinatário encontrado.</p>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="text-left px-4 py-2 text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Destinatário</th>
+                  <th className="text-left px-4 py-2 text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Situação</th>
+                  <th className="text-left px-4 py-2 text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Tentativas</th>
+                  <th className="text-left px-4 py-2 text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Detalhe</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recipients.map((r) => (
+                  <tr key={r.email} className="border-t border-gray-100 align-top">
+                    <td className="px-4 py-2">
+                      <p className="text-gray-900" style={{ fontSize: "0.8rem" }}>{r.email}</p>
+                      {r.name && <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>{r.name}</p>}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={"px-2 py-0.5 rounded-full " + RECIPIENT_STATUS_CLASSES[r.status]} style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+                        {RECIPIENT_STATUS_LABELS[r.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600" style={{ fontSize: "0.8rem" }}>{r.attempts}</td>
+                    <td className="px-4 py-2 text-gray-500" style={{ fontSize: "0.72rem" }}>
+                      {r.status === "sent" && "Enviado em " + fmtDate(r.sentAt)}
+                      {r.status === "pending" && r.nextAttemptAt && "Nova tentativa em " + fmtDate(r.nextAttemptAt)}
+                      {r.lastError && r.status !== "sent" && <p className="text-red-600 break-all">{r.lastError}</p>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="px-5 py-3 border-t border-gray-200 flex items-center justify-between" style={{ fontSize: "0.78rem" }}>
+          <span className="text-gray-500">
+            {total > 0 ? (offset + 1) + "–" + Math.min(offset + RECIPIENTS_PAGE, total) + " de " + total : "0 destinatários"}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - RECIPIENTS_PAGE))}
+              disabled={offset === 0 || loading}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+            >
+              Anterior
+            </button>
+            <button
+              onClick={() => setOffset(offset + RECIPIENTS_PAGE)}
+              disabled={offset + RECIPIENTS_PAGE >= total || loading}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+            >
+              Próxima
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function pct(rate: number) {
+  return (rate * 100).toLocaleString("pt-BR", { maximumFractionDigits: 1 }) + "%";
+}
+
+function fmtMoney(v: number) {
+  return v.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function CampaignStatsDialog({ campaign, onClose }: { campaign: EmktCampaign; onClose: () => void }) {
+  const [stats, setStats] = useState<EmktCampaignStats | null>(null);
+  const [attributionDays, setAttributionDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getToken();
+      const res = await api.getEmktCampaignStats(token, campaign.id);
+      setStats(res.stats);
+      setAttributionDays(res.attributionDays);
+    } catch (e: any) {
+      setError(e.message || "Erro ao carregar estatísticas");
+    } finally {
+      setLoading(false);
+    }
+  }, [campaign.id]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const cards = stats ? [
+    { label: "Enviados", value: String(stats.sent), sub: stats.recipients + " destinatários" },
+    { label: "Aberturas únicas", value: String(stats.uniqueOpens), sub: pct(stats.openRate) + " · " + stats.opens + " no total" },
+    { label: "Cliques únicos", value: String(stats.uniqueClicks), sub: pct(stats.clickRate) + " · " + stats.clicks + " no total" },
+    { label: "Compradores", value: String(stats.conversions.buyers), sub: pct(stats.conversions.rate) + " de quem clicou" },
+    { label: "Pedidos", value: String(stats.conversions.orders), sub: fmtMoney(stats.conversions.revenue) },
+    { label: "Descadastros", value: String(stats.unsubscribes), sub: stats.bounces + " bounces · " + stats.complaints + " spam" },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-5 py-3 border-b border-gray-200 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h4 className="text-gray-900 truncate" style={{ fontSize: "0.95rem", fontWeight: 600 }}>Resultados — {campaign.name}</h4>
+            <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+              Pedidos pagos de quem clicou, até {attributionDays} dias após o primeiro clique
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={load} disabled={loading} className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors">
+              <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-700">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto p-5">
+          {error ? (
+            <p className="text-red-600" style={{ fontSize: "0.8rem" }}>{error}</p>
+          ) : !stats ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-5">
+                {cards.map((card) => (
+                  <div key={card.label} className="border border-gray-200 rounded-lg p-3">
+                    <p className="text-gray-500" style={{ fontSize: "0.72rem" }}>{card.label}</p>
+                    <p className="text-gray-900" style={{ fontSize: "1.2rem", fontWeight: 700 }}>{card.value}</p>
+                    <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>{card.sub}</p>
+                  </div>
+                ))}
+              </div>
+              <h5 className="text-gray-700 mb-2" style={{ fontSize: "0.82rem", fontWeight: 600 }}>Cliques por link</h5>
+              {stats.links.length === 0 ? (
+                <p className="text-gray-400" style={{ fontSize: "0.8rem" }}>Nenhum link rastreado nesta campanha.</p>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left px-3 py-2 text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Link</th>
+                      <th className="text-right px-3 py-2 text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 600 }}>Cliques únicos</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.links.map((l) => (
+                      <tr key={l.index} className="border-t border-gray-100">
+                        <td className="px-3 py-2 text-gray-700 break-all" style={{ fontSize: "0.75rem" }}>{l.url}</td>
+                        <td className="px-3 py-2 text-right text-gray-900" style={{ fontSize: "0.8rem", fontWeight: 600 }}>{l.uniqueClicks}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-gray-400 mt-4" style={{ fontSize: "0.7rem" }}>
+                Aberturas dependem do carregamento de imagens e podem ficar abaixo do real; cliques contam também como abertura.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ====================================================
 // Campaigns Tab
 // ====================================================
 function CampaignsPanel() {
   const [campaigns, setCampaigns] = useState<EmktCampaign[]>([]);
   const [templates, setTemplates] = useState<EmktTemplate[]>([]);
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -98,6 +424,7 @@ function CampaignsPanel() {
   const [templateId, setTemplateId] = useState<string | null>(null);
   const [targetTags, setTargetTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
+  const [segmentId, setSegmentId] = useState<string | null>(null);
 
   // Send state
   const [sending, setSending] = useState<string | null>(null);
@@ -111,6 +438,13 @@ function CampaignsPanel() {
 
   // Confirm send dialog
   const [confirmSendId, setConfirmSendId] = useState<string | null>(null);
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState("");
+
+  // Queue controls
+  const [actionBusy, setActionBusy] = useState<string | null>(null);
+  const [recipientsFor, setRecipientsFor] = useState<EmktCampaign | null>(null);
+  const [statsFor, setStatsFor] = useState<EmktCampaign | null>(null);
 
   // Preview
   const [previewHtml, setPreviewHtml] = useState<string | null>(null);
@@ -120,12 +454,14 @@ function CampaignsPanel() {
     setError(null);
     try {
       const token = await getToken();
-      const [cmpRes, tplRes] = await Promise.all([
+      const [cmpRes, tplRes, segRes] = await Promise.all([
         api.getEmktCampaigns(token),
         api.getEmktTemplates(token),
+        api.getCustomerSegments(token).catch(() => ({ segments: [] as CustomerSegment[] })),
       ]);
       setCampaigns(cmpRes.campaigns || []);
       setTemplates(tplRes.templates || []);
+      setSegments(segRes.segments || []);
     } catch (e: any) {
       setError(e.message || "Erro ao carregar campanhas");
     } finally {
@@ -135,6 +471,20 @@ function CampaignsPanel() {
 
   useEffect(() => { load(); }, [load]);
 
+  // Queued sends advance in the background: poll quietly while any is running
+  const hasActiveSend = campaigns.some((c) => c.status === "sending" || (c.status === "cancelled" && c.queue && !c.queue.finishedAt));
+  useEffect(() => {
+    if (!hasActiveSend) return;
+    const timer = setInterval(async () => {
+      try {
+        const token = await getToken();
+        const res = await api.getEmktCampaigns(token);
+        setCampaigns(res.campaigns || []);
+      } catch { /* next tick */ }
+    }, 10000);
+    return () => clearInterval(timer);
+  }, [hasActiveSend]);
+
   const resetForm = () => {
     setName("");
     setSubject("");
@@ -145,6 +495,7 @@ function CampaignsPanel() {
     setTemplateId(null);
     setTargetTags([]);
     setTagInput("");
+    setSegmentId(null);
     setEditing(null);
   };
 
@@ -163,6 +514,7 @@ function CampaignsPanel() {
     setReplyTo(c.replyTo);
     setTemplateId(c.templateId);
     setTargetTags(c.targetTags || []);
+    setSegmentId(c.segmentId || null);
     setShowEditor(true);
   };
 
@@ -171,7 +523,7 @@ function CampaignsPanel() {
     setSaving(true);
     try {
       const token = await getToken();
-      const data = { name, subject, htmlBody, senderName, senderEmail, replyTo, templateId, targetTags };
+      const data = { name, subject, htmlBody, senderName, senderEmail, replyTo, templateId, targetTags, segmentId };
       if (editing) {
         await api.updateEmktCampaign(token, editing.id, data);
       } else {
@@ -208,16 +560,31 @@ function CampaignsPanel() {
     }
   };
 
+  const openConfirmSend = (id: string) => {
+    setScheduleLater(false);
+    setScheduleAt(toLocalInput(Date.now() + 60 * 60 * 1000));
+    setConfirmSendId(id);
+  };
+
   const handleSend = async (id: string) => {
+    let when: number | null = null;
+    if (scheduleLater) {
+      when = new Date(scheduleAt).getTime();
+      if (!scheduleAt || !isFinite(when) || when <= Date.now()) {
+        setSendResult({ ok: false, message: "Escolha uma data e hora no futuro para o agendamento." });
+        return;
+      }
+    }
     setSending(id);
     setSendResult(null);
     try {
       const token = await getToken();
-      const res = await api.sendEmktCampaign(token, id);
+      const res = await api.sendEmktCampaign(token, id, when);
       setSendResult({
         ok: true,
-        message: "Enviada com sucesso! " + res.totalSent + " de " + res.totalRecipients + " emails enviados." +
-          (res.totalFailed > 0 ? " " + res.totalFailed + " falharam." : ""),
+        message: res.status === "scheduled"
+          ? "Campanha agendada para " + fmtDate(res.scheduledAt) + "."
+          : "Envio iniciado para " + res.totalRecipients + " destinatários. Os emails saem em lotes, respeitando os limites do SMTP.",
       });
       await load();
     } catch (e: any) {
@@ -228,6 +595,22 @@ function CampaignsPanel() {
     }
   };
 
+  const handleQueueAction = async (c: EmktCampaign, action: "pause" | "resume" | "cancel") => {
+    if (action === "cancel" && !confirm(c.status === "scheduled"
+      ? "Cancelar o agendamento? A campanha volta para rascunho."
+      : "Cancelar o envio? Os emails que ainda estão na fila não serão enviados.")) return;
+    setActionBusy(c.id);
+    try {
+      const token = await getToken();
+      await api.controlEmktCampaign(token, c.id, action);
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setActionBusy(null);
+    }
+  };
+
   const handleTestSend = async () => {
     if (!testCampaignId || !testEmail.trim()) return;
     setTestSending(true);
@@ -360,6 +743,29 @@ function CampaignsPanel() {
             )}
 
             {/* Target tags */}
+            <div>
+              <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                Segmento de Clientes
+                <span className="text-gray-400 font-normal ml-1">(só assinantes ativos que estão no segmento)</span>
+              </label>
+              <select
+                value={segmentId || ""}
+                onChange={(e) => setSegmentId(e.target.value || null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 focus:border-red-500 outline-none"
+                style={{ fontSize: "0.85rem" }}
+              >
+                <option value="">Todos os assinantes</option>
+                {segments.map((seg) => (
+                  <option key={seg.id} value={seg.id}>
+                    {seg.name + (seg.lastCount !== null ? " (" + seg.lastCount + " clientes)" : "")}
+                  </option>
+                ))}
+              </select>
+              {segmentId && !segments.some((seg) => seg.id === segmentId) && (
+                <p className="mt-1 text-red-600" style={{ fontSize: "0.72rem" }}>O segmento escolhido foi excluído. Escolha outro.</p>
+              )}
+            </div>
+
             <div>
               <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
                 Tags de Segmentacao
@@ -532,13 +938,19 @@ function CampaignsPanel() {
                         <Clock className="w-3 h-3" />
                         Criada: {fmtDate(c.createdAt)}
                       </span>
+                      {c.status === "scheduled" && c.scheduledAt && (
+                        <span className="text-blue-600 flex items-center gap-1" style={{ fontSize: "0.7rem" }}>
+                          <CalendarClock className="w-3 h-3" />
+                          Agendada para: {fmtDate(c.scheduledAt)}
+                        </span>
+                      )}
                       {c.sentAt && (
                         <span className="text-green-600 flex items-center gap-1" style={{ fontSize: "0.7rem" }}>
                           <Send className="w-3 h-3" />
-                          Enviada: {fmtDate(c.sentAt)}
+                          {c.status === "cancelled" ? "Cancelada" : "Enviada"}: {fmtDate(c.sentAt)}
                         </span>
                       )}
-                      {c.totalSent > 0 && (
+                      {c.totalSent > 0 && !c.queue && (
                         <span className="text-blue-600 flex items-center gap-1" style={{ fontSize: "0.7rem" }}>
                           <Users className="w-3 h-3" />
                           {c.totalSent} enviados
@@ -546,9 +958,21 @@ function CampaignsPanel() {
                         </span>
                       )}
                     </div>
-                    {c.targetTags && c.targetTags.length > 0 && (
+                    {c.scheduleError && c.status === "draft" && (
+                      <p className="mt-2 text-red-600 flex items-center gap-1" style={{ fontSize: "0.72rem" }}>
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        O envio agendado não começou: {c.scheduleError}
+                      </p>
+                    )}
+                    {c.queue && <QueueProgressBar queue={c.queue} />}
+                    {((c.targetTags && c.targetTags.length > 0) || c.segmentId) && (
                       <div className="flex flex-wrap gap-1 mt-2">
-                        {c.targetTags.map((tag) => (
+                        {c.segmentId && (
+                          <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 border border-indigo-100" style={{ fontSize: "0.65rem" }}>
+                            <Users className="w-2.5 h-2.5" />{segments.find((seg) => seg.id === c.segmentId)?.name || "Segmento excluído"}
+                          </span>
+                        )}
+                        {(c.targetTags || []).map((tag) => (
                           <span key={tag} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-blue-50 text-blue-600 border border-blue-100" style={{ fontSize: "0.65rem" }}>
                             <Tag className="w-2.5 h-2.5" />{tag}
                           </span>
@@ -567,7 +991,7 @@ function CampaignsPanel() {
                           <TestTube className="w-4 h-4" />
                         </button>
                         <button
-                          onClick={() => setConfirmSendId(c.id)}
+                          onClick={() => openConfirmSend(c.id)}
                           disabled={sending === c.id}
                           className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
                           title="Enviar campanha"
@@ -579,6 +1003,51 @@ function CampaignsPanel() {
                         </button>
                       </>
                     )}
+                    {c.status === "scheduled" && (
+                      <button onClick={() => openEdit(c)} className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors" title="Editar">
+                        <Edit3 className="w-4 h-4" />
+                      </button>
+                    )}
+                    {c.status === "sending" && c.queue && (
+                      <button
+                        onClick={() => handleQueueAction(c, "pause")}
+                        disabled={actionBusy === c.id}
+                        className="p-2 text-gray-400 hover:text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+                        title="Pausar envio"
+                      >
+                        <Pause className="w-4 h-4" />
+                      </button>
+                    )}
+                    {c.status === "paused" && (
+                      <button
+                        onClick={() => handleQueueAction(c, "resume")}
+                        disabled={actionBusy === c.id}
+                        className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                        title="Retomar envio"
+                      >
+                        <Play className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(c.status === "scheduled" || c.status === "sending" || c.status === "paused") && (
+                      <button
+                        onClick={() => handleQueueAction(c, "cancel")}
+                        disabled={actionBusy === c.id}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title={c.status === "scheduled" ? "Cancelar agendamento" : "Cancelar envio"}
+                      >
+                        {actionBusy === c.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                      </button>
+                    )}
+                    {c.queue && (
+                      <button onClick={() => setRecipientsFor(c)} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors" title="Destinatários">
+                        <List className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(c.queue || c.status === "sent") && (
+                      <button onClick={() => setStatsFor(c)} className="p-2 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors" title="Resultados">
+                        <BarChart3 className="w-4 h-4" />
+                      </button>
+                    )}
                     <button onClick={() => handleDuplicate(c.id)} className="p-2 text-gray-400 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors" title="Duplicar">
                       <Copy className="w-4 h-4" />
                     </button>
@@ -610,8 +1079,28 @@ function CampaignsPanel() {
                 Tem certeza que deseja enviar esta campanha?
               </p>
               <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>
-                Esta ação não pode ser desfeita. Os e-mails serão enviados para todos os assinantes ativos{campaigns.find((c) => c.id === confirmSendId)?.targetTags?.length ? " com as tags selecionadas" : ""}.
+                Os e-mails serão enviados para todos os assinantes ativos{campaigns.find((c) => c.id === confirmSendId)?.segmentId ? " do segmento escolhido" : ""}{campaigns.find((c) => c.id === confirmSendId)?.targetTags?.length ? " com as tags selecionadas" : ""}, em lotes, respeitando os limites do SMTP. O envio pode ser pausado ou cancelado enquanto estiver na fila.
               </p>
+              <div className="mt-4 text-left space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={!scheduleLater} onChange={() => setScheduleLater(false)} className="text-red-600 focus:ring-red-500" />
+                  <span className="text-gray-700" style={{ fontSize: "0.82rem" }}>Enviar agora</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={scheduleLater} onChange={() => setScheduleLater(true)} className="text-red-600 focus:ring-red-500" />
+                  <span className="text-gray-700" style={{ fontSize: "0.82rem" }}>Agendar para</span>
+                </label>
+                {scheduleLater && (
+                  <input
+                    type="datetime-local"
+                    value={scheduleAt}
+                    min={toLocalInput(Date.now())}
+                    onChange={(e) => setScheduleAt(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                    style={{ fontSize: "0.82rem" }}
+                  />
+                )}
+              </div>
               <div className="flex items-center justify-center gap-3 mt-6">
                 <button
                   onClick={() => setConfirmSendId(null)}
@@ -626,8 +1115,8 @@ function CampaignsPanel() {
                   className="px-5 py-2.5 bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white rounded-lg flex items-center gap-2 transition-colors"
                   style={{ fontSize: "0.85rem", fontWeight: 600 }}
                 >
-                  {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-                  Sim, Enviar
+                  {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : scheduleLater ? <CalendarClock className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                  {scheduleLater ? "Agendar" : "Sim, Enviar"}
                 </button>
               </div>
             </div>
@@ -635,6 +1124,9 @@ function CampaignsPanel() {
         </div>
       )}
 
+      {recipientsFor && <RecipientsDialog campaign={recipientsFor} onClose={() => setRecipientsFor(null)} />}
+      {statsFor && <CampaignStatsDialog campaign={statsFor} onClose={() => setStatsFor(null)} />}
+
       {/* Test Email Dialog */}
       {testCampaignId && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={() => { setTestCampaignId(null); setTestResult(null); }}>
@@ -904,10 +1396,11 @@ function SubscribersPanel() {
                     <td className="px-4 py-3 text-center">
                       <button
                         onClick={() => handleToggleActive(s)}
-                        className={"px-2 py-0.5 rounded-full border " + (s.active ? "bg-green-50 text-green-700 border-green-200" : "bg-gray-100 text-gray-500 border-gray-200")}
+                        className={"px-2 py-0.5 rounded-full border " + (s.active ? "bg-green-50 text-green-700 border-green-200" : s.inactiveReason && s.inactiveReason !== "unsubscribe" ? "bg-red-50 text-red-600 border-red-200" : "bg-gray-100 text-gray-500 border-gray-200")}
                         style={{ fontSize: "0.7rem", fontWeight: 500 }}
+                        title={!s.active && s.inactiveReason ? INACTIVE_REASON_LABELS[s.inactiveReason] + (s.inactiveAt ? " em " + fmtDate(s.inactiveAt) : "") + (s.lastBounce ? " — " + s.lastBounce : "") : undefined}
                       >
-                        {s.active ? "Ativo" : "Inativo"}
+                        {s.active ? "Ativo" : s.inactiveReason ? INACTIVE_REASON_LABELS[s.inactiveReason] : "Inativo"}
                       </button>
                     </td>
                     <td className="px-4 py-3 text-center text-gray-400" style={{ fontSize: "0.75rem" }}>{fmtDate(s.createdAt)}</td>
@@ -1314,6 +1807,11 @@ function HistoryPanel() {
                           <XCircle className="w-3 h-3" /> {log.totalFailed} falhas
                         </span>
                       )}
+                      {(log.totalCancelled || 0) > 0 && (
+                        <span className="text-gray-500 flex items-center gap-1" style={{ fontSize: "0.72rem" }}>
+                          <Ban className="w-3 h-3" /> {log.totalCancelled} cancelados
+                        </span>
+                      )}
                     </div>
                     {/* Delivery rate bar */}
                     <div className="mt-2 flex items-center gap-2">
@@ -1389,6 +1887,15 @@ function ConfigPanel() {
   const [senderEmail, setSenderEmail] = useState("");
   const [replyTo, setReplyTo] = useState("");
 
+  // Queue throttle
+  const [maxPerMinute, setMaxPerMinute] = useState(30);
+  const [maxPerHour, setMaxPerHour] = useState(1000);
+  const [maxAttempts, setMaxAttempts] = useState(4);
+
+  // Preferences page topics
+  const [topics, setTopics] = useState<EmktPreferenceTopic[]>([]);
+  const [webhookCopied, setWebhookCopied] = useState(false);
+
   const load = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -1404,6 +1911,10 @@ function ConfigPanel() {
       setSenderName(res.defaultSenderName || "");
       setSenderEmail(res.defaultSenderEmail || "");
       setReplyTo(res.defaultReplyTo || "");
+      setMaxPerMinute(res.maxPerMinute || 30);
+      setMaxPerHour(res.maxPerHour || 1000);
+      setMaxAttempts(res.maxAttempts || 4);
+      setTopics(res.preferenceTopics || []);
     } catch (e: any) {
       setError(e.message);
     } finally {
@@ -1421,6 +1932,8 @@ function ConfigPanel() {
       const data: any = {
         smtpHost, smtpPort, smtpUser, smtpSecure,
         defaultSenderName: senderName, defaultSenderEmail: senderEmail, defaultReplyTo: replyTo,
+        maxPerMinute, maxPerHour, maxAttempts,
+        preferenceTopics: topics.filter((t) => t.tag.trim()),
       };
       if (smtpPass.trim()) {
         data.smtpPass = smtpPass;
@@ -1518,7 +2031,7 @@ function ConfigPanel() {
             <h4 className="text-gray-900" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Servidor SMTP</h4>
             <div className={"inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-semibold " + (config?.smtpConfigured ? "bg-green-50 text-green-700 border border-green-200" : "bg-red-50 text-red-700 border border-red-200")}>
               {config?.smtpConfigured ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
-              {config?.smtpConfigured ? "Configurado" : "Não configurado"}
+              {config?.smtpConfigured ? (config.smtpLocal ? "Configurado (local)" : "Configurado") : "Não configurado"}
             </div>
           </div>
         </div>
@@ -1526,6 +2039,9 @@ function ConfigPanel() {
           <p className="text-gray-500" style={{ fontSize: "0.78rem" }}>
             Configure os dados do seu servidor SMTP para enviar emails. Exemplos: Gmail (smtp.gmail.com:587), Outlook (smtp.office365.com:587), ou seu proprio servidor.
           </p>
+          <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+            Para testes (fora de produção), um SMTP local (Mailpit, MailHog) em localhost funciona sem usuário e senha: os emails ficam na caixa do servidor local.
+          </p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Host SMTP *</label>
@@ -1652,6 +2168,111 @@ function ConfigPanel() {
         </div>
       </div>
 
+      {/* Queue throttle */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden mt-5">
+        <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
+          <h4 className="text-gray-900" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Limites de Envio</h4>
+        </div>
+        <div className="p-6 space-y-4">
+          <p className="text-gray-500" style={{ fontSize: "0.78rem" }}>
+            As campanhas saem de uma fila, em lotes a cada minuto. Ajuste aos limites do seu provedor SMTP. Falhas temporárias são tentadas de novo com espera crescente (1 min, 5 min, 15 min, 1 h).
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Emails por minuto</label>
+              <input type="number" min={1} max={600} value={maxPerMinute} onChange={(e) => setMaxPerMinute(Number(e.target.value) || 1)} className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 outline-none" style={{ fontSize: "0.85rem" }} />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Emails por hora</label>
+              <input type="number" min={1} max={36000} value={maxPerHour} onChange={(e) => setMaxPerHour(Number(e.target.value) || 1)} className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 outline-none" style={{ fontSize: "0.85rem" }} />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Tentativas por email</label>
+              <input type="number" min={1} max={10} value={maxAttempts} onChange={(e) => setMaxAttempts(Number(e.target.value) || 1)} className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 outline-none" style={{ fontSize: "0.85rem" }} />
+            </div>
+          </div>
+          <div className="flex items-center justify-end pt-3 border-t border-gray-100">
+            <button onClick={handleSave} disabled={saving} className="px-5 py-2.5 bg-red-600 hover:bg-red-700 disabled:bg-red-300 text-white rounded-lg flex items-center gap-2 transition-colors" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Salvar Tudo
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Unsubscribe preferences + bounces */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden mt-5">
+        <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
+          <h4 className="text-gray-900" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Descadastro e Bounces</h4>
+        </div>
+        <div className="p-6 space-y-5">
+          <div>
+            <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Assuntos na página de preferências</label>
+            <p className="text-gray-500 mb-3" style={{ fontSize: "0.75rem" }}>
+              Cada email leva um link de descadastro e de preferências. O assinante marca os assuntos que quer receber; cada assunto corresponde a uma tag. Sem assuntos, a página oferece apenas o descadastro.
+            </p>
+            <div className="space-y-2">
+              {topics.map((t, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    value={t.tag}
+                    onChange={(e) => setTopics(topics.map((x, j) => j === i ? { ...x, tag: e.target.value } : x))}
+                    placeholder="tag"
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                    style={{ fontSize: "0.8rem" }}
+                  />
+                  <input
+                    value={t.label}
+                    onChange={(e) => setTopics(topics.map((x, j) => j === i ? { ...x, label: e.target.value } : x))}
+                    placeholder="Texto exibido (ex.: Ofertas de linha pesada)"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-500 outline-none"
+                    style={{ fontSize: "0.8rem" }}
+                  />
+                  <button onClick={() => setTopics(topics.filter((_, j) => j !== i))} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {topics.length < 20 && (
+                <button
+                  onClick={() => setTopics(topics.concat([{ tag: "", label: "" }]))}
+                  className="flex items-center gap-1.5 text-red-600 hover:text-red-700"
+                  style={{ fontSize: "0.8rem", fontWeight: 500 }}
+                >
+                  <Plus className="w-4 h-4" /> Adicionar assunto
+                </button>
+              )}
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Webhook de bounces e reclamações</label>
+            <p className="text-gray-500 mb-2" style={{ fontSize: "0.75rem" }}>
+              Cadastre esta URL no provedor de envio (Amazon SES via SNS, SendGrid ou similar). Bounces definitivos e marcações como spam desativam o assinante. Endereços recusados pelo servidor SMTP durante o envio são desativados automaticamente.
+            </p>
+            <div className="flex items-center gap-2">
+              <input readOnly value={config?.bounceWebhookUrl || ""} className="flex-1 px-3 py-2 border border-gray-200 bg-gray-50 rounded-lg text-gray-600 outline-none font-mono" style={{ fontSize: "0.72rem" }} />
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(config?.bounceWebhookUrl || "").catch(() => {});
+                  setWebhookCopied(true);
+                  setTimeout(() => setWebhookCopied(false), 2000);
+                }}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Copiar"
+              >
+                {webhookCopied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-end pt-3 border-t border-gray-100">
+            <button onClick={handleSave} disabled={saving} className="px-5 py-2.5 bg-red-600 hover:bg-red-700 disabled:bg-red-300 text-white rounded-lg flex items-center gap-2 transition-colors" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Salvar Tudo
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Variable reference */}
       <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden mt-5">
         <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
@@ -1671,10 +2292,18 @@ function ConfigPanel() {
                   <td className="py-2 pr-4"><code className="bg-gray-100 px-2 py-0.5 rounded text-red-600" style={{ fontSize: "0.8rem" }}>{"{{nome}}"}</code></td>
                   <td className="py-2 text-gray-600" style={{ fontSize: "0.8rem" }}>Nome do assinante</td>
                 </tr>
-                <tr>
+                <tr className="border-b border-gray-50">
                   <td className="py-2 pr-4"><code className="bg-gray-100 px-2 py-0.5 rounded text-red-600" style={{ fontSize: "0.8rem" }}>{"{{email}}"}</code></td>
                   <td className="py-2 text-gray-600" style={{ fontSize: "0.8rem" }}>Email do assinante</td>
                 </tr>
+                <tr className="border-b border-gray-50">
+                  <td className="py-2 pr-4"><code className="bg-gray-100 px-2 py-0.5 rounded text-red-600" style={{ fontSize: "0.8rem" }}>{"{{descadastrar}}"}</code></td>
+                  <td className="py-2 text-gray-600" style={{ fontSize: "0.8rem" }}>Link de descadastro (sem ele, um rodape padrao e incluido)</td>
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4"><code className="bg-gray-100 px-2 py-0.5 rounded text-red-600" style={{ fontSize: "0.8rem" }}>{"{{preferencias}}"}</code></td>
+                  <td className="py-2 text-gray-600" style={{ fontSize: "0.8rem" }}>Link da pagina de preferencias de email</td>
+                </tr>
               </tbody>
             </table>
           </div>
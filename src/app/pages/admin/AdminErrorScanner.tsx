@@ -74,9 +74,12 @@ var ADMIN_MODULES = [
   { name: "AdminHomepageCategories", path: "./pages/admin/AdminHomepageCategories", importPath: "./AdminHomepageCategories" },
   { name: "AdminSuperPromo", path: "./pages/admin/AdminSuperPromo", importPath: "./AdminSuperPromo" },
   { name: "AdminBrands", path: "./pages/admin/AdminBrands", importPath: "./AdminBrands" },
+  { name: "AdminVehicles", path: "./pages/admin/AdminVehicles", importPath: "./AdminVehicles" },
+  { name: "AdminFitmentEditor", path: "./pages/admin/AdminFitmentEditor", importPath: "./AdminFitmentEditor" },
   { name: "AdminAutoCateg", path: "./pages/admin/AdminAutoCateg", importPath: "./AdminAutoCateg" },
   { name: "AdminBulkCategoryAssign", path: "./pages/admin/AdminBulkCategoryAssign", importPath: "./AdminBulkCategoryAssign" },
   { name: "AdminReviews", path: "./pages/admin/AdminReviews", importPath: "./AdminReviews" },
+  { name: "AdminProductQuestions", path: "./pages/admin/AdminProductQuestions", importPath: "./AdminProductQuestions" },
   { name: "AdminApiSige", path: "./pages/admin/AdminApiSige", importPath: "./AdminApiSige" },
   { name: "AdminPagHiper", path: "./pages/admin/AdminPagHiper", importPath: "./AdminPagHiper" },
   { name: "AdminMercadoPago", path: "./pages/admin/AdminMercadoPago", importPath: "./AdminMercadoPago" },
@@ -91,6 +94,12 @@ var ADMIN_MODULES = [
   { name: "AdminEmailMarketing", path: "./pages/admin/AdminEmailMarketing", importPath: "./AdminEmailMarketing" },
   { name: "AdminLgpdRequests", path: "./pages/admin/AdminLgpdRequests", importPath: "./AdminLgpdRequests" },
   { name: "AdminWarranty", path: "./pages/admin/AdminWarranty", importPath: "./AdminWarranty" },
+  { name: "AdminReturns", path: "./pages/admin/AdminReturns", importPath: "./AdminReturns" },
+  { name: "AdminWarrantyClaims", path: "./pages/admin/AdminWarrantyClaims", importPath: "./AdminWarrantyClaims" },
+  { name: "AdminStockReservations", path: "./pages/admin/AdminStockReservations", importPath: "./AdminStockReservations" },
+  { name: "AdminProductAlerts", path: "./pages/admin/AdminProductAlerts", importPath: "./AdminProductAlerts" },
+  { name: "AdminSegments", path: "./pages/admin/AdminSegments", importPath: "./AdminSegments" },
+  { name: "AdminSigeSync", path: "./pages/admin/AdminSigeSync", importPath: "./AdminSigeSync" },
   { name: "AdminAffiliates", path: "./pages/admin/AdminAffiliates", importPath: "./AdminAffiliates" },
   { name: "AdminBranches", path: "./pages/admin/AdminBranches", importPath: "./AdminBranches" },
   { name: "AdminRegressionTest", path: "./pages/admin/AdminRegressionTest", importPath: "./AdminRegressionTest" },
@@ -181,9 +190,12 @@ function getModuleImporter(name: string): (() => Promise<any>) | null {
     "AdminHomepageCategories": function () { return import("./AdminHomepageCategories"); },
     "AdminSuperPromo": function () { return import("./AdminSuperPromo"); },
     "AdminBrands": function () { return import("./AdminBrands"); },
+    "AdminVehicles": function () { return import("./AdminVehicles"); },
+    "AdminFitmentEditor": function () { return import("./AdminFitmentEditor"); },
     "AdminAutoCateg": function () { return import("./AdminAutoCateg"); },
     "AdminBulkCategoryAssign": function () { return import("./AdminBulkCategoryAssign"); },
     "AdminReviews": function () { return import("./AdminReviews"); },
+    "AdminProductQuestions": function () { return import("./AdminProductQuestions"); },
     "AdminApiSige": function () { return import("./AdminApiSige"); },
     "AdminPagHiper": function () { return import("./AdminPagHiper"); },
     "AdminMercadoPago": function () { return import("./AdminMercadoPago"); },
@@ -198,6 +210,12 @@ function getModuleImporter(name: string): (() => Promise<any>) | null {
     "AdminEmailMarketing": function () { return import("./AdminEmailMarketing"); },
     "AdminLgpdRequests": function () { return import("./AdminLgpdRequests"); },
     "AdminWarranty": function () { return import("./AdminWarranty"); },
+    "AdminReturns": function () { return import("./AdminReturns"); },
+    "AdminWarrantyClaims": function () { return import("./AdminWarrantyClaims"); },
+    "AdminStockReservations": function () { return import("./AdminStockReservations"); },
+    "AdminProductAlerts": function () { return import("./AdminProductAlerts"); },
+    "AdminSegments": function () { return import("./AdminSegments"); },
+    "AdminSigeSync": function () { return import("./AdminSigeSync"); },
     "AdminAffiliates": function () { return import("./AdminAffiliates"); },
     "AdminBranches": function () { return import("./AdminBranches"); },
     "AdminRegressionTest": function () { return import("./AdminRegressionTest"); },
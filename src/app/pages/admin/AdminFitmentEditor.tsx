@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Plus, Trash2, Car } from "lucide-react";
+import type { ProductFitment, VehicleCatalog } from "../../services/api";
+import { formatFitmentLabel } from "../../services/api";
+
+// ─── Structured fitment editor (make → model → year range → engine) ───
+// Shared by AdminProducts (product metadata) and AdminVehicles (review queue).
+
+interface AdminFitmentEditorProps {
+  catalog: VehicleCatalog | null;
+  value: ProductFitment[];
+  onChange: (next: ProductFitment[]) => void;
+  compact?: boolean;
+}
+
+export function AdminFitmentEditor({ catalog, value, onChange, compact }: AdminFitmentEditorProps) {
+  const [make, setMake] = useState("");
+  const [model, setModel] = useState("");
+  const [yearFrom, setYearFrom] = useState("");
+  const [yearTo, setYearTo] = useState("");
+  const [engine, setEngine] = useState("");
+
+  var makes = catalog ? catalog.makes : [];
+  var selectedMake = makes.find(function (m) { return m.id === make; }) || null;
+  var models = selectedMake ? selectedMake.models : [];
+  var selectedModel = models.find(function (m) { return m.id === model; }) || null;
+  var engines = selectedModel
+    ? Array.from(new Set(selectedModel.versions.map(function (v) { return v.engine || ""; }).filter(Boolean)))
+    : [];
+
+  var canAdd = !!make && !!model;
+
+  function handleAdd() {
+    if (!canAdd) return;
+    var yf = parseInt(yearFrom, 10);
+    var yt = parseInt(yearTo, 10);
+    var entry: ProductFitment = {
+      make: make,
+      model: model,
+      yearFrom: isNaN(yf) ? null : yf,
+      yearTo: isNaN(yt) ? null : yt,
+      engine: engine.trim() ? engine.trim().toUpperCase() : null,
+    };
+    var dup = value.some(function (f) {
+      return f.make === entry.make && f.model === entry.model && f.yearFrom === entry.yearFrom && f.yearTo === entry.yearTo && (f.engine || null) === entry.engine;
+    });
+    if (!dup) onChange(value.concat([entry]));
+    setYearFrom("");
+    setYearTo("");
+    setEngine("");
+  }
+
+  function handleRemove(idx: number) {
+    onChange(value.filter(function (_f, i) { return i !== idx; }));
+  }
+
+  var inputCls = "border border-gray-200 rounded-lg px-2.5 py-1.5 focus:outline-none focus:ring-2 focus:ring-red-200 focus:border-red-400 bg-white";
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map(function (f, idx) {
+            return (
+              <span
+                key={f.make + f.model + idx}
+                className="inline-flex items-center gap-1.5 bg-gray-100 text-gray-700 rounded-full pl-2.5 pr-1 py-0.5"
+                style={{ fontSize: "0.75rem" }}
+                title={f.raw ? "Original: " + f.raw : undefined}
+              >
+                <Car className="w-3 h-3 text-gray-400" />
+                {formatFitmentLabel(f, catalog)}
+                <button
+                  type="button"
+                  onClick={function () { handleRemove(idx); }}
+                  className="p-0.5 rounded-full hover:bg-red-100 text-gray-400 hover:text-red-600"
+                  title="Remover aplicacao"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      ) : (
+        !compact && (
+          <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>
+            Nenhuma aplicacao cadastrada.
+          </p>
+        )
+      )}
+
+      <div className="flex flex-wrap items-end gap-2" style={{ fontSize: "0.78rem" }}>
+        <select
+          value={make}
+          onChange={function (e) { setMake(e.target.value); setModel(""); setEngine(""); }}
+          className={inputCls}
+        >
+          <option value="">Montadora</option>
+          {makes.map(function (m) { return <option key={m.id} value={m.id}>{m.name}</option>; })}
+        </select>
+        <select
+          value={model}
+          onChange={function (e) { setModel(e.target.value); setEngine(""); }}
+          className={inputCls}
+          disabled={!selectedMake}
+        >
+          <option value="">Modelo</option>
+          {models.map(function (m) { return <option key={m.id} value={m.id}>{m.name}</option>; })}
+        </select>
+        <input
+          type="number"
+          value={yearFrom}
+          onChange={function (e) { setYearFrom(e.target.value); }}
+          placeholder="Ano de"
+          className={inputCls + " w-24"}
+        />
+        <input
+          type="number"
+          value={yearTo}
+          onChange={function (e) { setYearTo(e.target.value); }}
+          placeholder="Ano ate"
+          className={inputCls + " w-24"}
+        />
+        <input
+          type="text"
+          value={engine}
+          onChange={function (e) { setEngine(e.target.value); }}
+          placeholder="Motor (opcional)"
+          list={selectedModel ? "fitment-engines-" + selectedModel.id : undefined}
+          className={inputCls + " w-36"}
+        />
+        {selectedModel && (
+          <datalist id={"fitment-engines-" + selectedModel.id}>
+            {engines.map(function (en) { return <option key={en} value={en} />; })}
+          </datalist>
+        )}
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-900 text-white disabled:opacity-40 transition-colors"
+          style={{ fontWeight: 600 }}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Adicionar
+        </button>
+      </div>
+    </div>
+  );
+}
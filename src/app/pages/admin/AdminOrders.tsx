@@ -2,7 +2,8 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { getValidAdminToken } from "./adminAuth";
 import * as api from "../../services/api";
 import type { AdminOrder } from "../../services/api";
-import { ShoppingCart, Loader2, Search, RefreshCw, ChevronDown, ChevronUp, CheckCircle2, Clock, AlertCircle, Ban, XCircle, Package, MapPin, User, Mail, FileText, CreditCard, Zap, DollarSign, Truck, Eye, Filter, ArrowUpDown, Hash, Calendar, ExternalLink, RotateCcw, ShieldCheck } from "lucide-react";
+import { ORDER_STATUS_STYLES, ORDER_ACTOR_LABELS, getOrderStatusStyle, isPaidOrderStatus } from "../../data/orderStatus";
+import { ShoppingCart, Loader2, Search, RefreshCw, ChevronDown, ChevronUp, CheckCircle2, Clock, AlertCircle, Ban, XCircle, Package, MapPin, User, Mail, FileText, CreditCard, Zap, DollarSign, Truck, Eye, Filter, ArrowUpDown, Hash, Calendar, ExternalLink, RotateCcw, ShieldCheck, Car, History, ArrowRight, Undo2, Store, KeyRound } from "lucide-react";
 
 /* ===================================================
    Helpers
@@ -35,22 +36,8 @@ function formatBRL(value: number | null | undefined): string {
   });
 }
 
-type OrderStatus = "paid" | "awaiting_payment" | "sige_registered" | "cancelled" | string;
-
-const statusConfig: Record<string, { bg: string; text: string; border: string; icon: typeof CheckCircle2; label: string }> = {
-  paid: { bg: "bg-green-50", text: "text-green-700", border: "border-green-200", icon: CheckCircle2, label: "Pago" },
-  awaiting_payment: { bg: "bg-yellow-50", text: "text-yellow-700", border: "border-yellow-200", icon: Clock, label: "Aguardando Pagamento" },
-  sige_registered: { bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", icon: FileText, label: "Registrado" },
-  cancelled: { bg: "bg-red-50", text: "text-red-700", border: "border-red-200", icon: Ban, label: "Cancelado" },
-  refunded: { bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", icon: XCircle, label: "Reembolsado" },
-};
-
-function getStatusConfig(status: string) {
-  return statusConfig[status] || { bg: "bg-gray-50", text: "text-gray-600", border: "border-gray-200", icon: AlertCircle, label: status };
-}
-
 function StatusBadge({ status }: { status: string }) {
-  const s = getStatusConfig(status);
+  const s = getOrderStatusStyle(status);
   const Icon = s.icon;
   return (
     <span className={"inline-flex items-center gap-1 px-2.5 py-1 rounded-full " + s.bg + " " + s.text + " border " + s.border} style={{ fontSize: "0.75rem", fontWeight: 600 }}>
@@ -98,6 +85,8 @@ export function AdminOrders() {
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
   const [retryingId, setRetryingId] = useState<string | null>(null);
   const [fixingCards, setFixingCards] = useState(false);
+  const [statusNotes, setStatusNotes] = useState<Record<string, string>>({});
+  const [pickupCodes, setPickupCodes] = useState<Record<string, string>>({});
 
   const loadOrders = useCallback(async () => {
     setLoading(true);
@@ -124,15 +113,29 @@ export function AdminOrders() {
       setError("Pedido sem userId ou localOrderId — não pode ser atualizado.");
       return;
     }
+    const pickupCode = (pickupCodes[order.localOrderId] || "").trim();
+    if (order.pickup && order.status === "ready_for_pickup" && newStatus === "delivered" && !pickupCode) {
+      setError("Informe o código de retirada apresentado pelo cliente.");
+      return;
+    }
+    if ((newStatus === "cancelled" || newStatus === "returned") && !confirm("Marcar o pedido #" + order.localOrderId + " como \"" + getOrderStatusStyle(newStatus).label + "\"? Este status e final.")) {
+      return;
+    }
     setUpdatingId(order.localOrderId);
+    setError("");
     try {
       const tk = await getToken();
+      const note = (statusNotes[order.localOrderId] || "").trim();
       await api.adminUpdateOrderStatus(tk, {
         userId: order.createdBy,
         localOrderId: order.localOrderId,
         status: newStatus,
+        note: note || undefined,
+        pickupCode: pickupCode || undefined,
       });
-      setSuccess("Status atualizado para: " + getStatusConfig(newStatus).label);
+      setStatusNotes((prev) => ({ ...prev, [order.localOrderId]: "" }));
+      setPickupCodes((prev) => ({ ...prev, [order.localOrderId]: "" }));
+      setSuccess("Status atualizado para: " + getOrderStatusStyle(newStatus).label);
       setTimeout(() => setSuccess(""), 3000);
       await loadOrders();
     } catch (e: any) {
@@ -207,9 +210,9 @@ export function AdminOrders() {
   const stats = useMemo(() => {
     var paid = 0, awaiting = 0, cancelled = 0, revenue = 0;
     for (var i = 0; i < orders.length; i++) {
-      if (orders[i].status === "paid") { paid++; revenue += (orders[i].total || 0); }
-      else if (orders[i].status === "awaiting_payment") { awaiting++; }
+      if (orders[i].status === "awaiting_payment") { awaiting++; }
       else if (orders[i].status === "cancelled") { cancelled++; }
+      else if (isPaidOrderStatus(orders[i].status) && orders[i].status !== "sige_registered") { paid++; revenue += (orders[i].total || 0) - (orders[i].refundedTotal || 0); }
     }
     return { total: orders.length, paid: paid, awaiting: awaiting, cancelled: cancelled, revenue: revenue };
   }, [orders]);
@@ -362,10 +365,9 @@ export function AdminOrders() {
                 style={{ fontSize: "0.85rem" }}
               >
                 <option value="all">Status: Todos</option>
-                <option value="paid">Pago</option>
-                <option value="awaiting_payment">Aguardando</option>
-                <option value="sige_registered">Registrado</option>
-                <option value="cancelled">Cancelado</option>
+                {Object.keys(ORDER_STATUS_STYLES).map((st) => (
+                  <option key={st} value={st}>{ORDER_STATUS_STYLES[st].label}</option>
+                ))}
               </select>
             </div>
             <select
@@ -433,10 +435,10 @@ export function AdminOrders() {
                 >
                   {/* Status indicator */}
                   <div className="shrink-0">
-                    <div className={"w-9 h-9 rounded-lg flex items-center justify-center " + getStatusConfig(order.status).bg}>
+                    <div className={"w-9 h-9 rounded-lg flex items-center justify-center " + getOrderStatusStyle(order.status).bg}>
                       {(() => {
-                        const Icon = getStatusConfig(order.status).icon;
-                        return <Icon className={"w-4 h-4 " + getStatusConfig(order.status).text} />;
+                        const Icon = getOrderStatusStyle(order.status).icon;
+                        return <Icon className={"w-4 h-4 " + getOrderStatusStyle(order.status).text} />;
                       })()}
                     </div>
                   </div>
@@ -569,6 +571,18 @@ export function AdminOrders() {
                               </p>
                             </div>
                           </div>
+                          {order.pickup && (
+                            <div className="mt-2 flex items-start gap-1.5 bg-teal-50 border border-teal-200 rounded px-2.5 py-1.5">
+                              <Store className="w-3.5 h-3.5 text-teal-600 shrink-0 mt-0.5" />
+                              <div className="text-teal-800" style={{ fontSize: "0.75rem" }}>
+                                <p style={{ fontWeight: 600 }}>Retirada: {order.pickup.nome}</p>
+                                {order.pickup.endereco && <p>{order.pickup.endereco}</p>}
+                                {order.pickup.collectedAt
+                                  ? <p>Retirado em {formatDate(order.pickup.collectedAt)}</p>
+                                  : order.pickup.readyAt && <p>Pronto desde {formatDate(order.pickup.readyAt)} — código enviado ao cliente</p>}
+                              </div>
+                            </div>
+                          )}
                           {order.shippingOption.sisfreteQuoteId && (
                             <div className="mt-2 flex items-center gap-1.5 bg-blue-50 border border-blue-200 rounded px-2.5 py-1.5">
                               <Hash className="w-3.5 h-3.5 text-blue-500 shrink-0" />
@@ -577,6 +591,25 @@ export function AdminOrders() {
                               </span>
                             </div>
                           )}
+                          {order.shippingOption.shippingQuoteId && (
+                            <p className="mt-2 text-gray-500" style={{ fontSize: "0.72rem" }}>
+                              Cotação de frete: <code className="bg-gray-100 px-1 rounded font-mono">{order.shippingOption.shippingQuoteId}</code>
+                              {" "}— reproduza em SisFrete Config → Simulador
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Customer vehicle (Minha Garagem) */}
+                    {order.vehicle && (
+                      <div>
+                        <p className="text-gray-600 mb-2" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Veiculo do Cliente</p>
+                        <div className="bg-white rounded-lg border border-gray-200 p-3 flex items-center gap-2">
+                          <Car className="w-4 h-4 text-gray-400 shrink-0" />
+                          <p className="text-gray-800" style={{ fontSize: "0.85rem", fontWeight: 500 }}>
+                            {order.vehicle.label || api.formatFitmentLabel(order.vehicle, null)}
+                          </p>
                         </div>
                       </div>
                     )}
@@ -643,30 +676,107 @@ export function AdminOrders() {
                       </div>
                     )}
 
+                    {/* Status history */}
+                    {order.statusHistory && order.statusHistory.length > 0 && (
+                      <div>
+                        <p className="text-gray-600 mb-3 flex items-center gap-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                          <History className="w-3.5 h-3.5 text-gray-400" />
+                          Historico de Status ({order.statusHistory.length})
+                        </p>
+                        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                          {order.statusHistory.slice().reverse().map((h, hIdx) => {
+                            const toCfg = getOrderStatusStyle(h.to);
+                            return (
+                              <div key={h.at + "-" + hIdx} className="flex items-start gap-3 px-3 py-2.5">
+                                <span className={"w-2 h-2 rounded-full mt-1.5 shrink-0 " + toCfg.dot} />
+                                <div className="flex-1 min-w-0">
+                                  <div className="flex items-center gap-1.5 flex-wrap" style={{ fontSize: "0.8rem" }}>
+                                    {h.from ? (
+                                      <>
+                                        <span className="text-gray-400">{getOrderStatusStyle(h.from).label}</span>
+                                        <ArrowRight className="w-3 h-3 text-gray-300" />
+                                      </>
+                                    ) : null}
+                                    <span className={toCfg.text} style={{ fontWeight: 600 }}>{toCfg.label}</span>
+                                  </div>
+                                  <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+                                    {formatDate(h.at)} {"\u2022"} {ORDER_ACTOR_LABELS[h.by.type] || h.by.type}
+                                    {h.by.name ? ": " + h.by.name : h.by.id && h.by.type === "system" ? " (" + h.by.id + ")" : ""}
+                                  </p>
+                                  {h.note && (
+                                    <p className="text-gray-600 mt-0.5" style={{ fontSize: "0.75rem" }}>{h.note}</p>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Refunds */}
+                    {order.createdBy && order.status !== "sige_registered" && (isPaidOrderStatus(order.status) || order.status === "returned" || (order.refunds && order.refunds.length > 0)) && (
+                      <RefundPanel
+                        order={order}
+                        onRefunded={(message) => {
+                          setSuccess(message);
+                          setTimeout(() => setSuccess(""), 5000);
+                          loadOrders();
+                        }}
+                      />
+                    )}
+
                     {/* Actions */}
                     <div className="pt-2 border-t border-gray-200">
                       <p className="text-gray-600 mb-3" style={{ fontSize: "0.8rem", fontWeight: 600 }}>Alterar Status</p>
+                      {order.nextStatuses && order.nextStatuses.length > 0 && (
+                        <input
+                          type="text"
+                          value={statusNotes[order.localOrderId] || ""}
+                          onChange={(e) => setStatusNotes((prev) => ({ ...prev, [order.localOrderId]: e.target.value }))}
+                          onClick={(e) => e.stopPropagation()}
+                          maxLength={500}
+                          placeholder="Observacao para o historico (opcional) — ex.: NF 12345, codigo de rastreio..."
+                          className="w-full mb-3 px-3 py-2 border border-gray-200 rounded-lg bg-white outline-none focus:border-red-500 transition-all"
+                          style={{ fontSize: "0.8rem" }}
+                        />
+                      )}
+                      {order.pickup && order.status === "ready_for_pickup" && (
+                        <div className="mb-3 flex items-center gap-2">
+                          <KeyRound className="w-4 h-4 text-teal-600 shrink-0" />
+                          <input
+                            type="text"
+                            value={pickupCodes[order.localOrderId] || ""}
+                            onChange={(e) => setPickupCodes((prev) => ({ ...prev, [order.localOrderId]: e.target.value.toUpperCase() }))}
+                            onClick={(e) => e.stopPropagation()}
+                            maxLength={20}
+                            placeholder="Código de retirada (obrigatório para marcar como entregue)"
+                            className="flex-1 px-3 py-2 border border-teal-200 rounded-lg bg-white outline-none focus:border-teal-500 font-mono transition-all"
+                            style={{ fontSize: "0.8rem", letterSpacing: "0.1em" }}
+                          />
+                        </div>
+                      )}
                       <div className="flex flex-wrap gap-2">
-                        {["paid", "awaiting_payment", "sige_registered", "cancelled"].map((st) => {
-                          const cfg = getStatusConfig(st);
+                        <span
+                          className={"flex items-center gap-1.5 px-3 py-2 rounded-lg border " + getOrderStatusStyle(order.status).bg + " " + getOrderStatusStyle(order.status).border + " " + getOrderStatusStyle(order.status).text}
+                          style={{ fontSize: "0.78rem", fontWeight: 600 }}
+                        >
+                          {getOrderStatusStyle(order.status).label} (atual)
+                        </span>
+                        {(order.nextStatuses || []).map((st) => {
+                          const cfg = getOrderStatusStyle(st);
                           const Icon = cfg.icon;
-                          const isActive = order.status === st;
                           const isUpdating = updatingId === order.localOrderId;
                           return (
                             <button
                               key={st}
                               onClick={(e) => {
                                 e.stopPropagation();
-                                if (!isActive) handleUpdateStatus(order, st);
+                                handleUpdateStatus(order, st);
                               }}
-                              disabled={isActive || isUpdating}
-                              className={
-                                "flex items-center gap-1.5 px-3 py-2 rounded-lg border transition-colors " +
-                                (isActive
-                                  ? cfg.bg + " " + cfg.border + " " + cfg.text + " cursor-default"
-                                  : "border-gray-200 text-gray-600 hover:bg-gray-100")
-                              }
-                              style={{ fontSize: "0.78rem", fontWeight: isActive ? 600 : 400 }}
+                              disabled={isUpdating}
+                              className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-100 transition-colors"
+                              style={{ fontSize: "0.78rem" }}
                             >
                               {isUpdating ? (
                                 <Loader2 className="w-3.5 h-3.5 animate-spin" />
@@ -674,10 +784,14 @@ export function AdminOrders() {
                                 <Icon className="w-3.5 h-3.5" />
                               )}
                               {cfg.label}
-                              {isActive && " (atual)"}
                             </button>
                           );
                         })}
+                        {order.nextStatuses && order.nextStatuses.length === 0 && order.createdBy && order.status !== "sige_registered" && (
+                          <span className="flex items-center text-gray-400 px-1" style={{ fontSize: "0.75rem" }}>
+                            Status final — nenhuma transicao disponivel.
+                          </span>
+                        )}
                         {!order.sigeOrderId && (
                           <button
                             onClick={(e) => {
@@ -747,4 +861,304 @@ function DetailField({
       </p>
     </div>
   );
-}
\ No newline at end of file
+}
+/* ===================================================
+   Refund Panel
+   =================================================== */
+
+const REFUND_PROVIDER_LABELS: Record<string, string> = {
+  mercadopago: "Mercado Pago (estorno automatico)",
+  paghiper: "PagHiper — transferencia manual ao cliente",
+  manual: "Manual — transferencia ao cliente",
+  mock: "Provedor simulado (teste)",
+};
+
+function newRefundRequestId(): string {
+  return "rf-" + Date.now().toString(36) + "-" + Math.random().toString(36).substring(2, 10);
+}
+
+function RefundPanel({ order, onRefunded }: { order: AdminOrder; onRefunded: (message: string) => void }) {
+  const refunds = order.refunds || [];
+  // Pending manual refunds already hold their share of the balance
+  const pendingTotal = refunds.filter((r) => r.status === "pending_manual").reduce((sum, r) => sum + r.amount, 0);
+  const refundable = Math.max(0, Math.round((order.total - (order.refundedTotal || 0) - pendingTotal) * 100) / 100);
+  const refundedQty: Record<string, number> = {};
+  refunds.forEach((r) => (r.items || []).forEach((it) => { refundedQty[it.sku] = (refundedQty[it.sku] || 0) + it.quantidade; }));
+  const shippingDone = refunds.some((r) => r.shipping);
+
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<api.RefundMode>("full");
+  const [amount, setAmount] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [includeShipping, setIncludeShipping] = useState(false);
+  const [note, setNote] = useState("");
+  const [preview, setPreview] = useState<{ amount: number; provider: string; manual: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [requestId, setRequestId] = useState(newRefundRequestId);
+
+  const payload = () => ({
+    userId: order.createdBy || "",
+    localOrderId: order.localOrderId,
+    mode,
+    amount: mode === "amount" ? Number(amount.replace(",", ".")) || 0 : undefined,
+    items: mode === "items"
+      ? Object.keys(quantities).filter((sku) => quantities[sku] > 0).map((sku) => ({ sku, quantidade: quantities[sku] }))
+      : undefined,
+    includeShipping: mode === "items" ? includeShipping : undefined,
+  });
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError("");
+    setPreview(null);
+    try {
+      const tk = await getToken();
+      const res = await api.adminPreviewRefund(tk, payload());
+      setPreview({ amount: res.plan.amount, provider: res.provider, manual: res.manual });
+    } catch (e: any) {
+      setError(e.message || "Erro ao calcular reembolso.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!preview) return;
+    if (!confirm("Reembolsar " + formatBRL(preview.amount) + " do pedido #" + order.localOrderId + "? Esta operacao nao pode ser desfeita.")) return;
+    setBusy(true);
+    setError("");
+    try {
+      const tk = await getToken();
+      const res = await api.adminRefundOrder(tk, { ...payload(), note: note.trim() || undefined, requestId });
+      setRequestId(newRefundRequestId());
+      setPreview(null);
+      setOpen(false);
+      setQuantities({});
+      setNote("");
+      onRefunded(
+        (res.duplicate ? "Reembolso ja registrado: " : "Reembolso registrado: ") + formatBRL(res.refund.amount) +
+        (res.refund.manual ? " — transfira o valor ao cliente e confirme a transferencia aqui." : " via " + res.refund.provider + ".")
+      );
+    } catch (e: any) {
+      setError(e.message || "Erro ao reembolsar.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmManual = async (refund: api.OrderRefund) => {
+    if (!confirm("Confirmar que " + formatBRL(refund.amount) + " ja foram transferidos ao cliente? O valor passa a contar como reembolsado.")) return;
+    setBusy(true);
+    setError("");
+    try {
+      const tk = await getToken();
+      await api.adminConfirmManualRefund(tk, { userId: order.createdBy || "", localOrderId: order.localOrderId, refundId: refund.id });
+      onRefunded("Reembolso manual confirmado: " + formatBRL(refund.amount) + ".");
+    } catch (e: any) {
+      setError(e.message || "Erro ao confirmar reembolso.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetPreview = () => setPreview(null);
+
+  return (
+    <div>
+      <p className="text-gray-600 mb-3 flex items-center gap-1.5" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+        <Undo2 className="w-3.5 h-3.5 text-gray-400" />
+        Reembolsos
+        {(order.refundedTotal || 0) > 0 && (
+          <span className="text-red-600" style={{ fontWeight: 500 }}>
+            ({formatBRL(order.refundedTotal || 0)} de {formatBRL(order.total)})
+          </span>
+        )}
+      </p>
+
+      {refunds.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 mb-3">
+          {refunds.slice().reverse().map((r) => (
+            <div key={r.id} className="flex items-start justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-gray-700" style={{ fontSize: "0.8rem", fontWeight: 500 }}>
+                  {formatBRL(r.amount)} {"•"} {r.provider}{r.manual ? " (manual)" : ""}
+                  {r.rmaId ? " • " + r.rmaId : ""}
+                </p>
+                <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+                  {formatDate(r.at)}
+                  {r.items && r.items.length > 0 ? " • " + r.items.map((it) => it.quantidade + "x " + it.sku).join(", ") : ""}
+                  {r.shipping ? " • frete" : ""}
+                  {r.providerRefundId ? " • ID " + r.providerRefundId : ""}
+                </p>
+                {r.note && <p className="text-gray-600" style={{ fontSize: "0.74rem" }}>{r.note}</p>}
+                {r.status === "pending_manual" && (
+                  <p className="flex items-center gap-1 text-amber-700" style={{ fontSize: "0.72rem", fontWeight: 500 }}>
+                    <Clock className="w-3 h-3" />
+                    Aguardando transferencia ao cliente — fora do total reembolsado
+                  </p>
+                )}
+              </div>
+              {r.status === "pending_manual" && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleConfirmManual(r); }}
+                  disabled={busy}
+                  className="shrink-0 flex items-center gap-1 px-2.5 py-1.5 rounded-lg border border-amber-200 text-amber-700 bg-amber-50 hover:bg-amber-100 transition-colors disabled:opacity-50"
+                  style={{ fontSize: "0.72rem", fontWeight: 600 }}
+                >
+                  {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <CheckCircle2 className="w-3 h-3" />}
+                  Confirmar transferencia
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!open && error && (
+        <p className="flex items-center gap-1.5 text-red-600 mb-2" style={{ fontSize: "0.78rem" }}>
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {refundable <= 0 ? (
+        <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>
+          {pendingTotal > 0 ? "Saldo reservado por reembolso manual pendente." : "Pedido totalmente reembolsado."}
+        </p>
+      ) : !open ? (
+        <button
+          onClick={(e) => { e.stopPropagation(); setOpen(true); }}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-red-200 text-red-600 bg-red-50/50 hover:bg-red-100 transition-colors"
+          style={{ fontSize: "0.78rem", fontWeight: 600 }}
+        >
+          <Undo2 className="w-3.5 h-3.5" />
+          Reembolsar ({formatBRL(refundable)} disponivel)
+        </button>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 p-3 space-y-3" onClick={(e) => e.stopPropagation()}>
+          <div className="flex flex-wrap gap-2">
+            {([
+              { value: "full", label: "Total restante" },
+              { value: "amount", label: "Valor" },
+              { value: "items", label: "Itens" },
+            ] as Array<{ value: api.RefundMode; label: string }>).map((m) => (
+              <button
+                key={m.value}
+                onClick={() => { setMode(m.value); resetPreview(); }}
+                className={"px-3 py-1.5 rounded-lg border transition-colors " + (mode === m.value ? "border-red-300 bg-red-50 text-red-700" : "border-gray-200 text-gray-600 hover:bg-gray-50")}
+                style={{ fontSize: "0.78rem", fontWeight: 500 }}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          {mode === "amount" && (
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => { setAmount(e.target.value); resetPreview(); }}
+              placeholder={"Valor (max. " + formatBRL(refundable) + ")"}
+              className="w-48 px-3 py-2 border border-gray-200 rounded-lg outline-none focus:border-red-500"
+              style={{ fontSize: "0.8rem" }}
+            />
+          )}
+
+          {mode === "items" && (
+            <div className="space-y-1.5">
+              {order.items.map((item) => {
+                const max = Math.max(0, item.quantidade - (refundedQty[item.sku] || 0));
+                return (
+                  <div key={item.sku} className="flex items-center gap-3">
+                    <select
+                      value={quantities[item.sku] || 0}
+                      disabled={max === 0}
+                      onChange={(e) => { setQuantities((prev) => ({ ...prev, [item.sku]: Number(e.target.value) })); resetPreview(); }}
+                      className="px-2 py-1 border border-gray-200 rounded-lg bg-white"
+                      style={{ fontSize: "0.78rem" }}
+                    >
+                      {Array.from({ length: max + 1 }).map((_, n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                    <span className={max === 0 ? "text-gray-400" : "text-gray-700"} style={{ fontSize: "0.78rem" }}>
+                      {item.sku} — {item.titulo}{max === 0 ? " (ja reembolsado)" : ""}
+                    </span>
+                  </div>
+                );
+              })}
+              {order.shippingOption && order.shippingOption.price > 0 && !shippingDone && (
+                <label className="flex items-center gap-2 text-gray-600" style={{ fontSize: "0.78rem" }}>
+                  <input type="checkbox" checked={includeShipping} onChange={(e) => { setIncludeShipping(e.target.checked); resetPreview(); }} />
+                  Incluir frete ({formatBRL(order.shippingOption.price)})
+                </label>
+              )}
+              <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>
+                Valor por item com o desconto do cupom rateado, mais a garantia estendida das unidades.
+              </p>
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder="Motivo / observacao (opcional)"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg outline-none focus:border-red-500"
+            style={{ fontSize: "0.8rem" }}
+          />
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-red-600" style={{ fontSize: "0.78rem" }}>
+              <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {preview && (
+            <div className={"rounded-lg border px-3 py-2 " + (preview.manual ? "bg-amber-50 border-amber-200" : "bg-green-50 border-green-200")}>
+              <p className="text-gray-800" style={{ fontSize: "0.85rem", fontWeight: 700 }}>{formatBRL(preview.amount)}</p>
+              <p className={preview.manual ? "text-amber-700" : "text-green-700"} style={{ fontSize: "0.74rem" }}>
+                {REFUND_PROVIDER_LABELS[preview.provider] || preview.provider}
+              </p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {!preview ? (
+              <button
+                onClick={handlePreview}
+                disabled={busy}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-800 text-white hover:bg-gray-900 transition-colors disabled:opacity-50"
+                style={{ fontSize: "0.78rem", fontWeight: 600 }}
+              >
+                {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <DollarSign className="w-3.5 h-3.5" />}
+                Calcular
+              </button>
+            ) : (
+              <button
+                onClick={handleRefund}
+                disabled={busy}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+                style={{ fontSize: "0.78rem", fontWeight: 600 }}
+              >
+                {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Undo2 className="w-3.5 h-3.5" />}
+                Confirmar reembolso
+              </button>
+            )}
+            <button
+              onClick={() => { setOpen(false); resetPreview(); setError(""); }}
+              className="px-3 py-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 transition-colors"
+              style={{ fontSize: "0.78rem" }}
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -33,7 +33,7 @@
  */
 import { useState, useEffect, useCallback, startTransition } from "react";
 import { Link } from "react-router";
-import { Package, Layers, Settings, ExternalLink, Menu, X, LogOut, User, ChevronRight, Loader2, Tag, Users, Plug, CreditCard, Truck, ShoppingCart, ScrollText, Image, LayoutGrid, Flame, ShieldCheck, AlertTriangle, Shield, Columns2, BadgeCheck, Mail, LayoutDashboard, Ticket, FileCheck, Award, Star, Handshake, Building2, FlaskConical, Bug, Megaphone, Gift, MessageCircle, Search, ChevronDown, Wallet, BarChart3, Palette, Wrench, MousePointerClick, Video, Sparkles, HelpCircle, Ruler, BookOpen, Send } from "lucide-react";
+import { Package, Layers, Settings, ExternalLink, Menu, X, LogOut, User, ChevronRight, Loader2, Tag, Users, Plug, CreditCard, Truck, ShoppingCart, ScrollText, Image, LayoutGrid, Flame, ShieldCheck, AlertTriangle, Shield, Columns2, BadgeCheck, Mail, LayoutDashboard, Ticket, FileCheck, Award, Star, Handshake, Building2, FlaskConical, Bug, Megaphone, Gift, MessageCircle, Search, ChevronDown, Wallet, BarChart3, Palette, Wrench, MousePointerClick, Video, Sparkles, HelpCircle, Ruler, BookOpen, Send, Car, Undo2, ShieldAlert, PackageCheck, BellRing, CalendarClock, UsersRound } from "lucide-react";
 import { AdminLoginPage } from "./AdminLoginPage";
 import * as api from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
@@ -67,7 +67,9 @@ const AdminEmailMarketing = lazy(() => import("./AdminEmailMarketing").then((m)
 const AdminCoupons = lazy(() => import("./AdminCoupons").then((m) => ({ default: m.AdminCoupons })));
 const AdminLgpdRequests = lazy(() => import("./AdminLgpdRequests").then((m) => ({ default: m.AdminLgpdRequests })));
 const AdminBrands = lazy(() => import("./AdminBrands").then((m) => ({ default: m.AdminBrands })));
+const AdminVehicles = lazy(() => import("./AdminVehicles").then((m) => ({ default: m.AdminVehicles })));
 const AdminReviews = lazy(() => import("./AdminReviews").then((m) => ({ default: m.AdminReviews })));
+const AdminProductQuestions = lazy(() => import("./AdminProductQuestions").then((m) => ({ default: m.AdminProductQuestions })));
 const AdminWarranty = lazy(() => import("./AdminWarranty").then((m) => ({ default: m.AdminWarranty })));
 const AdminAffiliates = lazy(() => import("./AdminAffiliates").then((m) => ({ default: m.AdminAffiliates })));
 const AdminBranches = lazy(() => import("./AdminBranches").then((m) => ({ default: m.AdminBranches })));
@@ -84,8 +86,14 @@ const AdminFaq = lazy(() => import("./AdminFaq").then((m) => ({ default: m.Admin
 const AdminDimensions = lazy(() => import("./AdminDimensions").then((m) => ({ default: m.AdminDimensions })));
 const AdminSalesControl = lazy(() => import("./AdminSalesControl").then((m) => ({ default: m.AdminSalesControl })));
 const AdminTransactionalEmails = lazy(() => import("./AdminTransactionalEmails").then((m) => ({ default: m.AdminTransactionalEmails })));
+const AdminReturns = lazy(() => import("./AdminReturns").then((m) => ({ default: m.AdminReturns })));
+const AdminWarrantyClaims = lazy(() => import("./AdminWarrantyClaims").then((m) => ({ default: m.AdminWarrantyClaims })));
+const AdminStockReservations = lazy(() => import("./AdminStockReservations").then((m) => ({ default: m.AdminStockReservations })));
+const AdminProductAlerts = lazy(() => import("./AdminProductAlerts").then((m) => ({ default: m.AdminProductAlerts })));
+const AdminSegments = lazy(() => import("./AdminSegments").then((m) => ({ default: m.AdminSegments })));
+const AdminSigeSync = lazy(() => import("./AdminSigeSync").then((m) => ({ default: m.AdminSigeSync })));
 
-type Tab = "dashboard" | "orders" | "products" | "categories" | "attributes" | "clients" | "coupons" | "banners" | "mid-banners" | "hp-categories" | "super-promo" | "brands" | "reviews" | "api-sige" | "paghiper" | "mercadopago" | "shipping" | "sisfrete-wt" | "marketing" | "audit-log" | "settings" | "admins" | "footer-badges" | "email-marketing" | "lgpd-requests" | "warranty" | "affiliates" | "branches" | "regression-test" | "error-scanner" | "exit-intent" | "whatsapp" | "reels" | "influencers" | "infrastructure" | "faq" | "dimensions" | "sales-control" | "transactional-emails";
+type Tab = "dashboard" | "orders" | "products" | "categories" | "attributes" | "clients" | "coupons" | "banners" | "mid-banners" | "hp-categories" | "super-promo" | "brands" | "vehicles" | "reviews" | "product-questions" | "api-sige" | "paghiper" | "mercadopago" | "shipping" | "sisfrete-wt" | "marketing" | "audit-log" | "settings" | "admins" | "footer-badges" | "email-marketing" | "lgpd-requests" | "warranty" | "affiliates" | "branches" | "regression-test" | "error-scanner" | "exit-intent" | "whatsapp" | "reels" | "influencers" | "infrastructure" | "faq" | "dimensions" | "sales-control" | "transactional-emails" | "returns" | "warranty-claims" | "stock-reservations" | "product-alerts" | "sige-sync" | "segments";
 
 const navItems: { id: Tab; label: string; icon: typeof Package }[] = [
   { id: "dashboard", label: "Dashboard", icon: LayoutDashboard },
@@ -95,14 +103,21 @@ const navItems: { id: Tab; label: string; icon: typeof Package }[] = [
   { id: "categories", label: "Categorias", icon: Layers },
   { id: "attributes", label: "Atributos", icon: Tag },
   { id: "brands", label: "Marcas", icon: Award },
+  { id: "vehicles", label: "Veiculos & Aplicacao", icon: Car },
+  { id: "returns", label: "Trocas & Devolucoes", icon: Undo2 },
+  { id: "stock-reservations", label: "Reservas de Estoque", icon: PackageCheck },
   { id: "coupons", label: "Cupons", icon: Ticket },
   { id: "warranty", label: "Garantia Estendida", icon: ShieldCheck },
+  { id: "warranty-claims", label: "Acionamentos de Garantia", icon: ShieldAlert },
   { id: "affiliates", label: "Afiliados", icon: Handshake },
   { id: "clients", label: "Clientes", icon: Users },
   { id: "reviews", label: "Avaliacoes", icon: Star },
+  { id: "product-questions", label: "Perguntas", icon: HelpCircle },
   { id: "email-marketing", label: "Email Marketing", icon: Mail },
   { id: "transactional-emails", label: "Emails Transacionais", icon: Send },
   { id: "whatsapp", label: "WhatsApp Cart", icon: MessageCircle },
+  { id: "product-alerts", label: "Avisos de Produto", icon: BellRing },
+  { id: "segments", label: "Segmentos", icon: UsersRound },
   { id: "exit-intent", label: "Popup de Saida", icon: MousePointerClick },
   { id: "marketing", label: "Pixels & Analytics", icon: BarChart3 },
   { id: "banners", label: "Banners Hero", icon: Image },
@@ -117,6 +132,7 @@ const navItems: { id: Tab; label: string; icon: typeof Package }[] = [
   { id: "shipping", label: "SisFrete Config", icon: Truck },
   { id: "sisfrete-wt", label: "Tabela de Frete", icon: Truck },
   { id: "api-sige", label: "API SIGE / ERP", icon: Plug },
+  { id: "sige-sync", label: "Sincronizacao SIGE", icon: CalendarClock },
   { id: "settings", label: "Configuracoes", icon: Settings },
   { id: "admins", label: "Administradores", icon: Shield },
   { id: "audit-log", label: "Log de Auditoria", icon: ScrollText },
@@ -153,13 +169,13 @@ function saveCollapsedSections(state: Record<string, boolean>): void {
 
 const navSections: NavSection[] = [
   { label: "Geral", icon: LayoutDashboard, items: ["dashboard"], collapsible: false },
-  { label: "Vendas", icon: ShoppingCart, items: ["orders", "sales-control", "coupons", "warranty"], collapsible: true },
-  { label: "Catalogo", icon: Package, items: ["products", "categories", "attributes", "brands"], collapsible: true },
-  { label: "Clientes", icon: Users, items: ["clients", "reviews"], collapsible: true },
-  { label: "Marketing", icon: Megaphone, items: ["affiliates", "email-marketing", "transactional-emails", "whatsapp", "exit-intent", "marketing"], collapsible: true },
+  { label: "Vendas", icon: ShoppingCart, items: ["orders", "sales-control", "stock-reservations", "returns", "coupons", "warranty", "warranty-claims"], collapsible: true },
+  { label: "Catalogo", icon: Package, items: ["products", "categories", "attributes", "brands", "vehicles"], collapsible: true },
+  { label: "Clientes", icon: Users, items: ["clients", "reviews", "product-questions"], collapsible: true },
+  { label: "Marketing", icon: Megaphone, items: ["affiliates", "email-marketing", "transactional-emails", "whatsapp", "product-alerts", "segments", "exit-intent", "marketing"], collapsible: true },
   { label: "Aparencia", icon: Palette, items: ["reels", "influencers", "banners", "mid-banners", "hp-categories", "super-promo", "footer-badges", "branches", "faq"], collapsible: true },
   { label: "Pagamentos & Frete", icon: Wallet, items: ["paghiper", "mercadopago", "dimensions", "shipping", "sisfrete-wt"], collapsible: true },
-  { label: "Integracoes", icon: Plug, items: ["api-sige"], collapsible: true },
+  { label: "Integracoes", icon: Plug, items: ["api-sige", "sige-sync"], collapsible: true },
   { label: "Sistema", icon: Wrench, items: ["settings", "admins", "audit-log", "lgpd-requests", "regression-test", "error-scanner", "infrastructure"], collapsible: true },
 ];
 
@@ -270,8 +286,13 @@ export function AdminPage() {
       const counts: Record<string, number> = {};
       if (data.orders && data.orders.total > 0) counts["orders"] = data.orders.total;
       if (data.reviews && data.reviews > 0) counts["reviews"] = data.reviews;
+      if (data.questions && data.questions > 0) counts["product-questions"] = data.questions;
+      if (data.returns && data.returns > 0) counts["returns"] = data.returns;
+      if (data.warrantyClaims && data.warrantyClaims > 0) counts["warranty-claims"] = data.warrantyClaims;
       if (data.lgpd && data.lgpd > 0) counts["lgpd-requests"] = data.lgpd;
       if (data.affiliates && data.affiliates > 0) counts["affiliates"] = data.affiliates;
+      if (data.vehicles && data.vehicles > 0) counts["vehicles"] = data.vehicles;
+      if (data.approvals && data.approvals > 0) counts["admins"] = data.approvals;
       setPendingCounts(counts);
 
       // Auto-adjust seen counts: if actual count dropped below what was seen,
@@ -572,8 +593,12 @@ export function AdminPage() {
         return <AdminSuperPromo />;
       case "brands":
         return <AdminBrands />;
+      case "vehicles":
+        return <AdminVehicles />;
       case "reviews":
         return <AdminReviews />;
+      case "product-questions":
+        return <AdminProductQuestions />;
       case "api-sige":
         return <AdminApiSige />;
       case "paghiper":
@@ -596,6 +621,18 @@ export function AdminPage() {
         return <AdminCoupons />;
       case "warranty":
         return <AdminWarranty />;
+      case "returns":
+        return <AdminReturns />;
+      case "warranty-claims":
+        return <AdminWarrantyClaims />;
+      case "stock-reservations":
+        return <AdminStockReservations />;
+      case "product-alerts":
+        return <AdminProductAlerts />;
+      case "segments":
+        return <AdminSegments />;
+      case "sige-sync":
+        return <AdminSigeSync />;
       case "lgpd-requests":
         return <AdminLgpdRequests />;
       case "affiliates":
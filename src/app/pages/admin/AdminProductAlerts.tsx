@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import BellRing from "lucide-react/dist/esm/icons/bell-ring.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import Search from "lucide-react/dist/esm/icons/search.js";
+import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
+import ChevronRight from "lucide-react/dist/esm/icons/chevron-right.js";
+import PackageCheck from "lucide-react/dist/esm/icons/package-check.js";
+import TrendingDown from "lucide-react/dist/esm/icons/trending-down.js";
+import Mail from "lucide-react/dist/esm/icons/mail.js";
+import MessageCircle from "lucide-react/dist/esm/icons/message-circle.js";
+import UserX from "lucide-react/dist/esm/icons/user-x.js";
+import * as api from "../../services/api";
+import type { ProductAlertProduct, ProductAlertSubscriber, ProductAlertCounts } from "../../services/api";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+function formatCents(cents: number | null) {
+  if (cents === null || cents === undefined) return "-";
+  return (cents / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
+}
+
+function formatDate(ms: number | null) {
+  if (!ms) return "-";
+  var d = new Date(ms);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+var STATUS_STYLES: Record<string, { label: string; cls: string }> = {
+  pending: { label: "Aguardando confirmação", cls: "bg-amber-50 text-amber-700 border-amber-200" },
+  active: { label: "Ativo", cls: "bg-blue-50 text-blue-700 border-blue-200" },
+  sent: { label: "Enviado", cls: "bg-green-50 text-green-700 border-green-200" },
+  unsubscribed: { label: "Cancelado", cls: "bg-gray-100 text-gray-500 border-gray-200" },
+};
+
+var DELIVERY_STYLES: Record<string, string> = {
+  sent: "text-green-600",
+  failed: "text-red-600",
+  skipped: "text-gray-300",
+};
+
+function DeliveryIcons({ sub }: { sub: ProductAlertSubscriber }) {
+  if (!sub.delivery) return <span className="text-gray-300">-</span>;
+  var d = sub.delivery;
+  return (
+    <span className="inline-flex items-center gap-1.5" title={d.error || ""}>
+      <Mail className={"w-3.5 h-3.5 " + DELIVERY_STYLES[d.email]} />
+      <MessageCircle className={"w-3.5 h-3.5 " + DELIVERY_STYLES[d.whatsapp]} />
+    </span>
+  );
+}
+
+/* ═══════════════════ Product row ═══════════════════ */
+function AlertProductCard({ item, busy, onCheck, onUnsubscribe }: {
+  item: ProductAlertProduct;
+  busy: string | null;
+  onCheck: (sku: string) => void;
+  onUnsubscribe: (sku: string, sub: ProductAlertSubscriber) => void;
+}) {
+  var [open, setOpen] = useState(false);
+  var checking = busy === "check|" + item.sku;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-3 px-4 py-3 flex-wrap">
+        <button onClick={function () { setOpen(!open); }} className="flex items-center gap-2 flex-1 min-w-[200px] text-left cursor-pointer">
+          {open ? <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 shrink-0" />}
+          <div className="min-w-0">
+            <p className="text-gray-800 truncate" style={{ fontSize: "0.85rem", fontWeight: 600 }}>{item.titulo || item.sku}</p>
+            <p className="text-gray-400 font-mono" style={{ fontSize: "0.7rem" }}>{item.sku}</p>
+          </div>
+        </button>
+        <div className="flex items-center gap-3 text-gray-600" style={{ fontSize: "0.76rem" }}>
+          <span className="inline-flex items-center gap-1" title="Aguardando estoque">
+            <PackageCheck className="w-3.5 h-3.5 text-teal-600" /><span style={{ fontWeight: 700 }}>{item.counts.stock}</span>
+          </span>
+          <span className="inline-flex items-center gap-1" title="Aguardando baixa de preço">
+            <TrendingDown className="w-3.5 h-3.5 text-rose-600" /><span style={{ fontWeight: 700 }}>{item.counts.price}</span>
+          </span>
+          <span className="text-gray-400">{item.counts.sent + " enviado(s)"}</span>
+          {item.lastSentAt && <span className="text-gray-400">{"último " + formatDate(item.lastSentAt)}</span>}
+        </div>
+        <button
+          onClick={function () { onCheck(item.sku); }}
+          disabled={checking || item.counts.stock + item.counts.price === 0}
+          className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 disabled:opacity-50 transition-colors"
+          style={{ fontSize: "0.72rem", fontWeight: 600 }}
+          title="Consulta saldo e preço em cache e envia os avisos que já podem sair"
+        >
+          {checking ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          Verificar agora
+        </button>
+      </div>
+      {open && (
+        <div className="border-t border-gray-100 overflow-x-auto">
+          <table className="w-full" style={{ fontSize: "0.76rem" }}>
+            <thead className="bg-gray-50 text-gray-500 text-left">
+              <tr>
+                <th className="px-3 py-1.5 font-medium">Cliente</th>
+                <th className="px-3 py-1.5 font-medium">Aviso</th>
+                <th className="px-3 py-1.5 font-medium">Origem</th>
+                <th className="px-3 py-1.5 font-medium">Status</th>
+                <th className="px-3 py-1.5 font-medium">Criado</th>
+                <th className="px-3 py-1.5 font-medium">Entrega</th>
+                <th className="px-3 py-1.5 font-medium text-right"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {item.subscribers.map(function (s) {
+                var st = STATUS_STYLES[s.status] || STATUS_STYLES.active;
+                var removing = busy === "unsub|" + s.id;
+                return (
+                  <tr key={s.id} className="text-gray-700">
+                    <td className="px-3 py-1.5">
+                      <p className="truncate max-w-[220px]">{s.name || s.email}</p>
+                      <p className="text-gray-400 truncate max-w-[220px]" style={{ fontSize: "0.68rem" }}>
+                        {s.email + (s.phone ? " · " + s.phone : "") + (s.userId ? "" : " · visitante")}
+                      </p>
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">
+                      {s.type === "stock" ? "Chegou no estoque" : "Preço até " + formatCents(s.targetCents)}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">{s.source === "favorites" ? "Favoritos" : "Produto"}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">
+                      <span className={"inline-flex px-1.5 py-0.5 rounded-full border " + st.cls} style={{ fontSize: "0.65rem", fontWeight: 600 }}>{st.label}</span>
+                      {s.status === "sent" && (
+                        <span className="text-gray-400 ml-1.5">{formatDate(s.sentAt) + (s.sentPriceCents ? " · " + formatCents(s.sentPriceCents) : "")}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap text-gray-500">{formatDate(s.createdAt)}</td>
+                    <td className="px-3 py-1.5"><DeliveryIcons sub={s} /></td>
+                    <td className="px-3 py-1.5 text-right">
+                      {s.status === "active" && (
+                        <button
+                          onClick={function () { onUnsubscribe(item.sku, s); }}
+                          disabled={removing}
+                          className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50 transition-colors"
+                          style={{ fontSize: "0.72rem", fontWeight: 600 }}
+                        >
+                          {removing ? <Loader2 className="w-3 h-3 animate-spin" /> : <UserX className="w-3 h-3" />}
+                          Cancelar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminProductAlerts() {
+  var [products, setProducts] = useState<ProductAlertProduct[]>([]);
+  var [totals, setTotals] = useState<ProductAlertCounts>({ pending: 0, stock: 0, price: 0, sent: 0, unsubscribed: 0 });
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [searchTerm, setSearchTerm] = useState("");
+  var [onlyActive, setOnlyActive] = useState(true);
+  var [busy, setBusy] = useState<string | null>(null);
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.adminGetProductAlerts(token);
+      setProducts(result.products || []);
+      setTotals(result.totals || { pending: 0, stock: 0, price: 0, sent: 0, unsubscribed: 0 });
+    } catch (err: any) {
+      console.error("[AdminProductAlerts] Load error:", err);
+      setError(err.message || "Erro ao carregar avisos de produto.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(function () { load(); }, [load]);
+
+  var handleCheck = async function (sku: string) {
+    setBusy("check|" + sku);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.adminCheckProductAlerts(token, sku);
+      if (res.sent > 0) toast.success(res.sent + " aviso(s) enviado(s)");
+      else toast.info("Nenhum aviso para enviar (disponível: " + res.available + ", preço: " + formatCents(res.priceCents) + ")");
+      await load();
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao verificar avisos.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  var handleUnsubscribe = async function (sku: string, sub: ProductAlertSubscriber) {
+    if (!confirm("Cancelar o aviso de " + sub.email + " para " + sku + "?")) return;
+    setBusy("unsub|" + sub.id);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      await api.adminUnsubscribeProductAlert(token, sku, sub.id);
+      toast.success("Aviso cancelado");
+      await load();
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao cancelar aviso.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  var filtered = useMemo(function () {
+    var term = searchTerm.toLowerCase();
+    return products.filter(function (p) {
+      if (onlyActive && p.counts.stock + p.counts.price === 0) return false;
+      if (!term) return true;
+      return p.sku.toLowerCase().indexOf(term) >= 0 ||
+        (p.titulo || "").toLowerCase().indexOf(term) >= 0 ||
+        p.subscribers.some(function (s) { return s.email.indexOf(term) >= 0 || (s.name || "").toLowerCase().indexOf(term) >= 0; });
+    });
+  }, [products, searchTerm, onlyActive]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <BellRing className="w-5 h-5 text-amber-500" /> Avisos de Produto
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Clientes que pediram aviso de chegada no estoque ou de baixa de preço. O envio é automático quando o saldo ou o preço é atualizado, com verificação a cada 30 minutos.
+          </p>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+          style={{ fontSize: "0.8rem", fontWeight: 500 }}
+        >
+          <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+          Atualizar
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="bg-teal-50 rounded-lg px-3 py-2 text-teal-700" style={{ fontSize: "0.78rem" }}>
+          <span style={{ fontWeight: 700 }}>{totals.stock}</span>{" aguardando estoque"}
+        </div>
+        <div className="bg-rose-50 rounded-lg px-3 py-2 text-rose-700" style={{ fontSize: "0.78rem" }}>
+          <span style={{ fontWeight: 700 }}>{totals.price}</span>{" aguardando preço"}
+        </div>
+        <div className="bg-gray-100 rounded-lg px-3 py-2 text-gray-600" style={{ fontSize: "0.78rem" }}>
+          <span style={{ fontWeight: 700 }}>{totals.pending}</span>{" sem confirmação · "}
+          <span style={{ fontWeight: 700 }}>{totals.sent}</span>{" enviado(s) · "}
+          <span style={{ fontWeight: 700 }}>{totals.unsubscribed}</span>{" cancelado(s)"}
+        </div>
+        <label className="flex items-center gap-1.5 text-gray-600 cursor-pointer" style={{ fontSize: "0.78rem" }}>
+          <input type="checkbox" checked={onlyActive} onChange={function (e) { setOnlyActive(e.target.checked); }} className="accent-red-600" />
+          Só com avisos ativos
+        </label>
+        <div className="flex-1 min-w-[200px] relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={function (e) { setSearchTerm(e.target.value); }}
+            placeholder="Buscar por SKU, produto, e-mail, cliente..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+          Nenhum aviso de produto{onlyActive ? " ativo" : ""}.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filtered.map(function (p) {
+            return <AlertProductCard key={p.sku} item={p} busy={busy} onCheck={handleCheck} onUnsubscribe={handleUnsubscribe} />;
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
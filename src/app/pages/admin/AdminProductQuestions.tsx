@@ -0,0 +1,398 @@
+import React, { useState, useEffect, useCallback } from "react";
+import HelpCircle from "lucide-react/dist/esm/icons/help-circle.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import Search from "lucide-react/dist/esm/icons/search.js";
+import Check from "lucide-react/dist/esm/icons/check.js";
+import X from "lucide-react/dist/esm/icons/x.js";
+import Trash2 from "lucide-react/dist/esm/icons/trash-2.js";
+import Send from "lucide-react/dist/esm/icons/send.js";
+import Store from "lucide-react/dist/esm/icons/store.js";
+import BadgeCheck from "lucide-react/dist/esm/icons/badge-check.js";
+import Mail from "lucide-react/dist/esm/icons/mail.js";
+import ExternalLink from "lucide-react/dist/esm/icons/external-link.js";
+import * as api from "../../services/api";
+import type { AdminProductQuestion, AdminProductAnswer, ProductQaFilter, ProductQaTotals } from "../../services/api";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+function formatDate(ms: number | null | undefined) {
+  if (!ms) return "-";
+  var d = new Date(ms);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+var STATUS_STYLES: Record<string, { label: string; cls: string }> = {
+  pending: { label: "Pendente", cls: "bg-amber-50 text-amber-700 border-amber-200" },
+  approved: { label: "Publicada", cls: "bg-green-50 text-green-700 border-green-200" },
+  rejected: { label: "Rejeitada", cls: "bg-gray-100 text-gray-500 border-gray-200" },
+};
+
+var FILTERS: { id: ProductQaFilter; label: string }[] = [
+  { id: "pending", label: "Moderação" },
+  { id: "unanswered", label: "Sem resposta" },
+  { id: "approved", label: "Publicadas" },
+  { id: "rejected", label: "Rejeitadas" },
+  { id: "all", label: "Todas" },
+];
+
+var EMPTY_TOTALS: ProductQaTotals = { pending: 0, approved: 0, rejected: 0, pendingAnswers: 0, unanswered: 0 };
+
+function StatusBadge({ status }: { status: string }) {
+  var st = STATUS_STYLES[status] || STATUS_STYLES.pending;
+  return <span className={"inline-flex px-1.5 py-0.5 rounded-full border " + st.cls} style={{ fontSize: "0.65rem", fontWeight: 600 }}>{st.label}</span>;
+}
+
+/* ═══════════════════ Answer row ═══════════════════ */
+function AnswerRow({ answer, busy, onModerate, onDelete }: {
+  answer: AdminProductAnswer;
+  busy: boolean;
+  onModerate: (answer: AdminProductAnswer, action: "approve" | "reject") => void;
+  onDelete: (answer: AdminProductAnswer) => void;
+}) {
+  var isStore = answer.authorType === "store";
+  return (
+    <div className={"border-l-2 pl-3 py-1 " + (isStore ? "border-red-400" : answer.status === "pending" ? "border-amber-400" : "border-gray-200")}>
+      <p className="text-gray-700 whitespace-pre-line" style={{ fontSize: "0.8rem" }}>{answer.text}</p>
+      <div className="flex items-center gap-2 flex-wrap mt-1 text-gray-400" style={{ fontSize: "0.68rem" }}>
+        {isStore ? <Store className="w-3 h-3 text-red-500" /> : <BadgeCheck className="w-3 h-3 text-green-500" />}
+        <span className="text-gray-600" style={{ fontWeight: 600 }}>{answer.authorName}</span>
+        <span>{isStore ? "Loja" : "Comprador verificado"}</span>
+        <span>{formatDate(answer.createdAt)}</span>
+        <StatusBadge status={answer.status} />
+        {answer.notifiedAt && (
+          <span className="inline-flex items-center gap-0.5 text-blue-500" title={"Cliente avisado em " + formatDate(answer.notifiedAt)}>
+            <Mail className="w-3 h-3" /> avisado
+          </span>
+        )}
+        <span className="ml-auto inline-flex items-center gap-1">
+          {answer.status !== "approved" && (
+            <button
+              onClick={function () { onModerate(answer, "approve"); }}
+              disabled={busy}
+              className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-green-700 hover:bg-green-50 disabled:opacity-50"
+              style={{ fontWeight: 600 }}
+            >
+              <Check className="w-3 h-3" /> Aprovar
+            </button>
+          )}
+          {answer.status !== "rejected" && !isStore && (
+            <button
+              onClick={function () { onModerate(answer, "reject"); }}
+              disabled={busy}
+              className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+              style={{ fontWeight: 600 }}
+            >
+              <X className="w-3 h-3" /> Rejeitar
+            </button>
+          )}
+          <button
+            onClick={function () { onDelete(answer); }}
+            disabled={busy}
+            className="inline-flex items-center px-1.5 py-0.5 rounded text-red-600 hover:bg-red-50 disabled:opacity-50"
+            title="Excluir resposta"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/* ═══════════════════ Question card ═══════════════════ */
+function QuestionCard({ question, busy, onModerate, onAnswer, onModerateAnswer, onDelete, onDeleteAnswer }: {
+  question: AdminProductQuestion;
+  busy: boolean;
+  onModerate: (q: AdminProductQuestion, action: "approve" | "reject", answer?: string) => Promise<boolean>;
+  onAnswer: (q: AdminProductQuestion, text: string) => Promise<boolean>;
+  onModerateAnswer: (q: AdminProductQuestion, answer: AdminProductAnswer, action: "approve" | "reject") => void;
+  onDelete: (q: AdminProductQuestion) => void;
+  onDeleteAnswer: (q: AdminProductQuestion, answer: AdminProductAnswer) => void;
+}) {
+  var [reply, setReply] = useState("");
+  var isPending = question.status === "pending";
+
+  var submitReply = async function () {
+    var ok = isPending
+      ? await onModerate(question, "approve", reply.trim())
+      : await onAnswer(question, reply.trim());
+    if (ok) setReply("");
+  };
+
+  return (
+    <div className={"bg-white border rounded-xl p-4 space-y-3 " + (isPending ? "border-amber-200" : "border-gray-200")}>
+      <div className="flex items-start gap-3 flex-wrap">
+        <HelpCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-[220px]">
+          <a
+            href={"/produto/" + encodeURIComponent(question.sku) + "#perguntas"}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-gray-500 hover:text-red-600"
+            style={{ fontSize: "0.72rem" }}
+          >
+            {(question.titulo || question.sku) + " · " + question.sku}
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          <p className="text-gray-800 whitespace-pre-line mt-0.5" style={{ fontSize: "0.88rem", fontWeight: 600 }}>{question.question}</p>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.7rem" }}>
+            {question.askerName + " · " + question.askerEmail + (question.userId ? "" : " · visitante") + " · " + formatDate(question.createdAt)}
+            {question.moderatedBy && (" · moderada por " + question.moderatedBy)}
+          </p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <StatusBadge status={question.status} />
+          {question.status !== "approved" && (
+            <button
+              onClick={function () { onModerate(question, "approve"); }}
+              disabled={busy}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50 transition-colors"
+              style={{ fontSize: "0.72rem", fontWeight: 600 }}
+            >
+              <Check className="w-3 h-3" /> Aprovar
+            </button>
+          )}
+          {question.status !== "rejected" && (
+            <button
+              onClick={function () { onModerate(question, "reject"); }}
+              disabled={busy}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              style={{ fontSize: "0.72rem", fontWeight: 600 }}
+            >
+              <X className="w-3 h-3" /> Rejeitar
+            </button>
+          )}
+          <button
+            onClick={function () { onDelete(question); }}
+            disabled={busy}
+            className="inline-flex items-center px-2 py-1 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50 transition-colors"
+            title="Excluir pergunta"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {question.answers.length > 0 && (
+        <div className="ml-7 space-y-2">
+          {question.answers.map(function (a) {
+            return (
+              <AnswerRow
+                key={a.id}
+                answer={a}
+                busy={busy}
+                onModerate={function (answer, action) { onModerateAnswer(question, answer, action); }}
+                onDelete={function (answer) { onDeleteAnswer(question, answer); }}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      {question.status !== "rejected" && (
+        <div className="ml-7 flex items-start gap-2">
+          <textarea
+            value={reply}
+            onChange={function (e) { setReply(e.target.value); }}
+            rows={2}
+            maxLength={2000}
+            placeholder="Responder como loja..."
+            className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none resize-none"
+            style={{ fontSize: "0.8rem" }}
+          />
+          <button
+            onClick={submitReply}
+            disabled={busy || reply.trim().length < 2}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50 transition-colors whitespace-nowrap"
+            style={{ fontSize: "0.75rem", fontWeight: 600 }}
+          >
+            {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+            {isPending ? "Aprovar e responder" : "Publicar resposta"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminProductQuestions() {
+  var [questions, setQuestions] = useState<AdminProductQuestion[]>([]);
+  var [totals, setTotals] = useState<ProductQaTotals>(EMPTY_TOTALS);
+  var [total, setTotal] = useState(0);
+  var [filter, setFilter] = useState<ProductQaFilter>("pending");
+  var [searchTerm, setSearchTerm] = useState("");
+  var [search, setSearch] = useState("");
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [busy, setBusy] = useState<string | null>(null);
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.getAdminProductQuestions(token, filter, search);
+      setQuestions(result.questions || []);
+      setTotals(result.totals || EMPTY_TOTALS);
+      setTotal(result.total || 0);
+    } catch (err: any) {
+      console.error("[AdminProductQuestions] Load error:", err);
+      setError(err.message || "Erro ao carregar perguntas.");
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, search]);
+
+  useEffect(function () { load(); }, [load]);
+
+  // Runs one write for a question, reloads the list; true when it went through
+  var run = async function (q: AdminProductQuestion, fn: (token: string) => Promise<{ ok: boolean; notified?: boolean }>, success: string): Promise<boolean> {
+    setBusy(q.id);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return false;
+      var res = await fn(token);
+      toast.success(success + (res.notified ? " — cliente avisado por e-mail" : ""));
+      await load();
+      return true;
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao salvar.");
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  var handleModerate = function (q: AdminProductQuestion, action: "approve" | "reject", answer?: string) {
+    return run(q, function (token) {
+      return api.moderateProductQuestion(token, q.sku, q.id, answer ? { action: action, answer: answer } : { action: action });
+    }, action === "reject" ? "Pergunta rejeitada" : answer ? "Pergunta aprovada e respondida" : "Pergunta aprovada");
+  };
+
+  var handleAnswer = function (q: AdminProductQuestion, text: string) {
+    return run(q, function (token) { return api.addStoreAnswer(token, q.sku, q.id, text); }, "Resposta publicada");
+  };
+
+  var handleModerateAnswer = function (q: AdminProductQuestion, answer: AdminProductAnswer, action: "approve" | "reject") {
+    run(q, function (token) { return api.moderateProductAnswer(token, q.sku, q.id, answer.id, action); }, action === "approve" ? "Resposta aprovada" : "Resposta rejeitada");
+  };
+
+  var handleDelete = function (q: AdminProductQuestion) {
+    if (!confirm("Excluir esta pergunta e todas as respostas?")) return;
+    run(q, function (token) { return api.deleteProductQuestion(token, q.sku, q.id); }, "Pergunta excluída");
+  };
+
+  var handleDeleteAnswer = function (q: AdminProductQuestion, answer: AdminProductAnswer) {
+    if (!confirm("Excluir esta resposta?")) return;
+    run(q, function (token) { return api.deleteProductAnswer(token, q.sku, q.id, answer.id); }, "Resposta excluída");
+  };
+
+  var filterCount = function (id: ProductQaFilter): number | null {
+    if (id === "pending") return totals.pending + totals.pendingAnswers;
+    if (id === "unanswered") return totals.unanswered;
+    if (id === "approved") return totals.approved;
+    if (id === "rejected") return totals.rejected;
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <HelpCircle className="w-5 h-5 text-red-500" /> Perguntas e Respostas
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Perguntas feitas na página do produto e respostas de quem comprou. A resposta da loja é publicada na hora; o cliente que perguntou recebe um e-mail quando a pergunta publicada ganha resposta.
+          </p>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+          style={{ fontSize: "0.8rem", fontWeight: 500 }}
+        >
+          <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+          Atualizar
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+          {FILTERS.map(function (f) {
+            var count = filterCount(f.id);
+            return (
+              <button
+                key={f.id}
+                onClick={function () { setFilter(f.id); }}
+                className={"px-3 py-1.5 rounded-md transition-colors " + (filter === f.id ? "bg-white text-gray-800 shadow-sm" : "text-gray-500 hover:text-gray-700")}
+                style={{ fontSize: "0.76rem", fontWeight: 600 }}
+              >
+                {f.label}
+                {count !== null && count > 0 && <span className="ml-1 text-gray-400">{count}</span>}
+              </button>
+            );
+          })}
+        </div>
+        <form
+          onSubmit={function (e) { e.preventDefault(); setSearch(searchTerm.trim()); }}
+          className="flex-1 min-w-[200px] relative"
+        >
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={function (e) { setSearchTerm(e.target.value); }}
+            placeholder="Buscar por SKU, produto, pergunta, e-mail... (Enter)"
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </form>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+        </div>
+      ) : questions.length === 0 ? (
+        <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+          {filter === "pending" ? "Nada aguardando moderação." : "Nenhuma pergunta encontrada."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {questions.map(function (q) {
+            return (
+              <QuestionCard
+                key={q.sku + "|" + q.id}
+                question={q}
+                busy={busy === q.id}
+                onModerate={handleModerate}
+                onAnswer={handleAnswer}
+                onModerateAnswer={handleModerateAnswer}
+                onDelete={handleDelete}
+                onDeleteAnswer={handleDeleteAnswer}
+              />
+            );
+          })}
+          {total > questions.length && (
+            <p className="text-center text-gray-400" style={{ fontSize: "0.75rem" }}>
+              {"Mostrando " + questions.length + " de " + total + ". Use a busca para refinar."}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { getValidAdminToken } from "./adminAuth";
 import { defaultCategoryTree } from "../../data/categoryTree";
 // Direct import SigeStockSync
 import { SigeStockSync } from "./SigeStockSync";
+import { AdminFitmentEditor } from "./AdminFitmentEditor";
 import { PriceBadge } from "../../components/PriceBadge";
 import { convertImageToWebP, ProductImage as ProductImage2 } from "../../components/ProductImage";
 import { Search, Package, Loader2, RefreshCw, Hash, Eye, EyeOff, ChevronLeft, ChevronRight, Grid3X3, List, Database, X, Plus, Edit3, Trash2, Save, ImagePlus, Check, AlertCircle, CheckCircle2, ChevronDown, FileText, Tag, ExternalLink, Camera, PenLine, PackageCheck, PackageX, Filter, ArrowUpDown, SlidersHorizontal, BarChart3, TrendingUp, TrendingDown, AlertOctagon, DollarSign, Truck, Scale, RotateCcw, Info, Zap, Link2, Weight, Ruler, Barcode } from "lucide-react";
@@ -1522,6 +1523,11 @@ function ProductEditPanel({ sku, initialTitulo, onClose, onUpdated, onDeleted, s
   const [customPriceInput, setCustomPriceInput] = useState("");
   const [savingPrice, setSavingPrice] = useState(false);
   const [priceConfig, setPriceConfig] = useState<api.PriceConfig | null>(null);
+  const [vehicleCatalog, setVehicleCatalog] = useState<api.VehicleCatalog | null>(null);
+
+  useEffect(() => {
+    api.getVehicleCatalog().then(setVehicleCatalog).catch(() => {});
+  }, []);
 
   useEffect(() => {
     api.getProductMeta(sku).then(setMeta).catch(() => {}).finally(() => setLoadingMeta(false));
@@ -1858,8 +1864,19 @@ function ProductEditPanel({ sku, initialTitulo, onClose, onUpdated, onDeleted, s
                     <textarea rows={4} value={meta.description || ""} onChange={(e) => setMeta({ ...meta, description: e.target.value })} className="w-full border border-gray-200 rounded-lg px-3 py-2.5 bg-gray-50 outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 resize-none" style={{ fontSize: "0.85rem" }} placeholder="Descrição detalhada..." />
                   </div>
                   <div>
-                    <label className="block text-gray-600 mb-1" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Compatibilidade (uma por linha)</label>
-                    <textarea rows={3} value={(meta.compatibility || []).join("\n")} onChange={(e) => setMeta({ ...meta, compatibility: e.target.value.split("\n").filter(Boolean) })} className="w-full border border-gray-200 rounded-lg px-3 py-2.5 bg-gray-50 outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 resize-none font-mono" style={{ fontSize: "0.8rem" }} placeholder="Honda Civic 2018-2024" />
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="block text-gray-600" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Aplicação (veículos compatíveis)</label>
+                      <label className="flex items-center gap-1.5 text-gray-500 cursor-pointer" style={{ fontSize: "0.75rem" }}>
+                        <input type="checkbox" checked={meta.fitmentUniversal === true} onChange={(e) => setMeta({ ...meta, fitmentUniversal: e.target.checked })} />
+                        Universal
+                      </label>
+                    </div>
+                    <AdminFitmentEditor catalog={vehicleCatalog} value={meta.fitments || []} onChange={(next) => setMeta({ ...meta, fitments: next })} />
+                    {(meta.compatibility || []).length > 0 && (
+                      <p className="text-gray-400 mt-1.5 font-mono" style={{ fontSize: "0.7rem" }} title="Texto livre antigo — use a migração em Veículos & Aplicação">
+                        Texto antigo: {(meta.compatibility || []).join(" | ")}
+                      </p>
+                    )}
                   </div>
                   <button onClick={saveMeta} disabled={savingMeta} className="w-full py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-40 transition-colors flex items-center justify-center gap-2" style={{ fontSize: "0.85rem", fontWeight: 500 }}>
                     {savingMeta ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Salvar Metadados
@@ -203,12 +203,10 @@ export function AdminReels() {
     try {
       var [priceRes, promoRes] = await Promise.all([
         api.getProductPricesBulkSafe(skus),
-        api.getActivePromo().catch(function () { return { promo: null }; }),
+        api.getActivePromo().catch(function (): api.ActiveSuperPromos { return { promo: null }; }),
       ]);
       var prices = priceRes.results || [];
-      var promo = promoRes.promo;
-      var now = Date.now();
-      var promoActive = promo && promo.enabled && promo.startDate <= now && promo.endDate >= now;
+      var campaigns = promoRes.campaigns || (promoRes.promo ? [promoRes.promo] : []);
 
       setLinkedProducts(function (prev) {
         return prev.map(function (lp) {
@@ -218,12 +216,10 @@ export function AdminReels() {
           }
           var sigePrice = p.price;
           var preview = "R$ " + sigePrice.toFixed(2).replace(".", ",");
-          if (promoActive && promo) {
-            var pp = (promo.products || []).find(function (x) { return x.sku === lp.sku; });
-            if (pp) {
-              var computed = api.computePromoPrice(sigePrice, promo, pp);
-              preview += " → PROMO R$ " + computed.promoPrice.toFixed(2).replace(".", ",") + " (" + computed.discountLabel + ")";
-            }
+          var match = api.findSuperPromoForSku(campaigns, lp.sku);
+          if (match) {
+            var computed = api.computePromoPrice(sigePrice, match.promo, match.product);
+            preview += " → " + match.promo.title + " R$ " + computed.promoPrice.toFixed(2).replace(".", ",") + " (" + computed.discountLabel + ")";
           }
           return { ...lp, pricePreview: preview };
         });
@@ -754,11 +750,10 @@ function ReelListItem({ reel, index, total, deleting, onMove, onToggleActive, on
     var skus = products.map(function (p) { return p.sku; });
     Promise.all([
       api.getProductPricesBulkSafe(skus),
-      api.getActivePromo().catch(function () { return { promo: null }; }),
+      api.getActivePromo().catch(function (): api.ActiveSuperPromos { return { promo: null }; }),
     ]).then(function (results) {
       var prices = results[0].results || [];
-      var promo = results[1].promo;
-      var now = Date.now();
+      var campaigns = results[1].campaigns || (results[1].promo ? [results[1].promo] : []);
       var lines: string[] = [];
       for (var i = 0; i < products.length; i++) {
         var p = prices.find(function (x) { return x.sku === products[i].sku; });
@@ -767,12 +762,10 @@ function ReelListItem({ reel, index, total, deleting, onMove, onToggleActive, on
           continue;
         }
         var txt = products[i].sku + ": R$ " + p.price.toFixed(2).replace(".", ",");
-        if (promo && promo.enabled && promo.startDate <= now && promo.endDate >= now) {
-          var pp = (promo.products || []).find(function (x) { return x.sku === products[i].sku; });
-          if (pp) {
-            var c = api.computePromoPrice(p.price, promo, pp);
-            txt += " → R$ " + c.promoPrice.toFixed(2).replace(".", ",") + " (" + c.discountLabel + ")";
-          }
+        var match = api.findSuperPromoForSku(campaigns, products[i].sku);
+        if (match) {
+          var c = api.computePromoPrice(p.price, match.promo, match.product);
+          txt += " → R$ " + c.promoPrice.toFixed(2).replace(".", ",") + " (" + c.discountLabel + ")";
         }
         lines.push(txt);
       }
@@ -572,7 +572,14 @@ export function AdminRegressionTest() {
       { name: "AdminSettings", fn: function () { return import("./AdminSettings"); } },
       { name: "AdminShipping", fn: function () { return import("./AdminShipping"); } },
       { name: "AdminReviews", fn: function () { return import("./AdminReviews"); } },
+      { name: "AdminProductQuestions", fn: function () { return import("./AdminProductQuestions"); } },
       { name: "AdminWarranty", fn: function () { return import("./AdminWarranty"); } },
+      { name: "AdminReturns", fn: function () { return import("./AdminReturns"); } },
+      { name: "AdminWarrantyClaims", fn: function () { return import("./AdminWarrantyClaims"); } },
+      { name: "AdminStockReservations", fn: function () { return import("./AdminStockReservations"); } },
+      { name: "AdminProductAlerts", fn: function () { return import("./AdminProductAlerts"); } },
+      { name: "AdminSegments", fn: function () { return import("./AdminSegments"); } },
+      { name: "AdminSigeSync", fn: function () { return import("./AdminSigeSync"); } },
       { name: "AdminAffiliates", fn: function () { return import("./AdminAffiliates"); } },
       { name: "AdminEmailMarketing", fn: function () { return import("./AdminEmailMarketing"); } },
       { name: "AdminAuditLog", fn: function () { return import("./AdminAuditLog"); } },
@@ -929,6 +936,11 @@ export function AdminRegressionTest() {
       return { ok: true, message: "Pending: " + r.pending + ", Approved: " + r.approved + ", Rejected: " + r.rejected + ", Images: " + r.totalImages };
     });
 
+    await runTest("reviews", "Admin Product Questions (pending)", async function () {
+      var r = await api.getAdminProductQuestions(at, "pending");
+      return { ok: true, message: r.pending + " na fila, " + r.totals.unanswered + " publicadas sem resposta" };
+    });
+
     await runTest("reviews", "Warranty Plans (admin)", async function () {
       var r = await api.getAdminWarrantyPlans(at);
       var active = r.plans.filter(function (p) { return p.active; }).length;
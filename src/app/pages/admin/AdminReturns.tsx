@@ -0,0 +1,577 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import Undo2 from "lucide-react/dist/esm/icons/undo-2.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import Check from "lucide-react/dist/esm/icons/check.js";
+import Ban from "lucide-react/dist/esm/icons/ban.js";
+import Tag from "lucide-react/dist/esm/icons/tag.js";
+import Truck from "lucide-react/dist/esm/icons/truck.js";
+import PackageCheck from "lucide-react/dist/esm/icons/package-check.js";
+import BadgeDollarSign from "lucide-react/dist/esm/icons/badge-dollar-sign.js";
+import Repeat from "lucide-react/dist/esm/icons/repeat.js";
+import ExternalLink from "lucide-react/dist/esm/icons/external-link.js";
+import Settings from "lucide-react/dist/esm/icons/settings.js";
+import Search from "lucide-react/dist/esm/icons/search.js";
+import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
+import ChevronUp from "lucide-react/dist/esm/icons/chevron-up.js";
+import User from "lucide-react/dist/esm/icons/user.js";
+import * as api from "../../services/api";
+import type { AdminRma, RmaLabelPayload } from "../../services/api";
+import { RMA_STATUS_STYLES, RMA_REASON_LABELS, RMA_RESOLUTION_LABELS } from "../../data/rma";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+function formatPrice(val: number) {
+  return val.toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
+}
+
+function formatDate(iso: string) {
+  if (!iso) return "-";
+  var d = new Date(iso);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+var STATUS_FILTERS = [
+  { value: "open", label: "Em andamento" },
+  { value: "requested", label: "Em análise" },
+  { value: "label_issued", label: "Aguardando envio" },
+  { value: "received", label: "Recebidas" },
+  { value: "all", label: "Todas" },
+];
+
+var inputCls = "w-full border border-gray-200 rounded-lg px-3 py-1.5 text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none";
+
+/* ═══════════════════ Label form ═══════════════════ */
+function LabelForm({ onSubmit, acting }: { onSubmit: (data: RmaLabelPayload) => void; acting: boolean }) {
+  var [sendToSisfrete, setSendToSisfrete] = useState(true);
+  var [form, setForm] = useState({
+    chaveNfe: "", numeroNota: "", serieNota: "", codigoServico: "", codigoTransportadora: "",
+    servicoEntrega: "", transportadoraNome: "", trackingCode: "", labelUrl: "", instructions: "",
+  });
+  var set = function (field: keyof typeof form) {
+    return function (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) {
+      var v = e.target.value;
+      setForm(function (prev) { return { ...prev, [field]: v }; });
+    };
+  };
+
+  var handleSubmit = function () {
+    var data: RmaLabelPayload = { sendToSisfrete: sendToSisfrete, instructions: form.instructions.trim() || undefined };
+    if (sendToSisfrete) {
+      if (!/^\d{44}$/.test(form.chaveNfe.trim())) { toast.error("Chave da NF-e de devolução deve ter 44 dígitos."); return; }
+      data.chaveNfe = form.chaveNfe.trim();
+      data.numeroNota = Number(form.numeroNota) || undefined;
+      data.serieNota = form.serieNota.trim() || undefined;
+      data.codigoServico = form.codigoServico.trim() || undefined;
+      data.codigoTransportadora = form.codigoTransportadora.trim() || undefined;
+      data.servicoEntrega = form.servicoEntrega.trim() || undefined;
+      data.transportadoraNome = form.transportadoraNome.trim() || undefined;
+    } else {
+      if (!form.trackingCode.trim() && !form.labelUrl.trim()) { toast.error("Informe o código de postagem ou o link da etiqueta."); return; }
+      data.trackingCode = form.trackingCode.trim() || undefined;
+      data.labelUrl = form.labelUrl.trim() || undefined;
+      data.transportadoraNome = form.transportadoraNome.trim() || undefined;
+    }
+    onSubmit(data);
+  };
+
+  return (
+    <div className="border border-blue-200 bg-blue-50/40 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-1 bg-white border border-gray-200 rounded-lg p-1 w-fit">
+        {[
+          { value: true, label: "Logística reversa SisFrete" },
+          { value: false, label: "Código / etiqueta manual" },
+        ].map(function (opt) {
+          return (
+            <button
+              key={String(opt.value)}
+              onClick={function () { setSendToSisfrete(opt.value); }}
+              className={"px-3 py-1 rounded-md transition-colors " + (sendToSisfrete === opt.value ? "bg-blue-600 text-white" : "text-gray-500 hover:text-gray-700")}
+              style={{ fontSize: "0.75rem", fontWeight: 500 }}
+            >
+              {opt.label}
+            </button>
+          );
+        })}
+      </div>
+      {sendToSisfrete ? (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input value={form.chaveNfe} onChange={set("chaveNfe")} placeholder="Chave NF-e de devolução (44 dígitos)" className={inputCls + " sm:col-span-3 font-mono"} style={{ fontSize: "0.78rem" }} />
+          <input value={form.numeroNota} onChange={set("numeroNota")} placeholder="Número da nota" className={inputCls} style={{ fontSize: "0.78rem" }} />
+          <input value={form.serieNota} onChange={set("serieNota")} placeholder="Série" className={inputCls} style={{ fontSize: "0.78rem" }} />
+          <input value={form.transportadoraNome} onChange={set("transportadoraNome")} placeholder="Transportadora" className={inputCls} style={{ fontSize: "0.78rem" }} />
+          <input value={form.codigoTransportadora} onChange={set("codigoTransportadora")} placeholder="Cód. transportadora" className={inputCls} style={{ fontSize: "0.78rem" }} />
+          <input value={form.codigoServico} onChange={set("codigoServico")} placeholder="Cód. serviço" className={inputCls} style={{ fontSize: "0.78rem" }} />
+          <input value={form.servicoEntrega} onChange={set("servicoEntrega")} placeholder="Serviço (ex.: PAC reverso)" className={inputCls} style={{ fontSize: "0.78rem" }} />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input value={form.trackingCode} onChange={set("trackingCode")} placeholder="Código de postagem" className={inputCls + " font-mono"} style={{ fontSize: "0.78rem" }} />
+          <input value={form.labelUrl} onChange={set("labelUrl")} placeholder="https://... (link da etiqueta)" className={inputCls} style={{ fontSize: "0.78rem" }} />
+          <input value={form.transportadoraNome} onChange={set("transportadoraNome")} placeholder="Transportadora" className={inputCls} style={{ fontSize: "0.78rem" }} />
+        </div>
+      )}
+      <textarea value={form.instructions} onChange={set("instructions")} rows={2} maxLength={500} placeholder="Instruções para o cliente (opcional)" className={inputCls + " resize-none"} style={{ fontSize: "0.78rem" }} />
+      <button
+        onClick={handleSubmit}
+        disabled={acting}
+        className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+        style={{ fontSize: "0.78rem", fontWeight: 600 }}
+      >
+        {acting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Tag className="w-3.5 h-3.5" />}
+        Emitir etiqueta
+      </button>
+    </div>
+  );
+}
+
+/* ═══════════════════ RMA card ═══════════════════ */
+function RmaRow({ rma, onUpdated }: { rma: AdminRma; onUpdated: (rma: AdminRma) => void }) {
+  var [expanded, setExpanded] = useState(rma.status === "requested");
+  var [note, setNote] = useState("");
+  var [acting, setActing] = useState(false);
+  var [showLabelForm, setShowLabelForm] = useState(false);
+  var [restock, setRestock] = useState<Record<string, boolean>>(function () {
+    var init: Record<string, boolean> = {};
+    for (var i = 0; i < rma.items.length; i++) init[rma.items[i].sku] = rma.reason === "withdrawal";
+    return init;
+  });
+  var [refundAmount, setRefundAmount] = useState(String(rma.refundValue || ""));
+  var st = RMA_STATUS_STYLES[rma.status];
+  var StIcon = st.icon;
+
+  var run = async function (label: string, fn: (token: string) => Promise<{ rma: AdminRma }>) {
+    setActing(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await fn(token);
+      toast.success(label);
+      setNote("");
+      setShowLabelForm(false);
+      onUpdated(res.rma);
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao atualizar solicitação.");
+    } finally {
+      setActing(false);
+    }
+  };
+
+  var handleDecision = function (action: "approve" | "reject") {
+    if (action === "reject" && !note.trim()) { toast.error("Informe o motivo da recusa (visível ao cliente)."); return; }
+    run(action === "approve" ? "Solicitação aprovada" : "Solicitação recusada", function (token) {
+      return api.adminRmaDecision(token, rma.id, { action: action, note: note.trim() || undefined });
+    });
+  };
+
+  var handleReceive = function () {
+    var skus = Object.keys(restock).filter(function (sku) { return restock[sku]; });
+    run("Recebimento registrado", function (token) {
+      return api.adminRmaReceive(token, rma.id, { restockSkus: skus, note: note.trim() || undefined });
+    });
+  };
+
+  var handleResolve = function (resolution: "refund" | "exchange") {
+    var amount = Number(String(refundAmount).replace(",", "."));
+    if (resolution === "refund") {
+      if (!(amount > 0)) { toast.error("Valor de reembolso inválido."); return; }
+      if (!confirm("Reembolsar " + formatPrice(amount) + " ao cliente? Em pagamentos Mercado Pago o estorno é feito automaticamente.")) return;
+    } else if (!confirm("Concluir como troca? Lembre de enviar o novo produto ao cliente.")) {
+      return;
+    }
+    run(resolution === "refund" ? "Reembolso registrado" : "Troca concluída", function (token) {
+      return api.adminRmaResolve(token, rma.id, {
+        resolution: resolution,
+        amount: resolution === "refund" ? amount : undefined,
+        note: note.trim() || undefined,
+      });
+    });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <button
+        onClick={function () { setExpanded(!expanded); }}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+      >
+        <span className={"inline-flex items-center gap-1 px-2 py-0.5 rounded-full border " + st.bg + " " + st.text + " " + st.border} style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+          <StIcon className="w-3 h-3" /> {st.label}
+        </span>
+        <span className="text-gray-800 font-mono" style={{ fontSize: "0.82rem", fontWeight: 600 }}>{rma.id}</span>
+        <span className="text-gray-400 hidden sm:inline" style={{ fontSize: "0.75rem" }}>{"Pedido " + rma.orderId}</span>
+        <span className="text-gray-600 truncate flex-1" style={{ fontSize: "0.78rem" }}>{rma.userName || rma.userEmail}</span>
+        <span className="text-gray-500 hidden md:inline" style={{ fontSize: "0.75rem" }}>{RMA_RESOLUTION_LABELS[rma.resolution]}</span>
+        <span className="text-gray-400" style={{ fontSize: "0.72rem" }}>{formatDate(rma.createdAt)}</span>
+        {expanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-100 px-4 py-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <p className="flex items-center gap-1.5 text-gray-700" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                <User className="w-3.5 h-3.5" /> {rma.userName || "-"}
+              </p>
+              <p className="text-gray-500" style={{ fontSize: "0.75rem" }}>{rma.userEmail}</p>
+              <p className="text-gray-700 mt-2" style={{ fontSize: "0.78rem" }}>
+                <span style={{ fontWeight: 600 }}>Motivo: </span>{RMA_REASON_LABELS[rma.reason]}
+              </p>
+              <p className="text-gray-600 mt-1 whitespace-pre-wrap bg-gray-50 rounded-lg px-3 py-2" style={{ fontSize: "0.78rem" }}>{rma.description}</p>
+            </div>
+            <div>
+              <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+                {rma.items.map(function (it) {
+                  return (
+                    <div key={it.sku} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                      <div className="min-w-0">
+                        <p className="text-gray-700 truncate" style={{ fontSize: "0.78rem" }}>{it.quantidade + "x " + it.titulo}</p>
+                        <p className="text-gray-400 font-mono" style={{ fontSize: "0.68rem" }}>{it.sku}</p>
+                      </div>
+                      <span className="text-gray-600 shrink-0" style={{ fontSize: "0.75rem" }}>{formatPrice(it.valorUnitario * it.quantidade)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-gray-500 mt-1.5 text-right" style={{ fontSize: "0.75rem" }}>
+                {"Valor a reembolsar (com desconto de cupom, garantia e frete): "}
+                <span className="text-gray-800" style={{ fontWeight: 700 }}>{formatPrice(rma.refundValue || 0)}</span>
+              </p>
+            </div>
+          </div>
+
+          {rma.photos.length > 0 && (
+            <div className="flex gap-2 flex-wrap">
+              {rma.photos.map(function (p, idx) {
+                return (
+                  <a key={p.path} href={p.signedUrl} target="_blank" rel="noopener noreferrer" className="w-20 h-20 rounded-lg overflow-hidden border border-gray-200 hover:border-red-300">
+                    <img src={p.signedUrl} alt={"Foto " + (idx + 1)} className="w-full h-full object-cover" />
+                  </a>
+                );
+              })}
+            </div>
+          )}
+
+          {rma.returnLabel && (
+            <div className="flex items-center gap-2 flex-wrap text-blue-800 bg-blue-50 border border-blue-100 rounded-lg px-3 py-2" style={{ fontSize: "0.76rem" }}>
+              <Truck className="w-3.5 h-3.5" />
+              <span style={{ fontWeight: 600 }}>{rma.returnLabel.provider === "sisfrete" ? "SisFrete" : "Manual"}</span>
+              {rma.returnLabel.trackingCode && <span className="font-mono">{rma.returnLabel.trackingCode}</span>}
+              {rma.returnLabel.carrierName && <span>{"(" + rma.returnLabel.carrierName + ")"}</span>}
+              {rma.returnLabel.labelUrl && (
+                <a href={rma.returnLabel.labelUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 underline">
+                  <ExternalLink className="w-3 h-3" /> etiqueta
+                </a>
+              )}
+              <span className="text-blue-500">{"emitida em " + formatDate(rma.returnLabel.issuedAt)}</span>
+            </div>
+          )}
+
+          {rma.stockAdjustment && (
+            <p className="text-gray-600" style={{ fontSize: "0.75rem" }}>
+              {"Estoque: " + (rma.stockAdjustment.status === "sige"
+                ? "entrada registrada no SIGE" + (rma.stockAdjustment.sigeOrderId ? " (mov. " + rma.stockAdjustment.sigeOrderId + ")" : "")
+                : rma.stockAdjustment.status === "manual"
+                  ? "ajustar manualmente no SIGE" + (rma.stockAdjustment.error ? " — " + rma.stockAdjustment.error : "")
+                  : "nenhum item retornou ao estoque")}
+            </p>
+          )}
+
+          {rma.refund && (
+            <p className="flex items-center gap-1.5 text-emerald-700" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+              <BadgeDollarSign className="w-3.5 h-3.5" />
+              {"Reembolsado " + formatPrice(rma.refund.amount) + " via " + rma.refund.provider + (rma.refund.manual ? " (manual)" : "") + " em " + formatDate(rma.refund.at) +
+                (rma.refund.status === "pending_manual" ? " — aguardando confirmação da transferência no pedido" : "")}
+            </p>
+          )}
+
+          {/* History */}
+          <div className="space-y-0.5">
+            {rma.history.map(function (h, idx) {
+              return (
+                <p key={idx} className="text-gray-400" style={{ fontSize: "0.7rem" }}>
+                  {formatDate(h.at) + " — " + RMA_STATUS_STYLES[h.to].label + " (" + (h.by.name || h.by.type) + ")" + (h.note ? ": " + h.note : "")}
+                </p>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          {["requested", "approved", "label_issued", "received"].indexOf(rma.status) !== -1 && (
+            <div className="border-t border-gray-100 pt-3 space-y-2">
+              <input
+                value={note}
+                onChange={function (e) { setNote(e.target.value); }}
+                maxLength={500}
+                placeholder={rma.status === "requested" ? "Observação para o cliente (obrigatória para recusar)" : "Observação (opcional)"}
+                className={inputCls}
+                style={{ fontSize: "0.8rem" }}
+              />
+
+              {rma.status === "requested" && (
+                <div className="flex gap-2">
+                  <button onClick={function () { handleDecision("approve"); }} disabled={acting} className="flex items-center gap-1.5 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <Check className="w-3.5 h-3.5" /> Aprovar
+                  </button>
+                  <button onClick={function () { handleDecision("reject"); }} disabled={acting} className="flex items-center gap-1.5 bg-red-50 hover:bg-red-100 text-red-600 border border-red-200 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <Ban className="w-3.5 h-3.5" /> Recusar
+                  </button>
+                </div>
+              )}
+
+              {rma.status === "approved" && (
+                showLabelForm ? (
+                  <LabelForm
+                    acting={acting}
+                    onSubmit={function (data) {
+                      run("Etiqueta emitida", function (token) { return api.adminRmaLabel(token, rma.id, data); });
+                    }}
+                  />
+                ) : (
+                  <button onClick={function () { setShowLabelForm(true); }} className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <Tag className="w-3.5 h-3.5" /> Emitir etiqueta de devolução
+                  </button>
+                )
+              )}
+
+              {(rma.status === "approved" || rma.status === "label_issued") && (
+                <div className="border border-indigo-100 bg-indigo-50/40 rounded-lg p-3">
+                  <p className="text-gray-700 mb-1.5" style={{ fontSize: "0.78rem", fontWeight: 600 }}>Recebimento — itens que voltam ao estoque vendável:</p>
+                  {rma.items.map(function (it) {
+                    return (
+                      <label key={it.sku} className="flex items-center gap-2 text-gray-600 cursor-pointer" style={{ fontSize: "0.78rem" }}>
+                        <input
+                          type="checkbox"
+                          checked={!!restock[it.sku]}
+                          onChange={function (e) {
+                            var v = e.target.checked;
+                            setRestock(function (prev) { return { ...prev, [it.sku]: v }; });
+                          }}
+                        />
+                        {it.quantidade + "x " + it.sku + " — " + it.titulo}
+                      </label>
+                    );
+                  })}
+                  <button onClick={handleReceive} disabled={acting} className="mt-2 flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <PackageCheck className="w-3.5 h-3.5" /> Registrar recebimento
+                  </button>
+                </div>
+              )}
+
+              {rma.status === "received" && (
+                <div className="flex items-center gap-2 flex-wrap">
+                  <div className="flex items-center gap-1">
+                    <span className="text-gray-500" style={{ fontSize: "0.78rem" }}>R$</span>
+                    <input
+                      value={refundAmount}
+                      onChange={function (e) { setRefundAmount(e.target.value); }}
+                      className={inputCls + " w-28"}
+                      style={{ fontSize: "0.8rem" }}
+                    />
+                  </div>
+                  <button onClick={function () { handleResolve("refund"); }} disabled={acting} className="flex items-center gap-1.5 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <BadgeDollarSign className="w-3.5 h-3.5" /> Reembolsar
+                  </button>
+                  <button onClick={function () { handleResolve("exchange"); }} disabled={acting} className="flex items-center gap-1.5 bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <Repeat className="w-3.5 h-3.5" /> Concluir como troca
+                  </button>
+                  {rma.resolution === "exchange" && (
+                    <span className="text-gray-400" style={{ fontSize: "0.72rem" }}>Cliente pediu troca</span>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ SIGE config ═══════════════════ */
+function RmaConfigBox() {
+  var [open, setOpen] = useState(false);
+  var [tipoMv, setTipoMv] = useState("");
+  var [loading, setLoading] = useState(false);
+  var [saving, setSaving] = useState(false);
+
+  useEffect(function () {
+    if (!open) return;
+    setLoading(true);
+    getValidAdminToken().then(function (token) {
+      if (!token) return;
+      return api.adminGetRmaConfig(token).then(function (cfg) { setTipoMv(cfg.sigeReturnTipoMv || ""); });
+    }).catch(function (err) {
+      console.error("[AdminReturns] Config load error:", err);
+    }).finally(function () { setLoading(false); });
+  }, [open]);
+
+  var handleSave = async function () {
+    setSaving(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      await api.adminSaveRmaConfig(token, { sigeReturnTipoMv: tipoMv.trim() });
+      toast.success("Configuração salva");
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao salvar configuração.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <button onClick={function () { setOpen(!open); }} className="w-full flex items-center gap-2 px-4 py-2.5 text-gray-600 hover:text-gray-800" style={{ fontSize: "0.8rem", fontWeight: 500 }}>
+        <Settings className="w-4 h-4" /> Integração de estoque (SIGE)
+        {open ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+      {open && (
+        <div className="border-t border-gray-100 px-4 py-3 space-y-2">
+          <p className="text-gray-500" style={{ fontSize: "0.75rem" }}>
+            Código do tipo de movimento de devolução no SIGE (codTipoMv). Quando preenchido, os itens marcados como
+            "voltam ao estoque" geram uma entrada no SIGE ao registrar o recebimento. Em branco, o ajuste fica manual.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              value={tipoMv}
+              onChange={function (e) { setTipoMv(e.target.value.replace(/\D/g, "")); }}
+              disabled={loading}
+              placeholder="Ex.: 750"
+              className={inputCls + " w-32 font-mono"}
+              style={{ fontSize: "0.8rem" }}
+            />
+            <button onClick={handleSave} disabled={saving || loading} className="flex items-center gap-1.5 bg-gray-800 hover:bg-gray-900 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+              {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+              Salvar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminReturns() {
+  var [rmas, setRmas] = useState<AdminRma[]>([]);
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [statusFilter, setStatusFilter] = useState("open");
+  var [searchTerm, setSearchTerm] = useState("");
+
+  var loadRmas = useCallback(async function () {
+    setLoading(true);
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.adminGetRmas(token, statusFilter);
+      setRmas(result.rmas || []);
+    } catch (err: any) {
+      console.error("[AdminReturns] Load error:", err);
+      setError(err.message || "Erro ao carregar trocas e devoluções.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(function () {
+    loadRmas();
+  }, [loadRmas]);
+
+  var handleUpdated = function (updated: AdminRma) {
+    setRmas(function (prev) { return prev.map(function (r) { return r.id === updated.id ? updated : r; }); });
+  };
+
+  var filtered = useMemo(function () {
+    if (!searchTerm) return rmas;
+    var term = searchTerm.toLowerCase();
+    return rmas.filter(function (r) {
+      return r.id.toLowerCase().indexOf(term) >= 0 ||
+        r.orderId.toLowerCase().indexOf(term) >= 0 ||
+        (r.userName || "").toLowerCase().indexOf(term) >= 0 ||
+        (r.userEmail || "").toLowerCase().indexOf(term) >= 0 ||
+        r.items.some(function (it) { return it.sku.toLowerCase().indexOf(term) >= 0; });
+    });
+  }, [rmas, searchTerm]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <Undo2 className="w-5 h-5 text-orange-600" /> Trocas e Devoluções
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Analise as solicitações, emita a etiqueta reversa, registre o recebimento e conclua com reembolso ou troca.
+          </p>
+        </div>
+        <button
+          onClick={loadRmas}
+          disabled={loading}
+          className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+          style={{ fontSize: "0.8rem", fontWeight: 500 }}
+        >
+          <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+          Atualizar
+        </button>
+      </div>
+
+      <RmaConfigBox />
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+          {STATUS_FILTERS.map(function (f) {
+            return (
+              <button
+                key={f.value}
+                onClick={function () { setStatusFilter(f.value); }}
+                className={"px-3 py-1.5 rounded-md transition-colors " +
+                  (statusFilter === f.value ? "bg-white text-gray-800 shadow-sm" : "text-gray-500 hover:text-gray-700")}
+                style={{ fontSize: "0.78rem", fontWeight: 500 }}
+              >
+                {f.label}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex-1 min-w-[200px] relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={function (e) { setSearchTerm(e.target.value); }}
+            placeholder="Buscar por RMA, pedido, cliente, SKU..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+          Nenhuma solicitação encontrada.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {filtered.map(function (rma) {
+            return <RmaRow key={rma.id} rma={rma} onUpdated={handleUpdated} />;
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
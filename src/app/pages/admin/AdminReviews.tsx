@@ -17,6 +17,11 @@ import User from "lucide-react/dist/esm/icons/user.js";
 import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
 import ChevronUp from "lucide-react/dist/esm/icons/chevron-up.js";
 import Search from "lucide-react/dist/esm/icons/search.js";
+import Send from "lucide-react/dist/esm/icons/send.js";
+import Mail from "lucide-react/dist/esm/icons/mail.js";
+import MessageCircle from "lucide-react/dist/esm/icons/message-circle.js";
+import Gift from "lucide-react/dist/esm/icons/gift.js";
+import Save from "lucide-react/dist/esm/icons/save.js";
 import * as api from "../../services/api";
 import type { Review } from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
@@ -320,6 +325,290 @@ function ReviewDetailModal({
   );
 }
 
+/* ═══════════════════ Review Requests (pós-compra) ═══════════════════ */
+var REQUEST_STATUS_LABELS: Record<string, string> = { scheduled: "Agendado", sent: "Enviado", skipped: "Não enviado" };
+
+function ChannelStatsCard({ label, icon, stats }: { label: string; icon: React.ReactNode; stats: api.ReviewChannelStats }) {
+  return (
+    <div className="border border-gray-200 rounded-xl px-4 py-3">
+      <div className="flex items-center gap-1.5 text-gray-600 mb-2" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+        {icon} {label}
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { value: stats.sent, label: "Enviados" },
+          { value: stats.clicked, label: "Cliques" },
+          { value: stats.reviews, label: "Avaliações" },
+          { value: stats.conversionRate + "%", label: "Conversão" },
+        ].map(function (m) {
+          return (
+            <div key={m.label}>
+              <p className="text-gray-800" style={{ fontSize: "1.05rem", fontWeight: 700 }}>{m.value}</p>
+              <p className="text-gray-400" style={{ fontSize: "0.65rem" }}>{m.label}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ReviewRequestsPanel() {
+  var [open, setOpen] = useState(false);
+  var [loading, setLoading] = useState(false);
+  var [saving, setSaving] = useState(false);
+  var [settings, setSettings] = useState<api.ReviewRequestSettings | null>(null);
+  var [stats, setStats] = useState<api.ReviewRequestStats | null>(null);
+  var [requests, setRequests] = useState<api.ReviewRequestRow[]>([]);
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.getReviewRequests(token);
+      setSettings(res.settings);
+      setStats(res.stats);
+      setRequests(res.requests || []);
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao carregar pedidos de avaliação");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(function () {
+    if (open && !settings) load();
+  }, [open, settings, load]);
+
+  var patch = function (changes: Partial<api.ReviewRequestSettings>) {
+    setSettings(function (prev) { return prev ? Object.assign({}, prev, changes) : prev; });
+  };
+
+  var patchReward = function (changes: Partial<api.ReviewRequestSettings["reward"]>) {
+    setSettings(function (prev) { return prev ? Object.assign({}, prev, { reward: Object.assign({}, prev.reward, changes) }) : prev; });
+  };
+
+  var save = async function () {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.saveReviewRequestSettings(token, settings);
+      setSettings(res.settings);
+      toast.success("Configuração salva.");
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao salvar");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  var inputCls = "border border-gray-200 rounded-lg px-2.5 py-1.5 text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <button
+        onClick={function () { setOpen(!open); }}
+        className="w-full flex items-center justify-between px-4 py-3"
+      >
+        <div className="flex items-center gap-2 text-left">
+          <Send className="w-4 h-4 text-red-500" />
+          <div>
+            <p className="text-gray-800" style={{ fontSize: "0.88rem", fontWeight: 600 }}>Pedidos de avaliação pós-compra</p>
+            <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+              E-mail/WhatsApp com link para avaliar sem login, conversão por canal e cupom de recompensa.
+            </p>
+          </div>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-100 p-4 space-y-4">
+          {loading && !settings ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="w-5 h-5 text-gray-300 animate-spin" />
+            </div>
+          ) : settings && (
+            <>
+              {/* Settings */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4" style={{ fontSize: "0.8rem" }}>
+                <div className="space-y-2.5">
+                  <label className="flex items-center gap-2 text-gray-700" style={{ fontWeight: 600 }}>
+                    <input type="checkbox" checked={settings.enabled} onChange={function (e) { patch({ enabled: e.target.checked }); }} className="w-4 h-4 accent-red-600" />
+                    Enviar pedidos de avaliação
+                  </label>
+                  <div className="flex items-center gap-2 flex-wrap text-gray-600">
+                    Enviar
+                    <input
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={settings.daysAfter}
+                      onChange={function (e) { patch({ daysAfter: Math.max(0, Math.min(60, Number(e.target.value) || 0)) }); }}
+                      className={inputCls + " w-16"}
+                    />
+                    dia(s) depois que o pedido for
+                    <select
+                      value={settings.trigger}
+                      onChange={function (e) { patch({ trigger: e.target.value as api.ReviewRequestSettings["trigger"] }); }}
+                      className={inputCls}
+                    >
+                      <option value="delivered">entregue</option>
+                      <option value="shipped">enviado</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-4 text-gray-600">
+                    <label className="flex items-center gap-1.5">
+                      <input type="checkbox" checked={settings.channels.email} onChange={function (e) { patch({ channels: Object.assign({}, settings!.channels, { email: e.target.checked }) }); }} className="w-4 h-4 accent-red-600" />
+                      <Mail className="w-3.5 h-3.5" /> E-mail
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input type="checkbox" checked={settings.channels.whatsapp} onChange={function (e) { patch({ channels: Object.assign({}, settings!.channels, { whatsapp: e.target.checked }) }); }} className="w-4 h-4 accent-red-600" />
+                      <MessageCircle className="w-3.5 h-3.5" /> WhatsApp
+                    </label>
+                  </div>
+                  <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>
+                    O pedido de avaliação é criado quando o status muda no painel de pedidos. Produtos já avaliados e pedidos cancelados ou devolvidos ficam de fora.
+                  </p>
+                </div>
+
+                <div className="space-y-2.5">
+                  <label className="flex items-center gap-2 text-gray-700" style={{ fontWeight: 600 }}>
+                    <input type="checkbox" checked={settings.reward.enabled} onChange={function (e) { patchReward({ enabled: e.target.checked }); }} className="w-4 h-4 accent-red-600" />
+                    <Gift className="w-4 h-4 text-amber-500" /> Cupom quando a avaliação for aprovada
+                  </label>
+                  <div className={"flex items-center gap-2 flex-wrap text-gray-600" + (settings.reward.enabled ? "" : " opacity-50")}>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={settings.reward.discountValue}
+                      disabled={!settings.reward.enabled}
+                      onChange={function (e) { patchReward({ discountValue: Number(e.target.value) || 0 }); }}
+                      className={inputCls + " w-20"}
+                    />
+                    <select
+                      value={settings.reward.discountType}
+                      disabled={!settings.reward.enabled}
+                      onChange={function (e) { patchReward({ discountType: e.target.value as "percentage" | "fixed" }); }}
+                      className={inputCls}
+                    >
+                      <option value="percentage">% de desconto</option>
+                      <option value="fixed">R$ de desconto</option>
+                    </select>
+                    válido por
+                    <input
+                      type="number"
+                      min={1}
+                      max={365}
+                      value={settings.reward.validDays}
+                      disabled={!settings.reward.enabled}
+                      onChange={function (e) { patchReward({ validDays: Math.max(1, Number(e.target.value) || 1) }); }}
+                      className={inputCls + " w-16"}
+                    />
+                    dias
+                  </div>
+                  <div className={"flex items-center gap-2 text-gray-600" + (settings.reward.enabled ? "" : " opacity-50")}>
+                    Compra mínima R$
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={settings.reward.minOrderValue}
+                      disabled={!settings.reward.enabled}
+                      onChange={function (e) { patchReward({ minOrderValue: Number(e.target.value) || 0 }); }}
+                      className={inputCls + " w-24"}
+                    />
+                  </div>
+                  <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>
+                    Um cupom de uso único por pedido, enviado por e-mail na primeira avaliação aprovada que veio do link.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={save}
+                  disabled={saving}
+                  className="flex items-center gap-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+                  style={{ fontSize: "0.8rem", fontWeight: 600 }}
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Salvar
+                </button>
+              </div>
+
+              {/* Conversion per channel */}
+              {stats && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <ChannelStatsCard label="E-mail" icon={<Mail className="w-3.5 h-3.5" />} stats={stats.channels.email} />
+                    <ChannelStatsCard label="WhatsApp" icon={<MessageCircle className="w-3.5 h-3.5" />} stats={stats.channels.whatsapp} />
+                  </div>
+                  <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>
+                    {stats.total + " pedido(s) de avaliação: " + stats.scheduled + " agendado(s), " + stats.sent + " enviado(s), " + stats.skipped + " não enviado(s), " + stats.rewards + " cupom(ns) emitido(s). Conversão = pedidos com ao menos uma avaliação pelo link do canal ÷ enviados."}
+                  </p>
+                </div>
+              )}
+
+              {/* Latest requests */}
+              {requests.length > 0 && (
+                <div className="overflow-x-auto border border-gray-100 rounded-lg">
+                  <table className="w-full" style={{ fontSize: "0.74rem" }}>
+                    <thead>
+                      <tr className="bg-gray-50 text-gray-500 text-left">
+                        <th className="px-3 py-2" style={{ fontWeight: 600 }}>Pedido</th>
+                        <th className="px-3 py-2" style={{ fontWeight: 600 }}>Cliente</th>
+                        <th className="px-3 py-2" style={{ fontWeight: 600 }}>Status</th>
+                        <th className="px-3 py-2" style={{ fontWeight: 600 }}>Canais</th>
+                        <th className="px-3 py-2" style={{ fontWeight: 600 }}>Avaliados</th>
+                        <th className="px-3 py-2" style={{ fontWeight: 600 }}>Cupom</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {requests.slice(0, 20).map(function (r) {
+                        var when = r.status === "scheduled" ? r.dueAt : r.sentAt;
+                        return (
+                          <tr key={r.userId + ":" + r.orderId} className="border-t border-gray-100 text-gray-600">
+                            <td className="px-3 py-2 font-mono">{r.orderId}</td>
+                            <td className="px-3 py-2">
+                              <p className="truncate max-w-[160px]">{r.name || r.email}</p>
+                            </td>
+                            <td className="px-3 py-2" title={r.error || ""}>
+                              {REQUEST_STATUS_LABELS[r.status] || r.status}
+                              {when ? <span className="text-gray-400">{" · " + new Date(when).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit" })}</span> : null}
+                            </td>
+                            <td className="px-3 py-2">
+                              {(["email", "whatsapp"] as api.ReviewRequestChannel[]).filter(function (ch) { return r.delivery[ch] !== "skipped"; }).map(function (ch) {
+                                return (
+                                  <span key={ch} className={"mr-2 " + (r.delivery[ch] === "sent" ? "text-green-600" : "text-red-500")}>
+                                    {(ch === "email" ? "E-mail" : "WhatsApp") + (r.clicks[ch] > 0 ? " (" + r.clicks[ch] + " clique" + (r.clicks[ch] > 1 ? "s" : "") + ")" : "")}
+                                  </span>
+                                );
+                              })}
+                            </td>
+                            <td className="px-3 py-2">
+                              {r.items.filter(function (it) { return it.reviewed; }).length + "/" + r.items.length}
+                            </td>
+                            <td className="px-3 py-2 font-mono">{r.rewardCode || "—"}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ═══════════════════════════════════════
    Admin Reviews Page
    ═══════════════════════════════════════ */
@@ -369,8 +658,9 @@ export function AdminReviews() {
     try {
       var token = await getToken();
       if (!token) return;
-      await api.moderateReview(token, reviewId, { action: action, note: note, imageActions: imageActions });
+      var res = await api.moderateReview(token, reviewId, { action: action, note: note, imageActions: imageActions });
       toast.success(action === "approve" ? "Avaliação aprovada!" : "Avaliação rejeitada.");
+      if (res.rewardCode) toast.success("Cupom " + res.rewardCode + " enviado ao cliente.");
       setSelectedReview(null);
       loadReviews();
     } catch (err: any) {
@@ -480,6 +770,8 @@ export function AdminReviews() {
         </div>
       )}
 
+      <ReviewRequestsPanel />
+
       {/* Filters + Search */}
       <div className="flex items-center gap-3 flex-wrap">
         <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
@@ -0,0 +1,544 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import Users from "lucide-react/dist/esm/icons/users.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import Plus from "lucide-react/dist/esm/icons/plus.js";
+import Pencil from "lucide-react/dist/esm/icons/pencil.js";
+import Trash2 from "lucide-react/dist/esm/icons/trash-2.js";
+import Save from "lucide-react/dist/esm/icons/save.js";
+import X from "lucide-react/dist/esm/icons/x.js";
+import Mail from "lucide-react/dist/esm/icons/mail.js";
+import MessageCircle from "lucide-react/dist/esm/icons/message-circle.js";
+import * as api from "../../services/api";
+import type { CustomerSegment, SegmentDefinition, SegmentRule, SegmentRuleType, SegmentPreview, CategoryNode, VehicleCatalog } from "../../services/api";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+var MAX_RULES = 10;
+
+var RULE_LABELS: Record<SegmentRuleType, string> = {
+  bought_category: "Comprou na categoria",
+  cart_abandoned: "Abandonou carrinho",
+  favorited: "Favoritou produto",
+  vehicle: "Tem o veículo",
+  person_type: "Tipo de cadastro",
+  no_purchase: "Sem compra há",
+};
+
+var RULE_DEFAULTS: Record<SegmentRuleType, SegmentRule> = {
+  bought_category: { type: "bought_category", category: "", days: 90 },
+  cart_abandoned: { type: "cart_abandoned", minValue: 100, days: 7 },
+  favorited: { type: "favorited", skus: [] },
+  vehicle: { type: "vehicle", make: "", model: "", yearFrom: null, yearTo: null },
+  person_type: { type: "person_type", value: "pj" },
+  no_purchase: { type: "no_purchase", days: 180, everBought: true },
+};
+
+var EMPTY_DEFINITION: SegmentDefinition = { match: "all", rules: [RULE_DEFAULTS.no_purchase] };
+
+function formatDate(ms: number | null) {
+  if (!ms) return "-";
+  var d = new Date(ms);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+function flattenCategories(nodes: CategoryNode[], depth: number, out: Array<{ slug: string; name: string; label: string }>) {
+  for (var i = 0; i < nodes.length; i++) {
+    out.push({ slug: nodes[i].slug, name: nodes[i].name, label: "  ".repeat(depth) + nodes[i].name });
+    if (nodes[i].children) flattenCategories(nodes[i].children!, depth + 1, out);
+  }
+  return out;
+}
+
+function describeRule(rule: SegmentRule, categoryName: (slug: string) => string, catalog: VehicleCatalog | null) {
+  var text = "";
+  if (rule.type === "bought_category") {
+    text = "comprou em " + categoryName(rule.category || "") + " nos últimos " + rule.days + " dias";
+  } else if (rule.type === "cart_abandoned") {
+    text = "abandonou carrinho acima de R$ " + (rule.minValue || 0).toLocaleString("pt-BR", { minimumFractionDigits: 2 }) + " nos últimos " + rule.days + " dias";
+  } else if (rule.type === "favorited") {
+    text = rule.skus && rule.skus.length > 0 ? "favoritou " + rule.skus.join(", ") : "tem produtos favoritos";
+  } else if (rule.type === "vehicle") {
+    var make = catalog ? catalog.makes.find(function (m) { return m.id === rule.make; }) : null;
+    var model = make && rule.model ? make.models.find(function (m) { return m.id === rule.model; }) : null;
+    text = "tem " + ((make && make.name) || rule.make) + (rule.model ? " " + ((model && model.name) || rule.model) : "");
+    if (rule.yearFrom || rule.yearTo) text += " (" + (rule.yearFrom || "…") + "–" + (rule.yearTo || "…") + ")";
+  } else if (rule.type === "person_type") {
+    text = rule.value === "pj" ? "cadastro com CNPJ" : "cadastro com CPF";
+  } else if (rule.type === "no_purchase") {
+    text = "sem compra há " + rule.days + " dias" + (rule.everBought ? " (já comprou antes)" : "");
+  }
+  return (rule.not ? "NÃO " : "") + text;
+}
+
+var inputCls = "border border-gray-200 rounded-lg px-2.5 py-1.5 text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none";
+
+/* ═══════════════════ Rule row ═══════════════════ */
+function RuleEditor({ rule, categories, catalog, onChange, onRemove }: {
+  rule: SegmentRule;
+  categories: Array<{ slug: string; name: string; label: string }>;
+  catalog: VehicleCatalog | null;
+  onChange: (rule: SegmentRule) => void;
+  onRemove: (() => void) | null;
+}) {
+  function set(patch: Partial<SegmentRule>) {
+    onChange({ ...rule, ...patch });
+  }
+  function num(raw: string): number | null {
+    return raw === "" ? null : Number(raw);
+  }
+  var make = catalog && rule.make ? catalog.makes.find(function (m) { return m.id === rule.make; }) : null;
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap bg-gray-50 border border-gray-200 rounded-lg px-3 py-2" style={{ fontSize: "0.8rem" }}>
+      <select
+        value={rule.not ? "not" : "is"}
+        onChange={function (e) { set({ not: e.target.value === "not" }); }}
+        className={inputCls}
+      >
+        <option value="is">Cliente</option>
+        <option value="not">Cliente NÃO</option>
+      </select>
+      <select
+        value={rule.type}
+        onChange={function (e) { onChange({ ...RULE_DEFAULTS[e.target.value as SegmentRuleType], not: rule.not }); }}
+        className={inputCls}
+      >
+        {(Object.keys(RULE_LABELS) as SegmentRuleType[]).map(function (t) {
+          return <option key={t} value={t}>{RULE_LABELS[t]}</option>;
+        })}
+      </select>
+
+      {rule.type === "bought_category" && (
+        <>
+          <select value={rule.category || ""} onChange={function (e) { set({ category: e.target.value }); }} className={inputCls + " max-w-[240px]"}>
+            <option value="">Escolha a categoria…</option>
+            {categories.map(function (c) { return <option key={c.slug} value={c.slug}>{c.label}</option>; })}
+          </select>
+          <span className="text-gray-500">nos últimos</span>
+          <input type="number" min={1} value={rule.days ?? ""} onChange={function (e) { set({ days: num(e.target.value) ?? undefined }); }} className={inputCls + " w-20"} />
+          <span className="text-gray-500">dias</span>
+        </>
+      )}
+
+      {rule.type === "cart_abandoned" && (
+        <>
+          <span className="text-gray-500">com valor acima de R$</span>
+          <input type="number" min={0} step="0.01" value={rule.minValue ?? ""} onChange={function (e) { set({ minValue: num(e.target.value) ?? undefined }); }} className={inputCls + " w-24"} />
+          <span className="text-gray-500">nos últimos</span>
+          <input type="number" min={1} value={rule.days ?? ""} onChange={function (e) { set({ days: num(e.target.value) ?? undefined }); }} className={inputCls + " w-20"} />
+          <span className="text-gray-500">dias</span>
+        </>
+      )}
+
+      {rule.type === "favorited" && (
+        <input
+          type="text"
+          value={(rule.skus || []).join(", ")}
+          onChange={function (e) { set({ skus: e.target.value.split(",").map(function (s) { return s.trim(); }) }); }}
+          onBlur={function () { set({ skus: (rule.skus || []).filter(Boolean) }); }}
+          placeholder="SKUs separados por vírgula (vazio = qualquer produto)"
+          className={inputCls + " flex-1 min-w-[220px]"}
+        />
+      )}
+
+      {rule.type === "vehicle" && (
+        <>
+          <select value={rule.make || ""} onChange={function (e) { set({ make: e.target.value, model: "" }); }} className={inputCls}>
+            <option value="">Marca…</option>
+            {(catalog ? catalog.makes : []).map(function (m) { return <option key={m.id} value={m.id}>{m.name}</option>; })}
+          </select>
+          <select value={rule.model || ""} onChange={function (e) { set({ model: e.target.value }); }} disabled={!make} className={inputCls + " disabled:opacity-50"}>
+            <option value="">Qualquer modelo</option>
+            {(make ? make.models : []).map(function (m) { return <option key={m.id} value={m.id}>{m.name}</option>; })}
+          </select>
+          <span className="text-gray-500">ano</span>
+          <input type="number" placeholder="de" value={rule.yearFrom ?? ""} onChange={function (e) { set({ yearFrom: num(e.target.value) }); }} className={inputCls + " w-20"} />
+          <input type="number" placeholder="até" value={rule.yearTo ?? ""} onChange={function (e) { set({ yearTo: num(e.target.value) }); }} className={inputCls + " w-20"} />
+        </>
+      )}
+
+      {rule.type === "person_type" && (
+        <select value={rule.value || "pj"} onChange={function (e) { set({ value: e.target.value as "pf" | "pj" }); }} className={inputCls}>
+          <option value="pj">CNPJ (empresa)</option>
+          <option value="pf">CPF (pessoa física)</option>
+        </select>
+      )}
+
+      {rule.type === "no_purchase" && (
+        <>
+          <input type="number" min={1} value={rule.days ?? ""} onChange={function (e) { set({ days: num(e.target.value) ?? undefined }); }} className={inputCls + " w-20"} />
+          <span className="text-gray-500">dias</span>
+          <label className="flex items-center gap-1.5 text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={Boolean(rule.everBought)} onChange={function (e) { set({ everBought: e.target.checked }); }} className="accent-red-600" />
+            só quem já comprou antes
+          </label>
+        </>
+      )}
+
+      {onRemove && (
+        <button onClick={onRemove} className="ml-auto p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors" title="Remover regra">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Preview ═══════════════════ */
+function PreviewPanel({ preview, loading, error }: { preview: SegmentPreview | null; loading: boolean; error: string | null }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-gray-700" style={{ fontSize: "0.85rem", fontWeight: 600 }}>Prévia ao vivo</p>
+        {loading && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+      </div>
+      {error ? (
+        <p className="text-amber-600" style={{ fontSize: "0.78rem" }}>{error}</p>
+      ) : !preview ? (
+        <p className="text-gray-400" style={{ fontSize: "0.78rem" }}>Calculando…</p>
+      ) : (
+        <>
+          <p className="text-gray-900" style={{ fontSize: "1.8rem", fontWeight: 700, lineHeight: 1 }}>
+            {preview.total.toLocaleString("pt-BR")}
+            <span className="text-gray-400 ml-2" style={{ fontSize: "0.8rem", fontWeight: 500 }}>cliente(s)</span>
+          </p>
+          <div className="grid grid-cols-2 gap-2" style={{ fontSize: "0.75rem" }}>
+            <div className="bg-blue-50 text-blue-700 rounded-lg px-2.5 py-1.5 flex items-center gap-1.5" title="Assinantes ativos do email marketing — quem uma campanha alcança">
+              <Mail className="w-3.5 h-3.5" /><span style={{ fontWeight: 700 }}>{preview.subscribers}</span> assinantes
+            </div>
+            <div className="bg-green-50 text-green-700 rounded-lg px-2.5 py-1.5 flex items-center gap-1.5" title={"Aceitaram ofertas por WhatsApp e não se descadastraram — quem um disparo alcança (" + preview.withPhone + " com telefone)"}>
+              <MessageCircle className="w-3.5 h-3.5" /><span style={{ fontWeight: 700 }}>{preview.whatsappReach}</span> aceitam WhatsApp
+            </div>
+            <div className="bg-gray-50 text-gray-600 rounded-lg px-2.5 py-1.5">
+              <span style={{ fontWeight: 700 }}>{preview.registered}</span> cadastrados
+            </div>
+            <div className="bg-gray-50 text-gray-600 rounded-lg px-2.5 py-1.5">
+              <span style={{ fontWeight: 700 }}>{preview.guests}</span> visitantes
+            </div>
+          </div>
+          {preview.sample.length > 0 && (
+            <div className="border-t border-gray-100 pt-2 space-y-1">
+              <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>Exemplos</p>
+              {preview.sample.map(function (s, i) {
+                return (
+                  <p key={i} className="text-gray-600 truncate" style={{ fontSize: "0.74rem" }}>
+                    {(s.name || s.email || s.phone || "-") + (s.registered ? "" : " · visitante")}
+                    <span className="text-gray-400">{s.email && s.name ? " · " + s.email : ""}</span>
+                  </p>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminSegments() {
+  var [segments, setSegments] = useState<CustomerSegment[]>([]);
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [categories, setCategories] = useState<Array<{ slug: string; name: string; label: string }>>([]);
+  var [catalog, setCatalog] = useState<VehicleCatalog | null>(null);
+  var [editing, setEditing] = useState<{ id: string | null; name: string; description: string; definition: SegmentDefinition } | null>(null);
+  var [saving, setSaving] = useState(false);
+  var [busy, setBusy] = useState<string | null>(null);
+  var [preview, setPreview] = useState<SegmentPreview | null>(null);
+  var [previewLoading, setPreviewLoading] = useState(false);
+  var [previewError, setPreviewError] = useState<string | null>(null);
+  var previewSeq = useRef(0);
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.getCustomerSegments(token);
+      setSegments(result.segments || []);
+    } catch (err: any) {
+      console.error("[AdminSegments] Load error:", err);
+      setError(err.message || "Erro ao carregar segmentos.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(function () { load(); }, [load]);
+
+  useEffect(function () {
+    api.getCategoryTree().then(function (tree) {
+      setCategories(flattenCategories(Array.isArray(tree) ? tree : [], 0, []));
+    }).catch(function () { /* rule builder still works with slugs already saved */ });
+    api.getVehicleCatalog().then(setCatalog).catch(function () { /* idem */ });
+  }, []);
+
+  // Live preview, debounced while the rules are being edited
+  useEffect(function () {
+    if (!editing) return;
+    var seq = ++previewSeq.current;
+    setPreviewLoading(true);
+    var timer = setTimeout(async function () {
+      try {
+        var token = await getValidAdminToken();
+        if (!token) return;
+        var res = await api.previewCustomerSegment(token, editing!.definition);
+        if (seq !== previewSeq.current) return;
+        setPreview(res.preview);
+        setPreviewError(null);
+      } catch (err: any) {
+        if (seq !== previewSeq.current) return;
+        setPreviewError(err.message || "Erro ao calcular a prévia.");
+      } finally {
+        if (seq === previewSeq.current) setPreviewLoading(false);
+      }
+    }, 600);
+    return function () { clearTimeout(timer); };
+  }, [editing && editing.definition]);
+
+  var categoryName = useMemo(function () {
+    var bySlug: Record<string, string> = {};
+    categories.forEach(function (c) { bySlug[c.slug] = c.name; });
+    return function (slug: string) { return bySlug[slug] || slug || "?"; };
+  }, [categories]);
+
+  function startEdit(seg: CustomerSegment | null) {
+    setPreview(null);
+    setPreviewError(null);
+    setEditing(seg
+      ? { id: seg.id, name: seg.name, description: seg.description, definition: seg.definition }
+      : { id: null, name: "", description: "", definition: EMPTY_DEFINITION });
+  }
+
+  function setDefinition(definition: SegmentDefinition) {
+    setEditing(function (prev) { return prev ? { ...prev, definition: definition } : prev; });
+  }
+
+  function updateRule(index: number, rule: SegmentRule) {
+    if (!editing) return;
+    var rules = editing.definition.rules.slice();
+    rules[index] = rule;
+    setDefinition({ ...editing.definition, rules: rules });
+  }
+
+  var handleSave = async function () {
+    if (!editing) return;
+    if (!editing.name.trim()) { toast.error("Dê um nome ao segmento."); return; }
+    setSaving(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var data = { name: editing.name, description: editing.description, definition: editing.definition };
+      var res = editing.id ? await api.updateCustomerSegment(token, editing.id, data) : await api.createCustomerSegment(token, data);
+      toast.success("Segmento salvo · " + (res.segment.lastCount || 0) + " cliente(s)");
+      setEditing(null);
+      await load();
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao salvar segmento.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  var handleDelete = async function (seg: CustomerSegment) {
+    if (!confirm("Excluir o segmento \"" + seg.name + "\"?")) return;
+    setBusy(seg.id);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      await api.deleteCustomerSegment(token, seg.id);
+      toast.success("Segmento excluído");
+      await load();
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao excluir segmento.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <Users className="w-5 h-5 text-indigo-500" /> Segmentos de Clientes
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Grupos de clientes por comportamento (compras, carrinho, favoritos, veículo, tipo de cadastro). Use-os nas campanhas de email marketing e nos disparos de WhatsApp.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+            style={{ fontSize: "0.8rem", fontWeight: 500 }}
+          >
+            <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+            Atualizar
+          </button>
+          {!editing && (
+            <button
+              onClick={function () { startEdit(null); }}
+              className="flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-lg transition-colors"
+              style={{ fontSize: "0.8rem", fontWeight: 600 }}
+            >
+              <Plus className="w-4 h-4" />
+              Novo segmento
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {editing && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2 bg-white border border-gray-200 rounded-xl p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3" style={{ fontSize: "0.82rem" }}>
+              <label className="space-y-1">
+                <span className="text-gray-600" style={{ fontWeight: 600 }}>Nome</span>
+                <input
+                  type="text"
+                  value={editing.name}
+                  maxLength={120}
+                  onChange={function (e) { var v = e.target.value; setEditing(function (p) { return p ? { ...p, name: v } : p; }); }}
+                  placeholder="Ex.: Frotistas inativos"
+                  className={inputCls + " w-full"}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-600" style={{ fontWeight: 600 }}>Descrição</span>
+                <input
+                  type="text"
+                  value={editing.description}
+                  maxLength={500}
+                  onChange={function (e) { var v = e.target.value; setEditing(function (p) { return p ? { ...p, description: v } : p; }); }}
+                  placeholder="Opcional"
+                  className={inputCls + " w-full"}
+                />
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2 text-gray-600" style={{ fontSize: "0.82rem" }}>
+              <span>Incluir clientes que atendem a</span>
+              <select
+                value={editing.definition.match}
+                onChange={function (e) { setDefinition({ ...editing!.definition, match: e.target.value as "all" | "any" }); }}
+                className={inputCls}
+              >
+                <option value="all">todas as regras</option>
+                <option value="any">qualquer regra</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              {editing.definition.rules.map(function (rule, i) {
+                return (
+                  <RuleEditor
+                    key={i}
+                    rule={rule}
+                    categories={categories}
+                    catalog={catalog}
+                    onChange={function (r) { updateRule(i, r); }}
+                    onRemove={editing!.definition.rules.length > 1 ? function () {
+                      setDefinition({ ...editing!.definition, rules: editing!.definition.rules.filter(function (_r, j) { return j !== i; }) });
+                    } : null}
+                  />
+                );
+              })}
+              {editing.definition.rules.length < MAX_RULES && (
+                <button
+                  onClick={function () { setDefinition({ ...editing!.definition, rules: editing!.definition.rules.concat([RULE_DEFAULTS.bought_category]) }); }}
+                  className="flex items-center gap-1.5 text-red-600 hover:text-red-700"
+                  style={{ fontSize: "0.8rem", fontWeight: 600 }}
+                >
+                  <Plus className="w-4 h-4" /> Adicionar regra
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-end gap-2 pt-2 border-t border-gray-100">
+              <button
+                onClick={function () { setEditing(null); }}
+                className="px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+                style={{ fontSize: "0.8rem", fontWeight: 500 }}
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg disabled:opacity-50 transition-colors"
+                style={{ fontSize: "0.8rem", fontWeight: 600 }}
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Salvar segmento
+              </button>
+            </div>
+          </div>
+          <PreviewPanel preview={preview} loading={previewLoading} error={previewError} />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+        </div>
+      ) : segments.length === 0 ? (
+        !editing && (
+          <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+            Nenhum segmento criado.
+          </div>
+        )
+      ) : (
+        <div className="space-y-3">
+          {segments.map(function (seg) {
+            return (
+              <div key={seg.id} className="bg-white border border-gray-200 rounded-xl px-4 py-3 flex items-start gap-3 flex-wrap">
+                <div className="flex-1 min-w-[240px]">
+                  <p className="text-gray-800" style={{ fontSize: "0.88rem", fontWeight: 600 }}>{seg.name}</p>
+                  {seg.description && <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>{seg.description}</p>}
+                  <p className="text-gray-600 mt-1" style={{ fontSize: "0.76rem" }}>
+                    {seg.definition.rules.map(function (r) { return describeRule(r, categoryName, catalog); }).join(seg.definition.match === "any" ? " OU " : " E ")}
+                  </p>
+                </div>
+                <div className="text-right" style={{ fontSize: "0.75rem" }}>
+                  <p className="text-gray-800" style={{ fontWeight: 700 }}>{seg.lastCount !== null ? seg.lastCount.toLocaleString("pt-BR") + " cliente(s)" : "-"}</p>
+                  <p className="text-gray-400">{"contado em " + formatDate(seg.lastCountAt)}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={function () { startEdit(seg); }}
+                    className="p-1.5 rounded-md text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                    title="Editar"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={function () { handleDelete(seg); }}
+                    disabled={busy === seg.id}
+                    className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    title="Excluir"
+                  >
+                    {busy === seg.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { Save, Loader2, Check, Truck, Plus, Trash2, ChevronDown, ChevronRight, M
 import * as api from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
-import { AdminShippingTables } from "./AdminShippingTables";
+import { AdminShippingTables, PackingEditor } from "./AdminShippingTables";
 
 // Physical field names for highlighting in debug UI
 const SIGE_WEIGHT_FIELDS_UI = ["peso", "pesoliquido", "pesobruto", "pesoliq", "peso_liquido", "peso_bruto", "weight", "pesokg", "pesogr", "pesounitario"];
@@ -315,7 +315,7 @@ export function AdminShipping() {
   const [expandedSection, setExpandedSection] = useState<Record<string, string>>({});
   const [cepLooking, setCepLooking] = useState(false);
   const [addingType, setAddingType] = useState(false);
-  const [activeTab, setActiveTab] = useState<"general" | "manual" | "tables" | "api">("general");
+  const [activeTab, setActiveTab] = useState<"general" | "manual" | "tables" | "api" | "simulator">("general");
   const [showApiToken, setShowApiToken] = useState(false);
 
   // JSON Analyzer state
@@ -544,6 +544,7 @@ export function AdminShipping() {
           { id: "manual" as const, label: "Manual", icon: Truck },
           { id: "tables" as const, label: "Tabelas CSV", icon: FileSpreadsheet },
           { id: "api" as const, label: "API Externa", icon: Plug },
+          { id: "simulator" as const, label: "Simulador", icon: RotateCcw },
         ].map((tab) => (
           <button
             key={tab.id}
@@ -703,6 +704,9 @@ export function AdminShipping() {
           </div>
         </div>
       </div>
+
+      {/* Packing plan debug */}
+      <PackingSimulator />
         </>
       )}
 
@@ -864,6 +868,24 @@ export function AdminShipping() {
                     </div>
                   </div>
 
+                  {/* Packing */}
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Package className="w-4 h-4 text-gray-600" />
+                      <span className="text-gray-700" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+                        Peso Cubado e Volumes
+                      </span>
+                    </div>
+                    <p className="text-gray-500 mb-3" style={{ fontSize: "0.72rem" }}>
+                      Cobra pelo maior entre peso real e peso cubado (C x L x A / 1.000.000 x fator). Com limites, o carrinho é dividido em volumes e cada volume é cotado separadamente.
+                    </p>
+                    <PackingEditor
+                      cubicFactor={carrier.cubicFactor || 0}
+                      packageLimits={carrier.packageLimits || null}
+                      onChange={(cubicFactor, packageLimits) => updateCarrier(carrier.id, { cubicFactor, packageLimits })}
+                    />
+                  </div>
+
                   {/* Default rule */}
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <div className="flex items-center gap-2 mb-3">
@@ -1056,10 +1078,13 @@ export function AdminShipping() {
             3. O preço é: <code className="bg-amber-100 px-1 rounded">Preço Base + (Preço/kg x peso total) + (Preço/item extra x itens-1)</code>
           </li>
           <li>
-            4. Os <b>dias de manuseio</b> sao somados aos dias de entrega da regra.
+            4. Com <b>fator de cubagem</b>, o peso usado é o maior entre real e cubado; com <b>limites de volume</b>, a fórmula é aplicada a cada volume e os valores são somados. Itens que não cabem em nenhum volume escondem a transportadora.
+          </li>
+          <li>
+            5. Os <b>dias de manuseio</b> sao somados aos dias de entrega da regra.
           </li>
           <li>
-            5. Se o valor do pedido superar o limite de <b>frete gratis</b>, o frete sai gratuito.
+            6. Se o valor do pedido superar o limite de <b>frete gratis</b>, o frete sai gratuito.
           </li>
         </ul>
       </div>
@@ -1071,6 +1096,11 @@ export function AdminShipping() {
         <AdminShippingTables />
       )}
 
+      {/* ═══ SIMULATOR TAB ═══ */}
+      {activeTab === "simulator" && (
+        <ShippingSimulator draft={config} />
+      )}
+
       {/* ═══ API TAB ═══ */}
       {activeTab === "api" && (
         <>
@@ -2294,6 +2324,562 @@ export function AdminShipping() {
   );
 }
 
+// ─── Packing simulator (debug of _enrichment.packing) ───
+
+function PackingSimulator() {
+  const [cep, setCep] = useState("");
+  const [lines, setLines] = useState("");
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<api.ShippingCalcResponse | null>(null);
+  const [simError, setSimError] = useState("");
+
+  const run = async () => {
+    const items: Array<{ sku: string; quantity: number }> = [];
+    for (const raw of lines.split(/\n/)) {
+      const parts = raw.split(/[;:,\t]/).map((p) => p.trim());
+      if (!parts[0]) continue;
+      items.push({ sku: parts[0], quantity: Math.max(1, parseInt(parts[1]) || 1) });
+    }
+    const digits = cep.replace(/\D/g, "");
+    if (digits.length !== 8 || items.length === 0) {
+      setSimError("Informe um CEP com 8 digitos e ao menos um SKU.");
+      return;
+    }
+    setRunning(true);
+    setSimError("");
+    setResult(null);
+    try {
+      const res = await api.calculateShipping(digits, items, 0);
+      if (res.error) setSimError(res.error);
+      setResult(res);
+    } catch (err: any) {
+      setSimError(err.message || String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const plans = result?._enrichment?.packing || [];
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <h3 className="text-gray-700 mb-1 flex items-center gap-2" style={{ fontSize: "1rem", fontWeight: 600 }}>
+        <Package className="w-4 h-4 text-red-600" />
+        Simular Volumes (peso cubado)
+      </h3>
+      <p className="text-gray-400 mb-4" style={{ fontSize: "0.75rem" }}>
+        Calcula o frete com a configuracao salva e mostra como o carrinho foi dividido em volumes por transportadora/tabela.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+            CEP de destino
+          </label>
+          <input
+            type="text"
+            value={cep}
+            onChange={(e) => setCep(e.target.value)}
+            placeholder="00000-000"
+            className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 font-mono focus:outline-none focus:ring-2 focus:ring-red-200"
+            style={{ fontSize: "0.85rem" }}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+            Itens (um por linha: SKU;quantidade)
+          </label>
+          <textarea
+            value={lines}
+            onChange={(e) => setLines(e.target.value)}
+            rows={3}
+            placeholder={"103716-347;1\n88012-01;4"}
+            className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 font-mono focus:outline-none focus:ring-2 focus:ring-red-200"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end mt-3">
+        <button
+          onClick={run}
+          disabled={running}
+          className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors cursor-pointer"
+          style={{ fontSize: "0.82rem", fontWeight: 600 }}
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          Simular
+        </button>
+      </div>
+
+      {simError && (
+        <p className="mt-3 text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2" style={{ fontSize: "0.8rem" }}>{simError}</p>
+      )}
+
+      {result && !simError && plans.length === 0 && (
+        <p className="mt-3 text-gray-500" style={{ fontSize: "0.8rem" }}>
+          Nenhum plano de volumes retornado (modo API ou nenhuma transportadora/tabela ativa para o destino).
+        </p>
+      )}
+
+      {plans.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {plans.map((plan, pi) => {
+            const option = result?.options.find((o) => o.carrierId === plan.carrierId);
+            return (
+              <div key={pi} className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-gray-50 border-b border-gray-100" style={{ fontSize: "0.78rem" }}>
+                  <span className="text-gray-800" style={{ fontWeight: 600 }}>{plan.carrierName}</span>
+                  <span className="text-gray-400">{plan.source === "table" ? "tabela" : "manual"}</span>
+                  <span className="text-gray-500">&middot; fator {plan.cubicFactor || 0} kg/m³</span>
+                  <span className="text-gray-500">&middot; real {plan.totalWeight} kg / cobrado {plan.billedWeight} kg</span>
+                  {option && (
+                    <span className="ml-auto text-green-700" style={{ fontWeight: 600 }}>
+                      R$ {option.price.toFixed(2).replace(".", ",")}
+                    </span>
+                  )}
+                  {plan.oversize.length > 0 && (
+                    <span className="ml-auto text-red-600" style={{ fontWeight: 600 }}>
+                      Fora dos limites: {plan.oversize.join(", ")}
+                    </span>
+                  )}
+                  {plan.manualQuote && plan.oversize.length === 0 && (
+                    <span className="ml-auto text-amber-600" style={{ fontWeight: 600 }}>
+                      Volumes demais — cotar manualmente
+                    </span>
+                  )}
+                  {plan.unmatched && plan.oversize.length === 0 && (
+                    <span className="ml-auto text-amber-600" style={{ fontWeight: 600 }}>
+                      Sem faixa na tabela para algum volume
+                    </span>
+                  )}
+                </div>
+                <table className="w-full text-left" style={{ fontSize: "0.75rem" }}>
+                  <thead className="text-gray-400">
+                    <tr>
+                      <th className="px-4 py-1.5 font-medium">Volume</th>
+                      <th className="px-2 py-1.5 font-medium">Itens</th>
+                      <th className="px-2 py-1.5 font-medium">C x L x A (cm)</th>
+                      <th className="px-2 py-1.5 font-medium">Peso real</th>
+                      <th className="px-2 py-1.5 font-medium">Peso cubado</th>
+                      <th className="px-2 py-1.5 font-medium">Cobrado</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {plan.packages.map((box, bi) => (
+                      <tr key={bi} className={box.oversize ? "bg-red-50" : ""}>
+                        <td className="px-4 py-1.5 text-gray-600">#{bi + 1}</td>
+                        <td className="px-2 py-1.5 text-gray-700 font-mono">
+                          {box.items.map((it) => `${it.sku} x${it.quantity}`).join(", ")}
+                        </td>
+                        <td className="px-2 py-1.5 text-gray-600">{box.length} x {box.width} x {box.height}</td>
+                        <td className="px-2 py-1.5 text-gray-600">{box.weight} kg</td>
+                        <td className="px-2 py-1.5 text-gray-600">{box.cubicWeight} kg</td>
+                        <td className="px-2 py-1.5 text-gray-800" style={{ fontWeight: 600 }}>{box.billedWeight} kg</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Shipping simulator / quote replay ───
+
+const QUOTE_STATUS_LABELS: Record<api.ShippingQuoteStatus, string> = {
+  quoted: "Cotado",
+  free: "Grátis",
+  disabled: "Desativada",
+  oversize: "Fora dos limites",
+  manual_quote: "Cotar manualmente",
+  no_rule: "Sem regra p/ destino",
+  no_row: "Sem faixa na tabela",
+  api_error: "Erro na API",
+};
+
+const DIFF_STYLES: Record<api.ShippingQuoteDiffRow["change"], { label: string; cls: string }> = {
+  same: { label: "Igual", cls: "text-gray-400" },
+  price: { label: "Preço", cls: "text-amber-700 bg-amber-50" },
+  days: { label: "Prazo", cls: "text-blue-700 bg-blue-50" },
+  added: { label: "Nova", cls: "text-green-700 bg-green-50" },
+  removed: { label: "Some", cls: "text-red-700 bg-red-50" },
+  status: { label: "Motivo", cls: "text-gray-600 bg-gray-50" },
+};
+
+const RULE_LEVEL_LABELS = { state: "estado", region: "região", default: "padrão" };
+
+function formatMoney(v: number | null | undefined): string {
+  return v === null || v === undefined ? "—" : "R$ " + v.toFixed(2).replace(".", ",");
+}
+
+function QuoteSideCell({ side }: { side: api.ShippingQuoteDiffRow["before"] }) {
+  if (!side) return <span className="text-gray-300">—</span>;
+  if (side.status !== "quoted" && side.status !== "free") {
+    return <span className="text-gray-400">{QUOTE_STATUS_LABELS[side.status] || side.status}</span>;
+  }
+  return (
+    <span className="text-gray-800">
+      {side.status === "free" ? "Grátis" : formatMoney(side.price)}
+      {side.deliveryDays ? <span className="text-gray-400"> · {side.deliveryDays}d</span> : null}
+    </span>
+  );
+}
+
+function BreakdownDetail({ title, line }: { title: string; line: api.ShippingQuoteBreakdown | undefined }) {
+  return (
+    <div className="flex-1 min-w-[220px] bg-white border border-gray-200 rounded-lg p-3 space-y-1" style={{ fontSize: "0.72rem" }}>
+      <p className="text-gray-500" style={{ fontWeight: 600 }}>{title}</p>
+      {!line ? (
+        <p className="text-gray-400">Transportadora ausente nesta configuração.</p>
+      ) : (
+        <>
+          <p className="text-gray-600">Situação: <b>{QUOTE_STATUS_LABELS[line.status] || line.status}</b>{line.freeReason ? ` — ${line.freeReason}` : ""}</p>
+          {line.rule && (
+            <p className="text-gray-600">
+              Regra por {RULE_LEVEL_LABELS[line.rule.level]}{line.rule.key ? ` (${line.rule.key})` : ""}: base {formatMoney(line.rule.basePrice)} + {formatMoney(line.rule.pricePerKg)}/kg + {formatMoney(line.rule.pricePerItem)}/item extra, {line.rule.deliveryDays}d
+            </p>
+          )}
+          {line.tableVersion && (
+            <p className="text-gray-600">Tabela na versão {line.tableVersion.version} (vigente na data da cotação)</p>
+          )}
+          {line.rows && line.rows.map((r, i) => (
+            <p key={i} className="text-gray-600">
+              Volume {i + 1} ({r.billedWeight} kg):{" "}
+              {r.row
+                ? `CEP ${r.row.cepInicio}–${r.row.cepFim}, ${r.row.pesoMin}–${r.row.pesoMax} kg → ${formatMoney(r.row.valor)}, ${r.row.prazo}d`
+                : <span className="text-red-600">nenhuma faixa</span>}
+            </p>
+          ))}
+          {line.plan && (
+            <p className="text-gray-500">
+              {line.plan.packages.length} volume(s) · real {line.plan.totalWeight} kg · cobrado {line.plan.billedWeight} kg
+              {line.plan.cubicFactor ? ` · fator ${line.plan.cubicFactor} kg/m³` : ""}
+              {line.plan.oversize.length > 0 ? ` · fora dos limites: ${line.plan.oversize.join(", ")}` : ""}
+              {line.plan.manualQuote ? " · volumes demais, cotar manualmente" : ""}
+            </p>
+          )}
+          {line.api && (
+            line.api.error
+              ? <p className="text-red-600">API: {line.api.error}</p>
+              : <pre className="bg-gray-50 rounded p-2 overflow-x-auto text-gray-600" style={{ fontSize: "0.68rem" }}>{JSON.stringify(line.api.options, null, 2)}</pre>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ShippingSimulator({ draft }: { draft: api.ShippingConfig }) {
+  const [mode, setMode] = useState<"replay" | "whatif">("replay");
+  const [quoteId, setQuoteId] = useState("");
+  const [cep, setCep] = useState("");
+  const [lines, setLines] = useState("");
+  const [totalValue, setTotalValue] = useState("");
+  const [at, setAt] = useState("");
+  const [useDraft, setUseDraft] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<api.ShippingSimulationResult | null>(null);
+  const [simError, setSimError] = useState("");
+  const [openRow, setOpenRow] = useState<string | null>(null);
+
+  const run = async () => {
+    setSimError("");
+    setResult(null);
+    setOpenRow(null);
+    const payload: Parameters<typeof api.adminSimulateShipping>[1] = { draftConfig: useDraft ? draft : null };
+    if (mode === "replay") {
+      if (!quoteId.trim()) {
+        setSimError("Informe o ID da cotação (sq_...).");
+        return;
+      }
+      payload.quoteId = quoteId.trim();
+    } else {
+      const items: Array<{ sku: string; quantity: number }> = [];
+      for (const raw of lines.split(/\n/)) {
+        const parts = raw.split(/[;:,\t]/).map((p) => p.trim());
+        if (!parts[0]) continue;
+        items.push({ sku: parts[0], quantity: Math.max(1, parseInt(parts[1]) || 1) });
+      }
+      payload.cep = cep.replace(/\D/g, "");
+      payload.items = items;
+      payload.totalValue = parseFloat(totalValue.replace(",", ".")) || 0;
+      if (at) payload.at = new Date(at).toISOString();
+    }
+    setRunning(true);
+    try {
+      const token = await getToken();
+      setResult(await api.adminSimulateShipping(token, payload));
+    } catch (err: any) {
+      setSimError(err.message || String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Without a draft (what-if on the saved config) there is nothing to diff: list the saved result
+  const rows: api.ShippingQuoteDiffRow[] = result
+    ? result.diff || result.before.breakdown.map((b) => ({
+        carrierId: b.carrierId,
+        carrierName: b.carrierName,
+        source: b.source,
+        change: "same" as const,
+        before: { status: b.status, price: b.price ?? null, deliveryDays: b.deliveryDays ?? null },
+        after: null,
+        delta: null,
+      }))
+    : [];
+  const changed = rows.filter((r) => r.change !== "same").length;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl border border-gray-200 p-5">
+        <h3 className="text-gray-700 mb-1 flex items-center gap-2" style={{ fontSize: "1rem", fontWeight: 600 }}>
+          <RotateCcw className="w-4 h-4 text-red-600" />
+          Simulador de Frete
+        </h3>
+        <p className="text-gray-400 mb-4" style={{ fontSize: "0.75rem" }}>
+          Reproduza uma cotação gravada (ID sq_... do pedido) ou simule um carrinho e compare com as alterações ainda não salvas nesta tela antes de publicá-las.
+        </p>
+
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1 mb-4 w-fit">
+          {([
+            { id: "replay" as const, label: "Reproduzir cotação" },
+            { id: "whatif" as const, label: "Carrinho hipotético" },
+          ]).map((m) => (
+            <button
+              key={m.id}
+              onClick={() => { setMode(m.id); setResult(null); setSimError(""); }}
+              className={`px-3 py-1.5 rounded-md transition-colors cursor-pointer ${mode === m.id ? "bg-white text-red-600 shadow-sm" : "text-gray-500 hover:text-gray-700"}`}
+              style={{ fontSize: "0.8rem", fontWeight: mode === m.id ? 600 : 400 }}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === "replay" ? (
+          <div>
+            <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+              ID da cotação
+            </label>
+            <input
+              type="text"
+              value={quoteId}
+              onChange={(e) => setQuoteId(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && !running && run()}
+              placeholder="sq_1712345678901_ab12cd34"
+              className="w-full md:w-96 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 font-mono focus:outline-none focus:ring-2 focus:ring-red-200"
+              style={{ fontSize: "0.85rem" }}
+            />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div>
+              <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+                CEP de destino
+              </label>
+              <input
+                type="text"
+                value={cep}
+                onChange={(e) => setCep(e.target.value)}
+                placeholder="00000-000"
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 font-mono focus:outline-none focus:ring-2 focus:ring-red-200"
+                style={{ fontSize: "0.85rem" }}
+              />
+            </div>
+            <div>
+              <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+                Valor do pedido (R$)
+              </label>
+              <input
+                type="text"
+                value={totalValue}
+                onChange={(e) => setTotalValue(e.target.value)}
+                placeholder="0,00"
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-200"
+                style={{ fontSize: "0.85rem" }}
+              />
+            </div>
+            <div>
+              <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+                Data da cotação
+              </label>
+              <input
+                type="datetime-local"
+                value={at}
+                onChange={(e) => setAt(e.target.value)}
+                title="Vazio = agora. Use uma data futura para testar versões agendadas das tabelas de frete."
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-200"
+                style={{ fontSize: "0.85rem" }}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
+                Itens (um por linha: SKU;quantidade)
+              </label>
+              <textarea
+                value={lines}
+                onChange={(e) => setLines(e.target.value)}
+                rows={3}
+                placeholder={"103716-347;1\n88012-01;4"}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 font-mono focus:outline-none focus:ring-2 focus:ring-red-200"
+                style={{ fontSize: "0.82rem" }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+          <label className="flex items-center gap-2 text-gray-600 cursor-pointer" style={{ fontSize: "0.8rem" }}>
+            <input type="checkbox" checked={useDraft} onChange={(e) => setUseDraft(e.target.checked)} className="accent-red-600" />
+            Comparar com o rascunho (alterações não salvas desta tela)
+          </label>
+          <button
+            onClick={run}
+            disabled={running}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors cursor-pointer"
+            style={{ fontSize: "0.82rem", fontWeight: 600 }}
+          >
+            {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Simular
+          </button>
+        </div>
+
+        {simError && (
+          <p className="mt-3 text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2" style={{ fontSize: "0.8rem" }}>{simError}</p>
+        )}
+      </div>
+
+      {result && (
+        <>
+          {/* Input */}
+          <div className="bg-white rounded-xl border border-gray-200 p-5">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-600 mb-3" style={{ fontSize: "0.8rem" }}>
+              <span className="font-mono">CEP {result.input.cep}</span>
+              <span>{result.input.localidade ? `${result.input.localidade} / ` : ""}{result.input.uf} · {result.input.region}</span>
+              {result.input.cepFallback && (
+                <span className="text-amber-600">UF deduzida pela faixa de CEP (ViaCEP falhou)</span>
+              )}
+              <span>{result.input.totalItems} item(ns) · {result.input.totalWeight} kg</span>
+              <span>Pedido {formatMoney(result.input.orderValue)}</span>
+            </div>
+            {result.quote && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-500 mb-3" style={{ fontSize: "0.75rem" }}>
+                <span>Cotada em {new Date(result.quote.createdAt).toLocaleString("pt-BR")}</span>
+                <span>Modo: {result.quote.calcMode || "—"}</span>
+                {result.quote.configChangedSince && (
+                  <span className="flex items-center gap-1 text-amber-600">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    A configuração foi salva depois desta cotação
+                  </span>
+                )}
+              </div>
+            )}
+            <table className="w-full text-left" style={{ fontSize: "0.75rem" }}>
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="py-1 font-medium">SKU</th>
+                  <th className="py-1 font-medium">Qtd</th>
+                  <th className="py-1 font-medium">Peso (kg)</th>
+                  <th className="py-1 font-medium">C x L x A (cm)</th>
+                  <th className="py-1 font-medium">Origem dos dados</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.input.items.map((it, i) => (
+                  <tr key={i}>
+                    <td className="py-1 font-mono text-gray-700">{it.sku}</td>
+                    <td className="py-1 text-gray-600">{it.quantity}</td>
+                    <td className="py-1 text-gray-600">{it.weight}</td>
+                    <td className="py-1 text-gray-600">{it.length} x {it.width} x {it.height}</td>
+                    <td className="py-1 text-gray-400">{it.source || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Per-carrier diff */}
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <div className="px-5 py-3 border-b border-gray-100 bg-gray-50 flex items-center gap-2" style={{ fontSize: "0.82rem" }}>
+              <span className="text-gray-700" style={{ fontWeight: 600 }}>
+                {result.after ? `${result.before.label} → ${result.after.label}` : result.before.label}
+              </span>
+              {result.diff && (
+                <span className={changed > 0 ? "text-amber-600" : "text-green-600"}>
+                  {changed > 0 ? `${changed} transportadora(s) mudam` : "Nenhuma diferença"}
+                </span>
+              )}
+            </div>
+            <table className="w-full text-left" style={{ fontSize: "0.78rem" }}>
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="p-0 font-medium">
+                    <div className="flex items-center gap-2 px-5 py-2">
+                      <div className="flex-1">Transportadora</div>
+                      <div className="w-36">{result.before.label}</div>
+                      {result.after && <div className="w-36">{result.after.label}</div>}
+                      {result.after && <div className="w-28">Variação</div>}
+                      <div className="w-4" />
+                    </div>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map((row) => {
+                  const style = DIFF_STYLES[row.change];
+                  const isOpen = openRow === row.carrierId;
+                  return (
+                    <tr key={row.carrierId} className="align-top">
+                      <td className="p-0">
+                        <div
+                          className="flex items-center gap-2 px-5 py-2 hover:bg-gray-50 cursor-pointer"
+                          onClick={() => setOpenRow(isOpen ? null : row.carrierId)}
+                        >
+                          <div className="flex-1 min-w-0">
+                            <span className="text-gray-800" style={{ fontWeight: 500 }}>{row.carrierName}</span>
+                            <span className="text-gray-400 ml-2" style={{ fontSize: "0.7rem" }}>{row.source}</span>
+                          </div>
+                          <div className="w-36"><QuoteSideCell side={row.before} /></div>
+                          {result.after && <div className="w-36"><QuoteSideCell side={row.after} /></div>}
+                          {result.after && (
+                            <div className="w-28">
+                              <span className={`px-1.5 py-0.5 rounded ${style.cls}`} style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+                                {row.change === "price" && row.delta !== null ? `${row.delta > 0 ? "+" : ""}${formatMoney(row.delta)}` : style.label}
+                              </span>
+                            </div>
+                          )}
+                          {isOpen ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                        </div>
+                        {isOpen && (
+                          <div className="flex flex-wrap gap-3 px-5 pb-3">
+                            <BreakdownDetail title={result.before.label} line={result.before.breakdown.find((b) => b.carrierId === row.carrierId)} />
+                            {result.after && (
+                              <BreakdownDetail title={result.after.label} line={result.after.breakdown.find((b) => b.carrierId === row.carrierId)} />
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <tr>
+                    <td className="px-5 py-4 text-center text-gray-400">Nenhuma transportadora avaliada.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // ─── Rule Editor subcomponent ───
 
 function RuleEditor({
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { Upload, Loader2, Trash2, FileSpreadsheet, Check, AlertTriangle, Eye, X, Table2, Info, ChevronUp } from "lucide-react";
+import { Upload, Loader2, Trash2, FileSpreadsheet, Check, AlertTriangle, Eye, X, Table2, Info, ChevronUp, Package, Save, History, RotateCcw, CalendarClock, GitCompare } from "lucide-react";
 import * as api from "../../services/api";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
@@ -128,6 +128,48 @@ function formatCep(cep: string): string {
   return `${d.slice(0, 5)}-${d.slice(5)}`;
 }
 
+function mapRows(rows: string[][], columnMap: Record<string, number>, decimalSep: string): api.ShippingTableRow[] {
+  const out: api.ShippingTableRow[] = [];
+  for (const row of rows) {
+    const cepInicio = row[columnMap.cepInicio]?.replace(/\D/g, "") || "";
+    const cepFim = row[columnMap.cepFim]?.replace(/\D/g, "") || "";
+    if (!cepInicio || !cepFim) continue;
+
+    out.push({
+      cepInicio,
+      cepFim,
+      pesoMin: columnMap.pesoMin !== undefined ? parseNumber(row[columnMap.pesoMin], decimalSep) : 0,
+      pesoMax: columnMap.pesoMax !== undefined ? parseNumber(row[columnMap.pesoMax], decimalSep) : 9999,
+      valor: columnMap.valor !== undefined ? parseNumber(row[columnMap.valor], decimalSep) : 0,
+      prazo: columnMap.prazo !== undefined ? parseInt(row[columnMap.prazo]) || 0 : 0,
+    });
+  }
+  return out;
+}
+
+function formatMoney(v: number): string {
+  return `R$ ${(v || 0).toFixed(2).replace(".", ",")}`;
+}
+
+function formatDateTime(ms: number): string {
+  return new Date(ms).toLocaleString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+/** datetime-local value (browser time zone) → ISO for the server; "" = not set */
+function localInputToIso(value: string): string | undefined {
+  if (!value) return undefined;
+  const ms = new Date(value).getTime();
+  return isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+function versionStatus(table: api.ShippingTableMeta, v: api.ShippingTableVersion, now: number): { label: string; className: string } {
+  if (v.disabled) return { label: "Desativada", className: "bg-gray-100 text-gray-500" };
+  if (v.id === table.activeVersionId) return { label: "Vigente", className: "bg-green-100 text-green-700" };
+  if (v.validFrom > now) return { label: "Agendada", className: "bg-blue-100 text-blue-700" };
+  if (v.validTo !== null && v.validTo <= now) return { label: "Expirada", className: "bg-gray-100 text-gray-500" };
+  return { label: "Substituida", className: "bg-amber-50 text-amber-700" };
+}
+
 // ── Component ──
 
 export function AdminShippingTables() {
@@ -147,16 +189,36 @@ export function AdminShippingTables() {
   const [uploading, setUploading] = useState(false);
   const [previewRows, setPreviewRows] = useState<api.ShippingTableRow[]>([]);
   const [dragOver, setDragOver] = useState(false);
+  const [uploadCubicFactor, setUploadCubicFactor] = useState(0);
+  const [uploadLimits, setUploadLimits] = useState<api.ShippingPackageLimits | null>(null);
+  const [uploadValidFrom, setUploadValidFrom] = useState("");
+  const [uploadValidTo, setUploadValidTo] = useState("");
+  const [uploadNote, setUploadNote] = useState("");
   const fileRef = useRef<HTMLInputElement>(null);
 
+  // New version of an existing table (null = the CSV creates a new table)
+  const [versionTarget, setVersionTarget] = useState<api.ShippingTableMeta | null>(null);
+  const [diffPreview, setDiffPreview] = useState<{ against: { id: string; version: number } | null; validRows: number; diff: api.ShippingTableDiff } | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+
+  // Version history
+  const [versionsTableId, setVersionsTableId] = useState<string | null>(null);
+  const [versionBusy, setVersionBusy] = useState<string | null>(null);
+
   // Preview existing table
   const [previewTableId, setPreviewTableId] = useState<string | null>(null);
   const [previewTable, setPreviewTable] = useState<api.ShippingTableFull | null>(null);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
   const [loadingPreview, setLoadingPreview] = useState(false);
 
   // Deleting
   const [deleting, setDeleting] = useState<string | null>(null);
 
+  // Packing (peso cubado) of an existing table
+  const [packingTableId, setPackingTableId] = useState<string | null>(null);
+  const [packingDraft, setPackingDraft] = useState<{ cubicFactor: number; packageLimits: api.ShippingPackageLimits | null }>({ cubicFactor: 0, packageLimits: null });
+  const [savingPacking, setSavingPacking] = useState(false);
+
   // Load tables
   const loadTables = useCallback(async () => {
     try {
@@ -214,14 +276,14 @@ export function AdminShippingTables() {
       }
 
       // Auto-fill name from filename
-      if (!uploadName) {
+      if (!uploadName && !versionTarget) {
         setUploadName(file.name.replace(/\.(csv|txt|xlsx?)$/i, ""));
       }
 
       setShowUpload(true);
     };
     reader.readAsText(file, "UTF-8");
-  }, [uploadName]);
+  }, [uploadName, versionTarget]);
 
   // Build preview from mapping
   useEffect(() => {
@@ -230,28 +292,60 @@ export function AdminShippingTables() {
       return;
     }
 
-    const rows: api.ShippingTableRow[] = [];
-    for (const row of parsed.rows.slice(0, 500)) {
-      const cepInicio = row[columnMap.cepInicio]?.replace(/\D/g, "") || "";
-      const cepFim = row[columnMap.cepFim]?.replace(/\D/g, "") || "";
-      if (!cepInicio || !cepFim) continue;
-
-      rows.push({
-        cepInicio,
-        cepFim,
-        pesoMin: columnMap.pesoMin !== undefined ? parseNumber(row[columnMap.pesoMin], decimalSep) : 0,
-        pesoMax: columnMap.pesoMax !== undefined ? parseNumber(row[columnMap.pesoMax], decimalSep) : 9999,
-        valor: columnMap.valor !== undefined ? parseNumber(row[columnMap.valor], decimalSep) : 0,
-        prazo: columnMap.prazo !== undefined ? parseInt(row[columnMap.prazo]) || 0 : 0,
-      });
-    }
-    setPreviewRows(rows);
+    setPreviewRows(mapRows(parsed.rows.slice(0, 500), columnMap, decimalSep));
   }, [parsed, columnMap, decimalSep]);
 
+  // Diff of the whole file against the version in effect (debounced while mapping)
+  useEffect(() => {
+    if (!parsed || columnMap.cepInicio === undefined || columnMap.cepFim === undefined) {
+      setDiffPreview(null);
+      return;
+    }
+    const allRows = mapRows(parsed.rows, columnMap, decimalSep);
+    if (allRows.length === 0) {
+      setDiffPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoadingDiff(true);
+      try {
+        const token = await getToken();
+        const res = await api.previewShippingTableDiff(token, { tableId: versionTarget?.id, rows: allRows });
+        if (!cancelled) setDiffPreview(res);
+      } catch (e: any) {
+        console.error("Diff preview error:", e);
+        if (!cancelled) setDiffPreview(null);
+      } finally {
+        if (!cancelled) setLoadingDiff(false);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parsed, columnMap, decimalSep, versionTarget]);
+
+  const resetUpload = () => {
+    setShowUpload(false);
+    setParsed(null);
+    setColumnMap({});
+    setUploadName("");
+    setUploadCarrier("");
+    setUploadCubicFactor(0);
+    setUploadLimits(null);
+    setUploadValidFrom("");
+    setUploadValidTo("");
+    setUploadNote("");
+    setVersionTarget(null);
+    setDiffPreview(null);
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
   // Upload table
   const handleUpload = useCallback(async () => {
     if (!parsed) return;
-    if (!uploadName.trim()) {
+    if (!versionTarget && !uploadName.trim()) {
       setError("Informe um nome para a tabela.");
       return;
     }
@@ -260,21 +354,7 @@ export function AdminShippingTables() {
     setError("");
     try {
       // Build all rows (not just preview)
-      const allRows: api.ShippingTableRow[] = [];
-      for (const row of parsed.rows) {
-        const cepInicio = row[columnMap.cepInicio]?.replace(/\D/g, "") || "";
-        const cepFim = row[columnMap.cepFim]?.replace(/\D/g, "") || "";
-        if (!cepInicio || !cepFim) continue;
-
-        allRows.push({
-          cepInicio,
-          cepFim,
-          pesoMin: columnMap.pesoMin !== undefined ? parseNumber(row[columnMap.pesoMin], decimalSep) : 0,
-          pesoMax: columnMap.pesoMax !== undefined ? parseNumber(row[columnMap.pesoMax], decimalSep) : 9999,
-          valor: columnMap.valor !== undefined ? parseNumber(row[columnMap.valor], decimalSep) : 0,
-          prazo: columnMap.prazo !== undefined ? parseInt(row[columnMap.prazo]) || 0 : 0,
-        });
-      }
+      const allRows = mapRows(parsed.rows, columnMap, decimalSep);
 
       if (allRows.length === 0) {
         setError("Nenhuma linha valida para importar. Verifique o mapeamento de colunas.");
@@ -282,20 +362,34 @@ export function AdminShippingTables() {
       }
 
       const token = await getToken();
-      await api.uploadShippingTable(token, {
-        name: uploadName.trim(),
-        carrierName: uploadCarrier.trim() || uploadName.trim(),
-        carrierType: uploadCarrierType,
-        rows: allRows,
-      });
-
-      setSuccess(`Tabela "${uploadName}" importada com ${allRows.length} linhas!`);
-      setShowUpload(false);
-      setParsed(null);
-      setColumnMap({});
-      setUploadName("");
-      setUploadCarrier("");
-      if (fileRef.current) fileRef.current.value = "";
+      const validFrom = localInputToIso(uploadValidFrom);
+      const validTo = localInputToIso(uploadValidTo);
+      if (versionTarget) {
+        const res = await api.uploadShippingTableVersion(token, versionTarget.id, {
+          rows: allRows,
+          validFrom,
+          validTo,
+          note: uploadNote.trim() || undefined,
+        });
+        setSuccess(
+          `Versao ${res.version.version} de "${versionTarget.name}" salva com ${res.version.rowCount} linhas` +
+            (res.version.validFrom > Date.now() ? ` — vigente a partir de ${formatDateTime(res.version.validFrom)}.` : " e ja vigente.")
+        );
+      } else {
+        await api.uploadShippingTable(token, {
+          name: uploadName.trim(),
+          carrierName: uploadCarrier.trim() || uploadName.trim(),
+          carrierType: uploadCarrierType,
+          rows: allRows,
+          cubicFactor: uploadCubicFactor,
+          packageLimits: uploadLimits,
+          validFrom,
+          validTo,
+          note: uploadNote.trim() || undefined,
+        });
+        setSuccess(`Tabela "${uploadName}" importada com ${allRows.length} linhas!`);
+      }
+      resetUpload();
 
       await loadTables();
       setTimeout(() => setSuccess(""), 4000);
@@ -305,7 +399,50 @@ export function AdminShippingTables() {
     } finally {
       setUploading(false);
     }
-  }, [parsed, columnMap, decimalSep, uploadName, uploadCarrier, uploadCarrierType, loadTables]);
+  }, [parsed, columnMap, decimalSep, uploadName, uploadCarrier, uploadCarrierType, uploadCubicFactor, uploadLimits, uploadValidFrom, uploadValidTo, uploadNote, versionTarget, loadTables]);
+
+  // New version: same CSV flow, rows go to the chosen table
+  const startNewVersion = (table: api.ShippingTableMeta) => {
+    resetUpload();
+    setVersionTarget(table);
+    fileRef.current?.click();
+  };
+
+  const replaceTable = (meta: api.ShippingTableMeta) => {
+    setTables((prev) => prev.map((t) => (t.id === meta.id ? meta : t)));
+  };
+
+  // One-click rollback: the version in effect is disabled, the previous one is back
+  const handleRollback = useCallback(async (table: api.ShippingTableMeta) => {
+    if (!confirm(`Reverter "${table.name}"? A versao ${table.activeVersion} sera desativada e a anterior volta a valer.`)) return;
+    setVersionBusy(table.id);
+    setError("");
+    try {
+      const token = await getToken();
+      const res = await api.rollbackShippingTable(token, table.id);
+      replaceTable(res.table);
+      setSuccess(`"${table.name}" revertida: versao ${res.restored.version} vigente (versao ${res.disabled.version} desativada).`);
+      setTimeout(() => setSuccess(""), 5000);
+    } catch (e: any) {
+      setError(e.message || "Erro ao reverter tabela.");
+    } finally {
+      setVersionBusy(null);
+    }
+  }, []);
+
+  const handleToggleVersion = useCallback(async (table: api.ShippingTableMeta, v: api.ShippingTableVersion) => {
+    setVersionBusy(table.id + ":" + v.id);
+    setError("");
+    try {
+      const token = await getToken();
+      const res = await api.setShippingTableVersionDisabled(token, table.id, v.id, !v.disabled);
+      replaceTable(res.table);
+    } catch (e: any) {
+      setError(e.message || "Erro ao atualizar versao.");
+    } finally {
+      setVersionBusy(null);
+    }
+  }, []);
 
   // Delete table
   const handleDelete = useCallback(async (tableId: string) => {
@@ -324,18 +461,47 @@ export function AdminShippingTables() {
     }
   }, []);
 
-  // Preview existing table
-  const handlePreview = useCallback(async (tableId: string) => {
-    if (previewTableId === tableId) {
+  // Packing settings of an existing table
+  const openPacking = (table: api.ShippingTableMeta) => {
+    if (packingTableId === table.id) {
+      setPackingTableId(null);
+      return;
+    }
+    setPackingTableId(table.id);
+    setPackingDraft({ cubicFactor: table.cubicFactor || 0, packageLimits: table.packageLimits || null });
+  };
+
+  const handleSavePacking = useCallback(async () => {
+    if (!packingTableId) return;
+    setSavingPacking(true);
+    try {
+      const token = await getToken();
+      const meta = await api.saveShippingTablePacking(token, packingTableId, packingDraft);
+      replaceTable(meta);
+      setPackingTableId(null);
+      setSuccess("Cubagem da tabela salva.");
+      setTimeout(() => setSuccess(""), 3000);
+    } catch (e: any) {
+      setError(e.message || "Erro ao salvar cubagem.");
+    } finally {
+      setSavingPacking(false);
+    }
+  }, [packingTableId, packingDraft]);
+
+  // Preview existing table (rows of the version in effect, or of versionId)
+  const handlePreview = useCallback(async (tableId: string, versionId?: string) => {
+    if (previewTableId === tableId && (versionId || null) === previewVersionId) {
       setPreviewTableId(null);
       setPreviewTable(null);
+      setPreviewVersionId(null);
       return;
     }
     setPreviewTableId(tableId);
+    setPreviewVersionId(versionId || null);
     setLoadingPreview(true);
     try {
       const token = await getToken();
-      const table = await api.getShippingTable(token, tableId);
+      const table = await api.getShippingTable(token, tableId, versionId);
       setPreviewTable(table);
     } catch (e: any) {
       console.error("Preview error:", e);
@@ -344,7 +510,7 @@ export function AdminShippingTables() {
     } finally {
       setLoadingPreview(false);
     }
-  }, [previewTableId]);
+  }, [previewTableId, previewVersionId]);
 
   // Drag & drop handlers
   const onDragOver = (e: React.DragEvent) => {
@@ -356,7 +522,10 @@ export function AdminShippingTables() {
     e.preventDefault();
     setDragOver(false);
     const file = e.dataTransfer.files?.[0];
-    if (file) handleFile(file);
+    if (file) {
+      setVersionTarget(null);
+      handleFile(file);
+    }
   };
 
   const fieldOptions = [
@@ -405,13 +574,17 @@ export function AdminShippingTables() {
             ? "border-red-400 bg-red-50"
             : "border-gray-300 bg-gray-50 hover:border-red-300 hover:bg-red-50/30"
         }`}
-        onClick={() => fileRef.current?.click()}
+        onClick={() => {
+          setVersionTarget(null);
+          fileRef.current?.click();
+        }}
       >
         <input
           ref={fileRef}
           type="file"
           accept=".csv,.txt"
           className="hidden"
+          onClick={(e) => e.stopPropagation()}
           onChange={(e) => {
             const file = e.target.files?.[0];
             if (file) handleFile(file);
@@ -433,14 +606,14 @@ export function AdminShippingTables() {
             <div className="flex items-center gap-2">
               <FileSpreadsheet className="w-4 h-4 text-red-600" />
               <span className="text-gray-700" style={{ fontSize: "0.9rem", fontWeight: 600 }}>
-                Configurar Importacao
+                {versionTarget ? `Nova versao de "${versionTarget.name}"` : "Configurar Importacao"}
               </span>
               <span className="text-gray-400" style={{ fontSize: "0.72rem" }}>
                 ({parsed.rows.length} linhas, {parsed.headers.length} colunas, separador: {parsed.delimiter === "\t" ? "TAB" : `"${parsed.delimiter}"`})
               </span>
             </div>
             <button
-              onClick={() => { setShowUpload(false); setParsed(null); }}
+              onClick={resetUpload}
               className="text-gray-400 hover:text-gray-600 cursor-pointer"
             >
               <X className="w-5 h-5" />
@@ -450,7 +623,7 @@ export function AdminShippingTables() {
           <div className="p-5 space-y-4">
             {/* Name & Carrier */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              <div>
+              {!versionTarget && <div>
                 <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
                   Nome da Tabela *
                 </label>
@@ -462,8 +635,8 @@ export function AdminShippingTables() {
                   className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-200"
                   style={{ fontSize: "0.85rem" }}
                 />
-              </div>
-              <div>
+              </div>}
+              {!versionTarget && <div>
                 <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
                   Transportadora
                 </label>
@@ -475,7 +648,7 @@ export function AdminShippingTables() {
                   className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-200"
                   style={{ fontSize: "0.85rem" }}
                 />
-              </div>
+              </div>}
               <div>
                 <label className="block text-gray-500 mb-1" style={{ fontSize: "0.75rem", fontWeight: 500 }}>
                   Separador Decimal
@@ -492,6 +665,71 @@ export function AdminShippingTables() {
               </div>
             </div>
 
+            {/* Validity */}
+            <div>
+              <h4 className="text-gray-600 mb-2 flex items-center gap-2" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+                <CalendarClock className="w-4 h-4" />
+                Vigencia
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-gray-400 mb-0.5" style={{ fontSize: "0.68rem", fontWeight: 500 }}>
+                    Valida a partir de
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={uploadValidFrom}
+                    onChange={(e) => setUploadValidFrom(e.target.value)}
+                    className="w-full bg-white border border-gray-200 rounded px-2 py-1.5 text-gray-800 focus:outline-none focus:ring-1 focus:ring-red-200"
+                    style={{ fontSize: "0.82rem" }}
+                  />
+                  <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.68rem" }}>Vazio = imediatamente</p>
+                </div>
+                <div>
+                  <label className="block text-gray-400 mb-0.5" style={{ fontSize: "0.68rem", fontWeight: 500 }}>
+                    Valida ate
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={uploadValidTo}
+                    onChange={(e) => setUploadValidTo(e.target.value)}
+                    className="w-full bg-white border border-gray-200 rounded px-2 py-1.5 text-gray-800 focus:outline-none focus:ring-1 focus:ring-red-200"
+                    style={{ fontSize: "0.82rem" }}
+                  />
+                  <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.68rem" }}>Vazio = sem data de fim</p>
+                </div>
+                <div>
+                  <label className="block text-gray-400 mb-0.5" style={{ fontSize: "0.68rem", fontWeight: 500 }}>
+                    Observacao
+                  </label>
+                  <input
+                    type="text"
+                    value={uploadNote}
+                    onChange={(e) => setUploadNote(e.target.value)}
+                    maxLength={300}
+                    placeholder="Ex: reajuste 2025"
+                    className="w-full bg-white border border-gray-200 rounded px-2 py-1.5 text-gray-800 focus:outline-none focus:ring-1 focus:ring-red-200"
+                    style={{ fontSize: "0.82rem" }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Packing (per table — new versions keep the table settings) */}
+            {!versionTarget && (
+              <div>
+                <h4 className="text-gray-600 mb-2 flex items-center gap-2" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+                  <Package className="w-4 h-4" />
+                  Peso Cubado e Volumes
+                </h4>
+                <PackingEditor
+                  cubicFactor={uploadCubicFactor}
+                  packageLimits={uploadLimits}
+                  onChange={(f, l) => { setUploadCubicFactor(f); setUploadLimits(l); }}
+                />
+              </div>
+            )}
+
             {/* Column Mapping */}
             <div>
               <h4 className="text-gray-600 mb-2 flex items-center gap-2" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
@@ -577,6 +815,11 @@ export function AdminShippingTables() {
               </div>
             )}
 
+            {/* Diff against the version in effect + CEP coverage */}
+            {(diffPreview || loadingDiff) && (
+              <TableDiffPanel preview={diffPreview} loading={loadingDiff} isNewVersion={!!versionTarget} />
+            )}
+
             {/* Validation warnings */}
             {columnMap.cepInicio === undefined && (
               <div className="flex items-center gap-2 text-amber-600 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
@@ -594,7 +837,7 @@ export function AdminShippingTables() {
             {/* Import button */}
             <div className="flex items-center justify-end gap-3 pt-2">
               <button
-                onClick={() => { setShowUpload(false); setParsed(null); }}
+                onClick={resetUpload}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors cursor-pointer"
                 style={{ fontSize: "0.85rem" }}
               >
@@ -604,7 +847,7 @@ export function AdminShippingTables() {
                 onClick={handleUpload}
                 disabled={
                   uploading ||
-                  !uploadName.trim() ||
+                  (!versionTarget && !uploadName.trim()) ||
                   columnMap.cepInicio === undefined ||
                   columnMap.cepFim === undefined ||
                   previewRows.length === 0
@@ -617,7 +860,11 @@ export function AdminShippingTables() {
                 ) : (
                   <Upload className="w-4 h-4" />
                 )}
-                {uploading ? "Importando..." : `Importar ${previewRows.length} linhas`}
+                {uploading
+                  ? "Importando..."
+                  : versionTarget
+                    ? `Salvar versao ${versionTarget.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1}`
+                    : `Importar ${previewRows.length} linhas`}
               </button>
             </div>
           </div>
@@ -654,8 +901,57 @@ export function AdminShippingTables() {
                     <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
                       {table.carrierName} &middot; {table.rowCount} faixas &middot;{" "}
                       {new Date(table.createdAt).toLocaleDateString("pt-BR")}
+                      {table.cubicFactor ? <> &middot; cubagem {table.cubicFactor} kg/m³</> : null}
+                      {table.packageLimits ? <> &middot; com limites de volume</> : null}
+                    </p>
+                    <p style={{ fontSize: "0.72rem" }}>
+                      {table.activeVersion !== null ? (
+                        <span className="text-green-700">Versao {table.activeVersion} vigente</span>
+                      ) : (
+                        <span className="text-amber-600">Sem versao vigente — tabela fora da cotacao</span>
+                      )}
+                      {table.nextVersion && (
+                        <span className="text-blue-600">
+                          {" "}&middot; versao {table.nextVersion.version} a partir de {formatDateTime(table.nextVersion.validFrom)}
+                        </span>
+                      )}
                     </p>
                   </div>
+                  <button
+                    onClick={() => startNewVersion(table)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors cursor-pointer"
+                    style={{ fontSize: "0.78rem" }}
+                  >
+                    <Upload className="w-4 h-4" />
+                    Nova versao
+                  </button>
+                  <button
+                    onClick={() => setVersionsTableId(versionsTableId === table.id ? null : table.id)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors cursor-pointer"
+                    style={{ fontSize: "0.78rem" }}
+                  >
+                    <History className="w-4 h-4" />
+                    Versoes ({table.versions.length})
+                  </button>
+                  {table.canRollback && (
+                    <button
+                      onClick={() => handleRollback(table)}
+                      disabled={versionBusy === table.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-gray-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors cursor-pointer disabled:opacity-50"
+                      style={{ fontSize: "0.78rem" }}
+                    >
+                      {versionBusy === table.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      Reverter
+                    </button>
+                  )}
+                  <button
+                    onClick={() => openPacking(table)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-gray-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors cursor-pointer"
+                    style={{ fontSize: "0.78rem" }}
+                  >
+                    <Package className="w-4 h-4" />
+                    Cubagem
+                  </button>
                   <button
                     onClick={() => handlePreview(table.id)}
                     className="flex items-center gap-1 px-3 py-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors cursor-pointer"
@@ -683,9 +979,102 @@ export function AdminShippingTables() {
                   </button>
                 </div>
 
+                {/* Packing settings */}
+                {packingTableId === table.id && (
+                  <div className="border-t border-gray-100 px-5 py-3 space-y-3">
+                    <PackingEditor
+                      cubicFactor={packingDraft.cubicFactor}
+                      packageLimits={packingDraft.packageLimits}
+                      onChange={(f, l) => setPackingDraft({ cubicFactor: f, packageLimits: l })}
+                    />
+                    <div className="flex justify-end">
+                      <button
+                        onClick={handleSavePacking}
+                        disabled={savingPacking}
+                        className="flex items-center gap-1.5 px-4 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 cursor-pointer"
+                        style={{ fontSize: "0.78rem", fontWeight: 600 }}
+                      >
+                        {savingPacking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+                        Salvar cubagem
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Version history */}
+                {versionsTableId === table.id && (
+                  <div className="border-t border-gray-100 px-5 py-3">
+                    <table className="w-full text-left" style={{ fontSize: "0.78rem" }}>
+                      <thead>
+                        <tr className="text-gray-500">
+                          <th className="py-1.5 pr-3 font-medium">Versao</th>
+                          <th className="py-1.5 pr-3 font-medium">Status</th>
+                          <th className="py-1.5 pr-3 font-medium">Vigencia</th>
+                          <th className="py-1.5 pr-3 font-medium">Faixas</th>
+                          <th className="py-1.5 pr-3 font-medium">Mudancas na importacao</th>
+                          <th className="py-1.5" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {table.versions.map((v) => {
+                          const status = versionStatus(table, v, Date.now());
+                          const busy = versionBusy === table.id + ":" + v.id;
+                          return (
+                            <tr key={v.id}>
+                              <td className="py-1.5 pr-3 text-gray-700 font-medium">
+                                v{v.version}
+                                {v.note && <span className="block text-gray-400 font-normal">{v.note}</span>}
+                              </td>
+                              <td className="py-1.5 pr-3">
+                                <span className={`px-2 py-0.5 rounded-full ${status.className}`} style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+                                  {status.label}
+                                </span>
+                              </td>
+                              <td className="py-1.5 pr-3 text-gray-600">
+                                {formatDateTime(v.validFrom)}
+                                {v.validTo !== null ? ` ate ${formatDateTime(v.validTo)}` : " em diante"}
+                              </td>
+                              <td className="py-1.5 pr-3 text-gray-600">{v.rowCount}</td>
+                              <td className="py-1.5 pr-3 text-gray-500">
+                                {v.summary
+                                  ? `+${v.summary.added} / -${v.summary.removed} / ${v.summary.changed} preco` +
+                                    (v.summary.gaps || v.summary.overlaps ? ` · ${v.summary.gaps} lacunas, ${v.summary.overlaps} sobreposicoes` : "")
+                                  : "-"}
+                              </td>
+                              <td className="py-1.5 text-right whitespace-nowrap">
+                                <button
+                                  onClick={() => handlePreview(table.id, v.id)}
+                                  className="px-2 py-1 text-gray-500 hover:text-blue-600 cursor-pointer"
+                                >
+                                  Linhas
+                                </button>
+                                {(v.disabled || v.id !== table.activeVersionId || table.canRollback) && (
+                                  <button
+                                    onClick={() => handleToggleVersion(table, v)}
+                                    disabled={busy}
+                                    className="px-2 py-1 text-gray-500 hover:text-red-600 cursor-pointer disabled:opacity-50"
+                                  >
+                                    {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin inline" /> : v.disabled ? "Reativar" : "Desativar"}
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
                 {/* Preview existing table */}
                 {previewTableId === table.id && (
                   <div className="border-t border-gray-100 px-5 py-3">
+                    {previewTable && !loadingPreview && (
+                      <p className="text-gray-500 mb-2" style={{ fontSize: "0.75rem" }}>
+                        Linhas da versao {previewTable.versions.find((v) => v.id === previewTable.versionId)?.version ?? "-"}
+                        {previewTable.versionId === previewTable.activeVersionId ? " (vigente)" : ""}
+                      </p>
+                    )}
                     {loadingPreview ? (
                       <div className="flex items-center justify-center py-6">
                         <Loader2 className="w-5 h-5 text-red-600 animate-spin" />
@@ -749,6 +1138,15 @@ export function AdminShippingTables() {
             <li><strong>prazo</strong> - Prazo de entrega em dias uteis</li>
             <li><strong>peso_min, peso_max</strong> - Faixa de peso em kg (opcional)</li>
           </ul>
+          <p className="mt-2 text-blue-600">
+            Para reajustes use <strong>Nova versao</strong>: o arquivo e comparado com a versao vigente (linhas novas,
+            removidas, precos alterados, lacunas e sobreposicoes de CEP) e pode ser agendado. A cotacao usa a versao
+            vigente no momento; <strong>Reverter</strong> desativa a versao atual e a anterior volta a valer.
+          </p>
+          <p className="mt-2 text-blue-600">
+            Com fator de cubagem, a faixa de peso e consultada pelo maior entre peso real e peso cubado.
+            Com limites de volume, o carrinho e dividido em varios volumes e cada um e cotado na tabela.
+          </p>
           <p className="mt-2 text-blue-500">
             Exemplo: <code className="bg-blue-100 px-1 rounded">cep_inicio;cep_fim;valor;prazo</code>
           </p>
@@ -756,4 +1154,196 @@ export function AdminShippingTables() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+// ─── Import diff (added / removed / price changes + CEP coverage) ───
+
+function DiffList<T>({ title, count, items, className, render }: { title: string; count: number; items: T[]; className: string; render: (item: T) => React.ReactNode }) {
+  if (count === 0) return null;
+  const shown = items.slice(0, 20);
+  return (
+    <div>
+      <p className={className} style={{ fontSize: "0.75rem", fontWeight: 600 }}>
+        {title} ({count})
+      </p>
+      <ul className="mt-1 space-y-0.5 text-gray-600 font-mono" style={{ fontSize: "0.72rem" }}>
+        {shown.map((item, i) => <li key={i}>{render(item)}</li>)}
+      </ul>
+      {count > shown.length && (
+        <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>... mais {count - shown.length}</p>
+      )}
+    </div>
+  );
+}
+
+function rowLabel(row: api.ShippingTableRow): string {
+  const peso = row.pesoMax >= 9999 ? `${row.pesoMin}+ kg` : `${row.pesoMin}-${row.pesoMax} kg`;
+  return `${formatCep(row.cepInicio)} a ${formatCep(row.cepFim)} · ${peso}`;
+}
+
+function TableDiffPanel({
+  preview,
+  loading,
+  isNewVersion,
+}: {
+  preview: { against: { id: string; version: number } | null; validRows: number; diff: api.ShippingTableDiff } | null;
+  loading: boolean;
+  isNewVersion: boolean;
+}) {
+  const chips = preview
+    ? [
+        { label: "novas", value: preview.diff.counts.added, className: "bg-green-100 text-green-700", show: !!preview.against },
+        { label: "removidas", value: preview.diff.counts.removed, className: "bg-red-100 text-red-700", show: !!preview.against },
+        { label: "preco/prazo alterado", value: preview.diff.counts.changed, className: "bg-amber-100 text-amber-700", show: !!preview.against },
+        { label: "iguais", value: preview.diff.counts.unchanged, className: "bg-gray-100 text-gray-600", show: !!preview.against },
+        { label: "lacunas de CEP", value: preview.diff.counts.gaps, className: "bg-orange-100 text-orange-700", show: true },
+        { label: "sobreposicoes", value: preview.diff.counts.overlaps, className: "bg-purple-100 text-purple-700", show: true },
+      ].filter((c) => c.show)
+    : [];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <h4 className="text-gray-600 flex items-center gap-2" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+        <GitCompare className="w-4 h-4" />
+        {preview?.against
+          ? `Comparacao com a versao ${preview.against.version}`
+          : isNewVersion
+            ? "Comparacao (tabela sem versao vigente)"
+            : "Cobertura de CEP"}
+        {loading && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+      </h4>
+      {preview && (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {chips.map((c) => (
+              <span key={c.label} className={`px-2 py-0.5 rounded-full ${c.className}`} style={{ fontSize: "0.72rem", fontWeight: 600 }}>
+                {c.value} {c.label}
+              </span>
+            ))}
+            <span className="px-2 py-0.5 text-gray-400" style={{ fontSize: "0.72rem" }}>
+              {preview.validRows} linhas validas no arquivo
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-72 overflow-y-auto">
+            <DiffList
+              title="Preco/prazo alterado"
+              count={preview.diff.counts.changed}
+              items={preview.diff.changed}
+              className="text-amber-700"
+              render={(c) => (
+                <>
+                  {rowLabel(c.after)}: {formatMoney(c.before.valor)} → {formatMoney(c.after.valor)}
+                  {c.pct !== null && <span className={c.pct > 0 ? "text-red-600" : "text-green-600"}> ({c.pct > 0 ? "+" : ""}{c.pct}%)</span>}
+                  {c.before.prazo !== c.after.prazo && <> · prazo {c.before.prazo} → {c.after.prazo}</>}
+                </>
+              )}
+            />
+            {preview.against && (
+              <DiffList
+                title="Linhas novas"
+                count={preview.diff.counts.added}
+                items={preview.diff.added}
+                className="text-green-700"
+                render={(r) => <>{rowLabel(r)}: {formatMoney(r.valor)}</>}
+              />
+            )}
+            <DiffList
+              title="Linhas removidas"
+              count={preview.diff.counts.removed}
+              items={preview.diff.removed}
+              className="text-red-700"
+              render={(r) => <>{rowLabel(r)}: {formatMoney(r.valor)}</>}
+            />
+            <DiffList
+              title="Lacunas de CEP (sem preco)"
+              count={preview.diff.counts.gaps}
+              items={preview.diff.gaps}
+              className="text-orange-700"
+              render={(g) => <>{formatCep(g.cepInicio)} a {formatCep(g.cepFim)} · {g.band} kg</>}
+            />
+            <DiffList
+              title="Sobreposicoes de CEP"
+              count={preview.diff.counts.overlaps}
+              items={preview.diff.overlaps}
+              className="text-purple-700"
+              render={(o) => (
+                <>
+                  {formatCep(o.cepInicio)} a {formatCep(o.cepFim)} {o.nested ? "dentro de" : "cruza"}{" "}
+                  {o.other ? `${formatCep(o.other.cepInicio)} a ${formatCep(o.other.cepFim)}` : ""} · {o.band} kg
+                </>
+              )}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ─── Packing editor (peso cubado + limites por volume) ───
+// Shared with the manual carrier editor in AdminShipping.
+
+const EMPTY_LIMITS: api.ShippingPackageLimits = { maxWeightKg: 0, maxLengthCm: 0, maxWidthCm: 0, maxHeightCm: 0, maxSumCm: 0 };
+
+const LIMIT_FIELDS: { key: keyof api.ShippingPackageLimits; label: string }[] = [
+  { key: "maxWeightKg", label: "Peso max (kg)" },
+  { key: "maxLengthCm", label: "Compr. max (cm)" },
+  { key: "maxWidthCm", label: "Largura max (cm)" },
+  { key: "maxHeightCm", label: "Altura max (cm)" },
+  { key: "maxSumCm", label: "Soma C+L+A (cm)" },
+];
+
+export function PackingEditor({
+  cubicFactor,
+  packageLimits,
+  onChange,
+}: {
+  cubicFactor: number;
+  packageLimits: api.ShippingPackageLimits | null;
+  onChange: (cubicFactor: number, packageLimits: api.ShippingPackageLimits | null) => void;
+}) {
+  const limits = packageLimits || EMPTY_LIMITS;
+
+  const updateLimit = (key: keyof api.ShippingPackageLimits, value: number) => {
+    const next = { ...limits, [key]: value };
+    const hasAny = LIMIT_FIELDS.some((f) => next[f.key] > 0);
+    onChange(cubicFactor, hasAny ? next : null);
+  };
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+      <div>
+        <label className="block text-gray-400 mb-0.5" style={{ fontSize: "0.68rem", fontWeight: 500 }}>
+          Fator cubagem (kg/m³)
+        </label>
+        <input
+          type="number"
+          value={cubicFactor || ""}
+          onChange={(e) => onChange(Math.min(1000, Math.max(0, parseFloat(e.target.value) || 0)), packageLimits)}
+          min={0}
+          max={1000}
+          step={1}
+          placeholder="0 = sem cubagem"
+          className="w-full bg-white border border-gray-200 rounded px-2 py-1.5 text-gray-800 focus:outline-none focus:ring-1 focus:ring-red-200"
+          style={{ fontSize: "0.82rem" }}
+        />
+      </div>
+      {LIMIT_FIELDS.map((field) => (
+        <div key={field.key}>
+          <label className="block text-gray-400 mb-0.5" style={{ fontSize: "0.68rem", fontWeight: 500 }}>
+            {field.label}
+          </label>
+          <input
+            type="number"
+            value={limits[field.key] || ""}
+            onChange={(e) => updateLimit(field.key, Math.max(0, parseFloat(e.target.value) || 0))}
+            min={0}
+            step={field.key === "maxWeightKg" ? 0.5 : 1}
+            placeholder="Sem limite"
+            className="w-full bg-white border border-gray-200 rounded px-2 py-1.5 text-gray-800 focus:outline-none focus:ring-1 focus:ring-red-200"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,493 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import CalendarClock from "lucide-react/dist/esm/icons/calendar-clock.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle.js";
+import CheckCircle2 from "lucide-react/dist/esm/icons/check-circle-2.js";
+import Search from "lucide-react/dist/esm/icons/search.js";
+import Play from "lucide-react/dist/esm/icons/play.js";
+import Save from "lucide-react/dist/esm/icons/save.js";
+import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
+import ChevronUp from "lucide-react/dist/esm/icons/chevron-up.js";
+import TrendingUp from "lucide-react/dist/esm/icons/trending-up.js";
+import TrendingDown from "lucide-react/dist/esm/icons/trending-down.js";
+import PackageX from "lucide-react/dist/esm/icons/package-x.js";
+import PackageCheck from "lucide-react/dist/esm/icons/package-check.js";
+import Sparkles from "lucide-react/dist/esm/icons/sparkles.js";
+import * as api from "../../services/api";
+import type { SigeScheduledSettings, SigeScheduledState, SigeScheduledRun, SigeSyncHealth, SigeChange, SigeChangeType } from "../../services/api";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+function formatDate(ms: number | null) {
+  if (!ms) return "-";
+  var d = new Date(ms);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatPrice(val: number | null) {
+  if (val === null) return "-";
+  return val.toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
+}
+
+var INTERVAL_OPTIONS = [15, 30, 60, 120, 240, 720, 1440];
+
+function intervalLabel(min: number) {
+  return min < 60 ? min + " min" : (min / 60) + " h";
+}
+
+var HEALTH_STYLES: Record<SigeSyncHealth["status"], { label: string; cls: string }> = {
+  ok: { label: "Funcionando", cls: "bg-green-50 text-green-700 border-green-200" },
+  failing: { label: "Com falha", cls: "bg-red-50 text-red-700 border-red-200" },
+  stale: { label: "Atrasada", cls: "bg-amber-50 text-amber-700 border-amber-200" },
+  disabled: { label: "Desativada", cls: "bg-gray-100 text-gray-600 border-gray-200" },
+  never: { label: "Aguardando 1ª execução", cls: "bg-blue-50 text-blue-700 border-blue-200" },
+};
+
+var RUN_STYLES: Record<SigeScheduledRun["status"], { label: string; cls: string }> = {
+  ok: { label: "OK", cls: "bg-green-50 text-green-700" },
+  partial: { label: "Parcial", cls: "bg-amber-50 text-amber-700" },
+  failed: { label: "Falhou", cls: "bg-red-50 text-red-700" },
+  skipped: { label: "Ignorada", cls: "bg-gray-100 text-gray-500" },
+};
+
+var CHANGE_TYPES: Array<{ id: SigeChangeType | ""; label: string }> = [
+  { id: "", label: "Todas" },
+  { id: "new_sku", label: "SKUs novos" },
+  { id: "price_change", label: "Preço" },
+  { id: "out_of_stock", label: "Estoque zerado" },
+  { id: "back_in_stock", label: "Estoque de volta" },
+];
+
+/* ═══════════════════ Journal row ═══════════════════ */
+function ChangeRow({ change }: { change: SigeChange }) {
+  var icon: React.ReactNode;
+  var text: string;
+  if (change.type === "new_sku") {
+    icon = <Sparkles className="w-4 h-4 text-blue-500" />;
+    text = change.inCatalog ? "Novo no SIGE (já cadastrado na loja)" : "Novo no SIGE (não cadastrado na loja)";
+  } else if (change.type === "price_change") {
+    var up = (change.after || 0) > (change.before || 0);
+    icon = up ? <TrendingUp className="w-4 h-4 text-red-500" /> : <TrendingDown className="w-4 h-4 text-green-600" />;
+    var pct = change.before ? Math.round((((change.after || 0) - change.before) / change.before) * 1000) / 10 : 0;
+    text = formatPrice(change.before) + " → " + formatPrice(change.after) + " (" + (pct > 0 ? "+" : "") + String(pct).replace(".", ",") + "%)";
+  } else if (change.type === "out_of_stock") {
+    icon = <PackageX className="w-4 h-4 text-red-500" />;
+    text = "Estoque zerado (" + change.before + " → " + change.after + ")";
+  } else {
+    icon = <PackageCheck className="w-4 h-4 text-green-600" />;
+    text = "Estoque de volta (" + change.before + " → " + change.after + ")";
+  }
+  return (
+    <tr className="text-gray-700">
+      <td className="px-3 py-2 whitespace-nowrap text-gray-500">{formatDate(change.at)}</td>
+      <td className="px-3 py-2">
+        <p className="truncate max-w-[280px]" style={{ fontWeight: 600 }}>{change.titulo || change.sku}</p>
+        <p className="text-gray-400 font-mono" style={{ fontSize: "0.68rem" }}>{change.sku}</p>
+      </td>
+      <td className="px-3 py-2">
+        <span className="inline-flex items-center gap-1.5">{icon}{text}</span>
+      </td>
+    </tr>
+  );
+}
+
+/* ═══════════════════ Run row ═══════════════════ */
+function RunRow({ run }: { run: SigeScheduledRun }) {
+  var [open, setOpen] = useState(false);
+  var st = RUN_STYLES[run.status];
+  var canOpen = run.failures.length > 0 || !!run.error;
+  return (
+    <>
+      <tr className="text-gray-700">
+        <td className="px-3 py-2 whitespace-nowrap">{formatDate(run.startedAt)}</td>
+        <td className="px-3 py-2 whitespace-nowrap">{run.trigger === "manual" ? "Manual" : "Agendada"}</td>
+        <td className="px-3 py-2">
+          <span className={"inline-flex px-2 py-0.5 rounded-full " + st.cls} style={{ fontSize: "0.68rem", fontWeight: 600 }}>{st.label}</span>
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap">
+          {run.skus > 0 ? (run.skuFrom + 1) + "–" + (run.skuFrom + run.skus) + " de " + run.totalSkus : "-"}
+        </td>
+        <td className="px-3 py-2 text-right">{run.balances}</td>
+        <td className="px-3 py-2 text-right">{run.prices}</td>
+        <td className="px-3 py-2 text-right">{run.changes}</td>
+        <td className="px-3 py-2 text-right">
+          {canOpen ? (
+            <button onClick={function () { setOpen(!open); }} className="inline-flex items-center gap-1 text-red-600 hover:underline" style={{ fontWeight: 600 }}>
+              {run.error && run.failures.length === 0 ? "erro" : run.failures.length}
+              {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+          ) : "0"}
+        </td>
+        <td className="px-3 py-2 text-right text-gray-400 whitespace-nowrap">{Math.round((run.finishedAt - run.startedAt) / 1000) + " s"}</td>
+      </tr>
+      {open && (
+        <tr>
+          <td colSpan={9} className="px-3 py-2 bg-red-50/50">
+            {run.error && <p className="text-red-600 mb-1" style={{ fontWeight: 600 }}>{run.error}</p>}
+            {run.failures.map(function (f, i) {
+              return (
+                <p key={i} className="text-gray-600">
+                  <span className="font-mono">{f.sku || "catálogo"}</span>
+                  {" · " + (f.stage === "stock" ? "saldo" : f.stage === "price" ? "preço" : "catálogo") + " · " + f.error}
+                </p>
+              );
+            })}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminSigeSync() {
+  var [settings, setSettings] = useState<SigeScheduledSettings | null>(null);
+  var [draft, setDraft] = useState<SigeScheduledSettings | null>(null);
+  var [state, setState] = useState<SigeScheduledState | null>(null);
+  var [health, setHealth] = useState<SigeSyncHealth | null>(null);
+  var [runs, setRuns] = useState<SigeScheduledRun[]>([]);
+  var [running, setRunning] = useState(false);
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [saving, setSaving] = useState(false);
+
+  var [journal, setJournal] = useState<SigeChange[]>([]);
+  var [journalTotal, setJournalTotal] = useState(0);
+  var [journalLoading, setJournalLoading] = useState(false);
+  var [typeFilter, setTypeFilter] = useState<SigeChangeType | "">("");
+  var [searchTerm, setSearchTerm] = useState("");
+  var pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  var load = useCallback(async function () {
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.adminGetSigeScheduledSync(token);
+      setSettings(res.settings);
+      setDraft(function (prev) { return prev || res.settings; });
+      setState(res.state);
+      setHealth(res.health);
+      setRuns(res.runs || []);
+      setRunning(res.running);
+    } catch (err: any) {
+      console.error("[AdminSigeSync] Load error:", err);
+      setError(err.message || "Erro ao carregar sincronização agendada.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  var loadJournal = useCallback(async function () {
+    setJournalLoading(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.adminGetSigeSyncJournal(token, { type: typeFilter, q: searchTerm.trim(), limit: 300 });
+      setJournal(res.entries || []);
+      setJournalTotal(res.total || 0);
+    } catch (err: any) {
+      console.error("[AdminSigeSync] Journal error:", err);
+      toast.error(err.message || "Erro ao carregar diário de mudanças.");
+    } finally {
+      setJournalLoading(false);
+    }
+  }, [typeFilter, searchTerm]);
+
+  useEffect(function () { load(); }, [load]);
+
+  useEffect(function () {
+    var id = setTimeout(loadJournal, 300);
+    return function () { clearTimeout(id); };
+  }, [loadJournal]);
+
+  useEffect(function () {
+    return function () { if (pollRef.current) clearInterval(pollRef.current); };
+  }, []);
+
+  var handleRunNow = async function () {
+    var lastRunId = runs[0] ? runs[0].id : "";
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      await api.adminRunSigeScheduledSync(token);
+      setRunning(true);
+      toast.success("Sincronização iniciada. O resultado aparece abaixo em instantes.");
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao iniciar sincronização.");
+      return;
+    }
+    // Poll until a new run shows up (up to ~5 min)
+    if (pollRef.current) clearInterval(pollRef.current);
+    var ticks = 0;
+    pollRef.current = setInterval(async function () {
+      ticks++;
+      try {
+        var token = await getValidAdminToken();
+        if (!token) return;
+        var res = await api.adminGetSigeScheduledSync(token);
+        var done = res.runs.length > 0 && res.runs[0].id !== lastRunId;
+        if (done || ticks >= 60) {
+          if (pollRef.current) clearInterval(pollRef.current);
+          pollRef.current = null;
+          setRunning(false);
+          await load();
+          await loadJournal();
+        }
+      } catch (_e) {}
+    }, 5000);
+  };
+
+  var patchDraft = function (patch: Partial<SigeScheduledSettings>) {
+    setDraft(function (prev) { return prev ? { ...prev, ...patch } : prev; });
+  };
+
+  var handleSave = async function () {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.adminSaveSigeScheduledSettings(token, draft);
+      setSettings(res.settings);
+      setDraft(res.settings);
+      toast.success("Configuração salva.");
+      await load();
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao salvar configuração.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  var dirty = !!draft && !!settings && (draft.enabled !== settings.enabled ||
+    draft.intervalMinutes !== settings.intervalMinutes || draft.batchSize !== settings.batchSize);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+      </div>
+    );
+  }
+
+  var hs = health ? HEALTH_STYLES[health.status] : null;
+  var skusPerDay = settings && settings.enabled ? Math.round((24 * 60 / settings.intervalMinutes) * settings.batchSize) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <CalendarClock className="w-5 h-5 text-blue-600" /> Sincronização SIGE
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Atualiza saldo e preço de tabela dos produtos em lotes, em segundo plano, e registra o que mudou. A sincronização manual continua em Produtos.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={function () { load(); loadJournal(); }}
+            className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+            style={{ fontSize: "0.8rem", fontWeight: 500 }}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Atualizar
+          </button>
+          <button
+            onClick={handleRunNow}
+            disabled={running}
+            className="flex items-center gap-2 bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-3 py-2 rounded-lg transition-colors"
+            style={{ fontSize: "0.8rem", fontWeight: 600 }}
+          >
+            {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            {running ? "Sincronizando..." : "Executar agora"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Status + settings */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {health && hs && (
+          <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-2" style={{ fontSize: "0.8rem" }}>
+            <div className="flex items-center justify-between">
+              <h3 className="text-gray-800" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Situação</h3>
+              <span className={"inline-flex px-2.5 py-0.5 rounded-full border " + hs.cls} style={{ fontSize: "0.7rem", fontWeight: 600 }}>{hs.label}</span>
+            </div>
+            <p className="text-gray-600">{"Última execução: " + formatDate(health.lastRunAt)}</p>
+            <p className="text-gray-600">{"Último sucesso: " + formatDate(health.lastOkAt)}</p>
+            {state && (
+              <p className="text-gray-600">
+                {"Cursor: SKU " + state.skuOffset + " · " + state.passes + " volta(s) completa(s) no catálogo"}
+                {!state.catalogBaseline && " · montando base de códigos do SIGE"}
+              </p>
+            )}
+            {health.lastError && (
+              <p className="flex items-start gap-1.5 text-red-600">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                {health.lastError + (health.consecutiveFailures > 1 ? " (" + health.consecutiveFailures + " falhas seguidas)" : "")}
+              </p>
+            )}
+            {health.status === "ok" && !health.lastError && (
+              <p className="flex items-center gap-1.5 text-green-600">
+                <CheckCircle2 className="w-3.5 h-3.5" /> Sem falhas na última execução.
+              </p>
+            )}
+          </div>
+        )}
+
+        {draft && (
+          <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-3" style={{ fontSize: "0.8rem" }}>
+            <h3 className="text-gray-800" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Agendamento</h3>
+            <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={function (e) { patchDraft({ enabled: e.target.checked }); }}
+                className="accent-red-600"
+              />
+              Sincronizar automaticamente
+            </label>
+            <div className="flex items-center gap-3 flex-wrap">
+              <label className="text-gray-600">
+                {"A cada "}
+                <select
+                  value={draft.intervalMinutes}
+                  onChange={function (e) { patchDraft({ intervalMinutes: Number(e.target.value) }); }}
+                  className="ml-1 border border-gray-200 rounded-lg px-2 py-1 text-gray-700"
+                >
+                  {INTERVAL_OPTIONS.concat(INTERVAL_OPTIONS.indexOf(draft.intervalMinutes) < 0 ? [draft.intervalMinutes] : []).map(function (m) {
+                    return <option key={m} value={m}>{intervalLabel(m)}</option>;
+                  })}
+                </select>
+              </label>
+              <label className="text-gray-600">
+                {"Lote de "}
+                <input
+                  type="number"
+                  min={10}
+                  max={500}
+                  value={draft.batchSize}
+                  onChange={function (e) { patchDraft({ batchSize: Number(e.target.value) || 0 }); }}
+                  className="ml-1 w-20 border border-gray-200 rounded-lg px-2 py-1 text-gray-700"
+                />
+                {" SKUs"}
+              </label>
+            </div>
+            <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+              {settings && settings.enabled
+                ? "≈ " + skusPerDay + " consultas de saldo e preço por dia" + (state && runs[0] ? " · catálogo com " + runs[0].totalSkus + " SKUs" : "") + "."
+                : "Com o agendamento desligado, só \"Executar agora\" sincroniza."}
+            </p>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              className="flex items-center gap-2 bg-gray-800 hover:bg-gray-900 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg transition-colors"
+              style={{ fontSize: "0.78rem", fontWeight: 600 }}
+            >
+              {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+              Salvar
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Runs */}
+      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+        <h3 className="px-4 py-3 text-gray-800 border-b border-gray-100" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Execuções recentes</h3>
+        {runs.length === 0 ? (
+          <p className="text-center py-8 text-gray-400" style={{ fontSize: "0.82rem" }}>Nenhuma execução ainda.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full" style={{ fontSize: "0.76rem" }}>
+              <thead className="bg-gray-50 text-gray-500 text-left">
+                <tr>
+                  <th className="px-3 py-1.5 font-medium">Início</th>
+                  <th className="px-3 py-1.5 font-medium">Origem</th>
+                  <th className="px-3 py-1.5 font-medium">Resultado</th>
+                  <th className="px-3 py-1.5 font-medium">SKUs</th>
+                  <th className="px-3 py-1.5 font-medium text-right">Saldos</th>
+                  <th className="px-3 py-1.5 font-medium text-right">Preços</th>
+                  <th className="px-3 py-1.5 font-medium text-right">Mudanças</th>
+                  <th className="px-3 py-1.5 font-medium text-right">Falhas</th>
+                  <th className="px-3 py-1.5 font-medium text-right">Duração</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {runs.map(function (r) { return <RunRow key={r.id} run={r} />; })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Journal */}
+      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-100 flex items-center gap-3 flex-wrap">
+          <h3 className="text-gray-800" style={{ fontSize: "0.9rem", fontWeight: 600 }}>
+            {"Diário de mudanças"}
+            <span className="text-gray-400 ml-1" style={{ fontWeight: 400, fontSize: "0.75rem" }}>{"(" + journalTotal + " registro(s))"}</span>
+          </h3>
+          <div className="flex items-center gap-1 flex-wrap">
+            {CHANGE_TYPES.map(function (t) {
+              var active = typeFilter === t.id;
+              return (
+                <button
+                  key={t.id || "all"}
+                  onClick={function () { setTypeFilter(t.id); }}
+                  className={"px-2.5 py-1 rounded-full border transition-colors " + (active ? "bg-red-600 border-red-600 text-white" : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50")}
+                  style={{ fontSize: "0.72rem", fontWeight: 500 }}
+                >
+                  {t.label}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex-1 min-w-[200px] relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={function (e) { setSearchTerm(e.target.value); }}
+              placeholder="Buscar por SKU ou produto..."
+              className="w-full pl-9 pr-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+              style={{ fontSize: "0.8rem" }}
+            />
+          </div>
+        </div>
+        {journalLoading && journal.length === 0 ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="w-5 h-5 text-red-600 animate-spin" />
+          </div>
+        ) : journal.length === 0 ? (
+          <p className="text-center py-8 text-gray-400" style={{ fontSize: "0.82rem" }}>Nenhuma mudança registrada.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full" style={{ fontSize: "0.76rem" }}>
+              <thead className="bg-gray-50 text-gray-500 text-left">
+                <tr>
+                  <th className="px-3 py-1.5 font-medium">Quando</th>
+                  <th className="px-3 py-1.5 font-medium">Produto</th>
+                  <th className="px-3 py-1.5 font-medium">Mudança</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {journal.map(function (ch) { return <ChangeRow key={ch.id} change={ch} />; })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -453,7 +453,7 @@ function SendOrderTab() {
     try {
       const token = await getToken();
       const res = await api.adminGetOrders(token);
-      setOrders((res.orders || []).filter((o) => o.status === "paid" || o.status === "sige_registered"));
+      setOrders((res.orders || []).filter((o) => ["paid", "invoiced", "picking", "sige_registered"].indexOf(o.status) !== -1));
     } catch (e: any) {
       setError(e.message || "Erro ao carregar pedidos");
     } finally {
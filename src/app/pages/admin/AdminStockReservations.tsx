@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import PackageCheck from "lucide-react/dist/esm/icons/package-check.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import AlertTriangle from "lucide-react/dist/esm/icons/alert-triangle.js";
+import Search from "lucide-react/dist/esm/icons/search.js";
+import Timer from "lucide-react/dist/esm/icons/timer.js";
+import Unlock from "lucide-react/dist/esm/icons/unlock.js";
+import * as api from "../../services/api";
+import type { StockReservationSku, StockReservationHold } from "../../services/api";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+function formatPrice(val: number) {
+  return val.toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
+}
+
+function formatDate(ms: number) {
+  if (!ms) return "-";
+  var d = new Date(ms);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+/** "12 min", "5 h", "3 d" */
+function formatDuration(ms: number) {
+  var min = Math.max(0, Math.round(ms / 60000));
+  if (min < 60) return min + " min";
+  var h = Math.round(min / 60);
+  if (h < 48) return h + " h";
+  return Math.round(h / 24) + " d";
+}
+
+var PAYMENT_LABELS: Record<string, string> = {
+  pix: "PIX",
+  boleto: "Boleto",
+  mercadopago: "Mercado Pago",
+  cartao_credito: "Cartão",
+  credit_card: "Cartão",
+};
+
+function paymentLabel(method: string) {
+  return PAYMENT_LABELS[String(method || "").toLowerCase()] || method || "-";
+}
+
+/* ═══════════════════ SKU card ═══════════════════ */
+function ReservationCard({ item, now, releasing, onRelease }: {
+  item: StockReservationSku;
+  now: number;
+  releasing: string | null;
+  onRelease: (hold: StockReservationHold, sku: string) => void;
+}) {
+  var shortCount = item.holds.filter(function (h) { return h.short; }).length;
+  var over = item.available !== null && item.held > item.available;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-3 px-4 py-3 flex-wrap">
+        <div className="flex-1 min-w-[200px]">
+          <p className="text-gray-800 truncate" style={{ fontSize: "0.85rem", fontWeight: 600 }}>{item.titulo || item.sku}</p>
+          <p className="text-gray-400 font-mono" style={{ fontSize: "0.7rem" }}>{item.sku}</p>
+        </div>
+        <div className="text-right" style={{ fontSize: "0.78rem" }}>
+          <p className="text-gray-700">
+            <span style={{ fontWeight: 700 }}>{item.held}</span>{" reservada" + (item.held !== 1 ? "s" : "")}
+            {" · "}
+            {item.available === null ? "saldo SIGE desconhecido" : item.available + " no SIGE"}
+          </p>
+          {(over || shortCount > 0) && (
+            <p className="flex items-center justify-end gap-1 text-amber-600" style={{ fontSize: "0.72rem", fontWeight: 600 }}>
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {over ? "Reservas acima do saldo" : shortCount + " reserva(s) sem saldo"}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="border-t border-gray-100 overflow-x-auto">
+        <table className="w-full" style={{ fontSize: "0.76rem" }}>
+          <thead className="bg-gray-50 text-gray-500 text-left">
+            <tr>
+              <th className="px-3 py-1.5 font-medium">Pedido</th>
+              <th className="px-3 py-1.5 font-medium">Cliente</th>
+              <th className="px-3 py-1.5 font-medium">Pagamento</th>
+              <th className="px-3 py-1.5 font-medium text-right">Qtd.</th>
+              <th className="px-3 py-1.5 font-medium">Validade</th>
+              <th className="px-3 py-1.5 font-medium text-right"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {item.holds.map(function (h) {
+              var busy = releasing === h.orderKey + "|" + item.sku;
+              return (
+                <tr key={h.orderKey} className="text-gray-700">
+                  <td className="px-3 py-1.5 whitespace-nowrap">
+                    <span className="font-mono">{h.localOrderId}</span>
+                    {h.total > 0 && <span className="text-gray-400">{" · " + formatPrice(h.total)}</span>}
+                    {h.short && (
+                      <span className="ml-1.5 inline-flex px-1.5 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200" style={{ fontSize: "0.65rem", fontWeight: 600 }} title="Reservado além do saldo em cache — confira antes de faturar">
+                        sem saldo
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-1.5 truncate max-w-[200px]">{h.customerName || "-"}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap">{paymentLabel(h.paymentMethod)}</td>
+                  <td className="px-3 py-1.5 text-right">{h.qty}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap" title={"Criada em " + formatDate(h.createdAt)}>
+                    <span className="inline-flex items-center gap-1">
+                      <Timer className="w-3 h-3 text-gray-400" />
+                      {"vence em " + formatDuration(h.expiresAt - now)}
+                    </span>
+                    <span className="text-gray-400">{" (" + formatDate(h.expiresAt) + ")"}</span>
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    <button
+                      onClick={function () { onRelease(h, item.sku); }}
+                      disabled={busy}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50 transition-colors"
+                      style={{ fontSize: "0.72rem", fontWeight: 600 }}
+                    >
+                      {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Unlock className="w-3 h-3" />}
+                      Liberar
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminStockReservations() {
+  var [reservations, setReservations] = useState<StockReservationSku[]>([]);
+  var [totals, setTotals] = useState({ skus: 0, units: 0 });
+  var [ttlMs, setTtlMs] = useState<Record<string, number>>({});
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [searchTerm, setSearchTerm] = useState("");
+  var [releasing, setReleasing] = useState<string | null>(null);
+  var [now, setNow] = useState(Date.now());
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.adminGetStockReservations(token);
+      setReservations(result.reservations || []);
+      setTotals({ skus: result.totalSkus || 0, units: result.totalUnits || 0 });
+      setTtlMs(result.ttlMs || {});
+      setNow(Date.now());
+    } catch (err: any) {
+      console.error("[AdminStockReservations] Load error:", err);
+      setError(err.message || "Erro ao carregar reservas de estoque.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(function () { load(); }, [load]);
+
+  // Keeps the "vence em" countdown moving without refetching
+  useEffect(function () {
+    var id = setInterval(function () { setNow(Date.now()); }, 30000);
+    return function () { clearInterval(id); };
+  }, []);
+
+  var handleRelease = async function (hold: StockReservationHold, sku: string) {
+    if (!confirm("Liberar a reserva do pedido " + hold.localOrderId + "? Todos os itens do pedido voltam ao saldo da loja.")) return;
+    setReleasing(hold.orderKey + "|" + sku);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await api.adminReleaseStockReservation(token, hold.orderKey);
+      toast.success("Reserva liberada (" + res.released.length + " SKU" + (res.released.length !== 1 ? "s" : "") + ")");
+      await load();
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao liberar reserva.");
+    } finally {
+      setReleasing(null);
+    }
+  };
+
+  var filtered = useMemo(function () {
+    if (!searchTerm) return reservations;
+    var term = searchTerm.toLowerCase();
+    return reservations.filter(function (r) {
+      return r.sku.toLowerCase().indexOf(term) >= 0 ||
+        (r.titulo || "").toLowerCase().indexOf(term) >= 0 ||
+        r.holds.some(function (h) {
+          return h.localOrderId.toLowerCase().indexOf(term) >= 0 ||
+            (h.customerName || "").toLowerCase().indexOf(term) >= 0;
+        });
+    });
+  }, [reservations, searchTerm]);
+
+  var ttlText = ["pix", "boleto", "mercadopago"]
+    .filter(function (m) { return ttlMs[m]; })
+    .map(function (m) { return paymentLabel(m) + " " + formatDuration(ttlMs[m]); })
+    .join(" · ");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <PackageCheck className="w-5 h-5 text-blue-600" /> Reservas de Estoque
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Unidades separadas para pedidos aguardando pagamento. Elas saem do saldo exibido na loja até o pagamento, o cancelamento ou o vencimento da reserva.
+          </p>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+          style={{ fontSize: "0.8rem", fontWeight: 500 }}
+        >
+          <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+          Atualizar
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="bg-gray-100 rounded-lg px-3 py-2 text-gray-600" style={{ fontSize: "0.78rem" }}>
+          <span style={{ fontWeight: 700 }}>{totals.units}</span>{" unidade(s) em "}
+          <span style={{ fontWeight: 700 }}>{totals.skus}</span>{" SKU(s)"}
+        </div>
+        {ttlText && (
+          <div className="flex items-center gap-1.5 text-gray-400" style={{ fontSize: "0.75rem" }}>
+            <Timer className="w-3.5 h-3.5" /> {"Validade: " + ttlText}
+          </div>
+        )}
+        <div className="flex-1 min-w-[200px] relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={function (e) { setSearchTerm(e.target.value); }}
+            placeholder="Buscar por SKU, produto, pedido, cliente..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+          Nenhuma reserva ativa.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filtered.map(function (r) {
+            return <ReservationCard key={r.sku} item={r} now={now} releasing={releasing} onRelease={handleRelease} />;
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { useState, useEffect, useRef } from "react";
-import { Loader2, Save, Check, Trash2, Plus, X, Search, Clock, ToggleLeft, ToggleRight, Flame, Tag, Palette, AlertTriangle, Package, ChevronDown, ChevronUp, GripVertical, Calendar, Eye } from "lucide-react";
+import { Loader2, Save, Check, Trash2, Plus, X, Search, Clock, ToggleLeft, ToggleRight, Flame, Tag, Palette, AlertTriangle, Package, ChevronDown, ChevronUp, GripVertical, Calendar, Eye, Copy, Layers } from "lucide-react";
 import { supabase } from "../../services/supabaseClient";
 import { getValidAdminToken } from "./adminAuth";
 import * as api from "../../services/api";
-import type { SuperPromoProduct } from "../../services/api";
+import type { SuperPromoProduct, AdminPromoCampaign, PromoHomepageSlot } from "../../services/api";
 import { computePromoPrice } from "../../services/api";
 import { ProductImage as ProductImg } from "../../components/ProductImage";
 import { invalidateHomepageCache } from "../../contexts/HomepageInitContext";
+import { SuperPromoCalendar, PROMO_STATUS_STYLES } from "./SuperPromoCalendar";
 
 /* ── helpers ── */
 
@@ -84,6 +85,14 @@ const COLOR_OPTIONS = [
   { value: "#0f172a", label: "Escuro", tw: "bg-slate-900" },
 ];
 
+const SLOT_OPTIONS: Array<{ value: PromoHomepageSlot; label: string; hint: string }> = [
+  { value: "top", label: "Topo da home", hint: "Logo apos as categorias" },
+  { value: "middle", label: "Meio da home", hint: "Apos Pecas em Destaque" },
+  { value: "none", label: "Fora da home", hint: "So preco/selo nos produtos" },
+];
+
+const DEFAULT_SUBTITLE = "Ofertas imperdíveis por tempo limitado!";
+
 /* ══════════════════════════════════════════════ */
 export function AdminSuperPromo() {
   const [loading, setLoading] = useState(true);
@@ -102,6 +111,13 @@ export function AdminSuperPromo() {
   const [discountValue, setDiscountValue] = useState(10);
   const [bgColor, setBgColor] = useState("#dc2626");
   const [products, setProducts] = useState<SuperPromoProduct[]>([]);
+  const [priority, setPriority] = useState(0);
+  const [homepageSlot, setHomepageSlot] = useState<PromoHomepageSlot>("top");
+
+  // Campaign list — the form above edits `selectedId` (null = new campaign)
+  const [campaigns, setCampaigns] = useState<AdminPromoCampaign[]>([]);
+  const [skuCampaigns, setSkuCampaigns] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<Array<{ sku: string; titulo: string }>>([]);
@@ -124,23 +140,39 @@ export function AdminSuperPromo() {
     return token;
   };
 
+  const applyCampaign = (p: AdminPromoCampaign | null) => {
+    setSelectedId(p ? p.id : null);
+    setTitle(p ? p.title || "Super Promoção" : "Super Promoção");
+    setSubtitle(p ? p.subtitle || "" : DEFAULT_SUBTITLE);
+    setEnabled(p ? p.enabled : false);
+    setStartDate(p ? p.startDate : Date.now());
+    setEndDate(p ? p.endDate : Date.now() + 7 * 24 * 3600000);
+    setDiscountType(p ? p.discountType || "percentage" : "percentage");
+    setDiscountValue(p ? p.discountValue ?? 10 : 10);
+    setBgColor(p ? p.bgColor || "#dc2626" : "#dc2626");
+    setProducts(p ? p.products || [] : []);
+    setPriority(p ? p.priority || 0 : 0);
+    setHomepageSlot(p && p.homepageSlot ? p.homepageSlot : "top");
+    setExpandedProduct(null);
+    setConfirmDelete(false);
+    setError("");
+  };
+
+  const loadCampaigns = async () => {
+    const token = await getToken();
+    const result = await api.getAdminPromoCampaigns(token);
+    setCampaigns(result.campaigns || []);
+    setSkuCampaigns(result.skuCampaigns || {});
+    return result.campaigns || [];
+  };
+
   useEffect(() => {
     (async () => {
       try {
-        const token = await getToken();
-        const result = await api.getAdminPromo(token);
-        if (result.promo) {
-          const p = result.promo;
-          setTitle(p.title || "Super Promoção");
-          setSubtitle(p.subtitle || "");
-          setEnabled(p.enabled);
-          setStartDate(p.startDate);
-          setEndDate(p.endDate);
-          setDiscountType(p.discountType || "percentage");
-          setDiscountValue(p.discountValue ?? 10);
-          setBgColor(p.bgColor || "#dc2626");
-          setProducts(p.products || []);
-        }
+        const list = await loadCampaigns();
+        // Open the running campaign first, then the next scheduled one
+        const first = list.find((c) => c.status === "active") || list.find((c) => c.status === "scheduled") || list[0] || null;
+        applyCampaign(first);
       } catch (e: any) {
         console.error("[SuperPromo] Error loading:", e);
       } finally {
@@ -150,20 +182,29 @@ export function AdminSuperPromo() {
   }, []);
 
   const handleSave = async () => {
-    // Validate: warn if enabling an expired promo (won't show on homepage)
+    if (endDate <= startDate) {
+      setError("A data de término deve ser posterior ao início.");
+      return;
+    }
+    // Validate: warn if enabling an expired campaign (won't show on homepage)
     if (enabled && endDate < Date.now()) {
-      setError("A data de término já passou. Atualize o período antes de ativar a promoção.");
+      setError("A data de término já passou. Atualize o período antes de ativar a campanha.");
       return;
     }
     if (enabled && products.length === 0) {
-      setError("Adicione pelo menos 1 produto antes de ativar a promoção.");
+      setError("Adicione pelo menos 1 produto antes de ativar a campanha.");
       return;
     }
     setSaving(true);
     setError("");
     try {
       const token = await getToken();
-      await api.saveAdminPromo(token, { title, subtitle, enabled, startDate, endDate, discountType, discountValue, bgColor, products });
+      const payload = { title, subtitle, enabled, startDate, endDate, priority, homepageSlot, discountType, discountValue, bgColor, products };
+      const result = selectedId
+        ? await api.updateAdminPromoCampaign(token, selectedId, payload)
+        : await api.createAdminPromoCampaign(token, payload);
+      setSelectedId(result.campaign.id);
+      await loadCampaigns();
       invalidateHomepageCache();
       setSaved(true);
       setTimeout(() => setSaved(false), 3000);
@@ -175,21 +216,14 @@ export function AdminSuperPromo() {
   };
 
   const handleDelete = async () => {
+    if (!selectedId) { applyCampaign(null); return; }
     setDeleting(true);
     try {
       const token = await getToken();
-      await api.deleteAdminPromo(token);
+      await api.deleteAdminPromoCampaign(token, selectedId);
       invalidateHomepageCache();
-      setTitle("Super Promoção");
-      setSubtitle("Ofertas imperdíveis por tempo limitado!");
-      setEnabled(false);
-      setStartDate(Date.now());
-      setEndDate(Date.now() + 7 * 24 * 3600000);
-      setDiscountType("percentage");
-      setDiscountValue(10);
-      setBgColor("#dc2626");
-      setProducts([]);
-      setConfirmDelete(false);
+      const list = await loadCampaigns();
+      applyCampaign(list[0] || null);
     } catch (e: any) {
       setError(e.message || "Erro ao deletar.");
     } finally {
@@ -197,6 +231,23 @@ export function AdminSuperPromo() {
     }
   };
 
+  /** Copy the open campaign into a new, disabled draft (e.g. next year's Black Friday) */
+  const handleDuplicate = () => {
+    setSelectedId(null);
+    setTitle(title + " (cópia)");
+    setEnabled(false);
+    setConfirmDelete(false);
+    setError("");
+  };
+
+  const campaignTitle = (id: string) => {
+    const c = campaigns.find((x) => x.id === id);
+    return c ? c.title : id;
+  };
+
+  /** Products of the open campaign currently won by another (higher priority) campaign */
+  const lostSkus = selectedId ? products.filter((p) => skuCampaigns[p.sku] && skuCampaigns[p.sku] !== selectedId) : [];
+
   /* ── search ── */
   const doSearch = async (query: string) => {
     if (!query.trim()) { setSearchResults([]); return; }
@@ -285,9 +336,17 @@ export function AdminSuperPromo() {
             <Flame className="w-6 h-6 text-orange-500" />
             Super Promoção
           </h2>
-          <p className="text-gray-400 mt-1" style={{ fontSize: "0.82rem" }}>Crie promoções relâmpago com cronômetro na home</p>
+          <p className="text-gray-400 mt-1" style={{ fontSize: "0.82rem" }}>Campanhas com cronômetro na home — várias podem rodar ao mesmo tempo</p>
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <button onClick={() => applyCampaign(null)} className="flex items-center gap-1.5 px-3 py-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors" style={{ fontSize: "0.8rem", fontWeight: 500 }}>
+            <Plus className="w-3.5 h-3.5" />Nova campanha
+          </button>
+          {selectedId && (
+            <button onClick={handleDuplicate} className="flex items-center gap-1.5 px-3 py-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors" style={{ fontSize: "0.8rem", fontWeight: 500 }}>
+              <Copy className="w-3.5 h-3.5" />Duplicar
+            </button>
+          )}
           {confirmDelete ? (
             <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
               <span className="text-red-600" style={{ fontSize: "0.8rem", fontWeight: 500 }}>Confirmar exclusão?</span>
@@ -296,7 +355,7 @@ export function AdminSuperPromo() {
             </div>
           ) : (
             <button onClick={() => setConfirmDelete(true)} className="flex items-center gap-1.5 px-3 py-2 text-gray-500 border border-gray-200 rounded-lg hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors" style={{ fontSize: "0.8rem", fontWeight: 500 }}>
-              <Trash2 className="w-3.5 h-3.5" />Resetar
+              <Trash2 className="w-3.5 h-3.5" />{selectedId ? "Excluir" : "Descartar"}
             </button>
           )}
           <button onClick={handleSave} disabled={saving} className={"flex items-center gap-2 px-5 py-2.5 rounded-lg transition-all disabled:opacity-50 " + (saved ? "bg-green-600 text-white" : "bg-red-600 hover:bg-red-700 text-white")} style={{ fontSize: "0.85rem", fontWeight: 600 }}>
@@ -344,6 +403,55 @@ export function AdminSuperPromo() {
         )}
       </div>
 
+      {/* ── Campaigns ── */}
+      <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+        <div className="xl:col-span-2 bg-white border border-gray-200 rounded-xl p-5">
+          <h4 className="text-gray-800 mb-3 flex items-center gap-2" style={{ fontSize: "0.92rem", fontWeight: 600 }}>
+            <Layers className="w-4 h-4 text-gray-400" />
+            Campanhas
+            <span className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full" style={{ fontSize: "0.7rem", fontWeight: 700 }}>{campaigns.length}</span>
+          </h4>
+          {campaigns.length === 0 ? (
+            <p className="text-gray-400 text-center py-6" style={{ fontSize: "0.8rem" }}>Nenhuma campanha criada ainda.</p>
+          ) : (
+            <div className="space-y-2 max-h-[520px] overflow-y-auto">
+              {campaigns.map((c) => {
+                const st = PROMO_STATUS_STYLES[c.status] || PROMO_STATUS_STYLES.disabled;
+                const slot = SLOT_OPTIONS.find((o) => o.value === (c.homepageSlot || "top"));
+                const won = c.products.filter((p) => skuCampaigns[p.sku] === c.id).length;
+                return (
+                  <button key={c.id} onClick={() => applyCampaign(c)} className={"w-full text-left border rounded-lg p-3 transition-all " + (selectedId === c.id ? "border-red-300 bg-red-50/40" : "border-gray-100 hover:border-gray-200")}>
+                    <div className="flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: c.bgColor || "#dc2626" }} />
+                      <span className="text-gray-800 truncate flex-1" style={{ fontSize: "0.82rem", fontWeight: 600 }}>{c.title}</span>
+                      <span className={"px-1.5 py-0.5 rounded border " + st.chip} style={{ fontSize: "0.6rem", fontWeight: 700 }}>{st.label}</span>
+                    </div>
+                    <p className="text-gray-400 mt-1" style={{ fontSize: "0.7rem" }}>{formatDateBR(c.startDate) + " → " + formatDateBR(c.endDate)}</p>
+                    <div className="flex items-center gap-2 flex-wrap mt-1.5" style={{ fontSize: "0.65rem", fontWeight: 600 }}>
+                      <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{"Prioridade " + (c.priority || 0)}</span>
+                      <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{slot ? slot.label : "Topo da home"}</span>
+                      <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{c.products.length + " produto" + (c.products.length !== 1 ? "s" : "")}</span>
+                      {c.status === "active" && won < c.products.length && (
+                        <span className="bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded">{(c.products.length - won) + " em outra campanha"}</span>
+                      )}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <div className="xl:col-span-3">
+          <SuperPromoCalendar campaigns={campaigns} selectedId={selectedId} onSelect={(id) => applyCampaign(campaigns.find((c) => c.id === id) || null)} />
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 pt-5">
+        <p className="text-gray-500" style={{ fontSize: "0.72rem", fontWeight: 700, textTransform: "uppercase", letterSpacing: "0.05em" }}>
+          {selectedId ? "Editando campanha" : "Nova campanha"}
+        </p>
+      </div>
+
       {/* ── Status ── */}
       <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
         <div className={"rounded-xl border-2 p-4 " + (isActive ? "border-green-300 bg-green-50" : isScheduled ? "border-blue-300 bg-blue-50" : isExpired ? "border-red-300 bg-red-50" : "border-gray-200 bg-gray-50")}>
@@ -381,8 +489,8 @@ export function AdminSuperPromo() {
           <div className="bg-white border border-gray-200 rounded-xl p-5">
             <div className="flex items-center justify-between mb-4">
               <div>
-                <p className="text-gray-800" style={{ fontSize: "0.92rem", fontWeight: 600 }}>Ativar Promoção</p>
-                <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>Quando ativada e dentro do período, aparece na home</p>
+                <p className="text-gray-800" style={{ fontSize: "0.92rem", fontWeight: 600 }}>Ativar Campanha</p>
+                <p className="text-gray-400" style={{ fontSize: "0.75rem" }}>Quando ativada e dentro do período, vale nos produtos e no slot da home</p>
               </div>
               <button onClick={() => setEnabled(!enabled)} className="transition-colors">
                 {enabled ? <ToggleRight className="w-10 h-10 text-green-600" /> : <ToggleLeft className="w-10 h-10 text-gray-400" />}
@@ -397,6 +505,20 @@ export function AdminSuperPromo() {
                 <label className="block text-gray-600 mb-1" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Subtítulo</label>
                 <input type="text" value={subtitle} onChange={(e) => setSubtitle(e.target.value)} placeholder="Ex: Até 50% de desconto..." className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-gray-50 outline-none focus:border-red-400 focus:ring-2 focus:ring-red-100 transition-all" style={{ fontSize: "0.85rem" }} />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-gray-600 mb-1" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Prioridade (0-100)</label>
+                  <input type="number" min="0" max="100" step="1" value={priority} onChange={(e) => setPriority(Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)))} className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-gray-50 outline-none focus:border-red-400 focus:ring-2 focus:ring-red-100 transition-all" style={{ fontSize: "0.85rem" }} />
+                  <p className="text-gray-400 mt-1" style={{ fontSize: "0.68rem" }}>Em produtos de várias campanhas, a maior vence</p>
+                </div>
+                <div>
+                  <label className="block text-gray-600 mb-1" style={{ fontSize: "0.78rem", fontWeight: 500 }}>Slot na home</label>
+                  <select value={homepageSlot} onChange={(e) => setHomepageSlot(e.target.value as PromoHomepageSlot)} className="w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-gray-50 outline-none focus:border-red-400 transition-all" style={{ fontSize: "0.85rem" }}>
+                    {SLOT_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                  <p className="text-gray-400 mt-1" style={{ fontSize: "0.68rem" }}>{(SLOT_OPTIONS.find((o) => o.value === homepageSlot) || SLOT_OPTIONS[0]).hint}</p>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -518,6 +640,13 @@ export function AdminSuperPromo() {
               </div>
             )}
 
+            {lostSkus.length > 0 && (
+              <div className="mb-3 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2" style={{ fontSize: "0.75rem" }}>
+                <AlertTriangle className="w-3.5 h-3.5 text-amber-600 shrink-0 mt-0.5" />
+                <span className="text-amber-700">{lostSkus.length + " produto" + (lostSkus.length !== 1 ? "s estão" : " está") + " agora em uma campanha de maior prioridade e não usa" + (lostSkus.length !== 1 ? "m" : "") + " o desconto desta."}</span>
+              </div>
+            )}
+
             {/* Product list */}
             {products.length === 0 ? (
               <div className="text-center py-8 text-gray-400">
@@ -547,6 +676,11 @@ export function AdminSuperPromo() {
                             {mode !== "global" && (
                               <span className="text-gray-300" style={{ fontSize: "0.55rem" }}>individual</span>
                             )}
+                            {selectedId && skuCampaigns[p.sku] && skuCampaigns[p.sku] !== selectedId && (
+                              <span className="bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded" style={{ fontSize: "0.6rem", fontWeight: 600 }}>
+                                {"Vale: " + campaignTitle(skuCampaigns[p.sku])}
+                              </span>
+                            )}
                           </div>
                         </div>
                         <button onClick={() => setExpandedProduct(isExp ? null : p.sku)} className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors">{isExp ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}</button>
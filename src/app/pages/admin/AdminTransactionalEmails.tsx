@@ -3,10 +3,11 @@
  *
  * Permite ao admin visualizar e testar cada tipo de email que o site envia:
  * confirmacao de pedido, pagamento aprovado, notificacao admin, envio/rastreio,
- * carrinho abandonado, certificado de garantia e recuperacao de senha.
+ * pronto para retirada, carrinho abandonado, avisos de estoque/preco, certificado de garantia
+ * e recuperacao de senha.
  */
 import { useState, useCallback } from "react";
-import { Mail, Send, Eye, CheckCircle, AlertTriangle, Loader2, ShoppingCart, CreditCard, Bell, Truck, ShoppingBag, ShieldCheck, RefreshCw, KeyRound } from "lucide-react";
+import { Mail, Send, Eye, CheckCircle, AlertTriangle, Loader2, ShoppingCart, CreditCard, Bell, Truck, ShoppingBag, ShieldCheck, RefreshCw, KeyRound, Store, PackageCheck, TrendingDown } from "lucide-react";
 import * as api from "../../services/api";
 import { getValidAdminToken } from "./adminAuth";
 
@@ -62,6 +63,16 @@ const EMAIL_TYPES: EmailTypeConfig[] = [
     borderColor: "border-indigo-200",
     trigger: "Automatico: ao atualizar status do pedido para 'enviado' com codigo de rastreio",
   },
+  {
+    id: "pickup_ready",
+    label: "Pronto para Retirada",
+    description: "Enviado ao cliente quando o pedido 'Retire na loja' esta separado. Inclui codigo de retirada e endereco da filial.",
+    icon: Store,
+    color: "text-emerald-700",
+    bgColor: "bg-emerald-50",
+    borderColor: "border-emerald-200",
+    trigger: "Automatico: ao atualizar status do pedido para 'pronto para retirada'",
+  },
   {
     id: "abandoned_cart",
     label: "Carrinho Abandonado",
@@ -72,6 +83,26 @@ const EMAIL_TYPES: EmailTypeConfig[] = [
     borderColor: "border-amber-200",
     trigger: "Automatico: WhatsApp Cart Recovery / Email recovery via cron",
   },
+  {
+    id: "back_in_stock",
+    label: "Aviso: Chegou no Estoque",
+    description: "Enviado ao cliente que pediu aviso de um produto esgotado quando ele volta ao estoque. Inclui link para cancelar o aviso.",
+    icon: PackageCheck,
+    color: "text-teal-700",
+    bgColor: "bg-teal-50",
+    borderColor: "border-teal-200",
+    trigger: "Automatico: atualizacao do saldo SIGE ou cron de avisos (30 min)",
+  },
+  {
+    id: "price_drop",
+    label: "Aviso: Baixou o Preco",
+    description: "Enviado ao cliente quando o preco do produto fica igual ou abaixo do valor que ele informou.",
+    icon: TrendingDown,
+    color: "text-rose-700",
+    bgColor: "bg-rose-50",
+    borderColor: "border-rose-200",
+    trigger: "Automatico: alteracao de preco (SIGE ou personalizado) ou cron de avisos",
+  },
   {
     id: "warranty_certificate",
     label: "Certificado de Garantia Estendida",
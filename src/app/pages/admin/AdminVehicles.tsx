@@ -0,0 +1,564 @@
+import { useState, useEffect, useCallback } from "react";
+import Car from "lucide-react/dist/esm/icons/car.js";
+import Plus from "lucide-react/dist/esm/icons/plus.js";
+import Trash2 from "lucide-react/dist/esm/icons/trash-2.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import Save from "lucide-react/dist/esm/icons/save.js";
+import CheckCircle2 from "lucide-react/dist/esm/icons/check-circle-2.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
+import ChevronRight from "lucide-react/dist/esm/icons/chevron-right.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import Play from "lucide-react/dist/esm/icons/play.js";
+import ClipboardList from "lucide-react/dist/esm/icons/clipboard-list.js";
+import X from "lucide-react/dist/esm/icons/x.js";
+import * as api from "../../services/api";
+import type { VehicleCatalog, VehicleMake, VehicleModel, FitmentReviewItem, FitmentMigrationResult, ProductFitment } from "../../services/api";
+import { getValidAdminToken } from "./adminAuth";
+import { AdminFitmentEditor } from "./AdminFitmentEditor";
+
+type Section = "catalog" | "migrate" | "review";
+
+function slugify(name: string): string {
+  return name.toLowerCase()
+    .normalize("NFD").replace(/[̀-ͯ]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function AdminVehicles() {
+  const [section, setSection] = useState<Section>("catalog");
+  const [catalog, setCatalog] = useState<VehicleCatalog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [toast, setToast] = useState<{ type: "success" | "error"; msg: string } | null>(null);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [newMake, setNewMake] = useState("");
+  const [newModel, setNewModel] = useState<Record<string, string>>({});
+
+  // Migration
+  const [migrating, setMigrating] = useState(false);
+  const [migration, setMigration] = useState<FitmentMigrationResult | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+
+  // Review queue
+  const [queue, setQueue] = useState<FitmentReviewItem[]>([]);
+  const [queueLoading, setQueueLoading] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, ProductFitment[]>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const showToast = useCallback((type: "success" | "error", msg: string) => {
+    setToast({ type, msg });
+    setTimeout(() => setToast(null), 4000);
+  }, []);
+
+  const loadCatalog = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.getVehicleCatalog();
+      setCatalog(res);
+      setDirty(false);
+    } catch (e: any) {
+      console.error("[AdminVehicles] Load error:", e);
+      showToast("error", "Erro ao carregar veiculos: " + e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  const loadQueue = useCallback(async () => {
+    setQueueLoading(true);
+    try {
+      const token = await getValidAdminToken();
+      if (!token) return;
+      const res = await api.getFitmentReviewQueue(token);
+      setQueue(res.items || []);
+    } catch (e: any) {
+      console.error("[AdminVehicles] Queue error:", e);
+      showToast("error", "Erro ao carregar fila: " + e.message);
+    } finally {
+      setQueueLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => { loadCatalog(); loadQueue(); }, [loadCatalog, loadQueue]);
+
+  const updateMakes = (fn: (makes: VehicleMake[]) => VehicleMake[]) => {
+    setCatalog(function (prev) {
+      return { ...(prev || { makes: [] }), makes: fn(prev ? prev.makes : []) };
+    });
+    setDirty(true);
+  };
+
+  const updateModel = (makeId: string, modelId: string, fn: (model: VehicleModel) => VehicleModel) => {
+    updateMakes(function (makes) {
+      return makes.map(function (m) {
+        if (m.id !== makeId) return m;
+        return { ...m, models: m.models.map(function (md) { return md.id === modelId ? fn(md) : md; }) };
+      });
+    });
+  };
+
+  const handleAddMake = () => {
+    var name = newMake.trim();
+    if (!name) return;
+    var id = slugify(name);
+    if (catalog && catalog.makes.some(function (m) { return m.id === id; })) {
+      showToast("error", "Montadora ja cadastrada.");
+      return;
+    }
+    updateMakes(function (makes) { return makes.concat([{ id: id, name: name, aliases: [], models: [] }]); });
+    setNewMake("");
+    setExpanded(function (prev) { return { ...prev, [id]: true }; });
+  };
+
+  const handleAddModel = (make: VehicleMake) => {
+    var name = (newModel[make.id] || "").trim();
+    if (!name) return;
+    var id = slugify(name);
+    if (make.models.some(function (m) { return m.id === id; })) {
+      showToast("error", "Modelo ja cadastrado para " + make.name + ".");
+      return;
+    }
+    updateMakes(function (makes) {
+      return makes.map(function (m) {
+        return m.id === make.id ? { ...m, models: m.models.concat([{ id: id, name: name, aliases: [], versions: [] }]) } : m;
+      });
+    });
+    setNewModel(function (prev) { return { ...prev, [make.id]: "" }; });
+  };
+
+  const handleSave = async () => {
+    if (!catalog) return;
+    setSaving(true);
+    try {
+      const token = await getValidAdminToken();
+      if (!token) return;
+      const res = await api.saveVehicleCatalog(token, catalog);
+      setCatalog(res.catalog);
+      setDirty(false);
+      showToast("success", "Catalogo de veiculos salvo.");
+    } catch (e: any) {
+      showToast("error", "Erro ao salvar: " + e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMigrate = async (dryRun: boolean) => {
+    if (!dryRun && dirty) {
+      showToast("error", "Salve o catalogo antes de executar a migracao.");
+      return;
+    }
+    setMigrating(true);
+    try {
+      const token = await getValidAdminToken();
+      if (!token) return;
+      const res = await api.migrateFitments(token, { dryRun: dryRun, overwrite: overwrite });
+      setMigration(res);
+      if (!dryRun) {
+        showToast("success", res.productsUpdated + " produtos migrados, " + res.queued + " linhas para revisao.");
+        await loadCatalog();
+        await loadQueue();
+      }
+    } catch (e: any) {
+      showToast("error", "Erro na migracao: " + e.message);
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const handleResolve = async (item: FitmentReviewItem, mode: "fitment" | "universal" | "dismiss") => {
+    setResolving(item.id);
+    try {
+      const token = await getValidAdminToken();
+      if (!token) return;
+      if (mode === "fitment") {
+        var fits = drafts[item.id] || [];
+        if (fits.length === 0) {
+          showToast("error", "Adicione ao menos uma aplicacao.");
+          return;
+        }
+        await api.resolveFitmentReview(token, item.id, { fitments: fits });
+      } else if (mode === "universal") {
+        await api.resolveFitmentReview(token, item.id, { universal: true });
+      } else {
+        await api.resolveFitmentReview(token, item.id, { dismiss: true });
+      }
+      setQueue(function (prev) { return prev.filter(function (q) { return q.id !== item.id; }); });
+    } catch (e: any) {
+      showToast("error", "Erro ao resolver: " + e.message);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  var inputCls = "border border-gray-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-red-200 focus:border-red-400";
+  var sections: { id: Section; label: string }[] = [
+    { id: "catalog", label: "Montadoras & Modelos" },
+    { id: "migrate", label: "Migracao" },
+    { id: "review", label: "Fila de Revisao" + (queue.length > 0 ? " (" + queue.length + ")" : "") },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Toast */}
+      {toast && (
+        <div className={"fixed top-4 right-4 z-50 flex items-center gap-2 px-4 py-3 rounded-lg shadow-lg text-white " + (toast.type === "success" ? "bg-emerald-600" : "bg-red-600")} style={{ fontSize: "0.82rem", fontWeight: 600 }}>
+          {toast.type === "success" ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          {toast.msg}
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Car className="w-6 h-6 text-red-500" />
+          <h2 className="text-gray-800" style={{ fontSize: "1.15rem", fontWeight: 700 }}>
+            Veiculos & Aplicacao
+          </h2>
+          <span className="text-gray-400" style={{ fontSize: "0.75rem" }}>
+            {catalog ? catalog.makes.length : 0} montadoras
+          </span>
+        </div>
+        {section === "catalog" && (
+          <button
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="flex items-center gap-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+            style={{ fontSize: "0.82rem", fontWeight: 600 }}
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Salvar Catalogo
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 border-b border-gray-200">
+        {sections.map(function (s) {
+          return (
+            <button
+              key={s.id}
+              onClick={() => setSection(s.id)}
+              className={"px-4 py-2 -mb-px border-b-2 transition-colors " + (section === s.id ? "border-red-600 text-red-600" : "border-transparent text-gray-500 hover:text-gray-700")}
+              style={{ fontSize: "0.82rem", fontWeight: 600 }}
+            >
+              {s.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {section === "catalog" && (
+        loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-red-500 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                value={newMake}
+                onChange={(e) => setNewMake(e.target.value)}
+                onKeyDown={(e) => { if (e.key === "Enter") handleAddMake(); }}
+                placeholder="Nova montadora (ex: Scania)"
+                className={inputCls + " flex-1"}
+                style={{ fontSize: "0.82rem" }}
+              />
+              <button
+                onClick={handleAddMake}
+                className="flex items-center gap-1.5 px-4 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 text-gray-700"
+                style={{ fontSize: "0.82rem", fontWeight: 600 }}
+              >
+                <Plus className="w-4 h-4" />
+                Montadora
+              </button>
+            </div>
+
+            {(catalog ? catalog.makes : []).map(function (make) {
+              var isOpen = !!expanded[make.id];
+              return (
+                <div key={make.id} className="bg-white rounded-xl border border-gray-200">
+                  <div className="flex items-center gap-3 px-4 py-3">
+                    <button
+                      onClick={() => setExpanded(function (prev) { return { ...prev, [make.id]: !prev[make.id] }; })}
+                      className="flex items-center gap-2 flex-1 text-left"
+                    >
+                      {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                      <span className="text-gray-800" style={{ fontSize: "0.88rem", fontWeight: 600 }}>{make.name}</span>
+                      <span className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+                        {make.models.length} modelos
+                        {make.aliases.length > 0 ? " · apelidos: " + make.aliases.join(", ") : ""}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => updateMakes(function (makes) { return makes.filter(function (m) { return m.id !== make.id; }); })}
+                      className="p-2 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Excluir montadora"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {isOpen && (
+                    <div className="border-t border-gray-100 px-4 py-3 space-y-3">
+                      <input
+                        value={make.aliases.join(", ")}
+                        onChange={(e) => updateMakes(function (makes) {
+                          return makes.map(function (m) {
+                            return m.id === make.id ? { ...m, aliases: e.target.value.split(",").map(function (a) { return a.trim(); }).filter(Boolean) } : m;
+                          });
+                        })}
+                        placeholder="Apelidos usados nos textos antigos (ex: vw, volks)"
+                        className={inputCls + " w-full"}
+                        style={{ fontSize: "0.78rem" }}
+                      />
+                      {make.models.map(function (model) {
+                        return (
+                          <div key={model.id} className="bg-gray-50 rounded-lg border border-gray-100 p-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-gray-700" style={{ fontSize: "0.82rem", fontWeight: 600 }}>{model.name}</span>
+                              <button
+                                onClick={() => updateMakes(function (makes) {
+                                  return makes.map(function (m) {
+                                    return m.id === make.id ? { ...m, models: m.models.filter(function (md) { return md.id !== model.id; }) } : m;
+                                  });
+                                })}
+                                className="p-1 rounded hover:bg-red-50 text-gray-400 hover:text-red-600"
+                                title="Excluir modelo"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                            {model.versions.map(function (ver, vi) {
+                              return (
+                                <div key={ver.id || vi} className="flex flex-wrap items-center gap-2" style={{ fontSize: "0.75rem" }}>
+                                  <input
+                                    type="number"
+                                    value={ver.yearFrom || ""}
+                                    onChange={(e) => updateModel(make.id, model.id, function (md) {
+                                      var vs = md.versions.slice();
+                                      vs[vi] = { ...vs[vi], yearFrom: e.target.value ? parseInt(e.target.value, 10) : null };
+                                      return { ...md, versions: vs };
+                                    })}
+                                    placeholder="Ano de"
+                                    className={inputCls + " w-24"}
+                                  />
+                                  <input
+                                    type="number"
+                                    value={ver.yearTo || ""}
+                                    onChange={(e) => updateModel(make.id, model.id, function (md) {
+                                      var vs = md.versions.slice();
+                                      vs[vi] = { ...vs[vi], yearTo: e.target.value ? parseInt(e.target.value, 10) : null };
+                                      return { ...md, versions: vs };
+                                    })}
+                                    placeholder="Ano ate"
+                                    className={inputCls + " w-24"}
+                                  />
+                                  <input
+                                    value={ver.engine || ""}
+                                    onChange={(e) => updateModel(make.id, model.id, function (md) {
+                                      var vs = md.versions.slice();
+                                      vs[vi] = { ...vs[vi], engine: e.target.value || null };
+                                      return { ...md, versions: vs };
+                                    })}
+                                    placeholder="Motor"
+                                    className={inputCls + " w-40"}
+                                  />
+                                  <button
+                                    onClick={() => updateModel(make.id, model.id, function (md) {
+                                      return { ...md, versions: md.versions.filter(function (_v, i) { return i !== vi; }) };
+                                    })}
+                                    className="p-1 rounded hover:bg-red-50 text-gray-400 hover:text-red-600"
+                                    title="Remover versao"
+                                  >
+                                    <X className="w-3.5 h-3.5" />
+                                  </button>
+                                </div>
+                              );
+                            })}
+                            <button
+                              onClick={() => updateModel(make.id, model.id, function (md) {
+                                return { ...md, versions: md.versions.concat([{ id: "", yearFrom: null, yearTo: null, engine: null }]) };
+                              })}
+                              className="inline-flex items-center gap-1 text-gray-500 hover:text-red-600"
+                              style={{ fontSize: "0.72rem", fontWeight: 600 }}
+                            >
+                              <Plus className="w-3 h-3" />
+                              Versao (ano/motor)
+                            </button>
+                          </div>
+                        );
+                      })}
+                      <div className="flex gap-2">
+                        <input
+                          value={newModel[make.id] || ""}
+                          onChange={(e) => setNewModel(function (prev) { return { ...prev, [make.id]: e.target.value }; })}
+                          onKeyDown={(e) => { if (e.key === "Enter") handleAddModel(make); }}
+                          placeholder={"Novo modelo " + make.name}
+                          className={inputCls + " flex-1"}
+                          style={{ fontSize: "0.78rem" }}
+                        />
+                        <button
+                          onClick={() => handleAddModel(make)}
+                          className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 text-gray-700"
+                          style={{ fontSize: "0.78rem", fontWeight: 600 }}
+                        >
+                          <Plus className="w-3.5 h-3.5" />
+                          Modelo
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+
+      {section === "migrate" && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+          <p className="text-gray-600" style={{ fontSize: "0.82rem" }}>
+            Converte o campo antigo de compatibilidade (texto livre) em aplicacoes estruturadas.
+            Linhas que o sistema nao consegue interpretar (ex: "VW Gol G5/G6/G7" sem ano) vao para a fila de revisao.
+            Modelos desconhecidos sao criados automaticamente no catalogo.
+          </p>
+          <label className="flex items-center gap-2 text-gray-600" style={{ fontSize: "0.8rem" }}>
+            <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+            Reprocessar produtos que ja possuem aplicacoes estruturadas
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleMigrate(true)}
+              disabled={migrating}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+              style={{ fontSize: "0.82rem", fontWeight: 600 }}
+            >
+              {migrating ? <Loader2 className="w-4 h-4 animate-spin" /> : <ClipboardList className="w-4 h-4" />}
+              Simular
+            </button>
+            <button
+              onClick={() => handleMigrate(false)}
+              disabled={migrating}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+              style={{ fontSize: "0.82rem", fontWeight: 600 }}
+            >
+              {migrating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Executar Migracao
+            </button>
+          </div>
+
+          {migration && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {[
+                  { label: "Produtos lidos", value: migration.scanned },
+                  { label: "Produtos atualizados", value: migration.productsUpdated },
+                  { label: "Aplicacoes", value: migration.fitmentsCreated },
+                  { label: "Modelos novos", value: migration.modelsCreated },
+                  { label: "Para revisao", value: migration.queued },
+                ].map(function (s) {
+                  return (
+                    <div key={s.label} className="bg-gray-50 rounded-lg p-3 text-center">
+                      <p className="text-gray-800" style={{ fontSize: "1.1rem", fontWeight: 700 }}>{s.value}</p>
+                      <p className="text-gray-400" style={{ fontSize: "0.7rem" }}>{s.label}</p>
+                    </div>
+                  );
+                })}
+              </div>
+              {migration.dryRun && (
+                <p className="text-amber-600" style={{ fontSize: "0.75rem" }}>Simulacao — nada foi gravado.</p>
+              )}
+              {migration.sample.length > 0 && (
+                <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+                  {migration.sample.map(function (row) {
+                    return (
+                      <div key={row.sku} className="px-3 py-2" style={{ fontSize: "0.75rem" }}>
+                        <span className="font-mono text-gray-500">{row.sku}</span>
+                        <span className="text-gray-400"> · {row.legacy.join(" | ")}</span>
+                        <div className="text-gray-700 mt-0.5">
+                          {row.universal ? "Universal" : row.fitments.map(function (f) { return api.formatFitmentLabel(f, catalog); }).join(" · ")}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {section === "review" && (
+        <div className="space-y-3">
+          <div className="flex justify-end">
+            <button
+              onClick={loadQueue}
+              className="flex items-center gap-1.5 text-gray-500 hover:text-gray-700"
+              style={{ fontSize: "0.78rem", fontWeight: 600 }}
+            >
+              <RefreshCw className={"w-3.5 h-3.5" + (queueLoading ? " animate-spin" : "")} />
+              Atualizar
+            </button>
+          </div>
+          {queue.length === 0 && !queueLoading ? (
+            <div className="text-center py-12 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+              <CheckCircle2 className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-500" style={{ fontSize: "0.9rem", fontWeight: 600 }}>Nenhuma linha pendente</p>
+            </div>
+          ) : (
+            queue.map(function (item) {
+              return (
+                <div key={item.id} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-gray-800" style={{ fontSize: "0.85rem", fontWeight: 600 }}>"{item.raw}"</p>
+                      <p className="text-gray-400" style={{ fontSize: "0.72rem" }}>
+                        SKU <span className="font-mono">{item.sku}</span> · {item.reason}
+                      </p>
+                    </div>
+                    {resolving === item.id && <Loader2 className="w-4 h-4 text-red-500 animate-spin" />}
+                  </div>
+                  <AdminFitmentEditor
+                    catalog={catalog}
+                    value={drafts[item.id] || []}
+                    onChange={(next) => setDrafts(function (prev) { return { ...prev, [item.id]: next }; })}
+                    compact
+                  />
+                  <div className="flex gap-2" style={{ fontSize: "0.78rem" }}>
+                    <button
+                      onClick={() => handleResolve(item, "fitment")}
+                      disabled={resolving === item.id}
+                      className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                      style={{ fontWeight: 600 }}
+                    >
+                      Salvar aplicacoes
+                    </button>
+                    <button
+                      onClick={() => handleResolve(item, "universal")}
+                      disabled={resolving === item.id}
+                      className="px-3 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+                      style={{ fontWeight: 600 }}
+                    >
+                      Marcar universal
+                    </button>
+                    <button
+                      onClick={() => handleResolve(item, "dismiss")}
+                      disabled={resolving === item.id}
+                      className="px-3 py-1.5 rounded-lg text-gray-500 hover:text-red-600 disabled:opacity-50"
+                      style={{ fontWeight: 600 }}
+                    >
+                      Descartar
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
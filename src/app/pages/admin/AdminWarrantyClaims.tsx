@@ -0,0 +1,488 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import ShieldCheck from "lucide-react/dist/esm/icons/shield-check.js";
+import Loader2 from "lucide-react/dist/esm/icons/loader-2.js";
+import RefreshCw from "lucide-react/dist/esm/icons/refresh-cw.js";
+import AlertCircle from "lucide-react/dist/esm/icons/alert-circle.js";
+import Check from "lucide-react/dist/esm/icons/check.js";
+import Ban from "lucide-react/dist/esm/icons/ban.js";
+import Truck from "lucide-react/dist/esm/icons/truck.js";
+import CheckCircle2 from "lucide-react/dist/esm/icons/check-circle-2.js";
+import Search from "lucide-react/dist/esm/icons/search.js";
+import ChevronDown from "lucide-react/dist/esm/icons/chevron-down.js";
+import ChevronUp from "lucide-react/dist/esm/icons/chevron-up.js";
+import User from "lucide-react/dist/esm/icons/user.js";
+import * as api from "../../services/api";
+import type { AdminWarrantyClaim, SoldWarranty, SoldWarrantyStatus } from "../../services/api";
+import { WARRANTY_STATUS_STYLES, WARRANTY_CLAIM_STATUS_STYLES, isWarrantyClaimOpenStatus } from "../../data/warrantyClaims";
+import { getValidAdminToken } from "./adminAuth";
+import { toast } from "sonner";
+
+function formatPrice(val: number) {
+  return val.toLocaleString("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2 });
+}
+
+function formatDate(iso: string) {
+  if (!iso) return "-";
+  var d = new Date(iso);
+  return d.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }) +
+    " " + d.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatDay(iso: string) {
+  if (!iso) return "-";
+  return new Date(iso).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+var CLAIM_FILTERS = [
+  { value: "open", label: "Em andamento" },
+  { value: "submitted", label: "Em análise" },
+  { value: "approved", label: "Aprovados" },
+  { value: "replacement_sent", label: "Reposição enviada" },
+  { value: "all", label: "Todos" },
+];
+
+var REGISTRY_FILTERS: Array<{ value: SoldWarrantyStatus | "all"; label: string }> = [
+  { value: "active", label: "Vigentes" },
+  { value: "expired", label: "Vencidas" },
+  { value: "lapsed", label: "Canceladas" },
+  { value: "all", label: "Todas" },
+];
+
+var inputCls = "w-full border border-gray-200 rounded-lg px-3 py-1.5 text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none";
+
+/* ═══════════════════ Claim row ═══════════════════ */
+function ClaimRow({ claim, onUpdated }: { claim: AdminWarrantyClaim; onUpdated: (claim: AdminWarrantyClaim) => void }) {
+  var [expanded, setExpanded] = useState(claim.status === "submitted");
+  var [note, setNote] = useState("");
+  var [acting, setActing] = useState(false);
+  var [showReplacement, setShowReplacement] = useState(false);
+  var [replacement, setReplacement] = useState({ sku: claim.sku, trackingCode: "", carrierName: "" });
+  var st = WARRANTY_CLAIM_STATUS_STYLES[claim.status];
+  var StIcon = st.icon;
+
+  var run = async function (label: string, fn: (token: string) => Promise<{ claim: AdminWarrantyClaim }>) {
+    setActing(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var res = await fn(token);
+      toast.success(label);
+      setNote("");
+      setShowReplacement(false);
+      onUpdated(res.claim);
+    } catch (err: any) {
+      toast.error(err.message || "Erro ao atualizar acionamento.");
+    } finally {
+      setActing(false);
+    }
+  };
+
+  var handleDecision = function (action: "approve" | "deny") {
+    if (action === "deny" && !note.trim()) { toast.error("Informe o motivo da recusa (visível ao cliente)."); return; }
+    run(action === "approve" ? "Acionamento aprovado" : "Acionamento recusado", function (token) {
+      return api.adminWarrantyClaimDecision(token, claim.id, { action: action, note: note.trim() || undefined });
+    });
+  };
+
+  var handleReplacement = function () {
+    run("Envio de reposição registrado", function (token) {
+      return api.adminWarrantyClaimReplacement(token, claim.id, {
+        sku: replacement.sku.trim() || undefined,
+        trackingCode: replacement.trackingCode.trim() || undefined,
+        carrierName: replacement.carrierName.trim() || undefined,
+        note: note.trim() || undefined,
+      });
+    });
+  };
+
+  var handleResolve = function () {
+    if (!confirm("Encerrar este acionamento como concluído?")) return;
+    run("Acionamento concluído", function (token) {
+      return api.adminResolveWarrantyClaim(token, claim.id, { note: note.trim() || undefined });
+    });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <button
+        onClick={function () { setExpanded(!expanded); }}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+      >
+        <span className={"inline-flex items-center gap-1 px-2 py-0.5 rounded-full border " + st.bg + " " + st.text + " " + st.border} style={{ fontSize: "0.7rem", fontWeight: 600 }}>
+          <StIcon className="w-3 h-3" /> {st.label}
+        </span>
+        <span className="text-gray-800 font-mono" style={{ fontSize: "0.82rem", fontWeight: 600 }}>{claim.id}</span>
+        <span className="text-gray-400 hidden sm:inline" style={{ fontSize: "0.75rem" }}>{"Pedido " + claim.orderId}</span>
+        <span className="text-gray-600 truncate flex-1" style={{ fontSize: "0.78rem" }}>{claim.userName || claim.userEmail}</span>
+        <span className="text-gray-500 hidden md:inline truncate max-w-[220px]" style={{ fontSize: "0.75rem" }}>{claim.titulo}</span>
+        <span className="text-gray-400" style={{ fontSize: "0.72rem" }}>{formatDate(claim.createdAt)}</span>
+        {expanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-100 px-4 py-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <p className="flex items-center gap-1.5 text-gray-700" style={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                <User className="w-3.5 h-3.5" /> {claim.userName || "-"}
+              </p>
+              <p className="text-gray-500" style={{ fontSize: "0.75rem" }}>{claim.userEmail}</p>
+              <p className="text-gray-600 mt-2 whitespace-pre-wrap bg-gray-50 rounded-lg px-3 py-2" style={{ fontSize: "0.78rem" }}>{claim.description}</p>
+            </div>
+            <div className="border border-gray-100 rounded-lg px-3 py-2 space-y-0.5" style={{ fontSize: "0.76rem" }}>
+              <p className="text-gray-700 truncate" style={{ fontWeight: 600 }}>{claim.titulo}</p>
+              <p className="text-gray-400 font-mono" style={{ fontSize: "0.68rem" }}>{claim.sku}</p>
+              <p className="text-gray-600">{claim.planName + " · certificado "}<span className="font-mono">{claim.certificateId}</span></p>
+              <p className="text-gray-600">{"Válida até " + formatDay(claim.expiresAt)}</p>
+            </div>
+          </div>
+
+          {claim.replacement && (
+            <div className="flex items-center gap-2 flex-wrap text-blue-800 bg-blue-50 border border-blue-100 rounded-lg px-3 py-2" style={{ fontSize: "0.76rem" }}>
+              <Truck className="w-3.5 h-3.5" />
+              <span style={{ fontWeight: 600 }}>{"Reposição " + claim.replacement.sku}</span>
+              {claim.replacement.trackingCode && <span className="font-mono">{claim.replacement.trackingCode}</span>}
+              {claim.replacement.carrierName && <span>{"(" + claim.replacement.carrierName + ")"}</span>}
+              <span className="text-blue-500">{"enviada em " + formatDate(claim.replacement.sentAt)}</span>
+            </div>
+          )}
+
+          {/* History */}
+          <div className="space-y-0.5">
+            {claim.history.map(function (h, idx) {
+              return (
+                <p key={idx} className="text-gray-400" style={{ fontSize: "0.7rem" }}>
+                  {formatDate(h.at) + " — " + WARRANTY_CLAIM_STATUS_STYLES[h.to].label + " (" + (h.by.name || h.by.type) + ")" + (h.note ? ": " + h.note : "")}
+                </p>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          {isWarrantyClaimOpenStatus(claim.status) && (
+            <div className="border-t border-gray-100 pt-3 space-y-2">
+              <input
+                value={note}
+                onChange={function (e) { setNote(e.target.value); }}
+                maxLength={500}
+                placeholder={claim.status === "submitted" ? "Observação para o cliente (obrigatória para recusar)" : "Observação (opcional)"}
+                className={inputCls}
+                style={{ fontSize: "0.8rem" }}
+              />
+
+              {claim.status === "submitted" && (
+                <div className="flex gap-2">
+                  <button onClick={function () { handleDecision("approve"); }} disabled={acting} className="flex items-center gap-1.5 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <Check className="w-3.5 h-3.5" /> Aprovar
+                  </button>
+                  <button onClick={function () { handleDecision("deny"); }} disabled={acting} className="flex items-center gap-1.5 bg-red-50 hover:bg-red-100 text-red-600 border border-red-200 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <Ban className="w-3.5 h-3.5" /> Recusar
+                  </button>
+                </div>
+              )}
+
+              {claim.status === "approved" && showReplacement && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <input value={replacement.sku} onChange={function (e) { var v = e.target.value; setReplacement(function (p) { return { ...p, sku: v }; }); }} maxLength={100} placeholder="SKU enviado" className={inputCls} style={{ fontSize: "0.8rem" }} />
+                  <input value={replacement.trackingCode} onChange={function (e) { var v = e.target.value; setReplacement(function (p) { return { ...p, trackingCode: v }; }); }} maxLength={60} placeholder="Código de rastreio" className={inputCls} style={{ fontSize: "0.8rem" }} />
+                  <input value={replacement.carrierName} onChange={function (e) { var v = e.target.value; setReplacement(function (p) { return { ...p, carrierName: v }; }); }} maxLength={100} placeholder="Transportadora" className={inputCls} style={{ fontSize: "0.8rem" }} />
+                </div>
+              )}
+
+              {claim.status === "approved" && (
+                <div className="flex gap-2 flex-wrap">
+                  <button
+                    onClick={function () { if (showReplacement) handleReplacement(); else setShowReplacement(true); }}
+                    disabled={acting}
+                    className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                    style={{ fontSize: "0.78rem", fontWeight: 600 }}
+                  >
+                    <Truck className="w-3.5 h-3.5" /> {showReplacement ? "Confirmar envio" : "Registrar envio de reposição"}
+                  </button>
+                  <button onClick={handleResolve} disabled={acting} className="flex items-center gap-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                    <CheckCircle2 className="w-3.5 h-3.5" /> Concluir sem envio (reparo/crédito)
+                  </button>
+                </div>
+              )}
+
+              {claim.status === "replacement_sent" && (
+                <button onClick={handleResolve} disabled={acting} className="flex items-center gap-1.5 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50" style={{ fontSize: "0.78rem", fontWeight: 600 }}>
+                  <CheckCircle2 className="w-3.5 h-3.5" /> Concluir (reposição entregue)
+                </button>
+              )}
+
+              {acting && <Loader2 className="w-4 h-4 text-red-600 animate-spin" />}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Sold warranties registry ═══════════════════ */
+function WarrantyRegistry() {
+  var [statusFilter, setStatusFilter] = useState<SoldWarrantyStatus | "all">("active");
+  var [warranties, setWarranties] = useState<SoldWarranty[]>([]);
+  var [counts, setCounts] = useState<Record<SoldWarrantyStatus, number> | null>(null);
+  var [loading, setLoading] = useState(true);
+  var [searchTerm, setSearchTerm] = useState("");
+
+  var load = useCallback(async function () {
+    setLoading(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.adminGetWarrantyRegistry(token, statusFilter);
+      setWarranties(result.warranties || []);
+      setCounts(result.counts || null);
+    } catch (err: any) {
+      console.error("[AdminWarrantyClaims] Registry load error:", err);
+      toast.error(err.message || "Erro ao carregar garantias vendidas.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(function () {
+    load();
+  }, [load]);
+
+  var filtered = useMemo(function () {
+    if (!searchTerm) return warranties;
+    var term = searchTerm.toLowerCase();
+    return warranties.filter(function (w) {
+      return w.certificateId.toLowerCase().indexOf(term) >= 0 ||
+        w.orderId.toLowerCase().indexOf(term) >= 0 ||
+        w.sku.toLowerCase().indexOf(term) >= 0 ||
+        w.titulo.toLowerCase().indexOf(term) >= 0;
+    });
+  }, [warranties, searchTerm]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+          {REGISTRY_FILTERS.map(function (f) {
+            return (
+              <button
+                key={f.value}
+                onClick={function () { setStatusFilter(f.value); }}
+                className={"px-3 py-1.5 rounded-md transition-colors " +
+                  (statusFilter === f.value ? "bg-white text-gray-800 shadow-sm" : "text-gray-500 hover:text-gray-700")}
+                style={{ fontSize: "0.78rem", fontWeight: 500 }}
+              >
+                {f.label + (counts && f.value !== "all" ? " (" + counts[f.value] + ")" : "")}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex-1 min-w-[200px] relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={function (e) { setSearchTerm(e.target.value); }}
+            placeholder="Buscar por certificado, pedido, SKU, produto..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+            style={{ fontSize: "0.82rem" }}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+          Nenhuma garantia encontrada.
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-x-auto">
+          <table className="w-full" style={{ fontSize: "0.78rem" }}>
+            <thead className="bg-gray-50 text-gray-500 text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">Certificado</th>
+                <th className="px-3 py-2 font-medium">Produto</th>
+                <th className="px-3 py-2 font-medium">Plano</th>
+                <th className="px-3 py-2 font-medium">Vigência</th>
+                <th className="px-3 py-2 font-medium text-right">Valor</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filtered.map(function (w) {
+                var st = WARRANTY_STATUS_STYLES[w.status];
+                return (
+                  <tr key={w.certificateId} className="text-gray-700">
+                    <td className="px-3 py-2 font-mono whitespace-nowrap">{w.certificateId}</td>
+                    <td className="px-3 py-2">
+                      <p className="truncate max-w-[260px]">{w.titulo}</p>
+                      <p className="text-gray-400 font-mono" style={{ fontSize: "0.68rem" }}>{w.sku + (w.units > 1 ? " · " + w.coveredUnits + "/" + w.units + " un." : "")}</p>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">{w.planName}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{formatDay(w.startsAt) + " → " + formatDay(w.expiresAt)}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">{formatPrice(w.price)}</td>
+                    <td className="px-3 py-2">
+                      <span className={"inline-flex items-center px-2 py-0.5 rounded-full border whitespace-nowrap " + st.bg + " " + st.text + " " + st.border} style={{ fontSize: "0.7rem", fontWeight: 600 }} title={w.lapsedReason || undefined}>
+                        {st.label}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════ Main ═══════════════════ */
+export function AdminWarrantyClaims() {
+  var [view, setView] = useState<"claims" | "registry">("claims");
+  var [claims, setClaims] = useState<AdminWarrantyClaim[]>([]);
+  var [loading, setLoading] = useState(true);
+  var [error, setError] = useState<string | null>(null);
+  var [statusFilter, setStatusFilter] = useState("open");
+  var [searchTerm, setSearchTerm] = useState("");
+
+  var loadClaims = useCallback(async function () {
+    setLoading(true);
+    setError(null);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var result = await api.adminGetWarrantyClaims(token, statusFilter);
+      setClaims(result.claims || []);
+    } catch (err: any) {
+      console.error("[AdminWarrantyClaims] Load error:", err);
+      setError(err.message || "Erro ao carregar acionamentos de garantia.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(function () {
+    if (view === "claims") loadClaims();
+  }, [loadClaims, view]);
+
+  var handleUpdated = function (updated: AdminWarrantyClaim) {
+    setClaims(function (prev) { return prev.map(function (cl) { return cl.id === updated.id ? updated : cl; }); });
+  };
+
+  var filtered = useMemo(function () {
+    if (!searchTerm) return claims;
+    var term = searchTerm.toLowerCase();
+    return claims.filter(function (cl) {
+      return cl.id.toLowerCase().indexOf(term) >= 0 ||
+        cl.orderId.toLowerCase().indexOf(term) >= 0 ||
+        cl.certificateId.toLowerCase().indexOf(term) >= 0 ||
+        cl.sku.toLowerCase().indexOf(term) >= 0 ||
+        (cl.userName || "").toLowerCase().indexOf(term) >= 0 ||
+        (cl.userEmail || "").toLowerCase().indexOf(term) >= 0;
+    });
+  }, [claims, searchTerm]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-gray-800" style={{ fontSize: "1.3rem", fontWeight: 700 }}>
+            <ShieldCheck className="w-5 h-5 text-blue-600" /> Acionamentos de Garantia
+          </h2>
+          <p className="text-gray-400 mt-0.5" style={{ fontSize: "0.8rem" }}>
+            Analise os acionamentos das garantias estendidas vendidas e acompanhe as reposições. Garantias de pedidos reembolsados são canceladas automaticamente.
+          </p>
+        </div>
+        {view === "claims" && (
+          <button
+            onClick={loadClaims}
+            disabled={loading}
+            className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-lg transition-colors"
+            style={{ fontSize: "0.8rem", fontWeight: 500 }}
+          >
+            <RefreshCw className={"w-4 h-4" + (loading ? " animate-spin" : "")} />
+            Atualizar
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 border-b border-gray-200">
+        {[{ value: "claims", label: "Acionamentos" }, { value: "registry", label: "Garantias vendidas" }].map(function (v) {
+          return (
+            <button
+              key={v.value}
+              onClick={function () { setView(v.value as "claims" | "registry"); }}
+              className={"px-4 py-2 -mb-px border-b-2 transition-colors " +
+                (view === v.value ? "border-red-600 text-red-600" : "border-transparent text-gray-500 hover:text-gray-700")}
+              style={{ fontSize: "0.82rem", fontWeight: 600 }}
+            >
+              {v.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {view === "registry" ? (
+        <WarrantyRegistry />
+      ) : (
+        <>
+          <div className="flex items-center gap-3 flex-wrap">
+            <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+              {CLAIM_FILTERS.map(function (f) {
+                return (
+                  <button
+                    key={f.value}
+                    onClick={function () { setStatusFilter(f.value); }}
+                    className={"px-3 py-1.5 rounded-md transition-colors " +
+                      (statusFilter === f.value ? "bg-white text-gray-800 shadow-sm" : "text-gray-500 hover:text-gray-700")}
+                    style={{ fontSize: "0.78rem", fontWeight: 500 }}
+                  >
+                    {f.label}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex-1 min-w-[200px] relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={function (e) { setSearchTerm(e.target.value); }}
+                placeholder="Buscar por acionamento, pedido, certificado, cliente, SKU..."
+                className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-gray-700 focus:border-red-300 focus:ring-1 focus:ring-red-200 outline-none"
+                style={{ fontSize: "0.82rem" }}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg" style={{ fontSize: "0.82rem" }}>
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-6 h-6 text-red-600 animate-spin" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-16 text-gray-400" style={{ fontSize: "0.85rem" }}>
+              Nenhum acionamento encontrado.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filtered.map(function (cl) {
+                return <ClaimRow key={cl.id} claim={cl} onUpdated={handleUpdated} />;
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
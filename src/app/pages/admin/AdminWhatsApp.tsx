@@ -19,8 +19,9 @@ import XCircle from "lucide-react/dist/esm/icons/x-circle.js";
 import Play from "lucide-react/dist/esm/icons/play.js";
 import TestTube from "lucide-react/dist/esm/icons/test-tube.js";
 import Phone from "lucide-react/dist/esm/icons/phone.js";
+import Megaphone from "lucide-react/dist/esm/icons/megaphone.js";
 import * as api from "../../services/api";
-import type { WhatsAppConfig, WhatsAppTemplate } from "../../services/api";
+import type { WhatsAppConfig, WhatsAppTemplate, WhatsAppBroadcast, CustomerSegment } from "../../services/api";
 import { getValidAdminToken } from "./adminAuth";
 
 var DEFAULT_TPL: WhatsAppTemplate = { enabled: true, delayMinutes: 60, message: "" };
@@ -39,7 +40,7 @@ var DEFAULT_CONFIG: WhatsAppConfig = {
   },
 };
 
-type SubTab = "config" | "templates" | "carts";
+type SubTab = "config" | "templates" | "carts" | "broadcasts";
 
 function fmtDate(ts: number | null) {
   if (!ts) return "-";
@@ -47,6 +48,165 @@ function fmtDate(ts: number | null) {
   catch { return "-"; }
 }
 
+var BROADCAST_STATUS: Record<string, { label: string; cls: string }> = {
+  sending: { label: "Enviando", cls: "bg-blue-50 text-blue-700 border-blue-200" },
+  sent: { label: "Concluido", cls: "bg-green-50 text-green-700 border-green-200" },
+  cancelled: { label: "Cancelado", cls: "bg-gray-100 text-gray-500 border-gray-200" },
+};
+
+/** Disparo para um segmento de clientes (aba Segmentos); o envio segue em lotes pelo servidor */
+function BroadcastsPanel({ enabled }: { enabled: boolean }) {
+  var [segments, setSegments] = useState<CustomerSegment[]>([]);
+  var [broadcasts, setBroadcasts] = useState<WhatsAppBroadcast[]>([]);
+  var [segmentId, setSegmentId] = useState("");
+  var [message, setMessage] = useState("");
+  var [loading, setLoading] = useState(true);
+  var [creating, setCreating] = useState(false);
+  var [busy, setBusy] = useState<string | null>(null);
+  var [error, setError] = useState("");
+  var [success, setSuccess] = useState("");
+
+  var load = useCallback(async function (quiet?: boolean) {
+    if (!quiet) setLoading(true);
+    try {
+      var token = await getValidAdminToken();
+      if (!token) return;
+      var [segRes, bRes] = await Promise.all([
+        api.getCustomerSegments(token),
+        api.getWhatsAppBroadcasts(token),
+      ]);
+      setSegments(segRes.segments || []);
+      setBroadcasts(bRes.broadcasts || []);
+    } catch (e: any) {
+      if (!quiet) setError(e.message || "Erro ao carregar disparos");
+    } finally {
+      if (!quiet) setLoading(false);
+    }
+  }, []);
+
+  useEffect(function () { load(); }, [load]);
+
+  var hasActive = broadcasts.some(function (b) { return b.status === "sending"; });
+  useEffect(function () {
+    if (!hasActive) return;
+    var timer = setInterval(function () { load(true); }, 10000);
+    return function () { clearInterval(timer); };
+  }, [hasActive, load]);
+
+  var handleCreate = async function () {
+    var seg = segments.find(function (s) { return s.id === segmentId; });
+    if (!seg) { setError("Escolha o segmento"); return; }
+    if (!message.trim()) { setError("Escreva a mensagem"); return; }
+    if (!confirm("Enviar esta mensagem para os clientes do segmento \"" + seg.name + "\" que aceitaram ofertas por WhatsApp?")) return;
+    setCreating(true); setError(""); setSuccess("");
+    try {
+      var token = await getValidAdminToken();
+      if (!token) throw new Error("Token invalido");
+      var res = await api.createWhatsAppBroadcast(token, { segmentId: segmentId, message: message });
+      setSuccess("Disparo criado para " + res.broadcast.totals.total + " telefone(s). O envio segue em lotes de 20 por minuto.");
+      setTimeout(function () { setSuccess(""); }, 6000);
+      setMessage("");
+      load(true);
+    } catch (e: any) { setError(e.message || "Erro ao criar disparo"); }
+    finally { setCreating(false); }
+  };
+
+  var handleCancel = async function (b: WhatsAppBroadcast) {
+    if (!confirm("Cancelar as " + b.totals.pending + " mensagem(ns) que ainda não saíram?")) return;
+    setBusy(b.id); setError("");
+    try {
+      var token = await getValidAdminToken();
+      if (!token) throw new Error("Token invalido");
+      await api.cancelWhatsAppBroadcast(token, b.id);
+      load(true);
+    } catch (e: any) { setError(e.message || "Erro ao cancelar"); }
+    finally { setBusy(null); }
+  };
+
+  if (loading) return <div className="flex items-center justify-center py-12"><Loader2 className="w-6 h-6 text-green-600 animate-spin" /></div>;
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 flex items-start gap-2"><AlertTriangle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" /><p className="text-red-700" style={{ fontSize: "0.82rem" }}>{error}</p></div>}
+      {success && <div className="bg-green-50 border border-green-200 rounded-lg px-4 py-3 flex items-start gap-2"><CheckCircle2 className="w-4 h-4 text-green-500 mt-0.5 shrink-0" /><p className="text-green-700" style={{ fontSize: "0.82rem" }}>{success}</p></div>}
+
+      <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+        <div>
+          <h3 className="text-gray-800" style={{ fontSize: "1rem", fontWeight: 700 }}>Novo disparo</h3>
+          <p className="text-gray-500 mt-1" style={{ fontSize: "0.78rem" }}>
+            Envia a mensagem para os clientes do segmento que aceitaram receber ofertas por WhatsApp no cadastro (visitantes de carrinho abandonado não entram). Cada mensagem termina com um link de descadastro. Crie e ajuste segmentos na aba Segmentos do painel.
+          </p>
+        </div>
+        {!enabled && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 flex items-start gap-2">
+            <Info className="w-4 h-4 text-amber-600 mt-0.5 shrink-0" />
+            <p className="text-amber-700" style={{ fontSize: "0.8rem" }}>Ative o WhatsApp na aba Configuracao para fazer disparos.</p>
+          </div>
+        )}
+        <div>
+          <label className="block text-gray-600 mb-1.5" style={{ fontSize: "0.82rem", fontWeight: 600 }}>Segmento</label>
+          <select value={segmentId} onChange={function (e) { setSegmentId(e.target.value); }} className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-800" style={{ fontSize: "0.85rem" }}>
+            <option value="">Escolha…</option>
+            {segments.map(function (s) {
+              return <option key={s.id} value={s.id}>{s.name + (s.lastCount !== null ? " (" + s.lastCount + " clientes)" : "")}</option>;
+            })}
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1.5" style={{ fontSize: "0.82rem", fontWeight: 600 }}>Mensagem</label>
+          <textarea value={message} maxLength={1000} rows={4} onChange={function (e) { setMessage(e.target.value); }} placeholder="Oi {{nome}}! Temos novidades para o seu veiculo..." className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-800 resize-y" style={{ fontSize: "0.85rem" }} />
+          <p className="text-gray-400 mt-1" style={{ fontSize: "0.72rem" }}>{"{{nome}} = primeiro nome do cliente · o link de descadastro é incluído automaticamente · " + message.length + "/1000"}</p>
+        </div>
+        <div className="flex justify-end">
+          <button onClick={handleCreate} disabled={creating || !enabled || !segmentId || !message.trim()} className="px-5 py-2.5 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white rounded-lg flex items-center gap-2 transition-colors cursor-pointer" style={{ fontSize: "0.85rem", fontWeight: 600 }}>
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            Disparar
+          </button>
+        </div>
+      </div>
+
+      {broadcasts.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+          <Megaphone className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500" style={{ fontSize: "0.9rem", fontWeight: 500 }}>Nenhum disparo feito</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+          {broadcasts.map(function (b) {
+            var st = BROADCAST_STATUS[b.status] || BROADCAST_STATUS.sending;
+            return (
+              <div key={b.id} className="px-4 py-3 space-y-1.5">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={"px-2 py-0.5 rounded-full border " + st.cls} style={{ fontSize: "0.7rem", fontWeight: 600 }}>{st.label}</span>
+                  <span className="text-gray-800" style={{ fontSize: "0.85rem", fontWeight: 600 }}>{b.segmentName}</span>
+                  <span className="text-gray-400" style={{ fontSize: "0.75rem" }}>{fmtDate(b.createdAt) + (b.createdBy ? " · " + b.createdBy : "")}</span>
+                  {b.status === "sending" && (
+                    <button onClick={function () { handleCancel(b); }} disabled={busy === b.id} className="ml-auto px-2.5 py-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 disabled:opacity-50 transition-colors cursor-pointer" style={{ fontSize: "0.72rem", fontWeight: 600 }}>
+                      {busy === b.id ? "Cancelando..." : "Cancelar"}
+                    </button>
+                  )}
+                </div>
+                <p className="text-gray-600 whitespace-pre-line" style={{ fontSize: "0.78rem" }}>{b.message}</p>
+                <p className="text-gray-500" style={{ fontSize: "0.75rem" }}>
+                  <span className="text-green-700" style={{ fontWeight: 700 }}>{b.totals.sent}</span>{" enviadas de " + b.totals.total}
+                  {b.totals.pending > 0 && " · " + b.totals.pending + " na fila"}
+                  {b.totals.failed > 0 && <span className="text-red-600">{" · " + b.totals.failed + " falha(s)"}</span>}
+                  {b.totals.cancelled > 0 && " · " + b.totals.cancelled + " cancelada(s)"}
+                </p>
+                {b.errors.length > 0 && (
+                  <p className="text-red-500 truncate" style={{ fontSize: "0.7rem" }} title={b.errors.map(function (e) { return e.phone + ": " + e.error; }).join("\n")}>
+                    {b.errors[0].phone + ": " + b.errors[0].error}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function AdminWhatsApp() {
   var [config, setConfig] = useState<WhatsAppConfig>(DEFAULT_CONFIG);
   var [carts, setCarts] = useState<any[]>([]);
@@ -166,6 +326,7 @@ export function AdminWhatsApp() {
           { id: "config" as SubTab, label: "Configuracao", icon: MessageCircle },
           { id: "templates" as SubTab, label: "Templates", icon: Clock },
           { id: "carts" as SubTab, label: "Carrinhos", icon: ShoppingCart },
+          { id: "broadcasts" as SubTab, label: "Disparos", icon: Megaphone },
         ]).map(function (t) {
           return (
             <button key={t.id} onClick={function () { setActiveTab(t.id); }} className={"px-4 py-2 rounded-lg transition-colors cursor-pointer flex items-center gap-2 " + (activeTab === t.id ? "bg-green-600 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200")} style={{ fontSize: "0.85rem", fontWeight: 600 }}>
@@ -412,6 +573,9 @@ export function AdminWhatsApp() {
           )}
         </div>
       )}
+
+      {/* BROADCASTS TAB */}
+      {activeTab === "broadcasts" && <BroadcastsPanel enabled={config.enabled} />}
     </div>
   );
 }
@@ -0,0 +1,123 @@
+/**
+ * SUPER PROMO CALENDAR — Calendario mensal das campanhas Super Promo (passadas,
+ * em andamento e agendadas). Cada dia lista as campanhas cuja janela cobre o dia,
+ * em ordem de prioridade; clicar numa campanha abre o editor.
+ */
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, CalendarDays } from "lucide-react";
+import type { AdminPromoCampaign, PromoCampaignStatus } from "../../services/api";
+
+var WEEKDAYS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sab"];
+var MONTHS = ["Janeiro", "Fevereiro", "Marco", "Abril", "Maio", "Junho", "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro"];
+var MAX_PER_DAY = 3;
+
+export var PROMO_STATUS_STYLES: Record<PromoCampaignStatus, { label: string; chip: string; dot: string }> = {
+  active: { label: "Ativa", chip: "bg-green-100 text-green-800 border-green-200", dot: "bg-green-500" },
+  scheduled: { label: "Agendada", chip: "bg-blue-100 text-blue-800 border-blue-200", dot: "bg-blue-500" },
+  ended: { label: "Encerrada", chip: "bg-gray-100 text-gray-500 border-gray-200", dot: "bg-gray-400" },
+  disabled: { label: "Desativada", chip: "bg-white text-gray-400 border-dashed border-gray-300", dot: "bg-gray-300" },
+  empty: { label: "Sem produtos", chip: "bg-amber-50 text-amber-700 border-amber-200", dot: "bg-amber-500" },
+};
+
+interface SuperPromoCalendarProps {
+  campaigns: AdminPromoCampaign[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export function SuperPromoCalendar({ campaigns, selectedId, onSelect }: SuperPromoCalendarProps) {
+  var today = new Date();
+  var [year, setYear] = useState(today.getFullYear());
+  var [month, setMonth] = useState(today.getMonth());
+
+  function shiftMonth(delta: number) {
+    var d = new Date(year, month + delta, 1);
+    setYear(d.getFullYear());
+    setMonth(d.getMonth());
+  }
+
+  var firstWeekday = new Date(year, month, 1).getDay();
+  var daysInMonth = new Date(year, month + 1, 0).getDate();
+  var cells: Array<number | null> = [];
+  for (var i = 0; i < firstWeekday; i++) cells.push(null);
+  for (var d = 1; d <= daysInMonth; d++) cells.push(d);
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  // campaigns arrive in priority order from the server
+  function campaignsOn(day: number): AdminPromoCampaign[] {
+    var start = new Date(year, month, day).getTime();
+    var end = start + 86400000 - 1;
+    return campaigns.filter(function (c) { return c.startDate <= end && c.endDate >= start; });
+  }
+
+  var isCurrentMonth = today.getFullYear() === year && today.getMonth() === month;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-gray-800 flex items-center gap-2" style={{ fontSize: "0.92rem", fontWeight: 600 }}>
+          <CalendarDays className="w-4 h-4 text-gray-400" />
+          Calendario de Campanhas
+        </h4>
+        <div className="flex items-center gap-1">
+          <button onClick={function () { shiftMonth(-1); }} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"><ChevronLeft className="w-4 h-4" /></button>
+          <span className="text-gray-700 min-w-[130px] text-center" style={{ fontSize: "0.82rem", fontWeight: 600 }}>{MONTHS[month] + " " + year}</span>
+          <button onClick={function () { shiftMonth(1); }} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"><ChevronRight className="w-4 h-4" /></button>
+          {!isCurrentMonth && (
+            <button onClick={function () { setYear(today.getFullYear()); setMonth(today.getMonth()); }} className="ml-1 px-2.5 py-1 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors" style={{ fontSize: "0.72rem", fontWeight: 600 }}>
+              Hoje
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px bg-gray-100 border border-gray-100 rounded-lg overflow-hidden">
+        {WEEKDAYS.map(function (w) {
+          return <div key={w} className="bg-gray-50 text-gray-500 text-center py-1.5" style={{ fontSize: "0.68rem", fontWeight: 700 }}>{w}</div>;
+        })}
+        {cells.map(function (day, idx) {
+          if (day === null) return <div key={"e" + idx} className="bg-gray-50/60 min-h-[84px]" />;
+          var list = campaignsOn(day);
+          var isToday = isCurrentMonth && today.getDate() === day;
+          return (
+            <div key={day} className={"bg-white min-h-[84px] p-1 " + (isToday ? "ring-2 ring-inset ring-red-300" : "")}>
+              <p className={isToday ? "text-red-600" : "text-gray-400"} style={{ fontSize: "0.68rem", fontWeight: 700 }}>{day}</p>
+              <div className="space-y-0.5 mt-0.5">
+                {list.slice(0, MAX_PER_DAY).map(function (c) {
+                  var st = PROMO_STATUS_STYLES[c.status] || PROMO_STATUS_STYLES.disabled;
+                  return (
+                    <button
+                      key={c.id}
+                      onClick={function () { onSelect(c.id); }}
+                      title={c.title + " — prioridade " + (c.priority || 0) + " (" + st.label + ")"}
+                      className={"w-full flex items-center gap-1 px-1 py-0.5 rounded border text-left truncate transition-all " + st.chip + (selectedId === c.id ? " ring-2 ring-red-400" : " hover:brightness-95")}
+                      style={{ fontSize: "0.6rem", fontWeight: 600 }}
+                    >
+                      <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ background: c.bgColor || "#dc2626" }} />
+                      <span className="truncate">{c.title}</span>
+                    </button>
+                  );
+                })}
+                {list.length > MAX_PER_DAY && (
+                  <p className="text-gray-400 px-1" style={{ fontSize: "0.58rem", fontWeight: 600 }}>{"+" + (list.length - MAX_PER_DAY) + " campanha" + (list.length - MAX_PER_DAY > 1 ? "s" : "")}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap mt-3">
+        {(["active", "scheduled", "ended", "disabled"] as PromoCampaignStatus[]).map(function (s) {
+          return (
+            <span key={s} className="flex items-center gap-1.5 text-gray-500" style={{ fontSize: "0.7rem" }}>
+              <span className={"w-2 h-2 rounded-full " + PROMO_STATUS_STYLES[s].dot} />
+              {PROMO_STATUS_STYLES[s].label}
+            </span>
+          );
+        })}
+        <span className="text-gray-400" style={{ fontSize: "0.7rem" }}>Dias com varias campanhas: a de maior prioridade vence cada produto.</span>
+      </div>
+    </div>
+  );
+}
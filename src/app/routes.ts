@@ -72,6 +72,18 @@ const WishlistPage = lazyWithRetry(() =>
 const TrackingPage = lazyWithRetry(() =>
   import("./pages/TrackingPage").then((m) => ({ default: m.TrackingPage }))
 );
+const ProductAlertUnsubscribePage = lazyWithRetry(() =>
+  import("./pages/ProductAlertUnsubscribePage").then((m) => ({ default: m.ProductAlertUnsubscribePage }))
+);
+const ProductAlertConfirmPage = lazyWithRetry(() =>
+  import("./pages/ProductAlertConfirmPage").then((m) => ({ default: m.ProductAlertConfirmPage }))
+);
+const WhatsAppOptOutPage = lazyWithRetry(() =>
+  import("./pages/WhatsAppOptOutPage").then((m) => ({ default: m.WhatsAppOptOutPage }))
+);
+const EmailPreferencesPage = lazyWithRetry(() =>
+  import("./pages/EmailPreferencesPage").then((m) => ({ default: m.EmailPreferencesPage }))
+);
 const FaqPage = lazyWithRetry(() =>
   import("./pages/FaqPage").then((m) => ({ default: m.FaqPage }))
 );
@@ -182,6 +194,26 @@ export const router = createBrowserRouter([
         errorElement: React.createElement(RouteErrorFallback),
         Component: TrackingPage,
       },
+      {
+        path: "avisos/cancelar",
+        errorElement: React.createElement(RouteErrorFallback),
+        Component: ProductAlertUnsubscribePage,
+      },
+      {
+        path: "avisos/confirmar",
+        errorElement: React.createElement(RouteErrorFallback),
+        Component: ProductAlertConfirmPage,
+      },
+      {
+        path: "whatsapp/sair",
+        errorElement: React.createElement(RouteErrorFallback),
+        Component: WhatsAppOptOutPage,
+      },
+      {
+        path: "email/preferencias",
+        errorElement: React.createElement(RouteErrorFallback),
+        Component: EmailPreferencesPage,
+      },
       {
         path: "faq",
         errorElement: React.createElement(RouteErrorFallback),
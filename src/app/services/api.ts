@@ -350,6 +350,17 @@ async function _requestInner<T>(path: string, options?: RequestInit, baseUrl: st
         console.error("API Error [" + path + "]:", msg);
         throw new Error(msg);
       }
+      if (res.status === 202) {
+        const accepted = await res.json().catch(() => ({}));
+        // Sensitive admin action queued for the master's approval — nothing was changed yet
+        if (accepted?.pendingApproval) {
+          const pending: any = new Error(accepted.message || "Enviado para aprovacao do admin master.");
+          pending.pendingApproval = true;
+          pending.approvalId = accepted.approvalId;
+          throw pending;
+        }
+        return accepted;
+      }
       return res.json();
     } catch (e: any) {
       clearTimeout(timeoutId);
@@ -405,7 +416,7 @@ export const reportLoginResult = (email: string, success: boolean, accessToken?:
 /** Check if the current authenticated user has admin role.
  * Requires the user's access_token (not the anon key) to identify the user. */
 export const checkAdmin = (accessToken: string) =>
-  requestPriority<{ isAdmin: boolean; email?: string | null; noAdminsExist?: boolean; isMaster?: boolean; permissions?: string[] }>("/auth/check-admin", {
+  requestPriority<{ isAdmin: boolean; email?: string | null; noAdminsExist?: boolean; isMaster?: boolean; permissions?: string[]; access?: Record<string, AdminAccessLevel>; roles?: string[] }>("/auth/check-admin", {
     headers: { "X-User-Token": accessToken },
   });
 
@@ -423,21 +434,64 @@ export const claimAdmin = (accessToken: string) =>
     headers: { "X-User-Token": accessToken },
   });
 
-/** Get full admin list with permissions (master only) */
+export type AdminAccessLevel = "none" | "read" | "write";
+
+export interface AdminRole {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: Record<string, AdminAccessLevel>;
+  builtIn?: boolean;
+}
+
+export interface AdminResourceInfo {
+  id: string;
+  label: string;
+  tabs: string[];
+}
+
+export interface AdminListEntry {
+  email: string;
+  isMaster: boolean;
+  permissions: string[];
+  roles?: string[];
+  /** Still on the old tab list (no roles assigned) */
+  legacy?: boolean;
+  access?: Record<string, AdminAccessLevel>;
+}
+
+export interface AdminApproval {
+  id: string;
+  status: "pending" | "approving" | "approved" | "rejected" | "cancelled" | "failed" | "expired";
+  label: string;
+  method: string;
+  route: string;
+  query?: string;
+  bodyPreview?: string;
+  requestedBy: { userId: string | null; email: string | null };
+  requestedAt: number;
+  expiresAt?: number;
+  decidedBy?: string;
+  decidedAt?: number;
+  reason?: string;
+  result?: { status: number; body: string };
+}
+
+/** Get full admin list with roles/permissions (needs read access on admins) */
 export const getAdminList = (accessToken: string) =>
-  request<{ admins: Array<{ email: string; isMaster: boolean; permissions: string[] }>; allTabs: string[] }>("/auth/admin-list", {
+  request<{ admins: AdminListEntry[]; allTabs: string[]; roles?: AdminRole[]; resources?: AdminResourceInfo[] }>("/auth/admin-list", {
     headers: { "X-User-Token": accessToken },
   });
 
-/** Add or remove admin from whitelist (master only) */
-export const manageAdmin = (accessToken: string, action: "add" | "remove" | "resend-invite", email: string, permissions?: string[]) =>
+/** Add or remove admin from whitelist (master only; other admins' requests wait for approval) */
+export const manageAdmin = (accessToken: string, action: "add" | "remove" | "resend-invite", email: string, permissions?: string[], roles?: string[]) =>
   request<{ ok?: boolean; list?: string[]; permissions?: string[]; error?: string; message?: string; emailSent?: boolean; emailError?: string }>("/auth/admin-whitelist", {
     method: "POST",
     headers: { "X-User-Token": accessToken },
-    body: JSON.stringify({ action, email, permissions }),
+    body: JSON.stringify({ action, email, permissions, roles }),
   });
 
-/** Update admin tab permissions (master only) */
+/** Update admin tab permissions (legacy tab list) */
 export const updateAdminPermissions = (accessToken: string, email: string, permissions: string[]) =>
   request<{ ok?: boolean; error?: string }>("/auth/admin-permissions", {
     method: "POST",
@@ -445,6 +499,46 @@ export const updateAdminPermissions = (accessToken: string, email: string, permi
     body: JSON.stringify({ email, permissions }),
   });
 
+/** Assign roles to an admin (replaces the legacy tab list) */
+export const updateAdminRoles = (accessToken: string, email: string, roles: string[]) =>
+  request<{ ok?: boolean; roles?: string[]; permissions?: string[]; error?: string }>("/auth/admin-permissions", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ email, roles }),
+  });
+
+export const getAdminRoles = (accessToken: string) =>
+  request<{ roles: AdminRole[]; resources: AdminResourceInfo[] }>("/admin/roles", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const saveAdminRoles = (accessToken: string, roles: AdminRole[]) =>
+  request<{ ok: boolean; roles: AdminRole[] }>("/admin/roles", {
+    method: "PUT",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ roles }),
+  });
+
+/** Approval requests: all for the master, own requests for other admins */
+export const getAdminApprovals = (accessToken: string, status?: string) =>
+  request<{ approvals: AdminApproval[]; isMaster: boolean }>("/admin/approvals" + (status ? "?status=" + encodeURIComponent(status) : ""), {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const approveAdminApproval = (accessToken: string, id: string) =>
+  request<{ ok: boolean; approval: AdminApproval }>("/admin/approvals/" + encodeURIComponent(id) + "/approve", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** Master rejects; the requester cancels their own */
+export const rejectAdminApproval = (accessToken: string, id: string, reason?: string) =>
+  request<{ ok: boolean; approval: AdminApproval }>("/admin/approvals/" + encodeURIComponent(id) + "/reject", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ reason: reason || "" }),
+  });
+
 export const forgotPassword = (email: string, captchaToken?: string) =>
   request<{ sent: boolean; recoveryId?: string }>("/auth/forgot-password", {
     method: "POST",
@@ -555,6 +649,7 @@ type UserMeResult = {
   cnpj?: string;
   razaoSocial?: string;
   inscricaoEstadual?: string;
+  whatsappOptIn?: boolean;
 };
 
 var _userMeInflight: Promise<UserMeResult> | null = null;
@@ -623,6 +718,8 @@ export const userUpdateProfile = (
     cnpj?: string;
     razaoSocial?: string;
     inscricaoEstadual?: string;
+    /** Omit to leave the WhatsApp offers consent as is */
+    whatsappOptIn?: boolean;
   }
 ) =>
   request<{ ok: boolean; profile: any }>("/auth/user/profile", {
@@ -745,6 +842,126 @@ export const removeUserFavorite = (accessToken: string, sku: string) =>
     headers: { "X-User-Token": accessToken },
   });
 
+// ─── Product alerts (back in stock / price drop) ───
+
+export type ProductAlertType = "stock" | "price";
+
+export interface ProductAlert {
+  id: string;
+  sku: string;
+  type: ProductAlertType;
+  /** Price alerts fire at or below this (cents) */
+  targetCents: number | null;
+  status: "pending" | "active" | "sent" | "unsubscribed";
+  createdAt: number;
+  sentAt: number | null;
+}
+
+export interface ProductAlertInput {
+  sku: string;
+  type: ProductAlertType;
+  /** Required for guests; logged-in customers use their account e-mail */
+  email?: string;
+  name?: string;
+  /** Reais */
+  targetPrice?: number;
+  source?: "product" | "favorites";
+}
+
+/**
+ * Subscribe to an alert. Logged in (accessToken): active right away, WhatsApp from the
+ * profile when consented. Guest: pending = a confirmation link went to the e-mail;
+ * pending false without alert = that e-mail already has this alert active.
+ */
+export const subscribeProductAlert = (input: ProductAlertInput, accessToken?: string | null) =>
+  request<{ ok: boolean; created: boolean; pending: boolean; alert?: ProductAlert }>("/product-alerts", {
+    method: "POST",
+    body: JSON.stringify(input),
+    headers: accessToken ? { "X-User-Token": accessToken } : {},
+  });
+
+/** Activate a guest alert from the signed link in the confirmation e-mail */
+export const confirmProductAlertByToken = (token: string) =>
+  request<{ ok: boolean; sku: string; titulo: string; type: ProductAlertType; targetCents: number | null }>("/product-alerts/confirm", {
+    method: "POST",
+    body: JSON.stringify({ token: token }),
+  });
+
+/** Cancel an alert from the signed link in the alert message */
+export const unsubscribeProductAlertByToken = (token: string) =>
+  request<{ ok: boolean; sku: string; titulo: string; type: ProductAlertType }>("/product-alerts/unsubscribe", {
+    method: "POST",
+    body: JSON.stringify({ token: token }),
+  });
+
+/** The customer's alerts for these products */
+export const getUserProductAlerts = (accessToken: string, skus: string[]) =>
+  request<{ alerts: ProductAlert[] }>("/auth/user/product-alerts?skus=" + encodeURIComponent(skus.join(",")), {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const cancelUserProductAlert = (accessToken: string, sku: string, id: string) =>
+  request<{ ok: boolean }>("/auth/user/product-alerts/" + encodeURIComponent(sku) + "/" + encodeURIComponent(id), {
+    method: "DELETE",
+    headers: { "X-User-Token": accessToken },
+  });
+
+// ─── User Cart (server-side, synced across devices) ───
+
+export interface UserCartItem {
+  sku: string;
+  titulo: string;
+  quantidade: number;
+  precoUnitario: number | null;
+  imageUrl: string;
+  isPromo?: boolean;
+  promoCampaignId?: string;
+  promoTitle?: string;
+  warranty?: { planId: string; name: string; price: number; durationMonths: number } | null;
+}
+
+/** Adjustment made by the server when revalidating the saved cart */
+export interface UserCartChange {
+  sku: string;
+  titulo: string;
+  type: "price" | "stock" | "out_of_stock";
+  oldPrice?: number | null;
+  newPrice?: number;
+  oldQuantity?: number;
+  available?: number;
+}
+
+export interface UserCart {
+  items: UserCartItem[];
+  coupon: string | null;
+  updatedAt: number;
+  changes: UserCartChange[];
+}
+
+export const getUserCart = (accessToken: string) =>
+  request<UserCart>("/user/cart", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const saveUserCart = (accessToken: string, data: { items: UserCartItem[]; coupon: string | null }) =>
+  request<{ ok: boolean; updatedAt: number }>("/user/cart", {
+    method: "PUT",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const mergeUserCart = (accessToken: string, data: { items: UserCartItem[]; coupon: string | null }) =>
+  request<UserCart>("/user/cart/merge", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const clearUserCart = (accessToken: string) =>
+  request<{ ok: boolean }>("/user/cart", {
+    method: "DELETE",
+    headers: { "X-User-Token": accessToken },
+  });
 // ─── Admin: Clients ───
 
 export interface ClientProfile {
@@ -760,6 +977,11 @@ export interface ClientProfile {
   created_at: string;
   email_confirmed: boolean;
   last_sign_in: string | null;
+  personType?: "pf" | "pj";
+  cnpj?: string;
+  razaoSocial?: string;
+  priceTier?: PriceTierId | null;
+  priceGroupId?: string | null;
 }
 
 export const getAdminClients = (accessToken: string) =>
@@ -1274,6 +1496,17 @@ export interface CreateSalePayload {
     descMensagem4?: string;
     observacao?: string;
   };
+  /** Selected shipping option — validated against the quote; pickup options route the order to the branch filial */
+  shippingOption?: {
+    carrierId?: string;
+    carrierName: string;
+    carrierType?: string;
+    price: number;
+    deliveryDays: number;
+    free: boolean;
+    sisfreteQuoteId?: string;
+    shippingQuoteId?: string;
+  };
 }
 
 export const sigeCreateSale = async (accessToken: string, data: CreateSalePayload): Promise<any> => {
@@ -1312,11 +1545,49 @@ export const sigeListSituations = (accessToken: string) =>
   });
 
 // ─── User: My Orders ───
+/** Order state machine (server: order_status.ts) */
+export type OrderStatus =
+  | "awaiting_payment"
+  | "paid"
+  | "invoiced"
+  | "picking"
+  | "shipped"
+  | "ready_for_pickup"
+  | "delivered"
+  | "cancelled"
+  | "return_requested"
+  | "returned";
+
+/** "Retire na loja" branch kept on the order; code appears once the order is ready for pickup */
+export interface OrderPickup {
+  branchId: string;
+  nome: string;
+  endereco: string;
+  horario: string;
+  telefone: string;
+  mapQuery: string;
+  readyAt: string | null;
+  collectedAt: string | null;
+  hasCode: boolean;
+  /** Customer only — presented at the counter */
+  code?: string;
+}
+
+/** One entry of order.statusHistory; customers only see by.type */
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+  by: { type: "customer" | "admin" | "system"; id?: string | null; name?: string | null };
+  note?: string;
+}
+
 export interface UserOrder {
   orderId: string | null;
   localOrderId: string;
   createdAt: string;
   status: string;
+  statusHistory?: OrderStatusChange[];
   paymentMethod: string | null;
   transactionId: string | null;
   total: number;
@@ -1350,7 +1621,16 @@ export interface UserOrder {
     deliveryDays: number;
     free: boolean;
     sisfreteQuoteId?: string;
+    /** Server-side quote — replayable in AdminShipping "Simulador" */
+    shippingQuoteId?: string | null;
   } | null;
+  /** Present when the customer chose "Retire na loja" */
+  pickup?: OrderPickup | null;
+  /** Vehicle selected in "Minha Garagem" when the order was placed */
+  vehicle?: GarageVehicle | null;
+  /** Deadlines to open a return (null until the order is delivered) */
+  returnWindow?: RmaWindow | null;
+  rmaIds?: string[];
 }
 
 export const userMyOrders = (accessToken: string) =>
@@ -1381,6 +1661,11 @@ export interface OrderTrackingResult {
   servicoEntrega?: string | null;
   sentAt?: string | null;
   numeroDoPedido?: string;
+  /** Order state machine status + history (present even when the carrier has no events yet) */
+  status?: string;
+  statusHistory?: OrderStatusChange[];
+  /** "Retire na loja" order (no carrier events expected) */
+  pickup?: boolean;
 }
 
 export const getOrderTracking = (accessToken: string, localOrderId: string) =>
@@ -1396,6 +1681,10 @@ export interface AdminOrder extends UserOrder {
   observacao?: string | null;
   userEmail?: string | null;
   userName?: string | null;
+  /** Statuses this order may move to (empty for legacy sige_sale records) */
+  nextStatuses?: OrderStatus[];
+  refunds?: OrderRefund[];
+  refundedTotal?: number;
 }
 
 export const adminGetOrders = (accessToken: string) =>
@@ -1405,14 +1694,65 @@ export const adminGetOrders = (accessToken: string) =>
 
 export const adminUpdateOrderStatus = (
   accessToken: string,
-  data: { userId: string; localOrderId: string; status: string }
+  data: { userId: string; localOrderId: string; status: string; note?: string; pickupCode?: string }
 ) =>
-  request<{ success: boolean }>("/admin/update-order-status", {
+  request<{ success: boolean; changed?: boolean; statusHistory?: OrderStatusChange[] }>("/admin/update-order-status", {
     method: "POST",
     headers: { "X-User-Token": accessToken, "Content-Type": "application/json" },
     body: JSON.stringify(data),
   });
 
+export type RefundMode = "full" | "amount" | "items";
+
+export const adminRefundOrder = (
+  accessToken: string,
+  data: {
+    userId: string;
+    localOrderId: string;
+    mode: RefundMode;
+    amount?: number;
+    items?: Array<{ sku: string; quantidade: number }>;
+    includeShipping?: boolean;
+    note?: string;
+    /** Idempotency key — reuse it when retrying the same refund */
+    requestId: string;
+  }
+) =>
+  request<{ ok: boolean; duplicate: boolean; refund: OrderRefund; refundedTotal: number; statusHistory?: OrderStatusChange[] }>("/admin/orders/refund", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+/** The store sent a manual refund (PIX/boleto): counts it in refundedTotal */
+export const adminConfirmManualRefund = (
+  accessToken: string,
+  data: { userId: string; localOrderId: string; refundId: string }
+) =>
+  request<{ ok: boolean; refund: OrderRefund; refundedTotal: number; statusHistory?: OrderStatusChange[] }>("/admin/orders/refund/confirm", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+/** Same validation as adminRefundOrder, nothing is refunded */
+export const adminPreviewRefund = (
+  accessToken: string,
+  data: { userId: string; localOrderId: string; mode: RefundMode; amount?: number; items?: Array<{ sku: string; quantidade: number }>; includeShipping?: boolean }
+) =>
+  request<{
+    ok: boolean;
+    preview: true;
+    plan: { amount: number; items?: Array<{ sku: string; quantidade: number }>; shipping?: boolean };
+    refundable: number;
+    provider: string;
+    manual: boolean;
+  }>("/admin/orders/refund", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ ...data, preview: true }),
+  });
+
 export const adminFixCardOrders = (accessToken: string) =>
   request<{ success: boolean; fixed: number; skipped: number; notApproved: number; noPaymentId: number; fixedIds: string[]; notApprovedIds: string[] }>("/admin/fix-card-orders", {
     method: "POST",
@@ -1438,6 +1778,193 @@ export const adminRetrySigeRegistration = (
     }
   );
 
+// ─── Trocas e Devolucoes (RMA) ───
+
+export type RmaStatus = "requested" | "approved" | "rejected" | "label_issued" | "received" | "refunded" | "exchanged" | "cancelled";
+export type RmaReason = "withdrawal" | "wrong_item" | "defective" | "damaged" | "warranty" | "other";
+export type RmaResolution = "refund" | "exchange";
+
+export interface RmaWindow {
+  deliveredAt: string;
+  /** CDC art. 49 — 7 days */
+  withdrawalUntil: string;
+  /** Wrong/defective/damaged items — 90 days */
+  defectUntil: string;
+}
+
+export interface RmaItem {
+  sku: string;
+  titulo: string;
+  quantidade: number;
+  valorUnitario: number;
+  restock?: boolean;
+}
+
+export interface RmaStatusChange {
+  from: RmaStatus | null;
+  to: RmaStatus;
+  at: string;
+  by: { type: "customer" | "admin" | "system"; id?: string | null; name?: string | null };
+  note?: string;
+}
+
+export interface OrderRefund {
+  id: string;
+  amount: number;
+  /** "mercadopago" | "paghiper" | "manual" | "mock" (offline testing) */
+  provider: string;
+  /** PagHiper/other: money sent by the store, not by the payment provider */
+  manual: boolean;
+  /** Manual refunds: "pending_manual" stays out of refundedTotal until confirmed */
+  status?: "pending_manual" | "confirmed";
+  confirmedAt?: string;
+  confirmedBy?: string;
+  providerRefundId?: string;
+  /** Item-line refunds (admin "items" mode and RMA refunds) */
+  items?: Array<{ sku: string; quantidade: number }>;
+  shipping?: boolean;
+  rmaId?: string;
+  note?: string;
+  at: string;
+  by?: string;
+}
+
+export interface CustomerRma {
+  id: string;
+  orderId: string;
+  status: RmaStatus;
+  reason: RmaReason;
+  resolution: RmaResolution;
+  description: string;
+  items: RmaItem[];
+  refundValue: number;
+  photos: Array<{ path: string; signedUrl: string; uploadedAt: string }>;
+  history: RmaStatusChange[];
+  returnLabel?: { trackingCode: string | null; labelUrl: string | null; carrierName: string | null; instructions: string | null; issuedAt: string };
+  /** pending: manual refund the store has not transferred yet */
+  refund?: { amount: number; provider: string; manual: boolean; at: string; pending?: boolean };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminRma extends Omit<CustomerRma, "returnLabel" | "refund"> {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  returnLabel?: {
+    provider: "sisfrete" | "manual";
+    trackingCode: string | null;
+    labelUrl: string | null;
+    carrierName: string | null;
+    instructions: string | null;
+    sisfreteResponse?: any;
+    issuedAt: string;
+    issuedBy: string;
+  };
+  refund?: OrderRefund;
+  receivedAt?: string;
+  stockAdjustment?: {
+    status: "none" | "manual" | "sige";
+    items?: Array<{ sku: string; quantidade: number }>;
+    sigeOrderId?: string;
+    error?: string;
+    at: string;
+  };
+}
+
+export interface RmaLabelPayload {
+  sendToSisfrete: boolean;
+  chaveNfe?: string;
+  numeroNota?: number;
+  serieNota?: string;
+  codigoServico?: string;
+  codigoTransportadora?: string;
+  servicoEntrega?: string;
+  transportadoraNome?: string;
+  trackingCode?: string;
+  labelUrl?: string;
+  instructions?: string;
+}
+
+export const userCreateRma = (
+  accessToken: string,
+  data: { orderId: string; reason: RmaReason; resolution: RmaResolution; description: string; items: Array<{ sku: string; quantidade: number }> }
+) =>
+  request<{ ok: boolean; rma: CustomerRma }>("/user/rma", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const uploadRmaPhoto = async (rmaId: string, file: File, accessToken: string) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  const res = await fetch(_authUrl("/user/rma/" + encodeURIComponent(rmaId) + "/photos", accessToken), {
+    method: "POST",
+    headers: _authHeaders(accessToken),
+    body: formData,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || "HTTP " + res.status);
+  return data as { ok: boolean; path: string; photoCount: number };
+};
+
+export const userGetRmas = (accessToken: string) =>
+  request<{ rmas: CustomerRma[]; total: number }>("/user/rma", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const userCancelRma = (accessToken: string, rmaId: string) =>
+  request<{ ok: boolean; rma: CustomerRma }>("/user/rma/" + encodeURIComponent(rmaId) + "/cancel", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminGetRmas = (accessToken: string, status?: string) =>
+  request<{ rmas: AdminRma[]; total: number }>("/admin/rma" + (status && status !== "all" ? "?status=" + encodeURIComponent(status) : ""), {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminRmaDecision = (accessToken: string, rmaId: string, data: { action: "approve" | "reject"; note?: string }) =>
+  request<{ ok: boolean; rma: AdminRma }>("/admin/rma/" + encodeURIComponent(rmaId) + "/decision", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const adminRmaLabel = (accessToken: string, rmaId: string, data: RmaLabelPayload) =>
+  request<{ ok: boolean; rma: AdminRma }>("/admin/rma/" + encodeURIComponent(rmaId) + "/label", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const adminRmaReceive = (accessToken: string, rmaId: string, data: { restockSkus: string[]; note?: string }) =>
+  request<{ ok: boolean; rma: AdminRma }>("/admin/rma/" + encodeURIComponent(rmaId) + "/receive", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const adminRmaResolve = (accessToken: string, rmaId: string, data: { resolution: RmaResolution; amount?: number; note?: string }) =>
+  request<{ ok: boolean; rma: AdminRma }>("/admin/rma/" + encodeURIComponent(rmaId) + "/resolve", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const adminGetRmaConfig = (accessToken: string) =>
+  request<{ sigeReturnTipoMv: string; updatedAt?: number }>("/admin/rma/config", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminSaveRmaConfig = (accessToken: string, data: { sigeReturnTipoMv: string }) =>
+  request<{ sigeReturnTipoMv: string; updatedAt?: number }>("/admin/rma/config", {
+    method: "PUT",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
 export interface SaveUserOrderPayload {
   localOrderId: string;
   sigeOrderId?: string | null;
@@ -1475,7 +2002,10 @@ export interface SaveUserOrderPayload {
     deliveryDays: number;
     free: boolean;
     sisfreteQuoteId?: string;
+    shippingQuoteId?: string;
   };
+  /** Customer vehicle from "Minha Garagem" (server falls back to the profile vehicle) */
+  vehicle?: GarageVehicle | null;
 }
 
 export const saveUserOrder = (accessToken: string, data: SaveUserOrderPayload) =>
@@ -1601,6 +2131,24 @@ export const createMessage = (msg: Partial<Message> & { captchaToken?: string })
 // getMessages, updateMessage, deleteMessage removed — dead code
 
 // ─── Admin Audit Log ───
+export interface AuditDiffPath {
+  path: string;
+  op: "add" | "remove" | "change";
+  before?: any;
+  after?: any;
+}
+
+/** One KV key written by an audited request (raw values stay on the server) */
+export interface AuditChange {
+  key: string;
+  entity: { type: string; id: string };
+  op: "create" | "update" | "delete";
+  diff: AuditDiffPath[];
+  diffTruncated?: boolean;
+  revertible: boolean;
+  note?: string;
+}
+
 export interface AuditLogEntry {
   id: string;
   action: string;
@@ -1610,6 +2158,19 @@ export interface AuditLogEntry {
   userAgent: string;
   timestamp: number;
   createdAt: string;
+  /** "server" = recorded by the API middleware; absent = posted by the panel (login/logout) */
+  source?: "server";
+  userId?: string | null;
+  ip?: string;
+  method?: string;
+  route?: string;
+  status?: number;
+  entities?: string[];
+  changes?: AuditChange[];
+  truncatedKeys?: number;
+  revertOf?: string;
+  revertedAt?: number;
+  revertedBy?: string;
 }
 
 export const saveAuditLog = (accessToken: string, data: { action: string; email: string; userName: string; details?: string; userAgent?: string }) =>
@@ -1619,8 +2180,18 @@ export const saveAuditLog = (accessToken: string, data: { action: string; email:
     headers: { "X-User-Token": accessToken },
   });
 
-export const getAuditLogs = (accessToken: string) =>
-  request<{ logs: AuditLogEntry[]; total: number }>("/admin/audit-logs", {
+/** entity: KV key ("product:123"), entity type ("product") or key prefix */
+export const getAuditLogs = (accessToken: string, entity?: string) =>
+  request<{ logs: AuditLogEntry[]; total: number }>(
+    "/admin/audit-logs" + (entity ? "?entity=" + encodeURIComponent(entity) : ""),
+    { headers: { "X-User-Token": accessToken } }
+  );
+
+/** Writes the recorded "before" values back; force = even if the keys changed again since */
+export const revertAuditLog = (accessToken: string, id: string, force?: boolean) =>
+  request<{ ok: boolean; reverted: string[]; forced: boolean }>("/admin/audit-log/" + id + "/revert", {
+    method: "POST",
+    body: JSON.stringify({ force: !!force }),
     headers: { "X-User-Token": accessToken },
   });
 
@@ -1793,6 +2364,7 @@ export interface CatalogResponse {
   categoria: string | null;
   categoryName: string | null;
   categoryBreadcrumb: string[] | null;
+  vehicle?: VehicleFilter;
 }
 
 interface AdminAutoCategorizeDataResponse {
@@ -1887,11 +2459,12 @@ async function getAdminProductSearchFallbackIndex(accessToken: string): Promise<
   return _adminProductSearchIndexPromise;
 }
 
-export const getCatalog = (page = 1, limit = 24, search = "", categoria = "", sort = "") => {
+export const getCatalog = (page = 1, limit = 24, search = "", categoria = "", sort = "", vehicle?: VehicleFilter | null) => {
   const params = new URLSearchParams({ page: String(page), limit: String(limit), public: "1" });
   if (search.trim()) params.set("search", search.trim());
   if (categoria.trim()) params.set("categoria", categoria.trim());
   if (sort.trim()) params.set("sort", sort.trim());
+  appendVehicleParams(params, vehicle);
   return request<CatalogResponse>(`/produtos?${params.toString()}`);
 };
 
@@ -1953,7 +2526,7 @@ export interface ProductDetailInitResponse {
 }
 
 export const getProductDetailInit = (sku: string, options?: { signal?: AbortSignal }) =>
-  request<ProductDetailInitResponse>("/produto-detail-init/" + encodeURIComponent(sku), options);
+  request<ProductDetailInitResponse>("/produto-detail-init/" + encodeURIComponent(sku), { ...options, headers: _pricingHeaders() });
 
 /**
  * Returns the product page URL for social sharing.
@@ -2001,26 +2574,197 @@ export interface AutocompleteResponse {
   totalMatches: number;
 }
 
-export const autocomplete = (q: string, limit = 8, options?: RequestInit) => {
+export const autocomplete = (q: string, limit = 8, options?: RequestInit, vehicle?: VehicleFilter | null) => {
   const params = new URLSearchParams({ q, limit: String(limit) });
+  appendVehicleParams(params, vehicle);
   return request<AutocompleteResponse>(`/produtos/autocomplete?${params.toString()}`, options);
 };
 
-// ─── Product Images (Supabase Storage) ───
+// ─── Vehicles / Fitment (aplicacao estruturada) ───
 
-const STORAGE_BASE = "https://aztdgagxvrlylszieujs.supabase.co/storage/v1/object/public/produtos";
+export interface VehicleVersion {
+  id: string;
+  yearFrom: number | null;
+  yearTo: number | null;
+  engine: string | null;
+}
 
-export interface ProductImage {
+export interface VehicleModel {
+  id: string;
   name: string;
-  url: string;
-  number: number;
-  isPrimary: boolean;
+  aliases: string[];
+  versions: VehicleVersion[];
 }
 
-export interface ProductImagesResponse {
-  sku: string;
-  images: ProductImage[];
-  total: number;
+export interface VehicleMake {
+  id: string;
+  name: string;
+  aliases: string[];
+  models: VehicleModel[];
+}
+
+export interface VehicleCatalog {
+  makes: VehicleMake[];
+  updatedAt?: number;
+}
+
+/** One structured fitment entry on a product (make/model are catalog ids) */
+export interface ProductFitment {
+  make: string;
+  model: string;
+  yearFrom: number | null;
+  yearTo: number | null;
+  engine: string | null;
+  /** Original legacy compatibility line, when created by the migration */
+  raw?: string;
+}
+
+/** Vehicle used to filter catalog/autocomplete by exact fitment */
+export interface VehicleFilter {
+  make: string;
+  model: string;
+  year?: number | null;
+  engine?: string | null;
+}
+
+export interface FitmentReviewItem {
+  id: string;
+  sku: string;
+  raw: string;
+  reason: string;
+  createdAt: number;
+}
+
+export interface FitmentMigrationResult {
+  ok: boolean;
+  dryRun: boolean;
+  scanned: number;
+  productsUpdated: number;
+  fitmentsCreated: number;
+  modelsCreated: number;
+  queued: number;
+  sample: Array<{ sku: string; legacy: string[]; fitments: ProductFitment[]; universal: boolean }>;
+}
+
+export function appendVehicleParams(params: URLSearchParams, vehicle?: VehicleFilter | null): void {
+  if (!vehicle || !vehicle.make || !vehicle.model) return;
+  params.set("vMake", vehicle.make);
+  params.set("vModel", vehicle.model);
+  if (vehicle.year) params.set("vYear", String(vehicle.year));
+  if (vehicle.engine) params.set("vEngine", vehicle.engine);
+}
+
+export const getVehicleCatalog = () =>
+  request<VehicleCatalog>("/vehicles/catalog");
+
+export const saveVehicleCatalog = (accessToken: string, catalog: VehicleCatalog) =>
+  request<{ ok: boolean; catalog: VehicleCatalog }>("/admin/vehicles/catalog", {
+    method: "PUT",
+    body: JSON.stringify(catalog),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const migrateFitments = (accessToken: string, opts: { dryRun?: boolean; overwrite?: boolean; createModels?: boolean }) =>
+  request<FitmentMigrationResult>("/admin/fitment/migrate", {
+    method: "POST",
+    body: JSON.stringify(opts),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const getFitmentReviewQueue = (accessToken: string) =>
+  request<{ items: FitmentReviewItem[]; total: number }>("/admin/fitment/review", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const resolveFitmentReview = (
+  accessToken: string,
+  id: string,
+  data: { fitments?: ProductFitment[]; universal?: boolean; dismiss?: boolean },
+) =>
+  request<{ ok: boolean; id: string; sku: string }>(`/admin/fitment/review/${encodeURIComponent(id)}/resolve`, {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** "Minha Garagem" vehicle — persisted on user_profile (logged in) or localStorage (guest) */
+export interface GarageVehicle extends VehicleFilter {
+  label?: string;
+}
+
+export const getUserVehicle = (accessToken: string) =>
+  request<{ vehicle: GarageVehicle | null }>("/auth/user/vehicle", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const saveUserVehicle = (accessToken: string, vehicle: GarageVehicle | null) =>
+  request<{ ok: boolean; vehicle: GarageVehicle | null }>("/auth/user/vehicle", {
+    method: "PUT",
+    body: JSON.stringify({ vehicle }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const getVehicleCategoryCounts = (vehicle: VehicleFilter) => {
+  const params = new URLSearchParams();
+  appendVehicleParams(params, vehicle);
+  return request<{ vehicle: VehicleFilter; total: number; categoryCounts: Record<string, number> }>(`/vehicles/category-counts?${params.toString()}`);
+};
+
+/**
+ * Client-side mirror of the server fitment match.
+ * Returns null when the product has no structured fitment (unknown — no badge).
+ */
+export function productFitsVehicle(
+  meta: { fitments?: ProductFitment[]; fitmentUniversal?: boolean } | null | undefined,
+  vehicle: VehicleFilter,
+): boolean | null {
+  if (!meta) return null;
+  if (meta.fitmentUniversal === true) return true;
+  const fitments = Array.isArray(meta.fitments) ? meta.fitments : [];
+  if (fitments.length === 0) return null;
+  return fitments.some((f) => {
+    if (f.make !== vehicle.make || f.model !== vehicle.model) return false;
+    if (vehicle.year) {
+      if (f.yearFrom && vehicle.year < f.yearFrom) return false;
+      if (f.yearTo && vehicle.year > f.yearTo) return false;
+    }
+    if (vehicle.engine && f.engine && f.engine !== vehicle.engine.toUpperCase()) return false;
+    return true;
+  });
+}
+
+/** Label like "Volkswagen Constellation 2012-2020 MWM 6.12" resolved against the catalog */
+export function formatFitmentLabel(fitment: ProductFitment | VehicleFilter, catalog?: VehicleCatalog | null): string {
+  const make = catalog?.makes.find((m) => m.id === fitment.make);
+  const model = make?.models.find((m) => m.id === fitment.model);
+  const parts: string[] = [make?.name || fitment.make, model?.name || fitment.model];
+  if ("yearFrom" in fitment) {
+    const f = fitment as ProductFitment;
+    if (f.yearFrom && f.yearTo && f.yearFrom !== f.yearTo) parts.push(f.yearFrom + "-" + f.yearTo);
+    else if (f.yearFrom && !f.yearTo) parts.push(f.yearFrom + "+");
+    else if (f.yearFrom || f.yearTo) parts.push(String(f.yearFrom || f.yearTo));
+  } else if ((fitment as VehicleFilter).year) {
+    parts.push(String((fitment as VehicleFilter).year));
+  }
+  if (fitment.engine) parts.push(fitment.engine);
+  return parts.filter(Boolean).join(" ");
+}
+
+// ─── Product Images (Supabase Storage) ───
+
+const STORAGE_BASE = "https://aztdgagxvrlylszieujs.supabase.co/storage/v1/object/public/produtos";
+
+export interface ProductImage {
+  name: string;
+  url: string;
+  number: number;
+  isPrimary: boolean;
+}
+
+export interface ProductImagesResponse {
+  sku: string;
+  images: ProductImage[];
+  total: number;
   error?: string;
 }
 
@@ -2064,6 +2808,8 @@ export interface ProductBalance {
   quantidade: number | null;
   reservado?: number;
   disponivel?: number;
+  /** Units held by orders awaiting payment (already taken out of disponivel) */
+  reservadoPedidos?: number;
   locais?: Array<{
     local: string;
     filial: string;
@@ -2291,6 +3037,104 @@ export const clearBalanceCacheSku = (accessToken: string, sku: string) =>
     { method: "DELETE", headers: { "X-User-Token": accessToken } }
   );
 
+// ─── Stock reservations (checkout holds) ───
+
+export interface StockReservationHold {
+  orderKey: string;
+  localOrderId: string;
+  userId: string | null;
+  customerName: string | null;
+  orderStatus: string | null;
+  total: number;
+  qty: number;
+  paymentMethod: string;
+  createdAt: number;
+  expiresAt: number;
+  /** Reserved beyond the cached balance (two checkouts raced for the last units) */
+  short: boolean;
+}
+
+export interface StockReservationSku {
+  sku: string;
+  titulo: string;
+  held: number;
+  /** Cached SIGE balance before reservations (null = unknown) */
+  available: number | null;
+  holds: StockReservationHold[];
+}
+
+/** Active stock reservations per SKU (admin) */
+export const adminGetStockReservations = (accessToken: string) =>
+  request<{ reservations: StockReservationSku[]; totalSkus: number; totalUnits: number; ttlMs: Record<string, number> }>("/admin/stock-reservations", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** Release an order's reservation early — every SKU, or only `sku` (admin) */
+export const adminReleaseStockReservation = (accessToken: string, orderKey: string, sku?: string) =>
+  request<{ ok: boolean; released: string[] }>("/admin/stock-reservations/release", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ orderKey: orderKey, sku: sku }),
+  });
+
+// ─── Product alerts (admin) ───
+
+export interface ProductAlertSubscriber {
+  id: string;
+  type: ProductAlertType;
+  email: string;
+  phone: string | null;
+  name: string;
+  userId: string | null;
+  targetCents: number | null;
+  source: "product" | "favorites";
+  status: "pending" | "active" | "sent" | "unsubscribed";
+  createdAt: number;
+  sentAt: number | null;
+  sentPriceCents: number | null;
+  delivery: { email: "sent" | "failed" | "skipped"; whatsapp: "sent" | "failed" | "skipped"; error?: string } | null;
+}
+
+export interface ProductAlertCounts {
+  /** Guest alerts waiting for the e-mail confirmation */
+  pending: number;
+  /** Active stock alerts */
+  stock: number;
+  /** Active price alerts */
+  price: number;
+  sent: number;
+  unsubscribed: number;
+}
+
+export interface ProductAlertProduct {
+  sku: string;
+  titulo: string;
+  counts: ProductAlertCounts;
+  lastSentAt: number | null;
+  subscribers: ProductAlertSubscriber[];
+}
+
+/** Alert subscribers per product (admin) */
+export const adminGetProductAlerts = (accessToken: string) =>
+  request<{ products: ProductAlertProduct[]; totals: ProductAlertCounts }>("/admin/product-alerts", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** Check one SKU now and send whatever is due (admin) */
+export const adminCheckProductAlerts = (accessToken: string, sku: string) =>
+  request<{ ok: boolean; sent: number; available: number; priceCents: number | null }>("/admin/product-alerts/check", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ sku: sku }),
+  });
+
+export const adminUnsubscribeProductAlert = (accessToken: string, sku: string, id: string) =>
+  request<{ ok: boolean }>("/admin/product-alerts/unsubscribe", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify({ sku: sku, id: id }),
+  });
+
 /** Global stock summary across ALL products */
 export interface StockSummary {
   totalProducts: number;
@@ -2397,6 +3241,102 @@ export const triggerSigeSync = (
     headers: { "X-User-Token": accessToken },
   });
 
+// ─── Scheduled SIGE sync (admin) ───
+
+export type SigeScheduledRunStatus = "ok" | "partial" | "failed" | "skipped";
+export type SigeChangeType = "new_sku" | "price_change" | "out_of_stock" | "back_in_stock";
+
+export interface SigeScheduledSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  /** Store SKUs per run (balance + price) */
+  batchSize: number;
+}
+
+export interface SigeScheduledState {
+  skuOffset: number;
+  productOffset: number;
+  catalogBaseline: boolean;
+  passes: number;
+  lastRunAt: number | null;
+  lastOkAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+export interface SigeScheduledRun {
+  id: string;
+  trigger: "cron" | "manual";
+  status: SigeScheduledRunStatus;
+  startedAt: number;
+  finishedAt: number;
+  skuFrom: number;
+  skus: number;
+  totalSkus: number;
+  balances: number;
+  prices: number;
+  notFound: number;
+  catalogItems: number;
+  newMappings: number;
+  changes: number;
+  failures: Array<{ sku: string; stage: "stock" | "price" | "catalog"; error: string }>;
+  error?: string;
+}
+
+export interface SigeSyncHealth {
+  status: "ok" | "failing" | "stale" | "disabled" | "never";
+  lastRunAt: number | null;
+  lastOkAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  lastRunFailures: number;
+}
+
+export interface SigeChange {
+  id: string;
+  runId: string;
+  at: number;
+  type: SigeChangeType;
+  sku: string;
+  titulo: string;
+  /** Reais (price) or available units (stock) */
+  before: number | null;
+  after: number | null;
+  /** new_sku: a store product already uses this code */
+  inCatalog?: boolean;
+}
+
+export const adminGetSigeScheduledSync = (accessToken: string) =>
+  request<{ settings: SigeScheduledSettings; state: SigeScheduledState; runs: SigeScheduledRun[]; health: SigeSyncHealth; running: boolean }>("/admin/sige-sync", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminSaveSigeScheduledSettings = (accessToken: string, settings: Partial<SigeScheduledSettings>) =>
+  request<{ ok: boolean; settings: SigeScheduledSettings }>("/admin/sige-sync/settings", {
+    method: "PUT",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(settings),
+  });
+
+/** Starts one sync step in the background; poll adminGetSigeScheduledSync */
+export const adminRunSigeScheduledSync = (accessToken: string) =>
+  request<{ ok: boolean; started: boolean }>("/admin/sige-sync/run", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminGetSigeSyncJournal = (accessToken: string, opts?: { type?: SigeChangeType | ""; q?: string; limit?: number }) => {
+  var params = new URLSearchParams();
+  if (opts && opts.type) params.set("type", opts.type);
+  if (opts && opts.q) params.set("q", opts.q);
+  if (opts && opts.limit) params.set("limit", String(opts.limit));
+  var qs = params.toString();
+  return request<{ entries: SigeChange[]; total: number }>("/admin/sige-sync/journal" + (qs ? "?" + qs : ""), {
+    headers: { "X-User-Token": accessToken },
+  });
+};
+
 // ─── Product CRUD (Admin) ───
 
 export interface ProductMeta {
@@ -2408,7 +3348,11 @@ export interface ProductMeta {
   category?: string;
   brand?: string;
   price?: number;
+  /** Legacy free-text compatibility (kept as history; replaced by fitments) */
   compatibility?: string[];
+  fitments?: ProductFitment[];
+  /** Serves any vehicle — always passes the vehicle filter */
+  fitmentUniversal?: boolean;
   customAttributes?: Record<string, string>;
 }
 
@@ -2874,6 +3818,54 @@ export const savePriceConfig = (config: Partial<PriceConfig>, accessToken: strin
     headers: { "X-User-Token": accessToken },
   });
 
+// ─── B2B Price Tiers (per customer / customer group) ───
+
+export type PriceTierId = "v1" | "v2" | "v3";
+
+export interface PriceTierGroup {
+  id: string;
+  name: string;
+  tier: PriceTierId;
+  description?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  customerCount?: number;
+}
+
+export interface UserPriceTier {
+  personalized: boolean;
+  tier: PriceTierId | null;
+  source: "customer" | "group" | "global";
+  groupName: string | null;
+}
+
+export const getUserPriceTier = (accessToken: string) =>
+  request<UserPriceTier>("/user/price-tier", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const getAdminPriceTiers = (accessToken: string) =>
+  request<{ groups: PriceTierGroup[]; globalTier: PriceTierId; tiers: PriceTierId[]; customerOverrides: number }>("/admin/price-tiers", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const saveAdminPriceTierGroups = (accessToken: string, groups: PriceTierGroup[]) =>
+  request<{ groups: PriceTierGroup[] }>("/admin/price-tiers/groups", {
+    method: "PUT",
+    body: JSON.stringify({ groups }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const setClientPriceTier = (accessToken: string, userId: string, assignment: { tier: PriceTierId | ""; groupId: string }) =>
+  request<{ id: string; priceTier: PriceTierId | null; priceGroupId: string | null; effective: { tier: PriceTierId; source: "customer" | "group"; groupId: string | null; groupName: string | null } | null }>(
+    "/admin/clients/" + encodeURIComponent(userId) + "/price-tier",
+    {
+      method: "PUT",
+      body: JSON.stringify(assignment),
+      headers: { "X-User-Token": accessToken },
+    }
+  );
+
 /** Admin — clear all SIGE price caches (forces re-fetch from SIGE) */
 export const clearPriceCache = (accessToken: string) =>
   request<{ ok: boolean; cleared: number }>("/produtos/precos-cache", {
@@ -2903,10 +3895,34 @@ export interface ProductPrice {
   _priceListDebug?: Array<{ codLista: string; price: number | null; descLista?: string | null }>;
   _itemSampleKeys?: string[];
   _listMapping?: Record<string, string>;
+  /** true when the price was resolved for the logged-in customer's B2B tier */
+  customerTier?: boolean;
+}
+
+// ─── B2B price tier session ───
+// Set by PriceTierProvider when the logged-in customer has a personal tier/group.
+// Only then do price calls carry X-User-Token — everyone else keeps hitting the
+// shared (global-tier) responses.
+var _pricingToken: string | null = null;
+var _pricingTier: string | null = null;
+
+/** Attach the customer token to price calls (tier null = global tier, no token).
+ *  Clears the per-SKU price cache whenever the effective tier changes. */
+export function setPricingSession(accessToken: string | null, tier: string | null): void {
+  if (tier !== _pricingTier) {
+    _priceSkuCache.clear();
+    _lastPriceConfig = null;
+  }
+  _pricingToken = tier ? accessToken : null;
+  _pricingTier = tier;
+}
+
+function _pricingHeaders(): Record<string, string> {
+  return _pricingToken ? { "X-User-Token": _pricingToken } : {};
 }
 
 export const getProductPrice = (sku: string, options?: { signal?: AbortSignal }) =>
-  _requestFastFail<ProductPrice>("/produtos/preco/" + encodeURIComponent(sku), options);
+  _requestFastFail<ProductPrice>("/produtos/preco/" + encodeURIComponent(sku), { ...options, headers: _pricingHeaders() });
 
 /** Bulk fetch prices for multiple SKUs in one call (public, no auth).
  *  Uses fast-fail (25s, no retry) — display-only, not checkout-critical.
@@ -2938,6 +3954,7 @@ export const getProductPricesBulk = (skus: string[], opts?: { signal?: AbortSign
   return _requestFastFail<{ results: ProductPrice[]; config: PriceConfig | null }>("/produtos/precos-bulk", {
     method: "POST",
     body: JSON.stringify({ skus: fetchSkus }),
+    headers: _pricingHeaders(),
     signal: opts?.signal,
   }).then(function (resp) {
     // Cache per-SKU
@@ -3073,6 +4090,8 @@ export interface PixCreatePayload {
   days_due_date?: string;
   notification_url?: string;
   discount_cents?: number;
+  couponCode?: string;
+  shippingCarrierId?: string;
   items: Array<{
     description: string;
     quantity: number;
@@ -3143,6 +4162,8 @@ export interface BoletoCreatePayload {
   days_due_date?: string;
   notification_url?: string;
   discount_cents?: number;
+  couponCode?: string;
+  shippingCarrierId?: string;
   items: Array<{
     description: string;
     quantity: number;
@@ -3282,6 +4303,48 @@ export interface ShippingCarrier {
   stateRules: Record<string, ShippingStateRule>;
   regionRules: Record<string, ShippingStateRule>;
   defaultRule: ShippingStateRule | null;
+  /** Peso cubado: kg/m³ (ex.: 300 rodoviario, 167 Correios). 0 = somente peso real */
+  cubicFactor?: number;
+  /** Limites por volume — o carrinho e dividido em varios volumes */
+  packageLimits?: ShippingPackageLimits | null;
+}
+
+/** 0 = sem limite */
+export interface ShippingPackageLimits {
+  maxWeightKg: number;
+  maxLengthCm: number;
+  maxWidthCm: number;
+  maxHeightCm: number;
+  maxSumCm: number;
+}
+
+export interface ShippingPackedBox {
+  items: Array<{ sku: string; quantity: number }>;
+  units: number;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  cubicWeight: number;
+  billedWeight: number;
+  oversize?: boolean;
+}
+
+/** Packing plan of one carrier/table, returned in _enrichment.packing for debugging */
+export interface ShippingPackingPlan {
+  carrierId: string;
+  carrierName: string;
+  source: "manual" | "table";
+  cubicFactor: number;
+  limits: ShippingPackageLimits | null;
+  packages: ShippingPackedBox[];
+  totalWeight: number;
+  billedWeight: number;
+  oversize: string[];
+  /** Cart needs more packages than the server prices automatically */
+  manualQuote?: boolean;
+  /** Table mode: some package has no matching weight/CEP row */
+  unmatched?: boolean;
 }
 
 export type ShippingCalcMode = "manual" | "table" | "hybrid" | "api";
@@ -3339,7 +4402,9 @@ export interface ShippingOption {
   deliveryText: string;
   free: boolean;
   freeReason?: string;
-  source?: "manual" | "table" | "api";
+  source?: "manual" | "table" | "api" | "pickup";
+  /** "Retire na loja" (carrierType "pickup", carrierId "pickup:<branchId>") */
+  pickup?: { branchId: string; nome: string; endereco: string; horario: string; telefone: string; mapQuery: string };
   /** SisFrete quotation ID — flows from cotacao to pedido to romaneio to NF */
   sisfreteQuoteId?: string;
   /** Server-side shipping quote ID for price validation at checkout */
@@ -3356,16 +4421,19 @@ export interface ShippingCalcResponse {
   calcMode?: ShippingCalcMode;
   message?: string;
   error?: string;
-  _enrichment?: Array<{
-    sku: string;
-    qty: number;
-    source: string;
-    weight: number;
-    length: number;
-    width: number;
-    height: number;
-    rawFields: Record<string, any> | null;
-  }>;
+  _enrichment?: {
+    items: Array<{
+      sku: string;
+      qty: number;
+      source: string;
+      weight: number;
+      length: number;
+      width: number;
+      height: number;
+      rawFields: Record<string, any> | null;
+    }>;
+    packing: ShippingPackingPlan[];
+  };
 }
 
 export interface CepInfo {
@@ -3387,19 +4455,65 @@ export interface ShippingTableRow {
   prazo: number;
 }
 
+/** One upload of a freight table; the version in effect has the latest validFrom <= now */
+export interface ShippingTableVersion {
+  id: string;
+  version: number;
+  validFrom: number;
+  validTo: number | null;
+  rowCount: number;
+  createdAt: number;
+  createdBy?: string;
+  note?: string;
+  disabled?: boolean;
+  disabledAt?: number;
+  summary?: { added: number; removed: number; changed: number; gaps: number; overlaps: number };
+  legacy?: boolean;
+}
+
 export interface ShippingTableMeta {
   id: string;
   name: string;
   carrierName: string;
   carrierType: string;
+  /** Rows of the version in effect */
   rowCount: number;
   createdAt: number;
+  updatedAt?: number;
+  cubicFactor?: number;
+  packageLimits?: ShippingPackageLimits | null;
+  activeVersionId: string | null;
+  activeVersion: number | null;
+  nextVersion: { id: string; version: number; validFrom: number } | null;
+  /** Newest first */
+  versions: ShippingTableVersion[];
+  canRollback: boolean;
 }
 
 export interface ShippingTableFull extends ShippingTableMeta {
+  /** Version whose rows are returned */
+  versionId: string | null;
   rows: ShippingTableRow[];
 }
 
+export interface ShippingTableCoverageIssue {
+  band: string;
+  cepInicio: string;
+  cepFim: string;
+  other?: { cepInicio: string; cepFim: string };
+  nested?: boolean;
+}
+
+/** CSV import preview: lists are capped samples, counts are complete */
+export interface ShippingTableDiff {
+  counts: { before: number; after: number; added: number; removed: number; changed: number; unchanged: number; gaps: number; overlaps: number };
+  added: ShippingTableRow[];
+  removed: ShippingTableRow[];
+  changed: Array<{ key: string; before: ShippingTableRow; after: ShippingTableRow; pct: number | null }>;
+  gaps: ShippingTableCoverageIssue[];
+  overlaps: ShippingTableCoverageIssue[];
+}
+
 export const getShippingConfig = (accessToken: string) =>
   request<ShippingConfig>("/shipping/config", {
     headers: { "X-User-Token": accessToken },
@@ -3562,7 +4676,17 @@ export const syncSigeWeightBulk = (accessToken: string, skus: string[]) =>
 // Freight table CRUD
 export const uploadShippingTable = (
   accessToken: string,
-  data: { name: string; carrierName: string; carrierType: string; rows: ShippingTableRow[] }
+  data: {
+    name: string;
+    carrierName: string;
+    carrierType: string;
+    rows: ShippingTableRow[];
+    cubicFactor?: number;
+    packageLimits?: ShippingPackageLimits | null;
+    validFrom?: string;
+    validTo?: string;
+    note?: string;
+  }
 ) =>
   request<ShippingTableMeta>("/shipping/tables", {
     method: "POST",
@@ -3575,22 +4699,161 @@ export const getShippingTables = (accessToken: string) =>
     headers: { "X-User-Token": accessToken },
   });
 
-export const getShippingTable = (accessToken: string, tableId: string) =>
-  request<ShippingTableFull>(`/shipping/tables/${tableId}`, {
-    headers: { "X-User-Token": accessToken },
-  });
+export const getShippingTable = (accessToken: string, tableId: string, versionId?: string) =>
+  request<ShippingTableFull>(
+    `/shipping/tables/${tableId}${versionId ? `?version=${encodeURIComponent(versionId)}` : ""}`,
+    { headers: { "X-User-Token": accessToken } }
+  );
 
-export const deleteShippingTable = (accessToken: string, tableId: string) =>
-  request<{ ok: boolean }>(`/shipping/tables/${tableId}`, {
-    method: "DELETE",
+/** Diff of parsed CSV rows against the table's version in effect (tableId omitted = new table) */
+export const previewShippingTableDiff = (
+  accessToken: string,
+  data: { tableId?: string; rows: ShippingTableRow[] }
+) =>
+  request<{ against: { id: string; version: number; validFrom: number; validTo: number | null } | null; validRows: number; diff: ShippingTableDiff }>(
+    "/shipping/tables/diff",
+    {
+      method: "POST",
+      body: JSON.stringify(data),
+      headers: { "X-User-Token": accessToken },
+    }
+  );
+
+export const uploadShippingTableVersion = (
+  accessToken: string,
+  tableId: string,
+  data: { rows: ShippingTableRow[]; validFrom?: string; validTo?: string; note?: string }
+) =>
+  request<{ table: ShippingTableMeta; version: ShippingTableVersion }>(`/shipping/tables/${tableId}/versions`, {
+    method: "POST",
+    body: JSON.stringify(data),
     headers: { "X-User-Token": accessToken },
   });
 
-// ─── Mercado Pago ───
+/** Disables the version in effect; the previous one takes over */
+export const rollbackShippingTable = (accessToken: string, tableId: string) =>
+  request<{ table: ShippingTableMeta; disabled: { id: string; version: number }; restored: { id: string; version: number } }>(
+    `/shipping/tables/${tableId}/rollback`,
+    {
+      method: "POST",
+      headers: { "X-User-Token": accessToken },
+    }
+  );
 
-// Public: check if Mercado Pago is enabled for checkout (no auth required)
-export const checkMPEnabled = () =>
-  request<{ enabled: boolean; sandbox: boolean; publicKey: string | null }>("/mercadopago/enabled");
+export const setShippingTableVersionDisabled = (
+  accessToken: string,
+  tableId: string,
+  versionId: string,
+  disabled: boolean
+) =>
+  request<{ table: ShippingTableMeta }>(`/shipping/tables/${tableId}/versions/${versionId}`, {
+    method: "PUT",
+    body: JSON.stringify({ disabled }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const saveShippingTablePacking = (
+  accessToken: string,
+  tableId: string,
+  data: { cubicFactor: number; packageLimits: ShippingPackageLimits | null }
+) =>
+  request<ShippingTableMeta>(`/shipping/tables/${tableId}/packing`, {
+    method: "PUT",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const deleteShippingTable = (accessToken: string, tableId: string) =>
+  request<{ ok: boolean }>(`/shipping/tables/${tableId}`, {
+    method: "DELETE",
+    headers: { "X-User-Token": accessToken },
+  });
+
+// ── Shipping simulator / quote replay ──
+
+export type ShippingQuoteStatus = "quoted" | "free" | "disabled" | "oversize" | "manual_quote" | "no_rule" | "no_row" | "api_error";
+
+/** Why one carrier/table/API service got (or didn't get) its price */
+export interface ShippingQuoteBreakdown {
+  carrierId: string;
+  carrierName: string;
+  source: "manual" | "table" | "api" | "pickup";
+  status: ShippingQuoteStatus;
+  price?: number;
+  deliveryDays?: number;
+  freeReason?: string;
+  rule?: { level: "state" | "region" | "default"; key: string; basePrice: number; pricePerKg: number; pricePerItem: number; deliveryDays: number };
+  rows?: Array<{ billedWeight: number; row: ShippingTableRow | null }>;
+  tableVersion?: { id: string; version: number };
+  plan?: Omit<ShippingPackingPlan, "carrierId" | "carrierName" | "source">;
+  api?: { options: any[]; error?: string };
+}
+
+export interface ShippingQuoteInput {
+  cep: string;
+  uf: string;
+  region: string;
+  localidade: string;
+  cepFallback: boolean;
+  items: Array<{ sku: string; quantity: number; price: number; weight: number; length: number; width: number; height: number; source?: string }>;
+  totalItems: number;
+  totalWeight: number;
+  defaultWeight: number;
+  orderValue: number;
+}
+
+export interface ShippingQuoteSide {
+  label: string;
+  calcMode: ShippingCalcMode | null;
+  breakdown: ShippingQuoteBreakdown[];
+  options?: ShippingOption[];
+}
+
+export interface ShippingQuoteDiffRow {
+  carrierId: string;
+  carrierName: string;
+  source: string;
+  change: "same" | "price" | "days" | "added" | "removed" | "status";
+  before: { status: ShippingQuoteStatus; price: number | null; deliveryDays: number | null } | null;
+  after: { status: ShippingQuoteStatus; price: number | null; deliveryDays: number | null } | null;
+  delta: number | null;
+}
+
+export interface ShippingSimulationResult {
+  input: ShippingQuoteInput;
+  /** Present when replaying a stored quote */
+  quote?: { id: string; createdAt: number; calcMode: ShippingCalcMode | null; configUpdatedAt: number | null; configChangedSince: boolean };
+  before: ShippingQuoteSide;
+  /** What-if: moment used to pick the freight table versions */
+  at?: number;
+  after: ShippingQuoteSide | null;
+  diff: ShippingQuoteDiffRow[] | null;
+}
+
+/** Replays a stored quote (quoteId) or a what-if cart; draftConfig = unsaved edits */
+export const adminSimulateShipping = (
+  accessToken: string,
+  data: {
+    quoteId?: string;
+    cep?: string;
+    items?: Array<{ sku: string; quantity: number }>;
+    totalValue?: number;
+    /** What-if only: ISO date to preview scheduled freight table versions */
+    at?: string;
+    draftConfig?: ShippingConfig | null;
+  }
+) =>
+  request<ShippingSimulationResult>("/admin/shipping/simulate", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+// ─── Mercado Pago ───
+
+// Public: check if Mercado Pago is enabled for checkout (no auth required)
+export const checkMPEnabled = () =>
+  request<{ enabled: boolean; sandbox: boolean; publicKey: string | null }>("/mercadopago/enabled");
 
 // Process credit card payment via Checkout Transparente
 export interface MPCardPaymentPayload {
@@ -3604,6 +4867,8 @@ export interface MPCardPaymentPayload {
   payer_cpf?: string;
   issuer_id?: string;
   items?: Array<{ sku: string; quantity: number; unit_price: number }>;
+  couponCode?: string;
+  shippingOption?: { carrierId: string; carrierName: string; price: number; shippingQuoteId?: string };
 }
 export interface MPCardPaymentResult {
   success: boolean;
@@ -3742,6 +5007,9 @@ export interface MPCreatePreferencePayload {
   }>;
   shipping_cost?: number;
   shippingQuoteId?: string;
+  /** Line discounts are applied server-side (promo engine) — send undiscounted unit prices */
+  couponCode?: string;
+  shippingCarrierId?: string;
   back_urls?: {
     success: string;
     failure: string;
@@ -3781,6 +5049,9 @@ export interface SuperPromoProduct {
   customDiscountValue?: number | null;
 }
 
+/** Where the campaign carousel appears on the homepage ("none" = prices/badges only) */
+export type PromoHomepageSlot = "top" | "middle" | "none";
+
 export interface SuperPromo {
   id: string;
   title: string;
@@ -3788,6 +5059,9 @@ export interface SuperPromo {
   enabled: boolean;
   startDate: number;
   endDate: number;
+  /** 0-100 — when campaigns overlap, the highest priority wins each SKU */
+  priority?: number;
+  homepageSlot?: PromoHomepageSlot;
   discountType: "percentage" | "fixed";
   discountValue: number;
   bgColor: string;
@@ -3796,6 +5070,28 @@ export interface SuperPromo {
   updatedAt?: number;
 }
 
+export type PromoCampaignStatus = "active" | "scheduled" | "ended" | "disabled" | "empty";
+
+export interface AdminPromoCampaign extends SuperPromo {
+  status: PromoCampaignStatus;
+}
+
+export interface PromoSlots {
+  top: string | null;
+  middle: string | null;
+}
+
+/**
+ * Active campaigns as resolved by the server: each SKU appears in exactly one
+ * campaign (the winner), `promo` is the campaign in the homepage "top" slot.
+ */
+export interface ActiveSuperPromos {
+  promo: SuperPromo | null;
+  campaigns?: SuperPromo[];
+  slots?: PromoSlots;
+  skuCampaigns?: Record<string, string>;
+}
+
 /**
  * Compute effective promo price for a product.
  * Priority: 1) direct promoPrice override, 2) custom per-product discount, 3) global promo discount.
@@ -3832,9 +5128,29 @@ export function computePromoPrice(
   return { promoPrice: promoResult, discountLabel: discountLabel };
 }
 
-/** Public — get the currently active promo (if any) */
+/**
+ * Winning campaign for a SKU among server-resolved campaigns.
+ * Re-checks the window client-side so a cached payload stops applying at endDate.
+ */
+export function findSuperPromoForSku(
+  campaigns: SuperPromo[] | null | undefined,
+  sku: string
+): { promo: SuperPromo; product: SuperPromoProduct } | null {
+  if (!campaigns || !sku) return null;
+  var now = Date.now();
+  for (var i = 0; i < campaigns.length; i++) {
+    var c = campaigns[i];
+    if (!c || !c.enabled || now < c.startDate || now > c.endDate || !c.products) continue;
+    for (var j = 0; j < c.products.length; j++) {
+      if (c.products[j].sku === sku) return { promo: c, product: c.products[j] };
+    }
+  }
+  return null;
+}
+
+/** Public — active campaigns, resolved per SKU, plus homepage slots */
 export const getActivePromo = () =>
-  request<{ promo: SuperPromo | null }>("/promo/active");
+  request<ActiveSuperPromos>("/promo/active");
 
 /** Debug — diagnose why promo isn't showing */
 export const debugPromo = () =>
@@ -3844,23 +5160,37 @@ export const debugPromo = () =>
 export const debugPromoActiveTest = () =>
   request<any>("/promo/active-test");
 
-/** Admin — get full promo config */
+/** Admin — campaign currently shown in the homepage "top" slot */
 export const getAdminPromo = (accessToken: string) =>
   request<{ promo: SuperPromo | null }>("/admin/promo", {
     headers: { "X-User-Token": accessToken },
   });
 
-/** Admin — save promo config */
-export const saveAdminPromo = (accessToken: string, promo: Partial<SuperPromo>) =>
-  request<{ promo: SuperPromo }>("/admin/promo", {
+/** Admin — all campaigns (past, running, upcoming) with the current per-SKU resolution */
+export const getAdminPromoCampaigns = (accessToken: string) =>
+  request<{ campaigns: AdminPromoCampaign[]; skuCampaigns: Record<string, string>; slots: PromoSlots; now: number }>("/admin/promo/campaigns", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** Admin — create a campaign */
+export const createAdminPromoCampaign = (accessToken: string, campaign: Partial<SuperPromo>) =>
+  request<{ campaign: AdminPromoCampaign }>("/admin/promo/campaigns", {
     method: "POST",
-    body: JSON.stringify(promo),
+    body: JSON.stringify(campaign),
     headers: { "X-User-Token": accessToken },
   });
 
-/** Admin — delete promo */
-export const deleteAdminPromo = (accessToken: string) =>
-  request<{ deleted: boolean }>("/admin/promo", {
+/** Admin — update a campaign */
+export const updateAdminPromoCampaign = (accessToken: string, id: string, campaign: Partial<SuperPromo>) =>
+  request<{ campaign: AdminPromoCampaign }>("/admin/promo/campaigns/" + encodeURIComponent(id), {
+    method: "PUT",
+    body: JSON.stringify(campaign),
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** Admin — delete a campaign */
+export const deleteAdminPromoCampaign = (accessToken: string, id: string) =>
+  request<{ deleted: boolean }>("/admin/promo/campaigns/" + encodeURIComponent(id), {
     method: "DELETE",
     headers: { "X-User-Token": accessToken },
   });
@@ -4152,7 +5482,11 @@ export interface HomepageInitData {
   ga4Config: GA4Config;
   categoryTree: CategoryNode[];
   categoryCounts?: Record<string, number>;
+  /** Campaign in the homepage "top" slot */
   promo: SuperPromo | null;
+  /** All active campaigns, each with only the SKUs it won */
+  promoCampaigns?: SuperPromo[];
+  promoSlots?: PromoSlots;
   priceConfig: PriceConfig;
   homepageCategories?: HomepageCategoryCard[];
   midBanners?: MidBanner[];
@@ -4278,10 +5612,12 @@ export const getAbandonedCarts = (accessToken: string) =>
     headers: { "X-User-Token": accessToken },
   });
 
-export const saveCartSnapshot = (data: { phone?: string; email?: string; name?: string; items: any[]; totalPrice: number }) =>
+/** With accessToken the snapshot only references the server cart (/user/cart) — no items copy */
+export const saveCartSnapshot = (data: { phone?: string; email?: string; name?: string; items: any[]; totalPrice: number }, accessToken?: string) =>
   request<{ ok: boolean }>("/whatsapp/cart-snapshot", {
     method: "POST",
     body: JSON.stringify(data),
+    headers: accessToken ? { "X-User-Token": accessToken } : undefined,
   });
 
 export const markCartCompleted = (data: { phone?: string; email?: string }) =>
@@ -4298,10 +5634,16 @@ export interface EmktSubscriber {
   name: string;
   tags: string[];
   active: boolean;
+  /** Why it stopped receiving (absent when deactivated by hand) */
+  inactiveReason?: EmktInactiveReason | null;
+  inactiveAt?: number | null;
+  lastBounce?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+export type EmktInactiveReason = "unsubscribe" | "bounce" | "complaint";
+
 export interface EmktTemplate {
   id: string;
   name: string;
@@ -4321,7 +5663,15 @@ export interface EmktCampaign {
   senderEmail: string;
   replyTo: string;
   targetTags: string[];
-  status: "draft" | "sending" | "sent";
+  /** Only subscribers in this customer segment (null = all active subscribers) */
+  segmentId?: string | null;
+  status: EmktCampaignStatus;
+  /** Start time for status "scheduled" */
+  scheduledAt?: number | null;
+  /** Why a scheduled send could not start (campaign went back to draft) */
+  scheduleError?: string | null;
+  /** Send queue progress, from the moment the send starts */
+  queue?: EmktQueueProgress | null;
   totalSent: number;
   totalFailed: number;
   sentAt: number | null;
@@ -4329,6 +5679,33 @@ export interface EmktCampaign {
   updatedAt: number;
 }
 
+export type EmktCampaignStatus = "draft" | "scheduled" | "sending" | "paused" | "sent" | "cancelled";
+export type EmktRecipientStatus = "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+export interface EmktQueueProgress {
+  total: number;
+  /** Pending or being sent */
+  open: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+  startedAt: number;
+  finishedAt: number | null;
+  lastBatchAt: number | null;
+  lastError: string | null;
+}
+
+export interface EmktRecipient {
+  email: string;
+  name: string;
+  status: EmktRecipientStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  sentAt: number | null;
+  lastError: string | null;
+  messageId: string | null;
+}
+
 export interface EmktSendLog {
   id: string;
   campaignId: string;
@@ -4337,6 +5714,10 @@ export interface EmktSendLog {
   totalRecipients: number;
   totalSent: number;
   totalFailed: number;
+  /** Queued sends only */
+  status?: "sent" | "cancelled";
+  totalCancelled?: number;
+  startedAt?: number;
   errors: string[];
   sentAt: number;
 }
@@ -4351,6 +5732,46 @@ export interface EmktConfig {
   defaultSenderName: string;
   defaultSenderEmail: string;
   defaultReplyTo: string;
+  /** Local dev SMTP (no credentials needed) */
+  smtpLocal: boolean;
+  maxPerMinute: number;
+  maxPerHour: number;
+  maxAttempts: number;
+  /** Topics on the subscriber preferences page (tag = subscriber tag) */
+  preferenceTopics: EmktPreferenceTopic[];
+  /** Endpoint for provider bounce/complaint notifications (key included) */
+  bounceWebhookUrl: string;
+}
+
+export interface EmktPreferenceTopic {
+  tag: string;
+  label: string;
+}
+
+export interface EmktCampaignStats {
+  recipients: number;
+  sent: number;
+  opens: number;
+  uniqueOpens: number;
+  clicks: number;
+  uniqueClicks: number;
+  unsubscribes: number;
+  bounces: number;
+  complaints: number;
+  /** 0..1 of sent */
+  openRate: number;
+  clickRate: number;
+  links: Array<{ index: number; url: string; uniqueClicks: number }>;
+  /** Orders placed by clickers within the attribution window */
+  conversions: { buyers: number; orders: number; revenue: number; rate: number };
+}
+
+export interface EmailPreferences {
+  /** Masked ("jo***@gmail.com") */
+  email: string;
+  active: boolean;
+  inactiveReason: EmktInactiveReason | null;
+  topics: Array<EmktPreferenceTopic & { selected: boolean }>;
 }
 
 // Subscribers
@@ -4445,12 +5866,37 @@ export const sendEmktTestEmail = (accessToken: string, campaignId: string, testE
     headers: { "X-User-Token": accessToken },
   });
 
-export const sendEmktCampaign = (accessToken: string, campaignId: string) =>
-  request<{ ok: boolean; totalSent: number; totalFailed: number; totalRecipients: number; errors: string[] }>("/admin/email-marketing/campaigns/" + encodeURIComponent(campaignId) + "/send", {
+/** Queues the campaign: now, or at scheduledAt (epoch ms) */
+export const sendEmktCampaign = (accessToken: string, campaignId: string, scheduledAt?: number | null) =>
+  request<{ ok: boolean; status: "sending" | "scheduled"; scheduledAt: number | null; totalRecipients: number }>("/admin/email-marketing/campaigns/" + encodeURIComponent(campaignId) + "/send", {
+    method: "POST",
+    body: JSON.stringify({ scheduledAt: scheduledAt || null }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const controlEmktCampaign = (accessToken: string, campaignId: string, action: "pause" | "resume" | "cancel") =>
+  request<{ ok: boolean; campaign: EmktCampaign }>("/admin/email-marketing/campaigns/" + encodeURIComponent(campaignId) + "/" + action, {
     method: "POST",
     headers: { "X-User-Token": accessToken },
   });
 
+export const getEmktCampaignRecipients = (accessToken: string, campaignId: string, params: { status?: string; q?: string; offset?: number; limit?: number } = {}) => {
+  var qs = new URLSearchParams();
+  if (params.status) qs.set("status", params.status);
+  if (params.q) qs.set("q", params.q);
+  if (params.offset) qs.set("offset", String(params.offset));
+  if (params.limit) qs.set("limit", String(params.limit));
+  var query = qs.toString();
+  return request<{ recipients: EmktRecipient[]; total: number; progress: EmktQueueProgress | null }>("/admin/email-marketing/campaigns/" + encodeURIComponent(campaignId) + "/recipients" + (query ? "?" + query : ""), {
+    headers: { "X-User-Token": accessToken },
+  });
+};
+
+export const getEmktCampaignStats = (accessToken: string, campaignId: string) =>
+  request<{ stats: EmktCampaignStats; attributionDays: number }>("/admin/email-marketing/campaigns/" + encodeURIComponent(campaignId) + "/stats", {
+    headers: { "X-User-Token": accessToken },
+  });
+
 export const duplicateEmktCampaign = (accessToken: string, campaignId: string) =>
   request<{ ok: boolean; campaign: EmktCampaign }>("/admin/email-marketing/campaigns/" + encodeURIComponent(campaignId) + "/duplicate", {
     method: "POST",
@@ -4478,6 +5924,8 @@ export const getEmktConfig = (accessToken: string) =>
 export const updateEmktConfig = (accessToken: string, data: {
   smtpHost?: string; smtpPort?: number; smtpUser?: string; smtpPass?: string; smtpSecure?: boolean;
   defaultSenderName?: string; defaultSenderEmail?: string; defaultReplyTo?: string;
+  maxPerMinute?: number; maxPerHour?: number; maxAttempts?: number;
+  preferenceTopics?: EmktPreferenceTopic[];
 }) =>
   request<{ ok: boolean; config: any }>("/admin/email-marketing/config", {
     method: "PUT",
@@ -4501,9 +5949,139 @@ export const sendSmtpTestEmail = (accessToken: string, to: string) =>
     headers: { "X-User-Token": accessToken },
   });
 
+// Subscriber preferences (signed link from the campaign e-mail, no login)
+export const getEmailPreferences = (token: string) =>
+  request<EmailPreferences>("/email-prefs?token=" + encodeURIComponent(token));
+
+export const saveEmailPreferences = (token: string, data: { active: boolean; tags?: string[] }) =>
+  request<{ ok: boolean } & EmailPreferences>("/email-prefs", {
+    method: "PUT",
+    body: JSON.stringify({ token: token, active: data.active, tags: data.tags }),
+  });
+
+// ─── Customer Segments ───
+
+export type SegmentRuleType = "bought_category" | "cart_abandoned" | "favorited" | "vehicle" | "person_type" | "no_purchase";
+
+export interface SegmentRule {
+  type: SegmentRuleType;
+  not?: boolean;
+  category?: string;
+  days?: number;
+  minValue?: number;
+  skus?: string[];
+  make?: string;
+  model?: string;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  value?: "pf" | "pj";
+  everBought?: boolean;
+}
+
+export interface SegmentDefinition {
+  match: "all" | "any";
+  rules: SegmentRule[];
+}
+
+export interface CustomerSegment {
+  id: string;
+  name: string;
+  description: string;
+  definition: SegmentDefinition;
+  lastCount: number | null;
+  lastCountAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SegmentPreview {
+  total: number;
+  registered: number;
+  guests: number;
+  withEmail: number;
+  withPhone: number;
+  /** Opted in to WhatsApp offers and not opted out (what a broadcast reaches) */
+  whatsappReach: number;
+  /** Members that are active email marketing subscribers */
+  subscribers: number;
+  sample: Array<{ name: string; email: string; phone: string | null; registered: boolean }>;
+}
+
+export const getCustomerSegments = (accessToken: string) =>
+  request<{ segments: CustomerSegment[] }>("/admin/segments", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const previewCustomerSegment = (accessToken: string, definition: SegmentDefinition) =>
+  request<{ preview: SegmentPreview }>("/admin/segments/preview", {
+    method: "POST",
+    body: JSON.stringify({ definition }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const createCustomerSegment = (accessToken: string, data: { name: string; description: string; definition: SegmentDefinition }) =>
+  request<{ ok: boolean; segment: CustomerSegment }>("/admin/segments", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const updateCustomerSegment = (accessToken: string, id: string, data: { name: string; description: string; definition: SegmentDefinition }) =>
+  request<{ ok: boolean; segment: CustomerSegment }>("/admin/segments/" + encodeURIComponent(id), {
+    method: "PUT",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const deleteCustomerSegment = (accessToken: string, id: string) =>
+  request<{ ok: boolean; deleted: string }>("/admin/segments/" + encodeURIComponent(id), {
+    method: "DELETE",
+    headers: { "X-User-Token": accessToken },
+  });
+
+export interface WhatsAppBroadcast {
+  id: string;
+  segmentId: string;
+  segmentName: string;
+  message: string;
+  status: "sending" | "sent" | "cancelled";
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt: number | null;
+  totals: { total: number; pending: number; sent: number; failed: number; cancelled: number };
+  /** First failures */
+  errors: Array<{ phone: string; error: string }>;
+}
+
+export const getWhatsAppBroadcasts = (accessToken: string) =>
+  request<{ broadcasts: WhatsAppBroadcast[] }>("/admin/whatsapp-broadcasts", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const createWhatsAppBroadcast = (accessToken: string, data: { segmentId: string; message: string }) =>
+  request<{ ok: boolean; broadcast: WhatsAppBroadcast }>("/admin/whatsapp-broadcasts", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const cancelWhatsAppBroadcast = (accessToken: string, id: string) =>
+  request<{ ok: boolean; broadcast: WhatsAppBroadcast }>("/admin/whatsapp-broadcasts/" + encodeURIComponent(id) + "/cancel", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+  });
+
+/** Opt-out link at the end of WhatsApp broadcasts (no login) */
+export const optOutWhatsAppByToken = (token: string) =>
+  request<{ ok: boolean }>("/whatsapp/optout", {
+    method: "POST",
+    body: JSON.stringify({ token: token }),
+  });
+
 // ─── Transactional Email Testing ───
 
-export type TransactionalEmailType = "order_confirmation" | "payment_approved" | "admin_new_order" | "shipping_notification" | "abandoned_cart" | "warranty_certificate" | "admin_password_recovery" | "user_password_recovery";
+export type TransactionalEmailType = "order_confirmation" | "payment_approved" | "admin_new_order" | "shipping_notification" | "abandoned_cart" | "warranty_certificate" | "admin_password_recovery" | "user_password_recovery" | "pickup_ready" | "back_in_stock" | "price_drop";
 
 export const sendTransactionalTestEmail = (accessToken: string, type: TransactionalEmailType, toEmail: string) =>
   request<{ ok: boolean; message: string }>("/admin/email-test/send", {
@@ -4521,7 +6099,9 @@ export const previewTransactionalEmail = (accessToken: string, type: Transaction
 
 export interface DashboardStats {
   totalOrders: number;
+  /** Net of refunds (sum of total - refundedTotal) */
   totalRevenue: number;
+  totalRefunded?: number;
   avgOrderValue: number;
   totalProducts: number;
   activeProducts: number;
@@ -4542,6 +6122,8 @@ export interface DashboardStats {
     orders: number;
     revenue: number;
   }>;
+  /** Scheduled SIGE sync; null when it could not be read */
+  sigeSync?: SigeSyncHealth | null;
 }
 
 export const getDashboardStats = (accessToken: string) =>
@@ -4556,6 +6138,12 @@ export interface AdminPendingCounts {
   reviews: number;
   lgpd: number;
   affiliates?: number;
+  vehicles?: number;
+  returns?: number;
+  warrantyClaims?: number;
+  approvals?: number;
+  /** Product questions and customer answers awaiting moderation */
+  questions?: number;
 }
 
 export const getAdminPendingCounts = (accessToken: string) =>
@@ -4613,11 +6201,31 @@ export const reorderFaq = (accessToken: string, ids: string[]) =>
 
 // ─── Cupons de Desconto ───
 
+// Rule types evaluated server-side by the promo engine (promo_engine.ts)
+export type CouponDiscountType = "percentage" | "fixed" | "buy_x_get_y" | "progressive" | "free_shipping";
+
+export interface CouponScope {
+  categories: string[];
+  brands: string[];
+  skus: string[];
+}
+
 export interface Coupon {
   code: string;
   description: string;
-  discountType: "percentage" | "fixed";
+  discountType: CouponDiscountType;
   discountValue: number;
+  /** Cap for the items discount (R$); 0 = no cap */
+  maxDiscount?: number;
+  scope?: CouponScope;
+  excludeSuperPromo?: boolean;
+  firstPurchaseOnly?: boolean;
+  buyQty?: number;
+  getQty?: number;
+  getDiscountPercent?: number;
+  progressiveTiers?: Array<{ minQty: number; percent: number }>;
+  /** Carrier ids (shipping config); empty = any carrier */
+  freeShippingCarriers?: string[];
   minOrderValue: number;
   maxUses: number;
   usedCount: number;
@@ -4656,28 +6264,87 @@ export const deleteCoupon = (accessToken: string, code: string) =>
 export interface PublicCoupon {
   code: string;
   description: string;
-  discountType: "percentage" | "fixed";
+  discountType: CouponDiscountType;
   discountValue: number;
   minOrderValue: number;
+  maxDiscount?: number;
+  buyQty?: number;
+  getQty?: number;
+  getDiscountPercent?: number;
+  progressiveTiers?: Array<{ minQty: number; percent: number }>;
+  scoped?: boolean;
+  excludeSuperPromo?: boolean;
+  firstPurchaseOnly?: boolean;
   expiresAt: string | null;
   singleUsePerCpf: boolean;
 }
 
+/** Coupon card headline: small prefix, big value, small suffix ("10%" "OFF", "LEVE" "3" "PAGUE 2"...) */
+export function couponHeadline(coupon: PublicCoupon): { prefix: string; value: string; suffix: string } {
+  var buy = coupon.buyQty || 0;
+  var get = coupon.getQty || 0;
+  switch (coupon.discountType) {
+    case "fixed":
+      return { prefix: "R$", value: coupon.discountValue.toFixed(0), suffix: "OFF" };
+    case "buy_x_get_y":
+      if ((coupon.getDiscountPercent ?? 100) >= 100) return { prefix: "LEVE", value: String(buy + get), suffix: "PAGUE " + buy };
+      return { prefix: "LEVE " + (buy + get), value: (coupon.getDiscountPercent || 0) + "%", suffix: "OFF EM " + get };
+    case "progressive": {
+      var tiers = coupon.progressiveTiers || [];
+      var best = tiers.length > 0 ? tiers[tiers.length - 1].percent : 0;
+      return { prefix: "ATÉ", value: best + "%", suffix: "OFF" };
+    }
+    case "free_shipping":
+      return { prefix: "", value: "FRETE", suffix: "GRÁTIS" };
+    default:
+      return { prefix: "", value: coupon.discountValue + "%", suffix: "OFF" };
+  }
+}
+
 export const getPublicCoupons = () =>
   request<{ coupons: PublicCoupon[] }>("/coupons/public");
 
-export const validateCoupon = (code: string, orderTotal: number, cpf?: string) =>
-  request<{
-    valid: boolean;
-    code?: string;
-    discountType?: "percentage" | "fixed";
-    discountValue?: number;
-    discountAmount?: number;
-    description?: string;
-    error?: string;
-  }>("/coupons/validate", {
+export interface CouponValidation {
+  valid: boolean;
+  code?: string;
+  discountType?: CouponDiscountType;
+  discountValue?: number;
+  /** itemsDiscount + shippingDiscount */
+  discountAmount?: number;
+  itemsDiscount?: number;
+  shippingDiscount?: number;
+  freeShipping?: boolean;
+  /** sku → discount (R$) on that cart line */
+  lineDiscounts?: Record<string, number>;
+  eligibleSkus?: string[];
+  /** e.g. free shipping waiting for an eligible carrier */
+  note?: string | null;
+  description?: string;
+  error?: string;
+}
+
+// Pass the cart lines + selected shipping so the server evaluates the coupon rules
+// (scope, leve X pague Y, progressivo, frete gratis) exactly like the payment routes do.
+export const validateCoupon = (
+  code: string,
+  orderTotal: number,
+  cpf?: string,
+  opts?: {
+    items?: Array<{ sku: string; quantity: number; unitPrice: number }>;
+    shipping?: { carrierId: string; price: number } | null;
+    accessToken?: string | null;
+  }
+) =>
+  request<CouponValidation>("/coupons/validate", {
     method: "POST",
-    body: JSON.stringify({ code, orderTotal, cpf: cpf || undefined }),
+    body: JSON.stringify({
+      code,
+      orderTotal,
+      cpf: cpf || undefined,
+      items: opts && opts.items ? opts.items : undefined,
+      shipping: opts && opts.shipping ? opts.shipping : undefined,
+    }),
+    headers: opts && opts.accessToken ? { "X-User-Token": opts.accessToken } : undefined,
   });
 
 export const useCoupon = (code: string, accessToken?: string | null, cpf?: string) =>
@@ -4844,10 +6511,12 @@ export const submitReview = (
 export const uploadReviewImage = async (
   reviewId: string,
   file: File,
-  accessToken: string
+  accessToken: string,
+  inviteToken?: string
 ) => {
   const formData = new FormData();
   formData.append("file", file);
+  if (inviteToken) formData.append("inviteToken", inviteToken);
 
   const res = await fetch(
     _authUrl("/reviews/" + encodeURIComponent(reviewId) + "/images", accessToken),
@@ -4876,6 +6545,79 @@ export const getUserReviews = (accessToken: string) =>
     headers: { "X-User-Token": accessToken },
   });
 
+// ─── Review requests (signed link from the post-purchase message, no login) ───
+
+export interface ReviewInvite {
+  name: string;
+  orderId: string;
+  items: Array<{ sku: string; titulo: string; reviewed: boolean }>;
+  /** Reward label ("10%", "R$ 20,00") while the order hasn't earned one yet */
+  reward: string | null;
+}
+
+export const getReviewInvite = (token: string) =>
+  request<ReviewInvite>("/review-invite?token=" + encodeURIComponent(token));
+
+export const submitInviteReview = (
+  token: string,
+  data: { sku: string; rating: number; title: string; comment: string }
+) =>
+  request<{ ok: boolean; reviewId: string; status: string }>("/review-invite/reviews", {
+    method: "POST",
+    body: JSON.stringify({ ...data, token: token }),
+  });
+
+// ─── Product Q&A (perguntas e respostas) ───
+
+export type ProductQaStatus = "pending" | "approved" | "rejected";
+export type ProductQaAuthorType = "store" | "buyer";
+
+export interface ProductQuestionAnswer {
+  id: string;
+  text: string;
+  authorName: string;
+  /** "buyer" = customer who bought the product */
+  authorType: ProductQaAuthorType;
+  createdAt: number;
+}
+
+export interface ProductQuestion {
+  id: string;
+  question: string;
+  askerName: string;
+  createdAt: number;
+  answers: ProductQuestionAnswer[];
+}
+
+/** Published Q&A; canAnswer when the logged-in customer bought the product */
+export const getProductQuestions = (sku: string, accessToken?: string | null) =>
+  request<{ sku: string; questions: ProductQuestion[]; total: number; canAnswer: boolean }>(
+    "/product-questions/" + encodeURIComponent(sku),
+    { headers: accessToken ? { "X-User-Token": accessToken } : {} }
+  );
+
+/** Ask about a product (guest with name + e-mail, or logged in with accessToken) */
+export const askProductQuestion = (
+  data: { sku: string; question: string; name?: string; email?: string },
+  accessToken?: string | null
+) =>
+  request<{ ok: boolean; questionId: string; status: ProductQaStatus }>("/product-questions", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: accessToken ? { "X-User-Token": accessToken } : {},
+  });
+
+/** Answer from a customer who bought the product (goes to moderation) */
+export const answerProductQuestion = (accessToken: string, sku: string, questionId: string, text: string) =>
+  request<{ ok: boolean; answerId: string; status: ProductQaStatus }>(
+    "/product-questions/" + encodeURIComponent(sku) + "/" + encodeURIComponent(questionId) + "/answers",
+    {
+      method: "POST",
+      body: JSON.stringify({ text: text }),
+      headers: { "X-User-Token": accessToken },
+    }
+  );
+
 // ─── Admin Reviews (Moderation) ───
 
 export const getAdminReviews = (accessToken: string, status?: string) => {
@@ -4896,7 +6638,7 @@ export const moderateReview = (
   reviewId: string,
   data: { action: "approve" | "reject"; note?: string; imageActions?: Record<string, string> }
 ) =>
-  request<{ ok: boolean; reviewId: string; status: string }>(
+  request<{ ok: boolean; reviewId: string; status: string; rewardCode?: string | null }>(
     "/admin/reviews/" + encodeURIComponent(reviewId) + "/moderate",
     {
       method: "PUT",
@@ -4914,6 +6656,158 @@ export const deleteReview = (accessToken: string, reviewId: string) =>
     }
   );
 
+// ─── Admin: Review requests (post-purchase) ───
+
+export type ReviewRequestChannel = "email" | "whatsapp";
+export type ReviewRequestDelivery = "sent" | "failed" | "skipped";
+
+export interface ReviewRequestSettings {
+  enabled: boolean;
+  trigger: "delivered" | "shipped";
+  daysAfter: number;
+  channels: { email: boolean; whatsapp: boolean };
+  reward: {
+    enabled: boolean;
+    discountType: "percentage" | "fixed";
+    discountValue: number;
+    minOrderValue: number;
+    validDays: number;
+  };
+  updatedAt: number | null;
+}
+
+export interface ReviewChannelStats {
+  sent: number;
+  clicked: number;
+  converted: number;
+  reviews: number;
+  conversionRate: number;
+}
+
+export interface ReviewRequestStats {
+  total: number;
+  scheduled: number;
+  sent: number;
+  skipped: number;
+  rewards: number;
+  channels: Record<ReviewRequestChannel, ReviewChannelStats>;
+}
+
+export interface ReviewRequestRow {
+  userId: string;
+  orderId: string;
+  name: string;
+  email: string;
+  hasPhone: boolean;
+  status: "scheduled" | "sent" | "skipped";
+  dueAt: number;
+  sentAt: number | null;
+  delivery: Record<ReviewRequestChannel, ReviewRequestDelivery>;
+  clicks: Record<ReviewRequestChannel, number>;
+  items: Array<{ sku: string; titulo: string; reviewed: boolean; channel: ReviewRequestChannel | null }>;
+  error: string | null;
+  rewardCode: string | null;
+}
+
+export const getReviewRequests = (accessToken: string) =>
+  request<{ settings: ReviewRequestSettings; stats: ReviewRequestStats; requests: ReviewRequestRow[] }>("/admin/review-requests", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const saveReviewRequestSettings = (accessToken: string, settings: Partial<ReviewRequestSettings>) =>
+  request<{ ok: boolean; settings: ReviewRequestSettings }>("/admin/review-requests/settings", {
+    method: "PUT",
+    body: JSON.stringify(settings),
+    headers: { "X-User-Token": accessToken },
+  });
+
+// ─── Admin: Product Q&A (moderation) ───
+
+export type ProductQaFilter = "pending" | "approved" | "rejected" | "unanswered" | "all";
+
+export interface AdminProductAnswer {
+  id: string;
+  text: string;
+  authorName: string;
+  authorType: ProductQaAuthorType;
+  userId: string | null;
+  status: ProductQaStatus;
+  createdAt: number;
+  moderatedAt?: number;
+  moderatedBy?: string;
+  notifiedAt?: number;
+}
+
+export interface AdminProductQuestion {
+  id: string;
+  sku: string;
+  titulo: string;
+  question: string;
+  askerName: string;
+  askerEmail: string;
+  userId: string | null;
+  status: ProductQaStatus;
+  createdAt: number;
+  moderatedAt?: number;
+  moderatedBy?: string;
+  answers: AdminProductAnswer[];
+}
+
+export interface ProductQaTotals {
+  pending: number;
+  approved: number;
+  rejected: number;
+  pendingAnswers: number;
+  unanswered: number;
+}
+
+/** Question changes return the updated question and whether the asker was e-mailed */
+type ProductQaWriteResult = { ok: boolean; question: AdminProductQuestion; notified: boolean };
+
+function _qaAdminPath(sku: string, questionId: string): string {
+  return "/admin/product-questions/" + encodeURIComponent(sku) + "/" + encodeURIComponent(questionId);
+}
+
+export const getAdminProductQuestions = (accessToken: string, status: ProductQaFilter, search?: string) =>
+  request<{ questions: AdminProductQuestion[]; total: number; totals: ProductQaTotals; pending: number }>(
+    "/admin/product-questions?status=" + status + (search ? "&q=" + encodeURIComponent(search) : ""),
+    { headers: { "X-User-Token": accessToken } }
+  );
+
+/** Approve/reject a question; answer (approve only) publishes a store answer in the same step */
+export const moderateProductQuestion = (accessToken: string, sku: string, questionId: string, data: { action: "approve" | "reject"; answer?: string }) =>
+  request<ProductQaWriteResult>(_qaAdminPath(sku, questionId) + "/moderate", {
+    method: "PUT",
+    body: JSON.stringify(data),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const addStoreAnswer = (accessToken: string, sku: string, questionId: string, text: string) =>
+  request<ProductQaWriteResult>(_qaAdminPath(sku, questionId) + "/answers", {
+    method: "POST",
+    body: JSON.stringify({ text: text }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const moderateProductAnswer = (accessToken: string, sku: string, questionId: string, answerId: string, action: "approve" | "reject") =>
+  request<ProductQaWriteResult>(_qaAdminPath(sku, questionId) + "/answers/" + encodeURIComponent(answerId) + "/moderate", {
+    method: "PUT",
+    body: JSON.stringify({ action: action }),
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const deleteProductQuestion = (accessToken: string, sku: string, questionId: string) =>
+  request<{ ok: boolean; deleted: string }>(_qaAdminPath(sku, questionId), {
+    method: "DELETE",
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const deleteProductAnswer = (accessToken: string, sku: string, questionId: string, answerId: string) =>
+  request<{ ok: boolean; question: AdminProductQuestion }>(_qaAdminPath(sku, questionId) + "/answers/" + encodeURIComponent(answerId), {
+    method: "DELETE",
+    headers: { "X-User-Token": accessToken },
+  });
+
 // ─── Garantia Estendida (Extended Warranty) ───
 
 export interface WarrantyPlan {
@@ -4973,6 +6867,117 @@ export const updateWarrantyPlanSkus = (accessToken: string, id: string, skus: st
 export const getProductWarrantyPlans = (sku: string) =>
   request<{ plans: WarrantyPlanPublic[] }>("/warranty/product/" + encodeURIComponent(sku));
 
+// Sold warranties (derived from paid orders) and warranty claims
+
+export type SoldWarrantyStatus = "active" | "expired" | "lapsed";
+export type WarrantyClaimStatus = "submitted" | "approved" | "denied" | "replacement_sent" | "resolved" | "cancelled";
+
+export interface SoldWarranty {
+  /** Same id as the warranty certificate e-mail: "GE-<orderId>-001" */
+  certificateId: string;
+  orderId: string;
+  userId: string | null;
+  sku: string;
+  titulo: string;
+  planId: string;
+  planName: string;
+  durationMonths: number;
+  price: number;
+  units: number;
+  coveredUnits: number;
+  startsAt: string;
+  expiresAt: string;
+  /** "lapsed" once the order (or the line) is refunded, cancelled or returned */
+  status: SoldWarrantyStatus;
+  lapsedReason?: string;
+}
+
+export interface WarrantyClaimChange {
+  from: WarrantyClaimStatus | null;
+  to: WarrantyClaimStatus;
+  at: string;
+  by: { type: "customer" | "admin" | "system"; id?: string | null; name?: string | null };
+  note?: string;
+}
+
+export interface CustomerWarrantyClaim {
+  id: string;
+  certificateId: string;
+  orderId: string;
+  sku: string;
+  titulo: string;
+  planName: string;
+  status: WarrantyClaimStatus;
+  description: string;
+  history: WarrantyClaimChange[];
+  replacement?: { sku: string | null; trackingCode: string | null; carrierName: string | null; sentAt: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminWarrantyClaim extends Omit<CustomerWarrantyClaim, "replacement"> {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  planId: string;
+  expiresAt: string;
+  replacement?: { sku: string; trackingCode: string | null; carrierName: string | null; sentAt: string; sentBy: string };
+}
+
+export const userGetWarranties = (accessToken: string) =>
+  request<{ warranties: SoldWarranty[]; claims: CustomerWarrantyClaim[] }>("/user/warranties", {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const userCreateWarrantyClaim = (accessToken: string, data: { certificateId: string; description: string }) =>
+  request<{ ok: boolean; claim: CustomerWarrantyClaim }>("/user/warranty-claims", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const userCancelWarrantyClaim = (accessToken: string, claimId: string) =>
+  request<{ ok: boolean; claim: CustomerWarrantyClaim }>("/user/warranty-claims/" + encodeURIComponent(claimId) + "/cancel", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminGetWarrantyRegistry = (accessToken: string, status?: string) =>
+  request<{ warranties: SoldWarranty[]; total: number; counts: Record<SoldWarrantyStatus, number> }>(
+    "/admin/warranty/registry" + (status && status !== "all" ? "?status=" + encodeURIComponent(status) : ""),
+    { headers: { "X-User-Token": accessToken } }
+  );
+
+export const adminGetWarrantyClaims = (accessToken: string, status?: string) =>
+  request<{ claims: AdminWarrantyClaim[]; total: number }>("/admin/warranty/claims" + (status && status !== "all" ? "?status=" + encodeURIComponent(status) : ""), {
+    headers: { "X-User-Token": accessToken },
+  });
+
+export const adminWarrantyClaimDecision = (accessToken: string, claimId: string, data: { action: "approve" | "deny"; note?: string }) =>
+  request<{ ok: boolean; claim: AdminWarrantyClaim }>("/admin/warranty/claims/" + encodeURIComponent(claimId) + "/decision", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const adminWarrantyClaimReplacement = (
+  accessToken: string,
+  claimId: string,
+  data: { sku?: string; trackingCode?: string; carrierName?: string; note?: string }
+) =>
+  request<{ ok: boolean; claim: AdminWarrantyClaim }>("/admin/warranty/claims/" + encodeURIComponent(claimId) + "/replacement", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
+export const adminResolveWarrantyClaim = (accessToken: string, claimId: string, data: { note?: string }) =>
+  request<{ ok: boolean; claim: AdminWarrantyClaim }>("/admin/warranty/claims/" + encodeURIComponent(claimId) + "/resolve", {
+    method: "POST",
+    headers: { "X-User-Token": accessToken },
+    body: JSON.stringify(data),
+  });
+
 // ─── Sistema de Afiliados ───
 
 export interface Affiliate {
@@ -5322,6 +7327,9 @@ export interface Branch {
   active: boolean;
   order: number;
   mapQuery: string;
+  /** SIGE codFilial — stock for "Retire na loja" and filial of pickup orders */
+  sigeCodFilial?: string;
+  pickupEnabled?: boolean;
   imageUrl?: string;
   filename?: string;
   createdAt?: number;
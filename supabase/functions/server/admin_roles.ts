@@ -0,0 +1,288 @@
+// ═══════════════════════════════════════════════════════════════════════
+// ADMIN_ROLES.TS — Papeis de admin com leitura/escrita por recurso (sem KV)
+//
+// admin_roles           → lista de papeis { id, name, permissions: { recurso: nivel } }
+// admin_access:<email>  → { roles: [ids] } atribuidos ao admin
+// admin_perms:<email>   → formato antigo (lista de abas); vale enquanto o admin
+//                         nao tiver admin_access — cada aba vira escrita no recurso
+//
+// Cada rota guardada pelo adminGuard pertence a um recurso (maior prefixo);
+// GET pede "read", o resto pede "write". Rotas sem recurso caem em "sistema".
+// O master tem tudo. Acoes sensiveis (reembolso, config de pagamento, config
+// de precos, gestao de admins) feitas por outro admin nao executam: viram uma
+// solicitacao admin_approval:<id> que o master aprova (a requisicao e repetida
+// com a sessao dele) ou recusa.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type AccessLevel = "none" | "read" | "write";
+
+export interface AdminResource {
+  id: string;
+  label: string;
+  /** Admin panel tabs shown with read access */
+  tabs: string[];
+  /** Route prefixes (path after BASE) */
+  routes: string[];
+}
+
+export interface AdminRole {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: Record<string, AccessLevel>;
+  builtIn?: boolean;
+}
+
+export var ADMIN_RESOURCES: AdminResource[] = [
+  {
+    id: "pedidos", label: "Pedidos e vendas",
+    tabs: ["orders", "sales-control", "returns", "warranty", "warranty-claims", "stock-reservations"],
+    routes: ["/admin/orders", "/admin/update-order-status", "/admin/fix-card-orders", "/admin/revert-blind-fix",
+      "/admin/retry-sige-registration", "/admin/rma", "/admin/warranty", "/admin/sisfrete-delivery", "/admin/stock-reservations"],
+  },
+  {
+    id: "reembolsos", label: "Reembolsos",
+    tabs: [],
+    routes: ["/admin/orders/refund"],
+  },
+  {
+    id: "pagamentos", label: "Pagamentos (PagHiper / Mercado Pago)",
+    tabs: ["paghiper", "mercadopago"],
+    routes: ["/paghiper/config", "/paghiper/transaction", "/mercadopago/config", "/mercadopago/test",
+      "/mercadopago/transactions", "/mercadopago/search-payments"],
+  },
+  {
+    id: "precos", label: "Precos e tabelas de preco",
+    tabs: ["settings"],
+    routes: ["/price-config", "/price-cache", "/admin/price-tiers", "/admin/clients/", "/produtos/custom-prices",
+      "/produtos/preco", "/produtos/precos-cache"],
+  },
+  {
+    id: "catalogo", label: "Catalogo",
+    tabs: ["products", "categories", "attributes", "brands", "vehicles", "dimensions"],
+    routes: ["/produtos/", "/products", "/categories", "/category-tree", "/admin/brands", "/admin/vehicles",
+      "/admin/fitment", "/admin/auto-categorize"],
+  },
+  {
+    id: "clientes", label: "Clientes e atendimento",
+    tabs: ["clients", "reviews", "product-questions", "lgpd-requests"],
+    routes: ["/auth/admin/clients", "/admin/clients", "/admin/reviews", "/admin/review-requests", "/admin/product-questions", "/admin/lgpd-requests", "/messages"],
+  },
+  {
+    id: "marketing", label: "Marketing",
+    tabs: ["coupons", "affiliates", "email-marketing", "transactional-emails", "whatsapp", "exit-intent", "marketing", "influencers", "product-alerts", "segments"],
+    routes: ["/admin/coupons", "/admin/affiliate", "/admin/email-marketing", "/admin/email-test", "/admin/whatsapp-",
+      "/admin/exit-intent-leads", "/exit-intent-config", "/ga4/config", "/marketing/config", "/google-reviews-config",
+      "/admin/influencers", "/admin/product-alerts", "/admin/segments"],
+  },
+  {
+    id: "conteudo", label: "Aparencia e conteudo",
+    tabs: ["reels", "banners", "mid-banners", "hp-categories", "super-promo", "footer-badges", "branches", "faq"],
+    routes: ["/admin/banners", "/admin/mid-banners", "/admin/homepage-categories", "/admin/promo", "/admin/footer-badges",
+      "/admin/branches", "/admin/faq", "/admin/reels", "/logo", "/footer-logo", "/favicon"],
+  },
+  {
+    id: "frete", label: "Frete",
+    tabs: ["shipping", "sisfrete-wt"],
+    routes: ["/shipping/", "/admin/shipping", "/admin/sisfrete-wt"],
+  },
+  {
+    id: "sige", label: "Integracao SIGE",
+    tabs: ["api-sige", "sige-sync"],
+    routes: ["/sige/", "/admin/sige-sync"],
+  },
+  {
+    id: "sistema", label: "Sistema (configuracoes, auditoria, infraestrutura)",
+    tabs: ["settings", "audit-log", "regression-test", "error-scanner", "infrastructure"],
+    routes: ["/settings", "/admin/audit-log", "/admin/infra-", "/admin/psi-"],
+  },
+  {
+    id: "admins", label: "Administradores e papeis",
+    tabs: ["admins"],
+    routes: ["/auth/admin-whitelist", "/auth/admin-list", "/auth/admin-permissions", "/admin/roles"],
+  },
+];
+
+/** Routes any admin may call (sidebar counters, dashboard, login events, pickers, own approvals) */
+var ANY_ADMIN_ROUTES = ["/admin/pending-counts", "/admin/dashboard-stats", "/admin/product-search", "/admin/approvals"];
+var ANY_ADMIN_EXACT = [{ method: "POST", route: "/admin/audit-log" }];
+
+/** POSTs that only compute something (simulators, previews) */
+var READ_ONLY_POSTS = ["/admin/shipping/simulate", "/shipping/tables/diff"];
+
+/** Tabs every admin sees */
+var ALWAYS_VISIBLE_TABS = ["dashboard"];
+
+var FALLBACK_RESOURCE = "sistema";
+
+var LEVEL_RANK: Record<string, number> = { none: 0, read: 1, write: 2 };
+
+export var DEFAULT_ADMIN_ROLES: AdminRole[] = [
+  {
+    id: "atendimento", name: "Atendimento", builtIn: true,
+    description: "Pedidos, trocas, garantias e clientes; consulta catalogo e frete.",
+    permissions: { pedidos: "write", clientes: "write", catalogo: "read", frete: "read", precos: "read" },
+  },
+  {
+    id: "catalogo", name: "Catalogo", builtIn: true,
+    description: "Produtos, categorias, atributos, veiculos e vitrine.",
+    permissions: { catalogo: "write", conteudo: "write", precos: "read", sige: "read" },
+  },
+  {
+    id: "financeiro", name: "Financeiro", builtIn: true,
+    description: "Reembolsos, pagamentos e precos (acoes sensiveis passam pelo master).",
+    permissions: { pedidos: "read", reembolsos: "write", pagamentos: "write", precos: "write", clientes: "read" },
+  },
+  {
+    id: "marketing", name: "Marketing", builtIn: true,
+    description: "Cupons, campanhas, afiliados, pixels e conteudo da home.",
+    permissions: { marketing: "write", conteudo: "write", catalogo: "read", clientes: "read" },
+  },
+];
+
+export function isAccessLevel(v: any): v is AccessLevel {
+  return v === "none" || v === "read" || v === "write";
+}
+
+function _startsWithAny(route: string, prefixes: string[]): number {
+  var best = -1;
+  for (var i = 0; i < prefixes.length; i++) {
+    if (route.indexOf(prefixes[i]) === 0 && prefixes[i].length > best) best = prefixes[i].length;
+  }
+  return best;
+}
+
+/** Resource that owns a route (longest prefix wins; unknown routes are "sistema") */
+export function routeResource(route: string): string {
+  var bestId = FALLBACK_RESOURCE;
+  var bestLen = -1;
+  for (var i = 0; i < ADMIN_RESOURCES.length; i++) {
+    var len = _startsWithAny(route, ADMIN_RESOURCES[i].routes);
+    if (len > bestLen) { bestLen = len; bestId = ADMIN_RESOURCES[i].id; }
+  }
+  return bestId;
+}
+
+/**
+ * Access a request needs: null = any admin. `body` is only looked at for
+ * routes whose meaning depends on it (an RMA resolved as refund).
+ */
+export function requiredAccess(method: string, route: string, body?: any): Array<{ resource: string; level: AccessLevel }> | null {
+  if (_startsWithAny(route, ANY_ADMIN_ROUTES) >= 0) return null;
+  for (var i = 0; i < ANY_ADMIN_EXACT.length; i++) {
+    if (ANY_ADMIN_EXACT[i].method === method && ANY_ADMIN_EXACT[i].route === route) return null;
+  }
+  var read = method === "GET" || method === "HEAD" || READ_ONLY_POSTS.indexOf(route) >= 0;
+  var out: Array<{ resource: string; level: AccessLevel }> = [{ resource: routeResource(route), level: read ? "read" : "write" }];
+  if (_isRmaRefund(method, route, body)) out.push({ resource: "reembolsos", level: "write" });
+  return out;
+}
+
+function _isRmaRefund(method: string, route: string, body: any): boolean {
+  return method === "POST" && /^\/admin\/rma\/[^/]+\/resolve$/.test(route) && !!body && body.resolution === "refund";
+}
+
+/** The guard must read the body to classify this request */
+export function needsRouteBody(method: string, route: string): boolean {
+  return method === "POST" && /^\/admin\/rma\/[^/]+\/resolve$/.test(route);
+}
+
+/** Sensitive action label, or null. Only writes are sensitive. */
+export function sensitiveAction(method: string, route: string, body?: any): string | null {
+  if (method === "GET" || method === "HEAD" || method === "OPTIONS") return null;
+  if (route === "/admin/orders/refund") return "Reembolso de pedido";
+  // Counts the manual refund in refundedTotal, claws back commissions, may cancel the order
+  if (route === "/admin/orders/refund/confirm") return "Confirmacao de reembolso manual";
+  if (_isRmaRefund(method, route, body)) return "Reembolso de devolucao";
+  if (route === "/paghiper/config") return "Configuracao do PagHiper";
+  if (route === "/mercadopago/config") return "Configuracao do Mercado Pago";
+  if (route === "/price-config") return "Configuracao de precos";
+  if (route === "/auth/admin-whitelist") return "Gestao de administradores";
+  if (route === "/auth/admin-permissions") return "Papeis de administrador";
+  if (route.indexOf("/admin/roles") === 0) return "Definicao de papeis";
+  // A revert can restore any key (price config, admin list, roles)
+  if (/^\/admin\/audit-log\/[^/]+\/revert$/.test(route)) return "Reversao de alteracao (log de auditoria)";
+  return null;
+}
+
+/** Roles stored in KV, or the built-in defaults when none were saved yet */
+export function normalizeRoles(raw: any): AdminRole[] {
+  var list = Array.isArray(raw) ? raw : DEFAULT_ADMIN_ROLES;
+  var out: AdminRole[] = [];
+  var seen: Record<string, boolean> = {};
+  for (var i = 0; i < list.length; i++) {
+    var r = list[i];
+    if (!r || typeof r !== "object") continue;
+    var id = String(r.id || "").toLowerCase().trim().replace(/[^a-z0-9_-]/g, "").substring(0, 40);
+    var name = String(r.name || "").trim().substring(0, 60);
+    if (!id || !name || seen[id]) continue;
+    seen[id] = true;
+    var perms: Record<string, AccessLevel> = {};
+    for (var j = 0; j < ADMIN_RESOURCES.length; j++) {
+      var lvl = r.permissions ? r.permissions[ADMIN_RESOURCES[j].id] : undefined;
+      if (isAccessLevel(lvl) && lvl !== "none") perms[ADMIN_RESOURCES[j].id] = lvl;
+    }
+    var role: AdminRole = { id: id, name: name, permissions: perms };
+    if (r.description) role.description = String(r.description).substring(0, 200);
+    if (r.builtIn) role.builtIn = true;
+    out.push(role);
+  }
+  return out;
+}
+
+function _raise(acc: Record<string, AccessLevel>, resource: string, level: AccessLevel) {
+  if ((LEVEL_RANK[level] || 0) > (LEVEL_RANK[acc[resource] || "none"] || 0)) acc[resource] = level;
+}
+
+/** Highest level per resource across the admin's roles */
+export function accessFromRoles(roleIds: string[], roles: AdminRole[]): Record<string, AccessLevel> {
+  var acc: Record<string, AccessLevel> = {};
+  for (var i = 0; i < roleIds.length; i++) {
+    for (var j = 0; j < roles.length; j++) {
+      if (roles[j].id !== roleIds[i]) continue;
+      for (var res of Object.keys(roles[j].permissions)) _raise(acc, res, roles[j].permissions[res]);
+    }
+  }
+  return acc;
+}
+
+/** Old tab list → write on every resource owning one of the tabs (what those admins could do before) */
+export function accessFromLegacyTabs(tabs: string[]): Record<string, AccessLevel> {
+  var acc: Record<string, AccessLevel> = {};
+  for (var i = 0; i < ADMIN_RESOURCES.length; i++) {
+    var r = ADMIN_RESOURCES[i];
+    for (var j = 0; j < r.tabs.length; j++) {
+      if (tabs.indexOf(r.tabs[j]) >= 0) { acc[r.id] = "write"; break; }
+    }
+  }
+  // Refunds have no tab of their own: they were done from the orders tab
+  if (acc.pedidos) _raise(acc, "reembolsos", "write");
+  return acc;
+}
+
+export function fullAccess(): Record<string, AccessLevel> {
+  var acc: Record<string, AccessLevel> = {};
+  for (var i = 0; i < ADMIN_RESOURCES.length; i++) acc[ADMIN_RESOURCES[i].id] = "write";
+  return acc;
+}
+
+export function hasAccess(access: Record<string, AccessLevel>, resource: string, level: AccessLevel): boolean {
+  return (LEVEL_RANK[access[resource] || "none"] || 0) >= (LEVEL_RANK[level] || 0);
+}
+
+/** Panel tabs visible with this access */
+export function tabsForAccess(access: Record<string, AccessLevel>): string[] {
+  var tabs = ALWAYS_VISIBLE_TABS.slice();
+  for (var i = 0; i < ADMIN_RESOURCES.length; i++) {
+    if (!hasAccess(access, ADMIN_RESOURCES[i].id, "read")) continue;
+    for (var j = 0; j < ADMIN_RESOURCES[i].tabs.length; j++) {
+      if (tabs.indexOf(ADMIN_RESOURCES[i].tabs[j]) === -1) tabs.push(ADMIN_RESOURCES[i].tabs[j]);
+    }
+  }
+  return tabs;
+}
+
+export function resourceLabel(id: string): string {
+  for (var i = 0; i < ADMIN_RESOURCES.length; i++) if (ADMIN_RESOURCES[i].id === id) return ADMIN_RESOURCES[i].label;
+  return id;
+}
@@ -0,0 +1,260 @@
+// ═══════════════════════════════════════════════════════════════════════
+// AUDIT.TS — Trilha de auditoria das mutacoes de admin (sem acesso a KV)
+//
+// O middleware de index.tsx abre um escopo por requisicao auditada (rotas de
+// isAuditedRequest). Dentro dele o wrapper de kv le o valor anterior de cada
+// chave antes da primeira escrita; ao fim da requisicao vira admin_audit:<id>
+// com ator, IP, rota, chaves tocadas e o diff JSON antes/depois.
+//
+// Reverter grava o "before" de volta (ou apaga a chave que nao existia),
+// desde que o valor atual ainda seja o "after" registrado — senao outra
+// alteracao veio depois e o admin precisa forcar.
+//
+// Valores com segredos (token, senha, chaves de API) sao mascarados e valores
+// muito grandes guardam so o tamanho: nesses casos a alteracao nao e reversivel.
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface AuditDiffPath {
+  path: string;
+  op: "add" | "remove" | "change";
+  before?: any;
+  after?: any;
+}
+
+export interface AuditChange {
+  key: string;
+  entity: { type: string; id: string };
+  op: "create" | "update" | "delete";
+  /** Raw KV values (null = key did not exist / was deleted) */
+  before: any;
+  after: any;
+  diff: AuditDiffPath[];
+  /** More paths changed than AUDIT_MAX_DIFF_PATHS */
+  diffTruncated?: boolean;
+  revertible: boolean;
+  /** Why it cannot be reverted */
+  note?: string;
+}
+
+export interface AuditSnapshot {
+  value: any;
+  redacted: boolean;
+  tooLarge: boolean;
+  chars: number;
+}
+
+/** Keys recorded per request (bulk imports only count the rest) */
+export var AUDIT_MAX_KEYS = 25;
+var AUDIT_MAX_VALUE_CHARS = 60000;
+var AUDIT_MAX_DIFF_PATHS = 200;
+var AUDIT_MAX_LEAF_CHARS = 400;
+
+/** Admin-side routes whose writes are audited (path after BASE) */
+var AUDITED_PREFIXES = [
+  "/admin/", "/produtos/", "/price-config", "/sige/",
+  "/settings", "/shipping/config", "/shipping/tables", "/ga4/config", "/marketing/config",
+  "/exit-intent-config", "/google-reviews-config", "/paghiper/config", "/mercadopago/config",
+  "/logo", "/footer-logo", "/favicon", "/auth/admin-whitelist", "/auth/admin-permissions", "/auth/admin/",
+];
+
+/** Customer/catalog calls under the audited prefixes (same exemptions as the guards) */
+var AUDIT_EXEMPT_PATHS = [
+  "/produtos/basic/bulk", "/produtos/saldos", "/produtos/precos-bulk", "/produtos/meta/bulk",
+  "/sige/my-mapping", "/sige/create-sale", "/sige/sync-customer",
+];
+
+/**
+ * Caches, counters, secrets and the audit log itself are never recorded.
+ * Approval requests carry the raw request body (possibly API keys); the
+ * approved replay is what gets logged.
+ */
+var AUDIT_SKIP_KEYS = [
+  "admin_audit:", "admin_approval:", "sige_api_token", "sige_situations_cache", "sige_api_docs",
+  "meta_index_cache_buster", "infra:", "shipping_quote:", "stock_reservation:",
+  "product_alerts:", "product_alert_skus",
+  "sige_sync_state", "sige_sync_runs", "sige_sync_journal", "sige_sync_known_codes",
+  "emkt_queue", "emkt_qmsg:", "emkt_send_rate", "emkt_links:", "emkt_track:",
+  "wa_broadcast:", "wa_broadcast_queue",
+  "review_request:", "review_request_queue",
+  "product_qa_pending",
+];
+
+var SECRET_FIELD = /(token|secret|password|senha|apikey|api_key|accesskey|access_key|privatekey|private_key|clientsecret)/i;
+
+export function isAuditedRequest(method: string, path: string): boolean {
+  if (method === "GET" || method === "HEAD" || method === "OPTIONS") return false;
+  for (var i = 0; i < AUDIT_EXEMPT_PATHS.length; i++) if (path === AUDIT_EXEMPT_PATHS[i]) return false;
+  for (var j = 0; j < AUDITED_PREFIXES.length; j++) if (path.indexOf(AUDITED_PREFIXES[j]) === 0) return true;
+  return false;
+}
+
+/** SIGE calls change the ERP even without a KV write — always logged */
+export function isExternalMutation(path: string): boolean {
+  return path.indexOf("/sige/") === 0;
+}
+
+export function isAuditedKey(key: string): boolean {
+  for (var i = 0; i < AUDIT_SKIP_KEYS.length; i++) if (key.indexOf(AUDIT_SKIP_KEYS[i]) === 0) return false;
+  return true;
+}
+
+/** "product:123" → { type: "product", id: "123" }; keys without ":" are singletons */
+export function auditEntity(key: string): { type: string; id: string } {
+  var idx = key.indexOf(":");
+  if (idx < 0) return { type: key, id: "" };
+  return { type: key.substring(0, idx), id: key.substring(idx + 1) };
+}
+
+/** Entity filter: exact key, or type ("product") / key prefix ("product:12") */
+export function matchesEntity(keys: string[], filter: string): boolean {
+  var f = String(filter || "").trim();
+  if (!f) return true;
+  for (var i = 0; i < keys.length; i++) {
+    if (keys[i] === f || keys[i].indexOf(f.indexOf(":") >= 0 ? f : f + ":") === 0) return true;
+  }
+  return false;
+}
+
+function _parsed(v: any): any {
+  if (typeof v !== "string") return v;
+  var t = v.trim();
+  if (!(t.charAt(0) === "{" || t.charAt(0) === "[")) return v;
+  try { return JSON.parse(t); } catch { return v; }
+}
+
+function _redact(v: any, found: { hit: boolean }): any {
+  if (Array.isArray(v)) return v.map(function (x) { return _redact(x, found); });
+  if (!v || typeof v !== "object") return v;
+  var out: any = {};
+  for (var k of Object.keys(v)) {
+    if (SECRET_FIELD.test(k) && v[k] !== "" && v[k] !== null && v[k] !== undefined && typeof v[k] !== "object") {
+      out[k] = "[oculto]";
+      found.hit = true;
+    } else {
+      out[k] = _redact(v[k], found);
+    }
+  }
+  return out;
+}
+
+/**
+ * Copy of a KV value as it is at write time (handlers keep mutating their
+ * objects after kv.set). Secrets are masked; huge values keep only the size.
+ */
+export function auditSnapshot(value: any): AuditSnapshot {
+  if (value === undefined || value === null) return { value: null, redacted: false, tooLarge: false, chars: 0 };
+  var json: string;
+  try { json = JSON.stringify(value); } catch { return { value: null, redacted: false, tooLarge: true, chars: 0 }; }
+  if (json.length > AUDIT_MAX_VALUE_CHARS) return { value: null, redacted: false, tooLarge: true, chars: json.length };
+  var copy = JSON.parse(json);
+  var found = { hit: false };
+  var masked = _redact(_parsed(copy), found);
+  if (found.hit) return { value: masked, redacted: true, tooLarge: false, chars: json.length };
+  return { value: copy, redacted: false, tooLarge: false, chars: json.length };
+}
+
+function _clip(v: any): any {
+  if (v === undefined) return undefined;
+  var s = JSON.stringify(v);
+  if (s !== undefined && s.length > AUDIT_MAX_LEAF_CHARS) return s.substring(0, AUDIT_MAX_LEAF_CHARS) + "…";
+  return v;
+}
+
+function _isObj(v: any): boolean {
+  return !!v && typeof v === "object";
+}
+
+/** Path-level JSON diff (JSON strings stored in KV are compared parsed) */
+export function jsonDiff(before: any, after: any): { paths: AuditDiffPath[]; truncated: boolean } {
+  var paths: AuditDiffPath[] = [];
+  var truncated = false;
+  function walk(a: any, b: any, path: string) {
+    if (paths.length >= AUDIT_MAX_DIFF_PATHS) { truncated = true; return; }
+    if (_isObj(a) && _isObj(b) && Array.isArray(a) === Array.isArray(b)) {
+      var keys = Object.keys(a);
+      for (var k of Object.keys(b)) if (keys.indexOf(k) === -1) keys.push(k);
+      for (var i = 0; i < keys.length; i++) {
+        var key = keys[i];
+        var sub = Array.isArray(a) ? path + "[" + key + "]" : (path ? path + "." + key : key);
+        if (!(key in b)) paths.push({ path: sub, op: "remove", before: _clip(a[key]) });
+        else if (!(key in a)) paths.push({ path: sub, op: "add", after: _clip(b[key]) });
+        else walk(a[key], b[key], sub);
+        if (paths.length >= AUDIT_MAX_DIFF_PATHS) {
+          if (i < keys.length - 1) truncated = true;
+          return;
+        }
+      }
+      return;
+    }
+    if (JSON.stringify(a) === JSON.stringify(b)) return;
+    var label = path || "(valor)";
+    if (a === null || a === undefined) paths.push({ path: label, op: "add", after: _clip(b) });
+    else if (b === null || b === undefined) paths.push({ path: label, op: "remove", before: _clip(a) });
+    else paths.push({ path: label, op: "change", before: _clip(a), after: _clip(b) });
+  }
+  walk(_parsed(before), _parsed(after), "");
+  return { paths: paths, truncated: truncated };
+}
+
+function _missing(s: AuditSnapshot): boolean {
+  return s.value === null && !s.tooLarge;
+}
+
+export function buildAuditChange(key: string, before: AuditSnapshot, after: AuditSnapshot): AuditChange {
+  var change: AuditChange = {
+    key: key,
+    entity: auditEntity(key),
+    op: _missing(before) ? "create" : _missing(after) ? "delete" : "update",
+    before: before.tooLarge ? null : before.value,
+    after: after.tooLarge ? null : after.value,
+    diff: [],
+    revertible: true,
+  };
+  if (before.tooLarge || after.tooLarge) {
+    change.revertible = false;
+    change.note = "Valor grande demais para registrar (" + Math.max(before.chars, after.chars) + " caracteres)";
+    return change;
+  }
+  var d = jsonDiff(before.value, after.value);
+  change.diff = d.paths;
+  if (d.truncated) change.diffTruncated = true;
+  if (before.redacted || after.redacted) {
+    change.revertible = false;
+    change.note = "Contem dados sensiveis (mascarados)";
+  }
+  return change;
+}
+
+/** Changes with a visible difference (a write of the same value is not logged) */
+export function meaningfulChanges(changes: AuditChange[]): AuditChange[] {
+  return changes.filter(function (ch) { return !ch.revertible || ch.diff.length > 0; });
+}
+
+/** One-line summary for the list ("product:123 (3 campos), settings") */
+export function auditSummary(changes: AuditChange[], truncatedKeys: number): string {
+  var parts = changes.slice(0, 5).map(function (ch) {
+    if (ch.op === "create") return ch.key + " (criado)";
+    if (ch.op === "delete") return ch.key + " (removido)";
+    return ch.key + (ch.diff.length ? " (" + ch.diff.length + " campo" + (ch.diff.length > 1 ? "s" : "") + ")" : "");
+  });
+  var more = changes.length - 5 + truncatedKeys;
+  if (more > 0) parts.push("+" + more + " chave(s)");
+  return parts.join(", ");
+}
+
+/** True when the key still holds what the entry wrote (safe to revert) */
+export function sameAuditValue(current: any, recorded: any): boolean {
+  return JSON.stringify(_parsed(current === undefined ? null : current)) === JSON.stringify(_parsed(recorded === undefined ? null : recorded));
+}
+
+/** Entry for listings: raw before/after stay on the server */
+export function publicAuditEntry(entry: any): any {
+  if (!entry || !Array.isArray(entry.changes)) return entry;
+  return {
+    ...entry,
+    changes: entry.changes.map(function (ch: AuditChange) {
+      var { before: _b, after: _a, ...rest } = ch;
+      return rest;
+    }),
+  };
+}
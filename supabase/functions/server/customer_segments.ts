@@ -0,0 +1,564 @@
+// ═══════════════════════════════════════════════════════════════════════
+// CUSTOMER_SEGMENTS.TS — Segmentos de clientes por comportamento (sem acesso a KV)
+//
+// customer_segment:<id> → { id, name, description, definition, lastCount }
+// definition = { match: "all" | "any", rules[] }; toda regra aceita "not":
+//   bought_category { category, days }     comprou na categoria (ou filhas) nos ultimos N dias
+//   cart_abandoned  { minValue, days }     carrinho parado ha 1h+ com valor > R$ Y, mexido nos ultimos N dias
+//   favorited       { skus[] }             tem algum dos SKUs nos favoritos (vazio = qualquer favorito)
+//   vehicle         { make, model?, yearFrom?, yearTo? }  veiculo da "Minha Garagem" (ids do catalogo)
+//   person_type     { value: "pj" | "pf" } cadastro com CNPJ ou CPF
+//   no_purchase     { days, everBought? }  sem compra paga nos ultimos N dias (everBought = ja comprou antes)
+//
+// As regras rodam sobre um CustomerFacts por cliente, montado pelo servidor a
+// partir de user_profile:, user_order:, user_favorites: e wa_cart:. Carrinho
+// de visitante sem cadastro vira um cliente so com carrinho. Compra = pedido
+// em PURCHASED_ORDER_STATUSES.
+//
+// Campanhas de email usam o segmento como filtro dos assinantes ativos (quem
+// descadastrou continua fora); disparos de WhatsApp (wa_broadcast:<id>) vao
+// so para clientes cadastrados que marcaram o aceite de ofertas por WhatsApp
+// no perfil (LGPD / politica do WhatsApp Business) e cujo telefone nao esta em
+// wa_optout:<telefone>. Visitante do carrinho abandonado nunca entra: o
+// telefone foi dado para o lembrete do carrinho, nao para promocoes. Toda
+// mensagem leva o link assinado de descadastro; a lista e congelada na criacao
+// e o descadastro e conferido de novo antes de cada envio.
+// ═══════════════════════════════════════════════════════════════════════
+
+import { normalizeOrderStatus, PURCHASED_ORDER_STATUSES } from "./order_status.ts";
+import { normalizeAlertPhone } from "./product_alerts.ts";
+
+export type SegmentRuleType = "bought_category" | "cart_abandoned" | "favorited" | "vehicle" | "person_type" | "no_purchase";
+export type SegmentMatch = "all" | "any";
+
+export interface SegmentRule {
+  type: SegmentRuleType;
+  /** Inverts the rule ("did NOT buy in category X") */
+  not?: boolean;
+  /** bought_category: category slug (descendants included) */
+  category?: string;
+  /** bought_category / cart_abandoned / no_purchase: look-back window */
+  days?: number;
+  /** cart_abandoned: cart value strictly above this (reais) */
+  minValue?: number;
+  /** favorited */
+  skus?: string[];
+  /** vehicle: catalog ids */
+  make?: string;
+  model?: string;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  /** person_type */
+  value?: "pf" | "pj";
+  /** no_purchase: only customers with at least one older purchase */
+  everBought?: boolean;
+}
+
+export interface SegmentDefinition {
+  match: SegmentMatch;
+  rules: SegmentRule[];
+}
+
+export interface CustomerSegment {
+  id: string;
+  name: string;
+  description: string;
+  definition: SegmentDefinition;
+  /** Members at the last save/preview (the live number is recomputed on use) */
+  lastCount: number | null;
+  lastCountAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CustomerPurchase {
+  at: number;
+  total: number;
+  skus: string[];
+}
+
+export interface CustomerFacts {
+  /** null = guest (known only from an abandoned cart) */
+  userId: string | null;
+  email: string;
+  name: string;
+  /** Digits with country code, null = none/invalid */
+  phone: string | null;
+  /** Profile consent to WhatsApp offers (guests never have it) */
+  whatsappOptIn: boolean;
+  personType: "pf" | "pj";
+  vehicle: { make: string; model: string; year: number | null } | null;
+  /** Purchased orders, newest first */
+  purchases: CustomerPurchase[];
+  favorites: string[];
+  cart: { value: number; items: number; updatedAt: number } | null;
+}
+
+export interface SegmentContext {
+  now: number;
+  /** produto_meta category slug of a SKU ("" when unknown) */
+  categoryOf: (sku: string) => string;
+  /** Slug plus its descendants in category_tree */
+  categorySlugs: (slug: string) => string[];
+}
+
+export interface SegmentPreview {
+  total: number;
+  registered: number;
+  guests: number;
+  withEmail: number;
+  withPhone: number;
+  /** Opted in to WhatsApp offers and not opted out (what a broadcast reaches) */
+  whatsappReach: number;
+  /** Members that are active email marketing subscribers (what a campaign reaches) */
+  subscribers: number;
+  sample: Array<{ name: string; email: string; phone: string | null; registered: boolean }>;
+}
+
+export var CUSTOMER_SEGMENT_PREFIX = "customer_segment:";
+export var MAX_SEGMENT_RULES = 10;
+export var SEGMENT_RULE_TYPES: SegmentRuleType[] = ["bought_category", "cart_abandoned", "favorited", "vehicle", "person_type", "no_purchase"];
+/** A cart untouched for this long counts as abandoned (same as the first WhatsApp reminder) */
+export var CART_ABANDONED_AFTER_MS = 60 * 60 * 1000;
+
+var DAY_MS = 24 * 60 * 60 * 1000;
+var MAX_DAYS = 3650;
+
+export function segmentKey(id: string): string {
+  return CUSTOMER_SEGMENT_PREFIX + id;
+}
+
+function _days(raw: any): number | null {
+  var n = Math.round(Number(raw));
+  return isFinite(n) && n >= 1 && n <= MAX_DAYS ? n : null;
+}
+
+function _year(raw: any): number | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  var n = Math.round(Number(raw));
+  return isFinite(n) && n >= 1950 && n <= 2100 ? n : null;
+}
+
+/** Validates one rule; returns the clean rule or an error message */
+function _normalizeRule(raw: any, n: number): { rule?: SegmentRule; error?: string } {
+  var label = "Regra " + n + ": ";
+  if (!raw || typeof raw !== "object") return { error: label + "invalida." };
+  var type = String(raw.type || "") as SegmentRuleType;
+  if (SEGMENT_RULE_TYPES.indexOf(type) < 0) return { error: label + "tipo desconhecido." };
+  var rule: SegmentRule = { type: type };
+  if (raw.not === true) rule.not = true;
+  if (type === "bought_category") {
+    var category = String(raw.category || "").trim().substring(0, 120);
+    if (!category) return { error: label + "escolha a categoria." };
+    var bcDays = _days(raw.days);
+    if (!bcDays) return { error: label + "informe o periodo em dias (1 a " + MAX_DAYS + ")." };
+    rule.category = category;
+    rule.days = bcDays;
+  } else if (type === "cart_abandoned") {
+    var minValue = Number(raw.minValue);
+    if (!isFinite(minValue) || minValue < 0) return { error: label + "valor minimo do carrinho invalido." };
+    var caDays = _days(raw.days);
+    if (!caDays) return { error: label + "informe o periodo em dias (1 a " + MAX_DAYS + ")." };
+    rule.minValue = Math.round(minValue * 100) / 100;
+    rule.days = caDays;
+  } else if (type === "favorited") {
+    var skus = Array.isArray(raw.skus) ? raw.skus : [];
+    rule.skus = skus.map(function (s: any) { return String(s || "").trim().substring(0, 100); })
+      .filter(function (s: string, i: number, arr: string[]) { return s && arr.indexOf(s) === i; })
+      .slice(0, 100);
+  } else if (type === "vehicle") {
+    var make = String(raw.make || "").trim().substring(0, 60);
+    if (!make) return { error: label + "escolha a marca do veiculo." };
+    rule.make = make;
+    var model = String(raw.model || "").trim().substring(0, 80);
+    if (model) rule.model = model;
+    rule.yearFrom = _year(raw.yearFrom);
+    rule.yearTo = _year(raw.yearTo);
+    if (rule.yearFrom && rule.yearTo && rule.yearFrom > rule.yearTo) return { error: label + "ano inicial maior que o final." };
+  } else if (type === "person_type") {
+    if (raw.value !== "pf" && raw.value !== "pj") return { error: label + "escolha CPF ou CNPJ." };
+    rule.value = raw.value;
+  } else if (type === "no_purchase") {
+    var npDays = _days(raw.days);
+    if (!npDays) return { error: label + "informe o periodo em dias (1 a " + MAX_DAYS + ")." };
+    rule.days = npDays;
+    if (raw.everBought === true) rule.everBought = true;
+  }
+  return { rule: rule };
+}
+
+export function normalizeSegmentDefinition(raw: any): { definition?: SegmentDefinition; error?: string } {
+  if (!raw || typeof raw !== "object") return { error: "Definicao do segmento invalida." };
+  var list = Array.isArray(raw.rules) ? raw.rules : [];
+  if (list.length === 0) return { error: "Adicione pelo menos uma regra." };
+  if (list.length > MAX_SEGMENT_RULES) return { error: "Maximo de " + MAX_SEGMENT_RULES + " regras por segmento." };
+  var rules: SegmentRule[] = [];
+  for (var i = 0; i < list.length; i++) {
+    var res = _normalizeRule(list[i], i + 1);
+    if (res.error) return { error: res.error };
+    rules.push(res.rule!);
+  }
+  return { definition: { match: raw.match === "any" ? "any" : "all", rules: rules } };
+}
+
+export function parseSegment(raw: any): CustomerSegment | null {
+  var s = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!s || !s.id) return null;
+  var def = normalizeSegmentDefinition(s.definition).definition || { match: "all" as SegmentMatch, rules: [] };
+  return {
+    id: String(s.id),
+    name: String(s.name || ""),
+    description: String(s.description || ""),
+    definition: def,
+    lastCount: typeof s.lastCount === "number" ? s.lastCount : null,
+    lastCountAt: s.lastCountAt || null,
+    createdAt: s.createdAt || 0,
+    updatedAt: s.updatedAt || 0,
+  };
+}
+
+/** Which KV sources a definition reads (the preview skips the rest) */
+export function segmentNeedsCategories(def: SegmentDefinition): boolean {
+  return def.rules.some(function (r) { return r.type === "bought_category"; });
+}
+
+// ─── Customer facts ───
+
+function _toMs(raw: any): number {
+  if (typeof raw === "number") return raw;
+  var t = Date.parse(String(raw || ""));
+  return isFinite(t) ? t : 0;
+}
+
+function _purchases(orders: any[]): CustomerPurchase[] {
+  var out: CustomerPurchase[] = [];
+  for (var i = 0; i < orders.length; i++) {
+    var o = orders[i];
+    if (!o) continue;
+    var st = normalizeOrderStatus(o.status);
+    if (!st || PURCHASED_ORDER_STATUSES.indexOf(st) < 0) continue;
+    var items = Array.isArray(o.items) ? o.items : [];
+    out.push({
+      at: _toMs(o.paidAt || o.createdAt),
+      total: Number(o.total) || 0,
+      skus: items.map(function (it: any) { return String((it && (it.sku || it.codProduto)) || ""); }).filter(Boolean),
+    });
+  }
+  out.sort(function (a, b) { return b.at - a.at; });
+  return out;
+}
+
+function _cart(cart: any): CustomerFacts["cart"] {
+  if (!cart || cart.completed) return null;
+  var items = Array.isArray(cart.items) ? cart.items.length : 0;
+  if (items === 0) return null;
+  return { value: Number(cart.totalPrice) || 0, items: items, updatedAt: Number(cart.updatedAt || cart.createdAt) || 0 };
+}
+
+/**
+ * One customer per profile, plus one per abandoned cart that no profile
+ * claims (by userId, e-mail or phone). `carts` must already be hydrated
+ * (linked snapshots carry the user cart items).
+ */
+export function assembleCustomers(profiles: any[], ordersByUser: Record<string, any[]>, favoritesByUser: Record<string, any[]>, carts: any[]): CustomerFacts[] {
+  var cartByUser: Record<string, any> = {};
+  var cartByEmail: Record<string, any> = {};
+  var cartByPhone: Record<string, any> = {};
+  for (var c = 0; c < carts.length; c++) {
+    var cart = carts[c];
+    if (!cart) continue;
+    if (cart.userId) cartByUser[cart.userId] = cart;
+    if (cart.email) cartByEmail[String(cart.email).toLowerCase()] = cart;
+    var cartPhone = normalizeAlertPhone(cart.phone);
+    if (cartPhone) cartByPhone[cartPhone] = cart;
+  }
+  var claimed: any[] = [];
+  var out: CustomerFacts[] = [];
+  for (var i = 0; i < profiles.length; i++) {
+    var p = profiles[i];
+    if (!p || !p.id) continue;
+    var email = String(p.email || "").toLowerCase().trim();
+    var phone = normalizeAlertPhone(p.phone);
+    var ownCart = cartByUser[p.id] || (email && cartByEmail[email]) || (phone && cartByPhone[phone]) || null;
+    if (ownCart) claimed.push(ownCart);
+    var gv = p.garageVehicle;
+    var favs = favoritesByUser[p.id] || [];
+    out.push({
+      userId: String(p.id),
+      email: email,
+      name: String(p.name || ""),
+      phone: phone || (ownCart ? normalizeAlertPhone(ownCart.phone) : null),
+      whatsappOptIn: p.whatsappOptIn === true,
+      personType: p.personType === "pj" || String(p.cnpj || "").replace(/\D/g, "").length === 14 ? "pj" : "pf",
+      vehicle: gv && gv.make && gv.model ? { make: String(gv.make), model: String(gv.model), year: gv.year ? Number(gv.year) : null } : null,
+      purchases: _purchases(ordersByUser[p.id] || []),
+      favorites: favs.map(function (f: any) { return String((f && f.sku) || ""); }).filter(Boolean),
+      cart: _cart(ownCart),
+    });
+  }
+  for (var g = 0; g < carts.length; g++) {
+    var guest = carts[g];
+    if (!guest || claimed.indexOf(guest) >= 0 || guest.userId) continue;
+    var guestCart = _cart(guest);
+    if (!guestCart) continue;
+    out.push({
+      userId: null,
+      email: String(guest.email || "").toLowerCase().trim(),
+      name: String(guest.name || ""),
+      phone: normalizeAlertPhone(guest.phone),
+      whatsappOptIn: false,
+      personType: "pf",
+      vehicle: null,
+      purchases: [],
+      favorites: [],
+      cart: guestCart,
+    });
+  }
+  return out;
+}
+
+// ─── Evaluation ───
+
+function _ruleHolds(rule: SegmentRule, f: CustomerFacts, ctx: SegmentContext): boolean {
+  switch (rule.type) {
+    case "bought_category": {
+      var since = ctx.now - (rule.days || 0) * DAY_MS;
+      var slugs = ctx.categorySlugs(rule.category || "");
+      for (var i = 0; i < f.purchases.length && f.purchases[i].at >= since; i++) {
+        var skus = f.purchases[i].skus;
+        for (var k = 0; k < skus.length; k++) {
+          if (slugs.indexOf(ctx.categoryOf(skus[k])) >= 0) return true;
+        }
+      }
+      return false;
+    }
+    case "cart_abandoned":
+      return Boolean(f.cart)
+        && f.cart!.value > (rule.minValue || 0)
+        && f.cart!.updatedAt <= ctx.now - CART_ABANDONED_AFTER_MS
+        && f.cart!.updatedAt >= ctx.now - (rule.days || 0) * DAY_MS;
+    case "favorited": {
+      var wanted = rule.skus || [];
+      if (wanted.length === 0) return f.favorites.length > 0;
+      return f.favorites.some(function (s) { return wanted.indexOf(s) >= 0; });
+    }
+    case "vehicle": {
+      var v = f.vehicle;
+      if (!v || v.make !== rule.make) return false;
+      if (rule.model && v.model !== rule.model) return false;
+      if ((rule.yearFrom || rule.yearTo) && !v.year) return false;
+      if (rule.yearFrom && v.year! < rule.yearFrom) return false;
+      if (rule.yearTo && v.year! > rule.yearTo) return false;
+      return true;
+    }
+    case "person_type":
+      return Boolean(f.userId) && f.personType === rule.value;
+    case "no_purchase": {
+      // Only registered customers: a guest's purchase history is unknown
+      if (!f.userId) return false;
+      var last = f.purchases.length > 0 ? f.purchases[0].at : 0;
+      if (rule.everBought && !last) return false;
+      return last < ctx.now - (rule.days || 0) * DAY_MS;
+    }
+  }
+  return false;
+}
+
+export function matchesSegment(def: SegmentDefinition, f: CustomerFacts, ctx: SegmentContext): boolean {
+  if (def.rules.length === 0) return false;
+  for (var i = 0; i < def.rules.length; i++) {
+    var rule = def.rules[i];
+    var holds = _ruleHolds(rule, f, ctx) !== Boolean(rule.not);
+    if (def.match === "any" && holds) return true;
+    if (def.match === "all" && !holds) return false;
+  }
+  return def.match === "all";
+}
+
+export function segmentMembers(def: SegmentDefinition, customers: CustomerFacts[], ctx: SegmentContext): CustomerFacts[] {
+  return customers.filter(function (f) { return matchesSegment(def, f, ctx); });
+}
+
+/** `subscriberEmails` = active email marketing subscribers (lowercase); `optedOut` = phones in wa_optout: */
+export function segmentPreview(members: CustomerFacts[], subscriberEmails: Record<string, boolean>, optedOut: Record<string, boolean>, sampleSize: number): SegmentPreview {
+  var out: SegmentPreview = { total: members.length, registered: 0, guests: 0, withEmail: 0, withPhone: 0, whatsappReach: 0, subscribers: 0, sample: [] };
+  for (var i = 0; i < members.length; i++) {
+    var m = members[i];
+    if (m.userId) out.registered++; else out.guests++;
+    if (m.email) out.withEmail++;
+    if (m.phone) out.withPhone++;
+    if (whatsappReachable(m, optedOut)) out.whatsappReach++;
+    if (m.email && subscriberEmails[m.email]) out.subscribers++;
+    if (out.sample.length < sampleSize) out.sample.push({ name: m.name, email: m.email, phone: m.phone, registered: Boolean(m.userId) });
+  }
+  return out;
+}
+
+/** Lowercase e-mails of the members (campaign recipient filter) */
+export function segmentEmailSet(members: CustomerFacts[]): Record<string, boolean> {
+  var out: Record<string, boolean> = {};
+  for (var i = 0; i < members.length; i++) if (members[i].email) out[members[i].email] = true;
+  return out;
+}
+
+/** Has a phone, consented to WhatsApp offers and did not opt out since */
+export function whatsappReachable(m: CustomerFacts, optedOut: Record<string, boolean>): boolean {
+  return Boolean(m.phone) && m.whatsappOptIn && !optedOut[m.phone as string];
+}
+
+/** WhatsApp recipients: opted-in members, one per phone, first member wins */
+export function whatsappAudience(members: CustomerFacts[], optedOut: Record<string, boolean>, max: number): Array<{ phone: string; name: string }> {
+  var seen: Record<string, boolean> = {};
+  var out: Array<{ phone: string; name: string }> = [];
+  for (var i = 0; i < members.length && out.length < max; i++) {
+    var phone = members[i].phone;
+    if (!phone || seen[phone] || !whatsappReachable(members[i], optedOut)) continue;
+    seen[phone] = true;
+    out.push({ phone: phone, name: members[i].name });
+  }
+  return out;
+}
+
+// ─── WhatsApp broadcasts ───
+// wa_broadcast:<id> freezes the audience when created; the server worker sends
+// WA_BROADCAST_SENDS_PER_RUN per pass under a lock (ids in WA_BROADCAST_QUEUE_KEY).
+
+export type WaBroadcastStatus = "sending" | "sent" | "cancelled";
+export type WaBroadcastRecipientStatus = "pending" | "sent" | "failed" | "cancelled";
+
+export interface WaBroadcastRecipient {
+  phone: string;
+  name: string;
+  status: WaBroadcastRecipientStatus;
+  error: string | null;
+  sentAt: number | null;
+}
+
+export interface WaBroadcast {
+  id: string;
+  segmentId: string;
+  segmentName: string;
+  /** Accepts {{nome}} (first name) */
+  message: string;
+  status: WaBroadcastStatus;
+  recipients: WaBroadcastRecipient[];
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt: number | null;
+}
+
+export interface WaBroadcastTotals {
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+}
+
+export var WA_BROADCAST_PREFIX = "wa_broadcast:";
+export var WA_BROADCAST_QUEUE_KEY = "wa_broadcast_queue";
+export var MAX_BROADCAST_RECIPIENTS = 2000;
+export var MAX_BROADCAST_MESSAGE = 1000;
+export var WA_BROADCAST_SENDS_PER_RUN = 20;
+/** wa_optout:<phone> → { phone, at, source } — never receives broadcasts again */
+export var WA_OPTOUT_PREFIX = "wa_optout:";
+
+export function waOptOutKey(phone: string): string {
+  return WA_OPTOUT_PREFIX + phone;
+}
+
+export function broadcastKey(id: string): string {
+  return WA_BROADCAST_PREFIX + id;
+}
+
+export function newBroadcast(id: string, segment: CustomerSegment, message: string, audience: Array<{ phone: string; name: string }>, createdBy: string | null, now: number): WaBroadcast {
+  return {
+    id: id,
+    segmentId: segment.id,
+    segmentName: segment.name,
+    message: message,
+    status: "sending",
+    recipients: audience.map(function (a) { return { phone: a.phone, name: a.name, status: "pending" as WaBroadcastRecipientStatus, error: null, sentAt: null }; }),
+    createdBy: createdBy,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+  };
+}
+
+export function parseBroadcast(raw: any): WaBroadcast | null {
+  var b = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!b || !b.id || !Array.isArray(b.recipients)) return null;
+  return b as WaBroadcast;
+}
+
+export function broadcastTotals(b: WaBroadcast): WaBroadcastTotals {
+  var t: WaBroadcastTotals = { total: b.recipients.length, pending: 0, sent: 0, failed: 0, cancelled: 0 };
+  for (var i = 0; i < b.recipients.length; i++) t[b.recipients[i].status]++;
+  return t;
+}
+
+/** {{nome}} → first name ("Cliente" when unknown), plus the opt-out line every broadcast must carry */
+export function broadcastText(message: string, name: string, optOutUrl: string): string {
+  var first = String(name || "").trim().split(/\s+/)[0] || "Cliente";
+  return message.replace(/\{\{\s*nome\s*\}\}/g, first) + "\n\nNao quer mais receber ofertas por WhatsApp? Toque aqui: " + optOutUrl;
+}
+
+/** Next pending recipients (indexes into b.recipients) */
+export function pendingBroadcastIndexes(b: WaBroadcast, max: number): number[] {
+  var out: number[] = [];
+  if (b.status !== "sending") return out;
+  for (var i = 0; i < b.recipients.length && out.length < max; i++) {
+    if (b.recipients[i].status === "pending") out.push(i);
+  }
+  return out;
+}
+
+/**
+ * Applies send results to the current record. A recipient already cancelled
+ * keeps the send outcome (the message did go out); optedOut marks one skipped
+ * because the phone opted out meanwhile. Finishes the broadcast when nothing
+ * is pending.
+ */
+export function withBroadcastResults(b: WaBroadcast, results: Array<{ index: number; ok: boolean; error?: string; optedOut?: boolean }>, now: number): WaBroadcast {
+  var recipients = b.recipients.slice();
+  for (var i = 0; i < results.length; i++) {
+    var r = results[i];
+    if (!recipients[r.index]) continue;
+    if (r.optedOut) {
+      // Opted out after the list was frozen: nothing was sent
+      recipients[r.index] = { ...recipients[r.index], status: "cancelled", error: "Descadastrado do WhatsApp", sentAt: null };
+      continue;
+    }
+    recipients[r.index] = { ...recipients[r.index], status: r.ok ? "sent" : "failed", error: r.ok ? null : String(r.error || "Falha no envio").substring(0, 200), sentAt: now };
+  }
+  var next: WaBroadcast = { ...b, recipients: recipients, updatedAt: now };
+  if (next.status === "sending" && !recipients.some(function (x) { return x.status === "pending"; })) {
+    next.status = "sent";
+    next.finishedAt = now;
+  }
+  return next;
+}
+
+export function cancelBroadcast(b: WaBroadcast, now: number): WaBroadcast | null {
+  if (b.status !== "sending") return null;
+  return {
+    ...b,
+    status: "cancelled",
+    recipients: b.recipients.map(function (r) { return r.status === "pending" ? { ...r, status: "cancelled" as WaBroadcastRecipientStatus } : r; }),
+    updatedAt: now,
+    finishedAt: now,
+  };
+}
+
+/** List view: totals and the first failures instead of the full recipient list */
+export function publicBroadcast(b: WaBroadcast): Omit<WaBroadcast, "recipients"> & { totals: WaBroadcastTotals; errors: Array<{ phone: string; error: string }> } {
+  var errors: Array<{ phone: string; error: string }> = [];
+  for (var i = 0; i < b.recipients.length && errors.length < 20; i++) {
+    var r = b.recipients[i];
+    if (r.status === "failed") errors.push({ phone: r.phone, error: r.error || "" });
+  }
+  var { recipients, ...rest } = b;
+  return { ...rest, totals: broadcastTotals(b), errors: errors };
+}
@@ -0,0 +1,446 @@
+// ═══════════════════════════════════════════════════════════════════════
+// EMAIL_CAMPAIGN_QUEUE.TS — Fila persistente de envio de campanhas (sem KV)
+//
+// emkt_cmp:<id>            → campanha; status draft → scheduled → sending
+//                            (→ paused) → sent | cancelled, mais queue
+//                            (contagens por bloco de destinatarios)
+// emkt_qmsg:<id>           → assunto/HTML/remetente congelados no inicio do envio
+// emkt_queue:<id>:<n>      → bloco n de destinatarios, um resultado por e-mail
+// emkt_queue_index         → campanhas agendadas/em envio que o worker olha
+// emkt_send_rate           → envios no minuto e na hora atuais (limites SMTP)
+//
+// A lista de destinatarios e fotografada quando o envio comeca (na hora do
+// agendamento, nao na criacao). O worker marca o lote como "sending" antes de
+// falar com o SMTP e grava o resultado depois: um isolate que morreu no meio
+// deixa claims velhos, que voltam para "pending" na proxima rodada (entrega
+// pelo menos uma vez). Erro temporario (conexao, 4xx) volta para a fila com
+// espera crescente; erro permanente (5xx, endereco recusado) falha na hora.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type EmktCampaignStatus = "draft" | "scheduled" | "sending" | "paused" | "sent" | "cancelled";
+export type EmktRecipientStatus = "pending" | "sending" | "sent" | "failed" | "cancelled";
+export type EmktCampaignAction = "pause" | "resume" | "cancel";
+
+export interface EmktRecipient {
+  email: string;
+  name: string;
+  status: EmktRecipientStatus;
+  attempts: number;
+  /** Retry not before this (pending only) */
+  nextAttemptAt: number | null;
+  /** When the worker took it (sending only) */
+  claimedAt: number | null;
+  sentAt: number | null;
+  lastError: string | null;
+  messageId: string | null;
+}
+
+export interface EmktQueueChunk {
+  campaignId: string;
+  index: number;
+  recipients: EmktRecipient[];
+  updatedAt: number;
+}
+
+export interface EmktChunkCounts {
+  total: number;
+  /** pending + sending */
+  open: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+  /** Earliest retry among pending recipients (null = due now or nothing open) */
+  nextDueAt: number | null;
+}
+
+export interface EmktQueueProgress {
+  total: number;
+  open: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+  chunks: EmktChunkCounts[];
+  startedAt: number;
+  finishedAt: number | null;
+  lastBatchAt: number | null;
+  lastError: string | null;
+}
+
+export interface EmktMessageSnapshot {
+  subject: string;
+  html: string;
+  from: string;
+  replyTo: string | null;
+  /** Links rewritten to the click redirect (email_tracking.ts) */
+  links?: string[];
+}
+
+export interface EmktThrottle {
+  maxPerMinute: number;
+  maxPerHour: number;
+  maxAttempts: number;
+}
+
+export interface EmktSendRate {
+  minute: number;
+  minuteCount: number;
+  hour: number;
+  hourCount: number;
+}
+
+export var EMKT_QUEUE_PREFIX = "emkt_queue:";
+export var EMKT_QUEUE_INDEX_KEY = "emkt_queue_index";
+export var EMKT_QMSG_PREFIX = "emkt_qmsg:";
+export var EMKT_SEND_RATE_KEY = "emkt_send_rate";
+
+/** Recipients per emkt_queue:<id>:<n> record */
+export var EMKT_QUEUE_CHUNK_SIZE = 250;
+/** A "sending" claim older than this belongs to a dead isolate */
+export var EMKT_CLAIM_STALE_MS = 5 * 60 * 1000;
+/** Furthest a campaign can be scheduled */
+export var EMKT_MAX_SCHEDULE_MS = 90 * 24 * 60 * 60 * 1000;
+
+/** Wait before attempt n+1, indexed by attempts already made (last value repeats) */
+var RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+var MAX_ERROR_LEN = 300;
+
+export var DEFAULT_EMKT_THROTTLE: EmktThrottle = { maxPerMinute: 30, maxPerHour: 1000, maxAttempts: 4 };
+
+function _obj(raw: any): any {
+  var v = typeof raw === "string" ? JSON.parse(raw) : raw;
+  return v && typeof v === "object" ? v : null;
+}
+
+function _clampInt(v: any, min: number, max: number, fallback: number): number {
+  var n = Math.round(Number(v));
+  if (!isFinite(n) || n <= 0) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function queueChunkKey(campaignId: string, index: number): string {
+  return EMKT_QUEUE_PREFIX + campaignId + ":" + index;
+}
+
+export function queueMessageKey(campaignId: string): string {
+  return EMKT_QMSG_PREFIX + campaignId;
+}
+
+/** Throttle fields out of emkt_config (defaults when unset) */
+export function parseThrottle(cfg: any): EmktThrottle {
+  var c = _obj(cfg) || {};
+  return {
+    maxPerMinute: _clampInt(c.maxPerMinute, 1, 600, DEFAULT_EMKT_THROTTLE.maxPerMinute),
+    maxPerHour: _clampInt(c.maxPerHour, 1, 36000, DEFAULT_EMKT_THROTTLE.maxPerHour),
+    maxAttempts: _clampInt(c.maxAttempts, 1, 10, DEFAULT_EMKT_THROTTLE.maxAttempts),
+  };
+}
+
+/** Throttle fields from an admin PUT; only the ones present are checked */
+export function checkThrottle(body: any): string | null {
+  if (body.maxPerMinute !== undefined && !(Number(body.maxPerMinute) >= 1 && Number(body.maxPerMinute) <= 600)) {
+    return "Limite por minuto deve ficar entre 1 e 600.";
+  }
+  if (body.maxPerHour !== undefined && !(Number(body.maxPerHour) >= 1 && Number(body.maxPerHour) <= 36000)) {
+    return "Limite por hora deve ficar entre 1 e 36000.";
+  }
+  if (body.maxAttempts !== undefined && !(Number(body.maxAttempts) >= 1 && Number(body.maxAttempts) <= 10)) {
+    return "Tentativas devem ficar entre 1 e 10.";
+  }
+  return null;
+}
+
+/**
+ * Dev SMTP servers (Mailpit, MailHog, smtp4dev...) on loopback: no auth, no TLS.
+ * The caller also requires a non-production environment.
+ */
+export function isLocalSmtpHost(host: any): boolean {
+  var h = String(host || "").trim().toLowerCase().replace(/^\[|\]$/g, "");
+  return h === "localhost" || h === "127.0.0.1" || h === "::1";
+}
+
+/**
+ * When the campaign should start: null = now. `value` is epoch ms or an ISO
+ * string; up to a minute in the past counts as now.
+ */
+export function parseScheduleAt(value: any, now: number): { at?: number | null; error?: string } {
+  if (value === undefined || value === null || value === "") return { at: null };
+  var at = typeof value === "number" ? value : Date.parse(String(value));
+  if (!isFinite(at)) return { error: "Data de agendamento invalida." };
+  if (at <= now + 60 * 1000) return { at: null };
+  if (at > now + EMKT_MAX_SCHEDULE_MS) return { error: "Agendamento limitado a 90 dias." };
+  return { at: at };
+}
+
+/** Active subscribers matching any of the campaign tags (none = everyone), one per e-mail */
+export function campaignRecipients(subs: any[], targetTags: string[]): Array<{ email: string; name: string }> {
+  var tags = Array.isArray(targetTags) ? targetTags : [];
+  var seen: Record<string, boolean> = {};
+  var out: Array<{ email: string; name: string }> = [];
+  for (var i = 0; i < subs.length; i++) {
+    var s = subs[i];
+    if (!s || !s.email || s.active === false) continue;
+    if (tags.length > 0) {
+      var subTags = Array.isArray(s.tags) ? s.tags : [];
+      var hasTag = false;
+      for (var t = 0; t < tags.length; t++) {
+        if (subTags.indexOf(tags[t]) >= 0) { hasTag = true; break; }
+      }
+      if (!hasTag) continue;
+    }
+    var email = String(s.email).trim().toLowerCase();
+    if (seen[email]) continue;
+    seen[email] = true;
+    out.push({ email: email, name: String(s.name || "") });
+  }
+  return out;
+}
+
+export function buildQueueChunks(campaignId: string, recipients: Array<{ email: string; name: string }>, now: number): EmktQueueChunk[] {
+  var chunks: EmktQueueChunk[] = [];
+  for (var start = 0; start < recipients.length; start += EMKT_QUEUE_CHUNK_SIZE) {
+    chunks.push({
+      campaignId: campaignId,
+      index: chunks.length,
+      recipients: recipients.slice(start, start + EMKT_QUEUE_CHUNK_SIZE).map(function (r) {
+        return {
+          email: r.email, name: r.name, status: "pending" as EmktRecipientStatus, attempts: 0,
+          nextAttemptAt: null, claimedAt: null, sentAt: null, lastError: null, messageId: null,
+        };
+      }),
+      updatedAt: now,
+    });
+  }
+  return chunks;
+}
+
+export function parseQueueChunk(raw: any): EmktQueueChunk | null {
+  var c = _obj(raw);
+  if (!c || !Array.isArray(c.recipients)) return null;
+  return c as EmktQueueChunk;
+}
+
+export function chunkCounts(chunk: EmktQueueChunk): EmktChunkCounts {
+  var out: EmktChunkCounts = { total: chunk.recipients.length, open: 0, sent: 0, failed: 0, cancelled: 0, nextDueAt: null };
+  var dueNow = false;
+  for (var i = 0; i < chunk.recipients.length; i++) {
+    var r = chunk.recipients[i];
+    if (r.status === "sent") out.sent++;
+    else if (r.status === "failed") out.failed++;
+    else if (r.status === "cancelled") out.cancelled++;
+    else {
+      out.open++;
+      if (r.status !== "pending" || !r.nextAttemptAt) dueNow = true;
+      else if (out.nextDueAt === null || r.nextAttemptAt < out.nextDueAt) out.nextDueAt = r.nextAttemptAt;
+    }
+  }
+  if (dueNow) out.nextDueAt = null;
+  return out;
+}
+
+/** Campaign totals from per-chunk counts, keeping the timestamps of `prev` */
+export function queueProgress(chunks: EmktChunkCounts[], prev: Partial<EmktQueueProgress> | null, now: number): EmktQueueProgress {
+  var out: EmktQueueProgress = {
+    total: 0, open: 0, sent: 0, failed: 0, cancelled: 0, chunks: chunks,
+    startedAt: (prev && prev.startedAt) || now,
+    finishedAt: (prev && prev.finishedAt) || null,
+    lastBatchAt: (prev && prev.lastBatchAt) || null,
+    lastError: (prev && prev.lastError) || null,
+  };
+  for (var i = 0; i < chunks.length; i++) {
+    out.total += chunks[i].total;
+    out.open += chunks[i].open;
+    out.sent += chunks[i].sent;
+    out.failed += chunks[i].failed;
+    out.cancelled += chunks[i].cancelled;
+  }
+  return out;
+}
+
+/** Chunks worth loading now: something open and not all of it waiting on a retry */
+export function dueChunkIndexes(progress: EmktQueueProgress, now: number): number[] {
+  var out: number[] = [];
+  for (var i = 0; i < progress.chunks.length; i++) {
+    var c = progress.chunks[i];
+    if (c.open > 0 && (c.nextDueAt === null || c.nextDueAt <= now)) out.push(i);
+  }
+  return out;
+}
+
+export function parseSendRate(raw: any, now: number): EmktSendRate {
+  var r = _obj(raw) || {};
+  var minute = Math.floor(now / 60000);
+  var hour = Math.floor(now / 3600000);
+  return {
+    minute: minute,
+    minuteCount: r.minute === minute ? Number(r.minuteCount) || 0 : 0,
+    hour: hour,
+    hourCount: r.hour === hour ? Number(r.hourCount) || 0 : 0,
+  };
+}
+
+/** How many more e-mails fit in the current minute and hour */
+export function sendAllowance(throttle: EmktThrottle, rate: EmktSendRate): number {
+  return Math.max(0, Math.min(throttle.maxPerMinute - rate.minuteCount, throttle.maxPerHour - rate.hourCount));
+}
+
+export function recordSends(rate: EmktSendRate, count: number): EmktSendRate {
+  return { ...rate, minuteCount: rate.minuteCount + count, hourCount: rate.hourCount + count };
+}
+
+/** Claims left behind by a dead isolate go back to the queue. Returns how many */
+export function recoverStaleClaims(chunk: EmktQueueChunk, now: number): number {
+  var n = 0;
+  for (var i = 0; i < chunk.recipients.length; i++) {
+    var r = chunk.recipients[i];
+    if (r.status === "sending" && (!r.claimedAt || now - r.claimedAt >= EMKT_CLAIM_STALE_MS)) {
+      r.status = "pending";
+      r.claimedAt = null;
+      r.nextAttemptAt = null;
+      n++;
+    }
+  }
+  return n;
+}
+
+/** Marks up to `limit` due recipients as sending (one attempt each) and returns their positions */
+export function claimDueRecipients(chunk: EmktQueueChunk, limit: number, now: number): number[] {
+  var out: number[] = [];
+  for (var i = 0; i < chunk.recipients.length && out.length < limit; i++) {
+    var r = chunk.recipients[i];
+    if (r.status !== "pending" || (r.nextAttemptAt && r.nextAttemptAt > now)) continue;
+    r.status = "sending";
+    r.claimedAt = now;
+    r.attempts = (r.attempts || 0) + 1;
+    out.push(i);
+  }
+  return out;
+}
+
+/** Claims the run had no time to send go back untouched (attempt not counted) */
+export function releaseClaims(chunk: EmktQueueChunk, positions: number[]): void {
+  for (var i = 0; i < positions.length; i++) {
+    var r = chunk.recipients[positions[i]];
+    if (!r || r.status !== "sending") continue;
+    r.status = "pending";
+    r.claimedAt = null;
+    r.attempts = Math.max(0, r.attempts - 1);
+  }
+}
+
+/** Whether a nodemailer error is worth retrying later */
+export function isTransientSmtpError(err: any): boolean {
+  var code = String((err && err.code) || "");
+  var responseCode = Number(err && err.responseCode) || 0;
+  var msg = String((err && err.message) || err || "").toLowerCase();
+  if (responseCode >= 500) return false;
+  if (responseCode >= 400) return true;
+  if (code === "ETIMEDOUT" || code === "ESOCKET" || code === "ECONNECTION" || code === "EDNS" || code === "ECONNRESET") return true;
+  return msg.indexOf("timeout") >= 0 || msg.indexOf("greeting never received") >= 0 || msg.indexOf("connection closed") >= 0;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return RETRY_DELAYS_MS[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MS.length) - 1];
+}
+
+export function markRecipientSent(r: EmktRecipient, messageId: string | null, now: number): void {
+  r.status = "sent";
+  r.sentAt = now;
+  r.claimedAt = null;
+  r.nextAttemptAt = null;
+  r.lastError = null;
+  r.messageId = messageId;
+}
+
+/** Transient errors wait for the next attempt until maxAttempts; everything else fails now */
+export function markRecipientError(r: EmktRecipient, err: any, throttle: EmktThrottle, now: number): void {
+  r.claimedAt = null;
+  r.lastError = String((err && err.message) || err || "Erro desconhecido").substring(0, MAX_ERROR_LEN);
+  if (isTransientSmtpError(err) && r.attempts < throttle.maxAttempts) {
+    r.status = "pending";
+    r.nextAttemptAt = now + retryDelayMs(r.attempts);
+  } else {
+    r.status = "failed";
+    r.nextAttemptAt = null;
+  }
+}
+
+/** Pending recipients of a cancelled campaign. Returns how many */
+export function cancelOpenRecipients(chunk: EmktQueueChunk): number {
+  var n = 0;
+  for (var i = 0; i < chunk.recipients.length; i++) {
+    var r = chunk.recipients[i];
+    if (r.status === "pending" || r.status === "sending") {
+      r.status = "cancelled";
+      r.claimedAt = null;
+      r.nextAttemptAt = null;
+      n++;
+    }
+  }
+  return n;
+}
+
+/** {{nome}} / {{email}} */
+export function personalizeHtml(html: string, r: { email: string; name: string }): string {
+  return html.replace(/\{\{nome\}\}/g, r.name || "").replace(/\{\{email\}\}/g, r.email || "");
+}
+
+/**
+ * Next status for an admin action, or an error when it does not apply.
+ * `queued` = the campaign has queue records (false for one stuck in "sending"
+ * by the old in-request sender, which cancel just returns to draft).
+ */
+export function campaignActionStatus(status: string, action: EmktCampaignAction, queued: boolean): { status?: EmktCampaignStatus; error?: string } {
+  if (action === "pause") {
+    if (status === "sending") return { status: "paused" };
+    return { error: "So campanhas em envio podem ser pausadas." };
+  }
+  if (action === "resume") {
+    if (status === "paused") return { status: "sending" };
+    return { error: "So campanhas pausadas podem ser retomadas." };
+  }
+  // Scheduled but not started: back to draft, nothing was queued yet
+  if (status === "scheduled") return { status: "draft" };
+  if (status === "sending" && !queued) return { status: "draft" };
+  if (status === "sending" || status === "paused") return { status: "cancelled" };
+  return { error: "Campanha nao esta agendada nem em envio." };
+}
+
+/** Recipient list for the admin, filtered and paged in queue order */
+export function filterRecipients(
+  chunks: EmktQueueChunk[],
+  opts: { status?: string; q?: string; offset?: number; limit?: number },
+): { recipients: EmktRecipient[]; total: number } {
+  var status = opts.status || "";
+  var q = String(opts.q || "").trim().toLowerCase();
+  var offset = Math.max(0, Number(opts.offset) || 0);
+  var limit = Math.min(200, Math.max(1, Number(opts.limit) || 50));
+  var matched: EmktRecipient[] = [];
+  var sorted = chunks.slice().sort(function (a, b) { return a.index - b.index; });
+  for (var i = 0; i < sorted.length; i++) {
+    var list = sorted[i].recipients;
+    for (var j = 0; j < list.length; j++) {
+      var r = list[j];
+      if (status && r.status !== status) continue;
+      if (q && r.email.indexOf(q) < 0 && String(r.name || "").toLowerCase().indexOf(q) < 0) continue;
+      matched.push(r);
+    }
+  }
+  return { recipients: matched.slice(offset, offset + limit), total: matched.length };
+}
+
+/** "email: erro" lines for the send log (failed recipients only) */
+export function recipientErrors(chunks: EmktQueueChunk[], max: number): string[] {
+  var out: string[] = [];
+  for (var i = 0; i < chunks.length && out.length < max; i++) {
+    var list = chunks[i].recipients;
+    for (var j = 0; j < list.length && out.length < max; j++) {
+      if (list[j].status === "failed") out.push(list[j].email + ": " + (list[j].lastError || "falha"));
+    }
+  }
+  return out;
+}
+
+export function parseQueueIndex(raw: any): string[] {
+  var list = typeof raw === "string" ? JSON.parse(raw) : raw;
+  return Array.isArray(list) ? list.filter(function (id: any) { return typeof id === "string" && id; }) : [];
+}
@@ -0,0 +1,417 @@
+// ═══════════════════════════════════════════════════════════════════════
+// EMAIL_TRACKING.TS — Abertura/clique, descadastro e bounces do email marketing (sem KV)
+//
+// emkt_links:<cmpId>         → links do HTML da campanha (o clique leva o indice)
+// emkt_track:<cmpId>:<subId> → o que um assinante fez com a campanha: aberturas,
+//                              cliques (indices), descadastro, bounce, reclamacao
+//
+// Cada e-mail da fila leva um token assinado "cmpId|subId": o pixel /e/o/<token>,
+// os links /e/c/<token>/<n> e o descadastro /e/u/<token> (List-Unsubscribe com
+// One-Click, RFC 8058). A pagina /email/preferencias usa o mesmo token. Bounce
+// definitivo (na hora do SMTP ou pelo webhook) e reclamacao de spam desativam
+// o assinante; bounce temporario e ignorado.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type EmktInactiveReason = "unsubscribe" | "bounce" | "complaint";
+export type EmktFeedbackType = "bounce" | "complaint";
+
+export interface EmktTrackRecord {
+  cmpId: string;
+  subId: string;
+  email: string;
+  opens: number;
+  firstOpenAt: number | null;
+  lastOpenAt: number | null;
+  clicks: number;
+  firstClickAt: number | null;
+  lastClickAt: number | null;
+  /** Link indexes clicked at least once */
+  links: number[];
+  unsubscribedAt: number | null;
+  bouncedAt: number | null;
+  complainedAt: number | null;
+}
+
+export interface EmktFeedbackEvent {
+  type: EmktFeedbackType;
+  email: string;
+  /** Hard bounce / complaint (deactivates); soft bounces are only counted */
+  permanent: boolean;
+  reason: string;
+}
+
+export interface EmktPreferenceTopic {
+  tag: string;
+  label: string;
+}
+
+export interface EmktLinkStats {
+  index: number;
+  url: string;
+  /** Subscribers who clicked it at least once */
+  uniqueClicks: number;
+}
+
+export interface EmktConversions {
+  /** Clickers with at least one attributed order */
+  buyers: number;
+  orders: number;
+  /** Sum of order totals (reais) */
+  revenue: number;
+  /** Buyers / unique clicks (0..1) */
+  rate: number;
+}
+
+export interface EmktCampaignStats {
+  recipients: number;
+  sent: number;
+  opens: number;
+  uniqueOpens: number;
+  clicks: number;
+  uniqueClicks: number;
+  unsubscribes: number;
+  bounces: number;
+  complaints: number;
+  /** Unique opens / sent (0..1) */
+  openRate: number;
+  /** Unique clicks / sent (0..1) */
+  clickRate: number;
+  links: EmktLinkStats[];
+  conversions: EmktConversions;
+}
+
+export var EMKT_LINKS_PREFIX = "emkt_links:";
+export var EMKT_TRACK_PREFIX = "emkt_track:";
+
+/** Orders placed this long after the first click count as conversions */
+export var EMKT_ATTRIBUTION_MS = 7 * 24 * 60 * 60 * 1000;
+export var MAX_PREFERENCE_TOPICS = 20;
+/** Links tracked per campaign (the rest go out untouched) */
+var MAX_TRACKED_LINKS = 100;
+
+/** 1x1 transparent GIF */
+export var TRACKING_PIXEL_GIF = new Uint8Array([
+  71, 73, 70, 56, 57, 97, 1, 0, 1, 0, 128, 0, 0, 0, 0, 0, 255, 255, 255, 33, 249, 4, 1, 0, 0, 0, 0,
+  44, 0, 0, 0, 0, 1, 0, 1, 0, 0, 2, 2, 68, 1, 0, 59,
+]);
+
+function _obj(raw: any): any {
+  var v = typeof raw === "string" ? JSON.parse(raw) : raw;
+  return v && typeof v === "object" ? v : null;
+}
+
+/** emkt_sub:<id> for an e-mail (same rule as the subscriber routes) */
+export function subscriberIdForEmail(email: string): string {
+  return String(email || "").toLowerCase().trim().replace(/[^a-z0-9]/g, "_");
+}
+
+export function linksKey(cmpId: string): string {
+  return EMKT_LINKS_PREFIX + cmpId;
+}
+
+export function trackKey(cmpId: string, subId: string): string {
+  return EMKT_TRACK_PREFIX + cmpId + ":" + subId;
+}
+
+// ─── Signed token payload ("cmpId|subId"; cmpId empty outside a campaign) ───
+// Signed and verified by signed_tokens.ts with purpose "emkt".
+
+export function emktTokenPayload(cmpId: string, subId: string): string {
+  return (cmpId || "") + "|" + subId;
+}
+
+export function parseEmktTokenPayload(payload: string): { cmpId: string; subId: string } | null {
+  var sep = payload.indexOf("|");
+  if (sep < 0 || sep === payload.length - 1) return null;
+  return { cmpId: payload.substring(0, sep), subId: payload.substring(sep + 1) };
+}
+
+// ─── HTML rewriting ───
+
+function _trackable(url: string): boolean {
+  return /^https?:\/\//i.test(url) && url.indexOf("{{") < 0;
+}
+
+/** Distinct http(s) hrefs of the campaign HTML, in order of appearance */
+export function extractTrackedLinks(html: string): string[] {
+  var out: string[] = [];
+  var re = /<a\b[^>]*?\bhref\s*=\s*("([^"]*)"|'([^']*)')/gi;
+  var m: RegExpExecArray | null;
+  while ((m = re.exec(html)) !== null && out.length < MAX_TRACKED_LINKS) {
+    var url = (m[2] !== undefined ? m[2] : m[3] || "").trim().replace(/&amp;/g, "&");
+    if (_trackable(url) && out.indexOf(url) < 0) out.push(url);
+  }
+  return out;
+}
+
+/** UTM tags on links to our own site, so GA4 sees the campaign too */
+export function withCampaignUtm(url: string, siteUrl: string, cmpId: string): string {
+  var host = siteUrl.replace(/^https?:\/\//i, "").replace(/\/.*$/, "").toLowerCase();
+  var urlHost = url.replace(/^https?:\/\//i, "").replace(/[\/?#].*$/, "").toLowerCase();
+  if (!host || (urlHost !== host && urlHost !== "www." + host && "www." + urlHost !== host)) return url;
+  if (/[?&]utm_source=/.test(url)) return url;
+  var hashAt = url.indexOf("#");
+  var base = hashAt >= 0 ? url.substring(0, hashAt) : url;
+  var hash = hashAt >= 0 ? url.substring(hashAt) : "";
+  return base + (base.indexOf("?") >= 0 ? "&" : "?") + "utm_source=email&utm_medium=email&utm_campaign=" + encodeURIComponent(cmpId) + hash;
+}
+
+/**
+ * One recipient's HTML: {{descadastrar}}/{{preferencias}} filled in, tracked
+ * links pointed at clickUrl(n), the open pixel before </body>, and an
+ * unsubscribe footer when the template has no {{descadastrar}} of its own.
+ * clickUrl/pixelUrl null = no tracking (test sends).
+ */
+export function trackHtml(html: string, opts: {
+  links: string[];
+  clickUrl: ((index: number) => string) | null;
+  pixelUrl: string | null;
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+}): string {
+  var hasUnsubscribe = html.indexOf("{{descadastrar}}") >= 0;
+  var out = html.replace(/\{\{descadastrar\}\}/g, opts.unsubscribeUrl).replace(/\{\{preferencias\}\}/g, opts.preferencesUrl);
+  if (opts.clickUrl) {
+    var clickUrl = opts.clickUrl;
+    out = out.replace(/(<a\b[^>]*?\bhref\s*=\s*)("([^"]*)"|'([^']*)')/gi, function (all: string, prefix: string, _q: string, dq: string, sq: string) {
+      var url = (dq !== undefined ? dq : sq || "").trim().replace(/&amp;/g, "&");
+      var idx = opts.links.indexOf(url);
+      return idx < 0 ? all : prefix + '"' + clickUrl(idx) + '"';
+    });
+  }
+  if (!hasUnsubscribe) {
+    out = _insertBeforeBodyEnd(out, '<div style="text-align:center;padding:16px 12px;font-family:Arial,sans-serif;font-size:11px;color:#9ca3af;">'
+      + 'Voce recebe este e-mail por ser assinante da Carretao Auto Pecas. '
+      + '<a href="' + opts.unsubscribeUrl + '" style="color:#6b7280;">Descadastrar</a> | '
+      + '<a href="' + opts.preferencesUrl + '" style="color:#6b7280;">Preferencias de e-mail</a></div>');
+  }
+  if (opts.pixelUrl) {
+    out = _insertBeforeBodyEnd(out, '<img src="' + opts.pixelUrl + '" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />');
+  }
+  return out;
+}
+
+function _insertBeforeBodyEnd(html: string, fragment: string): string {
+  var at = html.search(/<\/body>/i);
+  return at >= 0 ? html.substring(0, at) + fragment + html.substring(at) : html + fragment;
+}
+
+/** List-Unsubscribe headers: Gmail/Yahoo POST the one-click URL, others open it */
+export function listUnsubscribeHeaders(oneClickUrl: string): Record<string, string> {
+  return { "List-Unsubscribe": "<" + oneClickUrl + ">", "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" };
+}
+
+// ─── Engagement records ───
+
+/** Empty cmpId/subId = take them from the stored record (getByPrefix listings) */
+export function parseTrackRecord(raw: any, cmpId: string, subId: string): EmktTrackRecord {
+  var r = _obj(raw) || {};
+  return {
+    cmpId: cmpId || String(r.cmpId || ""),
+    subId: subId || String(r.subId || ""),
+    email: String(r.email || ""),
+    opens: Number(r.opens) || 0,
+    firstOpenAt: r.firstOpenAt || null,
+    lastOpenAt: r.lastOpenAt || null,
+    clicks: Number(r.clicks) || 0,
+    firstClickAt: r.firstClickAt || null,
+    lastClickAt: r.lastClickAt || null,
+    links: Array.isArray(r.links) ? r.links : [],
+    unsubscribedAt: r.unsubscribedAt || null,
+    bouncedAt: r.bouncedAt || null,
+    complainedAt: r.complainedAt || null,
+  };
+}
+
+/** A click implies the message was opened (images off still count as a reader) */
+export function recordEngagement(rec: EmktTrackRecord, kind: "open" | "click" | "unsubscribe" | "bounce" | "complaint", now: number, linkIndex?: number): EmktTrackRecord {
+  var next: EmktTrackRecord = { ...rec, links: rec.links.slice() };
+  if (kind === "open" || kind === "click") {
+    if (kind === "open" || !next.firstOpenAt) next.opens++;
+    next.firstOpenAt = next.firstOpenAt || now;
+    next.lastOpenAt = now;
+  }
+  if (kind === "click") {
+    next.clicks++;
+    next.firstClickAt = next.firstClickAt || now;
+    next.lastClickAt = now;
+    if (linkIndex !== undefined && next.links.indexOf(linkIndex) < 0) next.links.push(linkIndex);
+  }
+  if (kind === "unsubscribe") next.unsubscribedAt = next.unsubscribedAt || now;
+  if (kind === "bounce") next.bouncedAt = next.bouncedAt || now;
+  if (kind === "complaint") next.complainedAt = next.complainedAt || now;
+  return next;
+}
+
+/** Subscriber after an unsubscribe / hard bounce / complaint (null = already in that state) */
+export function deactivateSubscriber(sub: any, reason: EmktInactiveReason, now: number, detail?: string): any | null {
+  if (!sub) return null;
+  if (sub.active === false && sub.inactiveReason === reason) return null;
+  var next = { ...sub, active: false, inactiveReason: reason, inactiveAt: now, updatedAt: now };
+  if (reason === "unsubscribe") next.unsubscribedAt = now;
+  if (reason === "bounce") {
+    next.bounceCount = (Number(sub.bounceCount) || 0) + 1;
+    next.lastBounce = String(detail || "").substring(0, 300);
+  }
+  if (reason === "complaint") next.complainedAt = now;
+  return next;
+}
+
+/** Rejected recipient address (5.1.x / 550-553): the mailbox does not exist or refuses mail */
+export function isHardBounce(err: any): boolean {
+  var responseCode = Number(err && err.responseCode) || 0;
+  var msg = String((err && (err.response || err.message)) || "");
+  if (/\b5\.1\.\d\b/.test(msg)) return true;
+  return responseCode === 550 || responseCode === 551 || responseCode === 553;
+}
+
+// ─── Bounce/complaint webhook ───
+
+/**
+ * Feedback events from the bounce webhook. Accepts our own shape
+ * ({ events: [{ type, email, permanent?, reason? }] }), Amazon SES
+ * notifications (raw or wrapped in SNS) and SendGrid/Mailgun-style event
+ * arrays. Unknown entries are dropped.
+ */
+export function parseFeedbackEvents(body: any): EmktFeedbackEvent[] {
+  var out: EmktFeedbackEvent[] = [];
+  var push = function (type: EmktFeedbackType, email: any, permanent: boolean, reason: any) {
+    var e = String(email || "").toLowerCase().trim();
+    if (!e || e.indexOf("@") < 1) return;
+    out.push({ type: type, email: e, permanent: permanent, reason: String(reason || "").substring(0, 300) });
+  };
+  var b = body;
+  if (b && typeof b.Message === "string") {
+    try { b = JSON.parse(b.Message); } catch { return out; }
+  }
+  if (b && b.notificationType === "Bounce" && b.bounce) {
+    var permanentSes = b.bounce.bounceType === "Permanent";
+    (b.bounce.bouncedRecipients || []).forEach(function (r: any) {
+      push("bounce", r && r.emailAddress, permanentSes, (r && r.diagnosticCode) || b.bounce.bounceSubType);
+    });
+    return out;
+  }
+  if (b && b.notificationType === "Complaint" && b.complaint) {
+    (b.complaint.complainedRecipients || []).forEach(function (r: any) {
+      push("complaint", r && r.emailAddress, true, b.complaint.complaintFeedbackType || "complaint");
+    });
+    return out;
+  }
+  var list = Array.isArray(b) ? b : (b && Array.isArray(b.events) ? b.events : (b ? [b] : []));
+  for (var i = 0; i < list.length; i++) {
+    var ev = list[i];
+    if (!ev || typeof ev !== "object") continue;
+    // SendGrid/Mailgun name the event "event" (their "type" is a bounce detail)
+    var kind = String(ev.event || ev.type || "").toLowerCase();
+    var email = ev.email || ev.recipient;
+    if (kind === "complaint" || kind === "spamreport" || kind === "complained") {
+      push("complaint", email, true, ev.reason || kind);
+    } else if (kind === "bounce" || kind === "bounced" || kind === "dropped" || kind === "failed") {
+      var permanent = ev.permanent !== undefined
+        ? ev.permanent === true
+        : !/temporary|soft|blocked|deferred/.test(String(ev.severity || ev.bounceType || (ev.event ? ev.type : "") || "").toLowerCase());
+      push("bounce", email, permanent, ev.reason || ev.description || kind);
+    }
+  }
+  return out;
+}
+
+// ─── Preferences ───
+
+export function parsePreferenceTopics(raw: any): EmktPreferenceTopic[] {
+  var list = Array.isArray(raw) ? raw : [];
+  var out: EmktPreferenceTopic[] = [];
+  for (var i = 0; i < list.length && out.length < MAX_PREFERENCE_TOPICS; i++) {
+    var tag = String((list[i] && list[i].tag) || "").trim().toLowerCase().substring(0, 50);
+    var label = String((list[i] && list[i].label) || "").trim().substring(0, 80);
+    if (!tag || out.some(function (t) { return t.tag === tag; })) continue;
+    out.push({ tag: tag, label: label || tag });
+  }
+  return out;
+}
+
+/** Subscriber after saving the preferences page: topic tags swapped, other tags kept */
+export function applyPreferences(sub: any, topics: EmktPreferenceTopic[], selected: string[], active: boolean, now: number): any {
+  var topicTags = topics.map(function (t) { return t.tag; });
+  var keep = (Array.isArray(sub.tags) ? sub.tags : []).filter(function (t: string) { return topicTags.indexOf(t) < 0; });
+  var chosen = selected.filter(function (t) { return topicTags.indexOf(t) >= 0; });
+  var next = { ...sub, tags: keep.concat(chosen), updatedAt: now };
+  if (active && sub.active === false) {
+    // Resubscribing by the subscriber's own choice; bounces/complaints stay off
+    if (sub.inactiveReason && sub.inactiveReason !== "unsubscribe") return next;
+    next.active = true;
+    next.inactiveReason = null;
+    next.inactiveAt = null;
+    next.resubscribedAt = now;
+  }
+  if (!active && sub.active !== false) {
+    return deactivateSubscriber(next, "unsubscribe", now) || next;
+  }
+  return next;
+}
+
+/** "jo***@gmail.com" for the public preferences page */
+export function maskEmail(email: string): string {
+  var at = email.indexOf("@");
+  if (at <= 0) return email;
+  var user = email.substring(0, at);
+  return user.substring(0, Math.min(2, user.length)) + "***" + email.substring(at);
+}
+
+// ─── Stats ───
+
+export function campaignStats(records: EmktTrackRecord[], links: string[], recipients: number, sent: number): EmktCampaignStats {
+  var out: EmktCampaignStats = {
+    recipients: recipients, sent: sent, opens: 0, uniqueOpens: 0, clicks: 0, uniqueClicks: 0,
+    unsubscribes: 0, bounces: 0, complaints: 0, openRate: 0, clickRate: 0,
+    conversions: { buyers: 0, orders: 0, revenue: 0, rate: 0 },
+    links: links.map(function (url, i) { return { index: i, url: url, uniqueClicks: 0 }; }),
+  };
+  for (var i = 0; i < records.length; i++) {
+    var r = records[i];
+    out.opens += r.opens;
+    out.clicks += r.clicks;
+    if (r.firstOpenAt) out.uniqueOpens++;
+    if (r.firstClickAt) out.uniqueClicks++;
+    if (r.unsubscribedAt) out.unsubscribes++;
+    if (r.bouncedAt) out.bounces++;
+    if (r.complainedAt) out.complaints++;
+    for (var j = 0; j < r.links.length; j++) {
+      var ls = out.links[r.links[j]];
+      if (ls) ls.uniqueClicks++;
+    }
+  }
+  out.openRate = sent > 0 ? out.uniqueOpens / sent : 0;
+  out.clickRate = sent > 0 ? out.uniqueClicks / sent : 0;
+  return out;
+}
+
+/**
+ * Orders of one clicker placed inside the attribution window after the
+ * first click. `purchased` comes from the caller (PURCHASED_ORDER_STATUSES).
+ */
+export function attributedOrders(firstClickAt: number, orders: Array<{ createdAt: any; total: any; purchased: boolean }>): { orders: number; revenue: number } {
+  var out = { orders: 0, revenue: 0 };
+  for (var i = 0; i < orders.length; i++) {
+    var o = orders[i];
+    if (!o.purchased) continue;
+    var at = typeof o.createdAt === "number" ? o.createdAt : Date.parse(String(o.createdAt || ""));
+    if (!isFinite(at) || at < firstClickAt || at > firstClickAt + EMKT_ATTRIBUTION_MS) continue;
+    out.orders++;
+    out.revenue += Number(o.total) || 0;
+  }
+  return out;
+}
+
+export function addConversions(stats: EmktCampaignStats, perBuyer: Array<{ orders: number; revenue: number }>): EmktCampaignStats {
+  var conv: EmktConversions = { buyers: 0, orders: 0, revenue: 0, rate: 0 };
+  for (var i = 0; i < perBuyer.length; i++) {
+    if (perBuyer[i].orders === 0) continue;
+    conv.buyers++;
+    conv.orders += perBuyer[i].orders;
+    conv.revenue += perBuyer[i].revenue;
+  }
+  conv.revenue = Math.round(conv.revenue * 100) / 100;
+  conv.rate = stats.uniqueClicks > 0 ? conv.buyers / stats.uniqueClicks : 0;
+  return { ...stats, conversions: conv };
+}
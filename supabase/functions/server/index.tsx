@@ -8,7 +8,7 @@
  * FUNCOES: Cache em memoria, auth JWT, validacao/sanitizacao, Supabase Storage,
  * pagamentos (PagHiper/MercadoPago), frete, email (nodemailer).
  *
- * DB: Tabela KV unica (kv_store_b7b07654). Chaves: products, super_promo,
+ * DB: Tabela KV unica (kv_store_b7b07654). Chaves: products, promo_campaign:*,
  * category_tree, settings, admin_emails, price_config, banner_*, order_*, etc.
  *
  * CACHE: _homepageInitCache (10s), _productDetailInitCache (60s/SKU),
@@ -22,12 +22,106 @@ import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "npm:@supabase/supabase-js";
-import * as kv from "./kv_store.tsx";
+import { AsyncLocalStorage } from "node:async_hooks";
+import * as kvStore from "./kv_store.tsx";
+import * as kvAtomic from "./kv_atomic.tsx";
 import { seedData } from "./seed.tsx";
 import { handleTestShippingApi } from "./test-shipping-handler.ts";
 import { validate, validateOrError, validators, schemas, checkBodySize } from "./validation.ts";
+import { evaluateCoupon, normalizeCouponRules, checkCouponRules, rejectCoupon, COUPON_DISCOUNT_TYPES, type CouponEvaluation, type CouponRules, type PromoLine } from "./promo_engine.ts";
+import { normalizePromoCampaign, checkPromoCampaign, promoCampaignStatus, comparePromoCampaigns, resolveSuperPromos, parsePromoValue, PROMO_HOMEPAGE_SLOTS, type SuperPromoCampaign, type ResolvedSuperPromos } from "./super_promo.ts";
+import { transitionOrder, startOrderHistory, ensureOrderHistory, publicOrderHistory, normalizeOrderStatus, nextOrderStatuses, PURCHASED_ORDER_STATUSES, type OrderActor } from "./order_status.ts";
+import { REFUND_MODES, planRefund, orderRefundable, orderFullyRefunded, isPendingManualRefund, refundLinesValue, mockProviderRefund, type RefundPlan, type ProviderRefundResult } from "./refunds.ts";
+import { orderWarranties, checkClaimEligibility, transitionClaim, publicClaim, isWarrantyClaimOpen, type WarrantyEntry } from "./warranty.ts";
+import { normalizeCubicFactor, normalizePackageLimits } from "./packing.ts";
+import { normalizeTableRows, parseValidDate, tableVersions, tableVersionKey, effectiveVersion, rollbackPlan, nextVersionNumber, newVersionId, diffTableRows, tableListing, type TableVersionMeta } from "./shipping_tables.ts";
+import { QUOTE_SCHEMA_VERSION, quoteManualCarriers, quoteFreightTables, apiBreakdown, packingLogFromBreakdown, dedupeAndSortOptions, diffBreakdowns, storedQuoteBreakdown, type QuoteInput, type CarrierBreakdown } from "./shipping_quote.ts";
+import { pickupBranchId, isPickupOrder, isPickupBranch, parseBranchBalance, branchAvailable, pickupBranchesFor, pickupCartItems, pickupOption, orderPickupFromBranch, generatePickupCode, pickupCodeMatches, publicPickup, type BranchStockRow } from "./pickup.ts";
+import { RMA_REASONS, isRmaReason, isRmaOpen, rmaWindow, checkRmaEligibility, buildRmaItems, rmaRefundValue, transitionRma, publicRma, RMA_MAX_PHOTOS } from "./rma.ts";
+import { ADMIN_RESOURCES, requiredAccess, needsRouteBody, sensitiveAction, normalizeRoles, accessFromRoles, accessFromLegacyTabs, fullAccess, hasAccess, tabsForAccess, resourceLabel, type AdminRole, type AccessLevel } from "./admin_roles.ts";
+import { RESERVATION_TTL_MS, reservationKey, reservationTtlMs, reservationLines, parseReservation, heldQty, activeHolds, withHold, withoutHold, holdsStock, applyReservations, STOCK_RESERVATION_PREFIX, type OrderStockReservation } from "./stock_reservations.ts";
+import { PRODUCT_ALERT_PREFIX, PRODUCT_ALERT_INDEX_KEY, MAX_ALERT_SENDS_PER_RUN, alertsKey, parseAlertRecord, parseAlertIndex, normalizeAlertPhone, activeAlerts, alertCounts, subscribeAlert, confirmAlert, unsubscribeAlert, alertIsDue, claimDueAlerts, withDelivery, alertTokenPayload, parseAlertTokenPayload, formatAlertPrice, alertWhatsAppText, type ProductAlert, type ProductAlertType, type ProductAlertState, type ProductAlertDelivery } from "./product_alerts.ts";
+import { SIGE_SYNC_SETTINGS_KEY, SIGE_SYNC_STATE_KEY, SIGE_SYNC_RUNS_KEY, SIGE_SYNC_JOURNAL_KEY, SIGE_SYNC_KNOWN_CODES_KEY, SIGE_SYNC_PRODUCT_PAGE, SIGE_SYNC_CALL_SIZE, parseSyncSettings, mergeSyncSettings, parseSyncState, parseSyncList, syncIsDue, nextSkuBatch, stockChange, priceChange, sigeProductCode, sigeProductTitle, newCatalogCodes, capFailures, runStatus, recordRunOutcome, appendRun, appendJournal, filterJournal, syncHealth, type SigeSyncTrigger, type SigeSyncSettings, type SigeSyncState, type SigeSyncRun, type SigeSyncChange, type SigeSyncChangeType, type SigeSyncHealth } from "./sige_catalog_sync.ts";
+import { EMKT_QUEUE_INDEX_KEY, EMKT_SEND_RATE_KEY, queueChunkKey, queueMessageKey, parseThrottle, checkThrottle, isLocalSmtpHost, parseScheduleAt, campaignRecipients, buildQueueChunks, parseQueueChunk, chunkCounts, queueProgress, dueChunkIndexes, parseSendRate, sendAllowance, recordSends, recoverStaleClaims, claimDueRecipients, releaseClaims, markRecipientSent, markRecipientError, cancelOpenRecipients, personalizeHtml, campaignActionStatus, filterRecipients, recipientErrors, parseQueueIndex, type EmktQueueChunk, type EmktChunkCounts, type EmktMessageSnapshot, type EmktThrottle, type EmktCampaignAction } from "./email_campaign_queue.ts";
+import { EMKT_TRACK_PREFIX, EMKT_ATTRIBUTION_MS, TRACKING_PIXEL_GIF, subscriberIdForEmail, linksKey, trackKey, emktTokenPayload, parseEmktTokenPayload, extractTrackedLinks, withCampaignUtm, trackHtml, listUnsubscribeHeaders, parseTrackRecord, recordEngagement, deactivateSubscriber, isHardBounce, parseFeedbackEvents, parsePreferenceTopics, applyPreferences, maskEmail, campaignStats, attributedOrders, addConversions, type EmktInactiveReason, type EmktTrackRecord } from "./email_tracking.ts";
+import { CUSTOMER_SEGMENT_PREFIX, WA_BROADCAST_PREFIX, WA_BROADCAST_QUEUE_KEY, MAX_BROADCAST_RECIPIENTS, MAX_BROADCAST_MESSAGE, WA_BROADCAST_SENDS_PER_RUN, WA_OPTOUT_PREFIX, waOptOutKey, segmentKey, normalizeSegmentDefinition, parseSegment, segmentNeedsCategories, assembleCustomers, segmentMembers, segmentPreview, segmentEmailSet, whatsappAudience, broadcastKey, newBroadcast, parseBroadcast, broadcastTotals, broadcastText, pendingBroadcastIndexes, withBroadcastResults, cancelBroadcast, publicBroadcast, type CustomerSegment, type CustomerFacts, type SegmentDefinition, type SegmentContext, type WaBroadcast } from "./customer_segments.ts";
+import { REVIEW_REQUEST_SETTINGS_KEY, REVIEW_REQUEST_PREFIX, REVIEW_REQUEST_QUEUE_KEY, REVIEW_REQUEST_SENDS_PER_RUN, reviewRequestKey, parseReviewRequestSettings, checkReviewRequestSettings, reviewRequestDueAt, newReviewRequest, parseReviewRequest, orderStillPurchased, pendingReviewItems, markRequestSent, markRequestSkipped, claimReviewRequest, parseReviewQueue, withQueueEntry, withoutQueueEntries, dueQueueKeys, reviewTokenPayload, parseReviewTokenPayload, reviewLinkExpired, reviewProductUrl, recordReviewClick, recordRequestReview, claimReviewReward, rewardCouponFields, formatRewardValue, reviewWhatsAppText, reviewRequestStats, publicReviewRequest, type ReviewRequest, type ReviewRequestChannel, type ReviewRequestDelivery, type ReviewRequestItem, type ReviewRequestQueueEntry, type ReviewRequestSettings, type ReviewRewardSettings } from "./review_requests.ts";
+import { PRODUCT_QA_PREFIX, PRODUCT_QA_PENDING_KEY, QA_QUESTION_MIN, QA_QUESTION_MAX, QA_ANSWER_MIN, QA_ANSWER_MAX, qaKey, parseQaRecord, parseQaPending, cleanQaText, publicAuthorName, findQuestion, addQuestion, moderateQuestion, removeQuestion, addAnswer, moderateAnswer, removeAnswer, claimAnswerNotice, withPendingEntry, withoutPendingEntry, pendingEntries, qaCounts, questionInFilter, publicQuestions, qaProductUrl, type ProductQaRecord, type ProductQuestion, type ProductAnswer, type QaPendingEntry, type QaModerationAction, type QaAdminFilter } from "./product_questions.ts";
+import { AUDIT_MAX_KEYS, isAuditedRequest, isExternalMutation, isAuditedKey, auditSnapshot, buildAuditChange, meaningfulChanges, auditSummary, matchesEntity, sameAuditValue, publicAuditEntry, type AuditSnapshot, type AuditChange } from "./audit.ts";
+import { signToken, verifyToken, tokenSignature } from "./signed_tokens.ts";
 import nodemailer from "npm:nodemailer@6.9.16";
 
+// ── KV with audit recording ──
+// Same interface as kv_store.tsx. Inside an audited request (AUDIT TRAIL
+// middleware) the value of each key is read before its first write, so the
+// audit entry can show and revert what the request changed.
+interface _AuditScope {
+  before: Map<string, AuditSnapshot>;
+  after: Map<string, AuditSnapshot>;
+  order: string[];
+  skipped: Set<string>;
+}
+var _auditScope = new AsyncLocalStorage<_AuditScope>();
+
+async function _auditCapture(keys: string[]): Promise<void> {
+  var scope = _auditScope.getStore();
+  if (!scope) return;
+  var fresh: string[] = [];
+  for (var i = 0; i < keys.length; i++) {
+    var key = keys[i];
+    if (!isAuditedKey(key) || scope.before.has(key) || fresh.indexOf(key) !== -1) continue;
+    if (scope.order.length + fresh.length >= AUDIT_MAX_KEYS) { scope.skipped.add(key); continue; }
+    fresh.push(key);
+  }
+  if (fresh.length === 0) return;
+  var values = await Promise.all(fresh.map(function (k) { return kvStore.get(k); }));
+  for (var j = 0; j < fresh.length; j++) {
+    scope.before.set(fresh[j], auditSnapshot(values[j]));
+    scope.order.push(fresh[j]);
+  }
+}
+
+function _auditRecord(keys: string[], values: any[] | null): void {
+  var scope = _auditScope.getStore();
+  if (!scope) return;
+  for (var i = 0; i < keys.length; i++) {
+    if (scope.before.has(keys[i])) scope.after.set(keys[i], auditSnapshot(values ? values[i] : null));
+  }
+}
+
+const kv = {
+  get: kvStore.get,
+  mget: kvStore.mget,
+  getByPrefix: kvStore.getByPrefix,
+  set: async function (key: string, value: any): Promise<void> {
+    await _auditCapture([key]);
+    await kvStore.set(key, value);
+    _auditRecord([key], [value]);
+  },
+  del: async function (key: string): Promise<void> {
+    await _auditCapture([key]);
+    await kvStore.del(key);
+    _auditRecord([key], null);
+  },
+  mset: async function (keys: string[], values: any[]): Promise<void> {
+    await _auditCapture(keys);
+    await kvStore.mset(keys, values);
+    _auditRecord(keys, values);
+  },
+  mdel: async function (keys: string[]): Promise<void> {
+    await _auditCapture(keys);
+    await kvStore.mdel(keys);
+    _auditRecord(keys, null);
+  },
+  /** Compare-and-swap read-modify-write (kv_atomic.tsx); fn may run more than once */
+  update: async function (key: string, fn: (current: any) => any): Promise<{ written: boolean; value: any }> {
+    await _auditCapture([key]);
+    var out = await withMutex("kv:" + key, function () { return kvAtomic.update(key, fn); });
+    if (out.written) _auditRecord([key], [out.value]);
+    return out;
+  },
+};
+
 const app = new Hono();
 
 // Supabase admin client (service role)
@@ -83,7 +177,7 @@ var ALL_ADMIN_TABS = [
   "footer-badges", "api-sige", "paghiper", "mercadopago",
   "shipping", "sisfrete-wt", "ga4", "audit-log", "settings", "admins",
   "email-marketing", "brands", "auto-categ", "reviews", "warranty",
-  "affiliates", "lgpd-requests", "branches"
+  "affiliates", "lgpd-requests", "branches", "vehicles"
 ];
 
 function _isMasterEmail(email: string | null): boolean {
@@ -117,8 +211,8 @@ async function _saveAdminWhitelist(list: string[]): Promise<void> {
   await kv.set("admin_emails", JSON.stringify(filtered));
 }
 
-async function _getAdminPermissions(email: string): Promise<string[]> {
-  if (_isMasterEmail(email)) return ALL_ADMIN_TABS.slice();
+// Legacy tab list (admin_perms:<email>) — only used while the admin has no roles
+async function _getLegacyAdminTabs(email: string): Promise<string[]> {
   try {
     var raw = await kv.get("admin_perms:" + email.toLowerCase().trim());
     if (raw) {
@@ -136,6 +230,70 @@ async function _setAdminPermissions(email: string, tabs: string[]): Promise<void
   await kv.set("admin_perms:" + email.toLowerCase().trim(), JSON.stringify(tabs));
 }
 
+// Roles (admin_roles.ts): role definitions + the roles assigned to each admin
+async function _getAdminRoles(): Promise<AdminRole[]> {
+  try {
+    var raw = await kv.get("admin_roles");
+    if (raw) return normalizeRoles(typeof raw === "string" ? JSON.parse(raw) : raw);
+  } catch (e) {
+    console.error("[AdminRoles] Parse error: " + e);
+  }
+  return normalizeRoles(null);
+}
+
+async function _getAdminRoleIds(email: string): Promise<string[] | null> {
+  try {
+    var raw = await kv.get("admin_access:" + email.toLowerCase().trim());
+    if (!raw) return null;
+    var parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return parsed && Array.isArray(parsed.roles) ? parsed.roles.map(String) : null;
+  } catch (e) {
+    console.error("[AdminRoles] Access parse error for " + email + ": " + e);
+    return null;
+  }
+}
+
+async function _setAdminRoleIds(email: string, roleIds: string[]): Promise<void> {
+  if (_isMasterEmail(email)) return;
+  await kv.set("admin_access:" + email.toLowerCase().trim(), JSON.stringify({ roles: roleIds, updatedAt: Date.now() }));
+}
+
+/** Effective access of an admin: master = everything, roles when assigned, else the legacy tab list */
+async function _getAdminAccess(email: string, roles?: AdminRole[]): Promise<{ roles: string[]; legacy: boolean; access: Record<string, AccessLevel>; tabs: string[] }> {
+  if (_isMasterEmail(email)) {
+    var all = fullAccess();
+    return { roles: [], legacy: false, access: all, tabs: tabsForAccess(all) };
+  }
+  var roleIds = await _getAdminRoleIds(email);
+  if (roleIds) {
+    var acc = accessFromRoles(roleIds, roles || await _getAdminRoles());
+    return { roles: roleIds, legacy: false, access: acc, tabs: tabsForAccess(acc) };
+  }
+  var legacyAcc = accessFromLegacyTabs(await _getLegacyAdminTabs(email));
+  return { roles: [], legacy: true, access: legacyAcc, tabs: tabsForAccess(legacyAcc) };
+}
+
+async function _getAdminPermissions(email: string): Promise<string[]> {
+  return (await _getAdminAccess(email)).tabs;
+}
+
+/** Role ids from a request body, all of them existing roles */
+async function _checkRoleIds(raw: any[]): Promise<{ ids: string[]; error?: string }> {
+  var roles = await _getAdminRoles();
+  var ids: string[] = [];
+  for (var i = 0; i < raw.length; i++) {
+    var id = String(raw[i] || "").trim();
+    var known = roles.some(function (r) { return r.id === id; });
+    if (!known) return { ids: [], error: "Papel desconhecido: " + id.substring(0, 40) };
+    if (ids.indexOf(id) === -1) ids.push(id);
+  }
+  return { ids: ids };
+}
+
+function _adminResourceList(): Array<{ id: string; label: string; tabs: string[] }> {
+  return ADMIN_RESOURCES.map(function (r) { return { id: r.id, label: r.label, tabs: r.tabs }; });
+}
+
 async function isAdminUser(request: Request): Promise<{ isAdmin: boolean; userId: string | null; email: string | null; isMaster: boolean }> {
   var userId = await getAuthUserId(request);
   if (!userId) return { isAdmin: false, userId: null, email: null, isMaster: false };
@@ -401,6 +559,35 @@ setInterval(function () {
   }
 }, 300000);
 
+// ═══════════════════════════════════════════════════════════════════════
+// Durable lock — row in kv_locks_b7b07654 (kv_atomic.tsx), held across isolates
+// withMutex only serializes requests inside one isolate. Use withKvLock for
+// read-modify-write with external side effects (SIGE, refunds) that cannot be
+// retried; plain value updates use kv.update (compare-and-swap) instead.
+// The lock name is the KV key it protects.
+// ═══════════════════════════════════════════════════════════════════════
+async function withKvLock<T>(name: string, fn: (lock: kvAtomic.KvLockHandle) => Promise<T>): Promise<T> {
+  // The in-memory mutex in front keeps one isolate from polling the DB against itself
+  return withMutex("lock:" + name, function () { return kvAtomic.withLock(name, fn); });
+}
+
+/**
+ * Order record update under the order lock (status changes from webhooks and
+ * reconciliation). mutate returns false to leave the order untouched.
+ * Resolves to the saved order, or null when missing/unchanged.
+ */
+async function _updateOrderRecord(kvKey: string, mutate: (order: any) => boolean | Promise<boolean>): Promise<any | null> {
+  return withKvLock(kvKey, async function (lock) {
+    var raw = await kv.get(kvKey);
+    if (!raw) return null;
+    var order = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!(await mutate(order))) return null;
+    lock.assertHeld();
+    await kv.set(kvKey, JSON.stringify(order));
+    return order;
+  });
+}
+
 setInterval(function () {
   var now = Date.now();
   var cutoff = now - RATE_LIMIT_WINDOW_MS;
@@ -539,20 +726,26 @@ function _isValidCPF(cpf: string): boolean {
 
 // ═══════════════════════════════════════════════════════════════════════
 // Stock Validation — checks KV cached stock for all items in a payment request
+// Units held by other pending orders (stock reservations) are not available.
 // Returns { ok, outOfStock[] } — fails fast on first out-of-stock item
 // ═══════════════════════════════════════════════════════════════════════
-async function _validateStock(items: any[]): Promise<{ ok: boolean; outOfStock: string[] }> {
+async function _validateStock(items: any[], exceptOrderKey?: string): Promise<{ ok: boolean; outOfStock: string[] }> {
   if (!items || items.length === 0) return { ok: true, outOfStock: [] };
   var outOfStock: string[] = [];
+  var stockSkus: string[] = [];
+  for (var hi = 0; hi < items.length; hi++) {
+    var hSku = items[hi].sku || items[hi].item_id || items[hi].codProduto || "";
+    if (hSku) stockSkus.push(hSku);
+  }
+  var held = await _stockHeldBySku(stockSkus, exceptOrderKey);
   for (var si = 0; si < items.length; si++) {
     var sku = items[si].sku || items[si].item_id || items[si].codProduto || "";
     var qty = Number(items[si].quantity || items[si].qtd || items[si].quantidade || 1);
     if (!sku) continue;
     try {
-      var balRaw = await kv.get("sige_balance_" + sku);
-      if (balRaw !== null && balRaw !== undefined) {
-        var bal = typeof balRaw === "string" ? JSON.parse(balRaw) : balRaw;
-        var available = Number(bal.available ?? bal.saldoDisponivel ?? bal) || 0;
+      var cachedAvailable = await _cachedAvailable(sku);
+      if (cachedAvailable !== null) {
+        var available = Math.max(0, cachedAvailable - (held[sku] || 0));
         if (available < qty) {
           outOfStock.push(sku + " (disponivel: " + available + ", pedido: " + qty + ")");
         }
@@ -565,6 +758,142 @@ async function _validateStock(items: any[]): Promise<{ ok: boolean; outOfStock:
   return { ok: outOfStock.length === 0, outOfStock };
 }
 
+/** Cached SIGE balance available for sale (before reservations); null when unknown */
+async function _cachedAvailable(sku: string): Promise<number | null> {
+  var balRaw = await kv.get("sige_balance_" + sku);
+  if (balRaw === null || balRaw === undefined) return null;
+  var bal = typeof balRaw === "string" ? JSON.parse(balRaw) : balRaw;
+  if (!bal || typeof bal !== "object") return Number(bal) || 0;
+  if (bal.found === false) return null;
+  return Number(bal.disponivel ?? bal.available ?? bal.saldoDisponivel ?? bal.quantidade ?? 0) || 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// Stock Reservations — stock_reservations.ts (stock_reservation:<sku>)
+// Taken by the charge routes (PIX, boleto, card, Mercado Pago) before the
+// gateway is called and refreshed by save-order while the order awaits
+// payment; written with kv.update (compare-and-swap) so concurrent checkouts
+// of the same SKU see each other.
+// ═══════════════════════════════════════════════════════════════════════
+
+/** Units held by unexpired reservations per SKU (one query for the whole list) */
+async function _stockHeldBySku(skus: string[], exceptOrderKey?: string): Promise<Record<string, number>> {
+  var held: Record<string, number> = {};
+  if (skus.length === 0) return held;
+  try {
+    var res = await supabaseAdmin
+      .from("kv_store_b7b07654")
+      .select("key, value")
+      .in("key", skus.map(reservationKey));
+    if (res.error) throw new Error(res.error.message);
+    var now = Date.now();
+    var rows = (res.data || []) as Array<{ key: string; value: any }>;
+    for (var i = 0; i < rows.length; i++) {
+      var sku = rows[i].key.substring(STOCK_RESERVATION_PREFIX.length);
+      var qty = heldQty(parseReservation(rows[i].value, sku), now, exceptOrderKey);
+      if (qty > 0) held[sku] = qty;
+    }
+  } catch (e) {
+    // Balances still show without reservations rather than failing the storefront
+    console.warn("[StockReservation] Read error (non-fatal): " + e);
+  }
+  return held;
+}
+
+/**
+ * Holds stock for every line of an unpaid order; lines over the cached balance
+ * are flagged short. strict: a short line is not written, the lines already
+ * held are given back and the result holds nothing (skus empty, short set).
+ */
+async function _reserveOrderStock(orderKey: string, items: any[], paymentMethod: string, strict?: boolean): Promise<OrderStockReservation | null> {
+  var lines = reservationLines(items);
+  if (lines.length === 0) return null;
+  var now = Date.now();
+  var expiresAt = now + reservationTtlMs(paymentMethod);
+  var short: string[] = [];
+  for (var i = 0; i < lines.length; i++) {
+    var line = lines[i];
+    var available = await _cachedAvailable(line.sku);
+    var isShort = false;
+    await kv.update(reservationKey(line.sku), function (raw: any) {
+      var rec = raw ? parseReservation(raw, line.sku) : { sku: line.sku, holds: [], updatedAt: 0 };
+      var next = withHold(rec, {
+        orderKey: orderKey, qty: line.qty, paymentMethod: String(paymentMethod || ""), createdAt: now, expiresAt: expiresAt,
+      }, available, Date.now());
+      isShort = next.holds[next.holds.length - 1].short === true;
+      if (isShort && strict) return undefined;
+      return JSON.stringify(next);
+    });
+    if (isShort) short.push(line.sku);
+    if (isShort && strict) {
+      await _releaseOrderStock(orderKey, lines.slice(0, i).map(function (l) { return l.sku; }));
+      return { skus: [], expiresAt: expiresAt, createdAt: now, short: short };
+    }
+  }
+  if (short.length > 0) console.warn("[StockReservation] " + orderKey + " reserved beyond cached balance: " + short.join(", "));
+  var out: OrderStockReservation = { skus: lines.map(function (l) { return l.sku; }), expiresAt: expiresAt, createdAt: now };
+  if (short.length > 0) out.short = short;
+  return out;
+}
+
+/** Order key for a checkout order id, sanitized as save-order does */
+function _checkoutOrderKey(userId: string, localOrderId: any): string {
+  return "user_order:" + userId + ":" + String(localOrderId || "").replace(/[^a-zA-Z0-9_\-]/g, "").substring(0, 80);
+}
+
+/**
+ * All-or-nothing hold for a charge about to be created — called right before
+ * the gateway, so the last unit never ends up in two PIX codes. Same key
+ * save-order uses later (user_order:<userId>:<localOrderId>).
+ */
+async function _reserveChargeStock(userId: string, orderId: string, items: Array<{ sku: string; quantity: any }>, paymentMethod: string): Promise<{ ok: boolean; orderKey: string; skus: string[]; short: string[] }> {
+  var orderKey = _checkoutOrderKey(userId, orderId);
+  // Warranty and freight lines ride along in gateway item lists
+  var lines = (items || []).filter(function (it) { return it.sku && it.sku !== "FRETE" && it.sku.indexOf("GAR-") !== 0; });
+  var resv = await _reserveOrderStock(orderKey, lines, paymentMethod, true);
+  var short = resv && resv.short ? resv.short : [];
+  return { ok: short.length === 0, orderKey: orderKey, skus: resv ? resv.skus : [], short: short };
+}
+
+/** Gives a charge hold back when the gateway did not create the charge. Never throws. */
+async function _releaseChargeStock(resv: { orderKey: string; skus: string[] } | null): Promise<void> {
+  if (!resv || resv.skus.length === 0) return;
+  try {
+    await _releaseOrderStock(resv.orderKey, resv.skus);
+  } catch (e) {
+    console.error("[StockReservation] Release error for " + resv.orderKey + ": " + e);
+  }
+}
+
+async function _releaseOrderStock(orderKey: string, skus: string[]): Promise<void> {
+  for (var i = 0; i < skus.length; i++) {
+    var sku = skus[i];
+    await kv.update(reservationKey(sku), function (raw: any) {
+      if (!raw) return undefined;
+      var next = withoutHold(parseReservation(raw, sku), orderKey, Date.now());
+      return next ? JSON.stringify(next) : undefined;
+    });
+  }
+}
+
+/**
+ * After a status change: an order that no longer awaits payment gives its
+ * reservation back (paid → SIGE already deducted it; cancelled → back on sale).
+ * Mutates order.stockReservation; the caller saves the order. Never throws.
+ */
+async function _syncOrderStock(orderKey: string, order: any): Promise<void> {
+  var resv = order && order.stockReservation;
+  if (!resv || resv.releasedAt || holdsStock(normalizeOrderStatus(order.status))) return;
+  try {
+    await _releaseOrderStock(orderKey, Array.isArray(resv.skus) ? resv.skus : []);
+    resv.releasedAt = Date.now();
+    resv.releasedOnStatus = normalizeOrderStatus(order.status);
+  } catch (e) {
+    // Left as is: the hold still expires on its own
+    console.error("[StockReservation] Release error for " + orderKey + ": " + e);
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════
 // Shipping Validation — ensures shipping option is present and valid
 // ═══════════════════════════════════════════════════════════════════════
@@ -1083,17 +1412,146 @@ app.use(BASE + "/auth/user/login", async (c: any, next: any) => {
 });
 
 // ═══════════════════════════════════════════════════════════════════════
-// Admin guard middleware — blocks non-admin access with 403
+// Admin guard middleware — blocks non-admin access with 403, then checks the
+// admin's role access for the route (admin_roles.ts). Sensitive writes by
+// anyone but the master are queued for approval (202) instead of running.
 // ══════════════════════════════════════════════════════════════════��════
+var ADMIN_APPROVAL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+var ADMIN_APPROVAL_MAX_BODY = 200000;
+
 async function adminGuard(c: any, next: any) {
+  // Some routes match more than one guarded pattern — check once per request
+  if (c.get("adminUser")) return next();
   var result = await isAdminUser(c.req.raw);
   if (!result.isAdmin) {
     console.warn("[adminGuard] BLOCKED: " + c.req.method + " " + c.req.path + " (userId=" + String(result.userId) + " email=" + String(result.email) + ")");
     return c.json({ error: "Forbidden: admin access required" }, 403);
   }
+  var method = c.req.method;
+  var route = c.req.path.substring(BASE.length);
+
+  if (result.isMaster) {
+    var approvalId = c.req.header("x-approval-id");
+    if (approvalId) {
+      // Replay of an approved request (POST /admin/approvals/:id/approve)
+      var approval = await kv.get("admin_approval:" + approvalId);
+      if (!approval || approval.status !== "approving" || approval.method !== method || approval.route !== route) {
+        return c.json({ error: "Aprovacao invalida para esta requisicao." }, 409);
+      }
+      c.set("auditMeta", { details: approval.label + " aprovado por " + result.email + " (solicitado por " + approval.requestedBy.email + ")" });
+    }
+    c.set("adminUser", { userId: result.userId, email: result.email });
+    return next();
+  }
+
+  var bodyText: string | null = null;
+  var body: any = undefined;
+  if (needsRouteBody(method, route) || sensitiveAction(method, route) !== null) {
+    try { bodyText = await c.req.raw.clone().text(); } catch { bodyText = ""; }
+    try { body = bodyText ? JSON.parse(bodyText) : undefined; } catch { body = undefined; }
+  }
+  var needed = requiredAccess(method, route, body);
+  if (needed) {
+    var info = await _getAdminAccess(result.email || "");
+    for (var i = 0; i < needed.length; i++) {
+      if (!hasAccess(info.access, needed[i].resource, needed[i].level)) {
+        console.warn("[adminGuard] DENIED: " + method + " " + route + " for " + result.email + " (needs " + needed[i].level + " on " + needed[i].resource + ")");
+        return c.json({
+          error: "Sem permissao de " + (needed[i].level === "write" ? "alteracao" : "leitura") + " em " + resourceLabel(needed[i].resource) + ".",
+          resource: needed[i].resource,
+          level: needed[i].level,
+        }, 403);
+      }
+    }
+  }
+  c.set("adminUser", { userId: result.userId, email: result.email });
+
+  var label = sensitiveAction(method, route, body);
+  if (label) {
+    if (bodyText && bodyText.length > ADMIN_APPROVAL_MAX_BODY) {
+      return c.json({ error: "Requisicao grande demais para aprovacao." }, 413);
+    }
+    var now = Date.now();
+    var id = "apr_" + now + "_" + crypto.randomUUID().slice(0, 8);
+    await kv.set("admin_approval:" + id, {
+      id: id,
+      status: "pending",
+      label: label,
+      method: method,
+      route: route,
+      query: new URL(c.req.url).search || "",
+      body: bodyText || "",
+      requestedBy: { userId: result.userId, email: result.email },
+      requestedAt: now,
+      expiresAt: now + ADMIN_APPROVAL_TTL_MS,
+    });
+    return c.json({
+      pendingApproval: true,
+      approvalId: id,
+      message: label + " enviado para aprovacao do admin master.",
+    }, 202);
+  }
   await next();
 }
 
+// ═══════════════════════════════════════════════════════════════════════
+// AUDIT TRAIL — admin mutations are logged by the server, not by the panel
+// (audit.ts): actor, IP, route, KV keys written and the before/after diff.
+// Registered before the guards so the scope covers guard + handler; the
+// actor comes from adminGuard (c.get("adminUser")).
+// ═══════════════════════════════════════════════════════════════════════
+function _clientIp(c: any): string {
+  var ip = c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || "unknown";
+  if (ip.indexOf(",") >= 0) ip = ip.split(",")[0].trim();
+  return ip.substring(0, 100);
+}
+
+app.use(BASE + "/*", async function (c: any, next: any) {
+  var route = c.req.path.substring(BASE.length);
+  if (!isAuditedRequest(c.req.method, route)) return next();
+  var scope: _AuditScope = { before: new Map(), after: new Map(), order: [], skipped: new Set() };
+  await _auditScope.run(scope, next);
+  try {
+    var changes: AuditChange[] = [];
+    for (var i = 0; i < scope.order.length; i++) {
+      var after = scope.after.get(scope.order[i]);
+      if (!after) continue; // write failed
+      changes.push(buildAuditChange(scope.order[i], scope.before.get(scope.order[i])!, after));
+    }
+    changes = meaningfulChanges(changes);
+    var external = isExternalMutation(route) && c.res.status < 400;
+    if (changes.length === 0 && scope.skipped.size === 0 && !external) return;
+
+    var actor = c.get("adminUser") || { userId: await getAuthUserId(c.req.raw), email: null };
+    var meta = c.get("auditMeta") || {};
+    var ts = Date.now();
+    var logId = "audit_" + ts + "_" + crypto.randomUUID().slice(0, 8);
+    var entry: any = {
+      id: logId,
+      source: "server",
+      action: c.req.method + " " + route,
+      email: actor.email || "",
+      userName: "",
+      userId: actor.userId || null,
+      details: meta.details || auditSummary(changes, scope.skipped.size) || "Chamada ao SIGE",
+      userAgent: String(c.req.header("user-agent") || "").substring(0, 500),
+      ip: _clientIp(c),
+      method: c.req.method,
+      route: route,
+      status: c.res.status,
+      entities: changes.map(function (ch) { return ch.key; }),
+      changes: changes,
+      truncatedKeys: scope.skipped.size,
+      timestamp: ts,
+      createdAt: new Date(ts).toISOString(),
+    };
+    if (meta.revertOf) entry.revertOf = meta.revertOf;
+    await kvStore.set("admin_audit:" + logId, entry);
+  } catch (e) {
+    console.error("[AuditLog] Record error:", e);
+  }
+});
+
 // ── Protect /sige/* (exempt checkout-facing user routes) ──
 app.use(BASE + "/sige/*", async (c: any, next: any) => {
   var subpath = c.req.path.substring(c.req.path.indexOf("/sige/") + 6);
@@ -1605,14 +2063,21 @@ app.get(BASE + "/auth/check-admin", async (c) => {
   try {
     var result = await isAdminUser(c.req.raw);
     var permissions: string[] = [];
+    var access: Record<string, AccessLevel> = {};
+    var roles: string[] = [];
     if (result.isAdmin && result.email) {
-      permissions = await _getAdminPermissions(result.email);
+      var info = await _getAdminAccess(result.email);
+      permissions = info.tabs;
+      access = info.access;
+      roles = info.roles;
     }
     return c.json({
       isAdmin: result.isAdmin,
       email: result.email,
       isMaster: result.isMaster,
       permissions: permissions,
+      access: access,
+      roles: roles,
       noAdminsExist: false
     });
   } catch (e) {
@@ -1740,6 +2205,7 @@ app.post(BASE + "/auth/admin-whitelist", async (c) => {
       action: { required: true, type: "string", maxLen: 20, oneOf: ["add", "remove", "resend-invite"] },
       email: { required: true, type: "string", maxLen: 254, custom: validators.email },
       permissions: { type: "array", maxItems: 50 },
+      roles: { type: "array", maxItems: 30 },
     });
     if (!awValid.ok) {
       return c.json({ error: awValid.errors[0] || "Dados invalidos." }, 400);
@@ -1747,6 +2213,12 @@ app.post(BASE + "/auth/admin-whitelist", async (c) => {
     var action = awValid.sanitized.action;
     var email = awValid.sanitized.email;
     var permissions = body.permissions;
+    var roleIds: string[] | null = null;
+    if (Array.isArray(body.roles)) {
+      var roleCheck = await _checkRoleIds(body.roles);
+      if (roleCheck.error) return c.json({ error: roleCheck.error }, 400);
+      roleIds = roleCheck.ids;
+    }
 
     var emailLower = email.toLowerCase().trim();
 
@@ -1844,8 +2316,10 @@ app.post(BASE + "/auth/admin-whitelist", async (c) => {
       } else {
         userAlreadyExisted = true;
       }
-      // Save permissions if provided
-      if (Array.isArray(permissions)) {
+      // Save roles (or the legacy tab list) if provided
+      if (roleIds) {
+        await _setAdminRoleIds(emailLower, roleIds);
+      } else if (Array.isArray(permissions)) {
         await _setAdminPermissions(emailLower, permissions);
       }
       var perms = await _getAdminPermissions(emailLower);
@@ -1856,7 +2330,7 @@ app.post(BASE + "/auth/admin-whitelist", async (c) => {
       var filtered = currentList.filter(function(e: string) { return e !== emailLower; });
       await _saveAdminWhitelist(filtered);
       // Clean up permissions
-      try { await kv.del("admin_perms:" + emailLower); } catch (delErr) {
+      try { await kv.mdel(["admin_perms:" + emailLower, "admin_access:" + emailLower]); } catch (delErr) {
         console.error("[AdminWhitelist] Del perms error:", delErr);
       }
       // Downgrade user role
@@ -1934,25 +2408,25 @@ app.post(BASE + "/auth/admin-whitelist", async (c) => {
   }
 });
 
-// Get full admin list with permissions (master only)
+// Get full admin list with roles/permissions (read access on "admins", see adminGuard)
 app.get(BASE + "/auth/admin-list", async (c) => {
   try {
-    var adminCheck = await isAdminUser(c.req.raw);
-    if (!adminCheck.isMaster) {
-      return c.json({ error: "Apenas o admin master pode ver a lista completa." }, 403);
-    }
     var list = await _getAdminWhitelist();
+    var roles = await _getAdminRoles();
     var admins: any[] = [];
     for (var i = 0; i < list.length; i++) {
       var em = list[i];
-      var perms = await _getAdminPermissions(em);
+      var info = await _getAdminAccess(em, roles);
       admins.push({
         email: em,
         isMaster: _isMasterEmail(em),
-        permissions: perms
+        permissions: info.tabs,
+        roles: info.roles,
+        legacy: info.legacy,
+        access: info.access,
       });
     }
-    return c.json({ admins: admins, allTabs: ALL_ADMIN_TABS });
+    return c.json({ admins: admins, allTabs: ALL_ADMIN_TABS, roles: roles, resources: _adminResourceList() });
   } catch (e) {
     console.error("Admin-list error:", e);
     return c.json({ error: "Erro ao buscar lista de admins." }, 500);
@@ -1970,13 +2444,23 @@ app.post(BASE + "/auth/admin-permissions", async (c) => {
     // Input validation
     var apValid = validate(body, {
       email: { required: true, type: "string", maxLen: 254, custom: validators.email },
-      permissions: { required: true, type: "array", maxItems: 50 },
+      permissions: { type: "array", maxItems: 50 },
+      roles: { type: "array", maxItems: 30 },
     });
     if (!apValid.ok) {
       return c.json({ error: apValid.errors[0] || "Dados invalidos." }, 400);
     }
+    if (!Array.isArray(body.roles) && !Array.isArray(body.permissions)) {
+      return c.json({ error: "Informe os papeis (roles) ou as abas (permissions)." }, 400);
+    }
     var email = apValid.sanitized.email;
     var permissions = body.permissions;
+    var roleIds: string[] | null = null;
+    if (Array.isArray(body.roles)) {
+      var roleCheck = await _checkRoleIds(body.roles);
+      if (roleCheck.error) return c.json({ error: roleCheck.error }, 400);
+      roleIds = roleCheck.ids;
+    }
 
     // Validate each permission string
     if (Array.isArray(permissions)) {
@@ -1998,6 +2482,11 @@ app.post(BASE + "/auth/admin-permissions", async (c) => {
       return c.json({ error: "Este email não é um administrador." }, 400);
     }
 
+    if (roleIds) {
+      await _setAdminRoleIds(emailLower, roleIds);
+      var info = await _getAdminAccess(emailLower);
+      return c.json({ ok: true, email: emailLower, roles: roleIds, permissions: info.tabs, access: info.access });
+    }
     await _setAdminPermissions(emailLower, permissions);
     // Permissions updated + ": " + permissions.join(", "));
     return c.json({ ok: true, email: emailLower, permissions: permissions });
@@ -2021,6 +2510,174 @@ app.get(BASE + "/auth/admin-whitelist", async (c) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════════
+// ADMIN ROLES — role definitions (admin_roles.ts). Read needs "admins" read;
+// PUT by anyone but the master becomes an approval request (adminGuard).
+// ═══════════════════════════════════════════════════════════════════════
+app.get(BASE + "/admin/roles", async (c) => {
+  try {
+    return c.json({ roles: await _getAdminRoles(), resources: _adminResourceList() });
+  } catch (e) {
+    console.error("Admin roles get error:", e);
+    return c.json({ error: "Erro ao buscar papeis." }, 500);
+  }
+});
+
+app.put(BASE + "/admin/roles", async (c) => {
+  try {
+    var adminCheck = await isAdminUser(c.req.raw);
+    if (!adminCheck.isMaster) {
+      return c.json({ error: "Apenas o admin master pode alterar papeis." }, 403);
+    }
+    var body = await c.req.json();
+    var rlValid = validate(body, {
+      roles: { required: true, type: "array", maxItems: 30 },
+    });
+    if (!rlValid.ok) {
+      return c.json({ error: rlValid.errors[0] || "Dados invalidos." }, 400);
+    }
+    var roles = normalizeRoles(body.roles);
+    if (roles.length !== body.roles.length) {
+      return c.json({ error: "Cada papel precisa de id e nome unicos." }, 400);
+    }
+    await kv.set("admin_roles", JSON.stringify(roles));
+    return c.json({ ok: true, roles: roles });
+  } catch (e) {
+    console.error("Admin roles save error:", e);
+    return c.json({ error: "Erro ao salvar papeis." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// ADMIN APPROVALS — sensitive actions queued by adminGuard (admin_approval:<id>).
+// The master approves (the stored request is replayed with their session) or
+// rejects; the requester may cancel. Other admins only see their own.
+// ═══════════════════════════════════════════════════════════════════════
+function _approvalView(a: any, now: number): any {
+  var { body: _b, ...rest } = a;
+  if (rest.status === "pending" && rest.expiresAt && rest.expiresAt < now) rest.status = "expired";
+  var preview = "";
+  try { preview = JSON.stringify(JSON.parse(a.body || "null"), null, 2) || ""; } catch { preview = String(a.body || ""); }
+  rest.bodyPreview = preview.substring(0, 4000);
+  return rest;
+}
+
+app.get(BASE + "/admin/approvals", async (c: any) => {
+  try {
+    var actor = c.get("adminUser") || {};
+    var isMaster = _isMasterEmail(actor.email || null);
+    var status = c.req.query("status") || "";
+    var now = Date.now();
+    var rows = await kv.getByPrefix("admin_approval:");
+    var list = rows
+      .map(function (r: any) { return _approvalView(typeof r === "string" ? JSON.parse(r) : r, now); })
+      .filter(function (a: any) {
+        if (!isMaster && (!a.requestedBy || a.requestedBy.email !== actor.email)) return false;
+        return !status || a.status === status;
+      })
+      .sort(function (a: any, b: any) { return b.requestedAt - a.requestedAt; })
+      .slice(0, 200);
+    return c.json({ approvals: list, isMaster: isMaster });
+  } catch (e) {
+    console.error("Admin approvals list error:", e);
+    return c.json({ error: "Erro ao buscar aprovacoes." }, 500);
+  }
+});
+
+app.post(BASE + "/admin/approvals/:id/approve", async (c: any) => {
+  try {
+    var actor = c.get("adminUser") || {};
+    if (!_isMasterEmail(actor.email || null)) {
+      return c.json({ error: "Apenas o admin master pode aprovar." }, 403);
+    }
+    var id = c.req.param("id");
+    var key = "admin_approval:" + id;
+    var claimed = await withMutex(key, async function () {
+      var a = await kv.get(key);
+      if (!a) return { error: "Solicitacao nao encontrada.", status: 404 };
+      if (a.status !== "pending") return { error: "Solicitacao ja foi " + a.status + ".", status: 409 };
+      if (a.expiresAt && a.expiresAt < Date.now()) return { error: "Solicitacao expirada.", status: 409 };
+      a.status = "approving";
+      await kv.set(key, a);
+      return { approval: a };
+    });
+    if (claimed.error) return c.json({ error: claimed.error }, claimed.status as any);
+    var approval = claimed.approval;
+
+    // Replay with the master's own credentials; adminGuard recognizes x-approval-id
+    var headers = new Headers();
+    headers.set("Content-Type", "application/json");
+    for (var h of ["authorization", "apikey", "x-user-token", "user-agent", "x-forwarded-for"]) {
+      var v = c.req.header(h);
+      if (v) headers.set(h, v);
+    }
+    headers.set("x-approval-id", id);
+    var url = new URL(BASE + approval.route + (approval.query || ""), c.req.url);
+    var res: Response;
+    var resText = "";
+    try {
+      res = await app.fetch(new Request(url.toString(), {
+        method: approval.method,
+        headers: headers,
+        body: approval.method === "GET" || approval.method === "HEAD" ? undefined : approval.body,
+      }));
+      resText = await res.text();
+    } catch (replayErr) {
+      approval.status = "failed";
+      approval.result = { status: 500, body: String(replayErr).substring(0, 1000) };
+      approval.decidedBy = actor.email;
+      approval.decidedAt = Date.now();
+      await kv.set(key, approval);
+      return c.json({ error: "Erro ao executar a acao aprovada." }, 500);
+    }
+    approval.status = res.ok ? "approved" : "failed";
+    approval.result = { status: res.status, body: resText.substring(0, 2000) };
+    approval.decidedBy = actor.email;
+    approval.decidedAt = Date.now();
+    await kv.set(key, approval);
+    if (!res.ok) {
+      var failMsg = "";
+      try { failMsg = JSON.parse(resText).error || ""; } catch {}
+      return c.json({ error: "A acao aprovada falhou (HTTP " + res.status + ")" + (failMsg ? ": " + failMsg : "."), approval: _approvalView(approval, Date.now()) }, 422);
+    }
+    return c.json({ ok: true, approval: _approvalView(approval, Date.now()) });
+  } catch (e) {
+    console.error("Admin approval approve error:", e);
+    return c.json({ error: "Erro ao aprovar solicitacao." }, 500);
+  }
+});
+
+app.post(BASE + "/admin/approvals/:id/reject", async (c: any) => {
+  try {
+    var actor = c.get("adminUser") || {};
+    var isMaster = _isMasterEmail(actor.email || null);
+    var body = await c.req.json().catch(function () { return {}; });
+    var rjValid = validate(body, {
+      reason: { type: "string", maxLen: 500 },
+    });
+    if (!rjValid.ok) return c.json({ error: rjValid.errors[0] || "Dados invalidos." }, 400);
+    var key = "admin_approval:" + c.req.param("id");
+    var out = await withMutex(key, async function () {
+      var a = await kv.get(key);
+      if (!a) return { error: "Solicitacao nao encontrada.", status: 404 };
+      var own = a.requestedBy && a.requestedBy.email === actor.email;
+      if (!isMaster && !own) return { error: "Apenas o admin master pode recusar.", status: 403 };
+      if (a.status !== "pending") return { error: "Solicitacao ja foi " + a.status + ".", status: 409 };
+      a.status = isMaster && !own ? "rejected" : "cancelled";
+      a.decidedBy = actor.email;
+      a.decidedAt = Date.now();
+      if (rjValid.sanitized.reason) a.reason = rjValid.sanitized.reason;
+      await kv.set(key, a);
+      return { approval: a };
+    });
+    if (out.error) return c.json({ error: out.error }, out.status as any);
+    return c.json({ ok: true, approval: _approvalView(out.approval, Date.now()) });
+  } catch (e) {
+    console.error("Admin approval reject error:", e);
+    return c.json({ error: "Erro ao recusar solicitacao." }, 500);
+  }
+});
+
 // ─── Password Recovery ───────────────────────────────────────────────
 // Current flow:
 // 1. Generate a secure Supabase recovery link server-side with redirectTo
@@ -2739,6 +3396,7 @@ app.get(BASE + "/auth/user/me", async (c) => {
       cep: profile.cep || "",
       avatarId: profile.avatarId || null,
       customAvatarUrl: profile.customAvatarUrl || null,
+      whatsappOptIn: profile.whatsappOptIn === true,
       created_at: user.created_at,
     });
   } catch (e) {
@@ -2815,6 +3473,17 @@ app.put(BASE + "/auth/user/profile", async (c) => {
       personType: lockedPersonType,
       updated_at: new Date().toISOString(),
     };
+    // WhatsApp offers consent (LGPD): only changes when the form sends it. A
+    // new opt-in also lifts an earlier opt-out of the same phone.
+    if (typeof body.whatsappOptIn === "boolean" && body.whatsappOptIn !== (existing.whatsappOptIn === true)) {
+      updatedProfile.whatsappOptIn = body.whatsappOptIn;
+      updatedProfile.whatsappOptInAt = new Date().toISOString();
+      var optPhone = normalizeAlertPhone(phone);
+      if (optPhone) {
+        if (body.whatsappOptIn) await kv.del(waOptOutKey(optPhone));
+        else await kv.set(waOptOutKey(optPhone), JSON.stringify({ phone: optPhone, at: Date.now(), source: "profile" }));
+      }
+    }
     if (lockedPersonType === "pj") {
       if (profCnpj) updatedProfile.cnpj = profCnpj;
       if (profRazaoSocial) updatedProfile.razaoSocial = profRazaoSocial;
@@ -3393,69 +4062,302 @@ app.delete(BASE + "/auth/user/favorites/:sku", async (c) => {
   }
 });
 
-// User password change (requires auth)
-app.post(BASE + "/auth/user/change-password", async (c) => {
-  try {
-    var rlBlock = _checkAuthRateLimit(c, "change_pw");
-    if (rlBlock) return rlBlock;
-    const userId = await getAuthUserId(c.req.raw);
-    if (!userId) {
-      return c.json({ error: "Token inválido ou expirado." }, 401);
-    }
+// ─── User Cart (server-side, synced across devices) ───
+// KV user_cart:<userId> = { items, coupon, updatedAt }. CartContext keeps localStorage as
+// the fast local copy and syncs here while logged in. WhatsApp abandoned-cart snapshots
+// (wa_cart:*) of logged-in customers only reference this record via userId.
 
-    var cpBody = await c.req.json();
-    // Input validation
-    var cpValid = validateOrError(cpBody, schemas.changePassword);
-    if (!cpValid.valid) {
-      return c.json({ error: cpValid.errors[0] || "Dados invalidos." }, 400);
-    }
-    var currentPassword = cpBody.currentPassword;
-    var newPassword = cpBody.newPassword;
+var USER_CART_MAX_ITEMS = 50;
 
-    // SECURITY: Require current password to prevent account takeover from stolen JWT
-    if (!currentPassword) {
-      return c.json({ error: "Senha atual é obrigatória." }, 400);
-    }
-    var cpwUserResult = await supabaseAdmin.auth.admin.getUserById(userId);
-    var cpwUserEmail = cpwUserResult.data?.user?.email;
-    if (!cpwUserEmail) {
-      return c.json({ error: "Usuário não encontrado." }, 404);
-    }
-    // Create a temporary anon client to verify current password
-    var cpwAnonClient = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!
-    );
-    var { error: cpwSignInErr } = await cpwAnonClient.auth.signInWithPassword({
-      email: cpwUserEmail,
-      password: currentPassword,
-    });
-    if (cpwSignInErr) {
-      console.warn("User change-password: current password mismatch for " + userId);
-      return c.json({ error: "Senha atual incorreta." }, 403);
-    }
+function _emptyUserCart(): any {
+  return { items: [], coupon: null, updatedAt: 0 };
+}
 
-    var cpwErr = _validatePasswordStrength(newPassword);
-    if (cpwErr) {
-      return c.json({ error: cpwErr }, 400);
+function _sanitizeCartItems(raw: any): any[] {
+  if (!Array.isArray(raw)) return [];
+  var out: any[] = [];
+  var seen: Record<string, boolean> = {};
+  for (var i = 0; i < raw.length && out.length < USER_CART_MAX_ITEMS; i++) {
+    var it = raw[i];
+    if (!it || typeof it !== "object") continue;
+    var sku = String(it.sku || "").trim().substring(0, 100);
+    if (!sku || seen[sku]) continue;
+    var qty = Math.floor(Number(it.quantidade) || 0);
+    if (qty <= 0) continue;
+    var price = it.precoUnitario === null || it.precoUnitario === undefined ? null : Number(it.precoUnitario);
+    var warranty = it.warranty && typeof it.warranty === "object" && it.warranty.planId ? {
+      planId: String(it.warranty.planId).substring(0, 100),
+      name: sanitizeInput(String(it.warranty.name || "")).substring(0, 200),
+      price: Math.max(0, Number(it.warranty.price) || 0),
+      durationMonths: Math.max(0, Math.floor(Number(it.warranty.durationMonths) || 0)),
+    } : null;
+    seen[sku] = true;
+    var item: any = {
+      sku: sku,
+      titulo: sanitizeInput(String(it.titulo || "")).substring(0, 300),
+      quantidade: Math.min(qty, 999),
+      precoUnitario: price !== null && isFinite(price) && price >= 0 ? price : null,
+      imageUrl: String(it.imageUrl || "").substring(0, 1000),
+      warranty: warranty,
+    };
+    if (it.isPromo === true) {
+      item.isPromo = true;
+      if (it.promoCampaignId) item.promoCampaignId = String(it.promoCampaignId).substring(0, 60);
+      if (it.promoTitle) item.promoTitle = sanitizeInput(String(it.promoTitle)).substring(0, 200);
     }
+    out.push(item);
+  }
+  return out;
+}
 
-    const { error: updateErr } = await supabaseAdmin.auth.admin.updateUserById(userId, {
-      password: newPassword,
-    });
+function _sanitizeCartCoupon(raw: any): string | null {
+  var code = String(raw || "").trim().toUpperCase().substring(0, 40);
+  return /^[A-Z0-9_-]+$/.test(code) ? code : null;
+}
 
-    if (updateErr) {
-      console.error("User change-password error:", updateErr.message);
-      return c.json({ error: "Erro ao alterar senha." }, 500);
-    }
+async function _readUserCart(userId: string): Promise<any> {
+  try {
+    var raw = await kv.get("user_cart:" + userId);
+    if (!raw) return _emptyUserCart();
+    var cart = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return { items: Array.isArray(cart.items) ? cart.items : [], coupon: cart.coupon || null, updatedAt: cart.updatedAt || 0 };
+  } catch {
+    return _emptyUserCart();
+  }
+}
 
-    // Password changed
-    return c.json({ ok: true });
-  } catch (e) {
-    console.error("User change-password exception:", e);
-    return c.json({ error: _safeError("Erro ao alterar senha", e) }, 500);
+async function _writeUserCart(userId: string, cart: any): Promise<any> {
+  // userId is kept in the value so kv.mget readers (_hydrateWaCarts) can map rows back
+  var saved = { userId: userId, items: cart.items || [], coupon: cart.coupon || null, updatedAt: Date.now() };
+  await kv.set("user_cart:" + userId, JSON.stringify(saved));
+  return saved;
+}
+
+function _userCartTotal(items: any[]): number {
+  var total = 0;
+  for (var i = 0; i < items.length; i++) {
+    var it = items[i];
+    total += ((Number(it.precoUnitario) || 0) + (it.warranty ? Number(it.warranty.price) || 0 : 0)) * (Number(it.quantidade) || 0);
   }
-});
+  return Math.round(total * 100) / 100;
+}
+
+// Re-checks every cart line against the current price (customer B2B tier included, via the
+// forwarded X-User-Token) and cached SIGE stock. Prices are updated and quantities clamped to
+// the available balance; each adjustment is reported so the storefront can tell the customer.
+// Super Promo lines keep their promotional price (validated again at payment time).
+async function _revalidateUserCart(c: any, userId: string, cart: any): Promise<{ cart: any; changes: any[] }> {
+  var items = cart.items || [];
+  if (items.length === 0) return { cart: cart, changes: [] };
+  var skus = items.map(function (it: any) { return it.sku; });
+  var priceHeaders: Record<string, string> = { "Content-Type": "application/json" };
+  var userToken = c.req.header("X-User-Token");
+  if (userToken) priceHeaders["X-User-Token"] = userToken;
+
+  var responses = await Promise.all([
+    app.request(BASE + "/produtos/precos-bulk", { method: "POST", headers: priceHeaders, body: JSON.stringify({ skus: skus }) })
+      .then(function (r: Response) { return r.json(); }).catch(function () { return null; }),
+    app.request(BASE + "/produtos/saldos", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ skus: skus }) })
+      .then(function (r: Response) { return r.json(); }).catch(function () { return null; }),
+  ]);
+  var priceMap: Record<string, any> = {};
+  var balanceMap: Record<string, any> = {};
+  var priceResults = responses[0] && Array.isArray(responses[0].results) ? responses[0].results : [];
+  var balanceResults = responses[1] && Array.isArray(responses[1].results) ? responses[1].results : [];
+  for (var pi = 0; pi < priceResults.length; pi++) if (priceResults[pi] && priceResults[pi].sku) priceMap[priceResults[pi].sku] = priceResults[pi];
+  for (var bi = 0; bi < balanceResults.length; bi++) if (balanceResults[bi] && balanceResults[bi].sku) balanceMap[balanceResults[bi].sku] = balanceResults[bi];
+
+  var changes: any[] = [];
+  var nextItems: any[] = [];
+  for (var i = 0; i < items.length; i++) {
+    var item = { ...items[i] };
+    var pr = priceMap[item.sku];
+    if (!item.isPromo && pr && pr.found && typeof pr.price === "number" && pr.price > 0) {
+      if (item.precoUnitario === null || Math.abs(pr.price - Number(item.precoUnitario)) >= 0.01) {
+        changes.push({ sku: item.sku, titulo: item.titulo, type: "price", oldPrice: item.precoUnitario, newPrice: pr.price });
+        item.precoUnitario = pr.price;
+      }
+    }
+    var bal = balanceMap[item.sku];
+    if (bal && bal.found && bal.sige) {
+      var available = bal.disponivel !== undefined && bal.disponivel !== null ? Number(bal.disponivel) : Number(bal.quantidade);
+      if (!isNaN(available)) {
+        if (available <= 0) {
+          changes.push({ sku: item.sku, titulo: item.titulo, type: "out_of_stock", available: 0 });
+        } else if (available < item.quantidade) {
+          changes.push({ sku: item.sku, titulo: item.titulo, type: "stock", oldQuantity: item.quantidade, available: available });
+          item.quantidade = Math.floor(available);
+        }
+      }
+    }
+    nextItems.push(item);
+  }
+
+  var nextCart = { ...cart, items: nextItems };
+  var adjusted = changes.some(function (ch: any) { return ch.type !== "out_of_stock"; });
+  if (!adjusted) return { cart: nextCart, changes: changes };
+
+  // The price/stock lookups above take a while: a PUT that landed meanwhile wins. Write only
+  // while the stored cart is still the one that was read (same updatedAt), else hand back
+  // the newer cart as is; the next load revalidates it.
+  var readAt = cart.updatedAt || 0;
+  var res = await withMutex("cart:" + userId, function () {
+    return kv.update("user_cart:" + userId, function (current: any) {
+      var stored = current ? (typeof current === "string" ? JSON.parse(current) : current) : null;
+      if (((stored && stored.updatedAt) || 0) !== readAt) return undefined;
+      return JSON.stringify({ userId: userId, items: nextItems, coupon: cart.coupon || null, updatedAt: Date.now() });
+    });
+  });
+  if (!res.written) return { cart: await _readUserCart(userId), changes: [] };
+  return { cart: JSON.parse(res.value), changes: changes };
+}
+
+// GET /user/cart — customer's saved cart, revalidated (price + stock)
+app.get(BASE + "/user/cart", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Token inválido ou expirado." }, 401);
+    var cart = await _readUserCart(userId);
+    var result = await _revalidateUserCart(c, userId, cart);
+    return c.json({ items: result.cart.items, coupon: result.cart.coupon, updatedAt: result.cart.updatedAt, changes: result.changes });
+  } catch (e) {
+    console.error("[user/cart GET] Error:", e);
+    return c.json({ error: _safeError("Erro ao carregar carrinho", e) }, 500);
+  }
+});
+
+// PUT /user/cart — replace the saved cart with the storefront state { items, coupon }
+app.put(BASE + "/user/cart", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Token inválido ou expirado." }, 401);
+    var body = await c.req.json();
+    if (!body || typeof body !== "object" || JSON.stringify(body).length > 60000) return c.json({ error: "Payload invalido." }, 400);
+    var items = _sanitizeCartItems(body.items);
+    var coupon = _sanitizeCartCoupon(body.coupon);
+    return await withMutex("cart:" + userId, async function () {
+      var saved = await _writeUserCart(userId!, { items: items, coupon: coupon });
+      return c.json({ ok: true, updatedAt: saved.updatedAt });
+    });
+  } catch (e) {
+    console.error("[user/cart PUT] Error:", e);
+    return c.json({ error: _safeError("Erro ao salvar carrinho", e) }, 500);
+  }
+});
+
+// POST /user/cart/merge — merge the guest (localStorage) cart into the saved cart on login.
+// Same SKU on both sides keeps the larger quantity (the guest cart is often a copy of it).
+app.post(BASE + "/user/cart/merge", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Token inválido ou expirado." }, 401);
+    var body = await c.req.json();
+    if (!body || typeof body !== "object" || JSON.stringify(body).length > 60000) return c.json({ error: "Payload invalido." }, 400);
+    var guestItems = _sanitizeCartItems(body.items);
+    var guestCoupon = _sanitizeCartCoupon(body.coupon);
+    var merged = await withMutex("cart:" + userId, async function () {
+      var saved = await _readUserCart(userId!);
+      var items = saved.items.slice();
+      for (var i = 0; i < guestItems.length; i++) {
+        var gi = guestItems[i];
+        var idx = items.findIndex(function (it: any) { return it.sku === gi.sku; });
+        if (idx === -1) {
+          if (items.length < USER_CART_MAX_ITEMS) items.push(gi);
+        } else {
+          items[idx] = {
+            ...items[idx],
+            quantidade: Math.max(items[idx].quantidade, gi.quantidade),
+            warranty: gi.warranty || items[idx].warranty || null,
+          };
+        }
+      }
+      return await _writeUserCart(userId!, { items: items, coupon: guestCoupon || saved.coupon });
+    });
+    var result = await _revalidateUserCart(c, userId, merged);
+    return c.json({ items: result.cart.items, coupon: result.cart.coupon, updatedAt: result.cart.updatedAt, changes: result.changes });
+  } catch (e) {
+    console.error("[user/cart/merge POST] Error:", e);
+    return c.json({ error: _safeError("Erro ao sincronizar carrinho", e) }, 500);
+  }
+});
+
+// DELETE /user/cart — empty the saved cart (order placed / "limpar carrinho")
+app.delete(BASE + "/user/cart", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Token inválido ou expirado." }, 401);
+    await withMutex("cart:" + userId, async function () {
+      await _writeUserCart(userId!, _emptyUserCart());
+    });
+    return c.json({ ok: true });
+  } catch (e) {
+    console.error("[user/cart DELETE] Error:", e);
+    return c.json({ error: _safeError("Erro ao limpar carrinho", e) }, 500);
+  }
+});
+// User password change (requires auth)
+app.post(BASE + "/auth/user/change-password", async (c) => {
+  try {
+    var rlBlock = _checkAuthRateLimit(c, "change_pw");
+    if (rlBlock) return rlBlock;
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: "Token inválido ou expirado." }, 401);
+    }
+
+    var cpBody = await c.req.json();
+    // Input validation
+    var cpValid = validateOrError(cpBody, schemas.changePassword);
+    if (!cpValid.valid) {
+      return c.json({ error: cpValid.errors[0] || "Dados invalidos." }, 400);
+    }
+    var currentPassword = cpBody.currentPassword;
+    var newPassword = cpBody.newPassword;
+
+    // SECURITY: Require current password to prevent account takeover from stolen JWT
+    if (!currentPassword) {
+      return c.json({ error: "Senha atual é obrigatória." }, 400);
+    }
+    var cpwUserResult = await supabaseAdmin.auth.admin.getUserById(userId);
+    var cpwUserEmail = cpwUserResult.data?.user?.email;
+    if (!cpwUserEmail) {
+      return c.json({ error: "Usuário não encontrado." }, 404);
+    }
+    // Create a temporary anon client to verify current password
+    var cpwAnonClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!
+    );
+    var { error: cpwSignInErr } = await cpwAnonClient.auth.signInWithPassword({
+      email: cpwUserEmail,
+      password: currentPassword,
+    });
+    if (cpwSignInErr) {
+      console.warn("User change-password: current password mismatch for " + userId);
+      return c.json({ error: "Senha atual incorreta." }, 403);
+    }
+
+    var cpwErr = _validatePasswordStrength(newPassword);
+    if (cpwErr) {
+      return c.json({ error: cpwErr }, 400);
+    }
+
+    const { error: updateErr } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      password: newPassword,
+    });
+
+    if (updateErr) {
+      console.error("User change-password error:", updateErr.message);
+      return c.json({ error: "Erro ao alterar senha." }, 500);
+    }
+
+    // Password changed
+    return c.json({ ok: true });
+  } catch (e) {
+    console.error("User change-password exception:", e);
+    return c.json({ error: _safeError("Erro ao alterar senha", e) }, 500);
+  }
+});
 
 // User forgot password (recovery email)
 app.post(BASE + "/auth/user/forgot-password", async (c) => {
@@ -3557,6 +4459,11 @@ app.get(BASE + "/auth/admin/clients", async (c) => {
         created_at: p.created_at || authUser?.created_at || "",
         email_confirmed: !!authUser?.email_confirmed_at,
         last_sign_in: authUser?.last_sign_in_at || null,
+        personType: p.personType || "pf",
+        cnpj: p.cnpj || "",
+        razaoSocial: p.razaoSocial || "",
+        priceTier: p.priceTier || null,
+        priceGroupId: p.priceGroupId || null,
       };
     });
 
@@ -4173,6 +5080,49 @@ function ufFromCepRange(cep: string): string {
   return "";
 }
 
+// Shipping config allowlist + validation (PUT /shipping/config and simulator drafts)
+function _cleanShippingConfig(body: any): { config?: Record<string, any>; error?: string } {
+  // Allowlist: only persist known shipping config fields
+  var allowedShipFields = [
+    "provider", "apiToken", "apiUrl", "originCep", "enabled",
+    "freeShippingThreshold", "freeShippingEnabled", "handlingDays",
+    "handlingFee", "defaultWeight", "defaultDimensions", "method",
+    "flatRate", "flatRateValue", "insuranceEnabled", "receiptEnabled",
+    "ownHandEnabled", "customApiUrl", "customApiToken", "customApiFormat",
+    "sisfreteContractId", "sisfreteApiVersion", "originCity", "originState",
+    "tables", "useXmlWs", "freeShippingMinValue", "calcMode", "carriers"
+  ];
+  var cleanConfig: Record<string, any> = {};
+  for (var sf = 0; sf < allowedShipFields.length; sf++) {
+    var sfKey = allowedShipFields[sf];
+    if (body[sfKey] !== undefined) cleanConfig[sfKey] = body[sfKey];
+  }
+  if (cleanConfig.calcMode !== undefined && ["manual", "table", "hybrid", "api"].indexOf(cleanConfig.calcMode) === -1) {
+    return { error: "calcMode invalido." };
+  }
+  if (cleanConfig.carriers !== undefined) {
+    if (!Array.isArray(cleanConfig.carriers) || cleanConfig.carriers.length > 50) {
+      return { error: "carriers deve ser uma lista (max 50)." };
+    }
+    // Peso cubado + limites de volume por transportadora (packing.ts)
+    cleanConfig.carriers = cleanConfig.carriers.filter(function (cr: any) { return cr && typeof cr === "object" && cr.id; }).map(function (cr: any) {
+      return { ...cr, cubicFactor: normalizeCubicFactor(cr.cubicFactor), packageLimits: normalizePackageLimits(cr.packageLimits) };
+    });
+  }
+  // Validate URLs if present
+  if (cleanConfig.apiUrl && typeof cleanConfig.apiUrl === "string") {
+    if (!/^https:\/\//i.test(cleanConfig.apiUrl)) {
+      return { error: "apiUrl deve usar HTTPS." };
+    }
+  }
+  if (cleanConfig.customApiUrl && typeof cleanConfig.customApiUrl === "string") {
+    if (!/^https:\/\//i.test(cleanConfig.customApiUrl)) {
+      return { error: "customApiUrl deve usar HTTPS." };
+    }
+  }
+  return { config: cleanConfig };
+}
+
 // GET shipping config (admin)
 app.get(BASE + "/shipping/config", async (c) => {
   try {
@@ -4195,32 +5145,9 @@ app.put(BASE + "/shipping/config", async (c) => {
     if (!body || typeof body !== "object" || Array.isArray(body)) {
       return c.json({ error: "Body deve ser um objeto JSON." }, 400);
     }
-    // Allowlist: only persist known shipping config fields
-    var allowedShipFields = [
-      "provider", "apiToken", "apiUrl", "originCep", "enabled",
-      "freeShippingThreshold", "freeShippingEnabled", "handlingDays",
-      "handlingFee", "defaultWeight", "defaultDimensions", "method",
-      "flatRate", "flatRateValue", "insuranceEnabled", "receiptEnabled",
-      "ownHandEnabled", "customApiUrl", "customApiToken", "customApiFormat",
-      "sisfreteContractId", "sisfreteApiVersion", "originCity", "originState",
-      "tables", "useXmlWs"
-    ];
-    var cleanConfig: Record<string, any> = {};
-    for (var sf = 0; sf < allowedShipFields.length; sf++) {
-      var sfKey = allowedShipFields[sf];
-      if (body[sfKey] !== undefined) cleanConfig[sfKey] = body[sfKey];
-    }
-    // Validate URLs if present
-    if (cleanConfig.apiUrl && typeof cleanConfig.apiUrl === "string") {
-      if (!/^https:\/\//i.test(cleanConfig.apiUrl)) {
-        return c.json({ error: "apiUrl deve usar HTTPS." }, 400);
-      }
-    }
-    if (cleanConfig.customApiUrl && typeof cleanConfig.customApiUrl === "string") {
-      if (!/^https:\/\//i.test(cleanConfig.customApiUrl)) {
-        return c.json({ error: "customApiUrl deve usar HTTPS." }, 400);
-      }
-    }
+    var shipClean = _cleanShippingConfig(body);
+    if (shipClean.error) return c.json({ error: shipClean.error }, 400);
+    var cleanConfig = shipClean.config!;
     cleanConfig.updatedAt = Date.now();
     await kv.set("shipping_config", cleanConfig);
     return c.json(cleanConfig);
@@ -4242,7 +5169,197 @@ app.post(BASE + "/shipping/test-api", async (c) => {
 
 // (Orphaned test-api handler removed — logic lives in test-shipping-handler.ts)
 
+// ── Retire na loja (click & collect) — see pickup.ts ──
+
+var BRANCH_STOCK_TTL_MS = 5 * 60 * 1000;
+
+async function _loadBranch(branchId: string): Promise<any | null> {
+  var raw = await kv.get("branch:" + branchId);
+  if (!raw) return null;
+  return typeof raw === "string" ? JSON.parse(raw) : raw;
+}
+
+/** Per-filial balance of a SKU (sige_branch_stock_<sku>, 5 min). null = SIGE unavailable / product unknown */
+async function _branchStockRows(sku: string): Promise<BranchStockRow[] | null> {
+  var cacheKey = "sige_branch_stock_" + sku;
+  try {
+    var cachedRaw = await kv.get(cacheKey);
+    if (cachedRaw) {
+      var cached = typeof cachedRaw === "string" ? JSON.parse(cachedRaw) : cachedRaw;
+      if (cached && Array.isArray(cached.rows) && Date.now() - (cached._cachedAt || 0) < BRANCH_STOCK_TTL_MS) return cached.rows;
+    }
+    var sigeId = sku;
+    var mapRaw = await kv.get("sige_map_" + sku);
+    if (mapRaw) {
+      var map = typeof mapRaw === "string" ? JSON.parse(mapRaw) : mapRaw;
+      if (map && map.sigeId) sigeId = String(map.sigeId);
+    }
+    var balRes = await sigeAuthFetch("GET", "/product/" + encodeURIComponent(sigeId) + "/balance");
+    if (!balRes.ok || !balRes.data) return null;
+    var rows = parseBranchBalance(balRes.data);
+    await kv.set(cacheKey, JSON.stringify({ rows: rows, _cachedAt: Date.now() }));
+    return rows;
+  } catch (e) {
+    console.warn("[Pickup] Branch stock error for " + sku + ": " + String(e));
+    return null;
+  }
+}
+
+/** "Retire na loja" options for a cart: one per pickup branch holding every item */
+async function _pickupOptionsFor(items: any[]): Promise<any[]> {
+  var cart = pickupCartItems(items);
+  if (cart.length === 0) return [];
+  var branchesRaw = await kv.getByPrefix("branch:");
+  var branches: any[] = [];
+  for (var i = 0; i < branchesRaw.length; i++) {
+    try {
+      var b = typeof branchesRaw[i] === "string" ? JSON.parse(branchesRaw[i]) : branchesRaw[i];
+      if (isPickupBranch(b)) branches.push(b);
+    } catch {}
+  }
+  if (branches.length === 0) return [];
+  branches.sort(function (a, b2) { return (a.order || 0) - (b2.order || 0); });
+  var stockBySku: Record<string, BranchStockRow[] | null> = {};
+  for (var j = 0; j < cart.length; j++) stockBySku[cart[j].sku] = await _branchStockRows(cart[j].sku);
+  return pickupBranchesFor(branches, cart, stockBySku).map(pickupOption);
+}
+
+/**
+ * Checkout guard for pickup orders: the branch must still accept pickup and hold
+ * every item. Returns branch = null for delivery options.
+ */
+async function _checkPickupOption(shippingOption: any, items: any[]): Promise<{ ok: boolean; error: string; branch: any | null }> {
+  var branchId = pickupBranchId(shippingOption && shippingOption.carrierId);
+  if (!branchId) return { ok: true, error: "", branch: null };
+  var branch = await _loadBranch(branchId);
+  if (!isPickupBranch(branch)) return { ok: false, error: "Esta loja nao esta disponivel para retirada. Escolha outra opcao de entrega.", branch: null };
+  var cart = pickupCartItems(items);
+  for (var i = 0; i < cart.length; i++) {
+    var rows = await _branchStockRows(cart[i].sku);
+    var avail = rows ? branchAvailable(branch, rows) : null;
+    if (avail === null || avail < cart[i].quantity) {
+      return { ok: false, error: "Item " + cart[i].sku + " indisponivel para retirada em " + branch.nome + ". Recalcule o frete.", branch: null };
+    }
+  }
+  return { ok: true, error: "", branch: branch };
+}
+
 // POST calculate shipping (public)
+// Quote input for a CEP + cart: CEP lookup (UF from the CEP range as fallback)
+// and SIGE weight/dimensions per item
+async function _buildQuoteInput(destCep: string, items: any[], totalValue: number, config: any): Promise<{ error?: string; input?: QuoteInput; destInfo?: any; enrichmentLog: any[] }> {
+  let destInfo = await lookupCep(destCep);
+  let cepLookupFailed = false;
+  if (!destInfo) {
+    // Last-resort: derive UF from CEP range so API-based providers can still work
+    const fallbackUf = ufFromCepRange(destCep);
+    if (fallbackUf) {
+      destInfo = { uf: fallbackUf, localidade: "" };
+      cepLookupFailed = true;
+      // CEP lookup failed, using range fallback
+    } else {
+      return { error: "CEP não encontrado. Verifique e tente novamente.", enrichmentLog: [] };
+    }
+  }
+
+  const destUf = destInfo.uf;
+  const destRegion = UF_REGION[destUf] || "Outros";
+
+  const totalItems = Array.isArray(items) ? items.reduce((s: number, i: any) => s + (i.quantity || 1), 0) : 1;
+  const defaultWeight = config.defaultWeight || 1;
+  const orderValue = totalValue || 0;
+
+  // ── Enrich items with weight/dimensions from SIGE ──
+  var enrichmentLog: any[] = [];
+  var enrichedItems = items;
+  var totalWeight = totalItems * defaultWeight; // fallback
+  try {
+    var enrichResult = await enrichItemsFromSige(items, defaultWeight);
+    enrichedItems = enrichResult.enrichedItems;
+    totalWeight = enrichResult.totalWeight || (totalItems * defaultWeight);
+    enrichmentLog = enrichResult.enrichmentLog;
+    // Shipping enrichment complete
+  } catch (e) {
+    console.warn("Shipping enrichment error (using defaults):", e);
+  }
+
+  var input: QuoteInput = {
+    cep: destCep,
+    uf: destUf,
+    region: destRegion,
+    localidade: destInfo.localidade || "",
+    cepFallback: cepLookupFailed,
+    items: (enrichedItems || []).map(function (it: any, ii: number) {
+      return {
+        sku: String(it.sku || ""),
+        quantity: it.quantity || 1,
+        price: Number(it.price) || 0,
+        weight: Number(it.weight) || 0,
+        length: Number(it.length) || 0,
+        width: Number(it.width) || 0,
+        height: Number(it.height) || 0,
+        source: enrichmentLog[ii] ? enrichmentLog[ii].source : undefined,
+      };
+    }),
+    totalItems: totalItems,
+    totalWeight: totalWeight,
+    defaultWeight: defaultWeight,
+    orderValue: orderValue,
+  };
+  return { input: input, destInfo: destInfo, enrichmentLog: enrichmentLog };
+}
+
+/**
+ * Delivery options for a quote input under a shipping config (pickup excluded).
+ * recordedApi: API lines of a stored quote — replays reuse what the provider
+ * answered back then instead of calling it again. `at` picks the freight table
+ * versions (quote time for replays).
+ */
+async function _runShippingQuote(input: QuoteInput, config: any, recordedApi: CarrierBreakdown[] | null, at: number): Promise<{ options: any[]; breakdown: CarrierBreakdown[] }> {
+  var calcMode = config.calcMode || "manual";
+  var options: any[] = [];
+  var breakdown: CarrierBreakdown[] = [];
+
+  // ── Table-based lookup ──
+  if (calcMode === "table" || calcMode === "hybrid") {
+    try {
+      var tableRun = quoteFreightTables(input, await _loadFreightTables(at), config.freeShippingMinValue);
+      options.push(...tableRun.options);
+      breakdown.push(...tableRun.breakdown);
+    } catch (e) {
+      console.error("Table freight lookup error:", e);
+    }
+  }
+
+  // ── External API lookup ──
+  if (calcMode === "api" || (calcMode === "hybrid" && options.length === 0)) {
+    if (recordedApi) {
+      for (var ra = 0; ra < recordedApi.length; ra++) {
+        if (recordedApi[ra].api) options.push(...recordedApi[ra].api!.options);
+        breakdown.push(recordedApi[ra]);
+      }
+    } else {
+      try {
+        const apiOptions = await lookupFreightApi(config, input.cep, input.totalWeight, input.items);
+        options.push(...apiOptions);
+        breakdown.push(...apiBreakdown(apiOptions));
+      } catch (e) {
+        console.error("API freight lookup error:", e);
+        breakdown.push(...apiBreakdown([], String((e as any)?.message || e).substring(0, 300)));
+      }
+    }
+  }
+
+  // ── Manual carrier rules ──
+  if (calcMode === "manual" || calcMode === "hybrid") {
+    var manualRun = quoteManualCarriers(input, config);
+    options.push(...manualRun.options);
+    breakdown.push(...manualRun.breakdown);
+  }
+
+  return { options: dedupeAndSortOptions(options), breakdown: breakdown };
+}
+
 app.post(BASE + "/shipping/calculate", async (c) => {
   try {
     // Rate limit: 30 shipping calculations per minute per IP (calls external API)
@@ -4265,125 +5382,32 @@ app.post(BASE + "/shipping/calculate", async (c) => {
       return c.json({ error: "CEP inválido. Informe 8 dígitos." }, 400);
     }
 
-    let destInfo = await lookupCep(destCep);
-    let cepLookupFailed = false;
-    if (!destInfo) {
-      // Last-resort: derive UF from CEP range so API-based providers can still work
-      const fallbackUf = ufFromCepRange(destCep);
-      if (fallbackUf) {
-        destInfo = { uf: fallbackUf, localidade: "" };
-        cepLookupFailed = true;
-        // CEP lookup failed, using range fallback
-      } else {
-        return c.json({ error: "CEP não encontrado. Verifique e tente novamente." }, 400);
-      }
-    }
-
     const config: any = (await kv.get("shipping_config")) || DEFAULT_SHIPPING_CONFIG;
     const calcMode = config.calcMode || "manual";
 
-    const destUf = destInfo.uf;
-    const destRegion = UF_REGION[destUf] || "Outros";
-
-    const totalItems = Array.isArray(items) ? items.reduce((s: number, i: any) => s + (i.quantity || 1), 0) : 1;
-    const defaultWeight = config.defaultWeight || 1;
-    const orderValue = totalValue || 0;
-
-    // ── Enrich items with weight/dimensions from SIGE ──
-    var enrichmentLog: any[] = [];
-    var enrichedItems = items;
-    var totalWeight = totalItems * defaultWeight; // fallback
+    var built = await _buildQuoteInput(destCep, items, totalValue || 0, config);
+    if (built.error) return c.json({ error: built.error }, 400);
+    // Everything the quote depends on — stored with the quote so it can be replayed
+    var quoteInput = built.input!;
+    var destInfo = built.destInfo;
+    var enrichmentLog = built.enrichmentLog;
+    var cepLookupFailed = quoteInput.cepFallback;
+    const destUf = quoteInput.uf;
+    const destRegion = quoteInput.region;
+    const totalWeight = quoteInput.totalWeight;
+
+    var quoteRun = await _runShippingQuote(quoteInput, config, null, Date.now());
+    var packingLog = packingLogFromBreakdown(quoteRun.breakdown);
+
+    // ── Retire na loja: branches with every item in stock ──
+    var pickupOptions: any[] = [];
     try {
-      var enrichResult = await enrichItemsFromSige(items, defaultWeight);
-      enrichedItems = enrichResult.enrichedItems;
-      totalWeight = enrichResult.totalWeight || (totalItems * defaultWeight);
-      enrichmentLog = enrichResult.enrichmentLog;
-      // Shipping enrichment complete
+      pickupOptions = await _pickupOptionsFor(Array.isArray(items) ? items : []);
     } catch (e) {
-      console.warn("Shipping enrichment error (using defaults):", e);
-    }
-
-    const options: any[] = [];
-
-    // ── Table-based lookup ──
-    if (calcMode === "table" || calcMode === "hybrid") {
-      try {
-        const tableOptions = await lookupFreightTables(destCep, totalWeight, orderValue, config.freeShippingMinValue);
-        options.push(...tableOptions);
-      } catch (e) {
-        console.error("Table freight lookup error:", e);
-      }
-    }
-
-    // ── External API lookup ──
-    if (calcMode === "api" || (calcMode === "hybrid" && options.length === 0)) {
-      try {
-        const apiOptions = await lookupFreightApi(config, destCep, totalWeight, enrichedItems);
-        options.push(...apiOptions);
-      } catch (e) {
-        console.error("API freight lookup error:", e);
-      }
-    }
-
-    // ── Manual carrier rules ──
-    if (calcMode === "manual" || calcMode === "hybrid") {
-      const carriers = config.carriers || [];
-      for (const carrier of carriers) {
-        if (!carrier.enabled) continue;
-
-        const freeAbove = carrier.freeAbove ?? config.freeShippingMinValue;
-        if (freeAbove && orderValue >= freeAbove) {
-          options.push({
-            carrierId: carrier.id,
-            carrierName: carrier.name,
-            carrierType: carrier.type,
-            price: 0,
-            deliveryDays: carrier.additionalDays || 0,
-            deliveryText: carrier.additionalDays ? `ate ${carrier.additionalDays} dias uteis` : "A consultar",
-            free: true,
-            freeReason: `Frete gratis acima de R$ ${freeAbove.toFixed(2).replace(".", ",")}`,
-            source: "manual",
-          });
-          continue;
-        }
-
-        const stateRules = carrier.stateRules || {};
-        let rule = stateRules[destUf] || null;
-
-        if (!rule && carrier.regionRules) {
-          rule = carrier.regionRules[destRegion] || null;
-        }
-
-        if (!rule && carrier.defaultRule) {
-          rule = carrier.defaultRule;
-        }
-
-        if (!rule) continue;
-
-        let price = rule.basePrice || 0;
-        if (rule.pricePerKg && totalWeight > 0) {
-          price += rule.pricePerKg * totalWeight;
-        }
-        if (rule.pricePerItem && totalItems > 1) {
-          price += rule.pricePerItem * (totalItems - 1);
-        }
-
-        const days = (rule.deliveryDays || 0) + (carrier.additionalDays || 0);
-
-        options.push({
-          carrierId: carrier.id,
-          carrierName: carrier.name,
-          carrierType: carrier.type,
-          price: Math.round(price * 100) / 100,
-          deliveryDays: days,
-          deliveryText: days > 0 ? `ate ${days} dias uteis` : "A consultar",
-          free: false,
-          source: "manual",
-        });
-      }
+      console.warn("[Pickup] Options error (skipping pickup):", e);
     }
 
-    if (options.length === 0) {
+    if (quoteRun.options.length === 0 && pickupOptions.length === 0) {
       return c.json({
         options: [],
         destination: destInfo,
@@ -4396,18 +5420,13 @@ app.post(BASE + "/shipping/calculate", async (c) => {
           : calcMode === "api"
           ? "Nenhuma cotação de frete disponível no momento. Tente novamente mais tarde."
           : "Nenhuma transportadora configurada. Entre em contato para consultar o frete.",
-        _enrichment: enrichmentLog,
+        _enrichment: { items: enrichmentLog, packing: packingLog },
       });
     }
 
-    // Deduplicate by carrierId and sort by price
-    const seen = new Set<string>();
-    const deduped = options.filter((o: any) => {
-      if (seen.has(o.carrierId)) return false;
-      seen.add(o.carrierId);
-      return true;
-    });
-    deduped.sort((a: any, b: any) => a.price - b.price);
+    const deduped = quoteRun.options;
+    // Pickup after the delivery options (all free — sorting would push them to the top)
+    deduped.push(...pickupOptions);
 
     // SECURITY: Store shipping quote server-side for checkout validation
     var shippingQuoteId = "";
@@ -4418,6 +5437,14 @@ app.post(BASE + "/shipping/calculate", async (c) => {
         cep: destCep,
         options: deduped.map(function(o: any) { return { carrierId: o.carrierId, price: o.price, free: !!o.free }; }),
         createdAt: Date.now(),
+        // Replay data (AdminShipping "Simulador"): input + why each carrier got its price
+        schema: QUOTE_SCHEMA_VERSION,
+        calcMode: calcMode,
+        configUpdatedAt: config.updatedAt || null,
+        input: quoteInput,
+        breakdown: quoteRun.breakdown.concat(pickupOptions.map(function(po: any) {
+          return { carrierId: po.carrierId, carrierName: po.carrierName, source: "pickup", status: "free", price: 0, deliveryDays: po.deliveryDays };
+        })),
       };
       try {
         await kv.set("shipping_quote:" + shippingQuoteId, JSON.stringify(quoteData));
@@ -4439,7 +5466,7 @@ app.post(BASE + "/shipping/calculate", async (c) => {
       totalWeight,
       calcMode,
       ...(cepLookupFailed ? { cepLookupFallback: true } : {}),
-      _enrichment: enrichmentLog,
+      _enrichment: { items: enrichmentLog, packing: packingLog },
     });
   } catch (e) {
     console.error("Error calculating shipping:", e);
@@ -4447,6 +5474,102 @@ app.post(BASE + "/shipping/calculate", async (c) => {
   }
 });
 
+// POST /admin/shipping/simulate — replays a stored quote (quoteId) or a what-if
+// cart (cep + items + totalValue). "before" is the stored quote or the saved
+// config; "after" is the saved config (replay) or draftConfig (unsaved edits
+// from AdminShipping). Nothing is stored and the checkout is not affected.
+app.post(BASE + "/admin/shipping/simulate", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var simValid = validate(body, {
+      quoteId: { type: "string", maxLen: 60 },
+      cep: { type: "string", maxLen: 15 },
+      items: { type: "array", maxItems: 200 },
+      totalValue: { type: "number", min: 0, max: 99999999 },
+      at: { type: "string", maxLen: 40 },
+    });
+    if (!simValid.ok) return c.json({ error: simValid.errors[0] || "Dados invalidos." }, 400);
+
+    var savedConfig: any = (await kv.get("shipping_config")) || DEFAULT_SHIPPING_CONFIG;
+    var draftConfig: any = null;
+    if (body.draftConfig !== undefined && body.draftConfig !== null) {
+      if (typeof body.draftConfig !== "object" || Array.isArray(body.draftConfig)) {
+        return c.json({ error: "draftConfig deve ser um objeto." }, 400);
+      }
+      var draftClean = _cleanShippingConfig(body.draftConfig);
+      if (draftClean.error) return c.json({ error: "Rascunho: " + draftClean.error }, 400);
+      // apiConfig is not part of the editable config — the draft keeps the saved one
+      draftConfig = { ...savedConfig, ...draftClean.config };
+    }
+
+    var quoteId = String(body.quoteId || "").trim();
+    if (quoteId) {
+      var storedRaw = await kv.get("shipping_quote:" + quoteId);
+      if (!storedRaw) return c.json({ error: "Cotacao nao encontrada." }, 404);
+      var stored = typeof storedRaw === "string" ? JSON.parse(storedRaw) : storedRaw;
+      if (!stored.input) {
+        return c.json({ error: "Cotacao anterior ao registro detalhado: so os precos foram gravados, nao e possivel reproduzir.", quote: stored }, 409);
+      }
+      var storedLines: CarrierBreakdown[] = storedQuoteBreakdown(stored).filter(function (b: CarrierBreakdown) { return b.source !== "pickup"; });
+      var recordedApi = storedLines.filter(function (b: CarrierBreakdown) { return b.source === "api"; });
+      var replayConfig = draftConfig || savedConfig;
+      // Freight table versions as they were when the customer got the quote
+      var replay = await _runShippingQuote(stored.input, replayConfig, recordedApi.length > 0 ? recordedApi : null, stored.createdAt || Date.now());
+      return c.json({
+        input: stored.input,
+        quote: {
+          id: stored.id,
+          createdAt: stored.createdAt,
+          calcMode: stored.calcMode || null,
+          configUpdatedAt: stored.configUpdatedAt || null,
+          // The saved config changed after the quote was made
+          configChangedSince: !!(savedConfig.updatedAt && stored.createdAt && savedConfig.updatedAt > stored.createdAt),
+        },
+        before: { label: "Cotacao gravada", calcMode: stored.calcMode || null, breakdown: storedLines },
+        after: { label: draftConfig ? "Rascunho" : "Config salva", calcMode: replayConfig.calcMode || "manual", breakdown: replay.breakdown, options: replay.options },
+        diff: diffBreakdowns(storedLines, replay.breakdown),
+      });
+    }
+
+    var simCep = String(body.cep || "").replace(/\D/g, "");
+    if (simCep.length !== 8) return c.json({ error: "Informe quoteId ou um CEP com 8 digitos." }, 400);
+    var simItems = (Array.isArray(body.items) ? body.items : []).map(function (it: any) {
+      return { sku: String((it && it.sku) || "").trim().substring(0, 60), quantity: Math.max(1, Math.min(999, Math.floor(Number(it && it.quantity) || 1))) };
+    }).filter(function (it: any) { return it.sku; });
+    if (simItems.length === 0) return c.json({ error: "Informe ao menos um item (sku + quantidade)." }, 400);
+
+    var simBuilt = await _buildQuoteInput(simCep, simItems, Number(body.totalValue) || 0, savedConfig);
+    if (simBuilt.error) return c.json({ error: simBuilt.error }, 400);
+    var simInput = simBuilt.input!;
+    // "at" previews scheduled freight table versions (default: now)
+    var simAt = parseValidDate(body.at) || Date.now();
+    var current = await _runShippingQuote(simInput, savedConfig, null, simAt);
+    var result: any = {
+      input: simInput,
+      before: { label: "Config salva", calcMode: savedConfig.calcMode || "manual", breakdown: current.breakdown, options: current.options },
+      at: simAt,
+      after: null,
+      diff: null,
+    };
+    if (draftConfig) {
+      // The draft can't change the API settings — reuse what the provider just answered
+      var currentApi = current.breakdown.filter(function (b: CarrierBreakdown) { return b.source === "api"; });
+      var draftInput = draftConfig.defaultWeight !== savedConfig.defaultWeight
+        ? (await _buildQuoteInput(simCep, simItems, Number(body.totalValue) || 0, draftConfig)).input || simInput
+        : simInput;
+      var draftRun = await _runShippingQuote(draftInput, draftConfig, currentApi.length > 0 ? currentApi : null, simAt);
+      result.after = { label: "Rascunho", calcMode: draftConfig.calcMode || "manual", breakdown: draftRun.breakdown, options: draftRun.options };
+      result.diff = diffBreakdowns(current.breakdown, draftRun.breakdown);
+    }
+    return c.json(result);
+  } catch (e) {
+    console.error("[Shipping simulate] Error: " + String(e));
+    return c.json({ error: _safeError("Erro ao simular frete", e) }, 500);
+  }
+});
+
 // CEP lookup helper (public)
 app.get(BASE + "/shipping/cep/:cep", async (c) => {
   try {
@@ -4905,7 +6028,7 @@ app.get(BASE + "/shipping/debug-product/:sku", async (c) => {
 
 // ─── Shipping Freight Tables ───
 
-// POST upload/create freight table
+// POST upload/create freight table (version 1)
 app.post(BASE + "/shipping/tables", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
@@ -4918,6 +6041,10 @@ app.post(BASE + "/shipping/tables", async (c) => {
       carrierName: { type: "string", maxLen: 200 },
       carrierType: { type: "string", maxLen: 50 },
       rows: { required: true, type: "array", maxItems: 10000 },
+      cubicFactor: { type: "number", min: 0, max: 1000 },
+      validFrom: { type: "string", maxLen: 40 },
+      validTo: { type: "string", maxLen: 40 },
+      note: { type: "string", maxLen: 300 },
     });
     if (!shipTableValid.ok) {
       return c.json({ error: shipTableValid.errors[0] || "Dados invalidos." }, 400);
@@ -4930,63 +6057,65 @@ app.post(BASE + "/shipping/tables", async (c) => {
       return c.json({ error: "Nome e linhas da tabela são obrigatórios." }, 400);
     }
 
-    // Validate rows
-    const validRows: any[] = [];
-    for (const row of rows) {
-      const cepInicio = String(row.cepInicio || "").replace(/\D/g, "").padStart(8, "0");
-      const cepFim = String(row.cepFim || "").replace(/\D/g, "").padStart(8, "0");
-      const valor = parseFloat(row.valor) || 0;
-      const prazo = parseInt(row.prazo) || 0;
-      const pesoMin = parseFloat(row.pesoMin) || 0;
-      const pesoMax = parseFloat(row.pesoMax) || 9999;
-
-      if (cepInicio.length !== 8 || cepFim.length !== 8) continue;
-      if (valor <= 0 && prazo <= 0) continue;
-
-      validRows.push({ cepInicio, cepFim, pesoMin, pesoMax, valor, prazo });
-    }
-
+    const validRows = normalizeTableRows(rows);
     if (validRows.length === 0) {
       return c.json({ error: "Nenhuma linha válida encontrada na tabela." }, 400);
     }
 
-    const tableId = `freight_table_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+    const now = Date.now();
+    var validFrom = parseValidDate(body.validFrom) || now;
+    var validTo = parseValidDate(body.validTo);
+    if (validTo !== null && validTo <= validFrom) {
+      return c.json({ error: "Fim da vigencia deve ser posterior ao inicio." }, 400);
+    }
+
+    const tableId = `freight_table_${now}_${Math.random().toString(36).slice(2, 6)}`;
+    var firstVersion: TableVersionMeta = {
+      id: newVersionId(),
+      version: 1,
+      validFrom: validFrom,
+      validTo: validTo,
+      rowCount: validRows.length,
+      createdAt: now,
+      createdBy: userId,
+    };
+    if (shipTableValid.sanitized.note) firstVersion.note = shipTableValid.sanitized.note;
     const table = {
       id: tableId,
       name,
       carrierName: carrierName || name,
       carrierType: carrierType || "transportadora",
-      rowCount: validRows.length,
-      rows: validRows,
-      createdAt: Date.now(),
+      versions: [firstVersion],
+      cubicFactor: normalizeCubicFactor(body.cubicFactor),
+      packageLimits: normalizePackageLimits(body.packageLimits),
+      createdAt: now,
     };
 
+    await kv.set(tableVersionKey(tableId, firstVersion.id), { tableId: tableId, versionId: firstVersion.id, rows: validRows });
     await kv.set(`shipping_table:${tableId}`, table);
     // Freight table saved
 
     // Return without rows (lighter response)
-    const { rows: _, ...meta } = table;
-    return c.json(meta);
+    return c.json(tableListing(table, Date.now()));
   } catch (e) {
     console.error("Error uploading freight table:", e);
     return c.json({ error: "Erro ao salvar tabela de frete." }, 500);
   }
 });
 
-// GET list freight tables
+// GET list freight tables (version in effect + history, no rows)
 app.get(BASE + "/shipping/tables", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Unauthorized" }, 401);
 
     const entries = await kv.getByPrefix("shipping_table:");
-    const tables = (entries || []).map((entry: any) => {
-      const { rows, ...meta } = (entry?.value || entry || {});
-      return {
-        ...meta,
-        rowCount: Array.isArray(rows) ? rows.length : (meta.rowCount || 0),
-      };
-    }).sort((a: any, b: any) => (b.createdAt || 0) - (a.createdAt || 0));
+    const now = Date.now();
+    const tables = (entries || [])
+      .map((entry: any) => entry?.value || entry)
+      .filter((t: any) => t && t.id)
+      .map((t: any) => tableListing(t, now))
+      .sort((a: any, b: any) => (b.createdAt || 0) - (a.createdAt || 0));
 
     return c.json({ tables });
   } catch (e) {
@@ -4995,7 +6124,42 @@ app.get(BASE + "/shipping/tables", async (c) => {
   }
 });
 
-// GET single freight table (with rows, for preview/editing)
+// POST preview of a CSV import: diff against the version in effect (or the
+// latest one) + CEP gaps/overlaps of the new rows. Nothing is saved.
+app.post(BASE + "/shipping/tables/diff", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+    const body = await c.req.json();
+    var diffValid = validate(body, {
+      tableId: { type: "string", maxLen: 100 },
+      rows: { required: true, type: "array", maxItems: 10000 },
+    });
+    if (!diffValid.ok) return c.json({ error: diffValid.errors[0] || "Dados invalidos." }, 400);
+
+    var newRows = normalizeTableRows(diffValid.sanitized.rows);
+    var beforeRows: any[] = [];
+    var against: any = null;
+    if (diffValid.sanitized.tableId) {
+      const table: any = await kv.get(`shipping_table:${diffValid.sanitized.tableId}`);
+      if (!table) return c.json({ error: "Tabela não encontrada" }, 404);
+      var versions = tableVersions(table);
+      var base = effectiveVersion(versions, Date.now()) ||
+        versions.slice().sort(function (a, b) { return b.version - a.version; })[0] || null;
+      if (base) {
+        beforeRows = await _tableVersionRows(table, base.id);
+        against = { id: base.id, version: base.version, validFrom: base.validFrom, validTo: base.validTo };
+      }
+    }
+    return c.json({ against: against, validRows: newRows.length, diff: diffTableRows(beforeRows, newRows) });
+  } catch (e) {
+    console.error("Error diffing freight table:", e);
+    return c.json({ error: "Erro ao comparar tabela de frete." }, 500);
+  }
+});
+
+// GET single freight table (with rows of ?version= or of the version in effect)
 app.get(BASE + "/shipping/tables/:id", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
@@ -5003,16 +6167,193 @@ app.get(BASE + "/shipping/tables/:id", async (c) => {
 
     const tableId = (c.req.param("id") || "").substring(0, 100);
     if (!tableId) return c.json({ error: "ID invalido." }, 400);
-    const table = await kv.get(`shipping_table:${tableId}`);
+    const table: any = await kv.get(`shipping_table:${tableId}`);
     if (!table) return c.json({ error: "Tabela não encontrada" }, 404);
-    return c.json(table);
+
+    var listing = tableListing(table, Date.now());
+    var wanted = (c.req.query("version") || "").substring(0, 40);
+    var versionId = wanted || listing.activeVersionId || (listing.versions[0] && listing.versions[0].id);
+    if (wanted && !listing.versions.some(function (v: any) { return v.id === wanted; })) {
+      return c.json({ error: "Versao nao encontrada." }, 404);
+    }
+    var rows = versionId ? await _tableVersionRows(table, versionId) : [];
+    return c.json({ ...listing, versionId: versionId || null, rows: rows });
   } catch (e) {
     console.error("Error fetching freight table:", e);
     return c.json({ error: "Erro ao buscar tabela de frete." }, 500);
   }
 });
 
-// DELETE freight table
+// POST new version of a freight table (CSV re-import). The previous versions
+// stay — the new one takes over at validFrom.
+app.post(BASE + "/shipping/tables/:id/versions", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+    const tableId = (c.req.param("id") || "").substring(0, 100);
+    if (!tableId) return c.json({ error: "ID invalido." }, 400);
+    const body = await c.req.json();
+    var tvValid = validate(body, {
+      rows: { required: true, type: "array", maxItems: 10000 },
+      validFrom: { type: "string", maxLen: 40 },
+      validTo: { type: "string", maxLen: 40 },
+      note: { type: "string", maxLen: 300 },
+    });
+    if (!tvValid.ok) return c.json({ error: tvValid.errors[0] || "Dados invalidos." }, 400);
+
+    var validRows = normalizeTableRows(tvValid.sanitized.rows);
+    if (validRows.length === 0) {
+      return c.json({ error: "Nenhuma linha válida encontrada na tabela." }, 400);
+    }
+    const now = Date.now();
+    var validFrom = parseValidDate(body.validFrom) || now;
+    var validTo = parseValidDate(body.validTo);
+    if (validTo !== null && validTo <= validFrom) {
+      return c.json({ error: "Fim da vigencia deve ser posterior ao inicio." }, 400);
+    }
+
+    return await withMutex("shipping_table:" + tableId, async function () {
+      var table: any = await kv.get(`shipping_table:${tableId}`);
+      if (!table) return c.json({ error: "Tabela não encontrada" }, 404);
+      table = await _migrateLegacyTable(table);
+
+      var versions: TableVersionMeta[] = table.versions;
+      var base = effectiveVersion(versions, now);
+      var diff = diffTableRows(base ? await _tableVersionRows(table, base.id) : [], validRows);
+      var meta: TableVersionMeta = {
+        id: newVersionId(),
+        version: nextVersionNumber(versions),
+        validFrom: validFrom,
+        validTo: validTo,
+        rowCount: validRows.length,
+        createdAt: now,
+        createdBy: userId,
+        summary: {
+          added: diff.counts.added,
+          removed: diff.counts.removed,
+          changed: diff.counts.changed,
+          gaps: diff.counts.gaps,
+          overlaps: diff.counts.overlaps,
+        },
+      };
+      if (tvValid.sanitized.note) meta.note = tvValid.sanitized.note;
+
+      await kv.set(tableVersionKey(tableId, meta.id), { tableId: tableId, versionId: meta.id, rows: validRows });
+      table.versions = versions.concat([meta]);
+      table.updatedAt = now;
+      await kv.set(`shipping_table:${tableId}`, table);
+      return c.json({ table: tableListing(table, Date.now()), version: meta });
+    });
+  } catch (e) {
+    console.error("Error saving freight table version:", e);
+    return c.json({ error: "Erro ao salvar nova versao da tabela." }, 500);
+  }
+});
+
+// POST rollback: disables the version in effect, the previous one takes over
+app.post(BASE + "/shipping/tables/:id/rollback", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+    const tableId = (c.req.param("id") || "").substring(0, 100);
+    if (!tableId) return c.json({ error: "ID invalido." }, 400);
+
+    return await withMutex("shipping_table:" + tableId, async function () {
+      var table: any = await kv.get(`shipping_table:${tableId}`);
+      if (!table) return c.json({ error: "Tabela não encontrada" }, 404);
+      const now = Date.now();
+      var plan = rollbackPlan(tableVersions(table), now);
+      if (!plan) return c.json({ error: "Nao ha versao anterior valida para restaurar." }, 409);
+      table = await _migrateLegacyTable(table);
+      var disableId = plan.disable.id;
+      table.versions = table.versions.map(function (v: TableVersionMeta) {
+        return v.id === disableId ? { ...v, disabled: true, disabledAt: now } : v;
+      });
+      table.updatedAt = now;
+      await kv.set(`shipping_table:${tableId}`, table);
+      return c.json({
+        table: tableListing(table, Date.now()),
+        disabled: { id: plan.disable.id, version: plan.disable.version },
+        restored: { id: plan.restore.id, version: plan.restore.version },
+      });
+    });
+  } catch (e) {
+    console.error("Error rolling back freight table:", e);
+    return c.json({ error: "Erro ao reverter tabela de frete." }, 500);
+  }
+});
+
+// PUT enable/disable one version (re-enable after a rollback, cancel a scheduled one)
+app.put(BASE + "/shipping/tables/:id/versions/:versionId", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+    const tableId = (c.req.param("id") || "").substring(0, 100);
+    const versionId = (c.req.param("versionId") || "").substring(0, 40);
+    if (!tableId || !versionId) return c.json({ error: "ID invalido." }, 400);
+    const body = await c.req.json();
+    var tsValid = validate(body, {
+      disabled: { required: true, type: "boolean" },
+    });
+    if (!tsValid.ok) return c.json({ error: tsValid.errors[0] || "Dados invalidos." }, 400);
+
+    return await withMutex("shipping_table:" + tableId, async function () {
+      var table: any = await kv.get(`shipping_table:${tableId}`);
+      if (!table) return c.json({ error: "Tabela não encontrada" }, 404);
+      table = await _migrateLegacyTable(table);
+      var found = table.versions.some(function (v: TableVersionMeta) { return v.id === versionId; });
+      if (!found) return c.json({ error: "Versao nao encontrada." }, 404);
+      const now = Date.now();
+      table.versions = table.versions.map(function (v: TableVersionMeta) {
+        if (v.id !== versionId) return v;
+        var next: TableVersionMeta = { ...v };
+        if (body.disabled) { next.disabled = true; next.disabledAt = now; }
+        else { delete next.disabled; delete next.disabledAt; }
+        return next;
+      });
+      table.updatedAt = now;
+      await kv.set(`shipping_table:${tableId}`, table);
+      return c.json({ table: tableListing(table, Date.now()) });
+    });
+  } catch (e) {
+    console.error("Error updating freight table version:", e);
+    return c.json({ error: "Erro ao atualizar versao da tabela." }, 500);
+  }
+});
+
+// PUT freight table packing settings (peso cubado + limites de volume)
+app.put(BASE + "/shipping/tables/:id/packing", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+    const tableId = (c.req.param("id") || "").substring(0, 100);
+    if (!tableId) return c.json({ error: "ID invalido." }, 400);
+    const body = await c.req.json();
+    var tpValid = validate(body, {
+      cubicFactor: { type: "number", min: 0, max: 1000 },
+    });
+    if (!tpValid.ok) return c.json({ error: tpValid.errors[0] || "Dados invalidos." }, 400);
+
+    return await withMutex("shipping_table:" + tableId, async function () {
+      const table: any = await kv.get(`shipping_table:${tableId}`);
+      if (!table) return c.json({ error: "Tabela não encontrada" }, 404);
+      table.cubicFactor = normalizeCubicFactor(body.cubicFactor);
+      table.packageLimits = normalizePackageLimits(body.packageLimits);
+      table.updatedAt = Date.now();
+      await kv.set(`shipping_table:${tableId}`, table);
+      return c.json(tableListing(table, Date.now()));
+    });
+  } catch (e) {
+    console.error("Error saving freight table packing:", e);
+    return c.json({ error: "Erro ao salvar cubagem da tabela." }, 500);
+  }
+});
+
+// DELETE freight table (and the rows of every version)
 app.delete(BASE + "/shipping/tables/:id", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
@@ -5020,6 +6361,11 @@ app.delete(BASE + "/shipping/tables/:id", async (c) => {
 
     const tableId = (c.req.param("id") || "").substring(0, 100);
     if (!tableId) return c.json({ error: "ID invalido." }, 400);
+    const table: any = await kv.get(`shipping_table:${tableId}`);
+    var versionKeys = table && Array.isArray(table.versions)
+      ? table.versions.map(function (v: TableVersionMeta) { return tableVersionKey(tableId, v.id); })
+      : [];
+    if (versionKeys.length > 0) await kv.mdel(versionKeys);
     await kv.del(`shipping_table:${tableId}`);
     // Freight table deleted
     return c.json({ ok: true });
@@ -5314,58 +6660,51 @@ async function enrichItemsFromSige(items: any[], defaultWeight: number): Promise
   return { enrichedItems, totalWeight, enrichmentLog };
 }
 
-// Helper: lookup freight from uploaded tables
-async function lookupFreightTables(destCep: string, totalWeight: number, orderValue: number, freeMinValue: number | null): Promise<any[]> {
-  const entries = await kv.getByPrefix("shipping_table:");
-  if (!entries || entries.length === 0) return [];
-
-  const destNum = parseInt(destCep, 10);
-  const options: any[] = [];
+// Rows of one freight table version — versions never change once written, so
+// they are cached per isolate
+var _tableRowsCache = new Map<string, any[]>();
+async function _tableVersionRows(table: any, versionId: string): Promise<any[]> {
+  var meta = tableVersions(table).find(function (v) { return v.id === versionId; });
+  if (meta && meta.legacy) return Array.isArray(table.rows) ? table.rows : [];
+  var key = tableVersionKey(table.id, versionId);
+  var cached = _tableRowsCache.get(key);
+  if (cached) return cached;
+  var rec: any = await kv.get(key);
+  var rows = rec && Array.isArray(rec.rows) ? rec.rows : [];
+  if (_tableRowsCache.size >= 50) _tableRowsCache.clear();
+  _tableRowsCache.set(key, rows);
+  return rows;
+}
 
-  for (const entry of entries) {
+// Helper: uploaded freight tables with the rows of the version valid at `at`
+// (matching/packing lives in shipping_quote.ts)
+async function _loadFreightTables(at: number): Promise<any[]> {
+  const entries = await kv.getByPrefix("shipping_table:");
+  var tables: any[] = [];
+  for (const entry of entries || []) {
     const table: any = entry?.value || entry;
-    if (!table || !Array.isArray(table.rows)) continue;
-
-    // Find matching row: CEP range + weight range
-    let bestMatch: any = null;
-    for (const row of table.rows) {
-      const cepStart = parseInt(row.cepInicio, 10);
-      const cepEnd = parseInt(row.cepFim, 10);
-      if (destNum < cepStart || destNum > cepEnd) continue;
-
-      const wMin = row.pesoMin || 0;
-      const wMax = row.pesoMax || 9999;
-      if (totalWeight < wMin || totalWeight > wMax) continue;
-
-      // Prefer the most specific CEP range (smallest range)
-      if (!bestMatch) {
-        bestMatch = row;
-      } else {
-        const curRange = parseInt(bestMatch.cepFim, 10) - parseInt(bestMatch.cepInicio, 10);
-        const newRange = cepEnd - cepStart;
-        if (newRange < curRange) bestMatch = row;
-      }
-    }
-
-    if (!bestMatch) continue;
-
-    // Check free shipping
-    const isFree = freeMinValue != null && orderValue >= freeMinValue;
-
-    options.push({
-      carrierId: table.id,
-      carrierName: table.carrierName || table.name,
-      carrierType: table.carrierType || "transportadora",
-      price: isFree ? 0 : (bestMatch.valor || 0),
-      deliveryDays: bestMatch.prazo || 0,
-      deliveryText: bestMatch.prazo > 0 ? `ate ${bestMatch.prazo} dias uteis` : "A consultar",
-      free: isFree,
-      freeReason: isFree ? `Frete gratis acima de R$ ${freeMinValue!.toFixed(2).replace(".", ",")}` : undefined,
-      source: "table",
-    });
+    if (!table || !table.id) continue;
+    var active = effectiveVersion(tableVersions(table), at);
+    if (!active) continue;
+    tables.push({ ...table, rows: await _tableVersionRows(table, active.id), versionId: active.id, version: active.version });
   }
+  return tables;
+}
 
-  return options;
+// Legacy table (rows on the record) → version record "v1" + versions[]
+async function _migrateLegacyTable(table: any): Promise<any> {
+  if (Array.isArray(table.versions) && table.versions.length > 0) return table;
+  var legacy = tableVersions(table);
+  if (legacy.length > 0) {
+    var v1: TableVersionMeta = { ...legacy[0] };
+    delete v1.legacy;
+    await kv.set(tableVersionKey(table.id, v1.id), { tableId: table.id, versionId: v1.id, rows: table.rows || [] });
+    table.versions = [v1];
+  } else {
+    table.versions = [];
+  }
+  delete table.rows;
+  return table;
 }
 
 // Helper: lookup freight from external API
@@ -6955,6 +8294,8 @@ app.get(BASE + "/produtos/autocomplete", async (c) => {
   try {
     const query = (c.req.query("q") || "").trim().substring(0, 200);
     const limitResults = Math.min(parseInt(c.req.query("limit") || "8", 10), 20);
+    // Optional "Minha Garagem"-style vehicle filter: only products with an exact fitment
+    const vehicle = _parseVehicleFilter(c);
 
     if (!query || query.length < 2) {
       return c.json({ results: [], query });
@@ -6974,6 +8315,7 @@ app.get(BASE + "/produtos/autocomplete", async (c) => {
     for (const product of products) {
       const meta = allMetas.get(product.sku) || null;
       if (meta && meta.visible === false) continue;
+      if (vehicle && !productFitsVehicle(meta, vehicle)) continue;
 
       const titulo = product.titulo || "";
       const brand = String(meta?.brand || "");
@@ -6984,9 +8326,7 @@ app.get(BASE + "/produtos/autocomplete", async (c) => {
         meta?.seoDescription,
         meta?.seo_description,
       ].filter(Boolean).join(" ");
-      const compatibility = Array.isArray(meta?.compatibility)
-        ? meta.compatibility.filter(Boolean).join(" ")
-        : "";
+      const compatibility = buildCatalogMetaSearchPayload(meta).compatibility;
       const customAttributes = meta?.customAttributes && typeof meta.customAttributes === "object"
         ? Object.values(meta.customAttributes).filter(Boolean).join(" ")
         : "";
@@ -7071,6 +8411,7 @@ app.get(BASE + "/produtos/autocomplete", async (c) => {
       results,
       query,
       totalMatches,
+      vehicle: vehicle || undefined,
     });
   } catch (e) {
     console.error("Autocomplete error:", e);
@@ -7297,6 +8638,18 @@ function buildCatalogMetaSearchPayload(meta: any): {
   var compatibility = Array.isArray(meta?.compatibility)
     ? meta.compatibility.filter(Boolean).join(" ")
     : "";
+  // Structured fitments are stored by slug — expand them so "constellation 2015" still matches
+  if (Array.isArray(meta?.fitments) && meta.fitments.length > 0) {
+    compatibility = [compatibility].concat(meta.fitments.map(function (f: any) {
+      return [
+        String(f?.make || "").replace(/-/g, " "),
+        String(f?.model || "").replace(/-/g, " "),
+        f?.yearFrom || "",
+        f?.yearTo || "",
+        f?.engine || "",
+      ].join(" ");
+    })).filter(Boolean).join(" ");
+  }
 
   var customAttributes = meta?.customAttributes && typeof meta.customAttributes === "object"
     ? Object.values(meta.customAttributes).filter(Boolean).join(" ")
@@ -7325,7 +8678,7 @@ function rankCatalogSearchResults(
   items: Array<{ sku: string; titulo: string }>,
   searchTerm: string,
   allMetas: Map<string, any>,
-  options?: { visibleOnly?: boolean; allowedSkus?: Set<string> | null },
+  options?: { visibleOnly?: boolean; allowedSkus?: Set<string> | null; vehicle?: { make: string; model: string; year: number | null; engine: string | null } | null },
 ): Array<{ sku: string; titulo: string; score: number }> {
   var queryNorm = normalizeText(searchTerm);
   var queryPhonetic = phoneticKey(searchTerm);
@@ -7337,6 +8690,7 @@ function rankCatalogSearchResults(
     var meta = allMetas.get(item.sku) || null;
     if (options?.visibleOnly && meta && meta.visible === false) continue;
     if (options?.allowedSkus && !options.allowedSkus.has(item.sku)) continue;
+    if (options?.vehicle && !productFitsVehicle(meta, options.vehicle)) continue;
 
     var titulo = item.titulo || "";
     var metaPayload = buildCatalogMetaSearchPayload(meta);
@@ -7699,6 +9053,17 @@ app.get(BASE + "/produtos", async (c) => {
     const categoriaSlug = (c.req.query("categoria") || "").trim().substring(0, 200);
     const publicMode = (c.req.query("public") || "").substring(0, 10);
     const sortParam = (c.req.query("sort") || "").trim().substring(0, 30);
+    // Vehicle filter (?vMake=&vModel=&vYear=&vEngine=) — exact structured fitment match, always public
+    const vehicle = _parseVehicleFilter(c);
+    const vehicleSkus = vehicle ? collectVehicleSkus(await getAllProductMetas(), vehicle) : null;
+    if (vehicleSkus && vehicleSkus.size === 0) {
+      return c.json({
+        data: [],
+        pagination: { page: 1, limit: limit, total: 0, totalPages: 0, hasNext: false, hasPrev: false },
+        categoria: categoriaSlug || null,
+        vehicle: vehicle,
+      });
+    }
 
     // Map sort param to Supabase REST order clause
     var orderClause = "titulo.asc";
@@ -7751,8 +9116,9 @@ app.get(BASE + "/produtos", async (c) => {
 
       var relSearchIndex = await getAllProductsSearchIndex();
       var relRanked = rankCatalogSearchResults(relSearchIndex, search, relAllMetas, {
-        visibleOnly: publicMode === "1" || !!categoriaSlug,
+        visibleOnly: publicMode === "1" || !!categoriaSlug || !!vehicle,
         allowedSkus: relAllowedSkus,
+        vehicle: vehicle,
       });
       var relTotal = relRanked.length;
       var relTotalPages = Math.ceil(relTotal / limit);
@@ -7766,10 +9132,11 @@ app.get(BASE + "/produtos", async (c) => {
         categoria: categoriaSlug || null,
         categoryName: relCategoryName,
         categoryBreadcrumb: relCategoryBreadcrumb,
+        vehicle: vehicle || undefined,
       });
     }
 
-    if (isPriceSort && (publicMode === "1" || categoriaSlug)) {
+    if (isPriceSort && (publicMode === "1" || categoriaSlug || vehicle)) {
       // PriceSort request
       var psT0 = Date.now();
 
@@ -7799,6 +9166,17 @@ app.get(BASE + "/produtos", async (c) => {
         }
         psSkuFilter = psMatchSkus;
       }
+      if (vehicleSkus) {
+        psSkuFilter = psSkuFilter
+          ? psSkuFilter.filter(function(s) { return vehicleSkus.has(s); })
+          : Array.from(vehicleSkus);
+        if (psSkuFilter.length === 0) {
+          return c.json({
+            data: [], pagination: { page: 1, limit: limit, total: 0, totalPages: 0, hasNext: false, hasPrev: false },
+            categoria: categoriaSlug || null, categoryName: psCategoryName, categoryBreadcrumb: psCategoryBreadcrumb, vehicle: vehicle,
+          });
+        }
+      }
 
       // 2. Fetch ALL matching sku+titulo from Supabase (no pagination — we paginate after sort)
       var psQueryStr = "select=sku,titulo";
@@ -7963,11 +9341,12 @@ app.get(BASE + "/produtos", async (c) => {
         categoria: categoriaSlug || null,
         categoryName: psCategoryName,
         categoryBreadcrumb: psCategoryBreadcrumb,
+        vehicle: vehicle || undefined,
       });
     }
 
     // ── Category + visibility filtering (public catalog) ──
-    if (categoriaSlug || publicMode === "1") {
+    if (categoriaSlug || publicMode === "1" || vehicle) {
       let categoryName: string | null = null;
       let categoryBreadcrumb: string[] | null = null;
       let skuFilter: string[] | null = null;
@@ -8006,6 +9385,19 @@ app.get(BASE + "/produtos", async (c) => {
         }
         skuFilter = matchingSkus;
       }
+      if (vehicleSkus) {
+        skuFilter = skuFilter ? skuFilter.filter((s) => vehicleSkus.has(s)) : Array.from(vehicleSkus);
+        if (skuFilter.length === 0) {
+          return c.json({
+            data: [],
+            pagination: { page: 1, limit, total: 0, totalPages: 0, hasNext: false, hasPrev: false },
+            categoria: categoriaSlug || null,
+            categoryName,
+            categoryBreadcrumb,
+            vehicle,
+          });
+        }
+      }
 
       let catQueryStr = "select=sku,titulo";
 
@@ -8066,6 +9458,7 @@ app.get(BASE + "/produtos", async (c) => {
         categoria: categoriaSlug || null,
         categoryName,
         categoryBreadcrumb,
+        vehicle: vehicle || undefined,
       });
     }
 
@@ -8145,115 +9538,714 @@ app.get(BASE + "/produtos", async (c) => {
 });
 
 // ═══════════════════════════════════════════════════
-// ─── PRODUTO CRUD (Admin — titulo in DB, meta in KV)
-// ════════════════��══════════════════════════════════
+// ─── VEICULOS & APLICACAO (Fitment estruturado) ───
+// ═══════════════════════════════════════════════════
 
-// GET /produtos/meta/:sku — product metadata from KV
-app.get(BASE + "/produtos/meta/:sku", async (c) => {
-  try {
-    const sku = decodeURIComponent(c.req.param("sku")).substring(0, 100);
-    if (!sku) return c.json({ visible: true });
-    const meta = await kv.get(`produto_meta:${sku}`);
-    return c.json(meta || { visible: true });
-  } catch (e) {
-    console.error("Error fetching product meta:", e);
-    return c.json({ error: "Erro ao buscar metadados." }, 500);
-  }
-});
+// KV keys:
+//   vehicle_catalog        → { makes: [{ id, name, aliases, models: [{ id, name, aliases, versions: [{ id, yearFrom, yearTo, engine }] }] }] }
+//   fitment_review:<id>    → string de compatibilidade que o parser nao entendeu (fila de revisao)
+//   produto_meta:<sku>     → meta.fitments = [{ make, model, yearFrom, yearTo, engine }], meta.fitmentUniversal
+//   user_profile:<userId>  → profile.garageVehicle = { make, model, year, engine, label } ("Minha Garagem")
+//
+// A compatibilidade antiga (meta.compatibility, texto livre) continua salva
+// como historico, mas busca e catalogo filtram pelo fitment estruturado.
+
+var VEHICLE_CATALOG_KEY = "vehicle_catalog";
+var FITMENT_REVIEW_PREFIX = "fitment_review:";
+var VEHICLE_YEAR_MIN = 1950;
+var VEHICLE_YEAR_MAX = new Date().getFullYear() + 2;
+
+// Default makes (trucks + light vehicles) with common aliases used in SIGE titles and legacy compatibility text
+var DEFAULT_VEHICLE_MAKES: Array<{ id: string; name: string; aliases: string[] }> = [
+  { id: "volkswagen", name: "Volkswagen", aliases: ["vw", "volks", "vwco"] },
+  { id: "mercedes-benz", name: "Mercedes-Benz", aliases: ["mercedes", "mb", "mbb"] },
+  { id: "scania", name: "Scania", aliases: [] },
+  { id: "volvo", name: "Volvo", aliases: [] },
+  { id: "ford", name: "Ford", aliases: [] },
+  { id: "iveco", name: "Iveco", aliases: [] },
+  { id: "daf", name: "DAF", aliases: [] },
+  { id: "man", name: "MAN", aliases: [] },
+  { id: "chevrolet", name: "Chevrolet", aliases: ["gm", "chevy"] },
+  { id: "fiat", name: "Fiat", aliases: [] },
+  { id: "toyota", name: "Toyota", aliases: [] },
+  { id: "honda", name: "Honda", aliases: [] },
+  { id: "hyundai", name: "Hyundai", aliases: [] },
+  { id: "renault", name: "Renault", aliases: [] },
+  { id: "agrale", name: "Agrale", aliases: [] },
+  { id: "international", name: "International", aliases: ["navistar"] },
+];
 
-// PUT /produtos/meta/:sku — save product metadata in KV
-app.put(BASE + "/produtos/meta/:sku", async (c) => {
-  try {
-    const sku = decodeURIComponent(c.req.param("sku"));
-    if (sku.length > 100) return c.json({ error: "SKU invalido." }, 400);
-    const body = await c.req.json();
-    if (!body || typeof body !== "object" || Array.isArray(body)) return c.json({ error: "Body deve ser um objeto." }, 400);
-    // Block dangerous keys in meta payload
-    delete body["__proto__"];
-    delete body["constructor"];
-    delete body["prototype"];
-    var metaStr = JSON.stringify(body);
-    if (metaStr.length > 30000) return c.json({ error: "Metadados excedem tamanho maximo (30KB)." }, 400);
-    const existing = (await kv.get("produto_meta:" + sku)) || {};
-    const updated = { ...(typeof existing === "object" && existing ? existing : {}), ...body, sku: sku };
-    await kv.set("produto_meta:" + sku, updated);
-    invalidateMetaCache();
-    return c.json(updated);
-  } catch (e) {
-    console.error("Error saving product meta:", e);
-    return c.json({ error: "Erro ao salvar metadados." }, 500);
-  }
-});
+function _vehicleSlug(text: string): string {
+  return normalizeText(String(text || "")).replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").substring(0, 60);
+}
 
-// PUT /produtos/:sku/titulo — update titulo in DB via service role
-app.put(BASE + "/produtos/:sku/titulo", async (c) => {
-  try {
-    const userId = await getAuthUserId(c.req.raw);
-    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+function _normalizeEngine(engine: unknown): string | null {
+  var e = String(engine || "").trim().substring(0, 40);
+  return e ? e.toUpperCase().replace(/\s+/g, " ") : null;
+}
 
-    const sku = decodeURIComponent(c.req.param("sku"));
-    if (sku.length > 100) return c.json({ error: "SKU invalido." }, 400);
-    var titBody = await c.req.json();
-    // Input validation
-    var titValid = validate(titBody, {
-      titulo: { required: true, type: "string", minLen: 1, maxLen: 500 },
-    });
-    if (!titValid.ok) {
-      return c.json({ error: titValid.errors[0] || "Título obrigatório." }, 400);
-    }
-    var titulo = titValid.sanitized.titulo || "";
-    if (!titulo.trim()) return c.json({ error: "Título obrigatório." }, 400);
+function _normalizeYear(year: unknown): number | null {
+  if (year === null || year === undefined || year === "") return null;
+  var y = parseInt(String(year), 10);
+  if (isNaN(y) || y < VEHICLE_YEAR_MIN || y > VEHICLE_YEAR_MAX) return null;
+  return y;
+}
 
-    const { error } = await supabaseAdmin
-      .from("produtos")
-      .update({ titulo: titulo.trim() })
-      .eq("sku", sku);
+function _defaultVehicleCatalog(): any {
+  return {
+    makes: DEFAULT_VEHICLE_MAKES.map(function (m) {
+      return { id: m.id, name: m.name, aliases: m.aliases.slice(), models: [] };
+    }),
+    updatedAt: Date.now(),
+  };
+}
 
-    if (error) {
-      console.error("Error updating titulo:", error.message);
-      return c.json({ error: "Erro ao atualizar titulo." }, 500);
+// Sanitize a full catalog payload (admin save) — drops invalid nodes, regenerates missing ids
+function _sanitizeVehicleCatalog(raw: any): any {
+  var makesIn = raw && Array.isArray(raw.makes) ? raw.makes : [];
+  var makes: any[] = [];
+  var seenMakes: Record<string, boolean> = {};
+  for (var mi = 0; mi < makesIn.length && mi < 300; mi++) {
+    var mk = makesIn[mi] || {};
+    var makeName = sanitizeInput(String(mk.name || "")).trim().substring(0, 60);
+    if (!makeName) continue;
+    var makeId = _vehicleSlug(mk.id || makeName);
+    if (!makeId || seenMakes[makeId]) continue;
+    seenMakes[makeId] = true;
+    var models: any[] = [];
+    var seenModels: Record<string, boolean> = {};
+    var modelsIn = Array.isArray(mk.models) ? mk.models : [];
+    for (var mj = 0; mj < modelsIn.length && mj < 500; mj++) {
+      var md = modelsIn[mj] || {};
+      var modelName = sanitizeInput(String(md.name || "")).trim().substring(0, 80);
+      if (!modelName) continue;
+      var modelId = _vehicleSlug(md.id || modelName);
+      if (!modelId || seenModels[modelId]) continue;
+      seenModels[modelId] = true;
+      var versions: any[] = [];
+      var versionsIn = Array.isArray(md.versions) ? md.versions : [];
+      for (var vi = 0; vi < versionsIn.length && vi < 100; vi++) {
+        var vr = versionsIn[vi] || {};
+        var yFrom = _normalizeYear(vr.yearFrom);
+        var yTo = _normalizeYear(vr.yearTo);
+        if (yFrom !== null && yTo !== null && yTo < yFrom) { var tmpY = yFrom; yFrom = yTo; yTo = tmpY; }
+        var engine = _normalizeEngine(vr.engine);
+        if (yFrom === null && yTo === null && !engine) continue;
+        versions.push({
+          id: String(vr.id || "").substring(0, 60) || (modelId + "-" + (yFrom || "x") + "-" + (yTo || "x") + (engine ? "-" + _vehicleSlug(engine) : "")),
+          yearFrom: yFrom,
+          yearTo: yTo,
+          engine: engine,
+        });
+      }
+      models.push({ id: modelId, name: modelName, aliases: _sanitizeAliasList(md.aliases), versions: versions });
     }
-    productSearchIndexCache = null;
-    return c.json({ sku, titulo: titulo.trim(), updated: true });
-  } catch (e) {
-    console.error("Error updating titulo:", e);
-    return c.json({ error: "Erro ao atualizar titulo." }, 500);
+    models.sort(function (a, b) { return a.name.localeCompare(b.name, "pt-BR"); });
+    makes.push({ id: makeId, name: makeName, aliases: _sanitizeAliasList(mk.aliases), models: models });
   }
-});
+  makes.sort(function (a, b) { return a.name.localeCompare(b.name, "pt-BR"); });
+  return { makes: makes, updatedAt: Date.now() };
+}
 
-// PUT /produtos/:sku/rename — rename SKU in DB + move KV meta
-app.put(BASE + "/produtos/:sku/rename", async (c) => {
+function _sanitizeAliasList(raw: any): string[] {
+  var list = Array.isArray(raw) ? raw : [];
+  var out: string[] = [];
+  for (var i = 0; i < list.length && i < 20; i++) {
+    var a = normalizeText(String(list[i] || "")).trim().substring(0, 40);
+    if (a && out.indexOf(a) === -1) out.push(a);
+  }
+  return out;
+}
+
+async function _getVehicleCatalog(): Promise<any> {
+  var cached = memGet("_vehicle_catalog");
+  if (cached) return cached;
+  var catalog: any = null;
   try {
-    const userId = await getAuthUserId(c.req.raw);
-    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var raw = await kv.get(VEHICLE_CATALOG_KEY);
+    if (raw) catalog = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch (e) {
+    console.error("[vehicles] Catalog parse error: " + e);
+  }
+  if (!catalog || !Array.isArray(catalog.makes)) catalog = _defaultVehicleCatalog();
+  memSet("_vehicle_catalog", catalog, 60 * 1000);
+  return catalog;
+}
 
-    const oldSku = decodeURIComponent(c.req.param("sku"));
-    if (oldSku.length > 100) return c.json({ error: "SKU invalido." }, 400);
-    var renameBody = await c.req.json();
-    // Input validation
-    var renameValid = validate(renameBody, {
-      newSku: { required: true, type: "string", minLen: 1, maxLen: 100 },
-    });
-    if (!renameValid.ok) {
-      return c.json({ error: renameValid.errors[0] || "Novo SKU obrigatório." }, 400);
-    }
-    var newSku = renameValid.sanitized.newSku || "";
-    if (!newSku.trim()) return c.json({ error: "Novo SKU obrigatório." }, 400);
-    const trimmed = newSku.trim();
-    if (trimmed === oldSku) return c.json({ error: "SKU igual ao atual." }, 400);
+async function _saveVehicleCatalog(catalog: any): Promise<void> {
+  catalog.updatedAt = Date.now();
+  await kv.set(VEHICLE_CATALOG_KEY, catalog);
+  memClear("_vehicle_catalog");
+}
 
-    const { data: existing } = await supabaseAdmin.from("produtos").select("sku").eq("sku", trimmed).limit(1);
-    if (existing && existing.length > 0) {
-      return c.json({ error: "SKU ja existe no banco." }, 409);
-    }
+function _findVehicleMake(catalog: any, token: string): any | null {
+  var t = normalizeText(token);
+  if (!t) return null;
+  for (var i = 0; i < catalog.makes.length; i++) {
+    var mk = catalog.makes[i];
+    if (mk.id === _vehicleSlug(t) || normalizeText(mk.name) === t) return mk;
+    if (Array.isArray(mk.aliases) && mk.aliases.indexOf(t) !== -1) return mk;
+  }
+  return null;
+}
 
-    const { error: dbErr } = await supabaseAdmin.from("produtos").update({ sku: trimmed }).eq("sku", oldSku);
-    if (dbErr) {
-      console.error("Error renaming SKU in DB:", dbErr.message);
-      return c.json({ error: "Erro ao renomear SKU no banco." }, 500);
-    }
+function _findVehicleModel(make: any, name: string): any | null {
+  var slug = _vehicleSlug(name);
+  var norm = normalizeText(name);
+  var models = Array.isArray(make.models) ? make.models : [];
+  for (var i = 0; i < models.length; i++) {
+    if (models[i].id === slug || normalizeText(models[i].name) === norm) return models[i];
+    if (Array.isArray(models[i].aliases) && models[i].aliases.indexOf(norm) !== -1) return models[i];
+  }
+  return null;
+}
 
-    try {
+// Human-readable label for a fitment entry ("Volkswagen Constellation 24.280 2012-2020 MWM 6.12")
+function _fitmentLabel(fitment: any, catalog: any): string {
+  var make = null as any;
+  for (var i = 0; i < catalog.makes.length; i++) {
+    if (catalog.makes[i].id === fitment.make) { make = catalog.makes[i]; break; }
+  }
+  var model = make ? _findVehicleModel(make, fitment.model) : null;
+  var parts = [make ? make.name : fitment.make, model ? model.name : fitment.model];
+  if (fitment.yearFrom || fitment.yearTo) {
+    parts.push(fitment.yearFrom && fitment.yearTo && fitment.yearFrom !== fitment.yearTo
+      ? fitment.yearFrom + "-" + fitment.yearTo
+      : String(fitment.yearFrom || fitment.yearTo) + (fitment.yearTo ? "" : "+"));
+  }
+  if (fitment.engine) parts.push(fitment.engine);
+  return parts.filter(Boolean).join(" ");
+}
+
+// Validate + normalize a list of fitment entries against the vehicle catalog.
+// Returns the clean entries plus errors for the ones that reference unknown make/model.
+function _normalizeFitments(raw: any, catalog: any): { fitments: any[]; errors: string[] } {
+  var list = Array.isArray(raw) ? raw : [];
+  var fitments: any[] = [];
+  var errors: string[] = [];
+  var seen: Record<string, boolean> = {};
+  for (var i = 0; i < list.length && i < 200; i++) {
+    var f = list[i] || {};
+    var make = _findVehicleMake(catalog, String(f.make || ""));
+    if (!make) { errors.push("Montadora desconhecida: " + String(f.make || "").substring(0, 40)); continue; }
+    var model = _findVehicleModel(make, String(f.model || ""));
+    if (!model) { errors.push("Modelo desconhecido para " + make.name + ": " + String(f.model || "").substring(0, 60)); continue; }
+    var yFrom = _normalizeYear(f.yearFrom);
+    var yTo = _normalizeYear(f.yearTo);
+    if (yFrom !== null && yTo !== null && yTo < yFrom) { var tmp = yFrom; yFrom = yTo; yTo = tmp; }
+    var entry: any = {
+      make: make.id,
+      model: model.id,
+      yearFrom: yFrom,
+      yearTo: yTo,
+      engine: _normalizeEngine(f.engine),
+    };
+    if (f.raw) entry.raw = sanitizeInput(String(f.raw)).substring(0, 200);
+    var dedupeKey = [entry.make, entry.model, entry.yearFrom, entry.yearTo, entry.engine].join("|");
+    if (seen[dedupeKey]) continue;
+    seen[dedupeKey] = true;
+    fitments.push(entry);
+  }
+  return { fitments: fitments, errors: errors };
+}
+
+// Parse the vehicle filter from query params (?vMake=&vModel=&vYear=&vEngine=)
+function _parseVehicleFilter(c: any): { make: string; model: string; year: number | null; engine: string | null } | null {
+  var make = _vehicleSlug(String(c.req.query("vMake") || "").substring(0, 60));
+  var model = _vehicleSlug(String(c.req.query("vModel") || "").substring(0, 80));
+  if (!make || !model) return null;
+  return {
+    make: make,
+    model: model,
+    year: _normalizeYear(c.req.query("vYear")),
+    engine: _normalizeEngine(c.req.query("vEngine")),
+  };
+}
+
+// Exact structured match: same make + model, year inside the range, engine equal when both sides declare one.
+function productFitsVehicle(meta: any, vehicle: { make: string; model: string; year: number | null; engine: string | null }): boolean {
+  if (!meta) return false;
+  if (meta.fitmentUniversal === true) return true;
+  var fitments = Array.isArray(meta.fitments) ? meta.fitments : [];
+  for (var i = 0; i < fitments.length; i++) {
+    var f = fitments[i];
+    if (!f || f.make !== vehicle.make || f.model !== vehicle.model) continue;
+    if (vehicle.year !== null) {
+      if (f.yearFrom && vehicle.year < f.yearFrom) continue;
+      if (f.yearTo && vehicle.year > f.yearTo) continue;
+    }
+    if (vehicle.engine && f.engine && f.engine !== vehicle.engine) continue;
+    return true;
+  }
+  return false;
+}
+
+// Set of visible SKUs that fit the vehicle (null when no filter is active)
+function collectVehicleSkus(allMetas: Map<string, any>, vehicle: any): Set<string> | null {
+  if (!vehicle) return null;
+  var skus = new Set<string>();
+  allMetas.forEach(function (meta) {
+    if (!meta || !meta.sku || meta.visible === false) return;
+    if (productFitsVehicle(meta, vehicle)) skus.add(meta.sku);
+  });
+  return skus;
+}
+
+// Validate a "Minha Garagem" vehicle against the catalog; returns null when invalid/empty
+function _sanitizeGarageVehicle(raw: any, catalog: any): any | null {
+  if (!raw || typeof raw !== "object") return null;
+  var make = _findVehicleMake(catalog, String(raw.make || "").substring(0, 60));
+  if (!make) return null;
+  var model = _findVehicleModel(make, String(raw.model || "").substring(0, 80));
+  if (!model) return null;
+  var vehicle: any = {
+    make: make.id,
+    model: model.id,
+    year: _normalizeYear(raw.year),
+    engine: _normalizeEngine(raw.engine),
+  };
+  vehicle.label = _fitmentLabel({ make: vehicle.make, model: vehicle.model, yearFrom: vehicle.year, yearTo: vehicle.year, engine: vehicle.engine }, catalog);
+  return vehicle;
+}
+
+// ── Legacy compatibility parser ──
+// Understands strings like "Honda Civic 2018-2024", "Honda Civic 1.5T 2017-2024",
+// "VW Constellation 24.280 2012 a 2020", "Scania R440 2010+" and "Universal - ...".
+// Anything without a recognizable make or a year goes to the review queue.
+var FITMENT_ENGINE_RE = /\b(\d\.\d{1,2}\s?(?:t|tsi|turbo|flex|16v|8v|diesel|tdi)?|mwm\s?[\d.]+|cummins\s?[\w.]+|om\s?\d{3}\w*|dc\s?\d{2}\w*|d\d{2}\w*)\b/i;
+
+function parseCompatibilityEntry(raw: string, catalog: any): { ok: boolean; universal?: boolean; make?: any; modelName?: string; yearFrom?: number | null; yearTo?: number | null; engine?: string | null; reason?: string } {
+  var text = String(raw || "").trim().substring(0, 200);
+  if (!text) return { ok: false, reason: "Texto vazio" };
+  var norm = normalizeText(text);
+  if (/^universal\b/.test(norm)) return { ok: true, universal: true };
+
+  var tokens = text.split(/\s+/);
+  var make: any = null;
+  var consumed = 0;
+  // Try 2-token makes first ("Mercedes Benz"), then 1-token
+  if (tokens.length >= 2) {
+    make = _findVehicleMake(catalog, tokens[0] + " " + tokens[1]) || _findVehicleMake(catalog, tokens[0] + "-" + tokens[1]);
+    if (make) consumed = 2;
+  }
+  if (!make) {
+    make = _findVehicleMake(catalog, tokens[0]);
+    if (make) consumed = 1;
+  }
+  if (!make) return { ok: false, reason: "Montadora nao reconhecida" };
+
+  var rest = tokens.slice(consumed).join(" ");
+  var yearFrom: number | null = null;
+  var yearTo: number | null = null;
+  var yearMatch = rest.match(/\b((?:19|20)\d{2})\s*(?:-|–|a|ate|até|\/)\s*((?:19|20)\d{2})\b/i);
+  if (yearMatch) {
+    yearFrom = _normalizeYear(yearMatch[1]);
+    yearTo = _normalizeYear(yearMatch[2]);
+  } else {
+    yearMatch = rest.match(/\b((?:19|20)\d{2})\s*(?:\+|em diante|>)/i) || rest.match(/\b((?:19|20)\d{2})\b/);
+    if (yearMatch) {
+      yearFrom = _normalizeYear(yearMatch[1]);
+      yearTo = /\+|em diante|>/i.test(yearMatch[0]) ? null : yearFrom;
+    }
+  }
+  if (!yearMatch || yearFrom === null) return { ok: false, reason: "Ano nao identificado" };
+  if (yearTo !== null && yearTo < yearFrom) { var tmp = yearFrom; yearFrom = yearTo; yearTo = tmp; }
+
+  var beforeYear = rest.substring(0, yearMatch.index || 0).trim();
+  var engine: string | null = null;
+  var engineMatch = beforeYear.match(FITMENT_ENGINE_RE);
+  if (engineMatch) {
+    engine = _normalizeEngine(engineMatch[1]);
+    beforeYear = (beforeYear.substring(0, engineMatch.index || 0) + " " + beforeYear.substring((engineMatch.index || 0) + engineMatch[0].length)).trim();
+  }
+  var modelName = beforeYear.replace(/[,;\-–]+$/g, "").replace(/\s+/g, " ").trim();
+  if (!modelName) return { ok: false, reason: "Modelo nao identificado" };
+  if (/[\/|]/.test(modelName)) return { ok: false, reason: "Multiplos modelos na mesma linha" };
+
+  return { ok: true, make: make, modelName: modelName, yearFrom: yearFrom, yearTo: yearTo, engine: engine };
+}
+
+function _fitmentReviewId(sku: string, raw: string): string {
+  // Deterministic id so re-running the migration does not duplicate queue entries
+  var h = 0;
+  var s = sku + "|" + raw;
+  for (var i = 0; i < s.length; i++) { h = ((h << 5) - h + s.charCodeAt(i)) | 0; }
+  return _vehicleSlug(sku).substring(0, 40) + "_" + (h >>> 0).toString(36);
+}
+
+// GET /vehicles/catalog — public, vehicle tree for selectors (make → model → versions)
+app.get(BASE + "/vehicles/catalog", async (c: any) => {
+  try {
+    var catalog = await _getVehicleCatalog();
+    return c.json(catalog);
+  } catch (e) {
+    console.error("[vehicles] Catalog error: " + e);
+    return c.json({ error: "Erro ao carregar catalogo de veiculos." }, 500);
+  }
+});
+
+// GET /vehicles/category-counts — visible products per category that fit the vehicle (?vMake=&vModel=&vYear=&vEngine=)
+// Used by the mega menu to grey out categories with no parts for the customer's vehicle.
+app.get(BASE + "/vehicles/category-counts", async (c: any) => {
+  try {
+    var vehicle = _parseVehicleFilter(c);
+    if (!vehicle) return c.json({ error: "Informe montadora e modelo." }, 400);
+    var cacheKey = "_vehicle_cat_counts:" + [vehicle.make, vehicle.model, vehicle.year || "", vehicle.engine || ""].join("|");
+    var cached = memGet(cacheKey);
+    if (cached) return c.json(cached);
+
+    var allMetas = await getAllProductMetas();
+    var directCounts: Record<string, number> = {};
+    var total = 0;
+    allMetas.forEach(function (meta: any) {
+      if (!meta || meta.visible === false || !productFitsVehicle(meta, vehicle!)) return;
+      total++;
+      if (meta.category) directCounts[meta.category] = (directCounts[meta.category] || 0) + 1;
+    });
+    var catTree = (await kv.get("category_tree")) || [];
+    if (typeof catTree === "string") catTree = JSON.parse(catTree);
+    var counts: Record<string, number> = {};
+    function sumTree(nodes: any[]): void {
+      for (var ni = 0; ni < nodes.length; ni++) {
+        var node = nodes[ni];
+        var childTotal = 0;
+        if (Array.isArray(node.children) && node.children.length > 0) {
+          sumTree(node.children);
+          for (var ci = 0; ci < node.children.length; ci++) childTotal += counts[node.children[ci].slug] || 0;
+        }
+        counts[node.slug] = (directCounts[node.slug] || 0) + childTotal;
+      }
+    }
+    sumTree(Array.isArray(catTree) ? catTree : []);
+
+    var result = { vehicle: vehicle, total: total, categoryCounts: counts };
+    memSet(cacheKey, result, 5 * 60 * 1000);
+    return c.json(result);
+  } catch (e) {
+    console.error("[vehicles] Category counts error: " + e);
+    return c.json({ error: "Erro ao contar pecas do veiculo." }, 500);
+  }
+});
+
+// GET /auth/user/vehicle — "Minha Garagem" vehicle saved on the profile
+app.get(BASE + "/auth/user/vehicle", async (c: any) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Token invalido ou expirado." }, 401);
+    var profile: any = {};
+    try {
+      var raw = await kv.get("user_profile:" + userId);
+      if (raw) profile = typeof raw === "string" ? JSON.parse(raw) : raw;
+    } catch (_e) {}
+    return c.json({ vehicle: profile.garageVehicle || null });
+  } catch (e) {
+    console.error("[vehicles] Get user vehicle error: " + e);
+    return c.json({ error: "Erro ao carregar veiculo." }, 500);
+  }
+});
+
+// PUT /auth/user/vehicle — body { vehicle: { make, model, year?, engine? } | null }
+app.put(BASE + "/auth/user/vehicle", async (c: any) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Token invalido ou expirado." }, 401);
+    var body = await c.req.json();
+    var vehicle: any = null;
+    if (body && body.vehicle) {
+      vehicle = _sanitizeGarageVehicle(body.vehicle, await _getVehicleCatalog());
+      if (!vehicle) return c.json({ error: "Veiculo invalido." }, 400);
+    }
+    var existing: any = {};
+    try {
+      var raw = await kv.get("user_profile:" + userId);
+      if (raw) existing = typeof raw === "string" ? JSON.parse(raw) : raw;
+    } catch (_e) {}
+    existing.garageVehicle = vehicle;
+    existing.updated_at = new Date().toISOString();
+    await kv.set("user_profile:" + userId, JSON.stringify(existing));
+    return c.json({ ok: true, vehicle: vehicle });
+  } catch (e) {
+    console.error("[vehicles] Save user vehicle error: " + e);
+    return c.json({ error: "Erro ao salvar veiculo." }, 500);
+  }
+});
+
+// PUT /admin/vehicles/catalog — replace vehicle tree (admin)
+app.put(BASE + "/admin/vehicles/catalog", async (c: any) => {
+  try {
+    var body = await c.req.json();
+    if (!body || !Array.isArray(body.makes)) return c.json({ error: "Campo 'makes' deve ser um array." }, 400);
+    var clean = _sanitizeVehicleCatalog(body);
+    await _saveVehicleCatalog(clean);
+    return c.json({ ok: true, catalog: clean });
+  } catch (e) {
+    console.error("[vehicles] Save catalog error: " + e);
+    return c.json({ error: "Erro ao salvar catalogo de veiculos." }, 500);
+  }
+});
+
+// POST /admin/fitment/migrate — parse legacy meta.compatibility strings into structured fitments
+// Body: { dryRun?: boolean, overwrite?: boolean, createModels?: boolean }
+app.post(BASE + "/admin/fitment/migrate", async (c: any) => {
+  try {
+    var body: any = {};
+    try { body = await c.req.json(); } catch (_e) { body = {}; }
+    var dryRun = body.dryRun === true;
+    var overwrite = body.overwrite === true;
+    var createModels = body.createModels !== false;
+
+    var catalog = await _getVehicleCatalog();
+    // Work on a copy so a dry run never mutates the cached catalog
+    catalog = JSON.parse(JSON.stringify(catalog));
+    var allMetas = await getAllProductMetas();
+
+    var scanned = 0;
+    var fitmentsCreated = 0;
+    var modelsCreated = 0;
+    var metaKeys: string[] = [];
+    var metaValues: any[] = [];
+    var reviewKeys: string[] = [];
+    var reviewValues: any[] = [];
+    var sample: any[] = [];
+
+    allMetas.forEach(function (meta, sku) {
+      var legacy = Array.isArray(meta.compatibility) ? meta.compatibility.filter(Boolean) : [];
+      if (legacy.length === 0) return;
+      if (!overwrite && Array.isArray(meta.fitments) && meta.fitments.length > 0) return;
+      scanned++;
+      var parsedList: any[] = [];
+      var universal = meta.fitmentUniversal === true;
+      for (var li = 0; li < legacy.length; li++) {
+        var line = String(legacy[li]);
+        var parsed = parseCompatibilityEntry(line, catalog);
+        if (parsed.ok && parsed.universal) { universal = true; continue; }
+        if (parsed.ok && parsed.make) {
+          var model = _findVehicleModel(parsed.make, parsed.modelName || "");
+          if (!model && createModels) {
+            model = { id: _vehicleSlug(parsed.modelName || ""), name: sanitizeInput(parsed.modelName || "").substring(0, 80), aliases: [], versions: [] };
+            parsed.make.models.push(model);
+            modelsCreated++;
+          }
+          if (model) {
+            parsedList.push({ make: parsed.make.id, model: model.id, yearFrom: parsed.yearFrom, yearTo: parsed.yearTo, engine: parsed.engine, raw: line });
+            continue;
+          }
+          parsed = { ok: false, reason: "Modelo nao cadastrado" };
+        }
+        var reviewId = _fitmentReviewId(sku, line);
+        reviewKeys.push(FITMENT_REVIEW_PREFIX + reviewId);
+        reviewValues.push({ id: reviewId, sku: sku, raw: line, reason: parsed.reason || "Nao reconhecido", createdAt: Date.now() });
+      }
+      var norm = _normalizeFitments(parsedList, catalog);
+      fitmentsCreated += norm.fitments.length;
+      if (sample.length < 20 && (norm.fitments.length > 0 || universal)) {
+        sample.push({ sku: sku, legacy: legacy, fitments: norm.fitments, universal: universal });
+      }
+      if (norm.fitments.length > 0 || universal !== (meta.fitmentUniversal === true)) {
+        metaKeys.push("produto_meta:" + sku);
+        metaValues.push(Object.assign({}, meta, { fitments: norm.fitments, fitmentUniversal: universal, fitmentMigratedAt: Date.now() }));
+      }
+    });
+
+    if (!dryRun) {
+      if (modelsCreated > 0) await _saveVehicleCatalog(_sanitizeVehicleCatalog(catalog));
+      for (var bi = 0; bi < metaKeys.length; bi += 200) {
+        await kv.mset(metaKeys.slice(bi, bi + 200), metaValues.slice(bi, bi + 200));
+      }
+      for (var ri = 0; ri < reviewKeys.length; ri += 200) {
+        await kv.mset(reviewKeys.slice(ri, ri + 200), reviewValues.slice(ri, ri + 200));
+      }
+      if (metaKeys.length > 0) invalidateMetaCache();
+    }
+
+    console.log("[fitment/migrate] scanned=" + scanned + " products=" + metaKeys.length + " fitments=" + fitmentsCreated + " queued=" + reviewKeys.length + " models=" + modelsCreated + (dryRun ? " (dry run)" : ""));
+    return c.json({
+      ok: true,
+      dryRun: dryRun,
+      scanned: scanned,
+      productsUpdated: metaKeys.length,
+      fitmentsCreated: fitmentsCreated,
+      modelsCreated: modelsCreated,
+      queued: reviewKeys.length,
+      sample: sample,
+    });
+  } catch (e) {
+    console.error("[fitment/migrate] Error: " + e);
+    return c.json({ error: _safeError("Erro na migracao de compatibilidade", e) }, 500);
+  }
+});
+
+// GET /admin/fitment/review — review queue of legacy strings the parser could not handle
+app.get(BASE + "/admin/fitment/review", async (c: any) => {
+  try {
+    var entries = await kv.getByPrefix(FITMENT_REVIEW_PREFIX);
+    var items: any[] = [];
+    for (var i = 0; i < entries.length; i++) {
+      try {
+        var val = typeof entries[i] === "string" ? JSON.parse(entries[i]) : entries[i];
+        if (val && val.id) items.push(val);
+      } catch (_e) { /* skip */ }
+    }
+    items.sort(function (a, b) { return String(a.sku).localeCompare(String(b.sku)); });
+    return c.json({ items: items, total: items.length });
+  } catch (e) {
+    console.error("[fitment/review] List error: " + e);
+    return c.json({ error: "Erro ao listar fila de revisao." }, 500);
+  }
+});
+
+// POST /admin/fitment/review/:id/resolve — body { fitments?: [...], universal?: boolean, dismiss?: boolean }
+app.post(BASE + "/admin/fitment/review/:id/resolve", async (c: any) => {
+  try {
+    var id = String(c.req.param("id") || "").substring(0, 120);
+    var raw = await kv.get(FITMENT_REVIEW_PREFIX + id);
+    if (!raw) return c.json({ error: "Item da fila nao encontrado." }, 404);
+    var item = typeof raw === "string" ? JSON.parse(raw) : raw;
+    var body = await c.req.json();
+
+    if (body.dismiss !== true) {
+      var catalog = await _getVehicleCatalog();
+      var norm = _normalizeFitments(body.fitments, catalog);
+      if (norm.errors.length > 0) return c.json({ error: norm.errors[0] }, 400);
+      if (norm.fitments.length === 0 && body.universal !== true) {
+        return c.json({ error: "Informe ao menos uma aplicacao ou marque como universal." }, 400);
+      }
+      var metaKey = "produto_meta:" + item.sku;
+      var meta = (await kv.get(metaKey)) || {};
+      if (typeof meta !== "object") meta = {};
+      var merged = _normalizeFitments((Array.isArray(meta.fitments) ? meta.fitments : []).concat(norm.fitments.map(function (f: any) {
+        return Object.assign({}, f, { raw: item.raw });
+      })), catalog);
+      meta.fitments = merged.fitments;
+      if (body.universal === true) meta.fitmentUniversal = true;
+      meta.sku = item.sku;
+      await kv.set(metaKey, meta);
+      invalidateMetaCache();
+    }
+    await kv.del(FITMENT_REVIEW_PREFIX + id);
+    return c.json({ ok: true, id: id, sku: item.sku });
+  } catch (e) {
+    console.error("[fitment/review] Resolve error: " + e);
+    return c.json({ error: "Erro ao resolver item da fila." }, 500);
+  }
+});
+// ═══════════════════════════════════════════════════
+// ─── PRODUTO CRUD (Admin — titulo in DB, meta in KV)
+// ════════════════��══════════════════════════════════
+
+// GET /produtos/meta/:sku — product metadata from KV
+app.get(BASE + "/produtos/meta/:sku", async (c) => {
+  try {
+    const sku = decodeURIComponent(c.req.param("sku")).substring(0, 100);
+    if (!sku) return c.json({ visible: true });
+    const meta = await kv.get(`produto_meta:${sku}`);
+    return c.json(meta || { visible: true });
+  } catch (e) {
+    console.error("Error fetching product meta:", e);
+    return c.json({ error: "Erro ao buscar metadados." }, 500);
+  }
+});
+
+// PUT /produtos/meta/:sku — save product metadata in KV
+app.put(BASE + "/produtos/meta/:sku", async (c) => {
+  try {
+    const sku = decodeURIComponent(c.req.param("sku"));
+    if (sku.length > 100) return c.json({ error: "SKU invalido." }, 400);
+    const body = await c.req.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) return c.json({ error: "Body deve ser um objeto." }, 400);
+    // Block dangerous keys in meta payload
+    delete body["__proto__"];
+    delete body["constructor"];
+    delete body["prototype"];
+    var metaStr = JSON.stringify(body);
+    if (metaStr.length > 30000) return c.json({ error: "Metadados excedem tamanho maximo (30KB)." }, 400);
+    // Structured fitment must reference makes/models from the vehicle catalog
+    if (body.fitments !== undefined) {
+      var fitNorm = _normalizeFitments(body.fitments, await _getVehicleCatalog());
+      if (fitNorm.errors.length > 0) return c.json({ error: fitNorm.errors[0] }, 400);
+      body.fitments = fitNorm.fitments;
+    }
+    if (body.fitmentUniversal !== undefined) body.fitmentUniversal = body.fitmentUniversal === true;
+    const existing = (await kv.get("produto_meta:" + sku)) || {};
+    const updated = { ...(typeof existing === "object" && existing ? existing : {}), ...body, sku: sku };
+    await kv.set("produto_meta:" + sku, updated);
+    invalidateMetaCache();
+    return c.json(updated);
+  } catch (e) {
+    console.error("Error saving product meta:", e);
+    return c.json({ error: "Erro ao salvar metadados." }, 500);
+  }
+});
+
+// PUT /produtos/:sku/titulo — update titulo in DB via service role
+app.put(BASE + "/produtos/:sku/titulo", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+
+    const sku = decodeURIComponent(c.req.param("sku"));
+    if (sku.length > 100) return c.json({ error: "SKU invalido." }, 400);
+    var titBody = await c.req.json();
+    // Input validation
+    var titValid = validate(titBody, {
+      titulo: { required: true, type: "string", minLen: 1, maxLen: 500 },
+    });
+    if (!titValid.ok) {
+      return c.json({ error: titValid.errors[0] || "Título obrigatório." }, 400);
+    }
+    var titulo = titValid.sanitized.titulo || "";
+    if (!titulo.trim()) return c.json({ error: "Título obrigatório." }, 400);
+
+    const { error } = await supabaseAdmin
+      .from("produtos")
+      .update({ titulo: titulo.trim() })
+      .eq("sku", sku);
+
+    if (error) {
+      console.error("Error updating titulo:", error.message);
+      return c.json({ error: "Erro ao atualizar titulo." }, 500);
+    }
+    productSearchIndexCache = null;
+    return c.json({ sku, titulo: titulo.trim(), updated: true });
+  } catch (e) {
+    console.error("Error updating titulo:", e);
+    return c.json({ error: "Erro ao atualizar titulo." }, 500);
+  }
+});
+
+// PUT /produtos/:sku/rename — rename SKU in DB + move KV meta
+app.put(BASE + "/produtos/:sku/rename", async (c) => {
+  try {
+    const userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+
+    const oldSku = decodeURIComponent(c.req.param("sku"));
+    if (oldSku.length > 100) return c.json({ error: "SKU invalido." }, 400);
+    var renameBody = await c.req.json();
+    // Input validation
+    var renameValid = validate(renameBody, {
+      newSku: { required: true, type: "string", minLen: 1, maxLen: 100 },
+    });
+    if (!renameValid.ok) {
+      return c.json({ error: renameValid.errors[0] || "Novo SKU obrigatório." }, 400);
+    }
+    var newSku = renameValid.sanitized.newSku || "";
+    if (!newSku.trim()) return c.json({ error: "Novo SKU obrigatório." }, 400);
+    const trimmed = newSku.trim();
+    if (trimmed === oldSku) return c.json({ error: "SKU igual ao atual." }, 400);
+
+    const { data: existing } = await supabaseAdmin.from("produtos").select("sku").eq("sku", trimmed).limit(1);
+    if (existing && existing.length > 0) {
+      return c.json({ error: "SKU ja existe no banco." }, 409);
+    }
+
+    const { error: dbErr } = await supabaseAdmin.from("produtos").update({ sku: trimmed }).eq("sku", oldSku);
+    if (dbErr) {
+      console.error("Error renaming SKU in DB:", dbErr.message);
+      return c.json({ error: "Erro ao renomear SKU no banco." }, 500);
+    }
+
+    try {
       const meta = await kv.get(`produto_meta:${oldSku}`);
       if (meta) {
         await kv.set(`produto_meta:${trimmed}`, { ...meta, sku: trimmed });
@@ -9799,18 +11791,98 @@ async function getPriceConfigCached(): Promise<any> {
   return parsed;
 }
 
-// ─── Helper: make authenticated SIGE API call (with auto-retry on 401) ───
-async function sigeAuthFetch(method: string, path: string, body?: any): Promise<{ ok: boolean; status: number; data: any }> {
-  const config = await getSigeConfig();
-  if (!config) {
-    console.warn("sigeAuthFetch: SIGE config not found, returning soft error for " + method + " " + path);
-    return { ok: false, status: 503, data: { error: "Configuração SIGE não encontrada." } };
+// ─── Per-customer price tiers (B2B) ───
+// KV: price_tier_groups → [{ id, name, tier, description, createdAt }]
+//     user_profile:<userId> → profile.priceTier ("v1".."v3") and/or profile.priceGroupId
+// Resolution: customer tier → group tier → price_config.tier (global).
+// Only requests carrying X-User-Token are resolved per customer; KV price caches
+// (sige_price_*) always hold the global-tier price and the customer tier is applied
+// on the way out, so a cached entry never carries another customer's price.
+var CUSTOMER_PRICE_TIERS = ["v1", "v2", "v3"];
+
+async function _getPriceTierGroups(): Promise<any[]> {
+  var cached = memGet("_price_tier_groups");
+  if (cached) return cached;
+  var raw = await kv.get("price_tier_groups");
+  var parsed = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : [];
+  var groups = Array.isArray(parsed) ? parsed : [];
+  memSet("_price_tier_groups", groups, 30000);
+  return groups;
+}
+
+function _customerTierFromProfile(profile: any, groups: any[]): { tier: string; source: "customer" | "group"; groupId: string | null; groupName: string | null } | null {
+  if (!profile) return null;
+  if (profile.priceTier && CUSTOMER_PRICE_TIERS.indexOf(profile.priceTier) !== -1) {
+    return { tier: profile.priceTier, source: "customer", groupId: null, groupName: null };
   }
-  let tokenData = await getSigeToken();
-  if (!tokenData || !tokenData.token) {
-    // Try relogin before giving up — token may have expired while instance was recycled
-    console.warn("sigeAuthFetch: no SIGE token, attempting relogin for " + method + " " + path);
-    var emergencyToken = await sigeReLogin();
+  if (profile.priceGroupId) {
+    var group = groups.find(function (g: any) { return g && g.id === profile.priceGroupId; });
+    if (group && CUSTOMER_PRICE_TIERS.indexOf(group.tier) !== -1) {
+      return { tier: group.tier, source: "group", groupId: group.id, groupName: group.name || "" };
+    }
+  }
+  return null;
+}
+
+// Customer tier by userId (60s mem cache; cleared by the admin tier routes)
+async function _getCustomerPriceTier(userId: string): Promise<{ tier: string; source: "customer" | "group"; groupId: string | null; groupName: string | null } | null> {
+  var memKey = "_cust_price_tier:" + userId;
+  var cached = memGet(memKey);
+  if (cached) return cached.value;
+  var raw = await kv.get("user_profile:" + userId);
+  var profile = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : null;
+  var resolved = _customerTierFromProfile(profile, await _getPriceTierGroups());
+  memSet(memKey, { value: resolved }, 60000);
+  return resolved;
+}
+
+// Customer tier for the current request, or null when the global tier applies.
+// Token → tier lookups are mem-cached for 60s so price-heavy pages don't hit auth per SKU.
+async function _resolveRequestPriceTier(c: any): Promise<string | null> {
+  var userToken = c.req.header("X-User-Token");
+  if (!userToken) return null;
+  var tokKey = "_price_tier_tok:" + userToken.slice(-48);
+  var hit = memGet(tokKey);
+  var customer: any = null;
+  if (hit) {
+    customer = hit.value;
+  } else {
+    var userId = await getAuthUserId(c.req.raw);
+    customer = userId ? await _getCustomerPriceTier(userId) : null;
+    memSet(tokKey, { value: customer }, 60000);
+  }
+  if (!customer) return null;
+  c.header("Vary", "X-User-Token");
+  return customer.tier;
+}
+
+// Drop every cached customer/token tier lookup in this isolate (after admin edits)
+function _clearCustomerPriceTierCache(): void {
+  for (var key in _memCache) {
+    if (key.indexOf("_cust_price_tier:") === 0 || key.indexOf("_price_tier_tok:") === 0) delete _memCache[key];
+  }
+}
+
+// Re-price a public price entry for a customer tier (custom overrides apply to everyone)
+function _applyPriceTier(entry: any, tier: string): any {
+  if (!entry || !entry.found || entry.source === "custom") return entry;
+  var tierPrice = entry[tier];
+  if (tierPrice === undefined || tierPrice === null) return entry;
+  return { ...entry, price: tierPrice, tier: tier, customerTier: true };
+}
+
+// ─── Helper: make authenticated SIGE API call (with auto-retry on 401) ───
+async function sigeAuthFetch(method: string, path: string, body?: any): Promise<{ ok: boolean; status: number; data: any }> {
+  const config = await getSigeConfig();
+  if (!config) {
+    console.warn("sigeAuthFetch: SIGE config not found, returning soft error for " + method + " " + path);
+    return { ok: false, status: 503, data: { error: "Configuração SIGE não encontrada." } };
+  }
+  let tokenData = await getSigeToken();
+  if (!tokenData || !tokenData.token) {
+    // Try relogin before giving up — token may have expired while instance was recycled
+    console.warn("sigeAuthFetch: no SIGE token, attempting relogin for " + method + " " + path);
+    var emergencyToken = await sigeReLogin();
     if (emergencyToken) {
       tokenData = { token: emergencyToken };
     } else {
@@ -11484,11 +13556,24 @@ app.get(BASE + "/sige/dep/:endpoint{.+}", async (c) => {
 // ─── SALDO PÚBLICO (Product Stock via SIGE) ──────────
 // ═══════════════════════════════════════════════════════
 
+// Runs after the saldo handler: units held by pending checkouts come off disponivel.
+// The cached SIGE balance stays raw — reservations change much faster than it.
+async function _withStockReservations(c: any, next: () => Promise<void>) {
+  await next();
+  if (c.res.status !== 200) return;
+  var data = await c.res.clone().json().catch(function () { return null; });
+  if (!data || !data.found || !data.sku) return;
+  if (data.cached === false) _queueProductAlertChecks([String(data.sku)]);
+  var held = await _stockHeldBySku([String(data.sku)]);
+  if (!held[data.sku]) return;
+  c.res = new Response(JSON.stringify(applyReservations(data, held[data.sku])), { status: 200, headers: c.res.headers });
+}
+
 // GET /produtos/saldo/:sku — public endpoint to get stock balance from SIGE
 // Uses the stored admin SIGE JWT, no user auth required (only publicAnonKey)
 // Caches in KV for 5 minutes to avoid hammering the SIGE API
 // Strategy: try direct balance call with SKU as codProduto, fall back to search
-app.get(BASE + "/produtos/saldo/:sku", async (c) => {
+app.get(BASE + "/produtos/saldo/:sku", _withStockReservations, async (c) => {
   const skuParam = decodeURIComponent(c.req.param("sku")).trim().substring(0, 100);
   try {
     const sku = skuParam;
@@ -12192,6 +14277,7 @@ app.post(BASE + "/produtos/saldos", async (c) => {
               }
             }
           }
+          _queueProductAlertChecks(results.filter(function (r: any) { return r && r.found; }).map(function (r: any) { return r.sku; }));
         })();
       }
     }
@@ -12199,7 +14285,10 @@ app.post(BASE + "/produtos/saldos", async (c) => {
     const elapsed = Date.now() - t0;
     var timedOutCount = results.filter(function(r) { return r.timedOut; }).length;
     // Saldo bulk processed
-    return c.json({ results: results, total: results.length, partial: timedOutCount > 0 });
+    // Checkout reservations come off disponivel (the cached SIGE balance stays raw)
+    var bulkHeld = await _stockHeldBySku(skus);
+    var reservedResults = results.map(function (r: any) { return r && r.sku ? applyReservations(r, bulkHeld[r.sku] || 0) : r; });
+    return c.json({ results: reservedResults, total: reservedResults.length, partial: timedOutCount > 0 });
   } catch (e: any) {
     console.error("[Saldo bulk] Exception:", e);
     return c.json({ error: "Erro ao consultar saldo.", results: [], total: 0 });
@@ -12475,6 +14564,7 @@ app.post(BASE + "/produtos/stock-scan", async (c) => {
     }
 
     await kv.del("stock_summary_cache");
+    _queueProductAlertChecks(results.filter((r) => r.found).map((r) => r.sku));
     const found = results.filter((r) => r.found).length;
     // StockScan batch complete
     return c.json({ scanned: results.length, found, remaining: pendingSkus.length - toProcess.length, totalPending: pendingSkus.length, results });
@@ -12724,6 +14814,7 @@ app.post(BASE + "/produtos/sige-sync", async (c) => {
         }));
       }
       // SigeSync balances fetched
+      _queueProductAlertChecks(newMaps.map((m) => m.sku));
     }
     await kv.del("stock_summary_cache");
     return c.json({
@@ -12737,6 +14828,304 @@ app.post(BASE + "/produtos/sige-sync", async (c) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════
+// ─── SCHEDULED SIGE CATALOG SYNC (cron + change journal) ──
+// Walks the store catalog in batches (sige_catalog_sync.ts). Balances and
+// prices go through /produtos/saldos and /produtos/precos-bulk with
+// force=true, so SIGE parsing, mapping and cache writes stay in one place.
+// ═══════════════════════════════════════════════════════
+
+// A run makes up to 4 SIGE-bound calls per 50 SKUs; the lock outlives the slowest one
+var SIGE_SYNC_LOCK_TTL_MS = 10 * 60 * 1000;
+var _sigeSyncRunning = false;
+
+// Store products (sku, titulo) ordered by SKU — the cursor walks this list
+async function _sigeSyncLocalProducts(): Promise<Array<{ sku: string; titulo: string }>> {
+  var out: Array<{ sku: string; titulo: string }> = [];
+  for (var off = 0; ; off += 1000) {
+    var { data, error } = await supabaseAdmin.from("produtos").select("sku, titulo").order("sku", { ascending: true }).range(off, off + 999);
+    if (error) throw new Error("produtos: " + error.message);
+    var rows = (data || []) as Array<{ sku: string; titulo: string }>;
+    for (var i = 0; i < rows.length; i++) if (rows[i].sku) out.push({ sku: rows[i].sku, titulo: rows[i].titulo || "" });
+    if (rows.length < 1000) break;
+  }
+  return out;
+}
+
+// Current KV values by key (order-safe, parsed)
+async function _sigeSyncKvSnapshot(keys: string[]): Promise<Record<string, any>> {
+  var out: Record<string, any> = {};
+  if (keys.length === 0) return out;
+  var res = await supabaseAdmin.from("kv_store_b7b07654").select("key, value").in("key", keys);
+  var rows = (res.data || []) as Array<{ key: string; value: any }>;
+  for (var i = 0; i < rows.length; i++) {
+    var v = rows[i].value;
+    if (typeof v === "string") { try { v = JSON.parse(v); } catch (_e) { v = null; } }
+    if (rows[i].key) out[rows[i].key] = v;
+  }
+  return out;
+}
+
+// Internal call to a bulk route with the cache bypassed
+async function _sigeSyncCall(route: string, skus: string[]): Promise<{ results: any[]; error?: string }> {
+  try {
+    var res = await app.request(BASE + route, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ skus: skus, force: true }),
+    });
+    var data: any = await res.json().catch(function () { return null; });
+    if (!res.ok || !data || data.error) return { results: [], error: (data && data.error) || ("HTTP " + res.status) };
+    return { results: Array.isArray(data.results) ? data.results : [] };
+  } catch (e: any) {
+    return { results: [], error: String((e && e.message) || e) };
+  }
+}
+
+function _sigeSyncItems(d: any): any[] {
+  if (Array.isArray(d)) return d;
+  if (d && Array.isArray(d.dados)) return d.dados;
+  if (d && Array.isArray(d.data)) return d.data;
+  if (d && Array.isArray(d.items)) return d.items;
+  if (d && Array.isArray(d.content)) return d.content;
+  return [];
+}
+
+/**
+ * One sync step under the durable lock. null when another isolate holds it,
+ * or (cron) when the interval is not due anymore once the lock is ours.
+ */
+async function _runSigeCatalogSync(trigger: SigeSyncTrigger): Promise<SigeSyncRun | null> {
+  if (_sigeSyncRunning) return null;
+  var owner = await kvAtomic.tryLock(SIGE_SYNC_STATE_KEY, SIGE_SYNC_LOCK_TTL_MS);
+  if (!owner) return null;
+  _sigeSyncRunning = true;
+  try {
+    var settings = parseSyncSettings(await kv.get(SIGE_SYNC_SETTINGS_KEY));
+    var state = parseSyncState(await kv.get(SIGE_SYNC_STATE_KEY));
+    if (trigger === "cron" && !syncIsDue(settings, state, Date.now())) return null;
+    return await _sigeCatalogSyncStep(trigger, settings, state);
+  } finally {
+    _sigeSyncRunning = false;
+    await kvAtomic.unlock(SIGE_SYNC_STATE_KEY, owner);
+  }
+}
+
+async function _sigeCatalogSyncStep(trigger: SigeSyncTrigger, settings: SigeSyncSettings, state: SigeSyncState): Promise<SigeSyncRun> {
+  var startedAt = Date.now();
+  var runId = "sync_" + startedAt + "_" + crypto.randomUUID().slice(0, 8);
+  var run: SigeSyncRun = {
+    id: runId, trigger: trigger, status: "ok", startedAt: startedAt, finishedAt: startedAt,
+    skuFrom: state.skuOffset, skus: 0, totalSkus: 0, balances: 0, prices: 0, notFound: 0,
+    catalogItems: 0, newMappings: 0, changes: 0, failures: [],
+  };
+  var changes: SigeSyncChange[] = [];
+  var touched: string[] = [];
+  var stockMoved = false;
+  function addChange(type: SigeSyncChangeType, sku: string, titulo: string, before: number | null, after: number | null, inCatalog?: boolean) {
+    var ch: SigeSyncChange = { id: runId + "_" + changes.length, runId: runId, at: Date.now(), type: type, sku: sku, titulo: titulo, before: before, after: after };
+    if (inCatalog !== undefined) ch.inCatalog = inCatalog;
+    changes.push(ch);
+  }
+
+  try {
+    if (!(await getSigeConfig())) {
+      run.status = "skipped";
+      run.error = "SIGE nao configurado.";
+    } else if (!(await getSigeToken())) {
+      run.error = "SIGE desconectado (sem token).";
+    } else {
+      var local = await _sigeSyncLocalProducts();
+      run.totalSkus = local.length;
+      var titleBySku: Record<string, string> = {};
+      var skuByCode: Record<string, string> = {};
+      for (var li = 0; li < local.length; li++) {
+        titleBySku[local[li].sku] = local[li].titulo;
+        skuByCode[local[li].sku.toLowerCase()] = local[li].sku;
+      }
+
+      // 1) One page of the SIGE catalog: unseen codes → journal; store SKUs without sige_map_ get one
+      var page = await sigeAuthFetch("GET", "/product?limit=" + SIGE_SYNC_PRODUCT_PAGE + "&offset=" + state.productOffset);
+      if (!page.ok) {
+        run.failures.push({ sku: "", stage: "catalog", error: "SIGE /product HTTP " + page.status });
+      } else {
+        var items = _sigeSyncItems(page.data);
+        run.catalogItems = items.length;
+        var seen = newCatalogCodes(parseSyncList<string>(await kv.get(SIGE_SYNC_KNOWN_CODES_KEY)), items);
+        if (seen.fresh.length > 0) {
+          await kv.set(SIGE_SYNC_KNOWN_CODES_KEY, seen.known);
+          var matchedSkus: Record<string, any> = {};
+          for (var fi = 0; fi < seen.fresh.length; fi++) {
+            var code = sigeProductCode(seen.fresh[fi]);
+            var localSku = skuByCode[code.toLowerCase()] || "";
+            if (state.catalogBaseline) addChange("new_sku", code, sigeProductTitle(seen.fresh[fi]), null, null, !!localSku);
+            if (localSku) matchedSkus[localSku] = seen.fresh[fi];
+          }
+          var mapKeys = Object.keys(matchedSkus).map(function (s) { return "sige_map_" + s; });
+          var existingMaps = await _sigeSyncKvSnapshot(mapKeys);
+          for (var msku in matchedSkus) {
+            if (existingMaps["sige_map_" + msku]) continue;
+            var mp = matchedSkus[msku];
+            await kv.set("sige_map_" + msku, JSON.stringify({
+              sku: msku, sigeId: String(mp.id || mp.codProduto || ""), codProduto: String(mp.codProduto || ""),
+              descricao: sigeProductTitle(mp), matchType: "exact_cod", matchedAt: Date.now(),
+            }));
+            run.newMappings++;
+          }
+        }
+        if (items.length < SIGE_SYNC_PRODUCT_PAGE) {
+          state.productOffset = 1;
+          state.catalogBaseline = true;
+        } else {
+          state.productOffset += SIGE_SYNC_PRODUCT_PAGE;
+        }
+      }
+
+      // 2) Balances and list prices for the next slice of store SKUs
+      var slice = nextSkuBatch(local.map(function (p) { return p.sku; }), state.skuOffset, settings.batchSize);
+      run.skuFrom = slice.start;
+      run.skus = slice.batch.length;
+      for (var ci = 0; ci < slice.batch.length; ci += SIGE_SYNC_CALL_SIZE) {
+        var chunk = slice.batch.slice(ci, ci + SIGE_SYNC_CALL_SIZE);
+        var before = await _sigeSyncKvSnapshot(
+          chunk.map(function (s) { return "sige_balance_" + s; }).concat(chunk.map(function (s) { return "sige_price_" + s; })),
+        );
+
+        var bal = await _sigeSyncCall("/produtos/saldos", chunk);
+        if (bal.error) {
+          for (var be = 0; be < chunk.length; be++) run.failures.push({ sku: chunk[be], stage: "stock", error: bal.error });
+        }
+        for (var bi = 0; bi < bal.results.length; bi++) {
+          var br = bal.results[bi];
+          if (!br || !br.sku) continue;
+          if (br.timedOut || br.error || br._sigeDown) {
+            run.failures.push({ sku: br.sku, stage: "stock", error: br.error || "Tempo esgotado no SIGE." });
+          } else if (!br.found) {
+            run.notFound++;
+          } else {
+            run.balances++;
+            var sc = stockChange(before["sige_balance_" + br.sku], br);
+            if (sc) {
+              addChange(sc.type, br.sku, titleBySku[br.sku] || "", sc.before, sc.after);
+              touched.push(br.sku);
+              stockMoved = true;
+            }
+          }
+        }
+
+        var pr = await _sigeSyncCall("/produtos/precos-bulk", chunk);
+        if (pr.error) {
+          for (var pe = 0; pe < chunk.length; pe++) run.failures.push({ sku: chunk[pe], stage: "price", error: pr.error });
+        }
+        for (var pi = 0; pi < pr.results.length; pi++) {
+          var prr = pr.results[pi];
+          if (!prr || !prr.sku) continue;
+          if (prr.error || prr._sigeDown) {
+            run.failures.push({ sku: prr.sku, stage: "price", error: prr.error || "SIGE indisponivel." });
+          } else if (prr.found) {
+            run.prices++;
+            var pc = priceChange(before["sige_price_" + prr.sku], prr);
+            if (pc) {
+              addChange("price_change", prr.sku, titleBySku[prr.sku] || "", pc.before, pc.after);
+              touched.push(prr.sku);
+            }
+          }
+        }
+      }
+      state.skuOffset = slice.nextOffset;
+      if (slice.wrapped) state.passes++;
+
+      // 3) Warm what the storefront reads next: product pages, stock summary, produto_meta index
+      for (var ti = 0; ti < touched.length; ti++) _productDetailCache.delete(touched[ti]);
+      if (stockMoved || run.newMappings > 0) await kv.del("stock_summary_cache");
+      await getAllProductMetas();
+    }
+  } catch (e: any) {
+    console.error("[SigeCatalogSync] Exception:", e);
+    run.error = String((e && e.message) || e);
+  }
+
+  run.finishedAt = Date.now();
+  run.changes = changes.length;
+  run.failures = capFailures(run.failures);
+  if (run.status !== "skipped") run.status = runStatus(run);
+  await kv.set(SIGE_SYNC_STATE_KEY, recordRunOutcome(state, run));
+  await kv.set(SIGE_SYNC_RUNS_KEY, appendRun(parseSyncList<SigeSyncRun>(await kv.get(SIGE_SYNC_RUNS_KEY)), run));
+  if (changes.length > 0) {
+    await kv.set(SIGE_SYNC_JOURNAL_KEY, appendJournal(parseSyncList<SigeSyncChange>(await kv.get(SIGE_SYNC_JOURNAL_KEY)), changes));
+  }
+  if (run.status !== "ok" && run.status !== "skipped") {
+    console.warn("[SigeCatalogSync] Run " + runId + " " + run.status + ": " + (run.error || run.failures.length + " failure(s)"));
+  }
+  return run;
+}
+
+async function _sigeSyncOverview(): Promise<{ settings: SigeSyncSettings; state: SigeSyncState; runs: SigeSyncRun[]; health: SigeSyncHealth }> {
+  var settings = parseSyncSettings(await kv.get(SIGE_SYNC_SETTINGS_KEY));
+  var state = parseSyncState(await kv.get(SIGE_SYNC_STATE_KEY));
+  var runs = parseSyncList<SigeSyncRun>(await kv.get(SIGE_SYNC_RUNS_KEY));
+  return { settings: settings, state: state, runs: runs, health: syncHealth(settings, state, runs[0] || null, Date.now()) };
+}
+
+// GET /admin/sige-sync — settings, cursors, health and recent runs
+app.get(BASE + "/admin/sige-sync", async (c) => {
+  try {
+    var ov = await _sigeSyncOverview();
+    return c.json({ ...ov, runs: ov.runs.slice(0, 20), running: _sigeSyncRunning });
+  } catch (e: any) {
+    console.error("[SigeCatalogSync] Overview error:", e);
+    return c.json({ error: "Erro ao carregar sincronizacao agendada." }, 500);
+  }
+});
+
+// PUT /admin/sige-sync/settings — enable/disable, interval, batch size
+app.put(BASE + "/admin/sige-sync/settings", async (c) => {
+  try {
+    var body = await c.req.json().catch(function () { return null; });
+    var ssValid = validate(body, {
+      enabled: { type: "boolean" },
+      intervalMinutes: { type: "number" },
+      batchSize: { type: "number" },
+    });
+    if (!ssValid.ok) return c.json({ error: ssValid.errors[0] || "Dados invalidos." }, 400);
+    var merged = mergeSyncSettings(parseSyncSettings(await kv.get(SIGE_SYNC_SETTINGS_KEY)), body);
+    if (!merged.settings) return c.json({ error: merged.error }, 400);
+    await kv.set(SIGE_SYNC_SETTINGS_KEY, merged.settings);
+    return c.json({ ok: true, settings: merged.settings });
+  } catch (e: any) {
+    console.error("[SigeCatalogSync] Settings error:", e);
+    return c.json({ error: "Erro ao salvar configuracao." }, 500);
+  }
+});
+
+// POST /admin/sige-sync/run — one step now (runs in the background; poll GET /admin/sige-sync)
+app.post(BASE + "/admin/sige-sync/run", async (c) => {
+  if (_sigeSyncRunning) return c.json({ error: "Sincronizacao ja em andamento." }, 409);
+  _runSigeCatalogSync("manual").then(function (run) {
+    if (!run) console.warn("[SigeCatalogSync] Manual run skipped: lock held by another instance.");
+  }).catch(function (e) {
+    console.error("[SigeCatalogSync] Manual run error:", e);
+  });
+  return c.json({ ok: true, started: true }, 202);
+});
+
+// GET /admin/sige-sync/journal?type=&q=&limit= — change journal, newest first
+app.get(BASE + "/admin/sige-sync/journal", async (c) => {
+  try {
+    var type = c.req.query("type") || "";
+    if (type && ["new_sku", "price_change", "out_of_stock", "back_in_stock"].indexOf(type) < 0) {
+      return c.json({ error: "Tipo invalido." }, 400);
+    }
+    var limit = Math.min(Math.max(Number(c.req.query("limit")) || 200, 1), 1000);
+    var journal = parseSyncList<SigeSyncChange>(await kv.get(SIGE_SYNC_JOURNAL_KEY));
+    var entries = filterJournal(journal, { type: type, sku: c.req.query("q") || "", limit: limit });
+    return c.json({ entries: entries, total: journal.length });
+  } catch (e: any) {
+    console.error("[SigeCatalogSync] Journal error:", e);
+    return c.json({ error: "Erro ao carregar diario de mudancas." }, 500);
+  }
+});
+
 // ═══════════════════════════════════════════════════════
 // ─── PREÇOS (Price from SIGE + custom override) ──────
 // ═══════════════════════════════════════════════════════
@@ -12799,6 +15188,122 @@ app.put(BASE + "/price-config", async (c) => {
   }
 });
 
+// ─── B2B price tiers: groups + per-customer assignment ───
+
+// GET /user/price-tier — tier resolved for the logged-in customer (frontend decides
+// whether price calls must carry X-User-Token)
+app.get(BASE + "/user/price-tier", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var customer = await _getCustomerPriceTier(userId);
+    if (!customer) return c.json({ personalized: false, tier: null, source: "global", groupName: null });
+    return c.json({ personalized: true, tier: customer.tier, source: customer.source, groupName: customer.groupName });
+  } catch (e: any) {
+    console.error("[PriceTier] user GET exception:", e);
+    return c.json({ error: "Erro ao buscar tabela de preco." }, 500);
+  }
+});
+
+// GET /admin/price-tiers — groups + global tier + how many customers use each group
+app.get(BASE + "/admin/price-tiers", async (c) => {
+  try {
+    var groups = await _getPriceTierGroups();
+    var cfg = await getPriceConfigCached();
+    var profilesRaw = await kv.getByPrefix("user_profile:");
+    var groupCounts: Record<string, number> = {};
+    var customerOverrides = 0;
+    if (Array.isArray(profilesRaw)) {
+      for (var i = 0; i < profilesRaw.length; i++) {
+        try {
+          var p = typeof profilesRaw[i] === "string" ? JSON.parse(profilesRaw[i] as string) : profilesRaw[i];
+          if (!p) continue;
+          if (p.priceTier) customerOverrides++;
+          if (p.priceGroupId) groupCounts[p.priceGroupId] = (groupCounts[p.priceGroupId] || 0) + 1;
+        } catch { /* skip invalid profile */ }
+      }
+    }
+    return c.json({
+      groups: groups.map(function (g: any) { return { ...g, customerCount: groupCounts[g.id] || 0 }; }),
+      globalTier: cfg.tier || "v2",
+      tiers: CUSTOMER_PRICE_TIERS,
+      customerOverrides: customerOverrides,
+    });
+  } catch (e: any) {
+    console.error("[PriceTier] admin GET exception:", e);
+    return c.json({ error: "Erro ao buscar tabelas de preco." }, 500);
+  }
+});
+
+// PUT /admin/price-tiers/groups — replace the customer group list
+app.put(BASE + "/admin/price-tiers/groups", async (c) => {
+  try {
+    var body = await c.req.json();
+    if (!body || !Array.isArray(body.groups)) return c.json({ error: "Lista de grupos obrigatoria." }, 400);
+    if (body.groups.length > 50) return c.json({ error: "Maximo de 50 grupos." }, 400);
+    var existing = await _getPriceTierGroups();
+    var seenIds: Record<string, boolean> = {};
+    var groups: any[] = [];
+    for (var i = 0; i < body.groups.length; i++) {
+      var g = body.groups[i] || {};
+      var name = sanitizeInput(String(g.name || "")).trim().substring(0, 60);
+      if (!name) return c.json({ error: "Todo grupo precisa de um nome." }, 400);
+      if (CUSTOMER_PRICE_TIERS.indexOf(g.tier) === -1) return c.json({ error: "Tabela invalida para o grupo \"" + name + "\"." }, 400);
+      var id = typeof g.id === "string" && /^[a-z0-9-]{1,40}$/.test(g.id) ? g.id : "grp-" + crypto.randomUUID().substring(0, 8);
+      if (seenIds[id]) continue;
+      seenIds[id] = true;
+      var prev = existing.find(function (e: any) { return e.id === id; });
+      groups.push({
+        id: id,
+        name: name,
+        tier: g.tier,
+        description: sanitizeInput(String(g.description || "")).trim().substring(0, 200),
+        createdAt: prev && prev.createdAt ? prev.createdAt : Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+    await kv.set("price_tier_groups", JSON.stringify(groups));
+    memClear("_price_tier_groups");
+    _clearCustomerPriceTierCache();
+    return c.json({ groups: groups });
+  } catch (e: any) {
+    console.error("[PriceTier] groups PUT exception:", e);
+    return c.json({ error: "Erro ao salvar grupos de clientes." }, 500);
+  }
+});
+
+// PUT /admin/clients/:userId/price-tier — assign tier and/or group to a customer
+app.put(BASE + "/admin/clients/:userId/price-tier", async (c) => {
+  try {
+    var targetId = c.req.param("userId");
+    var body = await c.req.json();
+    var tier = body && typeof body.tier === "string" ? body.tier : "";
+    var groupId = body && typeof body.groupId === "string" ? body.groupId : "";
+    if (tier && CUSTOMER_PRICE_TIERS.indexOf(tier) === -1) return c.json({ error: "Tabela de preco invalida." }, 400);
+    if (groupId) {
+      var groups = await _getPriceTierGroups();
+      if (!groups.some(function (g: any) { return g.id === groupId; })) return c.json({ error: "Grupo nao encontrado." }, 404);
+    }
+    var raw = await kv.get("user_profile:" + targetId);
+    if (!raw) return c.json({ error: "Cliente nao encontrado." }, 404);
+    var profile = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (tier) profile.priceTier = tier; else delete profile.priceTier;
+    if (groupId) profile.priceGroupId = groupId; else delete profile.priceGroupId;
+    profile.priceTierUpdatedAt = Date.now();
+    await kv.set("user_profile:" + targetId, JSON.stringify(profile));
+    _clearCustomerPriceTierCache();
+    return c.json({
+      id: targetId,
+      priceTier: profile.priceTier || null,
+      priceGroupId: profile.priceGroupId || null,
+      effective: _customerTierFromProfile(profile, await _getPriceTierGroups()),
+    });
+  } catch (e: any) {
+    console.error("[PriceTier] client PUT exception:", e);
+    return c.json({ error: "Erro ao salvar tabela do cliente." }, 500);
+  }
+});
+
 // PUT /produtos/preco/:sku — set custom price for a product (admin)
 app.put(BASE + "/produtos/preco/:sku", async (c) => {
   try {
@@ -12819,6 +15324,7 @@ app.put(BASE + "/produtos/preco/:sku", async (c) => {
     // Also clear old key format and cache
     await kv.del("product_price_" + sku);
     await kv.del("sige_price_" + sku);
+    _queueProductAlertChecks([sku]);
     // Custom price set
     return c.json({ ok: true, sku, price: customPrice });
   } catch (e: any) {
@@ -12880,6 +15386,13 @@ app.get(BASE + "/produtos/preco/:sku", async (c) => {
     const sku = decodeURIComponent(c.req.param("sku")).trim().substring(0, 100);
     if (!sku) return c.json({ error: "SKU obrigatório.", sku: "", found: false, price: null, v1: null, v2: null, v3: null, tier: "v2", showPrice: true });
 
+    // B2B customer tier: resolve the public (global-tier) entry, then re-price it
+    var customerTier = await _resolveRequestPriceTier(c);
+    if (customerTier) {
+      var publicRes = await app.request(BASE + "/produtos/preco/" + encodeURIComponent(sku));
+      return c.json(_applyPriceTier(await publicRes.json(), customerTier));
+    }
+
     // 0. Load global price config (mem-cached)
     const cfg = await getPriceConfigCached();
     const selectedTier: string = cfg.tier || "v2";
@@ -13223,6 +15736,7 @@ app.get(BASE + "/produtos/preco/:sku", async (c) => {
 
     // Price final result computed
     await kv.set(cacheKey, JSON.stringify(result));
+    if (result.found) _queueProductAlertChecks([sku]);
     return c.json({ ...result, cached: false });
   } catch (e: any) {
     console.error("[Price] Exception for SKU " + (typeof sku === "string" ? sku : "?") + ":", e);
@@ -13269,6 +15783,9 @@ app.post(BASE + "/produtos/precos-bulk", async (c) => {
       return c.json({ error: "Máximo 50 SKUs por requisição.", results: [], config: null });
     }
 
+    // Force-refresh: bypass the SIGE price cache when force=true (scheduled catalog sync)
+    var forcePrices = body.force === true;
+
     // PriceBulk fetching
 
     // 0. Load global price config once (in-memory cached)
@@ -13334,7 +15851,7 @@ app.post(BASE + "/produtos/precos-bulk", async (c) => {
     for (let i = 0; i < skus.length; i++) {
       // Cache �� lookup by exact key (order-safe)
       var cacheKvKey = "sige_price_" + skus[i];
-      let raw = kvBulkMap[cacheKvKey];
+      let raw = forcePrices ? null : kvBulkMap[cacheKvKey];
       if (raw) {
         if (typeof raw === "object" && raw !== null && (raw as any).value !== undefined) {
           raw = (raw as any).value;
@@ -13656,6 +16173,7 @@ app.post(BASE + "/produtos/precos-bulk", async (c) => {
                 }
               }
             }
+            _queueProductAlertChecks(kvWritesBatch.filter(function (w) { return w.key.indexOf("sige_price_") === 0; }).map(function (w) { return w.key.substring(11); }));
           })();
         }
       }
@@ -13663,6 +16181,14 @@ app.post(BASE + "/produtos/precos-bulk", async (c) => {
 
     const elapsed = Date.now() - t0;
     // PriceBulk done
+    // B2B customer tier: re-price on the way out (KV cache entries above stay global-tier)
+    var bulkCustomerTier = await _resolveRequestPriceTier(c);
+    if (bulkCustomerTier) {
+      return c.json({
+        results: results.map(function (r: any) { return _applyPriceTier(r, bulkCustomerTier as string); }),
+        config: { ...configOut, tier: bulkCustomerTier },
+      });
+    }
     return c.json({ results: results, config: configOut });
   } catch (e: any) {
     console.error("[PriceBulk] Exception:", e);
@@ -13747,24 +16273,11 @@ app.delete(BASE + "/price-cache", async (c) => {
 // Server-side price validation — prevents price tampering
 // by verifying items against cached/custom prices in KV.
 // ═══════════════════════════════════════════════════════════
-async function _validatePaymentPrices(
-  items: Array<{ item_id?: string; sku?: string; price_cents: number; quantity?: number; unit_price?: number }>,
-  allowedDiscountPercent: number
-): Promise<{ ok: boolean; expectedTotalCents: number; clientTotalCents: number; verifiedCount: number; totalItems: number; flaggedItems: string[] }> {
-  var flaggedItems: string[] = [];
-  var expectedTotalCents = 0;
-  var clientTotalCents = 0;
-  var verifiedCount = 0;
-  var totalItems = items.length;
-
-  var skus: string[] = [];
-  for (var vi = 0; vi < items.length; vi++) {
-    var itemSku = items[vi].sku || items[vi].item_id || "";
-    if (itemSku) skus.push(itemSku);
-  }
-  if (skus.length === 0) {
-    return { ok: true, expectedTotalCents: 0, clientTotalCents: 0, verifiedCount: 0, totalItems: totalItems, flaggedItems: [] };
-  }
+// Server price (cents) per SKU: price_custom_ → buyer's B2B tier → sige_price_ base/global tier.
+// SKUs without any cached price are left out of the map.
+async function _loadServerPriceCents(skus: string[], userId?: string | null): Promise<Record<string, number>> {
+  var result: Record<string, number> = {};
+  if (skus.length === 0) return result;
 
   var priceKeys: string[] = [];
   for (var ski = 0; ski < skus.length; ski++) {
@@ -13789,15 +16302,11 @@ async function _validatePaymentPrices(
   var pcRaw2 = await kv.get("price_config");
   var priceConfig2 = pcRaw2 ? (typeof pcRaw2 === "string" ? JSON.parse(pcRaw2) : pcRaw2) : {};
   var selectedTier2 = priceConfig2.tier || "v2";
+  // B2B: validate against the buyer's own tier when one is assigned
+  var customerTier2 = userId ? await _getCustomerPriceTier(userId) : null;
 
-  for (var ii = 0; ii < items.length; ii++) {
-    var pItem = items[ii];
-    var pSku = pItem.sku || pItem.item_id || "";
-    var pQty = Number(pItem.quantity || 1);
-    var clientPriceCents = pItem.price_cents !== undefined ? Number(pItem.price_cents) : Math.round((pItem.unit_price || 0) * 100);
-    clientTotalCents += clientPriceCents * pQty;
-    if (!pSku) continue;
-
+  for (var si = 0; si < skus.length; si++) {
+    var pSku = skus[si];
     var serverPriceCents: number | null = null;
     var customEntry = priceKvMap["price_custom_" + pSku];
     if (customEntry && customEntry.price) {
@@ -13805,7 +16314,9 @@ async function _validatePaymentPrices(
     }
     if (serverPriceCents === null) {
       var sigeEntry = priceKvMap["sige_price_" + pSku];
-      if (sigeEntry && sigeEntry.price !== undefined && sigeEntry.price !== null) {
+      if (customerTier2 && sigeEntry && sigeEntry[customerTier2.tier] !== undefined && sigeEntry[customerTier2.tier] !== null) {
+        serverPriceCents = Math.round(Number(sigeEntry[customerTier2.tier]) * 100);
+      } else if (sigeEntry && sigeEntry.price !== undefined && sigeEntry.price !== null) {
         serverPriceCents = Math.round(Number(sigeEntry.price) * 100);
       } else if (sigeEntry) {
         var tierPrice = sigeEntry[selectedTier2 || "v2"];
@@ -13814,8 +16325,50 @@ async function _validatePaymentPrices(
         }
       }
     }
+    if (serverPriceCents !== null && serverPriceCents > 0) result[pSku] = serverPriceCents;
+  }
+  return result;
+}
+
+// `coupon` (optional): recomputes the coupon discount with the promo engine from the same
+// lines (GAR-* warranty lines are not discountable; the FRETE line is the shipping price).
+async function _validatePaymentPrices(
+  items: Array<{ item_id?: string; sku?: string; price_cents: number; quantity?: number; unit_price?: number }>,
+  allowedDiscountPercent: number,
+  userId?: string | null,
+  coupon?: { code: string; cpf?: string; shippingCarrierId?: string; shippingCents?: number; excludeOrderId?: string } | null
+): Promise<{ ok: boolean; expectedTotalCents: number; clientTotalCents: number; verifiedCount: number; totalItems: number; flaggedItems: string[]; couponDiscountCents: number; couponError: string | null; couponEvaluation: CouponEvaluation | null }> {
+  var flaggedItems: string[] = [];
+  var expectedTotalCents = 0;
+  var clientTotalCents = 0;
+  var verifiedCount = 0;
+  var totalItems = items.length;
+
+  var skus: string[] = [];
+  for (var vi = 0; vi < items.length; vi++) {
+    var itemSku = items[vi].sku || items[vi].item_id || "";
+    if (itemSku) skus.push(itemSku);
+  }
+  if (skus.length === 0) {
+    return { ok: true, expectedTotalCents: 0, clientTotalCents: 0, verifiedCount: 0, totalItems: totalItems, flaggedItems: [], couponDiscountCents: 0, couponError: coupon ? "Carrinho vazio" : null, couponEvaluation: null };
+  }
+
+  var serverPrices = await _loadServerPriceCents(skus, userId);
+  var couponLines: Array<{ sku: string; quantity: number; unitPriceCents: number }> = [];
+  var shippingLineCents = 0;
+
+  for (var ii = 0; ii < items.length; ii++) {
+    var pItem = items[ii];
+    var pSku = pItem.sku || pItem.item_id || "";
+    var pQty = Number(pItem.quantity || 1);
+    var clientPriceCents = pItem.price_cents !== undefined ? Number(pItem.price_cents) : Math.round((pItem.unit_price || 0) * 100);
+    clientTotalCents += clientPriceCents * pQty;
+    if (!pSku) continue;
+    if (pSku === "FRETE") { shippingLineCents += clientPriceCents * pQty; continue; }
+    if (pSku.indexOf("GAR-") !== 0) couponLines.push({ sku: pSku, quantity: pQty, unitPriceCents: clientPriceCents });
 
-    if (serverPriceCents !== null && serverPriceCents > 0) {
+    var serverPriceCents = serverPrices[pSku];
+    if (serverPriceCents !== undefined) {
       verifiedCount++;
       expectedTotalCents += serverPriceCents * pQty;
       var minAllowedCents = Math.round(serverPriceCents * (1 - allowedDiscountPercent / 100));
@@ -13825,9 +16378,25 @@ async function _validatePaymentPrices(
     }
   }
 
+  var couponDiscountCents = 0;
+  var couponError: string | null = null;
+  var couponEval: CouponEvaluation | null = null;
+  if (coupon && coupon.code) {
+    couponEval = await _evaluateCouponForCart(coupon.code, couponLines, {
+      userId: userId || null,
+      cpf: coupon.cpf || "",
+      shippingCents: coupon.shippingCents !== undefined ? coupon.shippingCents : shippingLineCents,
+      shippingCarrierId: coupon.shippingCarrierId || "",
+      excludeOrderId: coupon.excludeOrderId || "",
+      serverPrices: serverPrices,
+    });
+    if (couponEval.valid) couponDiscountCents = couponEval.discountCents;
+    else couponError = couponEval.error || "Cupom invalido";
+  }
+
   // SECURITY: Block if ANY item has a tampered price (zero tolerance)
   var ok = flaggedItems.length === 0;
-  return { ok: ok, expectedTotalCents: expectedTotalCents, clientTotalCents: clientTotalCents, verifiedCount: verifiedCount, totalItems: totalItems, flaggedItems: flaggedItems };
+  return { ok: ok, expectedTotalCents: expectedTotalCents, clientTotalCents: clientTotalCents, verifiedCount: verifiedCount, totalItems: totalItems, flaggedItems: flaggedItems, couponDiscountCents: couponDiscountCents, couponError: couponError, couponEvaluation: couponEval };
 }
 
 const PAGHIPER_PIX_URL = "https://pix.paghiper.com/invoice";
@@ -13932,6 +16501,7 @@ app.delete(BASE + "/paghiper/config", async (c) => {
 
 // POST /paghiper/pix/create — create PIX charge
 app.post(BASE + "/paghiper/pix/create", async (c) => {
+  var pixResv: { orderKey: string; skus: string[]; ok: boolean; short: string[] } | null = null;
   try {
     // SECURITY: Require auth — only logged-in users can create charges
     var pixUserId = await getAuthUserId(c.req.raw);
@@ -13954,6 +16524,8 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
       items: { required: true, type: "array", maxItems: 200 },
       days_due_date: { type: "string", maxLen: 5 },
       discount_cents: { type: "number", min: 0, max: 99999999 },
+      couponCode: { type: "string", maxLen: 50 },
+      shippingCarrierId: { type: "string", maxLen: 100 },
     });
     if (!pixValid.ok) {
       return c.json({ error: pixValid.errors[0] || "Dados invalidos." }, 400);
@@ -13969,7 +16541,7 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
     if (!pixShipCheck.ok) return c.json({ error: pixShipCheck.error }, 400);
 
     // SECURITY: Validate stock server-side
-    var pixStockCheck = await _validateStock(items);
+    var pixStockCheck = await _validateStock(items, _checkoutOrderKey(pixUserId, order_id));
     if (!pixStockCheck.ok) {
       console.warn("[PagHiper-PIX] STOCK BLOCKED for order " + order_id + ": " + pixStockCheck.outOfStock.join(", "));
       return c.json({ error: "Itens sem estoque disponivel: " + pixStockCheck.outOfStock.join(", ") }, 400);
@@ -13987,8 +16559,14 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
     }
 
     // SECURITY: Validate prices server-side (allow up to 55% discount for PIX + coupons)
+    var pixCouponCode = body.couponCode ? String(body.couponCode).substring(0, 50) : "";
+    var pixCouponDiscountCents = 0;
     try {
-      var pixPriceCheck = await _validatePaymentPrices(items, 55);
+      var pixPriceCheck = await _validatePaymentPrices(items, 55, pixUserId, pixCouponCode ? {
+        code: pixCouponCode,
+        cpf: (payer_cpf_cnpj || "").replace(/\D/g, ""),
+        shippingCarrierId: body.shippingCarrierId ? String(body.shippingCarrierId).substring(0, 100) : "",
+      } : null);
       // PagHiper-PIX price validation completed
       if (!pixPriceCheck.ok) {
         console.warn("[PagHiper-PIX] PRICE TAMPERING BLOCKED for order " + order_id);
@@ -13997,42 +16575,22 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
       if (pixPriceCheck.flaggedItems.length > 0) {
         console.warn("[PagHiper-PIX] PRICE FLAGGED for order " + order_id + ": " + pixPriceCheck.flaggedItems.join(", "));
       }
+      pixCouponDiscountCents = pixPriceCheck.couponDiscountCents;
+      if (pixCouponCode && pixPriceCheck.couponError) {
+        console.warn("[PagHiper-PIX] Coupon " + pixCouponCode + " rejected for order " + order_id + ": " + pixPriceCheck.couponError);
+      }
     } catch (pvErr) {
       console.error("[PagHiper-PIX] Price validation error (non-blocking): " + pvErr);
     }
 
-    // SECURITY: Validate discount_cents against actual coupon value
+    // SECURITY: discount_cents never exceeds what the promo engine computed for these lines
     var validatedDiscountCents = 0;
     if (discount_cents && discount_cents > 0) {
-      try {
-        var discountCouponCode = body.couponCode;
-        if (discountCouponCode) {
-          var couponRaw = await kv.get("coupon:" + discountCouponCode.toLowerCase());
-          if (couponRaw) {
-            var couponData = typeof couponRaw === "string" ? JSON.parse(couponRaw) : couponRaw;
-            if (couponData.active !== false) {
-              var itemsTotalCents = items.reduce((sum: number, it: any) => sum + (Number(it.price_cents) || 0) * (Number(it.quantity) || 1), 0);
-              var maxDiscountCents = 0;
-              if (couponData.type === "percent") {
-                maxDiscountCents = Math.round(itemsTotalCents * (Number(couponData.value) || 0) / 100);
-              } else {
-                maxDiscountCents = Math.round((Number(couponData.value) || 0) * 100);
-              }
-              if (couponData.maxDiscount) {
-                maxDiscountCents = Math.min(maxDiscountCents, Math.round(Number(couponData.maxDiscount) * 100));
-              }
-              // Allow up to 5% tolerance for rounding differences
-              validatedDiscountCents = Math.min(discount_cents, Math.round(maxDiscountCents * 1.05));
-            }
-          }
-        }
-        if (validatedDiscountCents <= 0 && discount_cents > 0) {
-          console.warn("[PagHiper-PIX] DISCOUNT TAMPERING BLOCKED for order " + order_id + " — client sent " + discount_cents + " cents but no valid coupon found");
-        }
-      } catch (dcErr) {
-        console.error("[PagHiper-PIX] Discount validation error: " + dcErr);
-        // On error, reject the discount to be safe
-        validatedDiscountCents = 0;
+      validatedDiscountCents = Math.min(Number(discount_cents) || 0, pixCouponDiscountCents);
+      if (validatedDiscountCents <= 0) {
+        console.warn("[PagHiper-PIX] DISCOUNT TAMPERING BLOCKED for order " + order_id + " — client sent " + discount_cents + " cents but no valid coupon found");
+      } else if (validatedDiscountCents < discount_cents) {
+        console.warn("[PagHiper-PIX] DISCOUNT CAPPED for order " + order_id + ": client=" + discount_cents + " server=" + pixCouponDiscountCents);
       }
     }
 
@@ -14058,6 +16616,12 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
     Object.keys(payload).forEach(k => payload[k] === undefined && delete payload[k]);
     // PagHiper PIX create for order
 
+    pixResv = await _reserveChargeStock(pixUserId, order_id, items.map(function (it: any) { return { sku: String(it.item_id || ""), quantity: it.quantity }; }), "pix");
+    if (!pixResv.ok) {
+      console.warn("[PagHiper-PIX] STOCK RESERVATION FAILED for order " + order_id + ": " + pixResv.short.join(", "));
+      return c.json({ error: "Itens sem estoque disponivel: " + pixResv.short.join(", ") }, 409);
+    }
+
     const res = await fetch(`${PAGHIPER_PIX_URL}/create/`, {
       method: "POST",
       headers: { "Content-Type": "application/json", Accept: "application/json" },
@@ -14068,9 +16632,12 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
     // PagHiper PIX create response received
 
     if (!res.ok || data?.pix_create_request?.result === "reject") {
+      await _releaseChargeStock(pixResv);
       const msg = data?.pix_create_request?.response_message || data?.message || `HTTP ${res.status}`;
       return c.json({ error: msg, paghiperResponse: data }, 400);
     }
+    // The charge exists: the hold now belongs to the order (save-order, status changes)
+    pixResv = null;
 
     const txId = data?.pix_create_request?.transaction_id;
     if (txId) {
@@ -14106,6 +16673,7 @@ app.post(BASE + "/paghiper/pix/create", async (c) => {
     });
   } catch (e: any) {
     console.error("[PagHiper] PIX create exception:", e);
+    await _releaseChargeStock(pixResv);
     return c.json({ error: "Erro ao criar cobranca PIX." }, 500);
   }
 });
@@ -14220,6 +16788,7 @@ app.post(BASE + "/paghiper/pix/cancel", async (c) => {
 
 // POST /paghiper/boleto/create — create boleto charge
 app.post(BASE + "/paghiper/boleto/create", async (c) => {
+  var boletoResv: { orderKey: string; skus: string[]; ok: boolean; short: string[] } | null = null;
   try {
     // SECURITY: Require auth — only logged-in users can create charges
     var boletoUserId = await getAuthUserId(c.req.raw);
@@ -14250,6 +16819,8 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
       days_due_date: { type: "string", maxLen: 5 },
       type_bank_slip: { type: "string", maxLen: 20 },
       discount_cents: { type: "number", min: 0, max: 99999999 },
+      couponCode: { type: "string", maxLen: 50 },
+      shippingCarrierId: { type: "string", maxLen: 100 },
     });
     if (!boletoValid.ok) {
       return c.json({ error: boletoValid.errors[0] || "Dados invalidos." }, 400);
@@ -14271,7 +16842,7 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
     if (!boletoShipCheck.ok) return c.json({ error: boletoShipCheck.error }, 400);
 
     // SECURITY: Validate stock server-side
-    var boletoStockCheck = await _validateStock(items);
+    var boletoStockCheck = await _validateStock(items, _checkoutOrderKey(boletoUserId, order_id));
     if (!boletoStockCheck.ok) {
       console.warn("[PagHiper-Boleto] STOCK BLOCKED for order " + order_id + ": " + boletoStockCheck.outOfStock.join(", "));
       return c.json({ error: "Itens sem estoque disponivel: " + boletoStockCheck.outOfStock.join(", ") }, 400);
@@ -14289,8 +16860,14 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
     }
 
     // SECURITY: Validate prices server-side (allow up to 45% discount for coupons — no PIX discount on boleto)
+    var boletoCouponCode = body.couponCode ? String(body.couponCode).substring(0, 50) : "";
+    var boletoCouponDiscountCents = 0;
     try {
-      var boletoPriceCheck = await _validatePaymentPrices(items, 45);
+      var boletoPriceCheck = await _validatePaymentPrices(items, 45, boletoUserId, boletoCouponCode ? {
+        code: boletoCouponCode,
+        cpf: (payer_cpf_cnpj || "").replace(/\D/g, ""),
+        shippingCarrierId: body.shippingCarrierId ? String(body.shippingCarrierId).substring(0, 100) : "",
+      } : null);
       // PagHiper-Boleto price validation completed
       if (!boletoPriceCheck.ok) {
         console.warn("[PagHiper-Boleto] PRICE TAMPERING BLOCKED for order " + order_id);
@@ -14299,40 +16876,22 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
       if (boletoPriceCheck.flaggedItems.length > 0) {
         console.warn("[PagHiper-Boleto] PRICE FLAGGED for order " + order_id + ": " + boletoPriceCheck.flaggedItems.join(", "));
       }
+      boletoCouponDiscountCents = boletoPriceCheck.couponDiscountCents;
+      if (boletoCouponCode && boletoPriceCheck.couponError) {
+        console.warn("[PagHiper-Boleto] Coupon " + boletoCouponCode + " rejected for order " + order_id + ": " + boletoPriceCheck.couponError);
+      }
     } catch (pvErr2) {
       console.error("[PagHiper-Boleto] Price validation error (non-blocking): " + pvErr2);
     }
 
-    // SECURITY: Validate discount_cents against actual coupon value
+    // SECURITY: discount_cents never exceeds what the promo engine computed for these lines
     var boletoValidatedDiscount = 0;
     if (discount_cents && discount_cents > 0) {
-      try {
-        var boletoCouponCode = body.couponCode;
-        if (boletoCouponCode) {
-          var boletoCouponRaw = await kv.get("coupon:" + boletoCouponCode.toLowerCase());
-          if (boletoCouponRaw) {
-            var boletoCouponData = typeof boletoCouponRaw === "string" ? JSON.parse(boletoCouponRaw) : boletoCouponRaw;
-            if (boletoCouponData.active !== false) {
-              var boletoItemsTotalCents = items.reduce((sum: number, it: any) => sum + (Number(it.price_cents) || 0) * (Number(it.quantity) || 1), 0);
-              var boletoMaxDiscount = 0;
-              if (boletoCouponData.type === "percent") {
-                boletoMaxDiscount = Math.round(boletoItemsTotalCents * (Number(boletoCouponData.value) || 0) / 100);
-              } else {
-                boletoMaxDiscount = Math.round((Number(boletoCouponData.value) || 0) * 100);
-              }
-              if (boletoCouponData.maxDiscount) {
-                boletoMaxDiscount = Math.min(boletoMaxDiscount, Math.round(Number(boletoCouponData.maxDiscount) * 100));
-              }
-              boletoValidatedDiscount = Math.min(discount_cents, Math.round(boletoMaxDiscount * 1.05));
-            }
-          }
-        }
-        if (boletoValidatedDiscount <= 0 && discount_cents > 0) {
-          console.warn("[PagHiper-Boleto] DISCOUNT TAMPERING BLOCKED for order " + order_id);
-        }
-      } catch (dcErr2) {
-        console.error("[PagHiper-Boleto] Discount validation error: " + dcErr2);
-        boletoValidatedDiscount = 0;
+      boletoValidatedDiscount = Math.min(Number(discount_cents) || 0, boletoCouponDiscountCents);
+      if (boletoValidatedDiscount <= 0) {
+        console.warn("[PagHiper-Boleto] DISCOUNT TAMPERING BLOCKED for order " + order_id + " — client sent " + discount_cents + " cents but no valid coupon found");
+      } else if (boletoValidatedDiscount < discount_cents) {
+        console.warn("[PagHiper-Boleto] DISCOUNT CAPPED for order " + order_id + ": client=" + discount_cents + " server=" + boletoCouponDiscountCents);
       }
     }
 
@@ -14368,6 +16927,12 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
     Object.keys(payload).forEach(k => payload[k] === undefined && delete payload[k]);
     // PagHiper Boleto create for order
 
+    boletoResv = await _reserveChargeStock(boletoUserId, order_id, items.map(function (it: any) { return { sku: String(it.item_id || ""), quantity: it.quantity }; }), "boleto");
+    if (!boletoResv.ok) {
+      console.warn("[PagHiper-Boleto] STOCK RESERVATION FAILED for order " + order_id + ": " + boletoResv.short.join(", "));
+      return c.json({ error: "Itens sem estoque disponivel: " + boletoResv.short.join(", ") }, 409);
+    }
+
     const res = await fetch(`${PAGHIPER_BOLETO_URL}/create/`, {
       method: "POST",
       headers: { "Content-Type": "application/json", Accept: "application/json" },
@@ -14378,9 +16943,11 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
     // PagHiper Boleto create response received
 
     if (!res.ok || data?.create_request?.result === "reject") {
+      await _releaseChargeStock(boletoResv);
       const msg = data?.create_request?.response_message || data?.message || `HTTP ${res.status}`;
       return c.json({ error: msg, paghiperResponse: data }, 400);
     }
+    boletoResv = null;
 
     const txId = data?.create_request?.transaction_id;
     if (txId) {
@@ -14418,6 +16985,7 @@ app.post(BASE + "/paghiper/boleto/create", async (c) => {
     });
   } catch (e: any) {
     console.error("[PagHiper] Boleto create exception:", e);
+    await _releaseChargeStock(boletoResv);
     return c.json({ error: "Erro ao criar boleto." }, 500);
   }
 });
@@ -14620,12 +17188,18 @@ app.post(BASE + "/paghiper/notification", async (c) => {
           for (var pni = 0; pni < allUserOrders.length; pni++) {
             try {
               var pnOrder = typeof allUserOrders[pni] === "string" ? JSON.parse(allUserOrders[pni]) : allUserOrders[pni];
-              if (pnOrder.transactionId === transactionId && pnOrder.status !== "paid") {
-                pnOrder.status = "paid";
-                pnOrder.paidAt = new Date().toISOString();
-                pnOrder.emailSent = true;
+              if (pnOrder.transactionId === transactionId) {
                 var pnKey = "user_order:" + (pnOrder.createdBy || "") + ":" + (pnOrder.localOrderId || "");
-                await kv.set(pnKey, JSON.stringify(pnOrder));
+                // Re-read under the order lock — the scanned copy may already be stale
+                var pnSaved = await _updateOrderRecord(pnKey, async function (o: any) {
+                  var pnTransition = transitionOrder(o, "paid", { type: "system", id: "paghiper" }, { note: "Notificacao PagHiper: " + status });
+                  if (!pnTransition.ok || !pnTransition.changed) return false;
+                  o.emailSent = true;
+                  await _syncOrderStock(pnKey, o);
+                  return true;
+                });
+                if (!pnSaved) break;
+                pnOrder = pnSaved;
                 // PagHiper notification: order updated to paid
                 // Send payment approved email (fire-and-forget)
                 _sendPaymentApprovedEmail(pnOrder).catch(function(pe2) {
@@ -15113,6 +17687,12 @@ app.post(BASE + "/sige/create-sale", async (c) => {
     var csShipCheck = await _validateShipping(body);
     if (!csShipCheck.ok) return c.json({ error: csShipCheck.error }, 400);
 
+    // Retire na loja: the SIGE order is created against the pickup branch filial
+    var csPickup = await _checkPickupOption(body.shippingOption, items.map(function(it: any) {
+      return { sku: it.sku || it.codProduto || "", quantity: Number(it.qtd || it.quantidade) || 1 };
+    }));
+    if (!csPickup.ok) return c.json({ error: csPickup.error }, 400);
+
     // SECURITY: Validate stock server-side
     var csItemsForStock = items.map(function(it: any) {
       return { sku: it.sku || it.codProduto || "", quantity: Number(it.qtd) || 1 };
@@ -15711,7 +18291,8 @@ app.post(BASE + "/sige/create-sale", async (c) => {
 
     // Optional top-level fields (all flat strings/numbers — NO nested objects)
     if (codVendedor) orderPayload.codVendComp = Number(codVendedor);
-    if (codFilial) orderPayload.codFilial = String(codFilial);
+    if (csPickup.branch) orderPayload.codFilial = String(csPickup.branch.sigeCodFilial);
+    else if (codFilial) orderPayload.codFilial = String(codFilial);
     if (codDeposito) orderPayload.codLocal = String(codDeposito);
     if (codCondPgto) orderPayload.codCondPgto = String(codCondPgto);
     if (codTransportador) orderPayload.codTransportador1 = Number(codTransportador);
@@ -15724,6 +18305,10 @@ app.post(BASE + "/sige/create-sale", async (c) => {
     if (codMoeda) orderPayload.codMoeda = Number(codMoeda);
     if (codAtividade) orderPayload.codAtividade = Number(codAtividade);
     if (observacaoInterna) orderPayload.observacaoInterna = String(observacaoInterna);
+    if (csPickup.branch) {
+      var csPickupNote = "RETIRADA NA LOJA: " + csPickup.branch.nome;
+      orderPayload.observacaoInterna = orderPayload.observacaoInterna ? csPickupNote + " | " + orderPayload.observacaoInterna : csPickupNote;
+    }
 
     // Build observation payload for Step 2 (POST /order/{id}/observation)
     // This is sent AFTER order creation, NOT in the order payload
@@ -15920,13 +18505,15 @@ app.post(BASE + "/user/save-order", async (c) => {
     // SECURITY: Validate shipping option server-side
     var soShipCheck = await _validateShipping(body);
     if (!soShipCheck.ok) return c.json({ error: soShipCheck.error }, 400);
+    var soPickup = await _checkPickupOption(shippingOption, Array.isArray(items) ? items : []);
+    if (!soPickup.ok) return c.json({ error: soPickup.error }, 400);
 
     // SECURITY: Validate stock server-side
     if (Array.isArray(items) && items.length > 0) {
       var soItemsForStock = items.map(function(it: any) {
         return { sku: it.sku || it.codProduto || "", quantity: Number(it.quantidade) || 1 };
       });
-      var soStockCheck = await _validateStock(soItemsForStock);
+      var soStockCheck = await _validateStock(soItemsForStock, "user_order:" + userId + ":" + localOrderId);
       if (!soStockCheck.ok) {
         console.warn("[save-order] STOCK BLOCKED for " + localOrderId + ": " + soStockCheck.outOfStock.join(", "));
         return c.json({ error: "Itens sem estoque disponivel: " + soStockCheck.outOfStock.join(", ") }, 400);
@@ -15980,30 +18567,31 @@ app.post(BASE + "/user/save-order", async (c) => {
     if (shippingOption && shippingOption.price) {
       serverTotal += Number(shippingOption.price) || 0;
     }
-    // SECURITY: Validate coupon discount server-side — never trust client discountAmount
+    // SECURITY: Validate coupon discount server-side — never trust client discountAmount.
+    // Same promo engine evaluation as /coupons/validate and the payment routes.
     var validatedCouponDiscount = 0;
+    var soCouponEval: CouponEvaluation | null = null;
     if (body.coupon && body.coupon.code) {
       try {
-        var soCouponRaw = await kv.get("coupon:" + String(body.coupon.code).toLowerCase());
-        if (soCouponRaw) {
-          var soCouponData = typeof soCouponRaw === "string" ? JSON.parse(soCouponRaw) : soCouponRaw;
-          if (soCouponData.active !== false) {
-            var soItemsTotal = serverTotal; // items + shipping already calculated
-            if (soCouponData.type === "percent" || soCouponData.discountType === "percentage") {
-              validatedCouponDiscount = Math.round(soItemsTotal * (Number(soCouponData.value || soCouponData.discountValue) || 0) / 100 * 100) / 100;
-            } else {
-              validatedCouponDiscount = Number(soCouponData.value || soCouponData.discountValue) || 0;
-            }
-            if (soCouponData.maxDiscount) {
-              validatedCouponDiscount = Math.min(validatedCouponDiscount, Number(soCouponData.maxDiscount));
-            }
-            validatedCouponDiscount = Math.min(validatedCouponDiscount, soItemsTotal);
-          }
-        }
+        var soCouponLines = (Array.isArray(items) ? items : []).map(function (it: any) {
+          return {
+            sku: String(it.sku || it.codProduto || ""),
+            quantity: Number(it.quantidade) || 1,
+            unitPriceCents: Math.round((Number(it.valorUnitario) || Number(it.precoUnitario) || 0) * 100),
+          };
+        });
+        soCouponEval = await _evaluateCouponForCart(String(body.coupon.code), soCouponLines, {
+          userId: userId,
+          cpf: "",
+          shippingCents: Math.round((shippingOption ? Number(shippingOption.price) || 0 : 0) * 100),
+          shippingCarrierId: shippingOption && shippingOption.carrierId ? String(shippingOption.carrierId) : "",
+          excludeOrderId: localOrderId,
+        });
+        if (soCouponEval.valid) validatedCouponDiscount = soCouponEval.discountCents / 100;
         var clientDiscount = Number(body.coupon.discountAmount) || 0;
         if (clientDiscount > 0 && validatedCouponDiscount <= 0) {
-          console.warn("[save-order] COUPON TAMPERING BLOCKED for " + localOrderId + " — client sent discount=" + clientDiscount + " but coupon '" + body.coupon.code + "' is invalid/inactive");
-        } else if (clientDiscount > validatedCouponDiscount * 1.05) {
+          console.warn("[save-order] COUPON TAMPERING BLOCKED for " + localOrderId + " — client sent discount=" + clientDiscount + " but coupon '" + body.coupon.code + "' is invalid: " + (soCouponEval.error || "?"));
+        } else if (clientDiscount > validatedCouponDiscount + 0.01) {
           console.warn("[save-order] COUPON DISCOUNT MISMATCH for " + localOrderId + " — client=" + clientDiscount + " server=" + validatedCouponDiscount.toFixed(2));
         }
       } catch (couponErr) {
@@ -16032,7 +18620,7 @@ app.post(BASE + "/user/save-order", async (c) => {
       sigeOrderId: sigeOrderId || null,
       createdBy: userId,
       createdAt: new Date().toISOString(),
-      status: initialStatus,
+      status: "awaiting_payment",
       paymentMethod: paymentMethod || "pix",
       transactionId: transactionId || null,
       total: Math.round(serverTotal * 100) / 100,
@@ -16054,7 +18642,11 @@ app.post(BASE + "/user/save-order", async (c) => {
         deliveryDays: Number(shippingOption.deliveryDays) || 0,
         free: !!shippingOption.free,
         sisfreteQuoteId: shippingOption.sisfreteQuoteId || null,
+        // shipping_quote:<id> — lets the admin replay the freight calculation
+        shippingQuoteId: shippingOption.shippingQuoteId ? String(shippingOption.shippingQuoteId).substring(0, 60) : null,
       } : null,
+      // Branch snapshot for "Retire na loja" (code is generated when the order is ready)
+      pickup: soPickup.branch ? orderPickupFromBranch(soPickup.branch) : null,
       items: (items || []).map((it: any) => ({
         sku: it.sku || it.codProduto || "",
         titulo: it.titulo || it.sku || "Produto",
@@ -16070,14 +18662,54 @@ app.post(BASE + "/user/save-order", async (c) => {
       })),
     };
 
-    // Coupon info
-    if (body.coupon) orderRecord.coupon = body.coupon;
+    // Coupon info — amounts as validated by the promo engine
+    if (body.coupon && body.coupon.code) {
+      orderRecord.coupon = {
+        code: String(body.coupon.code).toUpperCase().substring(0, 50),
+        discountType: body.coupon.discountType || null,
+        discountValue: Number(body.coupon.discountValue) || 0,
+        discountAmount: validatedCouponDiscount,
+        itemsDiscount: soCouponEval && soCouponEval.valid ? soCouponEval.itemsDiscountCents / 100 : 0,
+        shippingDiscount: soCouponEval && soCouponEval.valid ? soCouponEval.shippingDiscountCents / 100 : 0,
+      };
+    }
+
+    // Customer vehicle ("Minha Garagem") — kept on the order for fitment disputes
+    try {
+      var soCatalog = await _getVehicleCatalog();
+      var soVehicle = _sanitizeGarageVehicle(body.vehicle, soCatalog);
+      if (!soVehicle) {
+        var soProfRaw = await kv.get("user_profile:" + userId);
+        var soProf = soProfRaw ? (typeof soProfRaw === "string" ? JSON.parse(soProfRaw) : soProfRaw) : null;
+        if (soProf && soProf.garageVehicle) soVehicle = _sanitizeGarageVehicle(soProf.garageVehicle, soCatalog);
+      }
+      if (soVehicle) orderRecord.vehicle = soVehicle;
+    } catch (vehErr) {
+      console.warn("[save-order] Vehicle lookup error (non-fatal): " + vehErr);
+    }
 
     // Store mpPaymentId if provided (useful for lookups)
     if (body.mpPaymentId) orderRecord.mpPaymentId = String(body.mpPaymentId);
-    if (initialStatus === "paid") orderRecord.paidAt = new Date().toISOString();
+
+    // Status history: created awaiting payment; verified card payments move to paid right away
+    startOrderHistory(orderRecord, "awaiting_payment", { type: "customer", id: userId }, "Pedido criado no checkout");
+    if (initialStatus === "paid") {
+      transitionOrder(orderRecord, "paid", { type: "system", id: "mercadopago" }, { note: "Cartao aprovado (mpPaymentId " + orderRecord.mpPaymentId + ")" });
+    }
 
     const kvKey = `user_order:${userId}:${localOrderId}`;
+    // Unpaid orders keep the hold the charge route took until payment,
+    // cancellation or expiry; an approved card already left the stock in SIGE
+    try {
+      if (initialStatus !== "paid") {
+        var soReservation = await _reserveOrderStock(kvKey, orderRecord.items, orderRecord.paymentMethod);
+        if (soReservation) orderRecord.stockReservation = soReservation;
+      } else {
+        await _releaseOrderStock(kvKey, reservationLines(orderRecord.items).map(function (l) { return l.sku; }));
+      }
+    } catch (resvErr) {
+      console.error("[save-order] Stock reservation error (non-fatal): " + resvErr);
+    }
     await kv.set(kvKey, JSON.stringify(orderRecord));
     // save-order: saved successfully
 
@@ -16143,49 +18775,67 @@ app.post(BASE + "/user/update-order-status", async (c) => {
     }
 
     const kvKey = `user_order:${userId}:${localOrderId}`;
-    const existing = await kv.get(kvKey);
-    if (!existing) return c.json({ error: "Pedido não encontrado." }, 404);
-
-    const order = typeof existing === "string" ? JSON.parse(existing) : existing;
-    if (status) order.status = status;
-    if (transactionId) order.transactionId = transactionId;
-    order.updatedAt = new Date().toISOString();
+    return await withKvLock(kvKey, async function (lock) {
+      const existing = await kv.get(kvKey);
+      if (!existing) return c.json({ error: "Pedido não encontrado." }, 404);
+
+      const order = typeof existing === "string" ? JSON.parse(existing) : existing;
+      if (status) {
+        // Customers may only link a transaction ("awaiting_payment" leaves the status as is)
+        // or cancel an order that is still unpaid
+        var uosTarget = normalizeOrderStatus(status);
+        if (uosTarget !== "awaiting_payment" && uosTarget !== "cancelled") {
+          return c.json({ error: "Status nao permitido via endpoint de usuario." }, 403);
+        }
+        if (uosTarget === "cancelled") {
+          if (normalizeOrderStatus(order.status) !== "awaiting_payment" && normalizeOrderStatus(order.status) !== "cancelled") {
+            return c.json({ error: "Somente pedidos aguardando pagamento podem ser cancelados." }, 409);
+          }
+          transitionOrder(order, "cancelled", { type: "customer", id: userId }, { note: "Pagamento cancelado/expirado no checkout" });
+        }
+      }
+      if (transactionId) order.transactionId = transactionId;
+      order.updatedAt = new Date().toISOString();
 
-    // When payment is confirmed ("paid"), confirm the SIGE order to trigger stock deduction
-    if (status === "paid" && order.sigeOrderId) {
-      try {
-        var sigeConfirm = await confirmSigeOrder(String(order.sigeOrderId));
-        order.sigeConfirmResult = { ok: sigeConfirm.ok, message: sigeConfirm.message };
-        // update-order-status: SIGE confirm done
-      } catch (confirmErr: any) {
-        console.error("[update-order-status] SIGE confirm error (non-fatal): " + confirmErr.message);
+      // When payment is confirmed ("paid"), confirm the SIGE order to trigger stock deduction
+      if (status === "paid" && order.sigeOrderId) {
+        try {
+          var sigeConfirm = await confirmSigeOrder(String(order.sigeOrderId));
+          order.sigeConfirmResult = { ok: sigeConfirm.ok, message: sigeConfirm.message };
+          // update-order-status: SIGE confirm done
+        } catch (confirmErr: any) {
+          console.error("[update-order-status] SIGE confirm error (non-fatal): " + confirmErr.message);
+        }
       }
-    }
 
-    // When paid, send warranty certificate email if any items have warranty
-    if (status === "paid") {
-      try {
-        var warrantyItems = (order.items || []).filter(function (it: any) { return it.warranty && it.warranty.planId; });
-        if (warrantyItems.length > 0) {
-          // Resolve buyer email from auth
-          var buyerEmail = null;
-          try {
-            var buyerUser = await supabaseAdmin.auth.admin.getUserById(userId);
-            buyerEmail = buyerUser.data?.user?.email || null;
-          } catch (ue) { /* ignore */ }
-          if (buyerEmail) {
-            _sendWarrantyCertificateEmail(buyerEmail, order.localOrderId || localOrderId, warrantyItems, order.shippingAddress?.name || "Cliente");
+      // When paid, send warranty certificate email if any items have warranty
+      if (status === "paid") {
+        try {
+          var warrantyItems = (order.items || []).filter(function (it: any) { return it.warranty && it.warranty.planId; });
+          if (warrantyItems.length > 0) {
+            // Resolve buyer email from auth
+            var buyerEmail = null;
+            try {
+              var buyerUser = await supabaseAdmin.auth.admin.getUserById(userId);
+              buyerEmail = buyerUser.data?.user?.email || null;
+            } catch (ue) { /* ignore */ }
+            if (buyerEmail) {
+              _sendWarrantyCertificateEmail(buyerEmail, order.localOrderId || localOrderId, warrantyItems, order.shippingAddress?.name || "Cliente");
+            }
           }
+        } catch (wce) {
+          console.error("[Warranty] Certificate email error (non-fatal): " + wce);
         }
-      } catch (wce) {
-        console.error("[Warranty] Certificate email error (non-fatal): " + wce);
       }
-    }
 
-    await kv.set(kvKey, JSON.stringify(order));
-    // update-order-status: done
-    return c.json({ success: true });
+      await _syncOrderStock(kvKey, order);
+      lock.assertHeld();
+      await kv.set(kvKey, JSON.stringify(order));
+      // update-order-status: done
+      return c.json({ success: true });
+    });
   } catch (e: any) {
+    if (e instanceof kvAtomic.KvLockTimeoutError || e instanceof kvAtomic.KvLockLostError) return c.json({ error: "Pedido em atualizacao por outra operacao. Tente novamente." }, 409);
     console.error("[update-order-status] Exception:", e);
     return c.json({ error: "Erro ao atualizar status do pedido." }, 500);
   }
@@ -16209,13 +18859,18 @@ app.get(BASE + "/user/my-orders", async (c) => {
             orderId: order.sigeOrderId || order.localOrderId || "N/A",
             localOrderId: order.localOrderId,
             createdAt: order.createdAt,
-            status: order.status || "awaiting_payment",
+            status: normalizeOrderStatus(order.status) || order.status,
+            statusHistory: publicOrderHistory(order),
+            returnWindow: rmaWindow(order),
+            rmaIds: order.rmaIds || [],
             paymentMethod: order.paymentMethod || null,
             transactionId: order.transactionId || null,
             total: order.total || 0,
             itemCount: order.itemCount || (order.items?.length ?? 0),
             shippingAddress: order.shippingAddress || null,
             shippingOption: order.shippingOption || null,
+            pickup: publicPickup(order.pickup, true),
+            vehicle: order.vehicle || null,
             items: (order.items || []).map((it: any) => ({
               sku: it.sku || it.codProduto,
               titulo: it.titulo || it.sku || "Produto",
@@ -16281,24 +18936,26 @@ app.get(BASE + "/user/my-orders", async (c) => {
             const data = await res.json();
             const phStatus = data?.status_request?.status;
             if (phStatus === "paid" || phStatus === "completed") {
-              order.status = "paid";
               const kvKey = `user_order:${userId}:${order.localOrderId}`;
-              const existing = await kv.get(kvKey);
-              if (existing) {
-                const rec = typeof existing === "string" ? JSON.parse(existing) : existing;
-                rec.status = "paid";
-                rec.paidAt = rec.paidAt || new Date().toISOString();
-                rec.updatedAt = new Date().toISOString();
+              var arSendEmail = false;
+              const rec = await _updateOrderRecord(kvKey, async function (o: any) {
+                const arPaid = transitionOrder(o, "paid", { type: "system", id: "paghiper" }, { note: "Reconciliacao automatica (PagHiper: " + phStatus + ")" });
+                if (!arPaid.ok || !arPaid.changed) return false;
                 // Send payment email if not already sent (dedup via emailSent flag)
-                if (!rec.emailSent) {
-                  rec.emailSent = true;
-                  _sendPaymentApprovedEmail(rec).catch(function(arEmailErr) {
-                    console.error("[Auto-reconciliation] payment email error (non-fatal): " + arEmailErr);
-                  });
-                }
-                await kv.set(kvKey, JSON.stringify(rec));
-                // Auto-reconciliation: order marked paid
+                arSendEmail = !o.emailSent;
+                o.emailSent = true;
+                await _syncOrderStock(kvKey, o);
+                return true;
+              });
+              if (!rec) return;
+              order.status = rec.status;
+              order.statusHistory = publicOrderHistory(rec);
+              if (arSendEmail) {
+                _sendPaymentApprovedEmail(rec).catch(function(arEmailErr) {
+                  console.error("[Auto-reconciliation] payment email error (non-fatal): " + arEmailErr);
+                });
               }
+              // Auto-reconciliation: order marked paid
               // Confirm SIGE order to trigger stock deduction
               if (order.sigeOrderId) {
                 confirmSigeOrder(String(order.sigeOrderId)).catch(function(ce: any) {
@@ -16306,14 +18963,16 @@ app.get(BASE + "/user/my-orders", async (c) => {
                 });
               }
             } else if (phStatus === "canceled" || phStatus === "refunded") {
-              order.status = "cancelled";
               const kvKey = `user_order:${userId}:${order.localOrderId}`;
-              const existing = await kv.get(kvKey);
-              if (existing) {
-                const rec = typeof existing === "string" ? JSON.parse(existing) : existing;
-                rec.status = "cancelled";
-                rec.updatedAt = new Date().toISOString();
-                await kv.set(kvKey, JSON.stringify(rec));
+              const rec = await _updateOrderRecord(kvKey, async function (o: any) {
+                const arCancel = transitionOrder(o, "cancelled", { type: "system", id: "paghiper" }, { note: "Reconciliacao automatica (PagHiper: " + phStatus + ")" });
+                if (!arCancel.ok || !arCancel.changed) return false;
+                await _syncOrderStock(kvKey, o);
+                return true;
+              });
+              if (rec) {
+                order.status = rec.status;
+                order.statusHistory = publicOrderHistory(rec);
                 // Auto-reconciliation: order cancelled
               }
             }
@@ -16354,6 +19013,8 @@ app.get(BASE + "/user/order-tracking/:localOrderId", async function (c) {
     var orderRaw = await kv.get("user_order:" + userId + ":" + localOrderId);
     if (!orderRaw) return c.json({ error: "Pedido nao encontrado." }, 404);
     var order = typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw;
+    // Order status timeline (state machine history) — returned with or without carrier events
+    var orderStatusInfo = { status: normalizeOrderStatus(order.status) || order.status, statusHistory: publicOrderHistory(order), pickup: isPickupOrder(order) };
 
     // 2. Determine possible order numbers to match against SisFrete
     var possibleIds: string[] = [];
@@ -16391,6 +19052,7 @@ app.get(BASE + "/user/order-tracking/:localOrderId", async function (c) {
         events: [],
         trackingCode: null,
         trackingLink: null,
+        ...orderStatusInfo,
       });
     }
 
@@ -16405,6 +19067,7 @@ app.get(BASE + "/user/order-tracking/:localOrderId", async function (c) {
         trackingCode: matchedWtOrder.pedido ? matchedWtOrder.pedido.numeroObjeto || null : null,
         trackingLink: null,
         sentAt: matchedWtOrder.sentAt || null,
+        ...orderStatusInfo,
       });
     }
 
@@ -16473,6 +19136,7 @@ app.get(BASE + "/user/order-tracking/:localOrderId", async function (c) {
       servicoEntrega: matchedWtOrder.pedido ? matchedWtOrder.pedido.servicoEntrega || null : null,
       sentAt: matchedWtOrder.sentAt || null,
       numeroDoPedido: matchedNumeroPedido,
+      ...orderStatusInfo,
     });
   } catch (e: any) {
     console.error("[SisFrete-WT] User order-tracking error: " + e);
@@ -16506,7 +19170,12 @@ app.get(BASE + "/admin/orders", async (c) => {
             createdBy: order.createdBy || null,
             createdAt: order.createdAt || null,
             updatedAt: order.updatedAt || null,
-            status: order.status || "awaiting_payment",
+            status: normalizeOrderStatus(order.status) || order.status,
+            statusHistory: ensureOrderHistory(order),
+            nextStatuses: nextOrderStatuses(order.status, isPickupOrder(order)),
+            rmaIds: order.rmaIds || [],
+            refunds: order.refunds || [],
+            refundedTotal: order.refundedTotal || 0,
             paymentMethod: order.paymentMethod || null,
             transactionId: order.transactionId || null,
             total: order.total || 0,
@@ -16514,6 +19183,8 @@ app.get(BASE + "/admin/orders", async (c) => {
             observacao: order.observacao || null,
             shippingAddress: order.shippingAddress || null,
             shippingOption: order.shippingOption || null,
+            pickup: publicPickup(order.pickup, false),
+            vehicle: order.vehicle || null,
             items: (order.items || []).map(function (it: any) {
               return {
                 sku: it.sku || it.codProduto || "",
@@ -16550,6 +19221,8 @@ app.get(BASE + "/admin/orders", async (c) => {
             createdAt: sale.createdAt || null,
             updatedAt: null,
             status: sale.status === "confirmed" ? "sige_registered" : (sale.status || "sige_registered"),
+            statusHistory: [],
+            nextStatuses: [],
             paymentMethod: null,
             transactionId: null,
             total: sale.total || 0,
@@ -16620,6 +19293,113 @@ app.get(BASE + "/admin/orders", async (c) => {
   }
 });
 
+// GET /admin/stock-reservations — units held by orders awaiting payment, per SKU
+app.get(BASE + "/admin/stock-reservations", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+
+    var rawList = await kv.getByPrefix(STOCK_RESERVATION_PREFIX);
+    var now = Date.now();
+    var bySku: any[] = [];
+    var orderKeys: string[] = [];
+    for (var i = 0; i < (rawList || []).length; i++) {
+      try {
+        var rec = parseReservation(rawList[i], "");
+        var holds = activeHolds(rec, now);
+        if (!rec.sku || holds.length === 0) continue;
+        bySku.push({ sku: rec.sku, holds: holds });
+        for (var h = 0; h < holds.length; h++) if (orderKeys.indexOf(holds[h].orderKey) === -1) orderKeys.push(holds[h].orderKey);
+      } catch { /* skip malformed */ }
+    }
+
+    // Order summaries (key-based lookup: kv.mget does not return keys)
+    var orderMap: Record<string, any> = {};
+    for (var oc = 0; oc < orderKeys.length; oc += 200) {
+      var oRes = await supabaseAdmin.from("kv_store_b7b07654").select("key, value").in("key", orderKeys.slice(oc, oc + 200));
+      var oRows = (oRes.data || []) as Array<{ key: string; value: any }>;
+      for (var ori = 0; ori < oRows.length; ori++) {
+        try { orderMap[oRows[ori].key] = typeof oRows[ori].value === "string" ? JSON.parse(oRows[ori].value) : oRows[ori].value; } catch {}
+      }
+    }
+
+    var reservations: any[] = [];
+    var totalUnits = 0;
+    for (var r = 0; r < bySku.length; r++) {
+      var entry = bySku[r];
+      var held = 0;
+      var titulo = "";
+      var rows = entry.holds.map(function (hold: any) {
+        held += hold.qty;
+        var order = orderMap[hold.orderKey] || null;
+        var line = order && Array.isArray(order.items) ? order.items.find(function (it: any) { return (it.sku || it.codProduto) === entry.sku; }) : null;
+        if (line && !titulo) titulo = line.titulo || "";
+        return {
+          orderKey: hold.orderKey,
+          localOrderId: order ? order.localOrderId : hold.orderKey.split(":").pop(),
+          userId: hold.orderKey.split(":")[1] || null,
+          customerName: order && order.shippingAddress ? order.shippingAddress.name || null : null,
+          orderStatus: order ? normalizeOrderStatus(order.status) || order.status : null,
+          total: order ? order.total || 0 : 0,
+          qty: hold.qty,
+          paymentMethod: hold.paymentMethod,
+          createdAt: hold.createdAt,
+          expiresAt: hold.expiresAt,
+          short: !!hold.short,
+        };
+      });
+      totalUnits += held;
+      reservations.push({
+        sku: entry.sku,
+        titulo: titulo,
+        held: held,
+        available: await _cachedAvailable(entry.sku),
+        holds: rows.sort(function (a: any, b: any) { return a.expiresAt - b.expiresAt; }),
+      });
+    }
+    reservations.sort(function (a, b) { return b.held - a.held || a.sku.localeCompare(b.sku); });
+    return c.json({ reservations: reservations, totalSkus: reservations.length, totalUnits: totalUnits, ttlMs: RESERVATION_TTL_MS });
+  } catch (e: any) {
+    console.error("[Admin stock-reservations] Exception:", e);
+    return c.json({ error: "Erro ao carregar reservas de estoque." }, 500);
+  }
+});
+
+// POST /admin/stock-reservations/release — frees an order's hold early (all SKUs, or one)
+app.post(BASE + "/admin/stock-reservations/release", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var relValid = validate(body, {
+      orderKey: { required: true, type: "string", maxLen: 300, pattern: /^user_order:[^:]+:[A-Za-z0-9_-]+$/ },
+      sku: { type: "string", maxLen: 100 },
+    });
+    if (!relValid.ok) return c.json({ error: relValid.errors[0] || "Dados invalidos." }, 400);
+    var orderKey = relValid.sanitized.orderKey;
+    var relSku = relValid.sanitized.sku || "";
+
+    return await withKvLock(orderKey, async function (lock) {
+      var raw = await kv.get(orderKey);
+      var order = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : null;
+      var skus: string[] = relSku ? [relSku] : (order && order.stockReservation && Array.isArray(order.stockReservation.skus) ? order.stockReservation.skus : []);
+      if (skus.length === 0) return c.json({ error: "Informe o SKU da reserva." }, 400);
+      await _releaseOrderStock(orderKey, skus);
+      if (order && order.stockReservation && !relSku) {
+        order.stockReservation.releasedAt = Date.now();
+        order.stockReservation.releasedBy = await _getUserEmailById(userId);
+        lock.assertHeld();
+        await kv.set(orderKey, JSON.stringify(order));
+      }
+      return c.json({ ok: true, released: skus });
+    });
+  } catch (e: any) {
+    if (e instanceof kvAtomic.KvLockTimeoutError || e instanceof kvAtomic.KvLockLostError) return c.json({ error: "Pedido em atualizacao por outra operacao. Tente novamente." }, 409);
+    console.error("[Admin stock-reservations] Release error:", e);
+    return c.json({ error: "Erro ao liberar reserva." }, 500);
+  }
+});
+
 // POST /admin/update-order-status — admin can update any order status
 app.post(BASE + "/admin/update-order-status", async (c) => {
   try {
@@ -16632,51 +19412,82 @@ app.post(BASE + "/admin/update-order-status", async (c) => {
       userId: { required: true, type: "string", maxLen: 200 },
       localOrderId: { required: true, type: "string", maxLen: 200 },
       status: { required: true, type: "string", maxLen: 50 },
+      note: { type: "string", maxLen: 500 },
+      pickupCode: { type: "string", maxLen: 20 },
     });
     if (!osValid.ok) return c.json({ error: osValid.errors[0] || "userId, localOrderId e status são obrigatórios." }, 400);
     var targetUserId = osValid.sanitized.userId;
     var localOrderId = osValid.sanitized.localOrderId;
-    var newStatus = osValid.sanitized.status;
+    var newStatus = normalizeOrderStatus(osValid.sanitized.status);
 
-    if (!targetUserId || !localOrderId || !newStatus) {
+    if (!targetUserId || !localOrderId || !osValid.sanitized.status) {
       return c.json({ error: "userId, localOrderId e status são obrigatórios." }, 400);
     }
+    if (!newStatus) return c.json({ error: "Status desconhecido: " + osValid.sanitized.status }, 400);
 
     var kvKey = "user_order:" + targetUserId + ":" + localOrderId;
-    var existing = await kv.get(kvKey);
-    if (!existing) return c.json({ error: "Pedido não encontrado." }, 404);
-
-    var order = typeof existing === "string" ? JSON.parse(existing) : existing;
-    order.status = newStatus;
-    order.updatedAt = new Date().toISOString();
-    order.updatedBy = userId;
-
-    // When admin marks order as paid/Pago, confirm SIGE order to trigger stock deduction
-    var statusLower = String(newStatus).toLowerCase();
-    if ((statusLower === "paid" || statusLower === "pago") && order.sigeOrderId) {
-      try {
-        var adminConfirm = await confirmSigeOrder(String(order.sigeOrderId));
-        order.sigeConfirmResult = { ok: adminConfirm.ok, message: adminConfirm.message };
-        // Admin update-order-status: SIGE confirm done
-      } catch (confirmErr: any) {
-        console.error("[Admin update-order-status] SIGE confirm error (non-fatal): " + confirmErr.message);
+    // Order lock: payment webhooks, refunds and RMAs write the same record
+    return await withKvLock(kvKey, async function (lock) {
+      var existing = await kv.get(kvKey);
+      if (!existing) return c.json({ error: "Pedido não encontrado." }, 404);
+
+      var order = typeof existing === "string" ? JSON.parse(existing) : existing;
+      // Retire na loja: handing the order over requires the code the customer received
+      var osPickup = isPickupOrder(order);
+      if (osPickup && newStatus === "delivered" && normalizeOrderStatus(order.status) === "ready_for_pickup" && !pickupCodeMatches(order, osValid.sanitized.pickupCode)) {
+        return c.json({ error: "Codigo de retirada invalido. Confira o codigo apresentado pelo cliente." }, 400);
+      }
+      var adminEmail = await _getUserEmailById(userId);
+      var osResult = transitionOrder(order, newStatus, { type: "admin", id: userId, name: adminEmail }, { note: osValid.sanitized.note || undefined });
+      if (!osResult.ok) return c.json({ error: osResult.error, allowed: osResult.allowed }, 409);
+      if (!osResult.changed) return c.json({ success: true, changed: false, statusHistory: order.statusHistory });
+
+      if (osPickup && newStatus === "ready_for_pickup") {
+        if (!order.pickup) {
+          var osBranch = await _loadBranch(pickupBranchId(order.shippingOption.carrierId) || "");
+          order.pickup = osBranch ? orderPickupFromBranch(osBranch) : { branchId: pickupBranchId(order.shippingOption.carrierId), nome: order.shippingOption.carrierName || "" };
+        }
+        order.pickup.code = generatePickupCode();
+        order.pickup.readyAt = order.readyForPickupAt;
+      } else if (osPickup && newStatus === "delivered" && order.pickup) {
+        order.pickup.collectedAt = order.deliveredAt;
+      }
+
+      // When admin marks order as paid, confirm SIGE order to trigger stock deduction
+      var statusLower = newStatus;
+      if (statusLower === "paid" && order.sigeOrderId) {
+        try {
+          var adminConfirm = await confirmSigeOrder(String(order.sigeOrderId));
+          order.sigeConfirmResult = { ok: adminConfirm.ok, message: adminConfirm.message };
+          // Admin update-order-status: SIGE confirm done
+        } catch (confirmErr: any) {
+          console.error("[Admin update-order-status] SIGE confirm error (non-fatal): " + confirmErr.message);
+        }
       }
-    }
 
-    await kv.set(kvKey, JSON.stringify(order));
-    // Admin update-order-status: done
+      await _syncOrderStock(kvKey, order);
+      lock.assertHeld();
+      await kv.set(kvKey, JSON.stringify(order));
+      // Admin update-order-status: done
 
-    // Fire-and-forget: send transactional email based on new status
-    try {
-      if (statusLower === "paid" || statusLower === "pago") {
-        _sendPaymentApprovedEmail(order).catch(function (e2: any) { console.error("[Email] payment approved fire-forget err:", e2); });
-      } else if (statusLower === "enviado" || statusLower === "shipped" || statusLower === "em_transporte") {
-        _sendShippingNotificationEmail(order).catch(function (e2: any) { console.error("[Email] shipping notification fire-forget err:", e2); });
+      // Fire-and-forget: send transactional email based on new status
+      try {
+        if (statusLower === "paid") {
+          _sendPaymentApprovedEmail(order).catch(function (e2: any) { console.error("[Email] payment approved fire-forget err:", e2); });
+        } else if (statusLower === "shipped") {
+          _sendShippingNotificationEmail(order).catch(function (e2: any) { console.error("[Email] shipping notification fire-forget err:", e2); });
+        } else if (statusLower === "ready_for_pickup") {
+          _sendPickupReadyEmail(order).catch(function (e2: any) { console.error("[Email] pickup ready fire-forget err:", e2); });
+        }
+      } catch (_emailErr) { /* non-fatal */ }
+      if (statusLower === "shipped" || statusLower === "delivered") {
+        _scheduleReviewRequest(order, targetUserId, statusLower).catch(function (e2: any) { console.error("[ReviewRequests] schedule fire-forget err:", e2); });
       }
-    } catch (_emailErr) { /* non-fatal */ }
 
-    return c.json({ success: true });
+      return c.json({ success: true, changed: true, statusHistory: order.statusHistory });
+    });
   } catch (e: any) {
+    if (e instanceof kvAtomic.KvLockTimeoutError || e instanceof kvAtomic.KvLockLostError) return c.json({ error: "Pedido em atualizacao por outra operacao. Tente novamente." }, 409);
     console.error("[Admin update-order-status] Exception:", e);
     return c.json({ error: "Erro ao atualizar status do pedido." }, 500);
   }
@@ -16731,12 +19542,13 @@ app.post(BASE + "/admin/fix-card-orders", async (c) => {
             var mpStatus = mpData.status;
 
             if (mpStatus === "approved") {
-              order.status = "paid";
               order.paidAt = order.paidAt || mpData.date_approved || order.createdAt || new Date().toISOString();
+              transitionOrder(order, "paid", { type: "admin", id: adminId }, { note: "Pagamento verificado no Mercado Pago (fix-card-orders)" });
               order.fixedBy = "admin-fix-card-orders-verified";
               order.fixedAt = new Date().toISOString();
               order.mpVerifiedStatus = mpStatus;
               var fixKey = "user_order:" + (order.createdBy || "") + ":" + (order.localOrderId || "");
+              await _syncOrderStock(fixKey, order);
               await kv.set(fixKey, JSON.stringify(order));
               fixedIds.push(order.localOrderId || "unknown");
               fixed++;
@@ -16817,8 +19629,8 @@ app.post(BASE + "/admin/revert-blind-fix", async (c) => {
                 reApprovedIds.push(orderId);
                 reApproved++;
               } else {
-                // MP explicitly says NOT approved — revert
-                order.status = "awaiting_payment";
+                // MP explicitly says NOT approved — revert (outside the state machine: undoes a wrong "paid")
+                transitionOrder(order, "awaiting_payment", { type: "admin", id: adminId }, { force: true, note: "Revertido: Mercado Pago retornou " + mpData.status });
                 delete order.paidAt;
                 order.fixedBy = "reverted-mp-" + mpData.status;
                 order.fixedAt = new Date().toISOString();
@@ -18335,6 +21147,7 @@ app.post(BASE + "/mercadopago/test", async (c) => {
 
 // POST /mercadopago/create-preference — create Checkout Pro preference
 app.post(BASE + "/mercadopago/create-preference", async (c) => {
+  var mpResv: { orderKey: string; skus: string[]; ok: boolean; short: string[] } | null = null;
   try {
     // SECURITY: Require auth — only logged-in users can create charges
     var mpUserId = await getAuthUserId(c.req.raw);
@@ -18354,6 +21167,8 @@ app.post(BASE + "/mercadopago/create-preference", async (c) => {
       payer_name: { type: "string", maxLen: 200 },
       items: { required: true, type: "array", maxItems: 200 },
       shipping_cost: { type: "number", min: 0, max: 99999 },
+      couponCode: { type: "string", maxLen: 50 },
+      shippingCarrierId: { type: "string", maxLen: 100 },
     });
     if (!mpCreateValid.ok) {
       return c.json({ error: mpCreateValid.errors[0] || "Dados invalidos." }, 400);
@@ -18372,18 +21187,24 @@ app.post(BASE + "/mercadopago/create-preference", async (c) => {
     var mpItemsForStock = items.map(function(it: any) {
       return { sku: it.item_id || it.id || "", quantity: it.quantity || 1 };
     });
-    var mpStockCheck = await _validateStock(mpItemsForStock);
+    var mpStockCheck = await _validateStock(mpItemsForStock, order_id ? _checkoutOrderKey(mpUserId, order_id) : undefined);
     if (!mpStockCheck.ok) {
       console.warn("[MercadoPago] STOCK BLOCKED: " + mpStockCheck.outOfStock.join(", "));
       return c.json({ error: "Itens sem estoque disponivel: " + mpStockCheck.outOfStock.join(", ") }, 400);
     }
 
     // SECURITY: Validate prices server-side (allow up to 45% discount for coupons)
+    var mpCouponCode = body.couponCode ? String(body.couponCode).substring(0, 50) : "";
+    var mpCouponEval: CouponEvaluation | null = null;
     try {
       var mpItemsForValidation = items.map(function(it: any) {
         return { item_id: it.item_id || it.id || "", sku: it.item_id || it.id || "", price_cents: it.price_cents || Math.round((it.unit_price || 0) * 100), quantity: it.quantity || 1 };
       });
-      var mpPriceCheck = await _validatePaymentPrices(mpItemsForValidation, 45);
+      var mpPriceCheck = await _validatePaymentPrices(mpItemsForValidation, 45, mpUserId, mpCouponCode ? {
+        code: mpCouponCode,
+        shippingCents: Math.round((Number(shipping_cost) || 0) * 100),
+        shippingCarrierId: body.shippingCarrierId ? String(body.shippingCarrierId).substring(0, 100) : "",
+      } : null);
       // MercadoPago: price validation done
       if (!mpPriceCheck.ok) {
         console.warn("[MercadoPago] PRICE TAMPERING BLOCKED");
@@ -18392,24 +21213,43 @@ app.post(BASE + "/mercadopago/create-preference", async (c) => {
       if (mpPriceCheck.flaggedItems.length > 0) {
         console.warn("[MercadoPago] PRICE FLAGGED: " + mpPriceCheck.flaggedItems.join(", "));
       }
+      if (mpPriceCheck.couponEvaluation && mpPriceCheck.couponEvaluation.valid) {
+        mpCouponEval = mpPriceCheck.couponEvaluation;
+      } else if (mpCouponCode) {
+        console.warn("[MercadoPago] Coupon " + mpCouponCode + " rejected for order " + (order_id || "?") + ": " + mpPriceCheck.couponError);
+      }
     } catch (pvErr3) {
       console.error("[MercadoPago] Price validation error (non-blocking): " + pvErr3);
     }
 
-    const mpItems = items.map((it: any) => ({
-      id: it.item_id || it.id || "item",
-      title: it.description || it.title || "Produto",
-      quantity: it.quantity || 1,
-      unit_price: it.unit_price || (it.price_cents ? it.price_cents / 100 : 0),
-      currency_id: "BRL",
-    }));
+    // Coupon: Checkout Pro has no order-level discount, so the engine's line discounts
+    // go into the unit prices (MP rejects zero-priced items → floor of R$ 0,01)
+    const mpItems = items.map((it: any) => {
+      var mpQty = it.quantity || 1;
+      var mpUnit = it.unit_price || (it.price_cents ? it.price_cents / 100 : 0);
+      var mpLineDiscount = mpCouponEval ? (mpCouponEval.lineDiscounts[it.item_id || it.id || ""] || 0) : 0;
+      if (mpLineDiscount > 0) {
+        mpUnit = Math.max(0.01, Math.round((Math.round(mpUnit * 100) * mpQty - mpLineDiscount) / mpQty) / 100);
+      }
+      return {
+        id: it.item_id || it.id || "item",
+        title: it.description || it.title || "Produto",
+        quantity: mpQty,
+        unit_price: mpUnit,
+        currency_id: "BRL",
+      };
+    });
 
-    if (shipping_cost && shipping_cost > 0) {
+    var mpShippingCost = Number(shipping_cost) || 0;
+    if (mpCouponEval && mpCouponEval.shippingDiscountCents > 0) {
+      mpShippingCost = Math.max(0, Math.round(mpShippingCost * 100 - mpCouponEval.shippingDiscountCents) / 100);
+    }
+    if (mpShippingCost > 0) {
       mpItems.push({
         id: "shipping",
         title: "Frete",
         quantity: 1,
-        unit_price: shipping_cost,
+        unit_price: mpShippingCost,
         currency_id: "BRL",
       });
     }
@@ -18454,6 +21294,14 @@ app.post(BASE + "/mercadopago/create-preference", async (c) => {
       if (Object.keys(validBackUrls).length > 0) preference.back_urls = validBackUrls;
     }
 
+    if (order_id) {
+      mpResv = await _reserveChargeStock(mpUserId, order_id, mpItemsForStock, "mercadopago");
+      if (!mpResv.ok) {
+        console.warn("[MercadoPago] STOCK RESERVATION FAILED for order " + order_id + ": " + mpResv.short.join(", "));
+        return c.json({ error: "Itens sem estoque disponivel: " + mpResv.short.join(", ") }, 409);
+      }
+    }
+
     // SECURITY: Deterministic idempotency key based on order_id prevents duplicate
     // payment preferences on network retries. Falls back to random UUID if no order_id.
     const result = await mpApiFetch("/checkout/preferences", creds.accessToken, {
@@ -18464,12 +21312,14 @@ app.post(BASE + "/mercadopago/create-preference", async (c) => {
 
     if (!result.ok) {
       console.error("[MercadoPago] Create preference error: HTTP " + result.status);
+      await _releaseChargeStock(mpResv);
       return c.json({
         success: false,
         error: "Erro ao criar preferencia de pagamento.",
       }, 400);
     }
 
+    mpResv = null;
     var txKey = "mp_tx:" + (result.json?.id || Date.now());
     await kv.set(txKey, JSON.stringify({
       type: "preference",
@@ -18493,12 +21343,14 @@ app.post(BASE + "/mercadopago/create-preference", async (c) => {
     });
   } catch (e: any) {
     console.error("[MercadoPago] Create preference exception:", e);
+    await _releaseChargeStock(mpResv);
     return c.json({ error: "Erro ao criar preferência de pagamento." }, 500);
   }
 });
 
 // POST /mercadopago/process-card-payment — Checkout Transparente: process credit card payment
 app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
+  var ccResv: { orderKey: string; skus: string[]; ok: boolean; short: string[] } | null = null;
   try {
     var ccUserId = await getAuthUserId(c.req.raw);
     if (!ccUserId) return c.json({ error: "Autenticacao necessaria." }, 401);
@@ -18522,6 +21374,7 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
       payer_phone: { type: "string", maxLen: 30 },
       payer_address: { type: "object" },
       shipping_address: { type: "object" },
+      couponCode: { type: "string", maxLen: 50 },
     });
     if (!ccValid.ok) return c.json({ error: ccValid.errors[0] || "Dados invalidos." }, 400);
 
@@ -18545,7 +21398,7 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
       var ccItemsForStock = body.items.map(function(it: any) {
         return { sku: it.sku || it.item_id || "", quantity: it.quantity || 1 };
       });
-      var ccStockCheck = await _validateStock(ccItemsForStock);
+      var ccStockCheck = await _validateStock(ccItemsForStock, _checkoutOrderKey(ccUserId, order_id));
       if (!ccStockCheck.ok) {
         console.warn("[MercadoPago Card] STOCK BLOCKED for order " + order_id + ": " + ccStockCheck.outOfStock.join(", "));
         return c.json({ error: "Itens sem estoque disponivel: " + ccStockCheck.outOfStock.join(", "), success: false }, 400);
@@ -18566,11 +21419,28 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
         var ccItemsForVal = body.items.map(function(it: any) {
           return { item_id: it.sku || it.item_id || "", sku: it.sku || it.item_id || "", price_cents: Math.round((it.unit_price || 0) * 100), quantity: it.quantity || 1 };
         });
-        var ccPriceCheck = await _validatePaymentPrices(ccItemsForVal, 45);
+        var ccShipping = body.shippingOption || null;
+        var ccShippingCents = Math.round((Number(ccShipping ? ccShipping.price : body.shipping_cost) || 0) * 100);
+        var ccCouponCode = body.couponCode ? String(body.couponCode).substring(0, 50) : "";
+        var ccPriceCheck = await _validatePaymentPrices(ccItemsForVal, 45, ccUserId, ccCouponCode ? {
+          code: ccCouponCode,
+          cpf: payer_cpf ? String(payer_cpf).replace(/\D/g, "") : "",
+          shippingCents: ccShippingCents,
+          shippingCarrierId: ccShipping && ccShipping.carrierId ? String(ccShipping.carrierId).substring(0, 100) : "",
+        } : null);
         if (!ccPriceCheck.ok) {
           console.warn("[MercadoPago Card] PRICE TAMPERING BLOCKED");
           return c.json({ error: "Valores dos itens nao conferem com o catalogo. Atualize a pagina." }, 400);
         }
+        if (ccCouponCode && ccPriceCheck.couponError) {
+          console.warn("[MercadoPago Card] Coupon " + ccCouponCode + " rejected for order " + order_id + ": " + ccPriceCheck.couponError);
+        }
+        // SECURITY: amount charged can't be below items + shipping − engine coupon discount
+        var ccMinAmountCents = ccPriceCheck.clientTotalCents + ccShippingCents - ccPriceCheck.couponDiscountCents;
+        if (Math.round(transaction_amount * 100) < ccMinAmountCents - 1) {
+          console.warn("[MercadoPago Card] AMOUNT TAMPERING BLOCKED for order " + order_id + ": amount=" + transaction_amount + " min=" + (ccMinAmountCents / 100).toFixed(2));
+          return c.json({ error: "Valor do pagamento diverge do total do pedido. Atualize a pagina.", success: false }, 400);
+        }
       } catch (pvErr4) {
         console.error("[MercadoPago Card] Price validation error (non-blocking): " + pvErr4);
       }
@@ -18660,6 +21530,14 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
     var supaUrlCC = Deno.env.get("SUPABASE_URL") || "";
     paymentPayload.notification_url = supaUrlCC + "/functions/v1/make-server-b7b07654/mercadopago/webhook";
 
+    if (ccItemsForStock) {
+      ccResv = await _reserveChargeStock(ccUserId, order_id, ccItemsForStock, "credit_card");
+      if (!ccResv.ok) {
+        console.warn("[MercadoPago Card] STOCK RESERVATION FAILED for order " + order_id + ": " + ccResv.short.join(", "));
+        return c.json({ error: "Itens sem estoque disponivel: " + ccResv.short.join(", "), success: false }, 409);
+      }
+    }
+
     var ccResult = await mpApiFetch("/v1/payments", creds.accessToken, {
       method: "POST",
       body: paymentPayload,
@@ -18668,6 +21546,7 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
 
     if (!ccResult.ok) {
       console.error("[MercadoPago Card] Payment error: HTTP " + ccResult.status, JSON.stringify(ccResult.json));
+      await _releaseChargeStock(ccResv);
       var ccErrMsg = "Erro ao processar pagamento com cartão.";
       var ccErrCause = ccResult.json?.cause;
       if (Array.isArray(ccErrCause) && ccErrCause.length > 0) {
@@ -18693,6 +21572,9 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
     }
 
     var ccPayment = ccResult.json;
+    // A declined card comes back as HTTP 201 with status "rejected"
+    if (ccPayment?.status === "rejected" || ccPayment?.status === "cancelled") await _releaseChargeStock(ccResv);
+    ccResv = null;
     // Save transaction to KV
     var ccTxKey = "mp_tx:" + (ccPayment?.id || Date.now());
     await kv.set(ccTxKey, JSON.stringify({
@@ -18717,6 +21599,7 @@ app.post(BASE + "/mercadopago/process-card-payment", async (c) => {
     });
   } catch (e: any) {
     console.error("[MercadoPago Card] Exception:", e);
+    await _releaseChargeStock(ccResv);
     return c.json({ error: "Erro ao processar pagamento com cartão." }, 500);
   }
 });
@@ -18956,13 +21839,19 @@ app.post(BASE + "/mercadopago/webhook", async (c) => {
                 if (!ok2) continue;
                 var orderData = JSON.parse(ok2);
                 if (orderData.orderId === p.external_reference || orderData.localOrderId === p.external_reference) {
-                  orderData.status = "paid";
-                  orderData.paidAt = new Date().toISOString();
-                  orderData.mpPaymentId = paymentId;
-                  orderData.emailSent = true;
                   var matchedOrderId = orderData.orderId || orderData.localOrderId;
                   var orderKvKey = "user_order:" + (orderData.userId || orderData.createdBy) + ":" + matchedOrderId;
-                  await kv.set(orderKvKey, JSON.stringify(orderData));
+                  // Re-read under the order lock — the scanned copy may already be stale
+                  var mpSaved = await _updateOrderRecord(orderKvKey, async function (o: any) {
+                    var mpTransition = transitionOrder(o, "paid", { type: "system", id: "mercadopago" }, { note: "Webhook Mercado Pago: approved (" + paymentId + ")" });
+                    if (!mpTransition.ok || !mpTransition.changed) return false;
+                    o.mpPaymentId = paymentId;
+                    o.emailSent = true;
+                    await _syncOrderStock(orderKvKey, o);
+                    return true;
+                  });
+                  if (!mpSaved) break;
+                  orderData = mpSaved;
                   // MercadoPago: order marked as paid via webhook
                   // Send payment approved email (fire-and-forget)
                   _sendPaymentApprovedEmail(orderData).catch(function(mpEmailErr) {
@@ -19064,18 +21953,21 @@ app.post(BASE + "/admin/audit-log", async (c) => {
   }
 });
 
-// GET /admin/audit-logs — list all audit logs
+// GET /admin/audit-logs — list all audit logs (?entity= KV key, type or key prefix)
 app.get(BASE + "/admin/audit-logs", async (c) => {
   try {
     var userId = await getAuthUserId(c.req.raw);
     if (!userId) {
       return c.json({ error: "Unauthorized: admin audit-logs list" }, 401);
     }
+    var entityFilter = (c.req.query("entity") || "").substring(0, 200);
     var raws = await kv.getByPrefix("admin_audit:");
     var logs: any[] = [];
     if (Array.isArray(raws)) {
       for (var r of raws) {
-        if (r) logs.push(r);
+        if (!r) continue;
+        if (entityFilter && !matchesEntity(r.entities || [], entityFilter)) continue;
+        logs.push(publicAuditEntry(r));
       }
     }
     // Sort newest first
@@ -19089,7 +21981,61 @@ app.get(BASE + "/admin/audit-logs", async (c) => {
   }
 });
 
-// DELETE /admin/audit-log/:id — delete a specific log
+// POST /admin/audit-log/:id/revert — writes the recorded "before" values back.
+// Refuses when a key changed again since (unless force) or when the entry has
+// values that were masked/too large. The revert itself is audited (revertOf).
+app.post(BASE + "/admin/audit-log/:id/revert", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: "Unauthorized: admin audit-log revert" }, 401);
+    }
+    var logId = (c.req.param("id") || "").substring(0, 100);
+    if (!logId) return c.json({ error: "ID invalido." }, 400);
+    var body: any = {};
+    try { body = await c.req.json(); } catch { body = {}; }
+    var force = body && body.force === true;
+
+    return await withMutex("audit_revert:" + logId, async function () {
+      var entry: any = await kv.get("admin_audit:" + logId);
+      if (!entry) return c.json({ error: "Registro nao encontrado." }, 404);
+      var changes: AuditChange[] = Array.isArray(entry.changes) ? entry.changes : [];
+      if (changes.length === 0) return c.json({ error: "Este registro nao tem alteracoes de dados para reverter." }, 400);
+      if (entry.revertedAt) return c.json({ error: "Alteracao ja revertida em " + new Date(entry.revertedAt).toISOString() + "." }, 409);
+      var blocked = changes.filter(function (ch) { return !ch.revertible; });
+      if (blocked.length > 0) {
+        return c.json({ error: "Alteracao nao reversivel: " + blocked.map(function (ch) { return ch.key + " (" + (ch.note || "") + ")"; }).join(", ") }, 409);
+      }
+      if (entry.truncatedKeys > 0 && !force) {
+        return c.json({ error: "A requisicao alterou " + entry.truncatedKeys + " chave(s) alem das registradas; a reversao seria parcial.", partial: true }, 409);
+      }
+      var currents = await Promise.all(changes.map(function (ch) { return kv.get(ch.key); }));
+      var conflicts = changes.filter(function (ch, i) { return !sameAuditValue(currents[i], ch.after); }).map(function (ch) { return ch.key; });
+      if (conflicts.length > 0 && !force) {
+        return c.json({ error: "Alterado novamente depois deste registro: " + conflicts.join(", "), conflicts: conflicts }, 409);
+      }
+
+      (c as any).set("auditMeta", { revertOf: logId, details: "Reverte " + entry.action + " (" + entry.createdAt + ")" });
+      for (var ch of changes) {
+        if (ch.op === "create") await kv.del(ch.key);
+        else await kv.set(ch.key, ch.before);
+      }
+      // In-memory caches (config, coupons, prices...) may hold the reverted values
+      for (var mk of Object.keys(_memCache)) memClear(mk);
+
+      var actor = (c as any).get("adminUser");
+      entry.revertedAt = Date.now();
+      entry.revertedBy = (actor && actor.email) || userId;
+      await kv.set("admin_audit:" + logId, entry);
+      return c.json({ ok: true, reverted: changes.map(function (ch) { return ch.key; }), forced: force && conflicts.length > 0 });
+    });
+  } catch (e: any) {
+    console.error("[AuditLog] Revert error:", e);
+    return c.json({ error: "Erro ao reverter alteracao." }, 500);
+  }
+});
+
+// DELETE /admin/audit-log/:id — delete a specific log (server-recorded entries are kept)
 app.delete(BASE + "/admin/audit-log/:id", async (c) => {
   try {
     var userId = await getAuthUserId(c.req.raw);
@@ -19098,6 +22044,10 @@ app.delete(BASE + "/admin/audit-log/:id", async (c) => {
     }
     var logId = (c.req.param("id") || "").substring(0, 100);
     if (!logId) return c.json({ error: "ID invalido." }, 400);
+    var existing: any = await kv.get("admin_audit:" + logId);
+    if (existing && existing.source === "server") {
+      return c.json({ error: "Registros de auditoria do servidor nao podem ser excluidos." }, 403);
+    }
     await kv.del("admin_audit:" + logId);
     // AuditLog: deleted
     return c.json({ deleted: true });
@@ -19107,7 +22057,7 @@ app.delete(BASE + "/admin/audit-log/:id", async (c) => {
   }
 });
 
-// POST /admin/audit-logs/clear — clear all audit logs
+// POST /admin/audit-logs/clear — clear panel-posted logs (login/logout)
 app.post(BASE + "/admin/audit-logs/clear", async (c) => {
   try {
     var userId = await getAuthUserId(c.req.raw);
@@ -19118,7 +22068,8 @@ app.post(BASE + "/admin/audit-logs/clear", async (c) => {
     var keys: string[] = [];
     if (Array.isArray(raws)) {
       for (var r of raws) {
-        if (r && r.id) {
+        // Server-recorded entries are the audit trail itself — only panel events are cleared
+        if (r && r.id && r.source !== "server") {
           keys.push("admin_audit:" + r.id);
         }
       }
@@ -19138,215 +22089,224 @@ app.post(BASE + "/admin/audit-logs/clear", async (c) => {
 // ─── SUPER PROMO ─────────────────────────────────────
 // ═══════════════════════════════════════════════════════
 
-// GET /promo/debug — debug endpoint to diagnose why promo isn't showing (ADMIN ONLY)
+// Campaigns live under promo_campaign:<id>. The old single "super_promo" record is
+// listed as one more campaign (priority 0, slot "top") until the admin list migrates it.
+var PROMO_CAMPAIGN_PREFIX = "promo_campaign:";
+
+async function _loadPromoCampaigns(): Promise<SuperPromoCampaign[]> {
+  var results = await Promise.all([kv.getByPrefix(PROMO_CAMPAIGN_PREFIX), kv.get("super_promo")]);
+  var raws = results[0] || [];
+  var list: SuperPromoCampaign[] = [];
+  var ids: Record<string, boolean> = {};
+  for (var i = 0; i < raws.length; i++) {
+    var parsed = parsePromoValue(raws[i]);
+    if (!parsed || !parsed.id || ids[parsed.id]) continue;
+    ids[parsed.id] = true;
+    list.push(normalizePromoCampaign(parsed, parsed));
+  }
+  var legacy = parsePromoValue(results[1]);
+  if (legacy) {
+    var legacyPrev = { ...legacy, id: legacy.id || "super_promo" };
+    if (!ids[legacyPrev.id]) list.push(normalizePromoCampaign(legacyPrev, legacyPrev));
+  }
+  return list;
+}
+
+// Per-SKU winners (10s per isolate; cleared when a campaign is saved/deleted)
+async function _getResolvedSuperPromos(): Promise<ResolvedSuperPromos> {
+  var cached = memGet("_super_promo_resolved");
+  if (cached) return cached;
+  var resolved = resolveSuperPromos(await _loadPromoCampaigns(), Date.now());
+  memSet("_super_promo_resolved", resolved, 10 * 1000);
+  return resolved;
+}
+
+function _invalidateSuperPromos(): void {
+  memClear("_super_promo_resolved");
+  memClear("_super_promo_skus"); // coupons with excludeSuperPromo
+  invalidateHomepageCache();
+}
+
+/** Public payload shared by /promo/active and homepage-init */
+function _superPromoPayload(resolved: ResolvedSuperPromos): any {
+  var byId: Record<string, SuperPromoCampaign> = {};
+  for (var i = 0; i < resolved.campaigns.length; i++) byId[resolved.campaigns[i].id] = resolved.campaigns[i];
+  return {
+    promo: resolved.slots.top ? byId[resolved.slots.top] : null,
+    campaigns: resolved.campaigns,
+    slots: resolved.slots,
+  };
+}
+
+// GET /promo/debug — debug endpoint to diagnose why a campaign isn't showing (ADMIN ONLY)
 app.get(BASE + "/promo/debug", async (c) => {
   try {
     var _pdAdmin = await isAdminUser(c.req.raw);
     if (!_pdAdmin.isAdmin) return c.json({ error: "Nao autorizado." }, 403);
-    var kvRaw: any = await kv.get("super_promo");
-    var directResult = await supabaseAdmin
-      .from("kv_store_b7b07654")
-      .select("key, value")
-      .eq("key", "super_promo")
-      .maybeSingle();
-    var directRaw = directResult.data ? directResult.data.value : null;
-    var kvParsed: any = null;
-    var kvType = typeof kvRaw;
-    if (kvRaw) {
-      var kvU = kvRaw;
-      if (typeof kvU === "object" && kvU !== null && !Array.isArray(kvU) && kvU.value !== undefined) kvU = kvU.value;
-      kvParsed = typeof kvU === "string" ? JSON.parse(kvU) : kvU;
-      if (typeof kvParsed === "string") { try { kvParsed = JSON.parse(kvParsed); } catch (_e) {} }
-    }
-    var directParsed: any = null;
-    var directType = typeof directRaw;
-    if (directRaw) {
-      var dU = directRaw;
-      if (typeof dU === "object" && dU !== null && !Array.isArray(dU) && dU.value !== undefined) dU = dU.value;
-      directParsed = typeof dU === "string" ? JSON.parse(dU) : dU;
-      if (typeof directParsed === "string") { try { directParsed = JSON.parse(directParsed); } catch (_e) {} }
-    }
     var now = Date.now();
-    var obj = kvParsed || directParsed;
-    var checks = {
-      hasData: !!obj, enabled: obj ? obj.enabled : null, enabledType: obj ? typeof obj.enabled : null,
-      startDate: obj ? obj.startDate : null, endDate: obj ? obj.endDate : null, now: now,
-      startOk: obj ? now >= obj.startDate : null, endOk: obj ? now <= obj.endDate : null,
-      productsCount: obj && obj.products ? obj.products.length : 0, wouldShow: false,
-    };
-    if (checks.hasData && checks.enabled === true && checks.startOk && checks.endOk && checks.productsCount > 0) checks.wouldShow = true;
+    var list = await _loadPromoCampaigns();
+    var resolved = resolveSuperPromos(list, now);
+    var wonCount: Record<string, number> = {};
+    for (var sku in resolved.skuCampaigns) {
+      var cid = resolved.skuCampaigns[sku];
+      wonCount[cid] = (wonCount[cid] || 0) + 1;
+    }
+    var checks = list.slice().sort(comparePromoCampaigns).map(function (p) {
+      return {
+        id: p.id, title: p.title, status: promoCampaignStatus(p, now), priority: p.priority, homepageSlot: p.homepageSlot,
+        startDate: p.startDate, endDate: p.endDate, productsCount: p.products.length, productsWon: wonCount[p.id] || 0,
+      };
+    });
     var hpInfo = {
       cached: !!_homepageInitCache, age: _homepageInitCache ? (now - _homepageInitCache.ts) : null,
       ttl: HOMEPAGE_INIT_CACHE_TTL, promoInCache: _homepageInitCache && _homepageInitCache.json ? !!_homepageInitCache.json.promo : null,
     };
-    return c.json({
-      kvType, directType,
-      kvSample: typeof kvRaw === "string" ? kvRaw.substring(0, 300) : (kvRaw && typeof kvRaw === "object" ? JSON.stringify(kvRaw).substring(0, 300) : String(kvRaw)),
-      directSample: typeof directRaw === "string" ? directRaw.substring(0, 300) : (directRaw && typeof directRaw === "object" ? JSON.stringify(directRaw).substring(0, 300) : String(directRaw)),
-      parsedKeys: obj ? Object.keys(obj).slice(0, 15) : null,
-      checks, hpInfo,
-    });
+    return c.json({ now, campaigns: checks, slots: resolved.slots, hpInfo });
   } catch (e: any) { return c.json({ error: _safeError("Erro no debug promo", e) }, 500); }
 });
 
-// GET /promo/active-test — simulates exactly what homepage-init does, plus clears cache (ADMIN ONLY)
+// GET /promo/active-test — resolves campaigns bypassing caches, then clears them (ADMIN ONLY)
 app.get(BASE + "/promo/active-test", async (c) => {
   try {
     var _patAdmin = await isAdminUser(c.req.raw);
     if (!_patAdmin.isAdmin) return c.json({ error: "Nao autorizado." }, 403);
-    var batchResult = await supabaseAdmin
-      .from("kv_store_b7b07654")
-      .select("key, value")
-      .in("key", ["super_promo"]);
-    var batchRows = (batchResult.data || []) as Array<{ key: string; value: any }>;
-    var batchRaw = batchRows.length > 0 ? batchRows[0].value : null;
-    var bU = batchRaw;
-    if (typeof bU === "object" && bU !== null && !Array.isArray(bU) && bU.value !== undefined) bU = bU.value;
-    var promoResult: any = null;
-    var parseError: string | null = null;
-    if (bU) {
-      try {
-        var promo = typeof bU === "string" ? JSON.parse(bU) : bU;
-        if (typeof promo === "string") { try { promo = JSON.parse(promo); } catch (_e2) {} }
-        if (promo && promo.enabled) {
-          var now = Date.now();
-          if (now >= promo.startDate && now <= promo.endDate && promo.products && promo.products.length > 0) {
-            promoResult = { title: promo.title, enabled: promo.enabled, productsCount: promo.products.length };
-          } else {
-            parseError = "date/products fail: now=" + now + " start=" + promo.startDate + " end=" + promo.endDate + " prod=" + (promo.products ? promo.products.length : 0);
-          }
-        } else {
-          parseError = "not enabled. type=" + typeof promo + " enabled=" + (promo ? promo.enabled : "null") + " keys=" + (promo && typeof promo === "object" ? Object.keys(promo).slice(0, 5).join(",") : "n/a");
-        }
-      } catch (pe: any) { parseError = "parse: " + pe.message; }
-    } else {
-      parseError = "bU falsy. rawType=" + typeof batchRaw + " raw=" + String(batchRaw).substring(0, 100);
-    }
-    _homepageInitCache = null;
-    return c.json({ batchRawType: typeof batchRaw, batchSample: batchRaw ? (typeof batchRaw === "string" ? batchRaw.substring(0, 200) : JSON.stringify(batchRaw).substring(0, 200)) : "null", promoResult, parseError, cacheCleared: true });
+    var resolved = resolveSuperPromos(await _loadPromoCampaigns(), Date.now());
+    _invalidateSuperPromos();
+    var payload = _superPromoPayload(resolved);
+    return c.json({
+      promoResult: payload.promo ? { id: payload.promo.id, title: payload.promo.title, productsCount: payload.promo.products.length } : null,
+      campaigns: resolved.campaigns.map(function (p) { return { id: p.id, title: p.title, homepageSlot: p.homepageSlot, productsWon: p.products.length }; }),
+      slots: resolved.slots,
+      cacheCleared: true,
+    });
   } catch (e: any) { return c.json({ error: _safeError("Erro no active-test promo", e) }, 500); }
 });
 
-// GET /promo/active — public, returns current active promo (if enabled + within date range)
+// GET /promo/active — public, active campaigns (each with the SKUs it won) + homepage slots
 app.get(BASE + "/promo/active", async (c) => {
   try {
-    var raw: any = await kv.get("super_promo");
-    if (!raw) {
-      console.log("[promo/active] No super_promo in KV (raw is falsy)");
-      return c.json({ promo: null });
-    }
-    // Unwrap {value: ...} wrapper from jsonb column
-    if (typeof raw === "object" && raw !== null && !Array.isArray(raw) && raw.value !== undefined) {
-      raw = raw.value;
-    }
-    var promo = typeof raw === "string" ? JSON.parse(raw) : raw;
-    // Double-unwrap: if still a string after first parse (double-encoded JSON)
-    if (typeof promo === "string") {
-      try { promo = JSON.parse(promo); } catch (_e2) { /* not valid JSON */ }
-    }
-    if (!promo || !promo.enabled) {
-      console.log("[promo/active] Promo found but not enabled. enabled=" + (promo ? promo.enabled : "null"));
-      return c.json({ promo: null });
-    }
-    const now = Date.now();
-    if (now < promo.startDate || now > promo.endDate) {
-      console.log("[promo/active] Promo enabled but outside date range. now=" + now + " start=" + promo.startDate + " end=" + promo.endDate);
-      return c.json({ promo: null });
-    }
-    if (!promo.products || promo.products.length === 0) {
-      console.log("[promo/active] Promo enabled+in-range but no products");
-      return c.json({ promo: null });
-    }
-    console.log("[promo/active] Returning active promo: title=" + promo.title + " products=" + promo.products.length);
-    return c.json({ promo });
+    var resolved = await _getResolvedSuperPromos();
+    return c.json({ ..._superPromoPayload(resolved), skuCampaigns: resolved.skuCampaigns });
   } catch (e: any) {
     console.error("[SuperPromo] GET active error:", e);
-    return c.json({ promo: null });
+    return c.json({ promo: null, campaigns: [], slots: { top: null, middle: null }, skuCampaigns: {} });
   }
 });
 
-// GET /admin/promo — admin, returns full promo config
+// GET /admin/promo — admin, campaign currently shown in the homepage "top" slot
 app.get(BASE + "/admin/promo", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
-    var raw: any = await kv.get("super_promo");
-    if (!raw) return c.json({ promo: null });
-    // Unwrap {value: ...} wrapper from jsonb column
-    if (typeof raw === "object" && raw !== null && !Array.isArray(raw) && raw.value !== undefined) {
-      raw = raw.value;
-    }
-    var promo = typeof raw === "string" ? JSON.parse(raw) : raw;
-    // Double-unwrap: if still a string after first parse
-    if (typeof promo === "string") {
-      try { promo = JSON.parse(promo); } catch (_e2) { /* not valid JSON */ }
-    }
-    return c.json({ promo });
+    var payload = _superPromoPayload(resolveSuperPromos(await _loadPromoCampaigns(), Date.now()));
+    return c.json({ promo: payload.promo });
   } catch (e: any) {
     console.error("[SuperPromo] GET admin error:", e);
     return c.json({ error: "Erro ao carregar promo." }, 500);
   }
 });
 
-// POST /admin/promo — admin, save promo config
-app.post(BASE + "/admin/promo", async (c) => {
+// GET /admin/promo/campaigns — admin, every campaign (past, running, upcoming) + resolution
+app.get(BASE + "/admin/promo/campaigns", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
-    const body = await c.req.json();
-    // Input validation for super promo
-    if (!body || typeof body !== "object" || Array.isArray(body)) return c.json({ error: "Body deve ser um objeto JSON." }, 400);
-    var promoValid = validate(body, {
-      title: { type: "string", maxLen: 200 },
-      subtitle: { type: "string", maxLen: 500 },
-      enabled: { type: "boolean" },
-      startDate: { type: "number" },
-      endDate: { type: "number" },
-      discountType: { type: "string", maxLen: 30, oneOf: ["percentage", "fixed"] },
-      discountValue: { type: "number", min: 0, max: 100 },
-      bgColor: { type: "string", maxLen: 20 },
-    });
-    if (!promoValid.ok) return c.json({ error: promoValid.errors[0] || "Dados invalidos." }, 400);
-    var existing: any = null;
-    const raw = await kv.get("super_promo");
-    if (raw) existing = typeof raw === "string" ? JSON.parse(raw) : raw;
-    const promo: any = {
-      id: (existing && existing.id) || ("promo_" + Date.now()),
-      title: body.title || (existing && existing.title) || "Super Promoção",
-      subtitle: body.subtitle !== undefined ? body.subtitle : ((existing && existing.subtitle) || ""),
-      enabled: body.enabled === true,
-      startDate: typeof body.startDate === "number" ? body.startDate : ((existing && existing.startDate) || Date.now()),
-      endDate: typeof body.endDate === "number" ? body.endDate : ((existing && existing.endDate) || (Date.now() + 7 * 24 * 3600000)),
-      discountType: body.discountType || (existing && existing.discountType) || "percentage",
-      discountValue: typeof body.discountValue === "number" ? body.discountValue : ((existing && existing.discountValue) || 10),
-      bgColor: body.bgColor || (existing && existing.bgColor) || "#dc2626",
-      products: Array.isArray(body.products) ? body.products : ((existing && existing.products) || []),
-      createdAt: (existing && existing.createdAt) || Date.now(),
-      updatedAt: Date.now(),
-      updatedBy: userId,
-    };
-    await kv.set("super_promo", JSON.stringify(promo));
-    invalidateHomepageCache();
-    // SuperPromo: saved
-    return c.json({ promo });
+    var list = await _loadPromoCampaigns();
+    // Migrate the legacy single record into its own campaign key
+    var legacyRaw = await kv.get("super_promo");
+    if (legacyRaw) {
+      var legacy = parsePromoValue(legacyRaw);
+      var legacyId = legacy ? (legacy.id || "super_promo") : null;
+      var migrated = legacyId ? list.find(function (p) { return p.id === legacyId; }) : null;
+      if (migrated) await kv.set(PROMO_CAMPAIGN_PREFIX + migrated.id, JSON.stringify(migrated));
+      await kv.del("super_promo");
+      console.log("[SuperPromo] Legacy super_promo migrated to campaign " + legacyId);
+    }
+    var now = Date.now();
+    var resolved = resolveSuperPromos(list, now);
+    list.sort(comparePromoCampaigns);
+    return c.json({
+      campaigns: list.map(function (p) { return { ...p, status: promoCampaignStatus(p, now) }; }),
+      skuCampaigns: resolved.skuCampaigns,
+      slots: resolved.slots,
+      now: now,
+    });
+  } catch (e: any) {
+    console.error("[SuperPromo] GET campaigns error:", e);
+    return c.json({ error: "Erro ao carregar campanhas." }, 500);
+  }
+});
+
+var PROMO_CAMPAIGN_SCHEMA: any = {
+  title: { type: "string", maxLen: 200 },
+  subtitle: { type: "string", maxLen: 500 },
+  enabled: { type: "boolean" },
+  startDate: { type: "number" },
+  endDate: { type: "number" },
+  priority: { type: "number", min: 0, max: 100 },
+  homepageSlot: { type: "string", maxLen: 10, oneOf: PROMO_HOMEPAGE_SLOTS },
+  discountType: { type: "string", maxLen: 30, oneOf: ["percentage", "fixed"] },
+  discountValue: { type: "number", min: 0, max: 99999 },
+  bgColor: { type: "string", maxLen: 20 },
+  products: { type: "array", maxItems: 300 },
+};
+
+async function _savePromoCampaign(c: any, prev: SuperPromoCampaign | null) {
+  const userId = await getAuthUserId(c.req.raw);
+  if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+  const body = await c.req.json();
+  if (!body || typeof body !== "object" || Array.isArray(body)) return c.json({ error: "Body deve ser um objeto JSON." }, 400);
+  var promoValid = validate(body, PROMO_CAMPAIGN_SCHEMA);
+  if (!promoValid.ok) return c.json({ error: promoValid.errors[0] || "Dados invalidos." }, 400);
+  var campaign = normalizePromoCampaign({ ...body, id: undefined }, prev || { id: "promo_" + Date.now() + "_" + Math.random().toString(36).substring(2, 6) });
+  campaign.updatedAt = Date.now();
+  campaign.updatedBy = userId;
+  var err = checkPromoCampaign(campaign);
+  if (err) return c.json({ error: err }, 400);
+  await kv.set(PROMO_CAMPAIGN_PREFIX + campaign.id, JSON.stringify(campaign));
+  _invalidateSuperPromos();
+  return c.json({ campaign: { ...campaign, status: promoCampaignStatus(campaign, Date.now()) } });
+}
+
+// POST /admin/promo/campaigns — admin, create a campaign
+app.post(BASE + "/admin/promo/campaigns", async (c) => {
+  try {
+    return await _savePromoCampaign(c, null);
+  } catch (e: any) {
+    console.error("[SuperPromo] POST campaign error:", e);
+    return c.json({ error: "Erro ao salvar campanha." }, 500);
+  }
+});
+
+// PUT /admin/promo/campaigns/:id — admin, update a campaign
+app.put(BASE + "/admin/promo/campaigns/:id", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 60);
+    var list = await _loadPromoCampaigns();
+    var prev = list.find(function (p) { return p.id === id; });
+    if (!prev) return c.json({ error: "Campanha nao encontrada." }, 404);
+    return await _savePromoCampaign(c, prev);
   } catch (e: any) {
-    console.error("[SuperPromo] POST error:", e);
-    return c.json({ error: "Erro ao salvar promo." }, 500);
+    console.error("[SuperPromo] PUT campaign error:", e);
+    return c.json({ error: "Erro ao salvar campanha." }, 500);
   }
 });
 
-// DELETE /admin/promo — admin, delete promo
-app.delete(BASE + "/admin/promo", async (c) => {
+// DELETE /admin/promo/campaigns/:id — admin, delete a campaign
+app.delete(BASE + "/admin/promo/campaigns/:id", async (c) => {
   try {
     const userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
-    await kv.del("super_promo");
-    invalidateHomepageCache();
-    // SuperPromo: deleted
+    var id = (c.req.param("id") || "").substring(0, 60);
+    if (!id) return c.json({ error: "ID invalido." }, 400);
+    await kv.del(PROMO_CAMPAIGN_PREFIX + id);
+    var legacy = parsePromoValue(await kv.get("super_promo"));
+    if (legacy && (legacy.id || "super_promo") === id) await kv.del("super_promo");
+    _invalidateSuperPromos();
     return c.json({ deleted: true });
   } catch (e: any) {
-    console.error("[SuperPromo] DELETE error:", e);
-    return c.json({ error: "Erro ao deletar promo." }, 500);
+    console.error("[SuperPromo] DELETE campaign error:", e);
+    return c.json({ error: "Erro ao deletar campanha." }, 500);
   }
 });
 
@@ -19883,7 +22843,6 @@ app.get(BASE + "/homepage-init", async (c) => {
       "site_footer_logo",
       "ga4_config",
       "category_tree",
-      "super_promo",
       "price_config",
       "marketing_config",
       "exit_intent_config",
@@ -19904,8 +22863,9 @@ app.get(BASE + "/homepage-init", async (c) => {
     var fbadgePromise = kv.getByPrefix("fbadge:");
     var brandsPromise = kv.getByPrefix("brand:");
     var metasPromise = getAllProductMetas();
+    var superPromosPromise = _getResolvedSuperPromos();
 
-    var settled = await Promise.allSettled([kvPromise, bannersPromise, hpcatPromise, midB1Promise, midB2Promise, midB3Promise, midB4Promise, fbadgePromise, brandsPromise, metasPromise]);
+    var settled = await Promise.allSettled([kvPromise, bannersPromise, hpcatPromise, midB1Promise, midB2Promise, midB3Promise, midB4Promise, fbadgePromise, brandsPromise, metasPromise, superPromosPromise]);
 
     // Build a key->value map from the KV results
     // IMPORTANT: unwrap {value: "..."} wrapper that Supabase jsonb column may return
@@ -19934,13 +22894,13 @@ app.get(BASE + "/homepage-init", async (c) => {
     var fbadgeRaws = settled[7].status === "fulfilled" ? settled[7].value : [];
     var brandRaws = settled[8].status === "fulfilled" ? settled[8].value : [];
     var allMetasMap = settled[9].status === "fulfilled" ? settled[9].value : new Map();
+    var superPromos = settled[10].status === "fulfilled" ? settled[10].value : null;
 
     // Access KV results by key (order-safe)
     var logoMeta = kvMap["site_logo"] || null;
     var footerLogoMeta = kvMap["site_footer_logo"] || null;
     var ga4Raw = kvMap["ga4_config"] || null;
     var categoryTreeRaw = kvMap["category_tree"] || null;
-    var superPromoRaw = kvMap["super_promo"] || null;
     var priceConfigRaw = kvMap["price_config"] || null;
     var marketingConfigRaw = kvMap["marketing_config"] || null;
     var exitIntentConfigRaw = kvMap["exit_intent_config"] || null;
@@ -20046,28 +23006,8 @@ app.get(BASE + "/homepage-init", async (c) => {
       ? (typeof priceConfigRaw === "string" ? JSON.parse(priceConfigRaw) : priceConfigRaw)
       : { tier: "v2", showPrice: true };
 
-    // ── Super Promo ──
-    var promoResult = null;
-    if (superPromoRaw) {
-      var promo = typeof superPromoRaw === "string" ? JSON.parse(superPromoRaw) : superPromoRaw;
-      // Double-unwrap: if promo is still a string after first parse (double-encoded JSON)
-      if (typeof promo === "string") {
-        try { promo = JSON.parse(promo); } catch (_e2) { /* not valid JSON, ignore */ }
-      }
-      if (promo && promo.enabled) {
-        var now = Date.now();
-        if (now >= promo.startDate && now <= promo.endDate && promo.products && promo.products.length > 0) {
-          promoResult = promo;
-          console.log("[homepage-init] SuperPromo INCLUDED: title=" + promo.title + " products=" + promo.products.length);
-        } else {
-          console.log("[homepage-init] SuperPromo enabled but date/products check failed: now=" + now + " start=" + promo.startDate + " end=" + promo.endDate + " products=" + (promo.products ? promo.products.length : 0));
-        }
-      } else {
-        console.log("[homepage-init] SuperPromo raw found but not enabled. type=" + typeof promo + " enabled=" + (promo ? promo.enabled : "null") + " keys=" + (promo && typeof promo === "object" ? Object.keys(promo).slice(0, 8).join(",") : "n/a"));
-      }
-    } else {
-      console.log("[homepage-init] SuperPromo: superPromoRaw is FALSY. kvMap keys=" + Object.keys(kvMap).join(","));
-    }
+    // ── Super Promo campaigns (resolved per SKU; "top" slot kept as `promo`) ──
+    var superPromoPayload = superPromos ? _superPromoPayload(superPromos) : { promo: null, campaigns: [], slots: { top: null, middle: null } };
 
     // ── Banners (active, sorted, with signed URLs) ──
     var bannersList: any[] = [];
@@ -20226,7 +23166,9 @@ app.get(BASE + "/homepage-init", async (c) => {
       ga4Config: ga4Config,
       categoryTree: categoryTree,
       categoryCounts: categoryCounts,
-      promo: promoResult,
+      promo: superPromoPayload.promo,
+      promoCampaigns: superPromoPayload.campaigns,
+      promoSlots: superPromoPayload.slots,
       priceConfig: priceConfig,
       homepageCategories: hpcatCards,
       midBanners: midBanners,
@@ -20241,7 +23183,7 @@ app.get(BASE + "/homepage-init", async (c) => {
     // Cache the full response for subsequent requests
     _homepageInitCache = { json: _responseObj, ts: Date.now() };
 
-    console.log("[homepage-init] Response built. promo=" + (promoResult ? "YES (title=" + promoResult.title + " products=" + (promoResult.products ? promoResult.products.length : 0) + ")" : "NULL") + " banners=" + bannersList.length + " cats=" + (hpcatCards ? hpcatCards.length : 0));
+    console.log("[homepage-init] Response built. promo=" + (superPromoPayload.promo ? "YES (title=" + superPromoPayload.promo.title + " products=" + superPromoPayload.promo.products.length + ")" : "NULL") + " campaigns=" + superPromoPayload.campaigns.length + " banners=" + bannersList.length + " cats=" + (hpcatCards ? hpcatCards.length : 0));
     return c.json(_responseObj);
   } catch (e: any) {
     console.error("[homepage-init] Error:", e);
@@ -20266,6 +23208,9 @@ app.get(BASE + "/produto-detail-init/:sku", async (c) => {
     var sku = decodeURIComponent(c.req.param("sku")).trim().substring(0, 100);
     if (!sku) return c.json({ error: "SKU obrigatório." }, 400);
 
+    // B2B customer tier (null for anonymous / global-tier customers)
+    var detailCustomerTier = await _resolveRequestPriceTier(c);
+
     // Check per-SKU cache — return cached response if fresh (< 60s)
     var _now = Date.now();
     var _cached = _productDetailCache.get(sku);
@@ -20283,6 +23228,7 @@ app.get(BASE + "/produto-detail-init/:sku", async (c) => {
           _cachedJson.price = { ..._cachedJson.price, price: _recomp, tier: _tier, showPrice: _cfg.showPrice !== false };
         }
       } catch (_e) { /* use cached price as-is */ }
+      if (detailCustomerTier) _cachedJson.price = _applyPriceTier(_cachedJson.price, detailCustomerTier);
       return c.json(_cachedJson);
     }
 
@@ -20422,6 +23368,7 @@ app.get(BASE + "/produto-detail-init/:sku", async (c) => {
     }
     _productDetailCache.set(sku, { json: responseJson, ts: Date.now() });
 
+    if (detailCustomerTier) return c.json({ ...responseJson, price: _applyPriceTier(price, detailCustomerTier) });
     return c.json(responseJson);
   } catch (e: any) {
     console.error("[produto-detail-init] Exception:", e);
@@ -20711,7 +23658,10 @@ app.put(BASE + "/admin/email-marketing/subscribers/:id", async (c) => {
     if (!subUpValid.ok) return c.json({ error: subUpValid.errors[0] || "Dados invalidos." }, 400);
     if (body.name !== undefined) existing.name = sanitizeInput(String(body.name).trim()).substring(0, 200);
     if (body.tags !== undefined) existing.tags = body.tags;
-    if (body.active !== undefined) existing.active = Boolean(body.active);
+    if (body.active !== undefined) {
+      existing.active = Boolean(body.active);
+      if (existing.active) { existing.inactiveReason = null; existing.inactiveAt = null; }
+    }
     existing.updatedAt = Date.now();
     await kv.set("emkt_sub:" + id, JSON.stringify(existing));
     return c.json({ ok: true, subscriber: existing });
@@ -20865,10 +23815,12 @@ app.post(BASE + "/admin/email-marketing/campaigns", async (c) => {
       replyTo: { type: "string", maxLen: 254 },
       templateId: { type: "string", maxLen: 200 },
       targetTags: { type: "array", maxItems: 50 },
+      segmentId: { type: "string", maxLen: 100 },
     });
     if (!cmpValid.ok) return c.json({ error: cmpValid.errors[0] || "Dados invalidos." }, 400);
     var name = (cmpValid.sanitized.name || "").trim();
     if (!name) return c.json({ error: "Nome obrigatório" }, 400);
+    if (body.segmentId && !(await _getSegment(String(body.segmentId)))) return c.json({ error: "Segmento nao encontrado." }, 400);
     var now = Date.now();
     var id = "cmp_" + now + "_" + Math.random().toString(36).substring(2, 8);
     var cmp = {
@@ -20881,7 +23833,10 @@ app.post(BASE + "/admin/email-marketing/campaigns", async (c) => {
       senderEmail: String(body.senderEmail || "").trim(),
       replyTo: String(body.replyTo || "").trim(),
       targetTags: body.targetTags || [],
+      segmentId: body.segmentId || null,
       status: "draft",
+      scheduledAt: null,
+      queue: null,
       totalSent: 0,
       totalFailed: 0,
       sentAt: null,
@@ -20906,6 +23861,10 @@ app.put(BASE + "/admin/email-marketing/campaigns/:id", async (c) => {
     if (!raw) return c.json({ error: "Campanha não encontrada" }, 404);
     var existing = typeof raw === "string" ? JSON.parse(raw) : raw;
     if (existing.status === "sent") return c.json({ error: "Campanha já enviada não pode ser editada" }, 400);
+    // Scheduled campaigns are only frozen when the send starts
+    if (existing.status === "sending" || existing.status === "paused" || existing.status === "cancelled") {
+      return c.json({ error: "Campanha em envio ou cancelada não pode ser editada" }, 400);
+    }
     var body = await c.req.json();
     // Input validation for campaign update
     var cmpUpValid = validate(body, {
@@ -20917,8 +23876,10 @@ app.put(BASE + "/admin/email-marketing/campaigns/:id", async (c) => {
       replyTo: { type: "string", maxLen: 254 },
       templateId: { type: "string", maxLen: 200 },
       targetTags: { type: "array", maxItems: 50 },
+      segmentId: { type: "string", maxLen: 100 },
     });
     if (!cmpUpValid.ok) return c.json({ error: cmpUpValid.errors[0] || "Dados invalidos." }, 400);
+    if (body.segmentId && !(await _getSegment(String(body.segmentId)))) return c.json({ error: "Segmento nao encontrado." }, 400);
     if (body.name !== undefined) existing.name = String(body.name).trim();
     if (body.subject !== undefined) existing.subject = String(body.subject).trim();
     if (body.templateId !== undefined) existing.templateId = body.templateId;
@@ -20927,6 +23888,7 @@ app.put(BASE + "/admin/email-marketing/campaigns/:id", async (c) => {
     if (body.senderEmail !== undefined) existing.senderEmail = String(body.senderEmail).trim();
     if (body.replyTo !== undefined) existing.replyTo = String(body.replyTo).trim();
     if (body.targetTags !== undefined) existing.targetTags = body.targetTags;
+    if (body.segmentId !== undefined) existing.segmentId = body.segmentId || null;
     existing.updatedAt = Date.now();
     await kv.set("emkt_cmp:" + id, JSON.stringify(existing));
     return c.json({ ok: true, campaign: existing });
@@ -20941,7 +23903,28 @@ app.delete(BASE + "/admin/email-marketing/campaigns/:id", async (c) => {
   try {
     var id = (c.req.param("id") || "").substring(0, 100);
     if (!id) return c.json({ error: "ID invalido." }, 400);
+    var raw = await kv.get("emkt_cmp:" + id);
+    var existing = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : null;
+    if (existing && existing.status === "sending" && existing.queue) {
+      return c.json({ error: "Pause ou cancele o envio antes de excluir a campanha." }, 400);
+    }
     await kv.del("emkt_cmp:" + id);
+    // Queue records (per-recipient results) go with the campaign
+    if (existing && existing.queue && Array.isArray(existing.queue.chunks)) {
+      var queueKeys = [queueMessageKey(id)];
+      for (var qi = 0; qi < existing.queue.chunks.length; qi++) queueKeys.push(queueChunkKey(id, qi));
+      await kv.mdel(queueKeys);
+    }
+    // ...and so does its open/click tracking
+    var trackRaws = await kv.getByPrefix(EMKT_TRACK_PREFIX + id + ":");
+    var trackKeys = [linksKey(id)];
+    for (var ti = 0; ti < trackRaws.length; ti++) {
+      try {
+        var trackRec = parseTrackRecord(trackRaws[ti], id, "");
+        if (trackRec.subId) trackKeys.push(trackKey(id, trackRec.subId));
+      } catch { /* skip */ }
+    }
+    await kv.mdel(trackKeys);
     // EmailMarketing: campaign deleted
     return c.json({ ok: true, deleted: id });
   } catch (e: any) {
@@ -20955,21 +23938,33 @@ async function _getSmtpConfig(): Promise<any> {
   var raw = await kv.get("emkt_config");
   if (!raw) return null;
   var cfg = typeof raw === "string" ? JSON.parse(raw) : raw;
-  if (!cfg.smtpHost || !cfg.smtpPort || !cfg.smtpUser || !cfg.smtpPass) return null;
-  return cfg;
+  return _smtpConfigured(cfg) ? cfg : null;
+}
+
+/** Host + port + credentials; a local dev SMTP (Mailpit, MailHog...) needs no credentials */
+function _smtpConfigured(cfg: any): boolean {
+  if (!cfg || !cfg.smtpHost || !cfg.smtpPort) return false;
+  return Boolean(cfg.smtpUser && cfg.smtpPass) || _isDevSmtp(cfg);
+}
+
+/** Loopback dev SMTP outside production only — production always needs credentials and verified TLS */
+function _isDevSmtp(cfg: any): boolean {
+  return !IS_PRODUCTION && isLocalSmtpHost(cfg && cfg.smtpHost);
 }
 
 function _createSmtpTransport(cfg: any) {
+  var local = _isDevSmtp(cfg);
   return nodemailer.createTransport({
     host: String(cfg.smtpHost).trim(),
     port: Number(cfg.smtpPort) || 587,
     secure: Boolean(cfg.smtpSecure),
-    auth: {
+    auth: cfg.smtpUser && cfg.smtpPass ? {
       user: String(cfg.smtpUser),
       pass: String(cfg.smtpPass),
-    },
+    } : undefined,
+    ignoreTLS: local && !cfg.smtpSecure,
     tls: {
-      rejectUnauthorized: true,
+      rejectUnauthorized: !local,
       minVersion: "TLSv1.2",
     },
     connectionTimeout: 30000,
@@ -20980,7 +23975,7 @@ function _createSmtpTransport(cfg: any) {
   });
 }
 
-async function _sendSmtpEmailWithRetry(cfg: any, opts: { from: string; to: string; subject: string; html: string; replyTo?: string }, maxRetries = 2) {
+async function _sendSmtpEmailWithRetry(cfg: any, opts: { from: string; to: string; subject: string; html: string; replyTo?: string; headers?: Record<string, string> }, maxRetries = 2) {
   var lastErr: any;
   for (var attempt = 0; attempt <= maxRetries; attempt++) {
     try {
@@ -20991,6 +23986,7 @@ async function _sendSmtpEmailWithRetry(cfg: any, opts: { from: string; to: strin
       var transport = _createSmtpTransport(cfg);
       var mailOpts: any = { from: opts.from, to: opts.to, subject: opts.subject, html: opts.html };
       if (opts.replyTo) mailOpts.replyTo = opts.replyTo;
+      if (opts.headers) mailOpts.headers = opts.headers;
       var info = await transport.sendMail(mailOpts);
       return info;
     } catch (e: any) {
@@ -21006,7 +24002,7 @@ async function _sendSmtpEmailWithRetry(cfg: any, opts: { from: string; to: strin
   throw lastErr;
 }
 
-async function _sendSmtpEmail(cfg: any, opts: { from: string; to: string; subject: string; html: string; replyTo?: string }) {
+async function _sendSmtpEmail(cfg: any, opts: { from: string; to: string; subject: string; html: string; replyTo?: string; headers?: Record<string, string> }) {
   return _sendSmtpEmailWithRetry(cfg, opts);
 }
 
@@ -21510,6 +24506,72 @@ async function _sendShippingNotificationEmail(order: any) {
   }
 }
 
+// ─── PICKUP READY EMAIL (Retire na loja) ───
+
+function _buildPickupReadyHtml(order: any, logoUrl?: string): string {
+  var siteUrl = String(Deno.env.get("SUPABASE_URL") || "").replace(".supabase.co", ".vercel.app");
+  var pk = order.pickup || {};
+  var mapLink = pk.mapQuery ? "https://www.google.com/maps/search/?api=1&query=" + encodeURIComponent(pk.mapQuery) : "";
+
+  var branchInfo = '<div style="font-size:13px;color:#374151;line-height:1.6;margin-bottom:16px;">'
+    + '<div style="font-weight:700;color:#111827;">' + (pk.nome || "Loja Carretao") + '</div>'
+    + (pk.endereco ? '<div>' + pk.endereco + '</div>' : '')
+    + (pk.horario ? '<div style="color:#6b7280;">Horario: ' + pk.horario + '</div>' : '')
+    + (pk.telefone ? '<div style="color:#6b7280;">Telefone: ' + pk.telefone + '</div>' : '')
+    + (mapLink ? '<a href="' + mapLink + '" style="display:inline-block;margin-top:6px;font-size:12px;color:#2563eb;text-decoration:underline;">Ver no mapa</a>' : '')
+    + '</div>';
+
+  var body = ''
+    + '<div style="background:linear-gradient(135deg,#059669,#047857);padding:24px 20px;text-align:center;">'
+    + '<h1 style="margin:0;color:#ffffff;font-size:22px;font-weight:700;">Pedido Pronto para Retirada!</h1>'
+    + '<p style="margin:8px 0 0;color:#a7f3d0;font-size:14px;">Pedido #' + (order.localOrderId || order.sigeOrderId || "N/A") + '</p>'
+    + '</div>'
+    + '<div style="padding:20px 16px;">'
+    + '<div style="background:#ecfdf5;border:1px solid #a7f3d0;border-radius:8px;padding:14px 16px;margin-bottom:16px;text-align:center;">'
+    + '<div style="font-size:11px;color:#065f46;text-transform:uppercase;letter-spacing:0.05em;font-weight:600;margin-bottom:6px;">Codigo de Retirada</div>'
+    + '<div style="font-size:26px;color:#064e3b;font-weight:700;font-family:monospace;letter-spacing:0.2em;">' + (pk.code || "") + '</div>'
+    + '<div style="font-size:12px;color:#047857;margin-top:6px;">Apresente este codigo e um documento com foto no balcao.</div>'
+    + '</div>'
+    + branchInfo
+    + '<div style="text-align:center;margin-top:20px;">'
+    + '<a href="' + siteUrl + '/minha-conta?tab=pedidos" '
+    + 'style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;padding:12px 28px;border-radius:8px;font-size:14px;font-weight:600;">Ver Pedido</a>'
+    + '</div>'
+    + '</div>';
+
+  return _emailBaseWrapper(body, logoUrl);
+}
+
+async function _sendPickupReadyEmail(order: any) {
+  try {
+    var smtpCfg = await _getSmtpConfig();
+    if (!smtpCfg) {
+      console.warn("[Email] Pickup ready: SMTP not configured, skipping.");
+      return;
+    }
+    var userEmail = order.userEmail || null;
+    if (!userEmail && order.createdBy) {
+      userEmail = await _getUserEmailById(order.createdBy);
+    }
+    if (!userEmail) {
+      console.warn("[Email] Pickup ready: no user email found, skipping.");
+      return;
+    }
+    var logoUrl = await _getEmailLogoUrl();
+    var senderEmail = smtpCfg.defaultSenderEmail || smtpCfg.smtpUser;
+    var senderName = smtpCfg.defaultSenderName || "Carretao Auto Pecas";
+    var orderId = order.localOrderId || order.sigeOrderId || "N/A";
+    await _sendSmtpEmail(smtpCfg, {
+      from: senderName + " <" + senderEmail + ">",
+      to: userEmail,
+      subject: "Pedido #" + orderId + " pronto para retirada - Carretao Auto Pecas",
+      html: _buildPickupReadyHtml(order, logoUrl || undefined),
+    });
+  } catch (err) {
+    console.error("[Email] Pickup ready error (non-fatal): " + err);
+  }
+}
+
 // ─── ABANDONED CART EMAIL ───
 
 function _buildAbandonedCartEmailHtml(cart: any, logoUrl?: string): string {
@@ -21579,31 +24641,190 @@ async function _sendAbandonedCartEmail(cart: any): Promise<boolean> {
   }
 }
 
-// POST /admin/email-marketing/smtp-test — test SMTP connection
-app.post(BASE + "/admin/email-marketing/smtp-test", async (c) => {
-  try {
-    var body = await c.req.json();
-    // Input validation for SMTP test
-    var smtpTestValid = validate(body, {
-      smtpHost: { required: true, type: "string", minLen: 1, maxLen: 300 },
-      smtpPort: { type: "number", min: 1, max: 65535 },
-      smtpUser: { required: true, type: "string", maxLen: 254 },
-      smtpPass: { required: true, type: "string", maxLen: 500, sanitize: false },
-      smtpSecure: { type: "boolean" },
-    });
-    if (!smtpTestValid.ok) return c.json({ error: smtpTestValid.errors[0] || "Dados invalidos." }, 400);
-    var host = String(body.smtpHost || "").trim();
-    var port = Number(body.smtpPort) || 587;
-    var user = String(body.smtpUser || "").trim();
-    var pass = String(body.smtpPass || "").trim();
-    var secure = Boolean(body.smtpSecure);
-    if (!host || !user || !pass) {
-      return c.json({ error: "Host, usuário e senha SMTP são obrigatórios" }, 400);
-    }
-    var transport = nodemailer.createTransport({
-      host: host,
-      port: port,
-      secure: secure,
+// ─── PRODUCT ALERT EMAIL (back in stock / price drop) ───
+
+function _buildProductAlertHtml(alert: ProductAlert, sku: string, titulo: string, priceCents: number | null, productUrl: string, unsubscribeUrl: string, logoUrl?: string): string {
+  var isStock = alert.type === "stock";
+  var firstName = alert.name ? alert.name.split(" ")[0] : "";
+  var priceHtml = priceCents !== null
+    ? '<div style="font-size:20px;font-weight:800;color:#dc2626;margin-top:6px;">' + formatAlertPrice(priceCents) + '</div>'
+    : '';
+  if (!isStock && alert.targetCents !== null) {
+    priceHtml += '<div style="font-size:12px;color:#6b7280;margin-top:2px;">Voce pediu aviso abaixo de ' + formatAlertPrice(alert.targetCents) + '</div>';
+  }
+
+  var body = ''
+    + '<div style="background:linear-gradient(135deg,#dc2626,#b91c1c);padding:24px 20px;text-align:center;">'
+    + '<h1 style="margin:0;color:#ffffff;font-size:22px;font-weight:700;">' + (isStock ? 'Chegou no estoque!' : 'O preco baixou!') + '</h1>'
+    + '<p style="margin:8px 0 0;color:#fecaca;font-size:14px;">' + (isStock ? 'O produto que voce esperava esta disponivel' : 'O produto que voce acompanha esta mais barato') + '</p>'
+    + '</div>'
+    + '<div style="padding:20px 16px;">'
+    + '<div style="font-size:14px;color:#374151;line-height:1.6;margin-bottom:16px;">'
+    + '<p style="margin:0;">Oi' + (firstName ? ', <strong>' + _escHtml(firstName) + '</strong>' : '') + '!</p>'
+    + '<p style="margin:8px 0 0;">' + (isStock
+      ? 'Voce pediu para avisarmos quando este produto voltasse. As unidades sao limitadas — garanta a sua.'
+      : 'Voce pediu para avisarmos quando o preco deste produto baixasse. Aproveite enquanto durar.') + '</p>'
+    + '</div>'
+    + '<div style="border:1px solid #e5e7eb;border-radius:8px;padding:14px 16px;margin-bottom:16px;">'
+    + '<div style="font-size:15px;font-weight:600;color:#111827;">' + _escHtml(titulo) + '</div>'
+    + '<div style="font-size:12px;color:#9ca3af;margin-top:2px;">SKU: ' + _escHtml(sku) + '</div>'
+    + priceHtml
+    + '</div>'
+    + '<div style="text-align:center;margin-top:20px;">'
+    + '<a href="' + _escHtml(productUrl) + '" '
+    + 'style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;padding:14px 32px;border-radius:8px;font-size:15px;font-weight:700;">Ver produto</a>'
+    + '</div>'
+    + '<p style="margin:20px 0 0;font-size:11px;color:#9ca3af;text-align:center;">Este aviso e enviado uma vez. '
+    + '<a href="' + _escHtml(unsubscribeUrl) + '" style="color:#9ca3af;">Cancelar este aviso</a></p>'
+    + '</div>';
+
+  return _emailBaseWrapper(body, logoUrl);
+}
+
+function _buildProductAlertConfirmHtml(alert: ProductAlert, sku: string, titulo: string, confirmUrl: string, logoUrl?: string): string {
+  var what = alert.type === "stock"
+    ? 'quando este produto voltar ao estoque'
+    : 'quando o preco baixar para ' + formatAlertPrice(alert.targetCents) + ' ou menos';
+
+  var body = ''
+    + '<div style="background:linear-gradient(135deg,#dc2626,#b91c1c);padding:24px 20px;text-align:center;">'
+    + '<h1 style="margin:0;color:#ffffff;font-size:22px;font-weight:700;">Confirme seu aviso</h1>'
+    + '</div>'
+    + '<div style="padding:20px 16px;">'
+    + '<div style="font-size:14px;color:#374151;line-height:1.6;margin-bottom:16px;">'
+    + '<p style="margin:0;">Recebemos um pedido para avisar este e-mail ' + what + '.</p>'
+    + '</div>'
+    + '<div style="border:1px solid #e5e7eb;border-radius:8px;padding:14px 16px;margin-bottom:16px;">'
+    + '<div style="font-size:15px;font-weight:600;color:#111827;">' + _escHtml(titulo) + '</div>'
+    + '<div style="font-size:12px;color:#9ca3af;margin-top:2px;">SKU: ' + _escHtml(sku) + '</div>'
+    + '</div>'
+    + '<div style="text-align:center;margin-top:20px;">'
+    + '<a href="' + _escHtml(confirmUrl) + '" '
+    + 'style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;padding:14px 32px;border-radius:8px;font-size:15px;font-weight:700;">Confirmar aviso</a>'
+    + '</div>'
+    + '<p style="margin:20px 0 0;font-size:11px;color:#9ca3af;text-align:center;">Nao foi voce? Ignore este e-mail: sem a confirmacao nenhum aviso e enviado.</p>'
+    + '</div>';
+
+  return _emailBaseWrapper(body, logoUrl);
+}
+
+// ─── REVIEW REQUEST EMAILS (pedido de avaliacao pos-compra) ───
+
+function _buildReviewRequestHtml(req: ReviewRequest, links: Array<{ sku: string; titulo: string; url: string }>, reward: ReviewRewardSettings | null, logoUrl?: string): string {
+  var firstName = req.name ? req.name.split(" ")[0] : "";
+  var itemsHtml = "";
+  for (var i = 0; i < links.length; i++) {
+    itemsHtml += '<tr><td style="padding:10px 16px;border-bottom:1px solid #f3f4f6;font-size:13px;color:#374151;">'
+      + _escHtml(links[i].titulo)
+      + '<div style="font-size:11px;color:#9ca3af;">SKU: ' + _escHtml(links[i].sku) + '</div>'
+      + '</td><td style="padding:10px 16px;border-bottom:1px solid #f3f4f6;text-align:right;white-space:nowrap;">'
+      + '<a href="' + _escHtml(links[i].url) + '" style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;padding:8px 16px;border-radius:6px;font-size:13px;font-weight:600;">Avaliar</a>'
+      + '</td></tr>';
+  }
+  var rewardHtml = reward && reward.enabled
+    ? '<div style="background:#fef3c7;border:1px solid #fde68a;border-radius:8px;padding:12px 16px;margin-top:16px;font-size:13px;color:#92400e;text-align:center;">'
+      + 'Avaliacao aprovada vale um cupom de <strong>' + formatRewardValue(reward) + '</strong> na sua proxima compra.</div>'
+    : '';
+
+  var body = ''
+    + '<div style="background:linear-gradient(135deg,#dc2626,#b91c1c);padding:24px 20px;text-align:center;">'
+    + '<h1 style="margin:0;color:#ffffff;font-size:22px;font-weight:700;">O que achou da sua compra?</h1>'
+    + '<p style="margin:8px 0 0;color:#fecaca;font-size:14px;">Pedido #' + _escHtml(req.orderId) + '</p>'
+    + '</div>'
+    + '<div style="padding:20px 16px;">'
+    + '<div style="font-size:14px;color:#374151;line-height:1.6;margin-bottom:16px;">'
+    + '<p style="margin:0;">Oi' + (firstName ? ', <strong>' + _escHtml(firstName) + '</strong>' : '') + '!</p>'
+    + '<p style="margin:8px 0 0;">Sua opiniao ajuda outros clientes a escolher a peca certa. Leva menos de um minuto e nao precisa fazer login.</p>'
+    + '</div>'
+    + '<table style="width:100%;border-collapse:collapse;border:1px solid #e5e7eb;border-radius:8px;">' + itemsHtml + '</table>'
+    + rewardHtml
+    + '</div>';
+
+  return _emailBaseWrapper(body, logoUrl);
+}
+
+function _buildReviewRewardHtml(name: string, code: string, reward: ReviewRewardSettings, expiresAt: string, logoUrl?: string): string {
+  var firstName = name ? name.split(" ")[0] : "";
+  var expires = new Date(expiresAt).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
+  var body = ''
+    + '<div style="background:linear-gradient(135deg,#059669,#047857);padding:24px 20px;text-align:center;">'
+    + '<h1 style="margin:0;color:#ffffff;font-size:22px;font-weight:700;">Obrigado pela avaliacao!</h1>'
+    + '<p style="margin:8px 0 0;color:#a7f3d0;font-size:14px;">Ela ja esta publicada na loja</p>'
+    + '</div>'
+    + '<div style="padding:20px 16px;">'
+    + '<p style="margin:0 0 16px;font-size:14px;color:#374151;">Oi' + (firstName ? ', <strong>' + _escHtml(firstName) + '</strong>' : '') + '! Como agradecimento, aqui esta um cupom para a sua proxima compra:</p>'
+    + '<div style="background:#ecfdf5;border:1px solid #a7f3d0;border-radius:8px;padding:14px 16px;text-align:center;">'
+    + '<div style="font-size:26px;color:#064e3b;font-weight:700;font-family:monospace;letter-spacing:0.1em;">' + _escHtml(code) + '</div>'
+    + '<div style="font-size:13px;color:#047857;margin-top:6px;">' + formatRewardValue(reward) + ' de desconto'
+    + (reward.minOrderValue > 0 ? ' em compras acima de R$ ' + reward.minOrderValue.toFixed(2).replace(".", ",") : '')
+    + ' — valido ate ' + expires + '</div>'
+    + '</div>'
+    + '<div style="text-align:center;margin-top:20px;">'
+    + '<a href="' + _escHtml(_getSiteUrl()) + '" style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;padding:12px 28px;border-radius:8px;font-size:14px;font-weight:600;">Ir para a loja</a>'
+    + '</div>'
+    + '</div>';
+
+  return _emailBaseWrapper(body, logoUrl);
+}
+
+// ─── PRODUCT Q&A EMAIL (resposta para quem perguntou) ───
+
+function _buildQuestionAnsweredHtml(q: ProductQuestion, answers: ProductAnswer[], titulo: string, productUrl: string, logoUrl?: string): string {
+  var firstName = q.askerName ? q.askerName.split(" ")[0] : "";
+  var answersHtml = "";
+  for (var i = 0; i < answers.length; i++) {
+    var a = answers[i];
+    answersHtml += '<div style="border-left:3px solid ' + (a.authorType === "store" ? '#dc2626' : '#9ca3af') + ';padding:8px 12px;margin-top:10px;background:#f9fafb;">'
+      + '<div style="font-size:12px;color:#6b7280;font-weight:600;">' + _escHtml(a.authorType === "store" ? a.authorName : publicAuthorName(a.authorName)) + (a.authorType === "buyer" ? ' · comprou este produto' : '') + '</div>'
+      + '<div style="font-size:14px;color:#111827;margin-top:4px;white-space:pre-line;">' + _escHtml(a.text) + '</div>'
+      + '</div>';
+  }
+
+  var body = ''
+    + '<div style="background:linear-gradient(135deg,#dc2626,#b91c1c);padding:24px 20px;text-align:center;">'
+    + '<h1 style="margin:0;color:#ffffff;font-size:22px;font-weight:700;">Sua pergunta foi respondida!</h1>'
+    + '<p style="margin:8px 0 0;color:#fecaca;font-size:14px;">' + _escHtml(titulo) + '</p>'
+    + '</div>'
+    + '<div style="padding:20px 16px;">'
+    + '<p style="margin:0 0 16px;font-size:14px;color:#374151;">Oi' + (firstName ? ', <strong>' + _escHtml(firstName) + '</strong>' : '') + '! Veja a resposta para a pergunta que voce fez sobre este produto:</p>'
+    + '<div style="border:1px solid #e5e7eb;border-radius:8px;padding:14px 16px;">'
+    + '<div style="font-size:11px;color:#9ca3af;text-transform:uppercase;letter-spacing:0.05em;">Sua pergunta</div>'
+    + '<div style="font-size:14px;color:#374151;margin-top:4px;white-space:pre-line;">' + _escHtml(q.question) + '</div>'
+    + answersHtml
+    + '</div>'
+    + '<div style="text-align:center;margin-top:20px;">'
+    + '<a href="' + _escHtml(productUrl) + '" style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;padding:14px 32px;border-radius:8px;font-size:15px;font-weight:700;">Ver no site</a>'
+    + '</div>'
+    + '</div>';
+
+  return _emailBaseWrapper(body, logoUrl);
+}
+
+// POST /admin/email-marketing/smtp-test — test SMTP connection
+app.post(BASE + "/admin/email-marketing/smtp-test", async (c) => {
+  try {
+    var body = await c.req.json();
+    // Input validation for SMTP test
+    var smtpTestValid = validate(body, {
+      smtpHost: { required: true, type: "string", minLen: 1, maxLen: 300 },
+      smtpPort: { type: "number", min: 1, max: 65535 },
+      smtpUser: { required: true, type: "string", maxLen: 254 },
+      smtpPass: { required: true, type: "string", maxLen: 500, sanitize: false },
+      smtpSecure: { type: "boolean" },
+    });
+    if (!smtpTestValid.ok) return c.json({ error: smtpTestValid.errors[0] || "Dados invalidos." }, 400);
+    var host = String(body.smtpHost || "").trim();
+    var port = Number(body.smtpPort) || 587;
+    var user = String(body.smtpUser || "").trim();
+    var pass = String(body.smtpPass || "").trim();
+    var secure = Boolean(body.smtpSecure);
+    if (!host || !user || !pass) {
+      return c.json({ error: "Host, usuário e senha SMTP são obrigatórios" }, 400);
+    }
+    var transport = nodemailer.createTransport({
+      host: host,
+      port: port,
+      secure: secure,
       auth: { user: user, pass: pass },
       tls: { rejectUnauthorized: true, minVersion: "TLSv1.2" },
       connectionTimeout: 10000,
@@ -21743,6 +24964,9 @@ app.post(BASE + "/admin/email-test/send", async (c) => {
     };
     var mockAdminRecoveryLink = _buildPasswordRecoveryUrl("TOKEN_DEMO", "admin");
     var mockUserRecoveryLink = _buildPasswordRecoveryUrl("TOKEN_DEMO", "user");
+    var mockAlert: ProductAlert = { id: "pa_teste", type: "stock", email: "cliente@exemplo.com", phone: null, userId: null, name: "Joao da Silva (Teste)", targetCents: null, source: "product", status: "sent", createdAt: Date.now(), updatedAt: Date.now() };
+    var mockAlertUrl = _getSiteUrl() + "/produto/PST-045";
+    var mockAlertUnsubUrl = _getSiteUrl() + "/avisos/cancelar?token=TOKEN_DEMO";
 
     var subject = "";
     var html = "";
@@ -21764,10 +24988,22 @@ app.post(BASE + "/admin/email-test/send", async (c) => {
         subject = "[TESTE] Pedido #" + mockOrder.localOrderId + " enviado! - Carretao Auto Pecas";
         html = _buildShippingNotificationHtml(mockOrder, logoUrl || undefined);
         break;
+      case "pickup_ready":
+        subject = "[TESTE] Pedido #" + mockOrder.localOrderId + " pronto para retirada - Carretao Auto Pecas";
+        html = _buildPickupReadyHtml({ ...mockOrder, pickup: { nome: "Loja Centro (Teste)", endereco: "Av. Brasil, 1234 - Centro", horario: "Seg a Sex: 8h - 18h | Sab: 8h - 12h", telefone: "(44) 3123-3000", mapQuery: "", code: "K7M3QX" } }, logoUrl || undefined);
+        break;
       case "abandoned_cart":
         subject = "[TESTE] Voce esqueceu itens no carrinho! - Carretao Auto Pecas";
         html = _buildAbandonedCartEmailHtml(mockCart, logoUrl || undefined);
         break;
+      case "back_in_stock":
+        subject = "[TESTE] Chegou! Pastilha de Freio Dianteira Ceramica - Carretao Auto Pecas";
+        html = _buildProductAlertHtml(mockAlert, "PST-045", "Pastilha de Freio Dianteira Ceramica", 15990, mockAlertUrl, mockAlertUnsubUrl, logoUrl || undefined);
+        break;
+      case "price_drop":
+        subject = "[TESTE] Baixou o preco: Pastilha de Freio Dianteira Ceramica por R$ 139,90 - Carretao Auto Pecas";
+        html = _buildProductAlertHtml({ ...mockAlert, type: "price", targetCents: 14000 }, "PST-045", "Pastilha de Freio Dianteira Ceramica", 13990, mockAlertUrl, mockAlertUnsubUrl, logoUrl || undefined);
+        break;
       case "warranty_certificate":
         subject = "[TESTE] Certificado de Garantia Estendida - Pedido " + mockOrder.localOrderId + " - Carretao Auto Pecas";
         var warrantyItems = mockOrder.items.filter(function(it) { return it.warranty; });
@@ -21858,6 +25094,9 @@ app.get(BASE + "/admin/email-test/preview/:type", async (c) => {
     };
     var mockAdminRecoveryLink = _buildPasswordRecoveryUrl("TOKEN_DEMO", "admin");
     var mockUserRecoveryLink = _buildPasswordRecoveryUrl("TOKEN_DEMO", "user");
+    var mockAlert: ProductAlert = { id: "pa_teste", type: "stock", email: "cliente@exemplo.com", phone: null, userId: null, name: "Joao da Silva (Teste)", targetCents: null, source: "product", status: "sent", createdAt: Date.now(), updatedAt: Date.now() };
+    var mockAlertUrl = _getSiteUrl() + "/produto/PST-045";
+    var mockAlertUnsubUrl = _getSiteUrl() + "/avisos/cancelar?token=TOKEN_DEMO";
 
     var html = "";
     switch (emailType) {
@@ -21873,9 +25112,18 @@ app.get(BASE + "/admin/email-test/preview/:type", async (c) => {
       case "shipping_notification":
         html = _buildShippingNotificationHtml(mockOrder, logoUrl || undefined);
         break;
+      case "pickup_ready":
+        html = _buildPickupReadyHtml({ ...mockOrder, pickup: { nome: "Loja Centro (Teste)", endereco: "Av. Brasil, 1234 - Centro", horario: "Seg a Sex: 8h - 18h | Sab: 8h - 12h", telefone: "(44) 3123-3000", mapQuery: "", code: "K7M3QX" } }, logoUrl || undefined);
+        break;
       case "abandoned_cart":
         html = _buildAbandonedCartEmailHtml(mockCart, logoUrl || undefined);
         break;
+      case "back_in_stock":
+        html = _buildProductAlertHtml(mockAlert, "PST-045", "Pastilha de Freio Dianteira Ceramica", 15990, mockAlertUrl, mockAlertUnsubUrl, logoUrl || undefined);
+        break;
+      case "price_drop":
+        html = _buildProductAlertHtml({ ...mockAlert, type: "price", targetCents: 14000 }, "PST-045", "Pastilha de Freio Dianteira Ceramica", 13990, mockAlertUrl, mockAlertUnsubUrl, logoUrl || undefined);
+        break;
       case "warranty_certificate":
         var warrantyItems = mockOrder.items.filter(function(it) { return it.warranty; });
         html = _buildWarrantyCertificateHtml(mockOrder.localOrderId, warrantyItems, "Joao da Silva (Teste)");
@@ -21934,11 +25182,15 @@ app.post(BASE + "/admin/email-marketing/campaigns/:id/test", async (c) => {
     var senderName = cmp.senderName || smtpCfg.defaultSenderName || "Carretão Auto Peças";
     var from = senderName + " <" + senderEmail + ">";
 
+    // Unsubscribe/preferences links work for the test address; opens and clicks are not tracked
+    var testSubId = subscriberIdForEmail(testEmail);
+    var testUnsubscribeUrl = await _emktPreferencesUrl("", testSubId, true);
+    var testPrefsUrl = await _emktPreferencesUrl("", testSubId, false);
     var info = await _sendSmtpEmail(smtpCfg, {
       from: from,
       to: testEmail,
       subject: "[TESTE] " + (cmp.subject || "Sem assunto"),
-      html: htmlBody || "<p>Conteudo vazio</p>",
+      html: htmlBody ? trackHtml(htmlBody, { links: [], clickUrl: null, pixelUrl: null, unsubscribeUrl: testUnsubscribeUrl, preferencesUrl: testPrefsUrl }) : "<p>Conteudo vazio</p>",
       replyTo: cmp.replyTo || smtpCfg.defaultReplyTo || undefined,
     });
 
@@ -21949,145 +25201,450 @@ app.post(BASE + "/admin/email-marketing/campaigns/:id/test", async (c) => {
   }
 });
 
-// POST /admin/email-marketing/campaigns/:id/send — send campaign to all subscribers via SMTP
+// --- Campaign send queue (email_campaign_queue.ts) ---
+// The send route only snapshots recipients into emkt_queue:<id>:<n>; the worker
+// below delivers them within the SMTP limits, one lock-holding isolate at a time.
+
+var EMKT_QUEUE_LOCK = "emkt_queue_worker";
+var EMKT_QUEUE_LOCK_TTL_MS = 3 * 60 * 1000;
+/** Stop claiming new batches after this long in one run (edge request limit) */
+var EMKT_QUEUE_RUN_BUDGET_MS = 45 * 1000;
+/** Chunk is saved every N sends, so a crash loses at most this many results */
+var EMKT_QUEUE_SAVE_EVERY = 10;
+var _emktQueueRunning = false;
+
+async function _emktResolveHtml(cmp: any): Promise<string> {
+  var htmlBody = cmp.htmlBody || "";
+  if (cmp.templateId && !htmlBody) {
+    var tplRaw = await kv.get("emkt_tpl:" + cmp.templateId);
+    if (tplRaw) {
+      var tpl = typeof tplRaw === "string" ? JSON.parse(tplRaw) : tplRaw;
+      htmlBody = tpl.htmlBody || "";
+    }
+  }
+  return htmlBody;
+}
+
+async function _emktQueueIndexAdd(id: string): Promise<void> {
+  await kv.update(EMKT_QUEUE_INDEX_KEY, function (raw: any) {
+    var ids = parseQueueIndex(raw);
+    if (ids.indexOf(id) >= 0) return undefined;
+    ids.push(id);
+    return JSON.stringify(ids);
+  });
+}
+
+async function _emktQueueIndexRemove(done: string[]): Promise<void> {
+  await kv.update(EMKT_QUEUE_INDEX_KEY, function (raw: any) {
+    var ids = parseQueueIndex(raw);
+    var next = ids.filter(function (id) { return done.indexOf(id) < 0; });
+    return next.length === ids.length ? undefined : JSON.stringify(next);
+  });
+}
+
+/**
+ * Freezes message + recipients and moves the campaign to "sending".
+ * Subscribers are read now, so a scheduled campaign reaches whoever is
+ * subscribed at its start time.
+ */
+async function _emktStartQueue(cmp: any, smtpCfg: any): Promise<{ campaign?: any; error?: string }> {
+  var htmlBody = await _emktResolveHtml(cmp);
+  if (!htmlBody) return { error: "Campanha sem conteudo HTML" };
+  if (!cmp.subject) return { error: "Campanha sem assunto" };
+  var senderEmail = cmp.senderEmail || smtpCfg.defaultSenderEmail || smtpCfg.smtpUser;
+  if (!senderEmail) return { error: "Informe o email do remetente na campanha ou nas configuracoes." };
+  var senderName = cmp.senderName || smtpCfg.defaultSenderName || "Carretão Auto Peças";
+
+  var subRaws = await kv.getByPrefix("emkt_sub:");
+  var subs: any[] = [];
+  for (var i = 0; i < subRaws.length; i++) {
+    try { subs.push(typeof subRaws[i] === "string" ? JSON.parse(subRaws[i]) : subRaws[i]); } catch { /* skip */ }
+  }
+  var recipients = campaignRecipients(subs, cmp.targetTags || []);
+  if (cmp.segmentId) {
+    // Segment narrows the active subscribers; it never adds people who did not opt in
+    var segment = await _getSegment(cmp.segmentId);
+    if (!segment) return { error: "O segmento da campanha foi excluido. Escolha outro." };
+    var inSegment = segmentEmailSet(await _segmentMembers(segment.definition));
+    recipients = recipients.filter(function (r) { return inSegment[String(r.email).toLowerCase()]; });
+    if (recipients.length === 0) return { error: "Nenhum assinante ativo no segmento \"" + segment.name + "\"" };
+  }
+  if (recipients.length === 0) return { error: "Nenhum assinante ativo encontrado" };
+
+  var now = Date.now();
+  var snapshot: EmktMessageSnapshot = {
+    subject: cmp.subject,
+    html: htmlBody,
+    from: senderName + " <" + senderEmail + ">",
+    replyTo: cmp.replyTo || smtpCfg.defaultReplyTo || null,
+    links: extractTrackedLinks(htmlBody),
+  };
+  var chunks = buildQueueChunks(cmp.id, recipients, now);
+  await kv.set(queueMessageKey(cmp.id), JSON.stringify(snapshot));
+  // Outlives the queue message: the click redirect needs it for as long as the e-mail exists
+  await kv.set(linksKey(cmp.id), JSON.stringify(snapshot.links));
+  await kv.mset(
+    chunks.map(function (ch) { return queueChunkKey(cmp.id, ch.index); }),
+    chunks.map(function (ch) { return JSON.stringify(ch); }),
+  );
+  var out = await kv.update("emkt_cmp:" + cmp.id, function (raw: any) {
+    if (!raw) return undefined;
+    var cur = typeof raw === "string" ? JSON.parse(raw) : raw;
+    cur.status = "sending";
+    cur.queue = queueProgress(chunks.map(chunkCounts), null, now);
+    cur.totalSent = 0;
+    cur.totalFailed = 0;
+    cur.scheduleError = null;
+    cur.updatedAt = now;
+    return JSON.stringify(cur);
+  });
+  if (!out.written) return { error: "Campanha não encontrada" };
+  await _emktQueueIndexAdd(cmp.id);
+  return { campaign: typeof out.value === "string" ? JSON.parse(out.value) : out.value };
+}
+
+/** Sends up to `allowance` due recipients of one campaign. Returns how many went to the SMTP server */
+async function _emktSendBatch(cmp: any, smtpCfg: any, throttle: EmktThrottle, allowance: number, deadline: number): Promise<number> {
+  var id = cmp.id;
+  var msgRaw = await kv.get(queueMessageKey(id));
+  var msg: EmktMessageSnapshot | null = msgRaw ? (typeof msgRaw === "string" ? JSON.parse(msgRaw) : msgRaw) : null;
+  var counts: EmktChunkCounts[] = cmp.queue.chunks.slice();
+  var attempted = 0;
+  var lastError: string | null = null;
+  var dueIdx = dueChunkIndexes(cmp.queue, Date.now());
+  // Without the frozen message nothing can go out: close the open recipients as failed
+  var lostMessage = msg ? null : { message: "Mensagem da fila nao encontrada." };
+  if (lostMessage) lastError = lostMessage.message;
+
+  for (var d = 0; d < dueIdx.length && (lostMessage || (attempted < allowance && Date.now() < deadline)); d++) {
+    var idx = dueIdx[d];
+    var key = queueChunkKey(id, idx);
+    var chunk: EmktQueueChunk | null = parseQueueChunk(await kv.get(key));
+    if (!chunk) {
+      // Lost record: its open recipients cannot be sent anymore
+      counts[idx] = { ...counts[idx], failed: counts[idx].failed + counts[idx].open, open: 0, nextDueAt: null };
+      lastError = "Bloco " + idx + " da fila nao encontrado.";
+      continue;
+    }
+    var now = Date.now();
+    var recovered = recoverStaleClaims(chunk, now);
+    if (lostMessage) {
+      var lost = claimDueRecipients(chunk, chunk.recipients.length, now);
+      for (var li = 0; li < lost.length; li++) markRecipientError(chunk.recipients[lost[li]], lostMessage, { ...throttle, maxAttempts: 0 }, now);
+      await kv.set(key, JSON.stringify(chunk));
+      counts[idx] = chunkCounts(chunk);
+      continue;
+    }
+    var claimed = claimDueRecipients(chunk, allowance - attempted, now);
+    if (claimed.length === 0) {
+      if (recovered > 0) await kv.set(key, JSON.stringify(chunk));
+      counts[idx] = chunkCounts(chunk);
+      continue;
+    }
+    // Claims hit the KV before the SMTP server: a crash leaves them stale, not lost
+    chunk.updatedAt = now;
+    await kv.set(key, JSON.stringify(chunk));
+    for (var k = 0; k < claimed.length; k++) {
+      if (Date.now() >= deadline + EMKT_QUEUE_RUN_BUDGET_MS) {
+        // Slow SMTP: hand the rest back before the lock expires
+        releaseClaims(chunk, claimed.slice(k));
+        break;
+      }
+      var r = chunk.recipients[claimed[k]];
+      var subId = subscriberIdForEmail(r.email);
+      try {
+        var tracked = await _emktTrackedMessage(id, subId, personalizeHtml(msg!.html, r), msg!.links || []);
+        var info = await _sendSmtpEmailWithRetry(smtpCfg, {
+          from: msg!.from,
+          to: r.email,
+          subject: msg!.subject,
+          html: tracked.html,
+          replyTo: msg!.replyTo || undefined,
+          headers: tracked.headers,
+        }, 0);
+        markRecipientSent(r, (info && info.messageId) || null, Date.now());
+      } catch (sendErr: any) {
+        markRecipientError(r, sendErr, throttle, Date.now());
+        lastError = r.email + ": " + r.lastError;
+        if (isHardBounce(sendErr)) await _emktFeedback(subId, "bounce", r.lastError || "", id);
+      }
+      attempted++;
+      if ((k + 1) % EMKT_QUEUE_SAVE_EVERY === 0 && k + 1 < claimed.length) {
+        chunk.updatedAt = Date.now();
+        await kv.set(key, JSON.stringify(chunk));
+      }
+    }
+    chunk.updatedAt = Date.now();
+    await kv.set(key, JSON.stringify(chunk));
+    counts[idx] = chunkCounts(chunk);
+  }
+
+  var batchAt = Date.now();
+  await kv.update("emkt_cmp:" + id, function (raw: any) {
+    if (!raw) return undefined;
+    var cur = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!cur.queue) return undefined;
+    cur.queue = queueProgress(counts, { ...cur.queue, lastBatchAt: attempted > 0 ? batchAt : cur.queue.lastBatchAt, lastError: lastError || cur.queue.lastError }, batchAt);
+    cur.totalSent = cur.queue.sent;
+    cur.totalFailed = cur.queue.failed;
+    cur.updatedAt = batchAt;
+    return JSON.stringify(cur);
+  });
+  cmp.queue = queueProgress(counts, cmp.queue, batchAt);
+  return attempted;
+}
+
+/** Closes a campaign: cancels what is still open (cancelled only), writes the send log */
+async function _emktFinishCampaign(cmp: any, status: "sent" | "cancelled"): Promise<void> {
+  var id = cmp.id;
+  var total = cmp.queue && Array.isArray(cmp.queue.chunks) ? cmp.queue.chunks.length : 0;
+  var chunks: EmktQueueChunk[] = [];
+  for (var i = 0; i < total; i++) {
+    var chunk = parseQueueChunk(await kv.get(queueChunkKey(id, i)));
+    if (!chunk) continue;
+    if (status === "cancelled" && cancelOpenRecipients(chunk) > 0) {
+      chunk.updatedAt = Date.now();
+      await kv.set(queueChunkKey(id, i), JSON.stringify(chunk));
+    }
+    chunks.push(chunk);
+  }
+  var now = Date.now();
+  var progress = queueProgress(chunks.map(chunkCounts), cmp.queue, now);
+  progress.finishedAt = now;
+  await kv.update("emkt_cmp:" + id, function (raw: any) {
+    if (!raw) return undefined;
+    var cur = typeof raw === "string" ? JSON.parse(raw) : raw;
+    cur.status = status;
+    cur.queue = progress;
+    cur.totalSent = progress.sent;
+    cur.totalFailed = progress.failed;
+    cur.sentAt = now;
+    cur.updatedAt = now;
+    return JSON.stringify(cur);
+  });
+  await kv.del(queueMessageKey(id));
+
+  var logId = "log_" + now + "_" + Math.random().toString(36).substring(2, 6);
+  await kv.set("emkt_log:" + logId, JSON.stringify({
+    id: logId,
+    campaignId: id,
+    campaignName: cmp.name,
+    subject: cmp.subject,
+    status: status,
+    totalRecipients: progress.total,
+    totalSent: progress.sent,
+    totalFailed: progress.failed,
+    totalCancelled: progress.cancelled,
+    errors: recipientErrors(chunks, 50),
+    startedAt: progress.startedAt,
+    sentAt: now
+  }));
+  console.log("[EmailMarketing] Campaign " + id + " " + status + ": " + progress.sent + "/" + progress.total + " sent, " + progress.failed + " failed.");
+}
+
+/** One worker pass under the durable lock. Returns e-mails handed to SMTP (0 when another isolate holds it) */
+async function _runEmktQueue(): Promise<number> {
+  if (_emktQueueRunning) return 0;
+  var owner = await kvAtomic.tryLock(EMKT_QUEUE_LOCK, EMKT_QUEUE_LOCK_TTL_MS);
+  if (!owner) return 0;
+  _emktQueueRunning = true;
+  try {
+    return await _emktQueueStep();
+  } finally {
+    _emktQueueRunning = false;
+    await kvAtomic.unlock(EMKT_QUEUE_LOCK, owner);
+  }
+}
+
+async function _emktQueueStep(): Promise<number> {
+  var ids = parseQueueIndex(await kv.get(EMKT_QUEUE_INDEX_KEY));
+  if (ids.length === 0) return 0;
+  var startedAt = Date.now();
+  var deadline = startedAt + EMKT_QUEUE_RUN_BUDGET_MS;
+  var throttle = parseThrottle(await kv.get("emkt_config"));
+  var smtpCfg = await _getSmtpConfig();
+  var rate = parseSendRate(await kv.get(EMKT_SEND_RATE_KEY), startedAt);
+  var sent = 0;
+  var done: string[] = [];
+
+  for (var i = 0; i < ids.length; i++) {
+    var id = ids[i];
+    try {
+      var raw = await kv.get("emkt_cmp:" + id);
+      var cmp = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : null;
+      if (!cmp) { done.push(id); continue; }
+
+      if (cmp.status === "scheduled") {
+        if (cmp.scheduledAt && cmp.scheduledAt > Date.now()) continue;
+        var started = smtpCfg ? await _emktStartQueue(cmp, smtpCfg) : { error: "SMTP nao configurado." };
+        if (!started.campaign) {
+          // Back to draft with the reason; the admin fixes it and schedules again
+          var reason = started.error || "Falha ao iniciar envio.";
+          await kv.update("emkt_cmp:" + id, function (r: any) {
+            if (!r) return undefined;
+            var cur = typeof r === "string" ? JSON.parse(r) : r;
+            if (cur.status !== "scheduled") return undefined;
+            cur.status = "draft";
+            cur.scheduleError = reason;
+            cur.updatedAt = Date.now();
+            return JSON.stringify(cur);
+          });
+          console.warn("[EmailMarketing] Scheduled campaign " + id + " not started: " + reason);
+          done.push(id);
+          continue;
+        }
+        cmp = started.campaign;
+      }
+
+      if (cmp.status === "paused") continue;
+      if (cmp.status === "cancelled" && cmp.queue && !cmp.queue.finishedAt) {
+        await _emktFinishCampaign(cmp, "cancelled");
+        done.push(id);
+        continue;
+      }
+      if (cmp.status !== "sending" || !cmp.queue) { done.push(id); continue; }
+
+      if (smtpCfg && Date.now() < deadline) {
+        var allowance = sendAllowance(throttle, rate);
+        if (allowance > 0) {
+          var n = await _emktSendBatch(cmp, smtpCfg, throttle, allowance, deadline);
+          if (n > 0) {
+            rate = recordSends(rate, n);
+            sent += n;
+            await kv.set(EMKT_SEND_RATE_KEY, JSON.stringify(rate));
+          }
+        }
+      }
+      if (cmp.queue.open === 0) {
+        await _emktFinishCampaign(cmp, "sent");
+        done.push(id);
+      }
+    } catch (e: any) {
+      console.error("[EmailMarketing] Queue error for " + id + ":", e);
+    }
+  }
+
+  if (done.length > 0) await _emktQueueIndexRemove(done);
+  return sent;
+}
+
+// POST /admin/email-marketing/campaigns/:id/send — queue the campaign (now, or at body.scheduledAt)
 app.post(BASE + "/admin/email-marketing/campaigns/:id/send", async (c) => {
   try {
     var id = (c.req.param("id") || "").substring(0, 100);
     if (!id) return c.json({ error: "ID invalido." }, 400);
+    var body: any = {};
+    try { body = await c.req.json(); } catch { /* no body = send now */ }
     var raw = await kv.get("emkt_cmp:" + id);
     if (!raw) return c.json({ error: "Campanha não encontrada" }, 404);
     var cmp = typeof raw === "string" ? JSON.parse(raw) : raw;
 
     if (cmp.status === "sent") return c.json({ error: "Campanha já foi enviada" }, 400);
-    if (cmp.status === "sending") return c.json({ error: "Campanha está sendo enviada" }, 400);
+    if (cmp.status === "scheduled") return c.json({ error: "Campanha já está agendada" }, 400);
+    // "sending" without a queue is a campaign stuck by the old in-request sender: it may go again
+    if ((cmp.status === "sending" && cmp.queue) || cmp.status === "paused") return c.json({ error: "Campanha está sendo enviada" }, 400);
+    if (cmp.status === "cancelled") return c.json({ error: "Campanha cancelada. Duplique-a para enviar de novo." }, 400);
+
+    var schedule = parseScheduleAt(body && body.scheduledAt, Date.now());
+    if (schedule.error) return c.json({ error: schedule.error }, 400);
 
     var smtpCfg = await _getSmtpConfig();
     if (!smtpCfg) {
       return c.json({ error: "SMTP não configurado. Vá em Configurações > SMTP e preencha os dados do seu servidor." }, 400);
     }
-
-    // Resolve template
-    var htmlBody = cmp.htmlBody || "";
-    if (cmp.templateId && !htmlBody) {
-      var tplRaw = await kv.get("emkt_tpl:" + cmp.templateId);
-      if (tplRaw) {
-        var tpl = typeof tplRaw === "string" ? JSON.parse(tplRaw) : tplRaw;
-        htmlBody = tpl.htmlBody || "";
-      }
-    }
-    if (!htmlBody) return c.json({ error: "Campanha sem conteudo HTML" }, 400);
+    if (!(await _emktResolveHtml(cmp))) return c.json({ error: "Campanha sem conteudo HTML" }, 400);
     if (!cmp.subject) return c.json({ error: "Campanha sem assunto" }, 400);
 
-    // Get subscribers
-    var subRaws = await kv.getByPrefix("emkt_sub:");
-    var subs: any[] = [];
-    for (var i = 0; i < subRaws.length; i++) {
-      try {
-        var s = typeof subRaws[i] === "string" ? JSON.parse(subRaws[i]) : subRaws[i];
-        if (s && s.email && s.active !== false) {
-          // Filter by tags if campaign has targetTags
-          if (cmp.targetTags && cmp.targetTags.length > 0) {
-            var subTags = s.tags || [];
-            var hasTag = false;
-            for (var t = 0; t < cmp.targetTags.length; t++) {
-              if (subTags.indexOf(cmp.targetTags[t]) >= 0) { hasTag = true; break; }
-            }
-            if (!hasTag) continue;
-          }
-          subs.push(s);
-        }
-      } catch { /* skip */ }
+    if (schedule.at) {
+      cmp.status = "scheduled";
+      cmp.scheduledAt = schedule.at;
+      cmp.scheduleError = null;
+      cmp.updatedAt = Date.now();
+      await kv.set("emkt_cmp:" + id, JSON.stringify(cmp));
+      await _emktQueueIndexAdd(id);
+      return c.json({ ok: true, status: "scheduled", scheduledAt: schedule.at, totalRecipients: 0 });
     }
 
-    if (subs.length === 0) return c.json({ error: "Nenhum assinante ativo encontrado" }, 400);
-
-    // Mark as sending
-    cmp.status = "sending";
-    cmp.updatedAt = Date.now();
-    await kv.set("emkt_cmp:" + id, JSON.stringify(cmp));
-
-    var senderEmail = cmp.senderEmail || smtpCfg.defaultSenderEmail || smtpCfg.smtpUser;
-    var senderName = cmp.senderName || smtpCfg.defaultSenderName || "Carretão Auto Peças";
-    var from = senderName + " <" + senderEmail + ">";
-    var replyTo = cmp.replyTo || smtpCfg.defaultReplyTo || undefined;
+    cmp.scheduledAt = null;
+    var started = await _emktStartQueue(cmp, smtpCfg);
+    if (!started.campaign) return c.json({ error: started.error }, 400);
 
-    var totalSent = 0;
-    var totalFailed = 0;
-    var errors: string[] = [];
+    // First batch right away; the cron keeps it going
+    _runEmktQueue().catch(function (e) {
+      console.error("[EmailMarketing] Queue kick error:", e);
+    });
+    return c.json({ ok: true, status: "sending", scheduledAt: null, totalRecipients: started.campaign.queue.total }, 202);
+  } catch (e: any) {
+    console.error("[EmailMarketing] Send campaign error:", e);
+    return c.json({ error: "Erro ao enviar campanha." }, 500);
+  }
+});
 
-    // Send emails in batches of 3 (SMTP is slower than API, smaller batches)
-    var batchSize = 3;
-    for (var batchStart = 0; batchStart < subs.length; batchStart += batchSize) {
-      var batch = subs.slice(batchStart, batchStart + batchSize);
-      var promises = [];
-      for (var j = 0; j < batch.length; j++) {
-        var sub = batch[j];
-        // Personalize HTML: replace {{nome}} and {{email}}
-        var personalHtml = htmlBody
-          .replace(/\{\{nome\}\}/g, sub.name || "")
-          .replace(/\{\{email\}\}/g, sub.email || "");
-
-        promises.push(
-          _sendSmtpEmail(smtpCfg, {
-            from: from,
-            to: sub.email,
-            subject: cmp.subject,
-            html: personalHtml,
-            replyTo: replyTo,
-          }).then(function () {
-            totalSent++;
-          }).catch(function (err: any) {
-            totalFailed++;
-            errors.push(sub.email + ": " + String(err.message || err));
-          })
-        );
-      }
-      await Promise.allSettled(promises);
-      // Small delay between batches to respect SMTP rate limits
-      if (batchStart + batchSize < subs.length) {
-        await new Promise(function (r) { setTimeout(r, 1000); });
-      }
+// POST /admin/email-marketing/campaigns/:id/pause | resume | cancel — control a queued send
+app.post(BASE + "/admin/email-marketing/campaigns/:id/:action{pause|resume|cancel}", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 100);
+    if (!id) return c.json({ error: "ID invalido." }, 400);
+    var action = c.req.param("action") as EmktCampaignAction;
+    var actionError: string | null = null;
+    var out = await kv.update("emkt_cmp:" + id, function (raw: any) {
+      actionError = null;
+      if (!raw) return undefined;
+      var cur = typeof raw === "string" ? JSON.parse(raw) : raw;
+      var next = campaignActionStatus(cur.status, action, Boolean(cur.queue));
+      if (!next.status) { actionError = next.error || "Acao invalida."; return undefined; }
+      cur.status = next.status;
+      if (next.status === "draft") cur.scheduledAt = null;
+      cur.updatedAt = Date.now();
+      return JSON.stringify(cur);
+    });
+    if (!out.value) return c.json({ error: "Campanha não encontrada" }, 404);
+    if (actionError) return c.json({ error: actionError }, 400);
+    var cmp = typeof out.value === "string" ? JSON.parse(out.value) : out.value;
+    // Cancelled sends are closed by the worker (it owns the queue records)
+    if (cmp.status === "cancelled" || cmp.status === "sending") {
+      _runEmktQueue().catch(function (e) {
+        console.error("[EmailMarketing] Queue kick error:", e);
+      });
     }
+    return c.json({ ok: true, campaign: cmp });
+  } catch (e: any) {
+    console.error("[EmailMarketing] Campaign action error:", e);
+    return c.json({ error: "Erro ao atualizar envio." }, 500);
+  }
+});
 
-    // Update campaign status
-    cmp.status = "sent";
-    cmp.totalSent = totalSent;
-    cmp.totalFailed = totalFailed;
-    cmp.sentAt = Date.now();
-    cmp.updatedAt = Date.now();
-    await kv.set("emkt_cmp:" + id, JSON.stringify(cmp));
-
-    // Save send log
-    var logId = "log_" + Date.now() + "_" + Math.random().toString(36).substring(2, 6);
-    var logEntry = {
-      id: logId,
-      campaignId: id,
-      campaignName: cmp.name,
-      subject: cmp.subject,
-      totalRecipients: subs.length,
-      totalSent: totalSent,
-      totalFailed: totalFailed,
-      errors: errors.slice(0, 50),
-      sentAt: cmp.sentAt
-    };
-    await kv.set("emkt_log:" + logId, JSON.stringify(logEntry));
-
-    return c.json({ ok: true, totalSent: totalSent, totalFailed: totalFailed, totalRecipients: subs.length, errors: errors.slice(0, 10) });
+// GET /admin/email-marketing/campaigns/:id/recipients?status=&q=&offset=&limit= — per-recipient results
+app.get(BASE + "/admin/email-marketing/campaigns/:id/recipients", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 100);
+    if (!id) return c.json({ error: "ID invalido." }, 400);
+    var raw = await kv.get("emkt_cmp:" + id);
+    if (!raw) return c.json({ error: "Campanha não encontrada" }, 404);
+    var cmp = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!cmp.queue || !Array.isArray(cmp.queue.chunks)) {
+      return c.json({ recipients: [], total: 0, progress: null });
+    }
+    var keys: string[] = [];
+    for (var i = 0; i < cmp.queue.chunks.length; i++) keys.push(queueChunkKey(id, i));
+    var raws = keys.length > 0 ? await kv.mget(keys) : [];
+    var chunks: EmktQueueChunk[] = [];
+    for (var j = 0; j < raws.length; j++) {
+      var ch = parseQueueChunk(raws[j]);
+      if (ch) chunks.push(ch);
+    }
+    var page = filterRecipients(chunks, {
+      status: c.req.query("status") || "",
+      q: (c.req.query("q") || "").substring(0, 200),
+      offset: Number(c.req.query("offset")) || 0,
+      limit: Number(c.req.query("limit")) || 50,
+    });
+    var progress = { ...cmp.queue };
+    delete progress.chunks;
+    return c.json({ recipients: page.recipients, total: page.total, progress: progress });
   } catch (e: any) {
-    console.error("[EmailMarketing] Send campaign error:", e);
-    // Try to reset status to draft on failure
-    try {
-      var rawR = await kv.get("emkt_cmp:" + id);
-      if (rawR) {
-        var cmpR = typeof rawR === "string" ? JSON.parse(rawR) : rawR;
-        if (cmpR.status === "sending") {
-          cmpR.status = "draft";
-          cmpR.updatedAt = Date.now();
-          await kv.set("emkt_cmp:" + id, JSON.stringify(cmpR));
-        }
-      }
-    } catch { /* best effort */ }
-    return c.json({ error: "Erro ao enviar campanha." }, 500);
+    console.error("[EmailMarketing] Recipients error:", e);
+    return c.json({ error: "Erro ao listar destinatarios." }, 500);
   }
 });
 
@@ -22112,6 +25669,8 @@ app.post(BASE + "/admin/email-marketing/campaigns/:id/duplicate", async (c) => {
       replyTo: orig.replyTo || "",
       targetTags: orig.targetTags || [],
       status: "draft",
+      scheduledAt: null,
+      queue: null,
       totalSent: 0,
       totalFailed: 0,
       sentAt: null,
@@ -22166,10 +25725,12 @@ app.get(BASE + "/admin/email-marketing/config", async (c) => {
     var raw = await kv.get("emkt_config");
     var config = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : {};
 
-    var hasSmtp = Boolean(config.smtpHost && config.smtpPort && config.smtpUser && config.smtpPass);
+    var hasSmtp = _smtpConfigured(config);
+    var throttle = parseThrottle(config);
 
     return c.json({
       smtpConfigured: hasSmtp,
+      smtpLocal: _isDevSmtp(config),
       smtpHost: config.smtpHost || "",
       smtpPort: config.smtpPort || 587,
       smtpUser: config.smtpUser || "",
@@ -22177,7 +25738,12 @@ app.get(BASE + "/admin/email-marketing/config", async (c) => {
       smtpSecure: Boolean(config.smtpSecure),
       defaultSenderName: config.defaultSenderName || "Carretão Auto Peças",
       defaultSenderEmail: config.defaultSenderEmail || "",
-      defaultReplyTo: config.defaultReplyTo || ""
+      defaultReplyTo: config.defaultReplyTo || "",
+      maxPerMinute: throttle.maxPerMinute,
+      maxPerHour: throttle.maxPerHour,
+      maxAttempts: throttle.maxAttempts,
+      preferenceTopics: parsePreferenceTopics(config.preferenceTopics),
+      bounceWebhookUrl: await _emktBounceWebhookUrl()
     });
   } catch (e: any) {
     console.error("[EmailMarketing] Get config error:", e);
@@ -22201,8 +25767,14 @@ app.put(BASE + "/admin/email-marketing/config", async (c) => {
       defaultSenderName: { type: "string", maxLen: 200 },
       defaultSenderEmail: { type: "string", maxLen: 254 },
       defaultReplyTo: { type: "string", maxLen: 254 },
+      maxPerMinute: { type: "number" },
+      maxPerHour: { type: "number" },
+      maxAttempts: { type: "number" },
+      preferenceTopics: { type: "array", maxItems: 20 },
     });
     if (!smtpValid.ok) return c.json({ error: smtpValid.errors[0] || "Dados invalidos." }, 400);
+    var throttleErr = checkThrottle(body);
+    if (throttleErr) return c.json({ error: throttleErr }, 400);
 
     // Load existing config so partial updates don't lose fields
     var rawExisting = await kv.get("emkt_config");
@@ -22220,6 +25792,14 @@ app.put(BASE + "/admin/email-marketing/config", async (c) => {
     if (body.defaultSenderEmail !== undefined) config.defaultSenderEmail = String(body.defaultSenderEmail).trim();
     if (body.defaultReplyTo !== undefined) config.defaultReplyTo = String(body.defaultReplyTo).trim();
 
+    // Queue throttle (SMTP provider limits)
+    if (body.maxPerMinute !== undefined) config.maxPerMinute = Math.round(Number(body.maxPerMinute));
+    if (body.maxPerHour !== undefined) config.maxPerHour = Math.round(Number(body.maxPerHour));
+    if (body.maxAttempts !== undefined) config.maxAttempts = Math.round(Number(body.maxAttempts));
+
+    // Topics offered on the subscriber preferences page (tag = subscriber tag)
+    if (body.preferenceTopics !== undefined) config.preferenceTopics = parsePreferenceTopics(body.preferenceTopics);
+
     config.updatedAt = Date.now();
     await kv.set("emkt_config", JSON.stringify(config));
 
@@ -22232,6 +25812,10 @@ app.put(BASE + "/admin/email-marketing/config", async (c) => {
       defaultSenderName: config.defaultSenderName || "",
       defaultSenderEmail: config.defaultSenderEmail || "",
       defaultReplyTo: config.defaultReplyTo || "",
+      maxPerMinute: parseThrottle(config).maxPerMinute,
+      maxPerHour: parseThrottle(config).maxPerHour,
+      maxAttempts: parseThrottle(config).maxAttempts,
+      preferenceTopics: parsePreferenceTopics(config.preferenceTopics),
     }});
   } catch (e: any) {
     console.error("[EmailMarketing] Update config error:", e);
@@ -22239,31 +25823,712 @@ app.put(BASE + "/admin/email-marketing/config", async (c) => {
   }
 });
 
-// ═══════════════════════════════════════
-// ─── SITEMAP.XML + ROBOTS.TXT (SEO) ──
-// ═══════════════════════════════════════
+// --- Tracking, unsubscribe and bounces (email_tracking.ts) ---
+// Every queued e-mail carries a signed "cmpId|subId" token. The pixel and the
+// click redirect below only write emkt_track:<cmpId>:<subId>; unsubscribes,
+// preference changes, hard bounces and complaints change emkt_sub:<subId>.
+// These routes are public (opened from the inbox), so they never trust ids
+// that are not inside a valid token.
 
-app.get(BASE + "/robots.txt", async (c) => {
-  try {
-    var siteUrl = "";
-    try {
-      var rawSettings = await kv.get("site_settings");
-      if (rawSettings) {
-        var parsed = typeof rawSettings === "string" ? JSON.parse(rawSettings) : rawSettings;
-        if (parsed.siteUrl) siteUrl = parsed.siteUrl;
-      }
-    } catch (_e) { /* ignore */ }
-    if (!siteUrl) siteUrl = "https://www.carretaoautopecas.com.br";
-    var sitemapUrl = Deno.env.get("SUPABASE_URL") + "/functions/v1/make-server-b7b07654/sitemap.xml";
+var EMKT_LINKS_CACHE_MS = 5 * 60 * 1000;
 
-    // Build a standards-compliant robots.txt (RFC 9309)
-    // Each User-agent block is separated by a blank line
-    var lines: string[] = [];
+function _emktPublicUrl(path: string): string {
+  return (Deno.env.get("SUPABASE_URL") || "") + "/functions/v1" + BASE + path;
+}
 
-    // ── Main crawlers (Googlebot, Bingbot, etc.) ──
-    lines.push("User-agent: *");
-    lines.push("Allow: /");
-    lines.push("Allow: /catalogo");
+async function _emktToken(cmpId: string, subId: string): Promise<string> {
+  return signToken("emkt", emktTokenPayload(cmpId, subId));
+}
+
+async function _verifyEmktToken(token: string): Promise<{ cmpId: string; subId: string } | null> {
+  var payload = await verifyToken("emkt", token);
+  return payload === null ? null : parseEmktTokenPayload(payload);
+}
+
+/** Site page /email/preferencias; `unsubscribe` opens it on the "descadastrar" confirmation */
+async function _emktPreferencesUrl(cmpId: string, subId: string, unsubscribe: boolean): Promise<string> {
+  return _getSiteUrl() + "/email/preferencias?token=" + (await _emktToken(cmpId, subId)) + (unsubscribe ? "&sair=1" : "");
+}
+
+/** The bounce webhook secret is derived, not stored: nothing to rotate by hand */
+async function _emktBounceWebhookUrl(): Promise<string> {
+  return _emktPublicUrl("/emkt/bounce-webhook?key=" + (await tokenSignature("emkt", "bounce_webhook")));
+}
+
+/** One recipient's tracked HTML plus the List-Unsubscribe headers */
+async function _emktTrackedMessage(cmpId: string, subId: string, html: string, links: string[]): Promise<{ html: string; headers: Record<string, string> }> {
+  var token = await _emktToken(cmpId, subId);
+  var prefsUrl = _getSiteUrl() + "/email/preferencias?token=" + token;
+  return {
+    html: trackHtml(html, {
+      links: links,
+      clickUrl: function (index: number) { return _emktPublicUrl("/e/c/" + token + "/" + index); },
+      pixelUrl: _emktPublicUrl("/e/o/" + token),
+      unsubscribeUrl: prefsUrl + "&sair=1",
+      preferencesUrl: prefsUrl,
+    }),
+    headers: listUnsubscribeHeaders(_emktPublicUrl("/e/u/" + token)),
+  };
+}
+
+async function _emktTrack(cmpId: string, subId: string, kind: "open" | "click" | "unsubscribe" | "bounce" | "complaint", linkIndex?: number): Promise<void> {
+  if (!cmpId) return;
+  var key = trackKey(cmpId, subId);
+  // The e-mail is kept on the record for the stats/order join (subscribers can be deleted later)
+  var email = parseTrackRecord(await kv.get(key), cmpId, subId).email;
+  if (!email) {
+    var subRaw = await kv.get("emkt_sub:" + subId);
+    var sub = subRaw ? (typeof subRaw === "string" ? JSON.parse(subRaw) : subRaw) : null;
+    email = sub && sub.email ? String(sub.email) : "";
+  }
+  var now = Date.now();
+  await kv.update(key, function (raw: any) {
+    var next = recordEngagement(parseTrackRecord(raw, cmpId, subId), kind, now, linkIndex);
+    if (!next.email) next.email = email;
+    return JSON.stringify(next);
+  });
+}
+
+/** Deactivates the subscriber (and marks the campaign record). Returns false when nothing changed */
+async function _emktFeedback(subId: string, reason: EmktInactiveReason, detail: string, cmpId: string): Promise<boolean> {
+  var changed = false;
+  await kv.update("emkt_sub:" + subId, function (raw: any) {
+    if (!raw) return undefined;
+    var next = deactivateSubscriber(typeof raw === "string" ? JSON.parse(raw) : raw, reason, Date.now(), detail);
+    changed = Boolean(next);
+    return next ? JSON.stringify(next) : undefined;
+  });
+  if (cmpId) await _emktTrack(cmpId, subId, reason);
+  if (changed) console.log("[EmailMarketing] Subscriber " + subId + " deactivated: " + reason);
+  return changed;
+}
+
+async function _emktCampaignLinks(cmpId: string): Promise<string[]> {
+  var cacheKey = "_emkt_links:" + cmpId;
+  var cached = memGet(cacheKey);
+  if (cached) return cached;
+  var raw = await kv.get(linksKey(cmpId));
+  var links: string[] = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : [];
+  if (!Array.isArray(links)) links = [];
+  memSet(cacheKey, links, EMKT_LINKS_CACHE_MS);
+  return links;
+}
+
+function _emktPixelResponse(): Response {
+  return new Response(TRACKING_PIXEL_GIF, {
+    status: 200,
+    headers: { "Content-Type": "image/gif", "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+// GET /e/o/:token — open pixel (always answers with the GIF)
+app.get(BASE + "/e/o/:token", async (c) => {
+  try {
+    var ref = await _verifyEmktToken((c.req.param("token") || "").substring(0, 600));
+    if (ref) await _emktTrack(ref.cmpId, ref.subId, "open");
+  } catch (e: any) {
+    console.error("[EmailMarketing] Open tracking error:", e);
+  }
+  return _emktPixelResponse();
+});
+
+// GET /e/c/:token/:idx — click redirect to the campaign link
+app.get(BASE + "/e/c/:token/:idx", async (c) => {
+  var siteUrl = _getSiteUrl();
+  try {
+    var ref = await _verifyEmktToken((c.req.param("token") || "").substring(0, 600));
+    var idx = parseInt(c.req.param("idx") || "", 10);
+    if (!ref || !ref.cmpId || !(idx >= 0)) return c.redirect(siteUrl, 302);
+    var links = await _emktCampaignLinks(ref.cmpId);
+    var url = links[idx];
+    if (!url) return c.redirect(siteUrl, 302);
+    try {
+      await _emktTrack(ref.cmpId, ref.subId, "click", idx);
+    } catch (te: any) {
+      console.error("[EmailMarketing] Click tracking error:", te);
+    }
+    return c.redirect(withCampaignUtm(url, siteUrl, ref.cmpId), 302);
+  } catch (e: any) {
+    console.error("[EmailMarketing] Click redirect error:", e);
+    return c.redirect(siteUrl, 302);
+  }
+});
+
+// POST /e/u/:token — List-Unsubscribe one-click (RFC 8058)
+app.post(BASE + "/e/u/:token", async (c) => {
+  try {
+    var ref = await _verifyEmktToken((c.req.param("token") || "").substring(0, 600));
+    if (!ref) return c.json({ error: "Link de descadastro invalido." }, 400);
+    // Per subscriber, not per IP: mailbox providers send every one-click POST from a few shared IPs
+    var euRl = _checkRateLimit("emkt_unsub:" + ref.subId, 10);
+    if (!euRl.allowed) return _rl429(c, "Muitas solicitacoes. Aguarde um instante.", euRl);
+    await _emktFeedback(ref.subId, "unsubscribe", "", ref.cmpId);
+    return c.json({ ok: true });
+  } catch (e: any) {
+    console.error("[EmailMarketing] One-click unsubscribe error:", e);
+    return c.json({ error: "Erro ao descadastrar." }, 500);
+  }
+});
+
+// GET /e/u/:token — clients that open the List-Unsubscribe URL land on the confirmation page
+app.get(BASE + "/e/u/:token", async (c) => {
+  var token = (c.req.param("token") || "").substring(0, 600);
+  return c.redirect(_getSiteUrl() + "/email/preferencias?token=" + encodeURIComponent(token) + "&sair=1", 302);
+});
+
+async function _emktPreferencesView(sub: any): Promise<any> {
+  var cfgRaw = await kv.get("emkt_config");
+  var cfg = cfgRaw ? (typeof cfgRaw === "string" ? JSON.parse(cfgRaw) : cfgRaw) : {};
+  var tags: string[] = Array.isArray(sub.tags) ? sub.tags : [];
+  return {
+    email: maskEmail(String(sub.email || "")),
+    active: sub.active !== false,
+    inactiveReason: sub.active === false ? (sub.inactiveReason || null) : null,
+    topics: parsePreferenceTopics(cfg.preferenceTopics).map(function (t) {
+      return { tag: t.tag, label: t.label, selected: tags.indexOf(t.tag) >= 0 };
+    }),
+  };
+}
+
+// GET /email-prefs?token= — the subscriber's preferences (signed link from the e-mail)
+app.get(BASE + "/email-prefs", async (c) => {
+  try {
+    var epRl = _checkRateLimit(_getRateLimitKey(c, "emkt_prefs"), 30);
+    if (!epRl.allowed) return _rl429(c, "Muitas solicitacoes. Aguarde um instante.", epRl);
+    var ref = await _verifyEmktToken(String(c.req.query("token") || "").substring(0, 600));
+    if (!ref) return c.json({ error: "Link invalido ou expirado." }, 400);
+    var raw = await kv.get("emkt_sub:" + ref.subId);
+    if (!raw) return c.json({ error: "Assinatura nao encontrada." }, 404);
+    return c.json(await _emktPreferencesView(typeof raw === "string" ? JSON.parse(raw) : raw));
+  } catch (e: any) {
+    console.error("[EmailMarketing] Get preferences error:", e);
+    return c.json({ error: "Erro ao carregar preferencias." }, 500);
+  }
+});
+
+// PUT /email-prefs — { token, active, tags? } (tags omitted = keep the current topics)
+app.put(BASE + "/email-prefs", async (c) => {
+  try {
+    var epRl = _checkRateLimit(_getRateLimitKey(c, "emkt_prefs"), 30);
+    if (!epRl.allowed) return _rl429(c, "Muitas solicitacoes. Aguarde um instante.", epRl);
+    var body = await c.req.json().catch(function () { return null; });
+    var ref = await _verifyEmktToken(body && typeof body.token === "string" ? body.token.substring(0, 600) : "");
+    if (!ref) return c.json({ error: "Link invalido ou expirado." }, 400);
+    if (typeof body.active !== "boolean") return c.json({ error: "Informe se deseja continuar recebendo e-mails." }, 400);
+    var cfgRaw = await kv.get("emkt_config");
+    var cfg = cfgRaw ? (typeof cfgRaw === "string" ? JSON.parse(cfgRaw) : cfgRaw) : {};
+    var topics = parsePreferenceTopics(cfg.preferenceTopics);
+    var wantsActive = body.active;
+    var selected: string[] | null = Array.isArray(body.tags) ? body.tags.slice(0, 50).map(function (t: any) { return String(t); }) : null;
+    var wasActive = false;
+    var out = await kv.update("emkt_sub:" + ref.subId, function (raw: any) {
+      if (!raw) return undefined;
+      var sub = typeof raw === "string" ? JSON.parse(raw) : raw;
+      wasActive = sub.active !== false;
+      return JSON.stringify(applyPreferences(sub, topics, selected || (Array.isArray(sub.tags) ? sub.tags : []), wantsActive, Date.now()));
+    });
+    if (!out.written) return c.json({ error: "Assinatura nao encontrada." }, 404);
+    if (wasActive && !wantsActive) await _emktTrack(ref.cmpId, ref.subId, "unsubscribe");
+    var saved = typeof out.value === "string" ? JSON.parse(out.value) : out.value;
+    return c.json({ ok: true, ...(await _emktPreferencesView(saved)) });
+  } catch (e: any) {
+    console.error("[EmailMarketing] Save preferences error:", e);
+    return c.json({ error: "Erro ao salvar preferencias." }, 500);
+  }
+});
+
+// POST /emkt/bounce-webhook?key= — bounces/complaints from the SMTP provider (SES via SNS, SendGrid, generic)
+app.post(BASE + "/emkt/bounce-webhook", async (c) => {
+  try {
+    var key = String(c.req.query("key") || "");
+    var expected = await tokenSignature("emkt", "bounce_webhook");
+    var diff = key.length === expected.length ? 0 : 1;
+    for (var i = 0; i < expected.length && i < key.length; i++) diff |= expected.charCodeAt(i) ^ key.charCodeAt(i);
+    if (diff !== 0) return c.json({ error: "Nao autorizado." }, 401);
+    // SNS posts JSON as text/plain
+    var body: any = null;
+    try { body = JSON.parse(await c.req.text()); } catch { return c.json({ error: "JSON invalido." }, 400); }
+    if (body && body.Type === "SubscriptionConfirmation" && typeof body.SubscribeURL === "string") {
+      if (!/^https:\/\/sns\.[a-z0-9-]+\.amazonaws\.com\//.test(body.SubscribeURL)) return c.json({ error: "SubscribeURL invalida." }, 400);
+      await fetch(body.SubscribeURL);
+      console.log("[EmailMarketing] Bounce webhook: SNS subscription confirmed");
+      return c.json({ ok: true, confirmed: true });
+    }
+    var events = parseFeedbackEvents(body);
+    var deactivated = 0;
+    var ignored = 0;
+    for (var e = 0; e < events.length; e++) {
+      var ev = events[e];
+      if (ev.type === "bounce" && !ev.permanent) { ignored++; continue; }
+      if (await _emktFeedback(subscriberIdForEmail(ev.email), ev.type, ev.reason, "")) deactivated++;
+    }
+    return c.json({ ok: true, received: events.length, deactivated: deactivated, ignored: ignored });
+  } catch (e: any) {
+    console.error("[EmailMarketing] Bounce webhook error:", e);
+    return c.json({ error: "Erro ao processar webhook." }, 500);
+  }
+});
+
+// GET /admin/email-marketing/campaigns/:id/stats — opens, clicks, unsubscribes, bounces and attributed orders
+app.get(BASE + "/admin/email-marketing/campaigns/:id/stats", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 100);
+    if (!id) return c.json({ error: "ID invalido." }, 400);
+    var raw = await kv.get("emkt_cmp:" + id);
+    if (!raw) return c.json({ error: "Campanha não encontrada" }, 404);
+    var cmp = typeof raw === "string" ? JSON.parse(raw) : raw;
+
+    var records: EmktTrackRecord[] = [];
+    var trackRaws = await kv.getByPrefix(EMKT_TRACK_PREFIX + id + ":");
+    for (var i = 0; i < trackRaws.length; i++) {
+      try { records.push(parseTrackRecord(trackRaws[i], id, "")); } catch { /* skip */ }
+    }
+    var linksRaw = await kv.get(linksKey(id));
+    var links: string[] = linksRaw ? (typeof linksRaw === "string" ? JSON.parse(linksRaw) : linksRaw) : [];
+    var recipients = cmp.queue ? cmp.queue.total : (cmp.totalSent || 0) + (cmp.totalFailed || 0);
+    var stats = campaignStats(records, Array.isArray(links) ? links : [], recipients, cmp.totalSent || 0);
+
+    // Conversions: clicker e-mail → customer account → purchased orders within the window
+    var clickers = records.filter(function (r) { return r.firstClickAt && r.email; });
+    if (clickers.length > 0) {
+      var userIdByEmail: Record<string, string> = {};
+      var profiles = await kv.getByPrefix("user_profile:");
+      for (var p = 0; p < profiles.length; p++) {
+        try {
+          var prof = typeof profiles[p] === "string" ? JSON.parse(profiles[p]) : profiles[p];
+          if (prof && prof.id && prof.email) userIdByEmail[String(prof.email).toLowerCase()] = prof.id;
+        } catch { /* skip */ }
+      }
+      var perBuyer: Array<{ orders: number; revenue: number }> = [];
+      for (var k = 0; k < clickers.length; k++) {
+        var uid = userIdByEmail[clickers[k].email.toLowerCase()];
+        if (!uid) continue;
+        var ordersRaw = await kv.getByPrefix("user_order:" + uid + ":");
+        var orders: Array<{ createdAt: any; total: any; purchased: boolean }> = [];
+        for (var o = 0; o < ordersRaw.length; o++) {
+          try {
+            var order = typeof ordersRaw[o] === "string" ? JSON.parse(ordersRaw[o]) : ordersRaw[o];
+            var st = normalizeOrderStatus(order.status);
+            orders.push({ createdAt: order.createdAt, total: order.total, purchased: Boolean(st) && PURCHASED_ORDER_STATUSES.indexOf(st!) >= 0 });
+          } catch { /* skip */ }
+        }
+        perBuyer.push(attributedOrders(clickers[k].firstClickAt!, orders));
+      }
+      stats = addConversions(stats, perBuyer);
+    }
+    return c.json({ stats: stats, attributionDays: EMKT_ATTRIBUTION_MS / (24 * 60 * 60 * 1000) });
+  } catch (e: any) {
+    console.error("[EmailMarketing] Campaign stats error:", e);
+    return c.json({ error: "Erro ao calcular estatisticas." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════
+// ─── CUSTOMER SEGMENTS (segment builder + WhatsApp broadcasts) ──
+// Rules live in customer_segments.ts; this side only loads the customer
+// facts (profiles, orders, favorites, carts) and stores segments/broadcasts.
+// Email campaigns filter their subscribers by campaign.segmentId.
+// ═══════════════════════════════════════════════════════
+
+var SEGMENT_CUSTOMERS_TTL_MS = 2 * 60 * 1000;
+var WA_BROADCAST_LOCK = "wa_broadcast_worker";
+var WA_BROADCAST_LOCK_TTL_MS = 3 * 60 * 1000;
+var _waBroadcastRunning = false;
+
+// All key/value rows under a prefix, paged past the 1000-row cap (parsed)
+async function _segmentKvRows(prefix: string): Promise<Array<{ key: string; value: any }>> {
+  var out: Array<{ key: string; value: any }> = [];
+  for (var off = 0; ; off += 1000) {
+    var { data, error } = await supabaseAdmin.from("kv_store_b7b07654").select("key, value").like("key", prefix + "%").order("key", { ascending: true }).range(off, off + 999);
+    if (error) throw new Error(prefix + " " + error.message);
+    var rows = (data || []) as Array<{ key: string; value: any }>;
+    for (var i = 0; i < rows.length; i++) {
+      var v = rows[i].value;
+      if (typeof v === "string") { try { v = JSON.parse(v); } catch (_e) { v = null; } }
+      if (v) out.push({ key: rows[i].key, value: v });
+    }
+    if (rows.length < 1000) break;
+  }
+  return out;
+}
+
+// Customer facts for every profile and guest cart, cached briefly (the preview re-runs on every rule edit)
+async function _segmentCustomers(): Promise<CustomerFacts[]> {
+  var cached = memGet("_segment_customers");
+  if (cached) return cached;
+  var profiles = (await _segmentKvRows("user_profile:")).map(function (r) { return r.value; });
+  var ordersByUser: Record<string, any[]> = {};
+  var orderRows = await _segmentKvRows("user_order:");
+  for (var i = 0; i < orderRows.length; i++) {
+    // user_order:<userId>:<orderId>
+    var uid = orderRows[i].key.split(":")[1] || "";
+    if (!uid) continue;
+    (ordersByUser[uid] = ordersByUser[uid] || []).push(orderRows[i].value);
+  }
+  var favoritesByUser: Record<string, any[]> = {};
+  var favRows = await _segmentKvRows("user_favorites:");
+  for (var f = 0; f < favRows.length; f++) {
+    if (Array.isArray(favRows[f].value)) favoritesByUser[favRows[f].key.substring("user_favorites:".length)] = favRows[f].value;
+  }
+  var carts = await _hydrateWaCarts((await _segmentKvRows("wa_cart:")).map(function (r) { return r.value; }));
+  var customers = assembleCustomers(profiles, ordersByUser, favoritesByUser, carts);
+  memSet("_segment_customers", customers, SEGMENT_CUSTOMERS_TTL_MS);
+  return customers;
+}
+
+async function _segmentContext(def: SegmentDefinition): Promise<SegmentContext> {
+  var metas: Map<string, any> = segmentNeedsCategories(def) ? await getAllProductMetas() : new Map();
+  var tree = segmentNeedsCategories(def) ? ((await kv.get("category_tree")) || []) : [];
+  var slugCache: Record<string, string[]> = {};
+  return {
+    now: Date.now(),
+    categoryOf: function (sku: string) {
+      var meta = metas.get(sku);
+      return (meta && meta.category) || "";
+    },
+    categorySlugs: function (slug: string) {
+      if (!slugCache[slug]) {
+        var slugs = collectDescendantSlugs(Array.isArray(tree) ? tree : [], slug);
+        slugCache[slug] = slugs.length > 0 ? slugs : [slug];
+      }
+      return slugCache[slug];
+    },
+  };
+}
+
+async function _segmentMembers(def: SegmentDefinition): Promise<CustomerFacts[]> {
+  var customers = await _segmentCustomers();
+  return segmentMembers(def, customers, await _segmentContext(def));
+}
+
+async function _getSegment(id: string): Promise<CustomerSegment | null> {
+  if (!id) return null;
+  try { return parseSegment(await kv.get(segmentKey(id))); } catch { return null; }
+}
+
+// Active email marketing subscribers, by lowercase e-mail
+async function _segmentSubscriberEmails(): Promise<Record<string, boolean>> {
+  var out: Record<string, boolean> = {};
+  var raws = await kv.getByPrefix("emkt_sub:");
+  for (var i = 0; i < raws.length; i++) {
+    try {
+      var sub = typeof raws[i] === "string" ? JSON.parse(raws[i]) : raws[i];
+      if (sub && sub.email && sub.active !== false) out[String(sub.email).toLowerCase()] = true;
+    } catch { /* skip */ }
+  }
+  return out;
+}
+
+// Phones that left WhatsApp broadcasts (wa_optout:<phone>)
+async function _waOptedOutPhones(): Promise<Record<string, boolean>> {
+  var out: Record<string, boolean> = {};
+  var raws = await kv.getByPrefix(WA_OPTOUT_PREFIX);
+  for (var i = 0; i < raws.length; i++) {
+    try {
+      var rec = typeof raws[i] === "string" ? JSON.parse(raws[i]) : raws[i];
+      if (rec && rec.phone) out[String(rec.phone)] = true;
+    } catch { /* skip */ }
+  }
+  return out;
+}
+
+/** Signed no-login link printed at the end of every broadcast message */
+async function _waOptOutUrl(phone: string): Promise<string> {
+  return _getSiteUrl() + "/whatsapp/sair?token=" + encodeURIComponent(await signToken("wa_optout", phone));
+}
+
+function _segmentInput(body: any): { name?: string; description?: string; definition?: SegmentDefinition; error?: string } {
+  var name = String((body && body.name) || "").trim().substring(0, 120);
+  if (!name) return { error: "Nome do segmento obrigatorio." };
+  var def = normalizeSegmentDefinition(body.definition);
+  if (def.error) return { error: def.error };
+  return { name: name, description: String(body.description || "").trim().substring(0, 500), definition: def.definition };
+}
+
+// GET /admin/segments — saved segments
+app.get(BASE + "/admin/segments", async (c) => {
+  try {
+    var raws = await kv.getByPrefix(CUSTOMER_SEGMENT_PREFIX);
+    var segments: CustomerSegment[] = [];
+    for (var i = 0; i < raws.length; i++) {
+      try {
+        var seg = parseSegment(raws[i]);
+        if (seg) segments.push(seg);
+      } catch { /* skip */ }
+    }
+    segments.sort(function (a, b) { return a.name.localeCompare(b.name, "pt-BR"); });
+    return c.json({ segments: segments });
+  } catch (e: any) {
+    console.error("[Segments] List error:", e);
+    return c.json({ error: "Erro ao listar segmentos." }, 500);
+  }
+});
+
+// POST /admin/segments/preview — live count for a definition being edited
+app.post(BASE + "/admin/segments/preview", async (c) => {
+  try {
+    var body = await c.req.json();
+    var def = normalizeSegmentDefinition(body && body.definition);
+    if (def.error) return c.json({ error: def.error }, 400);
+    var members = await _segmentMembers(def.definition!);
+    return c.json({ preview: segmentPreview(members, await _segmentSubscriberEmails(), await _waOptedOutPhones(), 10) });
+  } catch (e: any) {
+    console.error("[Segments] Preview error:", e);
+    return c.json({ error: "Erro ao calcular o segmento." }, 500);
+  }
+});
+
+// POST /admin/segments — create
+app.post(BASE + "/admin/segments", async (c) => {
+  try {
+    var input = _segmentInput(await c.req.json());
+    if (input.error) return c.json({ error: input.error }, 400);
+    var now = Date.now();
+    var members = await _segmentMembers(input.definition!);
+    var seg: CustomerSegment = {
+      id: "seg_" + now + "_" + Math.random().toString(36).substring(2, 8),
+      name: input.name!,
+      description: input.description || "",
+      definition: input.definition!,
+      lastCount: members.length,
+      lastCountAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await kv.set(segmentKey(seg.id), JSON.stringify(seg));
+    return c.json({ ok: true, segment: seg });
+  } catch (e: any) {
+    console.error("[Segments] Create error:", e);
+    return c.json({ error: "Erro ao criar segmento." }, 500);
+  }
+});
+
+// PUT /admin/segments/:id — update
+app.put(BASE + "/admin/segments/:id", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 100);
+    var existing = await _getSegment(id);
+    if (!existing) return c.json({ error: "Segmento nao encontrado." }, 404);
+    var input = _segmentInput(await c.req.json());
+    if (input.error) return c.json({ error: input.error }, 400);
+    var now = Date.now();
+    var members = await _segmentMembers(input.definition!);
+    var seg: CustomerSegment = {
+      ...existing,
+      name: input.name!,
+      description: input.description || "",
+      definition: input.definition!,
+      lastCount: members.length,
+      lastCountAt: now,
+      updatedAt: now,
+    };
+    await kv.set(segmentKey(id), JSON.stringify(seg));
+    return c.json({ ok: true, segment: seg });
+  } catch (e: any) {
+    console.error("[Segments] Update error:", e);
+    return c.json({ error: "Erro ao atualizar segmento." }, 500);
+  }
+});
+
+// DELETE /admin/segments/:id — refused while a scheduled campaign uses it (broadcasts froze their audience)
+app.delete(BASE + "/admin/segments/:id", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 100);
+    if (!id) return c.json({ error: "ID invalido." }, 400);
+    var cmpRaws = await kv.getByPrefix("emkt_cmp:");
+    for (var i = 0; i < cmpRaws.length; i++) {
+      try {
+        var cmp = typeof cmpRaws[i] === "string" ? JSON.parse(cmpRaws[i]) : cmpRaws[i];
+        if (cmp && cmp.segmentId === id && cmp.status === "scheduled") {
+          return c.json({ error: "A campanha agendada \"" + cmp.name + "\" usa este segmento. Troque o segmento dela antes de excluir." }, 400);
+        }
+      } catch { /* skip */ }
+    }
+    await kv.del(segmentKey(id));
+    return c.json({ ok: true, deleted: id });
+  } catch (e: any) {
+    console.error("[Segments] Delete error:", e);
+    return c.json({ error: "Erro ao excluir segmento." }, 500);
+  }
+});
+
+// --- WhatsApp broadcasts to a segment ---
+
+async function _waBroadcastQueueSet(id: string, add: boolean): Promise<void> {
+  await kv.update(WA_BROADCAST_QUEUE_KEY, function (raw: any) {
+    var ids: string[] = raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : [];
+    if (!Array.isArray(ids)) ids = [];
+    var has = ids.indexOf(id) >= 0;
+    if (add === has) return undefined;
+    return JSON.stringify(add ? ids.concat([id]) : ids.filter(function (x) { return x !== id; }));
+  });
+}
+
+/** One worker pass: up to WA_BROADCAST_SENDS_PER_RUN messages across active broadcasts */
+async function _runWaBroadcasts(): Promise<number> {
+  if (_waBroadcastRunning) return 0;
+  var owner = await kvAtomic.tryLock(WA_BROADCAST_LOCK, WA_BROADCAST_LOCK_TTL_MS);
+  if (!owner) return 0;
+  _waBroadcastRunning = true;
+  try {
+    var rawIds = await kv.get(WA_BROADCAST_QUEUE_KEY);
+    var ids: string[] = rawIds ? (typeof rawIds === "string" ? JSON.parse(rawIds) : rawIds) : [];
+    if (!Array.isArray(ids) || ids.length === 0) return 0;
+    var waConf = await kv.get("whatsapp_config");
+    if (!waConf || !waConf.enabled) return 0;
+    var sent = 0;
+    for (var i = 0; i < ids.length && sent < WA_BROADCAST_SENDS_PER_RUN; i++) {
+      var b = parseBroadcast(await kv.get(broadcastKey(ids[i])));
+      var indexes = b ? pendingBroadcastIndexes(b, WA_BROADCAST_SENDS_PER_RUN - sent) : [];
+      if (!b || indexes.length === 0) {
+        await _waBroadcastQueueSet(ids[i], false);
+        continue;
+      }
+      var results: Array<{ index: number; ok: boolean; error?: string; optedOut?: boolean }> = [];
+      for (var k = 0; k < indexes.length; k++) {
+        var rcpt = b.recipients[indexes[k]];
+        // The audience was frozen at creation; an opt-out since then still wins
+        if (await kv.get(waOptOutKey(rcpt.phone))) {
+          results.push({ index: indexes[k], ok: false, optedOut: true });
+          continue;
+        }
+        var res = await sendWhatsAppMessage(waConf, rcpt.phone, broadcastText(b.message, rcpt.name, await _waOptOutUrl(rcpt.phone)));
+        results.push({ index: indexes[k], ok: res.ok, error: res.error });
+        if (res.ok) sent++;
+      }
+      // The admin may have cancelled meanwhile: merge into the current record
+      var out = await kv.update(broadcastKey(b.id), function (raw: any) {
+        var cur = parseBroadcast(raw);
+        return cur ? JSON.stringify(withBroadcastResults(cur, results, Date.now())) : undefined;
+      });
+      var after = parseBroadcast(out.value);
+      if (!after || after.status !== "sending") {
+        await _waBroadcastQueueSet(b.id, false);
+        if (after) console.log("[WhatsApp] Broadcast " + b.id + " " + after.status + ": " + broadcastTotals(after).sent + "/" + after.recipients.length + " sent.");
+      }
+    }
+    return sent;
+  } finally {
+    _waBroadcastRunning = false;
+    await kvAtomic.unlock(WA_BROADCAST_LOCK, owner);
+  }
+}
+
+// GET /admin/whatsapp-broadcasts — history (totals only)
+app.get(BASE + "/admin/whatsapp-broadcasts", async (c) => {
+  try {
+    var raws = await kv.getByPrefix(WA_BROADCAST_PREFIX);
+    var list: WaBroadcast[] = [];
+    for (var i = 0; i < raws.length; i++) {
+      try {
+        var b = parseBroadcast(raws[i]);
+        if (b) list.push(b);
+      } catch { /* skip */ }
+    }
+    list.sort(function (a, b) { return b.createdAt - a.createdAt; });
+    return c.json({ broadcasts: list.slice(0, 50).map(publicBroadcast) });
+  } catch (e: any) {
+    console.error("[WhatsApp] List broadcasts error:", e);
+    return c.json({ error: "Erro ao listar disparos." }, 500);
+  }
+});
+
+// POST /admin/whatsapp-broadcasts — freeze the segment audience and start sending
+app.post(BASE + "/admin/whatsapp-broadcasts", async (c) => {
+  try {
+    var body = await c.req.json();
+    var message = String((body && body.message) || "").trim();
+    if (!message) return c.json({ error: "Escreva a mensagem." }, 400);
+    if (message.length > MAX_BROADCAST_MESSAGE) return c.json({ error: "Mensagem com mais de " + MAX_BROADCAST_MESSAGE + " caracteres." }, 400);
+    var seg = await _getSegment(String(body.segmentId || "").substring(0, 100));
+    if (!seg) return c.json({ error: "Segmento nao encontrado." }, 404);
+    var waConf = await kv.get("whatsapp_config");
+    if (!waConf || !waConf.enabled) return c.json({ error: "WhatsApp nao esta habilitado." }, 400);
+
+    var members = await _segmentMembers(seg.definition);
+    var audience = whatsappAudience(members, await _waOptedOutPhones(), MAX_BROADCAST_RECIPIENTS + 1);
+    if (audience.length === 0) return c.json({ error: "Nenhum cliente do segmento aceitou receber ofertas por WhatsApp." }, 400);
+    if (audience.length > MAX_BROADCAST_RECIPIENTS) {
+      return c.json({ error: "O segmento tem mais de " + MAX_BROADCAST_RECIPIENTS + " clientes com aceite de WhatsApp. Refine as regras antes de disparar." }, 400);
+    }
+    var now = Date.now();
+    var actor = c.get("adminUser") || {};
+    var b = newBroadcast("wab_" + now + "_" + Math.random().toString(36).substring(2, 8), seg, message, audience, actor.email || actor.userId || null, now);
+    await kv.set(broadcastKey(b.id), JSON.stringify(b));
+    await _waBroadcastQueueSet(b.id, true);
+
+    // First batch right away; the cron keeps it going
+    _runWaBroadcasts().catch(function (e) {
+      console.error("[WhatsApp] Broadcast kick error:", e);
+    });
+    return c.json({ ok: true, broadcast: publicBroadcast(b) }, 202);
+  } catch (e: any) {
+    console.error("[WhatsApp] Create broadcast error:", e);
+    return c.json({ error: "Erro ao criar disparo." }, 500);
+  }
+});
+
+// POST /admin/whatsapp-broadcasts/:id/cancel — stop the pending messages
+app.post(BASE + "/admin/whatsapp-broadcasts/:id/cancel", async (c) => {
+  try {
+    var id = (c.req.param("id") || "").substring(0, 100);
+    var out = await kv.update(broadcastKey(id), function (raw: any) {
+      var cur = parseBroadcast(raw);
+      var next = cur ? cancelBroadcast(cur, Date.now()) : null;
+      return next ? JSON.stringify(next) : undefined;
+    });
+    var b = parseBroadcast(out.value);
+    if (!b) return c.json({ error: "Disparo nao encontrado." }, 404);
+    if (!out.written) return c.json({ error: "Disparo ja finalizado." }, 400);
+    await _waBroadcastQueueSet(id, false);
+    return c.json({ ok: true, broadcast: publicBroadcast(b) });
+  } catch (e: any) {
+    console.error("[WhatsApp] Cancel broadcast error:", e);
+    return c.json({ error: "Erro ao cancelar disparo." }, 500);
+  }
+});
+
+// POST /whatsapp/optout — public, from the link at the end of a broadcast.
+// The signed token carries the phone; no login, no rate limit to trip over.
+app.post(BASE + "/whatsapp/optout", async (c) => {
+  try {
+    var body = await c.req.json().catch(function () { return null; });
+    var phone = await verifyToken("wa_optout", body && typeof body.token === "string" ? body.token.substring(0, 300) : "");
+    if (!phone) return c.json({ error: "Link invalido." }, 400);
+    var key = waOptOutKey(phone);
+    if (!(await kv.get(key))) await kv.set(key, JSON.stringify({ phone: phone, at: Date.now(), source: "link" }));
+    return c.json({ ok: true });
+  } catch (e: any) {
+    console.error("[WhatsApp] Opt-out error:", e);
+    return c.json({ error: "Erro ao descadastrar." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════
+// ─── SITEMAP.XML + ROBOTS.TXT (SEO) ──
+// ═══════════════════════════════════════
+
+app.get(BASE + "/robots.txt", async (c) => {
+  try {
+    var siteUrl = "";
+    try {
+      var rawSettings = await kv.get("site_settings");
+      if (rawSettings) {
+        var parsed = typeof rawSettings === "string" ? JSON.parse(rawSettings) : rawSettings;
+        if (parsed.siteUrl) siteUrl = parsed.siteUrl;
+      }
+    } catch (_e) { /* ignore */ }
+    if (!siteUrl) siteUrl = "https://www.carretaoautopecas.com.br";
+    var sitemapUrl = Deno.env.get("SUPABASE_URL") + "/functions/v1/make-server-b7b07654/sitemap.xml";
+
+    // Build a standards-compliant robots.txt (RFC 9309)
+    // Each User-agent block is separated by a blank line
+    var lines: string[] = [];
+
+    // ── Main crawlers (Googlebot, Bingbot, etc.) ──
+    lines.push("User-agent: *");
+    lines.push("Allow: /");
+    lines.push("Allow: /catalogo");
     lines.push("Allow: /produto/");
     lines.push("Allow: /marca/");
     lines.push("Allow: /sobre");
@@ -23096,29 +27361,94 @@ app.get(BASE + "/admin/pending-counts", async (c: any) => {
           return 0;
         }
       })(),
-    ]);
-
-    var orderCounts = results[0].status === "fulfilled" ? results[0].value : { paid: 0, awaiting: 0, total: 0 };
-    var reviewCount = results[1].status === "fulfilled" ? results[1].value : 0;
-    var lgpdCount = results[2].status === "fulfilled" ? results[2].value : 0;
-    var affiliateCount = results[3] && results[3].status === "fulfilled" ? results[3].value : 0;
-
-    var elapsed = Date.now() - startMs;
-    return c.json({
-      orders: orderCounts,
-      reviews: reviewCount,
-      lgpd: lgpdCount,
-      affiliates: affiliateCount,
-    });
-  } catch (e: any) {
-    console.error("[pending-counts] Exception: " + String(e));
-    return c.json({ error: "Erro interno do servidor." }, 500);
-  }
-});
 
-// ═══════════════════════════════════════════════════════════════════════
-// ADMIN DASHBOARD — aggregated metrics
-// ═══════════════════════════════════════════════════════════════════════
+      // 5. Vehicles: legacy compatibility strings awaiting manual fitment review
+      (async function () {
+        try {
+          var fitRows = await kv.getByPrefix(FITMENT_REVIEW_PREFIX);
+          return fitRows.length;
+        } catch (e) {
+          console.error("[pending-counts] fitment review error: " + String(e));
+          return 0;
+        }
+      })(),
+
+      // 6. Returns: RMA requests awaiting a decision or goods in transit
+      (async function () {
+        try {
+          var rmas = await _loadRmas(await _getRmaIds("rma_all_ids"));
+          return rmas.filter(function (r) { return r.status === "requested" || r.status === "label_issued"; }).length;
+        } catch (e) {
+          console.error("[pending-counts] rma error: " + String(e));
+          return 0;
+        }
+      })(),
+
+      // 7. Warranty claims: awaiting a decision or an approved replacement
+      (async function () {
+        try {
+          var claims = await _loadWarrantyClaims("warranty_claim_all_ids");
+          return claims.filter(function (w) { return w.status === "submitted" || w.status === "approved"; }).length;
+        } catch (e) {
+          console.error("[pending-counts] warranty claims error: " + String(e));
+          return 0;
+        }
+      })(),
+
+      // 8. Admin approvals: sensitive actions waiting for the master
+      (async function () {
+        try {
+          var now = Date.now();
+          var approvals = await kv.getByPrefix("admin_approval:");
+          return approvals.filter(function (a: any) { return a && a.status === "pending" && !(a.expiresAt < now); }).length;
+        } catch (e) {
+          console.error("[pending-counts] approvals error: " + String(e));
+          return 0;
+        }
+      })(),
+
+      // 9. Product Q&A: questions and customer answers awaiting moderation
+      (async function () {
+        try {
+          return parseQaPending(await kv.get(PRODUCT_QA_PENDING_KEY)).length;
+        } catch (e) {
+          console.error("[pending-counts] product questions error: " + String(e));
+          return 0;
+        }
+      })(),
+    ]);
+
+    var orderCounts = results[0].status === "fulfilled" ? results[0].value : { paid: 0, awaiting: 0, total: 0 };
+    var reviewCount = results[1].status === "fulfilled" ? results[1].value : 0;
+    var lgpdCount = results[2].status === "fulfilled" ? results[2].value : 0;
+    var affiliateCount = results[3] && results[3].status === "fulfilled" ? results[3].value : 0;
+    var fitmentReviewCount = results[4] && results[4].status === "fulfilled" ? results[4].value : 0;
+    var rmaCount = results[5] && results[5].status === "fulfilled" ? results[5].value : 0;
+    var warrantyClaimCount = results[6] && results[6].status === "fulfilled" ? results[6].value : 0;
+    var approvalCount = results[7] && results[7].status === "fulfilled" ? results[7].value : 0;
+    var questionCount = results[8] && results[8].status === "fulfilled" ? results[8].value : 0;
+
+    var elapsed = Date.now() - startMs;
+    return c.json({
+      orders: orderCounts,
+      reviews: reviewCount,
+      lgpd: lgpdCount,
+      affiliates: affiliateCount,
+      vehicles: fitmentReviewCount,
+      returns: rmaCount,
+      warrantyClaims: warrantyClaimCount,
+      approvals: approvalCount,
+      questions: questionCount,
+    });
+  } catch (e: any) {
+    console.error("[pending-counts] Exception: " + String(e));
+    return c.json({ error: "Erro interno do servidor." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// ADMIN DASHBOARD — aggregated metrics
+// ═══════════════════════════════════════════════════════════════════════
 
 app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
   try {
@@ -23126,6 +27456,7 @@ app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
     var orderEntries = await kv.getByPrefix("user_order:");
     var totalOrders = 0;
     var totalRevenue = 0;
+    var totalRefunded = 0;
     var statusCounts: Record<string, number> = {};
     var recentOrders: any[] = [];
     var monthlySales: Record<string, number> = {};
@@ -23142,8 +27473,11 @@ app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
           var order = orders[oj];
           totalOrders++;
           var orderTotal = Number(order.total) || 0;
-          totalRevenue += orderTotal;
-          var st = order.status || "pending";
+          // Revenue is net of refunds (admin refunds and RMA refunds, user_order.refundedTotal)
+          var orderRefunded = Math.min(orderTotal, Number(order.refundedTotal) || 0);
+          totalRefunded += orderRefunded;
+          totalRevenue += orderTotal - orderRefunded;
+          var st = normalizeOrderStatus(order.status) || order.status;
           statusCounts[st] = (statusCounts[st] || 0) + 1;
 
           // Monthly aggregation
@@ -23151,7 +27485,7 @@ app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
             var d = new Date(order.createdAt);
             var monthKey = d.getFullYear() + "-" + String(d.getMonth() + 1).padStart(2, "0");
             monthlySales[monthKey] = (monthlySales[monthKey] || 0) + 1;
-            monthlyRevenue[monthKey] = (monthlyRevenue[monthKey] || 0) + orderTotal;
+            monthlyRevenue[monthKey] = (monthlyRevenue[monthKey] || 0) + orderTotal - orderRefunded;
           }
 
           recentOrders.push({
@@ -23222,9 +27556,18 @@ app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
 
     var avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
+    // 5. Scheduled SIGE sync health (failures show up on the dashboard)
+    var sigeSync: SigeSyncHealth | null = null;
+    try {
+      sigeSync = (await _sigeSyncOverview()).health;
+    } catch (se) {
+      console.error("[dashboard] sige sync health error: " + se);
+    }
+
     return c.json({
       totalOrders: totalOrders,
       totalRevenue: Math.round(totalRevenue * 100) / 100,
+      totalRefunded: Math.round(totalRefunded * 100) / 100,
       avgOrderValue: Math.round(avgOrderValue * 100) / 100,
       totalProducts: prodCount,
       activeProducts: prodActive,
@@ -23233,6 +27576,7 @@ app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
       statusCounts: statusCounts,
       recentOrders: recentOrders,
       chartData: chartData,
+      sigeSync: sigeSync,
     });
   } catch (e) {
     console.error("[admin/dashboard-stats] Error: " + e);
@@ -23245,6 +27589,147 @@ app.get(BASE + "/admin/dashboard-stats", async (c: any) => {
 // KV prefix: coupon:<code>
 // ═══════════════════════════════════════════════════════════════════════
 
+// ── Coupon rules (promo_engine.ts) — evaluated from the cart LINES ──
+// /coupons/validate, _validatePaymentPrices and /user/save-order all go through
+// _evaluateCouponForCart() so the discount shown is the discount charged.
+
+// Orders in these states don't count as a purchase for first-purchase coupons
+var COUPON_NON_PURCHASE_STATUSES = ["awaiting_payment", "cancelled", "canceled", "expired"];
+
+// SKUs won by an active Super Promo campaign (60s cache; cleared when a campaign is saved)
+async function _getActiveSuperPromoSkus(): Promise<string[]> {
+  var cached = memGet("_super_promo_skus");
+  if (cached) return cached;
+  var skus: string[] = [];
+  try {
+    skus = Object.keys((await _getResolvedSuperPromos()).skuCampaigns);
+  } catch (e) {
+    console.warn("[coupons] Super promo lookup error: " + e);
+  }
+  memSet("_super_promo_skus", skus, 60 * 1000);
+  return skus;
+}
+
+// Category slug + brand per SKU (produto_meta:<sku>)
+async function _getCartLineMeta(skus: string[]): Promise<Record<string, { category: string; brand: string }>> {
+  var out: Record<string, { category: string; brand: string }> = {};
+  if (skus.length === 0) return out;
+  var keys = skus.map(function (s) { return "produto_meta:" + s; });
+  var res = await supabaseAdmin.from("kv_store_b7b07654").select("key, value").in("key", keys);
+  var rows = (res.data || []) as Array<{ key: string; value: any }>;
+  for (var i = 0; i < rows.length; i++) {
+    var meta = rows[i].value;
+    if (typeof meta === "string") { try { meta = JSON.parse(meta); } catch (_e) { meta = null; } }
+    if (!meta) continue;
+    out[rows[i].key.substring("produto_meta:".length)] = { category: String(meta.category || ""), brand: String(meta.brand || "") };
+  }
+  return out;
+}
+
+async function _isFirstPurchase(userId: string, excludeOrderId?: string): Promise<boolean> {
+  var entries = await kv.getByPrefix("user_order:" + userId + ":");
+  for (var i = 0; i < entries.length; i++) {
+    var order: any = entries[i];
+    if (typeof order === "string") { try { order = JSON.parse(order); } catch (_e) { continue; } }
+    if (!order || (excludeOrderId && order.localOrderId === excludeOrderId)) continue;
+    if (COUPON_NON_PURCHASE_STATUSES.indexOf(String(order.status || "")) === -1) return false;
+  }
+  return true;
+}
+
+async function _evaluateCouponForCart(
+  code: string,
+  rawLines: Array<{ sku: string; quantity: number; unitPriceCents: number }>,
+  opts: { userId: string | null; cpf: string; shippingCents: number; shippingCarrierId: string; excludeOrderId?: string; serverPrices?: Record<string, number> }
+): Promise<CouponEvaluation> {
+  var couponCode = String(code || "").toUpperCase().trim();
+  if (!couponCode) return rejectCoupon("Informe o código do cupom");
+  var raw = await kv.get("coupon:" + couponCode);
+  if (!raw) return rejectCoupon("Cupom não encontrado");
+  var coupon = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!coupon.active) return rejectCoupon("Cupom inativo");
+  if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() < Date.now()) return rejectCoupon("Cupom expirado");
+  if (coupon.maxUses > 0 && coupon.usedCount >= coupon.maxUses) return rejectCoupon("Cupom esgotado");
+  // SECURITY: Per-CPF/CNPJ usage check — single-use-per-CPF coupons
+  var cpf = String(opts.cpf || "").replace(/\D/g, "");
+  if (coupon.singleUsePerCpf && cpf) {
+    var usedByCpfList = Array.isArray(coupon.usedByCpf) ? coupon.usedByCpf : [];
+    if (usedByCpfList.indexOf(cpf) !== -1) return rejectCoupon("Este cupom já foi utilizado no seu CPF/CNPJ.");
+  }
+
+  var rules = normalizeCouponRules(coupon);
+  // Category scope covers subcategories
+  if (rules.scope.categories.length > 0) {
+    var treeRaw = await kv.get("category_tree");
+    var tree = treeRaw ? (typeof treeRaw === "string" ? JSON.parse(treeRaw) : treeRaw) : [];
+    var expanded: string[] = [];
+    for (var ci = 0; ci < rules.scope.categories.length; ci++) {
+      var slugs = [rules.scope.categories[ci]].concat(Array.isArray(tree) ? collectDescendantSlugs(tree, rules.scope.categories[ci]) : []);
+      for (var sj = 0; sj < slugs.length; sj++) if (expanded.indexOf(slugs[sj]) === -1) expanded.push(slugs[sj]);
+    }
+    coupon = { ...coupon, scope: { ...rules.scope, categories: expanded } };
+  }
+
+  // Same SKU on two lines (e.g. with/without warranty) → one line
+  var merged: Record<string, { qty: number; cents: number }> = {};
+  var skus: string[] = [];
+  for (var li = 0; li < rawLines.length; li++) {
+    var sku = String(rawLines[li].sku || "").trim();
+    var qty = Math.max(1, Math.min(9999, Math.floor(Number(rawLines[li].quantity) || 1)));
+    if (!sku) continue;
+    if (!merged[sku]) { merged[sku] = { qty: 0, cents: 0 }; skus.push(sku); }
+    merged[sku].qty += qty;
+    merged[sku].cents += Math.max(0, Math.round(Number(rawLines[li].unitPriceCents) || 0)) * qty;
+  }
+
+  var serverPrices = opts.serverPrices || await _loadServerPriceCents(skus, opts.userId);
+  var scoped = rules.scope.categories.length > 0 || rules.scope.brands.length > 0;
+  var metas = scoped ? await _getCartLineMeta(skus) : {};
+  var promoSkus = rules.excludeSuperPromo ? await _getActiveSuperPromoSkus() : [];
+  var lines: PromoLine[] = [];
+  for (var pj = 0; pj < skus.length; pj++) {
+    var clientCents = Math.round(merged[skus[pj]].cents / merged[skus[pj]].qty);
+    var serverCents = serverPrices[skus[pj]];
+    // Client price bounded by the catalog price: promo prices are kept, inflated prices are not
+    var unitCents = serverCents !== undefined ? (clientCents > 0 ? Math.min(clientCents, serverCents) : serverCents) : clientCents;
+    var meta = metas[skus[pj]];
+    lines.push({
+      sku: skus[pj],
+      quantity: merged[skus[pj]].qty,
+      unitPriceCents: unitCents,
+      category: meta ? meta.category : "",
+      brand: meta ? meta.brand : "",
+      superPromo: promoSkus.indexOf(skus[pj]) !== -1,
+    });
+  }
+  if (lines.length === 0) return rejectCoupon("Carrinho vazio");
+
+  var isFirstPurchase: boolean | null = null;
+  if (rules.firstPurchaseOnly && opts.userId) isFirstPurchase = await _isFirstPurchase(opts.userId, opts.excludeOrderId);
+
+  return evaluateCoupon(coupon, lines, {
+    shippingPriceCents: Math.max(0, Math.round(Number(opts.shippingCents) || 0)),
+    shippingCarrierId: String(opts.shippingCarrierId || ""),
+    isFirstPurchase: isFirstPurchase,
+  });
+}
+
+// Fields kept on the coupon record (admin create/update)
+function _couponRuleFields(rules: CouponRules): Record<string, any> {
+  return {
+    discountType: rules.discountType,
+    discountValue: rules.discountValue,
+    maxDiscount: rules.maxDiscount,
+    scope: rules.scope,
+    excludeSuperPromo: rules.excludeSuperPromo,
+    firstPurchaseOnly: rules.firstPurchaseOnly,
+    buyQty: rules.buyQty,
+    getQty: rules.getQty,
+    getDiscountPercent: rules.getDiscountPercent,
+    progressiveTiers: rules.progressiveTiers,
+    freeShippingCarriers: rules.freeShippingCarriers,
+  };
+}
 // List all coupons
 app.get(BASE + "/admin/coupons", async (c: any) => {
   try {
@@ -23272,14 +27757,21 @@ app.post(BASE + "/admin/coupons", async (c: any) => {
     var couponValid = validate(body, {
       code: { required: true, type: "string", minLen: 3, maxLen: 50 },
       description: { type: "string", maxLen: 500 },
-      discountType: { type: "string", maxLen: 20, oneOf: ["percentage", "fixed"] },
+      discountType: { type: "string", maxLen: 20, oneOf: COUPON_DISCOUNT_TYPES },
       discountValue: { type: "number", min: 0, max: 99999999 },
+      maxDiscount: { type: "number", min: 0, max: 99999999 },
       minOrderValue: { type: "number", min: 0, max: 99999999 },
       maxUses: { type: "number", min: 0, max: 99999999 },
       active: { type: "boolean" },
       expiresAt: { type: "string", maxLen: 30 },
+      scope: { type: "object" },
+      progressiveTiers: { type: "array", maxItems: 10 },
+      freeShippingCarriers: { type: "array", maxItems: 50 },
     });
     if (!couponValid.ok) return c.json({ error: couponValid.errors[0] || "Dados invalidos." }, 400);
+    var couponRules = normalizeCouponRules(body);
+    var couponRulesErr = checkCouponRules(couponRules);
+    if (couponRulesErr) return c.json({ error: couponRulesErr }, 400);
     var code = String(body.code || "").toUpperCase().trim().replace(/[^A-Z0-9_-]/g, "");
     if (!code || code.length < 3) {
       return c.json({ error: "Código do cupom deve ter no mínimo 3 caracteres (letras, números, - e _)" }, 400);
@@ -23293,8 +27785,7 @@ app.post(BASE + "/admin/coupons", async (c: any) => {
         ...prev,
         code: code,
         description: sanitizeInput(String(body.description || "")),
-        discountType: body.discountType === "fixed" ? "fixed" : "percentage",
-        discountValue: Math.max(0, Number(body.discountValue) || 0),
+        ..._couponRuleFields(couponRules),
         minOrderValue: Math.max(0, Number(body.minOrderValue) || 0),
         maxUses: Math.max(0, Math.floor(Number(body.maxUses) || 0)),
         active: body.active !== false,
@@ -23306,14 +27797,14 @@ app.post(BASE + "/admin/coupons", async (c: any) => {
         updatedAt: Date.now(),
       };
       await kv.set("coupon:" + code, JSON.stringify(updated));
+      memClear("_coupons_public"); // invalidate public cache
       console.log("[admin/coupons] Upserted existing coupon: " + code);
       return c.json({ ok: true, coupon: updated });
     }
     var coupon = {
       code: code,
       description: sanitizeInput(String(body.description || "")),
-      discountType: body.discountType === "fixed" ? "fixed" : "percentage",
-      discountValue: Math.max(0, Number(body.discountValue) || 0),
+      ..._couponRuleFields(couponRules),
       minOrderValue: Math.max(0, Number(body.minOrderValue) || 0),
       maxUses: Math.max(0, Math.floor(Number(body.maxUses) || 0)),
       usedCount: 0,
@@ -23349,17 +27840,23 @@ app.put(BASE + "/admin/coupons/:code", async (c: any) => {
     // Input validation for coupon update
     var couponUpValid = validate(body, {
       description: { type: "string", maxLen: 500 },
-      discountType: { type: "string", maxLen: 20, oneOf: ["percentage", "fixed"] },
+      discountType: { type: "string", maxLen: 20, oneOf: COUPON_DISCOUNT_TYPES },
       discountValue: { type: "number", min: 0, max: 99999999 },
+      maxDiscount: { type: "number", min: 0, max: 99999999 },
       minOrderValue: { type: "number", min: 0, max: 99999999 },
       maxUses: { type: "number", min: 0, max: 99999999 },
       active: { type: "boolean" },
       expiresAt: { type: "string", maxLen: 30 },
+      scope: { type: "object" },
+      progressiveTiers: { type: "array", maxItems: 10 },
+      freeShippingCarriers: { type: "array", maxItems: 50 },
     });
     if (!couponUpValid.ok) return c.json({ error: couponUpValid.errors[0] || "Dados invalidos." }, 400);
+    var upRules = normalizeCouponRules(body, current);
+    var upRulesErr = checkCouponRules(upRules);
+    if (upRulesErr) return c.json({ error: upRulesErr }, 400);
+    Object.assign(current, _couponRuleFields(upRules));
     if (body.description !== undefined) current.description = sanitizeInput(String(body.description));
-    if (body.discountType !== undefined) current.discountType = body.discountType === "fixed" ? "fixed" : "percentage";
-    if (body.discountValue !== undefined) current.discountValue = Math.max(0, Number(body.discountValue) || 0);
     if (body.minOrderValue !== undefined) current.minOrderValue = Math.max(0, Number(body.minOrderValue) || 0);
     if (body.maxUses !== undefined) current.maxUses = Math.max(0, Math.floor(Number(body.maxUses) || 0));
     if (body.active !== undefined) current.active = !!body.active;
@@ -23407,7 +27904,7 @@ app.get(BASE + "/coupons/public", async (c: any) => {
     for (var i = 0; i < entries.length; i++) {
       try {
         var val = typeof entries[i] === "string" ? JSON.parse(entries[i]) : entries[i];
-        if (!val || !val.active) continue;
+        if (!val || !val.active || val.personal) continue;
         if (val.expiresAt) {
           var expDate = new Date(val.expiresAt);
           if (expDate.getTime() < now) continue;
@@ -23419,6 +27916,14 @@ app.get(BASE + "/coupons/public", async (c: any) => {
           discountType: val.discountType,
           discountValue: val.discountValue,
           minOrderValue: val.minOrderValue || 0,
+          maxDiscount: val.maxDiscount || 0,
+          buyQty: val.buyQty || 0,
+          getQty: val.getQty || 0,
+          getDiscountPercent: val.getDiscountPercent !== undefined ? val.getDiscountPercent : 100,
+          progressiveTiers: Array.isArray(val.progressiveTiers) ? val.progressiveTiers : [],
+          scoped: !!(val.scope && ((val.scope.categories || []).length || (val.scope.brands || []).length || (val.scope.skus || []).length)),
+          excludeSuperPromo: !!val.excludeSuperPromo,
+          firstPurchaseOnly: !!val.firstPurchaseOnly,
           expiresAt: val.expiresAt || null,
           singleUsePerCpf: !!val.singleUsePerCpf,
         });
@@ -23461,49 +27966,43 @@ app.post(BASE + "/coupons/validate", async (c: any) => {
     if (!code) {
       return c.json({ valid: false, error: "Informe o código do cupom" });
     }
-    var raw = await kv.get("coupon:" + code);
-    if (!raw) {
-      return c.json({ valid: false, error: "Cupom não encontrado" });
-    }
-    var coupon = typeof raw === "string" ? JSON.parse(raw) : raw;
-    if (!coupon.active) {
-      return c.json({ valid: false, error: "Cupom inativo" });
-    }
-    if (coupon.expiresAt) {
-      var expDate = new Date(coupon.expiresAt);
-      if (expDate.getTime() < Date.now()) {
-        return c.json({ valid: false, error: "Cupom expirado" });
-      }
-    }
-    if (coupon.maxUses > 0 && coupon.usedCount >= coupon.maxUses) {
-      return c.json({ valid: false, error: "Cupom esgotado" });
-    }
-    if (coupon.minOrderValue > 0 && orderTotal < coupon.minOrderValue) {
-      return c.json({
-        valid: false,
-        error: "Valor mínimo do pedido: R$ " + coupon.minOrderValue.toFixed(2).replace(".", ","),
-      });
-    }
-    // SECURITY: Per-CPF/CNPJ usage check — single-use-per-CPF coupons
-    if (coupon.singleUsePerCpf && cvCpf) {
-      var usedByCpfList = Array.isArray(coupon.usedByCpf) ? coupon.usedByCpf : [];
-      if (usedByCpfList.indexOf(cvCpf) !== -1) {
-        return c.json({ valid: false, error: "Este cupom já foi utilizado no seu CPF/CNPJ." });
-      }
-    }
-    // Calculate discount
-    var discountAmount = 0;
-    if (coupon.discountType === "percentage") {
-      discountAmount = Math.round(orderTotal * (coupon.discountValue / 100) * 100) / 100;
-    } else {
-      discountAmount = Math.min(coupon.discountValue, orderTotal);
-    }
+    // Cart lines (preferred) — legacy clients only send orderTotal, evaluated as a single line
+    var cvLines: Array<{ sku: string; quantity: number; unitPriceCents: number }> = [];
+    var cvItems = Array.isArray(cvValid.data.items) ? cvValid.data.items : [];
+    for (var cvi = 0; cvi < cvItems.length; cvi++) {
+      var cvIt = cvItems[cvi] || {};
+      var cvSku = String(cvIt.sku || "").trim().substring(0, 60);
+      if (!cvSku) continue;
+      cvLines.push({ sku: cvSku, quantity: Number(cvIt.quantity) || 1, unitPriceCents: Math.round((Number(cvIt.unitPrice) || 0) * 100) });
+    }
+    if (cvLines.length === 0) cvLines.push({ sku: "_order_total", quantity: 1, unitPriceCents: Math.round(orderTotal * 100) });
+    var cvShipping = cvValid.data.shipping || {};
+    var cvUserId = await getAuthUserId(c.req.raw);
+    var ev = await _evaluateCouponForCart(code, cvLines, {
+      userId: cvUserId,
+      cpf: cvCpf,
+      shippingCents: Math.round((Number(cvShipping.price) || 0) * 100),
+      shippingCarrierId: String(cvShipping.carrierId || "").substring(0, 100),
+    });
+    if (!ev.valid) {
+      return c.json({ valid: false, error: ev.error || "Cupom inválido" });
+    }
+    var coupon: any = await kv.get("coupon:" + code);
+    coupon = typeof coupon === "string" ? JSON.parse(coupon) : coupon;
+    var cvLineDiscounts: Record<string, number> = {};
+    for (var ldSku in ev.lineDiscounts) cvLineDiscounts[ldSku] = ev.lineDiscounts[ldSku] / 100;
     return c.json({
       valid: true,
       code: coupon.code,
       discountType: coupon.discountType,
       discountValue: coupon.discountValue,
-      discountAmount: discountAmount,
+      discountAmount: ev.discountCents / 100,
+      itemsDiscount: ev.itemsDiscountCents / 100,
+      shippingDiscount: ev.shippingDiscountCents / 100,
+      freeShipping: ev.freeShipping,
+      lineDiscounts: cvLineDiscounts,
+      eligibleSkus: ev.eligibleSkus,
+      note: ev.note || null,
       description: coupon.description || "",
       singleUsePerCpf: !!coupon.singleUsePerCpf,
     });
@@ -23533,24 +28032,29 @@ app.post(BASE + "/coupons/use", async (c: any) => {
     var cuCpf = cuValid.data.cpf ? String(cuValid.data.cpf).replace(/\D/g, "") : "";
     if (!code) return c.json({ ok: false });
 
-    // ATOMICITY: Use mutex to prevent race conditions on concurrent coupon usage
-    // Without this, two simultaneous requests could both read usedCount=4 and both write 5
-    return await withMutex("coupon_use:" + code, async function () {
-      var raw = await kv.get("coupon:" + code);
-      if (!raw) return c.json({ ok: false });
+    // ATOMICITY: compare-and-swap on coupon:<code> — two simultaneous requests (even on
+    // different isolates) cannot both read usedCount=4 and both write 5; the loser re-reads
+    var cuError = "";
+    var cuUsedCount = 0;
+    var cuOut = await kv.update("coupon:" + code, function (raw: any) {
+      cuError = "";
+      if (!raw) return undefined;
       var coupon = typeof raw === "string" ? JSON.parse(raw) : raw;
 
       if (coupon.maxUses > 0 && (coupon.usedCount || 0) >= coupon.maxUses) {
-        return c.json({ ok: false, error: "Cupom esgotado." });
+        cuError = "Cupom esgotado.";
+        return undefined;
       }
       if (!coupon.active) {
-        return c.json({ ok: false, error: "Cupom inativo." });
+        cuError = "Cupom inativo.";
+        return undefined;
       }
 
       // SECURITY: Per-user usage tracking — prevent same user from using coupon multiple times
       var usedByList = Array.isArray(coupon.usedBy) ? coupon.usedBy : [];
       if (usedByList.indexOf(couponUserId) !== -1) {
-        return c.json({ ok: false, error: "Você já utilizou este cupom." });
+        cuError = "Você já utilizou este cupom.";
+        return undefined;
       }
       usedByList.push(couponUserId);
       coupon.usedBy = usedByList;
@@ -23559,7 +28063,8 @@ app.post(BASE + "/coupons/use", async (c: any) => {
       if (coupon.singleUsePerCpf && cuCpf) {
         var usedByCpfList = Array.isArray(coupon.usedByCpf) ? coupon.usedByCpf : [];
         if (usedByCpfList.indexOf(cuCpf) !== -1) {
-          return c.json({ ok: false, error: "Este cupom já foi utilizado no seu CPF/CNPJ." });
+          cuError = "Este cupom já foi utilizado no seu CPF/CNPJ.";
+          return undefined;
         }
         usedByCpfList.push(cuCpf);
         coupon.usedByCpf = usedByCpfList;
@@ -23567,10 +28072,12 @@ app.post(BASE + "/coupons/use", async (c: any) => {
 
       coupon.usedCount = (coupon.usedCount || 0) + 1;
       coupon.updatedAt = Date.now();
-      await kv.set("coupon:" + code, JSON.stringify(coupon));
-      memClear("_coupons_public"); // invalidate public cache (usedCount may hide coupon)
-      return c.json({ ok: true, usedCount: coupon.usedCount });
+      cuUsedCount = coupon.usedCount;
+      return JSON.stringify(coupon);
     });
+    if (!cuOut.written) return cuError ? c.json({ ok: false, error: cuError }) : c.json({ ok: false });
+    memClear("_coupons_public"); // invalidate public cache (usedCount may hide coupon)
+    return c.json({ ok: true, usedCount: cuUsedCount });
   } catch (e) {
     console.error("[coupons/use] Error: " + e);
     return c.json({ ok: false, error: "Erro ao aplicar cupom." }, 500);
@@ -24712,8 +29219,8 @@ async function _userHasPurchasedSku(userId: string, sku: string): Promise<boolea
     for (var oi = 0; oi < ordersRaw.length; oi++) {
       try {
         var order = typeof ordersRaw[oi] === "string" ? JSON.parse(ordersRaw[oi]) : ordersRaw[oi];
-        var st = (order.status || "").toLowerCase();
-        if (st !== "paid" && st !== "completed" && st !== "delivered" && st !== "shipped") continue;
+        var st = normalizeOrderStatus(order.status);
+        if (!st || PURCHASED_ORDER_STATUSES.indexOf(st) === -1) continue;
         var items = order.items || [];
         for (var ii = 0; ii < items.length; ii++) {
           var itemSku = items[ii].sku || items[ii].codProduto || "";
@@ -24766,6 +29273,50 @@ app.get(BASE + "/reviews/:sku/mine", async function (c) {
   }
 });
 
+// One non-rejected review per customer and SKU; the caller has already checked the purchase.
+// Used by POST /reviews and by the review-request links (no login).
+async function _createVerifiedReview(input: { userId: string; userName: string; userEmail: string; sku: string; rating: number; title: string; comment: string; requestKey?: string; requestChannel?: ReviewRequestChannel }): Promise<{ reviewId: string } | null> {
+  var userId = input.userId;
+  var sku = input.sku;
+  // ATOMICITY: Mutex prevents duplicate reviews from rapid double-clicks
+  // Without this, two requests could both pass the "already reviewed?" check before either writes
+  return await withMutex("review_submit:" + userId + ":" + sku, async function () {
+    var existingIds = await _getReviewIdsBySku(sku);
+    if (existingIds.length > 0) {
+      var existingKeys: string[] = [];
+      for (var ei = 0; ei < existingIds.length; ei++) existingKeys.push("review:" + existingIds[ei]);
+      var existingReviews = await kv.mget(existingKeys);
+      for (var eri = 0; eri < existingReviews.length; eri++) {
+        var er = existingReviews[eri];
+        if (!er) continue;
+        var parsed = typeof er === "string" ? JSON.parse(er) : er;
+        if (parsed.userId === userId && parsed.status !== "rejected") return null;
+      }
+    }
+    var reviewId = _reviewUuid();
+    var now = Date.now();
+    var review: any = { id: reviewId, sku: sku, userId: userId, userName: input.userName || "Anônimo", userEmail: input.userEmail, rating: input.rating, title: input.title, comment: input.comment, images: [], status: "pending", createdAt: now, updatedAt: now, moderatedAt: null, moderatedBy: null, moderationNote: null, helpful: 0, verified: true };
+    if (input.requestKey) {
+      review.requestKey = input.requestKey;
+      review.requestChannel = input.requestChannel || null;
+    }
+    await kv.set("review:" + reviewId, JSON.stringify(review));
+    var skuIds = await _getReviewIdsBySku(sku);
+    skuIds.push(reviewId);
+    await _saveReviewIdsBySku(sku, skuIds);
+    var userRevIds = await _getReviewIdsByUser(userId);
+    userRevIds.push(reviewId);
+    await _saveReviewIdsByUser(userId, userRevIds);
+    var allIds = await _getAllReviewIds();
+    allIds.push(reviewId);
+    await _saveAllReviewIds(allIds);
+    var pending = await _getReviewsPending();
+    pending.push(reviewId);
+    await _saveReviewsPending(pending);
+    return { reviewId: reviewId };
+  });
+}
+
 app.post(BASE + "/reviews", async function (c) {
   try {
     // Rate limit: max 10 review submissions per minute per IP
@@ -24794,41 +29345,10 @@ app.post(BASE + "/reviews", async function (c) {
       return c.json({ error: "Somente compradores podem avaliar este produto. Compre primeiro para poder avaliar." }, 403);
     }
 
-    // ATOMICITY: Mutex prevents duplicate reviews from rapid double-clicks
-    // Without this, two requests could both pass the "already reviewed?" check before either writes
-    return await withMutex("review_submit:" + userId + ":" + sku, async function () {
-      var existingIds = await _getReviewIdsBySku(sku);
-      if (existingIds.length > 0) {
-        var existingKeys: string[] = [];
-        for (var ei = 0; ei < existingIds.length; ei++) existingKeys.push("review:" + existingIds[ei]);
-        var existingReviews = await kv.mget(existingKeys);
-        for (var eri = 0; eri < existingReviews.length; eri++) {
-          var er = existingReviews[eri];
-          if (!er) continue;
-          var parsed = typeof er === "string" ? JSON.parse(er) : er;
-          if (parsed.userId === userId && parsed.status !== "rejected") return c.json({ error: "Voce ja avaliou este produto." }, 409);
-        }
-      }
-      var reviewId = _reviewUuid();
-      var now = Date.now();
-      var userName = user.user_metadata ? (user.user_metadata.name || user.email || "Anônimo") : (user.email || "Anônimo");
-      var userEmail = user.email || "";
-      var review = { id: reviewId, sku: sku, userId: userId, userName: userName, userEmail: userEmail, rating: rating, title: title, comment: comment, images: [], status: "pending", createdAt: now, updatedAt: now, moderatedAt: null, moderatedBy: null, moderationNote: null, helpful: 0, verified: true };
-      await kv.set("review:" + reviewId, JSON.stringify(review));
-      var skuIds = await _getReviewIdsBySku(sku);
-      skuIds.push(reviewId);
-      await _saveReviewIdsBySku(sku, skuIds);
-      var userRevIds = await _getReviewIdsByUser(userId);
-      userRevIds.push(reviewId);
-      await _saveReviewIdsByUser(userId, userRevIds);
-      var allIds = await _getAllReviewIds();
-      allIds.push(reviewId);
-      await _saveAllReviewIds(allIds);
-      var pending = await _getReviewsPending();
-      pending.push(reviewId);
-      await _saveReviewsPending(pending);
-      return c.json({ ok: true, reviewId: reviewId, status: "pending" });
-    });
+    var userName = user.user_metadata ? (user.user_metadata.name || user.email || "Anônimo") : (user.email || "Anônimo");
+    var created = await _createVerifiedReview({ userId: userId, userName: userName, userEmail: user.email || "", sku: sku, rating: rating, title: title, comment: comment });
+    if (!created) return c.json({ error: "Voce ja avaliou este produto." }, 409);
+    return c.json({ ok: true, reviewId: created.reviewId, status: "pending" });
   } catch (e) {
     console.error("[Reviews] POST error:", e);
     return c.json({ error: "Erro ao enviar avaliacao." }, 500);
@@ -24837,7 +29357,13 @@ app.post(BASE + "/reviews", async function (c) {
 
 app.post(BASE + "/reviews/:id/images", async function (c) {
   try {
+    var formData = await c.req.formData();
     var userId = await getAuthUserId(c.req.raw);
+    // Review-request links have no session: the signed link stands in for the login
+    if (!userId) {
+      var invite = await _verifyReviewToken(String(formData.get("inviteToken") || ""));
+      if (invite) userId = invite.userId;
+    }
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
     var reviewId = c.req.param("id");
     if (!reviewId || !/^[a-zA-Z0-9_-]{1,100}$/.test(reviewId)) return c.json({ error: "ID invalido." }, 400);
@@ -24847,7 +29373,6 @@ app.post(BASE + "/reviews/:id/images", async function (c) {
     if (review.userId !== userId) return c.json({ error: "Sem permissao." }, 403);
     var existingImgCount = review.images ? review.images.length : 0;
     if (existingImgCount >= 3) return c.json({ error: "Maximo de 3 imagens por avaliacao." }, 400);
-    var formData = await c.req.formData();
     var file = formData.get("file");
     if (!file || !(file instanceof File)) return c.json({ error: "Nenhuma imagem enviada." }, 400);
     var allowedTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"];
@@ -25059,7 +29584,10 @@ app.put(BASE + "/admin/reviews/:id/moderate", async function (c) {
     var newPending: string[] = [];
     for (var pi = 0; pi < pendingIds.length; pi++) { if (pendingIds[pi] !== reviewId) newPending.push(pendingIds[pi]); }
     await _saveReviewsPending(newPending);
-    return c.json({ ok: true, reviewId: reviewId, status: review.status });
+    // Came in through a review-request link: the order's first approved review earns the reward coupon
+    var rewardCode: string | null = null;
+    if (review.status === "approved" && review.requestKey) rewardCode = await _issueReviewReward(review);
+    return c.json({ ok: true, reviewId: reviewId, status: review.status, rewardCode: rewardCode });
   } catch (e) {
     console.error("[admin/reviews] Moderate error:", e);
     return c.json({ error: "Erro ao moderar avaliacao." }, 500);
@@ -25109,147 +29637,813 @@ app.delete(BASE + "/admin/reviews/:id", async function (c) {
 });
 
 // ═══════════════════════════════════════════════════════════════════════
-// ─── WARRANTY CERTIFICATE EMAIL ───
+// ─── REVIEW REQUESTS (pedido de avaliacao pos-compra) ───
 // ═══════════════════════════════════════════════════════════════════════
-
-function _buildWarrantyCertificateHtml(orderId: string, warrantyItems: any[], customerName: string): string {
-  var paidDate = new Date();
-  var dateStr = paidDate.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
-  var itemsHtml = "";
-  for (var i = 0; i < warrantyItems.length; i++) {
-    var wi = warrantyItems[i];
-    var w = wi.warranty;
-    var endDate = new Date(paidDate);
-    endDate.setMonth(endDate.getMonth() + (w.durationMonths || 12));
-    var endDateStr = endDate.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
-    var certId = "GE-" + orderId + "-" + String(i + 1).padStart(3, "0");
-    itemsHtml += "<tr>"
-      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;\"><strong style=\"color:#1f2937;font-size:14px;\">" + (wi.titulo || wi.sku) + "</strong><br><span style=\"color:#6b7280;font-size:12px;\">SKU: " + wi.sku + "</span></td>"
-      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;text-align:center;\"><span style=\"color:#2563eb;font-weight:700;font-size:14px;\">" + w.name + "</span><br><span style=\"color:#6b7280;font-size:12px;\">" + w.durationMonths + " meses</span></td>"
-      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;text-align:center;\"><span style=\"color:#059669;font-weight:600;font-size:13px;\">" + dateStr + "</span><br><span style=\"color:#6b7280;font-size:11px;\">ate " + endDateStr + "</span></td>"
-      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;text-align:center;\"><code style=\"background:#eff6ff;color:#2563eb;padding:2px 8px;border-radius:4px;font-size:11px;font-weight:700;\">" + certId + "</code></td>"
-      + "</tr>";
-  }
-  return "<!DOCTYPE html><html lang=\"pt-BR\"><head><meta charset=\"UTF-8\"></head>"
-    + "<body style=\"margin:0;padding:0;font-family:Arial,Helvetica,sans-serif;background:#f3f4f6;\">"
-    + "<div style=\"max-width:640px;margin:0 auto;padding:20px;\">"
-    + "<div style=\"background:#ffffff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);\">"
-    + "<div style=\"background:linear-gradient(135deg,#1e40af,#3b82f6);padding:32px 24px;text-align:center;\">"
-    + "<div style=\"width:56px;height:56px;background:rgba(255,255,255,0.2);border-radius:50%;display:inline-flex;align-items:center;justify-content:center;margin-bottom:12px;\"><span style=\"font-size:28px;\">&#128737;</span></div>"
-    + "<h1 style=\"color:#ffffff;font-size:22px;margin:0 0 6px 0;\">Certificado de Garantia Estendida</h1>"
-    + "<p style=\"color:rgba(255,255,255,0.85);font-size:14px;margin:0;\">Pedido " + orderId + "</p></div>"
-    + "<div style=\"padding:28px 24px;\">"
-    + "<p style=\"color:#374151;font-size:15px;margin:0 0 20px;\">Ola, <strong>" + customerName + "</strong>!</p>"
-    + "<p style=\"color:#374151;font-size:14px;margin:0 0 24px;line-height:1.6;\">Seu pagamento foi confirmado e a garantia estendida dos produtos abaixo ja esta ativa. Guarde este e-mail como comprovante — ele serve como seu certificado de garantia.</p>"
-    + "<div style=\"overflow-x:auto;\"><table style=\"width:100%;border-collapse:collapse;border:1px solid #e5e7eb;border-radius:8px;overflow:hidden;\">"
-    + "<thead><tr style=\"background:#f9fafb;\"><th style=\"padding:10px 16px;text-align:left;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Produto</th><th style=\"padding:10px 16px;text-align:center;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Plano</th><th style=\"padding:10px 16px;text-align:center;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Vigencia</th><th style=\"padding:10px 16px;text-align:center;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Certificado</th></tr></thead>"
-    + "<tbody>" + itemsHtml + "</tbody></table></div>"
-    + "<div style=\"background:#eff6ff;border:1px solid #bfdbfe;border-radius:8px;padding:16px;margin-top:24px;\">"
-    + "<p style=\"color:#1e40af;font-size:13px;font-weight:700;margin:0 0 8px;\">Informacoes importantes:</p>"
-    + "<ul style=\"color:#374151;font-size:13px;margin:0;padding:0 0 0 18px;line-height:1.8;\"><li>A garantia estendida cobre defeitos de fabricacao apos o termino da garantia legal.</li><li>Para acionar a garantia, entre em contato informando o numero do certificado.</li><li>A garantia nao cobre danos por mau uso, acidentes ou desgaste natural.</li></ul></div>"
-    + "</div>"
-    + "<div style=\"background:#f9fafb;padding:20px 24px;text-align:center;border-top:1px solid #e5e7eb;\">"
-    + "<p style=\"color:#9ca3af;font-size:12px;margin:0;\">Carretao Auto Pecas — Garantia Estendida</p>"
-    + "<p style=\"color:#9ca3af;font-size:11px;margin:4px 0 0;\">Este e-mail foi gerado automaticamente. Em caso de duvidas, entre em contato.</p>"
-    + "</div></div></div></body></html>";
+// review_request:<userId>:<orderId> is created when the admin moves an order
+// to the configured trigger status; the cron sends it daysAfter days later by
+// email and/or WhatsApp (review_requests.ts). The signed link opens the review
+// form without login and credits the channel it came from.
+
+var REVIEW_REQUEST_LOCK = "review_request_worker";
+var REVIEW_REQUEST_LOCK_TTL_MS = 5 * 60 * 1000;
+/** Stop taking new requests after this long in one run (one SMTP + WhatsApp send fits in the lock TTL) */
+var REVIEW_REQUEST_RUN_BUDGET_MS = 2 * 60 * 1000;
+var _reviewRequestsRunning = false;
+
+async function _reviewToken(req: ReviewRequest, channel: ReviewRequestChannel): Promise<string> {
+  return signToken("review_request", reviewTokenPayload(req.userId, req.orderId, channel));
 }
 
-async function _sendWarrantyCertificateEmail(toEmail: string, orderId: string, warrantyItems: any[], customerName: string) {
-  try {
-    var cfg = await _getSmtpConfig();
-    if (!cfg) {
-      console.warn("[Warranty] SMTP not configured — skipping certificate email");
-      return;
-    }
-    var html = _buildWarrantyCertificateHtml(orderId, warrantyItems, customerName);
-    var fromAddr = cfg.fromName ? (cfg.fromName + " <" + cfg.smtpUser + ">") : cfg.smtpUser;
-    await _sendSmtpEmail(cfg, {
-      from: fromAddr,
-      to: toEmail,
-      subject: "Certificado de Garantia Estendida - Pedido " + orderId,
-      html: html,
-    });
-  } catch (e) {
-    console.error("[Warranty] Certificate email send error: " + e);
-  }
+async function _verifyReviewToken(token: string): Promise<{ userId: string; orderId: string; channel: ReviewRequestChannel } | null> {
+  var payload = await verifyToken("review_request", token);
+  return payload === null ? null : parseReviewTokenPayload(payload);
 }
 
-// ═══════════════════════════════════════════════════════════════════════
-// ─── GARANTIA ESTENDIDA (Extended Warranty) ───
-// ═══════════════════════════════════════════════════════════════════════
+/** The request behind a link, or an error message for the customer */
+async function _loadReviewInvite(token: string): Promise<{ req: ReviewRequest; channel: ReviewRequestChannel } | { error: string; status: 400 | 404 | 410 }> {
+  var tok = await _verifyReviewToken(token);
+  if (!tok) return { error: "Link invalido.", status: 400 };
+  var req = parseReviewRequest(await kv.get(reviewRequestKey(tok.userId, tok.orderId)));
+  if (!req) return { error: "Pedido de avaliacao nao encontrado.", status: 404 };
+  if (reviewLinkExpired(req, Date.now())) return { error: "Este link expirou. Entre na sua conta para avaliar.", status: 410 };
+  return { req: req, channel: tok.channel };
+}
 
-// KV keys:
-//   warranty_plan:<id>  → plan JSON
-//   warranty_plan_index → JSON array of plan IDs
-//   warranty_sku:<sku>  → JSON array of plan IDs assigned to that SKU
+async function _reviewRequestQueueUpdate(fn: (queue: ReviewRequestQueueEntry[]) => ReviewRequestQueueEntry[] | undefined): Promise<void> {
+  await kv.update(REVIEW_REQUEST_QUEUE_KEY, function (raw: any) {
+    var next = fn(parseReviewQueue(raw));
+    return next ? JSON.stringify(next) : undefined;
+  });
+}
 
-function _warrantyPlanKey(id: string) { return "warranty_plan:" + id; }
+// SKUs the customer already reviewed (pending or approved), from any path
+async function _reviewedSkusByUser(userId: string): Promise<string[]> {
+  var ids = await _getReviewIdsByUser(userId);
+  if (ids.length === 0) return [];
+  var raws = await kv.mget(ids.map(function (id) { return "review:" + id; }));
+  var skus: string[] = [];
+  for (var i = 0; i < raws.length; i++) {
+    if (!raws[i]) continue;
+    var rev = typeof raws[i] === "string" ? JSON.parse(raws[i]) : raws[i];
+    if (rev && rev.sku && rev.status !== "rejected") skus.push(rev.sku);
+  }
+  return skus;
+}
 
-async function _getWarrantyPlanIds(): Promise<string[]> {
-  try {
-    var raw = await kv.get("warranty_plan_index");
-    if (!raw) return [];
-    var parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (e) { return []; }
+// Called when the admin moves an order to shipped/delivered. One request per order.
+async function _scheduleReviewRequest(order: any, userId: string, status: string): Promise<void> {
+  var settings = parseReviewRequestSettings(await kv.get(REVIEW_REQUEST_SETTINGS_KEY));
+  var dueAt = reviewRequestDueAt(settings, status, Date.now());
+  if (dueAt === null || !order || !order.localOrderId) return;
+  var key = reviewRequestKey(userId, String(order.localOrderId));
+  var profileRaw = await kv.get("user_profile:" + userId);
+  var profile = profileRaw ? (typeof profileRaw === "string" ? JSON.parse(profileRaw) : profileRaw) : {};
+  var sa = order.shippingAddress || {};
+  var email = order.userEmail || profile.email || await _getUserEmailById(userId) || "";
+  var req = newReviewRequest(order, userId, { email: email, name: profile.name || sa.name || "", phone: profile.phone || sa.phone || "" }, dueAt, Date.now());
+  if (req.items.length === 0) return;
+  var out = await kv.update(key, function (raw: any) {
+    return raw ? undefined : JSON.stringify(req);
+  });
+  if (!out.written) return;
+  await _reviewRequestQueueUpdate(function (queue) { return withQueueEntry(queue, key, dueAt!); });
 }
 
-async function _saveWarrantyPlanIds(ids: string[]): Promise<void> {
-  await kv.set("warranty_plan_index", JSON.stringify(ids));
+async function _deliverReviewRequest(req: ReviewRequest, items: ReviewRequestItem[], settings: ReviewRequestSettings, smtpCfg: any, waConf: any, logoUrl: string | null): Promise<{ delivery: { email: ReviewRequestDelivery; whatsapp: ReviewRequestDelivery }; error: string | null }> {
+  var delivery: { email: ReviewRequestDelivery; whatsapp: ReviewRequestDelivery } = { email: "skipped", whatsapp: "skipped" };
+  var error: string | null = null;
+  var siteUrl = _getSiteUrl();
+  var reward = settings.reward.enabled ? settings.reward : null;
+  if (settings.channels.email && smtpCfg && req.email) {
+    var emailToken = await _reviewToken(req, "email");
+    var emailLinks = items.map(function (it) { return { sku: it.sku, titulo: it.titulo, url: reviewProductUrl(siteUrl, it.sku, emailToken) }; });
+    try {
+      await _sendSmtpEmail(smtpCfg, {
+        from: (smtpCfg.defaultSenderName || "Carretao Auto Pecas") + " <" + (smtpCfg.defaultSenderEmail || smtpCfg.smtpUser) + ">",
+        to: req.email,
+        subject: "Como foi sua compra? Avalie o pedido #" + req.orderId + " - Carretao Auto Pecas",
+        html: _buildReviewRequestHtml(req, emailLinks, reward, logoUrl || undefined),
+      });
+      delivery.email = "sent";
+    } catch (e: any) {
+      delivery.email = "failed";
+      error = String(e?.message || e).substring(0, 200);
+    }
+  }
+  if (settings.channels.whatsapp && waConf && waConf.enabled && req.phone) {
+    var waToken = await _reviewToken(req, "whatsapp");
+    var waLinks = items.map(function (it) { return { titulo: it.titulo, url: reviewProductUrl(siteUrl, it.sku, waToken) }; });
+    var wr = await sendWhatsAppMessage(waConf, req.phone, reviewWhatsAppText(req, waLinks, reward));
+    delivery.whatsapp = wr.ok ? "sent" : "failed";
+    if (!wr.ok) error = (error ? error + "; " : "") + String(wr.error || "").substring(0, 200);
+  }
+  return { delivery: delivery, error: error };
 }
 
-async function _getWarrantySkuPlans(sku: string): Promise<string[]> {
-  try {
-    var raw = await kv.get("warranty_sku:" + sku);
-    if (!raw) return [];
-    var parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (e) { return []; }
+// A due request: skipped when switched off, cancelled/returned or already reviewed; sent otherwise
+async function _processReviewRequest(req: ReviewRequest, settings: ReviewRequestSettings, smtpCfg: any, waConf: any, logoUrl: string | null): Promise<ReviewRequest> {
+  if (!settings.enabled) return markRequestSkipped(req, "Pedidos de avaliacao desativados");
+  var orderRaw = await kv.get("user_order:" + req.userId + ":" + req.orderId);
+  var order = orderRaw ? (typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw) : null;
+  if (!order || !orderStillPurchased(order)) return markRequestSkipped(req, "Pedido cancelado ou devolvido");
+  var items = pendingReviewItems(req, await _reviewedSkusByUser(req.userId));
+  if (items.length === 0) return markRequestSkipped(req, "Todos os produtos ja foram avaliados");
+  var res = await _deliverReviewRequest(req, items, settings, smtpCfg, waConf, logoUrl);
+  var noChannel = res.delivery.email === "skipped" && res.delivery.whatsapp === "skipped";
+  return markRequestSent(req, res.delivery, res.error || (noChannel ? "Sem canal disponivel (SMTP/WhatsApp ou contato do cliente)" : null), Date.now());
 }
 
-async function _saveWarrantySkuPlans(sku: string, planIds: string[]): Promise<void> {
-  if (planIds.length === 0) {
-    await kv.del("warranty_sku:" + sku);
-  } else {
-    await kv.set("warranty_sku:" + sku, JSON.stringify(planIds));
+// Sends the due requests (locked: one isolate at a time). Returns how many went out.
+async function _runReviewRequests(): Promise<number> {
+  if (_reviewRequestsRunning) return 0;
+  var owner = await kvAtomic.tryLock(REVIEW_REQUEST_LOCK, REVIEW_REQUEST_LOCK_TTL_MS);
+  if (!owner) return 0;
+  _reviewRequestsRunning = true;
+  try {
+    var keys = dueQueueKeys(parseReviewQueue(await kv.get(REVIEW_REQUEST_QUEUE_KEY)), Date.now(), REVIEW_REQUEST_SENDS_PER_RUN);
+    if (keys.length === 0) return 0;
+    var settings = parseReviewRequestSettings(await kv.get(REVIEW_REQUEST_SETTINGS_KEY));
+    var smtpCfg = settings.enabled && settings.channels.email ? await _getSmtpConfig() : null;
+    var waConf = settings.enabled && settings.channels.whatsapp ? await kv.get("whatsapp_config") : null;
+    var logoUrl = smtpCfg ? await _getEmailLogoUrl() : null;
+    var deadline = Date.now() + REVIEW_REQUEST_RUN_BUDGET_MS;
+    var sent = 0;
+    var done: string[] = [];
+    for (var i = 0; i < keys.length; i++) {
+      // What is left stays queued for the next run
+      if (Date.now() >= deadline) break;
+      if (i > 0 && !(await kvAtomic.renewLock(REVIEW_REQUEST_LOCK, owner, REVIEW_REQUEST_LOCK_TTL_MS))) {
+        console.warn("[ReviewRequests] Worker lock lost, stopping the run");
+        break;
+      }
+      // Claimed before delivering: another isolate that gets the lock later skips it
+      var claim = await kv.update(keys[i], function (raw: any) {
+        var cur = parseReviewRequest(raw);
+        var claimed = cur ? claimReviewRequest(cur, Date.now()) : undefined;
+        return claimed ? JSON.stringify(claimed) : undefined;
+      });
+      if (!claim.written) {
+        var current = parseReviewRequest(claim.value);
+        if (!current || current.status !== "scheduled") done.push(keys[i]);
+        continue;
+      }
+      var next = await _processReviewRequest(parseReviewRequest(claim.value)!, settings, smtpCfg, waConf, logoUrl);
+      if (next.status === "sent") sent++;
+      await kv.set(keys[i], JSON.stringify(next));
+      done.push(keys[i]);
+    }
+    await _reviewRequestQueueUpdate(function (queue) { return withoutQueueEntries(queue, done); });
+    return sent;
+  } finally {
+    _reviewRequestsRunning = false;
+    await kvAtomic.unlock(REVIEW_REQUEST_LOCK, owner);
   }
 }
 
-// ── Admin: List all warranty plans ──
-app.get(BASE + "/admin/warranty/plans", async (c: any) => {
+function _reviewRewardCode(): string {
+  var chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  var bytes = new Uint8Array(6);
+  crypto.getRandomValues(bytes);
+  var out = "AVALIE";
+  for (var i = 0; i < bytes.length; i++) out += chars[bytes[i] % chars.length];
+  return out;
+}
+
+// Reward coupon for an approved review that came from a request link (once per order)
+async function _issueReviewReward(review: any): Promise<string | null> {
   try {
-    var adminCheck = await isAdminUser(c.req.raw);
-    if (!adminCheck.isAdmin) return c.json({ error: "Não autorizado" }, 401);
-    var ids = await _getWarrantyPlanIds();
-    var plans: any[] = [];
-    for (var i = 0; i < ids.length; i++) {
+    var settings = parseReviewRequestSettings(await kv.get(REVIEW_REQUEST_SETTINGS_KEY));
+    if (!settings.reward.enabled || settings.reward.discountValue <= 0) return null;
+    var code = _reviewRewardCode();
+    var now = Date.now();
+    var out = await kv.update(review.requestKey, function (raw: any) {
+      var cur = parseReviewRequest(raw);
+      var next = cur ? claimReviewReward(cur, review.id, code, now) : undefined;
+      return next ? JSON.stringify(next) : undefined;
+    });
+    if (!out.written) return null;
+    var req = parseReviewRequest(out.value)!;
+    var rules = normalizeCouponRules({ discountType: settings.reward.discountType, discountValue: settings.reward.discountValue });
+    // personal: kept off the public coupon list
+    var coupon = { ...rewardCouponFields(settings.reward, code, req.orderId, now), ..._couponRuleFields(rules), personal: true, userId: req.userId };
+    await kv.set("coupon:" + code, JSON.stringify(coupon));
+    var smtpCfg = await _getSmtpConfig();
+    var to = req.email || review.userEmail;
+    if (smtpCfg && to) {
       try {
-        var raw = await kv.get(_warrantyPlanKey(ids[i]));
-        if (raw) {
-          var plan = typeof raw === "string" ? JSON.parse(raw) : raw;
-          plans.push(plan);
-        }
-      } catch (e) { /* skip */ }
+        await _sendSmtpEmail(smtpCfg, {
+          from: (smtpCfg.defaultSenderName || "Carretao Auto Pecas") + " <" + (smtpCfg.defaultSenderEmail || smtpCfg.smtpUser) + ">",
+          to: to,
+          subject: "Seu cupom de " + formatRewardValue(settings.reward) + " chegou - Carretao Auto Pecas",
+          html: _buildReviewRewardHtml(req.name || review.userName || "", code, settings.reward, coupon.expiresAt, (await _getEmailLogoUrl()) || undefined),
+        });
+      } catch (mailErr) {
+        console.error("[ReviewRequests] Reward email error (coupon " + code + " created): " + String(mailErr));
+      }
     }
-    plans.sort(function (a, b) { return (b.createdAt || 0) - (a.createdAt || 0); });
-    return c.json({ plans: plans });
+    return code;
   } catch (e) {
-    console.error("[admin/warranty] List error: " + e);
-    return c.json({ error: "Erro ao listar planos de garantia." }, 500);
+    console.error("[ReviewRequests] Reward error (non-fatal): " + String(e));
+    return null;
+  }
+}
+
+// GET /review-invite?token= — what the link lets the customer review (no login)
+app.get(BASE + "/review-invite", async function (c) {
+  try {
+    var rl = _checkRateLimit(_getRateLimitKey(c, "review_invite"), 30);
+    if (!rl.allowed) return _rl429(c, "Muitas tentativas. Aguarde um momento.", rl);
+    var loaded = await _loadReviewInvite(c.req.query("token") || "");
+    if ("error" in loaded) return c.json({ error: loaded.error }, loaded.status);
+    var req = loaded.req;
+    var channel = loaded.channel;
+    await kv.update(reviewRequestKey(req.userId, req.orderId), function (raw: any) {
+      var cur = parseReviewRequest(raw);
+      return cur ? JSON.stringify(recordReviewClick(cur, channel)) : undefined;
+    });
+    var reviewed = await _reviewedSkusByUser(req.userId);
+    var settings = parseReviewRequestSettings(await kv.get(REVIEW_REQUEST_SETTINGS_KEY));
+    return c.json({
+      name: req.name ? req.name.split(" ")[0] : "",
+      orderId: req.orderId,
+      items: req.items.map(function (it) { return { sku: it.sku, titulo: it.titulo, reviewed: !!it.reviewId || reviewed.indexOf(it.sku) !== -1 }; }),
+      reward: settings.reward.enabled && !req.rewardCode ? formatRewardValue(settings.reward) : null,
+    });
+  } catch (e) {
+    console.error("[ReviewRequests] Invite GET error:", e);
+    return c.json({ error: "Erro ao abrir o pedido de avaliacao." }, 500);
   }
 });
 
-// ── Admin: Create warranty plan ──
-app.post(BASE + "/admin/warranty/plans", async (c: any) => {
+// POST /review-invite/reviews — review through the signed link (verified purchase, no login)
+app.post(BASE + "/review-invite/reviews", async function (c) {
   try {
-    var adminCheck = await isAdminUser(c.req.raw);
-    if (!adminCheck.isAdmin) return c.json({ error: "Não autorizado" }, 401);
+    var rl = _checkRateLimit(_getRateLimitKey(c, "review_submit"), 10);
+    if (!rl.allowed) return _rl429(c, "Muitas avaliações enviadas. Aguarde um momento.", rl);
     var body = await c.req.json();
-    // Input validation for warranty plan create
-    var wpValid = validate(body, {
-      name: { required: true, type: "string", minLen: 1, maxLen: 200 },
-      description: { type: "string", maxLen: 1000 },
-      durationMonths: { type: "number", min: 1, max: 120 },
+    var rvValid = validateOrError(body, schemas.review);
+    if (!rvValid.valid) return c.json({ error: rvValid.errors[0] || "Dados invalidos." }, 400);
+    var loaded = await _loadReviewInvite(String(body.token || ""));
+    if ("error" in loaded) return c.json({ error: loaded.error }, loaded.status);
+    var req = loaded.req;
+    var channel = loaded.channel;
+    var sku = rvValid.data.sku;
+    if (!req.items.some(function (it) { return it.sku === sku; })) return c.json({ error: "Este produto nao faz parte do pedido." }, 403);
+    var orderRaw = await kv.get("user_order:" + req.userId + ":" + req.orderId);
+    var order = orderRaw ? (typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw) : null;
+    if (!order || !orderStillPurchased(order)) return c.json({ error: "Pedido cancelado ou devolvido." }, 403);
+    var key = reviewRequestKey(req.userId, req.orderId);
+    var created = await _createVerifiedReview({
+      userId: req.userId,
+      userName: req.name || "Anônimo",
+      userEmail: req.email,
+      sku: sku,
+      rating: rvValid.data.rating,
+      title: rvValid.data.title || "",
+      comment: rvValid.data.comment || "",
+      requestKey: key,
+      requestChannel: channel,
+    });
+    if (!created) return c.json({ error: "Voce ja avaliou este produto." }, 409);
+    await kv.update(key, function (raw: any) {
+      var cur = parseReviewRequest(raw);
+      return cur ? JSON.stringify(recordRequestReview(cur, sku, created!.reviewId, channel)) : undefined;
+    });
+    return c.json({ ok: true, reviewId: created.reviewId, status: "pending" });
+  } catch (e) {
+    console.error("[ReviewRequests] Invite POST error:", e);
+    return c.json({ error: "Erro ao enviar avaliacao." }, 500);
+  }
+});
+
+// GET /admin/review-requests — settings, conversion per channel and the latest requests
+app.get(BASE + "/admin/review-requests", async (c) => {
+  try {
+    var settings = parseReviewRequestSettings(await kv.get(REVIEW_REQUEST_SETTINGS_KEY));
+    var rows = await _segmentKvRows(REVIEW_REQUEST_PREFIX);
+    var requests: ReviewRequest[] = [];
+    for (var i = 0; i < rows.length; i++) {
+      if (rows[i].key.indexOf(REVIEW_REQUEST_PREFIX) !== 0) continue;
+      var r = parseReviewRequest(rows[i].value);
+      if (r) requests.push(r);
+    }
+    requests.sort(function (a, b) { return b.createdAt - a.createdAt; });
+    return c.json({
+      settings: settings,
+      stats: reviewRequestStats(requests),
+      requests: requests.slice(0, 50).map(publicReviewRequest),
+    });
+  } catch (e: any) {
+    console.error("[ReviewRequests] Admin GET error:", e);
+    return c.json({ error: "Erro ao carregar pedidos de avaliacao." }, 500);
+  }
+});
+
+// PUT /admin/review-requests/settings
+app.put(BASE + "/admin/review-requests/settings", async (c) => {
+  try {
+    var body = await c.req.json();
+    var prev = parseReviewRequestSettings(await kv.get(REVIEW_REQUEST_SETTINGS_KEY));
+    var settings = parseReviewRequestSettings(body, prev);
+    var err = checkReviewRequestSettings(settings);
+    if (err) return c.json({ error: err }, 400);
+    settings.updatedAt = Date.now();
+    await kv.set(REVIEW_REQUEST_SETTINGS_KEY, JSON.stringify(settings));
+    return c.json({ ok: true, settings: settings });
+  } catch (e: any) {
+    console.error("[ReviewRequests] Settings PUT error:", e);
+    return c.json({ error: "Erro ao salvar configuracao." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// ─── PRODUCT Q&A (perguntas e respostas) ───
+// ═══════════════════════════════════════════════════════════════════════
+// product_qa:<sku> holds the questions with their answers (product_questions.ts).
+// Customers and guests ask, the store answers from the admin and customers
+// who bought the SKU answer through the moderation queue (product_qa_pending,
+// the sidebar badge). The asker is e-mailed once a published question gets
+// a published answer.
+
+var QA_STORE_AUTHOR = "Carretão Auto Peças";
+
+function _qaId(prefix: string): string {
+  return prefix + Date.now() + "_" + crypto.randomUUID().slice(0, 8);
+}
+
+// CAS on the SKU's record; fn returns null to leave it untouched. The written record, or null
+async function _qaUpdate(sku: string, fn: (rec: ProductQaRecord) => ProductQaRecord | null): Promise<ProductQaRecord | null> {
+  var out = await kv.update(qaKey(sku), function (current: any) {
+    return fn(parseQaRecord(current, sku)) || undefined;
+  });
+  return out.written ? parseQaRecord(out.value, sku) : null;
+}
+
+async function _qaPendingUpdate(fn: (list: QaPendingEntry[]) => QaPendingEntry[]): Promise<void> {
+  await kv.update(PRODUCT_QA_PENDING_KEY, function (raw: any) {
+    var list = parseQaPending(raw);
+    var next = fn(list);
+    return next.length === list.length ? undefined : JSON.stringify(next);
+  });
+}
+
+// E-mails the asker the published answers they have not seen yet. Returns how many.
+async function _notifyQuestionAnswers(sku: string, questionId: string): Promise<number> {
+  try {
+    var smtpCfg = await _getSmtpConfig();
+    if (!smtpCfg) return 0;
+    var question: ProductQuestion | null = null;
+    var claimed: ProductAnswer[] = [];
+    var titulo = "";
+    // Claim before sending: a concurrent moderation finds them already notified
+    await _qaUpdate(sku, function (rec) {
+      var claim = claimAnswerNotice(rec, questionId, Date.now());
+      question = claim.question;
+      claimed = claim.claimed;
+      titulo = rec.titulo || sku;
+      return claim.record;
+    });
+    var q = question as ProductQuestion | null;
+    if (!q || claimed.length === 0) return 0;
+    await _sendSmtpEmail(smtpCfg, {
+      from: (smtpCfg.defaultSenderName || "Carretao Auto Pecas") + " <" + (smtpCfg.defaultSenderEmail || smtpCfg.smtpUser) + ">",
+      to: q.askerEmail,
+      subject: "Sua pergunta sobre " + titulo.substring(0, 80) + " foi respondida - Carretao Auto Pecas",
+      html: _buildQuestionAnsweredHtml(q, claimed, titulo, qaProductUrl(_getSiteUrl(), sku), (await _getEmailLogoUrl()) || undefined),
+    });
+    console.log("[ProductQA] " + sku + "/" + questionId + ": " + claimed.length + " resposta(s) enviada(s) para quem perguntou");
+    return claimed.length;
+  } catch (e) {
+    console.error("[ProductQA] Notify error (non-fatal) for " + sku + "/" + questionId + ": " + String(e));
+    return 0;
+  }
+}
+
+// GET /product-questions/:sku — published Q&A; canAnswer when the logged-in customer bought the SKU
+app.get(BASE + "/product-questions/:sku", async function (c) {
+  try {
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    if (!sku) return c.json({ error: "SKU obrigatorio." }, 400);
+    var rec = parseQaRecord(await kv.get(qaKey(sku)), sku);
+    var userId = c.req.header("X-User-Token") ? await getAuthUserId(c.req.raw) : null;
+    var canAnswer = userId ? await _userHasPurchasedSku(userId, sku) : false;
+    var questions = publicQuestions(rec);
+    return c.json({ sku: sku, questions: questions, total: questions.length, canAnswer: canAnswer });
+  } catch (e) {
+    console.error("[ProductQA] GET error:", e);
+    return c.json({ error: "Erro ao buscar perguntas." }, 500);
+  }
+});
+
+// POST /product-questions — ask (logged in, or guest with name + e-mail); waits for moderation
+app.post(BASE + "/product-questions", async function (c) {
+  try {
+    var qRl = _checkRateLimit(_getRateLimitKey(c, "product_question"), 5);
+    if (!qRl.allowed) return _rl429(c, "Muitas perguntas em pouco tempo. Aguarde um instante.", qRl);
+
+    var body = await c.req.json().catch(function () { return null; });
+    var pqValid = validate(body, {
+      sku: { required: true, type: "string", maxLen: 100 },
+      question: { required: true, type: "string", maxLen: QA_QUESTION_MAX + 200 },
+      name: { type: "string", maxLen: 100 },
+      email: { type: "string", maxLen: 254, custom: validators.email },
+    });
+    if (!pqValid.ok) return c.json({ error: pqValid.errors[0] || "Dados invalidos." }, 400);
+    var sku = String(pqValid.sanitized.sku || "").trim();
+    var text = cleanQaText(pqValid.sanitized.question, QA_QUESTION_MIN, QA_QUESTION_MAX);
+    if (!text) return c.json({ error: "A pergunta deve ter entre " + QA_QUESTION_MIN + " e " + QA_QUESTION_MAX + " caracteres." }, 400);
+
+    var userId = c.req.header("X-User-Token") ? await getAuthUserId(c.req.raw) : null;
+    var email = String(pqValid.sanitized.email || "").toLowerCase().trim();
+    var name = String(pqValid.sanitized.name || "").trim();
+    if (userId) {
+      var authRes = await supabaseAdmin.auth.admin.getUserById(userId);
+      var authUser = authRes.data ? authRes.data.user : null;
+      if (authUser && authUser.email) email = authUser.email.toLowerCase();
+      if (!name && authUser) name = String(authUser.user_metadata?.name || "");
+    }
+    if (!email) return c.json({ error: "Informe seu e-mail para receber a resposta." }, 400);
+    if (!name) return c.json({ error: "Informe seu nome." }, 400);
+
+    var { data: prod } = await supabaseAdmin.from("produtos").select("sku, titulo").eq("sku", sku).maybeSingle();
+    if (!prod) return c.json({ error: "Produto nao encontrado." }, 404);
+
+    var addError = "";
+    var asked: ProductQuestion | null = null;
+    await _qaUpdate(sku, function (rec) {
+      addError = "";
+      rec.titulo = prod.titulo || rec.titulo;
+      var res = addQuestion(rec, { question: text as string, askerName: name.substring(0, 100), askerEmail: email, userId: userId }, _qaId("pq_"), Date.now());
+      if (res.error) { addError = res.error; return null; }
+      asked = res.question || null;
+      return res.record || null;
+    });
+    var q = asked as ProductQuestion | null;
+    if (addError || !q) return c.json({ error: addError || "Erro ao enviar pergunta." }, 400);
+    await _qaPendingUpdate(function (list) {
+      return withPendingEntry(list, { sku: sku, questionId: q!.id, answerId: null, createdAt: q!.createdAt });
+    });
+    return c.json({ ok: true, questionId: q.id, status: q.status });
+  } catch (e: any) {
+    console.error("[ProductQA] Ask error:", e);
+    return c.json({ error: "Erro ao enviar pergunta." }, 500);
+  }
+});
+
+// POST /product-questions/:sku/:id/answers — answer from a customer who bought the SKU (moderated)
+app.post(BASE + "/product-questions/:sku/:id/answers", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Faca login para responder." }, 401);
+    var aRl = _checkRateLimit(_getRateLimitKey(c, "product_answer"), 10);
+    if (!aRl.allowed) return _rl429(c, "Muitas respostas em pouco tempo. Aguarde um instante.", aRl);
+
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    var questionId = (c.req.param("id") || "").substring(0, 60);
+    var body = await c.req.json().catch(function () { return null; });
+    var text = cleanQaText(body && body.text, QA_ANSWER_MIN, QA_ANSWER_MAX);
+    if (!text) return c.json({ error: "A resposta deve ter entre " + QA_ANSWER_MIN + " e " + QA_ANSWER_MAX + " caracteres." }, 400);
+    if (!(await _userHasPurchasedSku(userId, sku))) {
+      return c.json({ error: "Apenas clientes que compraram este produto podem responder." }, 403);
+    }
+
+    var authRes = await supabaseAdmin.auth.admin.getUserById(userId);
+    var authUser = authRes.data ? authRes.data.user : null;
+    var name = authUser ? String(authUser.user_metadata?.name || (authUser.email || "").split("@")[0]) : "";
+
+    var addError = "";
+    var added: ProductAnswer | null = null;
+    await _qaUpdate(sku, function (rec) {
+      addError = "";
+      var res = addAnswer(rec, questionId, { text: text as string, authorName: name.substring(0, 100), authorType: "buyer", userId: userId }, _qaId("pa_"), Date.now());
+      if (res.error) { addError = res.error; return null; }
+      added = res.answer || null;
+      return res.record || null;
+    });
+    var a = added as ProductAnswer | null;
+    if (addError || !a) return c.json({ error: addError || "Erro ao enviar resposta." }, 400);
+    await _qaPendingUpdate(function (list) {
+      return withPendingEntry(list, { sku: sku, questionId: questionId, answerId: a!.id, createdAt: a!.createdAt });
+    });
+    return c.json({ ok: true, answerId: a.id, status: a.status });
+  } catch (e: any) {
+    console.error("[ProductQA] Answer error:", e);
+    return c.json({ error: "Erro ao enviar resposta." }, 500);
+  }
+});
+
+// GET /admin/product-questions?status=pending|approved|rejected|unanswered|all&q=
+app.get(BASE + "/admin/product-questions", async (c) => {
+  try {
+    var filter = String(c.req.query("status") || "pending") as QaAdminFilter;
+    if (["pending", "approved", "rejected", "unanswered", "all"].indexOf(filter) === -1) filter = "pending";
+    var search = String(c.req.query("q") || "").trim().toLowerCase().substring(0, 100);
+    var rawList = await kv.getByPrefix(PRODUCT_QA_PREFIX);
+    var records: ProductQaRecord[] = [];
+    for (var raw of rawList || []) {
+      try {
+        var rec = parseQaRecord(raw, "");
+        if (rec.sku && rec.questions.length > 0) records.push(rec);
+      } catch { /* skip malformed */ }
+    }
+
+    var totals = { pending: 0, approved: 0, rejected: 0, pendingAnswers: 0, unanswered: 0 };
+    var questions: any[] = [];
+    for (var r of records) {
+      var counts = qaCounts(r);
+      totals.pending += counts.pending;
+      totals.approved += counts.approved;
+      totals.rejected += counts.rejected;
+      totals.pendingAnswers += counts.pendingAnswers;
+      totals.unanswered += counts.unanswered;
+      for (var q of r.questions) {
+        if (!questionInFilter(q, filter)) continue;
+        if (search && (r.sku + " " + r.titulo + " " + q.question + " " + q.askerEmail + " " + q.askerName).toLowerCase().indexOf(search) === -1) continue;
+        questions.push({ ...q, titulo: r.titulo });
+      }
+    }
+    // Queue: oldest first; history: newest first
+    questions.sort(function (x, y) { return filter === "pending" ? x.createdAt - y.createdAt : y.createdAt - x.createdAt; });
+
+    // The index only drifts when a write failed halfway — the full scan puts it back
+    var queue = pendingEntries(records);
+    var stored = parseQaPending(await kv.get(PRODUCT_QA_PENDING_KEY));
+    if (stored.length !== queue.length) await kv.set(PRODUCT_QA_PENDING_KEY, JSON.stringify(queue));
+
+    return c.json({ questions: questions.slice(0, 200), total: questions.length, totals: totals, pending: queue.length });
+  } catch (e: any) {
+    console.error("[ProductQA] Admin list error:", e);
+    return c.json({ error: "Erro ao carregar perguntas." }, 500);
+  }
+});
+
+// PUT /admin/product-questions/:sku/:id/moderate — approve/reject, optionally answering in the same step
+app.put(BASE + "/admin/product-questions/:sku/:id/moderate", async (c) => {
+  try {
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    var questionId = (c.req.param("id") || "").substring(0, 60);
+    var body = await c.req.json().catch(function () { return null; });
+    var mqValid = validate(body, {
+      action: { required: true, type: "string", oneOf: ["approve", "reject"] },
+      answer: { type: "string", maxLen: QA_ANSWER_MAX + 200 },
+    });
+    if (!mqValid.ok) return c.json({ error: mqValid.errors[0] || "Acao invalida." }, 400);
+    var action = mqValid.sanitized.action as QaModerationAction;
+    var answerText: string | null = null;
+    if (action === "approve" && String(mqValid.sanitized.answer || "").trim()) {
+      answerText = cleanQaText(mqValid.sanitized.answer, QA_ANSWER_MIN, QA_ANSWER_MAX);
+      if (!answerText) return c.json({ error: "A resposta deve ter entre " + QA_ANSWER_MIN + " e " + QA_ANSWER_MAX + " caracteres." }, 400);
+    }
+    var actor = c.get("adminUser") || {};
+    var by = actor.email || "admin";
+
+    var answerError = "";
+    var saved = await _qaUpdate(sku, function (rec) {
+      answerError = "";
+      var next = moderateQuestion(rec, questionId, action, by, Date.now());
+      if (!next || !answerText) return next;
+      var res = addAnswer(next, questionId, { text: answerText, authorName: QA_STORE_AUTHOR, authorType: "store", userId: actor.userId || null, by: by }, _qaId("pa_"), Date.now());
+      if (res.error) { answerError = res.error; return null; }
+      return res.record || null;
+    });
+    if (answerError) return c.json({ error: answerError }, 400);
+    if (!saved) return c.json({ error: "Pergunta nao encontrada." }, 404);
+    // Rejecting the question also takes its pending answers out of the queue
+    await _qaPendingUpdate(function (list) {
+      return withoutPendingEntry(list, sku, questionId, action === "reject" ? undefined : null);
+    });
+    var notified = action === "approve" ? await _notifyQuestionAnswers(sku, questionId) : 0;
+    return c.json({ ok: true, question: findQuestion(saved, questionId), notified: notified > 0 });
+  } catch (e: any) {
+    console.error("[ProductQA] Moderate error:", e);
+    return c.json({ error: "Erro ao moderar pergunta." }, 500);
+  }
+});
+
+// POST /admin/product-questions/:sku/:id/answers — store answer (published at once)
+app.post(BASE + "/admin/product-questions/:sku/:id/answers", async (c) => {
+  try {
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    var questionId = (c.req.param("id") || "").substring(0, 60);
+    var body = await c.req.json().catch(function () { return null; });
+    var text = cleanQaText(body && body.text, QA_ANSWER_MIN, QA_ANSWER_MAX);
+    if (!text) return c.json({ error: "A resposta deve ter entre " + QA_ANSWER_MIN + " e " + QA_ANSWER_MAX + " caracteres." }, 400);
+    var actor = c.get("adminUser") || {};
+
+    var addError = "";
+    var saved = await _qaUpdate(sku, function (rec) {
+      addError = "";
+      var res = addAnswer(rec, questionId, { text: text as string, authorName: QA_STORE_AUTHOR, authorType: "store", userId: actor.userId || null, by: actor.email || "admin" }, _qaId("pa_"), Date.now());
+      if (res.error) { addError = res.error; return null; }
+      return res.record || null;
+    });
+    if (!saved) return c.json({ error: addError || "Erro ao salvar resposta." }, addError === "Pergunta nao encontrada." ? 404 : 400);
+    var notified = await _notifyQuestionAnswers(sku, questionId);
+    return c.json({ ok: true, question: findQuestion(saved, questionId), notified: notified > 0 });
+  } catch (e: any) {
+    console.error("[ProductQA] Store answer error:", e);
+    return c.json({ error: "Erro ao salvar resposta." }, 500);
+  }
+});
+
+// PUT /admin/product-questions/:sku/:id/answers/:answerId/moderate — customer answers
+app.put(BASE + "/admin/product-questions/:sku/:id/answers/:answerId/moderate", async (c) => {
+  try {
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    var questionId = (c.req.param("id") || "").substring(0, 60);
+    var answerId = (c.req.param("answerId") || "").substring(0, 60);
+    var body = await c.req.json().catch(function () { return null; });
+    var maValid = validate(body, { action: { required: true, type: "string", oneOf: ["approve", "reject"] } });
+    if (!maValid.ok) return c.json({ error: maValid.errors[0] || "Acao invalida." }, 400);
+    var action = maValid.sanitized.action as QaModerationAction;
+    var actor = c.get("adminUser") || {};
+
+    var saved = await _qaUpdate(sku, function (rec) {
+      return moderateAnswer(rec, questionId, answerId, action, actor.email || "admin", Date.now());
+    });
+    if (!saved) return c.json({ error: "Resposta nao encontrada." }, 404);
+    await _qaPendingUpdate(function (list) { return withoutPendingEntry(list, sku, questionId, answerId); });
+    var notified = action === "approve" ? await _notifyQuestionAnswers(sku, questionId) : 0;
+    return c.json({ ok: true, question: findQuestion(saved, questionId), notified: notified > 0 });
+  } catch (e: any) {
+    console.error("[ProductQA] Answer moderate error:", e);
+    return c.json({ error: "Erro ao moderar resposta." }, 500);
+  }
+});
+
+// DELETE /admin/product-questions/:sku/:id — question with all its answers
+app.delete(BASE + "/admin/product-questions/:sku/:id", async (c) => {
+  try {
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    var questionId = (c.req.param("id") || "").substring(0, 60);
+    var saved = await _qaUpdate(sku, function (rec) { return removeQuestion(rec, questionId, Date.now()); });
+    if (!saved) return c.json({ error: "Pergunta nao encontrada." }, 404);
+    await _qaPendingUpdate(function (list) { return withoutPendingEntry(list, sku, questionId); });
+    return c.json({ ok: true, deleted: questionId });
+  } catch (e: any) {
+    console.error("[ProductQA] Delete error:", e);
+    return c.json({ error: "Erro ao excluir pergunta." }, 500);
+  }
+});
+
+// DELETE /admin/product-questions/:sku/:id/answers/:answerId
+app.delete(BASE + "/admin/product-questions/:sku/:id/answers/:answerId", async (c) => {
+  try {
+    var sku = (c.req.param("sku") || "").substring(0, 100);
+    var questionId = (c.req.param("id") || "").substring(0, 60);
+    var answerId = (c.req.param("answerId") || "").substring(0, 60);
+    var saved = await _qaUpdate(sku, function (rec) { return removeAnswer(rec, questionId, answerId, Date.now()); });
+    if (!saved) return c.json({ error: "Resposta nao encontrada." }, 404);
+    await _qaPendingUpdate(function (list) { return withoutPendingEntry(list, sku, questionId, answerId); });
+    return c.json({ ok: true, question: findQuestion(saved, questionId) });
+  } catch (e: any) {
+    console.error("[ProductQA] Answer delete error:", e);
+    return c.json({ error: "Erro ao excluir resposta." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// ─── WARRANTY CERTIFICATE EMAIL ───
+// ═══════════════════════════════════════════════════════════════════════
+
+function _buildWarrantyCertificateHtml(orderId: string, warrantyItems: any[], customerName: string): string {
+  var paidDate = new Date();
+  var dateStr = paidDate.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
+  var itemsHtml = "";
+  for (var i = 0; i < warrantyItems.length; i++) {
+    var wi = warrantyItems[i];
+    var w = wi.warranty;
+    var endDate = new Date(paidDate);
+    endDate.setMonth(endDate.getMonth() + (w.durationMonths || 12));
+    var endDateStr = endDate.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric" });
+    var certId = "GE-" + orderId + "-" + String(i + 1).padStart(3, "0");
+    itemsHtml += "<tr>"
+      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;\"><strong style=\"color:#1f2937;font-size:14px;\">" + (wi.titulo || wi.sku) + "</strong><br><span style=\"color:#6b7280;font-size:12px;\">SKU: " + wi.sku + "</span></td>"
+      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;text-align:center;\"><span style=\"color:#2563eb;font-weight:700;font-size:14px;\">" + w.name + "</span><br><span style=\"color:#6b7280;font-size:12px;\">" + w.durationMonths + " meses</span></td>"
+      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;text-align:center;\"><span style=\"color:#059669;font-weight:600;font-size:13px;\">" + dateStr + "</span><br><span style=\"color:#6b7280;font-size:11px;\">ate " + endDateStr + "</span></td>"
+      + "<td style=\"padding:12px 16px;border-bottom:1px solid #e5e7eb;text-align:center;\"><code style=\"background:#eff6ff;color:#2563eb;padding:2px 8px;border-radius:4px;font-size:11px;font-weight:700;\">" + certId + "</code></td>"
+      + "</tr>";
+  }
+  return "<!DOCTYPE html><html lang=\"pt-BR\"><head><meta charset=\"UTF-8\"></head>"
+    + "<body style=\"margin:0;padding:0;font-family:Arial,Helvetica,sans-serif;background:#f3f4f6;\">"
+    + "<div style=\"max-width:640px;margin:0 auto;padding:20px;\">"
+    + "<div style=\"background:#ffffff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);\">"
+    + "<div style=\"background:linear-gradient(135deg,#1e40af,#3b82f6);padding:32px 24px;text-align:center;\">"
+    + "<div style=\"width:56px;height:56px;background:rgba(255,255,255,0.2);border-radius:50%;display:inline-flex;align-items:center;justify-content:center;margin-bottom:12px;\"><span style=\"font-size:28px;\">&#128737;</span></div>"
+    + "<h1 style=\"color:#ffffff;font-size:22px;margin:0 0 6px 0;\">Certificado de Garantia Estendida</h1>"
+    + "<p style=\"color:rgba(255,255,255,0.85);font-size:14px;margin:0;\">Pedido " + orderId + "</p></div>"
+    + "<div style=\"padding:28px 24px;\">"
+    + "<p style=\"color:#374151;font-size:15px;margin:0 0 20px;\">Ola, <strong>" + customerName + "</strong>!</p>"
+    + "<p style=\"color:#374151;font-size:14px;margin:0 0 24px;line-height:1.6;\">Seu pagamento foi confirmado e a garantia estendida dos produtos abaixo ja esta ativa. Guarde este e-mail como comprovante — ele serve como seu certificado de garantia.</p>"
+    + "<div style=\"overflow-x:auto;\"><table style=\"width:100%;border-collapse:collapse;border:1px solid #e5e7eb;border-radius:8px;overflow:hidden;\">"
+    + "<thead><tr style=\"background:#f9fafb;\"><th style=\"padding:10px 16px;text-align:left;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Produto</th><th style=\"padding:10px 16px;text-align:center;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Plano</th><th style=\"padding:10px 16px;text-align:center;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Vigencia</th><th style=\"padding:10px 16px;text-align:center;font-size:12px;color:#6b7280;font-weight:600;border-bottom:1px solid #e5e7eb;\">Certificado</th></tr></thead>"
+    + "<tbody>" + itemsHtml + "</tbody></table></div>"
+    + "<div style=\"background:#eff6ff;border:1px solid #bfdbfe;border-radius:8px;padding:16px;margin-top:24px;\">"
+    + "<p style=\"color:#1e40af;font-size:13px;font-weight:700;margin:0 0 8px;\">Informacoes importantes:</p>"
+    + "<ul style=\"color:#374151;font-size:13px;margin:0;padding:0 0 0 18px;line-height:1.8;\"><li>A garantia estendida cobre defeitos de fabricacao apos o termino da garantia legal.</li><li>Para acionar a garantia, entre em contato informando o numero do certificado.</li><li>A garantia nao cobre danos por mau uso, acidentes ou desgaste natural.</li></ul></div>"
+    + "</div>"
+    + "<div style=\"background:#f9fafb;padding:20px 24px;text-align:center;border-top:1px solid #e5e7eb;\">"
+    + "<p style=\"color:#9ca3af;font-size:12px;margin:0;\">Carretao Auto Pecas — Garantia Estendida</p>"
+    + "<p style=\"color:#9ca3af;font-size:11px;margin:4px 0 0;\">Este e-mail foi gerado automaticamente. Em caso de duvidas, entre em contato.</p>"
+    + "</div></div></div></body></html>";
+}
+
+async function _sendWarrantyCertificateEmail(toEmail: string, orderId: string, warrantyItems: any[], customerName: string) {
+  try {
+    var cfg = await _getSmtpConfig();
+    if (!cfg) {
+      console.warn("[Warranty] SMTP not configured — skipping certificate email");
+      return;
+    }
+    var html = _buildWarrantyCertificateHtml(orderId, warrantyItems, customerName);
+    var fromAddr = cfg.fromName ? (cfg.fromName + " <" + cfg.smtpUser + ">") : cfg.smtpUser;
+    await _sendSmtpEmail(cfg, {
+      from: fromAddr,
+      to: toEmail,
+      subject: "Certificado de Garantia Estendida - Pedido " + orderId,
+      html: html,
+    });
+  } catch (e) {
+    console.error("[Warranty] Certificate email send error: " + e);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// ─── GARANTIA ESTENDIDA (Extended Warranty) ───
+// ═══════════════════════════════════════════════════════════════════════
+
+// KV keys:
+//   warranty_plan:<id>  → plan JSON
+//   warranty_plan_index → JSON array of plan IDs
+//   warranty_sku:<sku>  → JSON array of plan IDs assigned to that SKU
+
+function _warrantyPlanKey(id: string) { return "warranty_plan:" + id; }
+
+async function _getWarrantyPlanIds(): Promise<string[]> {
+  try {
+    var raw = await kv.get("warranty_plan_index");
+    if (!raw) return [];
+    var parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) { return []; }
+}
+
+async function _saveWarrantyPlanIds(ids: string[]): Promise<void> {
+  await kv.set("warranty_plan_index", JSON.stringify(ids));
+}
+
+async function _getWarrantySkuPlans(sku: string): Promise<string[]> {
+  try {
+    var raw = await kv.get("warranty_sku:" + sku);
+    if (!raw) return [];
+    var parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) { return []; }
+}
+
+async function _saveWarrantySkuPlans(sku: string, planIds: string[]): Promise<void> {
+  if (planIds.length === 0) {
+    await kv.del("warranty_sku:" + sku);
+  } else {
+    await kv.set("warranty_sku:" + sku, JSON.stringify(planIds));
+  }
+}
+
+// ── Admin: List all warranty plans ──
+app.get(BASE + "/admin/warranty/plans", async (c: any) => {
+  try {
+    var adminCheck = await isAdminUser(c.req.raw);
+    if (!adminCheck.isAdmin) return c.json({ error: "Não autorizado" }, 401);
+    var ids = await _getWarrantyPlanIds();
+    var plans: any[] = [];
+    for (var i = 0; i < ids.length; i++) {
+      try {
+        var raw = await kv.get(_warrantyPlanKey(ids[i]));
+        if (raw) {
+          var plan = typeof raw === "string" ? JSON.parse(raw) : raw;
+          plans.push(plan);
+        }
+      } catch (e) { /* skip */ }
+    }
+    plans.sort(function (a, b) { return (b.createdAt || 0) - (a.createdAt || 0); });
+    return c.json({ plans: plans });
+  } catch (e) {
+    console.error("[admin/warranty] List error: " + e);
+    return c.json({ error: "Erro ao listar planos de garantia." }, 500);
+  }
+});
+
+// ── Admin: Create warranty plan ──
+app.post(BASE + "/admin/warranty/plans", async (c: any) => {
+  try {
+    var adminCheck = await isAdminUser(c.req.raw);
+    if (!adminCheck.isAdmin) return c.json({ error: "Não autorizado" }, 401);
+    var body = await c.req.json();
+    // Input validation for warranty plan create
+    var wpValid = validate(body, {
+      name: { required: true, type: "string", minLen: 1, maxLen: 200 },
+      description: { type: "string", maxLen: 1000 },
+      durationMonths: { type: "number", min: 1, max: 120 },
       priceType: { type: "string", maxLen: 20, oneOf: ["fixed", "percentage"] },
       priceValue: { required: true, type: "number", min: 0.01, max: 999999 },
       active: { type: "boolean" },
@@ -25449,22 +30643,312 @@ app.get(BASE + "/warranty/product/:sku", async (c: any) => {
   }
 });
 
-// ═══════════════════════════════════════════════════════════════════════
-// ─── SISTEMA DE AFILIADOS ─────────────────────────────────────────────
-// ═══════════════════════════════════════════════════════════════════════
-
+// ─── Acionamento de garantia (claims) ───
+// Registro das garantias vendidas: derivado de user_order (ver warranty.ts), entao
+// reembolsos/cancelamentos caducam a garantia sem nenhuma escrita extra.
 // KV keys:
-// affiliate:{id}            — affiliate profile (userId = id)
-// affiliate_index           — JSON array of all affiliate IDs
-// affiliate_code:{code}     — maps referral code → userId
-// affiliate_commission:{affId}:{orderId} — commission record
-// affiliate_config          — global settings
+// warranty_claim:{id}              — acionamento (maquina de estados em warranty.ts)
+// warranty_claim_user_ids:{userId} — ids dos acionamentos do cliente
+// warranty_claim_all_ids           — ids de todos os acionamentos (fila do admin)
 
-function _generateAffiliateCode(): string {
+function _warrantyClaimId(): string {
   var chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
-  var code = "";
-  for (var i = 0; i < 8; i++) {
-    code = code + chars.charAt(Math.floor(Math.random() * chars.length));
+  var suffix = "";
+  for (var i = 0; i < 4; i++) suffix = suffix + chars.charAt(Math.floor(Math.random() * chars.length));
+  return "WC-" + Date.now().toString(36).toUpperCase() + suffix;
+}
+
+async function _loadWarrantyClaims(idsKey: string): Promise<any[]> {
+  var ids = await _getRmaIds(idsKey);
+  if (ids.length === 0) return [];
+  var rows = await kv.mget(ids.map(function (id) { return "warranty_claim:" + id; }));
+  var out: any[] = [];
+  for (var j = 0; j < rows.length; j++) {
+    if (!rows[j]) continue;
+    try { out.push(typeof rows[j] === "string" ? JSON.parse(rows[j]) : rows[j]); } catch (_e) { /* skip */ }
+  }
+  out.sort(function (a, b) { return a.createdAt < b.createdAt ? 1 : -1; });
+  return out;
+}
+
+async function _loadWarrantyClaim(id: string): Promise<any> {
+  if (!id || !/^WC-[A-Z0-9]{4,30}$/.test(id)) return null;
+  var raw = await kv.get("warranty_claim:" + id);
+  if (!raw) return null;
+  return typeof raw === "string" ? JSON.parse(raw) : raw;
+}
+
+async function _saveWarrantyClaim(claim: any): Promise<void> {
+  await kv.set("warranty_claim:" + claim.id, JSON.stringify(claim));
+}
+
+/** Current state of the warranty behind a claim (re-read from the order, so refunds show up) */
+async function _claimWarranty(claim: any): Promise<WarrantyEntry | null> {
+  var raw = await kv.get("user_order:" + claim.userId + ":" + claim.orderId);
+  if (!raw) return null;
+  var order = typeof raw === "string" ? JSON.parse(raw) : raw;
+  var entries = orderWarranties(order, Date.now());
+  for (var i = 0; i < entries.length; i++) if (entries[i].certificateId === claim.certificateId) return entries[i];
+  return null;
+}
+
+// GET /user/warranties — garantias compradas pelo cliente + acionamentos
+app.get(BASE + "/user/warranties", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var orders = await kv.getByPrefix("user_order:" + userId + ":");
+    var now = Date.now();
+    var warranties: WarrantyEntry[] = [];
+    for (var i = 0; i < orders.length; i++) {
+      try {
+        var order = typeof orders[i] === "string" ? JSON.parse(orders[i]) : orders[i];
+        if (order) warranties = warranties.concat(orderWarranties(order, now));
+      } catch (_e) { /* skip */ }
+    }
+    warranties.sort(function (a, b) { return a.startsAt < b.startsAt ? 1 : -1; });
+    var claims = await _loadWarrantyClaims("warranty_claim_user_ids:" + userId);
+    return c.json({ warranties: warranties, claims: claims.map(publicClaim) });
+  } catch (e) {
+    console.error("[warranty] User list error: " + String(e));
+    return c.json({ error: "Erro ao carregar garantias." }, 500);
+  }
+});
+
+// POST /user/warranty-claims — { certificateId, description } aciona uma garantia vigente
+app.post(BASE + "/user/warranty-claims", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var wcRl = _getRateLimitKey(c, "warranty_claim_create");
+    var wcRlResult = _checkRateLimit(wcRl, 5);
+    if (!wcRlResult.allowed) return _rl429(c, "Muitas tentativas. Aguarde.", wcRlResult);
+
+    var body = await c.req.json();
+    var wcValid = validate(body, {
+      certificateId: { required: true, type: "string", maxLen: 120, pattern: /^GE-[a-zA-Z0-9_\-]+-\d{3}$/ },
+      description: { required: true, type: "string", minLen: 10, maxLen: 2000 },
+    });
+    if (!wcValid.ok) return c.json({ error: wcValid.errors[0] || "Dados invalidos." }, 400);
+    var certificateId = String(wcValid.sanitized.certificateId);
+    var orderId = certificateId.substring(3, certificateId.length - 4);
+
+    return await withMutex("warranty_claim_cert:" + userId + ":" + certificateId, async function () {
+      var orderRaw = await kv.get("user_order:" + userId + ":" + orderId);
+      if (!orderRaw) return c.json({ error: "Garantia nao encontrada." }, 404);
+      var order = typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw;
+      var entries = orderWarranties(order, Date.now());
+      var entry: WarrantyEntry | null = null;
+      for (var i = 0; i < entries.length; i++) if (entries[i].certificateId === certificateId) entry = entries[i];
+
+      var userClaims = await _loadWarrantyClaims("warranty_claim_user_ids:" + userId);
+      var notEligible = checkClaimEligibility(entry, userClaims);
+      if (notEligible || !entry) return c.json({ error: notEligible }, entry ? 409 : 404);
+
+      var now = new Date().toISOString();
+      var userEmail = await _getUserEmailById(userId);
+      var claim: any = {
+        id: _warrantyClaimId(),
+        certificateId: certificateId,
+        orderId: orderId,
+        userId: userId,
+        userEmail: userEmail || "",
+        userName: (order.shippingAddress && order.shippingAddress.name) || userEmail || "",
+        sku: entry.sku,
+        titulo: entry.titulo,
+        planId: entry.planId,
+        planName: entry.planName,
+        expiresAt: entry.expiresAt,
+        description: wcValid.sanitized.description,
+        status: "submitted",
+        history: [{ from: null, to: "submitted", at: now, by: { type: "customer", id: userId } }],
+        createdAt: now,
+        updatedAt: now,
+      };
+      await _saveWarrantyClaim(claim);
+
+      var userIds = await _getRmaIds("warranty_claim_user_ids:" + userId);
+      userIds.push(claim.id);
+      await kv.set("warranty_claim_user_ids:" + userId, JSON.stringify(userIds));
+      var allIds = await _getRmaIds("warranty_claim_all_ids");
+      allIds.push(claim.id);
+      await kv.set("warranty_claim_all_ids", JSON.stringify(allIds));
+
+      return c.json({ ok: true, claim: publicClaim(claim) });
+    });
+  } catch (e) {
+    console.error("[warranty] Claim create error: " + String(e));
+    return c.json({ error: "Erro ao acionar garantia." }, 500);
+  }
+});
+
+// POST /user/warranty-claims/:id/cancel — cliente desiste antes da analise
+app.post(BASE + "/user/warranty-claims/:id/cancel", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var claim = await _loadWarrantyClaim(c.req.param("id"));
+    if (!claim || claim.userId !== userId) return c.json({ error: "Acionamento nao encontrado." }, 404);
+    var tr = transitionClaim(claim, "cancelled", { type: "customer", id: userId }, "Cancelado pelo cliente");
+    if (!tr.ok) return c.json({ error: "Este acionamento nao pode mais ser cancelado." }, 409);
+    await _saveWarrantyClaim(claim);
+    return c.json({ ok: true, claim: publicClaim(claim) });
+  } catch (e) {
+    console.error("[warranty] Claim cancel error: " + String(e));
+    return c.json({ error: "Erro ao cancelar acionamento." }, 500);
+  }
+});
+
+// GET /admin/warranty/registry?status= — todas as garantias vendidas (active | expired | lapsed)
+app.get(BASE + "/admin/warranty/registry", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var statusFilter = c.req.query("status") || "";
+    var orders = await kv.getByPrefix("user_order:");
+    var now = Date.now();
+    var warranties: WarrantyEntry[] = [];
+    var counts = { active: 0, expired: 0, lapsed: 0 };
+    for (var i = 0; i < orders.length; i++) {
+      try {
+        var order = typeof orders[i] === "string" ? JSON.parse(orders[i]) : orders[i];
+        if (!order || !order.createdBy) continue;
+        var entries = orderWarranties(order, now);
+        for (var k = 0; k < entries.length; k++) {
+          counts[entries[k].status]++;
+          if (!statusFilter || statusFilter === "all" || entries[k].status === statusFilter) warranties.push(entries[k]);
+        }
+      } catch (_e) { /* skip */ }
+    }
+    warranties.sort(function (a, b) { return a.startsAt < b.startsAt ? 1 : -1; });
+    return c.json({ warranties: warranties, total: warranties.length, counts: counts });
+  } catch (e) {
+    console.error("[Admin warranty] Registry error: " + String(e));
+    return c.json({ error: "Erro ao carregar garantias vendidas." }, 500);
+  }
+});
+
+// GET /admin/warranty/claims?status= — fila de acionamentos ("open" = em andamento)
+app.get(BASE + "/admin/warranty/claims", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var statusFilter = c.req.query("status") || "";
+    var claims = await _loadWarrantyClaims("warranty_claim_all_ids");
+    if (statusFilter === "open") claims = claims.filter(isWarrantyClaimOpen);
+    else if (statusFilter && statusFilter !== "all") claims = claims.filter(function (w) { return w.status === statusFilter; });
+    return c.json({ claims: claims, total: claims.length });
+  } catch (e) {
+    console.error("[Admin warranty] Claims list error: " + String(e));
+    return c.json({ error: "Erro ao carregar acionamentos." }, 500);
+  }
+});
+
+// POST /admin/warranty/claims/:id/decision — { action: "approve" | "deny", note }
+app.post(BASE + "/admin/warranty/claims/:id/decision", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var decValid = validate(body, {
+      action: { required: true, type: "string", maxLen: 10, oneOf: ["approve", "deny"] },
+      note: { type: "string", maxLen: 500 },
+    });
+    if (!decValid.ok) return c.json({ error: decValid.errors[0] || "Dados invalidos." }, 400);
+    var note = decValid.sanitized.note || "";
+    if (decValid.sanitized.action === "deny" && !note) return c.json({ error: "Informe o motivo da recusa." }, 400);
+
+    var claim = await _loadWarrantyClaim(c.req.param("id"));
+    if (!claim) return c.json({ error: "Acionamento nao encontrado." }, 404);
+    if (decValid.sanitized.action === "approve") {
+      var entry = await _claimWarranty(claim);
+      if (!entry || entry.status === "lapsed") {
+        return c.json({ error: "A garantia deste acionamento foi cancelada" + (entry && entry.lapsedReason ? " (" + entry.lapsedReason.toLowerCase() + ")" : "") + ". Recuse o acionamento." }, 409);
+      }
+    }
+    var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+    var tr = transitionClaim(claim, decValid.sanitized.action === "approve" ? "approved" : "denied", actor, note || undefined);
+    if (!tr.ok) return c.json({ error: tr.error, allowed: tr.allowed }, 409);
+    await _saveWarrantyClaim(claim);
+    return c.json({ ok: true, claim: claim });
+  } catch (e) {
+    console.error("[Admin warranty] Claim decision error: " + String(e));
+    return c.json({ error: "Erro ao registrar decisao." }, 500);
+  }
+});
+
+// POST /admin/warranty/claims/:id/replacement — { sku?, trackingCode?, carrierName?, note } envio da peca/produto de reposicao
+app.post(BASE + "/admin/warranty/claims/:id/replacement", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var repValid = validate(body, {
+      sku: { type: "string", maxLen: 100 },
+      trackingCode: { type: "string", maxLen: 60 },
+      carrierName: { type: "string", maxLen: 100 },
+      note: { type: "string", maxLen: 500 },
+    });
+    if (!repValid.ok) return c.json({ error: repValid.errors[0] || "Dados invalidos." }, 400);
+    var claim = await _loadWarrantyClaim(c.req.param("id"));
+    if (!claim) return c.json({ error: "Acionamento nao encontrado." }, 404);
+    var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+    var tr = transitionClaim(claim, "replacement_sent", actor, repValid.sanitized.note || undefined);
+    if (!tr.ok) return c.json({ error: tr.error, allowed: tr.allowed }, 409);
+    claim.replacement = {
+      sku: String(repValid.sanitized.sku || claim.sku).trim(),
+      trackingCode: String(repValid.sanitized.trackingCode || "").trim() || null,
+      carrierName: String(repValid.sanitized.carrierName || "").trim() || null,
+      sentAt: claim.updatedAt,
+      sentBy: userId,
+    };
+    await _saveWarrantyClaim(claim);
+    return c.json({ ok: true, claim: claim });
+  } catch (e) {
+    console.error("[Admin warranty] Claim replacement error: " + String(e));
+    return c.json({ error: "Erro ao registrar envio de reposicao." }, 500);
+  }
+});
+
+// POST /admin/warranty/claims/:id/resolve — { note } encerra (reposicao entregue, reparo ou credito)
+app.post(BASE + "/admin/warranty/claims/:id/resolve", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var resValid = validate(body, {
+      note: { type: "string", maxLen: 500 },
+    });
+    if (!resValid.ok) return c.json({ error: resValid.errors[0] || "Dados invalidos." }, 400);
+    var claim = await _loadWarrantyClaim(c.req.param("id"));
+    if (!claim) return c.json({ error: "Acionamento nao encontrado." }, 404);
+    var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+    var tr = transitionClaim(claim, "resolved", actor, resValid.sanitized.note || undefined);
+    if (!tr.ok) return c.json({ error: tr.error, allowed: tr.allowed }, 409);
+    await _saveWarrantyClaim(claim);
+    return c.json({ ok: true, claim: claim });
+  } catch (e) {
+    console.error("[Admin warranty] Claim resolve error: " + String(e));
+    return c.json({ error: "Erro ao encerrar acionamento." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// ─── SISTEMA DE AFILIADOS ─────────────────────────────────────────────
+// ═══════════════════════════════════════════════════════════════════════
+
+// KV keys:
+// affiliate:{id}            — affiliate profile (userId = id)
+// affiliate_index           — JSON array of all affiliate IDs
+// affiliate_code:{code}     — maps referral code → userId
+// affiliate_commission:{affId}:{orderId} — commission record
+// affiliate_config          — global settings
+
+function _generateAffiliateCode(): string {
+  var chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  var code = "";
+  for (var i = 0; i < 8; i++) {
+    code = code + chars.charAt(Math.floor(Math.random() * chars.length));
   }
   return code;
 }
@@ -26055,6 +31539,63 @@ app.put(BASE + "/admin/sisfrete-wt/config", async function (c) {
   }
 });
 
+// Fills pedido.produtos with real weight/dimensions from KV/SIGE (SisFrete rejects
+// zero peso/dims), posts the pedidos and stores sisfrete_wt_order:{numeroDoPedido}.
+async function _sendSisfreteWTPedidos(cfg: any, pedidos: any[], userId: string): Promise<{ ok: boolean; status: number; data: any }> {
+  var _shpCfg: any = (await kv.get("shipping_config")) || { defaultWeight: 1 };
+  var _defW = (_shpCfg as any).defaultWeight || 1;
+  for (var _pi = 0; _pi < pedidos.length; _pi++) {
+    var _ped = pedidos[_pi];
+    if (!Array.isArray(_ped.produtos) || _ped.produtos.length === 0) continue;
+    var _physFetches: Promise<any>[] = [];
+    for (var _pri = 0; _pri < _ped.produtos.length; _pri++) {
+      _physFetches.push(fetchProductPhysicalData(_ped.produtos[_pri].codigo || "", _defW));
+    }
+    var _physResults = await Promise.allSettled(_physFetches);
+    for (var _pri2 = 0; _pri2 < _ped.produtos.length; _pri2++) {
+      var _phys = _physResults[_pri2].status === "fulfilled" ? (_physResults[_pri2] as any).value : null;
+      if (_phys) {
+        // Always apply weight (use real data or defaultWeight fallback)
+        _ped.produtos[_pri2].peso = _phys.weight || _ped.produtos[_pri2].peso || _defW;
+        // Apply dimensions when real data exists (source !== "default")
+        if (_phys._source !== "default") {
+          if (_phys.length > 0) _ped.produtos[_pri2].comprimento = _phys.length;
+          if (_phys.width > 0) _ped.produtos[_pri2].largura = _phys.width;
+          if (_phys.height > 0) _ped.produtos[_pri2].altura = _phys.height;
+        }
+      }
+      // Ensure minimum values — SisFrete rejects zero peso/dims
+      _ped.produtos[_pri2].peso = _ped.produtos[_pri2].peso || _defW;
+      var _cl = _ped.produtos[_pri2].comprimento || 20;
+      var _cw = _ped.produtos[_pri2].largura || 15;
+      var _ch = _ped.produtos[_pri2].altura || 10;
+      _ped.produtos[_pri2].comprimento = _cl;
+      _ped.produtos[_pri2].largura = _cw;
+      _ped.produtos[_pri2].altura = _ch;
+      _ped.produtos[_pri2].cubicoIndividual = parseFloat(((_cl * _cw * _ch) / 1000000).toFixed(6));
+      _ped.produtos[_pri2].cubicoComFator = parseFloat(((_cl * _cw * _ch) / 1000000 * 300).toFixed(4));
+    }
+  }
+  // SisFrete-WT: sending pedidos (enriched with real physical data)
+  var sisRes = await fetch(SISFRETE_WT_BASE + "/pedidos", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Token-API": cfg.apiToken },
+    body: JSON.stringify({ data: pedidos }),
+    signal: AbortSignal.timeout(30000),
+  });
+  var sisText = await sisRes.text();
+  var sisData: any = {};
+  try { sisData = JSON.parse(sisText); } catch (pe) { sisData = { raw: sisText }; }
+  if (sisRes.ok) {
+    for (var sp = 0; sp < pedidos.length; sp++) {
+      var ped = pedidos[sp];
+      var wtKey = "sisfrete_wt_order:" + (ped.numeroDoPedido || "unknown_" + Date.now() + "_" + sp);
+      await kv.set(wtKey, JSON.stringify({ sentAt: new Date().toISOString(), sentBy: userId, pedido: ped, response: sisData.data ? sisData.data[sp] : null, status: "sent" }));
+    }
+  }
+  return { ok: sisRes.ok, status: sisRes.status, data: sisData };
+}
+
 app.post(BASE + "/admin/sisfrete-wt/send-order", async function (c) {
   try {
     var userId = await getAuthUserId(c.req.raw);
@@ -26070,61 +31611,11 @@ app.post(BASE + "/admin/sisfrete-wt/send-order", async function (c) {
     if (JSON.stringify(body).length > 500000) return c.json({ error: "Payload excede o tamanho maximo." }, 400);
     var pedidos = body.pedidos;
     if (!Array.isArray(pedidos) || pedidos.length === 0) return c.json({ error: "Nenhum pedido informado." }, 400);
-    // ── Enrich pedido.produtos with real weight/dimensions from KV/SIGE ──
-    var _shpCfg: any = (await kv.get("shipping_config")) || { defaultWeight: 1 };
-    var _defW = (_shpCfg as any).defaultWeight || 1;
-    for (var _pi = 0; _pi < pedidos.length; _pi++) {
-      var _ped = pedidos[_pi];
-      if (!Array.isArray(_ped.produtos) || _ped.produtos.length === 0) continue;
-      var _physFetches: Promise<any>[] = [];
-      for (var _pri = 0; _pri < _ped.produtos.length; _pri++) {
-        _physFetches.push(fetchProductPhysicalData(_ped.produtos[_pri].codigo || "", _defW));
-      }
-      var _physResults = await Promise.allSettled(_physFetches);
-      for (var _pri2 = 0; _pri2 < _ped.produtos.length; _pri2++) {
-        var _phys = _physResults[_pri2].status === "fulfilled" ? (_physResults[_pri2] as any).value : null;
-        if (_phys) {
-          // Always apply weight (use real data or defaultWeight fallback)
-          _ped.produtos[_pri2].peso = _phys.weight || _ped.produtos[_pri2].peso || _defW;
-          // Apply dimensions when real data exists (source !== "default")
-          if (_phys._source !== "default") {
-            if (_phys.length > 0) _ped.produtos[_pri2].comprimento = _phys.length;
-            if (_phys.width > 0) _ped.produtos[_pri2].largura = _phys.width;
-            if (_phys.height > 0) _ped.produtos[_pri2].altura = _phys.height;
-          }
-        }
-        // Ensure minimum values — SisFrete rejects zero peso/dims
-        _ped.produtos[_pri2].peso = _ped.produtos[_pri2].peso || _defW;
-        var _cl = _ped.produtos[_pri2].comprimento || 20;
-        var _cw = _ped.produtos[_pri2].largura || 15;
-        var _ch = _ped.produtos[_pri2].altura || 10;
-        _ped.produtos[_pri2].comprimento = _cl;
-        _ped.produtos[_pri2].largura = _cw;
-        _ped.produtos[_pri2].altura = _ch;
-        _ped.produtos[_pri2].cubicoIndividual = parseFloat(((_cl * _cw * _ch) / 1000000).toFixed(6));
-        _ped.produtos[_pri2].cubicoComFator = parseFloat(((_cl * _cw * _ch) / 1000000 * 300).toFixed(4));
-      }
-    }
-    // SisFrete-WT: sending pedidos (enriched with real physical data)
-    var sisRes = await fetch(SISFRETE_WT_BASE + "/pedidos", {
-      method: "POST",
-      headers: { "Content-Type": "application/json", "Token-API": cfg.apiToken },
-      body: JSON.stringify({ data: pedidos }),
-      signal: AbortSignal.timeout(30000),
-    });
-    var sisText = await sisRes.text();
-    // SisFrete-WT: pedidos response received
-    var sisData: any = {};
-    try { sisData = JSON.parse(sisText); } catch (pe) { sisData = { raw: sisText }; }
-    if (sisRes.ok) {
-      for (var sp = 0; sp < pedidos.length; sp++) {
-        var ped = pedidos[sp];
-        var wtKey = "sisfrete_wt_order:" + (ped.numeroDoPedido || "unknown_" + Date.now() + "_" + sp);
-        await kv.set(wtKey, JSON.stringify({ sentAt: new Date().toISOString(), sentBy: userId, pedido: ped, response: sisData.data ? sisData.data[sp] : null, status: "sent" }));
-      }
-      return c.json({ success: true, data: sisData });
+    var sent = await _sendSisfreteWTPedidos(cfg, pedidos, userId);
+    if (sent.ok) {
+      return c.json({ success: true, data: sent.data });
     } else {
-      return c.json({ success: false, error: "SisFrete API retornou HTTP " + sisRes.status, data: sisData }, sisRes.status >= 500 ? 502 : 400);
+      return c.json({ success: false, error: "SisFrete API retornou HTTP " + sent.status, data: sent.data }, sent.status >= 500 ? 502 : 400);
     }
   } catch (e: any) {
     console.error("[SisFrete-WT] send-order error: " + e);
@@ -26401,100 +31892,1036 @@ app.get(BASE + "/admin/sisfrete-delivery/deliverymen", async function (c) {
     var list = listRaw ? JSON.parse(listRaw) : [];
     return c.json({ deliverymen: list, total: list.length });
   } catch (e) {
-    console.error("[SisFrete Delivery] deliverymen GET error: " + String(e));
-    return c.json({ error: "Erro ao listar entregadores." }, 500);
+    console.error("[SisFrete Delivery] deliverymen GET error: " + String(e));
+    return c.json({ error: "Erro ao listar entregadores." }, 500);
+  }
+});
+
+// GET /admin/sisfrete-delivery/deliveryman-details — from SisFrete API
+app.get(BASE + "/admin/sisfrete-delivery/deliveryman-details", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var isAdmin = await checkAdmin(userId);
+    if (!isAdmin) return c.json({ error: "Acesso negado." }, 403);
+    var raw = await kv.get("sisfrete_delivery_config");
+    if (!raw) return c.json({ error: "Config SisFrete Delivery nao encontrada." }, 400);
+    var cfg = JSON.parse(raw);
+    if (!cfg.apiToken) return c.json({ error: "Token SisFrete Delivery nao configurado." }, 400);
+    var res = await fetch("https://sisfrete-delivery.persys.eti.br/api/deliveryman", {
+      method: "GET",
+      headers: { "Authorization-API": cfg.apiToken, "Accept": "*/*" },
+      signal: AbortSignal.timeout(15000),
+    });
+    var resText = await res.text();
+    // SisFrete Delivery: details response received
+    var resData = null;
+    try { resData = JSON.parse(resText); } catch (_e) { resData = resText; }
+    if (res.ok) return c.json({ success: true, data: resData });
+    return c.json({ success: false, status: res.status, error: resData }, res.status);
+  } catch (e) {
+    console.error("[SisFrete Delivery] deliveryman-details error: " + String(e));
+    return c.json({ error: "Erro ao consultar detalhes do entregador." }, 500);
+  }
+});
+
+// PUT /admin/sisfrete-delivery/change-password
+app.put(BASE + "/admin/sisfrete-delivery/change-password", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var isAdmin = await checkAdmin(userId);
+    if (!isAdmin) return c.json({ error: "Acesso negado." }, 403);
+    var raw = await kv.get("sisfrete_delivery_config");
+    if (!raw) return c.json({ error: "Config SisFrete Delivery nao encontrada." }, 400);
+    var cfg = JSON.parse(raw);
+    if (!cfg.apiToken) return c.json({ error: "Token SisFrete Delivery nao configurado." }, 400);
+    var body = await c.req.json();
+    // Input validation for change password
+    var chPwdValid = validate(body, {
+      password: { required: true, type: "string", maxLen: 200, sanitize: false },
+      passwordNew: { required: true, type: "string", minLen: 4, maxLen: 200, sanitize: false },
+    });
+    if (!chPwdValid.ok) return c.json({ error: chPwdValid.errors[0] || "Dados invalidos." }, 400);
+    var payload = { password: String(body.password || ""), passwordNew: String(body.passwordNew || "") };
+    // SisFrete Delivery: changing password
+    var res = await fetch("https://sisfrete-delivery.persys.eti.br/api/deliveryman/change_password", {
+      method: "PUT",
+      headers: { "Authorization-API": cfg.apiToken, "Content-Type": "application/json", "Accept": "*/*" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(15000),
+    });
+    var resText = await res.text();
+    // SisFrete Delivery: change password response received
+    var resData = null;
+    try { resData = JSON.parse(resText); } catch (_e) { resData = resText; }
+    if (res.ok) return c.json({ success: true, data: resData });
+    return c.json({ success: false, status: res.status, error: resData }, res.status);
+  } catch (e) {
+    console.error("[SisFrete Delivery] change-password error: " + String(e));
+    return c.json({ error: "Erro ao alterar senha do entregador." }, 500);
+  }
+});
+
+// DELETE /admin/sisfrete-delivery/deliveryman — remove from local list
+app.delete(BASE + "/admin/sisfrete-delivery/deliveryman", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var isAdmin = await checkAdmin(userId);
+    if (!isAdmin) return c.json({ error: "Acesso negado." }, 403);
+    var body = await c.req.json();
+    // Input validation for deliveryman delete
+    var dlvDelValid = validate(body, {
+      document: { required: true, type: "string", maxLen: 20 },
+    });
+    if (!dlvDelValid.ok) return c.json({ error: dlvDelValid.errors[0] || "Document obrigatorio." }, 400);
+    var docToRemove = String(body.document || "").replace(/\D/g, "");
+    if (!docToRemove) return c.json({ error: "Document obrigatorio." }, 400);
+    var listRaw = await kv.get("sisfrete_delivery_deliverymen");
+    var list = listRaw ? JSON.parse(listRaw) : [];
+    var newList = list.filter(function (d: any) { return d.document !== docToRemove; });
+    await kv.set("sisfrete_delivery_deliverymen", JSON.stringify(newList));
+    return c.json({ success: true, removed: list.length - newList.length });
+  } catch (e) {
+    console.error("[SisFrete Delivery] delete deliveryman error: " + String(e));
+    return c.json({ error: "Erro ao remover entregador." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════
+// ─── REEMBOLSOS DE PEDIDO ──────────────────────────────
+// ═══════════════════════════════════════════════════════
+// user_order.refunds[]     — { id, amount, provider, manual, status?, providerRefundId?, items?, shipping?,
+//                              rmaId?, note?, idempotencyKey, at, by, confirmedAt?, confirmedBy? }
+// user_order.refundedTotal — soma dos reembolsos confirmados (receita liquida = total - refundedTotal)
+// Manuais (status "pending_manual") ficam fora de refundedTotal ate o admin
+// confirmar a transferencia em POST /admin/orders/refund/confirm.
+// Calculo dos modos full/amount/items em refunds.ts.
+// PAYMENT_REFUND_MOCK=true (fora de producao) troca Mercado Pago/PagHiper pelo provedor simulado.
+
+var REFUND_MOCK = !IS_PRODUCTION && (Deno.env.get("PAYMENT_REFUND_MOCK") || "").toLowerCase() === "true";
+
+/**
+ * Refunds `amount` (BRL) of an order's payment. Card payments go through the
+ * Mercado Pago refunds API; PagHiper (PIX/boleto) only cancels unpaid charges,
+ * so for paid ones the store sends the money itself and the refund is recorded
+ * as manual (pending until the admin confirms the transfer). With REFUND_MOCK
+ * every refund goes to the offline mock provider.
+ */
+async function _refundOrderPayment(order: any, amount: number, idempotencyKey: string): Promise<ProviderRefundResult> {
+  if (REFUND_MOCK) return mockProviderRefund(order, amount, idempotencyKey);
+  var method = String(order.paymentMethod || "");
+  if (method === "cartao_credito" || method === "credit_card" || method === "mercadopago") {
+    var mpId = order.mpPaymentId || order.mp_payment_id || order.paymentId;
+    if (!mpId) return { ok: false, provider: "mercadopago", manual: false, error: "Pedido sem mpPaymentId — reembolse pelo painel do Mercado Pago." };
+    var mpCreds = await getMPCredentials();
+    if (!mpCreds) return { ok: false, provider: "mercadopago", manual: false, error: "Mercado Pago nao configurado." };
+    var mpRes = await mpApiFetch("/v1/payments/" + encodeURIComponent(String(mpId)) + "/refunds", mpCreds.accessToken, {
+      method: "POST",
+      body: { amount: Math.round(amount * 100) / 100 },
+      idempotencyKey: idempotencyKey,
+    });
+    if (!mpRes.ok) {
+      var mpErr = (mpRes.json && (mpRes.json.message || mpRes.json.error)) || ("HTTP " + mpRes.status);
+      console.error("[Refund] Mercado Pago refund failed for " + order.localOrderId + ": " + mpErr);
+      return { ok: false, provider: "mercadopago", manual: false, error: "Mercado Pago recusou o reembolso: " + mpErr };
+    }
+    return { ok: true, provider: "mercadopago", manual: false, providerRefundId: mpRes.json && mpRes.json.id ? String(mpRes.json.id) : undefined };
+  }
+  return { ok: true, provider: method === "pix" || method === "boleto" ? "paghiper" : "manual", manual: true };
+}
+
+/** Escapes LIKE wildcards (%, _) and the escape char itself in a literal part of a pattern */
+function _escapeLike(text: string): string {
+  return String(text).replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Reduces the affiliate commission of a refunded order. Unpaid commissions are
+ * recalculated over the remaining order value (rejected when nothing remains);
+ * paid ones keep their value and accumulate clawbackValue for the next payout.
+ */
+async function _adjustAffiliateCommissionsForRefund(orderId: string, refundAmount: number, ref: string): Promise<void> {
+  var commRes = await supabaseAdmin.from("kv_store_b7b07654").select("key, value").like("key", "affiliate_commission:%:" + _escapeLike(orderId));
+  var rows = (commRes.data || []) as Array<{ key: string; value: any }>;
+  for (var i = 0; i < rows.length; i++) {
+    try {
+      var comm = typeof rows[i].value === "string" ? JSON.parse(rows[i].value) : rows[i].value;
+      if (!comm || comm.orderId !== orderId || comm.status === "rejected") continue;
+      if (!Array.isArray(comm.adjustments)) comm.adjustments = [];
+      // Same refund again (retry after the order save was lost): never claw back twice
+      if (comm.adjustments.some(function (a: any) { return a && a.ref === ref; })) continue;
+      comm.refundedTotal = Math.round(((comm.refundedTotal || 0) + refundAmount) * 100) / 100;
+      var newValue = Math.round(Math.max(0, (comm.orderTotal || 0) - comm.refundedTotal) * (comm.commissionPercent || 0)) / 100;
+      var current = (comm.commissionValue || 0) - (comm.status === "paid" ? comm.clawbackValue || 0 : 0);
+      var delta = Math.round((current - newValue) * 100) / 100;
+      comm.adjustments.push({ ref: ref, refundAmount: refundAmount, delta: delta > 0 ? -delta : 0, at: Date.now() });
+      if (delta > 0) {
+        if (comm.status === "paid") {
+          comm.clawbackValue = Math.round(((comm.clawbackValue || 0) + delta) * 100) / 100;
+        } else {
+          comm.commissionValue = newValue;
+          if (newValue <= 0) comm.status = "rejected";
+          var aff = await _getAffiliateById(comm.affiliateId);
+          if (aff) {
+            aff.totalCommission = Math.max(0, Math.round(((aff.totalCommission || 0) - delta) * 100) / 100);
+            if (newValue <= 0) aff.totalConversions = Math.max(0, (aff.totalConversions || 0) - 1);
+            aff.updatedAt = Date.now();
+            await _saveAffiliate(aff);
+          }
+        }
+      }
+      comm.updatedAt = Date.now();
+      await kv.set(rows[i].key, JSON.stringify(comm));
+    } catch (e) {
+      console.error("[Refund] Commission adjust error (" + rows[i].key + "): " + String(e));
+    }
+  }
+}
+
+/**
+ * Refunds through the order's payment provider and records it on the order
+ * (refunds[], refundedTotal, PagHiper transaction status, affiliate commission).
+ * The caller saves the order. A repeated idempotencyKey returns the earlier record.
+ */
+async function _applyOrderRefund(
+  order: any,
+  plan: RefundPlan,
+  opts: { idempotencyKey: string; by: string; rmaId?: string; note?: string }
+): Promise<{ ok: true; record: any; duplicate: boolean } | { ok: false; error: string }> {
+  if (!Array.isArray(order.refunds)) order.refunds = [];
+  for (var i = 0; i < order.refunds.length; i++) {
+    if (order.refunds[i].idempotencyKey === opts.idempotencyKey) return { ok: true, record: order.refunds[i], duplicate: true };
+  }
+  var refund = await _refundOrderPayment(order, plan.amount, opts.idempotencyKey);
+  if (!refund.ok) return { ok: false, error: refund.error || "Falha ao reembolsar." };
+
+  var record: any = {
+    id: "rf_" + Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+    amount: plan.amount,
+    provider: refund.provider,
+    manual: refund.manual,
+    idempotencyKey: opts.idempotencyKey,
+    at: new Date().toISOString(),
+    by: opts.by,
+  };
+  if (refund.providerRefundId) record.providerRefundId = refund.providerRefundId;
+  if (plan.items && plan.items.length > 0) record.items = plan.items;
+  if (plan.shipping) record.shipping = true;
+  if (opts.rmaId) record.rmaId = opts.rmaId;
+  if (opts.note) record.note = opts.note;
+  // Nothing went through a provider: the balance is held, the totals wait for the admin
+  if (refund.manual) record.status = "pending_manual";
+  order.refunds.push(record);
+  order.updatedAt = new Date().toISOString();
+  if (!refund.manual) await _settleOrderRefund(order, record);
+  return { ok: true, record: record, duplicate: false };
+}
+
+/**
+ * Counts a refund that left the store: refundedTotal, PagHiper transaction
+ * status and affiliate commission. Runs right after a provider refund, and for
+ * manual ones when the admin confirms the transfer.
+ */
+async function _settleOrderRefund(order: any, record: any): Promise<void> {
+  order.refundedTotal = Math.round(((Number(order.refundedTotal) || 0) + record.amount) * 100) / 100;
+  order.updatedAt = new Date().toISOString();
+
+  if (record.provider === "paghiper" && order.transactionId) {
+    try {
+      var txKey = "paghiper_tx_" + order.transactionId;
+      var txRaw = await kv.get(txKey);
+      if (txRaw) {
+        var tx = typeof txRaw === "string" ? JSON.parse(txRaw) : txRaw;
+        tx.status = orderFullyRefunded(order) ? "refunded" : "partially_refunded";
+        tx.refunded_cents = Math.round((Number(order.refundedTotal) || 0) * 100);
+        tx.status_updated_at = Date.now();
+        await kv.set(txKey, JSON.stringify(tx));
+      }
+    } catch (txErr) {
+      console.error("[Refund] PagHiper tx update error (non-fatal): " + String(txErr));
+    }
+  }
+  // The idempotency key is stable across retries of the same refund (record.id is not)
+  await _adjustAffiliateCommissionsForRefund(order.localOrderId, record.amount, record.idempotencyKey || record.id);
+}
+
+/**
+ * Saves the order once a refund left the provider (or was confirmed). With the
+ * lock held the whole order is written. If the lock was lost meanwhile the
+ * refund record is still merged into the latest copy (compare-and-swap): the
+ * money is gone either way, and an order without the record would send a retry
+ * with the same key through the provider and the commission clawback again.
+ * Returns false in that case (other changes to the order were not saved).
+ */
+async function _saveRefundedOrder(kvKey: string, order: any, record: any, lock: kvAtomic.KvLockHandle): Promise<boolean> {
+  if (lock.held()) {
+    await kv.set(kvKey, JSON.stringify(order));
+    return true;
+  }
+  console.error("[Refund] Lost the lock on " + kvKey + " after refund " + record.id + "; merging the record into the latest order");
+  await kv.update(kvKey, function (raw: any) {
+    if (!raw) return undefined;
+    var latest = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!Array.isArray(latest.refunds)) latest.refunds = [];
+    var at = -1;
+    for (var i = 0; i < latest.refunds.length; i++) if (latest.refunds[i].idempotencyKey === record.idempotencyKey) at = i;
+    var counted = at >= 0 && !isPendingManualRefund(latest.refunds[at]);
+    if (at >= 0) latest.refunds[at] = record;
+    else latest.refunds.push(record);
+    if (!counted && !isPendingManualRefund(record)) {
+      latest.refundedTotal = Math.round(((Number(latest.refundedTotal) || 0) + record.amount) * 100) / 100;
+    }
+    latest.updatedAt = new Date().toISOString();
+    return JSON.stringify(latest);
+  });
+  return false;
+}
+
+/** Full refund before shipping cancels the order; after shipping the status follows the return flow */
+async function _cancelFullyRefundedOrder(orderKey: string, order: any, actor: OrderActor, manual: boolean): Promise<void> {
+  if (!orderFullyRefunded(order)) return;
+  transitionOrder(order, "cancelled", actor, { note: "Reembolso integral" + (manual ? " (manual)" : "") });
+  await _syncOrderStock(orderKey, order);
+}
+
+// POST /admin/orders/refund — reembolso total, por valor ou por itens
+// { userId, localOrderId, mode: "full" | "amount" | "items", amount?, items?: [{ sku, quantidade }],
+//   includeShipping?, note?, requestId } — requestId e a chave de idempotencia (clique duplo nao reembolsa duas vezes)
+// preview: true → so calcula o valor (nada e reembolsado)
+app.post(BASE + "/admin/orders/refund", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var rfValid = validate(body, {
+      userId: { required: true, type: "string", maxLen: 200 },
+      localOrderId: { required: true, type: "string", maxLen: 200 },
+      mode: { required: true, type: "string", maxLen: 10, oneOf: REFUND_MODES },
+      amount: { type: "number", min: 0.01, max: 99999999 },
+      items: { type: "array", maxItems: 200 },
+      includeShipping: { type: "boolean" },
+      note: { type: "string", maxLen: 500 },
+      preview: { type: "boolean" },
+      requestId: { type: "string", minLen: 8, maxLen: 64, pattern: /^[A-Za-z0-9_-]+$/ },
+    });
+    if (!rfValid.ok) return c.json({ error: rfValid.errors[0] || "Dados invalidos." }, 400);
+    var v = rfValid.sanitized;
+    if (!v.preview && !v.requestId) return c.json({ error: "requestId obrigatorio." }, 400);
+    var kvKey = "user_order:" + v.userId + ":" + v.localOrderId;
+
+    return await withKvLock(kvKey, async function (lock) {
+      var existing = await kv.get(kvKey);
+      if (!existing) return c.json({ error: "Pedido nao encontrado." }, 404);
+      var order = typeof existing === "string" ? JSON.parse(existing) : existing;
+      var orderStatus = normalizeOrderStatus(order.status);
+      if (!orderStatus || (PURCHASED_ORDER_STATUSES.indexOf(orderStatus) === -1 && orderStatus !== "returned")) {
+        return c.json({ error: "So pedidos pagos podem ser reembolsados." }, 409);
+      }
+      var planned = planRefund(order, { mode: v.mode, amount: v.amount, items: v.items, includeShipping: v.includeShipping });
+      if (!planned.ok) return c.json({ error: planned.error }, 400);
+      if (v.preview) {
+        var method = String(order.paymentMethod || "");
+        var provider = REFUND_MOCK ? "mock"
+          : method === "cartao_credito" || method === "credit_card" || method === "mercadopago" ? "mercadopago"
+          : method === "pix" || method === "boleto" ? "paghiper" : "manual";
+        return c.json({ ok: true, preview: true, plan: planned.plan, refundable: orderRefundable(order), provider: provider, manual: provider === "paghiper" || provider === "manual" });
+      }
+
+      var adminEmail = await _getUserEmailById(userId);
+      var applied = await _applyOrderRefund(order, planned.plan, {
+        idempotencyKey: "order-refund-" + v.requestId,
+        by: userId,
+        note: v.note || undefined,
+      });
+      if (!applied.ok) return c.json({ error: applied.error }, 502);
+      if (applied.duplicate) return c.json({ ok: true, duplicate: true, refund: applied.record, refundedTotal: order.refundedTotal, statusHistory: order.statusHistory });
+
+      if (!isPendingManualRefund(applied.record)) {
+        await _cancelFullyRefundedOrder(kvKey, order, { type: "admin", id: userId, name: adminEmail }, applied.record.manual);
+      }
+      await _saveRefundedOrder(kvKey, order, applied.record, lock);
+      console.log("[Refund] " + v.localOrderId + ": R$ " + applied.record.amount.toFixed(2) + " via " + applied.record.provider + " by " + adminEmail);
+      return c.json({ ok: true, duplicate: false, refund: applied.record, refundedTotal: order.refundedTotal, statusHistory: order.statusHistory });
+    });
+  } catch (e) {
+    if (e instanceof kvAtomic.KvLockTimeoutError || e instanceof kvAtomic.KvLockLostError) return c.json({ error: "Pedido em atualizacao por outra operacao. Tente novamente." }, 409);
+    console.error("[Refund] Admin refund error: " + String(e));
+    return c.json({ error: "Erro ao reembolsar pedido." }, 500);
+  }
+});
+
+// POST /admin/orders/refund/confirm — { userId, localOrderId, refundId }
+// A loja transferiu o reembolso manual: entra em refundedTotal, comissao e status do pedido
+app.post(BASE + "/admin/orders/refund/confirm", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var cfValid = validate(body, {
+      userId: { required: true, type: "string", maxLen: 200 },
+      localOrderId: { required: true, type: "string", maxLen: 200 },
+      refundId: { required: true, type: "string", maxLen: 64 },
+    });
+    if (!cfValid.ok) return c.json({ error: cfValid.errors[0] || "Dados invalidos." }, 400);
+    var v = cfValid.sanitized;
+    var kvKey = "user_order:" + v.userId + ":" + v.localOrderId;
+
+    return await withKvLock(kvKey, async function (lock) {
+      var existing = await kv.get(kvKey);
+      if (!existing) return c.json({ error: "Pedido nao encontrado." }, 404);
+      var order = typeof existing === "string" ? JSON.parse(existing) : existing;
+      var refunds = Array.isArray(order.refunds) ? order.refunds : [];
+      var record = null;
+      for (var i = 0; i < refunds.length; i++) if (refunds[i].id === v.refundId) record = refunds[i];
+      if (!record) return c.json({ error: "Reembolso nao encontrado." }, 404);
+      if (!isPendingManualRefund(record)) return c.json({ error: "Este reembolso ja foi confirmado." }, 409);
+
+      var adminEmail = await _getUserEmailById(userId);
+      record.status = "confirmed";
+      record.confirmedAt = new Date().toISOString();
+      record.confirmedBy = userId;
+      await _settleOrderRefund(order, record);
+      if (!record.rmaId) await _cancelFullyRefundedOrder(kvKey, order, { type: "admin", id: userId, name: adminEmail }, true);
+      await _saveRefundedOrder(kvKey, order, record, lock);
+
+      if (record.rmaId) {
+        var rma = await _loadRma(record.rmaId);
+        if (rma) {
+          rma.refund = record;
+          rma.updatedAt = new Date().toISOString();
+          await _saveRma(rma);
+        }
+      }
+      console.log("[Refund] " + v.localOrderId + ": manual refund " + record.id + " (R$ " + record.amount.toFixed(2) + ") confirmed by " + adminEmail);
+      return c.json({ ok: true, refund: record, refundedTotal: order.refundedTotal, statusHistory: order.statusHistory });
+    });
+  } catch (e) {
+    if (e instanceof kvAtomic.KvLockTimeoutError || e instanceof kvAtomic.KvLockLostError) return c.json({ error: "Pedido em atualizacao por outra operacao. Tente novamente." }, 409);
+    console.error("[Refund] Confirm manual refund error: " + String(e));
+    return c.json({ error: "Erro ao confirmar reembolso." }, 500);
+  }
+});
+
+// ═══════════════════════════════════════════════════════
+// ─── TROCAS E DEVOLUCOES (RMA) ─────────────────────────
+// ═══════════════════════════════════════════════════════
+// KV keys:
+// rma:{id}              — solicitacao (estrutura e maquina de estados em rma.ts)
+// rma_user_ids:{userId} — ids das solicitacoes do cliente
+// rma_all_ids           — ids de todas as solicitacoes (fila do admin)
+// rma_config            — { sigeReturnTipoMv } tipo de movimento SIGE para devolucoes
+// user_order.rmaIds     — solicitacoes do pedido
+// user_order.refunds    — reembolsos (ver REEMBOLSOS DE PEDIDO); os de RMA levam rmaId
+
+var RMA_BUCKET = "make-b7b07654-rma";
+
+(async function () {
+  try {
+    var bkts = await supabaseAdmin.storage.listBuckets();
+    var bktList = bkts.data || [];
+    var exists = false;
+    for (var bi = 0; bi < bktList.length; bi++) {
+      if (bktList[bi].name === RMA_BUCKET) { exists = true; break; }
+    }
+    if (!exists) {
+      await supabaseAdmin.storage.createBucket(RMA_BUCKET, { public: false });
+    }
+  } catch (e) {
+    console.error("Error ensuring RMA bucket: " + String(e));
+  }
+})();
+
+function _rmaId(): string {
+  var chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  var suffix = "";
+  for (var i = 0; i < 4; i++) suffix = suffix + chars.charAt(Math.floor(Math.random() * chars.length));
+  return "RMA-" + Date.now().toString(36).toUpperCase() + suffix;
+}
+
+async function _getRmaIds(key: string): Promise<string[]> {
+  try {
+    var raw = await kv.get(key);
+    if (!raw) return [];
+    var parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+async function _loadRmas(ids: string[]): Promise<any[]> {
+  if (ids.length === 0) return [];
+  var keys: string[] = [];
+  for (var i = 0; i < ids.length; i++) keys.push("rma:" + ids[i]);
+  var rows = await kv.mget(keys);
+  var out: any[] = [];
+  for (var j = 0; j < rows.length; j++) {
+    if (!rows[j]) continue;
+    try { out.push(typeof rows[j] === "string" ? JSON.parse(rows[j]) : rows[j]); } catch (_e) { /* skip */ }
+  }
+  return out;
+}
+
+async function _loadRma(id: string): Promise<any> {
+  if (!id || !/^RMA-[A-Z0-9]{4,30}$/.test(id)) return null;
+  var raw = await kv.get("rma:" + id);
+  if (!raw) return null;
+  return typeof raw === "string" ? JSON.parse(raw) : raw;
+}
+
+async function _saveRma(rma: any): Promise<void> {
+  await kv.set("rma:" + rma.id, JSON.stringify(rma));
+}
+
+async function _signRmaPhotos(photos: any[]): Promise<any[]> {
+  if (!photos || photos.length === 0) return [];
+  var result = [];
+  for (var i = 0; i < photos.length; i++) {
+    var signed = "";
+    try {
+      var signRes = await supabaseAdmin.storage.from(RMA_BUCKET).createSignedUrl(photos[i].path, 3600);
+      if (signRes.data && signRes.data.signedUrl) signed = signRes.data.signedUrl;
+    } catch (e) { /* ignore */ }
+    result.push({ path: photos[i].path, signedUrl: signed, uploadedAt: photos[i].uploadedAt });
+  }
+  return result;
+}
+
+function _rmaOrderKey(rma: any): string {
+  return "user_order:" + rma.userId + ":" + rma.orderId;
+}
+
+/**
+ * Once the last open RMA of an order is closed, the order leaves "return_requested":
+ * → returned when every unit bought was refunded, → delivered otherwise
+ * (rejected/cancelled requests, exchanges, partial returns).
+ */
+async function _releaseOrderAfterRma(order: any, actor: any, note: string): Promise<void> {
+  if (normalizeOrderStatus(order.status) !== "return_requested") return;
+  var rmas = await _loadRmas(Array.isArray(order.rmaIds) ? order.rmaIds : []);
+  var unitsBought = 0;
+  var unitsRefunded = 0;
+  for (var i = 0; i < (order.items || []).length; i++) unitsBought += Number(order.items[i].quantidade) || 1;
+  for (var r = 0; r < rmas.length; r++) {
+    if (isRmaOpen(rmas[r])) return;
+    if (rmas[r].status !== "refunded") continue;
+    for (var k = 0; k < (rmas[r].items || []).length; k++) unitsRefunded += Number(rmas[r].items[k].quantidade) || 0;
+  }
+  var target: "returned" | "delivered" = unitsBought > 0 && unitsRefunded >= unitsBought ? "returned" : "delivered";
+  transitionOrder(order, target, actor, { note: note });
+}
+
+// SKU split strategy ("103716-347" → codProduto 103716, codRef 347), confirmed by GET /product/{id}/reference
+async function _resolveSigeItemRef(sku: string): Promise<{ codProduto: string; codRef: string }> {
+  var codProduto = sku;
+  var codRef = "0";
+  if (sku.indexOf("-") !== -1) {
+    codProduto = sku.substring(0, sku.lastIndexOf("-"));
+    codRef = sku.substring(sku.lastIndexOf("-") + 1);
+  }
+  try {
+    var refRes = await sigeAuthFetch("GET", "/product/" + encodeURIComponent(codProduto) + "/reference");
+    var refs = refRes.ok ? extractSigeArr(refRes.data) : [];
+    var match: any = null;
+    for (var i = 0; i < refs.length && !match; i++) { if (String(refs[i].codRef) === codRef) match = refs[i]; }
+    for (var j = 0; j < refs.length && !match; j++) { if (refs[j].status === "A") match = refs[j]; }
+    if (match && match.codRef !== undefined) return { codProduto: String(match.codProduto || codProduto), codRef: String(match.codRef) };
+  } catch (e) {
+    console.warn("[RMA] SIGE ref lookup failed for " + sku + ": " + String(e));
+  }
+  return { codProduto: codProduto, codRef: codRef };
+}
+
+/**
+ * Puts received items flagged `restock` back into stock. With rma_config.sigeReturnTipoMv
+ * set, a SIGE return movement (atlzSaldoV3) is created for them; otherwise the entry is
+ * left for the ERP team ("manual"). The cached balances are invalidated either way.
+ */
+async function _restockRmaItems(rma: any): Promise<any> {
+  var items = (rma.items || []).filter(function (it: any) { return it.restock; });
+  if (items.length === 0) return { status: "none", at: new Date().toISOString() };
+
+  try {
+    await kv.mdel(items.map(function (it: any) { return "sige_balance_" + it.sku; }));
+    await kv.del("stock_summary_cache");
+  } catch (e) {
+    console.warn("[RMA] Balance cache invalidation error (non-fatal): " + String(e));
+  }
+
+  var adj: any = { status: "manual", items: items.map(function (it: any) { return { sku: it.sku, quantidade: it.quantidade }; }), at: new Date().toISOString() };
+  var cfgRaw = await kv.get("rma_config");
+  var cfg = cfgRaw ? (typeof cfgRaw === "string" ? JSON.parse(cfgRaw) : cfgRaw) : {};
+  if (!cfg.sigeReturnTipoMv) return adj;
+
+  var mapRaw = await kv.get("sige_customer_map:" + rma.userId);
+  var custMap = mapRaw ? (typeof mapRaw === "string" ? JSON.parse(mapRaw) : mapRaw) : null;
+  if (!custMap || !custMap.sigeCustomerId) {
+    adj.error = "Cliente sem mapeamento SIGE.";
+    return adj;
+  }
+  try {
+    var sigeItems: any[] = [];
+    for (var i = 0; i < items.length; i++) {
+      var ref = await _resolveSigeItemRef(items[i].sku);
+      sigeItems.push({ codProduto: ref.codProduto, codRef: ref.codRef, qtdeUnd: items[i].quantidade, valorUnitario: items[i].valorUnitario, atlzSaldoV3: "S" });
+    }
+    var mvRes = await sigeAuthFetch("POST", "/order", { codCliFor: Number(custMap.sigeCustomerId), codTipoMv: String(cfg.sigeReturnTipoMv), items: sigeItems });
+    if (!mvRes.ok) {
+      adj.error = "SIGE: " + ((mvRes.data && (mvRes.data.message || mvRes.data.error)) || ("HTTP " + mvRes.status));
+      return adj;
+    }
+    var dados = (mvRes.data && (mvRes.data.dados || mvRes.data.data)) || mvRes.data;
+    if (Array.isArray(dados)) dados = dados[0];
+    adj.status = "sige";
+    adj.sigeOrderId = dados ? String(dados.chaveFato || dados.codPedido || dados.id || "") : "";
+    try { await sigeAuthFetch("POST", "/order/" + adj.sigeOrderId + "/observation", { observacao: "Devolucao " + rma.id + " do pedido " + rma.orderId }); } catch (_obs) { /* optional */ }
+  } catch (e: any) {
+    adj.error = "SIGE: " + (e.message || String(e));
+  }
+  return adj;
+}
+
+// ─── Cliente ───
+
+// POST /user/rma — abre uma solicitacao de troca/devolucao para um pedido entregue
+app.post(BASE + "/user/rma", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var rmaRl = _getRateLimitKey(c, "rma_create");
+    var rmaRlResult = _checkRateLimit(rmaRl, 5);
+    if (!rmaRlResult.allowed) return _rl429(c, "Muitas tentativas. Aguarde.", rmaRlResult);
+
+    var body = await c.req.json();
+    var rmaValid = validate(body, {
+      orderId: { required: true, type: "string", maxLen: 80 },
+      reason: { required: true, type: "string", maxLen: 20, oneOf: RMA_REASONS },
+      resolution: { required: true, type: "string", maxLen: 20, oneOf: ["refund", "exchange"] },
+      description: { required: true, type: "string", minLen: 10, maxLen: 2000 },
+      items: { required: true, type: "array", maxItems: 100 },
+    });
+    if (!rmaValid.ok) return c.json({ error: rmaValid.errors[0] || "Dados invalidos." }, 400);
+    var orderId = String(rmaValid.sanitized.orderId).replace(/[^a-zA-Z0-9_\-]/g, "");
+    var reason = rmaValid.sanitized.reason;
+    if (!isRmaReason(reason)) return c.json({ error: "Motivo invalido." }, 400);
+
+    var orderKey = "user_order:" + userId + ":" + orderId;
+    return await withKvLock(orderKey, async function (lock) {
+      var orderRaw = await kv.get(orderKey);
+      if (!orderRaw) return c.json({ error: "Pedido nao encontrado." }, 404);
+      var order = typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw;
+
+      var notEligible = checkRmaEligibility(order, reason, Date.now());
+      if (notEligible) return c.json({ error: notEligible }, 409);
+
+      var others = await _loadRmas(Array.isArray(order.rmaIds) ? order.rmaIds : []);
+      var built = buildRmaItems(order, body.items, others);
+      if (!built.ok) return c.json({ error: built.error }, 400);
+
+      var now = new Date().toISOString();
+      var userEmail = await _getUserEmailById(userId);
+      var rma: any = {
+        id: _rmaId(),
+        orderId: orderId,
+        userId: userId,
+        userEmail: userEmail || "",
+        userName: (order.shippingAddress && order.shippingAddress.name) || userEmail || "",
+        reason: reason,
+        resolution: rmaValid.sanitized.resolution,
+        description: rmaValid.sanitized.description,
+        items: built.items,
+        photos: [],
+        refundValue: rmaRefundValue(order, built.items, others),
+        status: "requested",
+        history: [{ from: null, to: "requested", at: now, by: { type: "customer", id: userId } }],
+        createdAt: now,
+        updatedAt: now,
+      };
+      await _saveRma(rma);
+
+      var userIds = await _getRmaIds("rma_user_ids:" + userId);
+      userIds.push(rma.id);
+      await kv.set("rma_user_ids:" + userId, JSON.stringify(userIds));
+      var allIds = await _getRmaIds("rma_all_ids");
+      allIds.push(rma.id);
+      await kv.set("rma_all_ids", JSON.stringify(allIds));
+
+      if (!Array.isArray(order.rmaIds)) order.rmaIds = [];
+      order.rmaIds.push(rma.id);
+      transitionOrder(order, "return_requested", { type: "customer", id: userId }, { note: "Solicitacao " + rma.id });
+      lock.assertHeld();
+      await kv.set(orderKey, JSON.stringify(order));
+
+      return c.json({ ok: true, rma: publicRma(rma) });
+    });
+  } catch (e) {
+    if (e instanceof kvAtomic.KvLockTimeoutError || e instanceof kvAtomic.KvLockLostError) return c.json({ error: "Pedido em atualizacao por outra operacao. Tente novamente." }, 409);
+    console.error("[RMA] Create error: " + String(e));
+    return c.json({ error: "Erro ao abrir solicitacao." }, 500);
+  }
+});
+
+// POST /user/rma/:id/photos — foto do produto (multipart "file"), igual as imagens de avaliacao
+app.post(BASE + "/user/rma/:id/photos", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var rma = await _loadRma(c.req.param("id"));
+    if (!rma || rma.userId !== userId) return c.json({ error: "Solicitacao nao encontrada." }, 404);
+    if (rma.status !== "requested" && rma.status !== "approved") return c.json({ error: "Esta solicitacao nao aceita mais fotos." }, 409);
+    var photoCount = rma.photos ? rma.photos.length : 0;
+    if (photoCount >= RMA_MAX_PHOTOS) return c.json({ error: "Maximo de " + RMA_MAX_PHOTOS + " fotos por solicitacao." }, 400);
+    var formData = await c.req.formData();
+    var file = formData.get("file");
+    if (!file || !(file instanceof File)) return c.json({ error: "Nenhuma imagem enviada." }, 400);
+    var fileType = file.type || "";
+    var extByType: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" };
+    if (!extByType[fileType]) return c.json({ error: "Tipo nao permitido. Use JPG, PNG ou WebP." }, 400);
+    if (file.size > 5 * 1024 * 1024) return c.json({ error: "Imagem muito grande (max 5MB)." }, 400);
+    var filePath = rma.id + "/" + (photoCount + 1) + "." + extByType[fileType];
+    var arrayBuffer = await file.arrayBuffer();
+    var uploadRes = await supabaseAdmin.storage.from(RMA_BUCKET).upload(filePath, arrayBuffer, { contentType: fileType, upsert: true });
+    if (uploadRes.error) {
+      console.error("[RMA] Photo storage error: " + uploadRes.error.message);
+      return c.json({ error: "Erro no upload da imagem." }, 500);
+    }
+    if (!rma.photos) rma.photos = [];
+    rma.photos.push({ path: filePath, uploadedAt: new Date().toISOString() });
+    rma.updatedAt = new Date().toISOString();
+    await _saveRma(rma);
+    return c.json({ ok: true, path: filePath, photoCount: rma.photos.length });
+  } catch (e) {
+    console.error("[RMA] Photo upload error: " + String(e));
+    return c.json({ error: "Erro ao enviar foto." }, 500);
+  }
+});
+
+// GET /user/rma — solicitacoes do cliente (mais recentes primeiro)
+app.get(BASE + "/user/rma", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var rmas = await _loadRmas(await _getRmaIds("rma_user_ids:" + userId));
+    rmas.sort(function (a, b) { return a.createdAt < b.createdAt ? 1 : -1; });
+    var out: any[] = [];
+    for (var i = 0; i < rmas.length; i++) {
+      var pub = publicRma(rmas[i]);
+      pub.photos = await _signRmaPhotos(rmas[i].photos);
+      out.push(pub);
+    }
+    return c.json({ rmas: out, total: out.length });
+  } catch (e) {
+    console.error("[RMA] List error: " + String(e));
+    return c.json({ error: "Erro ao carregar solicitacoes." }, 500);
+  }
+});
+
+// POST /user/rma/:id/cancel — cliente desiste antes de enviar o produto
+app.post(BASE + "/user/rma/:id/cancel", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var rma = await _loadRma(c.req.param("id"));
+    if (!rma || rma.userId !== userId) return c.json({ error: "Solicitacao nao encontrada." }, 404);
+    var actor = { type: "customer" as const, id: userId };
+    var tr = transitionRma(rma, "cancelled", actor, "Cancelada pelo cliente");
+    if (!tr.ok) return c.json({ error: "Esta solicitacao nao pode mais ser cancelada." }, 409);
+    await _saveRma(rma);
+    await _updateOrderRecord(_rmaOrderKey(rma), async function (order: any) {
+      await _releaseOrderAfterRma(order, actor, "Solicitacao " + rma.id + " cancelada");
+      return true;
+    });
+    return c.json({ ok: true, rma: publicRma(rma) });
+  } catch (e) {
+    console.error("[RMA] Cancel error: " + String(e));
+    return c.json({ error: "Erro ao cancelar solicitacao." }, 500);
+  }
+});
+
+// ─── Admin ───
+
+// GET /admin/rma?status= — fila de trocas e devolucoes
+app.get(BASE + "/admin/rma", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var statusFilter = c.req.query("status") || "";
+    var rmas = await _loadRmas(await _getRmaIds("rma_all_ids"));
+    if (statusFilter === "open") rmas = rmas.filter(isRmaOpen);
+    else if (statusFilter && statusFilter !== "all") rmas = rmas.filter(function (r) { return r.status === statusFilter; });
+    rmas.sort(function (a, b) { return a.createdAt < b.createdAt ? 1 : -1; });
+    var out: any[] = [];
+    for (var i = 0; i < rmas.length; i++) out.push({ ...rmas[i], photos: await _signRmaPhotos(rmas[i].photos) });
+    return c.json({ rmas: out, total: out.length });
+  } catch (e) {
+    console.error("[Admin RMA] List error: " + String(e));
+    return c.json({ error: "Erro ao carregar trocas e devolucoes." }, 500);
+  }
+});
+
+app.get(BASE + "/admin/rma/config", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var raw = await kv.get("rma_config");
+    return c.json(raw ? (typeof raw === "string" ? JSON.parse(raw) : raw) : { sigeReturnTipoMv: "" });
+  } catch (e) {
+    console.error("[Admin RMA] Config GET error: " + String(e));
+    return c.json({ error: "Erro ao buscar configuracao." }, 500);
+  }
+});
+
+app.put(BASE + "/admin/rma/config", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var cfgValid = validate(body, {
+      sigeReturnTipoMv: { type: "string", maxLen: 20 },
+    });
+    if (!cfgValid.ok) return c.json({ error: cfgValid.errors[0] || "Dados invalidos." }, 400);
+    var tipoMv = String(cfgValid.sanitized.sigeReturnTipoMv || "").trim();
+    if (tipoMv && !/^\d{1,10}$/.test(tipoMv)) return c.json({ error: "Tipo de movimento SIGE deve ser numerico." }, 400);
+    var cfg = { sigeReturnTipoMv: tipoMv, updatedAt: Date.now(), updatedBy: userId };
+    await kv.set("rma_config", JSON.stringify(cfg));
+    return c.json(cfg);
+  } catch (e) {
+    console.error("[Admin RMA] Config PUT error: " + String(e));
+    return c.json({ error: "Erro ao salvar configuracao." }, 500);
+  }
+});
+
+// POST /admin/rma/:id/decision — { action: "approve" | "reject", note }
+app.post(BASE + "/admin/rma/:id/decision", async function (c) {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var body = await c.req.json();
+    var decValid = validate(body, {
+      action: { required: true, type: "string", maxLen: 10, oneOf: ["approve", "reject"] },
+      note: { type: "string", maxLen: 500 },
+    });
+    if (!decValid.ok) return c.json({ error: decValid.errors[0] || "Dados invalidos." }, 400);
+    var note = decValid.sanitized.note || "";
+    if (decValid.sanitized.action === "reject" && !note) return c.json({ error: "Informe o motivo da recusa." }, 400);
+
+    var rma = await _loadRma(c.req.param("id"));
+    if (!rma) return c.json({ error: "Solicitacao nao encontrada." }, 404);
+    var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+    var tr = transitionRma(rma, decValid.sanitized.action === "approve" ? "approved" : "rejected", actor, note || undefined);
+    if (!tr.ok) return c.json({ error: tr.error, allowed: tr.allowed }, 409);
+    await _saveRma(rma);
+
+    if (rma.status === "rejected") {
+      await _updateOrderRecord(_rmaOrderKey(rma), async function (order: any) {
+        await _releaseOrderAfterRma(order, actor, "Solicitacao " + rma.id + " recusada");
+        return true;
+      });
+    }
+    return c.json({ ok: true, rma: { ...rma, photos: await _signRmaPhotos(rma.photos) } });
+  } catch (e) {
+    console.error("[Admin RMA] Decision error: " + String(e));
+    return c.json({ error: "Erro ao registrar decisao." }, 500);
   }
 });
 
-// GET /admin/sisfrete-delivery/deliveryman-details — from SisFrete API
-app.get(BASE + "/admin/sisfrete-delivery/deliveryman-details", async function (c) {
+// POST /admin/rma/:id/label — etiqueta de devolucao: registra o envio reverso no
+// SisFrete Webtracking (NF-e de devolucao) e/ou grava o codigo de postagem informado
+app.post(BASE + "/admin/rma/:id/label", async function (c) {
   try {
     var userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
-    var isAdmin = await checkAdmin(userId);
-    if (!isAdmin) return c.json({ error: "Acesso negado." }, 403);
-    var raw = await kv.get("sisfrete_delivery_config");
-    if (!raw) return c.json({ error: "Config SisFrete Delivery nao encontrada." }, 400);
-    var cfg = JSON.parse(raw);
-    if (!cfg.apiToken) return c.json({ error: "Token SisFrete Delivery nao configurado." }, 400);
-    var res = await fetch("https://sisfrete-delivery.persys.eti.br/api/deliveryman", {
-      method: "GET",
-      headers: { "Authorization-API": cfg.apiToken, "Accept": "*/*" },
-      signal: AbortSignal.timeout(15000),
-    });
-    var resText = await res.text();
-    // SisFrete Delivery: details response received
-    var resData = null;
-    try { resData = JSON.parse(resText); } catch (_e) { resData = resText; }
-    if (res.ok) return c.json({ success: true, data: resData });
-    return c.json({ success: false, status: res.status, error: resData }, res.status);
+    var body = await c.req.json();
+    var lblValid = validate(body, {
+      sendToSisfrete: { type: "boolean" },
+      chaveNfe: { type: "string", maxLen: 100 },
+      numeroNota: { type: "number", min: 0, max: 999999999 },
+      serieNota: { type: "string", maxLen: 10 },
+      codigoServico: { type: "string", maxLen: 50 },
+      codigoTransportadora: { type: "string", maxLen: 50 },
+      servicoEntrega: { type: "string", maxLen: 100 },
+      transportadoraNome: { type: "string", maxLen: 200 },
+      trackingCode: { type: "string", maxLen: 60 },
+      labelUrl: { type: "string", maxLen: 1000 },
+      instructions: { type: "string", maxLen: 1000 },
+    });
+    if (!lblValid.ok) return c.json({ error: lblValid.errors[0] || "Dados invalidos." }, 400);
+    var b = lblValid.sanitized;
+    if (b.labelUrl && !/^https:\/\//.test(b.labelUrl)) return c.json({ error: "O link da etiqueta deve comecar com https://." }, 400);
+
+    var rma = await _loadRma(c.req.param("id"));
+    if (!rma) return c.json({ error: "Solicitacao nao encontrada." }, 404);
+    if (rma.status !== "approved" && rma.status !== "label_issued") return c.json({ error: "Aprove a solicitacao antes de gerar a etiqueta." }, 409);
+
+    var label: any = {
+      trackingCode: b.trackingCode || null,
+      labelUrl: b.labelUrl || null,
+      carrierName: b.transportadoraNome || null,
+      instructions: b.instructions || null,
+      issuedAt: new Date().toISOString(),
+      issuedBy: userId,
+    };
+
+    if (b.sendToSisfrete) {
+      if (!b.chaveNfe || !b.numeroNota) return c.json({ error: "Chave e numero da NF-e de devolucao sao obrigatorios para o SisFrete." }, 400);
+      var cfg = await getSisfreteWTConfig();
+      if (!cfg || !cfg.apiToken) return c.json({ error: "Token SisFrete Webtracking nao configurado." }, 400);
+      var orderRaw = await kv.get(_rmaOrderKey(rma));
+      if (!orderRaw) return c.json({ error: "Pedido da solicitacao nao encontrado." }, 404);
+      var order = typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw;
+      var addr = order.shippingAddress || {};
+      // Reverse shipment: the customer is the sender; the pedido number keeps the RMA id
+      var pedido: any = {
+        canalVenda: cfg.canalVenda || "Carretao Auto Pecas",
+        subCanal: cfg.subCanal || "Loja Virtual",
+        chaveNfe: b.chaveNfe,
+        numeroDoPedido: rma.id,
+        codigoServico: b.codigoServico || "",
+        codigoTransportadora: b.codigoTransportadora || "",
+        dataEmissaoNota: new Date().toISOString(),
+        dataVenda: String(order.createdAt || new Date().toISOString()).split("T")[0],
+        cnpjCd: cfg.cnpjCd || "",
+        destinatarioBairro: "",
+        destinatarioCelular: addr.phone || "",
+        destinatarioCep: addr.cep || "",
+        destinatarioCidade: addr.city || "",
+        destinatarioCpfCnpj: "",
+        destinatarioEmail: rma.userEmail || "",
+        destinatarioEstado: addr.state || "",
+        destinatarioNome: addr.name || rma.userName || "",
+        destinatarioNumero: "",
+        destinatarioPais: "Brasil",
+        destinatarioRua: addr.address || "",
+        destinatarioTipo: "F",
+        pedidoCanalVenda: rma.id,
+        numeroNota: b.numeroNota,
+        numeroObjeto: b.trackingCode || "",
+        serieNota: b.serieNota || "1",
+        servicoEntrega: b.servicoEntrega || "Logistica reversa",
+        statusPedido: "devolucao",
+        transportadoraNome: b.transportadoraNome || "",
+        valorFrete: 0,
+        valorPedido: rma.refundValue || 0,
+        produtos: rma.items.map(function (it: any) {
+          return { codigo: it.sku, altura: 0, largura: 0, comprimento: 0, peso: 0, quantidade: it.quantidade, valor: it.valorUnitario, cubicoComFator: 0, cubicoIndividual: 0 };
+        }),
+      };
+      var sent = await _sendSisfreteWTPedidos(cfg, [pedido], userId);
+      if (!sent.ok) return c.json({ error: "SisFrete API retornou HTTP " + sent.status, data: sent.data }, sent.status >= 500 ? 502 : 400);
+      var resp = sent.data && Array.isArray(sent.data.data) ? sent.data.data[0] : sent.data;
+      label.provider = "sisfrete";
+      label.sisfreteResponse = resp || null;
+      if (resp && !label.trackingCode) label.trackingCode = resp.numeroObjeto || resp.objeto || null;
+      if (resp && !label.labelUrl) label.labelUrl = resp.etiqueta || resp.urlEtiqueta || resp.linkEtiqueta || null;
+    } else {
+      if (!label.trackingCode && !label.labelUrl) return c.json({ error: "Informe o codigo de postagem ou o link da etiqueta." }, 400);
+      label.provider = "manual";
+    }
+
+    rma.returnLabel = label;
+    if (rma.status === "approved") {
+      var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+      transitionRma(rma, "label_issued", actor, label.trackingCode ? "Codigo de postagem " + label.trackingCode : undefined);
+    } else {
+      rma.updatedAt = new Date().toISOString();
+    }
+    await _saveRma(rma);
+    return c.json({ ok: true, rma: { ...rma, photos: await _signRmaPhotos(rma.photos) } });
   } catch (e) {
-    console.error("[SisFrete Delivery] deliveryman-details error: " + String(e));
-    return c.json({ error: "Erro ao consultar detalhes do entregador." }, 500);
+    console.error("[Admin RMA] Label error: " + String(e));
+    return c.json({ error: "Erro ao gerar etiqueta de devolucao." }, 500);
   }
 });
 
-// PUT /admin/sisfrete-delivery/change-password
-app.put(BASE + "/admin/sisfrete-delivery/change-password", async function (c) {
+// POST /admin/rma/:id/receive — { restockSkus: string[], note } produtos conferidos na loja
+app.post(BASE + "/admin/rma/:id/receive", async function (c) {
   try {
     var userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
-    var isAdmin = await checkAdmin(userId);
-    if (!isAdmin) return c.json({ error: "Acesso negado." }, 403);
-    var raw = await kv.get("sisfrete_delivery_config");
-    if (!raw) return c.json({ error: "Config SisFrete Delivery nao encontrada." }, 400);
-    var cfg = JSON.parse(raw);
-    if (!cfg.apiToken) return c.json({ error: "Token SisFrete Delivery nao configurado." }, 400);
     var body = await c.req.json();
-    // Input validation for change password
-    var chPwdValid = validate(body, {
-      password: { required: true, type: "string", maxLen: 200, sanitize: false },
-      passwordNew: { required: true, type: "string", minLen: 4, maxLen: 200, sanitize: false },
-    });
-    if (!chPwdValid.ok) return c.json({ error: chPwdValid.errors[0] || "Dados invalidos." }, 400);
-    var payload = { password: String(body.password || ""), passwordNew: String(body.passwordNew || "") };
-    // SisFrete Delivery: changing password
-    var res = await fetch("https://sisfrete-delivery.persys.eti.br/api/deliveryman/change_password", {
-      method: "PUT",
-      headers: { "Authorization-API": cfg.apiToken, "Content-Type": "application/json", "Accept": "*/*" },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(15000),
-    });
-    var resText = await res.text();
-    // SisFrete Delivery: change password response received
-    var resData = null;
-    try { resData = JSON.parse(resText); } catch (_e) { resData = resText; }
-    if (res.ok) return c.json({ success: true, data: resData });
-    return c.json({ success: false, status: res.status, error: resData }, res.status);
+    var rcvValid = validate(body, {
+      restockSkus: { type: "array", maxItems: 100 },
+      note: { type: "string", maxLen: 500 },
+    });
+    if (!rcvValid.ok) return c.json({ error: rcvValid.errors[0] || "Dados invalidos." }, 400);
+    var restockSkus: string[] = Array.isArray(body.restockSkus) ? body.restockSkus.map(String) : [];
+
+    var rma = await _loadRma(c.req.param("id"));
+    if (!rma) return c.json({ error: "Solicitacao nao encontrada." }, 404);
+    var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+    var tr = transitionRma(rma, "received", actor, rcvValid.sanitized.note || undefined);
+    if (!tr.ok) return c.json({ error: tr.error, allowed: tr.allowed }, 409);
+    for (var i = 0; i < rma.items.length; i++) rma.items[i].restock = restockSkus.indexOf(rma.items[i].sku) !== -1;
+    rma.receivedAt = rma.updatedAt;
+    rma.stockAdjustment = await _restockRmaItems(rma);
+    await _saveRma(rma);
+    return c.json({ ok: true, rma: { ...rma, photos: await _signRmaPhotos(rma.photos) } });
   } catch (e) {
-    console.error("[SisFrete Delivery] change-password error: " + String(e));
-    return c.json({ error: "Erro ao alterar senha do entregador." }, 500);
+    console.error("[Admin RMA] Receive error: " + String(e));
+    return c.json({ error: "Erro ao registrar recebimento." }, 500);
   }
 });
 
-// DELETE /admin/sisfrete-delivery/deliveryman — remove from local list
-app.delete(BASE + "/admin/sisfrete-delivery/deliveryman", async function (c) {
+// POST /admin/rma/:id/resolve — { resolution: "refund" | "exchange", amount?, note }
+// refund: estorna pelo meio de pagamento do pedido e ajusta a comissao do afiliado
+app.post(BASE + "/admin/rma/:id/resolve", async function (c) {
   try {
     var userId = await getAuthUserId(c.req.raw);
     if (!userId) return c.json({ error: "Nao autorizado." }, 401);
-    var isAdmin = await checkAdmin(userId);
-    if (!isAdmin) return c.json({ error: "Acesso negado." }, 403);
     var body = await c.req.json();
-    // Input validation for deliveryman delete
-    var dlvDelValid = validate(body, {
-      document: { required: true, type: "string", maxLen: 20 },
+    var resValid = validate(body, {
+      resolution: { required: true, type: "string", maxLen: 20, oneOf: ["refund", "exchange"] },
+      amount: { type: "number", min: 0.01, max: 99999999 },
+      note: { type: "string", maxLen: 500 },
+    });
+    if (!resValid.ok) return c.json({ error: resValid.errors[0] || "Dados invalidos." }, 400);
+
+    var rmaId = c.req.param("id");
+    return await withMutex("rma:" + rmaId, async function () {
+      var rma = await _loadRma(rmaId);
+      if (!rma) return c.json({ error: "Solicitacao nao encontrada." }, 404);
+      if (rma.status !== "received") return c.json({ error: "Registre o recebimento dos produtos antes de concluir." }, 409);
+      var orderKey = _rmaOrderKey(rma);
+      return await withKvLock(orderKey, async function (lock) {
+        var orderRaw = await kv.get(orderKey);
+        if (!orderRaw) return c.json({ error: "Pedido da solicitacao nao encontrado." }, 404);
+        var order = typeof orderRaw === "string" ? JSON.parse(orderRaw) : orderRaw;
+        var actor = { type: "admin" as const, id: userId, name: await _getUserEmailById(userId) };
+        var note = resValid.sanitized.note || "";
+
+        if (resValid.sanitized.resolution === "refund") {
+          var refundable = orderRefundable(order);
+          var amount = Math.round((resValid.sanitized.amount || rma.refundValue || 0) * 100) / 100;
+          if (amount <= 0) return c.json({ error: "Valor de reembolso invalido." }, 400);
+          if (amount > refundable + 0.001) return c.json({ error: "Valor maximo reembolsavel: R$ " + refundable.toFixed(2) + "." }, 400);
+
+          var plan: RefundPlan = { amount: amount, items: rma.items.map(function (it: any) { return { sku: it.sku, quantidade: it.quantidade }; }) };
+          // refundValue includes the shipping when this request completed the return of every unit
+          if ((rma.refundValue || 0) > refundLinesValue(order, rma.items) + 0.001) plan.shipping = true;
+          var applied = await _applyOrderRefund(order, plan, { idempotencyKey: "rma-refund-" + rma.id, by: userId, rmaId: rma.id });
+          if (!applied.ok) return c.json({ error: applied.error }, 502);
+          rma.refund = applied.record;
+          transitionRma(rma, "refunded", actor, note || (applied.record.manual ? "Reembolso manual (transferencia ao cliente, aguardando confirmacao)" : undefined));
+        } else {
+          transitionRma(rma, "exchanged", actor, note || undefined);
+        }
+        await _saveRma(rma);
+
+        await _releaseOrderAfterRma(order, actor, "Solicitacao " + rma.id + (rma.status === "refunded" ? " reembolsada" : " concluida (troca)"));
+        if (rma.refund) {
+          await _saveRefundedOrder(orderKey, order, rma.refund, lock);
+        } else {
+          lock.assertHeld();
+          await kv.set(orderKey, JSON.stringify(order));
+        }
+        return c.json({ ok: true, rma: { ...rma, photos: await _signRmaPhotos(rma.photos) } });
+      });
     });
-    if (!dlvDelValid.ok) return c.json({ error: dlvDelValid.errors[0] || "Document obrigatorio." }, 400);
-    var docToRemove = String(body.document || "").replace(/\D/g, "");
-    if (!docToRemove) return c.json({ error: "Document obrigatorio." }, 400);
-    var listRaw = await kv.get("sisfrete_delivery_deliverymen");
-    var list = listRaw ? JSON.parse(listRaw) : [];
-    var newList = list.filter(function (d: any) { return d.document !== docToRemove; });
-    await kv.set("sisfrete_delivery_deliverymen", JSON.stringify(newList));
-    return c.json({ success: true, removed: list.length - newList.length });
   } catch (e) {
-    console.error("[SisFrete Delivery] delete deliveryman error: " + String(e));
-    return c.json({ error: "Erro ao remover entregador." }, 500);
+    console.error("[Admin RMA] Resolve error: " + String(e));
+    return c.json({ error: "Erro ao concluir solicitacao." }, 500);
   }
 });
 
@@ -26563,6 +32990,9 @@ app.put(BASE + "/admin/branches/:id", async (c) => {
     var active = formData.get("active") !== "false";
     var order = Math.min(Math.max(parseInt((formData.get("order") as string) || "0", 10) || 0, 0), 9999);
     var mapQuery = sanitizeInput(String(formData.get("mapQuery") || "")).substring(0, 500);
+    var sigeCodFilial = sanitizeInput(String(formData.get("sigeCodFilial") || "")).trim().substring(0, 50);
+    var pickupEnabled = formData.get("pickupEnabled") === "true";
+    if (pickupEnabled && !sigeCodFilial) return c.json({ error: "Informe o codigo da filial no SIGE para habilitar a retirada na loja." }, 400);
     var imageFile = formData.get("image") as File | null;
 
     var kvKey = "branch:" + branchId;
@@ -26602,6 +33032,8 @@ app.put(BASE + "/admin/branches/:id", async (c) => {
     current.active = active;
     current.order = order;
     current.mapQuery = mapQuery;
+    current.sigeCodFilial = sigeCodFilial;
+    current.pickupEnabled = pickupEnabled;
     current.updatedAt = Date.now();
     if (!current.createdAt) current.createdAt = Date.now();
 
@@ -27003,8 +33435,11 @@ app.post(BASE + "/whatsapp/cart-snapshot", async (c) => {
     if (!phone && !email) return c.json({ error: "Telefone ou email necessario." }, 400);
     var items = Array.isArray(body.items) ? body.items.slice(0, 50) : [];
     var totalPrice = Number(body.totalPrice) || 0;
+    // Logged-in customers: the cart lives in user_cart:<userId> — keep only a reference
+    var snapUserId = c.req.header("X-User-Token") ? await getAuthUserId(c.req.raw) : null;
+    if (snapUserId) { items = []; totalPrice = 0; }
     var key = "wa_cart:" + (phone || email);
-    var snapshot = { phone, email, name, items, totalPrice, createdAt: Date.now(), updatedAt: Date.now(), completed: false, remindersSent: [] as string[] };
+    var snapshot: any = { phone, email, name, userId: snapUserId, items, totalPrice, createdAt: Date.now(), updatedAt: Date.now(), completed: false, remindersSent: [] as string[] };
     var existingCart = await kv.get(key);
     if (existingCart && existingCart.completed) return c.json({ ok: true, note: "Cart already completed" });
     if (existingCart) { snapshot.createdAt = existingCart.createdAt || Date.now(); snapshot.remindersSent = existingCart.remindersSent || []; }
@@ -27036,6 +33471,25 @@ app.post(BASE + "/whatsapp/cart-completed", async (c) => {
   }
 });
 
+// Fills items/totalPrice of wa_cart snapshots that reference a server-side user cart
+async function _hydrateWaCarts(carts: any[]): Promise<any[]> {
+  var linked = carts.filter(function (wc: any) { return wc && wc.userId; });
+  if (linked.length === 0) return carts;
+  var rows = await kv.mget(linked.map(function (wc: any) { return "user_cart:" + wc.userId; }));
+  var byUser: Record<string, any> = {};
+  for (var i = 0; i < rows.length; i++) {
+    if (!rows[i]) continue;
+    var uc = typeof rows[i] === "string" ? JSON.parse(rows[i] as string) : rows[i];
+    if (uc && uc.userId) byUser[uc.userId] = uc;
+  }
+  return carts.map(function (wc: any) {
+    if (!wc || !wc.userId) return wc;
+    var userCart = byUser[wc.userId];
+    var items = userCart && Array.isArray(userCart.items) ? userCart.items : [];
+    return { ...wc, items: items, totalPrice: _userCartTotal(items) };
+  });
+}
+
 async function sendWhatsAppMessage(waConfig: any, phone: string, message: string): Promise<{ ok: boolean; error?: string }> {
   try {
     if (waConfig.provider === "zenvia") {
@@ -27065,6 +33519,7 @@ app.post(BASE + "/admin/whatsapp-process-abandoned", async (c) => {
     if (!waConf || !waConf.enabled) return c.json({ processed: 0, message: "WhatsApp nao esta habilitado." });
     var carts = await kv.getByPrefix("wa_cart:");
     if (!Array.isArray(carts) || carts.length === 0) return c.json({ processed: 0, sent: 0 });
+    carts = await _hydrateWaCarts(carts);
     var now = Date.now(); var processed = 0; var sent = 0; var errors: string[] = [];
     var siteUrl = "https://www.autopecascarretao.com.br";
     var templates = waConf.templates || DEFAULT_WHATSAPP_CONFIG.templates;
@@ -27080,7 +33535,12 @@ app.post(BASE + "/admin/whatsapp-process-abandoned", async (c) => {
         if (result.ok) { sentList.push(tplKey); changed = true; sent++; }
         else { errors.push("Cart " + cart.phone + " tpl " + tplKey + ": " + (result.error || "unknown")); }
       }
-      if (changed) { cart.remindersSent = sentList; cart.updatedAt = now; await kv.set("wa_cart:" + (cart.phone || cart.email), cart); }
+      if (changed) {
+        cart.remindersSent = sentList; cart.updatedAt = now;
+        // Linked snapshots stay a reference — never persist the hydrated items copy
+        if (cart.userId) { cart.items = []; cart.totalPrice = 0; }
+        await kv.set("wa_cart:" + (cart.phone || cart.email), cart);
+      }
       processed++;
       if (sent >= 20) break;
     }
@@ -27094,7 +33554,7 @@ app.post(BASE + "/admin/whatsapp-process-abandoned", async (c) => {
 app.get(BASE + "/admin/whatsapp-abandoned-carts", async (c) => {
   try {
     var carts = await kv.getByPrefix("wa_cart:");
-    var arr = Array.isArray(carts) ? carts : [];
+    var arr = Array.isArray(carts) ? await _hydrateWaCarts(carts) : [];
     arr.sort(function(a: any, b: any) { return (b.updatedAt || 0) - (a.updatedAt || 0); });
     return c.json({ carts: arr.slice(0, 200) });
   } catch (e) {
@@ -27121,6 +33581,459 @@ app.post(BASE + "/admin/whatsapp-test", async (c) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════
+// ─── PRODUCT ALERTS (back in stock / price drop) ─────────────────
+// ═══════════════════════════════════════════════════════════════════
+// Subscriptions live in product_alerts:<sku> (product_alerts.ts). Stock and
+// price cache refreshes call _queueProductAlertChecks with the SKUs they
+// touched; the cron below sweeps every watched SKU as a fallback.
+
+async function _alertUnsubscribeUrl(sku: string, id: string): Promise<string> {
+  return _getSiteUrl() + "/avisos/cancelar?token=" + encodeURIComponent(await signToken("product_alert", alertTokenPayload(sku, id)));
+}
+
+async function _verifyAlertToken(token: string): Promise<{ sku: string; id: string } | null> {
+  var payload = await verifyToken("product_alert", token);
+  return payload === null ? null : parseAlertTokenPayload(payload);
+}
+
+// A guest asking again for the same pending alert gets one confirmation e-mail per window
+var ALERT_CONFIRM_RESEND_MS = 10 * 60 * 1000;
+
+async function _alertConfirmUrl(sku: string, id: string): Promise<string> {
+  return _getSiteUrl() + "/avisos/confirmar?token=" + encodeURIComponent(await signToken("product_alert_confirm", alertTokenPayload(sku, id)));
+}
+
+// WhatsApp for alerts: only the customer's own profile phone, with the
+// consent flag on and no opt-out of that phone (same rule as broadcasts)
+async function _alertConsentedPhone(userId: string, authUser: any): Promise<string | null> {
+  var raw = await kv.get("user_profile:" + userId);
+  var profile = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!profile || profile.whatsappOptIn !== true) return null;
+  var phone = normalizeAlertPhone(profile.phone || (authUser && authUser.user_metadata?.phone));
+  if (!phone || await kv.get(waOptOutKey(phone))) return null;
+  return phone;
+}
+
+async function _getAlertSkus(): Promise<string[]> {
+  var cached = memGet("_product_alert_skus");
+  if (cached) return cached;
+  var list = parseAlertIndex(await kv.get(PRODUCT_ALERT_INDEX_KEY));
+  memSet("_product_alert_skus", list, 60 * 1000);
+  return list;
+}
+
+async function _setAlertSkuWatched(sku: string, watched: boolean): Promise<void> {
+  await kv.update(PRODUCT_ALERT_INDEX_KEY, function (current: any) {
+    var list = parseAlertIndex(current);
+    var has = list.indexOf(sku) >= 0;
+    if (has === watched) return undefined;
+    return watched ? list.concat([sku]) : list.filter(function (s) { return s !== sku; });
+  });
+  memClear("_product_alert_skus");
+}
+
+/** Sellable stock (checkout reservations out) and list price, from the caches */
+async function _productAlertState(sku: string): Promise<ProductAlertState> {
+  var available = await _cachedAvailable(sku);
+  var held = (await _stockHeldBySku([sku]))[sku] || 0;
+  var prices = await _loadServerPriceCents([sku]);
+  return {
+    available: available === null ? 0 : Math.max(0, available - held),
+    priceCents: prices[sku] !== undefined ? prices[sku] : null,
+  };
+}
+
+function _publicProductAlert(sku: string, a: ProductAlert): any {
+  return { id: a.id, sku: sku, type: a.type, targetCents: a.targetCents, status: a.status, createdAt: a.createdAt, sentAt: a.sentAt || null };
+}
+
+async function _deliverProductAlerts(sku: string, titulo: string, alerts: ProductAlert[], priceCents: number | null): Promise<Record<string, ProductAlertDelivery>> {
+  var results: Record<string, ProductAlertDelivery> = {};
+  var smtpCfg = await _getSmtpConfig();
+  var waConf = await kv.get("whatsapp_config");
+  var waOn = !!(waConf && waConf.enabled);
+  var logoUrl = smtpCfg ? await _getEmailLogoUrl() : null;
+  var from = smtpCfg ? (smtpCfg.defaultSenderName || "Carretao Auto Pecas") + " <" + (smtpCfg.defaultSenderEmail || smtpCfg.smtpUser) + ">" : "";
+  var productUrl = _getSiteUrl() + "/produto/" + encodeURIComponent(sku);
+  var name = titulo || sku;
+
+  for (var i = 0; i < alerts.length; i++) {
+    var a = alerts[i];
+    var unsubscribeUrl = await _alertUnsubscribeUrl(sku, a.id);
+    var d: ProductAlertDelivery = { email: "skipped", whatsapp: "skipped" };
+    if (smtpCfg) {
+      try {
+        await _sendSmtpEmail(smtpCfg, {
+          from: from,
+          to: a.email,
+          subject: a.type === "stock"
+            ? "Chegou! " + name + " - Carretao Auto Pecas"
+            : "Baixou o preco: " + name + " por " + formatAlertPrice(priceCents) + " - Carretao Auto Pecas",
+          html: _buildProductAlertHtml(a, sku, name, priceCents, productUrl, unsubscribeUrl, logoUrl || undefined),
+          headers: { "List-Unsubscribe": "<" + unsubscribeUrl + ">" },
+        });
+        d.email = "sent";
+      } catch (e: any) {
+        d.email = "failed";
+        d.error = String(e?.message || e).substring(0, 200);
+      }
+    }
+    if (waOn && a.phone) {
+      var wr = await sendWhatsAppMessage(waConf, a.phone, alertWhatsAppText(a, name, priceCents, productUrl, unsubscribeUrl));
+      d.whatsapp = wr.ok ? "sent" : "failed";
+      if (!wr.ok) d.error = (d.error ? d.error + "; " : "") + String(wr.error || "").substring(0, 200);
+    }
+    results[a.id] = d;
+  }
+  return results;
+}
+
+var _alertChecksRunning = new Set<string>();
+
+// Sends the alerts of one SKU whose condition holds now. Returns how many were sent.
+async function _checkProductAlerts(sku: string): Promise<number> {
+  if (_alertChecksRunning.has(sku)) return 0;
+  _alertChecksRunning.add(sku);
+  try {
+    var rec = parseAlertRecord(await kv.get(alertsKey(sku)), sku);
+    if (activeAlerts(rec).length === 0) {
+      await _setAlertSkuWatched(sku, false);
+      return 0;
+    }
+    var state = await _productAlertState(sku);
+    if (!activeAlerts(rec).some(function (a) { return alertIsDue(a, state); })) return 0;
+
+    // Claim before sending: a concurrent check (other isolate) finds them already "sent"
+    var claimed: ProductAlert[] = [];
+    var titulo = rec.titulo;
+    await kv.update(alertsKey(sku), function (current: any) {
+      var claim = claimDueAlerts(parseAlertRecord(current, sku), state, Date.now(), MAX_ALERT_SENDS_PER_RUN);
+      claimed = claim.claimed;
+      titulo = claim.record.titulo || titulo;
+      return claimed.length > 0 ? claim.record : undefined;
+    });
+    if (claimed.length === 0) return 0;
+
+    var results = await _deliverProductAlerts(sku, titulo, claimed, state.priceCents);
+    var after = await kv.update(alertsKey(sku), function (current: any) {
+      return withDelivery(parseAlertRecord(current, sku), results, Date.now());
+    });
+    if (activeAlerts(parseAlertRecord(after.value, sku)).length === 0) await _setAlertSkuWatched(sku, false);
+    console.log("[ProductAlerts] " + sku + ": " + claimed.length + " aviso(s) disparado(s)");
+    return claimed.length;
+  } catch (e) {
+    console.error("[ProductAlerts] Check error for " + sku + ":", e);
+    return 0;
+  } finally {
+    _alertChecksRunning.delete(sku);
+  }
+}
+
+// Fire-and-forget from stock/price cache refreshes: only SKUs someone is waiting on
+function _queueProductAlertChecks(skus: string[]): void {
+  if (!skus || skus.length === 0) return;
+  (async function () {
+    try {
+      var watched = await _getAlertSkus();
+      if (watched.length === 0) return;
+      for (var i = 0; i < skus.length; i++) {
+        if (watched.indexOf(skus[i]) >= 0) await _checkProductAlerts(skus[i]);
+      }
+    } catch (e) {
+      console.error("[ProductAlerts] Queue error:", e);
+    }
+  })();
+}
+
+// POST /product-alerts — subscribe (customer, or guest by e-mail pending confirmation)
+app.post(BASE + "/product-alerts", async (c) => {
+  try {
+    var paRl = _checkRateLimit(_getRateLimitKey(c, "product_alert"), 10);
+    if (!paRl.allowed) return _rl429(c, "Muitas solicitacoes. Aguarde um instante.", paRl);
+
+    var body = await c.req.json().catch(function () { return null; });
+    var paValid = validate(body, {
+      sku: { required: true, type: "string", maxLen: 100 },
+      type: { required: true, type: "string", oneOf: ["stock", "price"] },
+      email: { type: "string", maxLen: 254, custom: validators.email },
+      name: { type: "string", maxLen: 100 },
+      targetPrice: { type: "number", min: 0.01, max: 1000000 },
+      source: { type: "string", oneOf: ["product", "favorites"] },
+    });
+    if (!paValid.ok) return c.json({ error: paValid.errors[0] || "Dados invalidos." }, 400);
+    var sku = String(paValid.sanitized.sku || "").trim();
+    var type = paValid.sanitized.type as ProductAlertType;
+
+    var userId = c.req.header("X-User-Token") ? await getAuthUserId(c.req.raw) : null;
+    var email = String(paValid.sanitized.email || "").toLowerCase().trim();
+    var name = String(paValid.sanitized.name || "").trim();
+    // Only the account e-mail counts as confirmed; anything typed in waits for the link
+    var confirmed = false;
+    var phone: string | null = null;
+    if (userId) {
+      var authRes = await supabaseAdmin.auth.admin.getUserById(userId);
+      var authUser = authRes.data ? authRes.data.user : null;
+      if (authUser && authUser.email) {
+        email = authUser.email.toLowerCase();
+        confirmed = true;
+        phone = await _alertConsentedPhone(userId, authUser);
+      }
+      if (!name && authUser) name = String(authUser.user_metadata?.name || "");
+    }
+    if (!email) return c.json({ error: "Informe seu e-mail." }, 400);
+    var smtpCfg = confirmed ? null : await _getSmtpConfig();
+    if (!confirmed && !smtpCfg) return c.json({ error: "Avisos por e-mail indisponiveis no momento. Entre na sua conta para criar o aviso." }, 503);
+
+    var targetCents: number | null = null;
+    if (type === "price") {
+      if (!body.targetPrice) return c.json({ error: "Informe o preco desejado." }, 400);
+      targetCents = Math.round(Number(body.targetPrice) * 100);
+    }
+
+    var { data: prod } = await supabaseAdmin.from("produtos").select("sku, titulo").eq("sku", sku).maybeSingle();
+    if (!prod) return c.json({ error: "Produto nao encontrado." }, 404);
+
+    var state = await _productAlertState(sku);
+    if (type === "stock" && state.available > 0) return c.json({ error: "Este produto esta disponivel em estoque." }, 400);
+    if (type === "price" && state.priceCents !== null && targetCents !== null && state.priceCents <= targetCents) {
+      return c.json({ error: "O preco atual ja e menor ou igual ao valor informado." }, 400);
+    }
+
+    var subError = "";
+    var subscribed: ProductAlert | null = null;
+    var created = false;
+    var sendConfirm = false;
+    await kv.update(alertsKey(sku), function (current: any) {
+      subError = "";
+      var rec = parseAlertRecord(current, sku);
+      var prevPending = rec.alerts.find(function (a) { return a.type === type && a.email === email && a.status === "pending"; });
+      sendConfirm = !prevPending || Date.now() - prevPending.updatedAt > ALERT_CONFIRM_RESEND_MS;
+      rec.titulo = prod.titulo || rec.titulo;
+      var sub = subscribeAlert(rec, {
+        type: type, email: email, phone: phone, userId: confirmed ? userId : null, name: name.substring(0, 100), targetCents: targetCents,
+        source: paValid.sanitized.source === "favorites" ? "favorites" : "product", confirmed: confirmed,
+      }, "pa_" + Date.now() + "_" + crypto.randomUUID().slice(0, 8), Date.now());
+      if (sub.error) { subError = sub.error; return undefined; }
+      subscribed = sub.alert || null;
+      created = !!sub.created;
+      return sub.record;
+    });
+    if (subError || !subscribed) return c.json({ error: subError || "Erro ao criar aviso." }, 400);
+    var alert: ProductAlert = subscribed;
+    if (alert.status === "pending" && smtpCfg) {
+      if (sendConfirm) await _sendSmtpEmail(smtpCfg, {
+        from: (smtpCfg.defaultSenderName || "Carretao Auto Pecas") + " <" + (smtpCfg.defaultSenderEmail || smtpCfg.smtpUser) + ">",
+        to: alert.email,
+        subject: "Confirme seu aviso: " + (prod.titulo || sku) + " - Carretao Auto Pecas",
+        html: _buildProductAlertConfirmHtml(alert, sku, prod.titulo || sku, await _alertConfirmUrl(sku, alert.id), (await _getEmailLogoUrl()) || undefined),
+      });
+      // Guest view: the alert itself stays private until the e-mail owner confirms it
+      return c.json({ ok: true, created: created, pending: true });
+    }
+    if (!confirmed) return c.json({ ok: true, created: false, pending: false });
+    await _setAlertSkuWatched(sku, true);
+    return c.json({ ok: true, created: created, pending: false, alert: _publicProductAlert(sku, alert) });
+  } catch (e: any) {
+    console.error("[ProductAlerts] Subscribe error:", e);
+    return c.json({ error: "Erro ao criar aviso." }, 500);
+  }
+});
+
+// POST /product-alerts/confirm — guest confirmation link (signed token); activates the alert
+app.post(BASE + "/product-alerts/confirm", async (c) => {
+  try {
+    var cfRl = _checkRateLimit(_getRateLimitKey(c, "product_alert_confirm"), 20);
+    if (!cfRl.allowed) return _rl429(c, "Muitas solicitacoes. Aguarde um instante.", cfRl);
+    var body = await c.req.json().catch(function () { return null; });
+    var token = body && typeof body.token === "string" ? body.token.substring(0, 600) : "";
+    var payload = await verifyToken("product_alert_confirm", token);
+    var ref = payload === null ? null : parseAlertTokenPayload(payload);
+    if (!ref) return c.json({ error: "Link de confirmacao invalido." }, 400);
+
+    var alertRef = ref;
+    var found: ProductAlert | null = null;
+    var titulo = "";
+    await kv.update(alertsKey(alertRef.sku), function (current: any) {
+      var rec = parseAlertRecord(current, alertRef.sku);
+      found = rec.alerts.find(function (a) { return a.id === alertRef.id; }) || null;
+      titulo = rec.titulo;
+      return confirmAlert(rec, alertRef.id, Date.now()) || undefined;
+    });
+    var confirmed = found as ProductAlert | null;
+    // Opening the link twice is fine; an expired or cancelled alert is not
+    if (!confirmed || (confirmed.status !== "pending" && confirmed.status !== "active")) {
+      return c.json({ error: "Este aviso expirou ou foi cancelado. Peca um novo na pagina do produto." }, 404);
+    }
+    await _setAlertSkuWatched(alertRef.sku, true);
+    _queueProductAlertChecks([alertRef.sku]);
+    return c.json({ ok: true, sku: alertRef.sku, titulo: titulo, type: confirmed.type, targetCents: confirmed.targetCents });
+  } catch (e: any) {
+    console.error("[ProductAlerts] Confirm error:", e);
+    return c.json({ error: "Erro ao confirmar aviso." }, 500);
+  }
+});
+
+// POST /product-alerts/unsubscribe — link from the alert e-mail/WhatsApp (signed token)
+app.post(BASE + "/product-alerts/unsubscribe", async (c) => {
+  try {
+    var unRl = _checkRateLimit(_getRateLimitKey(c, "product_alert_unsub"), 20);
+    if (!unRl.allowed) return _rl429(c, "Muitas solicitacoes. Aguarde um instante.", unRl);
+    var body = await c.req.json().catch(function () { return null; });
+    var token = body && typeof body.token === "string" ? body.token.substring(0, 600) : "";
+    var ref = await _verifyAlertToken(token);
+    if (!ref) return c.json({ error: "Link de descadastro invalido." }, 400);
+
+    var alertRef = ref;
+    var foundType = "";
+    var titulo = "";
+    await kv.update(alertsKey(alertRef.sku), function (current: any) {
+      var rec = parseAlertRecord(current, alertRef.sku);
+      var alert = rec.alerts.find(function (a) { return a.id === alertRef.id; });
+      titulo = rec.titulo;
+      foundType = alert ? alert.type : "";
+      return unsubscribeAlert(rec, alertRef.id, Date.now()) || undefined;
+    });
+    if (!foundType) return c.json({ error: "Aviso nao encontrado." }, 404);
+    return c.json({ ok: true, sku: alertRef.sku, titulo: titulo, type: foundType });
+  } catch (e: any) {
+    console.error("[ProductAlerts] Unsubscribe error:", e);
+    return c.json({ error: "Erro ao cancelar aviso." }, 500);
+  }
+});
+
+// GET /auth/user/product-alerts?skus=a,b — the customer's alerts for these products
+app.get(BASE + "/auth/user/product-alerts", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var skus = String(c.req.query("skus") || "").split(",").map(function (s) { return s.trim(); }).filter(Boolean).slice(0, 60);
+    if (skus.length === 0) return c.json({ alerts: [] });
+    var email = String(await _getUserEmailById(userId) || "").toLowerCase();
+
+    var { data: rows } = await supabaseAdmin.from("kv_store_b7b07654").select("key, value").in("key", skus.map(alertsKey));
+    var alerts: any[] = [];
+    for (var r of (rows || []) as Array<{ key: string; value: any }>) {
+      var sku = r.key.substring(PRODUCT_ALERT_PREFIX.length);
+      var rec = parseAlertRecord(r.value, sku);
+      for (var a of rec.alerts) {
+        if (a.status === "unsubscribed") continue;
+        if (a.userId === userId || (email && a.email === email)) alerts.push(_publicProductAlert(sku, a));
+      }
+    }
+    return c.json({ alerts: alerts });
+  } catch (e: any) {
+    console.error("[ProductAlerts] User list error:", e);
+    return c.json({ error: "Erro ao carregar avisos." }, 500);
+  }
+});
+
+// DELETE /auth/user/product-alerts/:sku/:id
+app.delete(BASE + "/auth/user/product-alerts/:sku/:id", async (c) => {
+  try {
+    var userId = await getAuthUserId(c.req.raw);
+    if (!userId) return c.json({ error: "Nao autorizado." }, 401);
+    var sku = decodeURIComponent(c.req.param("sku")).trim().substring(0, 100);
+    var id = c.req.param("id").substring(0, 60);
+    var email = String(await _getUserEmailById(userId) || "").toLowerCase();
+
+    var owned = false;
+    await kv.update(alertsKey(sku), function (current: any) {
+      var rec = parseAlertRecord(current, sku);
+      var alert = rec.alerts.find(function (a) { return a.id === id; });
+      owned = !!alert && (alert.userId === userId || (!!email && alert.email === email));
+      if (!owned) return undefined;
+      return unsubscribeAlert(rec, id, Date.now()) || undefined;
+    });
+    if (!owned) return c.json({ error: "Aviso nao encontrado." }, 404);
+    return c.json({ ok: true });
+  } catch (e: any) {
+    console.error("[ProductAlerts] User delete error:", e);
+    return c.json({ error: "Erro ao cancelar aviso." }, 500);
+  }
+});
+
+// GET /admin/product-alerts — subscriber counts and lists per product
+app.get(BASE + "/admin/product-alerts", async (c) => {
+  try {
+    var rawList = await kv.getByPrefix(PRODUCT_ALERT_PREFIX);
+    var products: any[] = [];
+    var totals = { pending: 0, stock: 0, price: 0, sent: 0, unsubscribed: 0 };
+    for (var raw of rawList || []) {
+      try {
+        var rec = parseAlertRecord(raw, "");
+        if (!rec.sku || rec.alerts.length === 0) continue;
+        var counts = alertCounts(rec);
+        totals.pending += counts.pending;
+        totals.stock += counts.stock;
+        totals.price += counts.price;
+        totals.sent += counts.sent;
+        totals.unsubscribed += counts.unsubscribed;
+        var lastSentAt = 0;
+        for (var a of rec.alerts) if (a.sentAt && a.sentAt > lastSentAt) lastSentAt = a.sentAt;
+        products.push({
+          sku: rec.sku,
+          titulo: rec.titulo,
+          counts: counts,
+          lastSentAt: lastSentAt || null,
+          subscribers: rec.alerts.slice().sort(function (x, y) { return y.createdAt - x.createdAt; }).map(function (al) {
+            return {
+              id: al.id, type: al.type, email: al.email, phone: al.phone, name: al.name, userId: al.userId,
+              targetCents: al.targetCents, source: al.source, status: al.status, createdAt: al.createdAt,
+              sentAt: al.sentAt || null, sentPriceCents: al.sentPriceCents ?? null, delivery: al.delivery || null,
+            };
+          }),
+        });
+      } catch { /* skip malformed */ }
+    }
+    products.sort(function (x, y) { return (y.counts.stock + y.counts.price) - (x.counts.stock + x.counts.price) || x.sku.localeCompare(y.sku); });
+    return c.json({ products: products, totals: totals });
+  } catch (e: any) {
+    console.error("[ProductAlerts] Admin list error:", e);
+    return c.json({ error: "Erro ao carregar avisos de produto." }, 500);
+  }
+});
+
+// POST /admin/product-alerts/check — run one SKU's check now
+app.post(BASE + "/admin/product-alerts/check", async (c) => {
+  try {
+    var body = await c.req.json().catch(function () { return null; });
+    var chValid = validate(body, { sku: { required: true, type: "string", maxLen: 100 } });
+    if (!chValid.ok) return c.json({ error: chValid.errors[0] || "Dados invalidos." }, 400);
+    var sku = String(chValid.sanitized.sku).trim();
+    var sent = await _checkProductAlerts(sku);
+    var state = await _productAlertState(sku);
+    return c.json({ ok: true, sent: sent, available: state.available, priceCents: state.priceCents });
+  } catch (e: any) {
+    console.error("[ProductAlerts] Admin check error:", e);
+    return c.json({ error: "Erro ao verificar avisos." }, 500);
+  }
+});
+
+// POST /admin/product-alerts/unsubscribe — remove one subscriber
+app.post(BASE + "/admin/product-alerts/unsubscribe", async (c) => {
+  try {
+    var body = await c.req.json().catch(function () { return null; });
+    var auValid = validate(body, {
+      sku: { required: true, type: "string", maxLen: 100 },
+      id: { required: true, type: "string", maxLen: 60 },
+    });
+    if (!auValid.ok) return c.json({ error: auValid.errors[0] || "Dados invalidos." }, 400);
+    var sku = String(auValid.sanitized.sku).trim();
+    var changed = false;
+    await kv.update(alertsKey(sku), function (current: any) {
+      var next = unsubscribeAlert(parseAlertRecord(current, sku), String(auValid.sanitized.id), Date.now());
+      changed = !!next;
+      return next || undefined;
+    });
+    if (!changed) return c.json({ error: "Aviso nao encontrado ou ja encerrado." }, 404);
+    return c.json({ ok: true });
+  } catch (e: any) {
+    console.error("[ProductAlerts] Admin unsubscribe error:", e);
+    return c.json({ error: "Erro ao cancelar aviso." }, 500);
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════════
 // ─── REELS / SHORT VIDEOS (TikTok-style product videos) ──────────
 // Supports showOnProduct field for product page video badges
@@ -27936,6 +34849,104 @@ setTimeout(function () {
   setInterval(_processAbandonedCartsCron, ABANDONED_CART_INTERVAL_MS);
 }, 120000);
 
+// Product alerts: fallback sweep over watched SKUs (cache refreshes check them sooner)
+var PRODUCT_ALERT_INTERVAL_MS = 30 * 60 * 1000;
+
+async function _processProductAlertsCron() {
+  try {
+    var skus = parseAlertIndex(await _kvGetWithRetry(PRODUCT_ALERT_INDEX_KEY));
+    if (skus.length === 0) return;
+    var sent = 0;
+    for (var sku of skus) {
+      sent += await _checkProductAlerts(sku);
+      // Per-cycle ceiling: the rest waits for the next run
+      if (sent >= MAX_ALERT_SENDS_PER_RUN * 5) break;
+    }
+    if (sent > 0) console.log("[CRON:ProductAlerts] Sent " + sent + " alert(s) across " + skus.length + " watched SKU(s).");
+  } catch (e) {
+    console.error("[CRON:ProductAlerts] Error:", e);
+  }
+}
+
+setTimeout(function () {
+  _processProductAlertsCron();
+  setInterval(_processProductAlertsCron, PRODUCT_ALERT_INTERVAL_MS);
+}, 180000);
+
+// Scheduled SIGE catalog sync: ticks every 5 minutes, runs a step when the configured interval is due
+var SIGE_SYNC_TICK_MS = 5 * 60 * 1000;
+
+async function _processSigeCatalogSyncCron() {
+  try {
+    var settings = parseSyncSettings(await _kvGetWithRetry(SIGE_SYNC_SETTINGS_KEY));
+    var state = parseSyncState(await _kvGetWithRetry(SIGE_SYNC_STATE_KEY));
+    if (!syncIsDue(settings, state, Date.now())) return;
+    var run = await _runSigeCatalogSync("cron");
+    if (run && run.status !== "skipped") {
+      console.log("[CRON:SigeSync] " + run.status + ": " + run.skus + " SKU(s), " + run.changes + " change(s), " + run.failures.length + " failure(s).");
+    }
+  } catch (e) {
+    console.error("[CRON:SigeSync] Error:", e);
+  }
+}
+
+setTimeout(function () {
+  _processSigeCatalogSyncCron();
+  setInterval(_processSigeCatalogSyncCron, SIGE_SYNC_TICK_MS);
+}, 240000);
+
+// Email campaign queue: starts due scheduled campaigns and sends the next throttled batch
+var EMKT_QUEUE_TICK_MS = 60 * 1000;
+
+async function _processEmktQueueCron() {
+  try {
+    var sent = await _runEmktQueue();
+    if (sent > 0) console.log("[CRON:EmktQueue] Handed " + sent + " e-mail(s) to SMTP.");
+  } catch (e) {
+    console.error("[CRON:EmktQueue] Error:", e);
+  }
+}
+
+// Short warm-up: a send interrupted by a restart resumes within a couple of minutes
+setTimeout(function () {
+  _processEmktQueueCron();
+  setInterval(_processEmktQueueCron, EMKT_QUEUE_TICK_MS);
+}, 90000);
+
+// WhatsApp broadcasts to a segment: next batch every minute
+var WA_BROADCAST_TICK_MS = 60 * 1000;
+
+async function _processWaBroadcastsCron() {
+  try {
+    var sent = await _runWaBroadcasts();
+    if (sent > 0) console.log("[CRON:WaBroadcast] Sent " + sent + " WhatsApp message(s).");
+  } catch (e) {
+    console.error("[CRON:WaBroadcast] Error:", e);
+  }
+}
+
+setTimeout(function () {
+  _processWaBroadcastsCron();
+  setInterval(_processWaBroadcastsCron, WA_BROADCAST_TICK_MS);
+}, 100000);
+
+// Review requests: sends the post-purchase requests that became due
+var REVIEW_REQUEST_TICK_MS = 15 * 60 * 1000;
+
+async function _processReviewRequestsCron() {
+  try {
+    var sent = await _runReviewRequests();
+    if (sent > 0) console.log("[CRON:ReviewRequests] Sent " + sent + " review request(s).");
+  } catch (e) {
+    console.error("[CRON:ReviewRequests] Error:", e);
+  }
+}
+
+setTimeout(function () {
+  _processReviewRequestsCron();
+  setInterval(_processReviewRequestsCron, REVIEW_REQUEST_TICK_MS);
+}, 150000);
+
 // Seed maint_bypass_token if not already set (one-time migration from hardcoded token)
 (async function () {
   try {
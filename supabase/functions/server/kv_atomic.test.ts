@@ -0,0 +1,160 @@
+// ═══════════════════════════════════════════════════════════════════════
+// KV_ATOMIC.TEST.TS — Escritores concorrentes contra um Postgres local
+//
+// Roda contra o Supabase local (nao usa mock: o que garante a exclusao e o
+// "update ... where version = N" e a funcao de lock no banco):
+//
+//   supabase start
+//   psql "$DB_URL" -c "create table if not exists kv_store_b7b07654 (key text primary key, value jsonb not null)"
+//   psql "$DB_URL" -f supabase/migrations/20261018000000_kv_version_and_locks.sql
+//   psql "$DB_URL" -f supabase/migrations/20261019000000_kv_renew_lock.sql
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=<service_role key> \
+//     deno test --allow-net --allow-env supabase/functions/server/kv_atomic.test.ts
+// ═══════════════════════════════════════════════════════════════════════
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert@1";
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import * as kvAtomic from "./kv_atomic.tsx";
+
+const PREFIX = "test:kv_atomic:" + crypto.randomUUID().slice(0, 8) + ":";
+
+const db = () => createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+async function cleanup() {
+  await db().from("kv_store_b7b07654").delete().like("key", PREFIX.replace(/[\\%_]/g, "\\$&") + "%");
+  await db().from("kv_locks_b7b07654").delete().like("name", PREFIX.replace(/[\\%_]/g, "\\$&") + "%");
+}
+
+// Both read the same version; the database must accept exactly one write
+Deno.test("setIfVersion: two writers on the same version, one wins", async () => {
+  const key = PREFIX + "cas";
+  try {
+    assert(await kvAtomic.setIfVersion(key, { n: 0 }, null));
+    const seen = await kvAtomic.getVersioned(key);
+    assert(seen);
+    const results = await Promise.all([
+      kvAtomic.setIfVersion(key, { n: 1, by: "a" }, seen.version),
+      kvAtomic.setIfVersion(key, { n: 1, by: "b" }, seen.version),
+    ]);
+    assertEquals(results.filter(Boolean).length, 1);
+    const after = await kvAtomic.getVersioned(key);
+    assertEquals(after?.value.by, results[0] ? "a" : "b");
+    assertEquals(after?.version, seen.version + 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("setIfVersion: two writers creating the same key, one wins", async () => {
+  const key = PREFIX + "create";
+  try {
+    const results = await Promise.all([
+      kvAtomic.setIfVersion(key, { by: "a" }, null),
+      kvAtomic.setIfVersion(key, { by: "b" }, null),
+    ]);
+    assertEquals(results.filter(Boolean).length, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+// Racing update()s: every increment lands, none is lost to a stale read.
+// Five writers stay under MAX_CAS_ATTEMPTS (each round at least one commits).
+Deno.test("update: concurrent increments are all applied", async () => {
+  const key = PREFIX + "counter";
+  try {
+    const writers = 5;
+    const outs = await Promise.all(Array.from({ length: writers }, () =>
+      kvAtomic.update(key, (current) => ({ n: (current?.n || 0) + 1 }))
+    ));
+    assert(outs.every((o) => o.written));
+    const final = await kvAtomic.getVersioned(key);
+    assertEquals(final?.value.n, writers);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("update: a coupon with one use left is consumed once", async () => {
+  const key = PREFIX + "coupon";
+  try {
+    await kvAtomic.setIfVersion(key, { maxUses: 1, usedCount: 0 }, null);
+    const outs = await Promise.all(Array.from({ length: 4 }, () =>
+      kvAtomic.update(key, (c) => c.usedCount >= c.maxUses ? undefined : { ...c, usedCount: c.usedCount + 1 })
+    ));
+    assertEquals(outs.filter((o) => o.written).length, 1);
+    assertEquals((await kvAtomic.getVersioned(key))?.value.usedCount, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("tryLock: concurrent callers, one owner", async () => {
+  const name = PREFIX + "trylock";
+  try {
+    const owners = await Promise.all(Array.from({ length: 6 }, () => kvAtomic.tryLock(name)));
+    assertEquals(owners.filter(Boolean).length, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+// Read-sleep-write under the lock: without exclusion both would read 0 and write 1
+Deno.test("withLock: racing writers never overlap", async () => {
+  const name = PREFIX + "withlock";
+  try {
+    await kvAtomic.setIfVersion(name, { n: 0 }, null);
+    let inside = 0;
+    let maxInside = 0;
+    const writer = () => kvAtomic.withLock(name, async (lock) => {
+      inside++;
+      maxInside = Math.max(maxInside, inside);
+      const current = await kvAtomic.getVersioned(name);
+      await sleep(300);
+      lock.assertHeld();
+      await db().from("kv_store_b7b07654").update({ value: { n: current!.value.n + 1 } }).eq("key", name);
+      inside--;
+    });
+    await Promise.all([writer(), writer(), writer()]);
+    assertEquals(maxInside, 1);
+    assertEquals((await kvAtomic.getVersioned(name))?.value.n, 3);
+  } finally {
+    await cleanup();
+  }
+});
+
+// fn outlives the TTL: the heartbeat keeps the lock, nobody else gets in
+Deno.test("withLock: lock is renewed while fn runs past the TTL", async () => {
+  const name = PREFIX + "renew";
+  try {
+    let stolen: string | null = "not tried";
+    await kvAtomic.withLock(name, async (lock) => {
+      await sleep(3500);
+      stolen = await kvAtomic.tryLock(name);
+      assert(lock.held());
+    }, 1500);
+    assertEquals(stolen, null);
+    // Released afterwards
+    assert(await kvAtomic.tryLock(name));
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("withLock: holder that lost the lock cannot commit", async () => {
+  const name = PREFIX + "lost";
+  try {
+    await assertRejects(() => kvAtomic.withLock(name, async (lock) => {
+      // Someone else takes over (as after an expired TTL)
+      await db().from("kv_locks_b7b07654").update({ owner: "other" }).eq("name", name);
+      await sleep(1200);
+      lock.assertHeld();
+    }, 1500), kvAtomic.KvLockLostError);
+  } finally {
+    await cleanup();
+  }
+});
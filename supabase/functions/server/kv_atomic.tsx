@@ -0,0 +1,186 @@
+// ═══════════════════════════════════════════════════════════════════════
+// KV_ATOMIC.TSX — Compare-and-swap e locks duraveis sobre a tabela KV
+//
+// kv_store.tsx (autogerado) so tem get/set. Com varios isolates rodando a
+// mesma Edge Function, o withMutex de index.tsx nao basta: dois isolates
+// leem usedCount=4 e ambos gravam 5. Aqui:
+//
+//   update(key, fn)     → le valor + versao, grava so se a versao nao mudou;
+//                         em conflito le de novo e reaplica fn (sem efeitos
+//                         colaterais dentro de fn — ela pode rodar varias vezes)
+//   withLock(name, fn)  → linha em kv_locks_b7b07654 enquanto fn roda; para
+//                         trechos com efeitos externos (SIGE, gateway de
+//                         pagamento) que nao podem ser repetidos
+//
+// Requer supabase/migrations/20261018000000_kv_version_and_locks.sql e
+// 20261019000000_kv_renew_lock.sql. Sem elas tudo aqui lanca
+// KvSchemaMissingError: um CAS que vira upsert ou um lock que sempre e
+// concedido nao protegem nada, e falhar e melhor que vender o mesmo estoque
+// duas vezes.
+// ═══════════════════════════════════════════════════════════════════════
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+
+const TABLE = "kv_store_b7b07654";
+const LOCK_TABLE = "kv_locks_b7b07654";
+const LOCK_FN = "kv_try_lock_b7b07654";
+const RENEW_FN = "kv_renew_lock_b7b07654";
+
+/** Lock validity: a holder that dies frees it after this */
+export const LOCK_TTL_MS = 30000;
+/** How long withLock waits for a busy lock before giving up */
+export const LOCK_WAIT_MS = 10000;
+const MAX_CAS_ATTEMPTS = 8;
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+export class KvLockTimeoutError extends Error {
+  constructor(name: string) {
+    super("Lock ocupado: " + name);
+    this.name = "KvLockTimeoutError";
+  }
+}
+
+export class KvLockLostError extends Error {
+  constructor(name: string) {
+    super("Lock perdido (vencido e tomado por outro): " + name);
+    this.name = "KvLockLostError";
+  }
+}
+
+export class KvSchemaMissingError extends Error {
+  constructor(what: string) {
+    super("[kv_atomic] " + what + " indisponivel — aplique as migrations 20261018000000 e 20261019000000");
+    this.name = "KvSchemaMissingError";
+  }
+}
+
+export class KvConflictError extends Error {
+  constructor(key: string) {
+    super("Conflito de versao persistente: " + key);
+    this.name = "KvConflictError";
+  }
+}
+
+// 42703 = column does not exist, 42P01 = table, PGRST202/42883 = function
+function _missingSchema(error: any): boolean {
+  const code = String(error?.code || "");
+  return code === "42703" || code === "42P01" || code === "42883" || code === "PGRST202" || code === "PGRST205";
+}
+
+function _fail(error: any, what: string): never {
+  if (_missingSchema(error)) throw new KvSchemaMissingError(what);
+  throw new Error(error.message);
+}
+
+const _sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+// Value and version of a key; null when the key does not exist.
+export const getVersioned = async (key: string): Promise<{ value: any; version: number } | null> => {
+  const { data, error } = await client().from(TABLE).select("value, version").eq("key", key).maybeSingle();
+  if (error) _fail(error, "coluna version");
+  return data ? { value: data.value, version: Number(data.version) } : null;
+};
+
+// Writes only if the key is still at `version` (null = only if it does not
+// exist). False on conflict.
+export const setIfVersion = async (key: string, value: any, version: number | null): Promise<boolean> => {
+  const supabase = client();
+  if (version === null) {
+    const { error } = await supabase.from(TABLE).insert({ key, value });
+    if (!error) return true;
+    if (String(error.code) === "23505") return false;
+    throw new Error(error.message);
+  }
+  const { data, error } = await supabase.from(TABLE).update({ value }).eq("key", key).eq("version", version).select("version");
+  if (error) _fail(error, "coluna version");
+  return Array.isArray(data) && data.length > 0;
+};
+
+// Read-modify-write with retry on conflict. fn gets the current value
+// (undefined when missing) and returns the new one, or undefined to leave the
+// key as is. `value` is what the key holds afterwards.
+export const update = async (
+  key: string,
+  fn: (current: any) => any | Promise<any>,
+): Promise<{ written: boolean; value: any; attempts: number }> => {
+  for (let attempt = 1; attempt <= MAX_CAS_ATTEMPTS; attempt++) {
+    const current = await getVersioned(key);
+    const next = await fn(current ? current.value : undefined);
+    if (next === undefined) return { written: false, value: current ? current.value : undefined, attempts: attempt };
+    if (await setIfVersion(key, next, current ? current.version : null)) {
+      return { written: true, value: next, attempts: attempt };
+    }
+    await _sleep(Math.floor(Math.random() * 20 * attempt));
+  }
+  throw new KvConflictError(key);
+};
+
+// Owner token when acquired, null while someone else holds a valid lock.
+export const tryLock = async (name: string, ttlMs: number = LOCK_TTL_MS): Promise<string | null> => {
+  const owner = crypto.randomUUID();
+  const { data, error } = await client().rpc(LOCK_FN, { p_name: name, p_owner: owner, p_ttl_ms: ttlMs });
+  if (error) _fail(error, "tabela de locks");
+  return data === true ? owner : null;
+};
+
+// Pushes expiry to now + ttlMs. False when `owner` no longer holds the lock.
+export const renewLock = async (name: string, owner: string, ttlMs: number = LOCK_TTL_MS): Promise<boolean> => {
+  const { data, error } = await client().rpc(RENEW_FN, { p_name: name, p_owner: owner, p_ttl_ms: ttlMs });
+  if (error) _fail(error, "renovacao de lock");
+  return data === true;
+};
+
+// Releases only if `owner` still holds it (an expired lock may belong to someone else now).
+export const unlock = async (name: string, owner: string): Promise<void> => {
+  const { error } = await client().from(LOCK_TABLE).delete().eq("name", name).eq("owner", owner);
+  if (error) console.error("[kv_atomic] unlock " + name + ": " + error.message);
+};
+
+/** Handed to withLock's fn; call assertHeld() right before committing */
+export interface KvLockHandle {
+  held: () => boolean;
+  assertHeld: () => void;
+}
+
+// Runs fn holding the lock `name`. Waits up to LOCK_WAIT_MS, then throws
+// KvLockTimeoutError. The lock is renewed every ttlMs/3 while fn runs; if a
+// renewal finds it taken (isolate stalled past the TTL) the handle reports it:
+// fn calls lock.assertHeld() before its write and aborts with KvLockLostError.
+export const withLock = async <T,>(name: string, fn: (lock: KvLockHandle) => Promise<T>, ttlMs: number = LOCK_TTL_MS): Promise<T> => {
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  let delay = 40;
+  let owner = await tryLock(name, ttlMs);
+  while (!owner) {
+    if (Date.now() >= deadline) throw new KvLockTimeoutError(name);
+    await _sleep(delay + Math.floor(Math.random() * delay));
+    delay = Math.min(delay * 2, 400);
+    owner = await tryLock(name, ttlMs);
+  }
+  const held = owner;
+  let lost = false;
+  let expiresAt = Date.now() + ttlMs;
+  const heartbeat = setInterval(() => {
+    if (lost) return;
+    renewLock(name, held, ttlMs).then((ok) => {
+      if (ok) expiresAt = Date.now() + ttlMs;
+      else lost = true;
+    }).catch((e) => console.error("[kv_atomic] renew " + name + ": " + e.message));
+  }, Math.max(1000, Math.floor(ttlMs / 3)));
+  // A failed renewal is not proof of loss, but past expiresAt nobody can tell
+  const isHeld = () => !lost && Date.now() < expiresAt;
+  const handle: KvLockHandle = {
+    held: isHeld,
+    assertHeld: () => { if (!isHeld()) throw new KvLockLostError(name); },
+  };
+  try {
+    const out = await fn(handle);
+    if (!isHeld()) console.error("[kv_atomic] " + name + ": lock perdido durante a execucao");
+    return out;
+  } finally {
+    clearInterval(heartbeat);
+    if (!lost) await unlock(name, held);
+  }
+};
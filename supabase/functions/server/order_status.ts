@@ -0,0 +1,209 @@
+// ═══════════════════════════════════════════════════════════════════════
+// ORDER_STATUS.TS — Maquina de estados dos pedidos (user_order:*) (sem acesso a KV)
+//
+// Fluxo principal:
+//   awaiting_payment → paid → invoiced → picking → shipped → delivered
+// Retirada na loja (shippingOption "pickup:<filial>", ver pickup.ts):
+//   picking → ready_for_pickup → delivered   (shipped nao se aplica)
+// Ramos:
+//   cancelado:  awaiting_payment | paid | invoiced | picking | ready_for_pickup → cancelled
+//   devolucao:  delivered → return_requested → returned
+//               (return_requested → delivered quando a devolucao e recusada)
+// Toda mudanca passa por transitionOrder(), que rejeita transicoes ilegais e
+// grava { from, to, at, by, note } em order.statusHistory.
+// Status legados ("canceled", "pago", "enviado", "completed", ...) sao
+// normalizados antes da validacao.
+// ═══════════════════════════════════════════════════════════════════════
+
+import { isPickupOrder } from "./pickup.ts";
+
+export type OrderStatus =
+  | "awaiting_payment"
+  | "paid"
+  | "invoiced"
+  | "picking"
+  | "shipped"
+  | "ready_for_pickup"
+  | "delivered"
+  | "cancelled"
+  | "return_requested"
+  | "returned";
+
+export var ORDER_STATUSES: OrderStatus[] = [
+  "awaiting_payment", "paid", "invoiced", "picking", "shipped", "ready_for_pickup", "delivered",
+  "cancelled", "return_requested", "returned",
+];
+
+export var ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  awaiting_payment: ["paid", "cancelled"],
+  paid: ["invoiced", "cancelled"],
+  invoiced: ["picking", "cancelled"],
+  picking: ["shipped", "ready_for_pickup", "cancelled"],
+  shipped: ["delivered"],
+  ready_for_pickup: ["delivered", "cancelled"],
+  delivered: ["return_requested"],
+  return_requested: ["returned", "delivered"],
+  returned: [],
+  cancelled: [],
+};
+
+/** Statuses that count as a completed purchase (payment confirmed, not cancelled/returned) */
+export var PURCHASED_ORDER_STATUSES: OrderStatus[] = ["paid", "invoiced", "picking", "shipped", "ready_for_pickup", "delivered", "return_requested"];
+
+var LEGACY_ORDER_STATUS: Record<string, OrderStatus> = {
+  pending: "awaiting_payment",
+  pendente: "awaiting_payment",
+  sige_registered: "awaiting_payment",
+  pago: "paid",
+  approved: "paid",
+  confirmed: "paid",
+  faturado: "invoiced",
+  separacao: "picking",
+  enviado: "shipped",
+  em_transporte: "shipped",
+  entregue: "delivered",
+  completed: "delivered",
+  canceled: "cancelled",
+  cancelado: "cancelled",
+  expired: "cancelled",
+  refunded: "cancelled",
+  devolvido: "returned",
+};
+
+export interface OrderActor {
+  type: "customer" | "admin" | "system";
+  /** userId for customers/admins, integration name for system ("mercadopago", "paghiper", ...) */
+  id?: string | null;
+  name?: string | null;
+}
+
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+  by: OrderActor;
+  note?: string;
+}
+
+export type OrderTransitionResult =
+  | { ok: true; changed: boolean }
+  | { ok: false; error: string; allowed: OrderStatus[] };
+
+var MAX_HISTORY = 100;
+
+var MILESTONE_FIELDS: Partial<Record<OrderStatus, string>> = {
+  paid: "paidAt",
+  invoiced: "invoicedAt",
+  shipped: "shippedAt",
+  ready_for_pickup: "readyForPickupAt",
+  delivered: "deliveredAt",
+  cancelled: "cancelledAt",
+  returned: "returnedAt",
+};
+
+export function isOrderStatus(raw: any): raw is OrderStatus {
+  return ORDER_STATUSES.indexOf(raw) !== -1;
+}
+
+/**
+ * Maps stored/legacy values onto the state machine. Unknown values → null
+ * (such orders may be moved to any status, so an admin can repair them).
+ */
+export function normalizeOrderStatus(raw: any): OrderStatus | null {
+  var s = String(raw || "").trim().toLowerCase();
+  if (!s) return "awaiting_payment";
+  if (isOrderStatus(s)) return s;
+  return LEGACY_ORDER_STATUS[s] || null;
+}
+
+/** Pickup orders never ship; delivery orders never wait at a branch */
+function _forDelivery(statuses: OrderStatus[], pickup: boolean): OrderStatus[] {
+  var skip: OrderStatus = pickup ? "shipped" : "ready_for_pickup";
+  return statuses.filter(function (s) { return s !== skip; });
+}
+
+export function nextOrderStatuses(current: any, pickup?: boolean): OrderStatus[] {
+  var from = normalizeOrderStatus(current);
+  return _forDelivery(from ? ORDER_TRANSITIONS[from] : ORDER_STATUSES, !!pickup);
+}
+
+export function canTransitionOrder(current: any, to: OrderStatus, pickup?: boolean): boolean {
+  return nextOrderStatuses(current, pickup).indexOf(to) !== -1;
+}
+
+function _actor(a: OrderActor): OrderActor {
+  var out: OrderActor = { type: a.type };
+  if (a.id) out.id = String(a.id).substring(0, 100);
+  if (a.name) out.name = String(a.name).substring(0, 120);
+  return out;
+}
+
+/**
+ * Orders saved before the history existed get a single entry for their current
+ * status, dated at creation. Returns the (mutated) history array.
+ */
+export function ensureOrderHistory(order: any): OrderStatusChange[] {
+  if (Array.isArray(order.statusHistory)) return order.statusHistory;
+  var current = normalizeOrderStatus(order.status) || "awaiting_payment";
+  var first: OrderStatusChange = { from: null, to: current, at: order.createdAt || new Date().toISOString(), by: { type: "system" } };
+  if (current !== "awaiting_payment") first.note = "Status anterior ao historico";
+  order.statusHistory = [first];
+  return order.statusHistory;
+}
+
+/** First history entry of a new order (called once, before the order is persisted) */
+export function startOrderHistory(order: any, status: OrderStatus, actor: OrderActor, note?: string): void {
+  var first: OrderStatusChange = { from: null, to: status, at: order.createdAt || new Date().toISOString(), by: _actor(actor) };
+  if (note) first.note = note;
+  order.status = status;
+  order.statusHistory = [first];
+}
+
+/**
+ * Moves the order to `to` when the state machine allows it and appends the change
+ * to order.statusHistory. Same-status calls are a no-op (webhooks retry).
+ * `force` skips the transition check — reserved for repair tools that undo a wrong
+ * status; the history note should say why.
+ */
+export function transitionOrder(
+  order: any,
+  to: OrderStatus,
+  actor: OrderActor,
+  opts?: { note?: string; force?: boolean; at?: string }
+): OrderTransitionResult {
+  var history = ensureOrderHistory(order);
+  var from = normalizeOrderStatus(order.status);
+  if (from === to) {
+    if (order.status !== to) order.status = to;
+    return { ok: true, changed: false };
+  }
+  var allowed = nextOrderStatuses(order.status, isPickupOrder(order));
+  if (!(opts && opts.force) && allowed.indexOf(to) === -1) {
+    return {
+      ok: false,
+      error: "Transicao de status invalida: " + (from || String(order.status)) + " → " + to + ".",
+      allowed: allowed.slice(),
+    };
+  }
+
+  var at = (opts && opts.at) || new Date().toISOString();
+  var entry: OrderStatusChange = { from: from, to: to, at: at, by: _actor(actor) };
+  if (opts && opts.note) entry.note = String(opts.note).substring(0, 500);
+  history.push(entry);
+  if (history.length > MAX_HISTORY) order.statusHistory = history.slice(history.length - MAX_HISTORY);
+
+  order.status = to;
+  order.updatedAt = at;
+  if (actor.type !== "system" && actor.id) order.updatedBy = actor.id;
+  var milestone = MILESTONE_FIELDS[to];
+  if (milestone && !order[milestone]) order[milestone] = at;
+  return { ok: true, changed: true };
+}
+
+/** History as shown to the customer: who changed it is reduced to the actor type, notes stay internal */
+export function publicOrderHistory(order: any): OrderStatusChange[] {
+  var history: OrderStatusChange[] = Array.isArray(order.statusHistory) ? order.statusHistory : ensureOrderHistory({ status: order.status, createdAt: order.createdAt });
+  return history.map(function (h) {
+    return { from: h.from, to: h.to, at: h.at, by: { type: h.by && h.by.type ? h.by.type : "system" } };
+  });
+}
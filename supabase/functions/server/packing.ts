@@ -0,0 +1,252 @@
+// ═══════════════════════════════════════════════════════════════════════
+// PACKING.TS — Peso cubado + divisao do carrinho em volumes (sem acesso a KV)
+//
+// Transportadoras cobram pelo MAIOR entre peso real e peso cubado:
+//   peso cubado (kg) = C × L × A (cm) / 1.000.000 × fator (kg/m³)
+// (ex.: rodoviario 300 kg/m³; Correios ≈ 167 kg/m³, o divisor 6000).
+// Fator 0 = sem cubagem (cobra apenas o peso real, comportamento antigo).
+//
+// packCart() separa as unidades em volumes respeitando os limites de cada
+// transportadora/tabela (peso, comprimento, largura, altura, soma C+L+A):
+// first-fit decrescente por volume. A caixa estimada tem a base da maior peca
+// (maior comprimento × maior largura) e altura suficiente para o volume somado
+// das pecas (nunca menor que a peca mais alta) — pecas pequenas vao ao lado de
+// um escapamento em vez de empilhadas sobre ele. Uma peca que sozinha excede o
+// limite vira um volume "oversize" — a opcao de frete nao e oferecida.
+// Quantidades grandes nao sao cortadas: acima de MAX_PACKAGES volumes o plano
+// sai com manualQuote e a transportadora fica "cotar manualmente".
+// ═══════════════════════════════════════════════════════════════════════
+
+/** 0 = sem limite */
+export interface PackageLimits {
+  maxWeightKg: number;
+  maxLengthCm: number;
+  maxWidthCm: number;
+  maxHeightCm: number;
+  maxSumCm: number;
+}
+
+export interface PackingItem {
+  sku: string;
+  quantity: number;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface PackedBox {
+  items: Array<{ sku: string; quantity: number }>;
+  units: number;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  cubicWeight: number;
+  billedWeight: number;
+  oversize?: boolean;
+}
+
+interface _OpenBox extends PackedBox {
+  /** Sum of the unit volumes (cm³) and the tallest unit */
+  volume: number;
+  tallest: number;
+}
+
+export interface PackingPlan {
+  cubicFactor: number;
+  limits: PackageLimits | null;
+  packages: PackedBox[];
+  totalWeight: number;
+  billedWeight: number;
+  /** SKUs that do not fit the limits even alone */
+  oversize: string[];
+  /** More than MAX_PACKAGES packages: packages/weights are partial, do not quote */
+  manualQuote?: boolean;
+}
+
+/** Carts that need more packages than this are quoted by hand */
+var MAX_PACKAGES = 500;
+var MAX_CUBIC_FACTOR = 1000;
+
+function _round(n: number, digits: number): number {
+  var f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+}
+
+function _pos(v: any, max: number): number {
+  var n = Number(v);
+  if (!isFinite(n) || n <= 0) return 0;
+  return Math.min(n, max);
+}
+
+export function normalizeCubicFactor(raw: any): number {
+  return _round(_pos(raw, MAX_CUBIC_FACTOR), 2);
+}
+
+/** null when no limit is set */
+export function normalizePackageLimits(raw: any): PackageLimits | null {
+  if (!raw || typeof raw !== "object") return null;
+  var limits: PackageLimits = {
+    maxWeightKg: _round(_pos(raw.maxWeightKg, 100000), 3),
+    maxLengthCm: _round(_pos(raw.maxLengthCm, 10000), 1),
+    maxWidthCm: _round(_pos(raw.maxWidthCm, 10000), 1),
+    maxHeightCm: _round(_pos(raw.maxHeightCm, 10000), 1),
+    maxSumCm: _round(_pos(raw.maxSumCm, 30000), 1),
+  };
+  if (!limits.maxWeightKg && !limits.maxLengthCm && !limits.maxWidthCm && !limits.maxHeightCm && !limits.maxSumCm) return null;
+  return limits;
+}
+
+export function cubicWeight(length: number, width: number, height: number, factor: number): number {
+  if (!factor || !(length > 0) || !(width > 0) || !(height > 0)) return 0;
+  return _round(length * width * height / 1000000 * factor, 3);
+}
+
+function _fits(limits: PackageLimits | null, weight: number, length: number, width: number, height: number): boolean {
+  if (!limits) return true;
+  if (limits.maxWeightKg && weight > limits.maxWeightKg) return false;
+  if (limits.maxLengthCm && length > limits.maxLengthCm) return false;
+  if (limits.maxWidthCm && width > limits.maxWidthCm) return false;
+  if (limits.maxHeightCm && height > limits.maxHeightCm) return false;
+  if (limits.maxSumCm && length + width + height > limits.maxSumCm) return false;
+  return true;
+}
+
+/** Identical units of one cart line (dims sorted longest first) */
+interface _Line { sku: string; weight: number; dims: number[]; volume: number; count: number }
+
+/** Height of a box with this footprint holding `volume` cm³ */
+function _boxHeight(length: number, width: number, volume: number, tallest: number): number {
+  var base = length * width;
+  return base > 0 ? Math.max(tallest, volume / base) : tallest;
+}
+
+function _finish(box: _OpenBox, factor: number): PackedBox {
+  var out: PackedBox = {
+    items: box.items,
+    units: box.units,
+    weight: _round(box.weight, 3),
+    length: box.length,
+    width: box.width,
+    height: _round(box.height, 1),
+    cubicWeight: cubicWeight(box.length, box.width, box.height, factor),
+    billedWeight: 0,
+  };
+  out.billedWeight = Math.max(out.weight, out.cubicWeight);
+  if (box.oversize) out.oversize = true;
+  return out;
+}
+
+/** Largest n <= max identical units the box still takes within the limits */
+function _maxFit(limits: PackageLimits | null, box: _OpenBox, line: _Line, max: number): number {
+  var nl = Math.max(box.length, line.dims[0]);
+  var nw = Math.max(box.width, line.dims[1]);
+  var nt = Math.max(box.tallest, line.dims[2]);
+  var lo = 0;
+  var hi = max;
+  while (lo < hi) {
+    var mid = Math.ceil((lo + hi) / 2);
+    if (_fits(limits, box.weight + mid * line.weight, nl, nw, _boxHeight(nl, nw, box.volume + mid * line.volume, nt))) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+function _addUnits(box: _OpenBox, line: _Line, n: number) {
+  box.length = Math.max(box.length, line.dims[0]);
+  box.width = Math.max(box.width, line.dims[1]);
+  box.tallest = Math.max(box.tallest, line.dims[2]);
+  box.volume += n * line.volume;
+  box.height = _boxHeight(box.length, box.width, box.volume, box.tallest);
+  box.weight += n * line.weight;
+  box.units += n;
+  var entry = null;
+  for (var l = 0; l < box.items.length; l++) if (box.items[l].sku === line.sku) entry = box.items[l];
+  if (entry) entry.quantity += n;
+  else box.items.push({ sku: line.sku, quantity: n });
+}
+
+/**
+ * Splits the cart into packages for one carrier. Items without dimensions only
+ * count towards weight; items without weight use defaultWeight per unit.
+ * Identical units are placed in bulk (the quantity is never expanded unit by
+ * unit); past MAX_PACKAGES the plan is flagged manualQuote instead of truncated.
+ */
+export function packCart(items: any[], cubicFactor: any, limitsRaw: any, defaultWeight: number): PackingPlan {
+  var factor = normalizeCubicFactor(cubicFactor);
+  var limits = normalizePackageLimits(limitsRaw);
+  var lines: _Line[] = [];
+  for (var i = 0; i < (items || []).length; i++) {
+    var it = items[i];
+    if (!it) continue;
+    var rawQty = Math.floor(Number(it.quantity));
+    var qty = isFinite(rawQty) && rawQty > 1 ? rawQty : 1;
+    var w = Number(it.weight) > 0 ? Number(it.weight) : defaultWeight;
+    // Longest side first: a pipe lies flat, its length is never stacked
+    var dims = [Number(it.length) || 0, Number(it.width) || 0, Number(it.height) || 0]
+      .map(function (d) { return d > 0 ? d : 0; })
+      .sort(function (a, b) { return b - a; });
+    lines.push({ sku: String(it.sku || ""), weight: w, dims: dims, volume: dims[0] * dims[1] * dims[2], count: qty });
+  }
+  lines.sort(function (a, b) { return b.volume - a.volume || b.weight - a.weight; });
+
+  var boxes: _OpenBox[] = [];
+  var oversize: string[] = [];
+  var manualQuote = false;
+  for (var li = 0; li < lines.length && !manualQuote; li++) {
+    var line = lines[li];
+    var left = line.count;
+    // First fit: fill the open boxes in order, then open new ones
+    for (var b = 0; b < boxes.length && left > 0; b++) {
+      if (boxes[b].oversize) continue;
+      var n = _maxFit(limits, boxes[b], line, left);
+      if (n > 0) {
+        _addUnits(boxes[b], line, n);
+        left -= n;
+      }
+    }
+    while (left > 0) {
+      if (boxes.length >= MAX_PACKAGES) {
+        manualQuote = true;
+        break;
+      }
+      var box: _OpenBox = {
+        items: [], units: 0, weight: 0, length: 0, width: 0, height: 0,
+        cubicWeight: 0, billedWeight: 0, volume: 0, tallest: 0,
+      };
+      boxes.push(box);
+      if (!_fits(limits, line.weight, line.dims[0], line.dims[1], line.dims[2])) {
+        // Already unavailable for this carrier: one volume lists every unit
+        box.oversize = true;
+        if (oversize.indexOf(line.sku) === -1) oversize.push(line.sku);
+        _addUnits(box, line, left);
+        left = 0;
+        continue;
+      }
+      var take = _maxFit(limits, box, line, left);
+      _addUnits(box, line, take);
+      left -= take;
+    }
+  }
+
+  var packages: PackedBox[] = [];
+  var totalWeight = 0;
+  var billed = 0;
+  for (var k = 0; k < boxes.length; k++) {
+    var done = _finish(boxes[k], factor);
+    packages.push(done);
+    totalWeight += done.weight;
+    billed += done.billedWeight;
+  }
+  var plan: PackingPlan = {
+    cubicFactor: factor,
+    limits: limits,
+    packages: packages,
+    totalWeight: _round(totalWeight, 3),
+    billedWeight: _round(billed, 3),
+    oversize: oversize,
+  };
+  if (manualQuote) plan.manualQuote = true;
+  return plan;
+}
@@ -0,0 +1,242 @@
+// ═══════════════════════════════════════════════════════════════════════
+// PICKUP.TS — Click & collect: "Retire na loja" (sem acesso a KV)
+//
+// Cada filial (branch:<id>) com pickupEnabled + sigeCodFilial vira uma opcao
+// de frete gratuita em /shipping/calculate, desde que TODOS os itens do
+// carrinho tenham saldo disponivel naquela filial (GET /product/<id>/balance,
+// linhas por codFilial). A opcao usa carrierId "pickup:<branchId>".
+//
+// Pedido de retirada:
+//   picking → ready_for_pickup (gera pickup.code, e-mail ao cliente)
+//           → delivered (somente com o codigo apresentado no balcao)
+// O pedido no SIGE e criado contra o codFilial da filial escolhida.
+// ═══════════════════════════════════════════════════════════════════════
+
+export var PICKUP_CARRIER_TYPE = "pickup";
+var PICKUP_CARRIER_PREFIX = "pickup:";
+
+/** Business days until a pickup order is usually separated at the branch */
+export var PICKUP_READY_DAYS = 1;
+
+/** Unambiguous characters (no 0/O, 1/I/L) — the code is read aloud at the counter */
+var CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+var CODE_LENGTH = 6;
+
+export interface BranchStockRow {
+  codFilial: string;
+  descFilial: string;
+  disponivel: number;
+}
+
+export interface OrderPickup {
+  branchId: string;
+  nome: string;
+  endereco: string;
+  horario: string;
+  telefone: string;
+  mapQuery: string;
+  codFilial: string;
+  code?: string;
+  readyAt?: string;
+  collectedAt?: string;
+}
+
+export function pickupCarrierId(branchId: string): string {
+  return PICKUP_CARRIER_PREFIX + branchId;
+}
+
+/** Branch id of a pickup carrierId, or null for delivery options */
+export function pickupBranchId(carrierId: any): string | null {
+  var id = String(carrierId || "");
+  if (id.indexOf(PICKUP_CARRIER_PREFIX) !== 0) return null;
+  return id.substring(PICKUP_CARRIER_PREFIX.length).substring(0, 100) || null;
+}
+
+export function isPickupOrder(order: any): boolean {
+  var so = order && order.shippingOption;
+  if (!so) return false;
+  return so.carrierType === PICKUP_CARRIER_TYPE || pickupBranchId(so.carrierId) !== null;
+}
+
+/** Active branch that accepts pickup and is linked to a SIGE filial */
+export function isPickupBranch(branch: any): boolean {
+  return !!branch && branch.active !== false && branch.pickupEnabled === true && !!String(branch.sigeCodFilial || "").trim();
+}
+
+function _num(v: any): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  var n = Number(v);
+  return isNaN(n) ? null : n;
+}
+
+function _firstNum(item: any, fields: string[]): number | null {
+  for (var i = 0; i < fields.length; i++) {
+    var n = _num(item[fields[i]]);
+    if (n !== null) return n;
+  }
+  return null;
+}
+
+/**
+ * Per-filial available stock from a SIGE balance response. Rows of the same
+ * filial (one per local/deposito) are summed.
+ */
+export function parseBranchBalance(data: any): BranchStockRow[] {
+  var rows: any[] = [];
+  if (Array.isArray(data)) rows = data;
+  else if (data && Array.isArray(data.dados)) rows = data.dados;
+  else if (data && Array.isArray(data.data)) rows = data.data;
+  else if (data && Array.isArray(data.items)) rows = data.items;
+  else if (data && Array.isArray(data.content)) rows = data.content;
+
+  var byFilial: Record<string, BranchStockRow> = {};
+  var order: string[] = [];
+  for (var i = 0; i < rows.length; i++) {
+    var r = rows[i];
+    if (!r || typeof r !== "object") continue;
+    var cod = String(r.codFilial ?? r.filial ?? "").trim();
+    var desc = String(r.descFilial || r.nomeFilial || "").trim();
+    if (!cod && !desc) continue;
+    var disp = _firstNum(r, ["disponivel", "qtdDisponivel", "saldoDisponivel", "qtdDisp"]);
+    if (disp === null) {
+      var qtd = _firstNum(r, ["quantidade", "qtdSaldo", "saldo", "saldoFisico", "saldoAtual", "qtdEstoque"]) || 0;
+      var res = _firstNum(r, ["reservado", "qtdReservado", "qtdReserva", "saldoReservado"]) || 0;
+      disp = qtd - res;
+    }
+    var key = cod || desc;
+    if (!byFilial[key]) {
+      byFilial[key] = { codFilial: cod, descFilial: desc, disponivel: 0 };
+      order.push(key);
+    }
+    byFilial[key].disponivel += disp;
+  }
+  return order.map(function (k) { return byFilial[k]; });
+}
+
+function _norm(s: any): string {
+  return String(s || "").trim().toLowerCase().replace(/^0+(?=\d)/, "");
+}
+
+/** Stock of one SKU at a branch; null when the SIGE filial is not in the balance */
+export function branchAvailable(branch: any, rows: BranchStockRow[]): number | null {
+  var code = _norm(branch.sigeCodFilial);
+  if (!code) return null;
+  var found = false;
+  var total = 0;
+  for (var i = 0; i < rows.length; i++) {
+    if (_norm(rows[i].codFilial) === code || _norm(rows[i].descFilial) === code) {
+      found = true;
+      total += rows[i].disponivel;
+    }
+  }
+  return found ? total : null;
+}
+
+/**
+ * Branches where every cart line fits in the branch stock. SKUs without a
+ * balance (stockBySku[sku] missing) rule pickup out — we only offer it when
+ * the store can confirm the items are on the shelf.
+ */
+export function pickupBranchesFor(
+  branches: any[],
+  items: Array<{ sku: string; quantity: number }>,
+  stockBySku: Record<string, BranchStockRow[] | null>
+): any[] {
+  if (!items.length) return [];
+  var out: any[] = [];
+  for (var b = 0; b < branches.length; b++) {
+    var branch = branches[b];
+    if (!isPickupBranch(branch)) continue;
+    var ok = true;
+    for (var i = 0; i < items.length && ok; i++) {
+      var rows = stockBySku[items[i].sku];
+      var avail = rows ? branchAvailable(branch, rows) : null;
+      if (avail === null || avail < items[i].quantity) ok = false;
+    }
+    if (ok) out.push(branch);
+  }
+  return out;
+}
+
+/** Cart lines merged by SKU (same product in two lines, e.g. with and without warranty) */
+export function pickupCartItems(items: any[]): Array<{ sku: string; quantity: number }> {
+  var bySku: Record<string, number> = {};
+  var skus: string[] = [];
+  for (var i = 0; i < (items || []).length; i++) {
+    var it = items[i];
+    var sku = String((it && (it.sku || it.codProduto)) || "").trim();
+    if (!sku) continue;
+    var qty = Math.max(1, Number(it.quantity || it.quantidade || it.qtd) || 1);
+    if (bySku[sku] === undefined) { bySku[sku] = 0; skus.push(sku); }
+    bySku[sku] += qty;
+  }
+  return skus.map(function (s) { return { sku: s, quantity: bySku[s] }; });
+}
+
+/** Shipping option offered for a branch (same shape as the carrier options) */
+export function pickupOption(branch: any): any {
+  return {
+    carrierId: pickupCarrierId(branch.id),
+    carrierName: "Retire na loja — " + String(branch.nome || "Filial"),
+    carrierType: PICKUP_CARRIER_TYPE,
+    price: 0,
+    deliveryDays: PICKUP_READY_DAYS,
+    deliveryText: "Pronto para retirada em ate " + PICKUP_READY_DAYS + " dia util apos o pagamento",
+    free: true,
+    freeReason: "Retirada gratuita",
+    source: "pickup",
+    pickup: {
+      branchId: branch.id,
+      nome: branch.nome || "",
+      endereco: branch.endereco || "",
+      horario: branch.horario || "",
+      telefone: branch.telefone || "",
+      mapQuery: branch.mapQuery || "",
+    },
+  };
+}
+
+/** Branch snapshot kept on the order (the branch may be edited or removed later) */
+export function orderPickupFromBranch(branch: any): OrderPickup {
+  return {
+    branchId: String(branch.id),
+    nome: String(branch.nome || ""),
+    endereco: String(branch.endereco || ""),
+    horario: String(branch.horario || ""),
+    telefone: String(branch.telefone || ""),
+    mapQuery: String(branch.mapQuery || ""),
+    codFilial: String(branch.sigeCodFilial || ""),
+  };
+}
+
+export function generatePickupCode(): string {
+  var bytes = new Uint8Array(CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  var out = "";
+  for (var i = 0; i < CODE_LENGTH; i++) out += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  return out;
+}
+
+export function pickupCodeMatches(order: any, code: any): boolean {
+  var expected = order && order.pickup && order.pickup.code;
+  if (!expected) return false;
+  return String(code || "").replace(/[\s-]/g, "").toUpperCase() === String(expected).toUpperCase();
+}
+
+/** Pickup info for listings: the code only goes to the customer who will present it */
+export function publicPickup(pickup: any, includeCode: boolean): any {
+  if (!pickup) return null;
+  var out: any = {
+    branchId: pickup.branchId,
+    nome: pickup.nome,
+    endereco: pickup.endereco,
+    horario: pickup.horario,
+    telefone: pickup.telefone,
+    mapQuery: pickup.mapQuery,
+    readyAt: pickup.readyAt || null,
+    collectedAt: pickup.collectedAt || null,
+    hasCode: !!pickup.code,
+  };
+  if (includeCode && pickup.code) out.code = pickup.code;
+  return out;
+}
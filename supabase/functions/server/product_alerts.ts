@@ -0,0 +1,256 @@
+// ═══════════════════════════════════════════════════════════════════════
+// PRODUCT_ALERTS.TS — Avisos "chegou no estoque" e "baixou o preco" (sem acesso a KV)
+//
+// product_alerts:<sku> → { sku, titulo, alerts[] } — um aviso por e-mail e
+// tipo (o mesmo cliente pedindo de novo atualiza o preco-alvo). Cliente logado
+// ou visitante (so e-mail). O WhatsApp so vem do cadastro do cliente logado
+// com consentimento; o visitante recebe um link assinado e o aviso fica
+// "pending" (nao dispara) ate ele confirmar que o e-mail e dele.
+// product_alert_skus → SKUs com aviso ativo: o que a atualizacao do cache de
+// saldo/preco e o cron olham.
+//
+// Disparo: saldo disponivel (SIGE − reservas de checkout) > 0, ou preco de
+// tabela ≤ preco-alvo. O aviso e marcado "sent" ANTES do envio (um isolate
+// que pegou o aviso e o unico a mandar) e recebe o resultado da entrega
+// depois. Cada aviso dispara uma vez; para receber de novo, o cliente se
+// inscreve outra vez. O link de descadastro leva sku + id assinados.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type ProductAlertType = "stock" | "price";
+export type ProductAlertStatus = "pending" | "active" | "sent" | "unsubscribed";
+export type ProductAlertSource = "product" | "favorites";
+export type AlertDeliveryResult = "sent" | "failed" | "skipped";
+
+export interface ProductAlertDelivery {
+  email: AlertDeliveryResult;
+  whatsapp: AlertDeliveryResult;
+  error?: string;
+}
+
+export interface ProductAlert {
+  id: string;
+  type: ProductAlertType;
+  email: string;
+  /** Digits with country code (55...), null = no WhatsApp */
+  phone: string | null;
+  userId: string | null;
+  name: string;
+  /** Price alerts fire at or below this (cents) */
+  targetCents: number | null;
+  source: ProductAlertSource;
+  status: ProductAlertStatus;
+  createdAt: number;
+  updatedAt: number;
+  sentAt?: number;
+  sentPriceCents?: number | null;
+  delivery?: ProductAlertDelivery;
+  unsubscribedAt?: number;
+  confirmedAt?: number;
+}
+
+export interface ProductAlertRecord {
+  sku: string;
+  titulo: string;
+  alerts: ProductAlert[];
+  updatedAt: number;
+}
+
+/** What the product looks like now (null price = no cached price) */
+export interface ProductAlertState {
+  available: number;
+  priceCents: number | null;
+}
+
+export interface ProductAlertCounts {
+  pending: number;
+  stock: number;
+  price: number;
+  sent: number;
+  unsubscribed: number;
+}
+
+export var PRODUCT_ALERT_PREFIX = "product_alerts:";
+export var PRODUCT_ALERT_INDEX_KEY = "product_alert_skus";
+/** Active subscribers one SKU accepts */
+export var MAX_ALERTS_PER_SKU = 1000;
+/** Messages one SKU sends per check; the rest wait for the next one */
+export var MAX_ALERT_SENDS_PER_RUN = 40;
+
+var DAY = 24 * 60 * 60 * 1000;
+/** Sent/unsubscribed alerts stay this long (admin history), then are dropped */
+var ALERT_HISTORY_MS = 90 * DAY;
+/** Guest alerts not confirmed by e-mail within this are dropped */
+export var PENDING_ALERT_MS = 7 * DAY;
+
+export function alertsKey(sku: string): string {
+  return PRODUCT_ALERT_PREFIX + sku;
+}
+
+export function parseAlertRecord(raw: any, sku: string): ProductAlertRecord {
+  var rec = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!rec || !Array.isArray(rec.alerts)) return { sku: sku, titulo: "", alerts: [], updatedAt: 0 };
+  return rec;
+}
+
+export function parseAlertIndex(raw: any): string[] {
+  var list = typeof raw === "string" ? JSON.parse(raw) : raw;
+  return Array.isArray(list) ? list.filter(function (s: any) { return typeof s === "string" && s; }) : [];
+}
+
+/** Brazilian mobile → 55DDDNNNNNNNNN; null when it does not look like a phone */
+export function normalizeAlertPhone(raw: any): string | null {
+  var d = String(raw || "").replace(/\D/g, "");
+  if (d.length === 10 || d.length === 11) d = "55" + d;
+  if ((d.length === 12 || d.length === 13) && d.indexOf("55") === 0) return d;
+  return null;
+}
+
+export function activeAlerts(rec: ProductAlertRecord): ProductAlert[] {
+  return rec.alerts.filter(function (a) { return a.status === "active"; });
+}
+
+export function alertCounts(rec: ProductAlertRecord): ProductAlertCounts {
+  var counts: ProductAlertCounts = { pending: 0, stock: 0, price: 0, sent: 0, unsubscribed: 0 };
+  for (var i = 0; i < rec.alerts.length; i++) {
+    var a = rec.alerts[i];
+    if (a.status === "pending") counts.pending++;
+    else if (a.status === "active") counts[a.type]++;
+    else if (a.status === "sent") counts.sent++;
+    else counts.unsubscribed++;
+  }
+  return counts;
+}
+
+function _pruned(alerts: ProductAlert[], now: number): ProductAlert[] {
+  return alerts.filter(function (a) {
+    if (a.status === "active") return true;
+    return now - a.updatedAt < (a.status === "pending" ? PENDING_ALERT_MS : ALERT_HISTORY_MS);
+  });
+}
+
+/**
+ * Record with the subscription added, or the existing one (same e-mail and
+ * type) reactivated with the new target/phone. error when the SKU is full.
+ * confirmed = the e-mail is the logged-in customer's own; otherwise the alert
+ * is "pending" until the confirmation link is opened, and an active alert of
+ * the same e-mail is left untouched (no record returned).
+ */
+export function subscribeAlert(
+  rec: ProductAlertRecord,
+  input: { type: ProductAlertType; email: string; phone: string | null; userId: string | null; name: string; targetCents: number | null; source: ProductAlertSource; confirmed: boolean },
+  id: string,
+  now: number,
+): { record?: ProductAlertRecord; alert?: ProductAlert; created?: boolean; error?: string } {
+  var email = input.email.toLowerCase();
+  var existing: ProductAlert | null = null;
+  for (var i = 0; i < rec.alerts.length; i++) {
+    if (rec.alerts[i].type === input.type && rec.alerts[i].email === email) { existing = rec.alerts[i]; break; }
+  }
+  if (existing && existing.status === "active" && !input.confirmed) return { alert: existing, created: false };
+  var open = rec.alerts.filter(function (a) { return a.status === "active" || a.status === "pending"; }).length;
+  if (!existing && open >= MAX_ALERTS_PER_SKU) return { error: "Limite de avisos para este produto atingido." };
+
+  var status: ProductAlertStatus = input.confirmed ? "active" : "pending";
+  var alert: ProductAlert = existing
+    ? { ...existing, status: status, updatedAt: now }
+    : { id: id, type: input.type, email: email, phone: null, userId: null, name: "", targetCents: null, source: input.source, status: status, createdAt: now, updatedAt: now };
+  alert.phone = input.phone || alert.phone;
+  alert.userId = input.userId || alert.userId;
+  alert.name = input.name || alert.name;
+  alert.targetCents = input.type === "price" ? input.targetCents : null;
+  alert.source = input.source;
+  delete alert.sentAt;
+  delete alert.sentPriceCents;
+  delete alert.delivery;
+  delete alert.unsubscribedAt;
+
+  var others = rec.alerts.filter(function (a) { return a !== existing; });
+  return {
+    record: { sku: rec.sku, titulo: rec.titulo, alerts: _pruned(others, now).concat([alert]), updatedAt: now },
+    alert: alert,
+    created: !existing,
+  };
+}
+
+/** Record with the pending alert activated; null when it is not pending */
+export function confirmAlert(rec: ProductAlertRecord, id: string, now: number): ProductAlertRecord | null {
+  var found = false;
+  var alerts = rec.alerts.map(function (a) {
+    if (a.id !== id || a.status !== "pending") return a;
+    found = true;
+    return { ...a, status: "active" as ProductAlertStatus, confirmedAt: now, updatedAt: now };
+  });
+  if (!found) return null;
+  return { sku: rec.sku, titulo: rec.titulo, alerts: alerts, updatedAt: now };
+}
+
+/** Record with the alert unsubscribed; null when it is not active */
+export function unsubscribeAlert(rec: ProductAlertRecord, id: string, now: number): ProductAlertRecord | null {
+  var found = false;
+  var alerts = rec.alerts.map(function (a) {
+    if (a.id !== id || a.status !== "active") return a;
+    found = true;
+    return { ...a, status: "unsubscribed" as ProductAlertStatus, unsubscribedAt: now, updatedAt: now };
+  });
+  if (!found) return null;
+  return { sku: rec.sku, titulo: rec.titulo, alerts: alerts, updatedAt: now };
+}
+
+export function alertIsDue(alert: ProductAlert, state: ProductAlertState): boolean {
+  if (alert.status !== "active") return false;
+  if (alert.type === "stock") return state.available > 0;
+  return state.priceCents !== null && alert.targetCents !== null && state.priceCents <= alert.targetCents;
+}
+
+/** Marks up to `limit` due alerts as sent; claimed = the ones this caller must deliver */
+export function claimDueAlerts(
+  rec: ProductAlertRecord,
+  state: ProductAlertState,
+  now: number,
+  limit: number,
+): { record: ProductAlertRecord; claimed: ProductAlert[] } {
+  var claimed: ProductAlert[] = [];
+  var alerts = rec.alerts.map(function (a) {
+    if (claimed.length >= limit || !alertIsDue(a, state)) return a;
+    var sent: ProductAlert = { ...a, status: "sent", sentAt: now, sentPriceCents: state.priceCents, updatedAt: now };
+    claimed.push(sent);
+    return sent;
+  });
+  return { record: { sku: rec.sku, titulo: rec.titulo, alerts: _pruned(alerts, now), updatedAt: now }, claimed: claimed };
+}
+
+export function withDelivery(rec: ProductAlertRecord, results: Record<string, ProductAlertDelivery>, now: number): ProductAlertRecord {
+  return {
+    sku: rec.sku,
+    titulo: rec.titulo,
+    alerts: rec.alerts.map(function (a) { return results[a.id] ? { ...a, delivery: results[a.id] } : a; }),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Token payload ("<sku>|<id>"), signed by signed_tokens.ts with purpose
+ * "product_alert" (unsubscribe) or "product_alert_confirm" (guest confirmation)
+ */
+export function alertTokenPayload(sku: string, id: string): string {
+  return sku + "|" + id;
+}
+
+export function parseAlertTokenPayload(payload: string): { sku: string; id: string } | null {
+  var sep = payload.lastIndexOf("|");
+  if (sep <= 0) return null;
+  return { sku: payload.substring(0, sep), id: payload.substring(sep + 1) };
+}
+
+export function formatAlertPrice(cents: number | null | undefined): string {
+  if (cents === null || cents === undefined) return "";
+  return "R$ " + (cents / 100).toFixed(2).replace(".", ",");
+}
+
+export function alertWhatsAppText(alert: ProductAlert, titulo: string, priceCents: number | null, productUrl: string, unsubscribeUrl: string): string {
+  var hello = alert.name ? "Oi " + alert.name.split(" ")[0] + "! " : "Oi! ";
+  var what = alert.type === "stock"
+    ? titulo + " voltou ao estoque na Carretao Auto Pecas."
+    : titulo + " baixou para " + formatAlertPrice(priceCents) + " na Carretao Auto Pecas.";
+  return hello + what + " Garanta o seu: " + productUrl + "\n\nNao quer mais este aviso? " + unsubscribeUrl;
+}
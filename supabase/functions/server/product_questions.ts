@@ -0,0 +1,375 @@
+// ═══════════════════════════════════════════════════════════════════════
+// PRODUCT_QUESTIONS.TS — Perguntas e respostas na pagina do produto (sem acesso a KV)
+//
+// product_qa:<sku> → { sku, titulo, questions[] } — cada pergunta carrega as
+// proprias respostas. Pergunta de cliente logado ou visitante (nome + e-mail);
+// resposta da loja (admin, publicada na hora) ou de quem comprou o produto
+// (entra na fila de moderacao).
+// product_qa_pending → [{ sku, questionId, answerId }] — fila de moderacao do
+// admin (answerId null = a pergunta em si) e o contador do menu lateral.
+//
+// O autor da pergunta recebe um e-mail quando ela esta publicada e ganha uma
+// resposta publicada. notifiedAt e gravado ANTES do envio: quem marcou e o
+// unico a mandar, mesmo com duas moderacoes ao mesmo tempo.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type QaStatus = "pending" | "approved" | "rejected";
+export type QaAuthorType = "store" | "buyer";
+export type QaModerationAction = "approve" | "reject";
+/** Admin list: "pending" = the question or one of its answers awaits moderation */
+export type QaAdminFilter = "pending" | "approved" | "rejected" | "unanswered" | "all";
+
+export interface ProductAnswer {
+  id: string;
+  text: string;
+  authorName: string;
+  authorType: QaAuthorType;
+  /** Buyer answers: the customer; store answers: the admin */
+  userId: string | null;
+  status: QaStatus;
+  createdAt: number;
+  moderatedAt?: number;
+  moderatedBy?: string;
+  /** Asker e-mailed about this answer */
+  notifiedAt?: number;
+}
+
+export interface ProductQuestion {
+  id: string;
+  sku: string;
+  question: string;
+  askerName: string;
+  askerEmail: string;
+  userId: string | null;
+  status: QaStatus;
+  createdAt: number;
+  moderatedAt?: number;
+  moderatedBy?: string;
+  answers: ProductAnswer[];
+}
+
+export interface ProductQaRecord {
+  sku: string;
+  titulo: string;
+  questions: ProductQuestion[];
+  updatedAt: number;
+}
+
+export interface QaPendingEntry {
+  sku: string;
+  questionId: string;
+  /** null = the question itself waits for moderation */
+  answerId: string | null;
+  createdAt: number;
+}
+
+export interface PublicProductAnswer {
+  id: string;
+  text: string;
+  authorName: string;
+  authorType: QaAuthorType;
+  createdAt: number;
+}
+
+export interface PublicProductQuestion {
+  id: string;
+  question: string;
+  askerName: string;
+  createdAt: number;
+  answers: PublicProductAnswer[];
+}
+
+export interface QaCounts {
+  pending: number;
+  approved: number;
+  rejected: number;
+  pendingAnswers: number;
+  unanswered: number;
+}
+
+export var PRODUCT_QA_PREFIX = "product_qa:";
+export var PRODUCT_QA_PENDING_KEY = "product_qa_pending";
+export var QA_QUESTION_MIN = 10;
+export var QA_QUESTION_MAX = 1000;
+export var QA_ANSWER_MIN = 2;
+export var QA_ANSWER_MAX = 2000;
+/** Questions one SKU keeps (rejected ones are dropped first) */
+export var MAX_QUESTIONS_PER_SKU = 300;
+/** Open questions one asker may have waiting on the same SKU */
+var MAX_PENDING_PER_ASKER = 3;
+var MAX_ANSWERS_PER_QUESTION = 30;
+
+export function qaKey(sku: string): string {
+  return PRODUCT_QA_PREFIX + sku;
+}
+
+export function parseQaRecord(raw: any, sku: string): ProductQaRecord {
+  var rec = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!rec || !Array.isArray(rec.questions)) return { sku: sku, titulo: "", questions: [], updatedAt: 0 };
+  for (var i = 0; i < rec.questions.length; i++) {
+    if (!Array.isArray(rec.questions[i].answers)) rec.questions[i].answers = [];
+  }
+  return rec;
+}
+
+export function parseQaPending(raw: any): QaPendingEntry[] {
+  var list = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!Array.isArray(list)) return [];
+  return list.filter(function (e: any) { return e && typeof e.sku === "string" && typeof e.questionId === "string"; });
+}
+
+/** Collapses whitespace runs; null when the text is outside [min, max] */
+export function cleanQaText(raw: any, min: number, max: number): string | null {
+  var text = String(raw || "").replace(/\r\n?/g, "\n").replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+  if (text.length < min || text.length > max) return null;
+  return text;
+}
+
+/** "Joao da Silva" → "Joao S." — what the product page shows for a customer */
+export function publicAuthorName(name: string): string {
+  var parts = String(name || "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "Cliente";
+  if (parts.length === 1) return parts[0];
+  return parts[0] + " " + parts[parts.length - 1].charAt(0).toUpperCase() + ".";
+}
+
+export function findQuestion(rec: ProductQaRecord, questionId: string): ProductQuestion | null {
+  for (var i = 0; i < rec.questions.length; i++) if (rec.questions[i].id === questionId) return rec.questions[i];
+  return null;
+}
+
+function _withQuestion(rec: ProductQaRecord, q: ProductQuestion, now: number): ProductQaRecord {
+  var found = false;
+  var questions = rec.questions.map(function (x) {
+    if (x.id !== q.id) return x;
+    found = true;
+    return q;
+  });
+  if (!found) questions.push(q);
+  return { sku: rec.sku, titulo: rec.titulo, questions: questions, updatedAt: now };
+}
+
+// ─── Questions ───
+
+/**
+ * Record with the new (pending) question, or error when the asker already has
+ * too many waiting, repeats an open question or the SKU is full.
+ */
+export function addQuestion(
+  rec: ProductQaRecord,
+  input: { question: string; askerName: string; askerEmail: string; userId: string | null },
+  id: string,
+  now: number,
+): { record?: ProductQaRecord; question?: ProductQuestion; error?: string } {
+  var email = input.askerEmail.toLowerCase();
+  var waiting = 0;
+  for (var i = 0; i < rec.questions.length; i++) {
+    var q = rec.questions[i];
+    var sameAsker = q.askerEmail === email || (!!input.userId && q.userId === input.userId);
+    if (!sameAsker || q.status === "rejected") continue;
+    if (q.question.toLowerCase() === input.question.toLowerCase()) return { error: "Voce ja enviou esta pergunta." };
+    if (q.status === "pending") waiting++;
+  }
+  if (waiting >= MAX_PENDING_PER_ASKER) return { error: "Voce ja tem perguntas aguardando aprovacao neste produto." };
+
+  var questions = rec.questions;
+  if (questions.length >= MAX_QUESTIONS_PER_SKU) {
+    questions = questions.filter(function (x) { return x.status !== "rejected"; });
+    if (questions.length >= MAX_QUESTIONS_PER_SKU) return { error: "Limite de perguntas para este produto atingido." };
+  }
+
+  var question: ProductQuestion = {
+    id: id,
+    sku: rec.sku,
+    question: input.question,
+    askerName: input.askerName,
+    askerEmail: email,
+    userId: input.userId,
+    status: "pending",
+    createdAt: now,
+    answers: [],
+  };
+  return {
+    record: { sku: rec.sku, titulo: rec.titulo, questions: questions.concat([question]), updatedAt: now },
+    question: question,
+  };
+}
+
+/** Record with the question approved/rejected; null when it does not exist */
+export function moderateQuestion(rec: ProductQaRecord, questionId: string, action: QaModerationAction, by: string, now: number): ProductQaRecord | null {
+  var q = findQuestion(rec, questionId);
+  if (!q) return null;
+  var next: ProductQuestion = { ...q, status: action === "approve" ? "approved" : "rejected", moderatedAt: now, moderatedBy: by };
+  return _withQuestion(rec, next, now);
+}
+
+export function removeQuestion(rec: ProductQaRecord, questionId: string, now: number): ProductQaRecord | null {
+  if (!findQuestion(rec, questionId)) return null;
+  return { sku: rec.sku, titulo: rec.titulo, questions: rec.questions.filter(function (q) { return q.id !== questionId; }), updatedAt: now };
+}
+
+// ─── Answers ───
+
+/**
+ * Record with the answer added. Store answers are published at once (and may
+ * come with the question still pending, when the admin answers while
+ * approving); buyer answers wait for moderation and need a published question.
+ */
+export function addAnswer(
+  rec: ProductQaRecord,
+  questionId: string,
+  input: { text: string; authorName: string; authorType: QaAuthorType; userId: string | null; by?: string },
+  id: string,
+  now: number,
+): { record?: ProductQaRecord; answer?: ProductAnswer; error?: string } {
+  var q = findQuestion(rec, questionId);
+  if (!q) return { error: "Pergunta nao encontrada." };
+  var isStore = input.authorType === "store";
+  if (!isStore) {
+    if (q.status !== "approved") return { error: "Esta pergunta nao aceita respostas." };
+    if (input.userId && q.userId === input.userId) return { error: "Voce nao pode responder a propria pergunta." };
+    for (var i = 0; i < q.answers.length; i++) {
+      var a = q.answers[i];
+      if (a.authorType === "buyer" && a.userId === input.userId && a.status !== "rejected") return { error: "Voce ja respondeu esta pergunta." };
+    }
+  }
+  if (q.answers.length >= MAX_ANSWERS_PER_QUESTION) return { error: "Limite de respostas para esta pergunta atingido." };
+
+  var answer: ProductAnswer = {
+    id: id,
+    text: input.text,
+    authorName: input.authorName,
+    authorType: input.authorType,
+    userId: input.userId,
+    status: isStore ? "approved" : "pending",
+    createdAt: now,
+  };
+  if (isStore) {
+    answer.moderatedAt = now;
+    answer.moderatedBy = input.by || "admin";
+  }
+  return { record: _withQuestion(rec, { ...q, answers: q.answers.concat([answer]) }, now), answer: answer };
+}
+
+/** Record with the answer approved/rejected; null when it does not exist */
+export function moderateAnswer(rec: ProductQaRecord, questionId: string, answerId: string, action: QaModerationAction, by: string, now: number): ProductQaRecord | null {
+  var q = findQuestion(rec, questionId);
+  if (!q || !q.answers.some(function (a) { return a.id === answerId; })) return null;
+  var answers = q.answers.map(function (a) {
+    if (a.id !== answerId) return a;
+    return { ...a, status: (action === "approve" ? "approved" : "rejected") as QaStatus, moderatedAt: now, moderatedBy: by };
+  });
+  return _withQuestion(rec, { ...q, answers: answers }, now);
+}
+
+export function removeAnswer(rec: ProductQaRecord, questionId: string, answerId: string, now: number): ProductQaRecord | null {
+  var q = findQuestion(rec, questionId);
+  if (!q || !q.answers.some(function (a) { return a.id === answerId; })) return null;
+  return _withQuestion(rec, { ...q, answers: q.answers.filter(function (a) { return a.id !== answerId; }) }, now);
+}
+
+// ─── Asker notification ───
+
+/** Published answers of a published question the asker has not heard about */
+export function answersToNotify(q: ProductQuestion): ProductAnswer[] {
+  if (q.status !== "approved" || !q.askerEmail) return [];
+  return q.answers.filter(function (a) { return a.status === "approved" && !a.notifiedAt; });
+}
+
+/**
+ * Marks the question's un-notified answers as notified. claimed is empty (and
+ * record null) when there was nothing to send or someone else got there first.
+ */
+export function claimAnswerNotice(rec: ProductQaRecord, questionId: string, now: number): { record: ProductQaRecord | null; question: ProductQuestion | null; claimed: ProductAnswer[] } {
+  var q = findQuestion(rec, questionId);
+  var claimed = q ? answersToNotify(q) : [];
+  if (!q || claimed.length === 0) return { record: null, question: q, claimed: [] };
+  var ids = claimed.map(function (a) { return a.id; });
+  var answers = q.answers.map(function (a) { return ids.indexOf(a.id) >= 0 ? { ...a, notifiedAt: now } : a; });
+  var next = { ...q, answers: answers };
+  return { record: _withQuestion(rec, next, now), question: next, claimed: claimed };
+}
+
+// ─── Moderation queue ───
+
+export function withPendingEntry(list: QaPendingEntry[], entry: QaPendingEntry): QaPendingEntry[] {
+  var exists = list.some(function (e) { return e.sku === entry.sku && e.questionId === entry.questionId && e.answerId === entry.answerId; });
+  return exists ? list : list.concat([entry]);
+}
+
+/** Drops one entry; answerId undefined drops the question and all its answers */
+export function withoutPendingEntry(list: QaPendingEntry[], sku: string, questionId: string, answerId?: string | null): QaPendingEntry[] {
+  return list.filter(function (e) {
+    if (e.sku !== sku || e.questionId !== questionId) return true;
+    return answerId !== undefined && e.answerId !== answerId;
+  });
+}
+
+/** Rebuilds the queue from the records (admin "recount" and self-healing) */
+export function pendingEntries(records: ProductQaRecord[]): QaPendingEntry[] {
+  var out: QaPendingEntry[] = [];
+  for (var r = 0; r < records.length; r++) {
+    for (var i = 0; i < records[r].questions.length; i++) {
+      var q = records[r].questions[i];
+      if (q.status === "pending") out.push({ sku: records[r].sku, questionId: q.id, answerId: null, createdAt: q.createdAt });
+      for (var j = 0; j < q.answers.length; j++) {
+        if (q.answers[j].status === "pending") out.push({ sku: records[r].sku, questionId: q.id, answerId: q.answers[j].id, createdAt: q.answers[j].createdAt });
+      }
+    }
+  }
+  out.sort(function (a, b) { return a.createdAt - b.createdAt; });
+  return out;
+}
+
+export function qaCounts(rec: ProductQaRecord): QaCounts {
+  var counts: QaCounts = { pending: 0, approved: 0, rejected: 0, pendingAnswers: 0, unanswered: 0 };
+  for (var i = 0; i < rec.questions.length; i++) {
+    var q = rec.questions[i];
+    counts[q.status]++;
+    var published = 0;
+    for (var j = 0; j < q.answers.length; j++) {
+      if (q.answers[j].status === "pending") counts.pendingAnswers++;
+      else if (q.answers[j].status === "approved") published++;
+    }
+    if (q.status === "approved" && published === 0) counts.unanswered++;
+  }
+  return counts;
+}
+
+export function questionInFilter(q: ProductQuestion, filter: QaAdminFilter): boolean {
+  if (filter === "all") return true;
+  if (filter === "pending") return q.status === "pending" || q.answers.some(function (a) { return a.status === "pending"; });
+  if (filter === "unanswered") return q.status === "approved" && !q.answers.some(function (a) { return a.status === "approved"; });
+  return q.status === filter;
+}
+
+// ─── Public view ───
+
+/** Published questions with their published answers — newest first, answered before unanswered */
+export function publicQuestions(rec: ProductQaRecord): PublicProductQuestion[] {
+  var list: PublicProductQuestion[] = [];
+  for (var i = 0; i < rec.questions.length; i++) {
+    var q = rec.questions[i];
+    if (q.status !== "approved") continue;
+    var answers = q.answers
+      .filter(function (a) { return a.status === "approved"; })
+      .sort(function (a, b) {
+        if (a.authorType !== b.authorType) return a.authorType === "store" ? -1 : 1;
+        return a.createdAt - b.createdAt;
+      })
+      .map(function (a) {
+        return { id: a.id, text: a.text, authorName: a.authorType === "store" ? a.authorName : publicAuthorName(a.authorName), authorType: a.authorType, createdAt: a.createdAt };
+      });
+    list.push({ id: q.id, question: q.question, askerName: publicAuthorName(q.askerName), createdAt: q.createdAt, answers: answers });
+  }
+  list.sort(function (a, b) {
+    var aa = a.answers.length > 0 ? 1 : 0;
+    var ba = b.answers.length > 0 ? 1 : 0;
+    return ba - aa || b.createdAt - a.createdAt;
+  });
+  return list;
+}
+
+export function qaProductUrl(siteUrl: string, sku: string): string {
+  return siteUrl + "/produto/" + encodeURIComponent(sku) + "#perguntas";
+}
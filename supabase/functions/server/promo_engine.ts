@@ -0,0 +1,295 @@
+// ═══════════════════════════════════════════════════════════════════════
+// PROMO_ENGINE.TS — Motor de regras de cupons (sem acesso a KV)
+//
+// Uma unica funcao calcula o desconto a partir das LINHAS do carrinho:
+// /coupons/validate, _validatePaymentPrices (PIX/boleto/MP/cartao) e
+// /user/save-order chamam evaluateCoupon() com as mesmas linhas → mesmo resultado.
+//
+// Tipos de cupom (discountType):
+//   percentage    → % sobre os itens elegiveis
+//   fixed         → valor fixo (limitado ao subtotal elegivel)
+//   buy_x_get_y   → a cada X+Y unidades elegiveis, as Y mais baratas com getDiscountPercent
+//   progressive   → % pela quantidade elegivel (faixas progressiveTiers)
+//   free_shipping → abate o frete (opcional: so para freeShippingCarriers)
+// Restricoes: scope (categorias/marcas/SKUs), excludeSuperPromo, firstPurchaseOnly,
+// minOrderValue (subtotal do carrinho) e maxDiscount (teto do desconto nos itens).
+// Todos os calculos em centavos para nao divergir por arredondamento.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type CouponDiscountType = "percentage" | "fixed" | "buy_x_get_y" | "progressive" | "free_shipping";
+
+export var COUPON_DISCOUNT_TYPES: CouponDiscountType[] = ["percentage", "fixed", "buy_x_get_y", "progressive", "free_shipping"];
+
+export interface CouponScope {
+  categories: string[];   // category slugs (caller expands descendants before evaluating)
+  brands: string[];       // lowercased brand names / slugs
+  skus: string[];
+}
+
+export interface CouponRules {
+  discountType: CouponDiscountType;
+  discountValue: number;
+  maxDiscount: number;            // 0 = no cap
+  scope: CouponScope;
+  excludeSuperPromo: boolean;
+  firstPurchaseOnly: boolean;
+  buyQty: number;
+  getQty: number;
+  getDiscountPercent: number;     // 100 = "leve Y gratis"
+  progressiveTiers: Array<{ minQty: number; percent: number }>;
+  freeShippingCarriers: string[]; // empty = any carrier
+}
+
+export interface PromoLine {
+  sku: string;
+  quantity: number;
+  unitPriceCents: number;
+  category: string;
+  brand: string;
+  superPromo: boolean;
+}
+
+export interface PromoContext {
+  shippingPriceCents: number;
+  shippingCarrierId: string;
+  /** null = unknown (guest) */
+  isFirstPurchase: boolean | null;
+}
+
+export interface CouponEvaluation {
+  valid: boolean;
+  error?: string;
+  /** Informational message (e.g. free shipping waiting for an eligible carrier) */
+  note?: string;
+  subtotalCents: number;
+  eligibleSubtotalCents: number;
+  itemsDiscountCents: number;
+  shippingDiscountCents: number;
+  discountCents: number;
+  freeShipping: boolean;
+  eligibleSkus: string[];
+  lineDiscounts: Record<string, number>;  // sku → cents (total for the line)
+}
+
+function _strList(raw: any, max: number, lower: boolean): string[] {
+  if (!Array.isArray(raw)) return [];
+  var out: string[] = [];
+  for (var i = 0; i < raw.length && out.length < max; i++) {
+    var s = String(raw[i] || "").trim().substring(0, 100);
+    if (lower) s = s.toLowerCase();
+    if (s && out.indexOf(s) === -1) out.push(s);
+  }
+  return out;
+}
+
+function _num(raw: any, min: number, max: number): number {
+  var n = Number(raw);
+  if (!isFinite(n)) return min;
+  return Math.min(max, Math.max(min, n));
+}
+
+/** Sanitizes the rule fields of an admin coupon payload (missing fields fall back to `prev`). */
+export function normalizeCouponRules(body: any, prev?: any): CouponRules {
+  var src = prev || {};
+  var pick = function (key: string) { return body && body[key] !== undefined ? body[key] : src[key]; };
+  var type = String(pick("discountType") || "percentage") as CouponDiscountType;
+  if (COUPON_DISCOUNT_TYPES.indexOf(type) === -1) type = "percentage";
+  var scopeRaw = pick("scope") || {};
+  var tiersRaw = Array.isArray(pick("progressiveTiers")) ? pick("progressiveTiers") : [];
+  var tiers: Array<{ minQty: number; percent: number }> = [];
+  for (var i = 0; i < tiersRaw.length && tiers.length < 10; i++) {
+    var minQty = Math.floor(_num(tiersRaw[i] && tiersRaw[i].minQty, 0, 9999));
+    var percent = _num(tiersRaw[i] && tiersRaw[i].percent, 0, 100);
+    if (minQty > 0 && percent > 0) tiers.push({ minQty: minQty, percent: percent });
+  }
+  tiers.sort(function (a, b) { return a.minQty - b.minQty; });
+  return {
+    discountType: type,
+    discountValue: type === "percentage" ? _num(pick("discountValue"), 0, 100) : _num(pick("discountValue"), 0, 99999999),
+    maxDiscount: _num(pick("maxDiscount"), 0, 99999999),
+    scope: {
+      categories: _strList(scopeRaw.categories, 500, false),
+      brands: _strList(scopeRaw.brands, 100, true),
+      skus: _strList(scopeRaw.skus, 500, false),
+    },
+    excludeSuperPromo: !!pick("excludeSuperPromo"),
+    firstPurchaseOnly: !!pick("firstPurchaseOnly"),
+    buyQty: Math.floor(_num(pick("buyQty"), 0, 999)),
+    getQty: Math.floor(_num(pick("getQty"), 0, 999)),
+    getDiscountPercent: pick("getDiscountPercent") === undefined || pick("getDiscountPercent") === null ? 100 : _num(pick("getDiscountPercent"), 0, 100),
+    progressiveTiers: tiers,
+    freeShippingCarriers: _strList(pick("freeShippingCarriers"), 50, false),
+  };
+}
+
+/** Returns an error message when the rule set cannot produce a discount, else null. */
+export function checkCouponRules(rules: CouponRules): string | null {
+  if ((rules.discountType === "percentage" || rules.discountType === "fixed") && rules.discountValue <= 0) {
+    return "Valor do desconto deve ser maior que zero";
+  }
+  if (rules.discountType === "buy_x_get_y" && (rules.buyQty < 1 || rules.getQty < 1 || rules.getDiscountPercent <= 0)) {
+    return "Leve X pague Y: informe quantidades e percentual validos";
+  }
+  if (rules.discountType === "progressive" && rules.progressiveTiers.length === 0) {
+    return "Desconto progressivo: informe ao menos uma faixa";
+  }
+  return null;
+}
+
+function _inScope(line: PromoLine, rules: CouponRules): boolean {
+  var scope = rules.scope;
+  var scoped = scope.categories.length > 0 || scope.brands.length > 0 || scope.skus.length > 0;
+  if (!scoped) return true;
+  if (scope.skus.indexOf(line.sku) !== -1) return true;
+  if (line.category && scope.categories.indexOf(line.category) !== -1) return true;
+  if (line.brand && scope.brands.indexOf(line.brand.trim().toLowerCase()) !== -1) return true;
+  return false;
+}
+
+function _emptyResult(subtotalCents: number): CouponEvaluation {
+  return {
+    valid: false,
+    subtotalCents: subtotalCents,
+    eligibleSubtotalCents: 0,
+    itemsDiscountCents: 0,
+    shippingDiscountCents: 0,
+    discountCents: 0,
+    freeShipping: false,
+    eligibleSkus: [],
+    lineDiscounts: {},
+  };
+}
+
+/** Invalid result for checks done outside the engine (coupon not found, expired, exhausted...) */
+export function rejectCoupon(error: string): CouponEvaluation {
+  var result = _emptyResult(0);
+  result.error = error;
+  return result;
+}
+
+// Spreads `totalCents` over the lines proportionally to their value (last line takes the remainder)
+function _spread(lines: PromoLine[], totalCents: number, out: Record<string, number>): void {
+  var base = 0;
+  for (var i = 0; i < lines.length; i++) base += lines[i].unitPriceCents * lines[i].quantity;
+  if (base <= 0 || totalCents <= 0) return;
+  var given = 0;
+  for (var j = 0; j < lines.length; j++) {
+    var value = lines[j].unitPriceCents * lines[j].quantity;
+    var part = j === lines.length - 1 ? totalCents - given : Math.floor(totalCents * value / base);
+    out[lines[j].sku] = (out[lines[j].sku] || 0) + part;
+    given += part;
+  }
+}
+
+export function evaluateCoupon(coupon: any, lines: PromoLine[], ctx: PromoContext): CouponEvaluation {
+  var rules = normalizeCouponRules(coupon);
+  var subtotalCents = 0;
+  for (var si = 0; si < lines.length; si++) subtotalCents += lines[si].unitPriceCents * lines[si].quantity;
+  var result = _emptyResult(subtotalCents);
+
+  if (rules.firstPurchaseOnly) {
+    if (ctx.isFirstPurchase === null) { result.error = "Entre na sua conta para usar este cupom de primeira compra"; return result; }
+    if (!ctx.isFirstPurchase) { result.error = "Cupom válido apenas para a primeira compra"; return result; }
+  }
+  var minOrderCents = Math.round((Number(coupon.minOrderValue) || 0) * 100);
+  if (minOrderCents > 0 && subtotalCents < minOrderCents) {
+    result.error = "Valor mínimo do pedido: R$ " + (minOrderCents / 100).toFixed(2).replace(".", ",");
+    return result;
+  }
+
+  var eligible: PromoLine[] = [];
+  for (var ei = 0; ei < lines.length; ei++) {
+    var ln = lines[ei];
+    if (ln.quantity <= 0 || ln.unitPriceCents < 0) continue;
+    if (rules.excludeSuperPromo && ln.superPromo) continue;
+    if (!_inScope(ln, rules)) continue;
+    eligible.push(ln);
+  }
+  if (eligible.length === 0) {
+    result.error = rules.excludeSuperPromo && lines.some(function (l) { return l.superPromo; })
+      ? "Este cupom não vale para itens da Super Promoção"
+      : "Nenhum item do carrinho é elegível para este cupom";
+    return result;
+  }
+  var eligibleCents = 0;
+  var eligibleQty = 0;
+  for (var ec = 0; ec < eligible.length; ec++) {
+    eligibleCents += eligible[ec].unitPriceCents * eligible[ec].quantity;
+    eligibleQty += eligible[ec].quantity;
+  }
+  result.eligibleSubtotalCents = eligibleCents;
+  result.eligibleSkus = eligible.map(function (l) { return l.sku; });
+
+  var lineDiscounts: Record<string, number> = {};
+  var percent = 0;
+  if (rules.discountType === "percentage") {
+    percent = rules.discountValue;
+  } else if (rules.discountType === "progressive") {
+    for (var ti = 0; ti < rules.progressiveTiers.length; ti++) {
+      if (eligibleQty >= rules.progressiveTiers[ti].minQty) percent = rules.progressiveTiers[ti].percent;
+    }
+    if (percent <= 0) {
+      var first = rules.progressiveTiers[0];
+      result.error = first
+        ? "Adicione pelo menos " + first.minQty + " itens elegíveis para ativar o desconto"
+        : "Cupom sem faixas de desconto";
+      return result;
+    }
+  }
+
+  if (percent > 0) {
+    for (var pi = 0; pi < eligible.length; pi++) {
+      var lineCents = eligible[pi].unitPriceCents * eligible[pi].quantity;
+      lineDiscounts[eligible[pi].sku] = Math.round(lineCents * percent / 100);
+    }
+  } else if (rules.discountType === "fixed") {
+    _spread(eligible, Math.min(Math.round(rules.discountValue * 100), eligibleCents), lineDiscounts);
+  } else if (rules.discountType === "buy_x_get_y") {
+    var groupSize = rules.buyQty + rules.getQty;
+    var discountedUnits = groupSize > 0 ? Math.floor(eligibleQty / groupSize) * rules.getQty : 0;
+    if (discountedUnits <= 0) {
+      result.error = "Leve " + groupSize + " itens elegíveis e ganhe desconto em " + rules.getQty;
+      return result;
+    }
+    // Cheapest units get the discount
+    var byPrice = eligible.slice().sort(function (a, b) { return a.unitPriceCents - b.unitPriceCents; });
+    for (var bi = 0; bi < byPrice.length && discountedUnits > 0; bi++) {
+      var units = Math.min(byPrice[bi].quantity, discountedUnits);
+      lineDiscounts[byPrice[bi].sku] = (lineDiscounts[byPrice[bi].sku] || 0) + Math.round(byPrice[bi].unitPriceCents * units * rules.getDiscountPercent / 100);
+      discountedUnits -= units;
+    }
+  }
+
+  var itemsDiscount = 0;
+  for (var sku in lineDiscounts) itemsDiscount += lineDiscounts[sku];
+  var capCents = Math.round(rules.maxDiscount * 100);
+  if (capCents > 0 && itemsDiscount > capCents) {
+    var capped: Record<string, number> = {};
+    _spread(eligible.filter(function (l) { return (lineDiscounts[l.sku] || 0) > 0; }), capCents, capped);
+    lineDiscounts = capped;
+    itemsDiscount = capCents;
+  }
+
+  var shippingDiscount = 0;
+  if (rules.discountType === "free_shipping") {
+    result.freeShipping = true;
+    var carrierOk = rules.freeShippingCarriers.length === 0 || rules.freeShippingCarriers.indexOf(ctx.shippingCarrierId) !== -1;
+    if (!ctx.shippingCarrierId && ctx.shippingPriceCents <= 0) {
+      result.note = rules.freeShippingCarriers.length > 0
+        ? "Frete grátis para a transportadora participante — escolha o frete"
+        : "Frete grátis — escolha o frete";
+    } else if (!carrierOk) {
+      result.note = "Frete grátis válido apenas para a transportadora participante";
+    } else {
+      shippingDiscount = Math.max(0, ctx.shippingPriceCents);
+      if (capCents > 0) shippingDiscount = Math.min(shippingDiscount, capCents);
+    }
+  }
+
+  result.valid = true;
+  result.lineDiscounts = lineDiscounts;
+  result.itemsDiscountCents = Math.min(itemsDiscount, eligibleCents);
+  result.shippingDiscountCents = shippingDiscount;
+  result.discountCents = result.itemsDiscountCents + shippingDiscount;
+  return result;
+}
@@ -0,0 +1,187 @@
+// ═══════════════════════════════════════════════════════════════════════
+// REFUNDS.TS — Calculo de reembolsos de pedido (sem acesso a KV)
+//
+// Modos (POST /admin/orders/refund):
+//   full   — tudo o que ainda nao foi reembolsado (total - refundedTotal)
+//   amount — valor livre, limitado ao saldo reembolsavel
+//   items  — linhas do pedido: valor unitario com o desconto do cupom rateado,
+//            mais a garantia das unidades; frete opcional
+// Cada reembolso fica em user_order.refunds[] (com as linhas, quando houver)
+// e soma em user_order.refundedTotal. Trocas e devolucoes (rma.ts) usam o
+// mesmo calculo de linhas.
+// Reembolso manual (PagHiper PIX/boleto e outros meios: a loja transfere o
+// dinheiro) entra com status "pending_manual": reserva o saldo, mas so soma em
+// refundedTotal quando o admin confirma a transferencia.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type RefundMode = "full" | "amount" | "items";
+
+export var REFUND_MODES: RefundMode[] = ["full", "amount", "items"];
+
+export interface RefundLine {
+  sku: string;
+  quantidade: number;
+}
+
+export interface RefundPlan {
+  amount: number;
+  items?: RefundLine[];
+  shipping?: boolean;
+}
+
+export interface ProviderRefundResult {
+  ok: boolean;
+  provider: string;
+  manual: boolean;
+  providerRefundId?: string;
+  error?: string;
+}
+
+function _round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Manual refund the admin has not confirmed yet (the money may not have left) */
+export function isPendingManualRefund(refund: any): boolean {
+  return !!refund && refund.status === "pending_manual";
+}
+
+/** Sum of the manual refunds waiting for confirmation */
+export function pendingRefundTotal(order: any): number {
+  var refunds = Array.isArray(order.refunds) ? order.refunds : [];
+  var total = 0;
+  for (var i = 0; i < refunds.length; i++) if (isPendingManualRefund(refunds[i])) total += Number(refunds[i].amount) || 0;
+  return _round2(total);
+}
+
+/** What is still refundable on the order (pending manual refunds already hold their share) */
+export function orderRefundable(order: any): number {
+  return _round2(Math.max(0, (Number(order.total) || 0) - (Number(order.refundedTotal) || 0) - pendingRefundTotal(order)));
+}
+
+/** Confirmed refunds cover the whole order */
+export function orderFullyRefunded(order: any): boolean {
+  var refunded = Number(order.refundedTotal) || 0;
+  return refunded > 0 && refunded >= (Number(order.total) || 0) - 0.001;
+}
+
+/**
+ * Units per SKU already covered by earlier item-line refunds (admin or RMA).
+ * confirmedOnly leaves out the manual refunds still pending.
+ */
+export function refundedQuantities(order: any, confirmedOnly?: boolean): Record<string, number> {
+  var out: Record<string, number> = {};
+  var refunds = Array.isArray(order.refunds) ? order.refunds : [];
+  for (var i = 0; i < refunds.length; i++) {
+    if (confirmedOnly && isPendingManualRefund(refunds[i])) continue;
+    var items = Array.isArray(refunds[i].items) ? refunds[i].items : [];
+    for (var k = 0; k < items.length; k++) out[items[k].sku] = (out[items[k].sku] || 0) + (Number(items[k].quantidade) || 0);
+  }
+  return out;
+}
+
+/** True when an earlier refund already returned the shipping price */
+export function shippingRefunded(order: any): boolean {
+  var refunds = Array.isArray(order.refunds) ? order.refunds : [];
+  for (var i = 0; i < refunds.length; i++) if (refunds[i].shipping) return true;
+  return false;
+}
+
+/** Shipping actually paid by the customer (price minus the coupon's shipping discount) */
+export function paidShipping(order: any): number {
+  if (!order.shippingOption) return 0;
+  var shippingDiscount = order.coupon ? Number(order.coupon.shippingDiscount) || 0 : 0;
+  return _round2(Math.max(0, (Number(order.shippingOption.price) || 0) - shippingDiscount));
+}
+
+/**
+ * Value of order lines: unit price minus the proportional coupon discount,
+ * plus the warranty bought for those units. Shipping is not included.
+ */
+export function refundLinesValue(order: any, lines: RefundLine[]): number {
+  var orderItems = Array.isArray(order.items) ? order.items : [];
+  var subtotal = 0;
+  for (var i = 0; i < orderItems.length; i++) {
+    subtotal += (Number(orderItems[i].valorUnitario) || 0) * (Number(orderItems[i].quantidade) || 1);
+  }
+  var itemsDiscount = order.coupon ? Number(order.coupon.itemsDiscount) || 0 : 0;
+  var factor = subtotal > 0 ? Math.max(0, subtotal - itemsDiscount) / subtotal : 1;
+
+  var value = 0;
+  for (var k = 0; k < lines.length; k++) {
+    for (var j = 0; j < orderItems.length; j++) {
+      var line = orderItems[j];
+      if (String(line.sku || "") !== lines[k].sku) continue;
+      value += (Number(line.valorUnitario) || 0) * lines[k].quantidade * factor;
+      if (line.warranty) value += (Number(line.warranty.price) || 0) * lines[k].quantidade / (Number(line.quantidade) || 1);
+      break;
+    }
+  }
+  return _round2(value);
+}
+
+/** Validates an admin refund request against the order and returns the amount to refund */
+export function planRefund(
+  order: any,
+  req: { mode: RefundMode; amount?: number; items?: any[]; includeShipping?: boolean }
+): { ok: true; plan: RefundPlan } | { ok: false; error: string } {
+  var refundable = orderRefundable(order);
+  if (refundable <= 0) return { ok: false, error: "Este pedido ja foi totalmente reembolsado." };
+
+  if (req.mode === "full") return { ok: true, plan: { amount: refundable } };
+
+  if (req.mode === "amount") {
+    var amount = _round2(Number(req.amount) || 0);
+    if (amount <= 0) return { ok: false, error: "Informe o valor do reembolso." };
+    if (amount > refundable + 0.001) return { ok: false, error: "Valor maximo reembolsavel: R$ " + refundable.toFixed(2) + "." };
+    return { ok: true, plan: { amount: amount } };
+  }
+
+  var orderItems = Array.isArray(order.items) ? order.items : [];
+  var already = refundedQuantities(order);
+  var lines: RefundLine[] = [];
+  var seen: Record<string, boolean> = {};
+  var requested = Array.isArray(req.items) ? req.items : [];
+  for (var i = 0; i < requested.length; i++) {
+    var sku = String((requested[i] && requested[i].sku) || "").trim();
+    var qty = Math.floor(Number(requested[i] && requested[i].quantidade) || 0);
+    if (!sku || qty <= 0) continue;
+    if (seen[sku]) return { ok: false, error: "Item repetido: " + sku + "." };
+    seen[sku] = true;
+    var bought = 0;
+    for (var j = 0; j < orderItems.length; j++) {
+      if (String(orderItems[j].sku || "") === sku) { bought = Number(orderItems[j].quantidade) || 1; break; }
+    }
+    if (!bought) return { ok: false, error: "Item " + sku + " nao pertence a este pedido." };
+    var available = bought - (already[sku] || 0);
+    if (qty > available) {
+      return { ok: false, error: available > 0
+        ? "Quantidade maxima reembolsavel para " + sku + ": " + available + "."
+        : "O item " + sku + " ja foi reembolsado." };
+    }
+    lines.push({ sku: sku, quantidade: qty });
+  }
+  var withShipping = !!req.includeShipping && !shippingRefunded(order) && paidShipping(order) > 0;
+  if (lines.length === 0 && !withShipping) return { ok: false, error: "Selecione ao menos um item." };
+
+  var value = refundLinesValue(order, lines) + (withShipping ? paidShipping(order) : 0);
+  var plan: RefundPlan = { amount: _round2(Math.min(value, refundable)), items: lines };
+  if (withShipping) plan.shipping = true;
+  if (plan.amount <= 0) return { ok: false, error: "Os itens selecionados nao tem valor a reembolsar." };
+  return { ok: true, plan: plan };
+}
+
+/**
+ * Offline stand-in for the payment providers (PAYMENT_REFUND_MOCK=true, never
+ * in production). Always succeeds, except for amounts ending in ,99 which are
+ * declined so the error path can be exercised too.
+ */
+export function mockProviderRefund(order: any, amount: number, idempotencyKey: string): ProviderRefundResult {
+  if (Math.round(amount * 100) % 100 === 99) {
+    return { ok: false, provider: "mock", manual: false, error: "Reembolso recusado pelo provedor simulado (valor terminado em ,99)." };
+  }
+  var ref = String(order.localOrderId || "order") + ":" + idempotencyKey;
+  var hash = 0;
+  for (var i = 0; i < ref.length; i++) hash = (hash * 31 + ref.charCodeAt(i)) | 0;
+  return { ok: true, provider: "mock", manual: false, providerRefundId: "mock_" + (hash >>> 0).toString(36) };
+}
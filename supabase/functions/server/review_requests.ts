@@ -0,0 +1,401 @@
+// ═══════════════════════════════════════════════════════════════════════
+// REVIEW_REQUESTS.TS — Pedido de avaliacao pos-compra (sem acesso a KV)
+//
+// review_request_settings → ReviewRequestSettings (gatilho, canais, cupom)
+// review_request:<userId>:<orderId> → ReviewRequest — um por pedido, criado
+// quando o admin marca o pedido como "shipped"/"delivered" (o que estiver no
+// gatilho) e enviado daysAfter dias depois.
+// review_request_queue → [{ key, dueAt }] — o que o cron ainda precisa enviar.
+//
+// Cada canal leva um link assinado ("<userId>|<orderId>|<canal>") para
+// /produto/<sku>?avaliar=<token>: o formulario abre sem login e a avaliacao
+// entra como compra verificada. O canal do link e quem recebe o credito da
+// conversao (clique e avaliacao). Com o cupom ligado, a primeira avaliacao
+// aprovada do pedido gera um cupom de uso unico para o cliente.
+// ═══════════════════════════════════════════════════════════════════════
+
+import { normalizeOrderStatus, PURCHASED_ORDER_STATUSES } from "./order_status.ts";
+import { normalizeAlertPhone } from "./product_alerts.ts";
+
+export type ReviewRequestTrigger = "delivered" | "shipped";
+export type ReviewRequestChannel = "email" | "whatsapp";
+export type ReviewRequestStatus = "scheduled" | "sent" | "skipped";
+export type ReviewRequestDelivery = "sent" | "failed" | "skipped";
+
+export interface ReviewRewardSettings {
+  enabled: boolean;
+  discountType: "percentage" | "fixed";
+  discountValue: number;
+  minOrderValue: number;
+  validDays: number;
+}
+
+export interface ReviewRequestSettings {
+  enabled: boolean;
+  trigger: ReviewRequestTrigger;
+  /** Days after the trigger status (0 = next cron run) */
+  daysAfter: number;
+  channels: { email: boolean; whatsapp: boolean };
+  reward: ReviewRewardSettings;
+  updatedAt: number | null;
+}
+
+export interface ReviewRequestItem {
+  sku: string;
+  titulo: string;
+  reviewId: string | null;
+  /** Channel whose link produced the review */
+  channel: ReviewRequestChannel | null;
+}
+
+export interface ReviewRequest {
+  userId: string;
+  orderId: string;
+  email: string;
+  name: string;
+  /** Digits with country code (55...), null = no WhatsApp */
+  phone: string | null;
+  items: ReviewRequestItem[];
+  status: ReviewRequestStatus;
+  /** When a worker took it for delivery (a fresh claim keeps other isolates off) */
+  claimedAt: number | null;
+  dueAt: number;
+  createdAt: number;
+  sentAt: number | null;
+  delivery: { email: ReviewRequestDelivery; whatsapp: ReviewRequestDelivery };
+  clicks: { email: number; whatsapp: number };
+  error: string | null;
+  rewardCode: string | null;
+  rewardedAt: number | null;
+}
+
+export interface ReviewRequestQueueEntry {
+  key: string;
+  dueAt: number;
+}
+
+export interface ReviewChannelStats {
+  sent: number;
+  clicked: number;
+  converted: number;
+  reviews: number;
+  /** converted / sent, in percent (one decimal) */
+  conversionRate: number;
+}
+
+export interface ReviewRequestStats {
+  total: number;
+  scheduled: number;
+  sent: number;
+  skipped: number;
+  rewards: number;
+  channels: Record<ReviewRequestChannel, ReviewChannelStats>;
+}
+
+export var REVIEW_REQUEST_SETTINGS_KEY = "review_request_settings";
+export var REVIEW_REQUEST_PREFIX = "review_request:";
+export var REVIEW_REQUEST_QUEUE_KEY = "review_request_queue";
+export var REVIEW_REQUEST_CHANNELS: ReviewRequestChannel[] = ["email", "whatsapp"];
+export var MAX_REVIEW_REQUEST_ITEMS = 10;
+export var REVIEW_REQUEST_SENDS_PER_RUN = 25;
+/** A claim older than this was abandoned (isolate died mid-send); the request is retried */
+export var REVIEW_REQUEST_CLAIM_TTL_MS = 15 * 60 * 1000;
+/** Links stop opening the form this long after the message went out */
+export var REVIEW_LINK_VALID_MS = 90 * 24 * 60 * 60 * 1000;
+
+var DAY_MS = 24 * 60 * 60 * 1000;
+
+function _num(v: any, min: number, max: number, fallback: number): number {
+  var n = Number(v);
+  if (!isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+export function reviewRequestKey(userId: string, orderId: string): string {
+  return REVIEW_REQUEST_PREFIX + userId + ":" + orderId;
+}
+
+export function parseReviewRequestSettings(raw: any, prev?: ReviewRequestSettings): ReviewRequestSettings {
+  var src: any = raw;
+  if (typeof src === "string") { try { src = JSON.parse(src); } catch { src = null; } }
+  if (!src || typeof src !== "object") src = {};
+  var base: any = prev || {};
+  var pick = function (obj: any, fallback: any, key: string) { return obj && obj[key] !== undefined ? obj[key] : (fallback ? fallback[key] : undefined); };
+  var channels = src.channels || {};
+  var reward = src.reward || {};
+  var baseChannels = base.channels || {};
+  var baseReward = base.reward || {};
+  var trigger = String(pick(src, base, "trigger") || "delivered");
+  var discountType = String(pick(reward, baseReward, "discountType") || "percentage");
+  var emailOn = pick(channels, baseChannels, "email");
+  return {
+    enabled: !!pick(src, base, "enabled"),
+    trigger: trigger === "shipped" ? "shipped" : "delivered",
+    daysAfter: Math.floor(_num(pick(src, base, "daysAfter"), 0, 60, 3)),
+    channels: {
+      email: emailOn === undefined ? true : !!emailOn,
+      whatsapp: !!pick(channels, baseChannels, "whatsapp"),
+    },
+    reward: {
+      enabled: !!pick(reward, baseReward, "enabled"),
+      discountType: discountType === "fixed" ? "fixed" : "percentage",
+      discountValue: _num(pick(reward, baseReward, "discountValue"), 0, discountType === "fixed" ? 1000 : 50, 5),
+      minOrderValue: _num(pick(reward, baseReward, "minOrderValue"), 0, 99999, 0),
+      validDays: Math.floor(_num(pick(reward, baseReward, "validDays"), 1, 365, 30)),
+    },
+    updatedAt: typeof src.updatedAt === "number" ? src.updatedAt : (base.updatedAt || null),
+  };
+}
+
+/** Why a settings object can't be saved, or null */
+export function checkReviewRequestSettings(s: ReviewRequestSettings): string | null {
+  if (s.enabled && !s.channels.email && !s.channels.whatsapp) return "Escolha ao menos um canal de envio.";
+  if (s.reward.enabled && s.reward.discountValue <= 0) return "Informe o valor do desconto do cupom.";
+  return null;
+}
+
+/** When a request for this status change is due, or null when the status isn't the trigger */
+export function reviewRequestDueAt(settings: ReviewRequestSettings, status: string, now: number): number | null {
+  if (!settings.enabled) return null;
+  if (normalizeOrderStatus(status) !== settings.trigger) return null;
+  return now + settings.daysAfter * DAY_MS;
+}
+
+/** Purchased SKUs of the order, one entry per SKU */
+export function orderReviewItems(order: any): ReviewRequestItem[] {
+  var out: ReviewRequestItem[] = [];
+  var seen: Record<string, boolean> = {};
+  var items = order && Array.isArray(order.items) ? order.items : [];
+  for (var i = 0; i < items.length && out.length < MAX_REVIEW_REQUEST_ITEMS; i++) {
+    var sku = String(items[i].sku || items[i].codProduto || "").trim();
+    if (!sku || seen[sku]) continue;
+    seen[sku] = true;
+    out.push({ sku: sku, titulo: String(items[i].titulo || items[i].name || sku).substring(0, 200), reviewId: null, channel: null });
+  }
+  return out;
+}
+
+export function newReviewRequest(order: any, userId: string, contact: { email: string; name: string; phone: any }, dueAt: number, now: number): ReviewRequest {
+  return {
+    userId: userId,
+    orderId: String(order.localOrderId || ""),
+    email: String(contact.email || "").trim().toLowerCase(),
+    name: String(contact.name || "").trim().substring(0, 120),
+    phone: normalizeAlertPhone(contact.phone),
+    items: orderReviewItems(order),
+    status: "scheduled",
+    claimedAt: null,
+    dueAt: dueAt,
+    createdAt: now,
+    sentAt: null,
+    delivery: { email: "skipped", whatsapp: "skipped" },
+    clicks: { email: 0, whatsapp: 0 },
+    error: null,
+    rewardCode: null,
+    rewardedAt: null,
+  };
+}
+
+export function parseReviewRequest(raw: any): ReviewRequest | null {
+  var r: any = raw;
+  if (typeof r === "string") { try { r = JSON.parse(r); } catch { return null; } }
+  if (!r || typeof r !== "object" || !r.userId || !r.orderId) return null;
+  return {
+    userId: String(r.userId),
+    orderId: String(r.orderId),
+    email: String(r.email || ""),
+    name: String(r.name || ""),
+    phone: r.phone ? String(r.phone) : null,
+    items: Array.isArray(r.items) ? r.items.filter(function (it: any) { return it && it.sku; }).map(function (it: any) {
+      return { sku: String(it.sku), titulo: String(it.titulo || it.sku), reviewId: it.reviewId || null, channel: it.channel === "whatsapp" || it.channel === "email" ? it.channel : null };
+    }) : [],
+    status: r.status === "sent" || r.status === "skipped" ? r.status : "scheduled",
+    claimedAt: Number(r.claimedAt) || null,
+    dueAt: Number(r.dueAt) || 0,
+    createdAt: Number(r.createdAt) || 0,
+    sentAt: r.sentAt || null,
+    delivery: { email: (r.delivery && r.delivery.email) || "skipped", whatsapp: (r.delivery && r.delivery.whatsapp) || "skipped" },
+    clicks: { email: Number(r.clicks && r.clicks.email) || 0, whatsapp: Number(r.clicks && r.clicks.whatsapp) || 0 },
+    error: r.error || null,
+    rewardCode: r.rewardCode || null,
+    rewardedAt: r.rewardedAt || null,
+  };
+}
+
+/** An order that was cancelled or returned after the trigger gets no request */
+export function orderStillPurchased(order: any): boolean {
+  var st = normalizeOrderStatus(order && order.status);
+  return !!st && PURCHASED_ORDER_STATUSES.indexOf(st) !== -1;
+}
+
+/** Items the customer hasn't reviewed yet (reviewedSkus = existing non-rejected reviews) */
+export function pendingReviewItems(req: ReviewRequest, reviewedSkus: string[]): ReviewRequestItem[] {
+  return req.items.filter(function (it) { return !it.reviewId && reviewedSkus.indexOf(it.sku) === -1; });
+}
+
+export function markRequestSent(req: ReviewRequest, delivery: { email: ReviewRequestDelivery; whatsapp: ReviewRequestDelivery }, error: string | null, now: number): ReviewRequest {
+  var anySent = delivery.email === "sent" || delivery.whatsapp === "sent";
+  return { ...req, status: anySent ? "sent" : "skipped", sentAt: anySent ? now : null, delivery: delivery, error: error };
+}
+
+/** Takes a due request for delivery; undefined when already sent/skipped or claimed by a live worker */
+export function claimReviewRequest(req: ReviewRequest, now: number): ReviewRequest | undefined {
+  if (req.status !== "scheduled") return undefined;
+  if (req.claimedAt && now - req.claimedAt < REVIEW_REQUEST_CLAIM_TTL_MS) return undefined;
+  return { ...req, claimedAt: now };
+}
+
+export function markRequestSkipped(req: ReviewRequest, reason: string): ReviewRequest {
+  return { ...req, status: "skipped", error: reason };
+}
+
+// ─── Queue ───
+
+export function parseReviewQueue(raw: any): ReviewRequestQueueEntry[] {
+  var list: any = raw;
+  if (typeof list === "string") { try { list = JSON.parse(list); } catch { list = []; } }
+  if (!Array.isArray(list)) return [];
+  return list.filter(function (e: any) { return e && typeof e.key === "string" && e.key.indexOf(REVIEW_REQUEST_PREFIX) === 0; })
+    .map(function (e: any) { return { key: e.key, dueAt: Number(e.dueAt) || 0 }; });
+}
+
+export function withQueueEntry(queue: ReviewRequestQueueEntry[], key: string, dueAt: number): ReviewRequestQueueEntry[] {
+  return queue.filter(function (e) { return e.key !== key; }).concat([{ key: key, dueAt: dueAt }]);
+}
+
+export function withoutQueueEntries(queue: ReviewRequestQueueEntry[], keys: string[]): ReviewRequestQueueEntry[] {
+  return queue.filter(function (e) { return keys.indexOf(e.key) === -1; });
+}
+
+export function dueQueueKeys(queue: ReviewRequestQueueEntry[], now: number, max: number): string[] {
+  return queue.filter(function (e) { return e.dueAt <= now; })
+    .sort(function (a, b) { return a.dueAt - b.dueAt; })
+    .slice(0, max)
+    .map(function (e) { return e.key; });
+}
+
+// ─── Signed links (payload for signed_tokens.ts, purpose "review_request") ───
+
+export function reviewTokenPayload(userId: string, orderId: string, channel: ReviewRequestChannel): string {
+  return userId + "|" + orderId + "|" + channel;
+}
+
+export function parseReviewTokenPayload(payload: string): { userId: string; orderId: string; channel: ReviewRequestChannel } | null {
+  var fields = payload.split("|");
+  if (fields.length !== 3 || !fields[0] || !fields[1]) return null;
+  if (REVIEW_REQUEST_CHANNELS.indexOf(fields[2] as ReviewRequestChannel) === -1) return null;
+  return { userId: fields[0], orderId: fields[1], channel: fields[2] as ReviewRequestChannel };
+}
+
+export function reviewLinkExpired(req: ReviewRequest, now: number): boolean {
+  return !req.sentAt || now - req.sentAt > REVIEW_LINK_VALID_MS;
+}
+
+export function reviewProductUrl(siteUrl: string, sku: string, token: string): string {
+  return siteUrl + "/produto/" + encodeURIComponent(sku) + "?avaliar=" + encodeURIComponent(token) + "#avaliacoes";
+}
+
+// ─── Tracking ───
+
+export function recordReviewClick(req: ReviewRequest, channel: ReviewRequestChannel): ReviewRequest {
+  var clicks = { ...req.clicks };
+  clicks[channel] = (clicks[channel] || 0) + 1;
+  return { ...req, clicks: clicks };
+}
+
+export function recordRequestReview(req: ReviewRequest, sku: string, reviewId: string, channel: ReviewRequestChannel): ReviewRequest {
+  return {
+    ...req,
+    items: req.items.map(function (it) { return it.sku === sku && !it.reviewId ? { ...it, reviewId: reviewId, channel: channel } : it; }),
+  };
+}
+
+/** Claims the reward for an approved review; undefined when already rewarded or not from this request */
+export function claimReviewReward(req: ReviewRequest, reviewId: string, code: string, now: number): ReviewRequest | undefined {
+  if (req.rewardCode) return undefined;
+  if (!req.items.some(function (it) { return it.reviewId === reviewId; })) return undefined;
+  return { ...req, rewardCode: code, rewardedAt: now };
+}
+
+/** Coupon record for the reward (same shape as the admin coupon form) */
+export function rewardCouponFields(reward: ReviewRewardSettings, code: string, orderId: string, now: number): Record<string, any> {
+  return {
+    code: code,
+    description: "Obrigado pela avaliacao (pedido " + orderId + ")",
+    discountType: reward.discountType,
+    discountValue: reward.discountValue,
+    minOrderValue: reward.minOrderValue,
+    maxUses: 1,
+    usedCount: 0,
+    active: true,
+    expiresAt: new Date(now + reward.validDays * DAY_MS).toISOString(),
+    singleUsePerCpf: true,
+    usedByCpf: [] as string[],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function formatRewardValue(reward: { discountType: string; discountValue: number }): string {
+  return reward.discountType === "fixed"
+    ? "R$ " + reward.discountValue.toFixed(2).replace(".", ",")
+    : reward.discountValue + "%";
+}
+
+export function reviewWhatsAppText(req: ReviewRequest, links: Array<{ titulo: string; url: string }>, reward: ReviewRewardSettings | null): string {
+  var hello = req.name ? "Oi " + req.name.split(" ")[0] + "! " : "Oi! ";
+  var lines = [hello + "Seu pedido " + req.orderId + " da Carretao Auto Pecas chegou. Conta pra gente o que achou?"];
+  for (var i = 0; i < links.length && i < 3; i++) lines.push("- " + links[i].titulo + ": " + links[i].url);
+  if (links.length > 3) lines.push("(e mais " + (links.length - 3) + " produto(s) do pedido: qualquer link acima mostra todos)");
+  if (reward && reward.enabled) lines.push("Avaliacao aprovada vale um cupom de " + formatRewardValue(reward) + " na proxima compra.");
+  return lines.join("\n");
+}
+
+export function reviewRequestStats(requests: ReviewRequest[]): ReviewRequestStats {
+  var out: ReviewRequestStats = {
+    total: requests.length, scheduled: 0, sent: 0, skipped: 0, rewards: 0,
+    channels: {
+      email: { sent: 0, clicked: 0, converted: 0, reviews: 0, conversionRate: 0 },
+      whatsapp: { sent: 0, clicked: 0, converted: 0, reviews: 0, conversionRate: 0 },
+    },
+  };
+  for (var i = 0; i < requests.length; i++) {
+    var r = requests[i];
+    out[r.status]++;
+    if (r.rewardCode) out.rewards++;
+    for (var c = 0; c < REVIEW_REQUEST_CHANNELS.length; c++) {
+      var ch = REVIEW_REQUEST_CHANNELS[c];
+      if (r.delivery[ch] !== "sent") continue;
+      var st = out.channels[ch];
+      st.sent++;
+      if (r.clicks[ch] > 0) st.clicked++;
+      var reviews = r.items.filter(function (it) { return it.channel === ch; }).length;
+      st.reviews += reviews;
+      if (reviews > 0) st.converted++;
+    }
+  }
+  for (var k = 0; k < REVIEW_REQUEST_CHANNELS.length; k++) {
+    var cs = out.channels[REVIEW_REQUEST_CHANNELS[k]];
+    cs.conversionRate = cs.sent > 0 ? Math.round((cs.converted / cs.sent) * 1000) / 10 : 0;
+  }
+  return out;
+}
+
+/** Admin list row */
+export function publicReviewRequest(req: ReviewRequest): any {
+  return {
+    userId: req.userId,
+    orderId: req.orderId,
+    name: req.name,
+    email: req.email,
+    hasPhone: !!req.phone,
+    status: req.status,
+    dueAt: req.dueAt,
+    sentAt: req.sentAt,
+    delivery: req.delivery,
+    clicks: req.clicks,
+    items: req.items.map(function (it) { return { sku: it.sku, titulo: it.titulo, reviewed: !!it.reviewId, channel: it.channel }; }),
+    error: req.error,
+    rewardCode: req.rewardCode,
+  };
+}
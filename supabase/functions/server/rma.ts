@@ -0,0 +1,273 @@
+// ═══════════════════════════════════════════════════════════════════════
+// RMA.TS — Trocas e devolucoes (rma:*) (sem acesso a KV)
+//
+// Fluxo:
+//   requested → approved → label_issued → received → refunded | exchanged
+// Ramos:
+//   requested → rejected | cancelled (cliente desiste)
+//   approved  → received  (cliente entregou na loja, sem etiqueta)
+//   approved  → cancelled
+// Prazos (contados da entrega do pedido):
+//   - arrependimento (CDC art. 49): 7 dias
+//   - produto errado / com defeito / avariado / garantia (CDC art. 26): 90 dias
+// Cada solicitacao cobre parte ou todos os itens de um pedido entregue; varias
+// solicitacoes podem existir para o mesmo pedido desde que as quantidades
+// nao ultrapassem o que foi comprado.
+// ═══════════════════════════════════════════════════════════════════════
+
+import { normalizeOrderStatus, type OrderActor } from "./order_status.ts";
+import { refundLinesValue, paidShipping, shippingRefunded, orderRefundable } from "./refunds.ts";
+
+export type RmaStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "label_issued"
+  | "received"
+  | "refunded"
+  | "exchanged"
+  | "cancelled";
+
+export type RmaReason = "withdrawal" | "wrong_item" | "defective" | "damaged" | "warranty" | "other";
+
+export type RmaResolution = "refund" | "exchange";
+
+export var RMA_STATUSES: RmaStatus[] = [
+  "requested", "approved", "rejected", "label_issued", "received", "refunded", "exchanged", "cancelled",
+];
+
+export var RMA_REASONS: RmaReason[] = ["withdrawal", "wrong_item", "defective", "damaged", "warranty", "other"];
+
+export var RMA_TRANSITIONS: Record<RmaStatus, RmaStatus[]> = {
+  requested: ["approved", "rejected", "cancelled"],
+  approved: ["label_issued", "received", "cancelled"],
+  label_issued: ["received"],
+  received: ["refunded", "exchanged"],
+  rejected: [],
+  refunded: [],
+  exchanged: [],
+  cancelled: [],
+};
+
+/** Statuses that still hold the order in "return_requested" */
+export var RMA_OPEN_STATUSES: RmaStatus[] = ["requested", "approved", "label_issued", "received"];
+
+export var RMA_WITHDRAWAL_DAYS = 7;
+export var RMA_DEFECT_DAYS = 90;
+export var RMA_MAX_PHOTOS = 5;
+
+export interface RmaItem {
+  sku: string;
+  titulo: string;
+  quantidade: number;
+  valorUnitario: number;
+  /** Set when the goods are received: true = back to sellable stock */
+  restock?: boolean;
+}
+
+export interface RmaPhoto {
+  path: string;
+  uploadedAt: string;
+}
+
+export interface RmaStatusChange {
+  from: RmaStatus | null;
+  to: RmaStatus;
+  at: string;
+  by: OrderActor;
+  note?: string;
+}
+
+export interface RmaWindow {
+  deliveredAt: string;
+  withdrawalUntil: string;
+  defectUntil: string;
+}
+
+var DAY_MS = 86400000;
+var MAX_HISTORY = 50;
+
+export function isRmaReason(raw: any): raw is RmaReason {
+  return RMA_REASONS.indexOf(raw) !== -1;
+}
+
+export function isRmaOpen(rma: any): boolean {
+  return RMA_OPEN_STATUSES.indexOf(rma && rma.status) !== -1;
+}
+
+/** When the order reached the customer: deliveredAt, else the "delivered" history entry */
+function _deliveredAt(order: any): string | null {
+  if (order.deliveredAt) return order.deliveredAt;
+  var history = Array.isArray(order.statusHistory) ? order.statusHistory : [];
+  for (var i = history.length - 1; i >= 0; i--) {
+    if (history[i] && history[i].to === "delivered") return history[i].at;
+  }
+  return null;
+}
+
+/** Return windows of a delivered order (null while it has not been delivered) */
+export function rmaWindow(order: any): RmaWindow | null {
+  var status = normalizeOrderStatus(order.status);
+  if (status !== "delivered" && status !== "return_requested" && status !== "returned") return null;
+  var deliveredAt = _deliveredAt(order);
+  var base = deliveredAt ? new Date(deliveredAt).getTime() : NaN;
+  if (!isFinite(base)) return null;
+  return {
+    deliveredAt: new Date(base).toISOString(),
+    withdrawalUntil: new Date(base + RMA_WITHDRAWAL_DAYS * DAY_MS).toISOString(),
+    defectUntil: new Date(base + RMA_DEFECT_DAYS * DAY_MS).toISOString(),
+  };
+}
+
+/** Returns an error message, or null when the customer may open an RMA for this reason */
+export function checkRmaEligibility(order: any, reason: RmaReason, now: number): string | null {
+  var status = normalizeOrderStatus(order.status);
+  if (status !== "delivered" && status !== "return_requested") {
+    return "Trocas e devolucoes so podem ser solicitadas para pedidos entregues.";
+  }
+  var win = rmaWindow(order);
+  if (!win) return "Data de entrega do pedido nao encontrada. Fale com o atendimento.";
+  var until = reason === "withdrawal" ? win.withdrawalUntil : win.defectUntil;
+  if (now > new Date(until).getTime()) {
+    return reason === "withdrawal"
+      ? "O prazo de arrependimento (" + RMA_WITHDRAWAL_DAYS + " dias apos a entrega) terminou."
+      : "O prazo para solicitar troca ou devolucao (" + RMA_DEFECT_DAYS + " dias apos a entrega) terminou.";
+  }
+  return null;
+}
+
+/**
+ * Validates the requested lines against the order, discounting units already
+ * claimed by other non-rejected/non-cancelled RMAs of the same order.
+ */
+export function buildRmaItems(
+  order: any,
+  requested: any[],
+  otherRmas: any[]
+): { ok: true; items: RmaItem[] } | { ok: false; error: string } {
+  var orderItems = Array.isArray(order.items) ? order.items : [];
+  var claimed: Record<string, number> = {};
+  for (var r = 0; r < otherRmas.length; r++) {
+    var other = otherRmas[r];
+    if (!other || other.status === "rejected" || other.status === "cancelled") continue;
+    for (var oi = 0; oi < (other.items || []).length; oi++) {
+      var oit = other.items[oi];
+      claimed[oit.sku] = (claimed[oit.sku] || 0) + (Number(oit.quantidade) || 0);
+    }
+  }
+
+  var items: RmaItem[] = [];
+  var seen: Record<string, boolean> = {};
+  for (var i = 0; i < requested.length; i++) {
+    var req = requested[i] || {};
+    var sku = String(req.sku || "").trim();
+    var qty = Math.floor(Number(req.quantidade) || 0);
+    if (!sku || qty <= 0) continue;
+    if (seen[sku]) return { ok: false, error: "Item repetido na solicitacao: " + sku + "." };
+    seen[sku] = true;
+    var line = null;
+    for (var j = 0; j < orderItems.length; j++) {
+      if (String(orderItems[j].sku || orderItems[j].codProduto || "") === sku) { line = orderItems[j]; break; }
+    }
+    if (!line) return { ok: false, error: "Item " + sku + " nao pertence a este pedido." };
+    var available = (Number(line.quantidade) || 1) - (claimed[sku] || 0);
+    if (qty > available) {
+      return { ok: false, error: available > 0
+        ? "Quantidade maxima para " + sku + ": " + available + "."
+        : "O item " + sku + " ja tem troca ou devolucao solicitada." };
+    }
+    items.push({
+      sku: sku,
+      titulo: String(line.titulo || sku).substring(0, 300),
+      quantidade: qty,
+      valorUnitario: Number(line.valorUnitario) || 0,
+    });
+  }
+  if (items.length === 0) return { ok: false, error: "Selecione ao menos um item." };
+  return { ok: true, items: items };
+}
+
+/**
+ * Amount owed to the customer for the returned items: item value minus the
+ * proportional coupon discount, plus the warranty bought for the returned units.
+ * Shipping is refunded when, together with earlier RMAs, every unit comes back.
+ */
+export function rmaRefundValue(order: any, items: RmaItem[], otherRmas: any[]): number {
+  var orderItems = Array.isArray(order.items) ? order.items : [];
+  var unitsBought = 0;
+  for (var i = 0; i < orderItems.length; i++) unitsBought += Number(orderItems[i].quantidade) || 1;
+
+  var value = refundLinesValue(order, items);
+  var unitsReturned = 0;
+  for (var k = 0; k < items.length; k++) unitsReturned += items[k].quantidade;
+  for (var r = 0; r < otherRmas.length; r++) {
+    var other = otherRmas[r];
+    if (!other || other.status === "rejected" || other.status === "cancelled") continue;
+    for (var oi = 0; oi < (other.items || []).length; oi++) unitsReturned += Number(other.items[oi].quantidade) || 0;
+  }
+  if (unitsBought > 0 && unitsReturned >= unitsBought && !shippingRefunded(order)) value += paidShipping(order);
+  return Math.round(Math.min(value, orderRefundable(order)) * 100) / 100;
+}
+
+/** Same contract as transitionOrder(): illegal moves are rejected, history is appended */
+export function transitionRma(
+  rma: any,
+  to: RmaStatus,
+  actor: OrderActor,
+  note?: string
+): { ok: true } | { ok: false; error: string; allowed: RmaStatus[] } {
+  var from: RmaStatus = rma.status;
+  var allowed = RMA_TRANSITIONS[from] || [];
+  if (allowed.indexOf(to) === -1) {
+    return { ok: false, error: "Transicao invalida: " + from + " → " + to + ".", allowed: allowed.slice() };
+  }
+  var at = new Date().toISOString();
+  var by: OrderActor = { type: actor.type };
+  if (actor.id) by.id = String(actor.id).substring(0, 100);
+  if (actor.name) by.name = String(actor.name).substring(0, 120);
+  var entry: RmaStatusChange = { from: from, to: to, at: at, by: by };
+  if (note) entry.note = String(note).substring(0, 500);
+  if (!Array.isArray(rma.history)) rma.history = [];
+  rma.history.push(entry);
+  if (rma.history.length > MAX_HISTORY) rma.history = rma.history.slice(rma.history.length - MAX_HISTORY);
+  rma.status = to;
+  rma.updatedAt = at;
+  return { ok: true };
+}
+
+/** RMA as shown to the customer: actor reduced to its type; admin notes on history are kept (they explain decisions) */
+export function publicRma(rma: any): any {
+  var out: any = {
+    id: rma.id,
+    orderId: rma.orderId,
+    status: rma.status,
+    reason: rma.reason,
+    resolution: rma.resolution,
+    description: rma.description || "",
+    items: (rma.items || []).map(function (it: RmaItem) {
+      return { sku: it.sku, titulo: it.titulo, quantidade: it.quantidade, valorUnitario: it.valorUnitario };
+    }),
+    refundValue: rma.refundValue || 0,
+    createdAt: rma.createdAt,
+    updatedAt: rma.updatedAt,
+    history: (rma.history || []).map(function (h: RmaStatusChange) {
+      var e: any = { from: h.from, to: h.to, at: h.at, by: { type: h.by && h.by.type ? h.by.type : "system" } };
+      if (h.note && h.by && h.by.type === "admin") e.note = h.note;
+      return e;
+    }),
+  };
+  if (rma.returnLabel) {
+    out.returnLabel = {
+      trackingCode: rma.returnLabel.trackingCode || null,
+      labelUrl: rma.returnLabel.labelUrl || null,
+      carrierName: rma.returnLabel.carrierName || null,
+      instructions: rma.returnLabel.instructions || null,
+      issuedAt: rma.returnLabel.issuedAt,
+    };
+  }
+  if (rma.refund) {
+    out.refund = { amount: rma.refund.amount, provider: rma.refund.provider, manual: !!rma.refund.manual, at: rma.refund.at };
+    if (rma.refund.status === "pending_manual") out.refund.pending = true;
+  }
+  return out;
+}
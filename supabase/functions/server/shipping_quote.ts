@@ -0,0 +1,399 @@
+// ═══════════════════════════════════════════════════════════════════════
+// SHIPPING_QUOTE.TS — Cotacao de frete reproduzivel (sem acesso a KV)
+//
+// /shipping/calculate monta um QuoteInput (CEP, UF/regiao, itens com peso e
+// dimensoes ja enriquecidos do SIGE, peso total, valor do pedido) e roda as
+// regras manuais + tabelas CSV aqui. Cada transportadora gera uma linha de
+// breakdown com o motivo (regra por estado/regiao/padrao, faixa da tabela por
+// volume, frete gratis, fora dos limites...). Input + breakdown ficam gravados
+// em shipping_quote:<id>, de modo que o admin consegue:
+//   - reproduzir uma cotacao reclamada pelo cliente (mesmo input, config atual
+//     ou rascunho) e
+//   - simular um carrinho hipotetico antes de publicar uma mudanca de config.
+// Respostas de APIs externas entram no breakdown como foram recebidas; no
+// replay elas sao reaproveitadas (nao chamamos a API de novo).
+// ═══════════════════════════════════════════════════════════════════════
+
+import { packCart, type PackingPlan } from "./packing.ts";
+
+export var QUOTE_SCHEMA_VERSION = 2;
+
+export interface QuoteItem {
+  sku: string;
+  quantity: number;
+  price: number;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  /** Where the physical data came from (sige, local, default...) */
+  source?: string;
+}
+
+export interface QuoteInput {
+  cep: string;
+  uf: string;
+  region: string;
+  localidade: string;
+  /** ViaCEP failed and the UF was derived from the CEP range */
+  cepFallback: boolean;
+  items: QuoteItem[];
+  totalItems: number;
+  totalWeight: number;
+  defaultWeight: number;
+  orderValue: number;
+}
+
+export type CarrierQuoteStatus = "quoted" | "free" | "disabled" | "oversize" | "manual_quote" | "no_rule" | "no_row" | "api_error";
+
+export interface CarrierBreakdown {
+  carrierId: string;
+  carrierName: string;
+  source: "manual" | "table" | "api" | "pickup";
+  status: CarrierQuoteStatus;
+  price?: number;
+  deliveryDays?: number;
+  freeReason?: string;
+  /** Manual: which rule matched (state > region > default) */
+  rule?: { level: "state" | "region" | "default"; key: string; basePrice: number; pricePerKg: number; pricePerItem: number; deliveryDays: number };
+  /** Table: matched row per package (null = no row for that weight) */
+  rows?: Array<{ billedWeight: number; row: any | null }>;
+  /** Table: version used (the one in effect at quote time) */
+  tableVersion?: { id: string; version: number };
+  plan?: PackingPlan;
+  /** API: options as returned by the provider (or the error) */
+  api?: { options: any[]; error?: string };
+}
+
+export interface QuoteResult {
+  options: any[];
+  breakdown: CarrierBreakdown[];
+}
+
+function _round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function _freeText(value: number): string {
+  return "Frete gratis acima de R$ " + value.toFixed(2).replace(".", ",");
+}
+
+/** Manual rule for a destination: state rule, then region rule, then default */
+export function pickCarrierRule(carrier: any, uf: string, region: string): CarrierBreakdown["rule"] | null {
+  var found: any = null;
+  var level: "state" | "region" | "default" = "state";
+  var key = uf;
+  if (carrier.stateRules && carrier.stateRules[uf]) {
+    found = carrier.stateRules[uf];
+  } else if (carrier.regionRules && carrier.regionRules[region]) {
+    found = carrier.regionRules[region];
+    level = "region";
+    key = region;
+  } else if (carrier.defaultRule) {
+    found = carrier.defaultRule;
+    level = "default";
+    key = "";
+  }
+  if (!found) return null;
+  return {
+    level: level,
+    key: key,
+    basePrice: Number(found.basePrice) || 0,
+    pricePerKg: Number(found.pricePerKg) || 0,
+    pricePerItem: Number(found.pricePerItem) || 0,
+    deliveryDays: Number(found.deliveryDays) || 0,
+  };
+}
+
+/** Manual carrier rules (config.carriers) */
+export function quoteManualCarriers(input: QuoteInput, config: any): QuoteResult {
+  var options: any[] = [];
+  var breakdown: CarrierBreakdown[] = [];
+  var carriers: any[] = Array.isArray(config.carriers) ? config.carriers : [];
+  for (var i = 0; i < carriers.length; i++) {
+    var carrier = carriers[i];
+    if (!carrier || !carrier.id) continue;
+    var entry: CarrierBreakdown = { carrierId: carrier.id, carrierName: carrier.name || carrier.id, source: "manual", status: "disabled" };
+    breakdown.push(entry);
+    if (!carrier.enabled) continue;
+
+    var plan = packCart(input.items, carrier.cubicFactor, carrier.packageLimits, input.defaultWeight);
+    entry.plan = plan;
+    // A part larger than the carrier accepts (e.g. a bumper for a Correios service)
+    if (plan.oversize.length > 0) {
+      entry.status = "oversize";
+      continue;
+    }
+    // Too many packages to price automatically (never under-quote a partial plan)
+    if (plan.manualQuote) {
+      entry.status = "manual_quote";
+      continue;
+    }
+
+    var freeAbove = carrier.freeAbove ?? config.freeShippingMinValue;
+    if (freeAbove && input.orderValue >= freeAbove) {
+      var freeDays = carrier.additionalDays || 0;
+      entry.status = "free";
+      entry.price = 0;
+      entry.deliveryDays = freeDays;
+      entry.freeReason = _freeText(freeAbove);
+      options.push({
+        carrierId: carrier.id,
+        carrierName: carrier.name,
+        carrierType: carrier.type,
+        price: 0,
+        deliveryDays: freeDays,
+        deliveryText: freeDays ? "ate " + freeDays + " dias uteis" : "A consultar",
+        free: true,
+        freeReason: entry.freeReason,
+        source: "manual",
+      });
+      continue;
+    }
+
+    var rule = pickCarrierRule(carrier, input.uf, input.region);
+    if (!rule) {
+      entry.status = "no_rule";
+      continue;
+    }
+    entry.rule = rule;
+
+    // Each package is billed on its own: base + kg over max(real, cubic) + extra units
+    var boxes = plan.packages.length > 0 ? plan.packages : [{ billedWeight: input.totalWeight, units: input.totalItems }];
+    var price = 0;
+    for (var b = 0; b < boxes.length; b++) {
+      price += rule.basePrice;
+      if (rule.pricePerKg && boxes[b].billedWeight > 0) price += rule.pricePerKg * boxes[b].billedWeight;
+      if (rule.pricePerItem && boxes[b].units > 1) price += rule.pricePerItem * (boxes[b].units - 1);
+    }
+    var days = rule.deliveryDays + (carrier.additionalDays || 0);
+    entry.status = "quoted";
+    entry.price = _round2(price);
+    entry.deliveryDays = days;
+    options.push({
+      carrierId: carrier.id,
+      carrierName: carrier.name,
+      carrierType: carrier.type,
+      price: entry.price,
+      deliveryDays: days,
+      deliveryText: days > 0 ? "ate " + days + " dias uteis" : "A consultar",
+      free: false,
+      source: "manual",
+    });
+  }
+  return { options: options, breakdown: breakdown };
+}
+
+/** Table row for a CEP + weight (most specific CEP range wins) */
+export function matchFreightTableRow(rows: any[], destNum: number, weight: number): any | null {
+  var best: any = null;
+  for (var i = 0; i < rows.length; i++) {
+    var row = rows[i];
+    var cepStart = parseInt(row.cepInicio, 10);
+    var cepEnd = parseInt(row.cepFim, 10);
+    if (destNum < cepStart || destNum > cepEnd) continue;
+    var wMin = row.pesoMin || 0;
+    var wMax = row.pesoMax || 9999;
+    if (weight < wMin || weight > wMax) continue;
+    if (!best || cepEnd - cepStart < parseInt(best.cepFim, 10) - parseInt(best.cepInicio, 10)) best = row;
+  }
+  return best;
+}
+
+/**
+ * Uploaded freight tables. Each package (table limits + cubic factor) is
+ * looked up by its billed weight and the rows are summed.
+ */
+export function quoteFreightTables(input: QuoteInput, tables: any[], freeMinValue: number | null): QuoteResult {
+  var options: any[] = [];
+  var breakdown: CarrierBreakdown[] = [];
+  var destNum = parseInt(input.cep, 10);
+  for (var t = 0; t < tables.length; t++) {
+    var table = tables[t];
+    if (!table || !Array.isArray(table.rows)) continue;
+    var entry: CarrierBreakdown = { carrierId: table.id, carrierName: table.carrierName || table.name, source: "table", status: "no_row" };
+    if (table.versionId) entry.tableVersion = { id: table.versionId, version: table.version };
+    breakdown.push(entry);
+
+    var plan = packCart(input.items, table.cubicFactor, table.packageLimits, input.defaultWeight);
+    entry.plan = plan;
+    if (plan.oversize.length > 0) {
+      entry.status = "oversize";
+      continue;
+    }
+    if (plan.manualQuote) {
+      entry.status = "manual_quote";
+      continue;
+    }
+
+    var weights = plan.packages.length > 0
+      ? plan.packages.map(function (p) { return p.billedWeight; })
+      : [input.totalWeight];
+    var valor = 0;
+    var prazo = 0;
+    var missing = false;
+    entry.rows = [];
+    for (var w = 0; w < weights.length; w++) {
+      var row = matchFreightTableRow(table.rows, destNum, weights[w]);
+      entry.rows.push({ billedWeight: weights[w], row: row });
+      if (!row) { missing = true; continue; }
+      valor += row.valor || 0;
+      if ((row.prazo || 0) > prazo) prazo = row.prazo || 0;
+    }
+    if (missing) continue;
+
+    var isFree = freeMinValue != null && input.orderValue >= freeMinValue;
+    entry.status = isFree ? "free" : "quoted";
+    entry.price = isFree ? 0 : _round2(valor);
+    entry.deliveryDays = prazo;
+    if (isFree) entry.freeReason = _freeText(freeMinValue!);
+    options.push({
+      carrierId: table.id,
+      carrierName: table.carrierName || table.name,
+      carrierType: table.carrierType || "transportadora",
+      price: entry.price,
+      deliveryDays: prazo,
+      deliveryText: prazo > 0 ? "ate " + prazo + " dias uteis" : "A consultar",
+      free: isFree,
+      freeReason: entry.freeReason,
+      source: "table",
+    });
+  }
+  return { options: options, breakdown: breakdown };
+}
+
+/** Breakdown lines of external API options (kept as received) */
+export function apiBreakdown(apiOptions: any[], error?: string): CarrierBreakdown[] {
+  if (error) {
+    return [{ carrierId: "api", carrierName: "API de frete", source: "api", status: "api_error", api: { options: [], error: error } }];
+  }
+  return (apiOptions || []).map(function (o: any) {
+    return {
+      carrierId: String(o.carrierId || ""),
+      carrierName: String(o.carrierName || ""),
+      source: "api" as const,
+      status: (o.free ? "free" : "quoted") as CarrierQuoteStatus,
+      price: Number(o.price) || 0,
+      deliveryDays: Number(o.deliveryDays) || 0,
+      api: { options: [o] },
+    };
+  });
+}
+
+/** Packing plans for _enrichment.packing (AdminShipping "Simular Volumes") */
+export function packingLogFromBreakdown(breakdown: CarrierBreakdown[]): any[] {
+  var out: any[] = [];
+  for (var i = 0; i < breakdown.length; i++) {
+    var b = breakdown[i];
+    if (!b.plan) continue;
+    var log: any = { carrierId: b.carrierId, carrierName: b.carrierName, source: b.source, ...b.plan };
+    if (b.status === "no_row") log.unmatched = true;
+    out.push(log);
+  }
+  return out;
+}
+
+/** Same order the customer sees: cheapest first, one option per carrierId */
+export function dedupeAndSortOptions(options: any[]): any[] {
+  var seen: Record<string, boolean> = {};
+  var out = options.filter(function (o: any) {
+    if (seen[o.carrierId]) return false;
+    seen[o.carrierId] = true;
+    return true;
+  });
+  out.sort(function (a: any, b: any) { return a.price - b.price; });
+  return out;
+}
+
+// ─── Replay / diff ───
+
+export type QuoteDiffChange = "same" | "price" | "days" | "added" | "removed" | "status";
+
+export interface QuoteDiffRow {
+  carrierId: string;
+  carrierName: string;
+  source: string;
+  change: QuoteDiffChange;
+  before: { status: CarrierQuoteStatus; price: number | null; deliveryDays: number | null } | null;
+  after: { status: CarrierQuoteStatus; price: number | null; deliveryDays: number | null } | null;
+  /** after.price - before.price when both offered */
+  delta: number | null;
+}
+
+function _offered(b: CarrierBreakdown | undefined): boolean {
+  return !!b && (b.status === "quoted" || b.status === "free");
+}
+
+function _side(b: CarrierBreakdown | undefined): QuoteDiffRow["before"] {
+  if (!b) return null;
+  return {
+    status: b.status,
+    price: b.price !== undefined ? b.price : null,
+    deliveryDays: b.deliveryDays !== undefined ? b.deliveryDays : null,
+  };
+}
+
+/** Per-carrier diff of two breakdowns (stored quote vs replay, or saved vs draft config) */
+export function diffBreakdowns(before: CarrierBreakdown[], after: CarrierBreakdown[]): QuoteDiffRow[] {
+  var byId: Record<string, { before?: CarrierBreakdown; after?: CarrierBreakdown }> = {};
+  var ids: string[] = [];
+  function add(list: CarrierBreakdown[], side: "before" | "after") {
+    for (var i = 0; i < list.length; i++) {
+      // carrierId is unique across sources (carrier id, table id, API service)
+      var id = list[i].carrierId;
+      if (!byId[id]) { byId[id] = {}; ids.push(id); }
+      if (!byId[id][side]) byId[id][side] = list[i];
+    }
+  }
+  add(before, "before");
+  add(after, "after");
+
+  return ids.map(function (id) {
+    var pair = byId[id];
+    var ref = (pair.after || pair.before)!;
+    var was = _offered(pair.before);
+    var is = _offered(pair.after);
+    var change: QuoteDiffChange = "same";
+    var delta: number | null = null;
+    if (was && is) {
+      delta = _round2((pair.after!.price || 0) - (pair.before!.price || 0));
+      if (Math.abs(delta) > 0.005) change = "price";
+      else if ((pair.after!.deliveryDays || 0) !== (pair.before!.deliveryDays || 0)) change = "days";
+    } else if (!was && is) {
+      change = "added";
+    } else if (was && !is) {
+      change = "removed";
+    } else if (pair.before && pair.after && pair.before.status !== pair.after.status) {
+      change = "status";
+    }
+    return {
+      carrierId: ref.carrierId,
+      carrierName: ref.carrierName,
+      source: ref.source,
+      change: change,
+      before: _side(pair.before),
+      after: _side(pair.after),
+      delta: delta,
+    };
+  });
+}
+
+/**
+ * Stored quotes from before the breakdown existed only have
+ * options[{carrierId, price, free}] — turn them into breakdown lines so
+ * they can still be diffed.
+ */
+export function storedQuoteBreakdown(stored: any): CarrierBreakdown[] {
+  if (stored && Array.isArray(stored.breakdown)) return stored.breakdown;
+  var opts: any[] = (stored && Array.isArray(stored.options)) ? stored.options : [];
+  return opts.map(function (o: any) {
+    return {
+      carrierId: String(o.carrierId || ""),
+      carrierName: String(o.carrierName || o.carrierId || ""),
+      source: (o.source || "manual") as CarrierBreakdown["source"],
+      status: (o.free ? "free" : "quoted") as CarrierQuoteStatus,
+      price: Number(o.price) || 0,
+      deliveryDays: o.deliveryDays !== undefined ? Number(o.deliveryDays) || 0 : undefined,
+    };
+  });
+}
@@ -0,0 +1,296 @@
+// ═══════════════════════════════════════════════════════════════════════
+// SHIPPING_TABLES.TS — Versoes das tabelas de frete CSV (sem acesso a KV)
+//
+// shipping_table:<id>                      → meta + versions[] (sem linhas)
+// shipping_table_version:<id>:<versionId>  → linhas de uma versao (imutavel)
+//
+// Cada versao tem validFrom/validTo (validTo null = sem fim). Na cotacao vale
+// a versao ativa com o maior validFrom <= agora — uma tabela agendada para o
+// dia 1º assume sozinha nesse dia, sem apagar a anterior. "Reverter" desativa
+// a versao vigente e a anterior volta a valer (um clique, reversivel).
+//
+// Tabelas antigas (rows direto no registro, sem versions) sao tratadas como a
+// versao 1 valida desde createdAt; na primeira nova versao elas migram.
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface TableRow {
+  cepInicio: string;
+  cepFim: string;
+  pesoMin: number;
+  pesoMax: number;
+  valor: number;
+  prazo: number;
+}
+
+export interface TableVersionMeta {
+  id: string;
+  version: number;
+  validFrom: number;
+  validTo: number | null;
+  rowCount: number;
+  createdAt: number;
+  createdBy?: string;
+  note?: string;
+  disabled?: boolean;
+  disabledAt?: number;
+  /** Counts from the import diff, kept for the version history */
+  summary?: { added: number; removed: number; changed: number; gaps: number; overlaps: number };
+  /** Legacy table: rows still live on the table record */
+  legacy?: boolean;
+}
+
+/** Per-list cap on the samples returned with a diff (counts are always complete) */
+var DIFF_SAMPLE_LIMIT = 200;
+
+export var LEGACY_VERSION_ID = "v1";
+
+export function tableVersionKey(tableId: string, versionId: string): string {
+  return "shipping_table_version:" + tableId + ":" + versionId;
+}
+
+export function newVersionId(): string {
+  return "v" + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+/** Sanitized rows (same rules as the original CSV import); invalid lines are dropped */
+export function normalizeTableRows(rows: any[]): TableRow[] {
+  var out: TableRow[] = [];
+  for (var i = 0; i < (rows || []).length; i++) {
+    var row = rows[i];
+    if (!row || typeof row !== "object") continue;
+    var cepInicio = String(row.cepInicio || "").replace(/\D/g, "").padStart(8, "0");
+    var cepFim = String(row.cepFim || "").replace(/\D/g, "").padStart(8, "0");
+    var valor = parseFloat(row.valor) || 0;
+    var prazo = parseInt(row.prazo) || 0;
+    var pesoMin = parseFloat(row.pesoMin) || 0;
+    var pesoMax = parseFloat(row.pesoMax) || 9999;
+    if (cepInicio.length !== 8 || cepFim.length !== 8) continue;
+    if (valor <= 0 && prazo <= 0) continue;
+    out.push({ cepInicio: cepInicio, cepFim: cepFim, pesoMin: pesoMin, pesoMax: pesoMax, valor: valor, prazo: prazo });
+  }
+  return out;
+}
+
+/** ms timestamp from a number or ISO string; null when missing/invalid */
+export function parseValidDate(v: any): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  var n = typeof v === "number" ? v : Date.parse(String(v));
+  return isFinite(n) && n > 0 ? n : null;
+}
+
+/** Versions of a table, including the implicit legacy one */
+export function tableVersions(table: any): TableVersionMeta[] {
+  if (Array.isArray(table.versions) && table.versions.length > 0) return table.versions;
+  if (Array.isArray(table.rows)) {
+    return [{
+      id: LEGACY_VERSION_ID,
+      version: 1,
+      validFrom: table.createdAt || 0,
+      validTo: null,
+      rowCount: table.rows.length,
+      createdAt: table.createdAt || 0,
+      legacy: true,
+    }];
+  }
+  return [];
+}
+
+function _validAt(v: TableVersionMeta, at: number): boolean {
+  return !v.disabled && v.validFrom <= at && (v.validTo === null || v.validTo === undefined || at < v.validTo);
+}
+
+/** Version in effect at `at`: latest validFrom wins, then the newest upload */
+export function effectiveVersion(versions: TableVersionMeta[], at: number): TableVersionMeta | null {
+  var best: TableVersionMeta | null = null;
+  for (var i = 0; i < versions.length; i++) {
+    var v = versions[i];
+    if (!_validAt(v, at)) continue;
+    if (!best || v.validFrom > best.validFrom || (v.validFrom === best.validFrom && v.createdAt > best.createdAt)) best = v;
+  }
+  return best;
+}
+
+/** Scheduled versions (validFrom in the future), soonest first */
+export function upcomingVersions(versions: TableVersionMeta[], at: number): TableVersionMeta[] {
+  return versions
+    .filter(function (v) { return !v.disabled && v.validFrom > at; })
+    .sort(function (a, b) { return a.validFrom - b.validFrom; });
+}
+
+/**
+ * Rollback: the version in effect is disabled and whatever was valid before
+ * takes over. Null when there is nothing to fall back to.
+ */
+export function rollbackPlan(versions: TableVersionMeta[], at: number): { disable: TableVersionMeta; restore: TableVersionMeta } | null {
+  var current = effectiveVersion(versions, at);
+  if (!current) return null;
+  var rest = versions.filter(function (v) { return v.id !== current!.id; });
+  var previous = effectiveVersion(rest, at);
+  if (!previous) return null;
+  return { disable: current, restore: previous };
+}
+
+export function nextVersionNumber(versions: TableVersionMeta[]): number {
+  var max = 0;
+  for (var i = 0; i < versions.length; i++) if (versions[i].version > max) max = versions[i].version;
+  return max + 1;
+}
+
+// ─── Import diff ───
+
+export interface RowChange {
+  key: string;
+  before: TableRow;
+  after: TableRow;
+  /** Percent change of valor (null when the old valor was 0) */
+  pct: number | null;
+}
+
+export interface CoverageIssue {
+  /** pesoMin–pesoMax band where the issue was found */
+  band: string;
+  cepInicio: string;
+  cepFim: string;
+  /** Overlaps: the other range; nested = fully inside it (often an intentional override) */
+  other?: { cepInicio: string; cepFim: string };
+  nested?: boolean;
+}
+
+export interface TableDiff {
+  counts: { before: number; after: number; added: number; removed: number; changed: number; unchanged: number; gaps: number; overlaps: number };
+  added: TableRow[];
+  removed: TableRow[];
+  changed: RowChange[];
+  gaps: CoverageIssue[];
+  overlaps: CoverageIssue[];
+}
+
+function _rowKey(r: TableRow): string {
+  return r.cepInicio + "-" + r.cepFim + "|" + r.pesoMin + "-" + r.pesoMax;
+}
+
+function _cepStr(n: number): string {
+  return String(n).padStart(8, "0");
+}
+
+/**
+ * CEP gaps and overlaps inside each weight band of a table. Gaps are only
+ * looked for between the first and last CEP the band covers — a table for
+ * "Sul" is not expected to cover the whole country.
+ */
+export function coverageIssues(rows: TableRow[]): { gaps: CoverageIssue[]; overlaps: CoverageIssue[]; gapCount: number; overlapCount: number } {
+  var bands: Record<string, TableRow[]> = {};
+  var bandKeys: string[] = [];
+  for (var i = 0; i < rows.length; i++) {
+    var band = rows[i].pesoMin + "-" + rows[i].pesoMax;
+    if (!bands[band]) { bands[band] = []; bandKeys.push(band); }
+    bands[band].push(rows[i]);
+  }
+  var gaps: CoverageIssue[] = [];
+  var overlaps: CoverageIssue[] = [];
+  var gapCount = 0;
+  var overlapCount = 0;
+  for (var b = 0; b < bandKeys.length; b++) {
+    var list = bands[bandKeys[b]].slice().sort(function (x, y) {
+      return parseInt(x.cepInicio, 10) - parseInt(y.cepInicio, 10) || parseInt(y.cepFim, 10) - parseInt(x.cepFim, 10);
+    });
+    var reach = -1;
+    var reachRow: TableRow | null = null;
+    for (var k = 0; k < list.length; k++) {
+      var start = parseInt(list[k].cepInicio, 10);
+      var end = parseInt(list[k].cepFim, 10);
+      if (reachRow && start <= reach) {
+        overlapCount++;
+        if (overlaps.length < DIFF_SAMPLE_LIMIT) {
+          overlaps.push({
+            band: bandKeys[b],
+            cepInicio: list[k].cepInicio,
+            cepFim: list[k].cepFim,
+            other: { cepInicio: reachRow.cepInicio, cepFim: reachRow.cepFim },
+            nested: end <= reach,
+          });
+        }
+      } else if (reachRow && start > reach + 1) {
+        gapCount++;
+        if (gaps.length < DIFF_SAMPLE_LIMIT) gaps.push({ band: bandKeys[b], cepInicio: _cepStr(reach + 1), cepFim: _cepStr(start - 1) });
+      }
+      if (end > reach) { reach = end; reachRow = list[k]; }
+    }
+  }
+  return { gaps: gaps, overlaps: overlaps, gapCount: gapCount, overlapCount: overlapCount };
+}
+
+/** Rows added/removed/price-changed (same CEP range + weight band) + coverage of the new rows */
+export function diffTableRows(before: TableRow[], after: TableRow[]): TableDiff {
+  var old: Record<string, TableRow> = {};
+  for (var i = 0; i < before.length; i++) old[_rowKey(before[i])] = before[i];
+  var seen: Record<string, boolean> = {};
+  var added: TableRow[] = [];
+  var changed: RowChange[] = [];
+  var addedCount = 0;
+  var changedCount = 0;
+  var unchanged = 0;
+  for (var j = 0; j < after.length; j++) {
+    var key = _rowKey(after[j]);
+    seen[key] = true;
+    var prev = old[key];
+    if (!prev) {
+      addedCount++;
+      if (added.length < DIFF_SAMPLE_LIMIT) added.push(after[j]);
+    } else if (Math.abs(prev.valor - after[j].valor) > 0.005 || prev.prazo !== after[j].prazo) {
+      changedCount++;
+      if (changed.length < DIFF_SAMPLE_LIMIT) {
+        changed.push({
+          key: key,
+          before: prev,
+          after: after[j],
+          pct: prev.valor > 0 ? Math.round((after[j].valor - prev.valor) / prev.valor * 1000) / 10 : null,
+        });
+      }
+    } else {
+      unchanged++;
+    }
+  }
+  var removed: TableRow[] = [];
+  var removedCount = 0;
+  for (var r = 0; r < before.length; r++) {
+    if (seen[_rowKey(before[r])]) continue;
+    removedCount++;
+    if (removed.length < DIFF_SAMPLE_LIMIT) removed.push(before[r]);
+  }
+  var coverage = coverageIssues(after);
+  return {
+    counts: {
+      before: before.length,
+      after: after.length,
+      added: addedCount,
+      removed: removedCount,
+      changed: changedCount,
+      unchanged: unchanged,
+      gaps: coverage.gapCount,
+      overlaps: coverage.overlapCount,
+    },
+    added: added,
+    removed: removed,
+    changed: changed,
+    gaps: coverage.gaps,
+    overlaps: coverage.overlaps,
+  };
+}
+
+/** Table meta for listings (no rows) with the version in effect and the next scheduled one */
+export function tableListing(table: any, at: number): any {
+  var { rows, versions: _v, ...meta } = table;
+  var versions = tableVersions(table);
+  var active = effectiveVersion(versions, at);
+  var upcoming = upcomingVersions(versions, at);
+  return {
+    ...meta,
+    rowCount: active ? active.rowCount : 0,
+    activeVersionId: active ? active.id : null,
+    activeVersion: active ? active.version : null,
+    nextVersion: upcoming.length > 0 ? { id: upcoming[0].id, version: upcoming[0].version, validFrom: upcoming[0].validFrom } : null,
+    versions: versions.slice().sort(function (a, b) { return b.version - a.version; }),
+    canRollback: rollbackPlan(versions, at) !== null,
+  };
+}
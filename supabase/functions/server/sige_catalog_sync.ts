@@ -0,0 +1,297 @@
+// ═══════════════════════════════════════════════════════════════════════
+// SIGE_CATALOG_SYNC.TS — Sincronizacao agendada com o SIGE + diario (sem KV)
+//
+// sige_sync_settings    → { enabled, intervalMinutes, batchSize }
+// sige_sync_state       → cursores (lista de SKUs locais e paginas de /product
+//                         do SIGE), ultima execucao/sucesso, falhas seguidas
+// sige_sync_runs        → ultimas execucoes (resumo + falhas por SKU)
+// sige_sync_journal     → o que mudou: SKU novo no SIGE, preco de tabela
+//                         alterado, estoque zerado ou de volta
+// sige_sync_known_codes → codigos de produto SIGE ja vistos
+//
+// Cada execucao pega um lote de SKUs locais a partir do cursor e consulta
+// saldo e preco sem cache (aquecendo sige_balance_/sige_price_), mais uma
+// pagina do catalogo SIGE; o cursor da a volta no fim da lista. A primeira
+// volta no catalogo SIGE so monta a base de codigos, sem registrar "SKU novo".
+// ═══════════════════════════════════════════════════════════════════════
+
+export type SigeSyncTrigger = "cron" | "manual";
+export type SigeSyncRunStatus = "ok" | "partial" | "failed" | "skipped";
+export type SigeSyncChangeType = "new_sku" | "price_change" | "out_of_stock" | "back_in_stock";
+
+export interface SigeSyncSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  /** Local SKUs per run (balance + price) */
+  batchSize: number;
+}
+
+export interface SigeSyncState {
+  /** Position in the sorted local SKU list */
+  skuOffset: number;
+  /** 1-based offset for SIGE /product paging */
+  productOffset: number;
+  /** First full pass over the SIGE catalog done ("new SKU" only after it) */
+  catalogBaseline: boolean;
+  /** Full passes over the local SKU list */
+  passes: number;
+  lastRunAt: number | null;
+  lastOkAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+export interface SigeSyncFailure {
+  sku: string;
+  stage: "stock" | "price" | "catalog";
+  error: string;
+}
+
+export interface SigeSyncRun {
+  id: string;
+  trigger: SigeSyncTrigger;
+  status: SigeSyncRunStatus;
+  startedAt: number;
+  finishedAt: number;
+  skuFrom: number;
+  skus: number;
+  totalSkus: number;
+  balances: number;
+  prices: number;
+  notFound: number;
+  catalogItems: number;
+  newMappings: number;
+  changes: number;
+  failures: SigeSyncFailure[];
+  error?: string;
+}
+
+export interface SigeSyncChange {
+  id: string;
+  runId: string;
+  at: number;
+  type: SigeSyncChangeType;
+  sku: string;
+  titulo: string;
+  /** Reais (price) or available units (stock); null for new SKUs */
+  before: number | null;
+  after: number | null;
+  /** new_sku: a store product already uses this code */
+  inCatalog?: boolean;
+}
+
+export interface SigeSyncHealth {
+  status: "ok" | "failing" | "stale" | "disabled" | "never";
+  lastRunAt: number | null;
+  lastOkAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  /** SKU failures in the latest run */
+  lastRunFailures: number;
+}
+
+export var SIGE_SYNC_SETTINGS_KEY = "sige_sync_settings";
+export var SIGE_SYNC_STATE_KEY = "sige_sync_state";
+export var SIGE_SYNC_RUNS_KEY = "sige_sync_runs";
+export var SIGE_SYNC_JOURNAL_KEY = "sige_sync_journal";
+export var SIGE_SYNC_KNOWN_CODES_KEY = "sige_sync_known_codes";
+
+/** SIGE /product page size pulled per run */
+export var SIGE_SYNC_PRODUCT_PAGE = 200;
+/** The saldos/precos-bulk routes take at most 50 SKUs per call */
+export var SIGE_SYNC_CALL_SIZE = 50;
+
+var MAX_RUNS = 50;
+var MAX_JOURNAL = 1000;
+var MAX_FAILURES_PER_RUN = 100;
+var MAX_KNOWN_CODES = 50000;
+/** Price moves smaller than this (reais) are rounding noise */
+var PRICE_EPSILON = 0.005;
+
+export var DEFAULT_SIGE_SYNC_SETTINGS: SigeSyncSettings = { enabled: true, intervalMinutes: 60, batchSize: 100 };
+
+function _obj(raw: any): any {
+  var v = typeof raw === "string" ? JSON.parse(raw) : raw;
+  return v && typeof v === "object" ? v : null;
+}
+
+export function parseSyncSettings(raw: any): SigeSyncSettings {
+  var s = _obj(raw);
+  if (!s) return { ...DEFAULT_SIGE_SYNC_SETTINGS };
+  return {
+    enabled: s.enabled !== false,
+    intervalMinutes: Number(s.intervalMinutes) || DEFAULT_SIGE_SYNC_SETTINGS.intervalMinutes,
+    batchSize: Number(s.batchSize) || DEFAULT_SIGE_SYNC_SETTINGS.batchSize,
+  };
+}
+
+/** Settings from an admin PUT (partial), merged over the current ones */
+export function mergeSyncSettings(current: SigeSyncSettings, body: any): { settings?: SigeSyncSettings; error?: string } {
+  var next = { ...current };
+  if (body.enabled !== undefined) next.enabled = body.enabled === true;
+  if (body.intervalMinutes !== undefined) {
+    var iv = Math.round(Number(body.intervalMinutes));
+    if (!(iv >= 15 && iv <= 1440)) return { error: "Intervalo deve ficar entre 15 e 1440 minutos." };
+    next.intervalMinutes = iv;
+  }
+  if (body.batchSize !== undefined) {
+    var bs = Math.round(Number(body.batchSize));
+    if (!(bs >= 10 && bs <= 500)) return { error: "Lote deve ficar entre 10 e 500 SKUs." };
+    next.batchSize = bs;
+  }
+  return { settings: next };
+}
+
+export function parseSyncState(raw: any): SigeSyncState {
+  var s = _obj(raw) || {};
+  return {
+    skuOffset: Math.max(0, Number(s.skuOffset) || 0),
+    productOffset: Math.max(1, Number(s.productOffset) || 1),
+    catalogBaseline: s.catalogBaseline === true,
+    passes: Number(s.passes) || 0,
+    lastRunAt: s.lastRunAt || null,
+    lastOkAt: s.lastOkAt || null,
+    lastFailureAt: s.lastFailureAt || null,
+    lastError: s.lastError || null,
+    consecutiveFailures: Number(s.consecutiveFailures) || 0,
+  };
+}
+
+export function parseSyncList<T>(raw: any): T[] {
+  var list = typeof raw === "string" ? JSON.parse(raw) : raw;
+  return Array.isArray(list) ? list : [];
+}
+
+export function syncIsDue(settings: SigeSyncSettings, state: SigeSyncState, now: number): boolean {
+  if (!settings.enabled) return false;
+  return !state.lastRunAt || now - state.lastRunAt >= settings.intervalMinutes * 60 * 1000;
+}
+
+/** The next slice of the sorted SKU list; wraps to the start after the end */
+export function nextSkuBatch(skus: string[], offset: number, size: number): { batch: string[]; start: number; nextOffset: number; wrapped: boolean } {
+  if (skus.length === 0) return { batch: [], start: 0, nextOffset: 0, wrapped: false };
+  var start = offset < skus.length ? offset : 0;
+  var batch = skus.slice(start, start + size);
+  var end = start + batch.length;
+  return { batch: batch, start: start, nextOffset: end >= skus.length ? 0 : end, wrapped: end >= skus.length };
+}
+
+/** SIGE available (quantidade − reservado), ignoring the checkout holds the saldos route takes off */
+export function rawAvailable(balance: any): number {
+  if (balance.quantidade === undefined || balance.quantidade === null) return Number(balance.disponivel) || 0;
+  return (Number(balance.quantidade) || 0) - (Number(balance.reservado) || 0);
+}
+
+/** out_of_stock / back_in_stock between two balance cache entries (null = no change) */
+export function stockChange(before: any, after: any): { type: SigeSyncChangeType; before: number; after: number } | null {
+  if (!before || !before.found || !after || !after.found || after.timedOut) return null;
+  var b = rawAvailable(before);
+  var a = rawAvailable(after);
+  if (b > 0 && a <= 0) return { type: "out_of_stock", before: b, after: a };
+  if (b <= 0 && a > 0) return { type: "back_in_stock", before: b, after: a };
+  return null;
+}
+
+/** List price delta between two SIGE price cache entries of the same tier */
+export function priceChange(before: any, after: any): { before: number; after: number } | null {
+  if (!before || !after || !before.found || !after.found) return null;
+  if (before.source !== "sige" || after.source !== "sige" || before.tier !== after.tier) return null;
+  var b = Number(before.price);
+  var a = Number(after.price);
+  if (!(b > 0) || !(a > 0) || Math.abs(a - b) < PRICE_EPSILON) return null;
+  return { before: b, after: a };
+}
+
+export function sigeProductCode(item: any): string {
+  return String((item && (item.codProduto || item.id)) || "").trim();
+}
+
+export function sigeProductTitle(item: any): string {
+  return String((item && (item.descProdutoEst || item.descricao || item.descProduto)) || "");
+}
+
+/** Codes in the page not seen before; known gets them added (capped) */
+export function newCatalogCodes(known: string[], items: any[]): { fresh: any[]; known: string[] } {
+  var seen: Record<string, boolean> = {};
+  for (var i = 0; i < known.length; i++) seen[known[i]] = true;
+  var fresh: any[] = [];
+  var added: string[] = [];
+  for (var j = 0; j < items.length; j++) {
+    var code = sigeProductCode(items[j]);
+    if (!code || seen[code]) continue;
+    seen[code] = true;
+    fresh.push(items[j]);
+    added.push(code);
+  }
+  var next = known.concat(added);
+  if (next.length > MAX_KNOWN_CODES) next = next.slice(next.length - MAX_KNOWN_CODES);
+  return { fresh: fresh, known: next };
+}
+
+export function capFailures(failures: SigeSyncFailure[]): SigeSyncFailure[] {
+  return failures.slice(0, MAX_FAILURES_PER_RUN);
+}
+
+/** ok / partial / failed from what the run got back */
+export function runStatus(run: { skus: number; balances: number; prices: number; notFound: number; failures: SigeSyncFailure[]; error?: string }): SigeSyncRunStatus {
+  if (run.error) return "failed";
+  if (run.failures.length === 0) return "ok";
+  return run.balances + run.prices + run.notFound > 0 ? "partial" : "failed";
+}
+
+/** State after a finished run (cursors are set by the caller) */
+export function recordRunOutcome(state: SigeSyncState, run: SigeSyncRun): SigeSyncState {
+  var next = { ...state, lastRunAt: run.finishedAt };
+  if (run.status === "skipped") return next;
+  if (run.status === "failed") {
+    next.lastFailureAt = run.finishedAt;
+    next.lastError = run.error || (run.failures[0] ? run.failures[0].sku + ": " + run.failures[0].error : "Falha na sincronizacao.");
+    next.consecutiveFailures = state.consecutiveFailures + 1;
+    return next;
+  }
+  next.lastOkAt = run.finishedAt;
+  next.consecutiveFailures = 0;
+  if (run.status === "partial") {
+    next.lastFailureAt = run.finishedAt;
+    next.lastError = run.failures.length + " SKU(s) com falha na ultima execucao.";
+  } else {
+    next.lastError = null;
+  }
+  return next;
+}
+
+export function appendRun(runs: SigeSyncRun[], run: SigeSyncRun): SigeSyncRun[] {
+  return [run].concat(runs).slice(0, MAX_RUNS);
+}
+
+export function appendJournal(journal: SigeSyncChange[], changes: SigeSyncChange[]): SigeSyncChange[] {
+  return changes.concat(journal).slice(0, MAX_JOURNAL);
+}
+
+export function filterJournal(journal: SigeSyncChange[], opts: { type?: string; sku?: string; limit: number }): SigeSyncChange[] {
+  var q = (opts.sku || "").trim().toLowerCase();
+  return journal.filter(function (c) {
+    if (opts.type && c.type !== opts.type) return false;
+    if (q && c.sku.toLowerCase().indexOf(q) < 0 && (c.titulo || "").toLowerCase().indexOf(q) < 0) return false;
+    return true;
+  }).slice(0, opts.limit);
+}
+
+/** Dashboard summary: failing after a failed run, stale when nothing succeeded for 3 intervals */
+export function syncHealth(settings: SigeSyncSettings, state: SigeSyncState, lastRun: SigeSyncRun | null, now: number): SigeSyncHealth {
+  var status: SigeSyncHealth["status"];
+  if (!settings.enabled) status = "disabled";
+  else if (!state.lastRunAt) status = "never";
+  else if (state.consecutiveFailures > 0) status = "failing";
+  else if (!state.lastOkAt || now - state.lastOkAt > settings.intervalMinutes * 3 * 60 * 1000) status = "stale";
+  else status = "ok";
+  return {
+    status: status,
+    lastRunAt: state.lastRunAt,
+    lastOkAt: state.lastOkAt,
+    lastError: state.lastError,
+    consecutiveFailures: state.consecutiveFailures,
+    lastRunFailures: lastRun ? lastRun.failures.length : 0,
+  };
+}
@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════════════════════
+// SIGNED_TOKENS.TS — Links assinados sem login (e-mail, WhatsApp)
+//
+// token = base64url(payload) + "." + HMAC-SHA256 truncado (32 hex). A chave e
+// derivada da service role por finalidade ("<purpose>:<service role>"): um
+// token de descadastro de e-mail nao abre avaliacao nem cancela aviso de
+// estoque, e o de cancelar aviso nao confirma aviso de visitante. O payload e texto livre; cada modulo monta e interpreta o seu
+// (email_tracking.ts, review_requests.ts, product_alerts.ts; wa_optout = telefone).
+// ═══════════════════════════════════════════════════════════════════════
+
+export type TokenPurpose = "emkt" | "review_request" | "product_alert" | "product_alert_confirm" | "wa_optout";
+
+var SIG_BYTES = 16;
+
+function _b64urlEncode(text: string): string {
+  return btoa(unescape(encodeURIComponent(text))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function _b64urlDecode(b64url: string): string {
+  var b64 = b64url.replace(/-/g, "+").replace(/_/g, "/");
+  return decodeURIComponent(escape(atob(b64 + "===".slice((b64.length + 3) % 4))));
+}
+
+/** Hex HMAC of the payload under the purpose key (also usable alone, e.g. webhook secrets) */
+export async function tokenSignature(purpose: TokenPurpose, payload: string): Promise<string> {
+  var secret = purpose + ":" + (Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "");
+  var key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  var sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(sig)).slice(0, SIG_BYTES).map(function (b) { return b.toString(16).padStart(2, "0"); }).join("");
+}
+
+export async function signToken(purpose: TokenPurpose, payload: string): Promise<string> {
+  return _b64urlEncode(payload) + "." + (await tokenSignature(purpose, payload));
+}
+
+/** The signed payload, or null when the token is malformed or not signed for `purpose` */
+export async function verifyToken(purpose: TokenPurpose, token: string): Promise<string | null> {
+  var parts = String(token || "").split(".");
+  if (parts.length !== 2 || !parts[0] || !/^[0-9a-f]{32,64}$/.test(parts[1])) return null;
+  var payload: string;
+  try {
+    payload = _b64urlDecode(parts[0]);
+  } catch {
+    return null;
+  }
+  var expected = await tokenSignature(purpose, payload);
+  if (expected.length !== parts[1].length) return null;
+  var diff = 0;
+  for (var i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ parts[1].charCodeAt(i);
+  return diff === 0 ? payload : null;
+}
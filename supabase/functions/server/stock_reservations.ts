@@ -0,0 +1,134 @@
+// ═══════════════════════════════════════════════════════════════════════
+// STOCK_RESERVATIONS.TS — Reservas de estoque do checkout (sem acesso a KV)
+//
+// O saldo vem do SIGE (cache sige_balance_<sku>) e so baixa quando o pedido e
+// confirmado la. Enquanto um PIX ou boleto esta pendente, a unidade continua
+// "disponivel" e dois clientes podem comprar a ultima peca.
+//
+// stock_reservation:<sku> → { sku, holds[] } — uma reserva por pedido
+// (orderKey = user_order:<userId>:<localOrderId>), criada pela rota de
+// cobranca antes de chamar o gateway (sem saldo: cobranca recusada, nada
+// reservado) e renovada no save-order, com validade pelo meio de pagamento. disponivel publico = saldo SIGE − reservas
+// ativas. A reserva sai quando o pedido deixa "awaiting_payment" (pago: o SIGE
+// ja baixou; cancelado: volta ao estoque) ou quando vence — reservas vencidas
+// sao ignoradas na soma e limpas na proxima escrita da chave.
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface StockHold {
+  orderKey: string;
+  qty: number;
+  paymentMethod: string;
+  createdAt: number;
+  expiresAt: number;
+  /** Reserved beyond what the cached balance allowed (lost a race at save-order) */
+  short?: boolean;
+}
+
+export interface StockReservationRecord {
+  sku: string;
+  holds: StockHold[];
+  updatedAt: number;
+}
+
+/** What the order keeps to release its holds later */
+export interface OrderStockReservation {
+  skus: string[];
+  expiresAt: number;
+  createdAt: number;
+  short?: string[];
+}
+
+var MINUTE = 60 * 1000;
+var DAY = 24 * 60 * MINUTE;
+
+/**
+ * Hold duration per payment method. PIX expires in minutes; a boleto is
+ * issued for 3 days and takes up to one more business day to clear.
+ */
+export var RESERVATION_TTL_MS: Record<string, number> = {
+  pix: 30 * MINUTE,
+  boleto: 4 * DAY,
+  cartao_credito: 30 * MINUTE,
+  credit_card: 30 * MINUTE,
+  mercadopago: 2 * 60 * MINUTE,
+};
+var DEFAULT_TTL_MS = 60 * MINUTE;
+
+export var STOCK_RESERVATION_PREFIX = "stock_reservation:";
+
+export function reservationKey(sku: string): string {
+  return STOCK_RESERVATION_PREFIX + sku;
+}
+
+export function reservationTtlMs(paymentMethod: any): number {
+  var m = String(paymentMethod || "").toLowerCase();
+  return RESERVATION_TTL_MS[m] || DEFAULT_TTL_MS;
+}
+
+/** Only unpaid orders hold stock */
+export function holdsStock(orderStatus: string | null): boolean {
+  return orderStatus === "awaiting_payment";
+}
+
+/** Order items summed per SKU (the same SKU may appear twice with different warranties) */
+export function reservationLines(items: any[]): Array<{ sku: string; qty: number }> {
+  var bySku: Record<string, number> = {};
+  var order: string[] = [];
+  for (var i = 0; i < (items || []).length; i++) {
+    var it = items[i];
+    if (!it) continue;
+    var sku = String(it.sku || it.codProduto || "").trim();
+    var qty = Math.max(1, Math.floor(Number(it.quantidade ?? it.quantity ?? it.qtd) || 1));
+    if (!sku) continue;
+    if (bySku[sku] === undefined) { bySku[sku] = 0; order.push(sku); }
+    bySku[sku] += qty;
+  }
+  return order.map(function (s) { return { sku: s, qty: bySku[s] }; });
+}
+
+export function parseReservation(raw: any, sku: string): StockReservationRecord {
+  var rec = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!rec || !Array.isArray(rec.holds)) return { sku: sku, holds: [], updatedAt: 0 };
+  return rec;
+}
+
+export function activeHolds(rec: StockReservationRecord, now: number): StockHold[] {
+  return rec.holds.filter(function (h) { return h.expiresAt > now; });
+}
+
+/** Units held by unexpired reservations, optionally ignoring one order's own hold */
+export function heldQty(rec: StockReservationRecord, now: number, exceptOrderKey?: string): number {
+  var total = 0;
+  var holds = activeHolds(rec, now);
+  for (var i = 0; i < holds.length; i++) if (holds[i].orderKey !== exceptOrderKey) total += holds[i].qty;
+  return total;
+}
+
+/**
+ * Record with the order's hold set (replacing a previous one) and expired
+ * holds dropped. available = cached SIGE balance, null when unknown.
+ */
+export function withHold(rec: StockReservationRecord, hold: StockHold, available: number | null, now: number): StockReservationRecord {
+  var others = activeHolds(rec, now).filter(function (h) { return h.orderKey !== hold.orderKey; });
+  var taken = 0;
+  for (var i = 0; i < others.length; i++) taken += others[i].qty;
+  var next: StockHold = { ...hold };
+  if (available !== null && taken + hold.qty > available) next.short = true;
+  else delete next.short;
+  return { sku: rec.sku, holds: others.concat([next]), updatedAt: now };
+}
+
+/** Record without the order's hold; null when the order held nothing there */
+export function withoutHold(rec: StockReservationRecord, orderKey: string, now: number): StockReservationRecord | null {
+  var had = false;
+  for (var i = 0; i < rec.holds.length; i++) if (rec.holds[i].orderKey === orderKey) had = true;
+  if (!had) return null;
+  return { sku: rec.sku, holds: activeHolds(rec, now).filter(function (h) { return h.orderKey !== orderKey; }), updatedAt: now };
+}
+
+/** Public balance with checkout reservations taken out of disponivel */
+export function applyReservations(balance: any, held: number): any {
+  if (!balance || !balance.found || !(held > 0)) return balance;
+  var disp = Number(balance.disponivel ?? balance.quantidade ?? 0) || 0;
+  return { ...balance, disponivel: Math.max(0, disp - held), reservadoPedidos: held };
+}
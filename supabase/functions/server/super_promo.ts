@@ -0,0 +1,177 @@
+// ═══════════════════════════════════════════════════════════════════════
+// SUPER_PROMO.TS — Campanhas Super Promo (sem acesso a KV)
+//
+// Varias campanhas podem coexistir (ex.: Black Friday + relampago de fim de
+// semana). Cada uma tem janela startDate/endDate, prioridade, lista de produtos
+// e slot na homepage. resolveSuperPromos() decide, para cada SKU, qual campanha
+// vale AGORA:
+//   1. So entram campanhas enabled, dentro da janela e com produtos
+//   2. Ordem: maior priority → inicio mais recente → id (desempate estavel)
+//   3. O SKU fica com a primeira campanha da ordem que o contem
+// Cada campanha resolvida carrega apenas os SKUs que ganhou; o slot "top"/"middle"
+// da homepage mostra a campanha de maior prioridade configurada para ele.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type PromoHomepageSlot = "top" | "middle" | "none";
+
+export var PROMO_HOMEPAGE_SLOTS: PromoHomepageSlot[] = ["top", "middle", "none"];
+
+export interface SuperPromoProduct {
+  sku: string;
+  titulo: string;
+  promoPrice: number | null;
+  originalPrice?: number | null;
+  customDiscountType?: "percentage" | "fixed" | null;
+  customDiscountValue?: number | null;
+}
+
+export interface SuperPromoCampaign {
+  id: string;
+  title: string;
+  subtitle: string;
+  enabled: boolean;
+  startDate: number;
+  endDate: number;
+  priority: number;
+  homepageSlot: PromoHomepageSlot;
+  discountType: "percentage" | "fixed";
+  discountValue: number;
+  bgColor: string;
+  products: SuperPromoProduct[];
+  createdAt: number;
+  updatedAt: number;
+  updatedBy?: string;
+}
+
+export type PromoCampaignStatus = "active" | "scheduled" | "ended" | "disabled" | "empty";
+
+export interface ResolvedSuperPromos {
+  /** Active campaigns (priority order), each with only the SKUs it won */
+  campaigns: SuperPromoCampaign[];
+  /** sku → id of the winning campaign */
+  skuCampaigns: Record<string, string>;
+  /** Campaign shown in each homepage slot (null = slot empty) */
+  slots: { top: string | null; middle: string | null };
+}
+
+var MAX_PROMO_PRODUCTS = 300;
+
+/** Unwraps the KV value ({value: ...} jsonb wrapper, JSON string, double-encoded JSON) */
+export function parsePromoValue(raw: any): any {
+  if (!raw) return null;
+  if (typeof raw === "object" && !Array.isArray(raw) && raw.value !== undefined) raw = raw.value;
+  var parsed = raw;
+  try {
+    if (typeof parsed === "string") parsed = JSON.parse(parsed);
+    if (typeof parsed === "string") parsed = JSON.parse(parsed);
+  } catch (_e) {
+    return null;
+  }
+  return parsed && typeof parsed === "object" ? parsed : null;
+}
+
+function _num(raw: any, fallback: number, min: number, max: number): number {
+  var n = Number(raw);
+  if (raw === null || raw === undefined || raw === "" || !isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+function _normalizeProducts(raw: any): SuperPromoProduct[] {
+  if (!Array.isArray(raw)) return [];
+  var out: SuperPromoProduct[] = [];
+  var seen: Record<string, boolean> = {};
+  for (var i = 0; i < raw.length && out.length < MAX_PROMO_PRODUCTS; i++) {
+    var p = raw[i];
+    if (!p || typeof p !== "object") continue;
+    var sku = String(p.sku || "").trim().substring(0, 100);
+    if (!sku || seen[sku]) continue;
+    seen[sku] = true;
+    var customType = p.customDiscountType === "percentage" || p.customDiscountType === "fixed" ? p.customDiscountType : null;
+    var promoPrice = p.promoPrice === null || p.promoPrice === undefined || p.promoPrice === "" ? null : _num(p.promoPrice, 0, 0, 9999999);
+    out.push({
+      sku: sku,
+      titulo: String(p.titulo || sku).substring(0, 300),
+      promoPrice: promoPrice,
+      originalPrice: p.originalPrice === null || p.originalPrice === undefined ? null : _num(p.originalPrice, 0, 0, 9999999),
+      customDiscountType: customType,
+      customDiscountValue: customType ? _num(p.customDiscountValue, 0, 0, customType === "percentage" ? 100 : 9999999) : null,
+    });
+  }
+  return out;
+}
+
+/**
+ * Builds a campaign from an admin payload, keeping `prev` values for omitted fields.
+ * Legacy single-promo records (no priority/slot) normalize to priority 0 / slot "top".
+ */
+export function normalizePromoCampaign(body: any, prev?: any): SuperPromoCampaign {
+  var b = body || {};
+  var p = prev || {};
+  var now = Date.now();
+  var pick = function (key: string) { return b[key] !== undefined ? b[key] : p[key]; };
+  var discountType = pick("discountType") === "fixed" ? "fixed" : "percentage";
+  var slot = pick("homepageSlot");
+  return {
+    id: String(p.id || b.id || ("promo_" + now)).substring(0, 60),
+    title: String(pick("title") || "Super Promoção").substring(0, 200),
+    subtitle: String(pick("subtitle") || "").substring(0, 500),
+    enabled: pick("enabled") === true,
+    startDate: _num(pick("startDate"), now, 0, 8640000000000000),
+    endDate: _num(pick("endDate"), now + 7 * 24 * 3600000, 0, 8640000000000000),
+    priority: Math.round(_num(pick("priority"), 0, 0, 100)),
+    homepageSlot: PROMO_HOMEPAGE_SLOTS.indexOf(slot) !== -1 ? slot : "top",
+    discountType: discountType,
+    discountValue: _num(pick("discountValue"), 10, 0, discountType === "percentage" ? 100 : 9999999),
+    bgColor: String(pick("bgColor") || "#dc2626").substring(0, 20),
+    products: _normalizeProducts(pick("products")),
+    createdAt: _num(p.createdAt, now, 0, 8640000000000000),
+    updatedAt: _num(p.updatedAt, now, 0, 8640000000000000),
+    updatedBy: p.updatedBy,
+  };
+}
+
+/** Returns an error message, or null when the campaign can be saved */
+export function checkPromoCampaign(c: SuperPromoCampaign): string | null {
+  if (c.endDate <= c.startDate) return "A data de termino deve ser posterior ao inicio.";
+  if (c.enabled && c.endDate < Date.now()) return "A data de termino ja passou. Atualize o periodo antes de ativar a campanha.";
+  if (c.enabled && c.products.length === 0) return "Adicione pelo menos 1 produto antes de ativar a campanha.";
+  return null;
+}
+
+export function promoCampaignStatus(c: SuperPromoCampaign, now: number): PromoCampaignStatus {
+  if (!c.enabled) return "disabled";
+  if (now > c.endDate) return "ended";
+  if (now < c.startDate) return "scheduled";
+  if (!c.products || c.products.length === 0) return "empty";
+  return "active";
+}
+
+/** Priority order used by the resolver (also used to list campaigns in the admin) */
+export function comparePromoCampaigns(a: SuperPromoCampaign, b: SuperPromoCampaign): number {
+  if (b.priority !== a.priority) return b.priority - a.priority;
+  if (b.startDate !== a.startDate) return b.startDate - a.startDate;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function resolveSuperPromos(list: SuperPromoCampaign[], now: number): ResolvedSuperPromos {
+  var active = list.filter(function (c) { return promoCampaignStatus(c, now) === "active"; });
+  active.sort(comparePromoCampaigns);
+
+  var skuCampaigns: Record<string, string> = {};
+  var campaigns: SuperPromoCampaign[] = [];
+  for (var i = 0; i < active.length; i++) {
+    var won = active[i].products.filter(function (p) {
+      if (skuCampaigns[p.sku]) return false;
+      skuCampaigns[p.sku] = active[i].id;
+      return true;
+    });
+    if (won.length > 0) campaigns.push({ ...active[i], products: won });
+  }
+
+  var slots: ResolvedSuperPromos["slots"] = { top: null, middle: null };
+  for (var j = 0; j < campaigns.length; j++) {
+    var slot = campaigns[j].homepageSlot;
+    if ((slot === "top" || slot === "middle") && !slots[slot]) slots[slot] = campaigns[j].id;
+  }
+  return { campaigns: campaigns, skuCampaigns: skuCampaigns, slots: slots };
+}
@@ -313,6 +313,8 @@ export var schemas = {
     code: { required: true, type: "string" as const, maxLen: 50 },
     orderTotal: { type: "number" as const, min: 0, max: 99999999 },
     cpf: { type: "string" as const, maxLen: 20 },
+    items: { type: "array" as const, maxItems: 200 },
+    shipping: { type: "object" as const },
   },
   couponUse: {
     code: { required: true, type: "string" as const, maxLen: 50 },
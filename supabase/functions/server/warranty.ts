@@ -0,0 +1,213 @@
+// ═══════════════════════════════════════════════════════════════════════
+// WARRANTY.TS — Garantias estendidas vendidas + acionamentos (sem acesso a KV)
+//
+// Registro: derivado dos pedidos pagos (user_order.items[].warranty), sem copia
+// propria — cada linha com garantia vira um certificado "GE-<pedido>-<NNN>"
+// (mesmo numero do e-mail warranty_certificate), vigente do pagamento ate
+// pagamento + durationMonths. Como o status e recalculado a cada leitura, a
+// garantia caduca sozinha quando o pedido e reembolsado/cancelado/devolvido
+// ou quando as unidades da linha sao reembolsadas (user_order.refunds[].items).
+//
+// Acionamentos (warranty_claim:<id>):
+//   submitted → approved → replacement_sent → resolved
+//   submitted → denied | cancelled (cliente desiste)
+//   approved  → resolved (reparo / credito, sem envio de peca)
+// ═══════════════════════════════════════════════════════════════════════
+
+import { normalizeOrderStatus, PURCHASED_ORDER_STATUSES, type OrderActor } from "./order_status.ts";
+import { refundedQuantities, orderFullyRefunded } from "./refunds.ts";
+
+export type WarrantyStatus = "active" | "expired" | "lapsed";
+
+export type WarrantyClaimStatus = "submitted" | "approved" | "denied" | "replacement_sent" | "resolved" | "cancelled";
+
+export var WARRANTY_CLAIM_STATUSES: WarrantyClaimStatus[] = [
+  "submitted", "approved", "denied", "replacement_sent", "resolved", "cancelled",
+];
+
+export var WARRANTY_CLAIM_TRANSITIONS: Record<WarrantyClaimStatus, WarrantyClaimStatus[]> = {
+  submitted: ["approved", "denied", "cancelled"],
+  approved: ["replacement_sent", "resolved"],
+  replacement_sent: ["resolved"],
+  denied: [],
+  resolved: [],
+  cancelled: [],
+};
+
+/** Claims that still block a new claim on the same certificate */
+export var WARRANTY_CLAIM_OPEN_STATUSES: WarrantyClaimStatus[] = ["submitted", "approved", "replacement_sent"];
+
+export interface WarrantyEntry {
+  certificateId: string;
+  orderId: string;
+  userId: string | null;
+  sku: string;
+  titulo: string;
+  planId: string;
+  planName: string;
+  durationMonths: number;
+  price: number;
+  /** Units bought on the line / units still covered after refunds */
+  units: number;
+  coveredUnits: number;
+  startsAt: string;
+  expiresAt: string;
+  status: WarrantyStatus;
+  lapsedReason?: string;
+}
+
+export interface WarrantyClaimChange {
+  from: WarrantyClaimStatus | null;
+  to: WarrantyClaimStatus;
+  at: string;
+  by: OrderActor;
+  note?: string;
+}
+
+var MAX_HISTORY = 50;
+
+/** When the payment was confirmed: "paid" history entry, else paidAt/createdAt */
+function _paidAt(order: any): string | null {
+  var history = Array.isArray(order.statusHistory) ? order.statusHistory : [];
+  for (var i = 0; i < history.length; i++) {
+    if (history[i] && history[i].to === "paid") return history[i].at;
+  }
+  return order.paidAt || order.createdAt || null;
+}
+
+function _addMonths(iso: string, months: number): string {
+  var d = new Date(iso);
+  d.setMonth(d.getMonth() + months);
+  return d.toISOString();
+}
+
+/**
+ * Warranties sold in an order. Orders that never got paid yield nothing;
+ * cancelled/returned/fully refunded orders yield lapsed entries so the
+ * certificate can still be looked up.
+ */
+export function orderWarranties(order: any, now: number): WarrantyEntry[] {
+  var status = normalizeOrderStatus(order.status);
+  var everPaid = !!status && (PURCHASED_ORDER_STATUSES.indexOf(status) !== -1 || status === "returned" ||
+    (status === "cancelled" && (Number(order.refundedTotal) || 0) > 0));
+  if (!everPaid) return [];
+  var paidAt = _paidAt(order);
+  if (!paidAt || !isFinite(new Date(paidAt).getTime())) return [];
+
+  var orderId = String(order.localOrderId || "");
+  var refundedQty = refundedQuantities(order, true);
+  var fullyRefunded = orderFullyRefunded(order);
+  var items = Array.isArray(order.items) ? order.items : [];
+  var out: WarrantyEntry[] = [];
+  var n = 0;
+  for (var i = 0; i < items.length; i++) {
+    var it = items[i];
+    if (!it || !it.warranty || !it.warranty.planId) continue;
+    n++;
+    var months = Number(it.warranty.durationMonths) || 12;
+    var units = Number(it.quantidade) || 1;
+    var covered = Math.max(0, units - (refundedQty[String(it.sku || "")] || 0));
+    var entry: WarrantyEntry = {
+      // Same numbering as _buildWarrantyCertificateHtml (position among the warranty lines)
+      certificateId: "GE-" + orderId + "-" + String(n).padStart(3, "0"),
+      orderId: orderId,
+      userId: order.createdBy || null,
+      sku: String(it.sku || ""),
+      titulo: String(it.titulo || it.sku || ""),
+      planId: String(it.warranty.planId),
+      planName: String(it.warranty.name || ""),
+      durationMonths: months,
+      price: Number(it.warranty.price) || 0,
+      units: units,
+      coveredUnits: covered,
+      startsAt: new Date(paidAt).toISOString(),
+      expiresAt: _addMonths(paidAt, months),
+      status: "active",
+    };
+    if (status === "cancelled" || status === "returned" || fullyRefunded) {
+      entry.status = "lapsed";
+      entry.coveredUnits = 0;
+      entry.lapsedReason = status === "returned" ? "Pedido devolvido" : fullyRefunded ? "Pedido reembolsado" : "Pedido cancelado";
+    } else if (covered === 0) {
+      entry.status = "lapsed";
+      entry.lapsedReason = "Item reembolsado";
+    } else if (now > new Date(entry.expiresAt).getTime()) {
+      entry.status = "expired";
+    }
+    out.push(entry);
+  }
+  return out;
+}
+
+export function isWarrantyClaimOpen(claim: any): boolean {
+  return WARRANTY_CLAIM_OPEN_STATUSES.indexOf(claim && claim.status) !== -1;
+}
+
+/** Returns an error message, or null when the customer may open a claim on this certificate */
+export function checkClaimEligibility(entry: WarrantyEntry | null, existingClaims: any[]): string | null {
+  if (!entry) return "Garantia nao encontrada.";
+  if (entry.status === "lapsed") return "Esta garantia foi cancelada (" + (entry.lapsedReason || "pedido reembolsado").toLowerCase() + ").";
+  if (entry.status === "expired") return "Esta garantia venceu em " + new Date(entry.expiresAt).toLocaleDateString("pt-BR") + ".";
+  for (var i = 0; i < existingClaims.length; i++) {
+    if (existingClaims[i].certificateId === entry.certificateId && isWarrantyClaimOpen(existingClaims[i])) {
+      return "Ja existe um acionamento em andamento para esta garantia (" + existingClaims[i].id + ").";
+    }
+  }
+  return null;
+}
+
+/** Same contract as transitionOrder(): illegal moves are rejected, history is appended */
+export function transitionClaim(
+  claim: any,
+  to: WarrantyClaimStatus,
+  actor: OrderActor,
+  note?: string
+): { ok: true } | { ok: false; error: string; allowed: WarrantyClaimStatus[] } {
+  var from: WarrantyClaimStatus = claim.status;
+  var allowed = WARRANTY_CLAIM_TRANSITIONS[from] || [];
+  if (allowed.indexOf(to) === -1) {
+    return { ok: false, error: "Transicao invalida: " + from + " → " + to + ".", allowed: allowed.slice() };
+  }
+  var at = new Date().toISOString();
+  var by: OrderActor = { type: actor.type };
+  if (actor.id) by.id = String(actor.id).substring(0, 100);
+  if (actor.name) by.name = String(actor.name).substring(0, 120);
+  var entry: WarrantyClaimChange = { from: from, to: to, at: at, by: by };
+  if (note) entry.note = String(note).substring(0, 500);
+  if (!Array.isArray(claim.history)) claim.history = [];
+  claim.history.push(entry);
+  if (claim.history.length > MAX_HISTORY) claim.history = claim.history.slice(claim.history.length - MAX_HISTORY);
+  claim.status = to;
+  claim.updatedAt = at;
+  return { ok: true };
+}
+
+/** Claim as shown to the customer: actor reduced to its type, only admin notes kept */
+export function publicClaim(claim: any): any {
+  var out: any = {
+    id: claim.id,
+    certificateId: claim.certificateId,
+    orderId: claim.orderId,
+    sku: claim.sku,
+    titulo: claim.titulo,
+    planName: claim.planName,
+    status: claim.status,
+    description: claim.description || "",
+    createdAt: claim.createdAt,
+    updatedAt: claim.updatedAt,
+    history: (claim.history || []).map(function (h: WarrantyClaimChange) {
+      var e: any = { from: h.from, to: h.to, at: h.at, by: { type: h.by && h.by.type ? h.by.type : "system" } };
+      if (h.note && h.by && h.by.type === "admin") e.note = h.note;
+      return e;
+    }),
+  };
+  if (claim.replacement) {
+    out.replacement = {
+      sku: claim.replacement.sku || null,
+      trackingCode: claim.replacement.trackingCode || null,
+      carrierName: claim.replacement.carrierName || null,
+      sentAt: claim.replacement.sentAt,
+    };
+  }
+  return out;
+}
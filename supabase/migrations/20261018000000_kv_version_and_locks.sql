@@ -0,0 +1,51 @@
+-- ═══════════════════════════════════════════════════════════════════════
+-- KV: versao por chave (compare-and-swap) + locks duraveis
+--
+-- version: incrementada a cada UPDATE pelo trigger — inclusive pelos upserts
+-- do kv_store.tsx, que nao sabem da coluna. Um "set se a versao ainda for N"
+-- (kv_atomic.tsx) falha quando qualquer outro escritor passou antes.
+--
+-- kv_locks_b7b07654: um lock por nome, com dono e validade. Um lock vencido
+-- (isolate que morreu segurando) e tomado pelo proximo que tentar.
+-- ═══════════════════════════════════════════════════════════════════════
+
+alter table kv_store_b7b07654
+  add column if not exists version bigint not null default 1;
+
+create or replace function kv_bump_version_b7b07654() returns trigger
+language plpgsql as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists kv_bump_version_b7b07654 on kv_store_b7b07654;
+create trigger kv_bump_version_b7b07654
+  before update on kv_store_b7b07654
+  for each row execute function kv_bump_version_b7b07654();
+
+create table if not exists kv_locks_b7b07654 (
+  name text not null primary key,
+  owner text not null,
+  expires_at timestamptz not null,
+  acquired_at timestamptz not null default now()
+);
+
+alter table kv_locks_b7b07654 enable row level security;
+
+-- true = lock obtido (livre ou vencido); o relogio e sempre o do banco
+create or replace function kv_try_lock_b7b07654(p_name text, p_owner text, p_ttl_ms integer)
+returns boolean
+language plpgsql as $$
+begin
+  insert into kv_locks_b7b07654 (name, owner, expires_at, acquired_at)
+  values (p_name, p_owner, now() + make_interval(secs => p_ttl_ms / 1000.0), now())
+  on conflict (name) do update
+    set owner = excluded.owner, expires_at = excluded.expires_at, acquired_at = excluded.acquired_at
+    where kv_locks_b7b07654.expires_at < now();
+  return found;
+end;
+$$;
+
+revoke all on function kv_try_lock_b7b07654(text, text, integer) from public, anon, authenticated;
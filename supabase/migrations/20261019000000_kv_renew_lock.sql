@@ -0,0 +1,20 @@
+-- ═══════════════════════════════════════════════════════════════════════
+-- KV: renovacao de lock
+--
+-- withLock (kv_atomic.tsx) estende a validade enquanto o trecho roda; um
+-- trecho mais lento que o TTL nao perde o lock para o proximo isolate.
+-- Retorna false quando p_owner nao e mais o dono (lock vencido e tomado).
+-- ═══════════════════════════════════════════════════════════════════════
+
+create or replace function kv_renew_lock_b7b07654(p_name text, p_owner text, p_ttl_ms integer)
+returns boolean
+language plpgsql as $$
+begin
+  update kv_locks_b7b07654
+    set expires_at = now() + make_interval(secs => p_ttl_ms / 1000.0)
+    where name = p_name and owner = p_owner;
+  return found;
+end;
+$$;
+
+revoke all on function kv_renew_lock_b7b07654(text, text, integer) from public, anon, authenticated;